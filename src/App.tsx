@@ -23,6 +23,9 @@ import { PrivacyPolicy } from './pages/PrivacyPolicy';
 import ScheduleDonation from './pages/ScheduleDonation';
 import { CommunityChat } from './pages/CommunityChat';
 import { BecomeDonor } from './pages/BecomeDonor';
+import { VerifyCertificate } from './pages/VerifyCertificate';
+import { SOSStatus } from './pages/SOSStatus';
+import { AppointmentResponse } from './pages/AppointmentResponse';
 import { ErrorBoundary } from 'react-error-boundary';
 import { Toaster } from 'react-hot-toast';
 import { useState, useEffect } from 'react';
@@ -72,6 +75,7 @@ const router = createBrowserRouter([
       { path: 'find-donors', element: <FindDonors /> },
       { path: 'emergency', element: <Emergency /> },
       { path: 'emergency-requests', element: <EmergencyRequests /> },
+      { path: 'sos/:requestId', element: <SOSStatus /> },
       { path: 'donation-camps', element: <DonationCamps /> },
       { path: 'signin', element: <SignIn /> },
       { path: 'register', element: <Register /> },
@@ -86,7 +90,10 @@ const router = createBrowserRouter([
       { path: 'blog', element: <Blog /> },
       { path: 'privacy-policy', element: <PrivacyPolicy /> },
       { path: 'schedule-donation', element: <ScheduleDonation /> },
+      { path: 'appointment/:token', element: <AppointmentResponse /> },
       { path: 'community-chat', element: <CommunityChat /> },
+      { path: 'verify-certificate', element: <VerifyCertificate /> },
+      { path: 'verify-certificate/:number', element: <VerifyCertificate /> },
       { path: '*', element: <ErrorFallback error={new Error('Page not found')} /> },
     ],
   },
@@ -0,0 +1,95 @@
+import { describe, it, expect } from 'vitest';
+import {
+  countUsableUnits,
+  isUsableUnit,
+  pickUnitsToIssue,
+  type LedgerUnit,
+} from '../lib/bloodUnitLedger';
+
+const TODAY = '2026-10-19';
+
+const unit = (overrides: Partial<LedgerUnit>): LedgerUnit => ({
+  id: overrides.bag_id ?? 'unit',
+  bag_id: 'BAG-1',
+  blood_type: 'A+',
+  component_type: 'whole_blood',
+  collection_date: '2026-10-01',
+  expiry_date: '2026-11-05',
+  status: 'available',
+  ...overrides,
+});
+
+describe('isUsableUnit', () => {
+  it('counts available bags until the end of their expiry date', () => {
+    expect(isUsableUnit(unit({ expiry_date: TODAY }), TODAY)).toBe(true);
+    expect(isUsableUnit(unit({ expiry_date: '2026-10-18' }), TODAY)).toBe(false);
+    expect(isUsableUnit(unit({ status: 'issued' }), TODAY)).toBe(false);
+    expect(isUsableUnit(unit({ status: 'discarded' }), TODAY)).toBe(false);
+  });
+});
+
+describe('countUsableUnits', () => {
+  it('derives stock per blood type and component, leaving out expired bags', () => {
+    const units = [
+      unit({ bag_id: 'BAG-1' }),
+      unit({ bag_id: 'BAG-2', expiry_date: '2026-10-10' }),
+      unit({ bag_id: 'BAG-3', status: 'reserved' }),
+      unit({ bag_id: 'BAG-4', component_type: 'plasma' }),
+      unit({ bag_id: 'BAG-5', blood_type: 'O-' }),
+    ];
+
+    expect(countUsableUnits(units, 'A+', 'whole_blood', TODAY)).toBe(1);
+    expect(countUsableUnits(units, 'A+', 'plasma', TODAY)).toBe(1);
+    expect(countUsableUnits(units, 'O-', 'whole_blood', TODAY)).toBe(1);
+    expect(countUsableUnits(units, 'B+', 'whole_blood', TODAY)).toBe(0);
+  });
+});
+
+describe('pickUnitsToIssue', () => {
+  const request = { blood_type: 'A+', component_type: 'whole_blood' };
+
+  it('issues the oldest usable bags of the requested component first', () => {
+    const units = [
+      unit({ bag_id: 'NEW', collection_date: '2026-10-15' }),
+      unit({ bag_id: 'OLD', collection_date: '2026-10-02' }),
+      unit({ bag_id: 'EXPIRED', collection_date: '2026-09-01', expiry_date: '2026-10-06' }),
+      unit({ bag_id: 'PLASMA', collection_date: '2026-09-20', component_type: 'plasma' }),
+      unit({ bag_id: 'B', collection_date: '2026-09-20', blood_type: 'B+' }),
+    ];
+
+    expect(pickUnitsToIssue(units, request, 5, TODAY).map((u) => u.bag_id)).toEqual([
+      'OLD',
+      'NEW',
+    ]);
+  });
+
+  it('issues bags of the requested type before older universal donor bags', () => {
+    const units = [
+      unit({ bag_id: 'O-NEG', blood_type: 'O-', collection_date: '2026-09-25' }),
+      unit({ bag_id: 'O-POS', blood_type: 'O+', collection_date: '2026-09-28' }),
+      unit({ bag_id: 'A-POS', blood_type: 'A+', collection_date: '2026-10-12' }),
+    ];
+
+    expect(pickUnitsToIssue(units, request, 1, TODAY).map((u) => u.bag_id)).toEqual(['A-POS']);
+    expect(pickUnitsToIssue(units, request, 3, TODAY).map((u) => u.bag_id)).toEqual([
+      'A-POS',
+      'O-NEG',
+      'O-POS',
+    ]);
+  });
+
+  it('keeps universal AB plasma while plasma of the same type is in stock', () => {
+    const plasma = { blood_type: 'A-', component_type: 'plasma' };
+    const units = [
+      unit({ bag_id: 'AB', blood_type: 'AB+', component_type: 'plasma', collection_date: '2026-08-01' }),
+      unit({ bag_id: 'A', blood_type: 'A-', component_type: 'plasma', collection_date: '2026-10-01' }),
+    ];
+
+    expect(pickUnitsToIssue(units, plasma, 1, TODAY).map((u) => u.bag_id)).toEqual(['A']);
+  });
+
+  it('returns fewer bags than asked for when stock runs out', () => {
+    expect(pickUnitsToIssue([unit({})], request, 3, TODAY)).toHaveLength(1);
+    expect(pickUnitsToIssue([unit({})], request, 0, TODAY)).toEqual([]);
+  });
+});
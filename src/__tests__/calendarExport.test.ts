@@ -0,0 +1,158 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCalendar,
+  buildHospitalCalendar,
+  donationAppointmentEvent,
+  escapeText,
+  foldLine,
+  formatIcsDateTime,
+} from '../lib/calendarExport';
+
+const now = new Date(Date.UTC(2026, 9, 19, 8, 5, 0));
+
+const unfold = (ics: string) => ics.replace(/\r\n /g, '');
+
+describe('escapeText', () => {
+  it('escapes separators, backslashes and line breaks', () => {
+    expect(escapeText('City Hospital; Ward 3, 2nd floor\\B\nBring ID')).toBe(
+      'City Hospital\\; Ward 3\\, 2nd floor\\\\B\\nBring ID'
+    );
+  });
+});
+
+describe('foldLine', () => {
+  it('keeps every line within 75 octets', () => {
+    const folded = foldLine(`DESCRIPTION:${'x'.repeat(200)}`);
+    const lines = folded.split('\r\n');
+
+    expect(lines.length).toBe(3);
+    expect(lines.every((line) => new TextEncoder().encode(line).length <= 75)).toBe(true);
+    expect(lines.slice(1).every((line) => line.startsWith(' '))).toBe(true);
+    expect(unfold(folded)).toBe(`DESCRIPTION:${'x'.repeat(200)}`);
+  });
+
+  it('never splits a multi-byte character', () => {
+    const line = `LOCATION:${'अस्पताल '.repeat(12)}`;
+    const folded = foldLine(line);
+
+    expect(folded.split('\r\n').every((part) => new TextEncoder().encode(part).length <= 75)).toBe(
+      true
+    );
+    expect(unfold(folded)).toBe(line);
+  });
+});
+
+describe('formatIcsDateTime', () => {
+  it('writes a floating local time', () => {
+    expect(formatIcsDateTime('2026-10-23', '14:30')).toBe('20261023T143000');
+    expect(formatIcsDateTime('2026-10-23T00:00:00+00:00', '09:05:30')).toBe('20261023T090530');
+  });
+});
+
+describe('buildCalendar', () => {
+  const appointment = {
+    id: 'donation-1',
+    facility_type: 'hospital' as const,
+    facility_name: 'City Hospital',
+    facility_address: '12 MG Road, Bengaluru',
+    latitude: 12.9715987,
+    longitude: 77.5945627,
+    scheduled_date: '2026-10-23',
+    scheduled_time: '14:30',
+    end_time: '15:00',
+    status: 'scheduled',
+  };
+
+  it('produces a VCALENDAR with CRLF line endings', () => {
+    const ics = buildCalendar([donationAppointmentEvent(appointment)], { now });
+
+    expect(ics.startsWith('BEGIN:VCALENDAR\r\nVERSION:2.0\r\nPRODID:')).toBe(true);
+    expect(ics.endsWith('END:VCALENDAR\r\n')).toBe(true);
+    expect(ics.replace(/\r\n/g, '')).not.toMatch(/\n/);
+  });
+
+  it('includes the facility address, coordinates and slot times', () => {
+    const ics = unfold(buildCalendar([donationAppointmentEvent(appointment)], { now }));
+
+    expect(ics).toContain('UID:hospital-donation-1@lifelink\r\n');
+    expect(ics).toContain('DTSTAMP:20261019T080500Z\r\n');
+    expect(ics).toContain('DTSTART:20261023T143000\r\n');
+    expect(ics).toContain('DTEND:20261023T150000\r\n');
+    expect(ics).toContain('LOCATION:City Hospital\\, 12 MG Road\\, Bengaluru\r\n');
+    expect(ics).toContain('GEO:12.971599;77.594563\r\n');
+    expect(ics).toContain('STATUS:CONFIRMED\r\n');
+  });
+
+  it('defaults to an hour and rolls slots past midnight into the next day', () => {
+    const untimed = unfold(
+      buildCalendar([donationAppointmentEvent({ ...appointment, end_time: null })], { now })
+    );
+    const overnight = unfold(
+      buildCalendar(
+        [donationAppointmentEvent({ ...appointment, scheduled_time: '23:30', end_time: '00:30' })],
+        { now }
+      )
+    );
+
+    expect(untimed).toContain('DTEND:20261023T153000\r\n');
+    expect(overnight).toContain('DTEND:20261024T003000\r\n');
+  });
+
+  it('writes UTC times once the appointment instant is known', () => {
+    const ics = unfold(
+      buildCalendar(
+        [
+          donationAppointmentEvent({
+            ...appointment,
+            scheduled_time: '23:30',
+            end_time: '00:10',
+            scheduled_at: '2026-10-23T18:00:00+00:00',
+          }),
+        ],
+        { now }
+      )
+    );
+
+    expect(ics).toContain('DTSTART:20261023T180000Z\r\n');
+    expect(ics).toContain('DTEND:20261023T184000Z\r\n');
+  });
+
+  it('leaves GEO out without coordinates', () => {
+    const ics = buildCalendar(
+      [donationAppointmentEvent({ ...appointment, latitude: null, longitude: null })],
+      { now }
+    );
+
+    expect(ics).not.toContain('GEO:');
+  });
+});
+
+describe('buildHospitalCalendar', () => {
+  it('lists bookings except cancelled ones', () => {
+    const booking = {
+      id: 'booking-1',
+      donor_name: 'Asha Rao',
+      blood_type: 'O+',
+      donation_date: '2026-10-23',
+      slot_time: '10:00:00',
+      status: 'pending',
+      notes: null,
+      scheduled_at: '2026-10-23T04:30:00+00:00',
+    };
+    const ics = unfold(
+      buildHospitalCalendar(
+        [booking, { ...booking, id: 'booking-2', status: 'cancelled' }],
+        { name: 'City Hospital', address: '12 MG Road' },
+        now
+      )
+    );
+
+    expect(ics).toContain('X-WR-CALNAME:City Hospital donations\r\n');
+    expect(ics).toContain('DTSTART:20261023T043000Z\r\n');
+    expect(ics).toContain('DTEND:20261023T053000Z\r\n');
+    expect(ics).not.toContain('X-WR-TIMEZONE');
+    expect(ics).toContain('SUMMARY:Donation: Asha Rao (O+)\r\n');
+    expect(ics).toContain('STATUS:TENTATIVE\r\n');
+    expect(ics).not.toContain('booking-2');
+  });
+});
@@ -0,0 +1,64 @@
+import { describe, it, expect } from 'vitest';
+import {
+  buildCertificatePdf,
+  getCertificateQrModules,
+  getCertificateVerificationUrl,
+  maskDonorName,
+} from '../lib/certificates';
+
+const origin = 'https://lifelink.example';
+
+const details = {
+  certificateNumber: 'DON-1718000000000-1a2b3c4d',
+  donorName: 'Asha (Annie) Rao',
+  bloodType: 'B+',
+  donationDate: '2025-03-01T10:00:00Z',
+  hospitalName: 'City Hospital',
+  unitsConfirmed: 1,
+  issuedAt: '2025-03-02T09:00:00Z',
+};
+
+describe('certificate helpers', () => {
+  it('builds the public verification URL', () => {
+    expect(getCertificateVerificationUrl('DON-1', origin)).toBe(
+      'https://lifelink.example/verify-certificate/DON-1'
+    );
+  });
+
+  it('masks the donor surname', () => {
+    expect(maskDonorName('Asha', 'rao')).toBe('Asha R.');
+    expect(maskDonorName('Asha', ' ')).toBe('Asha');
+    expect(maskDonorName('Asha', null)).toBe('Asha');
+  });
+
+  it('encodes a square QR code', () => {
+    const modules = getCertificateQrModules(details.certificateNumber, origin);
+    expect(modules.length).toBeGreaterThan(20);
+    expect(modules.every((row) => row.length === modules.length)).toBe(true);
+  });
+});
+
+describe('buildCertificatePdf', () => {
+  const pdf = buildCertificatePdf(details, origin);
+
+  it('writes a PDF with a valid cross-reference table', () => {
+    expect(pdf.startsWith('%PDF-1.4\n')).toBe(true);
+    expect(pdf.trimEnd().endsWith('%%EOF')).toBe(true);
+
+    const startxref = Number(pdf.match(/startxref\n(\d+)/)![1]);
+    expect(pdf.slice(startxref, startxref + 4)).toBe('xref');
+
+    const offsets = [...pdf.matchAll(/^(\d{10}) 00000 n $/gm)].map((m) => Number(m[1]));
+    offsets.forEach((offset, index) => {
+      expect(pdf.slice(offset).startsWith(`${index + 1} 0 obj`)).toBe(true);
+    });
+  });
+
+  it('prints the certificate details with escaped text', () => {
+    expect(pdf).toContain('(Asha \\(Annie\\) Rao) Tj');
+    expect(pdf).toContain(`(Certificate No: ${details.certificateNumber}) Tj`);
+    expect(pdf).toContain(
+      `(Verify at ${origin}/verify-certificate/${details.certificateNumber}) Tj`
+    );
+  });
+});
@@ -0,0 +1,121 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeAppointmentTime,
+  formatAppointmentTime,
+  formatDateForDB,
+  getTimeZoneOffset,
+  toZonedParts,
+  weekdayOfDate,
+  zonedTimeToInstant,
+} from '../lib/dateUtils';
+
+describe('weekdayOfDate', () => {
+  it('names the calendar day without padding', () => {
+    expect(weekdayOfDate('2026-10-19')).toBe('Monday');
+    expect(weekdayOfDate('2026-10-21T00:00:00+05:30')).toBe('Wednesday');
+  });
+});
+
+describe('formatDateForDB', () => {
+  it('keeps the picked calendar day', () => {
+    expect(formatDateForDB(new Date(2026, 0, 1, 0, 0))).toBe('2026-01-01');
+    expect(formatDateForDB(new Date(2026, 11, 31, 23, 59))).toBe('2026-12-31');
+  });
+});
+
+describe('zonedTimeToInstant', () => {
+  it('reads the wall-clock time in the facility zone', () => {
+    expect(zonedTimeToInstant('2026-10-23', '09:00', 'Asia/Kolkata').toISOString()).toBe(
+      '2026-10-23T03:30:00.000Z'
+    );
+    expect(zonedTimeToInstant('2026-07-01', '09:00', 'America/New_York').toISOString()).toBe(
+      '2026-07-01T13:00:00.000Z'
+    );
+  });
+
+  it('moves a time skipped when clocks go forward to after the change', () => {
+    // New York skips 02:00-03:00 on 8 March 2026
+    const instant = zonedTimeToInstant('2026-03-08', '02:30', 'America/New_York');
+
+    expect(instant.toISOString()).toBe('2026-03-08T07:30:00.000Z');
+    expect(toZonedParts(instant, 'America/New_York').time).toBe('03:30');
+  });
+
+  it('takes a repeated time when clocks go back as the second one', () => {
+    // London repeats 01:00-02:00 on 25 October 2026
+    expect(zonedTimeToInstant('2026-10-25', '01:30', 'Europe/London').toISOString()).toBe(
+      '2026-10-25T01:30:00.000Z'
+    );
+    expect(zonedTimeToInstant('2026-10-25', '00:30', 'Europe/London').toISOString()).toBe(
+      '2026-10-24T23:30:00.000Z'
+    );
+  });
+
+  it('uses the offset of the day for slots either side of a change', () => {
+    expect(getTimeZoneOffset(new Date('2026-03-28T12:00:00Z'), 'Europe/London')).toBe(0);
+    expect(getTimeZoneOffset(new Date('2026-03-30T12:00:00Z'), 'Europe/London')).toBe(60);
+    expect(zonedTimeToInstant('2026-03-30', '09:00', 'Europe/London').toISOString()).toBe(
+      '2026-03-30T08:00:00.000Z'
+    );
+  });
+});
+
+describe('toZonedParts', () => {
+  it('shows a late-night slot on the next day further east', () => {
+    const instant = zonedTimeToInstant('2026-10-23', '23:30', 'Asia/Kolkata');
+
+    expect(toZonedParts(instant, 'Asia/Kolkata')).toEqual({
+      date: '2026-10-23',
+      time: '23:30',
+      weekday: 'Friday',
+    });
+    expect(toZonedParts(instant, 'Australia/Sydney')).toEqual({
+      date: '2026-10-24',
+      time: '05:00',
+      weekday: 'Saturday',
+    });
+  });
+});
+
+describe('describeAppointmentTime', () => {
+  it('adds the viewer time when they are in another zone', () => {
+    expect(
+      describeAppointmentTime('2026-10-23', '23:30', 'Asia/Kolkata', 'America/New_York')
+    ).toEqual({
+      facilityTime: '11:30 PM',
+      facilityZone: 'GMT+5:30',
+      viewerTime: '2:00 PM',
+      viewerDate: null,
+    });
+    expect(
+      describeAppointmentTime('2026-10-23', '23:30', 'Asia/Kolkata', 'Australia/Sydney')
+        .viewerDate
+    ).toBe('2026-10-24');
+  });
+
+  it('leaves the viewer time out in the facility zone', () => {
+    expect(
+      describeAppointmentTime('2026-10-23', '09:00', 'Asia/Kolkata', 'Asia/Kolkata').viewerTime
+    ).toBeNull();
+  });
+
+  it('falls back to the default zone for facilities without one', () => {
+    expect(describeAppointmentTime('2026-10-23', '09:00', null, 'UTC').viewerTime).toBe(
+      '3:30 AM'
+    );
+  });
+});
+
+describe('formatAppointmentTime', () => {
+  it('shows both times, and the viewer day when it differs', () => {
+    expect(formatAppointmentTime('2026-10-23', '09:00', 'Asia/Kolkata', 'Asia/Kolkata')).toBe(
+      '9:00 AM'
+    );
+    expect(formatAppointmentTime('2026-10-23', '23:30', 'Asia/Kolkata', 'America/New_York')).toBe(
+      '11:30 PM GMT+5:30 · 2:00 PM your time'
+    );
+    expect(formatAppointmentTime('2026-10-23', '23:30', 'Asia/Kolkata', 'Australia/Sydney')).toBe(
+      '11:30 PM GMT+5:30 · 5:00 AM Sat, Oct 24 your time'
+    );
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { donationVitalsSchema } from '../lib/validation';
+import {
+  ADVERSE_REACTION_DEFERRALS,
+  adverseEventsToCsv,
+  summarizeAdverseEvents,
+  toRecordVitalsArgs,
+} from '../lib/donationVitals';
+import { checkEligibility } from '../lib/donorEligibility';
+
+const emptyVitals = {
+  hemoglobin_g_dl: '',
+  systolic_bp: '',
+  diastolic_bp: '',
+  pulse_bpm: '',
+  volume_collected_ml: '',
+  bag_number: '',
+  reaction: '',
+  severity: '',
+  reaction_notes: '',
+};
+
+const parse = (changes: object) => donationVitalsSchema.safeParse({ ...emptyVitals, ...changes });
+
+describe('donationVitalsSchema', () => {
+  it('reads the entered numbers and leaves empty ones out', () => {
+    const result = parse({ hemoglobin_g_dl: '13.4', systolic_bp: '120', diastolic_bp: '80' });
+    expect(result.data).toMatchObject({
+      hemoglobin_g_dl: 13.4,
+      systolic_bp: 120,
+      diastolic_bp: 80,
+      pulse_bpm: undefined,
+    });
+  });
+
+  it('rejects implausible blood pressure', () => {
+    expect(parse({ systolic_bp: '120' }).error?.issues[0].message).toBe(
+      'Enter both systolic and diastolic pressure'
+    );
+    expect(parse({ systolic_bp: '80', diastolic_bp: '120' }).error?.issues[0].message).toBe(
+      'Diastolic pressure must be below systolic'
+    );
+  });
+
+  it('needs a severity for a reaction', () => {
+    expect(parse({ reaction: 'fainting' }).error?.issues[0].path).toEqual(['severity']);
+  });
+});
+
+describe('toRecordVitalsArgs', () => {
+  it('skips the call when nothing was entered', () => {
+    expect(toRecordVitalsArgs('d1', parse({}).data!)).toBeNull();
+  });
+
+  it('sends the reaction and severity, leaving the deferral to the database', () => {
+    const args = toRecordVitalsArgs('d1', parse({ reaction: 'fainting', severity: 'severe' }).data!);
+
+    expect(args).toMatchObject({ p_reaction: 'fainting', p_severity: 'severe' });
+    expect(args).not.toHaveProperty('p_deferral_condition');
+  });
+
+  it('defers the donor only for moderate and severe reactions', () => {
+    expect(ADVERSE_REACTION_DEFERRALS).toEqual({
+      mild: null,
+      moderate: 'adverse_reaction',
+      severe: 'severe_adverse_reaction',
+    });
+  });
+
+  it('feeds the deferral into eligibility', () => {
+    const donor = {
+      date_of_birth: '1990-04-12',
+      medical_conditions: ['adverse_reaction'],
+      medical_condition_dates: { adverse_reaction: '2026-10-19' },
+    };
+    const at = new Date('2026-12-01');
+    expect(checkEligibility(donor, { at }).eligible).toBe(false);
+    expect(checkEligibility(donor, { at: new Date('2027-04-20') }).eligible).toBe(true);
+
+    const severe = { ...donor, medical_conditions: ['severe_adverse_reaction'] };
+    expect(checkEligibility(severe, { at }).nextEligibleDate).toBeNull();
+  });
+});
+
+describe('summarizeAdverseEvents', () => {
+  const events = [
+    { reaction: 'fainting', severity: 'mild', occurred_at: '2026-10-01T10:00:00Z' },
+    { reaction: 'fainting', severity: 'moderate', occurred_at: '2026-10-02T10:00:00Z' },
+    { reaction: 'hematoma', severity: 'mild', occurred_at: '2026-10-03T10:00:00Z' },
+    { reaction: 'seizure', severity: 'severe', occurred_at: '2026-10-04T10:00:00Z' },
+  ];
+
+  it('counts events by reaction and severity', () => {
+    const summary = summarizeAdverseEvents(events, 250);
+    expect(summary.total).toBe(4);
+    expect(summary.ratePerThousand).toBe(16);
+    expect(summary.bySeverity).toEqual({ mild: 2, moderate: 1, severe: 1 });
+    expect(summary.byReaction).toMatchObject({ fainting: 2, hematoma: 1, other: 1 });
+  });
+
+  it('has no rate without donations', () => {
+    expect(summarizeAdverseEvents([], 0).ratePerThousand).toBeNull();
+  });
+});
+
+describe('adverseEventsToCsv', () => {
+  it('quotes every cell', () => {
+    const csv = adverseEventsToCsv([
+      {
+        reaction: 'hematoma',
+        severity: 'mild',
+        occurred_at: '2026-10-03T10:00:00',
+        donor_name: 'Asha Rao',
+        notes: 'Cold pack, said "fine"',
+      },
+    ]);
+    expect(csv.split('\n')).toEqual([
+      '"Date","Donor","Reaction","Severity","Notes"',
+      '"2026-10-03 10:00","Asha Rao","Hematoma (bruising)","mild","Cold pack, said ""fine"""',
+    ]);
+  });
+});
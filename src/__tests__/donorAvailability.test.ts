@@ -0,0 +1,117 @@
+import { describe, it, expect } from 'vitest';
+import {
+  AVAILABILITY_PRESETS,
+  applyCurrentAvailability,
+  getActiveSnooze,
+  getDonorAvailability,
+  isWithinAvailabilityWindows,
+} from '../lib/donorAvailability';
+
+const donor = {
+  is_available: true,
+  on_call_for_emergencies: false,
+  availability_timezone: 'Asia/Kolkata',
+};
+const weekdayEvenings = AVAILABILITY_PRESETS.weekday_evenings.windows;
+
+// Wednesday 2026-10-21, 19:30 and 10:00 in Kolkata (UTC+5:30)
+const wednesdayEvening = new Date('2026-10-21T14:00:00Z');
+const wednesdayMorning = new Date('2026-10-21T04:30:00Z');
+
+describe('isWithinAvailabilityWindows', () => {
+  it('reads windows in the donor time zone', () => {
+    const within = (at: Date, timeZone: string) =>
+      isWithinAvailabilityWindows(weekdayEvenings, at, timeZone);
+    expect(within(wednesdayEvening, 'Asia/Kolkata')).toBe(true);
+    expect(within(wednesdayEvening, 'UTC')).toBe(false);
+    expect(within(wednesdayMorning, 'Asia/Kolkata')).toBe(false);
+  });
+
+  it('continues windows that run past midnight into the next day', () => {
+    const lateShift = [{ weekday: 2, start_time: '22:00', end_time: '02:00' }];
+    // Wednesday 01:00 in Kolkata, inside Tuesday's window
+    expect(
+      isWithinAvailabilityWindows(lateShift, new Date('2026-10-20T19:30:00Z'), 'Asia/Kolkata')
+    ).toBe(true);
+    // Thursday 01:00 in Kolkata
+    expect(
+      isWithinAvailabilityWindows(lateShift, new Date('2026-10-21T19:30:00Z'), 'Asia/Kolkata')
+    ).toBe(false);
+  });
+
+  it('treats no windows as always available', () => {
+    expect(isWithinAvailabilityWindows([], wednesdayMorning, 'Asia/Kolkata')).toBe(true);
+  });
+});
+
+describe('getDonorAvailability', () => {
+  const snooze = {
+    starts_at: '2026-10-20T00:00:00Z',
+    ends_at: '2026-10-25T00:00:00Z',
+    reason: 'travel',
+  };
+
+  it('honours the weekly windows', () => {
+    expect(getDonorAvailability(donor, weekdayEvenings, [], wednesdayEvening)).toEqual({
+      available: true,
+      reason: 'window',
+    });
+    expect(getDonorAvailability(donor, weekdayEvenings, [], wednesdayMorning)).toEqual({
+      available: false,
+      reason: 'outside_window',
+    });
+  });
+
+  it('reaches on-call donors outside their windows for emergencies only', () => {
+    const onCall = { ...donor, on_call_for_emergencies: true };
+    expect(getDonorAvailability(onCall, weekdayEvenings, [], wednesdayMorning).available).toBe(
+      false
+    );
+    expect(
+      getDonorAvailability(onCall, weekdayEvenings, [], wednesdayMorning, { emergency: true })
+    ).toEqual({ available: true, reason: 'on_call' });
+  });
+
+  it('never asks snoozed donors, even on call', () => {
+    const onCall = { ...donor, on_call_for_emergencies: true };
+    expect(
+      getDonorAvailability(onCall, [], [snooze], wednesdayEvening, { emergency: true })
+    ).toEqual({ available: false, reason: 'snoozed', until: snooze.ends_at });
+  });
+
+  it('respects the availability switch', () => {
+    expect(
+      getDonorAvailability({ ...donor, is_available: false }, [], [], wednesdayEvening).reason
+    ).toBe('unavailable');
+  });
+});
+
+describe('getActiveSnooze', () => {
+  it('picks the latest ending snooze covering the moment', () => {
+    const snoozeBetween = (starts_at: string, ends_at: string) => ({
+      starts_at,
+      ends_at,
+      reason: 'other',
+    });
+    const short = snoozeBetween('2026-10-20T00:00:00Z', '2026-10-22T00:00:00Z');
+    const long = snoozeBetween('2026-10-21T00:00:00Z', '2026-11-21T00:00:00Z');
+    const past = snoozeBetween('2026-09-01T00:00:00Z', '2026-09-02T00:00:00Z');
+    expect(getActiveSnooze([short, long, past], wednesdayEvening)).toBe(long);
+    expect(getActiveSnooze([past], wednesdayEvening)).toBeNull();
+  });
+});
+
+describe('applyCurrentAvailability', () => {
+  it('marks donors missing from the available ids as unavailable', () => {
+    const donors = [
+      { id: 'a', is_available: true },
+      { id: 'b', is_available: true },
+      { id: 'c', is_available: false },
+    ];
+    expect(applyCurrentAvailability(donors, ['a', 'c']).map((d) => d.is_available)).toEqual([
+      true,
+      false,
+      false,
+    ]);
+  });
+});
@@ -0,0 +1,126 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_ELIGIBILITY_RULES,
+  checkEligibility,
+  explainEligibility,
+  getDonationIntervalDays,
+} from '../lib/donorEligibility';
+
+const at = new Date('2026-10-19T12:00:00Z');
+const adult = { date_of_birth: '1990-04-12' };
+
+describe('getDonationIntervalDays', () => {
+  it('depends on gender and the component donated', () => {
+    expect(getDonationIntervalDays('male', 'whole_blood')).toBe(90);
+    expect(getDonationIntervalDays('female', 'whole_blood')).toBe(120);
+    expect(getDonationIntervalDays('female', 'platelets')).toBe(7);
+    expect(getDonationIntervalDays('male', 'unknown')).toBe(90);
+  });
+});
+
+describe('checkEligibility', () => {
+  it('accepts a donor with nothing deferring them', () => {
+    const result = checkEligibility(adult, { at });
+    expect(result).toEqual({ eligible: true, nextEligibleDate: at, reasons: [] });
+    expect(explainEligibility(result)).toBe('You are eligible to donate.');
+  });
+
+  it('applies the donation interval for the donor gender', () => {
+    const lastDonation = { ...adult, last_donation_date: '2026-07-01' };
+    expect(checkEligibility({ ...lastDonation, gender: 'male' }, { at }).eligible).toBe(true);
+
+    const female = checkEligibility({ ...lastDonation, gender: 'female' }, { at });
+    expect(female.eligible).toBe(false);
+    expect(female.reasons[0].code).toBe('donation_interval');
+    expect(female.nextEligibleDate?.getTime()).toBe(new Date('2026-10-29').getTime());
+  });
+
+  it('lets platelet donors come back after a week', () => {
+    const donor = {
+      ...adult,
+      last_donation_date: '2026-10-10',
+      last_donation_component: 'platelets',
+    };
+    expect(checkEligibility(donor, { at }).eligible).toBe(true);
+    expect(checkEligibility({ ...donor, last_donation_component: 'whole_blood' }, { at }).eligible)
+      .toBe(false);
+  });
+
+  it('defers a tattoo for a year from its date', () => {
+    const donor = {
+      ...adult,
+      medical_conditions: ['recent_tattoo'],
+      medical_condition_dates: { recent_tattoo: '2026-03-01' },
+    };
+    const result = checkEligibility(donor, { at });
+    expect(result.eligible).toBe(false);
+    expect(result.nextEligibleDate?.getTime()).toBe(new Date('2027-03-01').getTime());
+
+    expect(checkEligibility(donor, { at: new Date('2027-03-02T12:00:00Z') }).eligible).toBe(true);
+  });
+
+  it('keeps deferring a temporary condition without a date', () => {
+    const result = checkEligibility({ ...adult, medical_conditions: ['recent_tattoo'] }, { at });
+    expect(result.eligible).toBe(false);
+    expect(result.nextEligibleDate).toBeNull();
+    expect(explainEligibility(result)).toMatch(/^You cannot donate yet/);
+  });
+
+  it('ignores conditions the rules do not cover', () => {
+    expect(checkEligibility({ ...adult, medical_conditions: ['asthma'] }, { at }).eligible).toBe(
+      true
+    );
+  });
+
+  it('rules out permanent deferrals', () => {
+    const result = checkEligibility({ ...adult, medical_conditions: ['heart_disease'] }, { at });
+    expect(result.eligible).toBe(false);
+    expect(result.nextEligibleDate).toBeNull();
+    expect(result.reasons[0].permanent).toBe(true);
+    expect(explainEligibility(result)).toBe('You cannot donate: Heart disease.');
+  });
+
+  it('checks hemoglobin against the threshold for the donor gender', () => {
+    const donor = { ...adult, hemoglobin_g_dl: 12.8 };
+    expect(checkEligibility({ ...donor, gender: 'female' }, { at }).eligible).toBe(true);
+    expect(checkEligibility({ ...donor, gender: 'male' }, { at }).reasons[0].code).toBe(
+      'low_hemoglobin'
+    );
+  });
+
+  it('requires the minimum weight', () => {
+    expect(checkEligibility({ ...adult, weight_kg: 48 }, { at }).reasons[0].code).toBe(
+      'low_weight'
+    );
+    expect(checkEligibility({ ...adult, weight_kg: 50 }, { at }).eligible).toBe(true);
+  });
+
+  it('makes young donors wait for their 18th birthday', () => {
+    const result = checkEligibility({ date_of_birth: '2009-01-15' }, { at });
+    expect(result.reasons[0].code).toBe('too_young');
+    expect(result.nextEligibleDate?.getTime()).toBe(new Date('2027-01-15').getTime());
+  });
+
+  it('waits for the latest of several deferrals', () => {
+    const result = checkEligibility(
+      {
+        ...adult,
+        last_donation_date: '2026-09-01',
+        medical_conditions: ['medication', 'recent_travel'],
+        medical_condition_dates: { medication: '2026-10-15', recent_travel: '2026-09-15' },
+      },
+      { at }
+    );
+    expect(result.reasons.map((reason) => reason.code)).toEqual([
+      'donation_interval',
+      'medication',
+      'recent_travel',
+    ]);
+    expect(result.nextEligibleDate?.getTime()).toBe(new Date('2026-12-14').getTime());
+  });
+
+  it('takes custom rules', () => {
+    const rules = { ...DEFAULT_ELIGIBILITY_RULES, minAgeYears: 17 };
+    expect(checkEligibility({ date_of_birth: '2009-01-15' }, { at, rules }).eligible).toBe(true);
+  });
+});
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest';
+import {
+  getCompatibilityLevel,
+  rankDonors,
+  scoreDonor,
+  type MatchableDonor,
+} from '../lib/donorMatching';
+
+const now = new Date('2025-03-01T12:00:00Z');
+
+const donor = (overrides: Partial<MatchableDonor>): MatchableDonor => ({
+  id: 'donor',
+  blood_type: 'A+',
+  last_donation_date: null,
+  is_available: true,
+  latitude: 28.6139,
+  longitude: 77.209,
+  response_rate: 100,
+  ...overrides,
+});
+
+const request = { blood_type: 'A+', latitude: 28.6139, longitude: 77.209 };
+
+describe('getCompatibilityLevel', () => {
+  it('classifies exact, compatible, universal and incompatible donors', () => {
+    expect(getCompatibilityLevel('A+', 'A+')).toBe('exact');
+    expect(getCompatibilityLevel('A+', 'O+')).toBe('compatible');
+    expect(getCompatibilityLevel('A+', 'O-')).toBe('universal');
+    expect(getCompatibilityLevel('O-', 'O-')).toBe('exact');
+    expect(getCompatibilityLevel('A+', 'B+')).toBeNull();
+    expect(getCompatibilityLevel('A+', null)).toBeNull();
+  });
+
+  it('reverses compatibility for plasma', () => {
+    expect(getCompatibilityLevel('A+', 'A-', 'plasma')).toBe('compatible');
+    expect(getCompatibilityLevel('A+', 'AB+', 'plasma')).toBe('universal');
+    expect(getCompatibilityLevel('A+', 'O-', 'plasma')).toBeNull();
+    expect(getCompatibilityLevel('O+', 'B+', 'plasma')).toBe('compatible');
+  });
+});
+
+describe('rankDonors', () => {
+  it('ranks exact matches first and O- donors last', () => {
+    const ranked = rankDonors(
+      request,
+      [
+        donor({ id: 'universal', blood_type: 'O-' }),
+        donor({ id: 'compatible', blood_type: 'A-' }),
+        donor({ id: 'exact', blood_type: 'A+' }),
+      ],
+      { now }
+    );
+
+    expect(ranked.map((match) => match.donor.id)).toEqual([
+      'exact',
+      'compatible',
+      'universal',
+    ]);
+  });
+
+  it('drops incompatible, ineligible and unavailable donors by default', () => {
+    const donors = [
+      donor({ id: 'incompatible', blood_type: 'B+' }),
+      donor({ id: 'recent', last_donation_date: '2025-02-01' }),
+      donor({ id: 'unavailable', is_available: false }),
+      donor({ id: 'ok' }),
+    ];
+
+    expect(rankDonors(request, donors, { now }).map((m) => m.donor.id)).toEqual(['ok']);
+    expect(
+      rankDonors(request, donors, {
+        now,
+        includeIneligible: true,
+        includeUnavailable: true,
+      }).map((m) => m.donor.id)
+    ).toEqual(['ok', 'unavailable', 'recent']);
+  });
+
+  it('prefers closer donors when everything else is equal', () => {
+    const ranked = rankDonors(
+      request,
+      [
+        donor({ id: 'far', latitude: 28.9, longitude: 77.5 }),
+        donor({ id: 'unknown', latitude: null, longitude: null }),
+        donor({ id: 'near', latitude: 28.62, longitude: 77.21 }),
+      ],
+      { now }
+    );
+
+    expect(ranked.map((match) => match.donor.id)).toEqual(['near', 'far', 'unknown']);
+  });
+});
+
+describe('scoreDonor', () => {
+  it('explains every point in the breakdown', () => {
+    const match = scoreDonor(
+      request,
+      donor({ last_donation_date: '2025-02-01', response_rate: 50 }),
+      { now }
+    );
+
+    expect(match).not.toBeNull();
+    expect(match!.eligible).toBe(false);
+    expect(match!.breakdown.eligibility).toMatchObject({
+      points: 0,
+      reason: 'Eligible again in 62 days',
+    });
+    expect(match!.breakdown.responsiveness.points).toBe(5);
+    expect(match!.score).toBe(
+      Object.values(match!.breakdown).reduce((sum, part) => sum + part.points, 0)
+    );
+  });
+});
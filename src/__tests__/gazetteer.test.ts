@@ -0,0 +1,134 @@
+import { describe, it, expect } from 'vitest';
+import {
+  extractPinCode,
+  matchGazetteer,
+  matchPinCode,
+  searchGazetteer,
+  similarity,
+  PIN_CODE_CONFIDENCE,
+  PIN_DISTRICT_CONFIDENCE,
+} from '../lib/gazetteer';
+import { GAZETTEER_PLACES } from '../lib/gazetteerData';
+import { PIN_CODE_CENTRES } from '../lib/pinCodeData';
+
+const places = [
+  { name: 'Kasba', latitude: 22.5093, longitude: 88.38, formattedAddress: 'Kasba, Kolkata' },
+  {
+    name: 'Kasba Golpark',
+    latitude: 22.511,
+    longitude: 88.3747,
+    formattedAddress: 'Kasba Golpark, Kolkata',
+  },
+  { name: 'Salt Lake', latitude: 22.5697, longitude: 88.4173, formattedAddress: 'Salt Lake' },
+];
+
+describe('matchGazetteer', () => {
+  it('is confident about an exact place name', () => {
+    expect(matchGazetteer('Salt Lake', places)).toMatchObject({
+      latitude: 22.5697,
+      confidence: 0.9,
+    });
+  });
+
+  it('prefers the most specific place an address mentions', () => {
+    const result = matchGazetteer('12 Kasba Golpark, Kolkata', places);
+
+    expect(result?.formattedAddress).toBe('Kasba Golpark, Kolkata');
+    expect(result!.confidence).toBeGreaterThanOrEqual(0.6);
+  });
+
+  it('stays low confidence for a place lost in a long address', () => {
+    const result = matchGazetteer(
+      'Flat 2B, 17 Rajdanga Gold Park Road, Kasba, Kolkata 700107',
+      places
+    );
+
+    expect(result?.formattedAddress).toBe('Kasba, Kolkata');
+    expect(result!.confidence).toBeLessThan(0.6);
+    expect(matchGazetteer('MG Road, Bengaluru', places)).toBeNull();
+  });
+});
+
+
+describe('matchGazetteer with aliases and typos', () => {
+  it('knows old names and forgives a misspelling', () => {
+    expect(matchGazetteer('Bombay', GAZETTEER_PLACES)?.formattedAddress).toBe(
+      'Mumbai, Maharashtra'
+    );
+    expect(matchGazetteer('12 Residency Road, Bangalor', GAZETTEER_PLACES)?.formattedAddress).toBe(
+      'Bengaluru, Karnataka'
+    );
+    expect(similarity('bangalor', 'bangalore')).toBeCloseTo(0.89, 2);
+  });
+
+  it('does not guess short names from near misses', () => {
+    expect(matchGazetteer('Agri Nagar', GAZETTEER_PLACES)).toBeNull();
+  });
+});
+
+describe('extractPinCode', () => {
+  it('finds a PIN code written with or without a space', () => {
+    expect(extractPinCode('Kasba, Kolkata, West Bengal 700107')).toBe('700107');
+    expect(extractPinCode('Kasba, Kolkata - 700 107')).toBe('700107');
+    expect(extractPinCode('Call 9830012345')).toBeNull();
+    expect(extractPinCode('Plot 576, Sector I')).toBeNull();
+  });
+});
+
+describe('matchPinCode', () => {
+  it('uses the localities of a known PIN code', () => {
+    const result = matchPinCode('700107', GAZETTEER_PLACES);
+
+    expect(result?.confidence).toBe(PIN_CODE_CONFIDENCE);
+    expect(result?.latitude).toBeCloseTo(22.51, 1);
+  });
+
+  it('falls back to the city of the PIN district', () => {
+    expect(matchPinCode('411038', GAZETTEER_PLACES)).toMatchObject({
+      latitude: 18.5204,
+      longitude: 73.8567,
+      formattedAddress: 'Pune, Maharashtra 411038',
+      confidence: PIN_DISTRICT_CONFIDENCE,
+    });
+    expect(matchPinCode('999999', GAZETTEER_PLACES)).toBeNull();
+  });
+
+  it('knows PIN codes across India from the PIN code table', () => {
+    const guwahati = matchPinCode('781001', GAZETTEER_PLACES, PIN_CODE_CENTRES);
+    const kochi = matchPinCode('682001', GAZETTEER_PLACES, PIN_CODE_CENTRES);
+
+    expect(guwahati?.confidence).toBe(PIN_CODE_CONFIDENCE);
+    expect(guwahati?.latitude).toBeCloseTo(26.18, 1);
+    expect(guwahati?.longitude).toBeCloseTo(91.74, 1);
+    expect(kochi?.latitude).toBeCloseTo(9.95, 1);
+  });
+
+  it('falls back to the PIN codes of the district when there is no city for it', () => {
+    const result = matchPinCode('744999', GAZETTEER_PLACES, PIN_CODE_CENTRES);
+
+    expect(result?.confidence).toBe(PIN_DISTRICT_CONFIDENCE);
+    expect(result?.longitude).toBeCloseTo(92.7, 0);
+  });
+});
+
+describe('searchGazetteer', () => {
+  it('is more certain when the place and the PIN code agree', () => {
+    const named = matchGazetteer('Flat 4, Santoshpur Avenue, Kolkata', GAZETTEER_PLACES);
+    const withPin = searchGazetteer('Flat 4, Santoshpur Avenue, Kolkata 700075', GAZETTEER_PLACES);
+
+    expect(withPin?.formattedAddress).toBe(named?.formattedAddress);
+    expect(withPin!.confidence).toBeGreaterThan(named!.confidence);
+    expect(withPin!.confidence).toBeGreaterThanOrEqual(0.6);
+  });
+
+  it('locates only the city from a city name and an unknown PIN code', () => {
+    const result = searchGazetteer('22 Jodhpur Park, Kolkata 700068', GAZETTEER_PLACES);
+
+    expect(result?.formattedAddress).toBe('Kolkata, West Bengal');
+    expect(result!.confidence).toBeLessThan(0.6);
+  });
+
+  it('geocodes a bare PIN code', () => {
+    expect(searchGazetteer('700107', GAZETTEER_PLACES)?.confidence).toBe(PIN_CODE_CONFIDENCE);
+  });
+});
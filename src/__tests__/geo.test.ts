@@ -0,0 +1,107 @@
+import { describe, it, expect } from 'vitest';
+import {
+  bearing,
+  boundingBox,
+  calculateDistance,
+  compassDirection,
+  createSpatialIndex,
+  findWithinRadius,
+  isInBoundingBox,
+  type LatLng,
+} from '../lib/geo';
+
+const kolkata = { lat: 22.5726, lng: 88.3639 };
+const howrah = { lat: 22.5958, lng: 88.2636 };
+const delhi = { lat: 28.6139, lng: 77.209 };
+
+const point = (point: LatLng) => point;
+
+describe('calculateDistance', () => {
+  it('measures great-circle distances', () => {
+    expect(calculateDistance(kolkata.lat, kolkata.lng, delhi.lat, delhi.lng)).toBeCloseTo(1305, -1);
+    expect(calculateDistance(kolkata.lat, kolkata.lng, kolkata.lat, kolkata.lng)).toBe(0);
+  });
+});
+
+describe('bearing', () => {
+  it('points from one place towards another', () => {
+    expect(bearing({ lat: 0, lng: 0 }, { lat: 1, lng: 0 })).toBeCloseTo(0);
+    expect(bearing({ lat: 0, lng: 0 }, { lat: 0, lng: 1 })).toBeCloseTo(90);
+    expect(compassDirection(bearing(kolkata, howrah))).toBe('W');
+    expect(compassDirection(bearing(kolkata, delhi))).toBe('NW');
+  });
+});
+
+describe('boundingBox', () => {
+  it('holds every point within the radius', () => {
+    const box = boundingBox(kolkata, 10);
+
+    for (let degrees = 0; degrees < 360; degrees += 30) {
+      const dLat = (9.99 / 111.19) * Math.cos((degrees * Math.PI) / 180);
+      const dLng =
+        ((9.99 / 111.19) * Math.sin((degrees * Math.PI) / 180)) /
+        Math.cos((kolkata.lat * Math.PI) / 180);
+      expect(isInBoundingBox({ lat: kolkata.lat + dLat, lng: kolkata.lng + dLng }, box)).toBe(true);
+    }
+    expect(isInBoundingBox(howrah, box)).toBe(false);
+  });
+
+  it('wraps around the 180th meridian', () => {
+    const box = boundingBox({ lat: 0, lng: 179.95 }, 20);
+
+    expect(isInBoundingBox({ lat: 0, lng: -179.95 }, box)).toBe(true);
+    expect(isInBoundingBox({ lat: 0, lng: 0 }, box)).toBe(false);
+  });
+});
+
+describe('findWithinRadius', () => {
+  it('keeps items in range, nearest first, skipping those without a location', () => {
+    const places = [delhi, howrah, null, kolkata];
+    const nearby = findWithinRadius(places, (place) => place, kolkata, 15);
+
+    expect(nearby.map((result) => result.item)).toEqual([kolkata, howrah]);
+    expect(nearby[1].distanceKm).toBeCloseTo(10.6, 0);
+  });
+});
+
+describe('createSpatialIndex', () => {
+  // A 100 x 100 grid of donors about 1 km apart around Kolkata
+  const donors = Array.from({ length: 10000 }, (_, i) => ({
+    id: i,
+    lat: 22 + Math.floor(i / 100) * 0.009,
+    lng: 88 + (i % 100) * 0.0098,
+  }));
+
+  it('finds the same items as measuring every one of them', () => {
+    const index = createSpatialIndex(donors, point, 2);
+    const center = { lat: 22.45, lng: 88.5 };
+
+    for (const radiusKm of [0.5, 3, 12]) {
+      expect(index.within(center, radiusKm).map((result) => result.item.id)).toEqual(
+        findWithinRadius(donors, point, center, radiusKm).map((result) => result.item.id)
+      );
+    }
+    expect(index.size).toBe(10000);
+  });
+
+  it('returns at most the limit, nearest first', () => {
+    const index = createSpatialIndex(donors, point);
+    const nearest = index.within({ lat: 22, lng: 88 }, 50, 3);
+
+    expect(nearest).toHaveLength(3);
+    expect(nearest[0].item.id).toBe(0);
+    expect(nearest[1].distanceKm).toBeLessThanOrEqual(nearest[2].distanceKm);
+  });
+
+  it('answers across the 180th meridian', () => {
+    const index = createSpatialIndex(
+      [
+        { lat: -16.5, lng: 179.99 },
+        { lat: -16.5, lng: -179.99 },
+      ],
+      point
+    );
+
+    expect(index.within({ lat: -16.5, lng: 179.99 }, 5)).toHaveLength(2);
+  });
+});
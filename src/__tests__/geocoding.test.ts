@@ -0,0 +1,162 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  geocodeWithProviders,
+  layeredGeocodeCache,
+  memoryGeocodeCache,
+  nominatimConfidence,
+  normalizeAddress,
+  parseCoordinates,
+  type GeocodingProvider,
+} from '../lib/geocoding';
+import { olaMapsGeocodeCacheEntry } from '../../supabase/functions/_shared/geocodeCache';
+
+const now = new Date('2026-10-19T08:00:00Z');
+
+const provider = (
+  name: GeocodingProvider['name'],
+  confidence: number | null,
+  extra: Partial<GeocodingProvider> = {}
+): GeocodingProvider => ({
+  name,
+  geocode: vi.fn(async () =>
+    confidence === null
+      ? null
+      : { latitude: 22.5, longitude: 88.3, formattedAddress: name, confidence }
+  ),
+  ...extra,
+});
+
+describe('normalizeAddress', () => {
+  it('ignores case, spacing and commas', () => {
+    expect(normalizeAddress('  12, MG Road,  Bengaluru. ')).toBe('12 mg road bengaluru');
+  });
+});
+
+describe('geocodeWithProviders', () => {
+  it('stops at the first confident provider', async () => {
+    const later = provider('gazetteer', 0.9);
+    const result = await geocodeWithProviders(
+      'Park Street',
+      [provider('ola_maps', null), provider('nominatim', 0.8), later],
+      { now }
+    );
+
+    expect(result).toMatchObject({ provider: 'nominatim', confidence: 0.8, lowConfidence: false });
+    expect(later.geocode).not.toHaveBeenCalled();
+  });
+
+  it('returns the best guess marked low confidence instead of a default place', async () => {
+    const result = await geocodeWithProviders(
+      'Somewhere',
+      [provider('nominatim', 0.3), provider('gazetteer', 0.5)],
+      { now }
+    );
+
+    expect(result).toMatchObject({ provider: 'gazetteer', lowConfidence: true });
+    expect(await geocodeWithProviders('Nowhere', [provider('gazetteer', null)], { now })).toBeNull();
+  });
+
+  it('skips failing providers, and network ones while offline', async () => {
+    const failing = provider('ola_maps', null, {
+      geocode: vi.fn(async () => {
+        throw new Error('Network Error');
+      }),
+    });
+    const online = provider('nominatim', 0.9, { requiresNetwork: true });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+
+    const result = await geocodeWithProviders(
+      'Park Street',
+      [failing, online, provider('gazetteer', 0.7)],
+      { now, online: false }
+    );
+
+    expect(result?.provider).toBe('gazetteer');
+    expect(online.geocode).not.toHaveBeenCalled();
+    warn.mockRestore();
+  });
+
+  it('answers from the cache until the entry goes stale', async () => {
+    const cache = memoryGeocodeCache();
+    const source = provider('nominatim', 0.4);
+
+    await geocodeWithProviders('Park Street', [source], { cache, now });
+    await geocodeWithProviders('park street,', [source], { cache, now });
+    expect(source.geocode).toHaveBeenCalledTimes(1);
+
+    // Low-confidence guesses are retried after a day
+    await geocodeWithProviders('Park Street', [source], {
+      cache,
+      now: new Date('2026-10-20T09:00:00Z'),
+    });
+    expect(source.geocode).toHaveBeenCalledTimes(2);
+  });
+});
+
+describe('layeredGeocodeCache', () => {
+  it('copies a hit from a slower layer into the faster ones', async () => {
+    const memory = memoryGeocodeCache();
+    const shared = memoryGeocodeCache();
+    const entry = {
+      latitude: 22.5,
+      longitude: 88.3,
+      formattedAddress: 'Park Street',
+      confidence: 0.8,
+      provider: 'nominatim' as const,
+      lowConfidence: false,
+      cachedAt: now.toISOString(),
+    };
+    await shared.set('park street', entry);
+
+    expect(await layeredGeocodeCache(memory, shared).get('park street')).toEqual(entry);
+    expect(await memory.get('park street')).toEqual(entry);
+  });
+});
+
+describe('parseCoordinates', () => {
+  it('reads coordinates written in an address', () => {
+    expect(parseCoordinates('Camp site (22.5726, 88.3639)')).toMatchObject({
+      latitude: 22.5726,
+      longitude: 88.3639,
+      confidence: 1,
+    });
+    expect(parseCoordinates('Flat 12.5, Block 3')).toBeNull();
+  });
+});
+
+describe('nominatimConfidence', () => {
+  it('trusts buildings and streets more than whole cities', () => {
+    expect(nominatimConfidence(30)).toBeGreaterThan(nominatimConfidence(26));
+    expect(nominatimConfidence(26)).toBeGreaterThanOrEqual(0.6);
+    expect(nominatimConfidence(16)).toBeLessThan(0.6);
+  });
+});
+
+describe('olaMapsGeocodeCacheEntry', () => {
+  const answer = (location: { lat: number; lng: number }) => ({
+    geocodingResults: [
+      {
+        formatted_address: 'Park Street, Kolkata',
+        geometry: { location, location_type: 'ROOFTOP' },
+      },
+    ],
+  });
+
+  it('keys the first result by the normalised address the browser looks up', () => {
+    const entry = olaMapsGeocodeCacheEntry('Park Street,  Kolkata.', answer({ lat: 22.55, lng: 88.35 }));
+
+    expect(entry).toEqual({
+      p_address_key: 'park street kolkata',
+      p_latitude: 22.55,
+      p_longitude: 88.35,
+      p_formatted_address: 'Park Street, Kolkata',
+      p_provider: 'ola_maps',
+      p_confidence: 0.95,
+    });
+  });
+
+  it('caches nothing for an empty or out of range answer', () => {
+    expect(olaMapsGeocodeCacheEntry('Park Street', { geocodingResults: [] })).toBeNull();
+    expect(olaMapsGeocodeCacheEntry('Park Street', answer({ lat: 122, lng: 88 }))).toBeNull();
+  });
+});
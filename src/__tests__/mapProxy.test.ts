@@ -0,0 +1,74 @@
+import { describe, it, expect } from 'vitest';
+import {
+  formatMapPoints,
+  mapProxyCacheKey,
+  olaMapsRequestPath,
+  parseMapProxyRequest,
+  type MapProxyRequest,
+} from '../lib/mapProxy';
+
+const parse = (body: unknown) => {
+  const parsed = parseMapProxyRequest(body);
+  if ('error' in parsed) throw new Error(parsed.error);
+  return parsed.request;
+};
+
+describe('parseMapProxyRequest', () => {
+  it('accepts the listed services and normalises their parameters', () => {
+    expect(parse({ service: 'geocode', params: { address: '  Park   Street, Kolkata ' } })).toEqual({
+      service: 'geocode',
+      params: { address: 'Park Street, Kolkata' },
+    });
+    expect(parse({ service: 'autocomplete', params: { input: 'Kasba', radius: 5000 } }).params).toEqual({
+      input: 'Kasba',
+      radius: '5000',
+    });
+  });
+
+  it('refuses other services, parameters and missing values', () => {
+    expect(parseMapProxyRequest({ service: 'tiles', params: {} })).toEqual({
+      error: 'Unknown map service',
+    });
+    expect(
+      parseMapProxyRequest({ service: 'geocode', params: { address: 'x', api_key: 'mine' } })
+    ).toEqual({ error: 'Unsupported parameter: api_key' });
+    expect(parseMapProxyRequest({ service: 'directions', params: { origin: '22.5,88.3' } })).toEqual({
+      error: 'Missing parameter: destination',
+    });
+    expect(parseMapProxyRequest({ service: 'toString', params: {} })).toEqual({
+      error: 'Unknown map service',
+    });
+    expect(parseMapProxyRequest(null)).toEqual({ error: 'Expected a JSON body' });
+  });
+});
+
+describe('olaMapsRequestPath', () => {
+  it('builds the Ola Maps path with encoded, sorted parameters', () => {
+    const request: MapProxyRequest = {
+      service: 'distance_matrix',
+      params: { origins: '22.5,88.3', destinations: '22.6,88.4|22.7,88.5' },
+    };
+
+    expect(olaMapsRequestPath(request)).toEqual({
+      method: 'GET',
+      url: '/routing/v1/distanceMatrix?destinations=22.6%2C88.4%7C22.7%2C88.5&origins=22.5%2C88.3',
+    });
+    expect(olaMapsRequestPath({ ...request, service: 'directions', params: { origin: 'a', destination: 'b' } }).method).toBe('POST');
+  });
+});
+
+describe('mapProxyCacheKey', () => {
+  it('is the same for requests differing only in order and spacing', () => {
+    const a = parse({ service: 'directions', params: { origin: '22.5,88.3', destination: ' 22.6,88.4' } });
+    const b = parse({ service: 'directions', params: { destination: '22.6,88.4', origin: '22.5,88.3' } });
+
+    expect(mapProxyCacheKey(a)).toBe(mapProxyCacheKey(b));
+    expect(mapProxyCacheKey(a)).not.toBe(mapProxyCacheKey({ ...a, service: 'distance_matrix' }));
+  });
+});
+
+describe('formatMapPoints', () => {
+  it('writes points as Ola Maps takes them', () => {
+    expect(formatMapPoints([{ lat: 22.5, lng: 88.3 }, { lat: 22.6, lng: 88.4 }])).toBe('22.5,88.3|22.6,88.4');
+  });
+});
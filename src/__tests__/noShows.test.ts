@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest';
+import { noShowRate, summarizeNoShows, type DonorNoShowStats } from '../lib/noShows';
+
+const donor = (overrides: Partial<DonorNoShowStats>): DonorNoShowStats => ({
+  donor_id: 'donor-1',
+  donor_name: 'Asha',
+  blood_type: 'O+',
+  bookings: 0,
+  no_shows: 0,
+  hospital_bookings: 0,
+  hospital_no_shows: 0,
+  ...overrides,
+});
+
+describe('noShowRate', () => {
+  it('is a percentage to one decimal', () => {
+    expect(noShowRate(1, 3)).toBe(33.3);
+    expect(noShowRate(0, 4)).toBe(0);
+  });
+
+  it('is null without bookings', () => {
+    expect(noShowRate(0, 0)).toBeNull();
+  });
+});
+
+describe('summarizeNoShows', () => {
+  it('rates the facility on its own bookings only', () => {
+    const summary = summarizeNoShows([
+      donor({ bookings: 5, no_shows: 3, hospital_bookings: 2, hospital_no_shows: 1 }),
+      donor({ donor_id: 'donor-2', bookings: 2, no_shows: 0, hospital_bookings: 2 }),
+    ]);
+
+    expect(summary.facility).toEqual({ bookings: 4, noShows: 1, rate: 25 });
+  });
+
+  it('sorts donors by rate and flags frequent no-shows', () => {
+    const summary = summarizeNoShows([
+      donor({ donor_id: 'reliable', donor_name: 'Ravi', bookings: 4, no_shows: 0 }),
+      donor({ donor_id: 'once', donor_name: 'Meera', bookings: 1, no_shows: 1 }),
+      donor({ donor_id: 'often', donor_name: 'Kiran', bookings: 4, no_shows: 2 }),
+    ]);
+
+    expect(summary.donors.map((row) => [row.donor_id, row.rate, row.frequent])).toEqual([
+      ['once', 100, false],
+      ['often', 50, true],
+      ['reliable', 0, false],
+    ]);
+  });
+
+  it('leaves out donors without past bookings', () => {
+    expect(summarizeNoShows([donor({})]).donors).toEqual([]);
+  });
+});
@@ -0,0 +1,145 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_CHANNEL_PREFERENCES,
+  createNotificationDispatcher,
+  createStubTransport,
+  isWithinQuietHours,
+  type ChannelPreferences,
+  type DeliveryRecord,
+} from '../lib/notificationDispatcher';
+import { isNotificationEvent, renderNotification } from '../lib/notificationTemplates';
+
+// 23:30 in India (UTC+05:30)
+const lateEvening = new Date('2025-03-01T18:00:00Z');
+
+const preferences = (overrides: Partial<ChannelPreferences> = {}): ChannelPreferences => ({
+  ...DEFAULT_CHANNEL_PREFERENCES,
+  sms_enabled: true,
+  email_enabled: true,
+  push_enabled: true,
+  ...overrides,
+});
+
+function setup(prefs: ChannelPreferences | null, failChannels: ('sms' | 'email')[] = []) {
+  const transport = createStubTransport({ failChannels });
+  const recorded: DeliveryRecord[] = [];
+  const dispatch = createNotificationDispatcher({
+    transport,
+    getPreferences: async () => prefs,
+    recordDeliveries: async (records) => {
+      recorded.push(...records);
+    },
+    now: () => lateEvening,
+  });
+  return { transport, recorded, dispatch };
+}
+
+const statuses = (records: DeliveryRecord[]) =>
+  Object.fromEntries(records.map((record) => [record.channel, record.status]));
+
+describe('renderNotification', () => {
+  it('renders the template and keeps SMS within one segment', () => {
+    const rendered = renderNotification('blood_group_verified', {
+      donation_id: 'd1',
+      blood_group: 'O+',
+    });
+    expect(rendered.title).toBe('Blood Group Verified');
+    expect(rendered.message).toBe('Your blood group has been verified as O+');
+
+    const long = renderNotification('emergency_nearby', {
+      request_id: 'r1',
+      blood_type: 'AB-',
+      hospital_name: 'H'.repeat(200),
+    });
+    expect(long.sms.length).toBeLessThanOrEqual(160);
+  });
+
+  it('adds the donor local time and the appointment link to reminders', () => {
+    const rendered = renderNotification('slot_reminder', {
+      scheduled_date: '2026-10-21',
+      scheduled_time: '09:30',
+      facility_name: 'City Hospital',
+      local_time: '10:00 AM Wed',
+      appointment_url: 'https://lifelink.example/appointment/t1',
+    });
+    expect(rendered.message).toBe(
+      'Reminder: your blood donation at City Hospital is on 2026-10-21 at 09:30 (10:00 AM Wed your time). Confirm or cancel: https://lifelink.example/appointment/t1'
+    );
+  });
+});
+
+describe('isNotificationEvent', () => {
+  it('accepts only events that have a template', () => {
+    expect(isNotificationEvent('slot_reminder')).toBe(true);
+    expect(isNotificationEvent('toString')).toBe(false);
+    expect(isNotificationEvent(42)).toBe(false);
+  });
+});
+
+describe('isWithinQuietHours', () => {
+  it('reads the window in the recipient time zone, across midnight', () => {
+    const quiet = preferences({ quiet_hours_start: '22:00:00', quiet_hours_end: '07:00:00' });
+    expect(isWithinQuietHours(quiet, lateEvening)).toBe(true);
+    expect(isWithinQuietHours({ ...quiet, timezone: 'UTC' }, lateEvening)).toBe(false);
+    expect(isWithinQuietHours(preferences(), lateEvening)).toBe(false);
+  });
+});
+
+describe('createNotificationDispatcher', () => {
+  it('falls back to in-app only for users without preferences', async () => {
+    const { transport, recorded, dispatch } = setup(null);
+    await dispatch('donation_accepted', 'user-1', { request_id: 'r1' });
+
+    expect(transport.sent.map((n) => n.channel)).toEqual(['in_app']);
+    expect(statuses(recorded)).toEqual({
+      in_app: 'sent',
+      sms: 'skipped',
+      email: 'skipped',
+      push: 'skipped',
+    });
+    expect(recorded.every((record) => record.notification_id === 'stub-1')).toBe(true);
+  });
+
+  it('holds back interrupting channels during quiet hours unless urgent', async () => {
+    const quiet = preferences({ quiet_hours_start: '22:00', quiet_hours_end: '07:00' });
+
+    const routine = setup(quiet);
+    await routine.dispatch('donation_accepted', 'user-1', { request_id: 'r1' });
+    expect(routine.transport.sent.map((n) => n.channel)).toEqual(['in_app']);
+    expect(routine.recorded.find((r) => r.channel === 'sms')?.reason).toBe('quiet_hours');
+
+    const urgent = setup(quiet);
+    await urgent.dispatch('emergency_nearby', 'user-1', {
+      request_id: 'r1',
+      blood_type: 'O-',
+      hospital_name: 'City Hospital',
+    });
+    expect(urgent.transport.sent.map((n) => n.channel)).toEqual(['in_app', 'sms', 'push']);
+  });
+
+  it('skips muted events on every channel', async () => {
+    const { transport, recorded, dispatch } = setup(
+      preferences({ muted_events: ['donation_declined'] })
+    );
+    await dispatch('donation_declined', 'user-1', {});
+
+    expect(transport.sent).toHaveLength(0);
+    expect(recorded).toEqual([
+      expect.objectContaining({ channel: 'in_app', status: 'skipped', reason: 'event_muted' }),
+    ]);
+  });
+
+  it('records transport failures without throwing', async () => {
+    const { transport, recorded, dispatch } = setup(preferences(), ['sms']);
+    await dispatch('donation_rescheduled', 'user-1', {
+      scheduled_date: '2025-03-02',
+      scheduled_time: '10:00',
+    });
+
+    expect(transport.sent.map((n) => n.channel)).toEqual(['in_app', 'email', 'push']);
+    expect(recorded.find((r) => r.channel === 'sms')).toMatchObject({
+      status: 'failed',
+      reason: 'Stub sms transport failure',
+    });
+  });
+});
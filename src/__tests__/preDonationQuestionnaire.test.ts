@@ -0,0 +1,77 @@
+import { describe, it, expect } from 'vitest';
+import { preDonationQuestionnaireSchema } from '../lib/validation';
+import { applyQuestionnaire, toStoredQuestionnaire } from '../lib/preDonationQuestionnaire';
+import { checkEligibility } from '../lib/donorEligibility';
+
+const answers = {
+  recent_illness: 'no',
+  taking_medication: 'no',
+  recent_travel: 'no',
+  weight_kg: '62',
+  last_meal: 'within_4_hours',
+};
+
+const answeredAt = new Date('2026-10-19T09:00:00');
+const donor = { date_of_birth: '1990-04-12', weight_kg: 70 };
+
+describe('preDonationQuestionnaireSchema', () => {
+  it('accepts complete answers and reads the weight as a number', () => {
+    const result = preDonationQuestionnaireSchema.safeParse(answers);
+    expect(result.success).toBe(true);
+    expect(result.data?.weight_kg).toBe(62);
+  });
+
+  it('requires every question to be answered', () => {
+    const result = preDonationQuestionnaireSchema.safeParse({ ...answers, last_meal: '' });
+    expect(result.error?.issues[0].path).toEqual(['last_meal']);
+  });
+
+  it('asks for details when a question is answered yes', () => {
+    const result = preDonationQuestionnaireSchema.safeParse({
+      ...answers,
+      taking_medication: 'yes',
+      medication_details: ' ',
+    });
+    expect(result.error?.issues[0]).toMatchObject({
+      path: ['medication_details'],
+      message: 'Please list the medication',
+    });
+  });
+});
+
+describe('applyQuestionnaire', () => {
+  const parse = (changes: object) =>
+    preDonationQuestionnaireSchema.parse({ ...answers, ...changes });
+
+  it('uses the reported weight', () => {
+    const profile = applyQuestionnaire(donor, parse({ weight_kg: '48' }), answeredAt);
+    expect(profile.weight_kg).toBe(48);
+    expect(checkEligibility(profile, { at: answeredAt }).reasons[0].code).toBe('low_weight');
+  });
+
+  it('defers from the day of the questionnaire for each yes', () => {
+    const profile = applyQuestionnaire(
+      { ...donor, medical_conditions: ['asthma'] },
+      parse({ recent_illness: 'yes', illness_details: 'Flu' }),
+      answeredAt
+    );
+    expect(profile.medical_conditions).toEqual(['asthma', 'recent_illness']);
+    expect(profile.medical_condition_dates).toEqual({ recent_illness: '2026-10-19' });
+
+    expect(checkEligibility(profile, { at: new Date('2026-10-25') }).eligible).toBe(false);
+    expect(checkEligibility(profile, { at: new Date('2026-11-03') }).eligible).toBe(true);
+  });
+
+  it('keeps answers of no from changing the profile conditions', () => {
+    const profile = applyQuestionnaire(donor, parse({}), answeredAt);
+    expect(profile.medical_conditions).toEqual([]);
+    expect(checkEligibility(profile, { at: answeredAt }).eligible).toBe(true);
+  });
+});
+
+describe('toStoredQuestionnaire', () => {
+  it('records when the questionnaire was answered', () => {
+    expect(toStoredQuestionnaire(preDonationQuestionnaireSchema.parse(answers), answeredAt))
+      .toMatchObject({ weight_kg: 62, answered_at: answeredAt.toISOString() });
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import type { RealtimeChannel } from '@supabase/supabase-js';
+import { subscribeResilient } from '../lib/realtime';
+
+type StatusCallback = (status: string) => void;
+
+function createFakeClient() {
+  const channels: { name: string; emit: StatusCallback; removed: boolean }[] = [];
+
+  const client = {
+    channel(name: string) {
+      const entry = { name, emit: (() => {}) as StatusCallback, removed: false };
+      channels.push(entry);
+      const channel = {
+        subscribe(callback: StatusCallback) {
+          entry.emit = callback;
+          return channel;
+        },
+        entry,
+      };
+      return channel as unknown as RealtimeChannel;
+    },
+    async removeChannel(channel: RealtimeChannel) {
+      (channel as unknown as { entry: { removed: boolean } }).entry.removed = true;
+      return 'ok' as const;
+    },
+  };
+
+  return { client, channels };
+}
+
+describe('subscribeResilient', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reconnects with exponential backoff and resyncs once live again', () => {
+    const { client, channels } = createFakeClient();
+    const onResync = vi.fn();
+    const unsubscribe = subscribeResilient(client, 'notifications:u1', (c) => c, { onResync });
+
+    channels[0].emit('SUBSCRIBED');
+    expect(onResync).not.toHaveBeenCalled();
+
+    channels[0].emit('CHANNEL_ERROR');
+    vi.advanceTimersByTime(999);
+    expect(channels).toHaveLength(1);
+    vi.advanceTimersByTime(1);
+    expect(channels).toHaveLength(2);
+    expect(channels[0].removed).toBe(true);
+
+    channels[1].emit('TIMED_OUT');
+    vi.advanceTimersByTime(2000);
+    expect(channels).toHaveLength(3);
+
+    channels[2].emit('SUBSCRIBED');
+    expect(onResync).toHaveBeenCalledTimes(1);
+    expect(onResync.mock.calls[0][0]).toBeInstanceOf(Date);
+
+    unsubscribe();
+    expect(channels[2].removed).toBe(true);
+  });
+
+  it('ignores status changes after unsubscribing', () => {
+    const { client, channels } = createFakeClient();
+    const unsubscribe = subscribeResilient(client, 'notifications:u1', (c) => c);
+
+    unsubscribe();
+    channels[0].emit('CLOSED');
+    vi.advanceTimersByTime(60000);
+    expect(channels).toHaveLength(1);
+  });
+
+  it('gives each subscriber its own topic and keeps it across reconnects', () => {
+    const { client, channels } = createFakeClient();
+    const first = subscribeResilient(client, 'notifications:u1', (c) => c);
+    const second = subscribeResilient(client, 'notifications:u1', (c) => c);
+
+    expect(channels[0].name).toMatch(/^notifications:u1:/);
+    expect(channels[1].name).not.toBe(channels[0].name);
+
+    channels[0].emit('CLOSED');
+    vi.advanceTimersByTime(1000);
+    expect(channels[2].name).toBe(channels[0].name);
+
+    first();
+    second();
+  });
+});
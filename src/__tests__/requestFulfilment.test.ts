@@ -0,0 +1,40 @@
+import { describe, it, expect } from 'vitest';
+import { getAcceptableUnits, getFulfilmentProgress } from '../lib/requestFulfilment';
+
+describe('getFulfilmentProgress', () => {
+  it('tracks pledged, collected and still needed units', () => {
+    expect(
+      getFulfilmentProgress({ units_required: 4, units_pledged: 3, units_collected: 1 })
+    ).toEqual({
+      required: 4,
+      pledged: 3,
+      collected: 1,
+      stillNeeded: 1,
+      collectedPercent: 25,
+      pledgedPercent: 75,
+      isFullyPledged: false,
+      isFullyCollected: false,
+    });
+  });
+
+  it('counts collected units as pledged and caps percentages at 100', () => {
+    const progress = getFulfilmentProgress({
+      units_required: 2,
+      units_pledged: 1,
+      units_collected: 3,
+    });
+    expect(progress.pledged).toBe(3);
+    expect(progress.stillNeeded).toBe(0);
+    expect(progress.collectedPercent).toBe(100);
+    expect(progress.isFullyCollected).toBe(true);
+  });
+});
+
+describe('getAcceptableUnits', () => {
+  it('never pledges more than the request still needs', () => {
+    const request = { units_required: 3, units_pledged: 2, units_collected: 0 };
+    expect(getAcceptableUnits(request, 1)).toBe(1);
+    expect(getAcceptableUnits(request, 5)).toBe(1);
+    expect(getAcceptableUnits({ ...request, units_pledged: 3 }, 1)).toBe(0);
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, it, expect } from 'vitest';
+import {
+  assertTransition,
+  canTransition,
+  getAvailableTransitions,
+  isTerminalStatus,
+} from '../lib/requestLifecycle';
+
+describe('request lifecycle', () => {
+  it('only lets the allowed actor perform a transition', () => {
+    expect(canTransition('emergency', 'pending', 'in_progress', 'donor')).toBe(true);
+    expect(canTransition('emergency', 'in_progress', 'fulfilled', 'donor')).toBe(false);
+    expect(canTransition('emergency', 'in_progress', 'fulfilled', 'requester')).toBe(true);
+    expect(canTransition('blood_bank', 'pending', 'accepted', 'requester')).toBe(false);
+    expect(canTransition('blood_bank', 'pending', 'accepted', 'blood_bank')).toBe(true);
+  });
+
+  it('keeps the two request kinds apart', () => {
+    expect(canTransition('emergency', 'pending', 'accepted', 'blood_bank')).toBe(false);
+    expect(canTransition('blood_bank', 'pending', 'in_progress', 'requester')).toBe(false);
+  });
+
+  it('lists what an actor can do next', () => {
+    expect(getAvailableTransitions('emergency', 'in_progress', 'requester')).toEqual([
+      'pending',
+      'fulfilled',
+      'cancelled',
+    ]);
+    expect(getAvailableTransitions('emergency', 'fulfilled', 'requester')).toEqual([]);
+    expect(isTerminalStatus('fulfilled')).toBe(true);
+    expect(isTerminalStatus('rejected')).toBe(false);
+  });
+
+  it('explains rejected transitions', () => {
+    expect(() => assertTransition('emergency', 'fulfilled', 'cancelled', 'requester')).toThrow(
+      'A fulfilled request cannot be marked cancelled'
+    );
+    expect(() => assertTransition('blood_bank', 'pending', 'rejected', 'requester')).toThrow(
+      'Only the blood bank can do this'
+    );
+    expect(() => assertTransition('emergency', 'pending', 'pending', 'requester')).toThrow(
+      'Request is already pending'
+    );
+    expect(() => assertTransition('emergency', 'pending', 'cancelled', 'requester')).not.toThrow();
+  });
+});
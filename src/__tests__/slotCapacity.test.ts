@@ -0,0 +1,34 @@
+import { describe, it, expect } from 'vitest';
+import {
+  describeSlotAvailability,
+  describeWaitlistPosition,
+  remainingPlaces,
+} from '../lib/slotCapacity';
+
+describe('remainingPlaces', () => {
+  it('never goes below zero', () => {
+    expect(remainingPlaces({ capacity: 5, booked_count: 3 })).toBe(2);
+    expect(remainingPlaces({ capacity: 5, booked_count: 7 })).toBe(0);
+  });
+});
+
+describe('describeSlotAvailability', () => {
+  it('shows the places left', () => {
+    expect(describeSlotAvailability({ capacity: 5, booked_count: 2 })).toBe('3 of 5 places left');
+    expect(describeSlotAvailability({ capacity: 5, booked_count: 4 })).toBe('1 place left');
+  });
+
+  it('shows the waitlist once full', () => {
+    expect(describeSlotAvailability({ capacity: 5, booked_count: 5 })).toBe('Full');
+    expect(describeSlotAvailability({ capacity: 5, booked_count: 5, waitlist_count: 2 })).toBe(
+      'Full · 2 waiting'
+    );
+  });
+});
+
+describe('describeWaitlistPosition', () => {
+  it('reads naturally', () => {
+    expect(describeWaitlistPosition(1)).toBe("You're first on the waitlist");
+    expect(describeWaitlistPosition(4)).toBe("You're number 4 on the waitlist");
+  });
+});
@@ -0,0 +1,130 @@
+import { describe, it, expect } from 'vitest';
+import {
+  conflictCancellationNotification,
+  countPlannedSlots,
+  describeTemplate,
+  describeWeekdays,
+  templateDates,
+  templateSessions,
+} from '../lib/slotTemplates';
+import { slotTemplateSchema } from '../lib/validation';
+
+const weekdayMornings = {
+  weekdays: [1, 2, 3, 4, 5],
+  start_time: '09:00:00',
+  end_time: '13:00:00',
+  slot_minutes: 20,
+  capacity: 3,
+};
+
+describe('describeWeekdays', () => {
+  it('collapses runs of three or more days', () => {
+    expect(describeWeekdays([5, 1, 2, 3, 4])).toBe('Mon–Fri');
+    expect(describeWeekdays([1, 3, 6, 7])).toBe('Mon, Wed, Sat, Sun');
+    expect(describeWeekdays([1, 2, 3, 5])).toBe('Mon–Wed, Fri');
+    expect(describeWeekdays([1, 2, 3, 4, 5, 6, 7])).toBe('Every day');
+  });
+});
+
+describe('describeTemplate', () => {
+  it('reads like the opening hours staff would write', () => {
+    expect(describeTemplate(weekdayMornings)).toBe(
+      'Mon–Fri 9:00–13:00, 20-minute slots, 3 beds'
+    );
+    expect(describeTemplate({ ...weekdayMornings, weekdays: [6], capacity: 1 })).toBe(
+      'Sat 9:00–13:00, 20-minute slots, 1 bed'
+    );
+  });
+});
+
+describe('templateSessions', () => {
+  it('splits the opening hours into slots', () => {
+    const sessions = templateSessions(weekdayMornings);
+
+    expect(sessions).toHaveLength(12);
+    expect(sessions[0]).toEqual({ start_time: '09:00', end_time: '09:20' });
+    expect(sessions[11]).toEqual({ start_time: '12:40', end_time: '13:00' });
+  });
+
+  it('leaves out a last slot that would run past closing', () => {
+    const sessions = templateSessions({ ...weekdayMornings, slot_minutes: 45 });
+
+    expect(sessions).toHaveLength(5);
+    expect(sessions[4]).toEqual({ start_time: '12:00', end_time: '12:45' });
+  });
+});
+
+describe('templateDates', () => {
+  it('keeps the template days inside its validity and skips closures', () => {
+    // 2026-10-19 is a Monday
+    const dates = templateDates(
+      { ...weekdayMornings, valid_from: '2026-10-20', valid_until: '2026-10-29' },
+      '2026-10-19',
+      '2026-11-30',
+      ['2026-10-22']
+    );
+
+    expect(dates).toEqual([
+      '2026-10-20',
+      '2026-10-21',
+      '2026-10-23',
+      '2026-10-26',
+      '2026-10-27',
+      '2026-10-28',
+      '2026-10-29',
+    ]);
+  });
+
+  it('counts the slots a date range generates', () => {
+    expect(countPlannedSlots(weekdayMornings, '2026-10-19', '2026-10-25', ['2026-10-23'])).toBe(
+      4 * 12
+    );
+  });
+});
+
+describe('conflictCancellationNotification', () => {
+  it('formats the cancelled booking and explains why', () => {
+    const conflict = {
+      donation_id: 'donation-1',
+      user_id: 'user-1',
+      donor_name: 'Asha Rao',
+      scheduled_date: '2026-10-23',
+      scheduled_time: '14:30',
+      reason: 'closed',
+    };
+
+    expect(conflictCancellationNotification(conflict)).toEqual({
+      scheduled_date: 'Friday, October 23',
+      scheduled_time: '2:30 PM',
+      reason: 'The facility is closed that day. Please book another slot.',
+    });
+  });
+});
+
+describe('slotTemplateSchema', () => {
+  const form = {
+    name: '',
+    weekdays: [1, 2, 3, 4, 5],
+    start_time: '09:00',
+    end_time: '13:00',
+    slot_minutes: 20,
+    capacity: 3,
+    valid_from: '2026-10-19',
+    valid_until: '',
+    generate_until: '2026-12-14',
+  };
+
+  it('accepts a weekday template', () => {
+    expect(slotTemplateSchema.safeParse(form).success).toBe(true);
+  });
+
+  it('needs a day and opening hours that fit a slot', () => {
+    const noDays = slotTemplateSchema.safeParse({ ...form, weekdays: [] });
+    const tooShort = slotTemplateSchema.safeParse({ ...form, end_time: '09:15' });
+
+    expect(noDays.success).toBe(false);
+    expect(tooShort.success || tooShort.error.issues[0].message).toBe(
+      'Opening hours are shorter than one slot'
+    );
+  });
+});
@@ -0,0 +1,70 @@
+import { describe, it, expect } from 'vitest';
+import {
+  DEFAULT_SOS_STAGES,
+  getBroadcastStages,
+  getSosEscalationDecision,
+  getSosStages,
+} from '../lib/sosEscalation';
+
+describe('getSosStages', () => {
+  it('widens from 5 to 50 km by default', () => {
+    expect(getSosStages().map((stage) => stage.radiusKm)).toEqual([5, 10, 25, 50]);
+  });
+
+  it('overrides waits from a comma separated list and ignores invalid entries', () => {
+    expect(getSosStages('1, x, 0, 0.5').map((stage) => stage.waitMinutes)).toEqual([
+      1,
+      DEFAULT_SOS_STAGES[1].waitMinutes,
+      DEFAULT_SOS_STAGES[2].waitMinutes,
+      DEFAULT_SOS_STAGES[3].waitMinutes,
+    ]);
+  });
+});
+
+describe('getBroadcastStages', () => {
+  it('pairs the radii and waits stored on a broadcast', () => {
+    expect(
+      getBroadcastStages({ stage_radii_km: [5, 10], stage_wait_minutes: [1, 4] })
+    ).toEqual([
+      { radiusKm: 5, waitMinutes: 1 },
+      { radiusKm: 10, waitMinutes: 4 },
+    ]);
+  });
+});
+
+describe('getSosEscalationDecision', () => {
+  const stageStartedAt = new Date('2026-10-19T10:00:00Z');
+  const progress = { stage: 0, stageStartedAt, acceptances: 0, targetAcceptances: 1 };
+
+  it('waits until the stage times out', () => {
+    expect(
+      getSosEscalationDecision(progress, DEFAULT_SOS_STAGES, new Date('2026-10-19T10:01:30Z'))
+    ).toEqual({ action: 'wait', msUntilEscalation: 30 * 1000 });
+  });
+
+  it('escalates to the next stage once the wait is over', () => {
+    expect(
+      getSosEscalationDecision(progress, DEFAULT_SOS_STAGES, new Date('2026-10-19T10:02:00Z'))
+    ).toEqual({ action: 'escalate', stage: 1 });
+  });
+
+  it('stops once enough people accepted', () => {
+    expect(
+      getSosEscalationDecision(
+        { ...progress, acceptances: 1 },
+        DEFAULT_SOS_STAGES,
+        new Date('2026-10-19T10:05:00Z')
+      )
+    ).toEqual({ action: 'satisfied' });
+  });
+
+  it('keeps waiting at the widest radius', () => {
+    expect(
+      getSosEscalationDecision(
+        { ...progress, stage: 3 },
+        DEFAULT_SOS_STAGES,
+        new Date('2026-10-19T12:00:00Z')
+      )
+    ).toEqual({ action: 'wait', msUntilEscalation: null });
+  });
+});
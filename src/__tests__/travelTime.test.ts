@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  chunk,
+  createTravelTimeService,
+  estimateTravelTime,
+  readMatrixElement,
+  trafficMultiplier,
+  travelTimeKey,
+  type DistanceMatrixFetcher,
+} from '../lib/travelTime';
+
+const hospital = { lat: 22.5726, lng: 88.3639 };
+const donors = [
+  { lat: 22.5110, lng: 88.3747 },
+  { lat: 22.5958, lng: 88.2636 },
+  { lat: 22.6, lng: 88.4 },
+];
+
+// Tuesday, in the test machine's local time
+const rushHour = new Date(2026, 9, 20, 18, 0);
+const night = new Date(2026, 9, 20, 3, 0);
+
+const roadMatrix = () =>
+  vi.fn<DistanceMatrixFetcher>(async (origins, destinations) =>
+    origins.map((_, i) =>
+      destinations.map((_, j) => ({
+        distanceMeters: 1000 * (i + j + 1),
+        durationSeconds: 600 * (i + j + 1),
+      }))
+    )
+  );
+
+describe('estimateTravelTime', () => {
+  it('takes longer in rush hour and is less sure of it', () => {
+    const evening = estimateTravelTime(donors[0], hospital, rushHour);
+    const late = estimateTravelTime(donors[0], hospital, night);
+
+    expect(evening.durationMinutes).toBeGreaterThan(late.durationMinutes * 1.5);
+    expect(evening.confidence).toBeLessThan(late.confidence);
+    expect(late).toMatchObject({ source: 'traffic_model' });
+    expect(trafficMultiplier(new Date(2026, 9, 25, 18, 0))).toBeLessThan(trafficMultiplier(rushHour));
+  });
+});
+
+describe('travelTimeKey', () => {
+  it('shares an entry between points about a metre apart', () => {
+    expect(travelTimeKey({ lat: 22.57261, lng: 88.36392 }, hospital)).toBe(
+      travelTimeKey({ lat: 22.5726, lng: 88.3639 }, hospital)
+    );
+  });
+});
+
+describe('chunk', () => {
+  it('splits into runs of at most the given size', () => {
+    expect(chunk([1, 2, 3, 4, 5], 2)).toEqual([[1, 2], [3, 4], [5]]);
+  });
+});
+
+describe('createTravelTimeService', () => {
+  it('batches the matrix requests and answers repeats from the cache', async () => {
+    const fetchMatrix = roadMatrix();
+    const service = createTravelTimeService({ fetchMatrix, maxElements: 2, now: () => night });
+
+    const first = await service.to(donors, hospital);
+    expect(fetchMatrix).toHaveBeenCalledTimes(2);
+    expect(fetchMatrix).toHaveBeenCalledWith(donors.slice(0, 2), [hospital]);
+    expect(first.map((estimate) => estimate.durationMinutes)).toEqual([10, 20, 10]);
+    expect(first[0]).toMatchObject({ source: 'road_network', confidence: 0.9, distanceKm: 1 });
+
+    await service.to([donors[1], { lat: 22.59581, lng: 88.26362 }], hospital);
+    expect(fetchMatrix).toHaveBeenCalledTimes(2);
+  });
+
+  it('estimates from traffic while the API is failing, then asks again later', async () => {
+    let time = night.getTime();
+    const fetchMatrix = vi.fn<DistanceMatrixFetcher>(async () => {
+      throw new Error('Network Error');
+    });
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+    const service = createTravelTimeService({
+      fetchMatrix,
+      retryAfterMs: 60000,
+      now: () => new Date(time),
+    });
+
+    const [estimate] = await service.from(hospital, [donors[0]]);
+    expect(estimate).toEqual(estimateTravelTime(hospital, donors[0], night));
+
+    await service.from(hospital, [donors[1]]);
+    expect(fetchMatrix).toHaveBeenCalledTimes(1);
+
+    time += 61000;
+    await service.from(hospital, [donors[1]]);
+    expect(fetchMatrix).toHaveBeenCalledTimes(2);
+    warn.mockRestore();
+  });
+
+  it('does not ask while offline', async () => {
+    const fetchMatrix = roadMatrix();
+    const service = createTravelTimeService({ fetchMatrix, isOnline: () => false });
+
+    const [estimate] = await service.from(hospital, [donors[0]]);
+    expect(estimate.source).toBe('traffic_model');
+    expect(fetchMatrix).not.toHaveBeenCalled();
+  });
+});
+
+describe('readMatrixElement', () => {
+  it('reads plain and wrapped values, skipping pairs without a route', () => {
+    expect(readMatrixElement({ status: 'OK', distance: 5200, duration: 900 })).toEqual({
+      distanceMeters: 5200,
+      durationSeconds: 900,
+    });
+    expect(readMatrixElement({ distance: { value: 10 }, duration: { value: 60 } })).toEqual({
+      distanceMeters: 10,
+      durationSeconds: 60,
+    });
+    expect(readMatrixElement({ status: 'NO_ROUTE', distance: 0, duration: 0 })).toBeNull();
+  });
+});
@@ -2,8 +2,9 @@ import React, { useState, useEffect, useRef } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { MessageSquare, X, Send, Minimize2, Maximize2 } from 'lucide-react';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase } from '../lib/supabase';
+import { logChatbotInteraction } from '../lib/repositories/chatbotInteractions';
 import toast from 'react-hot-toast';
+import { describeEligibilityRules } from '../lib/donorEligibility';
 
 interface ChatMessage {
   role: 'user' | 'assistant';
@@ -90,12 +91,8 @@ export function AIChatbot() {
     
     if (lowerMessage.includes('eligible') || lowerMessage.includes('can i donate')) {
       return "To be eligible for blood donation, you generally need to:\n" +
-             "- Be at least 18 years old\n" +
-             "- Weigh at least 50kg\n" +
-             "- Be in good health\n" +
-             "- Have not donated in the last 3 months\n" +
-             "- Have hemoglobin levels above 12.5g/dl\n" +
-             "For specific eligibility criteria, please consult with a healthcare professional.";
+             describeEligibilityRules() + "\n" +
+             "Your dashboard shows when you can donate next. For specific eligibility criteria, please consult with a healthcare professional.";
     }
     
     if (lowerMessage.includes('prepare') || lowerMessage.includes('before donation')) {
@@ -145,13 +142,11 @@ export function AIChatbot() {
 
       // Store interaction in database if user is logged in
       if (user) {
-        await supabase.from('chatbot_interactions').insert([
-          {
-            user_id: user.id,
-            message: userMessage.content,
-            response: response,
-          },
-        ]);
+        await logChatbotInteraction({
+          user_id: user.id,
+          message: userMessage.content,
+          response: response,
+        }).catch((logError) => console.error('Error storing chatbot interaction:', logError));
       }
     } catch (error) {
       console.error('Error processing message:', error);
@@ -0,0 +1,203 @@
+import { useEffect, useState } from 'react';
+import { Activity, Download, Loader2 } from 'lucide-react';
+import { format, parseISO, subDays } from 'date-fns';
+import toast from 'react-hot-toast';
+import {
+  ADVERSE_REACTION_LABELS,
+  ADVERSE_REACTION_TYPES,
+  REACTION_SEVERITIES,
+  adverseEventsToCsv,
+  summarizeAdverseEvents,
+  type AdverseReaction,
+} from '../lib/donationVitals';
+import { listAdverseEventsForHospital } from '../lib/repositories/donationAdverseEvents';
+import { countCompletedHospitalDonations } from '../lib/repositories/hospitalDonations';
+
+interface AdverseEventReportProps {
+  hospitalId: string;
+}
+
+type AdverseEvent = Awaited<ReturnType<typeof listAdverseEventsForHospital>>[number];
+
+const PERIODS = [
+  { days: 30, label: 'Last 30 days' },
+  { days: 90, label: 'Last 90 days' },
+  { days: 365, label: 'Last 12 months' },
+];
+
+const SEVERITY_STYLES: Record<string, string> = {
+  mild: 'bg-yellow-100 text-yellow-800',
+  moderate: 'bg-orange-100 text-orange-800',
+  severe: 'bg-red-100 text-red-800',
+};
+
+const donorName = (event: AdverseEvent) =>
+  event.donors ? `${event.donors.first_name} ${event.donors.last_name}` : 'Unknown donor';
+
+export function AdverseEventReport({ hospitalId }: AdverseEventReportProps) {
+  const [periodDays, setPeriodDays] = useState(30);
+  const [events, setEvents] = useState<AdverseEvent[]>([]);
+  const [completedDonations, setCompletedDonations] = useState(0);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchReport();
+  }, [hospitalId, periodDays]);
+
+  const fetchReport = async () => {
+    setLoading(true);
+    try {
+      const since = subDays(new Date(), periodDays);
+      const [eventData, donationCount] = await Promise.all([
+        listAdverseEventsForHospital(hospitalId, since),
+        countCompletedHospitalDonations(hospitalId, since),
+      ]);
+      setEvents(eventData);
+      setCompletedDonations(donationCount);
+    } catch (error) {
+      console.error('Error fetching adverse events:', error);
+      toast.error('Failed to load the adverse event report');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDownload = () => {
+    const csv = adverseEventsToCsv(
+      events.map((event) => ({ ...event, donor_name: donorName(event) }))
+    );
+    const url = URL.createObjectURL(new Blob([csv], { type: 'text/csv' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `adverse-events-${format(new Date(), 'yyyy-MM-dd')}.csv`;
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const summary = summarizeAdverseEvents(events, completedDonations);
+
+  return (
+    <>
+      <div className="mb-4">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center">
+          <Activity className="h-6 w-6 mr-2 text-red-500" />
+          Adverse Events
+        </h2>
+        <p className="text-gray-600 mb-4">
+          Reactions recorded after donations at your hospital, for review and reporting.
+        </p>
+      </div>
+
+      <div className="flex justify-between items-center mb-4">
+        <select
+          value={periodDays}
+          onChange={(e) => setPeriodDays(Number(e.target.value))}
+          className="rounded-md border-gray-300 shadow-sm focus:border-red-500 focus:ring-red-500"
+        >
+          {PERIODS.map((period) => (
+            <option key={period.days} value={period.days}>
+              {period.label}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={handleDownload}
+          disabled={events.length === 0}
+          className="inline-flex items-center px-4 py-2 border border-gray-300 rounded-md text-sm font-medium text-gray-700 bg-white hover:bg-gray-50 disabled:opacity-50"
+        >
+          <Download className="h-4 w-4 mr-2" />
+          Download CSV
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="flex justify-center p-8">
+          <Loader2 className="h-8 w-8 text-red-500 animate-spin" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+            <div className="border border-gray-200 rounded-lg p-4">
+              <p className="text-sm text-gray-500">Events</p>
+              <p className="text-2xl font-bold text-gray-900">{summary.total}</p>
+            </div>
+            <div className="border border-gray-200 rounded-lg p-4">
+              <p className="text-sm text-gray-500">Per 1,000 donations</p>
+              <p className="text-2xl font-bold text-gray-900">
+                {summary.ratePerThousand ?? '—'}
+              </p>
+              <p className="text-xs text-gray-500">{completedDonations} completed donations</p>
+            </div>
+            {REACTION_SEVERITIES.filter((severity) => severity !== 'mild').map((severity) => (
+              <div key={severity} className="border border-gray-200 rounded-lg p-4">
+                <p className="text-sm text-gray-500 capitalize">{severity}</p>
+                <p className="text-2xl font-bold text-gray-900">{summary.bySeverity[severity]}</p>
+              </div>
+            ))}
+          </div>
+
+          {events.length === 0 ? (
+            <div className="border border-gray-200 rounded-lg p-8 text-center">
+              <p className="text-gray-500">No adverse events recorded in this period.</p>
+            </div>
+          ) : (
+            <>
+              <div className="flex flex-wrap gap-2 mb-4">
+                {ADVERSE_REACTION_TYPES.filter((reaction) => summary.byReaction[reaction] > 0).map(
+                  (reaction) => (
+                    <span
+                      key={reaction}
+                      className="px-3 py-1 rounded-full text-sm bg-gray-100 text-gray-700"
+                    >
+                      {ADVERSE_REACTION_LABELS[reaction]}: {summary.byReaction[reaction]}
+                    </span>
+                  )
+                )}
+              </div>
+              <div className="overflow-x-auto">
+                <table className="min-w-full divide-y divide-gray-200">
+                  <thead className="bg-gray-50">
+                    <tr>
+                      {['Date', 'Donor', 'Reaction', 'Severity', 'Notes'].map((heading) => (
+                        <th
+                          key={heading}
+                          className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                        >
+                          {heading}
+                        </th>
+                      ))}
+                    </tr>
+                  </thead>
+                  <tbody className="bg-white divide-y divide-gray-200">
+                    {events.map((event) => (
+                      <tr key={event.id}>
+                        <td className="px-4 py-3 text-sm text-gray-700 whitespace-nowrap">
+                          {format(parseISO(event.occurred_at), 'MMM d, yyyy')}
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-900">{donorName(event)}</td>
+                        <td className="px-4 py-3 text-sm text-gray-700">
+                          {ADVERSE_REACTION_LABELS[event.reaction as AdverseReaction] ??
+                            event.reaction}
+                        </td>
+                        <td className="px-4 py-3 text-sm">
+                          <span
+                            className={`px-2 py-1 text-xs font-medium rounded-full capitalize ${
+                              SEVERITY_STYLES[event.severity] ?? 'bg-gray-100 text-gray-800'
+                            }`}
+                          >
+                            {event.severity}
+                          </span>
+                        </td>
+                        <td className="px-4 py-3 text-sm text-gray-600">{event.notes}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </>
+          )}
+        </>
+      )}
+    </>
+  );
+}
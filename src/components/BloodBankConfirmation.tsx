@@ -1,9 +1,18 @@
-import React from 'react';
+import React, { useEffect, useState } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { CheckCircle } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { format } from 'date-fns';
+import {
+  confirmBloodBankProvision,
+  listAllocatableUnits,
+  type BloodUnitRow,
+} from '../lib/repositories/bloodUnits';
+import { getCompatibleBloodTypes } from '../lib/validation';
+import { pickUnitsToIssue } from '../lib/bloodUnitLedger';
+import { getBloodBankRequest } from '../lib/repositories/bloodBankRequests';
+import { assertTransition } from '../lib/requestLifecycle';
 import toast from 'react-hot-toast';
 
 const confirmationSchema = z.object({
@@ -17,6 +26,8 @@ interface BloodBankConfirmationProps {
   notificationId: string;
   requestId: string;
   bloodBankId: string;
+  bloodType: string;
+  componentType: string;
   requestedUnits: number;
   onConfirmed: () => void;
   onClose: () => void;
@@ -26,13 +37,17 @@ export function BloodBankConfirmation({
   notificationId,
   requestId,
   bloodBankId,
+  bloodType,
+  componentType,
   requestedUnits,
   onConfirmed,
   onClose,
 }: BloodBankConfirmationProps) {
+  const [allocation, setAllocation] = useState<BloodUnitRow[]>([]);
   const {
     register,
     handleSubmit,
+    watch,
     formState: { errors, isSubmitting },
   } = useForm<ConfirmationFormData>({
     resolver: zodResolver(confirmationSchema),
@@ -41,41 +56,42 @@ export function BloodBankConfirmation({
     },
   });
 
-  const onSubmit = async (data: ConfirmationFormData) => {
-    try {
-      // Update notification with blood bank confirmation
-      const { error: updateError } = await supabase
-        .from('blood_bank_notifications')
-        .update({
-          blood_bank_confirmed: true,
-          blood_bank_confirmation_date: new Date().toISOString(),
-          blood_bank_notes: data.notes,
-          units_provided: data.units_provided,
-          status: 'accepted'
-        })
-        .eq('id', notificationId);
+  const unitsProvided = watch('units_provided');
 
-      if (updateError) throw updateError;
-
-      // Update blood bank request status
-      const { error: requestError } = await supabase
-        .from('blood_bank_requests')
-        .update({
-          status: 'accepted'
-        })
-        .eq('id', requestId);
+  // Preview the bags that will be issued: the requested type first, then the
+  // oldest compatible units
+  useEffect(() => {
+    if (!unitsProvided || unitsProvided < 1) {
+      setAllocation([]);
+      return;
+    }
 
-      if (requestError) throw requestError;
+    listAllocatableUnits(
+      bloodBankId,
+      getCompatibleBloodTypes(bloodType, componentType),
+      componentType
+    )
+      .then((units) =>
+        setAllocation(
+          pickUnitsToIssue(
+            units,
+            { blood_type: bloodType, component_type: componentType },
+            unitsProvided,
+            format(new Date(), 'yyyy-MM-dd')
+          )
+        )
+      )
+      .catch((error) => console.error('Error loading allocation preview:', error));
+  }, [bloodBankId, bloodType, componentType, unitsProvided]);
 
-      // Update blood inventory
-      const { error: inventoryError } = await supabase
-        .from('blood_inventory')
-        .update({
-          units_available: supabase.sql`units_available - ${data.units_provided}`
-        })
-        .eq('blood_bank_id', bloodBankId);
+  const onSubmit = async (data: ConfirmationFormData) => {
+    try {
+      const request = await getBloodBankRequest(requestId);
+      assertTransition('blood_bank', request.status, 'accepted', 'blood_bank');
 
-      if (inventoryError) throw inventoryError;
+      // Issues the bags, confirms the notification and accepts the request
+      // together, so no bag is issued against a request left pending
+      await confirmBloodBankProvision(notificationId, data.units_provided, data.notes);
 
       toast.success('Blood provision confirmed successfully!');
       onConfirmed();
@@ -107,6 +123,27 @@ export function BloodBankConfirmation({
           )}
         </div>
 
+        {allocation.length > 0 && (
+          <div className="bg-gray-50 rounded-md p-3 text-sm">
+            <p className="font-medium text-gray-700 mb-1">Bags to be issued (same type first, oldest first)</p>
+            <ul className="space-y-1 text-gray-600">
+              {allocation.map((unit) => (
+                <li key={unit.id} className="flex justify-between">
+                  <span>
+                    {unit.bag_id} ({unit.blood_type})
+                  </span>
+                  <span>Expires {unit.expiry_date}</span>
+                </li>
+              ))}
+            </ul>
+            {allocation.length < unitsProvided && (
+              <p className="mt-2 text-red-500">
+                Only {allocation.length} compatible units in stock
+              </p>
+            )}
+          </div>
+        )}
+
         <div>
           <label className="block text-sm font-medium text-gray-700">
             Additional Notes
@@ -6,8 +6,12 @@ import { bloodBankSchema, type BloodBankFormData } from '../lib/validation';
 import { FormField } from './FormField';
 import { FileUpload } from './FileUpload';
 import toast from 'react-hot-toast';
-import { supabase } from '../lib/supabase';
+import { isUniqueViolation } from '../lib/supabase';
+import { createBloodBank } from '../lib/repositories/bloodBanks';
+import { createInventoryLevels } from '../lib/repositories/bloodInventory';
 import { getCurrentLocation } from '../lib/geolocation';
+import { getBrowserTimeZone, timeZoneOptions } from '../lib/dateUtils';
+import { geocodeAddress } from '../services/geocodingService';
 
 interface BloodBankFormProps {
   onComplete?: () => void;
@@ -19,6 +23,7 @@ export function BloodBankForm({ onComplete, userId }: BloodBankFormProps) {
   const [licenseDocPath, setLicenseDocPath] = useState<string>('');
   const [fileUploadError, setFileUploadError] = useState<string | null>(null);
   const [isLocationLoading, setIsLocationLoading] = useState(true);
+  const [hasDeviceLocation, setHasDeviceLocation] = useState(false);
 
   const {
     register,
@@ -28,6 +33,7 @@ export function BloodBankForm({ onComplete, userId }: BloodBankFormProps) {
     reset,
   } = useForm<BloodBankFormData>({
     resolver: zodResolver(bloodBankSchema),
+    defaultValues: { timezone: getBrowserTimeZone() },
   });
 
   useEffect(() => {
@@ -37,12 +43,13 @@ export function BloodBankForm({ onComplete, userId }: BloodBankFormProps) {
       .then((position) => {
         setValue('latitude', position.coords.latitude);
         setValue('longitude', position.coords.longitude);
+        setHasDeviceLocation(true);
         setIsLocationLoading(false);
       })
       .catch((error) => {
         console.error('Error getting location:', error);
         setIsLocationLoading(false);
-        toast.error('Unable to get your location. Please enter it manually.');
+        toast.error("Unable to get your location. We'll locate your blood bank from its address.");
       });
   }, [setValue]);
 
@@ -67,10 +74,24 @@ export function BloodBankForm({ onComplete, userId }: BloodBankFormProps) {
         return;
       }
 
+      // Without the device location, find the blood bank from its address; this
+      // works offline from the bundled gazetteer
+      let { latitude, longitude } = data;
+      if (latitude === undefined || longitude === undefined) {
+        const located = await geocodeAddress(data.address);
+        if (located) {
+          latitude = located.latitude;
+          longitude = located.longitude;
+          if (located.lowConfidence) {
+            toast('We could only place your blood bank approximately from its address.');
+          }
+        }
+      }
+
       // Create blood bank profile
-      const { error: bloodBankError, data: bloodBank } = await supabase
-        .from('blood_banks')
-        .insert({
+      let bloodBank;
+      try {
+        bloodBank = await createBloodBank({
           user_id: userId,
           name: data.name,
           address: data.address,
@@ -83,18 +104,13 @@ export function BloodBankForm({ onComplete, userId }: BloodBankFormProps) {
           phone: data.phone,
           website: data.website,
           operating_hours: data.operating_hours,
-          latitude: data.latitude,
-          longitude: data.longitude
-        })
-        .select()
-        .single();
-
-      if (bloodBankError) {
-        if (bloodBankError.code === '23505') {
-          toast.error('This blood bank is already registered');
-        } else {
-          throw bloodBankError;
-        }
+          timezone: data.timezone,
+          latitude,
+          longitude
+        });
+      } catch (bloodBankError) {
+        if (!isUniqueViolation(bloodBankError)) throw bloodBankError;
+        toast.error('This blood bank is already registered');
         return;
       }
 
@@ -106,11 +122,7 @@ export function BloodBankForm({ onComplete, userId }: BloodBankFormProps) {
         units_available: 0
       }));
 
-      const { error: inventoryError } = await supabase
-        .from('blood_inventory')
-        .insert(inventoryData);
-
-      if (inventoryError) throw inventoryError;
+      await createInventoryLevels(inventoryData);
 
       toast.success('Blood bank registered successfully!');
       reset();
@@ -178,6 +190,16 @@ export function BloodBankForm({ onComplete, userId }: BloodBankFormProps) {
           icon={<Clock className="h-5 w-5 text-gray-400" />}
           placeholder="e.g., Mon-Fri: 9AM-5PM, Sat: 9AM-1PM"
         />
+        <FormField
+          label="Time Zone"
+          name="timezone"
+          register={register}
+          error={errors.timezone}
+          type="select"
+          options={timeZoneOptions()}
+          icon={<Globe className="h-5 w-5 text-gray-400" />}
+          required
+        />
         <div className="md:col-span-2">
           <FormField
             label="Address"
@@ -223,10 +245,14 @@ export function BloodBankForm({ onComplete, userId }: BloodBankFormProps) {
             </h3>
             {isLocationLoading ? (
               <p className="text-sm text-gray-600">Getting your location...</p>
-            ) : (
+            ) : hasDeviceLocation ? (
               <p className="text-sm text-gray-600">
                 Your location has been automatically captured. This helps donors find your blood bank easily.
               </p>
+            ) : (
+              <p className="text-sm text-gray-600">
+                Your blood bank will be located from the address above when you register.
+              </p>
             )}
           </div>
         </div>
@@ -7,10 +7,20 @@ import {
   MapPin,
   Droplet,
 } from 'lucide-react';
-import { supabase } from '../lib/supabase';
 import toast from 'react-hot-toast';
 import { format } from 'date-fns';
 import { BloodBankConfirmation } from './BloodBankConfirmation';
+import { RequestTimeline } from './RequestTimeline';
+import {
+  getBloodBankRequest,
+  listRequestsForBloodBank,
+} from '../lib/repositories/bloodBankRequests';
+import { transitionRequestStatus } from '../lib/repositories/requestStatusEvents';
+import { updateBloodBankNotification } from '../lib/repositories/bloodBankNotifications';
+import { countCompatibleUnits } from '../lib/repositories/bloodInventory';
+import { getCompatibleBloodTypes } from '../lib/validation';
+import { getComponentLabel } from '../lib/bloodComponents';
+import { subscribeToBloodBankNotifications } from '../lib/notifications';
 
 interface BloodBankRequestListProps {
   bloodBankId: string;
@@ -24,6 +34,7 @@ interface BloodRequest {
     id: string;
     patient_name: string;
     blood_type: string;
+    component_type: string;
     units_required: number;
     hospital_name: string;
     hospital_address: string;
@@ -32,7 +43,7 @@ interface BloodRequest {
     urgency_level: string;
     status: string;
     created_at: string;
-    notes?: string;
+    notes: string | null;
   };
 }
 
@@ -46,48 +57,35 @@ export function BloodBankRequestList({
   const [selectedRequest, setSelectedRequest] = useState<{
     notificationId: string;
     requestId: string;
+    bloodType: string;
+    componentType: string;
     units: number;
   } | null>(null);
 
   useEffect(() => {
     fetchRequests();
+
+    return subscribeToBloodBankNotifications(
+      bloodBankId,
+      (payload) => {
+        if (payload.eventType === 'INSERT') {
+          toast('New blood request received', { icon: '🩸' });
+        }
+        fetchRequests();
+      },
+      { onResync: () => fetchRequests() }
+    );
   }, [bloodBankId]);
 
   const fetchRequests = async () => {
     try {
       console.log('Fetching requests for blood bank:', bloodBankId);
-      const { data, error } = await supabase
-        .from('blood_bank_requests')
-        .select(
-          `
-          id,
-          patient_name,
-          blood_type,
-          units_required,
-          hospital_name,
-          hospital_address,
-          contact_person,
-          contact_number,
-          urgency_level,
-          status,
-          created_at,
-          notes,
-          blood_bank_notifications!blood_bank_notifications_request_id_fkey (
-            id,
-            status,
-            blood_bank_confirmed
-          )
-        `
-        )
-        .eq('blood_bank_id', bloodBankId)
-        .order('created_at', { ascending: false });
-
-      console.log('Query result:', { data, error });
+      const data = await listRequestsForBloodBank(bloodBankId);
 
-      if (error) throw error;
+      console.log('Query result:', data);
 
       // Transform the data to match our interface
-      const transformedRequests = (data || []).map((request) => ({
+      const transformedRequests = data.map((request) => ({
         id: request.blood_bank_notifications[0]?.id || '',
         status: request.blood_bank_notifications[0]?.status || request.status,
         blood_bank_confirmed:
@@ -96,6 +94,7 @@ export function BloodBankRequestList({
           id: request.id,
           patient_name: request.patient_name,
           blood_type: request.blood_type,
+          component_type: request.component_type,
           units_required: request.units_required,
           hospital_name: request.hospital_name,
           hospital_address: request.hospital_address,
@@ -128,25 +127,17 @@ export function BloodBankRequestList({
 
       if (action === 'accept') {
         // Get the request details
-        const { data: requestData, error: requestError } = await supabase
-          .from('blood_bank_requests')
-          .select('blood_type, units_required')
-          .eq('id', requestId)
-          .single();
-
-        if (requestError) throw requestError;
+        const requestData = await getBloodBankRequest(requestId);
 
-        // Check blood inventory
-        const { data: inventoryData, error: inventoryError } = await supabase
-          .from('blood_inventory')
-          .select('units_available')
-          .eq('blood_bank_id', bloodBankId)
-          .eq('blood_type', requestData.blood_type)
-          .single();
+        // Check compatible units derived from the ledger; the bags themselves
+        // are picked when the provision is confirmed
+        const unitsAvailable = await countCompatibleUnits(
+          bloodBankId,
+          getCompatibleBloodTypes(requestData.blood_type, requestData.component_type),
+          requestData.component_type
+        );
 
-        if (inventoryError) throw inventoryError;
-
-        if (inventoryData.units_available < requestData.units_required) {
+        if (unitsAvailable < requestData.units_required) {
           toast.error('Insufficient blood units available');
           return;
         }
@@ -154,29 +145,23 @@ export function BloodBankRequestList({
         setSelectedRequest({
           notificationId: notificationId,
           requestId: requestId,
+          bloodType: requestData.blood_type,
+          componentType: requestData.component_type,
           units: requestData.units_required,
         });
         setShowConfirmation(true);
       } else {
-        // Update notification status for rejection
-        const { error: notifError } = await supabase
-          .from('blood_bank_notifications')
-          .update({
-            status: 'rejected',
-          })
-          .eq('id', notificationId);
-
-        if (notifError) throw notifError;
-
-        // Update request status
-        const { error: requestError } = await supabase
-          .from('blood_bank_requests')
-          .update({
-            status: 'rejected',
-          })
-          .eq('id', requestId);
+        const requestData = await getBloodBankRequest(requestId);
+        await transitionRequestStatus({
+          kind: 'blood_bank',
+          requestId,
+          from: requestData.status,
+          to: 'rejected',
+          actor: 'blood_bank',
+        });
 
-        if (requestError) throw requestError;
+        // Update notification status for rejection
+        await updateBloodBankNotification(notificationId, { status: 'rejected' });
 
         toast.success('Request rejected');
         fetchRequests();
@@ -213,6 +198,8 @@ export function BloodBankRequestList({
               notificationId={selectedRequest.notificationId}
               requestId={selectedRequest.requestId}
               bloodBankId={bloodBankId}
+              bloodType={selectedRequest.bloodType}
+              componentType={selectedRequest.componentType}
               requestedUnits={selectedRequest.units}
               onConfirmed={handleConfirmationComplete}
               onClose={() => setShowConfirmation(false)}
@@ -271,7 +258,8 @@ export function BloodBankRequestList({
                   </h3>
                   <p className="text-gray-600">
                     Requires {notification.request.units_required} units of{' '}
-                    {notification.request.blood_type} blood
+                    {notification.request.blood_type}{' '}
+                    {getComponentLabel(notification.request.component_type)}
                   </p>
                 </div>
 
@@ -293,6 +281,12 @@ export function BloodBankRequestList({
                     {format(new Date(notification.request.created_at), 'PPp')}
                   </p>
                 </div>
+
+                <RequestTimeline
+                  kind="blood_bank"
+                  requestId={notification.request.id}
+                  status={notification.request.status}
+                />
               </div>
 
               {notification.status === 'pending' && (
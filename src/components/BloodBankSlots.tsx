@@ -1,20 +1,17 @@
 import React, { useState, useEffect } from 'react';
-import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { toast } from 'react-hot-toast';
 import { Clock, Plus, Trash2, RefreshCw, Loader2 } from 'lucide-react';
+import { getBloodBankByUserId } from '../lib/repositories/bloodBanks';
+import {
+  createBloodBankSlot,
+  deleteBloodBankSlot,
+  listSlotsForBloodBank,
+  type BloodBankSlotRow,
+} from '../lib/repositories/bloodBankSlots';
+import { SlotTemplateManager } from './SlotTemplateManager';
 
-interface DonationSlot {
-  id: string;
-  blood_bank_id: string;
-  day_of_week: number;
-  day_of_week_text: string;
-  start_time: string;
-  end_time: string;
-  capacity: number;
-  max_donors_per_slot: number;
-  created_at: string;
-}
+type DonationSlot = BloodBankSlotRow;
 
 const DAYS_OF_WEEK = [
   'Monday',
@@ -42,7 +39,7 @@ export default function BloodBankSlots() {
 
   useEffect(() => {
     fetchBloodBankId();
-  }, []);
+  }, [user]);
 
   useEffect(() => {
     if (bloodBankId) {
@@ -51,14 +48,11 @@ export default function BloodBankSlots() {
   }, [bloodBankId]);
 
   const fetchBloodBankId = async () => {
-    try {
-      const { data, error } = await supabase
-        .from('blood_banks')
-        .select('id')
-        .eq('user_id', user?.id)
-        .single();
+    if (!user) return;
 
-      if (error) throw error;
+    try {
+      const data = await getBloodBankByUserId(user.id);
+      if (!data) throw new Error('Blood bank profile not found');
       setBloodBankId(data.id);
     } catch (error) {
       console.error('Error fetching blood bank ID:', error);
@@ -71,14 +65,8 @@ export default function BloodBankSlots() {
     
     setSlotsLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('blood_bank_slots')
-        .select('*')
-        .eq('blood_bank_id', bloodBankId)
-        .order('day_of_week_text', { ascending: true });
-
-      if (error) throw error;
-      setSlots(data || []);
+      const data = await listSlotsForBloodBank(bloodBankId);
+      setSlots(data);
     } catch (error) {
       console.error('Error fetching slots:', error);
       toast.error('Failed to load donation slots');
@@ -114,12 +102,7 @@ export default function BloodBankSlots() {
         max_donors_per_slot: capacity
       };
       
-      const { data, error } = await supabase
-        .from('blood_bank_slots')
-        .insert(newSlot)
-        .select();
-        
-      if (error) throw error;
+      await createBloodBankSlot(newSlot);
       
       toast.success('Donation slot created successfully');
       
@@ -144,12 +127,7 @@ export default function BloodBankSlots() {
     }
     
     try {
-      const { error } = await supabase
-        .from('blood_bank_slots')
-        .delete()
-        .eq('id', slotId);
-        
-      if (error) throw error;
+      await deleteBloodBankSlot(slotId);
       
       toast.success('Donation slot deleted');
       // Refresh the list
@@ -172,10 +150,14 @@ export default function BloodBankSlots() {
           These slots will be visible to donors looking to make voluntary donations.
         </p>
       </div>
+
+      {bloodBankId && (
+        <SlotTemplateManager facilityType="blood_bank" facilityId={bloodBankId} />
+      )}
       
       {/* Create new donation slot form */}
       <form onSubmit={createDonationSlot} className="border border-gray-200 rounded-lg p-6 mb-6">
-        <h3 className="font-medium text-gray-900 mb-4">Add New Donation Slot</h3>
+        <h3 className="font-medium text-gray-900 mb-4">Add a Single Weekly Slot</h3>
         <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
           <div>
             <label htmlFor="dayOfWeek" className="block text-sm font-medium text-gray-700 mb-1">
@@ -259,7 +241,7 @@ export default function BloodBankSlots() {
       {/* Display existing donation slots */}
       <div className="border border-gray-200 rounded-lg p-6">
         <div className="flex justify-between items-center mb-4">
-          <h3 className="font-medium text-gray-900">Your Donation Slots</h3>
+          <h3 className="font-medium text-gray-900">Your Weekly Slots</h3>
           <button 
             onClick={fetchSlots}
             disabled={slotsLoading}
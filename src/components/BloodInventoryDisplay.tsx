@@ -1,6 +1,8 @@
 import React, { useState, useEffect } from 'react';
 import { Droplet, Building2 } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { listActiveBloodBanks } from '../lib/repositories/bloodBanks';
+import { listInventoryLevels } from '../lib/repositories/bloodInventory';
+import { COMPONENT_OPTIONS, type ComponentType } from '../lib/bloodComponents';
 
 interface BloodBank {
   id: string;
@@ -17,6 +19,7 @@ const BLOOD_TYPES = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
 export function BloodInventoryDisplay() {
   const [bloodBanks, setBloodBanks] = useState<BloodBank[]>([]);
   const [selectedBank, setSelectedBank] = useState<string>('all');
+  const [selectedComponent, setSelectedComponent] = useState<ComponentType>('whole_blood');
   const [inventory, setInventory] = useState<InventoryData[]>([]);
   const [loading, setLoading] = useState(true);
 
@@ -26,18 +29,12 @@ export function BloodInventoryDisplay() {
 
   useEffect(() => {
     fetchInventory();
-  }, [selectedBank]);
+  }, [selectedBank, selectedComponent]);
 
   const fetchBloodBanks = async () => {
     try {
-      const { data, error } = await supabase
-        .from('blood_banks')
-        .select('id, name')
-        .eq('status', 'active')
-        .order('name');
-
-      if (error) throw error;
-      setBloodBanks(data || []);
+      const data = await listActiveBloodBanks();
+      setBloodBanks(data);
     } catch (error) {
       console.error('Error fetching blood banks:', error);
     }
@@ -46,22 +43,14 @@ export function BloodInventoryDisplay() {
   const fetchInventory = async () => {
     try {
       setLoading(true);
-      let query = supabase
-        .from('blood_inventory')
-        .select('blood_type, units_available');
-
-      if (selectedBank !== 'all') {
-        query = query.eq('blood_bank_id', selectedBank);
-      }
-
-      const { data, error } = await query;
+      const data = await listInventoryLevels(
+        selectedBank !== 'all' ? selectedBank : undefined
+      );
 
-      if (error) throw error;
-
-      // Aggregate inventory data
+      // Aggregate inventory data for the selected component
       const aggregatedData = BLOOD_TYPES.map(type => {
         const totalUnits = data
-          ?.filter(item => item.blood_type === type)
+          .filter(item => item.blood_type === type && item.component_type === selectedComponent)
           .reduce((sum, item) => sum + (item.units_available || 0), 0);
 
         return {
@@ -83,6 +72,17 @@ export function BloodInventoryDisplay() {
       <div className="flex items-center justify-between mb-6">
         <h2 className="text-2xl font-bold text-gray-900">Available Blood Units</h2>
         <div className="flex items-center">
+          <select
+            value={selectedComponent}
+            onChange={(e) => setSelectedComponent(e.target.value as ComponentType)}
+            className="border border-gray-300 rounded-md px-3 py-2 mr-4 focus:ring-red-500 focus:border-red-500"
+          >
+            {COMPONENT_OPTIONS.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
           <Building2 className="h-5 w-5 text-gray-400 mr-2" />
           <select
             value={selectedBank}
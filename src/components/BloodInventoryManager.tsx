@@ -1,17 +1,25 @@
 import React, { useState, useEffect } from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
-import { Droplet, RefreshCw } from 'lucide-react';
-import { inventoryUpdateSchema, type InventoryUpdateData } from '../lib/validation';
+import { Droplet, RefreshCw, Trash2, History } from 'lucide-react';
+import { format } from 'date-fns';
+import { bloodUnitSchema, type BloodUnitFormData } from '../lib/validation';
+import {
+  COMPONENT_OPTIONS,
+  COMPONENT_TYPES,
+  getComponentLabel,
+  getDefaultExpiryDate,
+} from '../lib/bloodComponents';
 import toast from 'react-hot-toast';
-import { supabase } from '../lib/supabase';
+import {
+  discardBloodUnit,
+  listBloodUnitEvents,
+  listBloodUnits,
+  receiveBloodUnit,
+  type BloodUnitRow,
+} from '../lib/repositories/bloodUnits';
 
-interface BloodInventory {
-  id: string;
-  blood_type: string;
-  units_available: number;
-  last_updated: string;
-}
+type BloodUnitEvent = Awaited<ReturnType<typeof listBloodUnitEvents>>[number];
 
 interface BloodInventoryManagerProps {
   bloodBankId: string;
@@ -19,33 +27,49 @@ interface BloodInventoryManagerProps {
 
 const BLOOD_TYPES = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'];
 
+const isUsable = (unit: BloodUnitRow, today: string) =>
+  unit.status === 'available' && unit.expiry_date >= today;
+
 export function BloodInventoryManager({ bloodBankId }: BloodInventoryManagerProps) {
-  const [inventory, setInventory] = useState<BloodInventory[]>([]);
+  const [units, setUnits] = useState<BloodUnitRow[]>([]);
+  const [events, setEvents] = useState<BloodUnitEvent[]>([]);
   const [loading, setLoading] = useState(true);
+  const [discarding, setDiscarding] = useState<string | null>(null);
 
   const {
     register,
     handleSubmit,
     reset,
+    watch,
+    setValue,
     formState: { errors, isSubmitting },
-  } = useForm<InventoryUpdateData>({
-    resolver: zodResolver(inventoryUpdateSchema),
+  } = useForm<BloodUnitFormData>({
+    resolver: zodResolver(bloodUnitSchema),
+    defaultValues: { component_type: 'whole_blood' },
   });
 
+  const componentType = watch('component_type');
+  const collectionDate = watch('collection_date');
+
   useEffect(() => {
     fetchInventory();
   }, [bloodBankId]);
 
+  // Fill in the expiry from the component's shelf life
+  useEffect(() => {
+    if (componentType && collectionDate) {
+      setValue('expiry_date', getDefaultExpiryDate(componentType, collectionDate));
+    }
+  }, [componentType, collectionDate, setValue]);
+
   const fetchInventory = async () => {
     try {
-      const { data, error } = await supabase
-        .from('blood_inventory')
-        .select('*')
-        .eq('blood_bank_id', bloodBankId)
-        .order('blood_type');
-
-      if (error) throw error;
-      setInventory(data || []);
+      const [unitData, eventData] = await Promise.all([
+        listBloodUnits(bloodBankId),
+        listBloodUnitEvents(bloodBankId),
+      ]);
+      setUnits(unitData.filter((unit) => unit.status === 'available' || unit.status === 'reserved'));
+      setEvents(eventData);
     } catch (error) {
       console.error('Error fetching inventory:', error);
       toast.error('Failed to load inventory');
@@ -54,26 +78,41 @@ export function BloodInventoryManager({ bloodBankId }: BloodInventoryManagerProp
     }
   };
 
-  const onSubmit = async (data: InventoryUpdateData) => {
+  const onSubmit = async (data: BloodUnitFormData) => {
     try {
-      const updates = Object.entries(data).map(([blood_type, units_available]) => ({
+      await receiveBloodUnit({
         blood_bank_id: bloodBankId,
-        blood_type,
-        units_available: parseInt(units_available.toString()),
-        last_updated: new Date().toISOString(),
-      }));
+        bag_id: data.bag_id,
+        blood_type: data.blood_type,
+        component_type: data.component_type,
+        collection_date: data.collection_date,
+        expiry_date: data.expiry_date,
+        source_donation_id: data.source_donation_id || null,
+      });
 
-      const { error } = await supabase
-        .from('blood_inventory')
-        .upsert(updates, { onConflict: 'blood_bank_id,blood_type' });
+      toast.success(`Bag ${data.bag_id} added to inventory`);
+      reset({ component_type: data.component_type });
+      fetchInventory();
+    } catch (error) {
+      console.error('Error adding blood unit:', error);
+      toast.error('Failed to add blood unit');
+    }
+  };
 
-      if (error) throw error;
+  const handleDiscard = async (unit: BloodUnitRow) => {
+    const reason = window.prompt(`Why is bag ${unit.bag_id} being discarded?`);
+    if (!reason) return;
 
-      toast.success('Inventory updated successfully');
+    try {
+      setDiscarding(unit.id);
+      await discardBloodUnit(unit.id, reason);
+      toast.success(`Bag ${unit.bag_id} discarded`);
       fetchInventory();
     } catch (error) {
-      console.error('Error updating inventory:', error);
-      toast.error('Failed to update inventory');
+      console.error('Error discarding blood unit:', error);
+      toast.error('Failed to discard blood unit');
+    } finally {
+      setDiscarding(null);
     }
   };
 
@@ -86,11 +125,16 @@ export function BloodInventoryManager({ bloodBankId }: BloodInventoryManagerProp
     );
   }
 
+  const today = format(new Date(), 'yyyy-MM-dd');
+
   return (
-    <form onSubmit={handleSubmit(onSubmit)} className="space-y-6">
+    <div className="space-y-8">
+      {/* Stock levels derived from the ledger */}
       <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
         {BLOOD_TYPES.map((type) => {
-          const currentInventory = inventory.find((i) => i.blood_type === type);
+          const usable = units.filter(
+            (unit) => unit.blood_type === type && isUsable(unit, today)
+          );
           return (
             <div
               key={type}
@@ -101,43 +145,192 @@ export function BloodInventoryManager({ bloodBankId }: BloodInventoryManagerProp
                   <Droplet className="h-5 w-5 text-red-500 mr-2" />
                   <span className="font-semibold">{type}</span>
                 </div>
-                <span className="text-sm text-gray-500">
-                  Current: {currentInventory?.units_available || 0} units
-                </span>
+                <span className="text-sm text-gray-500">{usable.length} units</span>
               </div>
-              <input
-                type="number"
-                {...register(type as keyof InventoryUpdateData)}
-                defaultValue={currentInventory?.units_available || 0}
-                min="0"
-                className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
-              />
-              {errors[type as keyof InventoryUpdateData] && (
-                <p className="mt-1 text-sm text-red-500">
-                  {errors[type as keyof InventoryUpdateData]?.message}
-                </p>
-              )}
+              {COMPONENT_TYPES.map((component) => {
+                const count = usable.filter((unit) => unit.component_type === component).length;
+                return count > 0 ? (
+                  <div key={component} className="flex justify-between text-xs text-gray-500">
+                    <span>{getComponentLabel(component)}</span>
+                    <span>{count}</span>
+                  </div>
+                ) : null;
+              })}
             </div>
           );
         })}
       </div>
 
-      <div className="flex justify-end space-x-4">
-        <button
-          type="button"
-          onClick={() => reset()}
-          className="px-4 py-2 text-gray-700 bg-gray-100 rounded-md hover:bg-gray-200"
-        >
-          Reset
-        </button>
-        <button
-          type="submit"
-          disabled={isSubmitting}
-          className="px-4 py-2 text-white bg-red-500 rounded-md hover:bg-red-600 disabled:opacity-50"
-        >
-          {isSubmitting ? 'Updating...' : 'Update Inventory'}
-        </button>
+      {/* Receive a new bag */}
+      <form onSubmit={handleSubmit(onSubmit)} className="bg-gray-50 p-4 rounded-lg space-y-4">
+        <h3 className="text-lg font-semibold text-gray-900">Add Blood Unit</h3>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Bag ID</label>
+            <input
+              type="text"
+              {...register('bag_id')}
+              className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+            />
+            {errors.bag_id && (
+              <p className="mt-1 text-sm text-red-500">{errors.bag_id.message}</p>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Blood Type</label>
+            <select
+              {...register('blood_type')}
+              className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+            >
+              <option value="">Select blood type</option>
+              {BLOOD_TYPES.map((type) => (
+                <option key={type} value={type}>
+                  {type}
+                </option>
+              ))}
+            </select>
+            {errors.blood_type && (
+              <p className="mt-1 text-sm text-red-500">{errors.blood_type.message}</p>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Component</label>
+            <select
+              {...register('component_type')}
+              className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+            >
+              {COMPONENT_OPTIONS.map((option) => (
+                <option key={option.value} value={option.value}>
+                  {option.label}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Collection Date</label>
+            <input
+              type="date"
+              {...register('collection_date')}
+              className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+            />
+            {errors.collection_date && (
+              <p className="mt-1 text-sm text-red-500">{errors.collection_date.message}</p>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">Expiry Date</label>
+            <input
+              type="date"
+              {...register('expiry_date')}
+              className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+            />
+            {errors.expiry_date && (
+              <p className="mt-1 text-sm text-red-500">{errors.expiry_date.message}</p>
+            )}
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700">
+              Source Donation ID (optional)
+            </label>
+            <input
+              type="text"
+              {...register('source_donation_id')}
+              className="w-full mt-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+            />
+            {errors.source_donation_id && (
+              <p className="mt-1 text-sm text-red-500">{errors.source_donation_id.message}</p>
+            )}
+          </div>
+        </div>
+        <div className="flex justify-end">
+          <button
+            type="submit"
+            disabled={isSubmitting}
+            className="px-4 py-2 text-white bg-red-500 rounded-md hover:bg-red-600 disabled:opacity-50"
+          >
+            {isSubmitting ? 'Adding...' : 'Add Unit'}
+          </button>
+        </div>
+      </form>
+
+      {/* Bags currently held */}
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 mb-4">Units in Stock</h3>
+        {units.length === 0 ? (
+          <p className="text-gray-500">No units in stock</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="min-w-full divide-y divide-gray-200 text-sm">
+              <thead className="bg-gray-50">
+                <tr>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Bag ID</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Type</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Component</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Collected</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Expires</th>
+                  <th className="px-4 py-2 text-left font-medium text-gray-500">Status</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-200">
+                {units.map((unit) => {
+                  const expired = unit.expiry_date < today;
+                  return (
+                    <tr key={unit.id}>
+                      <td className="px-4 py-2 font-medium">{unit.bag_id}</td>
+                      <td className="px-4 py-2">{unit.blood_type}</td>
+                      <td className="px-4 py-2">
+                        {getComponentLabel(unit.component_type)}
+                      </td>
+                      <td className="px-4 py-2">{format(new Date(unit.collection_date), 'PP')}</td>
+                      <td className={`px-4 py-2 ${expired ? 'text-red-600 font-medium' : ''}`}>
+                        {format(new Date(unit.expiry_date), 'PP')}
+                        {expired && ' (expired)'}
+                      </td>
+                      <td className="px-4 py-2 capitalize">{unit.status}</td>
+                      <td className="px-4 py-2 text-right">
+                        <button
+                          onClick={() => handleDiscard(unit)}
+                          disabled={discarding === unit.id}
+                          className="text-gray-500 hover:text-red-600 disabled:opacity-50"
+                          title="Discard unit"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        )}
       </div>
-    </form>
+
+      {/* Audit trail */}
+      <div>
+        <h3 className="text-lg font-semibold text-gray-900 mb-4 flex items-center">
+          <History className="h-5 w-5 mr-2 text-gray-500" />
+          Recent Activity
+        </h3>
+        {events.length === 0 ? (
+          <p className="text-gray-500">No inventory activity yet</p>
+        ) : (
+          <ul className="space-y-2 text-sm">
+            {events.map((event) => (
+              <li key={event.id} className="flex items-center justify-between bg-gray-50 p-3 rounded-lg">
+                <span>
+                  <span className="font-medium">Bag {event.unit?.bag_id}</span> (
+                  {event.unit?.blood_type}){' '}
+                  <span className="capitalize">{event.event_type}</span>
+                  {event.notes && <span className="text-gray-500"> — {event.notes}</span>}
+                </span>
+                <span className="text-gray-500">{format(new Date(event.created_at), 'PPp')}</span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
   );
-}
\ No newline at end of file
+}
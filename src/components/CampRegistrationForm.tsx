@@ -2,11 +2,17 @@ import React from 'react';
 import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
-import { format, differenceInYears, differenceInDays } from 'date-fns';
+import { format, differenceInYears } from 'date-fns';
 import { AlertCircle, X } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { isUniqueViolation, supabase } from '../lib/supabase';
+import { createCampRegistration } from '../lib/repositories/campRegistrations';
 import toast from 'react-hot-toast';
 import { FormField } from './FormField';
+import {
+  DEFAULT_ELIGIBILITY_RULES,
+  checkEligibility,
+  explainEligibility,
+} from '../lib/donorEligibility';
 
 const BLOOD_TYPES = [
   { value: 'A+', label: 'A+' },
@@ -65,25 +71,13 @@ export function CampRegistrationForm({ camp, onComplete, onClose }: CampRegistra
 
   const onSubmit = async (data: RegistrationFormData) => {
     try {
-      // Check age requirement
-      const age = differenceInYears(new Date(), new Date(data.date_of_birth));
-      if (age < 18) {
-        toast.error('You must be at least 18 years old to participate');
+      // Eligibility is checked for the day of the camp
+      const eligibility = checkEligibility(data, { at: new Date(camp.camp_date) });
+      if (!eligibility.eligible) {
+        toast.error(explainEligibility(eligibility));
         return;
       }
 
-      // Check last donation date
-      if (data.last_donation_date) {
-        const daysSinceLastDonation = differenceInDays(
-          new Date(),
-          new Date(data.last_donation_date)
-        );
-        if (daysSinceLastDonation < 90) {
-          toast.error('You must wait at least 90 days between donations');
-          return;
-        }
-      }
-
       const { data: sessionData, error: authError } = await supabase.auth.getSession();
       if (authError || !sessionData.session) {
         toast.error('Please sign in to register for the camp');
@@ -95,23 +89,20 @@ export function CampRegistrationForm({ camp, onComplete, onClose }: CampRegistra
         (condition) => condition !== 'none'
       );
 
-      const { error: registrationError } = await supabase.from('camp_registrations').insert({
-        camp_id: camp.id,
-        user_id: sessionData.session.user.id,
-        full_name: data.full_name,
-        date_of_birth: data.date_of_birth,
-        blood_type: data.blood_type,
-        contact_number: data.contact_number,
-        last_donation_date: data.last_donation_date || null,
-        medical_conditions: medicalConditions,
-      });
-
-      if (registrationError) {
-        if (registrationError.code === '23505') {
-          toast.error('You have already registered for this camp');
-        } else {
-          throw registrationError;
-        }
+      try {
+        await createCampRegistration({
+          camp_id: camp.id,
+          user_id: sessionData.session.user.id,
+          full_name: data.full_name,
+          date_of_birth: data.date_of_birth,
+          blood_type: data.blood_type,
+          contact_number: data.contact_number,
+          last_donation_date: data.last_donation_date || null,
+          medical_conditions: medicalConditions,
+        });
+      } catch (registrationError) {
+        if (!isUniqueViolation(registrationError)) throw registrationError;
+        toast.error('You have already registered for this camp');
         return;
       }
 
@@ -148,7 +139,12 @@ export function CampRegistrationForm({ camp, onComplete, onClose }: CampRegistra
             </p>
             <ul className="mt-2 text-sm text-yellow-700 list-disc list-inside">
               <li>You must be at least 18 years old</li>
-              <li>Your last blood donation should be more than 90 days ago</li>
+              <li>
+                Your last whole blood donation should be at least{' '}
+                {DEFAULT_ELIGIBILITY_RULES.donationIntervalDays.whole_blood.male} days (men) or{' '}
+                {DEFAULT_ELIGIBILITY_RULES.donationIntervalDays.whole_blood.female} days (women)
+                before the camp
+              </li>
               <li>You should be in good health condition</li>
             </ul>
           </div>
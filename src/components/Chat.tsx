@@ -1,5 +1,11 @@
 import React, { useState, useEffect, useRef } from 'react';
 import { supabase } from '../lib/supabase';
+import {
+  listRoomMessages,
+  markMessageRead,
+  markRoomMessagesAsRead,
+  sendRoomMessage,
+} from '../lib/repositories/chatMessages';
 import { useAuth } from '../contexts/AuthContext';
 import { Send, Loader2, Check } from 'lucide-react';
 import toast from 'react-hot-toast';
@@ -43,12 +49,7 @@ export function Chat({ roomId, otherUserName, className = '' }: ChatProps) {
       
       try {
         // Use the special function to mark all messages as read
-        const { error } = await supabase.rpc('mark_room_messages_as_read', {
-          p_room_id: roomId,
-          p_user_id: user.id
-        });
-        
-        if (error) throw error;
+        await markRoomMessagesAsRead(roomId, user.id);
         
         // Update local state to reflect read status
         setMessages(prevMessages => prevMessages.map(msg => {
@@ -71,18 +72,12 @@ export function Chat({ roomId, otherUserName, className = '' }: ChatProps) {
       try {
         setIsLoading(true);
         
-        const { data, error } = await supabase
-          .from('chat_messages')
-          .select('*')
-          .eq('room_id', roomId)
-          .order('created_at', { ascending: true });
-
-        if (error) throw error;
+        const data = await listRoomMessages(roomId);
 
-        setMessages(data || []);
+        setMessages(data);
         
         // Store the ID of the last message for deduplication
-        if (data && data.length > 0) {
+        if (data.length > 0) {
           lastMessageIdRef.current = data[data.length - 1].id;
         }
         
@@ -103,10 +98,7 @@ export function Chat({ roomId, otherUserName, className = '' }: ChatProps) {
   // Handle marking a message as read
   const markMessageAsRead = async (messageId: string) => {
     try {
-      await supabase
-        .from('chat_messages')
-        .update({ read_at: new Date().toISOString() })
-        .eq('id', messageId);
+      await markMessageRead(messageId);
     } catch (error) {
       console.error('Error marking message as read:', error);
     }
@@ -211,17 +203,10 @@ export function Chat({ roomId, otherUserName, className = '' }: ChatProps) {
     setIsSending(true);
     
     try {
-      const { data, error } = await supabase
-        .from('chat_messages')
-        .insert({
-          room_id: roomId,
-          sender_id: user.id,
-          message: messageText,
-        })
-        .select()
-        .single();
-
-      if (error) {
+      let data;
+      try {
+        data = await sendRoomMessage(roomId, user.id, messageText);
+      } catch (error) {
         setNewMessage(messageText); // Restore message on error
         throw error;
       }
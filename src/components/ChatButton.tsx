@@ -1,6 +1,7 @@
 import React, { useState, useEffect } from 'react';
 import { MessageSquare, X } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { getDonorUserId } from '../lib/repositories/donors';
+import { createChatRoom, findChatRoomBetween } from '../lib/repositories/chatRooms';
 import { useAuth } from '../contexts/AuthContext';
 import { Chat } from './Chat';
 import toast from 'react-hot-toast';
@@ -32,86 +33,21 @@ export function ChatButton({ donorId, donorName, requestId, className = '' }: Ch
 
     setIsLoading(true);
     try {
-      // First, check if the donor exists in the donors table to get the user_id
-      const { data: donorData, error: donorError } = await supabase
-        .from('donors')
-        .select('id, user_id')
-        .eq('id', donorId)
-        .single();
-
-      if (donorError || !donorData) {
-        console.error('Donor error:', donorError);
-        throw new Error('Donor not found');
-      }
-
-      // Get the donor's user_id which we'll use for chat room creation
-      const donorUserId = donorData.user_id;
-      
-      // Check if a chat room already exists between these users
-      // Using the proper Supabase filter syntax for complex queries
-      let existingRooms = null;
-      let fetchError = null;
-      
-      // First check case 1: donor_id = donorUserId and requester_id = user.id
-      const { data: rooms1, error: error1 } = await supabase
-        .from('chat_rooms')
-        .select('id')
-        .eq('donor_id', donorUserId)
-        .eq('requester_id', user.id);
-      
-      if (error1) {
-        fetchError = error1;
-      } else if (rooms1 && rooms1.length > 0) {
-        existingRooms = rooms1;
-      } else {
-        // Check case 2: donor_id = user.id and requester_id = donorUserId
-        const { data: rooms2, error: error2 } = await supabase
-          .from('chat_rooms')
-          .select('id')
-          .eq('donor_id', user.id)
-          .eq('requester_id', donorUserId);
-        
-        if (error2) {
-          fetchError = error2;
-        } else if (rooms2 && rooms2.length > 0) {
-          existingRooms = rooms2;
-        }
-      }
-
-      if (fetchError) {
-        console.error('Fetch error:', fetchError);
-        throw fetchError;
-      }
-
-      if (existingRooms && existingRooms.length > 0) {
-        // Use the existing chat room
-        setRoomId(existingRooms[0].id);
-      } else {
-        // Create a new chat room
-        console.log("Creating new chat room with donor_id:", donorUserId);
-        
-        const { data: newRoom, error: insertError } = await supabase
-          .from('chat_rooms')
-          .insert({
-            donor_id: donorUserId,  // Using donor's user_id 
+      // Chat rooms are keyed by the donor's user id, not their donor id
+      const donorUserId = await getDonorUserId(donorId);
+      if (!donorUserId) throw new Error('Donor not found');
+
+      // Reuse the room between these users whichever of them started it
+      const existingRoomId = await findChatRoomBetween(user.id, donorUserId);
+      setRoomId(
+        existingRoomId ??
+          (await createChatRoom({
+            donor_id: donorUserId,
             requester_id: user.id,
             request_id: requestId || null,
-            status: 'active'
-          })
-          .select()
-          .single();
-
-        if (insertError) {
-          console.error('Insert error:', insertError);
-          throw insertError;
-        }
-        
-        if (newRoom) {
-          setRoomId(newRoom.id);
-        } else {
-          throw new Error('Failed to create chat room');
-        }
-      }
+            status: 'active',
+          }))
+      );
     } catch (error) {
       console.error('Error initializing chat:', error);
       toast.error('Failed to start chat. Please try again.');
@@ -130,19 +66,10 @@ export function ChatButton({ donorId, donorName, requestId, className = '' }: Ch
     // Check if this button is for the current user (prevent chatting with self)
     const checkSelfChat = async () => {
       try {
-        const { data: donorData, error: donorError } = await supabase
-          .from('donors')
-          .select('user_id')
-          .eq('id', donorId)
-          .single();
-
-        if (donorError) {
-          console.error('Error checking donor:', donorError);
-          throw new Error('Could not verify donor identity');
-        }
+        const donorUserId = await getDonorUserId(donorId);
 
         // If the donor's user_id matches the current user's id, this is a self-chat
-        if (donorData && donorData.user_id === user.id) {
+        if (donorUserId === user.id) {
           toast.error('You cannot chat with yourself');
           return;
         }
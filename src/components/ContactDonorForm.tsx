@@ -5,7 +5,7 @@ import { Phone } from 'lucide-react';
 import { contactDonorSchema, type ContactDonorFormData } from '../lib/validation';
 import { FormField } from './FormField';
 import toast from 'react-hot-toast';
-import { supabase } from '../lib/supabase';
+import { createContactRequest } from '../lib/repositories/contactRequests';
 import { sendSMSNotification, sendEmailNotification } from '../lib/notifications';
 
 interface ContactDonorFormProps {
@@ -40,13 +40,11 @@ export function ContactDonorForm({
   const onSubmit = async (data: ContactDonorFormData) => {
     try {
       // Create contact request in database
-      const { error: requestError } = await supabase.from('contact_requests').insert({
+      await createContactRequest({
         donor_id: donorId,
         ...data,
       });
 
-      if (requestError) throw requestError;
-
       // Send SMS notification
       const smsMessage = `Hello ${donorName}, you have a new blood donation request from ${data.recipient_name} at ${data.hospital_name}. Urgency: ${data.urgency_level}. Please respond ASAP.`;
       await sendSMSNotification(donorPhone, smsMessage);
@@ -1,6 +1,11 @@
-import React from 'react';
 import { Award, Download } from 'lucide-react';
-import { format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
+import toast from 'react-hot-toast';
+import {
+  downloadCertificatePdf,
+  getCertificateQrModules,
+  getCertificateVerificationUrl,
+} from '../lib/certificates';
 
 interface DonationCertificateProps {
   certificateNumber: string;
@@ -9,6 +14,26 @@ interface DonationCertificateProps {
   donationDate: string;
   hospitalName: string;
   unitsConfirmed: number;
+  issuedAt?: string | null;
+}
+
+function CertificateQrCode({ certificateNumber }: { certificateNumber: string }) {
+  const modules = getCertificateQrModules(certificateNumber);
+  const path = modules
+    .flatMap((row, y) => row.map((dark, x) => (dark ? `M${x} ${y}h1v1h-1z` : '')))
+    .join('');
+
+  return (
+    <svg
+      viewBox={`0 0 ${modules.length} ${modules.length}`}
+      className="h-24 w-24"
+      shapeRendering="crispEdges"
+      role="img"
+      aria-label={`QR code for certificate ${certificateNumber}`}
+    >
+      <path d={path} fill="currentColor" />
+    </svg>
+  );
 }
 
 export function DonationCertificate({
@@ -18,7 +43,25 @@ export function DonationCertificate({
   donationDate,
   hospitalName,
   unitsConfirmed,
+  issuedAt,
 }: DonationCertificateProps) {
+  const handleDownload = () => {
+    try {
+      downloadCertificatePdf({
+        certificateNumber,
+        donorName,
+        bloodType,
+        donationDate,
+        hospitalName,
+        unitsConfirmed,
+        issuedAt,
+      });
+    } catch (error) {
+      console.error('Error generating certificate PDF:', error);
+      toast.error('Failed to generate certificate PDF');
+    }
+  };
+
   return (
     <div className="bg-white p-8 rounded-lg shadow-lg border-2 border-red-200">
       <div className="text-center mb-8">
@@ -37,22 +80,40 @@ export function DonationCertificate({
             has donated {unitsConfirmed} unit(s) of {bloodType} blood on
           </p>
           <p className="text-xl font-semibold text-gray-900 mt-2">
-            {format(new Date(donationDate), 'PPPP')}
+            {format(parseISO(donationDate), 'PPPP')}
           </p>
           <p className="text-lg text-gray-600 mt-2">at</p>
           <p className="text-xl font-semibold text-gray-900 mt-2">{hospitalName}</p>
         </div>
 
         <div className="border-t border-gray-200 pt-6 mt-6">
-          <div className="flex justify-between items-center text-sm text-gray-500">
-            <span>Certificate No: {certificateNumber}</span>
-            <button className="flex items-center text-red-500 hover:text-red-600">
-              <Download className="h-4 w-4 mr-1" />
-              Download PDF
-            </button>
+          <div className="flex justify-between items-end text-sm text-gray-500">
+            <div className="space-y-1">
+              <p>Certificate No: {certificateNumber}</p>
+              {issuedAt && <p>Issued on {format(parseISO(issuedAt), 'PP')}</p>}
+              <a
+                href={getCertificateVerificationUrl(certificateNumber)}
+                target="_blank"
+                rel="noopener noreferrer"
+                className="block text-xs text-gray-400 hover:text-gray-600 break-all"
+              >
+                {getCertificateVerificationUrl(certificateNumber)}
+              </a>
+              <button
+                onClick={handleDownload}
+                className="flex items-center text-red-500 hover:text-red-600 pt-2"
+              >
+                <Download className="h-4 w-4 mr-1" />
+                Download PDF
+              </button>
+            </div>
+            <div className="text-gray-900 text-center ml-4">
+              <CertificateQrCode certificateNumber={certificateNumber} />
+              <p className="text-xs text-gray-400 mt-1">Scan to verify</p>
+            </div>
           </div>
         </div>
       </div>
     </div>
   );
-}
\ No newline at end of file
+}
@@ -7,6 +7,13 @@ import { supabase } from '../lib/supabase';
 import toast from 'react-hot-toast';
 import { format, addDays } from 'date-fns';
 import { Link } from 'react-router-dom';
+import { getDonorRewards, upsertDonorRewards } from '../lib/repositories/donorRewards';
+import { getDonorById, updateDonor } from '../lib/repositories/donors';
+import { getEmergencyRequest } from '../lib/repositories/emergencyRequests';
+import { createBloodDonation } from '../lib/repositories/bloodDonations';
+import { createDonationCertificate } from '../lib/repositories/donationCertificates';
+import { generateCertificateNumber, getCertificateVerificationUrl } from '../lib/certificates';
+import { getDonationIntervalDays } from '../lib/donorEligibility';
 
 const confirmationSchema = z.object({
   units_donated: z.number().min(1, 'Must donate at least 1 unit'),
@@ -50,20 +57,20 @@ export function DonationConfirmation({
 
   const updateDonorStatus = async (donationDate: Date) => {
     try {
-      const nextEligibleDate = addDays(donationDate, 90);
-      
-      const { error: donorError } = await supabase
-        .from('donors')
-        .update({
-          last_donation_date: donationDate.toISOString(),
-          is_available: false,
-          status: 'inactive',
-        })
-        .eq('id', donorId);
-
-      if (donorError) throw donorError;
-
-      // Schedule donor availability reset after 90 days
+      const donor = await getDonorById(donorId);
+      const nextEligibleDate = addDays(
+        donationDate,
+        getDonationIntervalDays(donor.gender, 'whole_blood')
+      );
+
+      await updateDonor(donorId, {
+        last_donation_date: donationDate.toISOString(),
+        last_donation_component: 'whole_blood',
+        is_available: false,
+        status: 'inactive',
+      });
+
+      // Schedule donor availability reset once the donation interval is over
       const { error: schedulerError } = await supabase.functions.invoke('schedule-donor-reset', {
         body: { donorId, resetDate: nextEligibleDate.toISOString() },
       });
@@ -79,13 +86,7 @@ export function DonationConfirmation({
   const updateDonorRewards = async (unitsConfirmed: number) => {
     try {
       // Get current rewards
-      const { data: currentRewards, error: rewardsError } = await supabase
-        .from('donor_rewards')
-        .select('*')
-        .eq('donor_id', donorId)
-        .single();
-
-      if (rewardsError && rewardsError.code !== 'PGRST116') throw rewardsError;
+      const currentRewards = await getDonorRewards(donorId);
 
       const points = (currentRewards?.points || 0) + (unitsConfirmed * 10);
       const lifetimeDonations = (currentRewards?.lifetime_donations || 0) + unitsConfirmed;
@@ -116,17 +117,13 @@ export function DonationConfirmation({
       }
 
       // Update or insert rewards
-      const { error: updateError } = await supabase
-        .from('donor_rewards')
-        .upsert({
-          donor_id: donorId,
-          points,
-          lifetime_donations: lifetimeDonations,
-          current_tier: newTier,
-          achievements,
-        });
-
-      if (updateError) throw updateError;
+      await upsertDonorRewards({
+        donor_id: donorId,
+        points,
+        lifetime_donations: lifetimeDonations,
+        current_tier: newTier,
+        achievements,
+      });
     } catch (error) {
       throw error;
     }
@@ -134,18 +131,13 @@ export function DonationConfirmation({
 
   const generateCertificate = async (donationId: string) => {
     try {
-      const certificateNumber = `DON-${Date.now()}-${donationId.slice(0, 8)}`;
-      const certificateUrl = `https://example.com/certificates/${certificateNumber}`;
-
-      const { error: certError } = await supabase
-        .from('donation_certificates')
-        .insert({
-          donation_id: donationId,
-          certificate_number: certificateNumber,
-          certificate_url: certificateUrl,
-        });
+      const certificateNumber = generateCertificateNumber(donationId);
 
-      if (certError) throw certError;
+      await createDonationCertificate({
+        donation_id: donationId,
+        certificate_number: certificateNumber,
+        certificate_url: getCertificateVerificationUrl(certificateNumber),
+      });
     } catch (error) {
       throw error;
     }
@@ -156,39 +148,20 @@ export function DonationConfirmation({
       const donationDate = new Date(data.donation_date);
 
       // Get request details
-      const { data: requestData, error: requestError } = await supabase
-        .from('emergency_requests')
-        .select('hospital_name, hospital_address')
-        .eq('id', requestId)
-        .single();
-
-      if (requestError) throw requestError;
-
-      // Create blood donation record
-      const { data: donation, error: donationError } = await supabase
-        .from('blood_donations')
-        .insert({
-          donor_id: donorId,
-          request_id: requestId,
-          units_donated: data.units_donated,
-          donation_date: donationDate.toISOString(),
-          notes: data.notes,
-          hospital_name: requestData.hospital_name,
-          hospital_address: requestData.hospital_address,
-          donor_confirmed: true,
-        })
-        .select()
-        .single();
-
-      if (donationError) throw donationError;
-
-      // Update emergency request status to in_progress
-      const { error: requestUpdateError } = await supabase
-        .from('emergency_requests')
-        .update({ status: 'in_progress' })
-        .eq('id', requestId);
-
-      if (requestUpdateError) throw requestUpdateError;
+      const requestData = await getEmergencyRequest(requestId);
+
+      // Create blood donation record; this marks the donor's pledge as
+      // collected, which closes the request once it is fully collected
+      const donation = await createBloodDonation({
+        donor_id: donorId,
+        request_id: requestId,
+        units_donated: data.units_donated,
+        donation_date: donationDate.toISOString(),
+        notes: data.notes,
+        hospital_name: requestData.hospital_name,
+        hospital_address: requestData.hospital_address,
+        donor_confirmed: true,
+      });
 
       // Update donor status and schedule reset
       await updateDonorStatus(donationDate);
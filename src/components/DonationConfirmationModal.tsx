@@ -1,6 +1,11 @@
 import React from 'react';
 import { X, CheckCircle } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { dispatchNotification } from '../lib/notifications';
+import { getDonorUserId } from '../lib/repositories/donors';
+import { getDonorPledge } from '../lib/repositories/requestPledges';
+import { getEmergencyRequest } from '../lib/repositories/emergencyRequests';
+import { handleDonationConfirmation } from '../lib/repositories/bloodDonations';
+import { markNotificationHandled } from '../lib/repositories/notifications';
 import toast from 'react-hot-toast';
 
 interface DonationConfirmationModalProps {
@@ -26,43 +31,55 @@ export function DonationConfirmationModal({
   const handleConfirm = async () => {
     try {
       // Get emergency request details first
-      const { data: requestData, error: requestDetailsError } = await supabase
-        .from('emergency_requests')
-        .select('hospital_name, hospital_address, units_required')
-        .eq('id', notificationData.request_id)
-        .single();
+      const requestData = await getEmergencyRequest(notificationData.request_id).catch(
+        (requestDetailsError) => {
+          console.error('Error fetching request details:', requestDetailsError);
+          return null;
+        }
+      );
 
-      if (requestDetailsError) {
-        console.error('Error fetching request details:', requestDetailsError);
+      if (!requestData) {
         toast.error('Failed to fetch request details');
         return;
       }
 
-      // Start a transaction by using RPC
-      const { error: transactionError } = await supabase.rpc('handle_donation_confirmation', {
-        p_request_id: notificationData.request_id,
-        p_donor_id: notificationData.donor_id,
-        p_units_donated: requestData.units_required,
-        p_hospital_name: requestData.hospital_name,
-        p_hospital_address: requestData.hospital_address
-      });
+      // Credit the donor with the units they pledged, not the whole request
+      const pledge = await getDonorPledge(notificationData.request_id, notificationData.donor_id);
+      const unitsDonated = pledge?.units_pledged ?? 1;
 
-      if (transactionError) {
+      // Start a transaction by using RPC
+      try {
+        await handleDonationConfirmation(
+          notificationData.request_id,
+          notificationData.donor_id,
+          unitsDonated,
+          requestData.hospital_name,
+          requestData.hospital_address
+        );
+      } catch (transactionError) {
         console.error('Error in donation confirmation:', transactionError);
         toast.error('Failed to confirm donation');
         return;
       }
 
-      // Mark notification as read and handled
-      const { error: notifError } = await supabase
-        .from('notifications')
-        .update({
-          read: true,
-          handled: true,
-        })
-        .eq('id', notificationData.id);
+      // Let the donor know their donation went through
+      try {
+        const donorUserId = await getDonorUserId(notificationData.donor_id);
+        if (donorUserId) {
+          await dispatchNotification('donation_confirmed', donorUserId, {
+            request_id: notificationData.request_id,
+            patient_name: notificationData.patient_name,
+            units_donated: unitsDonated,
+          });
+        }
+      } catch (notifError) {
+        console.error('Error notifying donor:', notifError);
+      }
 
-      if (notifError) {
+      // Mark notification as read and handled
+      try {
+        await markNotificationHandled(notificationData.id);
+      } catch (notifError) {
         console.error('Error updating notification:', notifError);
         // Don't return here as the main transaction was successful
       }
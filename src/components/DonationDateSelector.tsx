@@ -1,12 +1,23 @@
 import React, { useState } from 'react';
-import { Calendar } from 'lucide-react';
+import { AlertCircle, Calendar } from 'lucide-react';
 import { DatePicker } from './DatePicker';
 
 interface DonationDateSelectorProps {
   onSelectDate: (date: Date) => void;
+  /** First day the donor is eligible again, when later than tomorrow */
+  earliestDate?: Date;
+  /** Why the donor cannot donate yet */
+  eligibilityNotice?: string;
+  /** Set when the donor cannot become eligible by waiting */
+  disabled?: boolean;
 }
 
-export function DonationDateSelector({ onSelectDate }: DonationDateSelectorProps) {
+export function DonationDateSelector({
+  onSelectDate,
+  earliestDate,
+  eligibilityNotice,
+  disabled = false,
+}: DonationDateSelectorProps) {
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -19,6 +30,7 @@ export function DonationDateSelector({ onSelectDate }: DonationDateSelectorProps
   // Calculate tomorrow's date for the minimum selectable date
   const tomorrow = new Date();
   tomorrow.setDate(tomorrow.getDate() + 1);
+  const minDate = earliestDate && earliestDate > tomorrow ? earliestDate : tomorrow;
 
   return (
     <div className="bg-white rounded-lg shadow-lg p-6">
@@ -32,6 +44,13 @@ export function DonationDateSelector({ onSelectDate }: DonationDateSelectorProps
         </p>
       </div>
 
+      {eligibilityNotice && (
+        <div className="mb-6 p-4 bg-yellow-50 rounded-md flex items-start">
+          <AlertCircle className="h-5 w-5 text-yellow-500 mt-0.5 mr-2 flex-shrink-0" />
+          <p className="text-sm text-yellow-800">{eligibilityNotice}</p>
+        </div>
+      )}
+
       <form onSubmit={handleSubmit} className="space-y-6">
         <div>
           <label className="block text-sm font-medium text-gray-700 mb-2">
@@ -40,20 +59,22 @@ export function DonationDateSelector({ onSelectDate }: DonationDateSelectorProps
           <DatePicker
             value={selectedDate}
             onChange={(date) => setSelectedDate(date)}
-            minDate={tomorrow}
+            minDate={minDate}
             className="w-full"
             required
             label="Select Date"
           />
           <p className="text-sm text-gray-500 mt-2">
-            Please select a date at least one day in the future.
+            {minDate === tomorrow
+              ? 'Please select a date at least one day in the future.'
+              : 'Please select a date on or after the day you are eligible again.'}
           </p>
         </div>
 
         <div>
           <button
             type="submit"
-            disabled={!selectedDate}
+            disabled={!selectedDate || disabled}
             className="w-full bg-red-500 text-white py-2 px-4 rounded-md hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2 disabled:opacity-50"
           >
             Continue
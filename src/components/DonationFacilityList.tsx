@@ -1,9 +1,21 @@
 import React, { useState, useEffect } from 'react';
-import { supabase } from '../lib/supabase';
 import { Clock, MapPin, Building2, ExternalLink, ChevronRight, ArrowLeftCircle, Loader2 } from 'lucide-react';
 import { toast } from 'react-hot-toast';
-import { calculateEstimatedTime, getDistanceMatrix } from '../lib/olaMapsApi';
+import { travelTimes } from '../lib/olaMapsApi';
 import { formatDateForDB, formatDateForDisplay, getDayOfWeek } from '../lib/dateUtils';
+import { findWithinRadius, recordLocation } from '../lib/geo';
+import { findBloodBanksWithSlots } from '../lib/repositories/bloodBanks';
+import { listOpenBloodBankSlotsOnDay } from '../lib/repositories/bloodBankSlots';
+import { findHospitalsWithSlots } from '../lib/repositories/hospitals';
+import { listOpenHospitalSlotsOnDay } from '../lib/repositories/hospitalDonationSlots';
+import {
+  estimateTravelTime,
+  MIN_TRAVEL_TIME_CONFIDENCE,
+  type TravelEstimate,
+} from '../lib/travelTime';
+
+/** How far from the donor to look for facilities */
+const SEARCH_RADIUS_KM = 50;
 
 interface BloodBank {
   bank_id: string;
@@ -19,6 +31,7 @@ interface BloodBank {
   has_slots: boolean;
   estimated_time_minutes: number;
   actual_duration_minutes?: number;
+  travel_time_confidence?: number;
 }
 
 interface Hospital {
@@ -34,6 +47,7 @@ interface Hospital {
   has_slots: boolean;
   estimated_time_minutes: number;
   actual_duration_minutes?: number;
+  travel_time_confidence?: number;
 }
 
 interface SlotData {
@@ -73,32 +87,13 @@ export function DonationFacilityList({ selectedDate, onSelectFacility, onBack }:
           console.log(`Day of week: ${dayOfWeek}`);
           
           // Direct database call with default location
-          const { data, error } = await supabase
-            .rpc('find_hospitals_with_slots', {
-              p_date: date,
-              p_donor_latitude: 12.9716,
-              p_donor_longitude: 77.5946,
-              p_radius_km: 100
-            });
-          
-          if (error) {
-            console.error('Error testing hospital slots:', error);
-            return;
-          }
+          const data = await findHospitalsWithSlots(date, 12.9716, 77.5946, 100);
           
           console.log('Raw hospital data:', data);
           console.log('Hospitals with slots:', data.filter((h: Hospital) => h.has_slots));
           
           // Also test a direct query to see all hospital slots for this day
-          const { data: slotsData, error: slotsError } = await supabase
-            .from('hospital_donation_slots')
-            .select('*, hospital:hospitals(name, is_license_verified)')
-            .eq('day_of_week', dayOfWeek);
-          
-          if (slotsError) {
-            console.error('Error fetching slots directly:', slotsError);
-            return;
-          }
+          const slotsData = await listOpenHospitalSlotsOnDay(dayOfWeek);
           
           console.log(`Direct query for ${dayOfWeek} slots:`, slotsData);
         } catch (err) {
@@ -163,34 +158,28 @@ export function DonationFacilityList({ selectedDate, onSelectFacility, onBack }:
       console.log('Selected date is a:', dayOfWeek);
       
       // Fetch blood banks with available slots
-      const { data: bloodBankData, error: bloodBankError } = await supabase
-        .rpc('find_blood_banks_with_slots', {
-          p_date: dateString,
-          p_donor_latitude: userLocation.lat,
-          p_donor_longitude: userLocation.lng,
-          p_radius_km: 50
-        });
-      
-      if (bloodBankError) {
+      const bloodBankData = await findBloodBanksWithSlots(
+        dateString,
+        userLocation.lat,
+        userLocation.lng,
+        SEARCH_RADIUS_KM
+      ).catch((bloodBankError) => {
         console.error('Blood bank error:', bloodBankError);
         throw bloodBankError;
-      }
+      });
       
       console.log('Blood bank data received:', bloodBankData);
       
       // Fetch hospitals with available slots
-      const { data: hospitalData, error: hospitalError } = await supabase
-        .rpc('find_hospitals_with_slots', {
-          p_date: dateString,
-          p_donor_latitude: userLocation.lat,
-          p_donor_longitude: userLocation.lng,
-          p_radius_km: 50
-        });
-      
-      if (hospitalError) {
+      const hospitalData = await findHospitalsWithSlots(
+        dateString,
+        userLocation.lat,
+        userLocation.lng,
+        SEARCH_RADIUS_KM
+      ).catch((hospitalError) => {
         console.error('Hospital error:', hospitalError);
         throw hospitalError;
-      }
+      });
       
       console.log('Hospital data received:', hospitalData);
       
@@ -230,55 +219,26 @@ export function DonationFacilityList({ selectedDate, onSelectFacility, onBack }:
     }
   };
 
-  // Use OLA Maps API to update travel times
+  // Road network travel times from OLA Maps, or traffic-adjusted estimates
   const updateTravelTimes = async (banks: BloodBank[], hospitals: Hospital[]) => {
     try {
       if (!userLocation) return;
       
-      // Prepare origins (just the user location)
-      const origins: Array<[number, number]> = [[userLocation.lat, userLocation.lng]];
-      
-      // Prepare destinations (all facilities)
-      const destinations: Array<[number, number]> = [
-        ...banks.map(bank => [bank.latitude, bank.longitude] as [number, number]),
-        ...hospitals.map(hospital => [hospital.latitude, hospital.longitude] as [number, number])
-      ];
-      
+      const destinations = [...banks, ...hospitals].map((facility) => ({
+        lat: facility.latitude,
+        lng: facility.longitude,
+      }));
       if (destinations.length === 0) return;
       
-      // Call OLA Maps API
-      const response = await getDistanceMatrix(origins, destinations);
+      const estimates = await travelTimes.from(userLocation, destinations);
+      const withTravelTime = <T extends BloodBank | Hospital>(facility: T, estimate: TravelEstimate): T => ({
+        ...facility,
+        actual_duration_minutes: estimate.durationMinutes,
+        travel_time_confidence: estimate.confidence,
+      });
       
-      // Process response
-      if (response.data && response.data.matrix && response.data.matrix[0]) {
-        const elements = response.data.matrix[0].elements;
-        
-        // Update blood banks with actual duration
-        const updatedBanks = banks.map((bank, i) => {
-          if (elements[i] && elements[i].duration) {
-            return {
-              ...bank,
-              actual_duration_minutes: Math.round(elements[i].duration.value / 60)
-            };
-          }
-          return bank;
-        });
-        
-        // Update hospitals with actual duration
-        const updatedHospitals = hospitals.map((hospital, i) => {
-          const index = banks.length + i;
-          if (elements[index] && elements[index].duration) {
-            return {
-              ...hospital,
-              actual_duration_minutes: Math.round(elements[index].duration.value / 60)
-            };
-          }
-          return hospital;
-        });
-        
-        setBloodBanks(updatedBanks);
-        setHospitals(updatedHospitals);
-      }
+      setBloodBanks(banks.map((bank, i) => withTravelTime(bank, estimates[i])));
+      setHospitals(hospitals.map((hospital, i) => withTravelTime(hospital, estimates[banks.length + i])));
     } catch (error) {
       console.error('Error updating travel times:', error);
       // We'll continue with the estimated times
@@ -300,69 +260,30 @@ export function DonationFacilityList({ selectedDate, onSelectFacility, onBack }:
       : `${hours} hr`;
   };
 
+  // Travel time, marked as an estimate unless it came from the road network
+  const formatTravelTime = (facility: BloodBank | Hospital) => {
+    const duration = formatDuration(facility.actual_duration_minutes || facility.estimated_time_minutes);
+    return (facility.travel_time_confidence ?? 0) >= MIN_TRAVEL_TIME_CONFIDENCE
+      ? `~${duration} travel time`
+      : `~${duration} travel time (estimated, traffic may vary)`;
+  };
+
   // Directly query the slots tables
   const fetchDirectSlots = async (dayOfWeek: string) => {
     if (!userLocation) return false;
     
     try {
       // 1. First try blood bank slots
-      const { data: bloodBankSlots, error: bbSlotError } = await supabase
-        .from('blood_bank_slots')
-        .select(`
-          id, 
-          blood_bank_id, 
-          day_of_week,
-          start_time, 
-          end_time, 
-          capacity,
-          blood_bank:blood_banks(
-            id, 
-            name, 
-            address, 
-            city, 
-            state, 
-            phone, 
-            operating_hours,
-            latitude, 
-            longitude,
-            is_verified
-          )
-        `)
-        .eq('day_of_week', dayOfWeek)
-        .filter('capacity', 'gt', 0);
-      
-      if (bbSlotError) {
+      const bloodBankSlots = await listOpenBloodBankSlotsOnDay(dayOfWeek).catch((bbSlotError) => {
         console.error('Error fetching blood bank slots:', bbSlotError);
-      }
+        return null;
+      });
       
       // 2. Try hospital slots
-      const { data: hospitalSlots, error: hSlotError } = await supabase
-        .from('hospital_donation_slots')
-        .select(`
-          id, 
-          hospital_id, 
-          day_of_week,
-          start_time, 
-          end_time, 
-          capacity,
-          hospital:hospitals(
-            id, 
-            name, 
-            address, 
-            phone, 
-            email,
-            operating_hours, 
-            latitude, 
-            longitude,
-            is_license_verified
-          )
-        `)
-        .eq('day_of_week', dayOfWeek)
-        .filter('capacity', 'gt', 0);
-      
-      if (hSlotError) {
+      const hospitalSlots = await listOpenHospitalSlotsOnDay(dayOfWeek).catch((hSlotError) => {
         console.error('Error fetching hospital slots:', hSlotError);
-      }
+        return null;
+      });
       
       console.log('Direct blood bank slots:', bloodBankSlots);
       console.log('Direct hospital slots:', hospitalSlots);
@@ -395,15 +316,13 @@ export function DonationFacilityList({ selectedDate, onSelectFacility, onBack }:
           });
         });
         
-        // Convert to array and calculate distances
-        const bankArray: BloodBank[] = Array.from(bloodBankMap.values()).map(({ bank, slots }) => {
-          const distance = calculateDistance(
-            userLocation.lat,
-            userLocation.lng,
-            bank.latitude,
-            bank.longitude
-          );
-          
+        // Keep blood banks within the search radius, nearest first
+        const sortedBanks: BloodBank[] = findWithinRadius(
+          Array.from(bloodBankMap.values()),
+          ({ bank }) => recordLocation(bank),
+          userLocation,
+          SEARCH_RADIUS_KM
+        ).map(({ item: { bank, slots }, distanceKm: distance }) => {
           return {
             bank_id: bank.id,
             name: bank.name,
@@ -416,12 +335,10 @@ export function DonationFacilityList({ selectedDate, onSelectFacility, onBack }:
             longitude: bank.longitude,
             distance_km: distance,
             has_slots: slots.length > 0,
-            estimated_time_minutes: Math.round(distance * 2) // Rough estimate: 2 min per km
+            estimated_time_minutes: estimateTravelTime(userLocation, { lat: bank.latitude, lng: bank.longitude }).durationMinutes
           };
         });
         
-        // Sort by distance
-        const sortedBanks = bankArray.sort((a, b) => a.distance_km - b.distance_km);
         console.log('Processed blood banks from slots:', sortedBanks);
         
         setBloodBanks(sortedBanks);
@@ -455,15 +372,13 @@ export function DonationFacilityList({ selectedDate, onSelectFacility, onBack }:
           });
         });
         
-        // Convert to array and calculate distances
-        const hospitalArray: Hospital[] = Array.from(hospitalMap.values()).map(({ hospital, slots }) => {
-          const distance = calculateDistance(
-            userLocation.lat,
-            userLocation.lng,
-            hospital.latitude,
-            hospital.longitude
-          );
-          
+        // Keep hospitals within the search radius, nearest first
+        const sortedHospitals: Hospital[] = findWithinRadius(
+          Array.from(hospitalMap.values()),
+          ({ hospital }) => recordLocation(hospital),
+          userLocation,
+          SEARCH_RADIUS_KM
+        ).map(({ item: { hospital, slots }, distanceKm: distance }) => {
           return {
             hospital_id: hospital.id,
             name: hospital.name,
@@ -475,12 +390,10 @@ export function DonationFacilityList({ selectedDate, onSelectFacility, onBack }:
             longitude: hospital.longitude,
             distance_km: distance,
             has_slots: slots.length > 0,
-            estimated_time_minutes: Math.round(distance * 2) // Rough estimate: 2 min per km
+            estimated_time_minutes: estimateTravelTime(userLocation, { lat: hospital.latitude, lng: hospital.longitude }).durationMinutes
           };
         });
         
-        // Sort by distance
-        const sortedHospitals = hospitalArray.sort((a, b) => a.distance_km - b.distance_km);
         console.log('Processed hospitals from slots:', sortedHospitals);
         
         setHospitals(sortedHospitals);
@@ -494,19 +407,6 @@ export function DonationFacilityList({ selectedDate, onSelectFacility, onBack }:
     }
   };
   
-  // Calculate distance between two points using Haversine formula
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371; // Earth's radius in km
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-      Math.sin(dLon/2) * Math.sin(dLon/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c;
-  };
-
   return (
     <div className="bg-white rounded-lg shadow-lg p-6">
       <div className="mb-6">
@@ -588,7 +488,7 @@ export function DonationFacilityList({ selectedDate, onSelectFacility, onBack }:
                               {bank.distance_km.toFixed(1)} km away
                             </div>
                             <div className="text-xs text-gray-500">
-                              ~{formatDuration(bank.actual_duration_minutes || bank.estimated_time_minutes)} travel time
+                              {formatTravelTime(bank)}
                             </div>
                           </div>
                         </div>
@@ -648,7 +548,7 @@ export function DonationFacilityList({ selectedDate, onSelectFacility, onBack }:
                               {hospital.distance_km.toFixed(1)} km away
                             </div>
                             <div className="text-xs text-gray-500">
-                              ~{formatDuration(hospital.actual_duration_minutes || hospital.estimated_time_minutes)} travel time
+                              {formatTravelTime(hospital)}
                             </div>
                           </div>
                         </div>
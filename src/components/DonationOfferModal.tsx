@@ -1,6 +1,12 @@
 import React, { useState } from 'react';
 import { toast } from 'react-hot-toast';
-import { supabase } from '../lib/supabase';
+import { dispatchNotification } from '../lib/notifications';
+import { isTerminalStatus } from '../lib/requestLifecycle';
+import { getAcceptableUnits, getFulfilmentProgress } from '../lib/requestFulfilment';
+import { getDonorUserId } from '../lib/repositories/donors';
+import { rejectPendingOffers, updateDonorResponse } from '../lib/repositories/donorResponses';
+import { getEmergencyRequest, updateEmergencyRequest } from '../lib/repositories/emergencyRequests';
+import { createRequestPledge } from '../lib/repositories/requestPledges';
 import { X, User, Phone, Droplet } from 'lucide-react';
 import { SchedulerForm } from './SchedulerForm';
 
@@ -12,7 +18,7 @@ interface DonationOfferModalProps {
     first_name: string;
     last_name: string;
     phone: string;
-    blood_type: string;
+    blood_type: string | null;
   };
   requestId: string;
   responseId: string;
@@ -36,13 +42,10 @@ export function DonationOfferModal({
     setIsSubmitting(true);
     try {
       // First check if the request is still available
-      const { data: requestData, error: requestError } = await supabase
-        .from('emergency_requests')
-        .select('*')
-        .eq('id', requestId)
-        .single();
-
-      if (requestError) {
+      let requestData;
+      try {
+        requestData = await getEmergencyRequest(requestId);
+      } catch (requestError) {
         console.error('Error fetching request:', requestError);
         toast.error('Failed to fetch request details');
         setIsSubmitting(false);
@@ -57,31 +60,33 @@ export function DonationOfferModal({
         return;
       }
       
-      // Allow accepting if status is pending or in_progress (if not fulfilled or cancelled)
-      if (requestData.status === 'fulfilled' || requestData.status === 'cancelled') {
+      // Offers can still be accepted while another donor is in progress
+      if (isTerminalStatus(requestData.status)) {
         toast.error('This request is no longer available');
         onClose();
         setIsSubmitting(false);
         return;
       }
 
-      // Only set to in_progress if it's not already
-      let newStatus = 'in_progress';
-      if (requestData.status === 'in_progress') {
-        // Already in progress, no need to change status
-        newStatus = 'in_progress';
+      // Each donor pledges one unit, and only while units are still needed
+      const unitsPledged = getAcceptableUnits(requestData, 1);
+      if (unitsPledged === 0) {
+        toast.error('This request already has enough units pledged');
+        onClose();
+        setIsSubmitting(false);
+        return;
       }
 
-      // Update the emergency request in a single operation
-      const { error: updateError } = await supabase
-        .from('emergency_requests')
-        .update({
-          status: newStatus,
-          accepted_donor_id: donorInfo.id
-        })
-        .eq('id', requestId);
-      
-      if (updateError) {
+      try {
+        // The pledge moves the request to in_progress
+        await createRequestPledge({
+          request_id: requestId,
+          donor_id: donorInfo.id,
+          donor_response_id: responseId,
+          units_pledged: unitsPledged,
+        });
+        await updateEmergencyRequest(requestId, { accepted_donor_id: donorInfo.id });
+      } catch (updateError) {
         console.error('Error updating emergency request:', updateError);
         toast.error('Failed to update request. Please try again.');
         setIsSubmitting(false);
@@ -89,68 +94,43 @@ export function DonationOfferModal({
       }
 
       // Update the donor response status to accepted
-      const { error: responseError } = await supabase
-        .from('donor_responses')
-        .update({
+      try {
+        await updateDonorResponse(responseId, {
           status: 'accepted',
-          accepted_at: new Date().toISOString()
-        })
-        .eq('id', responseId);
-
-      if (responseError) {
+          accepted_at: new Date().toISOString(),
+        });
+      } catch (responseError) {
         console.error('Error updating donor response:', responseError);
         toast.error('Failed to update donor response');
         setIsSubmitting(false);
         return;
       }
 
-      // Reject all other donor responses for this request
-      const { error: rejectError } = await supabase
-        .from('donor_responses')
-        .update({
-          status: 'rejected',
-          rejected_at: new Date().toISOString()
-        })
-        .eq('request_id', requestId)
-        .neq('id', responseId);
-
-      if (rejectError) {
-        console.error('Error rejecting other responses:', rejectError);
-        // Continue even if this fails
+      // Once the request is covered, the offers still waiting are not needed
+      if (unitsPledged >= getFulfilmentProgress(requestData).stillNeeded) {
+        try {
+          await rejectPendingOffers(requestId, responseId);
+        } catch (rejectError) {
+          console.error('Error rejecting other responses:', rejectError);
+          // Continue even if this fails
+        }
       }
 
       // Get donor user ID
-      const { data: donorData, error: donorError } = await supabase
-        .from('donors')
-        .select('user_id')
-        .eq('id', donorInfo.id)
-        .single();
-
-      if (donorError) {
+      const donorUserId = await getDonorUserId(donorInfo.id).catch((donorError) => {
         console.error('Error fetching donor user ID:', donorError);
         // Continue even if this fails
-      }
+        return null;
+      });
 
       // Create notification for the donor if we have user_id
-      if (donorData && donorData.user_id) {
+      if (donorUserId) {
         try {
-          const { error: notificationError } = await supabase
-            .from('notifications')
-            .insert({
-              user_id: donorData.user_id,
-              title: 'Donation Offer Accepted',
-              message: `Your donation offer for request ${requestId} has been accepted.`,
-              type: 'donation_accepted',
-              data: {
-                request_id: requestId,
-                response_id: responseId,
-                donor_id: donorInfo.id
-              }
-            });
-
-          if (notificationError) {
-            console.error('Error creating notification:', notificationError);
-          }
+          await dispatchNotification('donation_accepted', donorUserId, {
+            request_id: requestId,
+            response_id: responseId,
+            donor_id: donorInfo.id
+          });
         } catch (error) {
           console.error('Error in notification process:', error);
           // Don't fail the whole process if notification fails
@@ -175,15 +155,12 @@ export function DonationOfferModal({
     setIsSubmitting(true);
     try {
       // 1. Update the donor response status to 'declined'
-      const { error: updateError } = await supabase
-        .from('donor_responses')
-        .update({ 
+      try {
+        await updateDonorResponse(responseId, {
           status: 'declined',
-          rejected_at: new Date().toISOString() // Keep track of when it was declined
-        })
-        .eq('id', responseId);
-
-      if (updateError) {
+          rejected_at: new Date().toISOString(), // Keep track of when it was declined
+        });
+      } catch (updateError) {
         console.error('Error updating donor response:', updateError);
         toast.error('Failed to decline the donation offer');
         return;
@@ -192,28 +169,15 @@ export function DonationOfferModal({
       // 2. Notify the donor that their offer was declined
       try {
         // Get the donor's user ID
-        const { data: donorData, error: donorError } = await supabase
-          .from('donors')
-          .select('user_id')
-          .eq('id', donorInfo.id)
-          .single();
+        const donorUserId = await getDonorUserId(donorInfo.id);
 
-        if (donorError || !donorData) {
-          console.error('Error fetching donor user ID:', donorError);
+        if (!donorUserId) {
+          console.error('Error fetching donor user ID: donor not found');
         } else {
           // Create notification for the donor
-          const { error: notifError } = await supabase
-            .from('notifications')
-            .insert({
-              user_id: donorData.user_id,
-              title: 'Donation Offer Response',
-              message: 'Your donation offer was declined by the requester',
-              type: 'donation_declined'
-            });
-
-          if (notifError) {
-            console.error('Error creating notification:', notifError);
-          }
+          await dispatchNotification('donation_declined', donorUserId, {
+            request_id: requestId
+          });
         }
       } catch (notifError) {
         console.error('Error in notification process:', notifError);
@@ -14,7 +14,8 @@ import {
   VStack,
   useToast
 } from './ChakraUtils';
-import { supabase } from '../lib/supabase';
+import { createDonationSchedule } from '../lib/repositories/donationSchedules';
+import { dispatchNotification } from '../lib/notifications';
 
 interface DonationSchedulerModalProps {
   isOpen: boolean;
@@ -58,8 +59,9 @@ export const DonationSchedulerModal: React.FC<DonationSchedulerModalProps> = ({
     setIsSubmitting(true);
 
     try {
-      // Create donation schedule with fallback field handling
+      // Create donation schedule
       const scheduleData: any = {
+        emergency_request_id: requestId,
         donor_id: donorId,
         requester_id: requesterId,
         scheduled_date: date,
@@ -67,96 +69,21 @@ export const DonationSchedulerModal: React.FC<DonationSchedulerModalProps> = ({
         status: 'scheduled'
       };
       
-      // Try both field names to ensure compatibility with different DB versions
       try {
-        scheduleData.emergency_request_id = requestId;
-        
-        const { error: scheduleError } = await supabase
-          .from('donation_schedules')
-          .insert(scheduleData);
-
-        if (scheduleError) {
-          // If error suggests wrong column name, try with request_id
-          if (scheduleError.message && scheduleError.message.includes("column \"emergency_request_id\" of relation \"donation_schedules\" does not exist")) {
-            console.log("Using request_id instead of emergency_request_id");
-            delete scheduleData.emergency_request_id;
-            scheduleData.request_id = requestId;
-            
-            const { error: retryError } = await supabase
-              .from('donation_schedules')
-              .insert(scheduleData);
-              
-            if (retryError) {
-              throw retryError;
-            }
-          } else {
-            throw scheduleError;
-          }
-        }
+        await createDonationSchedule(scheduleData);
 
         // Create notification for donor
         try {
-          // First try with recipient_type
-          const notificationData: {
-            user_id: string;
-            title: string;
-            message: string;
-            type: string;
-            recipient_type?: string;
-            data: {
-              request_id: string;
-              scheduled_date: string;
-              scheduled_time: string;
-              patient_name: string;
-              blood_type: string;
-              hospital_name: string;
-              hospital_address: string;
-              recipient_info: string;
-            }
-          } = {
-            user_id: donorId,
-            title: 'Blood Donation Scheduled',
-            message: `Blood donation scheduled for ${date} at ${time}`,
-            type: 'donation_scheduled',
-            recipient_type: 'donor',
-            data: {
-              request_id: requestId,
-              scheduled_date: date,
-              scheduled_time: time,
-              patient_name: requestDetails.patientName,
-              blood_type: requestDetails.bloodType,
-              hospital_name: requestDetails.hospitalName,
-              hospital_address: requestDetails.hospitalAddress,
-              recipient_info: 'donor'
-            }
-          };
-
-          const { error: notificationError } = await supabase
-            .from('notifications')
-            .insert(notificationData);
-
-          if (notificationError) {
-            // If we get a 42703 error (column doesn't exist)
-            if (notificationError.code === '42703') {
-              console.log('Falling back to notification without recipient_type');
-              // Try again without recipient_type
-              delete notificationData.recipient_type;
-              
-              const { error: fallbackError } = await supabase
-                .from('notifications')
-                .insert(notificationData);
-                
-              if (fallbackError) {
-                console.error('Error creating notification (fallback):', fallbackError);
-              } else {
-                console.log('Successfully created notification (fallback)');
-              }
-            } else {
-              console.error('Error creating notification:', notificationError);
-            }
-          } else {
-            console.log('Successfully created notification');
-          }
+          await dispatchNotification('donation_scheduled', donorId, {
+            request_id: requestId,
+            scheduled_date: date,
+            scheduled_time: time,
+            patient_name: requestDetails.patientName,
+            blood_type: requestDetails.bloodType,
+            hospital_name: requestDetails.hospitalName,
+            hospital_address: requestDetails.hospitalAddress,
+            recipient_info: 'donor'
+          });
         } catch (notifError) {
           console.error('Error in notification process:', notifError);
           // Don't block the main flow for notification errors
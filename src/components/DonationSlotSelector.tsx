@@ -1,24 +1,44 @@
 import React, { useState, useEffect } from 'react';
 import { supabase } from '../lib/supabase';
+import { dispatchNotification, subscribeToDonationSlots } from '../lib/notifications';
 import { Clock, ArrowLeftCircle, Loader2, Check, AlertCircle } from 'lucide-react';
 import { toast } from 'react-hot-toast';
-import { format } from 'date-fns';
+import { format, parseISO } from 'date-fns';
 import { useNavigate } from 'react-router-dom';
+import { checkEligibility, explainEligibility } from '../lib/donorEligibility';
+import { applyQuestionnaire, toStoredQuestionnaire } from '../lib/preDonationQuestionnaire';
+import type { PreDonationQuestionnaireData } from '../lib/validation';
+import { getBloodBank } from '../lib/repositories/bloodBanks';
+import { getDonorByUserId } from '../lib/repositories/donors';
+import { getHospital } from '../lib/repositories/hospitals';
+import {
+  cancelDonationBooking,
+  getAvailableSlots,
+  scheduleDonation,
+  type AvailableSlot,
+} from '../lib/repositories/scheduledDonations';
+import { joinSlotWaitlist } from '../lib/repositories/slotWaitlistEntries';
+import { describeSlotAvailability, describeWaitlistPosition } from '../lib/slotCapacity';
+import type { DonationAppointment } from '../lib/calendarExport';
+import {
+  describeAppointmentTime,
+  formatAppointmentTime,
+  formatDateForDB,
+  zonedTimeToInstant,
+  DEFAULT_TIMEZONE,
+} from '../lib/dateUtils';
+import { PreDonationQuestionnaireForm } from './PreDonationQuestionnaire';
 
-interface TimeSlot {
-  id: string;
-  day: string;
-  start_time: string;
-  end_time: string;
-  capacity: number;
-  booked_count: number;
-  available: boolean;
-}
+type TimeSlot = AvailableSlot;
 
 interface Facility {
   id: string;
   name: string;
   address: string;
+  latitude: number | null;
+  longitude: number | null;
+  /** Slot times are wall-clock times in this zone */
+  timezone: string;
   type: 'blood_bank' | 'hospital';
 }
 
@@ -27,7 +47,8 @@ interface DonationSlotSelectorProps {
   facilityId: string;
   facilityType: 'blood_bank' | 'hospital';
   onBack: () => void;
-  onComplete: () => void;
+  /** Called with the new booking; joining a waitlist goes to the dashboard instead */
+  onComplete: (appointment: DonationAppointment) => void;
   rescheduleId?: string;
 }
 
@@ -47,6 +68,7 @@ export function DonationSlotSelector({
   const [notes, setNotes] = useState<string>('');
   const [submitting, setIsSubmitting] = useState(false);
   const [formError, setFormError] = useState<string>('');
+  const [showQuestionnaire, setShowQuestionnaire] = useState(false);
   const navigate = useNavigate();
   const [selectedFacility, setSelectedFacility] = useState<{ name: string } | null>(null);
 
@@ -55,37 +77,38 @@ export function DonationSlotSelector({
     fetchAvailableSlots();
   }, [facilityId, facilityType, selectedDate]);
 
+  // Places are taken and freed by other donors while this screen is open
+  useEffect(() => {
+    return subscribeToDonationSlots(facilityType, facilityId, () => fetchAvailableSlots(false), {
+      onResync: () => fetchAvailableSlots(false),
+    });
+  }, [facilityId, facilityType, selectedDate]);
+
   const fetchFacilityDetails = async () => {
     try {
       if (facilityType === 'blood_bank') {
-        const { data, error } = await supabase
-          .from('blood_banks')
-          .select('id, name, address')
-          .eq('id', facilityId)
-          .single();
-          
-        if (error) throw error;
+        const data = await getBloodBank(facilityId);
         
         setFacility({
           id: data.id,
           name: data.name,
           address: data.address,
+          latitude: data.latitude,
+          longitude: data.longitude,
+          timezone: data.timezone,
           type: 'blood_bank'
         });
         setSelectedFacility(data);
       } else {
-        const { data, error } = await supabase
-          .from('hospitals')
-          .select('id, name, address')
-          .eq('id', facilityId)
-          .single();
-          
-        if (error) throw error;
+        const data = await getHospital(facilityId);
         
         setFacility({
           id: data.id,
           name: data.name,
           address: data.address,
+          latitude: data.latitude,
+          longitude: data.longitude,
+          timezone: data.timezone,
           type: 'hospital'
         });
         setSelectedFacility(data);
@@ -96,166 +119,37 @@ export function DonationSlotSelector({
     }
   };
 
-  const fetchAvailableSlots = async () => {
-    setLoading(true);
+  const fetchAvailableSlots = async (showSpinner = true) => {
+    if (showSpinner) setLoading(true);
     try {
-      // Format date for database query
-      const dateString = selectedDate ? selectedDate.toISOString().split('T')[0] : '';
-      
-      console.log(`Fetching slots for ${facilityType} with ID ${facilityId}`);
-      console.log(`Date: ${dateString}`);
-      
-      // Use the unified get_available_slots function with correct parameter order
-      const { data, error } = await supabase
-        .rpc('get_available_slots', {
-          p_date: dateString,
-          p_facility_id: facilityId,
-          p_facility_type: facilityType
-        });
-        
-      if (error) {
-        console.error('Error calling get_available_slots function:', error);
-        
-        // Fall back to direct table queries
-        await fallbackSlotFetch(dateString);
-      } else if (data && data.length > 0) {
-        console.log('Slots returned from function:', data);
-        setSlots(data);
-      } else {
-        console.log('No slots returned from function, trying fallback');
-        await fallbackSlotFetch(dateString);
-      }
+      const dateString = formatDateForDB(selectedDate);
+      const data = await getAvailableSlots(dateString, facilityId, facilityType);
+      setSlots(data);
+      setSelectedSlot((current) => data.find((slot) => slot.id === current?.id) ?? null);
     } catch (error) {
       console.error('Error fetching available slots:', error);
       toast.error('Failed to load available slots');
+      setSlots([]);
     } finally {
       setLoading(false);
     }
   };
-  
-  const fallbackSlotFetch = async (dateString: string) => {
-    try {
-      const dayOfWeek = selectedDate ? selectedDate.toLocaleDateString('en-US', { weekday: 'long' }) : '';
-      
-      if (facilityType === 'blood_bank') {
-        const { data, error } = await supabase
-          .from('blood_bank_slots')
-          .select('id, start_time, end_time, capacity, day_of_week')
-          .eq('blood_bank_id', facilityId);
-          
-        if (error) throw error;
-        
-        if (data && data.length > 0) {
-          // Filter for the current day of week
-          const daySlots = data.filter(slot => 
-            slot.day_of_week && slot.day_of_week.trim().toLowerCase() === dayOfWeek.toLowerCase()
-          );
-          
-          if (daySlots.length > 0) {
-            const formattedSlots = daySlots.map(slot => ({
-              id: slot.id,
-              day: slot.day_of_week || '',
-              start_time: formatTimeForDisplay(slot.start_time),
-              end_time: formatTimeForDisplay(slot.end_time),
-              capacity: slot.capacity,
-              booked_count: slot.booked_count,
-              available: true // Assume available as a fallback
-            }));
-            
-            setSlots(formattedSlots);
-          } else {
-            // If no slots found for the specific day, generate default slots
-            generateDefaultSlots();
-          }
-        } else {
-          generateDefaultSlots();
-        }
-      } else {
-        // Hospital slots
-        const { data, error } = await supabase
-          .from('hospital_donation_slots')
-          .select('id, start_time, end_time, capacity, day_of_week')
-          .eq('hospital_id', facilityId);
-          
-        if (error) throw error;
-        
-        if (data && data.length > 0) {
-          // Filter for the current day of week
-          const daySlots = data.filter(slot => 
-            slot.day_of_week && slot.day_of_week.trim().toLowerCase() === dayOfWeek.toLowerCase()
-          );
-          
-          if (daySlots.length > 0) {
-            const formattedSlots = daySlots.map(slot => ({
-              id: slot.id,
-              day: slot.day_of_week || '',
-              start_time: formatTimeForDisplay(slot.start_time),
-              end_time: formatTimeForDisplay(slot.end_time),
-              capacity: slot.capacity,
-              booked_count: slot.booked_count,
-              available: true // Assume available as a fallback
-            }));
-            
-            setSlots(formattedSlots);
-          } else {
-            // If no slots found for the specific day, generate default slots
-            generateDefaultSlots();
-          }
-        } else {
-          generateDefaultSlots();
-        }
-      }
-    } catch (error) {
-      console.error('Error in fallback slot fetch:', error);
-      // As last resort, generate default slots
-      generateDefaultSlots();
-    }
-  };
-  
-  const generateDefaultSlots = () => {
-    // Create default time slots (9am to 5pm, hourly)
-    const defaultSlots: TimeSlot[] = [];
-    for (let hour = 9; hour < 17; hour++) {
-      defaultSlots.push({
-        id: `default-${hour}`,
-        day: '',
-        start_time: `${hour.toString().padStart(2, '0')}:00`,
-        end_time: `${hour.toString().padStart(2, '0')}:00`,
-        capacity: 0,
-        booked_count: 0,
-        available: true
-      });
-    }
-    setSlots(defaultSlots);
-  };
-  
-  const formatTimeForDisplay = (timeStr: string) => {
-    if (!timeStr) return "";
-    
-    // Handle different time formats
-    if (timeStr.includes(':')) {
-      // Already in HH:MM format
-      return timeStr.substring(0, 5);
-    } else {
-      try {
-        // Try to parse as a time object
-        const time = new Date(`2000-01-01T${timeStr}`);
-        return time.getHours().toString().padStart(2, '0') + ':' + 
-               time.getMinutes().toString().padStart(2, '0');
-      } catch (e) {
-        return timeStr;
-      }
-    }
-  };
 
-  const handleSubmit = async (event: React.FormEvent) => {
+  const handleSubmit = (event: React.FormEvent) => {
     event.preventDefault();
     
     if (!selectedDate || !selectedSlot) {
       setFormError('Please select both a date and time slot');
       return;
     }
-    
+
+    setFormError('');
+    setShowQuestionnaire(true);
+  };
+
+  const bookDonation = async (answers: PreDonationQuestionnaireData) => {
+    if (!selectedDate || !selectedSlot) return;
+
     setIsSubmitting(true);
     setFormError('');
     
@@ -269,59 +163,79 @@ export function DonationSlotSelector({
       }
       
       // Get donor ID from user ID
-      const { data: donorData, error: donorError } = await supabase
-        .from('donors')
-        .select('id')
-        .eq('user_id', session.user.id)
-        .single();
-        
-      if (donorError) {
+      const donorData = await getDonorByUserId(session.user.id).catch((donorError) => {
         console.error('Error fetching donor ID:', donorError);
+        return null;
+      });
+      if (!donorData) {
         throw new Error('Failed to retrieve donor information');
       }
+
+      const answeredAt = new Date();
+      const eligibility = checkEligibility(applyQuestionnaire(donorData, answers, answeredAt), {
+        at: selectedDate,
+      });
+      if (!eligibility.eligible) {
+        const message = explainEligibility(eligibility);
+        toast.error(message);
+        setFormError(message);
+        setShowQuestionnaire(false);
+        return;
+      }
       
-      const formattedDate = selectedDate.toISOString().split('T')[0];
-      
+      const formattedDate = formatDateForDB(selectedDate);
+      const timezone = facility?.timezone || DEFAULT_TIMEZONE;
+
+      // A full slot can only be waited on; any existing booking is kept until a place opens
+      if (!selectedSlot.available) {
+        const position = await joinSlotWaitlist({
+          p_facility_type: facilityType,
+          p_slot_id: selectedSlot.id,
+          p_slot_date: formattedDate,
+          p_notes: notes || undefined,
+          p_questionnaire: toStoredQuestionnaire(answers, answeredAt),
+        });
+        toast.success(
+          `${describeWaitlistPosition(position)}. We'll book you in if a place opens up.`
+        );
+        setTimeout(() => {
+          navigate('/dashboard');
+        }, 1500);
+        return;
+      }
+
       // If rescheduleId is present, first cancel the existing appointment
       if (rescheduleId) {
-        // Determine if it's a hospital or blood bank donation
-        if (facilityType === 'hospital') {
-          await supabase
-            .from('hospital_donations')
-            .update({ status: 'cancelled' })
-            .eq('id', rescheduleId);
-        } else {
-          await supabase
-            .from('scheduled_donations')
-            .update({ status: 'cancelled' })
-            .eq('id', rescheduleId);
-        }
+        await cancelDonationBooking(facilityType, rescheduleId, 'Rescheduled by donor');
       }
       
       // Schedule the new donation using RPC function
-      const { data: donationId, error: schedulingError } = await supabase.rpc(
-        'schedule_donation',
-        {
+      let donationId: string;
+      try {
+        donationId = await scheduleDonation({
           p_donor_id: donorData.id,
           p_facility_id: facilityId,
           p_facility_type: facilityType,
           p_slot_id: selectedSlot.id,
           p_scheduled_date: formattedDate,
           p_scheduled_time: selectedSlot.start_time,
-          p_notes: notes || null
-        }
-      );
-      
-      if (schedulingError) {
+          p_notes: notes || null,
+          // Kept with the booking for the staff at the appointment
+          p_questionnaire: toStoredQuestionnaire(answers, answeredAt),
+        });
+      } catch (schedulingError: unknown) {
         console.error('Error from schedule_donation function:', schedulingError);
+        if (!(schedulingError instanceof Error)) throw schedulingError;
         
         // Handle specific error messages with user-friendly responses
         if (schedulingError.message.includes('already has an active donation scheduled')) {
           toast.error('You already have a donation scheduled at this time. Please select a different time slot or check your upcoming appointments.');
           setFormError('You already have an appointment scheduled at this time');
         } else if (schedulingError.message.includes('No available slots')) {
-          toast.error('This time slot is no longer available. Please select a different time.');
-          setFormError('This time slot is no longer available');
+          toast.error('This time slot has just filled up. Choose another time or join its waitlist.');
+          setFormError('This time slot has just filled up');
+          setShowQuestionnaire(false);
+          fetchAvailableSlots(false);
         } else {
           toast.error('Failed to schedule donation: ' + schedulingError.message);
           setFormError('Failed to schedule donation. Please try again later.');
@@ -334,31 +248,33 @@ export function DonationSlotSelector({
       
       // Create a notification for the donor
       const facilityName = selectedFacility?.name || 'the selected facility';
-      const { error: notificationError } = await supabase
-        .from('notifications')
-        .insert({
-          user_id: session.user.id,
-          title: 'Donation Scheduled',
-          message: `Your donation at ${facilityName} on ${format(selectedDate, 'EEEE, MMMM d')} at ${formatTime(selectedSlot.start_time)} has been scheduled.`,
-          type: 'appointment',
-          recipient_type: 'donor',
-          data: {
-            donation_id: donationId,
-            facility_id: facilityId,
-            facility_type: facilityType,
-            date: formattedDate,
-            time: selectedSlot.start_time
-          }
+      try {
+        await dispatchNotification('donation_scheduled', session.user.id, {
+          scheduled_date: format(selectedDate, 'EEEE, MMMM d'),
+          scheduled_time: formatAppointmentTime(formattedDate, selectedSlot.start_time, timezone),
+          hospital_name: facilityName,
+          donation_id: donationId,
+          facility_id: facilityId,
+          facility_type: facilityType,
         });
-        
-      if (notificationError) {
+      } catch (notificationError) {
         console.error('Error creating notification:', notificationError);
       }
       
-      // Redirect to dashboard or confirmation page
-      setTimeout(() => {
-        navigate('/dashboard');
-      }, 1500);
+      onComplete({
+        id: donationId,
+        facility_type: facilityType,
+        facility_name: facilityName,
+        facility_address: facility?.address,
+        latitude: facility?.latitude,
+        longitude: facility?.longitude,
+        scheduled_date: formattedDate,
+        scheduled_time: selectedSlot.start_time,
+        end_time: selectedSlot.end_time,
+        scheduled_at: zonedTimeToInstant(formattedDate, selectedSlot.start_time, timezone).toISOString(),
+        status: 'scheduled',
+        notes: notes || null,
+      });
     } catch (error) {
       console.error('Error scheduling donation:', error);
       setFormError('An unexpected error occurred. Please try again later.');
@@ -381,6 +297,22 @@ export function DonationSlotSelector({
     }
   };
 
+  const describeSlot = (slot: TimeSlot) =>
+    describeAppointmentTime(formatDateForDB(selectedDate), slot.start_time, facility?.timezone);
+
+  // Donors booking from another zone see the facility's times with their own alongside
+  const zoneNote = (slot: TimeSlot) => {
+    const described = describeSlot(slot);
+    if (!described.viewerTime) return null;
+
+    return (
+      <p className="text-sm text-gray-500 mt-2">
+        Times are local to the facility ({described.facilityZone}). Your own time is shown
+        under each slot.
+      </p>
+    );
+  };
+
   return (
     <div className="bg-white rounded-lg shadow-md p-6">
       <button
@@ -405,6 +337,7 @@ export function DonationSlotSelector({
             day: 'numeric' 
           })}
         </p>
+        {facility && slots.length > 0 && zoneNote(slots[0])}
       </div>
 
       {loading ? (
@@ -412,39 +345,66 @@ export function DonationSlotSelector({
           <Loader2 className="h-8 w-8 text-red-500 animate-spin" />
           <span className="ml-2 text-gray-600">Loading available slots...</span>
         </div>
+      ) : showQuestionnaire ? (
+        <PreDonationQuestionnaireForm
+          submitting={submitting}
+          submitLabel={selectedSlot && !selectedSlot.available ? 'Join Waitlist' : undefined}
+          onBack={() => setShowQuestionnaire(false)}
+          onComplete={bookDonation}
+        />
       ) : slots.length > 0 ? (
         <form onSubmit={handleSubmit} className="space-y-6">
           <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-4 gap-3">
-            {slots.map((slot) => (
-              <button
-                key={slot.id}
-                type="button"
-                disabled={!slot.available}
-                onClick={() => setSelectedSlot(slot)}
-                className={`relative flex flex-col items-center justify-center p-4 border rounded-lg transition-colors 
-                  ${selectedSlot === slot 
-                    ? 'border-red-500 bg-red-50 ring-2 ring-red-500 ring-opacity-50' 
-                    : slot.available 
-                      ? 'border-gray-200 hover:border-red-300 hover:bg-red-50' 
-                      : 'border-gray-200 bg-gray-50 cursor-not-allowed'
-                  }`}
-              >
-                <Clock className={`h-5 w-5 mb-1 ${selectedSlot === slot ? 'text-red-500' : slot.available ? 'text-gray-500' : 'text-gray-400'}`} />
-                <span className={`text-sm font-medium ${selectedSlot === slot ? 'text-red-700' : slot.available ? 'text-gray-700' : 'text-gray-400'}`}>
-                  {formatTime(slot.start_time)}
-                </span>
-                {selectedSlot === slot && (
-                  <div className="absolute -top-1 -right-1 bg-red-500 rounded-full p-1">
-                    <Check className="h-3 w-3 text-white" />
-                  </div>
-                )}
-                {!slot.available && (
-                  <span className="text-xs text-gray-400 mt-1">Fully booked</span>
-                )}
-              </button>
-            ))}
+            {slots.map((slot) => {
+              const isSelected = selectedSlot?.id === slot.id;
+              const { viewerTime, viewerDate } = describeSlot(slot);
+              return (
+                <button
+                  key={slot.id}
+                  type="button"
+                  onClick={() => setSelectedSlot(slot)}
+                  className={`relative flex flex-col items-center justify-center p-4 border rounded-lg transition-colors 
+                    ${isSelected 
+                      ? 'border-red-500 bg-red-50 ring-2 ring-red-500 ring-opacity-50' 
+                      : slot.available 
+                        ? 'border-gray-200 hover:border-red-300 hover:bg-red-50' 
+                        : 'border-gray-200 bg-gray-50 hover:border-gray-300'
+                    }`}
+                >
+                  <Clock className={`h-5 w-5 mb-1 ${isSelected ? 'text-red-500' : slot.available ? 'text-gray-500' : 'text-gray-400'}`} />
+                  <span className={`text-sm font-medium ${isSelected ? 'text-red-700' : slot.available ? 'text-gray-700' : 'text-gray-400'}`}>
+                    {formatTime(slot.start_time)}
+                  </span>
+                  {viewerTime && (
+                    <span className="text-xs text-gray-500">
+                      {viewerTime}
+                      {viewerDate && ` (${format(parseISO(viewerDate), 'EEE d MMM')})`}{' '}
+                      your time
+                    </span>
+                  )}
+                  <span className={`text-xs mt-1 ${slot.available ? 'text-gray-500' : 'text-gray-400'}`}>
+                    {describeSlotAvailability(slot)}
+                  </span>
+                  {isSelected && (
+                    <div className="absolute -top-1 -right-1 bg-red-500 rounded-full p-1">
+                      <Check className="h-3 w-3 text-white" />
+                    </div>
+                  )}
+                </button>
+              );
+            })}
           </div>
 
+          {selectedSlot && !selectedSlot.available && (
+            <div className="bg-yellow-50 border border-yellow-200 rounded-md p-4 flex items-start">
+              <AlertCircle className="h-5 w-5 text-yellow-500 mr-2 flex-shrink-0" />
+              <p className="text-sm text-yellow-800">
+                This time is fully booked. Join the waitlist and you'll be booked in automatically,
+                in the order donors joined, if someone cancels.
+              </p>
+            </div>
+          )}
+
           <div className="mt-6">
             <label htmlFor="notes" className="block text-sm font-medium text-gray-700 mb-1">
               Special Notes (optional)
@@ -485,14 +445,9 @@ export function DonationSlotSelector({
                   ? 'bg-gray-300 cursor-not-allowed' 
                   : 'bg-red-500 hover:bg-red-600'}`}
             >
-              {submitting ? (
-                <>
-                  <Loader2 className="h-4 w-4 mr-2 inline animate-spin" />
-                  Scheduling...
-                </>
-              ) : (
-                'Confirm Booking'
-              )}
+              {selectedSlot && !selectedSlot.available
+                ? 'Continue to Join Waitlist'
+                : 'Continue to Health Questionnaire'}
             </button>
           </div>
         </form>
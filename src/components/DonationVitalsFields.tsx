@@ -0,0 +1,144 @@
+import { DEFAULT_ELIGIBILITY_RULES } from '../lib/donorEligibility';
+import {
+  ADVERSE_REACTION_LABELS,
+  ADVERSE_REACTION_TYPES,
+  REACTION_SEVERITIES,
+} from '../lib/donationVitals';
+
+export type DonationVitalsValues = Record<
+  | 'hemoglobin_g_dl'
+  | 'systolic_bp'
+  | 'diastolic_bp'
+  | 'pulse_bpm'
+  | 'volume_collected_ml'
+  | 'bag_number'
+  | 'reaction'
+  | 'severity'
+  | 'reaction_notes',
+  string
+>;
+
+export const EMPTY_DONATION_VITALS: DonationVitalsValues = {
+  hemoglobin_g_dl: '',
+  systolic_bp: '',
+  diastolic_bp: '',
+  pulse_bpm: '',
+  volume_collected_ml: '',
+  bag_number: '',
+  reaction: '',
+  severity: '',
+  reaction_notes: '',
+};
+
+interface DonationVitalsFieldsProps {
+  values: DonationVitalsValues;
+  onChange: (values: DonationVitalsValues) => void;
+}
+
+const inputClass =
+  'w-full rounded-md border-gray-300 shadow-sm focus:border-red-500 focus:ring-red-500';
+
+const MODERATE_DEFERRAL_DAYS = DEFAULT_ELIGIBILITY_RULES.temporaryDeferrals.adverse_reaction.days;
+
+const MEASUREMENTS = [
+  { field: 'hemoglobin_g_dl', label: 'Hemoglobin (g/dL)', step: '0.1' },
+  { field: 'pulse_bpm', label: 'Pulse (bpm)', step: '1' },
+  { field: 'systolic_bp', label: 'Systolic BP (mmHg)', step: '1' },
+  { field: 'diastolic_bp', label: 'Diastolic BP (mmHg)', step: '1' },
+  { field: 'volume_collected_ml', label: 'Volume collected (ml)', step: '1' },
+] as const;
+
+/** Vitals and any adverse reaction, recorded by staff after a donation */
+export function DonationVitalsFields({ values, onChange }: DonationVitalsFieldsProps) {
+  const set = (field: keyof DonationVitalsValues, value: string) =>
+    onChange({ ...values, [field]: value });
+
+  return (
+    <div className="mb-4 space-y-3">
+      <h4 className="text-sm font-semibold text-gray-900">Donor Vitals</h4>
+      <div className="grid grid-cols-2 gap-3">
+        {MEASUREMENTS.map(({ field, label, step }) => (
+          <div key={field}>
+            <label className="block text-xs font-medium text-gray-700 mb-1">{label}</label>
+            <input
+              type="number"
+              step={step}
+              min="0"
+              value={values[field]}
+              onChange={(e) => set(field, e.target.value)}
+              className={inputClass}
+            />
+          </div>
+        ))}
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Bag number</label>
+          <input
+            type="text"
+            value={values.bag_number}
+            onChange={(e) => set('bag_number', e.target.value)}
+            className={inputClass}
+          />
+        </div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-3">
+        <div>
+          <label className="block text-xs font-medium text-gray-700 mb-1">Adverse reaction</label>
+          <select
+            value={values.reaction}
+            onChange={(e) =>
+              onChange({
+                ...values,
+                reaction: e.target.value,
+                severity: e.target.value ? values.severity : '',
+              })
+            }
+            className={inputClass}
+          >
+            <option value="">None</option>
+            {ADVERSE_REACTION_TYPES.map((reaction) => (
+              <option key={reaction} value={reaction}>
+                {ADVERSE_REACTION_LABELS[reaction]}
+              </option>
+            ))}
+          </select>
+        </div>
+        {values.reaction && (
+          <div>
+            <label className="block text-xs font-medium text-gray-700 mb-1">Severity</label>
+            <select
+              value={values.severity}
+              onChange={(e) => set('severity', e.target.value)}
+              className={inputClass}
+            >
+              <option value="">Select severity</option>
+              {REACTION_SEVERITIES.map((severity) => (
+                <option key={severity} value={severity}>
+                  {severity.charAt(0).toUpperCase() + severity.slice(1)}
+                </option>
+              ))}
+            </select>
+          </div>
+        )}
+      </div>
+      {values.reaction && (
+        <>
+          <textarea
+            value={values.reaction_notes}
+            onChange={(e) => set('reaction_notes', e.target.value)}
+            className={inputClass}
+            rows={2}
+            placeholder="What happened and how it was treated"
+          />
+          {values.severity && values.severity !== 'mild' && (
+            <p className="text-xs text-yellow-800">
+              {values.severity === 'severe'
+                ? 'The donor will be deferred from donating until reviewed.'
+                : `The donor will be deferred from donating for ${MODERATE_DEFERRAL_DAYS} days.`}
+            </p>
+          )}
+        </>
+      )}
+    </div>
+  );
+}
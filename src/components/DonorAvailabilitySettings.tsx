@@ -0,0 +1,344 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { CalendarClock, ChevronDown, ChevronUp, Plus, Trash2 } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import toast from 'react-hot-toast';
+import {
+  AVAILABILITY_PRESETS,
+  SNOOZE_REASONS,
+  WEEKDAYS,
+  getDonorAvailability,
+  type AvailabilityWindow,
+  type SnoozeReason,
+} from '../lib/donorAvailability';
+import { getDonorById, updateDonor, type Donor } from '../lib/repositories/donors';
+import {
+  createSnooze,
+  deleteSnooze,
+  listAvailabilityWindows,
+  listUpcomingSnoozes,
+  saveAvailabilityWindows,
+  type DonorSnoozeRow,
+} from '../lib/repositories/donorAvailability';
+
+interface DonorAvailabilitySettingsProps {
+  donorId: string;
+}
+
+const inputClass =
+  'px-3 py-2 border border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500';
+
+const STATUS_LABELS = {
+  always: 'Available any time',
+  window: 'Available now',
+  on_call: 'On call for emergencies',
+  unavailable: 'Marked as not available',
+  snoozed: 'Snoozed',
+  outside_window: 'Outside your availability windows',
+};
+
+export function DonorAvailabilitySettings({ donorId }: DonorAvailabilitySettingsProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [donor, setDonor] = useState<Donor | null>(null);
+  const [windows, setWindows] = useState<AvailabilityWindow[]>([]);
+  const [snoozes, setSnoozes] = useState<DonorSnoozeRow[]>([]);
+  const [savingWindows, setSavingWindows] = useState(false);
+  const [snoozeReason, setSnoozeReason] = useState<SnoozeReason>('travel');
+  const [snoozeUntil, setSnoozeUntil] = useState('');
+  const [snoozeNotes, setSnoozeNotes] = useState('');
+
+  useEffect(() => {
+    fetchAvailability();
+  }, [donorId]);
+
+  const fetchAvailability = async () => {
+    try {
+      const [donorData, windowData, snoozeData] = await Promise.all([
+        getDonorById(donorId),
+        listAvailabilityWindows(donorId),
+        listUpcomingSnoozes(donorId),
+      ]);
+      setDonor(donorData);
+      setWindows(
+        windowData.map(({ weekday, start_time, end_time }) => ({
+          weekday,
+          start_time: start_time.slice(0, 5),
+          end_time: end_time.slice(0, 5),
+        }))
+      );
+      setSnoozes(snoozeData);
+    } catch (error) {
+      console.error('Error fetching availability:', error);
+      toast.error('Failed to load your availability');
+    }
+  };
+
+  const handleOnCallChange = async (onCall: boolean) => {
+    try {
+      await updateDonor(donorId, { on_call_for_emergencies: onCall });
+      setDonor((prev) => prev && { ...prev, on_call_for_emergencies: onCall });
+      toast.success(onCall ? 'You are on call for emergencies' : 'You are no longer on call');
+    } catch (error) {
+      console.error('Error updating on-call status:', error);
+      toast.error('Failed to update on-call status');
+    }
+  };
+
+  const updateWindow = (index: number, changes: Partial<AvailabilityWindow>) => {
+    setWindows((prev) =>
+      prev.map((window, i) => (i === index ? { ...window, ...changes } : window))
+    );
+  };
+
+  const handleSaveWindows = async () => {
+    if (windows.some((window) => window.start_time === window.end_time)) {
+      toast.error('Each window must start and end at different times');
+      return;
+    }
+
+    setSavingWindows(true);
+    try {
+      const timezone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+      await Promise.all([
+        saveAvailabilityWindows(donorId, windows),
+        updateDonor(donorId, { availability_timezone: timezone }),
+      ]);
+      setDonor((prev) => prev && { ...prev, availability_timezone: timezone });
+      toast.success('Availability saved');
+    } catch (error) {
+      console.error('Error saving availability:', error);
+      toast.error('Failed to save availability');
+    } finally {
+      setSavingWindows(false);
+    }
+  };
+
+  const handleSnooze = async (e: FormEvent) => {
+    e.preventDefault();
+
+    const endsAt = new Date(`${snoozeUntil}T23:59:59`);
+    if (!snoozeUntil || endsAt <= new Date()) {
+      toast.error('Choose a date in the future');
+      return;
+    }
+
+    try {
+      const snooze = await createSnooze({
+        donor_id: donorId,
+        ends_at: endsAt.toISOString(),
+        reason: snoozeReason,
+        notes: snoozeNotes || null,
+      });
+      setSnoozes((prev) => [...prev, snooze]);
+      setSnoozeUntil('');
+      setSnoozeNotes('');
+      toast.success(`Snoozed until ${format(endsAt, 'PPP')}`);
+    } catch (error) {
+      console.error('Error snoozing:', error);
+      toast.error('Failed to snooze');
+    }
+  };
+
+  const handleEndSnooze = async (snooze: DonorSnoozeRow) => {
+    try {
+      await deleteSnooze(snooze.id);
+      setSnoozes((prev) => prev.filter((s) => s.id !== snooze.id));
+      toast.success('Snooze ended');
+    } catch (error) {
+      console.error('Error ending snooze:', error);
+      toast.error('Failed to end snooze');
+    }
+  };
+
+  const status = donor && getDonorAvailability(donor, windows, snoozes, new Date());
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between"
+      >
+        <div className="flex items-center">
+          <CalendarClock className="h-6 w-6 text-red-500 mr-2" />
+          <h2 className="text-xl font-bold text-gray-900">Availability</h2>
+          {status && (
+            <span
+              className={`ml-3 px-2.5 py-0.5 rounded-full text-xs font-medium ${
+                status.available ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-800'
+              }`}
+            >
+              {STATUS_LABELS[status.reason]}
+              {!status.available &&
+                status.until &&
+                ` until ${format(parseISO(status.until), 'PP')}`}
+            </span>
+          )}
+        </div>
+        {expanded ? (
+          <ChevronUp className="h-5 w-5 text-gray-500" />
+        ) : (
+          <ChevronDown className="h-5 w-5 text-gray-500" />
+        )}
+      </button>
+
+      {expanded && donor && (
+        <div className="mt-6 space-y-6">
+          <label className="flex items-center text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={donor.on_call_for_emergencies}
+              onChange={(e) => handleOnCallChange(e.target.checked)}
+              className="mr-2 text-red-500"
+            />
+            On call for emergencies, even outside my availability windows
+          </label>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900">Weekly Availability</h3>
+            <p className="text-sm text-gray-500 mb-2">
+              You are only asked to donate during these times. Leave empty to be available any
+              time.
+            </p>
+            <div className="flex flex-wrap gap-2 mb-3">
+              {Object.entries(AVAILABILITY_PRESETS).map(([key, preset]) => (
+                <button
+                  key={key}
+                  type="button"
+                  onClick={() => setWindows(preset.windows)}
+                  className="px-3 py-1 text-sm border border-gray-300 rounded-full hover:bg-gray-50"
+                >
+                  {preset.label}
+                </button>
+              ))}
+            </div>
+            <div className="space-y-2">
+              {windows.map((window, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <select
+                    value={window.weekday}
+                    onChange={(e) => updateWindow(index, { weekday: Number(e.target.value) })}
+                    className={inputClass}
+                  >
+                    {WEEKDAYS.map((day, weekday) => (
+                      <option key={day} value={weekday}>
+                        {day}
+                      </option>
+                    ))}
+                  </select>
+                  <input
+                    type="time"
+                    value={window.start_time}
+                    onChange={(e) => updateWindow(index, { start_time: e.target.value })}
+                    className={inputClass}
+                  />
+                  <span className="text-sm text-gray-500">to</span>
+                  <input
+                    type="time"
+                    value={window.end_time}
+                    onChange={(e) => updateWindow(index, { end_time: e.target.value })}
+                    className={inputClass}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => setWindows((prev) => prev.filter((_, i) => i !== index))}
+                    className="text-gray-400 hover:text-red-600"
+                    title="Remove window"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between items-center mt-3">
+              <button
+                type="button"
+                onClick={() =>
+                  setWindows((prev) => [
+                    ...prev,
+                    { weekday: 1, start_time: '18:00', end_time: '21:00' },
+                  ])
+                }
+                className="flex items-center text-sm text-red-600 hover:text-red-800"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Add window
+              </button>
+              <button
+                type="button"
+                onClick={handleSaveWindows}
+                disabled={savingWindows}
+                className="px-4 py-2 text-white bg-red-500 rounded-md hover:bg-red-600 disabled:opacity-50"
+              >
+                {savingWindows ? 'Saving...' : 'Save Availability'}
+              </button>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900">Snooze</h3>
+            <p className="text-sm text-gray-500 mb-2">
+              Take a break from donation requests, including emergencies.
+            </p>
+            {snoozes.length > 0 && (
+              <ul className="space-y-2 mb-3">
+                {snoozes.map((snooze) => (
+                  <li
+                    key={snooze.id}
+                    className="flex items-center justify-between bg-gray-50 p-3 rounded-lg text-sm"
+                  >
+                    <span>
+                      {SNOOZE_REASONS[snooze.reason as SnoozeReason] ?? snooze.reason}:{' '}
+                      {format(parseISO(snooze.starts_at), 'PP')} to{' '}
+                      {format(parseISO(snooze.ends_at), 'PP')}
+                    </span>
+                    <button
+                      type="button"
+                      onClick={() => handleEndSnooze(snooze)}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      End
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            )}
+            <form onSubmit={handleSnooze} className="flex flex-wrap items-center gap-2">
+              <select
+                value={snoozeReason}
+                onChange={(e) => setSnoozeReason(e.target.value as SnoozeReason)}
+                className={inputClass}
+              >
+                {Object.entries(SNOOZE_REASONS).map(([reason, label]) => (
+                  <option key={reason} value={reason}>
+                    {label}
+                  </option>
+                ))}
+              </select>
+              <label className="text-sm text-gray-700">until</label>
+              <input
+                type="date"
+                value={snoozeUntil}
+                min={format(new Date(), 'yyyy-MM-dd')}
+                onChange={(e) => setSnoozeUntil(e.target.value)}
+                className={inputClass}
+              />
+              <input
+                type="text"
+                placeholder="Notes (optional)"
+                value={snoozeNotes}
+                onChange={(e) => setSnoozeNotes(e.target.value)}
+                className={`${inputClass} flex-1 min-w-[10rem]`}
+              />
+              <button
+                type="submit"
+                className="px-4 py-2 text-white bg-gray-700 rounded-md hover:bg-gray-800"
+              >
+                Snooze
+              </button>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,7 +9,15 @@ import { supabase } from '../lib/supabase';
 import { FormField } from './FormField';
 import { DatePicker } from './DatePicker';
 import { getCurrentLocation } from '../lib/geolocation';
+import { geocodeAddress } from '../services/geocodingService';
+import {
+  DEFAULT_ELIGIBILITY_RULES,
+  checkEligibility,
+  explainEligibility,
+} from '../lib/donorEligibility';
 import { FileUpload } from './FileUpload';
+import type { UserProfileRow } from '../lib/repositories/userProfiles';
+import { createDonor } from '../lib/repositories/donors';
 
 const BLOOD_TYPES = [
   { value: 'A+', label: 'A+' },
@@ -33,17 +41,18 @@ const MEDICAL_CONDITIONS = [
   { value: 'hypertension', label: 'Hypertension' },
   { value: 'heart_disease', label: 'Heart Disease' },
   { value: 'asthma', label: 'Asthma' },
+  ...Object.entries(DEFAULT_ELIGIBILITY_RULES.temporaryDeferrals)
+    .filter(([, deferral]) => !deferral.staffOnly)
+    .map(([value, deferral]) => ({ value, label: deferral.label })),
   { value: 'none', label: 'None' },
 ];
 
+// Number inputs hold strings until the schema parses them on submit
+const toOptionalNumber = (value: unknown) =>
+  value === '' || value == null || Number.isNaN(Number(value)) ? null : Number(value);
+
 interface DonorFormProps {
-  userProfile: {
-    id: string;
-    full_name: string;
-    blood_group: string;
-    date_of_birth: string;
-    contact_number: string;
-  } | null;
+  userProfile: UserProfileRow | null;
 }
 
 export function DonorForm({ userProfile }: DonorFormProps) {
@@ -51,6 +60,7 @@ export function DonorForm({ userProfile }: DonorFormProps) {
     register,
     handleSubmit,
     setValue,
+    watch,
     formState: { errors, isSubmitting },
     reset,
   } = useForm<DonorFormData>({
@@ -59,9 +69,9 @@ export function DonorForm({ userProfile }: DonorFormProps) {
       ? {
           first_name: userProfile.full_name.split(' ')[0],
           last_name: userProfile.full_name.split(' ').slice(1).join(' '),
-          date_of_birth: userProfile.date_of_birth,
+          date_of_birth: userProfile.date_of_birth ?? undefined,
           blood_type: userProfile.blood_group as DonorFormData['blood_type'],
-          phone: userProfile.contact_number,
+          phone: userProfile.contact_number ?? undefined,
           gender: 'male', // Default value, user can change
           status: 'active',
           medical_conditions: [],
@@ -84,6 +94,18 @@ export function DonorForm({ userProfile }: DonorFormProps) {
   const [bloodGroupDocPath, setBloodGroupDocPath] = useState<string>('');
   const [fileUploadError, setFileUploadError] = useState<string | null>(null);
 
+  const selectedConditions = watch('medical_conditions') ?? [];
+  const conditionDates = watch('medical_condition_dates') ?? {};
+  const eligibility = checkEligibility({
+    gender: watch('gender'),
+    date_of_birth: dateOfBirth,
+    last_donation_date: lastDonationDate,
+    medical_conditions: selectedConditions,
+    medical_condition_dates: conditionDates,
+    weight_kg: toOptionalNumber(watch('weight_kg')),
+    hemoglobin_g_dl: toOptionalNumber(watch('hemoglobin_g_dl')),
+  });
+
   useEffect(() => {
     // Get user's current location
     setIsLocationLoading(true);
@@ -99,11 +121,7 @@ export function DonorForm({ userProfile }: DonorFormProps) {
         console.error('Error getting location:', error);
         setIsLocationLoading(false);
         setHasLocationError(true);
-        toast.error('Unable to get your location. Your approximate location will be used.');
-        
-        // Set default values to prevent null errors (these will be overridden by IP geolocation on the server)
-        setValue('latitude', 0);
-        setValue('longitude', 0);
+        toast.error("Unable to get your location. We'll locate you from your address.");
       });
   }, [setValue]);
 
@@ -125,10 +143,16 @@ export function DonorForm({ userProfile }: DonorFormProps) {
       // Show a loading toast
       const loadingToast = toast.loading('Registering as a donor...');
       
-      // Validate location data
-      if (!data.latitude || !data.longitude) {
-        data.latitude = 0;
-        data.longitude = 0;
+      // Without the device location, find the donor from their address; this
+      // works offline from the bundled gazetteer. An address that cannot be
+      // placed leaves the location empty rather than at 0,0
+      if (data.latitude === undefined || data.longitude === undefined) {
+        const located = await geocodeAddress(data.address);
+        data.latitude = located?.latitude;
+        data.longitude = located?.longitude;
+        if (located?.lowConfidence) {
+          toast('We could only place you approximately from your address.');
+        }
       }
 
       // Set blood group verification data
@@ -141,22 +165,27 @@ export function DonorForm({ userProfile }: DonorFormProps) {
         data.is_blood_group_verified = false;
       }
 
-      const { data: donorData, error: donorError } = await supabase.from('donors').insert({
-        ...data,
-        user_id: sessionData.session.user.id,
-        medical_conditions: medicalConditions,
-        status: 'active',
-        is_available: true,
-        response_rate: 100,
-      }).select('id');
-
-      // Dismiss the loading toast
-      toast.dismiss(loadingToast);
-
-      if (donorError) {
+      try {
+        await createDonor({
+          ...data,
+          user_id: sessionData.session.user.id,
+          medical_conditions: medicalConditions,
+          medical_condition_dates: Object.fromEntries(
+            Object.entries(data.medical_condition_dates ?? {}).filter(([condition]) =>
+              medicalConditions.includes(condition)
+            )
+          ),
+          status: 'active',
+          is_available: true,
+          response_rate: 100,
+        });
+      } catch (donorError) {
         console.error('Error registering donor:', donorError);
         toast.error('Failed to register as a donor. Please try again.');
         return;
+      } finally {
+        // Dismiss the loading toast
+        toast.dismiss(loadingToast);
       }
 
       toast.success('Successfully registered as a donor!');
@@ -318,6 +347,35 @@ export function DonorForm({ userProfile }: DonorFormProps) {
             ))}
           </div>
         </div>
+        {selectedConditions
+          .filter((condition) => condition in DEFAULT_ELIGIBILITY_RULES.temporaryDeferrals)
+          .map((condition) => (
+            <DatePicker
+              key={condition}
+              label={`${DEFAULT_ELIGIBILITY_RULES.temporaryDeferrals[condition].label}: date`}
+              value={conditionDates[condition] ? new Date(conditionDates[condition]) : null}
+              onChange={(date) =>
+                setValue('medical_condition_dates', {
+                  ...conditionDates,
+                  [condition]: date ? format(date, 'yyyy-MM-dd') : '',
+                })
+              }
+            />
+          ))}
+        <FormField
+          label="Weight (kg)"
+          name="weight_kg"
+          register={register}
+          error={errors.weight_kg}
+          type="number"
+        />
+        <FormField
+          label="Hemoglobin (g/dL)"
+          name="hemoglobin_g_dl"
+          register={register}
+          error={errors.hemoglobin_g_dl}
+          type="number"
+        />
         <DatePicker
           label="Last Donation Date"
           value={lastDonationDate ? new Date(lastDonationDate) : null}
@@ -326,6 +384,16 @@ export function DonorForm({ userProfile }: DonorFormProps) {
         />
       </div>
 
+      <div
+        className={`rounded-lg p-3 text-sm border ${
+          eligibility.eligible
+            ? 'bg-green-50 border-green-200 text-green-700'
+            : 'bg-yellow-50 border-yellow-200 text-yellow-700'
+        }`}
+      >
+        {explainEligibility(eligibility)}
+      </div>
+
       {/* Location status indicator */}
       {isLocationLoading && (
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-3 text-blue-700">
@@ -335,14 +403,10 @@ export function DonorForm({ userProfile }: DonorFormProps) {
       
       {hasLocationError && (
         <div className="bg-yellow-50 border border-yellow-200 rounded-lg p-3 text-yellow-700">
-          <p className="text-sm">Unable to get your precise location. Your approximate location will be used.</p>
+          <p className="text-sm">Unable to get your precise location. You will be located from the address above when you register.</p>
         </div>
       )}
 
-      {/* Hidden fields for location */}
-      <input type="hidden" {...register('latitude')} />
-      <input type="hidden" {...register('longitude')} />
-
       {/* Additional information about blood group verification */}
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 text-blue-800 text-sm">
         <h4 className="font-medium mb-1">About Blood Group Verification:</h4>
@@ -0,0 +1,61 @@
+import { useState } from 'react';
+import { ChevronDown, ChevronUp, Gauge } from 'lucide-react';
+import type { DonorMatch, MatchFactor } from '../lib/donorMatching';
+
+interface DonorMatchBreakdownProps {
+  match: DonorMatch;
+}
+
+const FACTOR_LABELS: Record<MatchFactor, string> = {
+  compatibility: 'Blood type',
+  eligibility: 'Eligibility',
+  distance: 'Distance',
+  responsiveness: 'Response rate',
+  availability: 'Availability',
+};
+
+const getScoreColor = (score: number) => {
+  if (score >= 75) return 'bg-green-100 text-green-800';
+  if (score >= 50) return 'bg-yellow-100 text-yellow-800';
+  return 'bg-gray-100 text-gray-800';
+};
+
+export function DonorMatchBreakdown({ match }: DonorMatchBreakdownProps) {
+  const [expanded, setExpanded] = useState(false);
+
+  return (
+    <div className="text-sm">
+      <button
+        type="button"
+        onClick={() => setExpanded((prev) => !prev)}
+        className={`inline-flex items-center px-2.5 py-0.5 rounded-full font-medium ${getScoreColor(match.score)}`}
+      >
+        <Gauge className="h-4 w-4 mr-1" />
+        Match {Math.round(match.score)}/100
+        {expanded ? (
+          <ChevronUp className="h-4 w-4 ml-1" />
+        ) : (
+          <ChevronDown className="h-4 w-4 ml-1" />
+        )}
+      </button>
+
+      {expanded && (
+        <ul className="mt-2 space-y-1 text-left">
+          {(Object.keys(FACTOR_LABELS) as MatchFactor[]).map((factor) => {
+            const part = match.breakdown[factor];
+            return (
+              <li key={factor} className="flex items-center justify-between gap-4">
+                <span className="text-gray-600">
+                  {FACTOR_LABELS[factor]}: {part.reason}
+                </span>
+                <span className="font-medium text-gray-900 whitespace-nowrap">
+                  {part.points}/{part.max}
+                </span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+    </div>
+  );
+}
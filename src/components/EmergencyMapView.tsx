@@ -1,11 +1,35 @@
 import React, { useState, useEffect, useRef, useCallback } from 'react';
 import { toast } from 'react-hot-toast';
 import { OlaMaps } from 'olamaps-web-sdk';
-import { OLA_MAPS_CONFIG, getMapStyleUrl, getAlternativeMapStyle, createFallbackMap } from '../config/olaMaps';
+import {
+  OLA_MAPS_CONFIG,
+  getMapStyleUrl,
+  getAlternativeMapStyle,
+  createFallbackMap,
+  validateOlaMapsConfig,
+} from '../config/olaMaps';
 import { supabase } from '../lib/supabase';
+import { calculateDistance, findWithinRadius, recordLocation } from '../lib/geo';
+import { travelTimes } from '../lib/olaMapsApi';
+import {
+  estimateTravelTime,
+  MIN_TRAVEL_TIME_CONFIDENCE,
+  type TravelEstimate,
+} from '../lib/travelTime';
+import { getCompatibleBloodTypes } from '../lib/validation';
+import { listBloodBankContactsWithLocation } from '../lib/repositories/bloodBanks';
+import {
+  getDonorIdByUserId,
+  updateDonor,
+  updateDonorLocation,
+} from '../lib/repositories/donors';
+import { findDonorsNearby } from '../services/nearbyDonorService';
 import { geocodeAddress, calculateDistanceMatrix } from '../services/geocodingService';
 import { MapPin, Phone, Clock, Droplet, Building2, X, AlertCircle } from 'lucide-react';
 
+/** How far from the hospital to look for donors and blood banks */
+const NEARBY_RADIUS_KM = 20;
+
 interface EmergencyMapViewProps {
   emergencyRequestId: string;
   hospitalAddress: string;
@@ -25,6 +49,8 @@ interface Donor {
   distance: number;
   estimated_arrival?: string;
   estimated_time_minutes?: number;
+  /** 0 to 1, see `TravelEstimate` */
+  arrival_confidence?: number;
 }
 
 interface BloodBank {
@@ -116,6 +142,11 @@ export function EmergencyMapView({
                 lat: result.latitude,
                 lng: result.longitude
               });
+              if (result.lowConfidence) {
+                toast('The hospital address could only be located approximately.', {
+                  duration: 4000
+                });
+              }
               console.log('Hospital geocoding successful:', result);
             } else {
               console.warn('Geocoding returned null result for hospital address');
@@ -249,9 +280,13 @@ export function EmergencyMapView({
       try {
         // Initialize Ola Maps SDK only if it hasn't been initialized yet
         if (!olaMapsInstanceRef.current) {
+          if (!validateOlaMapsConfig()) {
+            useMapFallback('Map tiles key is not configured');
+            return;
+          }
           try {
             olaMapsInstanceRef.current = new OlaMaps({
-              apiKey: OLA_MAPS_CONFIG.apiKey,
+              apiKey: OLA_MAPS_CONFIG.tilesApiKey,
               mode: '2d'
             });
             console.log('Ola Maps SDK initialized successfully');
@@ -507,61 +542,50 @@ export function EmergencyMapView({
 
       // Skip all the function calls that are failing and use direct query + hardcoded data
       try {
-        console.log('Directly querying donors table');
+        console.log('Searching for donors near the hospital');
         
-        // Direct query to donors table without joins
-        const { data: donorsData, error: donorsError } = await supabase
-          .from('donors')
-          .select('*')
-          .eq('is_available', true)
-          .not('latitude', 'is', null)
-          .not('longitude', 'is', null);
+        // Compatible donors in range who can be asked right now
+        // (availability windows, snoozes, on call), nearest first
+        const donorsNearby = await findDonorsNearby(hospitalLocation, NEARBY_RADIUS_KM, {
+          bloodTypes: bloodType ? getCompatibleBloodTypes(bloodType) : undefined,
+          availableOnly: true,
+          emergency: true,
+        });
         
-        if (donorsError || !donorsData || donorsData.length === 0) {
-          console.error('Direct donor query failed or returned no results:', donorsError || 'No data');
+        if (donorsNearby.length === 0) {
+          console.error('Nearby donor search returned no results');
           // Use hardcoded donors as fallback
           useHardcodedDonors();
         } else {
-          console.log('Successfully retrieved donors:', donorsData);
+          console.log('Successfully retrieved donors:', donorsNearby);
+          
+          // Travel times to the hospital by road, or estimated for the time of day
+          const travel = await travelTimes.to(
+            donorsNearby.map(({ item: donor }) => ({ lat: donor.latitude!, lng: donor.longitude! })),
+            hospitalLocation
+          );
           
           // Transform the data into the expected format
-          const processedDonors = donorsData.map((donor: any) => {
-            // Calculate distance using Haversine formula
-            const distance = calculateDistance(
-              hospitalLocation.lat,
-              hospitalLocation.lng,
-              donor.latitude,
-              donor.longitude
-            );
+          const processedDonors: Donor[] = donorsNearby.map(({ item: donor, distanceKm: distance }, i) => {
+            const estimatedTimeMinutes = estimateArrivalTime(travel[i]);
             
-            if (distance <= 20) { // Only include donors within 20km
-              const estimatedTimeMinutes = estimateArrivalTime(distance);
-              
-              return {
-                id: donor.id,
-                user_id: donor.user_id || 'anonymous',
-                first_name: 'Donor', // Generic name since we don't have user info
-                last_name: donor.blood_type, // Use blood type as last name for visibility
-                blood_type: donor.blood_type,
-                phone: 'Contact via app',
-                latitude: donor.latitude,
-                longitude: donor.longitude,
-                distance: parseFloat(distance.toFixed(2)),
-                estimated_arrival: formatArrivalTime(estimatedTimeMinutes),
-                estimated_time_minutes: estimatedTimeMinutes
-              };
-            }
-            return null;
-          })
-          .filter(donor => donor !== null)
-          .sort((a: any, b: any) => a.distance - b.distance);
+            return {
+              id: donor.id,
+              user_id: donor.user_id || 'anonymous',
+              first_name: 'Donor', // Generic name since we don't have user info
+              last_name: donor.blood_type ?? '', // Use blood type as last name for visibility
+              blood_type: donor.blood_type ?? '',
+              phone: 'Contact via app',
+              latitude: donor.latitude!,
+              longitude: donor.longitude!,
+              distance: parseFloat(distance.toFixed(2)),
+              estimated_arrival: formatArrivalTime(estimatedTimeMinutes),
+              estimated_time_minutes: estimatedTimeMinutes,
+              arrival_confidence: travel[i].confidence
+            };
+          });
           
-          if (processedDonors.length > 0) {
-            setNearbyDonors(processedDonors as Donor[]);
-          } else {
-            // No donors within range, use hardcoded donors
-            useHardcodedDonors();
-          }
+          setNearbyDonors(processedDonors);
         }
       } catch (donorQueryError) {
         console.error('Exception during donor query:', donorQueryError);
@@ -573,44 +597,33 @@ export function EmergencyMapView({
       try {
         console.log('Directly querying blood_banks table');
         
-        const { data: bloodBanksData, error: bloodBanksError } = await supabase
-          .from('blood_banks')
-          .select('*');
+        const bloodBanksData = await listBloodBankContactsWithLocation();
           
-        if (bloodBanksError || !bloodBanksData || bloodBanksData.length === 0) {
-          console.error('Blood banks query failed or returned no results:', bloodBanksError || 'No data');
+        if (bloodBanksData.length === 0) {
+          console.error('Blood banks query returned no results');
           // Use hardcoded blood banks
           useHardcodedBloodBanks();
         } else {
           console.log('Successfully retrieved blood banks:', bloodBanksData);
           
-          // Transform blood bank data
-          const processedBloodBanks = bloodBanksData.map((bank: any) => {
-            const distance = calculateDistance(
-              hospitalLocation.lat,
-              hospitalLocation.lng,
-              bank.latitude,
-              bank.longitude
-            );
-            
-            if (distance <= 20) { // Only include blood banks within 20km
-              return {
-                id: bank.id,
-                name: bank.name,
-                address: bank.address || 'Address not available',
-                contact_number: bank.contact_number || 'Contact via app',
-                latitude: bank.latitude,
-                longitude: bank.longitude,
-                distance: parseFloat(distance.toFixed(2))
-              };
-            }
-            return null;
-          })
-          .filter(bank => bank !== null)
-          .sort((a: any, b: any) => a.distance - b.distance);
+          // Transform blood bank data, keeping those in range, nearest first
+          const processedBloodBanks = findWithinRadius(
+            bloodBanksData,
+            recordLocation,
+            hospitalLocation,
+            NEARBY_RADIUS_KM
+          ).map(({ item: bank, distanceKm: distance }): BloodBank => ({
+            id: bank.id,
+            name: bank.name,
+            address: bank.address || 'Address not available',
+            contact_number: bank.contact_number || 'Contact via app',
+            latitude: bank.latitude!,
+            longitude: bank.longitude!,
+            distance: parseFloat(distance.toFixed(2))
+          }));
           
           if (processedBloodBanks.length > 0) {
-            setNearbyBloodBanks(processedBloodBanks as BloodBank[]);
+            setNearbyBloodBanks(processedBloodBanks);
           } else {
             // No blood banks within range, use hardcoded ones
             useHardcodedBloodBanks();
@@ -727,11 +740,16 @@ export function EmergencyMapView({
     
     // Add estimated arrival times to the donors
     const donorsWithEstimatedTimes = hardcodedDonors.map(donor => {
-      const estimatedTimeMinutes = estimateArrivalTime(donor.distance);
+      const travel = estimateTravelTime(
+        { lat: donor.latitude, lng: donor.longitude },
+        hospitalLocation || { lat: 22.5110, lng: 88.3747 }
+      );
+      const estimatedTimeMinutes = estimateArrivalTime(travel);
       return {
         ...donor,
         estimated_arrival: formatArrivalTime(estimatedTimeMinutes),
-        estimated_time_minutes: estimatedTimeMinutes
+        estimated_time_minutes: estimatedTimeMinutes,
+        arrival_confidence: travel.confidence
       };
     });
     
@@ -755,18 +773,19 @@ export function EmergencyMapView({
     }
   };
 
-  // Simple function to estimate arrival time based on distance
-  const estimateArrivalTime = (distanceKm: number): number => {
-    // Assume average speed of 20 km/h in city traffic
-    const speedKmPerHour = 20;
+  // Minutes until a donor arrives: time to get ready plus the journey
+  const estimateArrivalTime = (travel: TravelEstimate): number => {
     // Add 10 minutes preparation time
     const preparationTimeMinutes = 10;
-    // Calculate travel time in minutes
-    const travelTimeMinutes = (distanceKm / speedKmPerHour) * 60;
-    // Return total estimated time rounded to nearest minute
-    return Math.round(preparationTimeMinutes + travelTimeMinutes);
+    return preparationTimeMinutes + travel.durationMinutes;
   };
 
+  // "~25 min", noting when traffic could make it quite different
+  const formatArrivalEstimate = (donor: Donor, unit: string): string =>
+    (donor.arrival_confidence ?? 0) >= MIN_TRAVEL_TIME_CONFIDENCE
+      ? `~${donor.estimated_time_minutes} ${unit}`
+      : `~${donor.estimated_time_minutes} ${unit}, depends on traffic`;
+
   // Format arrival time as a string (e.g. "10:30 AM")
   const formatArrivalTime = (minutesFromNow: number): string => {
     const now = new Date();
@@ -833,19 +852,6 @@ export function EmergencyMapView({
     setNearbyBloodBanks(hardcodedBloodBanks);
   };
 
-  // Helper function to calculate distance between coordinates
-  const calculateDistance = (lat1: number, lon1: number, lat2: number, lon2: number): number => {
-    const R = 6371; // Radius of the earth in km
-    const dLat = (lat2 - lat1) * Math.PI / 180;
-    const dLon = (lon2 - lon1) * Math.PI / 180;
-    const a = 
-      Math.sin(dLat/2) * Math.sin(dLat/2) +
-      Math.cos(lat1 * Math.PI / 180) * Math.cos(lat2 * Math.PI / 180) * 
-      Math.sin(dLon/2) * Math.sin(dLon/2);
-    const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1-a));
-    return R * c; // Distance in km
-  };
-
   // Update user location in database
   const updateUserLocationInDB = async (location: { lat: number; lng: number }) => {
     try {
@@ -858,18 +864,16 @@ export function EmergencyMapView({
       const userId = session.session.user.id;
 
       // Get donor ID
-      const { data: donorData, error: donorError } = await supabase
-        .from('donors')
-        .select('id')
-        .eq('user_id', userId)
-        .single();
-
-      if (donorError) {
+      let donorId: string | null;
+      try {
+        donorId = await getDonorIdByUserId(userId);
+      } catch (donorError) {
         console.error('Error fetching donor data:', donorError);
         return;
       }
 
-      if (donorData) {
+      if (donorId) {
+
         // Check if the donor location has been updated recently
         // to avoid excessive updates and potential rate limiting
         const lastUpdate = localStorage.getItem('lastLocationUpdate');
@@ -882,25 +886,15 @@ export function EmergencyMapView({
         
         // Try direct table update first (more reliable)
         try {
-          console.log('Updating donor location via direct update for donor ID:', donorData.id);
-          const { error: directUpdateError } = await supabase
-            .from('donors')
-            .update({
-              latitude: location.lat,
-              longitude: location.lng,
-              updated_at: new Date().toISOString()
-            })
-            .eq('id', donorData.id);
-            
-          if (directUpdateError) {
-            console.error('Direct donor location update failed:', directUpdateError);
-            // Fall back to RPC if direct update fails
-            await fallbackToRPC();
-          } else {
-            console.log('Donor location updated successfully via direct update');
-            // Record successful update time
-            localStorage.setItem('lastLocationUpdate', now.toString());
-          }
+          console.log('Updating donor location via direct update for donor ID:', donorId);
+          await updateDonor(donorId, {
+            latitude: location.lat,
+            longitude: location.lng,
+            updated_at: new Date().toISOString()
+          });
+          console.log('Donor location updated successfully via direct update');
+          // Record successful update time
+          localStorage.setItem('lastLocationUpdate', now.toString());
         } catch (updateError) {
           console.error('Error in direct donor location update:', updateError);
           // Fall back to RPC if direct update fails
@@ -910,24 +904,12 @@ export function EmergencyMapView({
         // Fallback to RPC function if direct update fails
         async function fallbackToRPC() {
           try {
-            console.log('Trying RPC update with donor ID:', donorData.id);
+            console.log('Trying RPC update with donor ID:', donorId);
             // Update donor location using RPC
-            const { error: updateError } = await supabase.rpc('update_donor_location', {
-              p_donor_id: donorData.id,
-              p_latitude: location.lat,
-              p_longitude: location.lng,
-              p_accuracy: null
-            });
-            
-            if (updateError) {
-              console.error('RPC donor location update failed:', updateError);
-              // Last resort - try a simpler update with fewer fields
-              await simplifiedUpdate();
-            } else {
-              console.log('Donor location updated successfully via RPC');
-              // Record successful update time
-              localStorage.setItem('lastLocationUpdate', now.toString());
-            }
+            await updateDonorLocation(donorId!, location.lat, location.lng);
+            console.log('Donor location updated successfully via RPC');
+            // Record successful update time
+            localStorage.setItem('lastLocationUpdate', now.toString());
           } catch (rpcError) {
             console.error('Error in RPC donor location update:', rpcError);
             // Last resort - try a simpler update
@@ -939,22 +921,13 @@ export function EmergencyMapView({
         async function simplifiedUpdate() {
           try {
             console.log('Trying simplified update as last resort');
-            const { error: simpleUpdateError } = await supabase
-              .from('donors')
-              .update({
-                latitude: location.lat,
-                longitude: location.lng
-              })
-              .eq('id', donorData.id);
-              
-            if (simpleUpdateError) {
-              console.error('Simplified donor location update also failed:', simpleUpdateError);
-              toast.error('Could not update your location. Please check your connection.');
-            } else {
-              console.log('Donor location updated successfully via simplified update');
-              // Record successful update time
-              localStorage.setItem('lastLocationUpdate', now.toString());
-            }
+            await updateDonor(donorId!, {
+              latitude: location.lat,
+              longitude: location.lng
+            });
+            console.log('Donor location updated successfully via simplified update');
+            // Record successful update time
+            localStorage.setItem('lastLocationUpdate', now.toString());
           } catch (simpleError) {
             console.error('Error in simplified donor location update:', simpleError);
             toast.error('Could not update your location. Please refresh and try again.');
@@ -1148,7 +1121,7 @@ export function EmergencyMapView({
                     {donor.estimated_arrival && (
                       <p className="text-xs text-gray-500 mt-1 flex items-center">
                         <Clock className="h-3 w-3 mr-1" />
-                        Est. arrival: {donor.estimated_arrival} (~{donor.estimated_time_minutes} min)
+                        Est. arrival: {donor.estimated_arrival} ({formatArrivalEstimate(donor, 'min')})
                       </p>
                     )}
                   </div>
@@ -1273,7 +1246,7 @@ export function EmergencyMapView({
                       <Clock className="h-5 w-5 mr-2 text-gray-500" />
                       <span>
                         Estimated arrival: {selectedEntity.estimated_arrival} 
-                        (~{selectedEntity.estimated_time_minutes} minutes)
+                        ({formatArrivalEstimate(selectedEntity, 'minutes')})
                       </span>
                     </div>
                   )}
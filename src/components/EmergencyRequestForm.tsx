@@ -1,8 +1,9 @@
 import React, { useState, useRef, useEffect } from 'react';
-import { supabase } from '../lib/supabase';
+import { createEmergencyRequest } from '../lib/repositories/emergencyRequests';
 import { useAuth } from '../contexts/AuthContext';
 import toast from 'react-hot-toast';
 import { EmergencyMapView } from './EmergencyMapView';
+import { COMPONENT_OPTIONS } from '../lib/bloodComponents';
 
 interface EmergencyRequestFormProps {
   onSuccess?: () => void;
@@ -12,6 +13,7 @@ export function EmergencyRequestForm({ onSuccess }: EmergencyRequestFormProps) {
   const [formData, setFormData] = useState({
     patient_name: '',
     blood_type: '',
+    component_type: 'whole_blood',
     units_required: '',
     hospital_name: '',
     hospital_address: '',
@@ -84,30 +86,25 @@ export function EmergencyRequestForm({ onSuccess }: EmergencyRequestFormProps) {
         return;
       }
 
-      const { data, error } = await supabase
-        .from('emergency_requests')
-        .insert({
-          user_id: user.id,
-          status: 'pending',
-          latitude: location.latitude,
-          longitude: location.longitude,
-          blood_type: formData.blood_type,
-          patient_name: formData.patient_name,
-          units_required: formData.units_required,
-          hospital_name: formData.hospital_name,
-          hospital_address: formData.hospital_address,
-          contact_person: formData.contact_person,
-          contact_number: formData.contact_number,
-          urgency_level: formData.urgency_level,
-          notes: formData.notes
-        })
-        .select('id')
-        .single();
-
-      if (error) {
+      const data = await createEmergencyRequest({
+        user_id: user.id,
+        status: 'pending',
+        latitude: location.latitude,
+        longitude: location.longitude,
+        blood_type: formData.blood_type,
+        component_type: formData.component_type,
+        patient_name: formData.patient_name,
+        units_required: Number(formData.units_required),
+        hospital_name: formData.hospital_name,
+        hospital_address: formData.hospital_address,
+        contact_person: formData.contact_person,
+        contact_number: formData.contact_number,
+        urgency_level: formData.urgency_level,
+        notes: formData.notes
+      }).catch((error) => {
         console.error('Database error:', error);
         throw new Error(`Database error: ${error.message || 'Unknown error'}`);
-      }
+      });
 
       setEmergencyRequestId(data.id);
       
@@ -186,6 +183,26 @@ export function EmergencyRequestForm({ onSuccess }: EmergencyRequestFormProps) {
                 </select>
               </div>
 
+              <div>
+                <label className="block text-sm font-medium text-gray-700 mb-2">
+                  Component
+                </label>
+                <select
+                  value={formData.component_type}
+                  onChange={(e) =>
+                    setFormData({ ...formData, component_type: e.target.value })
+                  }
+                  className="w-full px-4 py-2 border rounded-lg focus:outline-none focus:ring-2 focus:ring-red-500"
+                  required
+                >
+                  {COMPONENT_OPTIONS.map((option) => (
+                    <option key={option.value} value={option.value}>
+                      {option.label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               <div>
                 <label className="block text-sm font-medium text-gray-700 mb-2">
                   Units Required
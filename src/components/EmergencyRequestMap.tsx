@@ -1,8 +1,8 @@
 import React, { useEffect, useState, useRef } from 'react';
-import { supabase } from '../lib/supabase';
+import { findMatchingDonors } from '../lib/repositories/donors';
 import toast from 'react-hot-toast';
 import LocationMap from './LocationMap';
-import { calculateDistance } from '../lib/geolocation';
+import { calculateDistance } from '../lib/geo';
 import { ChatButton } from './ChatButton';
 
 interface EmergencyLocation {
@@ -75,16 +75,12 @@ export function EmergencyRequestMap({
         return;
       }
 
-      const { data, error } = await supabase.rpc('find_matching_donors', {
-        p_blood_type: emergencyLocation.bloodType,
-        lat: emergencyLocation.latitude,
-        lng: emergencyLocation.longitude,
-        radius_km: 20,
-      });
-
-      if (error) {
-        throw error;
-      }
+      const data = await findMatchingDonors(
+        emergencyLocation.bloodType,
+        emergencyLocation.latitude,
+        emergencyLocation.longitude,
+        20
+      );
 
       // Handle null response or empty array
       if (!data || (Array.isArray(data) && data.length === 0)) {
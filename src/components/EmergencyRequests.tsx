@@ -1,6 +1,6 @@
 import React, { useState } from 'react';
 import { Button } from '@chakra-ui/react';
-import { supabase } from '../lib/supabaseClient';
+import { updateDonationSchedule } from '../lib/repositories/donationSchedules';
 import { useToast } from '@chakra-ui/react';
 
 const EmergencyRequests = () => {
@@ -10,16 +10,11 @@ const EmergencyRequests = () => {
 
   const handleCancel = async (scheduleId: string) => {
     try {
-      const { error } = await supabase
-        .from('donation_schedules')
-        .update({
-          status: 'cancelled',
-          cancelled_at: new Date().toISOString(),
-          cancelled_by: user?.id
-        })
-        .eq('id', scheduleId);
-
-      if (error) throw error;
+      await updateDonationSchedule(scheduleId, {
+        status: 'cancelled',
+        cancelled_at: new Date().toISOString(),
+        cancelled_by: user?.id
+      });
 
       toast({
         title: 'Success',
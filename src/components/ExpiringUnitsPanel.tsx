@@ -0,0 +1,124 @@
+import { useState, useEffect } from 'react';
+import { AlertTriangle, Trash2 } from 'lucide-react';
+import { differenceInCalendarDays, format, parseISO, subDays } from 'date-fns';
+import toast from 'react-hot-toast';
+import { EXPIRY_ALERT_DAYS, getComponentLabel } from '../lib/bloodComponents';
+import {
+  countDiscardedUnits,
+  discardBloodUnit,
+  listExpiringUnits,
+  type BloodUnitRow,
+} from '../lib/repositories/bloodUnits';
+
+interface ExpiringUnitsPanelProps {
+  bloodBankId: string;
+}
+
+export function ExpiringUnitsPanel({ bloodBankId }: ExpiringUnitsPanelProps) {
+  const [units, setUnits] = useState<BloodUnitRow[]>([]);
+  const [discardedCount, setDiscardedCount] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [discarding, setDiscarding] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetchExpiringUnits();
+  }, [bloodBankId]);
+
+  const fetchExpiringUnits = async () => {
+    try {
+      const [expiring, discarded] = await Promise.all([
+        listExpiringUnits(bloodBankId, EXPIRY_ALERT_DAYS),
+        countDiscardedUnits(bloodBankId, subDays(new Date(), 30)),
+      ]);
+      setUnits(expiring);
+      setDiscardedCount(discarded);
+    } catch (error) {
+      console.error('Error fetching expiring units:', error);
+      toast.error('Failed to load expiring units');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDiscard = async (unit: BloodUnitRow) => {
+    try {
+      setDiscarding(unit.id);
+      await discardBloodUnit(unit.id, 'Expired');
+      toast.success(`Bag ${unit.bag_id} discarded`);
+      fetchExpiringUnits();
+    } catch (error) {
+      console.error('Error discarding blood unit:', error);
+      toast.error('Failed to discard blood unit');
+    } finally {
+      setDiscarding(null);
+    }
+  };
+
+  if (loading) return null;
+
+  const today = new Date();
+  const expired = units.filter((unit) => differenceInCalendarDays(parseISO(unit.expiry_date), today) < 0);
+  const expiringSoon = units.filter((unit) => !expired.includes(unit));
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <div className="flex items-center justify-between mb-4">
+        <div className="flex items-center">
+          <AlertTriangle className="h-6 w-6 text-orange-500 mr-2" />
+          <h2 className="text-xl font-semibold text-gray-900">Stock Near Expiry</h2>
+        </div>
+        <span className="text-sm text-gray-500">
+          {discardedCount} unit{discardedCount !== 1 && 's'} wasted in the last 30 days
+        </span>
+      </div>
+
+      {units.length === 0 ? (
+        <p className="text-gray-500">
+          No units expire in the next {EXPIRY_ALERT_DAYS} days
+        </p>
+      ) : (
+        <div className="space-y-2">
+          {expired.map((unit) => (
+            <div
+              key={unit.id}
+              className="flex items-center justify-between bg-red-50 border border-red-200 rounded-lg p-3 text-sm"
+            >
+              <span>
+                <span className="font-medium">Bag {unit.bag_id}</span> — {unit.blood_type}{' '}
+                {getComponentLabel(unit.component_type)}
+                <span className="text-red-600 ml-2">
+                  Expired {format(parseISO(unit.expiry_date), 'PP')}
+                </span>
+              </span>
+              <button
+                onClick={() => handleDiscard(unit)}
+                disabled={discarding === unit.id}
+                className="flex items-center text-red-600 hover:text-red-700 disabled:opacity-50"
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Discard
+              </button>
+            </div>
+          ))}
+          {expiringSoon.map((unit) => {
+            const daysLeft = differenceInCalendarDays(parseISO(unit.expiry_date), today);
+            return (
+              <div
+                key={unit.id}
+                className="flex items-center justify-between bg-orange-50 border border-orange-200 rounded-lg p-3 text-sm"
+              >
+                <span>
+                  <span className="font-medium">Bag {unit.bag_id}</span> — {unit.blood_type}{' '}
+                  {getComponentLabel(unit.component_type)}
+                </span>
+                <span className="text-orange-700">
+                  {daysLeft === 0 ? 'Expires today' : `Expires in ${daysLeft} day${daysLeft !== 1 ? 's' : ''}`}
+                </span>
+              </div>
+            );
+          })}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -11,6 +11,7 @@ export interface FormFieldProps {
   required?: boolean;
   icon?: React.ReactNode;
   placeholder?: string;
+  options?: { value: string; label: string }[];
 }
 
 export function FormField({
@@ -21,7 +22,8 @@ export function FormField({
   type = 'text',
   required = false,
   icon,
-  placeholder
+  placeholder,
+  options = []
 }: FormFieldProps) {
   return (
     <div className="space-y-1">
@@ -44,6 +46,21 @@ export function FormField({
             }`}
             placeholder={placeholder}
           />
+        ) : type === 'select' ? (
+          <select
+            id={name}
+            {...register(name)}
+            className={`block w-full rounded-md border-gray-300 shadow-sm focus:border-red-500 focus:ring-red-500 sm:text-sm ${
+              icon ? 'pl-10' : ''
+            }`}
+          >
+            <option value="">{placeholder || `Select ${label.toLowerCase()}`}</option>
+            {options.map((option) => (
+              <option key={option.value} value={option.value}>
+                {option.label}
+              </option>
+            ))}
+          </select>
         ) : (
           <input
             type={type}
@@ -0,0 +1,39 @@
+import { getFulfilmentProgress, type FulfilmentTotals } from '../lib/requestFulfilment';
+
+interface FulfilmentProgressBarProps {
+  request: FulfilmentTotals;
+}
+
+export function FulfilmentProgressBar({ request }: FulfilmentProgressBarProps) {
+  const progress = getFulfilmentProgress(request);
+
+  return (
+    <div>
+      <div className="flex h-2.5 w-full overflow-hidden rounded-full bg-gray-200">
+        <div className="bg-green-500" style={{ width: `${progress.collectedPercent}%` }} />
+        <div
+          className="bg-yellow-400"
+          style={{ width: `${progress.pledgedPercent - progress.collectedPercent}%` }}
+        />
+      </div>
+      <div className="mt-1 flex flex-wrap gap-x-4 text-sm text-gray-600">
+        <span>
+          <span className="font-medium text-green-700">{progress.collected}</span> of{' '}
+          {progress.required} units collected
+        </span>
+        <span>
+          <span className="font-medium text-yellow-700">{progress.pledged}</span> pledged
+        </span>
+        <span>
+          {progress.stillNeeded > 0 ? (
+            <>
+              <span className="font-medium text-red-600">{progress.stillNeeded}</span> still needed
+            </>
+          ) : (
+            'Fully pledged'
+          )}
+        </span>
+      </div>
+    </div>
+  );
+}
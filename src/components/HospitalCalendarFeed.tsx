@@ -0,0 +1,139 @@
+import { useState } from 'react';
+import { CalendarPlus, Copy, Download, Link2, Loader2, RefreshCw } from 'lucide-react';
+import { format } from 'date-fns';
+import toast from 'react-hot-toast';
+import {
+  buildHospitalCalendar,
+  downloadCalendarFile,
+  type HospitalBooking,
+} from '../lib/calendarExport';
+import {
+  getHospitalCalendarFeedToken,
+  getHospitalCalendarFeedUrl,
+} from '../lib/repositories/hospitalCalendarFeeds';
+import type { HospitalRow } from '../lib/repositories/hospitals';
+
+interface HospitalCalendarFeedProps {
+  hospital: HospitalRow;
+  bookings: HospitalBooking[];
+}
+
+export function HospitalCalendarFeed({ hospital, bookings }: HospitalCalendarFeedProps) {
+  const [feedUrl, setFeedUrl] = useState<string | null>(null);
+  const [loading, setLoading] = useState(false);
+
+  const loadFeedUrl = async (reset = false) => {
+    setLoading(true);
+    try {
+      setFeedUrl(getHospitalCalendarFeedUrl(await getHospitalCalendarFeedToken(hospital.id, reset)));
+      if (reset) toast.success('Feed link replaced. Update it in your calendars.');
+    } catch (error) {
+      console.error('Error loading calendar feed:', error);
+      toast.error('Failed to load calendar feed');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReset = () => {
+    if (
+      window.confirm(
+        'Calendars subscribed to the current link will stop updating. Create a new link?'
+      )
+    ) {
+      loadFeedUrl(true);
+    }
+  };
+
+  const handleCopy = async () => {
+    if (!feedUrl) return;
+    try {
+      await navigator.clipboard.writeText(feedUrl);
+      toast.success('Feed link copied');
+    } catch (error) {
+      console.error('Error copying feed link:', error);
+      toast.error('Failed to copy feed link');
+    }
+  };
+
+  const handleDownload = () => {
+    downloadCalendarFile(
+      `donations-${format(new Date(), 'yyyy-MM-dd')}.ics`,
+      buildHospitalCalendar(bookings, hospital)
+    );
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-4 mb-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex items-center">
+          <CalendarPlus className="h-5 w-5 mr-2 text-red-500" />
+          <h3 className="font-medium text-gray-900">Staff calendar</h3>
+        </div>
+        <div className="flex gap-2">
+          <button
+            onClick={handleDownload}
+            disabled={bookings.length === 0}
+            className="inline-flex items-center px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+          >
+            <Download className="h-4 w-4 mr-1" />
+            Download .ics
+          </button>
+          {!feedUrl && (
+            <button
+              onClick={() => loadFeedUrl()}
+              disabled={loading}
+              className="inline-flex items-center px-3 py-1.5 text-sm border border-gray-300 rounded-md text-gray-700 hover:bg-gray-50 disabled:opacity-50"
+            >
+              {loading ? (
+                <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+              ) : (
+                <Link2 className="h-4 w-4 mr-1" />
+              )}
+              Get feed link
+            </button>
+          )}
+        </div>
+      </div>
+
+      {feedUrl && (
+        <div className="mt-3">
+          <p className="text-sm text-gray-600 mb-2">
+            Subscribe to this link in Google Calendar, Outlook or Apple Calendar to see bookings
+            as they are made. Anyone with the link can see donor names, so share it only with
+            staff.
+          </p>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              readOnly
+              value={feedUrl}
+              onFocus={(e) => e.target.select()}
+              className="flex-1 rounded-md border border-gray-300 px-3 py-1.5 text-sm text-gray-700"
+            />
+            <button
+              onClick={handleCopy}
+              className="inline-flex items-center px-3 py-1.5 text-sm bg-red-500 text-white rounded-md hover:bg-red-600"
+            >
+              <Copy className="h-4 w-4 mr-1" />
+              Copy
+            </button>
+          </div>
+          <div className="flex gap-4 mt-2 text-sm">
+            <a href={feedUrl.replace(/^https?:/, 'webcal:')} className="text-red-600 hover:text-red-700">
+              Open in calendar app
+            </a>
+            <button
+              onClick={handleReset}
+              disabled={loading}
+              className="inline-flex items-center text-gray-600 hover:text-gray-800 disabled:opacity-50"
+            >
+              <RefreshCw className="h-3.5 w-3.5 mr-1" />
+              Replace link
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
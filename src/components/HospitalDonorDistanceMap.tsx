@@ -28,6 +28,7 @@ export function HospitalDonorDistanceMap({
   const [isLoading, setIsLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [hospitalLocation, setHospitalLocation] = useState<{lat: number; lng: number} | null>(null);
+  const [locationIsApproximate, setLocationIsApproximate] = useState(false);
   const [donorDistances, setDonorDistances] = useState<Record<string, number>>({});
 
   // Geocode hospital address to get coordinates
@@ -53,6 +54,7 @@ export function HospitalDonorDistanceMap({
           lat: result.latitude,
           lng: result.longitude
         });
+        setLocationIsApproximate(result.lowConfidence);
       } catch (error) {
         console.error('Error geocoding hospital address:', error);
         setError('Failed to get hospital location');
@@ -120,7 +122,7 @@ export function HospitalDonorDistanceMap({
 
         // Initialize OlaMaps with API key
         const olaMaps = new OlaMaps({
-          apiKey: OLA_MAPS_CONFIG.apiKey,
+          apiKey: OLA_MAPS_CONFIG.tilesApiKey,
           mode: '2d'
         });
 
@@ -351,6 +353,11 @@ export function HospitalDonorDistanceMap({
         This map shows the distance between the hospital and potential blood donors.
         <span className="ml-1 font-medium">Red marker</span> indicates the hospital location, and the colored lines show the route to each donor.
       </p>
+      {locationIsApproximate && (
+        <p className="text-sm text-yellow-700 bg-yellow-50 border border-yellow-200 rounded-md px-3 py-2">
+          The hospital address could only be located approximately, so distances may be off.
+        </p>
+      )}
       
       <div className="relative w-full h-[400px]">
         {isLoading && (
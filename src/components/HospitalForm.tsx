@@ -6,8 +6,11 @@ import { hospitalSchema, type HospitalFormData } from '../lib/validation';
 import { FormField } from './FormField';
 import { FileUpload } from './FileUpload';
 import toast from 'react-hot-toast';
-import { supabase } from '../lib/supabase';
+import { isUniqueViolation } from '../lib/supabase';
+import { createHospital } from '../lib/repositories/hospitals';
 import { getCurrentLocation } from '../lib/geolocation';
+import { getBrowserTimeZone, timeZoneOptions } from '../lib/dateUtils';
+import { geocodeAddress } from '../services/geocodingService';
 
 interface HospitalFormProps {
   onComplete?: () => void;
@@ -19,6 +22,7 @@ export function HospitalForm({ onComplete, userId }: HospitalFormProps) {
   const [licenseDocPath, setLicenseDocPath] = useState<string>('');
   const [fileUploadError, setFileUploadError] = useState<string | null>(null);
   const [isLocationLoading, setIsLocationLoading] = useState(true);
+  const [hasDeviceLocation, setHasDeviceLocation] = useState(false);
 
   const {
     register,
@@ -28,6 +32,7 @@ export function HospitalForm({ onComplete, userId }: HospitalFormProps) {
     reset,
   } = useForm<HospitalFormData>({
     resolver: zodResolver(hospitalSchema),
+    defaultValues: { timezone: getBrowserTimeZone() },
   });
 
   useEffect(() => {
@@ -37,12 +42,13 @@ export function HospitalForm({ onComplete, userId }: HospitalFormProps) {
       .then((position) => {
         setValue('latitude', position.coords.latitude);
         setValue('longitude', position.coords.longitude);
+        setHasDeviceLocation(true);
         setIsLocationLoading(false);
       })
       .catch((error) => {
         console.error('Error getting location:', error);
         setIsLocationLoading(false);
-        toast.error('Unable to get your location. Please enter it manually.');
+        toast.error("Unable to get your location. We'll locate your hospital from its address.");
       });
   }, [setValue]);
 
@@ -67,10 +73,23 @@ export function HospitalForm({ onComplete, userId }: HospitalFormProps) {
         return;
       }
 
+      // Without the device location, find the hospital from its address; this
+      // works offline from the bundled gazetteer
+      let { latitude, longitude } = data;
+      if (latitude === undefined || longitude === undefined) {
+        const located = await geocodeAddress(data.address);
+        if (located) {
+          latitude = located.latitude;
+          longitude = located.longitude;
+          if (located.lowConfidence) {
+            toast('We could only place your hospital approximately from its address.');
+          }
+        }
+      }
+
       // Create hospital profile
-      const { error: hospitalError, data: hospital } = await supabase
-        .from('hospitals')
-        .insert({
+      try {
+        await createHospital({
           user_id: userId,
           name: data.name,
           address: data.address,
@@ -78,22 +97,17 @@ export function HospitalForm({ onComplete, userId }: HospitalFormProps) {
           email: data.email,
           website: data.website,
           operating_hours: data.operating_hours,
+          timezone: data.timezone,
           registration_number: data.registration_number,
           license_document_url: licenseDocUrl,
           license_document_path: licenseDocPath,
           is_license_verified: false,
-          latitude: data.latitude,
-          longitude: data.longitude
-        })
-        .select()
-        .single();
-
-      if (hospitalError) {
-        if (hospitalError.code === '23505') {
-          toast.error('This hospital is already registered');
-        } else {
-          throw hospitalError;
-        }
+          latitude,
+          longitude
+        });
+      } catch (hospitalError) {
+        if (!isUniqueViolation(hospitalError)) throw hospitalError;
+        toast.error('This hospital is already registered');
         return;
       }
 
@@ -157,6 +171,16 @@ export function HospitalForm({ onComplete, userId }: HospitalFormProps) {
           icon={<Clock className="h-5 w-5 text-gray-400" />}
           placeholder="e.g., Mon-Fri: 9AM-5PM, Sat: 9AM-1PM"
         />
+        <FormField
+          label="Time Zone"
+          name="timezone"
+          register={register}
+          error={errors.timezone}
+          type="select"
+          options={timeZoneOptions()}
+          icon={<Globe className="h-5 w-5 text-gray-400" />}
+          required
+        />
         <div className="md:col-span-2">
           <FormField
             label="Address"
@@ -202,10 +226,14 @@ export function HospitalForm({ onComplete, userId }: HospitalFormProps) {
             </h3>
             {isLocationLoading ? (
               <p className="text-sm text-gray-600">Getting your location...</p>
-            ) : (
+            ) : hasDeviceLocation ? (
               <p className="text-sm text-gray-600">
                 Your location has been automatically captured. This helps donors find your hospital easily.
               </p>
+            ) : (
+              <p className="text-sm text-gray-600">
+                Your hospital will be located from the address above when you register.
+              </p>
             )}
           </div>
         </div>
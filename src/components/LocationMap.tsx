@@ -2,6 +2,7 @@ import React, { useEffect, useRef, useState } from 'react';
 import { OlaMaps } from 'olamaps-web-sdk';
 import { OLA_MAPS_CONFIG, validateOlaMapsConfig } from '../config/olaMaps';
 import { supabase } from '../lib/supabase';
+import { upsertUserLocation } from '../lib/repositories/userLocations';
 
 interface LocationMapProps {
   onLocationSelect?: (location: { lat: number; lng: number }) => void;
@@ -133,20 +134,7 @@ const LocationMap: React.FC<LocationMapProps> = ({
       }
 
       // Update user's location in the database
-      const { data, error } = await supabase
-        .from('user_locations')
-        .upsert({
-          user_id: userId,
-          latitude,
-          longitude,
-          last_updated: new Date().toISOString()
-        }, {
-          onConflict: 'user_id'
-        });
-
-      if (error) {
-        throw error;
-      }
+      await upsertUserLocation({ user_id: userId, latitude, longitude });
 
       console.log('Location updated in database:', { latitude, longitude });
     } catch (err) {
@@ -162,6 +150,12 @@ const LocationMap: React.FC<LocationMapProps> = ({
       return;
     }
 
+    if (!validateOlaMapsConfig()) {
+      setError('OLA Maps configuration is invalid. Please check your environment variables.');
+      setIsLoading(false);
+      return;
+    }
+
     try {
       setIsLoading(true);
       setError(null);
@@ -184,7 +178,7 @@ const LocationMap: React.FC<LocationMapProps> = ({
 
       // Initialize OlaMaps with minimal configuration
       const olaMaps = new OlaMaps({
-        apiKey: OLA_MAPS_CONFIG.apiKey,
+        apiKey: OLA_MAPS_CONFIG.tilesApiKey,
         mode: '2d'
       });
 
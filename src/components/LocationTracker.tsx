@@ -1,5 +1,5 @@
 import React, { useEffect, useState } from 'react';
-import { supabase } from '../lib/supabase';
+import { upsertUserLocation } from '../lib/repositories/userLocations';
 import { useAuth } from '../contexts/AuthContext';
 import toast from 'react-hot-toast';
 
@@ -46,39 +46,13 @@ export function LocationTracker({ bloodType, onLocationUpdate }: LocationTracker
         const { latitude, longitude } = position.coords;
         
         try {
-          // Check if user already has a location record
-          const { data: existingLocation } = await supabase
-            .from('user_locations')
-            .select('id')
-            .eq('user_id', user.id)
-            .single();
-
-          if (existingLocation) {
-            // Update existing location
-            const { error } = await supabase
-              .from('user_locations')
-              .update({
-                latitude,
-                longitude,
-                last_updated: new Date().toISOString(),
-              })
-              .eq('user_id', user.id);
-
-            if (error) throw error;
-          } else {
-            // Insert new location
-            const { error } = await supabase
-              .from('user_locations')
-              .insert({
-                user_id: user.id,
-                blood_type: bloodType,
-                latitude,
-                longitude,
-                is_available: true,
-              });
-
-            if (error) throw error;
-          }
+          // A new record starts available; an existing one keeps its availability
+          await upsertUserLocation({
+            user_id: user.id,
+            blood_type: bloodType,
+            latitude,
+            longitude,
+          });
 
           onLocationUpdate?.({ latitude, longitude });
         } catch (error) {
@@ -1,5 +1,5 @@
 import { useEffect } from 'react';
-import { supabase } from '../lib/supabase';
+import { upsertUserLocation } from '../lib/repositories/userLocations';
 import { useAuth } from '../contexts/AuthContext';
 import toast from 'react-hot-toast';
 
@@ -15,38 +15,14 @@ export function LocationUpdater({ bloodType }: LocationUpdaterProps) {
 
     const updateLocation = async (position: GeolocationPosition) => {
       try {
-        // Check if user already has a location entry
-        const { data: existingLocation } = await supabase
-          .from('user_locations')
-          .select('id')
-          .eq('user_id', user.id)
-          .single();
-
-        const locationData = {
+        await upsertUserLocation({
           user_id: user.id,
           blood_type: bloodType,
           latitude: position.coords.latitude,
           longitude: position.coords.longitude,
           is_available: true,
           updated_at: new Date().toISOString(),
-        };
-
-        if (existingLocation) {
-          // Update existing location
-          const { error } = await supabase
-            .from('user_locations')
-            .update(locationData)
-            .eq('id', existingLocation.id);
-
-          if (error) throw error;
-        } else {
-          // Insert new location
-          const { error } = await supabase
-            .from('user_locations')
-            .insert([locationData]);
-
-          if (error) throw error;
-        }
+        });
 
         console.log('Location updated successfully');
       } catch (error) {
@@ -0,0 +1,150 @@
+import { useEffect, useState } from 'react';
+import { Loader2, UserX } from 'lucide-react';
+import { subDays } from 'date-fns';
+import toast from 'react-hot-toast';
+import { FREQUENT_NO_SHOW, summarizeNoShows, type NoShowSummary } from '../lib/noShows';
+import { getNoShowStats } from '../lib/repositories/hospitalDonations';
+
+interface NoShowReportProps {
+  hospitalId: string;
+}
+
+const PERIODS = [
+  { days: 90, label: 'Last 90 days' },
+  { days: 365, label: 'Last 12 months' },
+  { days: 730, label: 'Last 2 years' },
+];
+
+const formatRate = (rate: number | null) => (rate === null ? '—' : `${rate}%`);
+
+export function NoShowReport({ hospitalId }: NoShowReportProps) {
+  const [periodDays, setPeriodDays] = useState(90);
+  const [summary, setSummary] = useState<NoShowSummary | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchStats();
+  }, [hospitalId, periodDays]);
+
+  const fetchStats = async () => {
+    setLoading(true);
+    try {
+      setSummary(summarizeNoShows(await getNoShowStats(hospitalId, subDays(new Date(), periodDays))));
+    } catch (error) {
+      console.error('Error fetching no-show stats:', error);
+      toast.error('Failed to load no-show rates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <>
+      <div className="mb-4">
+        <h2 className="text-xl font-semibold text-gray-900 mb-4 flex items-center">
+          <UserX className="h-6 w-6 mr-2 text-red-500" />
+          No-Shows
+        </h2>
+        <p className="text-gray-600 mb-4">
+          Bookings are marked as no-shows when they are not verified by the day after the
+          appointment. Donor rates cover their bookings at every facility.
+        </p>
+      </div>
+
+      <div className="mb-4">
+        <select
+          value={periodDays}
+          onChange={(e) => setPeriodDays(Number(e.target.value))}
+          className="rounded-md border-gray-300 shadow-sm focus:border-red-500 focus:ring-red-500"
+        >
+          {PERIODS.map((period) => (
+            <option key={period.days} value={period.days}>
+              {period.label}
+            </option>
+          ))}
+        </select>
+      </div>
+
+      {loading || !summary ? (
+        <div className="flex justify-center p-8">
+          <Loader2 className="h-8 w-8 text-red-500 animate-spin" />
+        </div>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            <div className="border border-gray-200 rounded-lg p-4">
+              <p className="text-sm text-gray-500">No-show rate at your hospital</p>
+              <p className="text-2xl font-bold text-gray-900">
+                {formatRate(summary.facility.rate)}
+              </p>
+            </div>
+            <div className="border border-gray-200 rounded-lg p-4">
+              <p className="text-sm text-gray-500">Missed appointments</p>
+              <p className="text-2xl font-bold text-gray-900">{summary.facility.noShows}</p>
+              <p className="text-xs text-gray-500">of {summary.facility.bookings} past bookings</p>
+            </div>
+            <div className="border border-gray-200 rounded-lg p-4">
+              <p className="text-sm text-gray-500">Frequent no-show donors</p>
+              <p className="text-2xl font-bold text-gray-900">
+                {summary.donors.filter((donor) => donor.frequent).length}
+              </p>
+              <p className="text-xs text-gray-500">
+                {FREQUENT_NO_SHOW.rate}% or more of {FREQUENT_NO_SHOW.minBookings}+ bookings
+              </p>
+            </div>
+          </div>
+
+          {summary.donors.length === 0 ? (
+            <div className="border border-gray-200 rounded-lg p-8 text-center">
+              <p className="text-gray-500">No past bookings in this period.</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <table className="min-w-full divide-y divide-gray-200">
+                <thead className="bg-gray-50">
+                  <tr>
+                    {['Donor', 'Blood Type', 'At Your Hospital', 'Overall', 'Rate'].map(
+                      (heading) => (
+                        <th
+                          key={heading}
+                          className="px-4 py-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider"
+                        >
+                          {heading}
+                        </th>
+                      )
+                    )}
+                  </tr>
+                </thead>
+                <tbody className="bg-white divide-y divide-gray-200">
+                  {summary.donors.map((donor) => (
+                    <tr key={donor.donor_id}>
+                      <td className="px-4 py-3 text-sm text-gray-900">{donor.donor_name}</td>
+                      <td className="px-4 py-3 text-sm text-gray-700">{donor.blood_type || '—'}</td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {donor.hospital_no_shows} of {donor.hospital_bookings} missed
+                      </td>
+                      <td className="px-4 py-3 text-sm text-gray-700">
+                        {donor.no_shows} of {donor.bookings} missed
+                      </td>
+                      <td className="px-4 py-3 text-sm">
+                        <span
+                          className={`px-2 py-1 text-xs font-medium rounded-full ${
+                            donor.frequent
+                              ? 'bg-red-100 text-red-800'
+                              : 'bg-gray-100 text-gray-800'
+                          }`}
+                        >
+                          {formatRate(donor.rate)}
+                        </span>
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+        </>
+      )}
+    </>
+  );
+}
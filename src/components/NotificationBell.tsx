@@ -1,9 +1,12 @@
 // src/components/NotificationBell.tsx
 
-import React, { useState, useEffect } from 'react';
+import { useState, useEffect } from 'react';
 import { Bell } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { Link } from 'react-router-dom';
 import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { subscribeToNotifications } from '../lib/notifications';
+import { listNotifications, markNotificationRead } from '../lib/repositories/notifications';
 
 interface Notification {
   id: string;
@@ -23,84 +26,43 @@ interface NotificationBellProps {
 export function NotificationBell({
   onNotificationClick,
 }: NotificationBellProps) {
+  const { user } = useAuth();
   const [notifications, setNotifications] = useState<Notification[]>([]);
   const [showDropdown, setShowDropdown] = useState(false);
-  const [unreadCount, setUnreadCount] = useState(0);
   const [error, setError] = useState<string | null>(null);
 
+  const unreadCount = notifications.filter((n) => n.read === false).length;
+
   useEffect(() => {
-    fetchNotifications();
-    const subscription = supabase
-      .channel('notifications')
-      .on(
-        'postgres_changes',
-        {
-          event: 'INSERT',
-          schema: 'public',
-          table: 'notifications',
-        },
-        (payload) => {
+    if (!user) return;
+
+    fetchNotifications(user.id);
+
+    return subscribeToNotifications(
+      user.id,
+      (payload) => {
+        if (payload.eventType === 'INSERT') {
           const newNotification = payload.new as Notification;
-          setNotifications((prev) => [newNotification, ...prev]);
-          setUnreadCount((prev) => prev + 1);
+          setNotifications((prev) =>
+            prev.some((n) => n.id === newNotification.id) ? prev : [newNotification, ...prev]
+          );
           if (newNotification.message) {
             toast.success(newNotification.message);
           }
+        } else if (payload.eventType === 'UPDATE') {
+          const updated = payload.new as Notification;
+          setNotifications((prev) => prev.map((n) => (n.id === updated.id ? updated : n)));
         }
-      )
-      .subscribe();
+      },
+      // Anything missed while offline or in a background tab is picked up by refetching
+      { onResync: () => fetchNotifications(user.id) }
+    );
+  }, [user]);
 
-    return () => {
-      subscription.unsubscribe();
-    };
-  }, []);
-
-  const fetchNotifications = async () => {
+  const fetchNotifications = async (userId: string) => {
     try {
       setError(null);
-      const {
-        data: { session },
-      } = await supabase.auth.getSession();
-      if (!session) return;
-
-      // First try with user_id column
-      try {
-        const { data, error } = await supabase
-          .from('notifications')
-          .select('*')
-          .eq('user_id', session.user.id)
-          .order('created_at', { ascending: false })
-          .limit(10);
-
-        if (error) throw error;
-
-        setNotifications(data || []);
-        setUnreadCount(data?.filter((n) => n.read === false).length || 0);
-      } catch (err: any) {
-        console.error('Error fetching notifications with user_id:', err);
-        setError(err.message || 'Failed to fetch notifications');
-        
-        // If error indicates column doesn't exist, try without the user_id filter
-        if (err.message && err.message.includes('column') && err.message.includes('does not exist')) {
-          try {
-            // Fall back to getting all notifications (not ideal but better than nothing)
-            const { data, error: fallbackError } = await supabase
-              .from('notifications')
-              .select('*')
-              .order('created_at', { ascending: false })
-              .limit(10);
-
-            if (fallbackError) throw fallbackError;
-
-            setNotifications(data || []);
-            setUnreadCount(data?.filter((n) => n.read === false).length || 0);
-            setError(null); // Clear error since we recovered
-          } catch (fallbackErr: any) {
-            console.error('Error fetching all notifications:', fallbackErr);
-            setError(fallbackErr.message || 'Failed to fetch notifications');
-          }
-        }
-      }
+      setNotifications(await listNotifications(userId));
     } catch (error: any) {
       console.error('Error fetching notifications:', error);
       setError(error.message || 'Failed to fetch notifications');
@@ -109,17 +71,10 @@ export function NotificationBell({
 
   const markAsRead = async (notificationId: string) => {
     try {
-      const { error } = await supabase
-        .from('notifications')
-        .update({ read: true })
-        .eq('id', notificationId);
-
-      if (error) throw error;
-
+      await markNotificationRead(notificationId);
       setNotifications((prev) =>
         prev.map((n) => (n.id === notificationId ? { ...n, read: true } : n))
       );
-      setUnreadCount((prev) => Math.max(0, prev - 1));
     } catch (error: any) {
       console.error('Error marking notification as read:', error);
       toast.error('Failed to mark notification as read');
@@ -221,6 +176,24 @@ export function NotificationBell({
                         </p>
                       </div>
                     )}
+                    {notification.type === 'slot_reminder' && notification.data?.response_token && (
+                      <div className="mt-2 flex gap-3 text-sm">
+                        <Link
+                          to={`/appointment/${notification.data.response_token}?action=confirm`}
+                          onClick={(e) => e.stopPropagation()}
+                          className="text-red-600 hover:text-red-700 font-medium"
+                        >
+                          Confirm
+                        </Link>
+                        <Link
+                          to={`/appointment/${notification.data.response_token}`}
+                          onClick={(e) => e.stopPropagation()}
+                          className="text-gray-600 hover:text-gray-700"
+                        >
+                          Cancel
+                        </Link>
+                      </div>
+                    )}
                   </div>
                   <span className="text-xs text-gray-500">
                     {formatTimeAgo(notification.created_at)}
@@ -0,0 +1,215 @@
+import { useEffect, useState } from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { Bell, ChevronDown, ChevronUp } from 'lucide-react';
+import toast from 'react-hot-toast';
+import {
+  notificationPreferencesSchema,
+  type NotificationPreferencesFormData,
+} from '../lib/validation';
+import { NOTIFICATION_TEMPLATES, type NotificationEvent } from '../lib/notificationTemplates';
+import {
+  getNotificationPreferences,
+  saveNotificationPreferences,
+} from '../lib/repositories/notificationPreferences';
+
+interface NotificationPreferencesFormProps {
+  userId: string;
+}
+
+const EVENTS = Object.keys(NOTIFICATION_TEMPLATES) as NotificationEvent[];
+
+const inputClass =
+  'w-full mt-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500';
+
+export function NotificationPreferencesForm({ userId }: NotificationPreferencesFormProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  const {
+    register,
+    handleSubmit,
+    reset,
+    watch,
+    formState: { errors, isSubmitting },
+  } = useForm<NotificationPreferencesFormData>({
+    resolver: zodResolver(notificationPreferencesSchema),
+    defaultValues: {
+      in_app_enabled: true,
+      sms_enabled: false,
+      email_enabled: false,
+      muted_events: [],
+    },
+  });
+
+  const smsEnabled = watch('sms_enabled');
+  const emailEnabled = watch('email_enabled');
+
+  useEffect(() => {
+    fetchPreferences();
+  }, [userId]);
+
+  const fetchPreferences = async () => {
+    try {
+      const preferences = await getNotificationPreferences(userId);
+      if (preferences) {
+        reset({
+          in_app_enabled: preferences.in_app_enabled,
+          sms_enabled: preferences.sms_enabled,
+          email_enabled: preferences.email_enabled,
+          phone: preferences.phone ?? '',
+          email: preferences.email ?? '',
+          muted_events: preferences.muted_events,
+          quiet_hours_start: preferences.quiet_hours_start?.slice(0, 5) ?? '',
+          quiet_hours_end: preferences.quiet_hours_end?.slice(0, 5) ?? '',
+        });
+      }
+    } catch (error) {
+      console.error('Error fetching notification preferences:', error);
+      toast.error('Failed to load notification preferences');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const onSubmit = async (data: NotificationPreferencesFormData) => {
+    try {
+      await saveNotificationPreferences({
+        user_id: userId,
+        in_app_enabled: data.in_app_enabled,
+        sms_enabled: data.sms_enabled,
+        email_enabled: data.email_enabled,
+        phone: data.phone || null,
+        email: data.email || null,
+        muted_events: data.muted_events,
+        quiet_hours_start: data.quiet_hours_start || null,
+        quiet_hours_end: data.quiet_hours_end || null,
+        timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      });
+      toast.success('Notification preferences saved');
+    } catch (error) {
+      console.error('Error saving notification preferences:', error);
+      toast.error('Failed to save notification preferences');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-lg shadow-md p-6 mb-8">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="w-full flex items-center justify-between"
+      >
+        <div className="flex items-center">
+          <Bell className="h-6 w-6 text-red-500 mr-2" />
+          <h2 className="text-xl font-bold text-gray-900">Notification Preferences</h2>
+        </div>
+        {expanded ? (
+          <ChevronUp className="h-5 w-5 text-gray-500" />
+        ) : (
+          <ChevronDown className="h-5 w-5 text-gray-500" />
+        )}
+      </button>
+
+      {expanded && !loading && (
+        <form onSubmit={handleSubmit(onSubmit)} className="mt-6 space-y-6">
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">Channels</h3>
+            <div className="space-y-3">
+              <label className="flex items-center text-sm text-gray-700">
+                <input type="checkbox" {...register('in_app_enabled')} className="mr-2 text-red-500" />
+                In-app notifications
+              </label>
+              <div>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input type="checkbox" {...register('sms_enabled')} className="mr-2 text-red-500" />
+                  SMS
+                </label>
+                {smsEnabled && (
+                  <div className="ml-6 max-w-sm">
+                    <input
+                      type="tel"
+                      placeholder="Phone number"
+                      {...register('phone')}
+                      className={inputClass}
+                    />
+                    {errors.phone && (
+                      <p className="mt-1 text-sm text-red-500">{errors.phone.message}</p>
+                    )}
+                  </div>
+                )}
+              </div>
+              <div>
+                <label className="flex items-center text-sm text-gray-700">
+                  <input type="checkbox" {...register('email_enabled')} className="mr-2 text-red-500" />
+                  Email
+                </label>
+                {emailEnabled && (
+                  <div className="ml-6 max-w-sm">
+                    <input
+                      type="email"
+                      placeholder="Email address"
+                      {...register('email')}
+                      className={inputClass}
+                    />
+                    {errors.email && (
+                      <p className="mt-1 text-sm text-red-500">{errors.email.message}</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900">Quiet Hours</h3>
+            <p className="text-sm text-gray-500 mb-2">
+              No SMS or email during these hours, except for urgent requests nearby. In-app
+              notifications still arrive silently.
+            </p>
+            <div className="grid grid-cols-2 gap-4 max-w-sm">
+              <div>
+                <label className="block text-sm font-medium text-gray-700">From</label>
+                <input type="time" {...register('quiet_hours_start')} className={inputClass} />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700">Until</label>
+                <input type="time" {...register('quiet_hours_end')} className={inputClass} />
+              </div>
+            </div>
+            {errors.quiet_hours_end && (
+              <p className="mt-1 text-sm text-red-500">{errors.quiet_hours_end.message}</p>
+            )}
+          </div>
+
+          <div>
+            <h3 className="text-sm font-semibold text-gray-900 mb-2">Mute Notifications</h3>
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+              {EVENTS.map((event) => (
+                <label key={event} className="flex items-center text-sm text-gray-700">
+                  <input
+                    type="checkbox"
+                    value={event}
+                    {...register('muted_events')}
+                    className="mr-2 text-red-500"
+                  />
+                  {NOTIFICATION_TEMPLATES[event].title}
+                </label>
+              ))}
+            </div>
+          </div>
+
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              disabled={isSubmitting}
+              className="px-4 py-2 text-white bg-red-500 rounded-md hover:bg-red-600 disabled:opacity-50"
+            >
+              {isSubmitting ? 'Saving...' : 'Save Preferences'}
+            </button>
+          </div>
+        </form>
+      )}
+    </div>
+  );
+}
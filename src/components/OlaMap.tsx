@@ -1,6 +1,7 @@
 import React, { useEffect, useRef } from 'react';
 import type { OlaMapsMap, OlaMapsMarker } from '../types/ola-maps';
 import { OlaMaps } from 'olamaps-web-sdk';
+import { OLA_MAPS_CONFIG } from '../config/olaMaps';
 
 interface OlaMapProps {
   center: [number, number];
@@ -23,7 +24,7 @@ export function OlaMap({ center, zoom, markers, onMapLoad }: OlaMapProps) {
   useEffect(() => {
     // Initialize Ola Maps
     olaMapsInstance.current = new OlaMaps({
-      apiKey: import.meta.env.VITE_OLA_MAPS_API_KEY,
+      apiKey: OLA_MAPS_CONFIG.tilesApiKey,
       mode: '2d'
     });
 
@@ -4,6 +4,7 @@ import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { Building2, X } from 'lucide-react';
 import { supabase } from '../lib/supabase';
+import { createDonationCamp } from '../lib/repositories/donationCamps';
 import toast from 'react-hot-toast';
 import { FormField } from './FormField';
 
@@ -62,13 +63,11 @@ export function OrganizeCampForm({ onComplete, onClose }: OrganizeCampFormProps)
         return;
       }
 
-      const { error: campError } = await supabase.from('donation_camps').insert({
+      await createDonationCamp({
         organizer_id: sessionData.session.user.id,
         ...data,
       });
 
-      if (campError) throw campError;
-
       toast.success('Blood donation camp created successfully!');
       onComplete();
     } catch (error) {
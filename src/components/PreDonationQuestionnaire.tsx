@@ -0,0 +1,197 @@
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { format } from 'date-fns';
+import { ClipboardList, Loader2 } from 'lucide-react';
+import {
+  preDonationQuestionnaireSchema,
+  type PreDonationQuestionnaireData,
+} from '../lib/validation';
+import {
+  LAST_MEAL_LABELS,
+  LAST_MEAL_TIMES,
+  SCREENING_QUESTIONS,
+  type StoredPreDonationQuestionnaire,
+} from '../lib/preDonationQuestionnaire';
+import type { Json } from '../lib/database.types';
+
+interface PreDonationQuestionnaireFormProps {
+  defaultWeightKg?: number | null;
+  submitting?: boolean;
+  submitLabel?: string;
+  onBack: () => void;
+  onComplete: (answers: PreDonationQuestionnaireData) => void;
+}
+
+const inputClass =
+  'w-full mt-1 px-3 py-2 border border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500';
+
+export function PreDonationQuestionnaireForm({
+  defaultWeightKg,
+  submitting = false,
+  submitLabel = 'Confirm Booking',
+  onBack,
+  onComplete,
+}: PreDonationQuestionnaireFormProps) {
+  const {
+    register,
+    handleSubmit,
+    watch,
+    formState: { errors },
+  } = useForm<PreDonationQuestionnaireData>({
+    resolver: zodResolver(preDonationQuestionnaireSchema),
+    defaultValues: { weight_kg: defaultWeightKg ?? undefined },
+  });
+
+  return (
+    <form onSubmit={handleSubmit(onComplete)} className="space-y-6">
+      <div className="flex items-center">
+        <ClipboardList className="h-6 w-6 text-red-500 mr-2" />
+        <h3 className="text-lg font-semibold text-gray-900">Health Questionnaire</h3>
+      </div>
+      <p className="text-sm text-gray-600">
+        Your answers are checked against the donation rules and shared with the staff at your
+        appointment.
+      </p>
+
+      {SCREENING_QUESTIONS.map((question) => (
+        <div key={question.field}>
+          <p className="text-sm font-medium text-gray-700">{question.label}</p>
+          <div className="flex gap-6 mt-2">
+            {(['yes', 'no'] as const).map((answer) => (
+              <label key={answer} className="flex items-center text-sm text-gray-700">
+                <input
+                  type="radio"
+                  value={answer}
+                  {...register(question.field)}
+                  className="mr-2 text-red-500"
+                />
+                {answer === 'yes' ? 'Yes' : 'No'}
+              </label>
+            ))}
+          </div>
+          {errors[question.field] && (
+            <p className="mt-1 text-sm text-red-600">{errors[question.field]?.message}</p>
+          )}
+          {watch(question.field) === 'yes' && (
+            <>
+              <input
+                type="text"
+                placeholder="Please give details"
+                {...register(question.detailsField)}
+                className={inputClass}
+              />
+              {errors[question.detailsField] && (
+                <p className="mt-1 text-sm text-red-600">
+                  {errors[question.detailsField]?.message}
+                </p>
+              )}
+            </>
+          )}
+        </div>
+      ))}
+
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div>
+          <label htmlFor="weight_kg" className="block text-sm font-medium text-gray-700">
+            Weight (kg)
+          </label>
+          <input
+            id="weight_kg"
+            type="number"
+            step="0.1"
+            {...register('weight_kg')}
+            className={inputClass}
+          />
+          {errors.weight_kg && (
+            <p className="mt-1 text-sm text-red-600">{errors.weight_kg.message}</p>
+          )}
+        </div>
+        <div>
+          <label htmlFor="last_meal" className="block text-sm font-medium text-gray-700">
+            When did you last eat a meal?
+          </label>
+          <select id="last_meal" {...register('last_meal')} className={inputClass}>
+            <option value="">Select</option>
+            {LAST_MEAL_TIMES.map((time) => (
+              <option key={time} value={time}>
+                {LAST_MEAL_LABELS[time]}
+              </option>
+            ))}
+          </select>
+          {errors.last_meal && (
+            <p className="mt-1 text-sm text-red-600">{errors.last_meal.message}</p>
+          )}
+        </div>
+      </div>
+
+      <div className="flex justify-between pt-4">
+        <button
+          type="button"
+          onClick={onBack}
+          className="px-6 py-2 bg-gray-200 text-gray-700 rounded-md hover:bg-gray-300"
+        >
+          Back
+        </button>
+        <button
+          type="submit"
+          disabled={submitting}
+          className="px-6 py-2 text-white font-medium rounded-md bg-red-500 hover:bg-red-600 disabled:bg-gray-300 disabled:cursor-not-allowed"
+        >
+          {submitting ? (
+            <>
+              <Loader2 className="h-4 w-4 mr-2 inline animate-spin" />
+              Scheduling...
+            </>
+          ) : (
+            submitLabel
+          )}
+        </button>
+      </div>
+    </form>
+  );
+}
+
+interface PreDonationQuestionnaireSummaryProps {
+  questionnaire: Json | null | undefined;
+}
+
+/** The donor's answers as hospital staff see them */
+export function PreDonationQuestionnaireSummary({
+  questionnaire,
+}: PreDonationQuestionnaireSummaryProps) {
+  if (!questionnaire || typeof questionnaire !== 'object' || Array.isArray(questionnaire)) {
+    return <p className="text-sm text-gray-500">No health questionnaire on file</p>;
+  }
+
+  const answers = questionnaire as Partial<StoredPreDonationQuestionnaire>;
+  const flagged = SCREENING_QUESTIONS.filter((question) => answers[question.field] === 'yes');
+
+  return (
+    <div className="text-sm text-gray-600 space-y-1">
+      <p className="font-medium text-gray-700">
+        Health questionnaire
+        {answers.answered_at && ` (${format(new Date(answers.answered_at), 'MMM d, yyyy')})`}
+      </p>
+      {flagged.length === 0 ? (
+        <p className="text-green-700">No recent illness, medication or travel reported</p>
+      ) : (
+        flagged.map((question) => (
+          <p key={question.field} className="text-yellow-800">
+            {question.label} <strong>Yes</strong>
+            {answers[question.detailsField] && `: ${answers[question.detailsField]}`}
+          </p>
+        ))
+      )}
+      <p>
+        Weight:{' '}
+        <strong>{answers.weight_kg != null ? `${answers.weight_kg} kg` : 'Not given'}</strong>
+        {answers.last_meal && (
+          <>
+            {' '}
+            · Last meal: <strong>{LAST_MEAL_LABELS[answers.last_meal]}</strong>
+          </>
+        )}
+      </p>
+    </div>
+  );
+}
@@ -3,8 +3,9 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { CheckCircle } from 'lucide-react';
-import { supabase } from '../lib/supabase';
 import toast from 'react-hot-toast';
+import { getBloodBankRequest, updateBloodBankRequest } from '../lib/repositories/bloodBankRequests';
+import { transitionRequestStatus } from '../lib/repositories/requestStatusEvents';
 
 const confirmationSchema = z.object({
   notes: z.string().optional(),
@@ -36,16 +37,23 @@ export function RecipientBloodConfirmation({
   const onSubmit = async (data: ConfirmationFormData) => {
     try {
       // Update request with recipient confirmation
-      const { error: updateError } = await supabase
-        .from('blood_bank_requests')
-        .update({
-          recipient_confirmed: true,
-          recipient_confirmation_date: new Date().toISOString(),
-          recipient_notes: data.notes,
-        })
-        .eq('id', requestId);
+      await updateBloodBankRequest(requestId, {
+        recipient_confirmed: true,
+        recipient_confirmation_date: new Date().toISOString(),
+        recipient_notes: data.notes,
+      });
 
-      if (updateError) throw updateError;
+      const request = await getBloodBankRequest(requestId);
+      if (request.status === 'accepted') {
+        await transitionRequestStatus({
+          kind: 'blood_bank',
+          requestId,
+          from: request.status,
+          to: 'completed',
+          actor: 'requester',
+          note: data.notes || undefined,
+        });
+      }
 
       toast.success('Blood receipt confirmed successfully!');
       onConfirmed();
@@ -3,7 +3,7 @@ import { useForm } from 'react-hook-form';
 import { zodResolver } from '@hookform/resolvers/zod';
 import { z } from 'zod';
 import { CheckCircle } from 'lucide-react';
-import { supabase } from '../lib/supabase';
+import { updateBloodDonation } from '../lib/repositories/bloodDonations';
 import toast from 'react-hot-toast';
 
 const confirmationSchema = z.object({
@@ -14,7 +14,6 @@ const confirmationSchema = z.object({
 type ConfirmationFormData = z.infer<typeof confirmationSchema>;
 
 interface RecipientConfirmationProps {
-  requestId: string;
   donationId: string;
   expectedUnits: number;
   onConfirmed: () => void;
@@ -22,7 +21,6 @@ interface RecipientConfirmationProps {
 }
 
 export function RecipientConfirmation({
-  requestId,
   donationId,
   expectedUnits,
   onConfirmed,
@@ -41,25 +39,14 @@ export function RecipientConfirmation({
 
   const onSubmit = async (data: ConfirmationFormData) => {
     try {
-      // Update blood donation record
-      const { error: donationError } = await supabase
-        .from('blood_donations')
-        .update({
-          recipient_confirmed: true,
-          verification_status: 'verified',
-          notes: data.notes ? `${data.notes} (Recipient confirmed ${data.units_received} units received)` : `Recipient confirmed ${data.units_received} units received`,
-        })
-        .eq('id', donationId);
-
-      if (donationError) throw donationError;
-
-      // Update emergency request status
-      const { error: requestError } = await supabase
-        .from('emergency_requests')
-        .update({ status: 'completed' })
-        .eq('id', requestId);
-
-      if (requestError) throw requestError;
+      // Update blood donation record; the units received count as collected
+      // towards the request, which closes once it is fully collected
+      await updateBloodDonation(donationId, {
+        units_donated: data.units_received,
+        recipient_confirmed: true,
+        verification_status: 'verified',
+        notes: data.notes ? `${data.notes} (Recipient confirmed ${data.units_received} units received)` : `Recipient confirmed ${data.units_received} units received`,
+      });
 
       toast.success('Blood donation confirmed successfully!');
       onConfirmed();
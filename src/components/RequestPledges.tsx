@@ -0,0 +1,151 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { Building2, User } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { getFulfilmentProgress, type FulfilmentTotals } from '../lib/requestFulfilment';
+import {
+  createRequestPledge,
+  listPledgesForRequest,
+  updateRequestPledge,
+  type RequestPledgeWithSource,
+} from '../lib/repositories/requestPledges';
+
+interface RequestPledgesProps {
+  request: FulfilmentTotals & { id: string; status: string };
+  /** The requester can withdraw pledges that fell through */
+  canManage: boolean;
+  /** Blood bank of the current user, who can pledge units from stock */
+  bloodBank: { id: string; name: string } | null;
+  onChange: () => void;
+}
+
+const getPledgeSource = (pledge: RequestPledgeWithSource) =>
+  pledge.blood_bank?.name ??
+  (pledge.donor ? `${pledge.donor.first_name} ${pledge.donor.last_name}` : 'Unknown');
+
+export function RequestPledges({ request, canManage, bloodBank, onChange }: RequestPledgesProps) {
+  const [pledges, setPledges] = useState<RequestPledgeWithSource[]>([]);
+  const [units, setUnits] = useState(1);
+  const [saving, setSaving] = useState(false);
+
+  const { stillNeeded } = getFulfilmentProgress(request);
+  const isOpen = request.status === 'pending' || request.status === 'in_progress';
+  const hasBloodBankPledge = pledges.some(
+    (pledge) => pledge.blood_bank_id === bloodBank?.id && pledge.status !== 'withdrawn'
+  );
+
+  useEffect(() => {
+    fetchPledges();
+  }, [request.id, request.units_pledged, request.units_collected]);
+
+  const fetchPledges = async () => {
+    try {
+      setPledges(await listPledgesForRequest(request.id));
+    } catch (error) {
+      console.error('Error fetching pledges:', error);
+    }
+  };
+
+  const handlePledge = async (e: FormEvent) => {
+    e.preventDefault();
+    if (!bloodBank) return;
+
+    if (units < 1 || units > stillNeeded) {
+      toast.error(`This request needs ${stillNeeded} more unit(s)`);
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await createRequestPledge({
+        request_id: request.id,
+        blood_bank_id: bloodBank.id,
+        units_pledged: units,
+      });
+      toast.success('Units pledged');
+      onChange();
+    } catch (error) {
+      console.error('Error pledging units:', error);
+      toast.error('Failed to pledge units');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleWithdraw = async (pledge: RequestPledgeWithSource) => {
+    if (!window.confirm(`Withdraw the pledge from ${getPledgeSource(pledge)}?`)) return;
+
+    try {
+      await updateRequestPledge(pledge.id, { status: 'withdrawn' });
+      toast.success('Pledge withdrawn');
+      onChange();
+    } catch (error) {
+      console.error('Error withdrawing pledge:', error);
+      toast.error('Failed to withdraw pledge');
+    }
+  };
+
+  return (
+    <div className="mt-4">
+      {pledges.length > 0 && (
+        <>
+          <h4 className="text-sm font-semibold text-gray-900 mb-2">Pledges:</h4>
+          <ul className="space-y-2">
+            {pledges.map((pledge) => (
+              <li
+                key={pledge.id}
+                className={`flex items-center justify-between bg-gray-50 p-3 rounded-lg text-sm ${
+                  pledge.status === 'withdrawn' ? 'opacity-50' : ''
+                }`}
+              >
+                <span className="flex items-center">
+                  {pledge.blood_bank_id ? (
+                    <Building2 className="h-4 w-4 mr-2 text-gray-500" />
+                  ) : (
+                    <User className="h-4 w-4 mr-2 text-gray-500" />
+                  )}
+                  {getPledgeSource(pledge)}
+                </span>
+                <span className="flex items-center space-x-3">
+                  <span className="text-gray-600">
+                    {pledge.status === 'withdrawn'
+                      ? 'Withdrawn'
+                      : `${pledge.units_collected} of ${pledge.units_pledged} unit(s) collected`}
+                  </span>
+                  {canManage && isOpen && pledge.status === 'pledged' && (
+                    <button
+                      onClick={() => handleWithdraw(pledge)}
+                      className="text-red-600 hover:text-red-800"
+                    >
+                      Withdraw
+                    </button>
+                  )}
+                </span>
+              </li>
+            ))}
+          </ul>
+        </>
+      )}
+
+      {bloodBank && isOpen && stillNeeded > 0 && !hasBloodBankPledge && (
+        <form onSubmit={handlePledge} className="mt-3 flex items-center space-x-2">
+          <label className="text-sm text-gray-700">Pledge from {bloodBank.name}:</label>
+          <input
+            type="number"
+            min={1}
+            max={stillNeeded}
+            value={units}
+            onChange={(e) => setUnits(Number(e.target.value))}
+            className="w-20 px-2 py-1 border border-gray-300 rounded-md focus:ring-red-500 focus:border-red-500"
+          />
+          <button
+            type="submit"
+            disabled={saving}
+            className="bg-blue-500 text-white px-4 py-1.5 rounded-lg hover:bg-blue-600 transition text-sm disabled:opacity-50"
+          >
+            {saving ? 'Pledging...' : 'Pledge Units'}
+          </button>
+        </form>
+      )}
+    </div>
+  );
+}
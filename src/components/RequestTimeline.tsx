@@ -0,0 +1,101 @@
+import { useEffect, useState } from 'react';
+import { ChevronDown, ChevronUp, History } from 'lucide-react';
+import { format } from 'date-fns';
+import { getRequestStatusLabel, type RequestKind } from '../lib/requestLifecycle';
+import {
+  listRequestStatusEvents,
+  type RequestStatusEventRow,
+} from '../lib/repositories/requestStatusEvents';
+
+interface RequestTimelineProps {
+  kind: RequestKind;
+  requestId: string;
+  /** Current status, so the history is reloaded when it changes */
+  status: string;
+}
+
+const ACTOR_LABELS: Record<string, string> = {
+  requester: 'requester',
+  donor: 'donor',
+  blood_bank: 'blood bank',
+  system: 'system',
+};
+
+const getStatusDotColor = (status: string) => {
+  switch (status) {
+    case 'fulfilled':
+    case 'completed':
+    case 'accepted':
+      return 'bg-green-500';
+    case 'cancelled':
+    case 'rejected':
+    case 'expired':
+      return 'bg-gray-400';
+    case 'in_progress':
+      return 'bg-orange-500';
+    default:
+      return 'bg-yellow-500';
+  }
+};
+
+export function RequestTimeline({ kind, requestId, status }: RequestTimelineProps) {
+  const [expanded, setExpanded] = useState(false);
+  const [events, setEvents] = useState<RequestStatusEventRow[] | null>(null);
+
+  useEffect(() => {
+    if (!expanded) return;
+
+    listRequestStatusEvents(kind, requestId)
+      .then(setEvents)
+      .catch((error) => {
+        console.error('Error fetching request history:', error);
+        setEvents([]);
+      });
+  }, [expanded, kind, requestId, status]);
+
+  return (
+    <div className="mt-4">
+      <button
+        type="button"
+        onClick={() => setExpanded(!expanded)}
+        className="flex items-center text-sm text-gray-600 hover:text-gray-900"
+      >
+        <History className="h-4 w-4 mr-1" />
+        History
+        {expanded ? <ChevronUp className="h-4 w-4 ml-1" /> : <ChevronDown className="h-4 w-4 ml-1" />}
+      </button>
+
+      {expanded && (
+        <div className="mt-3">
+          {!events ? (
+            <p className="text-sm text-gray-500">Loading history...</p>
+          ) : events.length === 0 ? (
+            <p className="text-sm text-gray-500">No history recorded yet</p>
+          ) : (
+            <ol className="relative border-l border-gray-200 ml-2">
+              {events.map((event) => (
+                <li key={event.id} className="mb-3 ml-4">
+                  <span
+                    className={`absolute -left-1.5 mt-1.5 h-3 w-3 rounded-full border border-white ${getStatusDotColor(
+                      event.to_status
+                    )}`}
+                  />
+                  <p className="text-sm font-medium text-gray-900">
+                    {event.from_status ? getRequestStatusLabel(event.to_status) : 'Created'}
+                    {ACTOR_LABELS[event.actor] && (
+                      <span className="font-normal text-gray-500"> by {ACTOR_LABELS[event.actor]}</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {format(new Date(event.created_at), 'PPp')}
+                  </p>
+                  {event.note && <p className="text-sm text-gray-600 mt-1">{event.note}</p>}
+                </li>
+              ))}
+            </ol>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,15 @@
-import React, { useState, useRef } from 'react';
+import { useState, useRef } from 'react';
+import { useNavigate } from 'react-router-dom';
 import { AlertTriangle, Heart } from 'lucide-react';
-import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
+import { getCurrentLocation } from '../lib/geolocation';
+import { startSosBroadcast } from '../lib/sosBroadcast';
 import toast from 'react-hot-toast';
 
 export function SOSButton() {
   const [isLoading, setIsLoading] = useState(false);
   const { user } = useAuth();
+  const navigate = useNavigate();
   const hasShownAuthToast = useRef(false);
 
   const handleSOS = async () => {
@@ -19,36 +22,42 @@ export function SOSButton() {
     }
 
     const confirmed = window.confirm(
-      'This will send an emergency notification to all nearby blood banks and donors. Continue?'
+      'This will share your location and alert nearby blood banks and donors, widening the search until someone responds. Continue?'
     );
 
     if (!confirmed) return;
 
     setIsLoading(true);
     try {
-      // Create emergency request
-      const { data: emergency, error: emergencyError } = await supabase
-        .from('emergency_requests')
-        .insert({
+      let position: GeolocationPosition;
+      try {
+        position = await getCurrentLocation();
+      } catch (error) {
+        console.error('Error getting location:', error);
+        toast.error('Allow location access so nearby donors can be alerted');
+        return;
+      }
+
+      const { latitude, longitude } = position.coords;
+      const requestId = await startSosBroadcast(
+        {
           user_id: user.id,
           patient_name: user.user_metadata?.full_name || 'Anonymous',
           blood_type: user.user_metadata?.blood_type || 'unknown',
           units_required: 1,
-          hospital_name: 'Nearest Hospital',
-          hospital_address: 'To be updated',
+          hospital_name: 'Shared location',
+          hospital_address: `${latitude.toFixed(5)}, ${longitude.toFixed(5)}`,
           contact_person: user.user_metadata?.full_name || 'Anonymous',
           contact_number: user.user_metadata?.phone || '',
           notes: 'Emergency blood requirement - Immediate assistance needed',
-          status: 'urgent',
+          status: 'pending',
           urgency_level: 'critical',
-          is_panic: true
-        })
-        .select()
-        .single();
-
-      if (emergencyError) throw emergencyError;
+        },
+        { latitude, longitude }
+      );
 
-      toast.success('Emergency alert sent successfully! Blood banks and donors have been notified.');
+      toast.success('Emergency alert sent! Nearby blood banks and donors have been notified.');
+      navigate(`/sos/${requestId}`);
     } catch (error) {
       console.error('Error sending emergency alert:', error);
       toast.error('Failed to send emergency alert');
@@ -77,4 +86,4 @@ export function SOSButton() {
       </span>
     </button>
   );
-} 
\ No newline at end of file
+}
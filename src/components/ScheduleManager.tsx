@@ -1,29 +1,16 @@
 import React, { useState, useEffect } from 'react';
 import { toast } from 'react-hot-toast';
-import { supabase } from '../lib/supabase';
+import { dispatchNotification } from '../lib/notifications';
 import { Calendar, Clock, Building2, User, Droplet, X } from 'lucide-react';
 import { format } from 'date-fns';
+import {
+  createDonationSchedule,
+  listSchedulesForRequest,
+  updateDonationSchedule,
+  type DonationScheduleWithDonor,
+} from '../lib/repositories/donationSchedules';
 
-interface Schedule {
-  id: string;
-  emergency_request_id: string;
-  donor_id: string;
-  requester_id: string;
-  scheduled_date: string;
-  scheduled_time: string;
-  status: 'scheduled' | 'completed' | 'cancelled' | 'rescheduled';
-  hospital_name: string;
-  hospital_address: string;
-  patient_name: string;
-  patient_blood_group: string;
-  notes: string;
-  donor: {
-    first_name: string;
-    last_name: string;
-    blood_type: string;
-    phone: string;
-  };
-}
+type Schedule = DonationScheduleWithDonor;
 
 interface ScheduleManagerProps {
   requestId: string;
@@ -48,31 +35,11 @@ export function ScheduleManager({ requestId, userId }: ScheduleManagerProps) {
   const fetchSchedules = async () => {
     setLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('donation_schedules')
-        .select(`
-          *,
-          donor:donors (
-            first_name,
-            last_name,
-            blood_type,
-            phone
-          )
-        `)
-        .eq('emergency_request_id', requestId)
-        .eq('requester_id', userId)
-        .order('created_at', { ascending: false });
-
-      if (error) {
-        console.error('Error fetching schedules:', error);
-        toast.error('Failed to load schedules');
-        return;
-      }
-
-      setSchedules(data || []);
+      const data = await listSchedulesForRequest(requestId, userId);
+      setSchedules(data);
     } catch (error) {
-      console.error('Error:', error);
-      toast.error('An error occurred while loading schedules');
+      console.error('Error fetching schedules:', error);
+      toast.error('Failed to load schedules');
     } finally {
       setLoading(false);
     }
@@ -80,15 +47,12 @@ export function ScheduleManager({ requestId, userId }: ScheduleManagerProps) {
 
   const handleCancel = async (scheduleId: string) => {
     try {
-      const { error } = await supabase
-        .from('donation_schedules')
-        .update({
+      try {
+        await updateDonationSchedule(scheduleId, {
           status: 'cancelled',
           updated_at: new Date().toISOString(),
-        })
-        .eq('id', scheduleId);
-
-      if (error) {
+        });
+      } catch (error) {
         console.error('Error cancelling schedule:', error);
         toast.error('Failed to cancel schedule');
         return;
@@ -97,20 +61,14 @@ export function ScheduleManager({ requestId, userId }: ScheduleManagerProps) {
       // Create notification for the donor
       const schedule = schedules.find(s => s.id === scheduleId);
       if (schedule) {
-        const { error: notificationError } = await supabase
-          .from('notifications')
-          .insert({
-            user_id: schedule.donor_id,
-            title: 'Blood Donation Cancelled',
-            message: `Your scheduled blood donation on ${schedule.scheduled_date} at ${schedule.scheduled_time} has been cancelled.`,
-            type: 'donation_cancelled',
-            data: {
-              schedule_id: scheduleId,
-              emergency_request_id: requestId,
-            }
+        try {
+          await dispatchNotification('donation_cancelled', schedule.donor_id, {
+            scheduled_date: schedule.scheduled_date,
+            scheduled_time: schedule.scheduled_time,
+            schedule_id: scheduleId,
+            emergency_request_id: requestId,
           });
-
-        if (notificationError) {
+        } catch (notificationError) {
           console.error('Error creating notification:', notificationError);
         }
       }
@@ -147,24 +105,21 @@ export function ScheduleManager({ requestId, userId }: ScheduleManagerProps) {
 
     try {
       // First cancel the current schedule
-      const { error: cancelError } = await supabase
-        .from('donation_schedules')
-        .update({
+      try {
+        await updateDonationSchedule(selectedSchedule.id, {
           status: 'rescheduled',
           updated_at: new Date().toISOString(),
-        })
-        .eq('id', selectedSchedule.id);
-
-      if (cancelError) {
+        });
+      } catch (cancelError) {
         console.error('Error updating original schedule:', cancelError);
         toast.error('Failed to reschedule donation');
         return;
       }
 
       // Create a new schedule
-      const { data: newSchedule, error: createError } = await supabase
-        .from('donation_schedules')
-        .insert({
+      let newSchedule;
+      try {
+        newSchedule = await createDonationSchedule({
           emergency_request_id: selectedSchedule.emergency_request_id,
           donor_id: selectedSchedule.donor_id,
           requester_id: selectedSchedule.requester_id,
@@ -176,37 +131,26 @@ export function ScheduleManager({ requestId, userId }: ScheduleManagerProps) {
           patient_name: selectedSchedule.patient_name,
           patient_blood_group: selectedSchedule.patient_blood_group,
           notes: formData.notes,
-        })
-        .select()
-        .single();
-
-      if (createError) {
+        });
+      } catch (createError) {
         console.error('Error creating new schedule:', createError);
         toast.error('Failed to create new schedule');
         return;
       }
 
       // Create notification for the donor
-      const { error: notificationError } = await supabase
-        .from('notifications')
-        .insert({
-          user_id: selectedSchedule.donor_id,
-          title: 'Blood Donation Rescheduled',
-          message: `Your blood donation has been rescheduled to ${formData.scheduled_date} at ${formData.scheduled_time}`,
-          type: 'donation_rescheduled',
-          data: {
-            old_schedule_id: selectedSchedule.id,
-            new_schedule_id: newSchedule.id,
-            emergency_request_id: selectedSchedule.emergency_request_id,
-            scheduled_date: formData.scheduled_date,
-            scheduled_time: formData.scheduled_time,
-            hospital_name: selectedSchedule.hospital_name,
-            hospital_address: selectedSchedule.hospital_address,
-            recipient_info: 'donor'
-          }
+      try {
+        await dispatchNotification('donation_rescheduled', selectedSchedule.donor_id, {
+          old_schedule_id: selectedSchedule.id,
+          new_schedule_id: newSchedule.id,
+          emergency_request_id: selectedSchedule.emergency_request_id,
+          scheduled_date: formData.scheduled_date,
+          scheduled_time: formData.scheduled_time,
+          hospital_name: selectedSchedule.hospital_name,
+          hospital_address: selectedSchedule.hospital_address,
+          recipient_info: 'donor'
         });
-
-      if (notificationError) {
+      } catch (notificationError) {
         console.error('Error creating notification:', notificationError);
       }
 
@@ -1,12 +1,14 @@
 import React from 'react';
-import { CheckCircle, Calendar, ChevronRight } from 'lucide-react';
+import { CheckCircle, Calendar, CalendarPlus, ChevronRight } from 'lucide-react';
 import { Link } from 'react-router-dom';
+import { downloadAppointment, type DonationAppointment } from '../lib/calendarExport';
 
 interface SchedulerConfirmationProps {
+  appointment?: DonationAppointment | null;
   onScheduleAnother: () => void;
 }
 
-export function SchedulerConfirmation({ onScheduleAnother }: SchedulerConfirmationProps) {
+export function SchedulerConfirmation({ appointment, onScheduleAnother }: SchedulerConfirmationProps) {
   return (
     <div className="bg-white rounded-lg shadow-lg p-6 text-center">
       <div className="mb-6">
@@ -20,6 +22,16 @@ export function SchedulerConfirmation({ onScheduleAnother }: SchedulerConfirmati
       </div>
 
       <div className="space-y-4">
+        {appointment && (
+          <button
+            onClick={() => downloadAppointment(appointment)}
+            className="flex items-center justify-center w-full bg-white text-gray-700 border border-gray-300 py-3 px-4 rounded-md hover:bg-gray-50 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
+          >
+            <CalendarPlus className="h-5 w-5 mr-2" />
+            Add to Calendar
+          </button>
+        )}
+
         <Link
           to="/dashboard"
           className="block w-full bg-red-500 text-white py-3 px-4 rounded-md hover:bg-red-600 focus:outline-none focus:ring-2 focus:ring-red-500 focus:ring-offset-2"
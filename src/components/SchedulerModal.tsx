@@ -14,7 +14,8 @@ import {
   VStack,
   useToast
 } from './ChakraUtils';
-import { supabase } from '../lib/supabase';
+import { createDonationSchedule } from '../lib/repositories/donationSchedules';
+import { dispatchNotification } from '../lib/notifications';
 
 interface SchedulerModalProps {
   isOpen: boolean;
@@ -46,65 +47,30 @@ export const SchedulerModal: React.FC<SchedulerModalProps> = ({
     setIsSubmitting(true);
 
     try {
-      // Create the schedule with fallback field handling
+      // Create the schedule
       const scheduleData: any = {
+        emergency_request_id: requestId,
         donor_id: donorId,
         scheduled_date: date,
         scheduled_time: time,
         status: 'scheduled'
       };
       
-      // Try both field names to ensure compatibility with different DB versions
       try {
-        scheduleData.emergency_request_id = requestId;
-        
-        const { error: scheduleError } = await supabase
-          .from('donation_schedules')
-          .insert(scheduleData);
-
-        if (scheduleError) {
-          // If error suggests wrong column name, try with request_id
-          if (scheduleError.message && scheduleError.message.includes("column \"emergency_request_id\" of relation \"donation_schedules\" does not exist")) {
-            console.log("Using request_id instead of emergency_request_id");
-            delete scheduleData.emergency_request_id;
-            scheduleData.request_id = requestId;
-            
-            const { error: retryError } = await supabase
-              .from('donation_schedules')
-              .insert(scheduleData);
-              
-            if (retryError) {
-              throw retryError;
-            }
-          } else {
-            throw scheduleError;
-          }
-        }
+        await createDonationSchedule(scheduleData);
 
         // Create notification for donor
         try {
-          const { error: notificationError } = await supabase
-            .from('notifications')
-            .insert({
-              user_id: donorId,
-              title: 'Blood Donation Scheduled',
-              message: `Your blood donation has been scheduled for ${date} at ${time}`,
-              type: 'donation_scheduled',
-              data: {
-                request_id: requestId,
-                scheduled_date: date,
-                scheduled_time: time,
-                patient_name: requestDetails.patient_name,
-                blood_type: requestDetails.blood_type,
-                hospital_name: requestDetails.hospital_name,
-                hospital_address: requestDetails.hospital_address,
-                recipient_info: 'donor'
-              }
-            });
-
-          if (notificationError) {
-            console.error('Error creating notification:', notificationError);
-          }
+          await dispatchNotification('donation_scheduled', donorId, {
+            request_id: requestId,
+            scheduled_date: date,
+            scheduled_time: time,
+            patient_name: requestDetails.patient_name,
+            blood_type: requestDetails.blood_type,
+            hospital_name: requestDetails.hospital_name,
+            hospital_address: requestDetails.hospital_address,
+            recipient_info: 'donor'
+          });
         } catch (notifError) {
           console.error('Error in notification process:', notifError);
           // Don't block the main flow for notification errors
@@ -0,0 +1,627 @@
+import React, { useEffect, useState } from 'react';
+import {
+  AlertTriangle,
+  CalendarOff,
+  CalendarRange,
+  Edit2,
+  Eye,
+  Loader2,
+  Plus,
+  Trash2,
+} from 'lucide-react';
+import { addWeeks, format, parseISO } from 'date-fns';
+import toast from 'react-hot-toast';
+import {
+  DEFAULT_GENERATE_WEEKS,
+  WEEKDAYS,
+  countPlannedSlots,
+  describeConflictReason,
+  describeTemplate,
+  type SlotTemplateConflict,
+} from '../lib/slotTemplates';
+import { applySlotTemplate, closeFacilityDay } from '../lib/slotTemplateChanges';
+import {
+  listSlotTemplates,
+  listUpcomingSlotClosures,
+  removeSlotClosure,
+  type SlotClosureRow,
+  type SlotTemplateRow,
+} from '../lib/repositories/slotTemplates';
+import type { FacilityType } from '../lib/repositories/scheduledDonations';
+import { slotTemplateSchema, type SlotTemplateFormData } from '../lib/validation';
+
+interface SlotTemplateManagerProps {
+  facilityType: FacilityType;
+  facilityId: string;
+  /** Called after slots were generated, changed or removed */
+  onSlotsChanged?: () => void;
+}
+
+interface TemplateForm {
+  name: string;
+  weekdays: number[];
+  start_time: string;
+  end_time: string;
+  slot_minutes: number;
+  capacity: number;
+  valid_from: string;
+  valid_until: string;
+  generate_until: string;
+  is_active: boolean;
+}
+
+interface TemplatePreview {
+  data: SlotTemplateFormData & { is_active: boolean };
+  plannedSlots: number;
+  conflicts: SlotTemplateConflict[];
+}
+
+const today = () => format(new Date(), 'yyyy-MM-dd');
+
+const defaultGenerateUntil = () =>
+  format(addWeeks(new Date(), DEFAULT_GENERATE_WEEKS), 'yyyy-MM-dd');
+
+const emptyForm = (): TemplateForm => ({
+  name: '',
+  weekdays: [1, 2, 3, 4, 5],
+  start_time: '09:00',
+  end_time: '13:00',
+  slot_minutes: 20,
+  capacity: 3,
+  valid_from: today(),
+  valid_until: '',
+  generate_until: defaultGenerateUntil(),
+  is_active: true,
+});
+
+const formatDay = (date: string) => format(parseISO(date), 'EEE, MMM d, yyyy');
+
+const inputClass =
+  'w-full rounded-md border-gray-300 shadow-sm focus:border-red-500 focus:ring-red-500';
+
+export function SlotTemplateManager({
+  facilityType,
+  facilityId,
+  onSlotsChanged,
+}: SlotTemplateManagerProps) {
+  const [templates, setTemplates] = useState<SlotTemplateRow[]>([]);
+  const [closures, setClosures] = useState<SlotClosureRow[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [form, setForm] = useState<TemplateForm | null>(null);
+  const [preview, setPreview] = useState<TemplatePreview | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [closureDate, setClosureDate] = useState('');
+  const [closureReason, setClosureReason] = useState('');
+  const [closing, setClosing] = useState(false);
+
+  useEffect(() => {
+    fetchTemplates();
+  }, [facilityType, facilityId]);
+
+  const fetchTemplates = async () => {
+    setLoading(true);
+    try {
+      const [templateRows, closureRows] = await Promise.all([
+        listSlotTemplates(facilityType, facilityId),
+        listUpcomingSlotClosures(facilityType, facilityId, today()),
+      ]);
+      setTemplates(templateRows);
+      setClosures(closureRows);
+    } catch (error) {
+      console.error('Error fetching slot templates:', error);
+      toast.error('Failed to load slot templates');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateForm = (changes: Partial<TemplateForm>) => {
+    setForm((current) => (current ? { ...current, ...changes } : current));
+    setPreview(null);
+  };
+
+  const toggleWeekday = (day: number) => {
+    if (!form) return;
+    updateForm({
+      weekdays: form.weekdays.includes(day)
+        ? form.weekdays.filter((value) => value !== day)
+        : [...form.weekdays, day].sort((a, b) => a - b),
+    });
+  };
+
+  const startNew = () => {
+    setEditingId(null);
+    setForm(emptyForm());
+    setPreview(null);
+  };
+
+  const startEdit = (template: SlotTemplateRow) => {
+    setEditingId(template.id);
+    setForm({
+      name: template.name ?? '',
+      weekdays: template.weekdays,
+      start_time: template.start_time.slice(0, 5),
+      end_time: template.end_time.slice(0, 5),
+      slot_minutes: template.slot_minutes,
+      capacity: template.capacity,
+      valid_from: template.valid_from,
+      valid_until: template.valid_until ?? '',
+      generate_until: defaultGenerateUntil(),
+      is_active: template.is_active,
+    });
+    setPreview(null);
+  };
+
+  const closeForm = () => {
+    setEditingId(null);
+    setForm(null);
+    setPreview(null);
+  };
+
+  const toSaveArgs = (data: TemplatePreview['data'], dryRun: boolean, cancelConflicts = false) => ({
+    p_template_id: editingId,
+    p_facility_type: facilityType,
+    p_facility_id: facilityId,
+    p_name: data.name || null,
+    p_weekdays: data.weekdays,
+    p_start_time: data.start_time,
+    p_end_time: data.end_time,
+    p_slot_minutes: data.slot_minutes,
+    p_capacity: data.capacity,
+    p_valid_from: data.valid_from,
+    p_valid_until: data.valid_until || null,
+    p_is_active: data.is_active,
+    p_generate_until: data.generate_until,
+    p_dry_run: dryRun,
+    p_cancel_conflicts: cancelConflicts,
+  });
+
+  // Check the form and list the bookings the change would cancel
+  const handlePreview = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!form) return;
+
+    const parsed = slotTemplateSchema.safeParse(form);
+    if (!parsed.success) {
+      toast.error(parsed.error.issues[0].message);
+      return;
+    }
+
+    const data = { ...parsed.data, is_active: form.is_active };
+    setSaving(true);
+    try {
+      const conflicts = await applySlotTemplate(toSaveArgs(data, true));
+      setPreview({
+        data,
+        plannedSlots: data.is_active
+          ? countPlannedSlots(
+              data,
+              today(),
+              data.generate_until,
+              closures.map((closure) => closure.closure_date)
+            )
+          : 0,
+        conflicts,
+      });
+    } catch (error) {
+      console.error('Error previewing slot template:', error);
+      toast.error('Failed to check the template against bookings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleApply = async () => {
+    if (!preview) return;
+
+    setSaving(true);
+    try {
+      const cancelled = await applySlotTemplate(
+        toSaveArgs(preview.data, false, preview.conflicts.length > 0)
+      );
+      toast.success(
+        cancelled.length > 0
+          ? `Template saved. ${cancelled.length} booking(s) cancelled and donors notified.`
+          : 'Template saved and slots generated'
+      );
+      closeForm();
+      fetchTemplates();
+      onSlotsChanged?.();
+    } catch (error: unknown) {
+      console.error('Error saving slot template:', error);
+      toast.error(
+        error instanceof Error && error.message.includes('cancel booked donations')
+          ? 'New bookings were made meanwhile. Preview the change again.'
+          : 'Failed to save slot template'
+      );
+      setPreview(null);
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleAddClosure = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!closureDate) return;
+
+    const args = {
+      p_facility_type: facilityType,
+      p_facility_id: facilityId,
+      p_date: closureDate,
+      p_reason: closureReason.trim() || undefined,
+    };
+
+    setClosing(true);
+    try {
+      const conflicts = await closeFacilityDay({ ...args, p_dry_run: true });
+      if (
+        conflicts.length > 0 &&
+        !window.confirm(
+          `${conflicts.length} donor(s) are booked on ${formatDay(closureDate)}. ` +
+            'Closing the day will cancel their bookings and notify them. Continue?'
+        )
+      ) {
+        return;
+      }
+
+      await closeFacilityDay({ ...args, p_cancel_conflicts: conflicts.length > 0 });
+      toast.success(`${formatDay(closureDate)} closed`);
+      setClosureDate('');
+      setClosureReason('');
+      fetchTemplates();
+      onSlotsChanged?.();
+    } catch (error) {
+      console.error('Error closing day:', error);
+      toast.error('Failed to close the day');
+    } finally {
+      setClosing(false);
+    }
+  };
+
+  const handleRemoveClosure = async (closure: SlotClosureRow) => {
+    try {
+      await removeSlotClosure(closure.id);
+      toast.success(`${formatDay(closure.closure_date)} reopened`);
+      fetchTemplates();
+      onSlotsChanged?.();
+    } catch (error) {
+      console.error('Error reopening day:', error);
+      toast.error('Failed to reopen the day');
+    }
+  };
+
+  return (
+    <div className="space-y-6 mb-6">
+      <div className="border border-gray-200 rounded-lg p-6">
+        <div className="flex justify-between items-center mb-4">
+          <h3 className="font-medium text-gray-900 flex items-center">
+            <CalendarRange className="h-5 w-5 mr-2 text-red-500" />
+            Recurring Templates
+          </h3>
+          {!form && (
+            <button
+              onClick={startNew}
+              className="inline-flex items-center px-3 py-1.5 text-sm bg-red-500 text-white rounded-md hover:bg-red-600"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              New Template
+            </button>
+          )}
+        </div>
+        <p className="text-sm text-gray-600 mb-4">
+          Describe your regular opening hours once and slots are generated for every date up to
+          the day you choose. Bookings are checked before any change is applied.
+        </p>
+
+        {loading ? (
+          <div className="flex justify-center p-4">
+            <Loader2 className="h-6 w-6 text-red-500 animate-spin" />
+          </div>
+        ) : templates.length === 0 && !form ? (
+          <p className="text-gray-500 text-center py-4">No templates yet.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {templates.map((template) => (
+              <li key={template.id} className="py-3 flex items-center justify-between gap-4">
+                <div>
+                  <p className="text-sm font-medium text-gray-900">
+                    {template.name || describeTemplate(template)}
+                    {!template.is_active && (
+                      <span className="ml-2 px-2 py-0.5 text-xs rounded-full bg-gray-100 text-gray-600">
+                        Paused
+                      </span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500">
+                    {template.name && `${describeTemplate(template)} · `}
+                    From {formatDay(template.valid_from)}
+                    {template.valid_until && ` until ${formatDay(template.valid_until)}`}
+                  </p>
+                </div>
+                <button
+                  onClick={() => startEdit(template)}
+                  className="inline-flex items-center text-sm text-gray-600 hover:text-gray-900"
+                >
+                  <Edit2 className="h-4 w-4 mr-1" />
+                  Edit
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+
+        {form && (
+          <form onSubmit={handlePreview} className="mt-4 border-t border-gray-200 pt-4">
+            <h4 className="font-medium text-gray-900 mb-3">
+              {editingId ? 'Change Template' : 'New Template'}
+            </h4>
+            <div className="mb-4">
+              <span className="block text-sm font-medium text-gray-700 mb-1">Days</span>
+              <div className="flex flex-wrap gap-2">
+                {WEEKDAYS.map((day) => (
+                  <button
+                    key={day.value}
+                    type="button"
+                    title={day.label}
+                    onClick={() => toggleWeekday(day.value)}
+                    className={`px-3 py-1 text-sm rounded-md border ${
+                      form.weekdays.includes(day.value)
+                        ? 'bg-red-500 border-red-500 text-white'
+                        : 'border-gray-300 text-gray-700 hover:bg-gray-50'
+                    }`}
+                  >
+                    {day.short}
+                  </button>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+              <div>
+                <label htmlFor="templateStart" className="block text-sm font-medium text-gray-700 mb-1">
+                  Opens
+                </label>
+                <input
+                  type="time"
+                  id="templateStart"
+                  value={form.start_time}
+                  onChange={(e) => updateForm({ start_time: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="templateEnd" className="block text-sm font-medium text-gray-700 mb-1">
+                  Closes
+                </label>
+                <input
+                  type="time"
+                  id="templateEnd"
+                  value={form.end_time}
+                  onChange={(e) => updateForm({ end_time: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="templateMinutes" className="block text-sm font-medium text-gray-700 mb-1">
+                  Slot length (minutes)
+                </label>
+                <input
+                  type="number"
+                  id="templateMinutes"
+                  min="5"
+                  max="480"
+                  value={form.slot_minutes}
+                  onChange={(e) => updateForm({ slot_minutes: parseInt(e.target.value) })}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="templateCapacity" className="block text-sm font-medium text-gray-700 mb-1">
+                  Beds (donors per slot)
+                </label>
+                <input
+                  type="number"
+                  id="templateCapacity"
+                  min="1"
+                  value={form.capacity}
+                  onChange={(e) => updateForm({ capacity: parseInt(e.target.value) })}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="templateFrom" className="block text-sm font-medium text-gray-700 mb-1">
+                  Starts on
+                </label>
+                <input
+                  type="date"
+                  id="templateFrom"
+                  value={form.valid_from}
+                  onChange={(e) => updateForm({ valid_from: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="templateUntil" className="block text-sm font-medium text-gray-700 mb-1">
+                  Ends on (optional)
+                </label>
+                <input
+                  type="date"
+                  id="templateUntil"
+                  value={form.valid_until}
+                  min={form.valid_from}
+                  onChange={(e) => updateForm({ valid_until: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+              <div>
+                <label htmlFor="templateGenerate" className="block text-sm font-medium text-gray-700 mb-1">
+                  Generate slots until
+                </label>
+                <input
+                  type="date"
+                  id="templateGenerate"
+                  value={form.generate_until}
+                  min={today()}
+                  onChange={(e) => updateForm({ generate_until: e.target.value })}
+                  className={inputClass}
+                  required
+                />
+              </div>
+              <div>
+                <label htmlFor="templateName" className="block text-sm font-medium text-gray-700 mb-1">
+                  Name (optional)
+                </label>
+                <input
+                  type="text"
+                  id="templateName"
+                  value={form.name}
+                  placeholder="Weekday mornings"
+                  onChange={(e) => updateForm({ name: e.target.value })}
+                  className={inputClass}
+                />
+              </div>
+            </div>
+            {editingId && (
+              <label className="flex items-center mt-4 text-sm text-gray-700">
+                <input
+                  type="checkbox"
+                  checked={form.is_active}
+                  onChange={(e) => updateForm({ is_active: e.target.checked })}
+                  className="rounded border-gray-300 text-red-500 focus:ring-red-500 mr-2"
+                />
+                Active (untick to stop offering this template's future slots)
+              </label>
+            )}
+
+            {preview && (
+              <div className="mt-4 rounded-md bg-gray-50 p-4">
+                <p className="text-sm text-gray-700">
+                  {preview.data.is_active
+                    ? `${describeTemplate(preview.data)}: ${preview.plannedSlots} slot(s) from today until ${formatDay(preview.data.generate_until)}.`
+                    : 'All future slots from this template will be removed.'}
+                </p>
+                {preview.conflicts.length > 0 && (
+                  <div className="mt-3">
+                    <p className="flex items-center text-sm font-medium text-red-700 mb-2">
+                      <AlertTriangle className="h-4 w-4 mr-1" />
+                      {preview.conflicts.length} booking(s) would be cancelled
+                    </p>
+                    <table className="min-w-full text-sm">
+                      <tbody className="divide-y divide-gray-200">
+                        {preview.conflicts.map((conflict) => (
+                          <tr key={conflict.donation_id}>
+                            <td className="py-1 pr-4 text-gray-900">{conflict.donor_name}</td>
+                            <td className="py-1 pr-4 text-gray-600">
+                              {formatDay(conflict.scheduled_date)} {conflict.scheduled_time}
+                            </td>
+                            <td className="py-1 text-gray-500">
+                              {describeConflictReason(conflict.reason)}
+                            </td>
+                          </tr>
+                        ))}
+                      </tbody>
+                    </table>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="flex gap-2 mt-4">
+              {preview ? (
+                <button
+                  type="button"
+                  onClick={handleApply}
+                  disabled={saving}
+                  className="inline-flex items-center px-4 py-2 rounded-md text-sm font-medium text-white bg-red-500 hover:bg-red-600 disabled:opacity-70"
+                >
+                  {saving && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+                  {preview.conflicts.length > 0
+                    ? 'Cancel these bookings and apply'
+                    : 'Apply'}
+                </button>
+              ) : (
+                <button
+                  type="submit"
+                  disabled={saving}
+                  className="inline-flex items-center px-4 py-2 rounded-md text-sm font-medium text-white bg-red-500 hover:bg-red-600 disabled:opacity-70"
+                >
+                  {saving ? (
+                    <Loader2 className="h-4 w-4 mr-2 animate-spin" />
+                  ) : (
+                    <Eye className="h-4 w-4 mr-2" />
+                  )}
+                  Preview
+                </button>
+              )}
+              <button
+                type="button"
+                onClick={closeForm}
+                className="px-4 py-2 border border-gray-300 rounded-md text-sm text-gray-700 hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </form>
+        )}
+      </div>
+
+      <div className="border border-gray-200 rounded-lg p-6">
+        <h3 className="font-medium text-gray-900 flex items-center mb-4">
+          <CalendarOff className="h-5 w-5 mr-2 text-red-500" />
+          Closures
+        </h3>
+        <form onSubmit={handleAddClosure} className="flex flex-wrap gap-2 mb-4">
+          <input
+            type="date"
+            value={closureDate}
+            min={today()}
+            onChange={(e) => setClosureDate(e.target.value)}
+            className="rounded-md border-gray-300 shadow-sm focus:border-red-500 focus:ring-red-500"
+            required
+          />
+          <input
+            type="text"
+            value={closureReason}
+            placeholder="Reason, e.g. public holiday"
+            onChange={(e) => setClosureReason(e.target.value)}
+            className="flex-1 rounded-md border-gray-300 shadow-sm focus:border-red-500 focus:ring-red-500"
+          />
+          <button
+            type="submit"
+            disabled={closing || !closureDate}
+            className="inline-flex items-center px-4 py-2 rounded-md text-sm font-medium text-white bg-red-500 hover:bg-red-600 disabled:opacity-70"
+          >
+            {closing && <Loader2 className="h-4 w-4 mr-2 animate-spin" />}
+            Close Day
+          </button>
+        </form>
+        {closures.length === 0 ? (
+          <p className="text-sm text-gray-500">No upcoming closures.</p>
+        ) : (
+          <ul className="divide-y divide-gray-200">
+            {closures.map((closure) => (
+              <li key={closure.id} className="py-2 flex items-center justify-between">
+                <span className="text-sm text-gray-900">
+                  {formatDay(closure.closure_date)}
+                  {closure.reason && <span className="text-gray-500"> · {closure.reason}</span>}
+                </span>
+                <button
+                  onClick={() => handleRemoveClosure(closure)}
+                  title="Reopen this day"
+                  className="text-red-600 hover:text-red-900"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+}
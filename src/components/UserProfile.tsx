@@ -1,19 +1,12 @@
 import React, { useEffect, useState } from 'react';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase } from '../lib/supabase';
+import { getProfile, type ProfileRow } from '../lib/repositories/profiles';
 import toast from 'react-hot-toast';
 import { LocationUpdater } from './LocationUpdater';
 
-interface Profile {
-  id: string;
-  full_name: string;
-  blood_type: string;
-  avatar_url: string;
-}
-
 export function UserProfile() {
   const { user } = useAuth();
-  const [profile, setProfile] = useState<Profile | null>(null);
+  const [profile, setProfile] = useState<ProfileRow | null>(null);
   const [isLoading, setIsLoading] = useState(true);
 
   useEffect(() => {
@@ -21,13 +14,7 @@ export function UserProfile() {
 
     const fetchProfile = async () => {
       try {
-        const { data, error } = await supabase
-          .from('profiles')
-          .select('*')
-          .eq('id', user.id)
-          .single();
-
-        if (error) throw error;
+        const data = await getProfile(user.id);
         setProfile(data);
       } catch (error) {
         console.error('Error fetching profile:', error);
@@ -50,7 +37,7 @@ export function UserProfile() {
 
   return (
     <div>
-      <LocationUpdater bloodType={profile.blood_type} />
+      <LocationUpdater bloodType={profile.blood_type ?? undefined} />
       {/* Rest of your profile UI */}
     </div>
   );
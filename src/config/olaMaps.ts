@@ -1,5 +1,7 @@
 export const OLA_MAPS_CONFIG = {
-  apiKey: import.meta.env.VITE_OLA_MAPS_API_KEY || 'n1AWiUYhgUz1qjiemAkVfMxuTOntjxrbProAtSD0', // Fallback to a default key if env is not set
+  // Browser key for map tiles only, restricted to the app's domains in the
+  // Ola Maps console; every other Ola Maps call goes through ola-maps-proxy
+  tilesApiKey: import.meta.env.VITE_OLA_MAPS_TILES_KEY ?? '',
   // Use reliable free map styles that don't require API keys and have CORS properly set up
   style: 'https://api.maptiler.com/maps/streets/style.json?key=get_your_own_OpIi9ZULNHzrESv6T2vL',
   defaultCenter: [88.3639, 22.5726], // Kolkata coordinates
@@ -34,8 +36,8 @@ export const OLA_MAPS_CONFIG = {
 };
 
 export function validateOlaMapsConfig() {
-  if (!OLA_MAPS_CONFIG.apiKey) {
-    console.error('OLA Maps API key is not configured. Please check your .env file.');
+  if (!OLA_MAPS_CONFIG.tilesApiKey) {
+    console.error('OLA Maps tiles key is not configured. Set VITE_OLA_MAPS_TILES_KEY in your .env file.');
     return false;
   }
   return true;
@@ -0,0 +1,64 @@
+import { addDays, format, parseISO } from 'date-fns';
+
+export const COMPONENT_TYPES = [
+  'whole_blood',
+  'packed_red_cells',
+  'platelets',
+  'plasma',
+] as const;
+
+export type ComponentType = (typeof COMPONENT_TYPES)[number];
+
+export const COMPONENT_LABELS: Record<ComponentType, string> = {
+  whole_blood: 'Whole Blood',
+  packed_red_cells: 'Packed Red Cells (PRBC)',
+  platelets: 'Platelets',
+  plasma: 'Fresh Frozen Plasma (FFP)',
+};
+
+export const COMPONENT_OPTIONS = COMPONENT_TYPES.map((value) => ({
+  value,
+  label: COMPONENT_LABELS[value],
+}));
+
+/** Storage shelf life from collection, in days */
+export const COMPONENT_SHELF_LIFE_DAYS: Record<ComponentType, number> = {
+  whole_blood: 35,
+  packed_red_cells: 42,
+  platelets: 5,
+  plasma: 365,
+};
+
+/** Units this many days or fewer from expiry raise an alert */
+export const EXPIRY_ALERT_DAYS = 3;
+
+/**
+ * Donor types that can give to anyone for a component. Red cells come from
+ * O- donors, while plasma compatibility is reversed and AB plasma is universal.
+ */
+export const UNIVERSAL_DONOR_TYPES: Record<ComponentType, string[]> = {
+  whole_blood: ['O-'],
+  packed_red_cells: ['O-'],
+  platelets: ['O-'],
+  plasma: ['AB+', 'AB-'],
+};
+
+export const isComponentType = (value: string): value is ComponentType =>
+  (COMPONENT_TYPES as readonly string[]).includes(value);
+
+export const getComponentLabel = (componentType: string | null | undefined) =>
+  componentType && isComponentType(componentType)
+    ? COMPONENT_LABELS[componentType]
+    : COMPONENT_LABELS.whole_blood;
+
+/**
+ * Default expiry date (yyyy-MM-dd) for a unit collected on `collectionDate`
+ */
+export const getDefaultExpiryDate = (
+  componentType: ComponentType,
+  collectionDate: string
+) =>
+  format(
+    addDays(parseISO(collectionDate), COMPONENT_SHELF_LIFE_DAYS[componentType]),
+    'yyyy-MM-dd'
+  );
@@ -0,0 +1,71 @@
+import { getCompatibleBloodTypes } from './validation';
+
+/** The fields of a `blood_units` row the ledger rules look at */
+export interface LedgerUnit {
+  id: string;
+  bag_id: string;
+  blood_type: string;
+  component_type: string;
+  collection_date: string;
+  expiry_date: string;
+  status: string;
+}
+
+export interface UnitRequest {
+  blood_type: string;
+  component_type: string;
+}
+
+/**
+ * Whether a bag counts as stock on `today` (yyyy-MM-dd): available and not
+ * past its expiry date. Mirrors `refresh_blood_inventory`.
+ */
+export const isUsableUnit = (unit: LedgerUnit, today: string) =>
+  unit.status === 'available' && unit.expiry_date >= today;
+
+/** The `blood_inventory.units_available` count the ledger derives */
+export function countUsableUnits(
+  units: LedgerUnit[],
+  bloodType: string,
+  componentType: string,
+  today: string
+) {
+  return units.filter(
+    (unit) =>
+      unit.blood_type === bloodType &&
+      unit.component_type === componentType &&
+      isUsableUnit(unit, today)
+  ).length;
+}
+
+/**
+ * The bags `issue_blood_units` picks for a request: usable units of the
+ * requested component and a compatible blood type, oldest collection first.
+ * Bags of the requested blood type go before other compatible types, so
+ * universal donor stock is not used up on patients who can take their own type.
+ */
+export function pickUnitsToIssue<T extends LedgerUnit>(
+  units: T[],
+  request: UnitRequest,
+  count: number,
+  today: string
+): T[] {
+  const compatible = getCompatibleBloodTypes(request.blood_type, request.component_type);
+
+  return units
+    .filter(
+      (unit) =>
+        compatible.includes(unit.blood_type) &&
+        unit.component_type === request.component_type &&
+        isUsableUnit(unit, today)
+    )
+    .sort(
+      (a, b) =>
+        Number(b.blood_type === request.blood_type) -
+          Number(a.blood_type === request.blood_type) ||
+        a.collection_date.localeCompare(b.collection_date) ||
+        a.expiry_date.localeCompare(b.expiry_date) ||
+        a.bag_id.localeCompare(b.bag_id)
+    )
+    .slice(0, Math.max(count, 0));
+}
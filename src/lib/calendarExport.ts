@@ -0,0 +1,31 @@
+/**
+ * Calendar files for the app: the iCalendar builder shared with the
+ * hospital-calendar-feed Edge Function, plus browser downloads
+ */
+import {
+  buildCalendar,
+  donationAppointmentEvent,
+  type DonationAppointment,
+} from '../../supabase/functions/_shared/calendarExport';
+
+export * from '../../supabase/functions/_shared/calendarExport';
+
+export function downloadCalendarFile(filename: string, ics: string) {
+  const url = URL.createObjectURL(new Blob([ics], { type: 'text/calendar;charset=utf-8' }));
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
+
+/** Downloads a single appointment as an .ics file */
+export function downloadAppointment(appointment: DonationAppointment) {
+  downloadCalendarFile(
+    `donation-${appointment.scheduled_date.slice(0, 10)}.ics`,
+    buildCalendar([donationAppointmentEvent(appointment)])
+  );
+}
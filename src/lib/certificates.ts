@@ -0,0 +1,207 @@
+import { format, parseISO } from 'date-fns';
+import { encode } from 'uqr';
+
+export interface CertificateDetails {
+  certificateNumber: string;
+  donorName: string;
+  bloodType: string;
+  donationDate: string;
+  hospitalName: string;
+  unitsConfirmed: number;
+  issuedAt?: string | null;
+}
+
+export function generateCertificateNumber(donationId: string, now = new Date()) {
+  return `DON-${now.getTime()}-${donationId.slice(0, 8)}`;
+}
+
+/** Public page that checks a certificate number against the database */
+export function getCertificateVerificationUrl(
+  certificateNumber: string,
+  origin = window.location.origin
+) {
+  return `${origin}/verify-certificate/${encodeURIComponent(certificateNumber)}`;
+}
+
+/**
+ * Name as shown to anyone verifying a certificate: first name and last
+ * initial, so a certificate number alone does not reveal the full name
+ */
+export function maskDonorName(firstName: string, lastName?: string | null) {
+  const initial = lastName?.trim().charAt(0);
+  return initial ? `${firstName.trim()} ${initial.toUpperCase()}.` : firstName.trim();
+}
+
+/**
+ * QR modules for a certificate. The payload is the verification URL, which
+ * carries the certificate number, so scanning it opens the check directly.
+ */
+export function getCertificateQrModules(certificateNumber: string, origin?: string) {
+  return encode(getCertificateVerificationUrl(certificateNumber, origin), {
+    ecc: 'M',
+    border: 0,
+  }).data;
+}
+
+// Advance widths (1/1000 em) of printable ASCII in the standard PDF fonts,
+// used to centre text without embedding font files
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+type PdfFont = 'regular' | 'bold';
+
+const PAGE_WIDTH = 842;
+const PAGE_HEIGHT = 595;
+
+const num = (value: number) => Number(value.toFixed(2)).toString();
+
+// The standard fonts only cover Latin-1, anything else is replaced
+const toLatin1 = (text: string) =>
+  text.normalize('NFC').replace(/[^\x20-\x7e\xa0-\xff]/g, '?');
+
+const escapePdfText = (text: string) => text.replace(/[\\()]/g, (ch) => `\\${ch}`);
+
+function textWidth(text: string, font: PdfFont, size: number) {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let units = 0;
+  for (const ch of text) {
+    units += widths[ch.charCodeAt(0) - 32] ?? 556;
+  }
+  return (units * size) / 1000;
+}
+
+function drawText(
+  text: string,
+  y: number,
+  { font = 'regular', size = 14, x, color = '0.2 0.2 0.2' }: {
+    font?: PdfFont;
+    size?: number;
+    x?: number;
+    color?: string;
+  } = {}
+) {
+  const safe = toLatin1(text);
+  const left = x ?? (PAGE_WIDTH - textWidth(safe, font, size)) / 2;
+  return [
+    `${color} rg`,
+    'BT',
+    `/${font === 'bold' ? 'F2' : 'F1'} ${size} Tf`,
+    `${num(left)} ${num(y)} Td`,
+    `(${escapePdfText(safe)}) Tj`,
+    'ET',
+  ].join('\n');
+}
+
+function drawQr(modules: boolean[][], x: number, y: number, size: number) {
+  const cell = size / modules.length;
+  const rects: string[] = [];
+
+  modules.forEach((row, r) => {
+    row.forEach((dark, c) => {
+      if (dark) {
+        rects.push(
+          `${num(x + c * cell)} ${num(y + size - (r + 1) * cell)} ${num(cell)} ${num(cell)} re`
+        );
+      }
+    });
+  });
+
+  return ['0 0 0 rg', ...rects, 'f'].join('\n');
+}
+
+/**
+ * Builds a single-page A4 certificate as a PDF document. The result is a
+ * binary string with one character per byte; see `downloadCertificatePdf`.
+ */
+export function buildCertificatePdf(details: CertificateDetails, origin?: string) {
+  const donationDate = format(parseISO(details.donationDate), 'PPPP');
+  const issuedAt = details.issuedAt ? format(parseISO(details.issuedAt), 'PP') : null;
+  const verificationUrl = getCertificateVerificationUrl(details.certificateNumber, origin);
+  const qrSize = 110;
+  const qrX = PAGE_WIDTH - 60 - qrSize;
+
+  const content = [
+    '0.86 0.15 0.15 RG 3 w',
+    `20 20 ${PAGE_WIDTH - 40} ${PAGE_HEIGHT - 40} re S`,
+    '0.99 0.8 0.8 RG 1 w',
+    `30 30 ${PAGE_WIDTH - 60} ${PAGE_HEIGHT - 60} re S`,
+    drawText('LifeLink', 520, { font: 'bold', size: 16, color: '0.86 0.15 0.15' }),
+    drawText('Certificate of Blood Donation', 470, { font: 'bold', size: 30, color: '0.07 0.09 0.15' }),
+    drawText('This certifies that', 420),
+    drawText(details.donorName, 385, { font: 'bold', size: 26, color: '0.07 0.09 0.15' }),
+    drawText(
+      `has donated ${details.unitsConfirmed} unit(s) of ${details.bloodType} blood on`,
+      345
+    ),
+    drawText(donationDate, 318, { font: 'bold', size: 18, color: '0.07 0.09 0.15' }),
+    drawText('at', 292),
+    drawText(details.hospitalName, 265, { font: 'bold', size: 18, color: '0.07 0.09 0.15' }),
+    drawText(`Certificate No: ${details.certificateNumber}`, 110, { size: 11, x: 60 }),
+    issuedAt ? drawText(`Issued on ${issuedAt}`, 92, { size: 11, x: 60 }) : '',
+    drawText(`Verify at ${verificationUrl}`, 74, { size: 9, x: 60, color: '0.4 0.4 0.4' }),
+    drawQr(getCertificateQrModules(details.certificateNumber, origin), qrX, 70, qrSize),
+    drawText('Scan to verify', 54, {
+      size: 9,
+      x: qrX + (qrSize - textWidth('Scan to verify', 'regular', 9)) / 2,
+      color: '0.4 0.4 0.4',
+    }),
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+    `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+      '/Resources << /Font << /F1 5 0 R /F2 6 0 R >> >> /Contents 4 0 R >>',
+    `<< /Length ${content.length} >>\nstream\n${content}\nendstream`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>',
+    `<< /Title (${escapePdfText(toLatin1(`Donation certificate ${details.certificateNumber}`))}) ` +
+      '/Producer (LifeLink) >>',
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((body, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${body}\nendobj\n`;
+    return offset;
+  });
+
+  const xrefOffset = pdf.length;
+  pdf += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+  pdf += offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+  pdf += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info ${objects.length} 0 R >>\n`;
+  pdf += `startxref\n${xrefOffset}\n%%EOF\n`;
+
+  return pdf;
+}
+
+export function downloadCertificatePdf(details: CertificateDetails) {
+  const pdf = buildCertificatePdf(details);
+  const bytes = Uint8Array.from(pdf, (ch) => ch.charCodeAt(0));
+  const url = URL.createObjectURL(new Blob([bytes], { type: 'application/pdf' }));
+
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = `${details.certificateNumber}.pdf`;
+  document.body.appendChild(link);
+  link.click();
+  link.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 0);
+}
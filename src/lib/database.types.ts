@@ -0,0 +1,2964 @@
+export type Json =
+  | string
+  | number
+  | boolean
+  | null
+  | { [key: string]: Json | undefined }
+  | Json[]
+
+export type Database = {
+  public: {
+    Tables: {
+      appointment_reminders: {
+        Row: {
+          id: string
+          facility_type: string
+          donation_id: string
+          user_id: string
+          kind: string
+          notification_id: string | null
+          sent_at: string
+        }
+        Insert: {
+          id?: string
+          facility_type: string
+          donation_id: string
+          user_id: string
+          kind: string
+          notification_id?: string | null
+          sent_at?: string
+        }
+        Update: {
+          id?: string
+          facility_type?: string
+          donation_id?: string
+          user_id?: string
+          kind?: string
+          notification_id?: string | null
+          sent_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "appointment_reminders_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: false
+            referencedRelation: "notifications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      blood_bank_notifications: {
+        Row: {
+          id: string
+          blood_bank_id: string
+          request_id: string | null
+          type: string
+          unit_id: string | null
+          message: string | null
+          status: string
+          blood_bank_confirmed: boolean
+          blood_bank_confirmation_date: string | null
+          blood_bank_notes: string | null
+          units_provided: number | null
+          created_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          blood_bank_id: string
+          request_id?: string | null
+          type?: string
+          unit_id?: string | null
+          message?: string | null
+          status?: string
+          blood_bank_confirmed?: boolean
+          blood_bank_confirmation_date?: string | null
+          blood_bank_notes?: string | null
+          units_provided?: number | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          blood_bank_id?: string
+          request_id?: string | null
+          type?: string
+          unit_id?: string | null
+          message?: string | null
+          status?: string
+          blood_bank_confirmed?: boolean
+          blood_bank_confirmation_date?: string | null
+          blood_bank_notes?: string | null
+          units_provided?: number | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blood_bank_notifications_blood_bank_id_fkey"
+            columns: ["blood_bank_id"]
+            isOneToOne: false
+            referencedRelation: "blood_banks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "blood_bank_notifications_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "blood_bank_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "blood_bank_notifications_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "blood_units"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      blood_bank_requests: {
+        Row: {
+          id: string
+          user_id: string
+          blood_bank_id: string | null
+          patient_name: string
+          blood_type: string
+          component_type: string
+          units_required: number
+          hospital_name: string
+          hospital_address: string
+          contact_person: string
+          contact_number: string
+          urgency_level: string
+          status: string
+          notes: string | null
+          latitude: number | null
+          longitude: number | null
+          recipient_confirmed: boolean
+          recipient_confirmation_date: string | null
+          recipient_notes: string | null
+          created_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          blood_bank_id?: string | null
+          patient_name: string
+          blood_type: string
+          component_type?: string
+          units_required: number
+          hospital_name: string
+          hospital_address: string
+          contact_person: string
+          contact_number: string
+          urgency_level?: string
+          status?: string
+          notes?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          recipient_confirmed?: boolean
+          recipient_confirmation_date?: string | null
+          recipient_notes?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          blood_bank_id?: string | null
+          patient_name?: string
+          blood_type?: string
+          component_type?: string
+          units_required?: number
+          hospital_name?: string
+          hospital_address?: string
+          contact_person?: string
+          contact_number?: string
+          urgency_level?: string
+          status?: string
+          notes?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          recipient_confirmed?: boolean
+          recipient_confirmation_date?: string | null
+          recipient_notes?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blood_bank_requests_blood_bank_id_fkey"
+            columns: ["blood_bank_id"]
+            isOneToOne: false
+            referencedRelation: "blood_banks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      blood_bank_slots: {
+        Row: {
+          id: string
+          blood_bank_id: string
+          day_of_week: number
+          day_of_week_text: string
+          start_time: string
+          end_time: string
+          capacity: number
+          max_donors_per_slot: number
+          booked_count: number
+          template_id: string | null
+          slot_date: string | null
+          starts_at: string | null
+          ends_at: string | null
+          created_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          blood_bank_id: string
+          day_of_week: number
+          day_of_week_text: string
+          start_time: string
+          end_time: string
+          capacity?: number
+          max_donors_per_slot?: number
+          booked_count?: number
+          template_id?: string | null
+          slot_date?: string | null
+          starts_at?: string | null
+          ends_at?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          blood_bank_id?: string
+          day_of_week?: number
+          day_of_week_text?: string
+          start_time?: string
+          end_time?: string
+          capacity?: number
+          max_donors_per_slot?: number
+          booked_count?: number
+          template_id?: string | null
+          slot_date?: string | null
+          starts_at?: string | null
+          ends_at?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blood_bank_slots_blood_bank_id_fkey"
+            columns: ["blood_bank_id"]
+            isOneToOne: false
+            referencedRelation: "blood_banks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "blood_bank_slots_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "slot_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      blood_banks: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          address: string
+          city: string | null
+          state: string | null
+          contact_number: string
+          phone: string | null
+          email: string
+          license_number: string
+          license_document_url: string | null
+          license_document_path: string | null
+          website: string | null
+          operating_hours: string | null
+          latitude: number | null
+          longitude: number | null
+          is_verified: boolean
+          is_license_verified: boolean
+          status: string
+          timezone: string
+          created_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          address: string
+          city?: string | null
+          state?: string | null
+          contact_number: string
+          phone?: string | null
+          email: string
+          license_number: string
+          license_document_url?: string | null
+          license_document_path?: string | null
+          website?: string | null
+          operating_hours?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          is_verified?: boolean
+          is_license_verified?: boolean
+          status?: string
+          timezone?: string
+          created_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          address?: string
+          city?: string | null
+          state?: string | null
+          contact_number?: string
+          phone?: string | null
+          email?: string
+          license_number?: string
+          license_document_url?: string | null
+          license_document_path?: string | null
+          website?: string | null
+          operating_hours?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          is_verified?: boolean
+          is_license_verified?: boolean
+          status?: string
+          timezone?: string
+          created_at?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      blood_donations: {
+        Row: {
+          id: string
+          donor_id: string
+          request_id: string | null
+          donation_date: string
+          units_donated: number
+          hospital_name: string | null
+          hospital_address: string | null
+          blood_type: string | null
+          patient_name: string | null
+          status: string
+          verification_status: string
+          donor_confirmed: boolean
+          recipient_confirmed: boolean
+          points_earned: number
+          notes: string | null
+          created_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          donor_id: string
+          request_id?: string | null
+          donation_date: string
+          units_donated?: number
+          hospital_name?: string | null
+          hospital_address?: string | null
+          blood_type?: string | null
+          patient_name?: string | null
+          status?: string
+          verification_status?: string
+          donor_confirmed?: boolean
+          recipient_confirmed?: boolean
+          points_earned?: number
+          notes?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          donor_id?: string
+          request_id?: string | null
+          donation_date?: string
+          units_donated?: number
+          hospital_name?: string | null
+          hospital_address?: string | null
+          blood_type?: string | null
+          patient_name?: string | null
+          status?: string
+          verification_status?: string
+          donor_confirmed?: boolean
+          recipient_confirmed?: boolean
+          points_earned?: number
+          notes?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blood_donations_donor_id_fkey"
+            columns: ["donor_id"]
+            isOneToOne: false
+            referencedRelation: "donors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "blood_donations_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "emergency_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      blood_inventory: {
+        Row: {
+          id: string
+          blood_bank_id: string
+          blood_type: string
+          component_type: string
+          units_available: number
+          last_updated: string | null
+          created_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          blood_bank_id: string
+          blood_type: string
+          component_type?: string
+          units_available?: number
+          last_updated?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          blood_bank_id?: string
+          blood_type?: string
+          component_type?: string
+          units_available?: number
+          last_updated?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blood_inventory_blood_bank_id_fkey"
+            columns: ["blood_bank_id"]
+            isOneToOne: false
+            referencedRelation: "blood_banks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      blood_unit_events: {
+        Row: {
+          id: string
+          unit_id: string
+          blood_bank_id: string
+          event_type: string
+          from_status: string | null
+          to_status: string
+          request_id: string | null
+          notes: string | null
+          performed_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          unit_id: string
+          blood_bank_id: string
+          event_type: string
+          from_status?: string | null
+          to_status: string
+          request_id?: string | null
+          notes?: string | null
+          performed_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          unit_id?: string
+          blood_bank_id?: string
+          event_type?: string
+          from_status?: string | null
+          to_status?: string
+          request_id?: string | null
+          notes?: string | null
+          performed_by?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blood_unit_events_unit_id_fkey"
+            columns: ["unit_id"]
+            isOneToOne: false
+            referencedRelation: "blood_units"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "blood_unit_events_blood_bank_id_fkey"
+            columns: ["blood_bank_id"]
+            isOneToOne: false
+            referencedRelation: "blood_banks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      blood_units: {
+        Row: {
+          id: string
+          blood_bank_id: string
+          bag_id: string
+          blood_type: string
+          component_type: string
+          collection_date: string
+          expiry_date: string
+          status: string
+          source_donation_id: string | null
+          request_id: string | null
+          notes: string | null
+          created_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          blood_bank_id: string
+          bag_id: string
+          blood_type: string
+          component_type?: string
+          collection_date: string
+          expiry_date: string
+          status?: string
+          source_donation_id?: string | null
+          request_id?: string | null
+          notes?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          blood_bank_id?: string
+          bag_id?: string
+          blood_type?: string
+          component_type?: string
+          collection_date?: string
+          expiry_date?: string
+          status?: string
+          source_donation_id?: string | null
+          request_id?: string | null
+          notes?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "blood_units_blood_bank_id_fkey"
+            columns: ["blood_bank_id"]
+            isOneToOne: false
+            referencedRelation: "blood_banks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "blood_units_source_donation_id_fkey"
+            columns: ["source_donation_id"]
+            isOneToOne: false
+            referencedRelation: "blood_donations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "blood_units_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "blood_bank_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      camp_registrations: {
+        Row: {
+          id: string
+          camp_id: string
+          user_id: string
+          full_name: string
+          date_of_birth: string
+          blood_type: string
+          contact_number: string
+          last_donation_date: string | null
+          medical_conditions: string[] | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          camp_id: string
+          user_id: string
+          full_name: string
+          date_of_birth: string
+          blood_type: string
+          contact_number: string
+          last_donation_date?: string | null
+          medical_conditions?: string[] | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          camp_id?: string
+          user_id?: string
+          full_name?: string
+          date_of_birth?: string
+          blood_type?: string
+          contact_number?: string
+          last_donation_date?: string | null
+          medical_conditions?: string[] | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "camp_registrations_camp_id_fkey"
+            columns: ["camp_id"]
+            isOneToOne: false
+            referencedRelation: "donation_camps"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_messages: {
+        Row: {
+          id: string
+          room_id: string
+          sender_id: string
+          message: string
+          read_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          room_id: string
+          sender_id: string
+          message: string
+          read_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          room_id?: string
+          sender_id?: string
+          message?: string
+          read_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_messages_room_id_fkey"
+            columns: ["room_id"]
+            isOneToOne: false
+            referencedRelation: "chat_rooms"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chat_rooms: {
+        Row: {
+          id: string
+          donor_id: string
+          requester_id: string
+          request_id: string | null
+          status: string
+          created_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          donor_id: string
+          requester_id: string
+          request_id?: string | null
+          status?: string
+          created_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          donor_id?: string
+          requester_id?: string
+          request_id?: string | null
+          status?: string
+          created_at?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "chat_rooms_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "emergency_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      chatbot_interactions: {
+        Row: {
+          id: string
+          user_id: string | null
+          message: string
+          response: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id?: string | null
+          message: string
+          response: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string | null
+          message?: string
+          response?: string
+          created_at?: string
+        }
+        Relationships: []
+      }
+      community_chat_messages: {
+        Row: {
+          id: string
+          user_id: string
+          message: string
+          read_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          message: string
+          read_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          message?: string
+          read_at?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      contact_requests: {
+        Row: {
+          id: string
+          donor_id: string
+          recipient_name: string
+          contact_number: string
+          hospital_name: string
+          units_required: number
+          urgency_level: string
+          message: string | null
+          status: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          donor_id: string
+          recipient_name: string
+          contact_number: string
+          hospital_name: string
+          units_required: number
+          urgency_level?: string
+          message?: string | null
+          status?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          donor_id?: string
+          recipient_name?: string
+          contact_number?: string
+          hospital_name?: string
+          units_required?: number
+          urgency_level?: string
+          message?: string | null
+          status?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "contact_requests_donor_id_fkey"
+            columns: ["donor_id"]
+            isOneToOne: false
+            referencedRelation: "donors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      donation_adverse_events: {
+        Row: {
+          id: string
+          hospital_donation_id: string
+          hospital_id: string
+          donor_id: string
+          reaction: string
+          severity: string
+          notes: string | null
+          deferral_condition: string | null
+          recorded_by: string | null
+          occurred_at: string
+        }
+        Insert: {
+          id?: string
+          hospital_donation_id: string
+          hospital_id: string
+          donor_id: string
+          reaction: string
+          severity: string
+          notes?: string | null
+          deferral_condition?: string | null
+          recorded_by?: string | null
+          occurred_at?: string
+        }
+        Update: {
+          id?: string
+          hospital_donation_id?: string
+          hospital_id?: string
+          donor_id?: string
+          reaction?: string
+          severity?: string
+          notes?: string | null
+          deferral_condition?: string | null
+          recorded_by?: string | null
+          occurred_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "donation_adverse_events_hospital_donation_id_fkey"
+            columns: ["hospital_donation_id"]
+            isOneToOne: false
+            referencedRelation: "hospital_donations"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "donation_adverse_events_hospital_id_fkey"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "donation_adverse_events_donor_id_fkey"
+            columns: ["donor_id"]
+            isOneToOne: false
+            referencedRelation: "donors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      donation_camps: {
+        Row: {
+          id: string
+          organizer_id: string
+          name: string
+          description: string | null
+          location: string
+          camp_date: string
+          start_time: string
+          end_time: string
+          organizer_name: string
+          organizer_contact: string
+          max_participants: number
+          current_participants: number
+          status: string
+          created_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          organizer_id: string
+          name: string
+          description?: string | null
+          location: string
+          camp_date: string
+          start_time: string
+          end_time: string
+          organizer_name: string
+          organizer_contact: string
+          max_participants: number
+          current_participants?: number
+          status?: string
+          created_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          organizer_id?: string
+          name?: string
+          description?: string | null
+          location?: string
+          camp_date?: string
+          start_time?: string
+          end_time?: string
+          organizer_name?: string
+          organizer_contact?: string
+          max_participants?: number
+          current_participants?: number
+          status?: string
+          created_at?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      donation_certificates: {
+        Row: {
+          id: string
+          donation_id: string
+          certificate_number: string
+          certificate_url: string | null
+          issued_at: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          donation_id: string
+          certificate_number: string
+          certificate_url?: string | null
+          issued_at?: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          donation_id?: string
+          certificate_number?: string
+          certificate_url?: string | null
+          issued_at?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "donation_certificates_donation_id_fkey"
+            columns: ["donation_id"]
+            isOneToOne: false
+            referencedRelation: "blood_donations"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      donation_schedules: {
+        Row: {
+          id: string
+          emergency_request_id: string | null
+          donor_id: string
+          requester_id: string
+          scheduled_date: string
+          scheduled_time: string
+          status: string
+          notes: string | null
+          hospital_name: string | null
+          hospital_address: string | null
+          patient_name: string | null
+          patient_blood_group: string | null
+          cancelled_at: string | null
+          cancelled_by: string | null
+          pre_donation_questionnaire: Json | null
+          created_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          emergency_request_id?: string | null
+          donor_id: string
+          requester_id: string
+          scheduled_date: string
+          scheduled_time: string
+          status?: string
+          notes?: string | null
+          hospital_name?: string | null
+          hospital_address?: string | null
+          patient_name?: string | null
+          patient_blood_group?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          pre_donation_questionnaire?: Json | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          emergency_request_id?: string | null
+          donor_id?: string
+          requester_id?: string
+          scheduled_date?: string
+          scheduled_time?: string
+          status?: string
+          notes?: string | null
+          hospital_name?: string | null
+          hospital_address?: string | null
+          patient_name?: string | null
+          patient_blood_group?: string | null
+          cancelled_at?: string | null
+          cancelled_by?: string | null
+          pre_donation_questionnaire?: Json | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "donation_schedules_donor_id_fkey"
+            columns: ["donor_id"]
+            isOneToOne: false
+            referencedRelation: "donors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "donation_schedules_emergency_request_id_fkey"
+            columns: ["emergency_request_id"]
+            isOneToOne: false
+            referencedRelation: "emergency_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      donor_availability_windows: {
+        Row: {
+          id: string
+          donor_id: string
+          weekday: number
+          start_time: string
+          end_time: string
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          donor_id: string
+          weekday: number
+          start_time: string
+          end_time: string
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          donor_id?: string
+          weekday?: number
+          start_time?: string
+          end_time?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "donor_availability_windows_donor_id_fkey"
+            columns: ["donor_id"]
+            isOneToOne: false
+            referencedRelation: "donors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      donor_responses: {
+        Row: {
+          id: string
+          request_id: string
+          donor_id: string
+          status: string
+          response: string | null
+          accepted_at: string | null
+          rejected_at: string | null
+          created_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          request_id: string
+          donor_id: string
+          status?: string
+          response?: string | null
+          accepted_at?: string | null
+          rejected_at?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          request_id?: string
+          donor_id?: string
+          status?: string
+          response?: string | null
+          accepted_at?: string | null
+          rejected_at?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "donor_responses_donor_id_fkey"
+            columns: ["donor_id"]
+            isOneToOne: false
+            referencedRelation: "donors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "donor_responses_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "emergency_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      donor_rewards: {
+        Row: {
+          id: string
+          donor_id: string
+          points: number
+          lifetime_donations: number
+          current_tier: string
+          achievements: Json
+          created_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          donor_id: string
+          points?: number
+          lifetime_donations?: number
+          current_tier?: string
+          achievements?: Json
+          created_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          donor_id?: string
+          points?: number
+          lifetime_donations?: number
+          current_tier?: string
+          achievements?: Json
+          created_at?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "donor_rewards_donor_id_fkey"
+            columns: ["donor_id"]
+            isOneToOne: true
+            referencedRelation: "donors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      donor_snoozes: {
+        Row: {
+          id: string
+          donor_id: string
+          starts_at: string
+          ends_at: string
+          reason: string
+          notes: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          donor_id: string
+          starts_at?: string
+          ends_at: string
+          reason: string
+          notes?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          donor_id?: string
+          starts_at?: string
+          ends_at?: string
+          reason?: string
+          notes?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "donor_snoozes_donor_id_fkey"
+            columns: ["donor_id"]
+            isOneToOne: false
+            referencedRelation: "donors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      donors: {
+        Row: {
+          id: string
+          user_id: string
+          first_name: string
+          last_name: string
+          date_of_birth: string
+          blood_type: string | null
+          gender: string
+          phone: string
+          address: string
+          medical_conditions: string[] | null
+          last_donation_date: string | null
+          medical_condition_dates: Json
+          last_donation_component: string
+          weight_kg: number | null
+          hemoglobin_g_dl: number | null
+          is_available: boolean
+          status: string
+          on_call_for_emergencies: boolean
+          availability_timezone: string
+          latitude: number | null
+          longitude: number | null
+          response_rate: number
+          blood_group_document_url: string | null
+          blood_group_document_path: string | null
+          is_blood_group_verified: boolean
+          blood_group_verified_at: string | null
+          is_blood_group_unknown: boolean
+          needs_blood_test: boolean
+          created_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          first_name: string
+          last_name: string
+          date_of_birth: string
+          blood_type?: string | null
+          gender: string
+          phone: string
+          address: string
+          medical_conditions?: string[] | null
+          last_donation_date?: string | null
+          medical_condition_dates?: Json
+          last_donation_component?: string
+          weight_kg?: number | null
+          hemoglobin_g_dl?: number | null
+          is_available?: boolean
+          status?: string
+          on_call_for_emergencies?: boolean
+          availability_timezone?: string
+          latitude?: number | null
+          longitude?: number | null
+          response_rate?: number
+          blood_group_document_url?: string | null
+          blood_group_document_path?: string | null
+          is_blood_group_verified?: boolean
+          blood_group_verified_at?: string | null
+          is_blood_group_unknown?: boolean
+          needs_blood_test?: boolean
+          created_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          first_name?: string
+          last_name?: string
+          date_of_birth?: string
+          blood_type?: string | null
+          gender?: string
+          phone?: string
+          address?: string
+          medical_conditions?: string[] | null
+          last_donation_date?: string | null
+          medical_condition_dates?: Json
+          last_donation_component?: string
+          weight_kg?: number | null
+          hemoglobin_g_dl?: number | null
+          is_available?: boolean
+          status?: string
+          on_call_for_emergencies?: boolean
+          availability_timezone?: string
+          latitude?: number | null
+          longitude?: number | null
+          response_rate?: number
+          blood_group_document_url?: string | null
+          blood_group_document_path?: string | null
+          is_blood_group_verified?: boolean
+          blood_group_verified_at?: string | null
+          is_blood_group_unknown?: boolean
+          needs_blood_test?: boolean
+          created_at?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      emergency_requests: {
+        Row: {
+          id: string
+          user_id: string
+          patient_name: string
+          blood_type: string
+          component_type: string
+          units_required: number
+          hospital_name: string
+          hospital_address: string
+          contact_person: string
+          contact_number: string
+          notes: string | null
+          urgency_level: string
+          status: string
+          latitude: number | null
+          longitude: number | null
+          is_panic: boolean
+          accepted_donor_id: string | null
+          fulfilled_by: string | null
+          fulfilled_at: string | null
+          units_pledged: number
+          units_collected: number
+          created_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          patient_name: string
+          blood_type: string
+          component_type?: string
+          units_required: number
+          hospital_name: string
+          hospital_address: string
+          contact_person: string
+          contact_number: string
+          notes?: string | null
+          urgency_level?: string
+          status?: string
+          latitude?: number | null
+          longitude?: number | null
+          is_panic?: boolean
+          accepted_donor_id?: string | null
+          fulfilled_by?: string | null
+          fulfilled_at?: string | null
+          units_pledged?: number
+          units_collected?: number
+          created_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          patient_name?: string
+          blood_type?: string
+          component_type?: string
+          units_required?: number
+          hospital_name?: string
+          hospital_address?: string
+          contact_person?: string
+          contact_number?: string
+          notes?: string | null
+          urgency_level?: string
+          status?: string
+          latitude?: number | null
+          longitude?: number | null
+          is_panic?: boolean
+          accepted_donor_id?: string | null
+          fulfilled_by?: string | null
+          fulfilled_at?: string | null
+          units_pledged?: number
+          units_collected?: number
+          created_at?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "emergency_requests_accepted_donor_id_fkey"
+            columns: ["accepted_donor_id"]
+            isOneToOne: false
+            referencedRelation: "donors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      geocode_cache: {
+        Row: {
+          address_key: string
+          latitude: number
+          longitude: number
+          formatted_address: string
+          provider: string
+          confidence: number
+          cached_at: string
+        }
+        Insert: {
+          address_key: string
+          latitude: number
+          longitude: number
+          formatted_address: string
+          provider: string
+          confidence: number
+          cached_at?: string
+        }
+        Update: {
+          address_key?: string
+          latitude?: number
+          longitude?: number
+          formatted_address?: string
+          provider?: string
+          confidence?: number
+          cached_at?: string
+        }
+        Relationships: []
+      }
+      hospital_calendar_feeds: {
+        Row: {
+          hospital_id: string
+          token: string
+          created_at: string
+        }
+        Insert: {
+          hospital_id: string
+          token?: string
+          created_at?: string
+        }
+        Update: {
+          hospital_id?: string
+          token?: string
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hospital_calendar_feeds_hospital_id_fkey"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hospital_donation_slots: {
+        Row: {
+          id: string
+          hospital_id: string
+          date: string | null
+          day_of_week: string | null
+          start_time: string
+          end_time: string
+          capacity: number
+          booked_count: number
+          is_recurring: boolean
+          template_id: string | null
+          starts_at: string | null
+          ends_at: string | null
+          created_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          hospital_id: string
+          date?: string | null
+          day_of_week?: string | null
+          start_time: string
+          end_time: string
+          capacity?: number
+          booked_count?: number
+          is_recurring?: boolean
+          template_id?: string | null
+          starts_at?: string | null
+          ends_at?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          hospital_id?: string
+          date?: string | null
+          day_of_week?: string | null
+          start_time?: string
+          end_time?: string
+          capacity?: number
+          booked_count?: number
+          is_recurring?: boolean
+          template_id?: string | null
+          starts_at?: string | null
+          ends_at?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hospital_donation_slots_hospital_id_fkey"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hospital_donation_slots_template_id_fkey"
+            columns: ["template_id"]
+            isOneToOne: false
+            referencedRelation: "slot_templates"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hospital_donations: {
+        Row: {
+          id: string
+          donor_id: string
+          hospital_id: string
+          slot_id: string | null
+          donation_date: string
+          scheduled_time: string | null
+          status: string
+          notes: string | null
+          blood_group_before_test: string | null
+          blood_group_after_test: string | null
+          verified_at: string | null
+          verified_by: string | null
+          needs_blood_test: boolean | null
+          units_donated: number | null
+          pre_donation_questionnaire: Json | null
+          hemoglobin_g_dl: number | null
+          systolic_bp: number | null
+          diastolic_bp: number | null
+          pulse_bpm: number | null
+          volume_collected_ml: number | null
+          bag_number: string | null
+          response_token: string
+          scheduled_at: string | null
+          created_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          donor_id: string
+          hospital_id: string
+          slot_id?: string | null
+          donation_date: string
+          scheduled_time?: string | null
+          status?: string
+          notes?: string | null
+          blood_group_before_test?: string | null
+          blood_group_after_test?: string | null
+          verified_at?: string | null
+          verified_by?: string | null
+          needs_blood_test?: boolean | null
+          units_donated?: number | null
+          pre_donation_questionnaire?: Json | null
+          hemoglobin_g_dl?: number | null
+          systolic_bp?: number | null
+          diastolic_bp?: number | null
+          pulse_bpm?: number | null
+          volume_collected_ml?: number | null
+          bag_number?: string | null
+          response_token?: string
+          scheduled_at?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          donor_id?: string
+          hospital_id?: string
+          slot_id?: string | null
+          donation_date?: string
+          scheduled_time?: string | null
+          status?: string
+          notes?: string | null
+          blood_group_before_test?: string | null
+          blood_group_after_test?: string | null
+          verified_at?: string | null
+          verified_by?: string | null
+          needs_blood_test?: boolean | null
+          units_donated?: number | null
+          pre_donation_questionnaire?: Json | null
+          hemoglobin_g_dl?: number | null
+          systolic_bp?: number | null
+          diastolic_bp?: number | null
+          pulse_bpm?: number | null
+          volume_collected_ml?: number | null
+          bag_number?: string | null
+          response_token?: string
+          scheduled_at?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "hospital_donations_donor_id_fkey"
+            columns: ["donor_id"]
+            isOneToOne: false
+            referencedRelation: "donors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hospital_donations_hospital_id_fkey"
+            columns: ["hospital_id"]
+            isOneToOne: false
+            referencedRelation: "hospitals"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "hospital_donations_slot_id_fkey"
+            columns: ["slot_id"]
+            isOneToOne: false
+            referencedRelation: "hospital_donation_slots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      hospitals: {
+        Row: {
+          id: string
+          user_id: string
+          name: string
+          address: string
+          phone: string
+          email: string
+          registration_number: string
+          license_document_url: string | null
+          license_document_path: string | null
+          website: string | null
+          operating_hours: string | null
+          latitude: number | null
+          longitude: number | null
+          is_license_verified: boolean
+          timezone: string
+          created_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          name: string
+          address: string
+          phone: string
+          email: string
+          registration_number: string
+          license_document_url?: string | null
+          license_document_path?: string | null
+          website?: string | null
+          operating_hours?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          is_license_verified?: boolean
+          timezone?: string
+          created_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          name?: string
+          address?: string
+          phone?: string
+          email?: string
+          registration_number?: string
+          license_document_url?: string | null
+          license_document_path?: string | null
+          website?: string | null
+          operating_hours?: string | null
+          latitude?: number | null
+          longitude?: number | null
+          is_license_verified?: boolean
+          timezone?: string
+          created_at?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      map_proxy_cache: {
+        Row: {
+          cache_key: string
+          service: string
+          response: Json
+          cached_at: string
+          expires_at: string
+        }
+        Insert: {
+          cache_key: string
+          service: string
+          response: Json
+          cached_at?: string
+          expires_at: string
+        }
+        Update: {
+          cache_key?: string
+          service?: string
+          response?: Json
+          cached_at?: string
+          expires_at?: string
+        }
+        Relationships: []
+      }
+      map_proxy_usage: {
+        Row: {
+          subject: string
+          window_start: string
+          request_count: number
+        }
+        Insert: {
+          subject: string
+          window_start: string
+          request_count?: number
+        }
+        Update: {
+          subject?: string
+          window_start?: string
+          request_count?: number
+        }
+        Relationships: []
+      }
+      notification_deliveries: {
+        Row: {
+          id: string
+          notification_id: string | null
+          user_id: string
+          event_type: string
+          channel: string
+          status: string
+          reason: string | null
+          created_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          notification_id?: string | null
+          user_id: string
+          event_type: string
+          channel: string
+          status: string
+          reason?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          notification_id?: string | null
+          user_id?: string
+          event_type?: string
+          channel?: string
+          status?: string
+          reason?: string | null
+          created_by?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_deliveries_notification_id_fkey"
+            columns: ["notification_id"]
+            isOneToOne: false
+            referencedRelation: "notifications"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_preferences: {
+        Row: {
+          user_id: string
+          in_app_enabled: boolean
+          sms_enabled: boolean
+          email_enabled: boolean
+          push_enabled: boolean
+          phone: string | null
+          email: string | null
+          push_token: string | null
+          muted_events: string[]
+          quiet_hours_start: string | null
+          quiet_hours_end: string | null
+          timezone: string
+          created_at: string
+          updated_at: string
+        }
+        Insert: {
+          user_id: string
+          in_app_enabled?: boolean
+          sms_enabled?: boolean
+          email_enabled?: boolean
+          push_enabled?: boolean
+          phone?: string | null
+          email?: string | null
+          push_token?: string | null
+          muted_events?: string[]
+          quiet_hours_start?: string | null
+          quiet_hours_end?: string | null
+          timezone?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Update: {
+          user_id?: string
+          in_app_enabled?: boolean
+          sms_enabled?: boolean
+          email_enabled?: boolean
+          push_enabled?: boolean
+          phone?: string | null
+          email?: string | null
+          push_token?: string | null
+          muted_events?: string[]
+          quiet_hours_start?: string | null
+          quiet_hours_end?: string | null
+          timezone?: string
+          created_at?: string
+          updated_at?: string
+        }
+        Relationships: []
+      }
+      notifications: {
+        Row: {
+          id: string
+          user_id: string
+          title: string
+          message: string
+          type: string
+          read: boolean
+          handled: boolean
+          data: Json | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          title: string
+          message: string
+          type: string
+          read?: boolean
+          handled?: boolean
+          data?: Json | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          title?: string
+          message?: string
+          type?: string
+          read?: boolean
+          handled?: boolean
+          data?: Json | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      profiles: {
+        Row: {
+          id: string
+          full_name: string | null
+          avatar_url: string | null
+          blood_type: string | null
+          created_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          id: string
+          full_name?: string | null
+          avatar_url?: string | null
+          blood_type?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          full_name?: string | null
+          avatar_url?: string | null
+          blood_type?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      request_pledges: {
+        Row: {
+          id: string
+          request_id: string
+          donor_id: string | null
+          blood_bank_id: string | null
+          donor_response_id: string | null
+          units_pledged: number
+          units_collected: number
+          status: string
+          notes: string | null
+          created_by: string | null
+          created_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          request_id: string
+          donor_id?: string | null
+          blood_bank_id?: string | null
+          donor_response_id?: string | null
+          units_pledged: number
+          units_collected?: number
+          status?: string
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          request_id?: string
+          donor_id?: string | null
+          blood_bank_id?: string | null
+          donor_response_id?: string | null
+          units_pledged?: number
+          units_collected?: number
+          status?: string
+          notes?: string | null
+          created_by?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "request_pledges_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "emergency_requests"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "request_pledges_donor_id_fkey"
+            columns: ["donor_id"]
+            isOneToOne: false
+            referencedRelation: "donors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "request_pledges_blood_bank_id_fkey"
+            columns: ["blood_bank_id"]
+            isOneToOne: false
+            referencedRelation: "blood_banks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "request_pledges_donor_response_id_fkey"
+            columns: ["donor_response_id"]
+            isOneToOne: true
+            referencedRelation: "donor_responses"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      request_status_events: {
+        Row: {
+          id: string
+          request_kind: string
+          request_id: string
+          from_status: string | null
+          to_status: string
+          actor: string
+          note: string | null
+          changed_by: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          request_kind: string
+          request_id: string
+          from_status?: string | null
+          to_status: string
+          actor: string
+          note?: string | null
+          changed_by?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          request_kind?: string
+          request_id?: string
+          from_status?: string | null
+          to_status?: string
+          actor?: string
+          note?: string | null
+          changed_by?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      request_status_transitions: {
+        Row: {
+          request_kind: string
+          from_status: string
+          to_status: string
+          actor: string
+        }
+        Insert: {
+          request_kind: string
+          from_status: string
+          to_status: string
+          actor: string
+        }
+        Update: {
+          request_kind?: string
+          from_status?: string
+          to_status?: string
+          actor?: string
+        }
+        Relationships: []
+      }
+      scheduled_donations: {
+        Row: {
+          id: string
+          donor_id: string
+          blood_bank_id: string
+          slot_id: string | null
+          scheduled_date: string
+          scheduled_time: string | null
+          status: string
+          notes: string | null
+          pre_donation_questionnaire: Json | null
+          response_token: string
+          scheduled_at: string | null
+          created_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          donor_id: string
+          blood_bank_id: string
+          slot_id?: string | null
+          scheduled_date: string
+          scheduled_time?: string | null
+          status?: string
+          notes?: string | null
+          pre_donation_questionnaire?: Json | null
+          response_token?: string
+          scheduled_at?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          donor_id?: string
+          blood_bank_id?: string
+          slot_id?: string | null
+          scheduled_date?: string
+          scheduled_time?: string | null
+          status?: string
+          notes?: string | null
+          pre_donation_questionnaire?: Json | null
+          response_token?: string
+          scheduled_at?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "scheduled_donations_blood_bank_id_fkey"
+            columns: ["blood_bank_id"]
+            isOneToOne: false
+            referencedRelation: "blood_banks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_donations_donor_id_fkey"
+            columns: ["donor_id"]
+            isOneToOne: false
+            referencedRelation: "donors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "scheduled_donations_slot_id_fkey"
+            columns: ["slot_id"]
+            isOneToOne: false
+            referencedRelation: "blood_bank_slots"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      slot_closures: {
+        Row: {
+          id: string
+          facility_type: string
+          facility_id: string
+          closure_date: string
+          reason: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          facility_type: string
+          facility_id: string
+          closure_date: string
+          reason?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          facility_type?: string
+          facility_id?: string
+          closure_date?: string
+          reason?: string | null
+          created_at?: string
+        }
+        Relationships: []
+      }
+      slot_templates: {
+        Row: {
+          id: string
+          facility_type: string
+          facility_id: string
+          name: string | null
+          weekdays: number[]
+          start_time: string
+          end_time: string
+          slot_minutes: number
+          capacity: number
+          valid_from: string
+          valid_until: string | null
+          is_active: boolean
+          created_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          facility_type: string
+          facility_id: string
+          name?: string | null
+          weekdays: number[]
+          start_time: string
+          end_time: string
+          slot_minutes: number
+          capacity: number
+          valid_from?: string
+          valid_until?: string | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          facility_type?: string
+          facility_id?: string
+          name?: string | null
+          weekdays?: number[]
+          start_time?: string
+          end_time?: string
+          slot_minutes?: number
+          capacity?: number
+          valid_from?: string
+          valid_until?: string | null
+          is_active?: boolean
+          created_at?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      slot_waitlist_entries: {
+        Row: {
+          id: string
+          facility_type: string
+          facility_id: string
+          slot_id: string
+          slot_date: string
+          donor_id: string
+          notes: string | null
+          pre_donation_questionnaire: Json | null
+          status: string
+          promoted_donation_id: string | null
+          promoted_at: string | null
+          created_at: string
+        }
+        Insert: {
+          id?: string
+          facility_type: string
+          facility_id: string
+          slot_id: string
+          slot_date: string
+          donor_id: string
+          notes?: string | null
+          pre_donation_questionnaire?: Json | null
+          status?: string
+          promoted_donation_id?: string | null
+          promoted_at?: string | null
+          created_at?: string
+        }
+        Update: {
+          id?: string
+          facility_type?: string
+          facility_id?: string
+          slot_id?: string
+          slot_date?: string
+          donor_id?: string
+          notes?: string | null
+          pre_donation_questionnaire?: Json | null
+          status?: string
+          promoted_donation_id?: string | null
+          promoted_at?: string | null
+          created_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "slot_waitlist_entries_donor_id_fkey"
+            columns: ["donor_id"]
+            isOneToOne: false
+            referencedRelation: "donors"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sos_broadcasts: {
+        Row: {
+          request_id: string
+          user_id: string
+          latitude: number
+          longitude: number
+          stage: number
+          radius_km: number
+          stage_started_at: string
+          target_acceptances: number
+          status: string
+          stage_radii_km: number[]
+          stage_wait_minutes: number[]
+          created_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          request_id: string
+          user_id?: string
+          latitude: number
+          longitude: number
+          stage?: number
+          radius_km: number
+          stage_started_at?: string
+          target_acceptances?: number
+          status?: string
+          stage_radii_km?: number[]
+          stage_wait_minutes?: number[]
+          created_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          request_id?: string
+          user_id?: string
+          latitude?: number
+          longitude?: number
+          stage?: number
+          radius_km?: number
+          stage_started_at?: string
+          target_acceptances?: number
+          status?: string
+          stage_radii_km?: number[]
+          stage_wait_minutes?: number[]
+          created_at?: string
+          updated_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sos_broadcasts_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: true
+            referencedRelation: "emergency_requests"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      sos_recipients: {
+        Row: {
+          id: string
+          request_id: string
+          donor_id: string | null
+          blood_bank_id: string | null
+          stage: number
+          radius_km: number
+          distance_km: number
+          notified_at: string
+        }
+        Insert: {
+          id?: string
+          request_id: string
+          donor_id?: string | null
+          blood_bank_id?: string | null
+          stage: number
+          radius_km: number
+          distance_km: number
+          notified_at?: string
+        }
+        Update: {
+          id?: string
+          request_id?: string
+          donor_id?: string | null
+          blood_bank_id?: string | null
+          stage?: number
+          radius_km?: number
+          distance_km?: number
+          notified_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sos_recipients_request_id_fkey"
+            columns: ["request_id"]
+            isOneToOne: false
+            referencedRelation: "sos_broadcasts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sos_recipients_donor_id_fkey"
+            columns: ["donor_id"]
+            isOneToOne: false
+            referencedRelation: "donors"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "sos_recipients_blood_bank_id_fkey"
+            columns: ["blood_bank_id"]
+            isOneToOne: false
+            referencedRelation: "blood_banks"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      user_locations: {
+        Row: {
+          id: string
+          user_id: string
+          blood_type: string | null
+          latitude: number
+          longitude: number
+          is_available: boolean
+          last_updated: string | null
+          created_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          blood_type?: string | null
+          latitude: number
+          longitude: number
+          is_available?: boolean
+          last_updated?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          blood_type?: string | null
+          latitude?: number
+          longitude?: number
+          is_available?: boolean
+          last_updated?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+      user_profiles: {
+        Row: {
+          id: string
+          user_id: string
+          full_name: string
+          blood_group: string | null
+          date_of_birth: string | null
+          contact_number: string | null
+          created_at: string
+          updated_at: string | null
+        }
+        Insert: {
+          id?: string
+          user_id: string
+          full_name: string
+          blood_group?: string | null
+          date_of_birth?: string | null
+          contact_number?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Update: {
+          id?: string
+          user_id?: string
+          full_name?: string
+          blood_group?: string | null
+          date_of_birth?: string | null
+          contact_number?: string | null
+          created_at?: string
+          updated_at?: string | null
+        }
+        Relationships: []
+      }
+    }
+    Views: {
+      [_ in never]: never
+    }
+    Functions: {
+      add_slot_closure: {
+        Args: {
+          p_facility_type: string
+          p_facility_id: string
+          p_date: string
+          p_reason?: string
+          p_dry_run?: boolean
+          p_cancel_conflicts?: boolean
+        }
+        Returns: {
+          donation_id: string
+          user_id: string
+          donor_name: string
+          scheduled_date: string
+          scheduled_time: string
+          reason: string
+        }[]
+      }
+      cache_geocode: {
+        Args: {
+          p_address_key: string
+          p_latitude: number
+          p_longitude: number
+          p_formatted_address: string
+          p_provider: string
+          p_confidence: number
+        }
+        Returns: undefined
+      }
+      cancel_donation_booking: {
+        Args: {
+          p_facility_type: string
+          p_donation_id: string
+          p_notes?: string
+        }
+        Returns: {
+          promoted_user_id: string
+          promoted_donation_id: string
+          scheduled_date: string
+          scheduled_time: string
+          facility_name: string
+        }[]
+      }
+      confirm_blood_bank_provision: {
+        Args: {
+          p_notification_id: string
+          p_units: number
+          p_notes?: string
+        }
+        Returns: {
+          id: string
+          bag_id: string
+          blood_type: string
+          component_type: string
+          collection_date: string
+          expiry_date: string
+        }[]
+      }
+      create_user_profile: {
+        Args: {
+          p_user_id: string
+          p_full_name: string
+          p_blood_group: string
+          p_date_of_birth: string
+          p_contact_number: string
+        }
+        Returns: string
+      }
+      donor_is_available: {
+        Args: {
+          p_donor_id: string
+          p_at?: string
+          p_emergency?: boolean
+        }
+        Returns: boolean
+      }
+      escalate_sos_broadcasts: {
+        Args: {
+          p_request_id?: string
+        }
+        Returns: number
+      }
+      facility_timezone: {
+        Args: {
+          p_facility_type: string
+          p_facility_id: string
+        }
+        Returns: string
+      }
+      find_blood_banks_with_slots: {
+        Args: {
+          p_date: string
+          p_donor_latitude: number
+          p_donor_longitude: number
+          p_radius_km: number
+        }
+        Returns: {
+          bank_id: string
+          name: string
+          address: string
+          city: string
+          state: string
+          phone: string
+          operating_hours: string
+          latitude: number
+          longitude: number
+          distance_km: number
+          has_slots: boolean
+          estimated_time_minutes: number
+        }[]
+      }
+      find_hospitals_with_slots: {
+        Args: {
+          p_date: string
+          p_donor_latitude: number
+          p_donor_longitude: number
+          p_radius_km: number
+        }
+        Returns: {
+          hospital_id: string
+          name: string
+          address: string
+          phone: string
+          email: string
+          operating_hours: string
+          latitude: number
+          longitude: number
+          distance_km: number
+          has_slots: boolean
+          estimated_time_minutes: number
+        }[]
+      }
+      find_matching_donors: {
+        Args: {
+          p_blood_type: string
+          lat: number
+          lng: number
+          radius_km: number
+        }
+        Returns: Json
+      }
+      find_nearby_donors: {
+        Args: {
+          p_latitude: number
+          p_longitude: number
+          p_radius_km: number
+          p_blood_types?: string[]
+          p_available_only?: boolean
+          p_emergency?: boolean
+          p_limit?: number
+        }
+        Returns: {
+          donor_id: string
+          distance_km: number
+        }[]
+      }
+      get_appointment_by_token: {
+        Args: {
+          p_token: string
+        }
+        Returns: {
+          facility_type: string
+          facility_name: string
+          scheduled_date: string
+          scheduled_time: string
+          status: string
+        }[]
+      }
+      get_available_slots: {
+        Args: {
+          p_date: string
+          p_facility_id: string
+          p_facility_type: string
+        }
+        Returns: {
+          id: string
+          day: string
+          start_time: string
+          end_time: string
+          capacity: number
+          booked_count: number
+          waitlist_count: number
+          available: boolean
+        }[]
+      }
+      get_cached_geocode: {
+        Args: {
+          p_address_key: string
+        }
+        Returns: {
+          address_key: string
+          latitude: number
+          longitude: number
+          formatted_address: string
+          provider: string
+          confidence: number
+          cached_at: string
+        }[]
+      }
+      get_donor_profile_data: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: {
+          id: string
+          donor_id: string
+          first_name: string
+          last_name: string
+          blood_type: string
+          last_donation_date: string | null
+          next_eligible_date: string | null
+          is_available: boolean
+          status: string
+          points: number
+          lifetime_donations: number
+          current_tier: string
+          achievements: Json
+          total_donations: number
+        }[]
+      }
+      get_hospital_calendar_feed_token: {
+        Args: {
+          p_hospital_id: string
+          p_reset?: boolean
+        }
+        Returns: string
+      }
+      get_hospital_scheduled_donations: {
+        Args: {
+          p_hospital_id: string
+        }
+        Returns: {
+          id: string
+          donor_id: string
+          donor_name: string
+          blood_type: string
+          donation_date: string
+          slot_time: string
+          status: string
+          notes: string | null
+          slot_id: string | null
+          verified_by: string | null
+          verified_at: string | null
+          blood_group_before_test: string | null
+          blood_group_after_test: string | null
+          units_donated: number | null
+          needs_blood_test: boolean
+        }[]
+      }
+      get_no_show_stats: {
+        Args: {
+          p_hospital_id: string
+          p_since: string
+        }
+        Returns: {
+          donor_id: string
+          donor_name: string
+          blood_type: string | null
+          bookings: number
+          no_shows: number
+          hospital_bookings: number
+          hospital_no_shows: number
+        }[]
+      }
+      get_notification_channels: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: {
+          in_app_enabled: boolean
+          sms_enabled: boolean
+          email_enabled: boolean
+          push_enabled: boolean
+          muted_events: string[]
+          quiet_hours_start: string | null
+          quiet_hours_end: string | null
+          timezone: string
+        }[]
+      }
+      handle_donation_confirmation: {
+        Args: {
+          p_request_id: string
+          p_donor_id: string
+          p_units_donated: number
+          p_hospital_name: string
+          p_hospital_address: string
+        }
+        Returns: undefined
+      }
+      hit_map_proxy_rate_limit: {
+        Args: {
+          p_subject: string
+          p_limit: number
+          p_window_seconds: number
+        }
+        Returns: boolean
+      }
+      is_valid_timezone: {
+        Args: {
+          p_timezone: string
+        }
+        Returns: boolean
+      }
+      issue_blood_units: {
+        Args: {
+          p_request_id: string
+          p_blood_bank_id: string
+          p_units: number
+        }
+        Returns: {
+          id: string
+          bag_id: string
+          blood_type: string
+          component_type: string
+          collection_date: string
+          expiry_date: string
+        }[]
+      }
+      join_slot_waitlist: {
+        Args: {
+          p_facility_type: string
+          p_slot_id: string
+          p_slot_date: string
+          p_notes?: string
+          p_questionnaire?: Json
+        }
+        Returns: number
+      }
+      leave_slot_waitlist: {
+        Args: {
+          p_entry_id: string
+        }
+        Returns: undefined
+      }
+      list_available_donor_ids: {
+        Args: {
+          p_emergency?: boolean
+          p_donor_ids?: string[]
+        }
+        Returns: {
+          donor_id: string
+        }[]
+      }
+      mark_community_messages_as_read: {
+        Args: {
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      mark_room_messages_as_read: {
+        Args: {
+          p_room_id: string
+          p_user_id: string
+        }
+        Returns: undefined
+      }
+      notify_expiring_blood_units: {
+        Args: {
+          p_days?: number
+          p_blood_bank_id?: string
+        }
+        Returns: number
+      }
+      record_donation_vitals: {
+        Args: {
+          p_donation_id: string
+          p_hemoglobin_g_dl?: number
+          p_systolic_bp?: number
+          p_diastolic_bp?: number
+          p_pulse_bpm?: number
+          p_volume_collected_ml?: number
+          p_bag_number?: string
+          p_reaction?: string
+          p_severity?: string
+          p_reaction_notes?: string
+        }
+        Returns: undefined
+      }
+      relay_user_notification: {
+        Args: {
+          p_user_id: string
+          p_event: string
+          p_channel: string
+          p_data: Json
+          p_notification_id?: string
+        }
+        Returns: undefined
+      }
+      remove_slot_closure: {
+        Args: {
+          p_closure_id: string
+        }
+        Returns: undefined
+      }
+      respond_to_appointment: {
+        Args: {
+          p_token: string
+          p_response: string
+        }
+        Returns: {
+          promoted_user_id: string
+          promoted_donation_id: string
+          scheduled_date: string
+          scheduled_time: string
+          facility_name: string
+        }[]
+      }
+      safe_delete_donation_slot: {
+        Args: {
+          p_slot_id: string
+          p_handle_existing: boolean
+        }
+        Returns: boolean
+      }
+      save_slot_template: {
+        Args: {
+          p_template_id: string | null
+          p_facility_type: string
+          p_facility_id: string
+          p_name: string | null
+          p_weekdays: number[]
+          p_start_time: string
+          p_end_time: string
+          p_slot_minutes: number
+          p_capacity: number
+          p_valid_from: string
+          p_valid_until: string | null
+          p_is_active: boolean
+          p_generate_until: string
+          p_dry_run?: boolean
+          p_cancel_conflicts?: boolean
+        }
+        Returns: {
+          donation_id: string
+          user_id: string
+          donor_name: string
+          scheduled_date: string
+          scheduled_time: string
+          reason: string
+        }[]
+      }
+      schedule_donation: {
+        Args: {
+          p_donor_id: string
+          p_facility_id: string
+          p_facility_type: string
+          p_slot_id: string
+          p_scheduled_date: string
+          p_scheduled_time: string
+          p_notes: string | null
+          p_questionnaire?: Json
+        }
+        Returns: string
+      }
+      search_donors: {
+        Args: {
+          p_available_only?: boolean
+          p_emergency?: boolean
+        }
+        Returns: {
+          id: string
+          user_id: string
+          first_name: string
+          last_name: string
+          date_of_birth: string
+          blood_type: string | null
+          gender: string
+          phone: string
+          address: string
+          medical_conditions: string[] | null
+          last_donation_date: string | null
+          medical_condition_dates: Json
+          last_donation_component: string
+          weight_kg: number | null
+          hemoglobin_g_dl: number | null
+          is_available: boolean
+          status: string
+          on_call_for_emergencies: boolean
+          availability_timezone: string
+          latitude: number | null
+          longitude: number | null
+          response_rate: number
+          blood_group_document_url: string | null
+          blood_group_document_path: string | null
+          is_blood_group_verified: boolean
+          blood_group_verified_at: string | null
+          is_blood_group_unknown: boolean
+          needs_blood_test: boolean
+          created_at: string
+          updated_at: string | null
+        }[]
+      }
+      slot_booking_count: {
+        Args: {
+          p_facility_type: string
+          p_slot_id: string
+          p_date: string
+        }
+        Returns: number
+      }
+      slot_runs_on: {
+        Args: {
+          p_facility_type: string
+          p_slot_id: string
+          p_date: string
+        }
+        Returns: boolean
+      }
+      start_sos_broadcast: {
+        Args: {
+          p_request_id: string
+          p_latitude: number
+          p_longitude: number
+          p_target_acceptances?: number
+          p_stage_wait_minutes?: number[]
+        }
+        Returns: number
+      }
+      transition_request_status: {
+        Args: {
+          p_request_kind: string
+          p_request_id: string
+          p_to_status: string
+          p_actor: string
+          p_note?: string
+        }
+        Returns: undefined
+      }
+      update_donor_location: {
+        Args: {
+          p_donor_id: string
+          p_latitude: number
+          p_longitude: number
+          p_accuracy: number | null
+        }
+        Returns: undefined
+      }
+      verify_donation_certificate: {
+        Args: {
+          p_certificate_number: string
+        }
+        Returns: {
+          certificate_number: string
+          issued_at: string
+          donor_name: string
+          blood_type: string | null
+          units_donated: number
+          donation_date: string
+          hospital_name: string | null
+          verification_status: string
+        }[]
+      }
+      verify_hospital_donation: {
+        Args: {
+          p_donation_id: string
+          p_status: string
+          p_verified_by: string
+          p_blood_group_after_test: string | null
+          p_notes: string | null
+          p_units_donated: number | null
+        }
+        Returns: boolean
+      }
+    }
+    Enums: {
+      [_ in never]: never
+    }
+    CompositeTypes: {
+      [_ in never]: never
+    }
+  }
+}
+
+type PublicSchema = Database['public']
+
+export type Tables<T extends keyof PublicSchema['Tables']> =
+  PublicSchema['Tables'][T]['Row']
+
+export type TablesInsert<T extends keyof PublicSchema['Tables']> =
+  PublicSchema['Tables'][T]['Insert']
+
+export type TablesUpdate<T extends keyof PublicSchema['Tables']> =
+  PublicSchema['Tables'][T]['Update']
+
+export type Functions<T extends keyof PublicSchema['Functions']> =
+  PublicSchema['Functions'][T]
@@ -1,11 +1,52 @@
 /**
- * Date utilities for consistent date handling across the application
+ * Date and time zone handling for donation scheduling.
+ *
+ * Slots are wall-clock times at the facility (a date plus HH:MM) and each
+ * hospital and blood bank has an IANA time zone. A booking's instant is that
+ * wall-clock time read in the facility's zone; the database keeps the same
+ * instant in `scheduled_at`. Every conversion between the two goes through
+ * this module so donors in other zones see the right local time.
  */
 
+/** Facilities registered before time zones were recorded are in India */
+export const DEFAULT_TIMEZONE = 'Asia/Kolkata';
+
+/** Zones offered when registering a facility; the browser's own is added */
+export const COMMON_TIMEZONES = [
+  'Asia/Kolkata',
+  'Asia/Dhaka',
+  'Asia/Kathmandu',
+  'Asia/Colombo',
+  'Asia/Dubai',
+  'Asia/Singapore',
+  'Europe/London',
+  'Europe/Berlin',
+  'America/New_York',
+  'America/Chicago',
+  'America/Los_Angeles',
+  'Australia/Sydney',
+  'UTC',
+];
+
+const WEEKDAY_NAMES = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+] as const;
+
+const MINUTE = 60_000;
+const DAY = 24 * 60 * MINUTE;
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
 /**
  * Get a standardized day of week string from a Date object
  * This ensures consistent day name formatting between frontend and backend
- * 
+ *
  * @param date The date to get the day name for
  * @returns A standardized day name (Monday, Tuesday, etc.)
  */
@@ -16,28 +57,18 @@ export function getDayOfWeek(date: Date): string {
 
 /**
  * Format a date as YYYY-MM-DD for database queries
- * Ensures the date is in UTC to prevent timezone issues
- * 
+ * Uses the calendar day the user picked, in their own time zone
+ *
  * @param date The date to format
  * @returns The date formatted as YYYY-MM-DD
  */
 export function formatDateForDB(date: Date): string {
-  // Create a new date object with the same year, month, and day
-  // This ensures we don't have timezone issues
-  const year = date.getFullYear();
-  const month = date.getMonth();
-  const day = date.getDate();
-  
-  // Create a new date with time set to noon to avoid timezone issues
-  const normalizedDate = new Date(Date.UTC(year, month, day, 12, 0, 0));
-  
-  // Format as YYYY-MM-DD
-  return normalizedDate.toISOString().split('T')[0];
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
 }
 
 /**
  * Format a date for display in the UI
- * 
+ *
  * @param date The date to format
  * @returns A user-friendly date string
  */
@@ -51,12 +82,204 @@ export function formatDateForDisplay(date: Date): string {
 }
 
 /**
- * Get a standardized SQL query for converting a date to a day name
- * This helps synchronize between frontend and backend day name format
- * 
- * @returns SQL fragment for extracting consistent day names
+ * Day name of a YYYY-MM-DD calendar date, matching Postgres
+ * `to_char(date, 'FMDay')`; the same everywhere, whatever the viewer's zone
+ */
+export function weekdayOfDate(date: string): string {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  return WEEKDAY_NAMES[new Date(Date.UTC(year, month - 1, day)).getUTCDay()];
+}
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/** The viewer's zone, e.g. for showing a facility's times in their own */
+export function getBrowserTimeZone() {
+  return Intl.DateTimeFormat().resolvedOptions().timeZone || DEFAULT_TIMEZONE;
+}
+
+/** Choices for a facility's zone, the browser's own first */
+export function timeZoneOptions(current: string = getBrowserTimeZone()) {
+  return [...new Set([current, ...COMMON_TIMEZONES])].map((zone) => ({
+    value: zone,
+    label: zone.replace(/_/g, ' '),
+  }));
+}
+
+export interface ZonedParts {
+  /** YYYY-MM-DD */
+  date: string;
+  /** HH:MM, 24-hour */
+  time: string;
+  weekday: string;
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+function partsFormatter(timeZone: string) {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      weekday: 'long',
+      hourCycle: 'h23',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+}
+
+function readParts(instant: Date, timeZone: string) {
+  const parts = partsFormatter(timeZone).formatToParts(instant);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+
+  return {
+    year: Number(part('year')),
+    month: Number(part('month')),
+    day: Number(part('day')),
+    hour: Number(part('hour')),
+    minute: Number(part('minute')),
+    second: Number(part('second')),
+    weekday: part('weekday'),
+  };
+}
+
+/** The wall-clock date and time an instant shows in a zone */
+export function toZonedParts(instant: Date | string, timeZone: string): ZonedParts {
+  const parts = readParts(new Date(instant), timeZone);
+
+  return {
+    date: `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`,
+    time: `${pad(parts.hour)}:${pad(parts.minute)}`,
+    weekday: parts.weekday,
+  };
+}
+
+/** Minutes the zone is ahead of UTC at an instant, e.g. 330 for India */
+export function getTimeZoneOffset(instant: Date, timeZone: string) {
+  const parts = readParts(instant, timeZone);
+  const asUtc = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  return Math.round((asUtc - Math.floor(instant.getTime() / 1000) * 1000) / MINUTE);
+}
+
+/**
+ * The instant a wall-clock time at a facility happens, as Postgres reads
+ * `(date + time) AT TIME ZONE zone`: a time skipped when clocks go forward
+ * uses the offset from before the change (02:30 becomes 03:30), and a time
+ * that happens twice when clocks go back is taken as the second, after the
+ * change.
+ */
+export function zonedTimeToInstant(date: string, time: string, timeZone: string) {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  const [hours, minutes, seconds = 0] = time.split(':').map(Number);
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes, seconds);
+
+  // Zones change offset at most once within a day either side
+  const offsetBefore = getTimeZoneOffset(new Date(wallClock - DAY), timeZone);
+  const offsetAfter = getTimeZoneOffset(new Date(wallClock + DAY), timeZone);
+  const candidates = [wallClock - offsetAfter * MINUTE, wallClock - offsetBefore * MINUTE].filter(
+    (candidate) =>
+      candidate + getTimeZoneOffset(new Date(candidate), timeZone) * MINUTE === wallClock
+  );
+
+  return new Date(candidates[0] ?? wallClock - offsetBefore * MINUTE);
+}
+
+/** e.g. "9:30 PM" */
+export function formatTimeInZone(instant: Date | string, timeZone: string) {
+  return new Date(instant).toLocaleTimeString('en-US', {
+    timeZone,
+    hour: 'numeric',
+    minute: '2-digit',
+  });
+}
+
+/** e.g. "GMT+5:30" or "EDT", as the viewer's locale names the zone */
+export function timeZoneLabel(instant: Date | string, timeZone: string) {
+  const parts = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' }).formatToParts(
+    new Date(instant)
+  );
+  return parts.find((part) => part.type === 'timeZoneName')?.value ?? timeZone;
+}
+
+export interface AppointmentTime {
+  /** Time at the facility, e.g. "11:30 PM" */
+  facilityTime: string;
+  facilityZone: string;
+  /** The viewer's own time when their zone shows a different time, else null */
+  viewerTime: string | null;
+  /** Set when the appointment falls on another calendar day for the viewer */
+  viewerDate: string | null;
+}
+
+/**
+ * A facility's slot as the facility and the viewer each see it, for donors
+ * booking from another zone
+ */
+export function describeAppointmentTime(
+  date: string,
+  time: string,
+  facilityTimeZone: string | null | undefined,
+  viewerTimeZone: string = getBrowserTimeZone()
+): AppointmentTime {
+  const zone = facilityTimeZone || DEFAULT_TIMEZONE;
+  const instant = zonedTimeToInstant(date, time, zone);
+  const facilityTime = formatTimeInZone(instant, zone);
+  const viewerTime = formatTimeInZone(instant, viewerTimeZone);
+  const viewerParts = toZonedParts(instant, viewerTimeZone);
+  const sameClock =
+    viewerTime === facilityTime && viewerParts.date === toZonedParts(instant, zone).date;
+
+  return {
+    facilityTime,
+    facilityZone: timeZoneLabel(instant, zone),
+    viewerTime: sameClock ? null : viewerTime,
+    viewerDate: viewerParts.date === date.slice(0, 10) ? null : viewerParts.date,
+  };
+}
+
+/**
+ * One line for lists: "9:00 AM" at home, or
+ * "11:30 PM GMT+5:30 · 2:00 PM your time" for a donor in another zone
  */
-export function getSQLDayOfWeekConversion(): string {
-  // Return the SQL function that matches our JS implementation
-  return "TO_CHAR(date, 'Day')";
-} 
\ No newline at end of file
+export function formatAppointmentTime(
+  date: string,
+  time: string,
+  facilityTimeZone: string | null | undefined,
+  viewerTimeZone?: string
+) {
+  const described = describeAppointmentTime(date, time, facilityTimeZone, viewerTimeZone);
+  if (!described.viewerTime) return described.facilityTime;
+
+  const viewerDay = described.viewerDate
+    ? ` ${new Date(`${described.viewerDate}T12:00:00Z`).toLocaleDateString('en-US', {
+        timeZone: 'UTC',
+        weekday: 'short',
+        month: 'short',
+        day: 'numeric',
+      })}`
+    : '';
+  return (
+    `${described.facilityTime} ${described.facilityZone} · ` +
+    `${described.viewerTime}${viewerDay} your time`
+  );
+}
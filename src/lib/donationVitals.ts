@@ -0,0 +1,117 @@
+import { format } from 'date-fns';
+import type { DonationVitalsFormData } from './validation';
+
+export const ADVERSE_REACTION_TYPES = [
+  'fainting',
+  'hematoma',
+  'nausea',
+  'dizziness',
+  'other',
+] as const;
+
+export type AdverseReaction = (typeof ADVERSE_REACTION_TYPES)[number];
+
+export const ADVERSE_REACTION_LABELS: Record<AdverseReaction, string> = {
+  fainting: 'Fainting',
+  hematoma: 'Hematoma (bruising)',
+  nausea: 'Nausea or vomiting',
+  dizziness: 'Dizziness',
+  other: 'Other',
+};
+
+export const REACTION_SEVERITIES = ['mild', 'moderate', 'severe'] as const;
+
+export type ReactionSeverity = (typeof REACTION_SEVERITIES)[number];
+
+/**
+ * The eligibility condition `record_donation_vitals` adds to the donor for
+ * each severity, see `DEFAULT_ELIGIBILITY_RULES`. Mild reactions only need
+ * the usual interval.
+ */
+export const ADVERSE_REACTION_DEFERRALS: Record<ReactionSeverity, string | null> = {
+  mild: null,
+  moderate: 'adverse_reaction',
+  severe: 'severe_adverse_reaction',
+};
+
+/** Arguments for `record_donation_vitals`, or null when nothing was entered */
+export function toRecordVitalsArgs(donationId: string, vitals: DonationVitalsFormData) {
+  const { reaction, severity, reaction_notes, bag_number, ...measurements } = vitals;
+  const hasMeasurements = Object.values(measurements).some((value) => value !== undefined);
+  if (!hasMeasurements && !bag_number && !reaction) return null;
+
+  return {
+    p_donation_id: donationId,
+    p_hemoglobin_g_dl: measurements.hemoglobin_g_dl,
+    p_systolic_bp: measurements.systolic_bp,
+    p_diastolic_bp: measurements.diastolic_bp,
+    p_pulse_bpm: measurements.pulse_bpm,
+    p_volume_collected_ml: measurements.volume_collected_ml,
+    p_bag_number: bag_number || undefined,
+    p_reaction: reaction || undefined,
+    p_severity: (reaction && severity) || undefined,
+    p_reaction_notes: (reaction && reaction_notes) || undefined,
+  };
+}
+
+export interface AdverseEventRecord {
+  reaction: string;
+  severity: string;
+  occurred_at: string;
+}
+
+export interface AdverseEventSummary {
+  total: number;
+  /** Events per 1,000 completed donations; null without donations */
+  ratePerThousand: number | null;
+  bySeverity: Record<ReactionSeverity, number>;
+  byReaction: Record<AdverseReaction, number>;
+}
+
+const isReaction = (value: string): value is AdverseReaction =>
+  (ADVERSE_REACTION_TYPES as readonly string[]).includes(value);
+
+const isSeverity = (value: string): value is ReactionSeverity =>
+  (REACTION_SEVERITIES as readonly string[]).includes(value);
+
+/** Totals for the adverse event report. Unknown reactions count as other. */
+export function summarizeAdverseEvents(
+  events: AdverseEventRecord[],
+  completedDonations: number
+): AdverseEventSummary {
+  const bySeverity = { mild: 0, moderate: 0, severe: 0 };
+  const byReaction = { fainting: 0, hematoma: 0, nausea: 0, dizziness: 0, other: 0 };
+
+  for (const event of events) {
+    byReaction[isReaction(event.reaction) ? event.reaction : 'other'] += 1;
+    if (isSeverity(event.severity)) bySeverity[event.severity] += 1;
+  }
+
+  return {
+    total: events.length,
+    ratePerThousand:
+      completedDonations > 0
+        ? Math.round((events.length / completedDonations) * 10000) / 10
+        : null,
+    bySeverity,
+    byReaction,
+  };
+}
+
+const csvCell = (value: string | null | undefined) => `"${(value ?? '').replace(/"/g, '""')}"`;
+
+/** The report rows as CSV for download */
+export function adverseEventsToCsv(
+  events: (AdverseEventRecord & { donor_name: string; notes: string | null })[]
+) {
+  const header = ['Date', 'Donor', 'Reaction', 'Severity', 'Notes'];
+  const rows = events.map((event) => [
+    format(new Date(event.occurred_at), 'yyyy-MM-dd HH:mm'),
+    event.donor_name,
+    isReaction(event.reaction) ? ADVERSE_REACTION_LABELS[event.reaction] : event.reaction,
+    event.severity,
+    event.notes,
+  ]);
+
+  return [header, ...rows].map((row) => row.map(csvCell).join(',')).join('\n');
+}
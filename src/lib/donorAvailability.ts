@@ -0,0 +1,171 @@
+/** Weekday numbering follows Date#getDay and Postgres `EXTRACT(DOW)`: 0 is Sunday */
+export const WEEKDAYS = [
+  'Sunday',
+  'Monday',
+  'Tuesday',
+  'Wednesday',
+  'Thursday',
+  'Friday',
+  'Saturday',
+] as const;
+
+export const SNOOZE_REASONS = {
+  travel: 'Travelling',
+  illness: 'Unwell',
+  tattoo: 'Recent tattoo or piercing',
+  other: 'Other',
+} as const;
+
+export type SnoozeReason = keyof typeof SNOOZE_REASONS;
+
+export interface AvailabilityWindow {
+  weekday: number;
+  /** `HH:MM` or `HH:MM:SS`; a window ending before it starts runs past midnight */
+  start_time: string;
+  end_time: string;
+}
+
+export interface DonorSnooze {
+  starts_at: string;
+  ends_at: string;
+  reason: string;
+}
+
+export interface DonorAvailabilitySettings {
+  is_available: boolean;
+  on_call_for_emergencies: boolean;
+  availability_timezone: string;
+}
+
+export const AVAILABILITY_PRESETS: Record<
+  string,
+  { label: string; windows: AvailabilityWindow[] }
+> = {
+  weekday_evenings: {
+    label: 'Weekday evenings',
+    windows: [1, 2, 3, 4, 5].map((weekday) => ({
+      weekday,
+      start_time: '18:00',
+      end_time: '22:00',
+    })),
+  },
+  weekends: {
+    label: 'Weekends',
+    windows: [6, 0].map((weekday) => ({ weekday, start_time: '09:00', end_time: '18:00' })),
+  },
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const getLocalWeekdayAndMinutes = (at: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    weekday: 'long',
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).formatToParts(at);
+  const part = (type: string) => parts.find((p) => p.type === type)?.value ?? '';
+
+  return {
+    weekday: WEEKDAYS.indexOf(part('weekday') as (typeof WEEKDAYS)[number]),
+    minutes: Number(part('hour')) * 60 + Number(part('minute')),
+  };
+};
+
+/** The snooze covering `at`, or the latest ending one when several overlap */
+export function getActiveSnooze<T extends DonorSnooze>(snoozes: T[], at: Date): T | null {
+  const active = snoozes.filter(
+    (snooze) => new Date(snooze.starts_at) <= at && at < new Date(snooze.ends_at)
+  );
+  if (active.length === 0) return null;
+
+  return active.reduce((latest, snooze) =>
+    new Date(snooze.ends_at) > new Date(latest.ends_at) ? snooze : latest
+  );
+}
+
+/**
+ * Whether `at`, read in the donor's time zone, falls inside one of their
+ * weekly windows. A window that runs past midnight continues into the
+ * following day. No windows means no restriction.
+ */
+export function isWithinAvailabilityWindows(
+  windows: AvailabilityWindow[],
+  at: Date,
+  timeZone: string
+) {
+  if (windows.length === 0) return true;
+
+  const { weekday, minutes } = getLocalWeekdayAndMinutes(at, timeZone);
+  const previousDay = (weekday + 6) % 7;
+
+  return windows.some((window) => {
+    const from = toMinutes(window.start_time);
+    const to = toMinutes(window.end_time);
+
+    if (from < to) {
+      return window.weekday === weekday && minutes >= from && minutes < to;
+    }
+    return (
+      (window.weekday === weekday && minutes >= from) ||
+      (window.weekday === previousDay && minutes < to)
+    );
+  });
+}
+
+export type DonorAvailabilityStatus =
+  | { available: true; reason: 'window' | 'on_call' | 'always' }
+  | { available: false; reason: 'unavailable' | 'snoozed' | 'outside_window'; until?: string };
+
+/**
+ * Whether a donor can be asked to donate at `at`. Snoozes always win; donors
+ * on call for emergencies are reachable for emergencies outside their windows.
+ * Mirrors `donor_is_available` in the database.
+ */
+export function getDonorAvailability(
+  donor: DonorAvailabilitySettings,
+  windows: AvailabilityWindow[],
+  snoozes: DonorSnooze[],
+  at: Date,
+  { emergency = false }: { emergency?: boolean } = {}
+): DonorAvailabilityStatus {
+  if (!donor.is_available) {
+    return { available: false, reason: 'unavailable' };
+  }
+
+  const snooze = getActiveSnooze(snoozes, at);
+  if (snooze) {
+    return { available: false, reason: 'snoozed', until: snooze.ends_at };
+  }
+
+  if (windows.length === 0) {
+    return { available: true, reason: 'always' };
+  }
+
+  if (isWithinAvailabilityWindows(windows, at, donor.availability_timezone)) {
+    return { available: true, reason: 'window' };
+  }
+
+  return emergency && donor.on_call_for_emergencies
+    ? { available: true, reason: 'on_call' }
+    : { available: false, reason: 'outside_window' };
+}
+
+/**
+ * Donors with `is_available` narrowed to whether they can be asked right
+ * now, given the ids from `list_available_donor_ids`
+ */
+export function applyCurrentAvailability<T extends { id: string; is_available: boolean }>(
+  donors: T[],
+  availableDonorIds: string[]
+): T[] {
+  const available = new Set(availableDonorIds);
+  return donors.map((donor) => ({
+    ...donor,
+    is_available: donor.is_available && available.has(donor.id),
+  }));
+}
@@ -0,0 +1,239 @@
+import { addDays, addYears, format, isAfter } from 'date-fns';
+import { COMPONENT_LABELS, isComponentType, type ComponentType } from './bloodComponents';
+
+export type EligibilityGender = 'male' | 'female' | 'other';
+
+export interface EligibilityRules {
+  minAgeYears: number;
+  maxAgeYears: number;
+  minWeightKg: number;
+  minHemoglobinGdl: Record<EligibilityGender, number>;
+  /** Days to wait after donating each component before donating again */
+  donationIntervalDays: Record<ComponentType, Record<EligibilityGender, number>>;
+  /**
+   * Conditions that defer donation for a number of days from their date.
+   * `staffOnly` ones are recorded by hospital staff, not reported by donors
+   */
+  temporaryDeferrals: Record<string, { label: string; days: number; staffOnly?: boolean }>;
+  /** Conditions that rule out donating altogether */
+  permanentDeferrals: Record<string, string>;
+}
+
+/**
+ * Defaults follow common blood transfusion guidelines; adjust them to the
+ * rules of the blood service in use.
+ */
+export const DEFAULT_ELIGIBILITY_RULES: EligibilityRules = {
+  minAgeYears: 18,
+  maxAgeYears: 65,
+  minWeightKg: 50,
+  minHemoglobinGdl: { male: 13, female: 12.5, other: 12.5 },
+  donationIntervalDays: {
+    whole_blood: { male: 90, female: 120, other: 90 },
+    packed_red_cells: { male: 120, female: 120, other: 120 },
+    platelets: { male: 7, female: 7, other: 7 },
+    plasma: { male: 28, female: 28, other: 28 },
+  },
+  temporaryDeferrals: {
+    recent_illness: { label: 'Cold, flu or fever', days: 14 },
+    recent_tattoo: { label: 'Tattoo, piercing or acupuncture', days: 365 },
+    recent_travel: { label: 'Travel to a malaria area', days: 90 },
+    medication: { label: 'Antibiotics or other medication', days: 7 },
+    pregnancy: { label: 'Pregnancy or childbirth', days: 365 },
+    adverse_reaction: {
+      label: 'Moderate reaction at a previous donation',
+      days: 180,
+      staffOnly: true,
+    },
+  },
+  permanentDeferrals: {
+    heart_disease: 'Heart disease',
+    severe_adverse_reaction: 'Severe reaction at a previous donation',
+  },
+};
+
+export interface EligibilityProfile {
+  gender?: string | null;
+  date_of_birth?: string | null;
+  last_donation_date?: string | null;
+  last_donation_component?: string | null;
+  medical_conditions?: string[] | null;
+  /** Condition → the date it last applied, e.g. `{ recent_tattoo: '2026-05-01' }` */
+  medical_condition_dates?: unknown;
+  weight_kg?: number | null;
+  hemoglobin_g_dl?: number | null;
+}
+
+export interface DeferralReason {
+  code: string;
+  message: string;
+  /** When the deferral ends; null when it lasts until the profile is updated */
+  until: Date | null;
+  permanent?: boolean;
+}
+
+export interface EligibilityResult {
+  eligible: boolean;
+  /** Null when eligibility cannot be regained by waiting */
+  nextEligibleDate: Date | null;
+  reasons: DeferralReason[];
+}
+
+const toGender = (gender: string | null | undefined): EligibilityGender =>
+  gender === 'male' || gender === 'female' ? gender : 'other';
+
+/**
+ * Days a donor must wait after donating `component`. Unknown components are
+ * treated as whole blood.
+ */
+export function getDonationIntervalDays(
+  gender: string | null | undefined,
+  component: string | null | undefined,
+  rules: EligibilityRules = DEFAULT_ELIGIBILITY_RULES
+) {
+  const componentType = component && isComponentType(component) ? component : 'whole_blood';
+  return rules.donationIntervalDays[componentType][toGender(gender)];
+}
+
+const getConditionDate = (dates: unknown, condition: string): Date | null => {
+  if (!dates || typeof dates !== 'object') return null;
+  const value = (dates as Record<string, unknown>)[condition];
+  return typeof value === 'string' && value ? new Date(value) : null;
+};
+
+/**
+ * Checks every rule and collects the reasons a donor cannot donate at `at`,
+ * with the date each deferral ends
+ */
+export function checkEligibility(
+  profile: EligibilityProfile,
+  {
+    at = new Date(),
+    rules = DEFAULT_ELIGIBILITY_RULES,
+  }: { at?: Date; rules?: EligibilityRules } = {}
+): EligibilityResult {
+  const reasons: DeferralReason[] = [];
+  const gender = toGender(profile.gender);
+
+  if (profile.date_of_birth) {
+    const birth = new Date(profile.date_of_birth);
+    const minAgeDate = addYears(birth, rules.minAgeYears);
+    if (isAfter(minAgeDate, at)) {
+      reasons.push({
+        code: 'too_young',
+        message: `Donors must be at least ${rules.minAgeYears} years old`,
+        until: minAgeDate,
+      });
+    } else if (!isAfter(addYears(birth, rules.maxAgeYears + 1), at)) {
+      reasons.push({
+        code: 'too_old',
+        message: `Donors must be ${rules.maxAgeYears} or younger`,
+        until: null,
+        permanent: true,
+      });
+    }
+  }
+
+  if (profile.weight_kg != null && profile.weight_kg < rules.minWeightKg) {
+    reasons.push({
+      code: 'low_weight',
+      message: `Donors must weigh at least ${rules.minWeightKg} kg`,
+      until: null,
+    });
+  }
+
+  const minHemoglobin = rules.minHemoglobinGdl[gender];
+  if (profile.hemoglobin_g_dl != null && profile.hemoglobin_g_dl < minHemoglobin) {
+    reasons.push({
+      code: 'low_hemoglobin',
+      message: `Hemoglobin must be at least ${minHemoglobin} g/dL`,
+      until: null,
+    });
+  }
+
+  if (profile.last_donation_date) {
+    const intervalDays = getDonationIntervalDays(gender, profile.last_donation_component, rules);
+    const eligibleFrom = addDays(new Date(profile.last_donation_date), intervalDays);
+    if (isAfter(eligibleFrom, at)) {
+      const component = COMPONENT_LABELS[
+        profile.last_donation_component && isComponentType(profile.last_donation_component)
+          ? profile.last_donation_component
+          : 'whole_blood'
+      ].toLowerCase();
+      reasons.push({
+        code: 'donation_interval',
+        message: `${intervalDays} days must pass after donating ${component}`,
+        until: eligibleFrom,
+      });
+    }
+  }
+
+  for (const condition of profile.medical_conditions ?? []) {
+    const permanent = rules.permanentDeferrals[condition];
+    if (permanent) {
+      reasons.push({ code: condition, message: permanent, until: null, permanent: true });
+      continue;
+    }
+
+    const deferral = rules.temporaryDeferrals[condition];
+    if (!deferral) continue;
+
+    const since = getConditionDate(profile.medical_condition_dates, condition);
+    const until = since ? addDays(since, deferral.days) : null;
+    if (!until || isAfter(until, at)) {
+      reasons.push({
+        code: condition,
+        message: since
+          ? `${deferral.label}: wait ${deferral.days} days`
+          : `${deferral.label}: add the date to your profile`,
+        until,
+      });
+    }
+  }
+
+  if (reasons.length === 0) {
+    return { eligible: true, nextEligibleDate: at, reasons };
+  }
+
+  const canWait = reasons.every((reason) => reason.until !== null);
+  return {
+    eligible: false,
+    nextEligibleDate: canWait
+      ? new Date(Math.max(...reasons.map((reason) => (reason.until as Date).getTime())))
+      : null,
+    reasons,
+  };
+}
+
+/** One-line summary of an eligibility check for donors */
+export function explainEligibility(result: EligibilityResult) {
+  if (result.eligible) return 'You are eligible to donate.';
+
+  const reasons = result.reasons.map((reason) => reason.message).join('; ');
+  if (result.reasons.some((reason) => reason.permanent)) {
+    return `You cannot donate: ${reasons}.`;
+  }
+  return result.nextEligibleDate
+    ? `You can donate again from ${format(result.nextEligibleDate, 'PPP')} (${reasons}).`
+    : `You cannot donate yet: ${reasons}.`;
+}
+
+/** The rules in plain language, e.g. for the help chatbot */
+export function describeEligibilityRules(rules: EligibilityRules = DEFAULT_ELIGIBILITY_RULES) {
+  const wholeBlood = rules.donationIntervalDays.whole_blood;
+  const deferrals = Object.values(rules.temporaryDeferrals)
+    .filter((deferral) => !deferral.staffOnly)
+    .map((deferral) => `  - ${deferral.label}: ${deferral.days} days`)
+    .join('\n');
+
+  return (
+    `- Be ${rules.minAgeYears} to ${rules.maxAgeYears} years old\n` +
+    `- Weigh at least ${rules.minWeightKg}kg\n` +
+    `- Have hemoglobin of at least ${rules.minHemoglobinGdl.male}g/dl (men) or ` +
+    `${rules.minHemoglobinGdl.female}g/dl (women)\n` +
+    `- Wait ${wholeBlood.male} days (men) or ${wholeBlood.female} days (women) after a ` +
+    `whole blood donation, ${rules.donationIntervalDays.platelets.male} days after platelets ` +
+    `and ${rules.donationIntervalDays.plasma.male} days after plasma\n` +
+    `- Wait after:\n${deferrals}`
+  );
+}
@@ -0,0 +1,252 @@
+import { differenceInDays } from 'date-fns';
+import { getCompatibleBloodTypes } from './validation';
+import { calculateDistance } from './geo';
+import { UNIVERSAL_DONOR_TYPES, isComponentType } from './bloodComponents';
+import { checkEligibility, type EligibilityProfile } from './donorEligibility';
+
+/** Maximum points each factor can contribute; they add up to 100 */
+export const MATCH_WEIGHTS = {
+  compatibility: 40,
+  eligibility: 20,
+  distance: 25,
+  responsiveness: 10,
+  availability: 5,
+} as const;
+
+export type MatchFactor = keyof typeof MATCH_WEIGHTS;
+
+export interface MatchableDonor extends EligibilityProfile {
+  id: string;
+  blood_type: string | null;
+  last_donation_date: string | null;
+  is_available: boolean;
+  latitude: number | null;
+  longitude: number | null;
+  response_rate: number | null;
+}
+
+export interface MatchableRequest {
+  blood_type: string;
+  component_type?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+export type CompatibilityLevel = 'exact' | 'compatible' | 'universal';
+
+export interface ScoreComponent {
+  points: number;
+  max: number;
+  reason: string;
+}
+
+export interface MatchBreakdown {
+  compatibility: ScoreComponent;
+  eligibility: ScoreComponent;
+  distance: ScoreComponent;
+  responsiveness: ScoreComponent;
+  availability: ScoreComponent;
+}
+
+export interface DonorMatch<T extends MatchableDonor = MatchableDonor> {
+  donor: T;
+  score: number;
+  compatibility: CompatibilityLevel;
+  eligible: boolean;
+  distanceKm: number | null;
+  breakdown: MatchBreakdown;
+}
+
+export interface MatchOptions {
+  /** Distance at which the distance score reaches zero */
+  maxDistanceKm?: number;
+  /** Keep donors who cannot donate yet (scored 0 for eligibility) */
+  includeIneligible?: boolean;
+  /** Keep donors who have switched off availability */
+  includeUnavailable?: boolean;
+  now?: Date;
+}
+
+/**
+ * Classifies a donor's blood type against the recipient's for the requested
+ * component. Universal donors (O- for red cells, AB for plasma) rank below
+ * other compatible donors so universal stock is kept for when nothing else fits.
+ */
+export const getCompatibilityLevel = (
+  recipientType: string,
+  donorType: string | null,
+  componentType?: string | null
+): CompatibilityLevel | null => {
+  if (
+    !donorType ||
+    !getCompatibleBloodTypes(recipientType, componentType).includes(donorType)
+  ) {
+    return null;
+  }
+  if (donorType === recipientType) return 'exact';
+
+  const component =
+    componentType && isComponentType(componentType) ? componentType : 'whole_blood';
+  if (UNIVERSAL_DONOR_TYPES[component].includes(donorType)) return 'universal';
+  return 'compatible';
+};
+
+const COMPATIBILITY_POINTS: Record<CompatibilityLevel, number> = {
+  exact: MATCH_WEIGHTS.compatibility,
+  compatible: 25,
+  universal: 10,
+};
+
+const COMPATIBILITY_REASONS: Record<CompatibilityLevel, string> = {
+  exact: 'Exact blood type match',
+  compatible: 'Compatible blood type',
+  universal: 'Universal donor — kept as last resort',
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const scoreEligibility = (donor: MatchableDonor, now: Date): ScoreComponent => {
+  const max = MATCH_WEIGHTS.eligibility;
+  const { eligible, nextEligibleDate, reasons } = checkEligibility(donor, { at: now });
+
+  if (eligible) {
+    if (!donor.last_donation_date) {
+      return { points: max, max, reason: 'No previous donation on record' };
+    }
+    const days = differenceInDays(now, new Date(donor.last_donation_date));
+    return { points: max, max, reason: `Last donated ${days} days ago` };
+  }
+
+  return {
+    points: 0,
+    max,
+    reason: nextEligibleDate
+      ? `Eligible again in ${Math.ceil((nextEligibleDate.getTime() - now.getTime()) / DAY_MS)} days`
+      : reasons[0].message,
+  };
+};
+
+const scoreDistance = (
+  distanceKm: number | null,
+  maxDistanceKm: number
+): ScoreComponent => {
+  const max = MATCH_WEIGHTS.distance;
+  if (distanceKm === null) {
+    return { points: 0, max, reason: 'Location unknown' };
+  }
+
+  const points = Math.max(0, max * (1 - distanceKm / maxDistanceKm));
+  return {
+    points: Math.round(points * 10) / 10,
+    max,
+    reason: `${distanceKm.toFixed(1)} km away`,
+  };
+};
+
+const scoreResponsiveness = (responseRate: number | null): ScoreComponent => {
+  const max = MATCH_WEIGHTS.responsiveness;
+  if (responseRate === null) {
+    return { points: 0, max, reason: 'No response history' };
+  }
+
+  const rate = Math.min(100, Math.max(0, responseRate));
+  return {
+    points: Math.round((rate / 100) * max * 10) / 10,
+    max,
+    reason: `${rate}% response rate`,
+  };
+};
+
+const scoreAvailability = (isAvailable: boolean): ScoreComponent => {
+  const max = MATCH_WEIGHTS.availability;
+  return isAvailable
+    ? { points: max, max, reason: 'Marked as available' }
+    : { points: 0, max, reason: 'Currently unavailable' };
+};
+
+const getDistanceKm = (request: MatchableRequest, donor: MatchableDonor) => {
+  if (
+    request.latitude == null ||
+    request.longitude == null ||
+    donor.latitude == null ||
+    donor.longitude == null
+  ) {
+    return null;
+  }
+  return calculateDistance(
+    request.latitude,
+    request.longitude,
+    donor.latitude,
+    donor.longitude
+  );
+};
+
+/**
+ * Scores a single donor against a request, or returns null when the blood
+ * types are incompatible
+ */
+export const scoreDonor = <T extends MatchableDonor>(
+  request: MatchableRequest,
+  donor: T,
+  options: MatchOptions = {}
+): DonorMatch<T> | null => {
+  const { maxDistanceKm = 50, now = new Date() } = options;
+
+  const compatibility = getCompatibilityLevel(
+    request.blood_type,
+    donor.blood_type,
+    request.component_type
+  );
+  if (!compatibility) return null;
+
+  const distanceKm = getDistanceKm(request, donor);
+  const eligibility = scoreEligibility(donor, now);
+  const breakdown: MatchBreakdown = {
+    compatibility: {
+      points: COMPATIBILITY_POINTS[compatibility],
+      max: MATCH_WEIGHTS.compatibility,
+      reason: COMPATIBILITY_REASONS[compatibility],
+    },
+    eligibility,
+    distance: scoreDistance(distanceKm, maxDistanceKm),
+    responsiveness: scoreResponsiveness(donor.response_rate),
+    availability: scoreAvailability(donor.is_available),
+  };
+
+  const score = Object.values(breakdown).reduce((sum, part) => sum + part.points, 0);
+
+  return {
+    donor,
+    score: Math.round(score * 10) / 10,
+    compatibility,
+    eligible: eligibility.points > 0,
+    distanceKm,
+    breakdown,
+  };
+};
+
+/**
+ * Ranks donors for a request, best match first. Incompatible donors are always
+ * dropped; ineligible and unavailable donors are dropped unless asked for.
+ */
+export const rankDonors = <T extends MatchableDonor>(
+  request: MatchableRequest,
+  donors: T[],
+  options: MatchOptions = {}
+): DonorMatch<T>[] => {
+  const { includeIneligible = false, includeUnavailable = false } = options;
+
+  return donors
+    .map((donor) => scoreDonor(request, donor, options))
+    .filter((match): match is DonorMatch<T> => {
+      if (!match) return false;
+      if (!includeIneligible && !match.eligible) return false;
+      if (!includeUnavailable && !match.donor.is_available) return false;
+      return true;
+    })
+    .sort(
+      (a, b) =>
+        b.score - a.score ||
+        (a.distanceKm ?? Number.MAX_VALUE) - (b.distanceKm ?? Number.MAX_VALUE)
+    );
+};
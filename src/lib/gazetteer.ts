@@ -0,0 +1,196 @@
+/**
+ * Offline geocoding from the bundled gazetteer of Indian localities and PIN
+ * codes, for registering and searching without a network. Names match with
+ * typos and old spellings ("Calcutta", "Bangalor"); a PIN code alone gives
+ * the centre of its delivery area, or only its district when that is all
+ * the gazetteer knows.
+ */
+import { calculateDistance } from './geo';
+import { normalizeAddress, type GeocodeCandidate } from './geocoding';
+
+export interface GazetteerPlace {
+  name: string;
+  /** Other names and spellings people write, e.g. "Bombay" */
+  aliases?: string[];
+  latitude: number;
+  longitude: number;
+  formattedAddress: string;
+  /** The 6-digit PIN code of a locality, or the 3-digit district of a city */
+  pin?: string;
+}
+
+/** [latitude, longitude] of the centre of each PIN code's delivery area */
+export type PinCodeCentres = Record<string, [number, number]>;
+
+/** Confidence of a PIN code's delivery area centre and of its district's */
+export const PIN_CODE_CONFIDENCE = 0.7;
+export const PIN_DISTRICT_CONFIDENCE = 0.35;
+
+/** How close a named place must be to the address's PIN area to agree with it */
+const PIN_AGREEMENT_KM = 10;
+
+/** Shortest name that is matched despite a typo */
+const FUZZY_MIN_LENGTH = 5;
+const FUZZY_MIN_SIMILARITY = 0.8;
+
+const words = (text: string) => normalizeAddress(text).split(/[^a-z0-9]+/).filter(Boolean);
+
+/** Edit distance between two strings */
+export function levenshtein(a: string, b: string) {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+/** 1 for the same text, falling towards 0 as more letters differ */
+export function similarity(a: string, b: string) {
+  const length = Math.max(a.length, b.length);
+  return length === 0 ? 1 : 1 - levenshtein(a, b) / length;
+}
+
+/** A 6-digit PIN code in the address, also written "700 107" */
+export function extractPinCode(address: string) {
+  const match = address.match(/(?:^|\D)([1-9]\d{2})\s?(\d{3})(?!\d)/);
+  return match ? `${match[1]}${match[2]}` : null;
+}
+
+/** How closely a run of the address's words spells the name, 0 when not at all */
+function nameSimilarity(addressWords: string[], name: string) {
+  const nameWords = words(name);
+  const joined = nameWords.join(' ');
+  let best = 0;
+
+  for (let start = 0; start + nameWords.length <= addressWords.length; start++) {
+    const window = addressWords.slice(start, start + nameWords.length).join(' ');
+    if (window === joined) return 1;
+    if (joined.length >= FUZZY_MIN_LENGTH) best = Math.max(best, similarity(window, joined));
+  }
+  return best >= FUZZY_MIN_SIMILARITY ? best : 0;
+}
+
+/**
+ * Best gazetteer place for an address. An address that is exactly a place
+ * name is confident; one that mentions a place is as confident as the
+ * place covers the address, less for a misspelling, and shared words alone
+ * stay low confidence.
+ */
+export function matchGazetteer(
+  address: string,
+  places: GazetteerPlace[]
+): GeocodeCandidate | null {
+  const normalized = normalizeAddress(address);
+  const addressWords = words(address);
+  let best: { place: GazetteerPlace; confidence: number } | null = null;
+
+  for (const place of places) {
+    for (const name of [place.name, ...(place.aliases ?? [])]) {
+      const normalizedName = normalizeAddress(name);
+      const nameWords = words(name);
+      const spelled = nameSimilarity(addressWords, name);
+      let confidence = 0;
+
+      if (normalized === normalizedName || addressWords.join(' ') === nameWords.join(' ')) {
+        confidence = 0.9;
+      } else if (spelled > 0) {
+        // Longer names are more specific: "Kasba Golpark Main Road" beats "Kasba"
+        const coverage = Math.min(1, normalizedName.length / normalized.length);
+        confidence = (0.45 + 0.35 * coverage + normalizedName.length / 400) * spelled;
+      } else {
+        const shared = nameWords.filter((word) => word.length > 3 && addressWords.includes(word));
+        if (shared.length > 0) confidence = 0.2 + 0.05 * shared.length;
+      }
+
+      if (confidence > 0 && (!best || confidence > best.confidence)) {
+        best = { place, confidence: Math.min(confidence, 0.9) };
+      }
+    }
+  }
+
+  if (!best) return null;
+  return {
+    latitude: best.place.latitude,
+    longitude: best.place.longitude,
+    formattedAddress: best.place.formattedAddress,
+    confidence: Math.round(best.confidence * 100) / 100,
+  };
+}
+
+const centreOf = (places: Array<{ latitude: number; longitude: number }>) => ({
+  latitude: places.reduce((sum, place) => sum + place.latitude, 0) / places.length,
+  longitude: places.reduce((sum, place) => sum + place.longitude, 0) / places.length,
+});
+
+const pinCodePlaces = (pinCodes: PinCodeCentres, matches: (pin: string) => boolean) =>
+  Object.entries(pinCodes)
+    .filter(([pin]) => matches(pin))
+    .map(([, [latitude, longitude]]) => ({ latitude, longitude }));
+
+/**
+ * Centre of a PIN code's delivery area, or of the localities the gazetteer
+ * has for it, or of its 3-digit district when it knows neither
+ */
+export function matchPinCode(
+  pin: string,
+  places: GazetteerPlace[],
+  pinCodes: PinCodeCentres = {}
+): GeocodeCandidate | null {
+  const centre = pinCodes[pin];
+  const exact = places.filter((place) => place.pin === pin);
+  if (centre || exact.length > 0) {
+    return {
+      ...(centre ? { latitude: centre[0], longitude: centre[1] } : centreOf(exact)),
+      formattedAddress: `PIN ${pin}`,
+      confidence: PIN_CODE_CONFIDENCE,
+    };
+  }
+
+  const district = pin.slice(0, 3);
+  const city = places.filter((place) => place.pin === district);
+  const inDistrict =
+    city.length > 0
+      ? city
+      : [
+          ...places.filter((place) => place.pin?.startsWith(district)),
+          ...pinCodePlaces(pinCodes, (code) => code.startsWith(district)),
+        ];
+  if (inDistrict.length === 0) return null;
+
+  return {
+    ...centreOf(inDistrict),
+    formattedAddress: city.length > 0 ? `${city[0].formattedAddress} ${pin}` : `PIN ${pin}`,
+    confidence: PIN_DISTRICT_CONFIDENCE,
+  };
+}
+
+/**
+ * Geocodes from the place names and PIN code in an address. A named place
+ * inside the address's PIN area is more certain than either on its own.
+ */
+export function searchGazetteer(
+  address: string,
+  places: GazetteerPlace[],
+  pinCodes: PinCodeCentres = {}
+): GeocodeCandidate | null {
+  const named = matchGazetteer(address, places);
+  const pin = extractPinCode(address);
+  const byPin = pin ? matchPinCode(pin, places, pinCodes) : null;
+  if (!named || !byPin) return named ?? byPin;
+
+  // Only a known PIN area can confirm a place; a district is too wide
+  const apartKm = calculateDistance(named.latitude, named.longitude, byPin.latitude, byPin.longitude);
+  if (byPin.confidence >= PIN_CODE_CONFIDENCE && apartKm <= PIN_AGREEMENT_KM) {
+    const confidence = Math.min(0.9, Math.max(named.confidence, byPin.confidence) + 0.1);
+    return { ...named, confidence: Math.round(confidence * 100) / 100 };
+  }
+  return named.confidence >= byPin.confidence ? named : byPin;
+}
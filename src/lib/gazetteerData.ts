@@ -0,0 +1,566 @@
+/**
+ * Places the offline gazetteer knows by name, see `gazetteer`. Cities carry
+ * their 3-digit PIN district so a PIN code's district is named after them;
+ * localities carry their own PIN code. PIN codes themselves are located from
+ * `pinCodeData`. Loaded on demand, see `geocodingService`.
+ */
+import type { GazetteerPlace } from './gazetteer';
+
+export const GAZETTEER_PLACES: GazetteerPlace[] = [
+  // Cities
+  {
+    name: 'Kolkata',
+    aliases: ['Calcutta'],
+    latitude: 22.5726,
+    longitude: 88.3639,
+    formattedAddress: 'Kolkata, West Bengal',
+    pin: '700',
+  },
+  {
+    name: 'Durgapur',
+    latitude: 23.5204,
+    longitude: 87.3119,
+    formattedAddress: 'Durgapur, West Bengal',
+    pin: '713',
+  },
+  {
+    name: 'Asansol',
+    latitude: 23.6739,
+    longitude: 86.9524,
+    formattedAddress: 'Asansol, West Bengal',
+  },
+  {
+    name: 'Siliguri',
+    latitude: 26.7271,
+    longitude: 88.3953,
+    formattedAddress: 'Siliguri, West Bengal',
+    pin: '734',
+  },
+  {
+    name: 'New Delhi',
+    aliases: ['Delhi', 'Dilli'],
+    latitude: 28.6139,
+    longitude: 77.2090,
+    formattedAddress: 'New Delhi, Delhi',
+    pin: '110',
+  },
+  {
+    name: 'Gurugram',
+    aliases: ['Gurgaon'],
+    latitude: 28.4595,
+    longitude: 77.0266,
+    formattedAddress: 'Gurugram, Haryana',
+    pin: '122',
+  },
+  {
+    name: 'Noida',
+    latitude: 28.5355,
+    longitude: 77.3910,
+    formattedAddress: 'Noida, Uttar Pradesh',
+    pin: '201',
+  },
+  {
+    name: 'Mumbai',
+    aliases: ['Bombay'],
+    latitude: 19.0760,
+    longitude: 72.8777,
+    formattedAddress: 'Mumbai, Maharashtra',
+    pin: '400',
+  },
+  {
+    name: 'Pune',
+    aliases: ['Poona'],
+    latitude: 18.5204,
+    longitude: 73.8567,
+    formattedAddress: 'Pune, Maharashtra',
+    pin: '411',
+  },
+  {
+    name: 'Nagpur',
+    latitude: 21.1458,
+    longitude: 79.0882,
+    formattedAddress: 'Nagpur, Maharashtra',
+    pin: '440',
+  },
+  {
+    name: 'Chennai',
+    aliases: ['Madras'],
+    latitude: 13.0827,
+    longitude: 80.2707,
+    formattedAddress: 'Chennai, Tamil Nadu',
+    pin: '600',
+  },
+  {
+    name: 'Coimbatore',
+    aliases: ['Kovai'],
+    latitude: 11.0168,
+    longitude: 76.9558,
+    formattedAddress: 'Coimbatore, Tamil Nadu',
+    pin: '641',
+  },
+  {
+    name: 'Madurai',
+    latitude: 9.9252,
+    longitude: 78.1198,
+    formattedAddress: 'Madurai, Tamil Nadu',
+    pin: '625',
+  },
+  {
+    name: 'Bengaluru',
+    aliases: ['Bangalore'],
+    latitude: 12.9716,
+    longitude: 77.5946,
+    formattedAddress: 'Bengaluru, Karnataka',
+    pin: '560',
+  },
+  {
+    name: 'Mysuru',
+    aliases: ['Mysore'],
+    latitude: 12.2958,
+    longitude: 76.6394,
+    formattedAddress: 'Mysuru, Karnataka',
+    pin: '570',
+  },
+  {
+    name: 'Mangaluru',
+    aliases: ['Mangalore'],
+    latitude: 12.9141,
+    longitude: 74.8560,
+    formattedAddress: 'Mangaluru, Karnataka',
+    pin: '575',
+  },
+  {
+    name: 'Hyderabad',
+    latitude: 17.3850,
+    longitude: 78.4867,
+    formattedAddress: 'Hyderabad, Telangana',
+    pin: '500',
+  },
+  {
+    name: 'Visakhapatnam',
+    aliases: ['Vizag', 'Vishakhapatnam'],
+    latitude: 17.6868,
+    longitude: 83.2185,
+    formattedAddress: 'Visakhapatnam, Andhra Pradesh',
+    pin: '530',
+  },
+  {
+    name: 'Thiruvananthapuram',
+    aliases: ['Trivandrum'],
+    latitude: 8.5241,
+    longitude: 76.9366,
+    formattedAddress: 'Thiruvananthapuram, Kerala',
+    pin: '695',
+  },
+  {
+    name: 'Kochi',
+    aliases: ['Cochin', 'Ernakulam'],
+    latitude: 9.9312,
+    longitude: 76.2673,
+    formattedAddress: 'Kochi, Kerala',
+    pin: '682',
+  },
+  {
+    name: 'Ahmedabad',
+    aliases: ['Amdavad'],
+    latitude: 23.0225,
+    longitude: 72.5714,
+    formattedAddress: 'Ahmedabad, Gujarat',
+    pin: '380',
+  },
+  {
+    name: 'Surat',
+    latitude: 21.1702,
+    longitude: 72.8311,
+    formattedAddress: 'Surat, Gujarat',
+    pin: '395',
+  },
+  {
+    name: 'Vadodara',
+    aliases: ['Baroda'],
+    latitude: 22.3072,
+    longitude: 73.1812,
+    formattedAddress: 'Vadodara, Gujarat',
+    pin: '390',
+  },
+  {
+    name: 'Jaipur',
+    latitude: 26.9124,
+    longitude: 75.7873,
+    formattedAddress: 'Jaipur, Rajasthan',
+    pin: '302',
+  },
+  {
+    name: 'Lucknow',
+    latitude: 26.8467,
+    longitude: 80.9462,
+    formattedAddress: 'Lucknow, Uttar Pradesh',
+    pin: '226',
+  },
+  {
+    name: 'Kanpur',
+    aliases: ['Cawnpore'],
+    latitude: 26.4499,
+    longitude: 80.3319,
+    formattedAddress: 'Kanpur, Uttar Pradesh',
+    pin: '208',
+  },
+  {
+    name: 'Varanasi',
+    aliases: ['Banaras', 'Benares'],
+    latitude: 25.3176,
+    longitude: 82.9739,
+    formattedAddress: 'Varanasi, Uttar Pradesh',
+    pin: '221',
+  },
+  {
+    name: 'Agra',
+    latitude: 27.1767,
+    longitude: 78.0081,
+    formattedAddress: 'Agra, Uttar Pradesh',
+    pin: '282',
+  },
+  {
+    name: 'Bhopal',
+    latitude: 23.2599,
+    longitude: 77.4126,
+    formattedAddress: 'Bhopal, Madhya Pradesh',
+    pin: '462',
+  },
+  {
+    name: 'Indore',
+    latitude: 22.7196,
+    longitude: 75.8577,
+    formattedAddress: 'Indore, Madhya Pradesh',
+    pin: '452',
+  },
+  {
+    name: 'Raipur',
+    latitude: 21.2514,
+    longitude: 81.6296,
+    formattedAddress: 'Raipur, Chhattisgarh',
+    pin: '492',
+  },
+  {
+    name: 'Patna',
+    latitude: 25.5941,
+    longitude: 85.1376,
+    formattedAddress: 'Patna, Bihar',
+    pin: '800',
+  },
+  {
+    name: 'Ranchi',
+    latitude: 23.3441,
+    longitude: 85.3096,
+    formattedAddress: 'Ranchi, Jharkhand',
+    pin: '834',
+  },
+  {
+    name: 'Bhubaneswar',
+    aliases: ['Bhubaneshwar'],
+    latitude: 20.2961,
+    longitude: 85.8245,
+    formattedAddress: 'Bhubaneswar, Odisha',
+    pin: '751',
+  },
+  {
+    name: 'Guwahati',
+    aliases: ['Gauhati'],
+    latitude: 26.1445,
+    longitude: 91.7362,
+    formattedAddress: 'Guwahati, Assam',
+    pin: '781',
+  },
+  {
+    name: 'Shillong',
+    latitude: 25.5788,
+    longitude: 91.8933,
+    formattedAddress: 'Shillong, Meghalaya',
+    pin: '793',
+  },
+  {
+    name: 'Imphal',
+    latitude: 24.8170,
+    longitude: 93.9368,
+    formattedAddress: 'Imphal, Manipur',
+    pin: '795',
+  },
+  {
+    name: 'Agartala',
+    latitude: 23.8315,
+    longitude: 91.2868,
+    formattedAddress: 'Agartala, Tripura',
+    pin: '799',
+  },
+  {
+    name: 'Gangtok',
+    latitude: 27.3389,
+    longitude: 88.6065,
+    formattedAddress: 'Gangtok, Sikkim',
+    pin: '737',
+  },
+  {
+    name: 'Chandigarh',
+    latitude: 30.7333,
+    longitude: 76.7794,
+    formattedAddress: 'Chandigarh',
+    pin: '160',
+  },
+  {
+    name: 'Ludhiana',
+    latitude: 30.9010,
+    longitude: 75.8573,
+    formattedAddress: 'Ludhiana, Punjab',
+    pin: '141',
+  },
+  {
+    name: 'Amritsar',
+    latitude: 31.6340,
+    longitude: 74.8723,
+    formattedAddress: 'Amritsar, Punjab',
+    pin: '143',
+  },
+  {
+    name: 'Dehradun',
+    latitude: 30.3165,
+    longitude: 78.0322,
+    formattedAddress: 'Dehradun, Uttarakhand',
+    pin: '248',
+  },
+  {
+    name: 'Shimla',
+    aliases: ['Simla'],
+    latitude: 31.1048,
+    longitude: 77.1734,
+    formattedAddress: 'Shimla, Himachal Pradesh',
+    pin: '171',
+  },
+  {
+    name: 'Jammu',
+    latitude: 32.7266,
+    longitude: 74.8570,
+    formattedAddress: 'Jammu, Jammu and Kashmir',
+    pin: '180',
+  },
+  {
+    name: 'Srinagar',
+    latitude: 34.0837,
+    longitude: 74.7973,
+    formattedAddress: 'Srinagar, Jammu and Kashmir',
+    pin: '190',
+  },
+  {
+    name: 'Panaji',
+    aliases: ['Panjim'],
+    latitude: 15.4909,
+    longitude: 73.8278,
+    formattedAddress: 'Panaji, Goa',
+    pin: '403',
+  },
+
+  // Localities in Kolkata
+  {
+    name: 'Kasba Golpark',
+    latitude: 22.5110,
+    longitude: 88.3747,
+    formattedAddress: 'Kasba Golpark, E. M. Bypass, Kolkata, West Bengal 700107',
+    pin: '700107',
+  },
+  {
+    name: 'Anandapur',
+    latitude: 22.5131,
+    longitude: 88.3994,
+    formattedAddress: 'Anandapur, Kolkata, West Bengal',
+  },
+  {
+    name: 'Sector I',
+    latitude: 22.5124,
+    longitude: 88.3769,
+    formattedAddress: 'Sector I, Kasba, Kolkata, West Bengal 700107',
+    pin: '700107',
+  },
+  {
+    name: 'E. M. Bypass',
+    latitude: 22.5193,
+    longitude: 88.3932,
+    formattedAddress: 'E. M. Bypass, Kolkata, West Bengal',
+  },
+  {
+    name: 'Kasba',
+    latitude: 22.5093,
+    longitude: 88.3800,
+    formattedAddress: 'Kasba, Kolkata, West Bengal 700042',
+    pin: '700042',
+  },
+  {
+    name: 'Golpark',
+    latitude: 22.5110,
+    longitude: 88.3747,
+    formattedAddress: 'Golpark, Kolkata, West Bengal 700107',
+    pin: '700107',
+  },
+  {
+    name: 'Ruby General Hospital',
+    latitude: 22.5148,
+    longitude: 88.4017,
+    formattedAddress: 'Ruby General Hospital, E.M. Bypass, Kasba, Kolkata, West Bengal 700107',
+    pin: '700107',
+  },
+  {
+    name: '576, Anandapur Main Rd',
+    latitude: 22.5139,
+    longitude: 88.3968,
+    formattedAddress: '576, Anandapur Main Rd, Golpark, Sector I, Kasba, Kolkata, West Bengal 700107',
+    pin: '700107',
+  },
+  {
+    name: 'Salt Lake',
+    latitude: 22.5697,
+    longitude: 88.4173,
+    formattedAddress: 'Salt Lake, Kolkata, West Bengal',
+  },
+  {
+    name: 'Park Street',
+    latitude: 22.5553,
+    longitude: 88.3517,
+    formattedAddress: 'Park Street, Kolkata, West Bengal',
+  },
+  {
+    name: 'Howrah',
+    latitude: 22.5958,
+    longitude: 88.2636,
+    formattedAddress: 'Howrah, West Bengal',
+    pin: '711',
+  },
+  {
+    name: 'New Town',
+    latitude: 22.6280,
+    longitude: 88.4455,
+    formattedAddress: 'New Town, Kolkata, West Bengal',
+  },
+  {
+    name: 'Dum Dum',
+    latitude: 22.6423,
+    longitude: 88.4292,
+    formattedAddress: 'Dum Dum, Kolkata, West Bengal',
+  },
+  {
+    name: 'Barasat',
+    latitude: 22.7251,
+    longitude: 88.4798,
+    formattedAddress: 'Barasat, West Bengal',
+  },
+  {
+    name: 'Sealdah',
+    latitude: 22.5677,
+    longitude: 88.3704,
+    formattedAddress: 'Sealdah, Kolkata, West Bengal',
+  },
+  {
+    name: 'Gariahat',
+    latitude: 22.5163,
+    longitude: 88.3689,
+    formattedAddress: 'Gariahat, Kolkata, West Bengal',
+  },
+  {
+    name: 'Esplanade',
+    latitude: 22.5698,
+    longitude: 88.3509,
+    formattedAddress: 'Esplanade, Kolkata, West Bengal',
+  },
+  {
+    name: 'Ruby Hospital',
+    latitude: 22.5128,
+    longitude: 88.4030,
+    formattedAddress: 'Ruby Hospital, E.M. Bypass, Kolkata, West Bengal',
+  },
+  {
+    name: 'AMRI Hospital',
+    latitude: 22.5142,
+    longitude: 88.3969,
+    formattedAddress: 'AMRI Hospital, Dhakuria, Kolkata, West Bengal',
+  },
+  {
+    name: 'Science City',
+    latitude: 22.5387,
+    longitude: 88.3952,
+    formattedAddress: 'Science City, Kolkata, West Bengal',
+  },
+  {
+    name: 'Kasba New Market',
+    latitude: 22.5109,
+    longitude: 88.3746,
+    formattedAddress: 'Kasba New Market, Kolkata, West Bengal 700042',
+    pin: '700042',
+  },
+  {
+    name: 'Kasba Golpark Main Road',
+    latitude: 22.5110,
+    longitude: 88.3747,
+    formattedAddress: 'Kasba Golpark Main Road, Kolkata, West Bengal 700107',
+    pin: '700107',
+  },
+  {
+    name: 'Acropolis Mall',
+    latitude: 22.5141,
+    longitude: 88.3954,
+    formattedAddress: 'Acropolis Mall, 1858/1, Rajdanga Main Rd, Kasba, Kolkata, West Bengal 700107',
+    pin: '700107',
+  },
+  {
+    name: 'Ajaynagar',
+    latitude: 22.5056,
+    longitude: 88.3742,
+    formattedAddress: 'Ajaynagar, Kolkata, West Bengal 700075',
+    pin: '700075',
+  },
+  {
+    name: 'Rajdanga Main Road',
+    latitude: 22.5167,
+    longitude: 88.3917,
+    formattedAddress: 'Rajdanga Main Road, Kasba, Kolkata, West Bengal 700107',
+    pin: '700107',
+  },
+  {
+    name: 'Panchashayar',
+    latitude: 22.4980,
+    longitude: 88.3917,
+    formattedAddress: 'Panchashayar, Kolkata, West Bengal 700094',
+    pin: '700094',
+  },
+  {
+    name: 'Mukundapur',
+    latitude: 22.5075,
+    longitude: 88.4022,
+    formattedAddress: 'Mukundapur, Kolkata, West Bengal 700099',
+    pin: '700099',
+  },
+  {
+    name: 'Santoshpur',
+    latitude: 22.4877,
+    longitude: 88.3828,
+    formattedAddress: 'Santoshpur, Kolkata, West Bengal 700075',
+    pin: '700075',
+  },
+  {
+    name: 'Jadavpur',
+    latitude: 22.4972,
+    longitude: 88.3714,
+    formattedAddress: 'Jadavpur, Kolkata, West Bengal 700032',
+    pin: '700032',
+  },
+  {
+    name: 'Survey Park',
+    latitude: 22.4883,
+    longitude: 88.3853,
+    formattedAddress: 'Survey Park, Santoshpur, Kolkata, West Bengal 700075',
+    pin: '700075',
+  },
+  {
+    name: 'South City Mall',
+    latitude: 22.4901,
+    longitude: 88.3632,
+    formattedAddress: 'South City Mall, Prince Anwar Shah Rd, Kolkata, West Bengal 700045',
+    pin: '700045',
+  },
+];
@@ -0,0 +1,204 @@
+/**
+ * Distances, bearings and nearby search over points on the earth. Nearby
+ * search first narrows to a bounding box or the cells of a grid index, so
+ * only points that might be in range are measured with the haversine
+ * formula.
+ */
+
+export const EARTH_RADIUS_KM = 6371;
+
+/** Kilometres in one degree of latitude, and of longitude at the equator */
+const KM_PER_DEGREE = (Math.PI * EARTH_RADIUS_KM) / 180;
+
+export interface LatLng {
+  lat: number;
+  lng: number;
+}
+
+export interface BoundingBox {
+  minLat: number;
+  maxLat: number;
+  minLng: number;
+  maxLng: number;
+}
+
+export interface NearbyResult<T> {
+  item: T;
+  distanceKm: number;
+}
+
+const toRad = (degrees: number) => (degrees * Math.PI) / 180;
+const toDeg = (radians: number) => (radians * 180) / Math.PI;
+
+/** Great-circle distance in kilometres (haversine) */
+export const calculateDistance = (
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number
+): number => {
+  const dLat = toRad(lat2 - lat1);
+  const dLon = toRad(lon2 - lon1);
+  const a =
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRad(lat1)) * Math.cos(toRad(lat2)) * Math.sin(dLon / 2) * Math.sin(dLon / 2);
+  return EARTH_RADIUS_KM * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a));
+};
+
+export const distanceKm = (from: LatLng, to: LatLng) =>
+  calculateDistance(from.lat, from.lng, to.lat, to.lng);
+
+/** Initial compass bearing from one point towards another, 0-360 degrees from north */
+export function bearing(from: LatLng, to: LatLng) {
+  const dLng = toRad(to.lng - from.lng);
+  const y = Math.sin(dLng) * Math.cos(toRad(to.lat));
+  const x =
+    Math.cos(toRad(from.lat)) * Math.sin(toRad(to.lat)) -
+    Math.sin(toRad(from.lat)) * Math.cos(toRad(to.lat)) * Math.cos(dLng);
+  return (toDeg(Math.atan2(y, x)) + 360) % 360;
+}
+
+const COMPASS_POINTS = ['N', 'NE', 'E', 'SE', 'S', 'SW', 'W', 'NW'] as const;
+
+/** "NE" for a bearing of 45 degrees */
+export function compassDirection(degrees: number) {
+  return COMPASS_POINTS[Math.round((((degrees % 360) + 360) % 360) / 45) % 8];
+}
+
+const isValidPoint = (point: LatLng | null | undefined): point is LatLng =>
+  !!point &&
+  Number.isFinite(point.lat) &&
+  Number.isFinite(point.lng) &&
+  Math.abs(point.lat) <= 90 &&
+  Math.abs(point.lng) <= 180;
+
+/**
+ * Smallest latitude/longitude box holding every point within `radiusKm`.
+ * Near the poles it widens to every longitude.
+ */
+export function boundingBox(center: LatLng, radiusKm: number): BoundingBox {
+  const dLat = radiusKm / KM_PER_DEGREE;
+  const minLat = Math.max(-90, center.lat - dLat);
+  const maxLat = Math.min(90, center.lat + dLat);
+
+  const cosLat = Math.cos(toRad(Math.max(Math.abs(minLat), Math.abs(maxLat))));
+  if (cosLat <= 1e-9 || radiusKm / (KM_PER_DEGREE * cosLat) >= 180) {
+    return { minLat, maxLat, minLng: -180, maxLng: 180 };
+  }
+
+  const dLng = radiusKm / (KM_PER_DEGREE * cosLat);
+  return { minLat, maxLat, minLng: center.lng - dLng, maxLng: center.lng + dLng };
+}
+
+/** Whether the point is inside the box, including boxes crossing the 180th meridian */
+export function isInBoundingBox(point: LatLng, box: BoundingBox) {
+  if (point.lat < box.minLat || point.lat > box.maxLat) return false;
+  if (box.minLng >= -180 && box.maxLng <= 180) {
+    return point.lng >= box.minLng && point.lng <= box.maxLng;
+  }
+  // Shift the point by a full turn into the box's range
+  return [point.lng, point.lng - 360, point.lng + 360].some(
+    (lng) => lng >= box.minLng && lng <= box.maxLng
+  );
+}
+
+const byDistance = <T>(a: NearbyResult<T>, b: NearbyResult<T>) => a.distanceKm - b.distanceKm;
+
+/**
+ * Items within `radiusKm` of the centre, nearest first. Items without a
+ * location are left out. For repeated queries over the same items, build a
+ * `createSpatialIndex` instead.
+ */
+export function findWithinRadius<T>(
+  items: T[],
+  getPoint: (item: T) => LatLng | null | undefined,
+  center: LatLng,
+  radiusKm: number
+): NearbyResult<T>[] {
+  const box = boundingBox(center, radiusKm);
+  const results: NearbyResult<T>[] = [];
+
+  for (const item of items) {
+    const point = getPoint(item);
+    if (!isValidPoint(point) || !isInBoundingBox(point, box)) continue;
+
+    const distance = distanceKm(center, point);
+    if (distance <= radiusKm) results.push({ item, distanceKm: distance });
+  }
+  return results.sort(byDistance);
+}
+
+export interface SpatialIndex<T> {
+  /** Number of items with a location */
+  size: number;
+  /** Items within `radiusKm` of the centre, nearest first, at most `limit` of them */
+  within(center: LatLng, radiusKm: number, limit?: number): NearbyResult<T>[];
+}
+
+/** Cell size that keeps a typical city-wide query to a few dozen cells */
+export const DEFAULT_CELL_SIZE_KM = 5;
+
+/**
+ * Grid index over items for repeated radius queries. Points are bucketed
+ * into cells `cellSizeKm` tall; a query measures only the items in the
+ * cells its bounding box touches.
+ */
+export function createSpatialIndex<T>(
+  items: T[],
+  getPoint: (item: T) => LatLng | null | undefined,
+  cellSizeKm = DEFAULT_CELL_SIZE_KM
+): SpatialIndex<T> {
+  const cellDegrees = cellSizeKm / KM_PER_DEGREE;
+  // Whole columns around the globe, so a column number wraps at the 180th meridian
+  const columns = Math.ceil(360 / cellDegrees);
+  const columnDegrees = 360 / columns;
+  const cells = new Map<string, Array<{ item: T; point: LatLng }>>();
+  let size = 0;
+
+  const rowOf = (lat: number) => Math.floor((lat + 90) / cellDegrees);
+  const columnOf = (lng: number) => Math.floor((lng + 180) / columnDegrees);
+
+  for (const item of items) {
+    const point = getPoint(item);
+    if (!isValidPoint(point)) continue;
+
+    const key = `${rowOf(point.lat)}:${columnOf(point.lng) % columns}`;
+    const cell = cells.get(key);
+    if (cell) cell.push({ item, point });
+    else cells.set(key, [{ item, point }]);
+    size++;
+  }
+
+  return {
+    size,
+    within(center, radiusKm, limit = Infinity) {
+      const box = boundingBox(center, radiusKm);
+      const results: NearbyResult<T>[] = [];
+
+      const lastColumn = Math.min(columnOf(box.maxLng), columnOf(box.minLng) + columns - 1);
+      for (let row = rowOf(box.minLat); row <= rowOf(box.maxLat); row++) {
+        for (let column = columnOf(box.minLng); column <= lastColumn; column++) {
+          const cell = cells.get(`${row}:${((column % columns) + columns) % columns}`);
+          if (!cell) continue;
+
+          for (const { item, point } of cell) {
+            const distance = distanceKm(center, point);
+            if (distance <= radiusKm) results.push({ item, distanceKm: distance });
+          }
+        }
+      }
+
+      results.sort(byDistance);
+      return results.length > limit ? results.slice(0, limit) : results;
+    },
+  };
+}
+
+/** Location of a record with nullable `latitude`/`longitude` columns */
+export const recordLocation = (record: {
+  latitude: number | null;
+  longitude: number | null;
+}): LatLng | null =>
+  record.latitude === null || record.longitude === null
+    ? null
+    : { lat: record.latitude, lng: record.longitude };
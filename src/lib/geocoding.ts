@@ -0,0 +1,193 @@
+/**
+ * Address geocoding through a chain of providers. Each provider scores its
+ * answer from 0 to 1; the chain stops at the first confident one and
+ * otherwise returns its best guess marked `lowConfidence`, never a made-up
+ * default location. Results are cached by normalised address.
+ */
+import { normalizeAddress } from '../../supabase/functions/_shared/geocodeCache';
+
+export { normalizeAddress, olaMapsConfidence } from '../../supabase/functions/_shared/geocodeCache';
+
+/** Below this a result is shown as approximate and not shared with other users */
+export const MIN_CONFIDENCE = 0.6;
+
+/** How long cached results are trusted before asking the providers again */
+export const CACHE_TTL_DAYS = 90;
+export const LOW_CONFIDENCE_TTL_DAYS = 1;
+
+export type GeocodingProviderName = 'coordinates' | 'ola_maps' | 'nominatim' | 'gazetteer';
+
+export interface GeocodeCandidate {
+  latitude: number;
+  longitude: number;
+  formattedAddress: string;
+  /** 0 to 1, how sure the provider is the point is the address */
+  confidence: number;
+}
+
+export interface GeocodeResult extends GeocodeCandidate {
+  provider: GeocodingProviderName;
+  /** Nothing reached `MIN_CONFIDENCE`; this is the best guess */
+  lowConfidence: boolean;
+}
+
+export interface GeocodingProvider {
+  name: GeocodingProviderName;
+  /** Skipped while the browser is offline */
+  requiresNetwork?: boolean;
+  geocode(address: string): Promise<GeocodeCandidate | null>;
+}
+
+export interface CachedGeocode extends GeocodeResult {
+  /** ISO timestamp */
+  cachedAt: string;
+}
+
+export interface GeocodeCache {
+  get(key: string): Promise<CachedGeocode | null>;
+  set(key: string, entry: CachedGeocode): Promise<void>;
+}
+
+export interface GeocodeOptions {
+  cache?: GeocodeCache;
+  minConfidence?: number;
+  online?: boolean;
+  now?: Date;
+}
+
+export function isFreshCacheEntry(entry: CachedGeocode, now = new Date()) {
+  const days = entry.lowConfidence ? LOW_CONFIDENCE_TTL_DAYS : CACHE_TTL_DAYS;
+  return now.getTime() - new Date(entry.cachedAt).getTime() < days * 24 * 60 * 60 * 1000;
+}
+
+const isValidPoint = (candidate: GeocodeCandidate) =>
+  Number.isFinite(candidate.latitude) &&
+  Number.isFinite(candidate.longitude) &&
+  Math.abs(candidate.latitude) <= 90 &&
+  Math.abs(candidate.longitude) <= 180;
+
+/**
+ * Tries the providers in order. A provider that throws is skipped, so one
+ * failing service never stops the others from answering.
+ */
+export async function geocodeWithProviders(
+  address: string,
+  providers: GeocodingProvider[],
+  { cache, minConfidence = MIN_CONFIDENCE, online = true, now = new Date() }: GeocodeOptions = {}
+): Promise<GeocodeResult | null> {
+  const key = normalizeAddress(address);
+  if (!key) return null;
+
+  if (cache) {
+    try {
+      const cached = await cache.get(key);
+      if (cached && isFreshCacheEntry(cached, now)) {
+        const { cachedAt: _cachedAt, ...result } = cached;
+        return result;
+      }
+    } catch (error) {
+      console.warn('Geocode cache lookup failed:', error);
+    }
+  }
+
+  let best: GeocodeResult | null = null;
+  for (const provider of providers) {
+    if (provider.requiresNetwork && !online) continue;
+
+    let candidate: GeocodeCandidate | null = null;
+    try {
+      candidate = await provider.geocode(address);
+    } catch (error) {
+      console.warn(`Geocoding with ${provider.name} failed:`, error);
+    }
+    if (!candidate || !isValidPoint(candidate)) continue;
+
+    const result = {
+      ...candidate,
+      provider: provider.name,
+      lowConfidence: candidate.confidence < minConfidence,
+    };
+    if (!best || result.confidence > best.confidence) best = result;
+    if (!result.lowConfidence) break;
+  }
+
+  if (best && cache) {
+    try {
+      await cache.set(key, { ...best, cachedAt: now.toISOString() });
+    } catch (error) {
+      console.warn('Geocode cache write failed:', error);
+    }
+  }
+  return best;
+}
+
+/**
+ * Reads through the caches in order, copying a hit into the faster ones
+ * before it; writes go to all of them.
+ */
+export function layeredGeocodeCache(...layers: GeocodeCache[]): GeocodeCache {
+  return {
+    async get(key) {
+      for (let i = 0; i < layers.length; i++) {
+        let entry: CachedGeocode | null = null;
+        try {
+          entry = await layers[i].get(key);
+        } catch (error) {
+          console.warn('Geocode cache layer failed:', error);
+        }
+        if (entry) {
+          await Promise.all(
+            layers.slice(0, i).map((layer) => layer.set(key, entry!).catch(() => undefined))
+          );
+          return entry;
+        }
+      }
+      return null;
+    },
+    async set(key, entry) {
+      await Promise.all(
+        layers.map((layer) =>
+          layer.set(key, entry).catch((error) => console.warn('Geocode cache layer failed:', error))
+        )
+      );
+    },
+  };
+}
+
+export function memoryGeocodeCache(): GeocodeCache {
+  const entries = new Map<string, CachedGeocode>();
+  return {
+    async get(key) {
+      return entries.get(key) ?? null;
+    },
+    async set(key, entry) {
+      entries.set(key, entry);
+    },
+  };
+}
+
+/** "22.5110, 88.3747" typed or pasted into an address is taken as given */
+export function parseCoordinates(address: string): GeocodeCandidate | null {
+  const match = address.match(/(-?\d{1,2}\.\d+)\s*,\s*(-?\d{1,3}\.\d+)/);
+  if (!match) return null;
+
+  const candidate = {
+    latitude: parseFloat(match[1]),
+    longitude: parseFloat(match[2]),
+    formattedAddress: address,
+    confidence: 1,
+  };
+  return isValidPoint(candidate) ? candidate : null;
+}
+
+/**
+ * Confidence of a Nominatim result from its `place_rank`: 30 is a building,
+ * 26-27 a street, 16-25 a locality or suburb and lower a whole city or more
+ */
+export function nominatimConfidence(placeRank: number) {
+  if (placeRank >= 30) return 0.95;
+  if (placeRank >= 26) return 0.8;
+  if (placeRank >= 20) return 0.65;
+  if (placeRank >= 16) return 0.5;
+  return 0.3;
+}
@@ -0,0 +1,4 @@
+/**
+ * The Ola Maps proxy request rules, shared with the ola-maps-proxy Edge Function
+ */
+export * from '../../supabase/functions/_shared/mapProxy';
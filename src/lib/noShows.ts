@@ -0,0 +1,51 @@
+/** A donor's past bookings, as returned by `get_no_show_stats` */
+export interface DonorNoShowStats {
+  donor_id: string;
+  donor_name: string;
+  blood_type: string | null;
+  /** Bookings that have happened (neither cancelled nor upcoming), anywhere */
+  bookings: number;
+  no_shows: number;
+  hospital_bookings: number;
+  hospital_no_shows: number;
+}
+
+/** Donors who missed at least `rate`% of at least `minBookings` bookings are flagged */
+export const FREQUENT_NO_SHOW = { minBookings: 2, rate: 50 };
+
+/** Percentage to one decimal, or null without bookings */
+export function noShowRate(noShows: number, bookings: number) {
+  return bookings > 0 ? Math.round((noShows / bookings) * 1000) / 10 : null;
+}
+
+export interface NoShowSummary {
+  facility: { bookings: number; noShows: number; rate: number | null };
+  /** Highest rate first */
+  donors: (DonorNoShowStats & { rate: number; frequent: boolean })[];
+}
+
+/** The hospital's own no-show rate and every donor's overall rate */
+export function summarizeNoShows(rows: DonorNoShowStats[]): NoShowSummary {
+  const bookings = rows.reduce((sum, row) => sum + row.hospital_bookings, 0);
+  const noShows = rows.reduce((sum, row) => sum + row.hospital_no_shows, 0);
+
+  const donors = rows
+    .filter((row) => row.bookings > 0)
+    .map((row) => {
+      const rate = noShowRate(row.no_shows, row.bookings) ?? 0;
+      return {
+        ...row,
+        rate,
+        frequent: row.bookings >= FREQUENT_NO_SHOW.minBookings && rate >= FREQUENT_NO_SHOW.rate,
+      };
+    })
+    .sort(
+      (a, b) =>
+        b.rate - a.rate || b.no_shows - a.no_shows || a.donor_name.localeCompare(b.donor_name)
+    );
+
+  return {
+    facility: { bookings, noShows, rate: noShowRate(noShows, bookings) },
+    donors,
+  };
+}
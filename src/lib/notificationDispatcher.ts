@@ -0,0 +1,223 @@
+import {
+  NOTIFICATION_TEMPLATES,
+  renderNotification,
+  type NotificationChannel,
+  type NotificationEvent,
+  type NotificationEventData,
+  type RenderedNotification,
+} from './notificationTemplates';
+
+/** A recipient's routing settings, as returned by `get_notification_channels` */
+export interface ChannelPreferences {
+  in_app_enabled: boolean;
+  sms_enabled: boolean;
+  email_enabled: boolean;
+  push_enabled: boolean;
+  muted_events: string[];
+  quiet_hours_start: string | null;
+  quiet_hours_end: string | null;
+  timezone: string;
+}
+
+/** Used for recipients who never saved preferences: in-app only */
+export const DEFAULT_CHANNEL_PREFERENCES: ChannelPreferences = {
+  in_app_enabled: true,
+  sms_enabled: false,
+  email_enabled: false,
+  push_enabled: false,
+  muted_events: [],
+  quiet_hours_start: null,
+  quiet_hours_end: null,
+  timezone: 'Asia/Kolkata',
+};
+
+export interface OutboundNotification<E extends NotificationEvent = NotificationEvent> {
+  userId: string;
+  event: E;
+  channel: NotificationChannel;
+  content: RenderedNotification;
+  data: NotificationEventData[E];
+  /** Id of the in-app notification, once it has been created */
+  notificationId: string | null;
+}
+
+export interface NotificationTransport {
+  /** Delivers on one channel; in-app delivery resolves to the notification id */
+  send(notification: OutboundNotification): Promise<string | void>;
+}
+
+export type DeliveryStatus = 'sent' | 'failed' | 'skipped';
+
+export interface DeliveryRecord {
+  notification_id: string | null;
+  user_id: string;
+  event_type: NotificationEvent;
+  channel: NotificationChannel;
+  status: DeliveryStatus;
+  reason: string | null;
+}
+
+export interface NotificationDispatcherOptions {
+  transport: NotificationTransport;
+  getPreferences: (userId: string) => Promise<ChannelPreferences | null>;
+  recordDeliveries: (records: DeliveryRecord[]) => Promise<void>;
+  now?: () => Date;
+}
+
+const CHANNEL_ENABLED: Record<NotificationChannel, keyof ChannelPreferences> = {
+  in_app: 'in_app_enabled',
+  sms: 'sms_enabled',
+  email: 'email_enabled',
+  push: 'push_enabled',
+};
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+/**
+ * Whether `at` falls inside the recipient's quiet hours, read in their own
+ * time zone. Windows may wrap past midnight (e.g. 22:00 to 07:00).
+ */
+export function isWithinQuietHours(preferences: ChannelPreferences, at: Date) {
+  const { quiet_hours_start: start, quiet_hours_end: end } = preferences;
+  if (!start || !end || start.slice(0, 5) === end.slice(0, 5)) return false;
+
+  const localTime = new Intl.DateTimeFormat('en-GB', {
+    timeZone: preferences.timezone,
+    hour: '2-digit',
+    minute: '2-digit',
+    hourCycle: 'h23',
+  }).format(at);
+
+  const now = toMinutes(localTime);
+  const from = toMinutes(start);
+  const to = toMinutes(end);
+
+  return from < to ? now >= from && now < to : now >= from || now < to;
+}
+
+/**
+ * Why a channel is not used for this event, or null when it should be sent.
+ * In-app notifications are silent, so quiet hours only hold back the
+ * channels that interrupt the user.
+ */
+function getSkipReason(
+  event: NotificationEvent,
+  channel: NotificationChannel,
+  preferences: ChannelPreferences,
+  at: Date
+) {
+  if (!preferences[CHANNEL_ENABLED[channel]]) return 'channel_disabled';
+  if (preferences.muted_events.includes(event)) return 'event_muted';
+  if (
+    channel !== 'in_app' &&
+    !NOTIFICATION_TEMPLATES[event].urgent &&
+    isWithinQuietHours(preferences, at)
+  ) {
+    return 'quiet_hours';
+  }
+  return null;
+}
+
+/**
+ * Creates the single entry point for notifying a user about an event: the
+ * event's template is rendered, routed over the channels it uses and the
+ * recipient allows, and every channel's outcome is recorded. Transport
+ * failures are recorded rather than thrown.
+ */
+export function createNotificationDispatcher({
+  transport,
+  getPreferences,
+  recordDeliveries,
+  now = () => new Date(),
+}: NotificationDispatcherOptions) {
+  return async function dispatch<E extends NotificationEvent>(
+    event: E,
+    userId: string,
+    data: NotificationEventData[E]
+  ): Promise<DeliveryRecord[]> {
+    const preferences = (await getPreferences(userId)) ?? DEFAULT_CHANNEL_PREFERENCES;
+    const content = renderNotification(event, data);
+    const at = now();
+    const records: DeliveryRecord[] = [];
+    let notificationId: string | null = null;
+
+    // in_app is first in every template, so its id is known for the rest
+    for (const channel of NOTIFICATION_TEMPLATES[event].channels) {
+      const reason = getSkipReason(event, channel, preferences, at);
+      let status: DeliveryStatus = 'skipped';
+      let failure: string | null = null;
+
+      if (!reason) {
+        try {
+          const id = await transport.send({
+            userId,
+            event,
+            channel,
+            content,
+            data,
+            notificationId,
+          });
+          if (channel === 'in_app' && id) notificationId = id;
+          status = 'sent';
+        } catch (error) {
+          console.error(`Error sending ${channel} notification:`, error);
+          status = 'failed';
+          failure = error instanceof Error ? error.message : String(error);
+        }
+      }
+
+      records.push({
+        notification_id: null,
+        user_id: userId,
+        event_type: event,
+        channel,
+        status,
+        reason: reason ?? failure,
+      });
+    }
+
+    const linked = records.map((record) => ({ ...record, notification_id: notificationId }));
+    await recordDeliveries(linked);
+    return linked;
+  };
+}
+
+export type NotificationDispatch = ReturnType<typeof createNotificationDispatcher>;
+
+/**
+ * Transport that keeps messages in memory instead of sending them, for tests
+ * and for running the app offline (`VITE_NOTIFICATION_TRANSPORT=stub`)
+ */
+export function createStubTransport({
+  failChannels = [],
+  log = false,
+}: { failChannels?: NotificationChannel[]; log?: boolean } = {}) {
+  const sent: OutboundNotification[] = [];
+
+  const transport: NotificationTransport & { sent: OutboundNotification[] } = {
+    sent,
+    async send(notification) {
+      if (failChannels.includes(notification.channel)) {
+        throw new Error(`Stub ${notification.channel} transport failure`);
+      }
+
+      sent.push(notification);
+      if (log) {
+        console.info(
+          `[notifications:${notification.channel}]`,
+          notification.content.title,
+          notification.content.message
+        );
+      }
+
+      if (notification.channel === 'in_app') {
+        return `stub-${sent.length}`;
+      }
+    },
+  };
+
+  return transport;
+}
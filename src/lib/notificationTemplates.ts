@@ -0,0 +1,5 @@
+/**
+ * Notification wording for the app, shared with the send-notification Edge
+ * Function so SMS and email are always worded from these templates
+ */
+export * from '../../supabase/functions/_shared/notificationTemplates';
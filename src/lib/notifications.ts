@@ -1,27 +1,20 @@
-import { io, Socket } from 'socket.io-client';
+import type { RealtimePostgresChangesPayload } from '@supabase/supabase-js';
 import { supabase } from './supabase';
-
-let socket: Socket | null = null;
-
-export const initializeNotifications = (userId: string) => {
-  if (!socket) {
-    socket = io(import.meta.env.VITE_SOCKET_URL, {
-      auth: {
-        userId,
-      },
-    });
-
-    socket.on('connect', () => {
-      console.log('Connected to notification server');
-    });
-
-    socket.on('disconnect', () => {
-      console.log('Disconnected from notification server');
-    });
-  }
-
-  return socket;
-};
+import type { Tables } from './database.types';
+import { subscribeResilient, type ResilientChannelOptions } from './realtime';
+import {
+  createNotificationDispatcher,
+  createStubTransport,
+  type NotificationTransport,
+} from './notificationDispatcher';
+import {
+  createNotification,
+  relayUserNotification,
+  type NotificationRow,
+} from './repositories/notifications';
+import type { EmergencyRequestRow } from './repositories/emergencyRequests';
+import { createNotificationDeliveries } from './repositories/notificationDeliveries';
+import { getNotificationChannels } from './repositories/notificationPreferences';
 
 export const sendSMSNotification = async (
   phoneNumber: string,
@@ -56,24 +49,122 @@ export const sendEmailNotification = async (
   }
 };
 
+type ChangeHandler<T extends Record<string, unknown>> = (
+  payload: RealtimePostgresChangesPayload<T>
+) => void;
+
+function subscribeToRows<T extends Record<string, unknown>>(
+  table: string,
+  column: string,
+  value: string,
+  onChange: ChangeHandler<T>,
+  options?: ResilientChannelOptions
+) {
+  return subscribeResilient(
+    supabase,
+    `${table}:${value}`,
+    (channel) =>
+      channel.on<T>(
+        'postgres_changes',
+        { event: '*', schema: 'public', table, filter: `${column}=eq.${value}` },
+        onChange
+      ),
+    options
+  );
+}
+
+/** Live inserts and updates of a user's in-app notifications */
 export const subscribeToNotifications = (
   userId: string,
-  onNotification: (notification: any) => void
-) => {
-  if (!socket) {
-    initializeNotifications(userId);
-  }
+  onChange: ChangeHandler<NotificationRow>,
+  options?: ResilientChannelOptions
+) => subscribeToRows('notifications', 'user_id', userId, onChange, options);
+
+/** Live changes to the emergency requests a user has raised */
+export const subscribeToEmergencyRequests = (
+  userId: string,
+  onChange: ChangeHandler<EmergencyRequestRow>,
+  options?: ResilientChannelOptions
+) => subscribeToRows('emergency_requests', 'user_id', userId, onChange, options);
+
+/** Live request notifications and expiry alerts for a blood bank */
+export const subscribeToBloodBankNotifications = (
+  bloodBankId: string,
+  onChange: ChangeHandler<Tables<'blood_bank_notifications'>>,
+  options?: ResilientChannelOptions
+) => subscribeToRows('blood_bank_notifications', 'blood_bank_id', bloodBankId, onChange, options);
 
-  socket?.on('notification', onNotification);
+/** Live donation offers for an emergency request */
+export const subscribeToDonorResponses = (
+  requestId: string,
+  onChange: ChangeHandler<Tables<'donor_responses'>>,
+  options?: ResilientChannelOptions
+) => subscribeToRows('donor_responses', 'request_id', requestId, onChange, options);
 
-  return () => {
-    socket?.off('notification', onNotification);
-  };
+/** Live stage and status changes of an SOS broadcast */
+export const subscribeToSosBroadcast = (
+  requestId: string,
+  onChange: ChangeHandler<Tables<'sos_broadcasts'>>,
+  options?: ResilientChannelOptions
+) => subscribeToRows('sos_broadcasts', 'request_id', requestId, onChange, options);
+
+/** Live donors and blood banks alerted by an SOS broadcast */
+export const subscribeToSosRecipients = (
+  requestId: string,
+  onChange: ChangeHandler<Tables<'sos_recipients'>>,
+  options?: ResilientChannelOptions
+) => subscribeToRows('sos_recipients', 'request_id', requestId, onChange, options);
+
+/** Live booking counts on a hospital's or blood bank's donation slots */
+export const subscribeToDonationSlots = (
+  facilityType: 'blood_bank' | 'hospital',
+  facilityId: string,
+  onChange: ChangeHandler<Tables<'hospital_donation_slots'> | Tables<'blood_bank_slots'>>,
+  options?: ResilientChannelOptions
+) =>
+  facilityType === 'hospital'
+    ? subscribeToRows('hospital_donation_slots', 'hospital_id', facilityId, onChange, options)
+    : subscribeToRows('blood_bank_slots', 'blood_bank_id', facilityId, onChange, options);
+
+/**
+ * In-app notifications are rows in `notifications`; SMS and email are
+ * relayed by the database to the send-notification Edge Function, which
+ * words them from the event's template and looks up the recipient's phone or
+ * email server-side. It has no push provider yet.
+ */
+const supabaseTransport: NotificationTransport = {
+  async send({ userId, event, channel, content, data, notificationId }) {
+    if (channel === 'in_app') {
+      const [row] = await createNotification({
+        user_id: userId,
+        title: content.title,
+        message: content.message,
+        type: event,
+        data,
+      });
+      return row?.id;
+    }
+
+    await relayUserNotification(userId, event, channel, data, notificationId);
+  },
 };
 
-export const unsubscribeFromNotifications = () => {
-  if (socket) {
-    socket.disconnect();
-    socket = null;
-  }
-};
\ No newline at end of file
+/**
+ * Notifies a user about an event on every channel they accept, e.g.
+ * `dispatchNotification('blood_group_verified', userId, { donation_id, blood_group })`.
+ * With `VITE_NOTIFICATION_TRANSPORT=stub` nothing leaves the browser:
+ * messages are logged to the console and deliveries are not recorded.
+ */
+export const dispatchNotification = createNotificationDispatcher(
+  import.meta.env.VITE_NOTIFICATION_TRANSPORT === 'stub'
+    ? {
+        transport: createStubTransport({ log: true }),
+        getPreferences: async () => null,
+        recordDeliveries: async () => {},
+      }
+    : {
+        transport: supabaseTransport,
+        getPreferences: getNotificationChannels,
+        recordDeliveries: createNotificationDeliveries,
+      }
+);
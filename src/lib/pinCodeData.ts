@@ -0,0 +1,18757 @@
+/**
+ * Centre of the delivery area of PIN codes across India, as [latitude,
+ * longitude], for the offline gazetteer, see `matchPinCode`. From the
+ * pincode-distance package's data (ISC licence), leaving out PIN codes
+ * placed outside India, at a placeholder shared across districts or far
+ * from the rest of their district. Loaded on demand, only for addresses
+ * with a PIN code.
+ */
+import type { PinCodeCentres } from './gazetteer';
+
+export const PIN_CODE_CENTRES: PinCodeCentres = {
+  '110001': [28.633, 77.22],
+  '110002': [28.635, 77.247],
+  '110003': [28.592, 77.232],
+  '110004': [28.614, 77.196],
+  '110005': [28.656, 77.187],
+  '110006': [28.661, 77.235],
+  '110007': [28.679, 77.192],
+  '110008': [28.648, 77.164],
+  '110009': [28.711, 77.203],
+  '110010': [28.593, 77.122],
+  '110011': [28.604, 77.212],
+  '110012': [28.628, 77.149],
+  '110013': [28.589, 77.257],
+  '110014': [28.579, 77.258],
+  '110015': [28.659, 77.146],
+  '110016': [28.547, 77.2],
+  '110017': [28.528, 77.209],
+  '110018': [28.644, 77.087],
+  '110019': [28.535, 77.26],
+  '110020': [28.539, 77.275],
+  '110021': [28.588, 77.186],
+  '110022': [28.564, 77.174],
+  '110023': [28.575, 77.199],
+  '110024': [28.568, 77.242],
+  '110025': [28.562, 77.286],
+  '110026': [28.668, 77.137],
+  '110027': [28.646, 77.117],
+  '110028': [28.632, 77.139],
+  '110029': [28.565, 77.2],
+  '110030': [28.496, 77.166],
+  '110031': [28.651, 77.268],
+  '110032': [28.687, 77.292],
+  '110033': [28.724, 77.176],
+  '110034': [28.693, 77.135],
+  '110035': [28.674, 77.164],
+  '110036': [28.822, 77.172],
+  '110037': [28.544, 77.116],
+  '110038': [28.513, 77.109],
+  '110039': [28.8, 77.035],
+  '110040': [28.835, 77.09],
+  '110041': [28.67, 77.057],
+  '110042': [28.751, 77.142],
+  '110043': [28.612, 76.979],
+  '110044': [28.501, 77.315],
+  '110045': [28.597, 77.083],
+  '110046': [28.604, 77.098],
+  '110047': [28.472, 77.132],
+  '110048': [28.548, 77.238],
+  '110049': [28.562, 77.223],
+  '110051': [28.657, 77.282],
+  '110052': [28.689, 77.175],
+  '110053': [28.676, 77.26],
+  '110054': [28.69, 77.228],
+  '110055': [28.646, 77.211],
+  '110056': [28.681, 77.121],
+  '110057': [28.562, 77.156],
+  '110058': [28.622, 77.088],
+  '110059': [28.622, 77.056],
+  '110060': [28.635, 77.186],
+  '110061': [28.535, 77.057],
+  '110062': [28.51, 77.235],
+  '110063': [28.67, 77.107],
+  '110064': [28.626, 77.114],
+  '110065': [28.568, 77.262],
+  '110066': [28.567, 77.187],
+  '110067': [28.543, 77.168],
+  '110068': [28.482, 77.217],
+  '110069': [28.61, 77.228],
+  '110070': [28.512, 77.137],
+  '110071': [28.561, 77.002],
+  '110072': [28.684, 76.971],
+  '110073': [28.571, 76.906],
+  '110074': [28.455, 77.184],
+  '110075': [28.59, 77.044],
+  '110076': [28.532, 77.296],
+  '110077': [28.571, 77.072],
+  '110078': [28.61, 77.03],
+  '110080': [28.497, 77.239],
+  '110081': [28.734, 77.011],
+  '110082': [28.776, 77.1],
+  '110083': [28.693, 77.088],
+  '110084': [28.758, 77.2],
+  '110085': [28.715, 77.109],
+  '110086': [28.702, 77.079],
+  '110087': [28.67, 77.086],
+  '110088': [28.712, 77.159],
+  '110089': [28.736, 77.129],
+  '110090': [28.549, 77.254],
+  '110091': [28.608, 77.305],
+  '110092': [28.636, 77.292],
+  '110093': [28.697, 77.316],
+  '110094': [28.716, 77.278],
+  '110095': [28.676, 77.316],
+  '110096': [28.595, 77.312],
+  '110097': [28.527, 77.079],
+  '121001': [28.39, 77.298],
+  '121002': [28.419, 77.367],
+  '121003': [28.454, 77.303],
+  '121004': [28.292, 77.355],
+  '121005': [28.37, 77.269],
+  '121006': [28.373, 77.335],
+  '121007': [28.389, 77.318],
+  '121008': [28.435, 77.318],
+  '121009': [28.487, 77.292],
+  '121010': [28.467, 77.289],
+  '121012': [28.421, 77.289],
+  '121013': [28.487, 77.335],
+  '121101': [28.38, 77.436],
+  '121102': [28.137, 77.424],
+  '121103': [28.045, 77.172],
+  '121105': [28.024, 77.321],
+  '121106': [27.924, 77.355],
+  '121107': [27.982, 77.493],
+  '122001': [28.455, 77.022],
+  '122002': [28.475, 77.105],
+  '122003': [28.442, 77.065],
+  '122004': [28.405, 76.976],
+  '122005': [28.436, 77.031],
+  '122006': [28.481, 76.993],
+  '122007': [28.472, 77.058],
+  '122008': [28.493, 77.072],
+  '122009': [28.464, 77.082],
+  '122010': [28.486, 77.106],
+  '122011': [28.426, 77.098],
+  '122015': [28.496, 77.059],
+  '122016': [28.508, 77.075],
+  '122017': [28.508, 77.028],
+  '122018': [28.418, 77.051],
+  '122051': [28.348, 76.924],
+  '122052': [28.37, 76.912],
+  '122101': [28.364, 77.022],
+  '122102': [28.312, 77.079],
+  '122103': [28.174, 77.079],
+  '122104': [27.746, 76.941],
+  '122107': [28.078, 77.033],
+  '122108': [27.939, 77.033],
+  '122413': [28.304, 76.884],
+  '122414': [28.27, 76.768],
+  '122502': [28.271, 76.664],
+  '122503': [28.331, 76.803],
+  '122504': [28.385, 76.768],
+  '122505': [28.432, 76.895],
+  '122506': [28.433, 76.791],
+  '122508': [27.86, 77.172],
+  '123001': [28.032, 76.109],
+  '123021': [28.138, 76.248],
+  '123023': [27.889, 76.062],
+  '123024': [28.384, 75.97],
+  '123027': [28.408, 76.218],
+  '123028': [28.215, 76.109],
+  '123029': [28.41, 76.175],
+  '123034': [28.275, 76.248],
+  '123035': [28.371, 76.63],
+  '123101': [28.199, 76.514],
+  '123102': [28.185, 76.375],
+  '123103': [28.213, 76.422],
+  '123106': [28.176, 76.745],
+  '123110': [28.23, 76.794],
+  '123301': [28.364, 76.56],
+  '123302': [28.399, 76.445],
+  '123303': [28.412, 76.352],
+  '123401': [28.262, 76.572],
+  '123411': [28.294, 76.433],
+  '123412': [28.088, 76.497],
+  '123501': [28.058, 76.595],
+  '124001': [28.903, 76.572],
+  '124010': [28.846, 76.54],
+  '124021': [28.867, 76.664],
+  '124022': [28.877, 76.422],
+  '124102': [28.671, 76.653],
+  '124103': [28.588, 76.618],
+  '124104': [28.597, 76.711],
+  '124105': [28.527, 76.814],
+  '124106': [28.582, 76.445],
+  '124107': [28.763, 76.653],
+  '124108': [28.455, 76.664],
+  '124109': [28.441, 76.526],
+  '124111': [28.976, 76.387],
+  '124112': [29.012, 76.294],
+  '124113': [28.806, 76.398],
+  '124141': [28.488, 76.37],
+  '124142': [28.473, 76.335],
+  '124146': [28.492, 76.468],
+  '124201': [28.708, 76.56],
+  '124202': [28.706, 76.433],
+  '124303': [29.012, 76.63],
+  '124401': [28.93, 76.722],
+  '124404': [28.831, 76.82],
+  '124406': [28.891, 76.791],
+  '124411': [28.836, 76.468],
+  '124412': [28.772, 76.514],
+  '124501': [28.785, 76.757],
+  '124504': [28.695, 76.716],
+  '124505': [28.753, 76.895],
+  '124506': [28.71, 76.814],
+  '124507': [28.656, 76.849],
+  '124513': [29.014, 76.37],
+  '124514': [29.036, 76.526],
+  '125001': [29.05, 75.574],
+  '125004': [29.141, 75.679],
+  '125005': [29.125, 75.749],
+  '125006': [29.11, 75.819],
+  '125007': [29.124, 75.705],
+  '125011': [29.232, 75.666],
+  '125033': [29.064, 75.923],
+  '125037': [28.953, 75.842],
+  '125038': [29.185, 76.202],
+  '125039': [29.312, 76.109],
+  '125042': [29.094, 76.202],
+  '125044': [29.067, 75.842],
+  '125047': [29.358, 75.691],
+  '125048': [29.434, 75.551],
+  '125049': [29.206, 75.97],
+  '125050': [29.484, 75.388],
+  '125051': [29.675, 75.481],
+  '125052': [29.292, 75.504],
+  '125053': [29.362, 75.318],
+  '125054': [29.566, 75.213],
+  '125055': [29.431, 74.921],
+  '125056': [29.566, 75.213],
+  '125058': [29.458, 75.26],
+  '125060': [29.568, 75.131],
+  '125075': [29.559, 74.663],
+  '125076': [29.626, 74.851],
+  '125077': [29.682, 74.944],
+  '125078': [29.699, 75.084],
+  '125101': [29.781, 74.535],
+  '125102': [29.398, 74.64],
+  '125103': [29.771, 74.734],
+  '125104': [29.881, 74.71],
+  '125106': [29.681, 75.737],
+  '125110': [29.341, 75.131],
+  '125111': [29.54, 75.691],
+  '125112': [29.414, 75.784],
+  '125113': [29.515, 75.877],
+  '125120': [29.651, 75.877],
+  '125121': [29.363, 75.946],
+  '125133': [29.777, 75.784],
+  '125201': [29.829, 75.038],
+  '126101': [29.118, 76.433],
+  '126102': [29.286, 76.294],
+  '126110': [29.404, 76.445],
+  '126111': [29.482, 76.433],
+  '126112': [29.41, 76.618],
+  '126113': [29.31, 76.526],
+  '126114': [29.204, 76.387],
+  '126115': [29.458, 76.202],
+  '126116': [29.676, 76.109],
+  '126125': [29.463, 76.352],
+  '126152': [29.529, 76.016],
+  '127021': [28.769, 76.155],
+  '127022': [28.504, 76.248],
+  '127025': [28.755, 76.352],
+  '127026': [28.592, 76.097],
+  '127027': [28.86, 76.259],
+  '127028': [28.67, 75.644],
+  '127029': [28.694, 75.877],
+  '127030': [28.613, 75.97],
+  '127031': [28.861, 76.155],
+  '127032': [28.942, 76.062],
+  '127035': [28.973, 75.923],
+  '127040': [28.877, 75.877],
+  '127041': [28.987, 76.167],
+  '127042': [28.725, 76.283],
+  '127043': [28.771, 75.737],
+  '127045': [28.951, 75.609],
+  '127046': [28.867, 75.574],
+  '127111': [28.767, 76.028],
+  '127114': [28.867, 76.329],
+  '127201': [28.502, 75.784],
+  '127306': [28.591, 76.202],
+  '127307': [28.651, 76.341],
+  '127308': [28.521, 75.97],
+  '127309': [28.695, 76.213],
+  '127310': [28.444, 76.109],
+  '131001': [28.991, 76.987],
+  '131021': [28.958, 77.126],
+  '131022': [28.971, 76.907],
+  '131023': [28.904, 77.16],
+  '131024': [29.083, 76.884],
+  '131027': [29.06, 77.114],
+  '131028': [28.868, 77.148],
+  '131029': [28.898, 77.091],
+  '131039': [29.078, 77.068],
+  '131101': [29.142, 77.022],
+  '131102': [29.111, 76.93],
+  '131103': [28.868, 77.022],
+  '131301': [29.1, 76.711],
+  '131302': [29.213, 76.583],
+  '131304': [29.127, 76.526],
+  '131305': [29.145, 76.814],
+  '131306': [29.211, 76.791],
+  '131402': [28.89, 76.895],
+  '131403': [28.93, 76.953],
+  '131408': [28.962, 76.814],
+  '131409': [29.013, 76.757],
+  '132001': [29.639, 77.079],
+  '132022': [29.699, 77.114],
+  '132023': [29.765, 77.091],
+  '132024': [29.743, 76.757],
+  '132036': [29.616, 76.849],
+  '132037': [29.617, 76.976],
+  '132039': [29.522, 76.595],
+  '132040': [29.555, 76.814],
+  '132041': [29.866, 77.079],
+  '132046': [29.511, 76.711],
+  '132054': [29.886, 77.16],
+  '132101': [29.265, 76.987],
+  '132102': [29.207, 77.039],
+  '132103': [29.411, 77.079],
+  '132104': [29.332, 77.091],
+  '132105': [29.38, 76.884],
+  '132106': [29.385, 76.93],
+  '132107': [29.298, 76.745],
+  '132108': [29.325, 77.022],
+  '132113': [29.429, 76.803],
+  '132114': [29.538, 76.987],
+  '132115': [29.197, 77.114],
+  '132116': [29.762, 76.941],
+  '132117': [29.898, 76.941],
+  '132122': [29.247, 77.097],
+  '132140': [29.492, 76.861],
+  '132145': [29.312, 76.884],
+  '132157': [29.839, 76.803],
+  '133001': [30.378, 76.861],
+  '133004': [30.285, 76.838],
+  '133005': [30.366, 76.887],
+  '133006': [30.337, 76.907],
+  '133101': [30.274, 76.953],
+  '133102': [30.246, 76.907],
+  '133103': [30.193, 77.172],
+  '133104': [30.324, 76.999],
+  '133201': [30.222, 77.062],
+  '133202': [30.244, 77.114],
+  '133203': [30.252, 77.016],
+  '133204': [30.425, 77.218],
+  '133205': [30.188, 76.999],
+  '133206': [30.347, 77.192],
+  '133207': [30.255, 77.051],
+  '133301': [30.827, 76.838],
+  '133302': [30.857, 76.907],
+  '134003': [30.283, 76.711],
+  '134005': [30.356, 76.796],
+  '134007': [30.399, 76.797],
+  '134101': [30.794, 76.901],
+  '134102': [30.751, 76.976],
+  '134103': [30.658, 76.953],
+  '134104': [30.808, 76.924],
+  '134107': [30.742, 76.884],
+  '134108': [30.692, 76.856],
+  '134109': [30.704, 76.901],
+  '134112': [30.675, 76.869],
+  '134113': [30.679, 76.846],
+  '134114': [30.719, 76.858],
+  '134116': [30.648, 76.901],
+  '134117': [30.667, 76.853],
+  '134118': [30.543, 76.93],
+  '134201': [30.442, 76.941],
+  '134202': [30.452, 77.033],
+  '134203': [30.461, 77.126],
+  '134204': [30.575, 77.022],
+  '134205': [30.637, 77.079],
+  '135001': [30.101, 77.275],
+  '135002': [30.103, 77.172],
+  '135003': [30.195, 77.298],
+  '135004': [30.147, 77.338],
+  '135021': [30.311, 77.447],
+  '135101': [30.158, 77.39],
+  '135102': [30.341, 77.31],
+  '135103': [30.249, 77.39],
+  '135106': [30.366, 77.539],
+  '135133': [30.012, 77.172],
+  '136020': [29.875, 76.607],
+  '136021': [29.835, 76.653],
+  '136026': [29.729, 76.618],
+  '136027': [29.776, 76.41],
+  '136030': [29.946, 76.526],
+  '136033': [29.927, 76.341],
+  '136034': [30.063, 76.341],
+  '136035': [29.963, 76.248],
+  '136038': [29.924, 76.861],
+  '136042': [29.802, 76.56],
+  '136043': [29.674, 76.526],
+  '136044': [29.578, 76.479],
+  '136117': [29.65, 76.294],
+  '136118': [30.012, 76.838],
+  '136119': [29.966, 76.711],
+  '136128': [30.001, 76.618],
+  '136129': [30.107, 76.653],
+  '136130': [30.119, 76.768],
+  '136131': [29.989, 76.941],
+  '136132': [29.998, 77.033],
+  '136135': [30.12, 76.895],
+  '136136': [30.189, 76.791],
+  '136156': [30.084, 76.987],
+  '140001': [30.969, 76.52],
+  '140101': [30.789, 76.468],
+  '140102': [30.829, 76.422],
+  '140103': [30.844, 76.56],
+  '140108': [30.951, 76.618],
+  '140109': [30.903, 76.699],
+  '140110': [30.833, 76.676],
+  '140111': [30.927, 76.387],
+  '140112': [30.869, 76.375],
+  '140113': [31.026, 76.583],
+  '140114': [31.091, 76.612],
+  '140115': [31.184, 76.583],
+  '140116': [31.226, 76.56],
+  '140117': [31.161, 76.479],
+  '140118': [31.236, 76.497],
+  '140119': [31.076, 76.526],
+  '140123': [31.268, 76.474],
+  '140124': [31.392, 76.381],
+  '140125': [31.36, 76.393],
+  '140126': [31.316, 76.352],
+  '140133': [31.279, 76.422],
+  '140201': [30.605, 76.846],
+  '140301': [30.763, 76.653],
+  '140306': [30.612, 76.722],
+  '140307': [30.68, 76.618],
+  '140308': [30.705, 76.693],
+  '140401': [30.495, 76.572],
+  '140405': [30.576, 76.375],
+  '140406': [30.603, 76.422],
+  '140407': [30.666, 76.375],
+  '140412': [30.711, 76.479],
+  '140413': [30.753, 76.56],
+  '140417': [30.414, 76.664],
+  '140501': [30.468, 76.861],
+  '140506': [30.527, 76.768],
+  '140507': [30.584, 76.884],
+  '140601': [30.548, 76.705],
+  '140602': [30.59, 76.618],
+  '140603': [30.619, 76.791],
+  '140604': [30.663, 76.813],
+  '140701': [30.412, 76.537],
+  '140702': [30.306, 76.607],
+  '140802': [30.779, 76.375],
+  '140901': [30.818, 76.745],
+  '141001': [30.906, 75.836],
+  '141002': [30.887, 75.845],
+  '141003': [30.872, 75.836],
+  '141004': [30.903, 75.813],
+  '141006': [30.855, 75.862],
+  '141007': [30.966, 75.923],
+  '141008': [30.958, 75.749],
+  '141010': [30.902, 75.906],
+  '141012': [30.889, 75.789],
+  '141013': [30.861, 75.816],
+  '141014': [30.872, 75.941],
+  '141015': [30.911, 75.935],
+  '141016': [30.857, 75.906],
+  '141017': [30.849, 75.929],
+  '141101': [30.835, 75.656],
+  '141102': [30.888, 75.726],
+  '141103': [30.802, 75.708],
+  '141104': [30.783, 75.638],
+  '141105': [30.748, 75.679],
+  '141106': [30.749, 75.638],
+  '141107': [30.717, 75.609],
+  '141108': [30.683, 75.702],
+  '141109': [30.615, 75.598],
+  '141110': [30.903, 75.656],
+  '141112': [30.896, 76.004],
+  '141113': [30.854, 76.08],
+  '141114': [30.862, 76.202],
+  '141115': [30.952, 76.202],
+  '141116': [30.821, 75.83],
+  '141117': [30.684, 75.911],
+  '141118': [30.743, 75.842],
+  '141119': [30.621, 75.958],
+  '141120': [30.826, 75.981],
+  '141121': [30.904, 76.283],
+  '141122': [30.824, 75.906],
+  '141123': [30.888, 75.975],
+  '141125': [30.859, 76.283],
+  '141126': [30.936, 76.062],
+  '141201': [30.768, 75.813],
+  '141202': [30.73, 75.726],
+  '141203': [30.758, 75.772],
+  '141204': [30.693, 75.795],
+  '141205': [30.659, 75.743],
+  '141206': [30.774, 75.911],
+  '141401': [30.711, 76.167],
+  '141411': [30.736, 76.294],
+  '141412': [30.759, 76.138],
+  '141413': [30.676, 76.051],
+  '141414': [30.661, 76.12],
+  '141415': [30.611, 76.074],
+  '141416': [30.724, 76.074],
+  '141417': [30.739, 76.213],
+  '141418': [30.818, 76.057],
+  '141419': [30.714, 75.981],
+  '141421': [30.786, 76.028],
+  '141422': [30.805, 75.638],
+  '141801': [30.819, 76.329],
+  '142001': [30.802, 75.166],
+  '142011': [30.787, 75.236],
+  '142021': [30.885, 75.781],
+  '142022': [30.851, 75.795],
+  '142023': [30.802, 75.563],
+  '142024': [30.844, 75.539],
+  '142025': [30.915, 75.563],
+  '142026': [30.772, 75.493],
+  '142027': [30.908, 75.755],
+  '142028': [30.9, 75.049],
+  '142029': [30.797, 75.766],
+  '142030': [30.707, 75.516],
+  '142031': [30.629, 75.423],
+  '142032': [30.639, 75.516],
+  '142033': [30.914, 75.458],
+  '142034': [30.679, 75.469],
+  '142035': [30.729, 75.411],
+  '142036': [30.831, 75.423],
+  '142037': [30.683, 75.306],
+  '142038': [30.73, 75.038],
+  '142039': [30.588, 75.365],
+  '142040': [30.723, 75.26],
+  '142041': [30.888, 75.33],
+  '142042': [30.977, 75.225],
+  '142043': [30.953, 75.12],
+  '142044': [31.084, 74.991],
+  '142045': [30.582, 75.213],
+  '142046': [30.535, 75.242],
+  '142047': [30.989, 74.944],
+  '142048': [30.82, 75.038],
+  '142049': [30.635, 74.991],
+  '142050': [30.893, 74.897],
+  '142052': [30.877, 74.757],
+  '142053': [30.763, 75.318],
+  '142054': [30.84, 75.306],
+  '142055': [30.568, 75.283],
+  '142056': [30.692, 75.19],
+  '142057': [30.569, 75.096],
+  '142058': [30.955, 75.33],
+  '142060': [30.788, 74.862],
+  '143001': [31.643, 74.857],
+  '143002': [31.632, 74.836],
+  '143005': [31.638, 74.826],
+  '143006': [31.605, 74.915],
+  '143008': [31.685, 74.886],
+  '143009': [31.565, 74.816],
+  '143022': [31.554, 74.909],
+  '143101': [31.718, 74.792],
+  '143102': [31.834, 74.734],
+  '143103': [31.87, 74.851],
+  '143105': [31.604, 74.769],
+  '143107': [31.596, 74.699],
+  '143108': [31.607, 74.605],
+  '143109': [31.704, 74.675],
+  '143111': [31.585, 75.166],
+  '143112': [31.518, 75.166],
+  '143113': [31.635, 75.026],
+  '143114': [31.66, 75.236],
+  '143115': [31.549, 75.049],
+  '143116': [31.637, 75.131],
+  '143117': [31.443, 75.096],
+  '143118': [31.429, 75.166],
+  '143119': [31.716, 75.143],
+  '143149': [31.577, 75.096],
+  '143201': [31.479, 75.213],
+  '143202': [31.574, 75.26],
+  '143203': [31.607, 75.353],
+  '143204': [31.535, 75.306],
+  '143205': [31.621, 75.283],
+  '143301': [31.473, 74.792],
+  '143302': [31.423, 74.745],
+  '143303': [31.35, 74.699],
+  '143304': [31.292, 74.769],
+  '143305': [31.352, 74.617],
+  '143401': [31.436, 74.944],
+  '143406': [31.457, 75.026],
+  '143407': [31.328, 75.073],
+  '143408': [31.233, 75.026],
+  '143409': [31.3, 75.026],
+  '143410': [31.286, 74.909],
+  '143411': [31.367, 75.026],
+  '143412': [31.2, 74.933],
+  '143413': [31.518, 74.979],
+  '143414': [31.504, 74.675],
+  '143415': [31.341, 74.897],
+  '143416': [31.19, 74.757],
+  '143419': [31.167, 74.57],
+  '143422': [31.334, 75.12],
+  '143501': [31.649, 74.956],
+  '143502': [31.722, 75.003],
+  '143504': [31.708, 75.073],
+  '143505': [31.776, 75.178],
+  '143506': [31.822, 75.283],
+  '143507': [31.822, 75.096],
+  '143511': [31.904, 75.131],
+  '143512': [32.008, 75.166],
+  '143513': [31.902, 75.026],
+  '143514': [31.693, 75.33],
+  '143515': [31.72, 75.458],
+  '143516': [31.808, 75.353],
+  '143517': [31.849, 75.516],
+  '143518': [31.876, 75.271],
+  '143519': [31.955, 75.283],
+  '143520': [32.005, 75.33],
+  '143521': [32.058, 75.4],
+  '143525': [32.164, 75.353],
+  '143526': [32.059, 75.318],
+  '143527': [31.802, 75.493],
+  '143528': [31.948, 75.504],
+  '143529': [31.947, 75.4],
+  '143530': [31.999, 75.469],
+  '143531': [32.12, 75.458],
+  '143532': [32.122, 75.376],
+  '143533': [32.121, 75.563],
+  '143534': [32.209, 75.458],
+  '143601': [31.798, 74.991],
+  '143602': [31.875, 74.979],
+  '143603': [31.974, 74.886],
+  '143604': [32.011, 75.003],
+  '143605': [31.93, 75.073],
+  '143606': [31.822, 74.909],
+  '144001': [31.327, 75.592],
+  '144002': [31.31, 75.493],
+  '144003': [31.301, 75.557],
+  '144004': [31.344, 75.581],
+  '144005': [31.296, 75.635],
+  '144006': [31.321, 75.579],
+  '144007': [31.322, 75.624],
+  '144008': [31.339, 75.571],
+  '144009': [31.363, 75.615],
+  '144010': [31.292, 75.673],
+  '144011': [31.294, 75.582],
+  '144012': [31.394, 75.592],
+  '144014': [31.541, 75.801],
+  '144020': [31.234, 75.609],
+  '144021': [31.353, 75.522],
+  '144022': [31.284, 75.603],
+  '144023': [31.312, 75.646],
+  '144024': [31.265, 75.638],
+  '144025': [31.374, 75.656],
+  '144026': [31.273, 75.563],
+  '144027': [31.366, 75.552],
+  '144028': [31.201, 75.516],
+  '144029': [31.086, 75.941],
+  '144030': [31.394, 75.789],
+  '144031': [31.127, 75.708],
+  '144032': [31.211, 75.65],
+  '144033': [31.164, 75.586],
+  '144034': [31.127, 75.656],
+  '144035': [31.043, 75.702],
+  '144036': [31.015, 75.656],
+  '144037': [31.09, 75.673],
+  '144039': [31.064, 75.598],
+  '144040': [31.126, 75.446],
+  '144041': [31.004, 75.458],
+  '144042': [31.161, 75.51],
+  '144043': [31.131, 75.545],
+  '144044': [31.083, 75.51],
+  '144101': [31.331, 75.679],
+  '144102': [31.404, 75.726],
+  '144103': [31.426, 75.746],
+  '144104': [31.403, 75.766],
+  '144105': [31.499, 75.772],
+  '144106': [31.448, 75.766],
+  '144201': [31.562, 75.644],
+  '144202': [31.686, 75.551],
+  '144204': [31.639, 75.632],
+  '144205': [31.836, 75.691],
+  '144206': [31.773, 75.923],
+  '144207': [31.742, 75.749],
+  '144208': [31.618, 75.842],
+  '144209': [31.696, 75.935],
+  '144210': [31.677, 75.772],
+  '144211': [31.949, 75.609],
+  '144212': [31.687, 75.656],
+  '144213': [31.794, 75.819],
+  '144214': [31.879, 75.586],
+  '144216': [31.933, 75.865],
+  '144221': [31.975, 75.737],
+  '144222': [31.926, 75.795],
+  '144223': [31.861, 75.819],
+  '144224': [31.872, 75.911],
+  '144301': [31.433, 75.638],
+  '144302': [31.46, 75.632],
+  '144303': [31.503, 75.609],
+  '144305': [31.734, 75.679],
+  '144306': [32.016, 75.609],
+  '144311': [31.149, 75.696],
+  '144401': [31.258, 75.819],
+  '144402': [31.225, 75.726],
+  '144403': [31.295, 75.749],
+  '144404': [31.305, 75.894],
+  '144405': [31.327, 75.842],
+  '144406': [31.341, 75.917],
+  '144407': [31.338, 75.789],
+  '144408': [31.336, 75.871],
+  '144409': [31.14, 75.772],
+  '144410': [31.04, 75.784],
+  '144411': [31.267, 75.702],
+  '144415': [31.027, 75.917],
+  '144416': [31.09, 75.871],
+  '144417': [31.059, 75.999],
+  '144418': [31.101, 75.819],
+  '144419': [31.058, 75.894],
+  '144421': [31.101, 76.028],
+  '144422': [31.044, 75.964],
+  '144501': [31.193, 75.842],
+  '144502': [31.154, 75.848],
+  '144503': [31.248, 75.935],
+  '144504': [31.182, 75.894],
+  '144505': [31.206, 75.958],
+  '144506': [31.214, 76.08],
+  '144507': [31.113, 75.935],
+  '144508': [31.174, 76.074],
+  '144509': [31.165, 75.941],
+  '144510': [31.233, 76.004],
+  '144511': [31.136, 75.987],
+  '144512': [31.175, 76.033],
+  '144513': [31.13, 76.033],
+  '144514': [31.134, 76.12],
+  '144515': [31.054, 76.213],
+  '144516': [31.116, 76.167],
+  '144517': [31.066, 76.12],
+  '144518': [31.016, 76.074],
+  '144519': [31.278, 75.952],
+  '144520': [31.278, 76.004],
+  '144521': [31.052, 76.294],
+  '144522': [31.017, 76.387],
+  '144523': [31.264, 76.283],
+  '144524': [31.216, 76.259],
+  '144525': [31.177, 76.306],
+  '144526': [31.104, 76.259],
+  '144527': [31.221, 76.202],
+  '144528': [31.271, 76.144],
+  '144529': [31.292, 76.08],
+  '144530': [31.338, 76.144],
+  '144531': [31.261, 76.051],
+  '144532': [31.158, 76.184],
+  '144533': [30.998, 76.474],
+  '144601': [31.387, 75.384],
+  '144602': [31.389, 75.4],
+  '144603': [31.353, 75.459],
+  '144606': [31.295, 75.166],
+  '144620': [31.346, 75.318],
+  '144621': [31.584, 75.539],
+  '144622': [31.511, 75.493],
+  '144623': [31.267, 75.411],
+  '144624': [31.557, 75.418],
+  '144625': [31.247, 75.33],
+  '144626': [31.235, 75.131],
+  '144628': [31.345, 75.213],
+  '144629': [31.145, 75.131],
+  '144630': [31.193, 75.446],
+  '144631': [31.618, 75.446],
+  '144632': [31.176, 75.743],
+  '144633': [31.178, 75.662],
+  '144701': [31.167, 75.318],
+  '144702': [31.072, 75.271],
+  '144703': [31.048, 75.353],
+  '144801': [31.452, 75.563],
+  '144802': [31.501, 75.4],
+  '144803': [31.469, 75.516],
+  '144804': [31.518, 75.353],
+  '144805': [31.407, 75.51],
+  '144806': [31.394, 75.446],
+  '144819': [31.581, 75.464],
+  '145001': [32.38, 75.784],
+  '145022': [32.442, 75.842],
+  '145023': [32.314, 75.598],
+  '145024': [32.368, 75.627],
+  '145025': [32.22, 75.551],
+  '145026': [32.258, 75.4],
+  '145027': [32.299, 75.376],
+  '145029': [32.36, 75.702],
+  '145101': [32.152, 75.632],
+  '146001': [31.47, 75.911],
+  '146021': [31.569, 76.004],
+  '146022': [31.504, 75.819],
+  '146023': [31.513, 75.952],
+  '146024': [31.644, 75.97],
+  '146101': [31.39, 76.004],
+  '146102': [31.475, 76.062],
+  '146103': [31.376, 75.929],
+  '146104': [31.408, 75.958],
+  '146105': [31.373, 76.051],
+  '146106': [31.329, 75.984],
+  '146107': [31.317, 75.999],
+  '146108': [31.323, 75.952],
+  '146109': [31.328, 76.051],
+  '146110': [31.53, 76.051],
+  '146111': [31.462, 75.842],
+  '146112': [31.4, 75.888],
+  '146113': [31.594, 75.778],
+  '146114': [31.569, 75.755],
+  '146115': [31.554, 75.72],
+  '146116': [31.61, 75.72],
+  '147001': [30.29, 76.341],
+  '147002': [30.357, 76.445],
+  '147003': [30.357, 76.419],
+  '147004': [30.385, 76.387],
+  '147005': [30.355, 76.343],
+  '147021': [30.309, 76.526],
+  '147101': [30.184, 76.202],
+  '147102': [29.998, 76.155],
+  '147103': [30.269, 76.468],
+  '147104': [30.516, 76.341],
+  '147105': [29.903, 76.109],
+  '147111': [30.173, 76.526],
+  '147201': [30.36, 76.155],
+  '147202': [30.501, 76.202],
+  '147203': [30.586, 76.155],
+  '147301': [30.654, 76.259],
+  '148001': [30.235, 75.83],
+  '148017': [30.348, 75.935],
+  '148018': [30.423, 76.004],
+  '148019': [30.588, 75.865],
+  '148020': [30.54, 75.737],
+  '148021': [30.653, 75.842],
+  '148022': [30.481, 76.016],
+  '148023': [30.516, 75.923],
+  '148024': [30.415, 75.83],
+  '148025': [30.445, 75.691],
+  '148026': [30.255, 76.016],
+  '148027': [29.794, 76.051],
+  '148028': [30.094, 75.784],
+  '148029': [30.074, 75.702],
+  '148030': [30.036, 75.772],
+  '148031': [29.918, 75.83],
+  '148033': [29.837, 75.923],
+  '148034': [30.332, 75.795],
+  '148035': [29.998, 75.946],
+  '148100': [30.509, 75.458],
+  '148101': [30.439, 75.539],
+  '148102': [30.448, 75.318],
+  '148103': [30.406, 75.446],
+  '148104': [30.519, 75.551],
+  '148105': [30.249, 75.551],
+  '148106': [30.214, 75.644],
+  '148107': [30.283, 75.458],
+  '148108': [30.311, 75.4],
+  '148109': [30.397, 75.615],
+  '151001': [30.174, 74.897],
+  '151002': [30.249, 74.862],
+  '151003': [30.265, 74.95],
+  '151004': [30.22, 75.003],
+  '151005': [30.197, 74.95],
+  '151101': [30.196, 75.084],
+  '151102': [30.325, 75.038],
+  '151103': [30.262, 75.271],
+  '151104': [30.34, 75.26],
+  '151105': [30.307, 75.166],
+  '151106': [30.425, 75.213],
+  '151108': [30.507, 75.143],
+  '151111': [30.239, 75.166],
+  '151201': [30.304, 74.851],
+  '151202': [30.433, 74.804],
+  '151203': [30.692, 74.71],
+  '151204': [30.523, 74.804],
+  '151205': [30.41, 74.991],
+  '151206': [30.466, 75.084],
+  '151207': [30.669, 74.897],
+  '151208': [30.54, 74.944],
+  '151209': [30.597, 74.769],
+  '151211': [29.95, 74.628],
+  '151212': [30.719, 74.57],
+  '151301': [29.959, 74.991],
+  '151302': [29.93, 75.131],
+  '151401': [30.067, 74.757],
+  '151501': [29.857, 75.691],
+  '151502': [29.983, 75.598],
+  '151503': [29.842, 75.551],
+  '151504': [30.113, 75.551],
+  '151505': [29.937, 75.388],
+  '151506': [29.77, 75.318],
+  '151507': [29.639, 75.26],
+  '151508': [30.062, 75.4],
+  '151509': [30.121, 75.225],
+  '151510': [30.173, 75.376],
+  '152001': [30.921, 74.611],
+  '152002': [30.994, 74.617],
+  '152003': [30.867, 74.581],
+  '152004': [30.878, 74.675],
+  '152005': [30.966, 74.757],
+  '152021': [31.061, 74.804],
+  '152022': [30.652, 74.382],
+  '152023': [30.882, 74.429],
+  '152024': [30.634, 74.241],
+  '152025': [30.461, 74.663],
+  '152026': [30.56, 74.546],
+  '152031': [30.371, 74.663],
+  '152032': [30.394, 74.476],
+  '152033': [30.506, 74.288],
+  '152101': [30.211, 74.64],
+  '152107': [30.169, 74.476],
+  '152112': [30.304, 74.476],
+  '152113': [30, 74.57],
+  '152114': [30.094, 74.511],
+  '152115': [30.073, 74.429],
+  '152116': [30.05, 74.241],
+  '152117': [30.174, 74.311],
+  '152121': [30.303, 74.101],
+  '152122': [30.247, 74.171],
+  '152123': [30.412, 74.077],
+  '152124': [30.365, 74.241],
+  '152128': [30.162, 74.054],
+  '152132': [30.041, 73.983],
+  '160001': [30.753, 76.806],
+  '160002': [30.69, 76.788],
+  '160003': [30.674, 76.8],
+  '160004': [30.658, 76.786],
+  '160009': [30.747, 76.794],
+  '160011': [30.757, 76.788],
+  '160012': [30.768, 76.783],
+  '160014': [30.778, 76.739],
+  '160015': [30.751, 76.777],
+  '160017': [30.74, 76.783],
+  '160018': [30.733, 76.787],
+  '160019': [30.73, 76.8],
+  '160020': [30.721, 76.781],
+  '160022': [30.727, 76.765],
+  '160023': [30.74, 76.767],
+  '160025': [30.753, 76.716],
+  '160030': [30.712, 76.788],
+  '160036': [30.733, 76.739],
+  '160047': [30.7, 76.751],
+  '160055': [30.726, 76.708],
+  '160059': [30.719, 76.721],
+  '160062': [30.684, 76.731],
+  '160071': [30.704, 76.708],
+  '160101': [30.718, 76.82],
+  '160102': [30.684, 76.82],
+  '160103': [30.707, 76.717],
+  '160104': [30.643, 76.855],
+  '171001': [31.101, 77.174],
+  '171002': [31.083, 77.163],
+  '171003': [31.137, 77.166],
+  '171004': [31.088, 77.151],
+  '171005': [31.122, 77.131],
+  '171006': [31.095, 77.2],
+  '171007': [31.16, 77.229],
+  '171008': [31.107, 77.117],
+  '171009': [31.041, 77.16],
+  '171010': [31.066, 77.131],
+  '171011': [31.099, 77.068],
+  '171012': [31.072, 77.252],
+  '171018': [31.225, 77.206],
+  '171019': [31.252, 77.355],
+  '171102': [31.24, 76.907],
+  '171103': [31.179, 77.079],
+  '171201': [31.109, 77.39],
+  '171202': [31.102, 77.55],
+  '171203': [31.199, 77.619],
+  '171204': [31.167, 77.528],
+  '171205': [31.113, 77.665],
+  '171206': [31.066, 77.768],
+  '171207': [31.202, 77.768],
+  '171208': [31.289, 77.974],
+  '171209': [31.057, 77.321],
+  '171210': [30.902, 77.699],
+  '171211': [30.904, 77.493],
+  '171212': [31.199, 77.405],
+  '171213': [31.226, 77.44],
+  '171214': [31.311, 77.848],
+  '171215': [31.334, 77.453],
+  '171216': [31.128, 77.825],
+  '171217': [30.833, 77.573],
+  '171218': [31.007, 77.275],
+  '171219': [31.041, 77.108],
+  '171220': [31.156, 77.413],
+  '171221': [31.282, 78.134],
+  '171222': [31.156, 77.361],
+  '171223': [31.232, 77.671],
+  '171224': [31.322, 77.734],
+  '171225': [31.225, 77.539],
+  '171226': [30.99, 77.447],
+  '171301': [31.222, 77.12],
+  '172001': [31.399, 77.596],
+  '172002': [31.524, 77.608],
+  '172021': [31.307, 77.573],
+  '172022': [31.382, 77.768],
+  '172023': [31.415, 77.528],
+  '172024': [31.329, 77.396],
+  '172025': [31.383, 77.436],
+  '172026': [31.481, 77.401],
+  '172027': [31.332, 77.367],
+  '172028': [31.333, 77.556],
+  '172029': [31.293, 77.436],
+  '172030': [31.338, 77.487],
+  '172031': [31.28, 77.528],
+  '172032': [31.503, 77.505],
+  '172033': [31.368, 77.505],
+  '172034': [31.534, 77.825],
+  '172101': [31.607, 77.768],
+  '172102': [31.489, 77.825],
+  '172103': [31.674, 77.997],
+  '172104': [31.494, 77.997],
+  '172105': [31.466, 78.179],
+  '172106': [31.311, 78.452],
+  '172107': [31.483, 78.361],
+  '172108': [31.675, 78.248],
+  '172109': [31.438, 78.612],
+  '172110': [31.798, 78.361],
+  '172111': [31.77, 78.543],
+  '172112': [31.888, 78.612],
+  '172113': [32.222, 78.339],
+  '172114': [32.415, 78.02],
+  '172115': [31.661, 77.86],
+  '172116': [31.573, 78.361],
+  '172117': [31.919, 77.974],
+  '172118': [31.593, 78.088],
+  '172201': [31.478, 77.711],
+  '173001': [30.595, 77.332],
+  '173021': [30.462, 77.482],
+  '173022': [30.633, 77.493],
+  '173023': [30.724, 77.493],
+  '173024': [30.782, 77.172],
+  '173025': [30.519, 77.722],
+  '173026': [30.61, 77.2],
+  '173027': [30.741, 77.677],
+  '173028': [30.553, 77.659],
+  '173029': [30.601, 77.631],
+  '173030': [30.548, 77.206],
+  '173031': [30.595, 77.332],
+  '173101': [30.886, 77.309],
+  '173104': [30.805, 77.401],
+  '173201': [30.942, 76.861],
+  '173202': [30.902, 76.99],
+  '173204': [30.929, 76.953],
+  '173205': [30.97, 76.803],
+  '173206': [31.002, 76.999],
+  '173207': [31.089, 76.976],
+  '173208': [31.132, 76.953],
+  '173209': [30.896, 77.016],
+  '173210': [30.871, 77.045],
+  '173211': [30.911, 77.051],
+  '173212': [30.906, 77.108],
+  '173213': [30.943, 77.091],
+  '173214': [30.92, 77.143],
+  '173215': [30.987, 77.131],
+  '173217': [30.967, 77.218],
+  '173218': [31.08, 76.884],
+  '173220': [30.864, 76.976],
+  '173221': [31.026, 77.074],
+  '173222': [31.043, 77.042],
+  '173223': [30.883, 77.16],
+  '173225': [31.035, 76.884],
+  '173229': [30.818, 77.079],
+  '173230': [31.219, 76.982],
+  '173233': [30.97, 76.907],
+  '173234': [30.994, 77.085],
+  '173235': [31.172, 76.959],
+  '174001': [31.336, 76.745],
+  '174002': [31.334, 76.514],
+  '174003': [31.428, 76.768],
+  '174004': [31.388, 76.763],
+  '174005': [31.293, 76.768],
+  '174011': [31.241, 76.699],
+  '174012': [31.394, 76.82],
+  '174013': [31.364, 76.855],
+  '174015': [31.239, 76.624],
+  '174017': [31.301, 76.63],
+  '174021': [31.47, 76.745],
+  '174023': [31.505, 76.653],
+  '174024': [31.383, 76.716],
+  '174026': [31.494, 76.705],
+  '174027': [31.329, 76.468],
+  '174028': [31.577, 76.699],
+  '174029': [31.416, 76.653],
+  '174030': [31.423, 76.514],
+  '174031': [31.363, 76.635],
+  '174032': [31.253, 76.814],
+  '174033': [31.303, 76.861],
+  '174034': [31.373, 76.676],
+  '174035': [31.383, 76.612],
+  '174036': [31.409, 76.835],
+  '174101': [31.046, 76.664],
+  '174102': [31.101, 76.757],
+  '174103': [30.897, 76.861],
+  '174201': [31.418, 76.468],
+  '174301': [31.354, 76.283],
+  '174302': [31.548, 76.213],
+  '174303': [31.488, 76.283],
+  '174304': [31.536, 76.494],
+  '174305': [31.508, 76.468],
+  '174306': [31.448, 76.329],
+  '174307': [31.608, 76.352],
+  '174308': [31.54, 76.404],
+  '174309': [31.496, 76.508],
+  '174310': [31.294, 76.56],
+  '174311': [31.577, 76.531],
+  '174312': [31.555, 76.439],
+  '174314': [31.605, 76.199],
+  '174315': [31.396, 76.312],
+  '174316': [31.572, 76.184],
+  '174317': [31.486, 76.187],
+  '174320': [31.667, 76.283],
+  '174321': [31.54, 76.352],
+  '174405': [31.598, 76.458],
+  '174503': [31.371, 76.184],
+  '174505': [31.631, 76.52],
+  '174507': [31.35, 76.265],
+  '175001': [31.696, 76.924],
+  '175002': [31.733, 76.959],
+  '175003': [31.776, 76.884],
+  '175004': [31.718, 77.079],
+  '175005': [31.79, 77.022],
+  '175006': [31.606, 76.976],
+  '175007': [31.566, 76.751],
+  '175008': [31.591, 76.878],
+  '175009': [31.306, 77.114],
+  '175010': [31.328, 77.166],
+  '175011': [31.377, 77.264],
+  '175012': [31.888, 76.987],
+  '175013': [32.012, 76.895],
+  '175014': [31.873, 76.849],
+  '175015': [32.002, 76.803],
+  '175016': [31.918, 76.745],
+  '175017': [31.397, 76.907],
+  '175018': [31.475, 76.895],
+  '175019': [31.538, 76.912],
+  '175021': [31.629, 76.924],
+  '175023': [31.612, 76.814],
+  '175024': [31.672, 76.745],
+  '175025': [31.759, 76.722],
+  '175026': [31.774, 76.653],
+  '175027': [31.537, 76.953],
+  '175028': [31.546, 77.045],
+  '175029': [31.616, 77.068],
+  '175030': [31.449, 76.809],
+  '175031': [31.479, 77.045],
+  '175032': [32.005, 76.722],
+  '175033': [31.565, 76.791],
+  '175034': [31.52, 76.791],
+  '175035': [31.628, 77.183],
+  '175036': [31.57, 76.838],
+  '175037': [31.728, 76.693],
+  '175038': [31.394, 76.987],
+  '175039': [31.535, 77.097],
+  '175040': [31.789, 76.791],
+  '175042': [31.707, 76.705],
+  '175046': [31.408, 77.126],
+  '175047': [31.512, 77.264],
+  '175048': [31.538, 77.183],
+  '175049': [31.702, 76.814],
+  '175050': [31.821, 76.676],
+  '175051': [31.864, 76.705],
+  '175052': [31.709, 76.884],
+  '175101': [31.962, 77.108],
+  '175102': [31.949, 77.045],
+  '175103': [32.343, 77.183],
+  '175104': [32.278, 77.309],
+  '175105': [32.035, 77.332],
+  '175106': [31.657, 77.252],
+  '175121': [31.777, 77.218],
+  '175122': [31.727, 77.275],
+  '175123': [31.695, 77.516],
+  '175124': [31.664, 76.987],
+  '175125': [31.911, 77.218],
+  '175126': [31.885, 77.068],
+  '175128': [32.031, 77.079],
+  '175129': [32.084, 77.045],
+  '175130': [32.09, 77.218],
+  '175131': [32.304, 77.126],
+  '175132': [32.748, 77.332],
+  '175133': [32.641, 76.941],
+  '175134': [31.973, 77.608],
+  '175136': [32.184, 77.264],
+  '175138': [31.996, 77.172],
+  '175139': [32.769, 76.895],
+  '175140': [32.539, 77.47],
+  '175141': [31.87, 77.367],
+  '175142': [32.868, 76.78],
+  '175143': [32.165, 77.079],
+  '176001': [32.114, 76.283],
+  '176021': [32.196, 75.975],
+  '176022': [32.139, 75.911],
+  '176023': [32.108, 76.028],
+  '176025': [32.04, 75.923],
+  '176026': [32.079, 76.167],
+  '176027': [32.026, 76.097],
+  '176028': [31.965, 76.144],
+  '176029': [31.977, 76.259],
+  '176030': [31.926, 76.398],
+  '176031': [31.896, 76.329],
+  '176032': [31.834, 76.375],
+  '176033': [32.001, 76.141],
+  '176036': [31.806, 76.329],
+  '176037': [32.027, 76.306],
+  '176038': [32.069, 76.283],
+  '176039': [31.441, 76.572],
+  '176040': [31.54, 76.56],
+  '176041': [31.613, 76.555],
+  '176042': [31.581, 76.578],
+  '176043': [31.586, 76.644],
+  '176044': [31.602, 76.67],
+  '176045': [31.622, 76.647],
+  '176047': [32.12, 76.393],
+  '176048': [31.617, 76.705],
+  '176049': [31.545, 76.607],
+  '176051': [32.206, 75.911],
+  '176052': [32.166, 76.404],
+  '176053': [32.166, 76.352],
+  '176054': [31.963, 76.329],
+  '176055': [31.97, 76.398],
+  '176056': [32.079, 76.375],
+  '176057': [32.238, 76.398],
+  '176058': [32.196, 76.526],
+  '176059': [32.138, 76.451],
+  '176060': [32.089, 76.416],
+  '176061': [32.119, 76.537],
+  '176062': [32.093, 76.555],
+  '176063': [32.037, 76.607],
+  '176064': [32.071, 76.451],
+  '176065': [32.048, 76.424],
+  '176066': [32.092, 75.888],
+  '176071': [31.979, 76.635],
+  '176073': [31.907, 76.485],
+  '176075': [31.861, 76.474],
+  '176076': [31.993, 76.607],
+  '176077': [32.046, 76.739],
+  '176081': [32.082, 76.607],
+  '176082': [31.865, 76.508],
+  '176083': [32.042, 76.497],
+  '176084': [31.969, 76.439],
+  '176085': [32.062, 76.474],
+  '176086': [32.035, 76.375],
+  '176087': [32.022, 76.52],
+  '176088': [31.931, 76.653],
+  '176089': [31.896, 76.667],
+  '176090': [31.885, 76.693],
+  '176091': [31.88, 76.647],
+  '176092': [31.967, 76.52],
+  '176093': [31.952, 76.485],
+  '176094': [31.943, 76.56],
+  '176095': [31.92, 76.601],
+  '176096': [31.903, 76.555],
+  '176097': [31.9, 76.52],
+  '176098': [32.19, 76.022],
+  '176101': [32.003, 76.439],
+  '176102': [32.058, 76.543],
+  '176103': [32.05, 76.566],
+  '176107': [31.924, 76.439],
+  '176108': [31.815, 76.482],
+  '176109': [31.879, 76.583],
+  '176110': [31.804, 76.514],
+  '176111': [31.787, 76.56],
+  '176115': [31.861, 76.422],
+  '176125': [32.305, 76.918],
+  '176128': [31.983, 76.67],
+  '176200': [32.347, 75.981],
+  '176201': [32.262, 75.789],
+  '176202': [32.3, 75.906],
+  '176203': [32.357, 75.949],
+  '176204': [32.224, 75.826],
+  '176205': [32.261, 76.004],
+  '176206': [32.155, 76.155],
+  '176207': [32.328, 76.109],
+  '176208': [32.178, 76.207],
+  '176209': [32.155, 76.3],
+  '176210': [32.115, 76.097],
+  '176211': [32.346, 75.877],
+  '176213': [32.169, 76.231],
+  '176214': [32.131, 76.236],
+  '176215': [32.214, 76.335],
+  '176216': [32.181, 76.283],
+  '176217': [32.222, 76.259],
+  '176218': [32.299, 76.248],
+  '176219': [32.275, 76.329],
+  '176225': [32.227, 76.097],
+  '176301': [32.495, 75.911],
+  '176302': [32.407, 76.016],
+  '176303': [32.561, 75.911],
+  '176304': [32.549, 76.004],
+  '176305': [32.531, 75.967],
+  '176306': [32.594, 76.004],
+  '176308': [32.635, 75.981],
+  '176309': [32.344, 76.664],
+  '176310': [32.496, 76.12],
+  '176311': [32.432, 76.248],
+  '176312': [32.607, 76.12],
+  '176313': [32.463, 76.028],
+  '176314': [32.579, 76.074],
+  '176315': [32.493, 76.595],
+  '176316': [32.895, 76.225],
+  '176317': [32.73, 76.08],
+  '176318': [32.615, 76.294],
+  '176319': [32.693, 76.202],
+  '176320': [32.761, 76.016],
+  '176321': [32.787, 76.248],
+  '176323': [32.975, 76.549],
+  '176324': [32.324, 76.479],
+  '176325': [32.608, 75.935],
+  '176401': [32.108, 75.737],
+  '176402': [32.182, 75.702],
+  '176403': [32.236, 75.691],
+  '176501': [31.899, 75.958],
+  '176502': [31.946, 75.981],
+  '177001': [31.667, 76.491],
+  '177005': [31.71, 76.52],
+  '177006': [31.629, 76.393],
+  '177007': [31.762, 76.485],
+  '177020': [31.629, 76.459],
+  '177021': [31.724, 76.659],
+  '177022': [31.792, 76.607],
+  '177023': [31.731, 76.612],
+  '177024': [31.645, 76.699],
+  '177025': [31.682, 76.63],
+  '177026': [31.614, 76.431],
+  '177027': [31.711, 76.557],
+  '177028': [31.834, 76.583],
+  '177029': [31.681, 76.566],
+  '177031': [31.456, 76.398],
+  '177033': [31.762, 76.329],
+  '177034': [31.734, 76.283],
+  '177038': [31.733, 76.531],
+  '177039': [31.584, 76.393],
+  '177040': [31.706, 76.589],
+  '177041': [31.655, 76.375],
+  '177042': [31.741, 76.393],
+  '177043': [31.776, 76.259],
+  '177044': [31.783, 76.396],
+  '177045': [31.767, 76.427],
+  '177048': [31.715, 76.462],
+  '177101': [31.905, 76.213],
+  '177103': [31.833, 76.167],
+  '177104': [31.861, 76.213],
+  '177105': [31.922, 76.115],
+  '177106': [31.932, 76.051],
+  '177107': [31.809, 76.196],
+  '177108': [31.814, 76.242],
+  '177109': [31.818, 76.08],
+  '177110': [31.828, 76.12],
+  '177111': [31.885, 76.028],
+  '177112': [31.868, 76.074],
+  '177113': [31.893, 76.149],
+  '177114': [31.966, 76.207],
+  '177117': [31.868, 76.283],
+  '177118': [31.705, 76.422],
+  '177119': [31.782, 76.462],
+  '177201': [31.642, 76.051],
+  '177202': [31.705, 76.068],
+  '177203': [31.664, 76.103],
+  '177204': [31.798, 76.051],
+  '177205': [31.68, 76.045],
+  '177206': [31.756, 76.022],
+  '177207': [31.52, 76.167],
+  '177208': [31.58, 76.097],
+  '177209': [31.453, 76.167],
+  '177210': [31.754, 76.155],
+  '177211': [31.654, 76.167],
+  '177212': [31.7, 76.022],
+  '177213': [31.734, 76.074],
+  '177219': [31.598, 76.259],
+  '177220': [31.413, 76.213],
+  '177301': [31.703, 76.358],
+  '177401': [31.626, 76.578],
+  '177501': [31.65, 76.589],
+  '177601': [31.687, 76.676],
+  '182203': [33.065, 75.97],
+  '201001': [28.664, 77.439],
+  '201002': [28.681, 77.459],
+  '201003': [28.745, 77.413],
+  '201004': [28.701, 77.373],
+  '201005': [28.68, 77.344],
+  '201006': [28.676, 77.331],
+  '201007': [28.677, 77.387],
+  '201008': [28.602, 77.596],
+  '201009': [28.616, 77.442],
+  '201010': [28.661, 77.341],
+  '201011': [28.669, 77.329],
+  '201012': [28.651, 77.353],
+  '201013': [28.685, 77.486],
+  '201014': [28.644, 77.373],
+  '201015': [28.677, 77.539],
+  '201016': [28.629, 77.433],
+  '201017': [28.704, 77.433],
+  '201019': [28.643, 77.344],
+  '201102': [28.788, 77.264],
+  '201103': [28.714, 77.305],
+  '201201': [28.856, 77.619],
+  '201204': [28.85, 77.55],
+  '201206': [28.81, 77.493],
+  '201301': [28.582, 77.327],
+  '201303': [28.561, 77.35],
+  '201304': [28.516, 77.397],
+  '201305': [28.532, 77.407],
+  '201306': [28.52, 77.459],
+  '201307': [28.588, 77.384],
+  '201309': [28.62, 77.361],
+  '201310': [28.455, 77.505],
+  '201311': [28.531, 77.535],
+  '201312': [28.42, 77.525],
+  '201313': [28.54, 77.335],
+  '201314': [28.526, 77.573],
+  '202001': [27.908, 78.077],
+  '202002': [27.843, 77.997],
+  '202121': [27.787, 78.282],
+  '202122': [28, 78.077],
+  '202123': [27.831, 77.86],
+  '202124': [27.736, 77.962],
+  '202125': [27.905, 78.179],
+  '202126': [28.069, 78.077],
+  '202127': [28.033, 78.191],
+  '202128': [27.876, 78.236],
+  '202129': [27.917, 78.316],
+  '202130': [27.937, 78.418],
+  '202131': [28.017, 78.407],
+  '202132': [28.118, 77.848],
+  '202133': [27.979, 78.498],
+  '202134': [27.872, 78.464],
+  '202135': [27.928, 77.78],
+  '202136': [28.038, 77.985],
+  '202137': [28.045, 77.677],
+  '202138': [27.923, 77.86],
+  '202139': [27.717, 78.134],
+  '202140': [27.932, 77.951],
+  '202141': [28.007, 77.768],
+  '202142': [28.02, 77.905],
+  '202143': [28.075, 77.945],
+  '202145': [27.693, 77.86],
+  '202146': [27.645, 77.895],
+  '202150': [27.794, 78.099],
+  '202155': [28.1, 77.768],
+  '202165': [28.037, 77.585],
+  '202170': [27.724, 78.225],
+  '202280': [27.997, 78.305],
+  '202281': [28.091, 78.327],
+  '202282': [28.083, 78.236],
+  '203001': [28.43, 77.86],
+  '203002': [28.352, 77.82],
+  '203129': [28.212, 77.997],
+  '203131': [28.204, 77.905],
+  '203132': [28.229, 77.802],
+  '203135': [28.125, 77.539],
+  '203141': [28.188, 77.722],
+  '203150': [28.361, 77.985],
+  '203155': [28.146, 77.642],
+  '203201': [28.355, 77.539],
+  '203202': [28.414, 77.677],
+  '203203': [28.336, 77.711],
+  '203205': [28.476, 77.734],
+  '203206': [28.474, 77.648],
+  '203207': [28.554, 77.573],
+  '203209': [28.232, 77.573],
+  '203389': [28.187, 78.373],
+  '203390': [28.324, 78.225],
+  '203391': [28.327, 78.122],
+  '203392': [28.228, 78.179],
+  '203393': [28.24, 78.316],
+  '203394': [28.451, 78.088],
+  '203395': [28.3, 78.077],
+  '203396': [28.16, 78.054],
+  '203397': [28.122, 78.145],
+  '203398': [28.505, 78.179],
+  '203399': [28.122, 78.418],
+  '203401': [28.516, 77.917],
+  '203402': [28.668, 77.951],
+  '203403': [28.593, 78.134],
+  '203405': [28.53, 78.077],
+  '203407': [28.543, 77.962],
+  '203408': [28.564, 77.814],
+  '203409': [28.438, 77.951],
+  '203411': [28.606, 77.894],
+  '203412': [28.618, 78.031],
+  '204101': [27.549, 78.065],
+  '204102': [27.639, 78.168],
+  '204211': [27.733, 78.464],
+  '204212': [27.59, 78.27],
+  '204213': [27.562, 77.951],
+  '204214': [27.61, 78.373],
+  '204215': [27.736, 78.361],
+  '204216': [27.709, 78.042],
+  '205001': [27.236, 79.042],
+  '205119': [27.178, 78.906],
+  '205121': [27.218, 78.816],
+  '205247': [27.15, 79.132],
+  '205261': [27.082, 78.861],
+  '205262': [27.25, 79.223],
+  '205263': [27.314, 78.861],
+  '205264': [27.043, 78.951],
+  '205265': [27.368, 78.951],
+  '205267': [27.378, 79.087],
+  '205268': [27.053, 79.087],
+  '205301': [27.198, 79.301],
+  '205303': [27.021, 79.268],
+  '205304': [27.107, 79.324],
+  '206001': [26.78, 79.008],
+  '206002': [26.848, 78.985],
+  '206003': [26.735, 79.031],
+  '206120': [26.661, 79.279],
+  '206121': [26.559, 79.313],
+  '206122': [26.479, 79.493],
+  '206123': [26.924, 79.223],
+  '206124': [26.676, 79.166],
+  '206125': [26.541, 79.087],
+  '206126': [26.778, 79.132],
+  '206127': [26.647, 79.098],
+  '206128': [26.598, 79.223],
+  '206129': [26.519, 79.403],
+  '206130': [26.937, 78.94],
+  '206131': [26.76, 78.906],
+  '206241': [26.705, 79.403],
+  '206242': [26.81, 79.245],
+  '206243': [26.808, 79.538],
+  '206244': [26.672, 79.583],
+  '206245': [26.896, 78.861],
+  '206246': [26.593, 79.617],
+  '206247': [26.615, 79.448],
+  '206248': [26.754, 79.594],
+  '206249': [26.766, 79.437],
+  '206250': [26.701, 79.504],
+  '206251': [26.851, 79.639],
+  '206252': [26.892, 79.403],
+  '206253': [26.91, 79.042],
+  '206255': [26.784, 79.684],
+  '207001': [27.535, 78.725],
+  '207002': [27.567, 78.654],
+  '207003': [27.566, 78.667],
+  '207120': [27.625, 78.555],
+  '207121': [27.4, 78.77],
+  '207122': [27.562, 78.498],
+  '207123': [27.809, 78.68],
+  '207124': [27.894, 78.589],
+  '207125': [27.704, 78.668],
+  '207241': [27.72, 78.725],
+  '207242': [27.785, 78.951],
+  '207243': [27.699, 79.042],
+  '207244': [27.571, 79.177],
+  '207245': [27.774, 78.816],
+  '207246': [27.639, 78.861],
+  '207247': [27.478, 79.177],
+  '207248': [27.518, 78.94],
+  '207249': [27.514, 79.042],
+  '207250': [27.377, 79.211],
+  '207301': [27.466, 78.452],
+  '207302': [27.455, 78.316],
+  '207401': [27.741, 78.555],
+  '207402': [27.87, 78.861],
+  '207403': [27.905, 78.725],
+  '208001': [26.487, 80.349],
+  '208002': [26.502, 80.31],
+  '208003': [26.459, 80.33],
+  '208004': [26.442, 80.371],
+  '208005': [26.469, 80.302],
+  '208006': [26.448, 80.312],
+  '208007': [26.405, 80.391],
+  '208008': [26.369, 80.422],
+  '208009': [26.472, 80.257],
+  '208010': [26.429, 80.402],
+  '208011': [26.405, 80.338],
+  '208012': [26.464, 80.313],
+  '208013': [26.418, 80.36],
+  '208014': [26.437, 80.32],
+  '208015': [26.393, 80.38],
+  '208016': [26.511, 80.235],
+  '208017': [26.541, 80.282],
+  '208019': [26.477, 80.273],
+  '208020': [26.449, 80.221],
+  '208021': [26.391, 80.305],
+  '208022': [26.447, 80.282],
+  '208023': [26.441, 80.342],
+  '208024': [26.497, 80.274],
+  '208025': [26.479, 80.292],
+  '208026': [26.509, 80.264],
+  '208027': [26.428, 80.296],
+  '209101': [26.371, 79.942],
+  '209111': [26.219, 79.93],
+  '209112': [26.134, 79.897],
+  '209115': [26.305, 79.673],
+  '209121': [26.337, 80.121],
+  '209125': [26.395, 79.628],
+  '209202': [26.77, 79.964],
+  '209203': [26.623, 80.21],
+  '209204': [26.611, 80.031],
+  '209205': [26.673, 80.087],
+  '209206': [26.128, 80.143],
+  '209208': [26.097, 80.031],
+  '209209': [26.175, 80.31],
+  '209210': [26.754, 80.076],
+  '209214': [26.346, 80.254],
+  '209217': [26.541, 80.199],
+  '209301': [26.362, 79.807],
+  '209302': [26.548, 79.807],
+  '209303': [26.511, 79.942],
+  '209304': [26.418, 80.109],
+  '209305': [26.452, 80.182],
+  '209306': [26.688, 79.807],
+  '209307': [26.477, 80.121],
+  '209308': [26.25, 80.21],
+  '209310': [26.495, 79.718],
+  '209311': [26.317, 79.998],
+  '209312': [26.286, 79.886],
+  '209401': [26.215, 80.388],
+  '209402': [26.271, 80.522],
+  '209501': [27.446, 79.358],
+  '209502': [27.589, 79.403],
+  '209503': [27.533, 79.437],
+  '209504': [27.421, 79.482],
+  '209505': [27.625, 79.268],
+  '209601': [27.364, 79.661],
+  '209602': [27.333, 79.549],
+  '209621': [27.436, 79.684],
+  '209622': [27.567, 79.572],
+  '209625': [27.417, 79.583],
+  '209651': [27.314, 79.448],
+  '209652': [27.339, 79.324],
+  '209720': [27.115, 79.437],
+  '209721': [27.177, 79.493],
+  '209722': [27.16, 79.729],
+  '209723': [26.946, 79.661],
+  '209724': [27.237, 79.673],
+  '209725': [27.059, 79.894],
+  '209726': [27.054, 79.911],
+  '209727': [27.114, 79.897],
+  '209728': [26.948, 79.538],
+  '209729': [27.127, 79.594],
+  '209731': [27.039, 79.661],
+  '209732': [26.956, 79.796],
+  '209733': [27.108, 79.807],
+  '209734': [26.928, 79.897],
+  '209735': [27.109, 79.661],
+  '209736': [26.828, 79.807],
+  '209738': [26.881, 79.729],
+  '209739': [27.231, 79.583],
+  '209743': [27.251, 79.392],
+  '209745': [27.506, 79.538],
+  '209747': [26.997, 79.414],
+  '209749': [27.299, 79.645],
+  '209801': [26.62, 80.499],
+  '209821': [26.437, 80.921],
+  '209825': [26.516, 80.699],
+  '209827': [26.423, 80.699],
+  '209831': [26.593, 80.622],
+  '209841': [26.7, 80.655],
+  '209859': [26.613, 80.744],
+  '209861': [26.53, 80.377],
+  '209862': [26.464, 80.444],
+  '209863': [26.245, 80.666],
+  '209864': [26.227, 80.755],
+  '209865': [26.326, 80.655],
+  '209866': [26.291, 80.832],
+  '209867': [26.321, 80.755],
+  '209868': [26.86, 80.254],
+  '209869': [26.994, 80.165],
+  '209870': [26.807, 80.499],
+  '209871': [26.726, 80.344],
+  '209881': [26.828, 80.644],
+  '210001': [25.484, 80.321],
+  '210120': [25.377, 80.477],
+  '210121': [25.576, 80.655],
+  '210123': [25.706, 80.477],
+  '210125': [25.524, 80.943],
+  '210126': [25.794, 80.388],
+  '210128': [25.667, 80.61],
+  '210129': [25.143, 80.477],
+  '210201': [25.339, 80.61],
+  '210202': [25.201, 80.655],
+  '210203': [25.394, 80.744],
+  '210204': [25.198, 80.799],
+  '210205': [25.223, 81.009],
+  '210206': [25.336, 80.943],
+  '210207': [25.463, 81.098],
+  '210208': [25.065, 81.12],
+  '210209': [25.264, 81.296],
+  '210301': [25.916, 80.121],
+  '210341': [25.776, 80.121],
+  '210421': [25.473, 79.807],
+  '210422': [25.785, 79.583],
+  '210423': [25.22, 79.538],
+  '210424': [25.441, 80.031],
+  '210425': [25.567, 79.807],
+  '210426': [25.32, 79.628],
+  '210427': [25.338, 79.897],
+  '210428': [25.588, 79.448],
+  '210429': [25.422, 79.425],
+  '210430': [25.728, 79.448],
+  '210431': [25.551, 79.583],
+  '210432': [25.841, 79.718],
+  '210433': [25.188, 79.762],
+  '210501': [25.81, 79.942],
+  '210502': [25.875, 80.21],
+  '210504': [25.585, 80.076],
+  '210505': [26, 79.986],
+  '210506': [25.66, 79.807],
+  '210507': [25.666, 80.232],
+  '211001': [25.464, 81.817],
+  '211002': [25.478, 81.861],
+  '211003': [25.433, 81.842],
+  '211004': [25.515, 81.893],
+  '211005': [25.435, 81.88],
+  '211006': [25.447, 81.874],
+  '211007': [25.382, 81.817],
+  '211008': [25.395, 81.85],
+  '211009': [25.358, 81.921],
+  '211010': [25.349, 81.861],
+  '211011': [25.467, 81.768],
+  '211012': [25.405, 81.713],
+  '211013': [25.543, 81.855],
+  '211014': [25.472, 81.803],
+  '211015': [25.44, 81.788],
+  '211016': [25.416, 81.806],
+  '211017': [25.447, 81.807],
+  '211018': [25.458, 81.846],
+  '211019': [25.429, 81.921],
+  '212104': [25.057, 82.237],
+  '212105': [25.377, 81.851],
+  '212106': [25.105, 81.822],
+  '212107': [25.284, 81.647],
+  '212108': [25.2, 81.614],
+  '212109': [25.62, 81.986],
+  '212111': [25.306, 81.833],
+  '212201': [25.534, 81.494],
+  '212202': [25.4, 81.625],
+  '212203': [25.504, 81.593],
+  '212204': [25.702, 81.351],
+  '212205': [25.747, 81.329],
+  '212206': [25.435, 81.406],
+  '212207': [25.526, 81.362],
+  '212208': [25.456, 81.675],
+  '212212': [25.487, 81.702],
+  '212213': [25.513, 81.608],
+  '212214': [25.382, 81.318],
+  '212216': [25.343, 81.45],
+  '212217': [25.615, 81.274],
+  '212218': [25.338, 81.571],
+  '212301': [25.182, 81.932],
+  '212302': [25.12, 82.084],
+  '212303': [25.183, 82.16],
+  '212305': [25.252, 82.139],
+  '212306': [24.931, 82.084],
+  '212307': [25.281, 82.019],
+  '212401': [25.495, 82.269],
+  '212402': [25.613, 82.063],
+  '212404': [25.506, 82.052],
+  '212405': [25.56, 82.182],
+  '212502': [25.614, 81.877],
+  '212503': [25.655, 81.768],
+  '212507': [25.702, 81.975],
+  '212601': [25.913, 80.788],
+  '212620': [25.731, 80.877],
+  '212621': [25.77, 80.744],
+  '212622': [25.833, 81.009],
+  '212631': [25.975, 80.299],
+  '212635': [26.005, 80.577],
+  '212641': [25.529, 81.219],
+  '212645': [25.872, 80.877],
+  '212650': [25.977, 81.053],
+  '212651': [25.981, 80.932],
+  '212652': [25.889, 81.142],
+  '212653': [25.8, 81.23],
+  '212654': [26.032, 80.998],
+  '212655': [25.723, 81.12],
+  '212656': [25.56, 81.142],
+  '212657': [26.034, 80.477],
+  '212658': [25.657, 80.998],
+  '212659': [26.075, 80.388],
+  '212661': [25.865, 80.577],
+  '212663': [25.799, 80.644],
+  '212664': [26.048, 80.699],
+  '212665': [26.133, 80.566],
+  '221001': [25.325, 83.009],
+  '221002': [25.336, 82.977],
+  '221003': [25.364, 82.961],
+  '221004': [25.291, 82.958],
+  '221005': [25.271, 82.982],
+  '221006': [25.459, 82.848],
+  '221007': [25.367, 83.025],
+  '221008': [25.297, 83.025],
+  '221009': [25.275, 83.068],
+  '221010': [25.304, 82.985],
+  '221011': [25.239, 82.973],
+  '221101': [25.473, 83.015],
+  '221103': [25.304, 82.968],
+  '221104': [25.385, 83.143],
+  '221105': [25.391, 82.902],
+  '221106': [25.314, 82.958],
+  '221107': [25.321, 82.923],
+  '221108': [25.269, 82.939],
+  '221110': [25.545, 82.913],
+  '221112': [25.376, 83.074],
+  '221115': [25.517, 83.197],
+  '221116': [25.49, 83.133],
+  '221201': [25.425, 82.746],
+  '221202': [25.433, 82.918],
+  '221204': [25.429, 82.832],
+  '221206': [25.512, 82.843],
+  '221207': [25.495, 82.746],
+  '221208': [25.505, 82.939],
+  '221301': [25.268, 82.567],
+  '221302': [25.313, 82.875],
+  '221303': [25.268, 82.443],
+  '221304': [25.339, 82.443],
+  '221305': [25.194, 82.853],
+  '221306': [25.249, 82.529],
+  '221307': [25.284, 82.767],
+  '221308': [25.357, 82.334],
+  '221309': [25.285, 82.313],
+  '221310': [25.287, 82.356],
+  '221311': [25.24, 82.832],
+  '221313': [25.266, 82.689],
+  '221314': [25.278, 82.638],
+  '221401': [25.355, 82.54],
+  '221402': [25.35, 82.659],
+  '221403': [25.366, 82.756],
+  '221404': [25.443, 82.41],
+  '221405': [25.359, 82.853],
+  '221406': [25.413, 82.508],
+  '221409': [25.411, 82.589],
+  '221502': [25.342, 82.28],
+  '221503': [25.397, 82.204],
+  '221505': [25.378, 82.063],
+  '221507': [25.514, 81.975],
+  '221508': [25.417, 82.139],
+  '221601': [26.211, 83.699],
+  '221602': [26.118, 83.741],
+  '221603': [26.151, 83.688],
+  '221701': [25.809, 83.943],
+  '221705': [25.963, 83.688],
+  '221706': [25.93, 83.741],
+  '221709': [25.902, 83.921],
+  '221711': [25.983, 83.869],
+  '221712': [25.839, 83.826],
+  '221713': [25.74, 83.985],
+  '221715': [26.134, 83.837],
+  '221716': [26.037, 83.752],
+  '221717': [26.082, 83.996],
+  '221718': [26.066, 83.879],
+  '222001': [25.775, 82.681],
+  '222002': [25.728, 82.681],
+  '222003': [25.822, 82.681],
+  '222101': [26.159, 82.661],
+  '222105': [25.679, 82.659],
+  '222109': [25.816, 82.573],
+  '222125': [25.904, 82.443],
+  '222127': [25.647, 82.486],
+  '222128': [25.516, 82.681],
+  '222129': [25.579, 83.004],
+  '222131': [25.742, 82.508],
+  '222132': [25.748, 82.616],
+  '222133': [25.756, 82.789],
+  '222135': [25.694, 82.486],
+  '222136': [25.602, 82.756],
+  '222137': [25.556, 82.551],
+  '222138': [25.699, 82.708],
+  '222139': [25.927, 82.67],
+  '222141': [25.86, 82.508],
+  '222142': [25.692, 82.918],
+  '222143': [25.723, 82.367],
+  '222144': [25.762, 82.443],
+  '222145': [25.82, 82.41],
+  '222146': [25.606, 82.843],
+  '222148': [25.674, 83.025],
+  '222149': [25.627, 83.025],
+  '222161': [25.595, 82.627],
+  '222162': [25.542, 82.497],
+  '222165': [25.571, 82.378],
+  '222170': [25.7, 82.843],
+  '222175': [25.949, 82.421],
+  '222180': [25.685, 82.767],
+  '222181': [25.598, 82.918],
+  '222201': [25.766, 82.28],
+  '222202': [25.667, 82.193],
+  '222203': [25.465, 82.616],
+  '222204': [25.611, 82.247],
+  '222301': [26.034, 82.361],
+  '222302': [26.139, 82.237],
+  '222303': [26.085, 82.313],
+  '223101': [26.08, 82.681],
+  '223102': [26.024, 82.508],
+  '223103': [26.101, 82.616],
+  '223104': [25.958, 82.594],
+  '223105': [26.096, 82.529],
+  '223221': [26.175, 82.929],
+  '223222': [26.085, 82.767],
+  '223223': [26.316, 82.929],
+  '223224': [25.933, 82.799],
+  '223225': [26.157, 82.81],
+  '223226': [26.017, 82.832],
+  '223227': [26, 82.961],
+  '224001': [26.739, 82.063],
+  '224116': [26.816, 81.757],
+  '224117': [26.746, 81.571],
+  '224118': [26.67, 81.669],
+  '224119': [26.826, 81.642],
+  '224120': [26.733, 81.746],
+  '224121': [26.665, 81.79],
+  '224122': [26.437, 82.54],
+  '224123': [26.782, 82.204],
+  '224125': [26.253, 82.853],
+  '224126': [26.763, 81.855],
+  '224127': [26.678, 82.008],
+  '224129': [26.462, 82.789],
+  '224132': [26.436, 82.291],
+  '224133': [26.732, 82.139],
+  '224135': [26.737, 82.226],
+  '224137': [26.356, 83.025],
+  '224139': [26.359, 82.843],
+  '224141': [26.558, 82.378],
+  '224143': [26.534, 82.832],
+  '224145': [26.59, 82.493],
+  '224146': [26.358, 82.594],
+  '224147': [26.414, 83.015],
+  '224149': [26.273, 82.767],
+  '224151': [26.518, 82.508],
+  '224152': [26.465, 82.399],
+  '224153': [26.581, 81.757],
+  '224155': [26.414, 82.767],
+  '224157': [26.538, 82.443],
+  '224158': [26.651, 81.943],
+  '224159': [26.303, 82.67],
+  '224161': [26.66, 82.323],
+  '224164': [26.577, 81.877],
+  '224168': [26.386, 82.454],
+  '224171': [26.323, 82.492],
+  '224172': [26.644, 82.247],
+  '224176': [26.336, 83.09],
+  '224181': [26.455, 82.886],
+  '224182': [26.775, 81.959],
+  '224183': [26.303, 82.794],
+  '224186': [26.385, 82.659],
+  '224188': [26.723, 81.986],
+  '224189': [26.72, 81.921],
+  '224190': [26.535, 82.627],
+  '224195': [26.552, 82.269],
+  '224201': [26.684, 82.117],
+  '224202': [26.643, 82.122],
+  '224203': [26.572, 82.204],
+  '224204': [26.616, 82.16],
+  '224205': [26.457, 82.247],
+  '224206': [26.545, 82.139],
+  '224207': [26.519, 82.095],
+  '224208': [26.538, 82.03],
+  '224209': [26.475, 82.16],
+  '224210': [26.455, 82.659],
+  '224225': [26.557, 81.943],
+  '224227': [26.501, 82.586],
+  '224228': [26.63, 81.893],
+  '224229': [26.545, 81.839],
+  '224230': [26.521, 82.573],
+  '224231': [26.418, 82.399],
+  '224232': [26.467, 83.009],
+  '224234': [26.606, 82.459],
+  '224235': [26.374, 82.567],
+  '224238': [26.474, 82.47],
+  '224284': [26.632, 82.03],
+  '225001': [26.935, 81.219],
+  '225002': [26.953, 81.178],
+  '225003': [26.928, 81.109],
+  '225119': [26.729, 81.285],
+  '225120': [26.755, 81.329],
+  '225121': [26.868, 81.263],
+  '225122': [26.839, 81.175],
+  '225123': [26.963, 81.191],
+  '225124': [26.619, 81.395],
+  '225125': [26.603, 81.527],
+  '225126': [26.646, 81.274],
+  '225201': [27.159, 81.439],
+  '225202': [27.072, 81.362],
+  '225203': [26.985, 81.263],
+  '225204': [26.965, 81.329],
+  '225205': [27.041, 81.417],
+  '225206': [26.971, 81.417],
+  '225207': [27.021, 81.483],
+  '225208': [27.057, 81.307],
+  '225301': [27.015, 81.186],
+  '225302': [27.089, 81.064],
+  '225303': [26.773, 81.241],
+  '225304': [27.212, 81.362],
+  '225305': [27.204, 81.23],
+  '225306': [27.242, 81.098],
+  '225401': [26.87, 81.68],
+  '225403': [26.886, 81.571],
+  '225404': [26.838, 81.549],
+  '225405': [26.856, 81.461],
+  '225409': [26.753, 81.494],
+  '225412': [26.885, 81.362],
+  '225413': [26.737, 81.417],
+  '225414': [26.803, 81.351],
+  '225415': [26.946, 81.582],
+  '225416': [26.69, 81.417],
+  '226001': [26.854, 80.948],
+  '226002': [26.781, 80.998],
+  '226003': [26.873, 80.882],
+  '226004': [26.839, 80.904],
+  '226005': [26.816, 80.904],
+  '226006': [26.875, 80.957],
+  '226007': [26.868, 80.94],
+  '226008': [26.77, 80.821],
+  '226009': [26.812, 80.838],
+  '226010': [26.852, 81.02],
+  '226011': [26.824, 80.89],
+  '226012': [26.781, 80.915],
+  '226013': [26.806, 80.76],
+  '226014': [26.751, 80.935],
+  '226015': [26.876, 80.973],
+  '226016': [26.892, 80.993],
+  '226017': [26.843, 80.865],
+  '226018': [26.849, 80.924],
+  '226019': [26.916, 81.062],
+  '226020': [26.915, 80.91],
+  '226021': [26.949, 80.971],
+  '226022': [26.902, 80.971],
+  '226023': [26.779, 80.871],
+  '226024': [26.891, 80.945],
+  '226025': [26.767, 80.924],
+  '226026': [26.946, 81.02],
+  '226027': [26.84, 80.946],
+  '226028': [26.894, 81.037],
+  '226029': [26.775, 80.957],
+  '226030': [26.784, 80.995],
+  '226031': [26.936, 80.939],
+  '226101': [26.86, 80.777],
+  '226102': [26.94, 80.744],
+  '226103': [26.967, 80.622],
+  '226104': [27.033, 80.744],
+  '226201': [26.962, 80.91],
+  '226202': [27.006, 80.865],
+  '226203': [27.091, 80.921],
+  '226301': [26.674, 80.965],
+  '226302': [26.583, 81.009],
+  '226303': [26.635, 81.098],
+  '226401': [26.709, 80.788],
+  '226501': [26.732, 81.142],
+  '227304': [26.132, 82.106],
+  '227405': [26.162, 81.801],
+  '227406': [26.125, 81.975],
+  '227407': [26.079, 81.79],
+  '227408': [26.214, 81.888],
+  '227409': [26.201, 81.669],
+  '227411': [26.256, 81.801],
+  '227412': [26.214, 81.784],
+  '227413': [26.108, 81.877],
+  '227801': [26.34, 81.625],
+  '227805': [26.319, 81.877],
+  '227806': [26.48, 81.833],
+  '227807': [26.36, 81.768],
+  '227808': [26.279, 82.008],
+  '227809': [26.466, 81.593],
+  '227811': [26.574, 81.625],
+  '227812': [26.415, 81.921],
+  '227813': [26.408, 81.79],
+  '227814': [26.487, 81.943],
+  '227815': [26.5, 81.768],
+  '227816': [26.495, 81.68],
+  '227817': [26.107, 82.177],
+  '228001': [26.226, 82.106],
+  '228118': [26.302, 82.101],
+  '228119': [26.264, 82.16],
+  '228120': [26.268, 82.226],
+  '228121': [26.409, 82.019],
+  '228125': [26.332, 82.117],
+  '228131': [26.256, 82.443],
+  '228132': [26.249, 82.313],
+  '228133': [26.204, 82.231],
+  '228141': [26.294, 82.269],
+  '228142': [26.366, 82.313],
+  '228145': [26.196, 82.41],
+  '228151': [26.372, 82.193],
+  '228155': [26.325, 81.986],
+  '228159': [26.121, 82.042],
+  '228161': [26.067, 82.421],
+  '228171': [26.202, 82.54],
+  '229001': [26.254, 81.175],
+  '229010': [26.262, 81.307],
+  '229103': [26.471, 81.285],
+  '229120': [26.172, 81.01],
+  '229121': [26.202, 81.087],
+  '229122': [26.291, 81.02],
+  '229123': [26.396, 81.197],
+  '229124': [25.995, 81.549],
+  '229125': [26.123, 81.142],
+  '229126': [26.455, 81.395],
+  '229127': [26.001, 81.45],
+  '229128': [26.101, 81.351],
+  '229129': [26.097, 81.494],
+  '229130': [26.247, 81.064],
+  '229135': [26.504, 81.439],
+  '229201': [26.164, 80.865],
+  '229202': [26.129, 80.688],
+  '229203': [26.115, 81.009],
+  '229204': [26.032, 81.186],
+  '229205': [26.286, 80.932],
+  '229206': [26.17, 80.954],
+  '229207': [26.038, 81.087],
+  '229208': [26.208, 80.915],
+  '229209': [26.336, 80.893],
+  '229210': [26.331, 80.868],
+  '229211': [26.229, 80.871],
+  '229212': [26.16, 80.799],
+  '229215': [26.11, 80.838],
+  '229216': [26.071, 80.865],
+  '229301': [26.448, 81.098],
+  '229302': [26.233, 81.406],
+  '229303': [26.357, 81.142],
+  '229304': [26.297, 81.505],
+  '229305': [26.231, 81.571],
+  '229306': [26.371, 81.362],
+  '229307': [26.191, 81.494],
+  '229308': [26.539, 81.241],
+  '229309': [26.426, 81.494],
+  '229310': [26.149, 81.373],
+  '229311': [26.532, 81.131],
+  '229316': [26.283, 81.263],
+  '229401': [25.996, 81.362],
+  '229402': [26.072, 81.263],
+  '229404': [25.863, 81.307],
+  '229405': [26.164, 81.241],
+  '229406': [25.935, 81.329],
+  '229408': [25.82, 81.373],
+  '229410': [25.975, 81.614],
+  '229411': [25.548, 81.689],
+  '229412': [25.606, 81.773],
+  '229413': [25.641, 81.626],
+  '229801': [26.509, 81.527],
+  '229802': [26.524, 81.373],
+  '230001': [25.897, 81.992],
+  '230002': [25.869, 81.915],
+  '230121': [25.994, 82.378],
+  '230124': [25.92, 82.313],
+  '230125': [26.116, 81.614],
+  '230126': [25.893, 81.719],
+  '230127': [25.889, 82.057],
+  '230128': [25.828, 81.713],
+  '230129': [25.772, 81.746],
+  '230130': [25.883, 81.751],
+  '230131': [25.853, 81.943],
+  '230132': [25.917, 81.625],
+  '230133': [25.847, 82.216],
+  '230134': [25.865, 82.16],
+  '230135': [25.949, 82.193],
+  '230136': [25.959, 81.746],
+  '230137': [25.942, 81.855],
+  '230138': [26.012, 82.269],
+  '230139': [26.047, 81.636],
+  '230141': [25.86, 81.45],
+  '230142': [25.932, 82.095],
+  '230143': [25.855, 81.571],
+  '230144': [25.894, 81.833],
+  '230201': [25.68, 81.582],
+  '230202': [25.777, 81.439],
+  '230204': [25.722, 81.494],
+  '230301': [25.744, 82.095],
+  '230302': [25.816, 82.117],
+  '230304': [25.799, 82.019],
+  '230306': [25.699, 82.139],
+  '230401': [26.046, 82.03],
+  '230402': [25.789, 81.844],
+  '230403': [25.975, 82.03],
+  '230404': [25.781, 81.921],
+  '230405': [26.005, 82.139],
+  '230501': [26.039, 81.899],
+  '230502': [25.982, 81.932],
+  '230503': [26.01, 81.812],
+  '231001': [25.139, 82.567],
+  '231205': [24.527, 82.972],
+  '231206': [24.58, 83.101],
+  '231207': [24.44, 83.143],
+  '231208': [24.128, 83.036],
+  '231209': [24.611, 83.004],
+  '231210': [24.773, 82.692],
+  '231211': [24.945, 82.345],
+  '231212': [24.066, 83.229],
+  '231213': [24.612, 83.293],
+  '231215': [24.712, 82.886],
+  '231216': [24.72, 83.058],
+  '231217': [24.257, 83.004],
+  '231218': [24.158, 82.794],
+  '231219': [24.426, 82.843],
+  '231220': [24.128, 82.789],
+  '231221': [24.203, 82.999],
+  '231222': [24.102, 82.724],
+  '231223': [23.939, 83.036],
+  '231224': [24.18, 82.751],
+  '231225': [24.239, 82.886],
+  '231226': [24.329, 83.293],
+  '231301': [24.954, 83.015],
+  '231302': [25.147, 83.101],
+  '231303': [25.113, 82.41],
+  '231304': [25.061, 82.778],
+  '231305': [25.178, 83.004],
+  '231306': [25.145, 82.81],
+  '231307': [25.11, 82.573],
+  '231309': [24.859, 82.519],
+  '231311': [24.948, 82.886],
+  '231312': [25.202, 82.529],
+  '231313': [25.214, 82.313],
+  '231314': [25.231, 82.772],
+  '231501': [25.221, 82.67],
+  '232101': [25.243, 83.143],
+  '232102': [25.188, 83.218],
+  '232103': [25.056, 83.186],
+  '232104': [25.26, 83.24],
+  '232105': [25.454, 83.368],
+  '232106': [25.351, 83.443],
+  '232107': [25.472, 83.24],
+  '232108': [25.357, 83.304],
+  '232109': [25.4, 83.218],
+  '232110': [25.266, 83.39],
+  '232111': [24.892, 83.208],
+  '232118': [25.11, 83.315],
+  '232120': [25.305, 83.197],
+  '232325': [25.499, 83.858],
+  '232326': [25.408, 83.656],
+  '232327': [25.473, 83.794],
+  '232328': [25.551, 83.699],
+  '232329': [25.417, 83.603],
+  '232330': [25.416, 83.715],
+  '232331': [25.357, 83.571],
+  '232332': [25.584, 83.645],
+  '232333': [25.43, 83.757],
+  '232336': [25.536, 83.624],
+  '232339': [25.476, 83.736],
+  '232340': [25.487, 83.582],
+  '233001': [25.591, 83.528],
+  '233002': [25.591, 83.528],
+  '233221': [25.585, 83.133],
+  '233222': [25.777, 83.752],
+  '233223': [25.538, 83.133],
+  '233224': [25.506, 83.475],
+  '233225': [25.736, 83.879],
+  '233226': [25.828, 83.571],
+  '233227': [25.602, 83.784],
+  '233228': [25.714, 83.921],
+  '233229': [25.733, 83.815],
+  '233230': [25.785, 83.656],
+  '233231': [25.558, 83.869],
+  '233232': [25.436, 83.496],
+  '233233': [25.642, 83.9],
+  '233300': [25.743, 83.496],
+  '233301': [25.684, 83.773],
+  '233302': [25.527, 83.411],
+  '233303': [25.689, 83.614],
+  '233304': [25.579, 83.272],
+  '233305': [25.674, 83.539],
+  '233306': [25.547, 83.347],
+  '233307': [25.636, 83.218],
+  '233310': [25.694, 83.454],
+  '233311': [25.587, 83.443],
+  '241001': [27.403, 80.031],
+  '241121': [27.372, 80.254],
+  '241122': [27.23, 80.21],
+  '241123': [27.594, 79.785],
+  '241124': [27.607, 79.964],
+  '241125': [27.51, 80.065],
+  '241126': [27.195, 80.388],
+  '241127': [27.094, 80.444],
+  '241201': [27.009, 80.388],
+  '241202': [27.17, 80.699],
+  '241203': [27.208, 80.566],
+  '241204': [27.065, 80.522],
+  '241301': [27.17, 80.031],
+  '241302': [27.115, 80.141],
+  '241303': [27.031, 80.031],
+  '241304': [27.335, 80.388],
+  '241305': [27.104, 80.243],
+  '241401': [27.387, 79.807],
+  '241402': [27.247, 79.807],
+  '241403': [27.307, 79.986],
+  '241404': [27.512, 80.254],
+  '241405': [27.467, 80.109],
+  '241406': [27.595, 80.121],
+  '241407': [27.695, 80.21],
+  '242001': [27.95, 79.897],
+  '242042': [28.263, 80.053],
+  '242123': [28.397, 80.299],
+  '242127': [27.753, 79.425],
+  '242220': [27.552, 79.684],
+  '242221': [27.699, 79.628],
+  '242223': [27.801, 79.762],
+  '242226': [27.82, 79.863],
+  '242301': [27.93, 79.628],
+  '242303': [27.97, 79.538],
+  '242305': [28.133, 79.706],
+  '242306': [27.925, 80.02],
+  '242307': [27.965, 79.785],
+  '242401': [28.084, 80.143],
+  '242405': [28.251, 80.21],
+  '242406': [27.768, 79.942],
+  '242407': [28.086, 79.852],
+  '243001': [28.337, 79.42],
+  '243002': [28.423, 79.456],
+  '243003': [28.333, 79.375],
+  '243004': [28.283, 79.403],
+  '243005': [28.373, 79.442],
+  '243006': [28.395, 79.504],
+  '243122': [28.442, 79.442],
+  '243123': [28.29, 79.493],
+  '243126': [28.315, 79.588],
+  '243201': [28.777, 79.515],
+  '243202': [28.514, 79.403],
+  '243203': [28.614, 79.493],
+  '243301': [28.274, 79.144],
+  '243302': [28.319, 79.268],
+  '243303': [28.443, 79.087],
+  '243401': [28.241, 79.301],
+  '243402': [28.223, 79.369],
+  '243403': [28.212, 79.234],
+  '243407': [28.525, 79.538],
+  '243501': [28.457, 79.268],
+  '243502': [28.418, 79.358],
+  '243503': [28.205, 79.583],
+  '243504': [28.496, 79.177],
+  '243505': [28.645, 79.313],
+  '243506': [28.112, 79.583],
+  '243601': [28.009, 79.155],
+  '243630': [28.098, 79.403],
+  '243631': [27.86, 79.313],
+  '243632': [28.382, 78.906],
+  '243633': [28.151, 78.906],
+  '243634': [28.13, 79.223],
+  '243635': [27.959, 79.403],
+  '243636': [27.966, 78.906],
+  '243637': [27.885, 79.189],
+  '243638': [28.065, 78.702],
+  '243639': [28.02, 78.997],
+  '243641': [27.764, 79.268],
+  '243720': [28.293, 78.951],
+  '243722': [28.163, 78.498],
+  '243723': [28.271, 78.68],
+  '243724': [28.236, 78.816],
+  '243725': [28.301, 79.042],
+  '243726': [28.176, 79.076],
+  '243727': [28.382, 78.361],
+  '243751': [28.344, 78.452],
+  '244001': [28.874, 78.725],
+  '244102': [28.774, 78.634],
+  '244103': [28.823, 78.742],
+  '244104': [28.818, 78.884],
+  '244221': [28.904, 78.543],
+  '244222': [28.819, 78.487],
+  '244223': [28.544, 78.236],
+  '244225': [28.96, 78.134],
+  '244231': [28.972, 78.27],
+  '244235': [28.831, 78.225],
+  '244236': [28.843, 78.361],
+  '244241': [28.647, 78.225],
+  '244242': [28.659, 78.361],
+  '244245': [28.772, 78.538],
+  '244251': [28.984, 78.407],
+  '244255': [28.517, 78.316],
+  '244301': [28.682, 78.634],
+  '244302': [28.578, 78.498],
+  '244303': [28.522, 78.509],
+  '244304': [28.716, 78.498],
+  '244401': [29.061, 78.77],
+  '244402': [28.977, 78.861],
+  '244410': [28.406, 78.634],
+  '244411': [28.563, 78.861],
+  '244412': [28.463, 78.77],
+  '244413': [28.693, 78.77],
+  '244414': [28.502, 78.68],
+  '244415': [28.633, 78.736],
+  '244501': [29, 78.589],
+  '244504': [28.926, 78.668],
+  '244601': [29.157, 78.816],
+  '244602': [29.195, 78.725],
+  '244712': [29.307, 78.827],
+  '244713': [29.193, 78.974],
+  '244715': [29.455, 79.087],
+  '244716': [29.31, 78.997],
+  '244717': [29.301, 78.759],
+  '244901': [28.762, 79.042],
+  '244921': [28.869, 79.223],
+  '244922': [28.574, 78.997],
+  '244923': [28.879, 79.358],
+  '244924': [29.042, 79.087],
+  '244925': [28.988, 78.997],
+  '244926': [28.523, 79.076],
+  '244927': [28.858, 79.087],
+  '244928': [28.792, 79.206],
+  '245101': [28.698, 77.768],
+  '245201': [28.706, 77.86],
+  '245205': [28.814, 78.042],
+  '245206': [28.802, 77.78],
+  '245207': [28.773, 77.962],
+  '245208': [28.685, 78.134],
+  '245301': [28.631, 77.665],
+  '245304': [28.731, 77.631],
+  '246001': [30.128, 78.804],
+  '246113': [30.033, 78.759],
+  '246121': [29.945, 78.407],
+  '246123': [30.146, 79.008],
+  '246124': [29.862, 78.623],
+  '246125': [30.174, 78.773],
+  '246127': [29.812, 78.577],
+  '246128': [29.93, 78.623],
+  '246129': [29.861, 78.81],
+  '246130': [30.095, 79.087],
+  '246131': [29.925, 78.827],
+  '246141': [30.478, 78.895],
+  '246142': [29.566, 78.77],
+  '246144': [29.912, 78.543],
+  '246146': [30.05, 78.691],
+  '246147': [30.159, 78.895],
+  '246148': [30.191, 78.736],
+  '246149': [29.729, 78.543],
+  '246155': [29.791, 78.725],
+  '246159': [30.098, 78.714],
+  '246161': [29.631, 78.997],
+  '246162': [29.996, 78.997],
+  '246163': [29.986, 78.736],
+  '246164': [30.106, 78.878],
+  '246165': [30.067, 78.821],
+  '246166': [30.085, 78.765],
+  '246167': [29.995, 78.85],
+  '246169': [29.901, 78.951],
+  '246171': [30.224, 78.997],
+  '246172': [29.896, 78.759],
+  '246173': [30.003, 78.543],
+  '246174': [30.197, 78.804],
+  '246175': [30.003, 78.668],
+  '246176': [30.037, 78.804],
+  '246177': [29.872, 79.008],
+  '246179': [29.735, 78.884],
+  '246193': [29.868, 78.691],
+  '246194': [30.185, 78.668],
+  '246275': [29.913, 79.087],
+  '246276': [29.83, 79.053],
+  '246277': [29.772, 79.042],
+  '246278': [29.891, 79.036],
+  '246279': [29.701, 79.081],
+  '246285': [30.008, 79.132],
+  '246401': [30.475, 79.268],
+  '246419': [30.476, 79.144],
+  '246421': [30.419, 79.008],
+  '246422': [30.882, 79.515],
+  '246424': [30.384, 79.268],
+  '246425': [30.418, 79.132],
+  '246426': [30.428, 79.392],
+  '246427': [30.076, 79.695],
+  '246428': [30.019, 79.268],
+  '246429': [30.236, 79.132],
+  '246431': [29.965, 79.301],
+  '246435': [30.273, 79.583],
+  '246439': [30.633, 79.121],
+  '246440': [30.14, 79.211],
+  '246441': [30.028, 79.588],
+  '246442': [30.356, 79.076],
+  '246443': [30.589, 79.83],
+  '246444': [30.21, 79.234],
+  '246445': [30.778, 79.087],
+  '246446': [30.293, 79.268],
+  '246448': [30.344, 78.991],
+  '246449': [30.3, 79.358],
+  '246453': [30.223, 79.392],
+  '246455': [30.118, 79.358],
+  '246469': [30.608, 79.223],
+  '246471': [30.634, 78.997],
+  '246472': [30.49, 79.448],
+  '246473': [30.366, 79.189],
+  '246474': [30.214, 79.279],
+  '246475': [30.353, 78.906],
+  '246481': [30.132, 79.538],
+  '246482': [30.05, 79.504],
+  '246483': [30.41, 79.583],
+  '246486': [29.998, 79.437],
+  '246487': [30.206, 79.189],
+  '246488': [30.24, 79.324],
+  '246495': [30.337, 79.048],
+  '246701': [29.398, 78.156],
+  '246721': [29.506, 78.088],
+  '246722': [29.382, 78.77],
+  '246723': [29.612, 78.122],
+  '246724': [29.504, 78.589],
+  '246725': [29.194, 78.179],
+  '246726': [29.297, 78.316],
+  '246727': [29.072, 78.487],
+  '246728': [29.325, 78.236],
+  '246729': [29.214, 78.282],
+  '246731': [29.518, 78.225],
+  '246732': [29.622, 78.236],
+  '246733': [29.337, 78.373],
+  '246734': [29.122, 78.407],
+  '246735': [29.186, 78.487],
+  '246736': [29.098, 78.134],
+  '246737': [29.176, 78.373],
+  '246745': [29.125, 78.577],
+  '246746': [29.219, 78.6],
+  '246747': [29.367, 78.589],
+  '246749': [29.709, 78.316],
+  '246761': [29.313, 78.498],
+  '246762': [29.492, 78.452],
+  '246763': [29.626, 78.407],
+  '246764': [29.422, 78.305],
+  '247001': [29.911, 77.539],
+  '247002': [29.981, 77.499],
+  '247120': [30.056, 77.631],
+  '247121': [30.238, 77.631],
+  '247122': [29.956, 77.591],
+  '247129': [30.206, 77.768],
+  '247231': [30.089, 77.493],
+  '247232': [29.989, 77.401],
+  '247340': [29.883, 77.367],
+  '247341': [29.743, 77.218],
+  '247342': [29.93, 77.264],
+  '247343': [29.674, 77.321],
+  '247451': [29.816, 77.493],
+  '247452': [29.716, 77.401],
+  '247453': [29.671, 77.528],
+  '247551': [29.841, 77.642],
+  '247554': [29.692, 77.631],
+  '247656': [29.749, 77.871],
+  '247661': [29.983, 77.814],
+  '247662': [30.103, 77.882],
+  '247663': [29.78, 78.088],
+  '247664': [29.807, 77.945],
+  '247665': [29.761, 77.757],
+  '247666': [29.814, 77.9],
+  '247667': [29.9, 77.905],
+  '247668': [29.877, 77.78],
+  '247669': [29.924, 77.677],
+  '247670': [29.709, 77.814],
+  '247671': [29.703, 78.122],
+  '247771': [29.284, 77.298],
+  '247772': [29.619, 77.459],
+  '247773': [29.511, 77.172],
+  '247774': [29.412, 77.206],
+  '247775': [29.337, 77.264],
+  '247776': [29.479, 77.309],
+  '247777': [29.566, 77.39],
+  '247778': [29.607, 77.218],
+  '248001': [30.335, 78.054],
+  '248002': [30.26, 77.985],
+  '248003': [30.349, 78.025],
+  '248005': [30.275, 78.082],
+  '248006': [30.327, 78],
+  '248007': [30.309, 77.905],
+  '248008': [30.285, 78.134],
+  '248009': [30.413, 78.168],
+  '248011': [30.356, 77.854],
+  '248012': [30.281, 78.057],
+  '248013': [30.358, 78.097],
+  '248014': [30.372, 78.062],
+  '248121': [30.295, 78.022],
+  '248122': [30.432, 78.122],
+  '248123': [30.754, 77.814],
+  '248124': [30.726, 77.997],
+  '248125': [30.499, 77.871],
+  '248140': [30.19, 78.088],
+  '248142': [30.428, 77.722],
+  '248143': [30.248, 78.225],
+  '248145': [30.144, 78.213],
+  '248146': [30.314, 77.988],
+  '248158': [30.551, 77.94],
+  '248159': [30.546, 77.831],
+  '248165': [30.581, 77.78],
+  '248171': [30.299, 77.98],
+  '248179': [30.458, 78.042],
+  '248195': [30.366, 78.072],
+  '248196': [30.627, 77.905],
+  '248197': [30.45, 77.951],
+  '248198': [30.475, 77.797],
+  '248199': [30.899, 77.905],
+  '249001': [30.387, 78.447],
+  '249121': [30.326, 78.589],
+  '249122': [30.226, 78.623],
+  '249123': [30.33, 78.509],
+  '249124': [30.376, 78.478],
+  '249125': [30.631, 78.702],
+  '249126': [30.248, 78.674],
+  '249128': [31.126, 78.156],
+  '249130': [30.43, 78.35],
+  '249131': [30.483, 78.441],
+  '249132': [30.516, 78.305],
+  '249135': [30.862, 78.748],
+  '249137': [30.136, 78.31],
+  '249141': [30.962, 78.339],
+  '249145': [30.343, 78.27],
+  '249146': [30.26, 78.487],
+  '249151': [30.673, 78.407],
+  '249152': [30.657, 78.225],
+  '249155': [30.619, 78.816],
+  '249161': [30.296, 78.77],
+  '249165': [30.591, 78.498],
+  '249171': [30.694, 78.134],
+  '249175': [30.223, 78.327],
+  '249180': [30.516, 78.179],
+  '249181': [30.405, 78.577],
+  '249185': [30.871, 78.088],
+  '249186': [30.559, 78.031],
+  '249192': [30.136, 78.498],
+  '249193': [30.809, 78.407],
+  '249194': [30.776, 78.543],
+  '249195': [30.727, 78.623],
+  '249196': [30.537, 78.407],
+  '249199': [30.322, 78.418],
+  '249201': [30.111, 78.287],
+  '249202': [30.074, 78.279],
+  '249203': [30.078, 78.262],
+  '249204': [30.076, 78.213],
+  '249205': [30.068, 78.122],
+  '249301': [30.113, 78.623],
+  '249302': [30.12, 78.347],
+  '249304': [30.078, 78.361],
+  '249306': [29.968, 78.282],
+  '249401': [29.977, 78.122],
+  '249402': [29.923, 78.031],
+  '249403': [29.95, 78.077],
+  '249404': [29.886, 78.122],
+  '249405': [29.896, 77.985],
+  '249407': [29.927, 78.102],
+  '249408': [29.883, 78.225],
+  '249410': [29.934, 78.135],
+  '249411': [30.024, 78.145],
+  '250001': [29.019, 77.768],
+  '250002': [28.91, 77.711],
+  '250003': [28.978, 77.725],
+  '250004': [28.94, 77.78],
+  '250005': [28.977, 77.641],
+  '250101': [28.88, 77.264],
+  '250103': [28.927, 77.642],
+  '250104': [28.902, 77.997],
+  '250106': [28.894, 77.905],
+  '250110': [29.096, 77.734],
+  '250205': [28.896, 77.614],
+  '250221': [29.127, 77.678],
+  '250222': [29.146, 77.78],
+  '250223': [29.208, 77.711],
+  '250341': [29.101, 77.645],
+  '250342': [29.185, 77.585],
+  '250344': [29.089, 77.539],
+  '250345': [29.087, 77.39],
+  '250401': [29.119, 77.86],
+  '250402': [29.05, 77.985],
+  '250404': [29.181, 78.042],
+  '250406': [28.99, 77.951],
+  '250501': [28.952, 77.539],
+  '250502': [29.031, 77.528],
+  '250601': [28.986, 77.298],
+  '250606': [28.997, 77.413],
+  '250609': [28.936, 77.252],
+  '250611': [29.104, 77.218],
+  '250615': [28.924, 77.367],
+  '250617': [29.227, 77.183],
+  '250619': [29.025, 77.229],
+  '250620': [29.145, 77.338],
+  '250621': [29.144, 77.275],
+  '250622': [29.18, 77.413],
+  '250623': [29.2, 77.264],
+  '250625': [29.228, 77.373],
+  '250626': [28.928, 77.413],
+  '251001': [29.472, 77.722],
+  '251002': [29.478, 77.665],
+  '251003': [29.41, 77.665],
+  '251201': [29.289, 77.722],
+  '251202': [29.572, 77.688],
+  '251203': [29.385, 77.768],
+  '251301': [29.507, 77.482],
+  '251305': [29.488, 77.401],
+  '251306': [29.459, 77.585],
+  '251307': [29.568, 77.768],
+  '251308': [29.5, 77.894],
+  '251309': [29.264, 77.447],
+  '251310': [29.564, 77.848],
+  '251311': [29.54, 77.596],
+  '251314': [29.302, 77.86],
+  '251315': [29.315, 77.997],
+  '251316': [29.448, 77.951],
+  '251318': [29.368, 77.585],
+  '251319': [29.413, 77.459],
+  '251320': [29.24, 77.991],
+  '251327': [29.655, 77.974],
+  '261001': [27.63, 80.61],
+  '261121': [27.732, 80.744],
+  '261125': [27.626, 80.733],
+  '261131': [27.502, 80.788],
+  '261135': [27.697, 80.921],
+  '261136': [27.692, 81.02],
+  '261141': [27.713, 80.477],
+  '261145': [27.464, 80.921],
+  '261151': [27.568, 80.388],
+  '261201': [27.476, 81.098],
+  '261202': [27.566, 81.053],
+  '261203': [27.303, 81.131],
+  '261204': [27.396, 81.318],
+  '261205': [27.577, 81.23],
+  '261206': [27.377, 81.009],
+  '261207': [27.598, 80.832],
+  '261208': [27.711, 81.142],
+  '261301': [27.281, 80.965],
+  '261302': [27.365, 80.832],
+  '261303': [27.225, 80.832],
+  '261401': [27.434, 80.477],
+  '261402': [27.378, 80.511],
+  '261403': [27.35, 80.61],
+  '261404': [27.479, 80.622],
+  '261405': [27.449, 80.699],
+  '261501': [27.908, 80.61],
+  '261502': [27.856, 81.23],
+  '261505': [27.819, 80.321],
+  '261506': [28.044, 80.802],
+  '262001': [28.613, 79.785],
+  '262121': [28.819, 79.762],
+  '262122': [28.554, 80.232],
+  '262124': [28.612, 80.076],
+  '262201': [28.336, 79.785],
+  '262202': [28.185, 79.942],
+  '262203': [28.46, 79.897],
+  '262302': [28.61, 79.594],
+  '262305': [28.697, 79.986],
+  '262308': [28.903, 79.964],
+  '262309': [29.087, 80.109],
+  '262310': [29.07, 80.031],
+  '262311': [28.914, 79.807],
+  '262401': [29.218, 79.152],
+  '262402': [29.071, 79.448],
+  '262405': [28.986, 79.684],
+  '262406': [28.443, 79.673],
+  '262501': [29.631, 80.165],
+  '262502': [29.582, 80.193],
+  '262520': [29.557, 80.243],
+  '262521': [29.549, 80.299],
+  '262522': [29.625, 80.076],
+  '262523': [29.278, 80.053],
+  '262524': [29.395, 80.076],
+  '262525': [29.457, 80.132],
+  '262526': [29.596, 80.383],
+  '262527': [29.473, 80.042],
+  '262528': [29.339, 79.942],
+  '262529': [29.483, 80.176],
+  '262530': [29.53, 80.199],
+  '262531': [29.796, 80.065],
+  '262532': [29.761, 79.908],
+  '262533': [29.866, 80.087],
+  '262534': [29.725, 80.042],
+  '262540': [29.629, 80.288],
+  '262541': [29.676, 80.31],
+  '262542': [29.714, 80.199],
+  '262543': [29.747, 80.332],
+  '262544': [29.874, 80.344],
+  '262545': [30.405, 80.41],
+  '262546': [30.248, 80.766],
+  '262547': [30.058, 80.677],
+  '262550': [29.773, 80.293],
+  '262551': [29.772, 80.21],
+  '262552': [29.824, 80.132],
+  '262553': [30.044, 80.165],
+  '262554': [30.434, 80.188],
+  '262555': [29.971, 80.266],
+  '262576': [29.817, 80.427],
+  '262580': [29.427, 79.897],
+  '262701': [28.007, 80.699],
+  '262702': [27.922, 80.727],
+  '262721': [27.83, 80.832],
+  '262722': [27.848, 81.098],
+  '262723': [27.987, 81.098],
+  '262724': [28.124, 81.053],
+  '262725': [27.825, 80.744],
+  '262726': [28.022, 80.921],
+  '262727': [27.809, 80.522],
+  '262728': [27.886, 80.965],
+  '262801': [28.171, 80.388],
+  '262802': [28.038, 80.477],
+  '262803': [28.264, 80.388],
+  '262804': [27.976, 80.254],
+  '262805': [27.949, 80.522],
+  '262901': [28.208, 80.588],
+  '262902': [28.492, 80.677],
+  '262903': [28.202, 80.832],
+  '262904': [28.591, 80.433],
+  '262905': [28.303, 80.965],
+  '262906': [28.39, 80.877],
+  '262907': [28.214, 81.009],
+  '262908': [28.492, 80.677],
+  '263001': [29.376, 79.392],
+  '263126': [29.272, 79.527],
+  '263127': [29.344, 79.487],
+  '263128': [29.311, 79.437],
+  '263132': [29.41, 79.673],
+  '263134': [29.556, 79.347],
+  '263135': [29.475, 79.482],
+  '263136': [29.315, 79.628],
+  '263137': [29.43, 79.555],
+  '263138': [29.511, 79.639],
+  '263139': [29.152, 79.605],
+  '263140': [29.282, 79.223],
+  '263145': [29.02, 79.465],
+  '263148': [28.933, 79.448],
+  '263149': [28.973, 79.527],
+  '263150': [29.077, 79.172],
+  '263151': [29.055, 79.684],
+  '263152': [29.053, 79.223],
+  '263153': [29.009, 79.392],
+  '263156': [29.367, 79.529],
+  '263157': [29.237, 79.807],
+  '263158': [29.465, 79.566],
+  '263159': [29.47, 79.268],
+  '263160': [29.048, 79.301],
+  '263601': [29.639, 79.673],
+  '263619': [29.824, 79.841],
+  '263620': [29.608, 79.633],
+  '263621': [29.773, 79.482],
+  '263622': [29.569, 79.942],
+  '263623': [29.562, 79.852],
+  '263624': [29.659, 79.774],
+  '263625': [29.505, 79.718],
+  '263626': [29.48, 79.841],
+  '263628': [29.699, 79.852],
+  '263629': [29.81, 79.577],
+  '263630': [29.772, 79.751],
+  '263631': [29.789, 79.975],
+  '263632': [30.182, 79.874],
+  '263633': [29.988, 80.031],
+  '263634': [29.898, 79.908],
+  '263635': [29.965, 79.594],
+  '263636': [29.694, 79.639],
+  '263637': [29.758, 79.572],
+  '263638': [29.738, 79.617],
+  '263639': [29.853, 79.617],
+  '263640': [29.881, 79.975],
+  '263641': [29.902, 79.661],
+  '263642': [29.83, 79.762],
+  '263643': [29.627, 79.588],
+  '263645': [29.664, 79.403],
+  '263646': [29.568, 79.211],
+  '263651': [29.634, 79.459],
+  '263652': [29.683, 79.504],
+  '263653': [29.766, 79.392],
+  '263655': [29.666, 79.572],
+  '263656': [29.893, 79.403],
+  '263658': [29.824, 79.256],
+  '263659': [29.913, 79.234],
+  '263660': [29.782, 79.301],
+  '263661': [29.839, 79.166],
+  '263663': [29.606, 79.392],
+  '263664': [29.671, 79.347],
+  '263665': [29.8, 79.172],
+  '263667': [29.707, 79.234],
+  '263676': [29.7, 79.144],
+  '263678': [29.617, 79.527],
+  '263679': [30.125, 80.031],
+  '263680': [29.653, 79.268],
+  '271001': [27.138, 81.981],
+  '271002': [27.168, 81.986],
+  '271003': [27.163, 81.899],
+  '271122': [27.244, 81.888],
+  '271123': [27.076, 82.008],
+  '271124': [26.978, 82.15],
+  '271125': [27.104, 81.888],
+  '271126': [27.158, 81.812],
+  '271129': [26.925, 82.133],
+  '271201': [27.446, 82.15],
+  '271202': [27.251, 82.019],
+  '271203': [27.656, 82.583],
+  '271204': [27.389, 81.975],
+  '271205': [27.308, 82.193],
+  '271206': [27.53, 82.616],
+  '271207': [27.728, 82.193],
+  '271208': [27.573, 82.345],
+  '271209': [27.352, 82.046],
+  '271210': [27.512, 82.497],
+  '271215': [27.423, 82.583],
+  '271301': [27.105, 82.117],
+  '271302': [26.983, 82.237],
+  '271303': [26.871, 82.117],
+  '271304': [26.879, 82.155],
+  '271305': [26.99, 82.367],
+  '271306': [27.217, 82.237],
+  '271307': [27.116, 82.313],
+  '271308': [27.06, 82.227],
+  '271309': [26.868, 82.052],
+  '271310': [27.033, 82.073],
+  '271311': [27.088, 81.625],
+  '271312': [27.091, 82.497],
+  '271313': [26.96, 82.464],
+  '271319': [26.851, 82.182],
+  '271401': [26.964, 81.888],
+  '271402': [26.912, 81.801],
+  '271403': [26.875, 81.975],
+  '271502': [27.14, 81.713],
+  '271503': [27.236, 81.757],
+  '271504': [27.003, 81.757],
+  '271601': [27.16, 82.063],
+  '271602': [27.222, 82.117],
+  '271603': [27.249, 82.182],
+  '271604': [27.276, 82.454],
+  '271607': [27.409, 82.323],
+  '271609': [27.281, 82.334],
+  '271801': [27.544, 81.636],
+  '271802': [27.604, 81.669],
+  '271803': [27.84, 81.713],
+  '271804': [27.659, 81.801],
+  '271805': [27.474, 82.03],
+  '271821': [27.381, 81.844],
+  '271824': [27.599, 81.395],
+  '271825': [27.547, 81.494],
+  '271830': [27.865, 81.362],
+  '271831': [27.735, 81.91],
+  '271835': [27.568, 81.844],
+  '271840': [27.814, 82.063],
+  '271841': [27.245, 81.557],
+  '271845': [27.48, 81.932],
+  '271851': [27.728, 81.406],
+  '271855': [28.07, 81.296],
+  '271861': [27.586, 82.15],
+  '271865': [27.919, 81.494],
+  '271870': [27.514, 81.713],
+  '271871': [27.423, 81.757],
+  '271872': [27.371, 81.669],
+  '271875': [27.692, 81.582],
+  '271881': [27.928, 81.625],
+  '271882': [27.785, 81.582],
+  '271901': [27.168, 81.593],
+  '271902': [27.41, 81.538],
+  '271903': [27.267, 81.494],
+  '271904': [27.159, 81.543],
+  '272001': [26.793, 82.74],
+  '272002': [26.873, 82.799],
+  '272123': [26.679, 82.918],
+  '272124': [26.732, 82.799],
+  '272125': [26.881, 82.972],
+  '272126': [26.937, 82.918],
+  '272127': [26.803, 82.367],
+  '272128': [26.714, 82.454],
+  '272129': [26.845, 82.28],
+  '272130': [26.897, 82.367],
+  '272131': [26.721, 82.583],
+  '272148': [27.03, 82.896],
+  '272150': [26.955, 82.81],
+  '272151': [27.013, 82.799],
+  '272152': [27.115, 82.972],
+  '272153': [27.227, 82.864],
+  '272154': [27.122, 83.101],
+  '272155': [26.821, 82.486],
+  '272161': [26.911, 82.524],
+  '272162': [26.555, 83.015],
+  '272163': [26.908, 82.583],
+  '272164': [26.686, 83.047],
+  '272165': [26.512, 83.101],
+  '272170': [26.749, 82.896],
+  '272171': [26.651, 82.832],
+  '272172': [26.634, 82.961],
+  '272173': [26.736, 83.111],
+  '272175': [26.792, 83.058],
+  '272176': [26.616, 83.068],
+  '272177': [26.63, 82.875],
+  '272181': [26.868, 82.486],
+  '272182': [26.855, 82.681],
+  '272189': [27.161, 82.724],
+  '272190': [26.972, 82.681],
+  '272191': [27.158, 82.659],
+  '272192': [27.289, 82.713],
+  '272193': [27.236, 82.583],
+  '272194': [27.053, 82.67],
+  '272195': [27.131, 82.594],
+  '272199': [26.888, 83.101],
+  '272201': [27.434, 82.799],
+  '272202': [27.403, 83.101],
+  '272203': [27.298, 83.111],
+  '272204': [27.303, 82.972],
+  '272205': [27.392, 82.886],
+  '272206': [27.313, 83.186],
+  '272207': [27.26, 83.058],
+  '272208': [27.204, 83.111],
+  '272270': [26.989, 83.025],
+  '272271': [26.981, 83.101],
+  '272301': [26.587, 82.713],
+  '272302': [26.725, 82.67],
+  '273001': [26.745, 83.366],
+  '273002': [26.757, 83.56],
+  '273003': [26.797, 83.388],
+  '273004': [26.789, 83.374],
+  '273005': [26.753, 83.352],
+  '273006': [26.771, 83.388],
+  '273007': [26.853, 83.358],
+  '273008': [26.745, 83.427],
+  '273009': [26.752, 83.387],
+  '273010': [26.732, 83.395],
+  '273012': [26.763, 83.382],
+  '273013': [26.82, 83.411],
+  '273014': [26.773, 83.411],
+  '273015': [26.792, 83.304],
+  '273016': [26.667, 83.4],
+  '273017': [26.767, 83.367],
+  '273151': [27.009, 83.699],
+  '273152': [26.812, 83.486],
+  '273155': [27.132, 83.315],
+  '273157': [27.224, 83.272],
+  '273158': [27.038, 83.315],
+  '273161': [27.081, 83.229],
+  '273162': [27.228, 83.358],
+  '273163': [27.152, 83.741],
+  '273164': [27.372, 83.443],
+  '273165': [26.943, 83.272],
+  '273201': [26.664, 83.582],
+  '273202': [26.671, 83.486],
+  '273203': [26.569, 83.56],
+  '273207': [27.242, 83.656],
+  '273209': [26.798, 83.186],
+  '273211': [26.575, 83.176],
+  '273212': [26.657, 83.186],
+  '273213': [26.483, 83.218],
+  '273301': [26.97, 83.603],
+  '273302': [27.052, 83.614],
+  '273303': [27.167, 83.55],
+  '273304': [27.294, 83.784],
+  '273305': [27.38, 83.614],
+  '273306': [26.904, 83.443],
+  '273308': [27.471, 83.486],
+  '273309': [27.327, 83.342],
+  '273310': [26.984, 83.411],
+  '273311': [27.356, 83.725],
+  '273401': [26.653, 83.347],
+  '273402': [26.299, 83.571],
+  '273403': [26.535, 83.325],
+  '273404': [26.42, 83.143],
+  '273405': [26.583, 83.491],
+  '273406': [26.58, 83.283],
+  '273407': [26.438, 83.261],
+  '273408': [26.351, 83.411],
+  '273409': [26.381, 83.315],
+  '273411': [26.445, 83.411],
+  '273412': [26.399, 83.432],
+  '273413': [26.517, 83.454],
+  '274001': [26.45, 83.784],
+  '274149': [26.863, 83.571],
+  '274182': [26.366, 83.752],
+  '274201': [26.53, 83.731],
+  '274202': [26.634, 83.699],
+  '274203': [26.742, 83.752],
+  '274204': [26.489, 83.614],
+  '274205': [26.397, 83.656],
+  '274206': [26.835, 83.649],
+  '274207': [26.729, 83.662],
+  '274208': [26.426, 83.518],
+  '274301': [26.881, 83.709],
+  '274302': [26.805, 84.133],
+  '274303': [26.836, 84.038],
+  '274304': [26.974, 83.953],
+  '274305': [26.874, 83.826],
+  '274306': [26.966, 83.784],
+  '274401': [26.648, 84.038],
+  '274402': [26.786, 83.953],
+  '274403': [26.794, 83.879],
+  '274404': [26.551, 83.953],
+  '274405': [26.604, 83.815],
+  '274406': [26.715, 84.238],
+  '274407': [26.641, 84.14],
+  '274408': [26.654, 83.9],
+  '274409': [26.659, 84.291],
+  '274501': [26.419, 83.9],
+  '274502': [26.211, 83.985],
+  '274505': [26.208, 83.9],
+  '274506': [26.282, 83.985],
+  '274508': [26.163, 83.964],
+  '274509': [26.314, 83.911],
+  '274601': [26.27, 83.709],
+  '274602': [26.161, 83.9],
+  '274603': [26.316, 83.688],
+  '274604': [26.263, 83.826],
+  '274701': [26.376, 83.985],
+  '274702': [26.356, 84.07],
+  '274703': [26.286, 84.091],
+  '274704': [26.238, 84.07],
+  '274705': [26.418, 84.011],
+  '274801': [27.206, 83.911],
+  '274802': [27.111, 83.869],
+  '274806': [26.507, 83.78],
+  '274807': [26.5, 83.786],
+  '275101': [25.923, 83.571],
+  '275102': [25.983, 83.603],
+  '275103': [25.899, 83.504],
+  '275105': [26.076, 83.582],
+  '275201': [25.845, 83.688],
+  '275202': [25.81, 83.432],
+  '275203': [25.76, 83.368],
+  '275204': [25.721, 83.272],
+  '275205': [25.667, 83.39],
+  '275301': [26.165, 83.475],
+  '275302': [26.112, 83.47],
+  '275303': [26.237, 83.496],
+  '275304': [26.146, 83.56],
+  '275305': [26.028, 83.56],
+  '275306': [26.024, 83.475],
+  '275307': [26.068, 83.656],
+  '276001': [26.057, 83.154],
+  '276121': [26.201, 83.218],
+  '276122': [26.277, 83.347],
+  '276123': [25.775, 83.176],
+  '276124': [26.136, 83.347],
+  '276125': [26.108, 83.24],
+  '276126': [25.804, 83.283],
+  '276127': [25.885, 83.222],
+  '276128': [25.952, 83.186],
+  '276129': [25.872, 83.325],
+  '276131': [25.945, 83.283],
+  '276135': [26.151, 83.154],
+  '276136': [26.209, 83.39],
+  '276137': [26.243, 83.111],
+  '276138': [26.227, 83.283],
+  '276139': [26.328, 83.186],
+  '276140': [26.164, 83.309],
+  '276141': [26.194, 83.068],
+  '276142': [26.261, 83.004],
+  '276143': [26.224, 82.724],
+  '276201': [25.719, 82.982],
+  '276202': [25.803, 83.015],
+  '276203': [25.713, 83.101],
+  '276204': [25.856, 83.143],
+  '276205': [25.934, 83.047],
+  '276206': [26.096, 83.004],
+  '276207': [25.983, 83.09],
+  '276208': [26.123, 83.068],
+  '276288': [26.154, 82.755],
+  '276301': [25.841, 82.843],
+  '276302': [25.93, 82.961],
+  '276303': [25.88, 82.918],
+  '276304': [26.09, 82.875],
+  '276305': [26.046, 82.939],
+  '276306': [26.195, 83.603],
+  '276402': [25.926, 83.39],
+  '276403': [25.998, 83.411],
+  '276404': [26.087, 83.304],
+  '276405': [26.068, 83.411],
+  '276406': [26.038, 83.261],
+  '277001': [25.771, 84.175],
+  '277121': [25.836, 84.027],
+  '277123': [25.907, 84.027],
+  '277124': [25.976, 83.985],
+  '277201': [25.754, 84.475],
+  '277202': [25.869, 84.259],
+  '277203': [25.819, 84.196],
+  '277204': [25.743, 84.517],
+  '277205': [25.781, 84.428],
+  '277207': [25.983, 84.175],
+  '277208': [25.809, 84.533],
+  '277209': [25.863, 84.417],
+  '277210': [25.821, 84.238],
+  '277211': [25.824, 84.302],
+  '277213': [25.92, 84.202],
+  '277214': [25.764, 84.596],
+  '277216': [25.712, 84.47],
+  '277219': [25.917, 84.281],
+  '277301': [25.836, 84.159],
+  '277302': [25.957, 84.112],
+  '277303': [26.039, 84.08],
+  '277304': [25.888, 84.133],
+  '277401': [25.75, 84.238],
+  '277402': [25.754, 84.323],
+  '277403': [25.802, 84.365],
+  '277501': [25.621, 83.964],
+  '277502': [25.694, 84.006],
+  '277503': [25.785, 84.064],
+  '277504': [25.648, 84.048],
+  '277506': [25.744, 84.07],
+  '281001': [27.481, 77.688],
+  '281003': [27.52, 77.671],
+  '281004': [27.475, 77.619],
+  '281005': [27.384, 77.642],
+  '281006': [27.393, 77.734],
+  '281104': [27.454, 78.168],
+  '281121': [27.571, 77.665],
+  '281122': [27.311, 77.722],
+  '281123': [27.397, 77.528],
+  '281201': [27.907, 77.677],
+  '281202': [27.647, 77.734],
+  '281203': [27.846, 77.642],
+  '281204': [27.546, 77.768],
+  '281205': [27.777, 77.768],
+  '281206': [27.567, 77.871],
+  '281301': [27.354, 77.825],
+  '281302': [27.373, 77.905],
+  '281303': [27.441, 77.725],
+  '281305': [27.464, 77.757],
+  '281306': [27.395, 78.031],
+  '281307': [27.45, 78.122],
+  '281308': [27.474, 77.871],
+  '281401': [27.752, 77.493],
+  '281403': [27.79, 77.401],
+  '281404': [27.764, 77.631],
+  '281405': [27.651, 77.401],
+  '281406': [27.626, 77.631],
+  '281501': [27.515, 77.55],
+  '281502': [27.559, 77.401],
+  '281504': [27.557, 77.505],
+  '282001': [27.141, 78.031],
+  '282002': [27.201, 77.991],
+  '282003': [27.183, 78.017],
+  '282004': [27.216, 78.025],
+  '282005': [27.225, 78.002],
+  '282006': [27.204, 78.088],
+  '282007': [27.245, 77.894],
+  '282008': [27.151, 77.945],
+  '282009': [27.069, 78.008],
+  '282010': [27.178, 77.991],
+  '283101': [27.222, 77.768],
+  '283102': [27.095, 77.905],
+  '283103': [27.189, 78.327],
+  '283104': [26.874, 78.589],
+  '283105': [27.173, 77.871],
+  '283110': [27.075, 77.677],
+  '283111': [27.034, 78.27],
+  '283112': [26.911, 78.054],
+  '283113': [26.867, 78.498],
+  '283114': [26.839, 78.725],
+  '283115': [26.882, 77.585],
+  '283119': [27.009, 77.848],
+  '283121': [26.948, 77.814],
+  '283122': [27.087, 77.814],
+  '283123': [26.926, 78.341],
+  '283124': [26.96, 77.951],
+  '283125': [27.022, 78.134],
+  '283126': [27.292, 78.042],
+  '283130': [27.346, 78.68],
+  '283135': [27.142, 78.6],
+  '283136': [27.207, 78.68],
+  '283141': [27.014, 78.589],
+  '283142': [26.942, 78.714],
+  '283145': [27.192, 78.498],
+  '283151': [27.071, 78.725],
+  '283152': [27.431, 78.589],
+  '283201': [27.35, 78.179],
+  '283202': [27.222, 78.168],
+  '283203': [27.091, 78.407],
+  '283204': [27.219, 78.27],
+  '283205': [27.133, 78.381],
+  '283206': [27.281, 78.452],
+  '283207': [27.288, 78.543],
+  '284001': [25.422, 78.572],
+  '284002': [25.487, 78.577],
+  '284003': [25.46, 78.532],
+  '284120': [25.361, 78.464],
+  '284121': [25.521, 78.714],
+  '284122': [24.814, 78.498],
+  '284123': [24.915, 78.589],
+  '284124': [24.894, 78.316],
+  '284125': [24.739, 78.282],
+  '284126': [25.073, 78.521],
+  '284127': [25.425, 78.606],
+  '284128': [25.526, 78.634],
+  '284135': [25.341, 78.509],
+  '284136': [25.075, 78.396],
+  '284201': [25.404, 78.714],
+  '284202': [25.661, 79.177],
+  '284203': [25.578, 79.313],
+  '284204': [25.287, 79.177],
+  '284205': [25.32, 78.997],
+  '284206': [25.468, 79.087],
+  '284301': [25.591, 78.861],
+  '284302': [25.752, 79.132],
+  '284303': [25.734, 78.906],
+  '284304': [25.889, 78.94],
+  '284305': [25.505, 78.804],
+  '284306': [25.835, 78.997],
+  '284401': [25.232, 78.452],
+  '284402': [24.713, 78.702],
+  '284403': [24.548, 78.384],
+  '284404': [24.345, 78.793],
+  '284405': [24.532, 78.793],
+  '284406': [24.425, 78.612],
+  '284419': [25.512, 78.452],
+  '284501': [24.797, 78.27],
+  '285001': [26.009, 79.448],
+  '285121': [26.172, 79.132],
+  '285122': [25.868, 79.448],
+  '285123': [26.17, 79.425],
+  '285124': [26.401, 79.234],
+  '285125': [26.379, 79.403],
+  '285126': [26.279, 79.166],
+  '285127': [26.328, 79.189],
+  '285128': [26.27, 79.347],
+  '285129': [26.335, 79.279],
+  '285130': [26.292, 79.493],
+  '285201': [25.895, 79.177],
+  '285202': [26.022, 79.628],
+  '285203': [25.988, 79.807],
+  '285204': [26.156, 79.706],
+  '285205': [26.032, 79.132],
+  '285206': [26.106, 79.031],
+  '285223': [25.824, 79.324],
+  '301001': [27.497, 76.503],
+  '301002': [27.551, 76.612],
+  '301018': [28.146, 76.907],
+  '301019': [28.192, 76.855],
+  '301020': [27.91, 76.375],
+  '301021': [27.457, 76.803],
+  '301022': [27.407, 76.294],
+  '301023': [27.644, 76.569],
+  '301024': [27.499, 76.294],
+  '301025': [27.692, 76.849],
+  '301026': [27.599, 76.849],
+  '301027': [27.305, 76.202],
+  '301028': [27.632, 76.711],
+  '301030': [27.502, 76.676],
+  '301035': [27.27, 76.907],
+  '301401': [27.953, 76.583],
+  '301402': [27.672, 76.41],
+  '301403': [27.899, 76.618],
+  '301404': [27.766, 76.664],
+  '301405': [27.825, 76.803],
+  '301406': [27.388, 76.572],
+  '301407': [27.89, 76.526],
+  '301408': [27.204, 76.572],
+  '301409': [27.171, 76.711],
+  '301410': [27.211, 76.41],
+  '301411': [27.968, 76.849],
+  '301412': [27.779, 76.445],
+  '301413': [27.268, 76.757],
+  '301414': [27.329, 76.56],
+  '301415': [27.371, 76.999],
+  '301416': [28.071, 76.67],
+  '301427': [27.896, 76.468],
+  '301604': [27.51, 76.999],
+  '301701': [27.867, 76.294],
+  '301702': [28.005, 76.757],
+  '301703': [28.036, 76.259],
+  '301704': [28.116, 76.375],
+  '301705': [28.024, 76.375],
+  '301706': [28.008, 76.445],
+  '301707': [28.101, 76.803],
+  '301708': [28.075, 76.422],
+  '301709': [27.972, 76.306],
+  '301712': [27.91, 76.67],
+  '301713': [27.983, 76.19],
+  '301714': [27.937, 76.422],
+  '302001': [26.918, 75.802],
+  '302002': [26.936, 75.834],
+  '302003': [26.918, 75.834],
+  '302004': [26.901, 75.829],
+  '302005': [26.898, 75.801],
+  '302006': [26.909, 75.781],
+  '302012': [26.956, 75.688],
+  '302013': [27.02, 75.772],
+  '302015': [26.877, 75.798],
+  '302016': [26.934, 75.794],
+  '302017': [26.844, 75.818],
+  '302018': [26.857, 75.787],
+  '302019': [26.888, 75.761],
+  '302020': [26.854, 75.761],
+  '302021': [26.906, 75.743],
+  '302022': [26.78, 75.848],
+  '302026': [26.87, 75.656],
+  '302027': [26.955, 75.923],
+  '302028': [27.032, 75.888],
+  '302029': [26.808, 75.726],
+  '302031': [26.91, 75.895],
+  '302033': [26.802, 75.826],
+  '302034': [26.911, 75.718],
+  '302036': [26.952, 75.869],
+  '302037': [26.813, 75.603],
+  '302039': [26.959, 75.771],
+  '302040': [26.965, 75.74],
+  '303001': [27.075, 76.202],
+  '303002': [27.152, 75.935],
+  '303003': [27.43, 76.062],
+  '303004': [26.765, 76.213],
+  '303005': [26.573, 75.574],
+  '303006': [26.521, 75.737],
+  '303007': [26.871, 75.551],
+  '303008': [26.627, 75.201],
+  '303009': [26.676, 75.458],
+  '303012': [26.867, 75.97],
+  '303102': [27.439, 76.155],
+  '303103': [27.374, 75.97],
+  '303104': [27.236, 75.97],
+  '303105': [27.802, 76.109],
+  '303106': [27.576, 76.028],
+  '303107': [27.647, 76.051],
+  '303108': [27.715, 76.155],
+  '303109': [27.112, 76.109],
+  '303110': [27.531, 76.155],
+  '303119': [27.517, 76.016],
+  '303120': [27.291, 76.062],
+  '303121': [27.189, 75.951],
+  '303122': [26.831, 75.452],
+  '303301': [26.83, 76.062],
+  '303302': [26.697, 76.109],
+  '303303': [26.904, 76.341],
+  '303304': [26.907, 76.491],
+  '303305': [26.886, 76.155],
+  '303313': [27.057, 76.607],
+  '303315': [27.083, 76.757],
+  '303323': [27.094, 76.514],
+  '303325': [27.006, 76.433],
+  '303326': [26.973, 76.572],
+  '303327': [27.124, 76.583],
+  '303328': [26.943, 75.365],
+  '303329': [26.999, 75.353],
+  '303338': [26.851, 75.365],
+  '303348': [26.821, 75.084],
+  '303501': [26.83, 76.526],
+  '303502': [26.839, 76.618],
+  '303503': [26.53, 76.294],
+  '303504': [26.446, 76.387],
+  '303505': [26.715, 76.294],
+  '303506': [26.728, 76.433],
+  '303507': [27.028, 76.306],
+  '303508': [26.894, 76.711],
+  '303509': [26.991, 76.757],
+  '303510': [26.618, 76.248],
+  '303511': [26.631, 76.387],
+  '303601': [27.35, 75.842],
+  '303602': [27.267, 75.493],
+  '303603': [27.137, 75.458],
+  '303604': [26.962, 75.213],
+  '303701': [27.064, 75.644],
+  '303702': [27.161, 75.691],
+  '303704': [27.089, 75.772],
+  '303706': [26.958, 75.504],
+  '303712': [27.282, 75.632],
+  '303801': [27.198, 75.598],
+  '303803': [27.338, 75.726],
+  '303804': [27.273, 75.772],
+  '303805': [27.084, 75.83],
+  '303806': [27.209, 75.819],
+  '303807': [27.22, 75.755],
+  '303901': [26.586, 75.923],
+  '303903': [26.724, 75.923],
+  '303904': [26.696, 75.644],
+  '303905': [26.727, 75.842],
+  '303908': [26.604, 76.109],
+  '304001': [26.047, 75.853],
+  '304021': [26.324, 75.853],
+  '304022': [26.442, 75.877],
+  '304023': [25.889, 76.132],
+  '304024': [25.989, 75.97],
+  '304025': [26.368, 76.062],
+  '304501': [26.266, 75.504],
+  '304502': [26.185, 75.388],
+  '304503': [26.237, 75.225],
+  '304504': [26.405, 75.504],
+  '304505': [26.04, 75.551],
+  '304507': [25.928, 75.365],
+  '304801': [26.213, 75.667],
+  '304802': [25.843, 75.667],
+  '304803': [25.762, 75.551],
+  '304804': [25.841, 75.411],
+  '305001': [26.457, 74.646],
+  '305002': [26.39, 74.658],
+  '305003': [26.413, 74.605],
+  '305004': [26.507, 74.628],
+  '305005': [26.438, 74.523],
+  '305007': [26.473, 74.681],
+  '305009': [26.505, 74.684],
+  '305012': [26.355, 74.658],
+  '305021': [26.574, 74.605],
+  '305022': [26.52, 74.535],
+  '305023': [26.538, 74.699],
+  '305024': [26.474, 74.745],
+  '305025': [26.413, 74.71],
+  '305026': [26.555, 74.441],
+  '305201': [26.435, 74.394],
+  '305202': [26.198, 74.429],
+  '305203': [26.29, 74.535],
+  '305204': [26.325, 74.335],
+  '305205': [26.323, 74.628],
+  '305206': [26.361, 74.558],
+  '305207': [26.325, 74.441],
+  '305401': [26.254, 74.628],
+  '305402': [26.341, 74.897],
+  '305403': [26.074, 74.991],
+  '305404': [25.94, 75.038],
+  '305405': [25.796, 75.096],
+  '305406': [26.089, 75.131],
+  '305407': [25.775, 75.225],
+  '305408': [25.901, 75.213],
+  '305412': [26.238, 75.014],
+  '305415': [26.057, 75.271],
+  '305601': [26.28, 74.757],
+  '305621': [26.182, 74.71],
+  '305622': [26.049, 74.757],
+  '305623': [26.07, 74.523],
+  '305624': [25.952, 74.71],
+  '305625': [25.944, 74.535],
+  '305627': [26.151, 74.851],
+  '305628': [26.013, 74.851],
+  '305629': [25.959, 74.833],
+  '305630': [26.141, 74.599],
+  '305801': [26.571, 74.897],
+  '305802': [26.474, 74.851],
+  '305811': [26.643, 74.71],
+  '305812': [26.701, 74.933],
+  '305813': [26.402, 75.038],
+  '305814': [26.893, 74.897],
+  '305815': [26.709, 74.792],
+  '305816': [26.637, 74.979],
+  '305817': [26.624, 75.027],
+  '305819': [26.724, 74.722],
+  '305901': [26.095, 74.335],
+  '305921': [25.798, 74.147],
+  '305922': [25.911, 74.23],
+  '305923': [25.906, 74.183],
+  '305924': [25.718, 73.948],
+  '305925': [25.99, 74.324],
+  '305926': [25.795, 74.018],
+  '305927': [25.987, 74.194],
+  '306001': [25.78, 73.583],
+  '306021': [25.607, 73.677],
+  '306022': [25.474, 73.724],
+  '306023': [25.71, 73.771],
+  '306101': [26.309, 74.194],
+  '306102': [26.126, 74.194],
+  '306103': [25.807, 73.818],
+  '306104': [25.979, 73.512],
+  '306105': [25.931, 74.101],
+  '306114': [25.899, 73.818],
+  '306115': [25.379, 73.3],
+  '306116': [25.288, 73.3],
+  '306119': [25.523, 73.347],
+  '306126': [25.087, 73.159],
+  '306301': [26.38, 74.007],
+  '306302': [26.226, 73.865],
+  '306303': [26.163, 74.018],
+  '306304': [26.028, 74.042],
+  '306305': [26.099, 73.959],
+  '306306': [26.011, 73.795],
+  '306307': [26.007, 73.959],
+  '306308': [26.318, 73.865],
+  '306401': [25.762, 73.229],
+  '306421': [25.934, 73.135],
+  '306422': [25.598, 73.206],
+  '306501': [25.664, 73.477],
+  '306502': [25.412, 73.583],
+  '306503': [25.58, 73.442],
+  '306504': [24.903, 73.159],
+  '306601': [25.355, 73.383],
+  '306602': [25.455, 73.159],
+  '306603': [25.386, 73.453],
+  '306701': [25.206, 73.288],
+  '306702': [25.171, 73.489],
+  '306703': [25.315, 73.536],
+  '306704': [25.253, 73.501],
+  '306705': [25.17, 73.383],
+  '306706': [25.119, 73.335],
+  '306707': [25.057, 73.3],
+  '306708': [25.311, 73.111],
+  '306709': [26.294, 74.054],
+  '306901': [25.219, 73.005],
+  '306902': [25.178, 73.052],
+  '306912': [25.336, 73.029],
+  '307001': [24.787, 72.757],
+  '307019': [24.703, 73.017],
+  '307022': [24.8, 73.064],
+  '307023': [24.692, 72.922],
+  '307024': [24.564, 73.017],
+  '307025': [24.555, 73.135],
+  '307026': [24.43, 72.852],
+  '307027': [25.076, 73.064],
+  '307028': [25.166, 72.852],
+  '307029': [25.522, 72.757],
+  '307030': [25.453, 72.946],
+  '307031': [24.835, 73.117],
+  '307043': [24.968, 72.922],
+  '307501': [24.629, 72.781],
+  '307510': [24.553, 72.816],
+  '307511': [24.612, 72.639],
+  '307512': [24.739, 72.544],
+  '307513': [24.584, 72.402],
+  '307514': [24.682, 72.449],
+  '307515': [24.86, 72.402],
+  '307801': [25.037, 72.733],
+  '307802': [24.882, 72.591],
+  '307803': [25.009, 72.497],
+  '311001': [25.337, 74.57],
+  '311011': [25.357, 74.757],
+  '311021': [25.849, 74.617],
+  '311022': [25.86, 74.71],
+  '311023': [25.823, 74.804],
+  '311024': [25.706, 74.57],
+  '311025': [25.228, 74.851],
+  '311026': [25.562, 74.523],
+  '311030': [25.726, 74.757],
+  '311201': [25.651, 75.365],
+  '311202': [25.601, 75.108],
+  '311203': [25.502, 75.271],
+  '311204': [25.783, 74.429],
+  '311301': [25.696, 74.265],
+  '311302': [25.808, 74.241],
+  '311401': [25.49, 74.71],
+  '311402': [25.409, 74.382],
+  '311403': [25.465, 74.476],
+  '311404': [25.582, 74.921],
+  '311407': [25.792, 74.944],
+  '311408': [25.592, 74.804],
+  '311601': [25.33, 74.944],
+  '311602': [25.188, 75.365],
+  '311603': [25.435, 74.956],
+  '311604': [25.231, 75.108],
+  '311605': [25.395, 75.131],
+  '311801': [25.214, 74.288],
+  '311802': [25.255, 74.453],
+  '311803': [25.383, 74.147],
+  '311804': [25.527, 74.194],
+  '311805': [25.291, 74.147],
+  '311806': [25.158, 74.194],
+  '312001': [24.818, 74.581],
+  '312021': [24.959, 74.605],
+  '312022': [24.822, 74.734],
+  '312023': [25.036, 75.014],
+  '312024': [24.613, 74.288],
+  '312025': [24.86, 74.599],
+  '312027': [24.67, 74.382],
+  '312201': [24.869, 74.523],
+  '312202': [24.849, 74.335],
+  '312203': [25.039, 74.382],
+  '312204': [24.886, 74.241],
+  '312205': [24.742, 74.194],
+  '312206': [25.137, 74.429],
+  '312207': [24.944, 74.464],
+  '312401': [24.268, 74.523],
+  '312402': [24.531, 74.382],
+  '312403': [24.432, 74.546],
+  '312404': [24.405, 74.394],
+  '312601': [24.606, 74.663],
+  '312602': [24.679, 74.476],
+  '312603': [24.587, 74.476],
+  '312604': [24.333, 74.71],
+  '312605': [23.988, 74.734],
+  '312606': [24.723, 74.897],
+  '312612': [24.756, 74.652],
+  '312613': [24.746, 74.558],
+  '312614': [24.514, 74.663],
+  '312615': [23.812, 74.827],
+  '312616': [24.174, 74.734],
+  '312617': [24.686, 74.704],
+  '312619': [23.617, 74.734],
+  '312620': [24.698, 74.769],
+  '312622': [24.768, 74.599],
+  '312623': [24.116, 74.851],
+  '312901': [25.09, 74.64],
+  '313001': [24.598, 73.724],
+  '313002': [24.498, 73.68],
+  '313003': [24.527, 73.807],
+  '313004': [24.591, 73.694],
+  '313011': [24.68, 73.63],
+  '313015': [24.46, 73.83],
+  '313022': [24.614, 73.865],
+  '313024': [24.696, 73.771],
+  '313026': [24.023, 73.959],
+  '313027': [24.136, 74.147],
+  '313031': [24.49, 73.583],
+  '313038': [24.038, 74.101],
+  '313201': [24.696, 73.877],
+  '313202': [24.783, 73.724],
+  '313203': [24.814, 74.007],
+  '313204': [24.811, 73.877],
+  '313205': [24.719, 74.089],
+  '313206': [24.87, 74.101],
+  '313207': [25.037, 74.253],
+  '313211': [24.963, 74.101],
+  '313301': [24.886, 73.818],
+  '313321': [25.003, 73.63],
+  '313322': [24.906, 73.689],
+  '313323': [24.955, 73.924],
+  '313324': [25.065, 73.771],
+  '313325': [25.038, 73.536],
+  '313327': [25.091, 74.007],
+  '313328': [25.101, 74.101],
+  '313329': [25.019, 74.089],
+  '313330': [25.237, 73.971],
+  '313331': [25.49, 73.865],
+  '313332': [25.408, 73.959],
+  '313333': [25.301, 73.818],
+  '313334': [25.198, 73.724],
+  '313341': [25.644, 74.007],
+  '313342': [25.004, 73.948],
+  '313601': [24.645, 74.042],
+  '313602': [24.583, 74.007],
+  '313603': [24.552, 74.147],
+  '313604': [24.31, 74.265],
+  '313605': [24.135, 74.359],
+  '313611': [23.98, 74.429],
+  '313701': [24.208, 73.324],
+  '313702': [24.521, 73.442],
+  '313703': [24.465, 73.983],
+  '313704': [24.956, 73.418],
+  '313705': [24.679, 73.418],
+  '313706': [24.362, 74.101],
+  '313708': [24.781, 73.3],
+  '313801': [24.311, 73.63],
+  '313802': [24.126, 73.63],
+  '313803': [24.024, 73.536],
+  '313804': [23.875, 73.442],
+  '313901': [24.367, 73.724],
+  '313902': [24.183, 73.83],
+  '313903': [24.054, 73.818],
+  '313904': [24.188, 73.771],
+  '313905': [24.285, 73.818],
+  '313906': [24.464, 73.347],
+  '314001': [23.808, 73.677],
+  '314011': [23.895, 73.63],
+  '314021': [23.946, 74.101],
+  '314022': [23.863, 74.194],
+  '314023': [23.828, 73.971],
+  '314024': [23.763, 74.018],
+  '314025': [23.668, 73.995],
+  '314026': [23.506, 73.995],
+  '314027': [23.599, 73.995],
+  '314028': [23.843, 73.901],
+  '314029': [23.741, 73.912],
+  '314030': [23.417, 73.912],
+  '314031': [23.668, 74.101],
+  '314032': [23.761, 74.101],
+  '314034': [23.931, 73.959],
+  '314035': [23.556, 73.912],
+  '314036': [23.885, 73.854],
+  '314037': [23.731, 73.818],
+  '314038': [23.848, 74.054],
+  '314401': [23.643, 73.865],
+  '314402': [23.62, 73.76],
+  '314403': [23.577, 73.677],
+  '314404': [23.715, 73.677],
+  '314406': [23.494, 73.771],
+  '314801': [23.787, 73.489],
+  '314804': [23.852, 73.548],
+  '321001': [27.198, 77.493],
+  '321021': [27.239, 77.573],
+  '321022': [27.639, 77.264],
+  '321023': [27.726, 77.218],
+  '321024': [27.575, 77.079],
+  '321025': [27.307, 77.55],
+  '321026': [27.248, 77.413],
+  '321028': [27.097, 77.275],
+  '321201': [27.32, 77.309],
+  '321202': [27.366, 77.436],
+  '321203': [27.454, 77.264],
+  '321204': [27.667, 77.079],
+  '321205': [27.424, 77.068],
+  '321206': [27.375, 77.223],
+  '321301': [27.042, 77.436],
+  '321302': [27.046, 77.355],
+  '321303': [27.189, 77.401],
+  '321401': [26.945, 77.264],
+  '321402': [26.972, 77.436],
+  '321403': [26.93, 77.482],
+  '321404': [26.974, 77.585],
+  '321405': [26.861, 77.355],
+  '321406': [27.054, 77.068],
+  '321407': [27.101, 77.068],
+  '321408': [26.983, 77.172],
+  '321409': [26.962, 77.068],
+  '321410': [26.964, 77.344],
+  '321411': [26.891, 77.172],
+  '321601': [27.114, 77.206],
+  '321602': [27.223, 77.264],
+  '321605': [27.344, 77.079],
+  '321606': [27.243, 76.987],
+  '321607': [27.358, 76.861],
+  '321608': [27.046, 76.849],
+  '321609': [27.153, 76.884],
+  '321610': [26.961, 76.814],
+  '321611': [26.919, 76.861],
+  '321612': [26.997, 76.953],
+  '321613': [27.109, 76.907],
+  '321614': [27.195, 77.091],
+  '321615': [27.143, 77.022],
+  '321633': [27.391, 76.722],
+  '321642': [27.179, 77.16],
+  '322001': [25.937, 76.387],
+  '322021': [26.013, 76.393],
+  '322023': [26.361, 76.225],
+  '322024': [26.242, 76.306],
+  '322025': [26.035, 76.687],
+  '322026': [25.844, 76.387],
+  '322027': [26.122, 76.387],
+  '322028': [26.27, 76.479],
+  '322029': [26.089, 76.526],
+  '322030': [26.307, 76.387],
+  '322033': [26.243, 76.56],
+  '322034': [26.177, 76.479],
+  '322201': [26.427, 76.664],
+  '322202': [26.435, 76.757],
+  '322203': [26.33, 76.618],
+  '322204': [26.616, 76.711],
+  '322205': [26.617, 76.838],
+  '322211': [26.557, 76.572],
+  '322212': [26.691, 76.526],
+  '322213': [26.801, 76.711],
+  '322214': [26.413, 76.526],
+  '322215': [26.704, 76.664],
+  '322216': [26.747, 76.745],
+  '322218': [26.25, 76.757],
+  '322219': [26.537, 76.849],
+  '322220': [26.722, 76.849],
+  '322230': [26.735, 76.987],
+  '322234': [26.6, 77.033],
+  '322236': [26.827, 77.114],
+  '322238': [26.827, 76.861],
+  '322240': [26.92, 76.987],
+  '322241': [26.512, 77.079],
+  '322242': [26.642, 77.241],
+  '322243': [26.145, 76.872],
+  '322249': [26.423, 77.126],
+  '322251': [26.364, 77.241],
+  '322252': [26.785, 77.16],
+  '322254': [26.838, 76.976],
+  '322255': [26.461, 76.907],
+  '322701': [26.109, 76.248],
+  '322702': [26.054, 76.155],
+  '322703': [26.147, 76.051],
+  '322704': [26.217, 76.051],
+  '323001': [25.447, 75.644],
+  '323021': [25.225, 75.737],
+  '323022': [25.278, 75.574],
+  '323023': [25.583, 75.493],
+  '323024': [25.48, 75.504],
+  '323025': [25.624, 75.446],
+  '323301': [25.4, 76.109],
+  '323302': [25.093, 75.574],
+  '323303': [24.775, 75.411],
+  '323304': [24.999, 75.446],
+  '323305': [24.933, 75.598],
+  '323306': [24.914, 75.411],
+  '323307': [24.823, 75.667],
+  '323601': [25.298, 75.952],
+  '323602': [25.33, 75.981],
+  '323603': [25.62, 76.225],
+  '323613': [25.742, 76.167],
+  '323614': [25.738, 76.248],
+  '323615': [25.695, 76.167],
+  '323616': [25.762, 76.016],
+  '323801': [25.739, 75.784],
+  '323802': [25.609, 75.877],
+  '323803': [25.5, 75.946],
+  '324001': [25.186, 75.871],
+  '324002': [25.232, 75.935],
+  '324003': [25.116, 75.871],
+  '324004': [25.132, 75.885],
+  '324005': [25.138, 75.859],
+  '324006': [25.174, 75.839],
+  '324007': [25.159, 75.868],
+  '324008': [25.198, 75.819],
+  '324009': [25.155, 75.827],
+  '324010': [25.123, 75.824],
+  '325001': [25.066, 76.016],
+  '325003': [24.934, 75.853],
+  '325004': [25.561, 76.341],
+  '325009': [25.663, 76.433],
+  '325201': [25.256, 76.062],
+  '325202': [25.134, 76.248],
+  '325203': [25.121, 76.109],
+  '325204': [25.341, 76.225],
+  '325205': [25.021, 76.526],
+  '325206': [25.287, 76.387],
+  '325207': [24.919, 76.433],
+  '325208': [25.164, 76.19],
+  '325209': [25.097, 76.341],
+  '325214': [25.426, 76.387],
+  '325215': [25.346, 76.526],
+  '325216': [25.156, 76.734],
+  '325217': [25.24, 77.149],
+  '325218': [24.919, 76.687],
+  '325219': [24.746, 76.699],
+  '325220': [24.656, 76.872],
+  '325221': [24.546, 76.687],
+  '325222': [25.203, 76.479],
+  '325223': [24.784, 76.479],
+  '325601': [24.949, 76.248],
+  '325602': [24.775, 76.132],
+  '326001': [24.623, 76.248],
+  '326021': [24.488, 76.294],
+  '326022': [24.297, 76.248],
+  '326023': [24.496, 76.132],
+  '326033': [24.326, 76.572],
+  '326034': [24.208, 76.039],
+  '326035': [24.593, 76.433],
+  '326036': [24.331, 76.109],
+  '326037': [24.275, 76.78],
+  '326038': [24.771, 76.341],
+  '326039': [24.318, 76.479],
+  '326501': [24.504, 75.97],
+  '326502': [24.389, 75.865],
+  '326512': [24.347, 75.784],
+  '326513': [24.364, 75.97],
+  '326514': [24.004, 75.853],
+  '326515': [23.906, 75.551],
+  '326516': [23.919, 75.691],
+  '326517': [24.749, 75.981],
+  '326518': [24.82, 75.877],
+  '326519': [24.612, 76.004],
+  '326520': [24.717, 75.888],
+  '326529': [24.624, 75.888],
+  '326530': [24.66, 76.028],
+  '327001': [23.505, 74.546],
+  '327021': [23.78, 74.288],
+  '327022': [23.58, 74.147],
+  '327023': [23.702, 74.429],
+  '327024': [23.633, 74.324],
+  '327025': [23.582, 74.277],
+  '327026': [23.676, 74.511],
+  '327027': [23.846, 74.476],
+  '327031': [23.385, 74.054],
+  '327032': [23.478, 74.054],
+  '327034': [23.503, 74.183],
+  '327601': [23.307, 74.194],
+  '327602': [23.27, 74.288],
+  '327603': [23.502, 74.288],
+  '327604': [23.373, 74.382],
+  '327605': [23.724, 74.194],
+  '327606': [23.376, 74.3],
+  '327801': [23.217, 74.453],
+  '328001': [26.724, 77.905],
+  '328021': [26.582, 77.608],
+  '328022': [26.785, 77.539],
+  '328023': [26.889, 77.802],
+  '328024': [26.853, 77.917],
+  '328025': [26.896, 78.169],
+  '328026': [26.448, 77.401],
+  '328027': [26.837, 77.734],
+  '328028': [26.619, 77.768],
+  '328029': [26.782, 78.042],
+  '328030': [26.716, 77.814],
+  '328031': [26.549, 77.493],
+  '328041': [26.704, 77.677],
+  '331001': [28.43, 74.921],
+  '331021': [28.296, 75.049],
+  '331022': [28.044, 74.734],
+  '331023': [28.756, 75.388],
+  '331024': [28.141, 74.991],
+  '331025': [28.276, 75.283],
+  '331026': [28.411, 75.26],
+  '331027': [28.248, 75.131],
+  '331028': [28.342, 75.26],
+  '331029': [28.471, 75.084],
+  '331030': [28.167, 75.12],
+  '331031': [28.237, 74.827],
+  '331301': [28.522, 75.551],
+  '331302': [28.784, 74.827],
+  '331303': [28.482, 75.388],
+  '331304': [28.623, 75.014],
+  '331305': [28.416, 75.516],
+  '331402': [28.409, 74.734],
+  '331403': [28.457, 74.359],
+  '331411': [28.639, 74.359],
+  '331501': [27.884, 74.335],
+  '331502': [27.814, 74.523],
+  '331503': [27.747, 74.335],
+  '331504': [28.179, 74.523],
+  '331505': [27.916, 74.617],
+  '331506': [27.79, 74.71],
+  '331507': [27.723, 74.523],
+  '331517': [27.705, 74.171],
+  '331518': [27.591, 73.983],
+  '331701': [28.811, 75.271],
+  '331801': [28.172, 74.265],
+  '331802': [28.012, 74.453],
+  '331803': [28.059, 74.077],
+  '331811': [28.025, 73.795],
+  '332001': [27.612, 75.178],
+  '332002': [27.516, 75.026],
+  '332021': [27.516, 75.131],
+  '332023': [27.419, 75.084],
+  '332024': [27.668, 75.166],
+  '332025': [27.368, 74.933],
+  '332026': [27.571, 74.804],
+  '332027': [27.658, 75.283],
+  '332028': [27.546, 74.886],
+  '332029': [27.67, 74.769],
+  '332030': [27.454, 74.886],
+  '332031': [27.755, 75.225],
+  '332041': [27.648, 74.979],
+  '332042': [27.597, 75.038],
+  '332301': [27.953, 74.944],
+  '332302': [28.08, 74.851],
+  '332303': [28.002, 75.073],
+  '332304': [28.012, 74.81],
+  '332305': [28.047, 75.073],
+  '332307': [28.096, 75.096],
+  '332311': [27.826, 75.038],
+  '332312': [27.719, 74.897],
+  '332315': [27.74, 75.084],
+  '332316': [27.854, 75.19],
+  '332317': [27.826, 74.925],
+  '332318': [27.801, 74.924],
+  '332401': [27.928, 75.131],
+  '332402': [27.454, 75.411],
+  '332403': [27.485, 75.271],
+  '332404': [27.372, 75.504],
+  '332405': [27.574, 75.353],
+  '332406': [27.393, 75.271],
+  '332411': [27.451, 75.493],
+  '332601': [27.319, 75.33],
+  '332602': [27.352, 75.423],
+  '332603': [27.371, 75.609],
+  '332701': [27.416, 75.819],
+  '332702': [27.296, 75.225],
+  '332703': [27.23, 75.143],
+  '332705': [27.641, 75.877],
+  '332706': [27.65, 75.632],
+  '332707': [27.492, 75.888],
+  '332708': [27.575, 75.691],
+  '332709': [27.617, 75.539],
+  '332710': [27.209, 75.271],
+  '332711': [27.83, 75.819],
+  '332712': [27.391, 75.691],
+  '332713': [27.738, 75.819],
+  '332714': [27.682, 75.726],
+  '332715': [27.478, 75.644],
+  '332716': [27.843, 75.726],
+  '332718': [27.788, 75.97],
+  '332719': [27.488, 75.737],
+  '332721': [27.607, 75.446],
+  '332722': [27.556, 75.504],
+  '332742': [27.166, 75.19],
+  '332746': [28.071, 75.935],
+  '333001': [28.131, 75.318],
+  '333011': [28.215, 75.353],
+  '333012': [27.938, 75.539],
+  '333021': [28.014, 75.504],
+  '333022': [27.841, 75.493],
+  '333023': [28.192, 75.458],
+  '333024': [28.144, 75.539],
+  '333025': [28.312, 75.4],
+  '333026': [28.25, 75.679],
+  '333027': [28.2, 75.632],
+  '333028': [28.07, 75.598],
+  '333029': [28.281, 75.749],
+  '333030': [28.355, 75.691],
+  '333031': [28.441, 75.644],
+  '333032': [27.836, 75.446],
+  '333033': [28.329, 75.877],
+  '333034': [28.259, 75.981],
+  '333035': [28.307, 75.563],
+  '333036': [27.967, 75.923],
+  '333041': [28.04, 75.318],
+  '333042': [27.852, 75.271],
+  '333053': [27.841, 75.598],
+  '333302': [27.736, 75.586],
+  '333303': [27.724, 75.365],
+  '333304': [27.801, 75.33],
+  '333305': [27.905, 75.446],
+  '333307': [27.749, 75.493],
+  '333308': [27.808, 75.4],
+  '333501': [27.917, 75.772],
+  '333502': [28.237, 75.877],
+  '333503': [28.003, 75.83],
+  '333504': [28.08, 75.795],
+  '333514': [27.988, 75.691],
+  '333515': [28.155, 75.97],
+  '333516': [28.136, 75.784],
+  '333701': [27.985, 75.184],
+  '333702': [27.897, 75.219],
+  '333704': [28.07, 75.178],
+  '333705': [27.951, 75.236],
+  '333707': [27.964, 75.353],
+  '333801': [27.723, 75.679],
+  '334001': [28.217, 73.135],
+  '334003': [27.99, 73.344],
+  '334004': [28.061, 73.294],
+  '334006': [28.094, 73.335],
+  '334021': [28.694, 73.324],
+  '334022': [28.082, 73.512],
+  '334023': [28.557, 72.615],
+  '334201': [27.92, 73.489],
+  '334202': [27.832, 73.701],
+  '334302': [27.829, 72.946],
+  '334303': [27.769, 72.473],
+  '334305': [28.17, 72.426],
+  '334401': [27.978, 73.271],
+  '334402': [27.885, 73.206],
+  '334403': [27.971, 73.306],
+  '334601': [28.343, 73.418],
+  '334602': [28.378, 73.701],
+  '334603': [28.673, 73.889],
+  '334604': [28.922, 73.701],
+  '334801': [27.694, 73.324],
+  '334802': [27.624, 73.677],
+  '334803': [27.421, 73.324],
+  '334804': [27.568, 73.041],
+  '334808': [28.509, 72.81],
+  '335001': [29.914, 73.865],
+  '335002': [29.88, 73.959],
+  '335021': [29.507, 73.324],
+  '335022': [29.812, 73.771],
+  '335023': [29.917, 73.536],
+  '335024': [29.68, 73.442],
+  '335025': [29.739, 73.912],
+  '335027': [29.974, 73.63],
+  '335037': [29.857, 74.042],
+  '335038': [29.992, 73.771],
+  '335039': [29.505, 73.571],
+  '335040': [29.788, 73.583],
+  '335041': [29.671, 73.724],
+  '335051': [29.339, 73.418],
+  '335061': [29.575, 73.677],
+  '335062': [29.858, 74.147],
+  '335063': [29.848, 74.429],
+  '335064': [29.735, 74.241],
+  '335065': [29.706, 74.382],
+  '335073': [29.86, 73.442],
+  '335501': [29.034, 75.225],
+  '335502': [28.987, 75.014],
+  '335503': [29.004, 75.365],
+  '335504': [29.189, 74.991],
+  '335511': [29.175, 75.271],
+  '335512': [29.634, 74.253],
+  '335513': [29.565, 74.335],
+  '335523': [29.177, 74.687],
+  '335524': [29.002, 74.359],
+  '335525': [29.376, 74.453],
+  '335526': [29.627, 74.476],
+  '335701': [29.142, 73.111],
+  '335702': [29.337, 73.583],
+  '335703': [29.068, 73.418],
+  '335704': [29.194, 73.701],
+  '335705': [29.477, 73.795],
+  '335707': [28.917, 72.946],
+  '335711': [29.063, 73.206],
+  '335801': [29.523, 74.171],
+  '335802': [29.666, 74.054],
+  '335803': [29.401, 74.101],
+  '335804': [29.087, 73.936],
+  '335805': [29.349, 73.948],
+  '335901': [30.109, 73.901],
+  '341001': [27.284, 73.701],
+  '341021': [27.15, 73.536],
+  '341022': [27.409, 73.983],
+  '341023': [27.278, 74.241],
+  '341024': [27.043, 73.983],
+  '341025': [27.044, 73.229],
+  '341026': [27.021, 73.795],
+  '341027': [27.195, 73.912],
+  '341028': [26.998, 73.607],
+  '341029': [27.487, 73.677],
+  '341030': [27.171, 74.101],
+  '341031': [26.601, 74.335],
+  '341301': [27.09, 74.3],
+  '341302': [27.124, 74.394],
+  '341303': [27.474, 74.546],
+  '341304': [27.631, 74.523],
+  '341305': [27.346, 74.429],
+  '341306': [27.625, 74.37],
+  '341316': [27.518, 74.335],
+  '341317': [27.375, 74.288],
+  '341318': [27.259, 74.476],
+  '341319': [27.127, 74.523],
+  '341501': [26.898, 74.523],
+  '341502': [27.097, 74.663],
+  '341503': [26.81, 74.359],
+  '341504': [27.005, 74.453],
+  '341505': [27.153, 74.757],
+  '341506': [27.332, 74.71],
+  '341507': [27.102, 75.131],
+  '341508': [27.169, 74.897],
+  '341509': [26.985, 75.108],
+  '341510': [26.584, 73.983],
+  '341511': [26.731, 73.865],
+  '341512': [26.827, 74.71],
+  '341513': [26.499, 74.241],
+  '341514': [26.85, 74.101],
+  '341515': [26.703, 74.429],
+  '341516': [27.342, 74.804],
+  '341517': [27.209, 74.745],
+  '341518': [26.467, 74.065],
+  '341519': [27.25, 75.014],
+  '341520': [26.959, 74.558],
+  '341533': [27.039, 74.862],
+  '341542': [26.959, 74.663],
+  '341551': [27.428, 74.757],
+  '342001': [26.302, 72.863],
+  '342003': [26.279, 72.999],
+  '342005': [26.226, 73.035],
+  '342006': [26.302, 73.052],
+  '342007': [26.342, 73.046],
+  '342008': [26.156, 72.981],
+  '342011': [26.257, 73.052],
+  '342012': [26.151, 72.934],
+  '342013': [26.185, 73.029],
+  '342014': [26.163, 72.757],
+  '342015': [26.242, 73.123],
+  '342021': [26.665, 72.13],
+  '342022': [26.347, 72.213],
+  '342023': [26.414, 72.568],
+  '342024': [26.37, 72.946],
+  '342025': [26.561, 72.284],
+  '342026': [26.571, 72.544],
+  '342027': [26.232, 73.324],
+  '342028': [26.41, 72.355],
+  '342037': [26.759, 73.135],
+  '342301': [27.129, 72.273],
+  '342302': [26.883, 72.662],
+  '342303': [26.724, 72.852],
+  '342304': [26.453, 73.064],
+  '342305': [26.553, 72.946],
+  '342306': [26.529, 72.757],
+  '342307': [27.417, 72.568],
+  '342308': [27.118, 72.544],
+  '342309': [26.859, 72.473],
+  '342310': [27.615, 72.165],
+  '342311': [27.271, 72.852],
+  '342312': [26.97, 72.993],
+  '342314': [26.743, 72.284],
+  '342601': [26.357, 73.607],
+  '342602': [26.21, 73.724],
+  '342603': [26.632, 73.607],
+  '342604': [26.485, 73.724],
+  '342605': [26.162, 73.512],
+  '342606': [26.518, 73.418],
+  '342801': [25.966, 72.828],
+  '342802': [26.118, 73.135],
+  '342901': [26.804, 73.512],
+  '342902': [26.669, 73.724],
+  '343001': [25.341, 72.591],
+  '343002': [25.306, 72.633],
+  '343021': [25.397, 72.39],
+  '343022': [25.301, 72.26],
+  '343023': [25.226, 72.402],
+  '343024': [25.072, 72.639],
+  '343025': [25.209, 72.639],
+  '343027': [24.74, 71.62],
+  '343028': [25.106, 72.544],
+  '343029': [25.1, 72.226],
+  '343030': [25.074, 72.12],
+  '343032': [25.337, 71.999],
+  '343039': [24.796, 72.26],
+  '343040': [24.787, 71.999],
+  '343041': [24.911, 71.525],
+  '343042': [25.473, 72.544],
+  '343048': [24.649, 72.272],
+  '343049': [24.881, 72.296],
+  '344001': [25.55, 71.525],
+  '344011': [25.917, 70.86],
+  '344012': [25.617, 71.335],
+  '344021': [25.785, 72.662],
+  '344022': [25.764, 72.307],
+  '344024': [25.792, 72.165],
+  '344025': [25.774, 72.023],
+  '344026': [26.14, 72.568],
+  '344027': [25.854, 72.473],
+  '344031': [25.158, 71.667],
+  '344032': [26.104, 72.284],
+  '344033': [25.548, 71.857],
+  '344034': [25.875, 71.739],
+  '344035': [26.046, 71.477],
+  '344037': [26.056, 71.905],
+  '344043': [25.553, 72.449],
+  '344044': [25.691, 72.449],
+  '344501': [25.89, 70.336],
+  '344502': [25.722, 70.764],
+  '344701': [26.151, 71.24],
+  '344702': [25.423, 70.907],
+  '344703': [25.68, 71.644],
+  '344704': [25.109, 71.287],
+  '344705': [26.333, 71.24],
+  '344706': [24.941, 71.05],
+  '344708': [25.421, 71.406],
+  '344801': [25.484, 72.26],
+  '345001': [26.796, 70.336],
+  '345021': [26.876, 71.905],
+  '345022': [27.414, 70.241],
+  '345023': [27.113, 71.897],
+  '345024': [26.603, 71.905],
+  '345025': [26.421, 71.905],
+  '345026': [26.644, 71.525],
+  '345027': [26.502, 71.145],
+  '345028': [27.706, 71.667],
+  '345031': [27.137, 71.477],
+  '345033': [27.239, 70.907],
+  '345034': [26.409, 70.479],
+  '360001': [22.296, 70.794],
+  '360002': [22.303, 70.895],
+  '360003': [22.416, 70.788],
+  '360004': [22.217, 70.753],
+  '360005': [22.273, 70.741],
+  '360006': [22.354, 70.753],
+  '360007': [22.302, 70.773],
+  '360020': [22.25, 70.931],
+  '360021': [22.245, 70.61],
+  '360022': [22.203, 70.824],
+  '360023': [22.347, 70.978],
+  '360024': [22.153, 70.883],
+  '360025': [22.17, 71.026],
+  '360030': [22.061, 70.883],
+  '360035': [22.157, 70.634],
+  '360040': [21.965, 71.133],
+  '360050': [22.055, 71.216],
+  '360055': [22.123, 71.406],
+  '360060': [22.038, 71.074],
+  '360070': [22.027, 70.598],
+  '360110': [22.412, 70.574],
+  '360311': [21.978, 70.764],
+  '360320': [21.871, 70.729],
+  '360330': [21.93, 70.931],
+  '360360': [21.712, 70.645],
+  '360370': [21.844, 70.598],
+  '360375': [21.756, 70.538],
+  '360380': [21.842, 70.681],
+  '360405': [21.923, 70.503],
+  '360410': [21.689, 70.455],
+  '360421': [21.639, 70.324],
+  '360430': [21.653, 70.253],
+  '360440': [21.815, 70.36],
+  '360450': [21.907, 70.277],
+  '360452': [21.997, 70.36],
+  '360460': [21.785, 70.122],
+  '360470': [21.807, 70.205],
+  '360480': [21.928, 70.169],
+  '360490': [21.7, 70.169],
+  '360510': [21.919, 69.741],
+  '360515': [21.989, 69.931],
+  '360520': [22.059, 70.122],
+  '360530': [21.884, 70.003],
+  '360531': [21.846, 69.884],
+  '360540': [22.1, 70.455],
+  '360545': [21.736, 69.687],
+  '360550': [21.685, 69.776],
+  '360560': [21.789, 69.788],
+  '360570': [21.664, 69.884],
+  '360575': [21.638, 69.613],
+  '360576': [21.515, 69.788],
+  '360577': [21.653, 69.636],
+  '360578': [21.653, 69.663],
+  '360579': [21.713, 69.55],
+  '360590': [21.849, 69.55],
+  '361001': [22.467, 70.077],
+  '361002': [22.49, 70.035],
+  '361003': [22.461, 69.967],
+  '361004': [22.446, 70.047],
+  '361005': [22.445, 70.068],
+  '361006': [22.405, 69.979],
+  '361007': [22.48, 70.095],
+  '361008': [22.522, 70.086],
+  '361009': [22.526, 69.985],
+  '361010': [22.368, 69.693],
+  '361011': [22.637, 70.277],
+  '361012': [22.261, 70.098],
+  '361013': [22.345, 70.217],
+  '361110': [22.443, 70.181],
+  '361120': [22.521, 70.169],
+  '361130': [22.448, 70.312],
+  '361140': [22.397, 69.824],
+  '361141': [22.438, 69.857],
+  '361142': [22.355, 69.806],
+  '361150': [22.534, 70.044],
+  '361160': [22.102, 70.288],
+  '361162': [22.237, 70.455],
+  '361170': [22.171, 69.931],
+  '361210': [22.512, 70.455],
+  '361220': [22.655, 70.503],
+  '361230': [22.585, 70.312],
+  '361240': [22.766, 70.479],
+  '361250': [22.682, 70.36],
+  '361280': [22.296, 69.836],
+  '361305': [22.232, 69.693],
+  '361306': [22.109, 69.621],
+  '361310': [22.34, 69.562],
+  '361315': [22.15, 69.24],
+  '361320': [22.013, 69.407],
+  '361325': [21.921, 69.49],
+  '361330': [22.351, 69.133],
+  '361335': [22.241, 69.073],
+  '361345': [22.384, 69.037],
+  '361347': [22.447, 69.043],
+  '361350': [22.465, 69.07],
+  '362001': [21.513, 70.461],
+  '362002': [21.556, 70.396],
+  '362004': [21.499, 70.491],
+  '362011': [21.625, 70.396],
+  '362015': [21.466, 70.449],
+  '362020': [21.546, 70.788],
+  '362030': [21.594, 70.705],
+  '362037': [21.608, 70.443],
+  '362110': [21.484, 70.645],
+  '362120': [21.385, 70.681],
+  '362130': [21.312, 70.741],
+  '362135': [21.155, 70.764],
+  '362140': [21.032, 70.693],
+  '362150': [21.061, 70.55],
+  '362205': [21.488, 70.396],
+  '362215': [21.394, 70.372],
+  '362220': [21.289, 70.169],
+  '362222': [21.386, 70.217],
+  '362225': [21.139, 70.157],
+  '362226': [21.161, 70.104],
+  '362227': [21.209, 70.265],
+  '362229': [21.299, 70.348],
+  '362230': [21.311, 69.979],
+  '362235': [21.089, 70.163],
+  '362240': [21.232, 70.074],
+  '362245': [21.175, 70.36],
+  '362250': [21.057, 70.229],
+  '362255': [21.023, 70.324],
+  '362260': [21.329, 70.503],
+  '362263': [21.414, 70.538],
+  '362265': [20.921, 70.378],
+  '362266': [20.96, 70.372],
+  '362268': [20.923, 70.514],
+  '362269': [21.011, 70.419],
+  '362275': [20.859, 70.55],
+  '362276': [20.785, 70.634],
+  '362310': [21.564, 70.55],
+  '362315': [21.681, 70.532],
+  '362510': [20.755, 70.967],
+  '362520': [20.714, 70.961],
+  '362530': [20.994, 70.955],
+  '362540': [20.724, 70.986],
+  '362550': [20.807, 71.121],
+  '362560': [20.836, 70.978],
+  '362565': [20.929, 71.085],
+  '362570': [20.719, 70.901],
+  '362610': [21.489, 70.312],
+  '362620': [21.519, 70.003],
+  '362625': [21.43, 70.11],
+  '362630': [21.472, 70.169],
+  '362640': [21.569, 70.217],
+  '362650': [21.676, 69.979],
+  '362710': [20.906, 70.788],
+  '362720': [20.789, 70.764],
+  '362725': [20.859, 70.681],
+  '362730': [20.853, 71.228],
+  '363001': [22.744, 71.661],
+  '363002': [22.722, 71.641],
+  '363020': [22.664, 71.608],
+  '363030': [22.721, 71.703],
+  '363035': [22.698, 71.682],
+  '363040': [22.771, 71.454],
+  '363110': [22.84, 71.644],
+  '363115': [22.943, 71.739],
+  '363310': [23.081, 71.449],
+  '363320': [23.073, 71.594],
+  '363330': [22.94, 71.145],
+  '363351': [23.056, 71.062],
+  '363410': [22.447, 71.62],
+  '363415': [22.443, 71.786],
+  '363421': [22.587, 71.833],
+  '363423': [22.573, 72.011],
+  '363425': [22.527, 72.118],
+  '363427': [22.736, 71.928],
+  '363430': [22.49, 71.406],
+  '363435': [22.599, 71.549],
+  '363440': [22.399, 71.406],
+  '363510': [22.597, 71.335],
+  '363520': [22.39, 71.145],
+  '363530': [22.554, 71.169],
+  '363621': [22.551, 70.955],
+  '363630': [23.074, 70.931],
+  '363641': [22.802, 70.764],
+  '363642': [22.784, 70.895],
+  '363650': [22.607, 70.669],
+  '363655': [22.849, 70.598],
+  '363660': [23.119, 70.384],
+  '363670': [23.096, 70.741],
+  '364001': [21.868, 72.189],
+  '364002': [21.731, 72.148],
+  '364003': [21.787, 72.156],
+  '364004': [21.773, 72.059],
+  '364005': [21.778, 72.17],
+  '364006': [21.801, 72.106],
+  '364050': [21.594, 72.106],
+  '364060': [21.684, 72.082],
+  '364070': [21.618, 72.213],
+  '364081': [21.467, 72.201],
+  '364110': [21.71, 72.213],
+  '364120': [21.528, 72.13],
+  '364130': [21.224, 71.976],
+  '364135': [21.221, 72.059],
+  '364140': [21.361, 71.976],
+  '364145': [21.346, 71.833],
+  '364150': [21.418, 72.071],
+  '364210': [21.726, 71.845],
+  '364230': [21.703, 71.739],
+  '364240': [21.763, 71.964],
+  '364250': [21.66, 71.869],
+  '364260': [21.65, 71.988],
+  '364265': [21.519, 71.739],
+  '364270': [21.489, 71.881],
+  '364275': [21.6, 71.644],
+  '364280': [21.268, 71.549],
+  '364290': [21.1, 71.691],
+  '364295': [21.208, 71.833],
+  '364310': [21.903, 71.881],
+  '364313': [22.031, 71.999],
+  '364320': [21.835, 71.691],
+  '364330': [21.815, 71.822],
+  '364485': [21.745, 70.705],
+  '364490': [21.827, 71.027],
+  '364505': [21.497, 71.549],
+  '364510': [21.37, 71.644],
+  '364515': [21.344, 71.406],
+  '364521': [21.43, 71.359],
+  '364522': [21.221, 71.335],
+  '364525': [21.4, 71.501],
+  '364530': [21.181, 71.489],
+  '364710': [22.151, 71.644],
+  '364720': [22.278, 71.549],
+  '364730': [21.865, 71.549],
+  '364740': [21.778, 71.596],
+  '364750': [22.002, 71.549],
+  '364760': [22.037, 71.75],
+  '364765': [22.003, 71.655],
+  '365220': [21.681, 71.549],
+  '365410': [21.866, 71.169],
+  '365421': [21.934, 71.359],
+  '365430': [21.711, 71.406],
+  '365435': [21.745, 71.311],
+  '365440': [21.523, 70.978],
+  '365450': [21.701, 70.931],
+  '365455': [21.642, 71.109],
+  '365456': [21.599, 70.943],
+  '365460': [21.718, 71.074],
+  '365480': [21.689, 70.836],
+  '365535': [21.573, 71.406],
+  '365540': [20.874, 71.311],
+  '365541': [20.923, 71.442],
+  '365545': [20.956, 71.323],
+  '365550': [21.047, 71.216],
+  '365555': [21.054, 71.584],
+  '365560': [21.048, 71.43],
+  '365565': [21.476, 71.466],
+  '365601': [21.643, 71.216],
+  '365610': [21.596, 71.109],
+  '365620': [21.767, 71.204],
+  '365630': [21.382, 71.145],
+  '365635': [21.246, 71.252],
+  '365640': [21.243, 70.931],
+  '365645': [21.367, 70.919],
+  '365650': [21.171, 71.204],
+  '365660': [21.219, 71.121],
+  '370001': [23.383, 69.621],
+  '370015': [23.379, 69.848],
+  '370020': [23.311, 69.931],
+  '370030': [23.221, 69.514],
+  '370040': [23.211, 69.61],
+  '370105': [23.207, 69.836],
+  '370110': [23.135, 69.979],
+  '370130': [23.077, 69.884],
+  '370135': [23.405, 70.479],
+  '370140': [23.368, 70.193],
+  '370145': [23.462, 71.287],
+  '370150': [23.235, 70.574],
+  '370155': [23.649, 70.955],
+  '370160': [23.52, 70.836],
+  '370165': [23.938, 70.717],
+  '370201': [23.072, 70.152],
+  '370203': [23.004, 70.11],
+  '370205': [23.04, 70.038],
+  '370210': [22.977, 70.169],
+  '370230': [23.097, 70.08],
+  '370240': [23.205, 70.169],
+  '370405': [22.837, 69.621],
+  '370410': [22.94, 69.884],
+  '370415': [22.925, 69.681],
+  '370421': [22.843, 69.753],
+  '370425': [23.012, 69.741],
+  '370427': [23.139, 69.586],
+  '370430': [23.097, 69.693],
+  '370435': [22.899, 69.49],
+  '370445': [23.091, 69.312],
+  '370450': [23.026, 69.169],
+  '370455': [22.825, 69.443],
+  '370460': [22.886, 69.395],
+  '370465': [22.864, 69.312],
+  '370475': [22.903, 69.18],
+  '370485': [23.065, 69.455],
+  '370490': [23.052, 69.025],
+  '370510': [23.734, 69.86],
+  '370511': [23.413, 68.692],
+  '370601': [23.613, 68.668],
+  '370602': [23.762, 68.68],
+  '370605': [23.48, 69.169],
+  '370610': [23.276, 69.419],
+  '370615': [23.386, 69.228],
+  '370620': [23.382, 68.954],
+  '370625': [23.596, 69.025],
+  '370627': [23.887, 69.002],
+  '370630': [23.634, 68.894],
+  '370640': [23.186, 68.692],
+  '370645': [23.145, 68.966],
+  '370650': [23.233, 69.025],
+  '370655': [23.187, 68.859],
+  '370660': [23.298, 68.918],
+  '370665': [23.448, 69.431],
+  '370670': [23.344, 69.085],
+  '370675': [23.273, 69.312],
+  '380001': [23.026, 72.584],
+  '380002': [23.009, 72.599],
+  '380004': [23.054, 72.591],
+  '380005': [23.089, 72.591],
+  '380006': [23.02, 72.555],
+  '380007': [23.004, 72.553],
+  '380008': [22.998, 72.611],
+  '380009': [23.031, 72.564],
+  '380013': [23.06, 72.561],
+  '380014': [23.045, 72.56],
+  '380015': [23.024, 72.53],
+  '380016': [23.049, 72.606],
+  '380018': [23.031, 72.61],
+  '380019': [23.106, 72.572],
+  '380021': [23.016, 72.616],
+  '380022': [23.004, 72.579],
+  '380023': [23.021, 72.624],
+  '380024': [23.029, 72.633],
+  '380026': [23.004, 72.626],
+  '380027': [23.061, 72.58],
+  '380028': [22.989, 72.583],
+  '380050': [22.972, 72.612],
+  '380051': [22.997, 72.511],
+  '380052': [23.051, 72.532],
+  '380054': [23.013, 72.496],
+  '380055': [22.982, 72.512],
+  '380058': [23.036, 72.438],
+  '380059': [23.063, 72.498],
+  '380060': [23.11, 72.485],
+  '380061': [23.072, 72.542],
+  '380063': [23.055, 72.546],
+  '382006': [23.209, 72.629],
+  '382007': [23.206, 72.648],
+  '382010': [23.218, 72.648],
+  '382016': [23.228, 72.637],
+  '382021': [23.226, 72.671],
+  '382024': [23.241, 72.648],
+  '382028': [23.248, 72.65],
+  '382030': [23.242, 72.667],
+  '382041': [23.262, 72.657],
+  '382042': [23.277, 72.705],
+  '382045': [23.244, 72.708],
+  '382110': [22.969, 72.355],
+  '382115': [23.071, 72.343],
+  '382120': [23.321, 72.213],
+  '382130': [23.339, 71.976],
+  '382140': [23.251, 72.106],
+  '382145': [23.397, 72.177],
+  '382150': [23.135, 71.999],
+  '382165': [23.188, 72.26],
+  '382170': [22.962, 72.094],
+  '382210': [22.926, 72.485],
+  '382213': [22.918, 72.414],
+  '382220': [22.871, 72.307],
+  '382225': [22.703, 72.449],
+  '382230': [22.498, 72.26],
+  '382240': [22.697, 72.189],
+  '382245': [22.34, 71.691],
+  '382250': [22.322, 71.928],
+  '382255': [22.254, 71.739],
+  '382260': [22.829, 72.438],
+  '382265': [22.596, 72.414],
+  '382305': [23.166, 72.875],
+  '382308': [23.061, 72.863],
+  '382315': [23.248, 72.887],
+  '382320': [23.347, 72.745],
+  '382321': [23.247, 72.781],
+  '382330': [23.088, 72.698],
+  '382340': [23.09, 72.652],
+  '382345': [23.058, 72.637],
+  '382350': [23.04, 72.652],
+  '382355': [23.201, 72.717],
+  '382405': [22.964, 72.59],
+  '382415': [23.024, 72.665],
+  '382418': [22.996, 72.698],
+  '382421': [23.147, 72.603],
+  '382422': [23.234, 72.556],
+  '382423': [23.184, 72.574],
+  '382424': [23.109, 72.585],
+  '382425': [22.842, 72.556],
+  '382427': [22.891, 72.58],
+  '382428': [23.108, 72.64],
+  '382430': [23.042, 72.698],
+  '382433': [22.971, 72.781],
+  '382435': [22.927, 72.698],
+  '382440': [22.953, 72.611],
+  '382443': [22.977, 72.593],
+  '382445': [22.967, 72.647],
+  '382449': [22.967, 72.692],
+  '382450': [22.178, 71.881],
+  '382455': [22.144, 72.189],
+  '382460': [22.425, 72.023],
+  '382463': [22.297, 72.118],
+  '382465': [22.36, 72.26],
+  '382470': [23.105, 72.561],
+  '382475': [23.077, 72.619],
+  '382480': [23.08, 72.574],
+  '382481': [23.11, 72.535],
+  '382610': [23.288, 72.68],
+  '382620': [23.281, 72.621],
+  '382630': [23.308, 72.603],
+  '382640': [23.276, 72.574],
+  '382650': [23.321, 72.668],
+  '382705': [23.389, 72.402],
+  '382710': [23.533, 72.408],
+  '382715': [23.291, 72.355],
+  '382721': [23.243, 72.438],
+  '382725': [23.205, 72.509],
+  '382728': [23.199, 72.355],
+  '382729': [23.292, 72.461],
+  '382730': [23.461, 72.532],
+  '382732': [23.45, 72.438],
+  '382735': [23.375, 72.686],
+  '382740': [23.327, 72.515],
+  '382745': [23.081, 71.739],
+  '382750': [23.419, 71.881],
+  '382755': [23.391, 71.644],
+  '382760': [23.213, 71.691],
+  '382765': [23.184, 71.833],
+  '382775': [22.862, 71.833],
+  '382780': [23.402, 71.739],
+  '382810': [23.508, 72.639],
+  '382815': [23.618, 72.698],
+  '382820': [23.59, 72.651],
+  '382825': [23.492, 72.55],
+  '382830': [23.559, 72.58],
+  '382835': [23.439, 72.745],
+  '382840': [23.664, 72.698],
+  '382845': [23.426, 72.627],
+  '382850': [23.557, 72.716],
+  '382855': [23.485, 72.745],
+  '382860': [23.695, 72.769],
+  '382865': [23.527, 72.509],
+  '382870': [23.57, 72.781],
+  '383001': [23.561, 73.005],
+  '383006': [23.3, 73.2],
+  '383010': [23.689, 73.017],
+  '383030': [23.607, 73.111],
+  '383110': [23.76, 72.934],
+  '383120': [23.499, 72.863],
+  '383205': [23.391, 72.828],
+  '383210': [23.484, 72.934],
+  '383215': [23.315, 72.97],
+  '383220': [23.581, 72.875],
+  '383225': [23.75, 72.84],
+  '383230': [23.847, 72.887],
+  '383235': [23.93, 73.005],
+  '383240': [23.674, 73.194],
+  '383245': [23.774, 73.265],
+  '383246': [23.905, 73.3],
+  '383250': [23.626, 73.383],
+  '383251': [23.69, 73.442],
+  '383255': [24.053, 73.076],
+  '383260': [23.277, 73.147],
+  '383270': [24.15, 73.017],
+  '383275': [23.976, 73.111],
+  '383276': [23.533, 73.17],
+  '383305': [23.412, 73.017],
+  '383307': [23.318, 73.1],
+  '383310': [23.346, 73.253],
+  '383315': [23.449, 73.347],
+  '383316': [23.479, 73.206],
+  '383317': [23.541, 73.347],
+  '383320': [23.59, 73.265],
+  '383325': [23.202, 73.1],
+  '383330': [23.166, 73.194],
+  '383335': [23.31, 73.347],
+  '383340': [23.166, 73.3],
+  '383345': [23.372, 73.489],
+  '383350': [23.515, 73.536],
+  '383355': [23.674, 73.3],
+  '383410': [23.856, 73.17],
+  '383421': [23.753, 73.076],
+  '383422': [24.38, 73.017],
+  '383430': [23.861, 73.005],
+  '383434': [23.949, 72.875],
+  '383440': [23.884, 73.111],
+  '383450': [23.802, 73.206],
+  '383460': [24.003, 73.347],
+  '383462': [23.949, 73.383],
+  '384001': [23.611, 72.438],
+  '384002': [23.603, 72.367],
+  '384003': [23.563, 72.373],
+  '384012': [23.569, 72.42],
+  '384110': [23.802, 72.296],
+  '384120': [23.692, 72.343],
+  '384130': [23.906, 72.497],
+  '384140': [23.862, 72.414],
+  '384151': [23.935, 72.355],
+  '384160': [23.738, 72.343],
+  '384170': [23.813, 72.39],
+  '384205': [23.641, 72.349],
+  '384210': [23.493, 72.118],
+  '384212': [23.581, 72.177],
+  '384215': [23.873, 72.319],
+  '384220': [23.693, 72.153],
+  '384221': [23.638, 72.082],
+  '384225': [23.635, 72.248],
+  '384229': [23.704, 72.248],
+  '384230': [23.62, 72.023],
+  '384240': [23.675, 71.905],
+  '384241': [23.557, 71.881],
+  '384245': [23.64, 71.62],
+  '384246': [23.5, 71.786],
+  '384255': [23.814, 72.011],
+  '384260': [23.753, 72.272],
+  '384265': [23.901, 72.071],
+  '384272': [23.969, 71.964],
+  '384275': [23.775, 72.165],
+  '384285': [23.999, 72.118],
+  '384290': [23.96, 72.272],
+  '384305': [23.642, 72.509],
+  '384310': [23.726, 72.438],
+  '384315': [23.687, 72.591],
+  '384320': [23.781, 72.509],
+  '384325': [23.922, 72.639],
+  '384330': [23.998, 72.792],
+  '384335': [23.849, 72.698],
+  '384340': [24.02, 72.686],
+  '384345': [23.839, 72.562],
+  '384355': [23.79, 72.686],
+  '384360': [23.972, 72.822],
+  '384410': [23.556, 72.26],
+  '384421': [23.452, 72.302],
+  '384430': [23.471, 72.225],
+  '384435': [23.534, 72.367],
+  '385001': [24.176, 72.449],
+  '385010': [24.278, 72.438],
+  '385110': [24.312, 72.828],
+  '385120': [24.154, 72.852],
+  '385130': [24.382, 72.639],
+  '385135': [24.325, 72.544],
+  '385210': [24.033, 72.402],
+  '385310': [24.512, 71.999],
+  '385320': [23.983, 71.43],
+  '385330': [24.176, 71.691],
+  '385340': [23.824, 71.62],
+  '385350': [23.856, 71.145],
+  '385360': [23.729, 71.406],
+  '385410': [24.198, 72.639],
+  '385421': [24.049, 72.544],
+  '385505': [24.375, 72.378],
+  '385506': [24.497, 72.343],
+  '385510': [24.251, 72.307],
+  '385515': [24.154, 72.26],
+  '385520': [24.086, 72.367],
+  '385530': [24.217, 72.023],
+  '385535': [24.34, 72.094],
+  '385540': [24.188, 72.165],
+  '385545': [24.475, 72.26],
+  '385550': [24.079, 72.023],
+  '385555': [23.964, 71.833],
+  '385560': [23.907, 71.739],
+  '385565': [24.451, 71.691],
+  '385566': [24.557, 71.62],
+  '385570': [24.238, 71.454],
+  '385575': [24.441, 71.43],
+  '387001': [22.688, 72.881],
+  '387002': [22.72, 72.857],
+  '387110': [22.893, 72.796],
+  '387115': [22.707, 73.005],
+  '387120': [22.829, 72.651],
+  '387130': [22.824, 72.76],
+  '387210': [22.591, 72.686],
+  '387220': [22.586, 72.745],
+  '387230': [22.684, 72.792],
+  '387240': [22.535, 72.698],
+  '387305': [22.831, 73.035],
+  '387310': [22.613, 72.94],
+  '387315': [22.656, 72.958],
+  '387320': [22.73, 72.792],
+  '387325': [22.61, 72.905],
+  '387330': [22.774, 72.981],
+  '387335': [22.838, 72.934],
+  '387340': [22.91, 73.064],
+  '387345': [22.63, 72.881],
+  '387350': [22.697, 72.751],
+  '387355': [22.643, 72.84],
+  '387360': [22.72, 72.911],
+  '387365': [22.961, 73.005],
+  '387370': [22.656, 72.905],
+  '387375': [22.594, 72.869],
+  '387380': [22.649, 72.739],
+  '387411': [22.768, 72.722],
+  '387430': [22.797, 72.875],
+  '387510': [22.65, 72.698],
+  '387520': [22.576, 72.544],
+  '387530': [22.663, 72.603],
+  '387540': [22.798, 72.58],
+  '387550': [22.732, 72.603],
+  '387560': [22.687, 72.562],
+  '387570': [22.722, 72.722],
+  '387610': [23.038, 72.97],
+  '387620': [23.007, 73.111],
+  '387630': [22.889, 72.981],
+  '387635': [22.97, 72.928],
+  '387640': [22.933, 73.17],
+  '387650': [23.146, 73.111],
+  '387710': [22.618, 72.775],
+  '388001': [22.57, 72.964],
+  '388110': [22.533, 72.967],
+  '388120': [22.56, 72.93],
+  '388121': [22.538, 72.914],
+  '388130': [22.507, 72.863],
+  '388140': [22.408, 72.857],
+  '388150': [22.489, 72.698],
+  '388160': [22.477, 72.751],
+  '388170': [22.394, 72.674],
+  '388180': [22.489, 72.591],
+  '388205': [22.643, 73.052],
+  '388210': [22.643, 73.159],
+  '388215': [22.74, 73.1],
+  '388220': [22.694, 73.1],
+  '388225': [22.823, 73.111],
+  '388230': [22.707, 73.218],
+  '388235': [22.899, 73.288],
+  '388239': [22.958, 73.406],
+  '388245': [22.833, 73.312],
+  '388250': [22.82, 73.194],
+  '388255': [23.023, 73.253],
+  '388260': [23.228, 73.442],
+  '388265': [23.033, 73.347],
+  '388270': [23.105, 73.477],
+  '388305': [22.472, 73.023],
+  '388306': [22.484, 73.076],
+  '388307': [22.43, 73.005],
+  '388310': [22.643, 72.999],
+  '388315': [22.575, 72.903],
+  '388320': [22.574, 72.999],
+  '388325': [22.572, 72.881],
+  '388330': [22.569, 73.058],
+  '388335': [22.603, 73.058],
+  '388340': [22.527, 73.02],
+  '388345': [22.519, 72.917],
+  '388350': [22.474, 72.981],
+  '388355': [22.499, 72.952],
+  '388360': [22.61, 73.011],
+  '388365': [22.556, 73.1],
+  '388370': [22.516, 72.999],
+  '388410': [22.752, 73.046],
+  '388421': [22.596, 72.807],
+  '388430': [22.43, 72.739],
+  '388440': [22.565, 72.81],
+  '388450': [22.483, 72.798],
+  '388460': [22.548, 72.763],
+  '388465': [22.512, 72.751],
+  '388470': [22.517, 72.798],
+  '388480': [22.456, 72.816],
+  '388510': [22.386, 73.029],
+  '388520': [22.345, 72.97],
+  '388530': [22.325, 72.887],
+  '388540': [22.42, 72.911],
+  '388543': [22.41, 72.976],
+  '388545': [22.444, 72.869],
+  '388550': [22.292, 72.792],
+  '388560': [22.462, 72.928],
+  '388570': [22.347, 72.822],
+  '388580': [22.381, 72.769],
+  '388590': [22.372, 72.846],
+  '388610': [22.263, 72.745],
+  '388620': [22.384, 72.58],
+  '388625': [22.381, 72.449],
+  '388630': [22.363, 72.657],
+  '388640': [22.327, 72.698],
+  '388710': [22.845, 73.43],
+  '388713': [22.83, 73.501],
+  '389001': [22.775, 73.642],
+  '389110': [23.083, 73.818],
+  '389115': [22.944, 73.818],
+  '389120': [22.846, 73.771],
+  '389130': [22.815, 73.912],
+  '389140': [22.829, 74.054],
+  '389146': [22.922, 74.054],
+  '389151': [22.815, 74.253],
+  '389152': [22.743, 74.23],
+  '389154': [22.816, 74.382],
+  '389155': [22.672, 74.335],
+  '389160': [22.838, 74.2],
+  '389170': [23.122, 74.194],
+  '389172': [23.241, 74.007],
+  '389175': [23.005, 73.959],
+  '389180': [22.941, 74.241],
+  '389190': [23.107, 74.054],
+  '389210': [22.955, 73.701],
+  '389220': [23.007, 73.536],
+  '389230': [23.248, 73.63],
+  '389232': [23.379, 73.665],
+  '389235': [23.173, 73.689],
+  '389240': [23.356, 73.771],
+  '389250': [23.309, 73.877],
+  '389260': [23.185, 73.912],
+  '389265': [23.222, 73.818],
+  '389310': [22.668, 73.501],
+  '389320': [22.673, 73.442],
+  '389330': [22.586, 73.436],
+  '389340': [22.688, 73.583],
+  '389341': [22.61, 73.724],
+  '389350': [22.455, 73.453],
+  '389360': [22.503, 73.583],
+  '389365': [22.513, 73.677],
+  '389370': [22.364, 73.583],
+  '389380': [22.697, 73.889],
+  '389382': [22.653, 74.147],
+  '389390': [22.317, 73.689],
+  '390001': [22.298, 73.204],
+  '390002': [22.339, 73.19],
+  '390003': [22.327, 73.163],
+  '390004': [22.276, 73.221],
+  '390006': [22.311, 73.221],
+  '390007': [22.302, 73.153],
+  '390008': [22.322, 73.192],
+  '390009': [22.258, 73.207],
+  '390010': [22.255, 73.188],
+  '390011': [22.27, 73.184],
+  '390012': [22.278, 73.153],
+  '390013': [22.238, 73.179],
+  '390014': [22.229, 73.209],
+  '390016': [22.336, 73.15],
+  '390017': [22.294, 73.215],
+  '390018': [22.321, 73.203],
+  '390019': [22.313, 73.259],
+  '390020': [22.301, 73.173],
+  '390021': [22.319, 73.139],
+  '390022': [22.409, 73.241],
+  '390023': [22.316, 73.156],
+  '390024': [22.337, 73.179],
+  '390025': [22.285, 73.238],
+  '391101': [22.318, 73.094],
+  '391105': [22.013, 73.43],
+  '391107': [22.154, 73.347],
+  '391110': [22.118, 73.442],
+  '391115': [21.959, 73.359],
+  '391120': [21.994, 73.583],
+  '391121': [21.991, 73.665],
+  '391125': [22.236, 73.571],
+  '391130': [22.15, 73.642],
+  '391135': [22.249, 73.818],
+  '391140': [22.147, 73.724],
+  '391145': [22.12, 73.571],
+  '391150': [22.055, 73.724],
+  '391152': [21.981, 73.912],
+  '391155': [22.43, 73.771],
+  '391156': [22.344, 73.895],
+  '391160': [22.406, 73.877],
+  '391165': [22.412, 74.054],
+  '391168': [22.243, 73.983],
+  '391170': [22.083, 74.007],
+  '391175': [21.984, 74.065],
+  '391210': [22.091, 73.288],
+  '391220': [22.06, 73.218],
+  '391240': [22.083, 73.111],
+  '391243': [22.181, 73.159],
+  '391244': [21.983, 73.147],
+  '391250': [21.998, 73.288],
+  '391310': [22.357, 73.129],
+  '391320': [22.368, 73.15],
+  '391330': [22.345, 73.076],
+  '391340': [22.422, 73.094],
+  '391345': [22.389, 73.105],
+  '391346': [22.373, 73.097],
+  '391350': [22.411, 73.12],
+  '391410': [22.264, 73.129],
+  '391421': [22.12, 72.911],
+  '391430': [22.127, 72.981],
+  '391440': [22.248, 73.029],
+  '391445': [22.202, 73.029],
+  '391450': [22.207, 72.917],
+  '391510': [22.432, 73.347],
+  '391520': [22.566, 73.3],
+  '391530': [22.65, 73.335],
+  '391740': [22.373, 73.176],
+  '391745': [22.445, 73.147],
+  '391750': [22.389, 73.138],
+  '391760': [22.293, 73.347],
+  '391761': [22.262, 73.489],
+  '391770': [22.566, 73.194],
+  '391774': [22.715, 73.288],
+  '391775': [22.478, 73.241],
+  '391780': [22.491, 73.147],
+  '391810': [22.192, 72.828],
+  '392001': [21.694, 72.976],
+  '392011': [21.745, 73.076],
+  '392012': [21.725, 72.887],
+  '392015': [21.745, 73.023],
+  '392020': [21.804, 72.981],
+  '392025': [21.894, 72.958],
+  '392030': [21.768, 73.129],
+  '392035': [21.961, 72.934],
+  '392040': [21.992, 72.686],
+  '392110': [22.012, 72.875],
+  '392130': [21.756, 72.639],
+  '392140': [21.864, 72.781],
+  '392150': [22.048, 72.781],
+  '392155': [22.125, 72.639],
+  '392160': [21.775, 72.869],
+  '392165': [21.779, 72.745],
+  '392170': [22.181, 72.627],
+  '392180': [22.148, 72.745],
+  '392210': [21.84, 73.1],
+  '392215': [21.917, 72.745],
+  '392220': [21.93, 73.076],
+  '392230': [21.966, 73.035],
+  '392240': [21.855, 73.029],
+  '392310': [21.96, 73.094],
+  '393001': [21.622, 73.005],
+  '393002': [21.673, 72.999],
+  '393010': [21.694, 73.029],
+  '393017': [21.778, 73.17],
+  '393020': [21.612, 72.911],
+  '393025': [21.484, 73.924],
+  '393030': [21.582, 72.733],
+  '393040': [21.679, 73.677],
+  '393041': [21.582, 73.63],
+  '393050': [21.406, 73.724],
+  '393105': [21.85, 73.194],
+  '393110': [21.678, 73.206],
+  '393115': [21.762, 73.241],
+  '393120': [21.826, 73.3],
+  '393125': [21.595, 73.3],
+  '393130': [21.609, 73.442],
+  '393135': [21.534, 73.159],
+  '393140': [21.815, 73.418],
+  '393145': [21.9, 73.453],
+  '393150': [21.93, 73.524],
+  '393151': [21.879, 73.818],
+  '393155': [21.818, 73.677],
+  '394101': [21.242, 72.881],
+  '394105': [21.263, 72.887],
+  '394107': [21.241, 72.851],
+  '394110': [21.395, 73.159],
+  '394111': [21.415, 72.931],
+  '394115': [21.555, 72.976],
+  '394116': [21.531, 72.964],
+  '394120': [21.455, 72.958],
+  '394125': [21.504, 72.981],
+  '394130': [21.33, 72.863],
+  '394140': [21.288, 73.123],
+  '394150': [21.314, 72.934],
+  '394155': [21.322, 73.005],
+  '394160': [21.327, 73.394],
+  '394163': [21.359, 73.253],
+  '394170': [21.365, 73.035],
+  '394180': [21.276, 73.005],
+  '394185': [21.264, 72.952],
+  '394190': [21.279, 72.939],
+  '394210': [21.167, 72.847],
+  '394221': [21.135, 72.84],
+  '394230': [21.077, 72.847],
+  '394235': [21.065, 72.917],
+  '394240': [20.969, 73.17],
+  '394245': [20.925, 73.129],
+  '394246': [20.932, 73.2],
+  '394248': [20.884, 73.241],
+  '394250': [21.011, 73.123],
+  '394270': [21.117, 72.645],
+  '394305': [21.13, 72.934],
+  '394310': [21.183, 73.005],
+  '394315': [21.08, 72.952],
+  '394317': [21.104, 72.964],
+  '394320': [21.228, 73.046],
+  '394325': [21.176, 72.934],
+  '394326': [21.23, 72.952],
+  '394327': [21.165, 72.967],
+  '394330': [21.26, 73.076],
+  '394335': [21.225, 73.247],
+  '394340': [21.164, 73.265],
+  '394345': [21.191, 73.076],
+  '394350': [21.052, 73.076],
+  '394352': [21.041, 73.023],
+  '394355': [21.154, 73.17],
+  '394360': [21.245, 73.383],
+  '394365': [21.073, 73.63],
+  '394370': [21.484, 74.159],
+  '394375': [21.323, 73.818],
+  '394380': [21.525, 74.112],
+  '394405': [21.463, 73.029],
+  '394410': [21.47, 73.1],
+  '394421': [21.446, 73.141],
+  '394430': [21.451, 73.253],
+  '394440': [21.466, 73.394],
+  '394445': [21.438, 73.583],
+  '394510': [21.193, 72.651],
+  '394515': [21.195, 72.701],
+  '394516': [21.165, 72.691],
+  '394517': [21.163, 72.671],
+  '394518': [21.146, 72.759],
+  '394520': [21.277, 72.792],
+  '394530': [21.379, 72.674],
+  '394540': [21.397, 72.733],
+  '394550': [21.082, 72.728],
+  '394601': [21.121, 73.076],
+  '394620': [21.085, 73.17],
+  '394630': [20.958, 73.288],
+  '394633': [20.968, 73.383],
+  '394635': [20.869, 73.442],
+  '394640': [21.017, 73.247],
+  '394641': [21.007, 73.312],
+  '394650': [21.129, 73.383],
+  '394651': [21.188, 73.394],
+  '394655': [21.008, 73.442],
+  '394660': [21.211, 73.565],
+  '394670': [21.21, 73.501],
+  '394680': [21.259, 73.577],
+  '394690': [21.101, 73.271],
+  '394710': [20.809, 73.771],
+  '394715': [20.963, 73.571],
+  '394716': [20.943, 73.724],
+  '394720': [20.64, 73.701],
+  '394730': [20.74, 73.536],
+  '394810': [21.484, 72.792],
+  '395001': [21.181, 72.818],
+  '395002': [21.184, 72.847],
+  '395003': [21.207, 72.835],
+  '395004': [21.23, 72.821],
+  '395005': [21.259, 72.733],
+  '395006': [21.217, 72.866],
+  '395007': [21.16, 72.796],
+  '395008': [21.209, 72.833],
+  '395009': [21.193, 72.8],
+  '395010': [21.195, 72.869],
+  '395011': [21.175, 72.877],
+  '395012': [21.175, 72.866],
+  '395013': [21.127, 72.855],
+  '395017': [21.156, 72.809],
+  '395023': [21.127, 72.855],
+  '396001': [20.616, 72.928],
+  '396002': [20.591, 72.943],
+  '396007': [20.581, 72.928],
+  '396020': [20.551, 72.911],
+  '396030': [20.666, 72.911],
+  '396035': [20.673, 72.981],
+  '396040': [20.639, 73.1],
+  '396045': [20.629, 73.005],
+  '396050': [20.486, 73.3],
+  '396051': [20.573, 73.253],
+  '396055': [20.555, 73.064],
+  '396060': [20.674, 73.218],
+  '396065': [20.326, 73.324],
+  '396105': [20.272, 72.887],
+  '396110': [20.728, 72.893],
+  '396115': [20.484, 72.881],
+  '396120': [20.221, 72.787],
+  '396125': [20.491, 73.005],
+  '396126': [20.369, 73.17],
+  '396130': [20.262, 72.792],
+  '396135': [20.253, 72.763],
+  '396140': [20.31, 72.784],
+  '396145': [20.417, 72.958],
+  '396150': [20.202, 72.822],
+  '396155': [20.313, 72.84],
+  '396165': [20.165, 72.798],
+  '396170': [20.184, 72.763],
+  '396171': [20.145, 72.769],
+  '396180': [20.458, 72.878],
+  '396185': [20.441, 72.905],
+  '396191': [20.37, 73.064],
+  '396193': [20.327, 72.981],
+  '396195': [20.328, 72.902],
+  '396210': [20.435, 72.846],
+  '396215': [20.404, 72.881],
+  '396220': [20.387, 72.834],
+  '396230': [20.149, 73.159],
+  '396235': [20.233, 72.958],
+  '396240': [20.191, 73.005],
+  '396310': [20.781, 72.911],
+  '396321': [20.759, 73.2],
+  '396325': [20.752, 73.023],
+  '396350': [20.881, 72.981],
+  '396360': [20.837, 73.005],
+  '396370': [20.827, 72.964],
+  '396375': [20.7, 72.964],
+  '396380': [20.791, 73.005],
+  '396385': [20.707, 72.917],
+  '396403': [20.885, 72.857],
+  '396406': [20.853, 72.881],
+  '396409': [20.801, 73.046],
+  '396412': [20.949, 72.798],
+  '396415': [21.014, 72.934],
+  '396418': [20.996, 73.035],
+  '396421': [20.946, 72.881],
+  '396424': [20.952, 72.956],
+  '396427': [20.956, 72.987],
+  '396430': [20.842, 73.052],
+  '396433': [20.902, 73.023],
+  '396436': [20.992, 72.828],
+  '396439': [20.908, 72.825],
+  '396440': [20.928, 72.822],
+  '396445': [20.945, 72.934],
+  '396450': [20.917, 72.887],
+  '396460': [20.8, 72.863],
+  '396463': [20.921, 72.976],
+  '396466': [20.919, 73.07],
+  '396469': [20.962, 73.046],
+  '396472': [20.853, 72.934],
+  '396475': [21.014, 72.987],
+  '396510': [20.832, 73.274],
+  '396521': [20.752, 73.076],
+  '396530': [20.824, 73.1],
+  '396540': [20.72, 73.164],
+  '396560': [20.831, 73.17],
+  '396570': [20.816, 73.226],
+  '396580': [20.721, 73.347],
+  '396590': [20.847, 73.335],
+  '400001': [18.939, 72.836],
+  '400002': [18.948, 72.826],
+  '400003': [18.953, 72.835],
+  '400004': [18.958, 72.821],
+  '400005': [18.91, 72.82],
+  '400006': [18.954, 72.8],
+  '400007': [18.962, 72.813],
+  '400008': [18.967, 72.829],
+  '400009': [18.958, 72.839],
+  '400010': [18.97, 72.846],
+  '400011': [18.981, 72.827],
+  '400012': [19, 72.84],
+  '400013': [18.998, 72.827],
+  '400014': [19.015, 72.845],
+  '400015': [18.996, 72.853],
+  '400016': [19.039, 72.842],
+  '400017': [19.046, 72.854],
+  '400018': [18.999, 72.817],
+  '400019': [19.027, 72.855],
+  '400020': [18.935, 72.826],
+  '400021': [18.926, 72.824],
+  '400022': [19.043, 72.864],
+  '400024': [19.061, 72.879],
+  '400025': [19.016, 72.829],
+  '400026': [18.971, 72.809],
+  '400027': [18.979, 72.838],
+  '400028': [19.022, 72.837],
+  '400029': [19.08, 72.868],
+  '400030': [19.012, 72.822],
+  '400031': [19.013, 72.855],
+  '400032': [18.929, 72.83],
+  '400033': [18.986, 72.844],
+  '400034': [18.972, 72.815],
+  '400035': [18.942, 72.794],
+  '400037': [19.026, 72.87],
+  '400042': [19.134, 72.938],
+  '400043': [19.063, 72.926],
+  '400049': [19.105, 72.827],
+  '400050': [19.055, 72.83],
+  '400051': [19.06, 72.855],
+  '400052': [19.072, 72.834],
+  '400053': [19.112, 72.861],
+  '400054': [19.082, 72.834],
+  '400055': [19.08, 72.847],
+  '400056': [19.104, 72.84],
+  '400057': [19.101, 72.848],
+  '400058': [19.123, 72.83],
+  '400059': [19.112, 72.879],
+  '400060': [19.137, 72.858],
+  '400061': [19.143, 72.805],
+  '400063': [19.165, 72.853],
+  '400064': [19.187, 72.841],
+  '400065': [19.156, 72.885],
+  '400066': [19.231, 72.864],
+  '400067': [19.207, 72.835],
+  '400068': [19.259, 72.834],
+  '400069': [19.118, 72.874],
+  '400070': [19.074, 72.88],
+  '400071': [19.052, 72.901],
+  '400072': [19.102, 72.89],
+  '400074': [19.029, 72.888],
+  '400075': [19.08, 72.917],
+  '400076': [19.124, 72.909],
+  '400077': [19.078, 72.906],
+  '400078': [19.157, 72.933],
+  '400079': [19.103, 72.925],
+  '400080': [19.172, 72.948],
+  '400081': [19.166, 72.965],
+  '400082': [19.174, 72.937],
+  '400083': [19.117, 72.937],
+  '400084': [19.098, 72.903],
+  '400085': [19.044, 72.912],
+  '400086': [19.089, 72.908],
+  '400087': [19.139, 72.896],
+  '400088': [19.048, 72.929],
+  '400089': [19.069, 72.9],
+  '400091': [19.234, 72.84],
+  '400092': [19.233, 72.798],
+  '400093': [19.128, 72.868],
+  '400094': [19.036, 72.925],
+  '400095': [19.189, 72.82],
+  '400096': [19.127, 72.877],
+  '400097': [19.184, 72.858],
+  '400098': [19.072, 72.862],
+  '400099': [19.093, 72.865],
+  '400101': [19.206, 72.866],
+  '400102': [19.142, 72.834],
+  '400103': [19.245, 72.845],
+  '400104': [19.163, 72.839],
+  '400601': [19.201, 72.979],
+  '400602': [19.19, 72.968],
+  '400603': [19.183, 72.978],
+  '400604': [19.198, 72.949],
+  '400605': [19.194, 72.999],
+  '400606': [19.211, 72.961],
+  '400607': [19.239, 72.987],
+  '400608': [19.218, 72.995],
+  '400610': [19.231, 72.952],
+  '400612': [19.18, 73.029],
+  '400614': [19.028, 73.038],
+  '400615': [19.272, 72.964],
+  '400701': [19.126, 73.011],
+  '400702': [18.874, 72.958],
+  '400703': [19.079, 72.999],
+  '400704': [18.897, 72.919],
+  '400706': [19.034, 73.011],
+  '400707': [18.883, 72.987],
+  '400708': [19.16, 72.999],
+  '400709': [19.1, 73.002],
+  '400710': [19.105, 73.023],
+  '401101': [19.3, 72.84],
+  '401102': [19.563, 72.828],
+  '401103': [19.891, 72.769],
+  '401105': [19.305, 72.866],
+  '401106': [19.29, 72.798],
+  '401107': [19.276, 72.893],
+  '401201': [19.37, 72.787],
+  '401202': [19.373, 72.822],
+  '401203': [19.417, 72.798],
+  '401204': [19.462, 73.035],
+  '401206': [19.506, 73.011],
+  '401207': [19.347, 72.819],
+  '401208': [19.373, 72.887],
+  '401209': [19.405, 72.831],
+  '401301': [19.46, 72.775],
+  '401302': [19.461, 72.754],
+  '401303': [19.434, 72.922],
+  '401304': [19.411, 72.766],
+  '401305': [19.455, 72.834],
+  '401401': [19.638, 72.769],
+  '401402': [19.651, 72.727],
+  '401403': [19.803, 72.922],
+  '401404': [19.701, 72.828],
+  '401405': [19.716, 72.713],
+  '401501': [19.799, 72.769],
+  '401502': [19.836, 72.674],
+  '401503': [19.901, 72.692],
+  '401504': [19.801, 72.727],
+  '401506': [19.853, 72.701],
+  '401601': [19.949, 72.716],
+  '401602': [19.973, 72.781],
+  '401603': [19.948, 73.229],
+  '401604': [19.941, 73.394],
+  '401605': [19.809, 73.1],
+  '401606': [20.084, 72.97],
+  '401607': [19.889, 72.981],
+  '401608': [19.955, 72.748],
+  '401609': [19.919, 72.987],
+  '401610': [20.064, 72.887],
+  '401701': [20.116, 72.775],
+  '401702': [20.094, 72.754],
+  '401703': [20.078, 72.792],
+  '402101': [18.073, 73.241],
+  '402102': [18.099, 73.341],
+  '402103': [18.136, 73.3],
+  '402104': [18.238, 73.288],
+  '402105': [18.165, 73.111],
+  '402106': [18.57, 73.147],
+  '402107': [18.741, 73.135],
+  '402108': [18.672, 73.005],
+  '402109': [18.436, 73.064],
+  '402110': [18.036, 73.076],
+  '402111': [18.257, 73.111],
+  '402112': [18.303, 73.241],
+  '402113': [18.104, 73.011],
+  '402114': [17.996, 73.082],
+  '402115': [18.061, 73.359],
+  '402116': [18.415, 73.153],
+  '402117': [18.194, 73.247],
+  '402120': [18.374, 73.394],
+  '402122': [18.186, 73.218],
+  '402125': [18.527, 73.117],
+  '402126': [18.508, 73.164],
+  '402201': [18.73, 72.887],
+  '402202': [18.505, 72.934],
+  '402203': [18.557, 73.005],
+  '402204': [18.619, 72.934],
+  '402207': [18.685, 72.866],
+  '402208': [18.697, 72.872],
+  '402209': [18.711, 72.934],
+  '402301': [18.006, 73.394],
+  '402302': [18.065, 73.536],
+  '402303': [17.973, 73.536],
+  '402304': [18.403, 73.206],
+  '402305': [18.228, 73.43],
+  '402306': [18.15, 73.595],
+  '402307': [17.904, 73.406],
+  '402308': [18.403, 73.335],
+  '402309': [18.11, 73.459],
+  '402401': [18.348, 72.981],
+  '402402': [18.26, 72.964],
+  '402403': [18.213, 73.005],
+  '402404': [18.126, 72.999],
+  '403001': [15.487, 73.824],
+  '403002': [15.467, 73.821],
+  '403004': [15.459, 73.805],
+  '403005': [15.467, 73.837],
+  '403006': [15.491, 73.871],
+  '403101': [15.536, 73.86],
+  '403102': [15.522, 73.868],
+  '403103': [15.327, 74.042],
+  '403104': [15.455, 73.924],
+  '403105': [15.495, 74.159],
+  '403106': [15.351, 74.021],
+  '403107': [15.52, 73.954],
+  '403108': [15.452, 73.877],
+  '403109': [15.506, 73.804],
+  '403110': [15.494, 73.918],
+  '403114': [15.531, 73.801],
+  '403115': [15.46, 73.995],
+  '403201': [15.454, 73.846],
+  '403202': [15.465, 73.849],
+  '403203': [15.557, 73.836],
+  '403204': [15.338, 73.91],
+  '403206': [15.457, 73.833],
+  '403401': [15.392, 73.995],
+  '403402': [15.439, 73.898],
+  '403403': [15.54, 73.918],
+  '403404': [15.43, 73.965],
+  '403406': [15.404, 74.159],
+  '403409': [15.378, 74.036],
+  '403410': [15.331, 74.241],
+  '403501': [15.536, 73.827],
+  '403502': [15.638, 73.86],
+  '403503': [15.66, 73.924],
+  '403504': [15.592, 73.924],
+  '403505': [15.605, 74.112],
+  '403506': [15.565, 74.183],
+  '403507': [15.599, 73.801],
+  '403508': [15.593, 73.871],
+  '403509': [15.584, 73.754],
+  '403510': [15.573, 73.792],
+  '403511': [15.554, 73.801],
+  '403512': [15.719, 73.807],
+  '403513': [15.677, 73.854],
+  '403515': [15.515, 73.774],
+  '403516': [15.551, 73.765],
+  '403517': [15.628, 73.807],
+  '403521': [15.508, 73.839],
+  '403523': [15.56, 73.883],
+  '403524': [15.706, 73.707],
+  '403526': [15.612, 73.857],
+  '403527': [15.674, 73.73],
+  '403529': [15.578, 73.977],
+  '403530': [15.532, 74.042],
+  '403601': [15.28, 73.98],
+  '403602': [15.293, 73.965],
+  '403701': [15.184, 73.98],
+  '403702': [15.006, 74.147],
+  '403703': [15.135, 74.054],
+  '403704': [15.149, 74.241],
+  '403705': [15.195, 74.089],
+  '403706': [15.289, 74.136],
+  '403707': [15.248, 73.965],
+  '403708': [15.291, 73.93],
+  '403709': [15.282, 74.042],
+  '403710': [15.39, 73.895],
+  '403711': [15.395, 73.839],
+  '403712': [15.353, 73.892],
+  '403713': [15.325, 73.93],
+  '403714': [15.243, 74.048],
+  '403715': [15.201, 73.98],
+  '403716': [15.257, 73.93],
+  '403717': [15.199, 73.951],
+  '403718': [15.345, 73.971],
+  '403719': [15.327, 73.998],
+  '403720': [15.307, 73.989],
+  '403721': [15.232, 73.933],
+  '403722': [15.358, 73.918],
+  '403723': [15.157, 73.965],
+  '403724': [15.221, 73.951],
+  '403725': [15.226, 73.977],
+  '403726': [15.377, 73.871],
+  '403728': [14.945, 74.089],
+  '403729': [15.253, 73.992],
+  '403731': [15.181, 73.945],
+  '403801': [15.382, 73.832],
+  '403802': [15.397, 73.824],
+  '403803': [15.399, 73.799],
+  '403804': [15.408, 73.792],
+  '403806': [15.372, 73.839],
+  '410101': [19.064, 73.394],
+  '410102': [18.99, 73.271],
+  '410201': [18.926, 73.394],
+  '410202': [18.859, 73.288],
+  '410203': [18.779, 73.3],
+  '410204': [18.803, 73.365],
+  '410205': [18.595, 73.3],
+  '410206': [19.001, 73.206],
+  '410207': [18.892, 73.147],
+  '410208': [19.074, 73.123],
+  '410210': [19.063, 73.07],
+  '410216': [18.959, 73.188],
+  '410218': [19.032, 73.105],
+  '410220': [18.85, 73.194],
+  '410221': [18.946, 73.111],
+  '410222': [18.892, 73.212],
+  '410301': [18.76, 73.368],
+  '410302': [18.77, 73.372],
+  '410401': [18.734, 73.43],
+  '410402': [18.722, 73.365],
+  '410403': [18.762, 73.397],
+  '410405': [18.797, 73.489],
+  '410406': [18.675, 73.548],
+  '410501': [18.751, 73.877],
+  '410502': [19.241, 73.818],
+  '410503': [19.009, 73.924],
+  '410504': [19.078, 74.054],
+  '410505': [18.969, 73.607],
+  '410506': [18.686, 73.665],
+  '410507': [18.772, 73.724],
+  '410508': [18.91, 74.112],
+  '410509': [19.136, 73.677],
+  '410510': [18.878, 74.018],
+  '410511': [19.188, 73.93],
+  '410512': [18.931, 73.959],
+  '410513': [18.927, 73.848],
+  '410515': [19.078, 73.924],
+  '410516': [19.065, 73.783],
+  '411001': [18.53, 73.876],
+  '411002': [18.512, 73.861],
+  '411003': [18.564, 73.852],
+  '411004': [18.516, 73.835],
+  '411005': [18.529, 73.853],
+  '411006': [18.553, 73.89],
+  '411007': [18.554, 73.82],
+  '411008': [18.538, 73.805],
+  '411009': [18.487, 73.85],
+  '411011': [18.523, 73.864],
+  '411012': [18.581, 73.829],
+  '411013': [18.509, 73.912],
+  '411014': [18.557, 73.928],
+  '411015': [18.582, 73.882],
+  '411016': [18.529, 73.83],
+  '411017': [18.61, 73.789],
+  '411018': [18.635, 73.812],
+  '411019': [18.657, 73.801],
+  '411020': [18.562, 73.834],
+  '411021': [18.528, 73.778],
+  '411022': [18.499, 73.907],
+  '411023': [18.462, 73.736],
+  '411024': [18.445, 73.787],
+  '411025': [18.372, 73.76],
+  '411026': [18.637, 73.836],
+  '411027': [18.588, 73.801],
+  '411028': [18.515, 73.926],
+  '411030': [18.51, 73.847],
+  '411031': [18.592, 73.848],
+  '411032': [18.593, 73.922],
+  '411033': [18.619, 73.754],
+  '411034': [18.606, 73.833],
+  '411035': [18.653, 73.78],
+  '411036': [18.533, 73.937],
+  '411037': [18.481, 73.872],
+  '411038': [18.517, 73.804],
+  '411039': [18.625, 73.857],
+  '411040': [18.492, 73.9],
+  '411041': [18.46, 73.811],
+  '411042': [18.503, 73.866],
+  '411043': [18.465, 73.848],
+  '411044': [18.666, 73.765],
+  '411045': [18.564, 73.777],
+  '411046': [18.403, 73.854],
+  '411047': [18.618, 73.948],
+  '411048': [18.465, 73.887],
+  '411051': [18.478, 73.821],
+  '411052': [18.485, 73.811],
+  '411057': [18.593, 73.718],
+  '411058': [18.496, 73.801],
+  '411060': [18.467, 73.917],
+  '411061': [18.588, 73.817],
+  '411062': [18.696, 73.783],
+  '412101': [18.674, 73.73],
+  '412102': [18.131, 74.183],
+  '412103': [18.103, 74.394],
+  '412104': [18.394, 74.147],
+  '412105': [18.66, 73.901],
+  '412106': [18.855, 73.63],
+  '412107': [18.391, 73.583],
+  '412108': [18.592, 73.512],
+  '412109': [18.749, 73.762],
+  '412110': [18.513, 74.065],
+  '412112': [18.393, 73.477],
+  '412115': [18.537, 73.677],
+  '412201': [18.465, 74.042],
+  '412202': [18.49, 74.194],
+  '412203': [18.506, 74.382],
+  '412204': [18.317, 74.335],
+  '412205': [18.239, 73.959],
+  '412206': [18.085, 73.771],
+  '412207': [18.578, 74.147],
+  '412208': [18.674, 74.194],
+  '412209': [18.739, 74.277],
+  '412210': [18.694, 74.429],
+  '412211': [18.598, 74.382],
+  '412212': [18.303, 73.63],
+  '412213': [18.223, 73.771],
+  '412214': [18.51, 74.3],
+  '412215': [18.085, 73.642],
+  '412216': [18.662, 74.054],
+  '412218': [18.859, 74.194],
+  '412219': [18.421, 74.476],
+  '412220': [18.783, 74.253],
+  '412301': [18.331, 73.959],
+  '412303': [18.301, 74.147],
+  '412304': [18.225, 74.335],
+  '412305': [18.213, 74.194],
+  '412306': [18.129, 74.288],
+  '412307': [18.5, 73.977],
+  '412308': [18.436, 73.971],
+  '412311': [18.235, 74.042],
+  '412312': [18.139, 74.071],
+  '412401': [19.131, 73.942],
+  '412402': [18.996, 73.783],
+  '412403': [18.788, 74.042],
+  '412404': [18.946, 73.736],
+  '412405': [18.974, 73.989],
+  '412406': [18.97, 74.071],
+  '412408': [19.046, 73.83],
+  '412409': [19.3, 73.959],
+  '412410': [19.101, 74.183],
+  '412411': [19.168, 74.159],
+  '412412': [19.225, 74.018],
+  '412801': [18.133, 73.924],
+  '412802': [18.068, 73.971],
+  '412803': [17.997, 73.818],
+  '412804': [17.916, 73.883],
+  '412805': [17.921, 73.801],
+  '412806': [17.847, 73.677],
+  '413001': [17.673, 75.907],
+  '413002': [17.751, 75.97],
+  '413003': [17.659, 75.913],
+  '413004': [17.648, 75.894],
+  '413005': [17.675, 75.952],
+  '413006': [17.648, 75.981],
+  '413007': [17.656, 75.907],
+  '413008': [17.513, 75.877],
+  '413101': [17.896, 74.979],
+  '413102': [18.152, 74.57],
+  '413103': [17.955, 74.991],
+  '413104': [18.167, 74.757],
+  '413105': [18.32, 74.792],
+  '413106': [18.143, 75.038],
+  '413107': [17.845, 74.909],
+  '413108': [17.91, 75.079],
+  '413109': [17.958, 74.734],
+  '413110': [18.176, 74.441],
+  '413111': [17.802, 74.804],
+  '413112': [17.882, 75.096],
+  '413113': [17.774, 75.038],
+  '413114': [18.045, 74.816],
+  '413115': [18.111, 74.488],
+  '413116': [18.072, 74.581],
+  '413118': [17.857, 74.997],
+  '413120': [18.044, 74.944],
+  '413130': [18.302, 74.71],
+  '413132': [18.178, 74.897],
+  '413133': [18.211, 74.581],
+  '413201': [18.728, 75.411],
+  '413202': [18.243, 75.131],
+  '413203': [18.457, 75.201],
+  '413204': [18.639, 75.458],
+  '413205': [18.625, 75.271],
+  '413206': [18.291, 75.003],
+  '413207': [18.949, 75.271],
+  '413208': [18.08, 75.411],
+  '413209': [18.044, 75.551],
+  '413210': [18.069, 75.271],
+  '413211': [17.973, 75.225],
+  '413212': [18.021, 75.096],
+  '413213': [17.777, 75.691],
+  '413214': [17.906, 75.551],
+  '413215': [17.531, 75.958],
+  '413216': [17.536, 76.202],
+  '413217': [17.45, 76.294],
+  '413218': [17.639, 76.341],
+  '413219': [17.384, 76.016],
+  '413220': [17.372, 76.329],
+  '413221': [17.482, 75.76],
+  '413222': [17.877, 75.784],
+  '413223': [18.162, 75.271],
+  '413224': [17.616, 75.941],
+  '413226': [17.626, 76.155],
+  '413227': [17.394, 76.155],
+  '413228': [17.573, 76.062],
+  '413229': [18.914, 75.411],
+  '413248': [17.767, 75.551],
+  '413249': [19.053, 75.411],
+  '413250': [18.126, 75.563],
+  '413251': [18.304, 75.318],
+  '413252': [18.183, 75.4],
+  '413253': [17.635, 75.644],
+  '413255': [17.706, 75.819],
+  '413301': [17.929, 75.4],
+  '413302': [17.884, 75.271],
+  '413303': [17.836, 75.4],
+  '413304': [17.639, 75.388],
+  '413305': [17.483, 75.458],
+  '413306': [17.589, 75.038],
+  '413307': [17.412, 75.131],
+  '413308': [17.417, 75.049],
+  '413309': [17.327, 75.225],
+  '413310': [17.667, 75.003],
+  '413314': [17.226, 74.956],
+  '413315': [17.788, 75.225],
+  '413317': [17.557, 75.225],
+  '413319': [17.394, 75.504],
+  '413322': [17.294, 75.411],
+  '413324': [17.865, 75.469],
+  '413401': [18.194, 75.691],
+  '413402': [18.03, 75.819],
+  '413403': [18.119, 75.772],
+  '413404': [18.301, 75.877],
+  '413405': [18.354, 75.97],
+  '413406': [18.038, 75.935],
+  '413409': [18.34, 75.784],
+  '413410': [17.959, 75.644],
+  '413411': [18.128, 75.813],
+  '413412': [18.021, 75.702],
+  '413501': [18.15, 76.039],
+  '413502': [18.226, 75.504],
+  '413503': [18.522, 75.737],
+  '413504': [18.486, 75.574],
+  '413505': [18.472, 75.388],
+  '413506': [18.093, 76.202],
+  '413507': [18.522, 76.039],
+  '413508': [18.352, 76.097],
+  '413509': [18.325, 76.202],
+  '413510': [18.461, 76.155],
+  '413511': [18.474, 76.341],
+  '413512': [18.435, 76.607],
+  '413513': [18.561, 76.895],
+  '413514': [18.617, 77.033],
+  '413515': [18.75, 76.941],
+  '413516': [18.073, 76.572],
+  '413517': [18.409, 77.056],
+  '413518': [18.524, 77.033],
+  '413519': [18.244, 77.033],
+  '413520': [18.177, 76.41],
+  '413521': [18.104, 76.687],
+  '413522': [18.095, 76.895],
+  '413523': [18.74, 76.803],
+  '413524': [18.43, 76.861],
+  '413525': [18.44, 75.877],
+  '413526': [18.649, 75.726],
+  '413527': [18.577, 76.479],
+  '413528': [18.521, 76.19],
+  '413529': [18.551, 76.757],
+  '413530': [18.217, 76.814],
+  '413531': [18.345, 76.479],
+  '413532': [18.58, 77.172],
+  '413534': [18.604, 75.598],
+  '413544': [18.321, 76.803],
+  '413580': [18.189, 76.248],
+  '413581': [18.458, 76.757],
+  '413601': [17.95, 76.155],
+  '413602': [17.799, 76.317],
+  '413603': [17.768, 76.202],
+  '413604': [17.88, 76.479],
+  '413605': [17.741, 76.479],
+  '413606': [17.844, 76.618],
+  '413607': [17.946, 76.757],
+  '413608': [18.01, 76.341],
+  '413623': [17.894, 76.016],
+  '413624': [17.933, 75.923],
+  '413701': [18.629, 74.757],
+  '413702': [18.791, 74.476],
+  '413703': [18.845, 74.57],
+  '413704': [19.33, 74.699],
+  '413705': [19.419, 74.652],
+  '413706': [19.396, 74.523],
+  '413707': [19.761, 74.658],
+  '413708': [19.83, 74.581],
+  '413709': [19.643, 74.634],
+  '413710': [19.556, 74.564],
+  '413711': [19.516, 74.505],
+  '413712': [19.575, 74.517],
+  '413713': [19.55, 74.494],
+  '413714': [19.557, 74.37],
+  '413715': [19.547, 74.663],
+  '413716': [19.465, 74.652],
+  '413717': [19.564, 74.722],
+  '413718': [19.674, 74.716],
+  '413719': [19.712, 74.558],
+  '413720': [19.6, 74.605],
+  '413721': [19.522, 74.769],
+  '413722': [19.33, 74.622],
+  '413723': [19.697, 74.652],
+  '413725': [19.595, 74.816],
+  '413726': [18.607, 74.628],
+  '413728': [18.718, 74.71],
+  '413736': [19.615, 74.382],
+  '413737': [19.619, 74.558],
+  '413738': [19.477, 74.382],
+  '413739': [19.636, 74.745],
+  '413801': [18.39, 74.663],
+  '413802': [18.312, 74.546],
+  '414001': [19.096, 74.74],
+  '414002': [19.1, 74.851],
+  '414003': [19.131, 74.74],
+  '414005': [18.992, 74.663],
+  '414006': [18.953, 74.757],
+  '414101': [18.818, 74.804],
+  '414102': [19.199, 75.201],
+  '414103': [19.123, 74.57],
+  '414105': [19.42, 74.804],
+  '414106': [19.201, 74.944],
+  '414110': [19.052, 74.763],
+  '414111': [19.219, 74.617],
+  '414113': [19.155, 75.376],
+  '414201': [19.022, 74.886],
+  '414202': [18.998, 75.014],
+  '414203': [18.803, 75.178],
+  '414204': [18.832, 75.551],
+  '414205': [19.018, 75.551],
+  '414208': [18.856, 75.12],
+  '414301': [18.944, 74.511],
+  '414302': [18.968, 74.382],
+  '414303': [19.102, 74.335],
+  '414304': [19.245, 74.382],
+  '414305': [19.094, 74.241],
+  '414306': [18.926, 74.3],
+  '414401': [18.699, 75.038],
+  '414402': [18.535, 75.014],
+  '414403': [18.452, 74.851],
+  '414501': [19.297, 74.991],
+  '414502': [19.384, 75.201],
+  '414503': [19.332, 75.411],
+  '414504': [19.304, 75.493],
+  '414505': [19.275, 75.143],
+  '414601': [19.197, 74.769],
+  '414602': [19.441, 74.909],
+  '414603': [19.575, 74.991],
+  '414604': [19.444, 75.084],
+  '414605': [19.474, 75.026],
+  '414606': [19.386, 74.944],
+  '414607': [19.332, 74.851],
+  '414609': [19.493, 74.979],
+  '414701': [18.525, 74.617],
+  '415001': [17.708, 74.001],
+  '415002': [17.595, 73.959],
+  '415003': [17.7, 74.048],
+  '415004': [17.638, 74.065],
+  '415010': [17.745, 74.101],
+  '415011': [17.797, 74.042],
+  '415012': [17.813, 73.818],
+  '415013': [17.675, 73.818],
+  '415014': [17.541, 73.865],
+  '415015': [17.747, 73.995],
+  '415019': [17.596, 74.112],
+  '415020': [17.792, 73.971],
+  '415021': [17.809, 74.183],
+  '415022': [17.74, 73.901],
+  '415023': [17.711, 74.458],
+  '415101': [16.945, 73.865],
+  '415102': [17.457, 74.523],
+  '415103': [17.198, 74.018],
+  '415104': [17.192, 74.153],
+  '415105': [17.353, 74.23],
+  '415106': [17.431, 74.194],
+  '415107': [17.485, 74.159],
+  '415108': [17.215, 74.23],
+  '415109': [17.411, 74.089],
+  '415110': [17.283, 74.186],
+  '415111': [17.147, 74.101],
+  '415112': [17.224, 73.912],
+  '415114': [17.296, 74.089],
+  '415115': [17.354, 74.165],
+  '415116': [17.512, 74.206],
+  '415122': [17.236, 74.13],
+  '415124': [17.301, 74.159],
+  '415202': [17.939, 73.341],
+  '415203': [17.998, 73.3],
+  '415205': [17.353, 73.948],
+  '415206': [17.354, 73.818],
+  '415207': [17.392, 73.724],
+  '415208': [17.986, 73.159],
+  '415209': [17.32, 74.036],
+  '415211': [17.301, 73.877],
+  '415212': [17.305, 73.989],
+  '415213': [18.039, 73.306],
+  '415214': [18.025, 73.218],
+  '415301': [17.444, 74.944],
+  '415302': [17.154, 74.324],
+  '415303': [17.203, 74.37],
+  '415304': [17.315, 74.324],
+  '415305': [17.308, 74.382],
+  '415306': [17.302, 74.897],
+  '415307': [17.234, 74.769],
+  '415308': [17.387, 74.804],
+  '415309': [17.33, 74.663],
+  '415310': [17.381, 74.581],
+  '415311': [17.273, 74.523],
+  '415312': [17.456, 74.652],
+  '415313': [17.117, 74.365],
+  '415315': [17.532, 74.897],
+  '415401': [16.961, 74.206],
+  '415402': [17, 74.048],
+  '415403': [16.988, 74.253],
+  '415404': [17.12, 74.183],
+  '415405': [17.048, 74.007],
+  '415406': [17.093, 74.212],
+  '415407': [17.049, 74.159],
+  '415408': [16.964, 74.101],
+  '415409': [17.079, 74.253],
+  '415410': [17.093, 74.136],
+  '415411': [16.916, 74.294],
+  '415412': [16.917, 74.153],
+  '415413': [17.092, 74.341],
+  '415414': [17.083, 74.3],
+  '415415': [17.212, 73.771],
+  '415501': [17.706, 74.194],
+  '415502': [17.73, 74.347],
+  '415503': [17.814, 74.382],
+  '415504': [17.861, 74.253],
+  '415505': [17.676, 74.382],
+  '415506': [17.579, 74.464],
+  '415507': [17.563, 74.558],
+  '415508': [17.758, 74.546],
+  '415509': [17.706, 74.757],
+  '415510': [17.546, 74.347],
+  '415511': [17.572, 74.241],
+  '415512': [17.484, 74.288],
+  '415513': [17.852, 73.942],
+  '415514': [17.876, 73.877],
+  '415515': [17.885, 73.995],
+  '415516': [17.946, 73.965],
+  '415517': [17.979, 74.018],
+  '415518': [17.542, 74.083],
+  '415519': [17.545, 74.042],
+  '415520': [17.424, 73.971],
+  '415521': [18.004, 74.171],
+  '415522': [18.034, 74.394],
+  '415523': [17.942, 74.546],
+  '415524': [17.872, 74.112],
+  '415525': [17.914, 74.065],
+  '415526': [18.076, 74.065],
+  '415527': [17.594, 74.37],
+  '415528': [18.005, 74.324],
+  '415530': [17.847, 73.986],
+  '415536': [17.999, 73.971],
+  '415537': [17.932, 74.277],
+  '415538': [17.449, 74.429],
+  '415539': [17.206, 74.189],
+  '415540': [17.564, 74.71],
+  '415601': [17.421, 73.665],
+  '415602': [17.44, 73.618],
+  '415603': [17.488, 73.642],
+  '415604': [17.534, 73.642],
+  '415605': [17.57, 73.524],
+  '415606': [17.391, 73.571],
+  '415607': [17.305, 73.642],
+  '415608': [17.316, 73.501],
+  '415609': [17.276, 73.571],
+  '415610': [17.213, 73.642],
+  '415611': [17.189, 73.489],
+  '415612': [16.959, 73.335],
+  '415613': [17.298, 73.288],
+  '415614': [17.253, 73.235],
+  '415615': [17.143, 73.282],
+  '415616': [16.89, 73.335],
+  '415617': [17.094, 73.312],
+  '415619': [17.016, 73.477],
+  '415620': [17.177, 73.347],
+  '415621': [17.735, 73.442],
+  '415626': [16.782, 73.341],
+  '415628': [17.547, 73.42],
+  '415629': [17.053, 73.294],
+  '415634': [17.545, 73.164],
+  '415637': [17.108, 73.477],
+  '415639': [17.056, 73.406],
+  '415640': [17.835, 73.406],
+  '415641': [17.318, 73.394],
+  '415643': [16.78, 73.665],
+  '415701': [17.472, 73.475],
+  '415702': [17.452, 73.347],
+  '415703': [17.431, 73.241],
+  '415705': [17.411, 73.2],
+  '415706': [17.605, 73.2],
+  '415708': [17.631, 73.43],
+  '415709': [17.718, 73.383],
+  '415710': [17.72, 73.33],
+  '415711': [17.662, 73.265],
+  '415712': [17.715, 73.206],
+  '415713': [17.79, 73.147],
+  '415714': [17.879, 73.123],
+  '415715': [17.751, 73.63],
+  '415716': [17.829, 73.335],
+  '415717': [17.915, 73.07],
+  '415718': [17.659, 73.63],
+  '415719': [17.548, 73.265],
+  '415720': [17.692, 73.141],
+  '415722': [17.637, 73.501],
+  '415724': [17.479, 73.265],
+  '415726': [17.258, 73.359],
+  '415727': [17.625, 73.359],
+  '415728': [17.365, 73.265],
+  '415729': [17.379, 73.235],
+  '415730': [17.789, 73.536],
+  '415801': [16.994, 73.76],
+  '415802': [16.93, 73.677],
+  '415803': [16.976, 73.548],
+  '415804': [17.063, 73.63],
+  '415805': [16.613, 73.365],
+  '415806': [16.657, 73.341],
+  '415807': [16.997, 73.589],
+  '416001': [16.598, 74.101],
+  '416002': [16.7, 74.225],
+  '416003': [16.714, 74.233],
+  '416004': [16.684, 74.259],
+  '416005': [16.707, 74.259],
+  '416006': [16.741, 74.247],
+  '416007': [16.655, 74.215],
+  '416008': [16.686, 74.244],
+  '416010': [16.689, 74.177],
+  '416011': [16.642, 74.153],
+  '416012': [16.688, 74.22],
+  '416013': [16.637, 74.236],
+  '416101': [16.801, 74.511],
+  '416102': [16.74, 74.54],
+  '416103': [16.737, 74.646],
+  '416104': [16.674, 74.652],
+  '416105': [16.703, 74.658],
+  '416106': [16.653, 74.599],
+  '416107': [16.621, 74.558],
+  '416108': [16.609, 74.622],
+  '416109': [16.769, 74.394],
+  '416110': [16.833, 74.4],
+  '416111': [16.837, 74.458],
+  '416112': [16.852, 74.277],
+  '416113': [16.865, 74.224],
+  '416114': [16.865, 74.159],
+  '416115': [16.677, 74.458],
+  '416116': [16.702, 74.417],
+  '416118': [16.722, 74.37],
+  '416119': [16.693, 74.3],
+  '416120': [16.762, 74.605],
+  '416121': [16.688, 74.535],
+  '416122': [16.783, 74.277],
+  '416143': [16.657, 74.505],
+  '416144': [16.63, 74.599],
+  '416146': [16.725, 74.494],
+  '416201': [16.818, 74.136],
+  '416202': [16.657, 74.353],
+  '416203': [16.628, 74.423],
+  '416204': [16.696, 74.118],
+  '416205': [16.727, 74.007],
+  '416206': [16.583, 73.912],
+  '416207': [16.547, 74.183],
+  '416208': [16.473, 74.112],
+  '416209': [16.281, 74.147],
+  '416210': [16.179, 74.007],
+  '416211': [16.495, 73.959],
+  '416212': [16.391, 73.948],
+  '416213': [16.869, 74.054],
+  '416214': [17.125, 73.818],
+  '416215': [16.847, 73.924],
+  '416216': [16.556, 74.3],
+  '416218': [16.325, 74.277],
+  '416219': [16.411, 74.206],
+  '416220': [16.242, 74.241],
+  '416221': [16.501, 74.183],
+  '416223': [16.316, 74.007],
+  '416229': [16.776, 74.183],
+  '416230': [16.787, 74.042],
+  '416231': [16.376, 74.042],
+  '416232': [16.546, 74.247],
+  '416234': [16.64, 74.282],
+  '416235': [16.417, 74.277],
+  '416236': [16.612, 74.365],
+  '416301': [16.944, 74.429],
+  '416302': [16.903, 74.347],
+  '416303': [16.983, 74.488],
+  '416304': [16.944, 74.581],
+  '416305': [16.907, 74.514],
+  '416306': [16.95, 74.652],
+  '416307': [16.988, 74.622],
+  '416308': [17.048, 74.441],
+  '416309': [17.14, 74.441],
+  '416310': [17.098, 74.488],
+  '416311': [17.157, 74.804],
+  '416312': [17.047, 74.57],
+  '416313': [17.02, 74.37],
+  '416314': [17.178, 74.628],
+  '416315': [16.87, 74.435],
+  '416316': [16.995, 74.423],
+  '416401': [16.789, 74.804],
+  '416402': [16.951, 75.131],
+  '416403': [17.128, 75.038],
+  '416404': [17.072, 75.201],
+  '416405': [17.038, 74.909],
+  '416406': [16.893, 74.587],
+  '416407': [16.891, 74.792],
+  '416408': [17.058, 74.71],
+  '416409': [16.748, 74.722],
+  '416410': [16.828, 74.71],
+  '416411': [16.971, 74.933],
+  '416412': [17.025, 75.504],
+  '416413': [17.212, 75.551],
+  '416414': [16.863, 74.614],
+  '416415': [16.845, 74.602],
+  '416416': [16.872, 74.535],
+  '416417': [16.884, 74.47],
+  '416418': [16.888, 74.897],
+  '416419': [16.973, 74.804],
+  '416420': [16.934, 74.745],
+  '416436': [16.885, 74.634],
+  '416437': [16.841, 74.673],
+  '416501': [16.265, 74.394],
+  '416502': [16.193, 74.347],
+  '416503': [16.123, 74.324],
+  '416504': [16.051, 74.277],
+  '416505': [16.098, 74.147],
+  '416506': [16.165, 74.429],
+  '416507': [15.835, 74.288],
+  '416508': [15.991, 74.394],
+  '416509': [15.916, 74.147],
+  '416510': [15.891, 73.818],
+  '416511': [15.81, 73.959],
+  '416512': [15.681, 74.054],
+  '416513': [15.742, 73.73],
+  '416514': [15.8, 73.818],
+  '416515': [15.864, 73.695],
+  '416516': [15.89, 73.665],
+  '416517': [15.746, 73.674],
+  '416518': [15.801, 73.689],
+  '416519': [16.021, 73.877],
+  '416520': [16.02, 73.724],
+  '416521': [16.127, 73.783],
+  '416522': [15.951, 73.571],
+  '416523': [15.987, 73.518],
+  '416524': [16.004, 73.589],
+  '416525': [16.223, 73.548],
+  '416526': [16.184, 74.294],
+  '416527': [15.828, 74.194],
+  '416528': [15.997, 73.648],
+  '416529': [15.867, 73.73],
+  '416531': [16.005, 73.971],
+  '416534': [16.118, 73.665],
+  '416549': [15.754, 74.048],
+  '416550': [16.001, 73.924],
+  '416551': [16.217, 74.435],
+  '416552': [15.889, 74.253],
+  '416601': [16.389, 73.771],
+  '416602': [16.29, 73.677],
+  '416603': [16.162, 73.642],
+  '416604': [16.09, 73.595],
+  '416605': [16.042, 73.571],
+  '416606': [16.082, 73.501],
+  '416608': [16.177, 73.548],
+  '416609': [16.268, 73.83],
+  '416610': [16.374, 73.583],
+  '416611': [16.366, 73.489],
+  '416612': [16.35, 73.43],
+  '416613': [16.375, 73.389],
+  '416614': [16.24, 73.477],
+  '416615': [16.298, 73.412],
+  '416616': [16.228, 73.618],
+  '416620': [16.196, 73.783],
+  '416623': [16.427, 73.459],
+  '416626': [16.176, 73.459],
+  '416628': [16.146, 73.736],
+  '416630': [16.259, 73.43],
+  '416632': [16.168, 73.865],
+  '416701': [16.831, 73.583],
+  '416702': [16.574, 73.512],
+  '416703': [16.552, 73.665],
+  '416704': [16.705, 73.724],
+  '416705': [16.727, 73.571],
+  '416707': [16.73, 73.335],
+  '416709': [16.529, 73.383],
+  '416712': [16.815, 73.394],
+  '416713': [16.74, 73.453],
+  '416801': [16.469, 73.63],
+  '416803': [16.474, 73.483],
+  '416804': [16.462, 73.406],
+  '416805': [16.415, 73.383],
+  '416806': [16.52, 73.341],
+  '416807': [16.504, 73.391],
+  '416810': [16.526, 73.771],
+  '416811': [16.497, 73.548],
+  '416812': [16.081, 73.695],
+  '421002': [19.23, 73.162],
+  '421004': [19.213, 73.162],
+  '421005': [19.195, 73.162],
+  '421101': [19.362, 73.188],
+  '421102': [19.27, 73.188],
+  '421103': [19.253, 73.162],
+  '421201': [19.212, 73.091],
+  '421202': [19.222, 73.079],
+  '421203': [19.193, 73.105],
+  '421204': [19.141, 73.1],
+  '421301': [19.253, 73.129],
+  '421302': [19.356, 73.064],
+  '421303': [19.671, 73.229],
+  '421305': [19.281, 73.156],
+  '421306': [19.168, 73.147],
+  '421308': [19.27, 73.07],
+  '421311': [19.261, 73.094],
+  '421312': [19.54, 73.064],
+  '421401': [19.257, 73.489],
+  '421402': [19.27, 73.63],
+  '421403': [19.362, 73.501],
+  '421501': [19.201, 73.188],
+  '421502': [19.237, 73.212],
+  '421503': [19.148, 73.3],
+  '421505': [19.204, 73.223],
+  '421506': [19.172, 73.194],
+  '421601': [19.404, 73.324],
+  '421602': [19.606, 73.512],
+  '421603': [19.513, 73.383],
+  '421605': [19.313, 73.218],
+  '422001': [19.999, 73.792],
+  '422002': [19.996, 73.779],
+  '422003': [20.111, 73.724],
+  '422004': [20.109, 73.83],
+  '422005': [20.005, 73.765],
+  '422006': [20.001, 73.848],
+  '422007': [19.985, 73.736],
+  '422008': [19.984, 73.762],
+  '422009': [19.98, 73.78],
+  '422010': [19.938, 73.736],
+  '422011': [19.994, 73.81],
+  '422012': [19.987, 73.717],
+  '422013': [20.011, 73.739],
+  '422101': [19.971, 73.834],
+  '422102': [19.912, 73.948],
+  '422103': [19.742, 73.983],
+  '422104': [19.834, 74.241],
+  '422105': [19.972, 73.907],
+  '422112': [19.855, 74.089],
+  '422113': [19.862, 73.977],
+  '422201': [20.027, 73.948],
+  '422202': [20.3, 73.771],
+  '422203': [20.102, 73.63],
+  '422204': [20.125, 73.394],
+  '422205': [20.259, 73.948],
+  '422206': [20.086, 73.927],
+  '422207': [20.09, 73.877],
+  '422208': [20.354, 73.607],
+  '422209': [20.183, 74.007],
+  '422210': [19.961, 74.101],
+  '422211': [20.509, 73.536],
+  '422212': [19.975, 73.512],
+  '422213': [19.963, 73.63],
+  '422214': [19.944, 73.86],
+  '422215': [20.355, 73.865],
+  '422221': [20.122, 73.907],
+  '422222': [20.009, 73.683],
+  '422301': [20.106, 74.042],
+  '422302': [20.076, 73.971],
+  '422303': [20.068, 74.136],
+  '422304': [20.163, 74.159],
+  '422305': [20.066, 74.241],
+  '422306': [20.159, 74.241],
+  '422308': [20.179, 74.089],
+  '422401': [19.899, 73.807],
+  '422402': [19.769, 73.536],
+  '422403': [19.741, 73.724],
+  '422501': [19.949, 73.789],
+  '422502': [19.842, 73.818],
+  '422601': [19.624, 73.959],
+  '422602': [19.267, 74.101],
+  '422603': [19.51, 74.112],
+  '422604': [19.539, 73.795],
+  '422605': [19.553, 74.194],
+  '422606': [19.729, 74.101],
+  '422608': [19.656, 74.183],
+  '422610': [19.397, 74.007],
+  '422611': [19.7, 74.288],
+  '422620': [19.355, 74.183],
+  '422622': [19.376, 74.288],
+  '423101': [20.298, 74.241],
+  '423102': [20.432, 74.194],
+  '423104': [20.247, 74.453],
+  '423105': [20.568, 74.663],
+  '423106': [20.264, 74.64],
+  '423107': [19.67, 74.476],
+  '423108': [20.643, 74.347],
+  '423109': [19.799, 74.488],
+  '423110': [20.391, 74.37],
+  '423111': [20.244, 74.042],
+  '423117': [20.331, 74.101],
+  '423201': [20.536, 74.441],
+  '423202': [20.58, 74.417],
+  '423203': [20.547, 74.558],
+  '423204': [20.719, 74.288],
+  '423205': [20.703, 74.617],
+  '423206': [20.711, 74.453],
+  '423208': [20.454, 74.429],
+  '423212': [20.42, 74.57],
+  '423213': [20.549, 74.324],
+  '423301': [20.592, 74.171],
+  '423302': [20.769, 74.077],
+  '423303': [20.807, 74.241],
+  '423401': [20.083, 74.429],
+  '423402': [20.007, 74.617],
+  '423403': [20.1, 74.617],
+  '423501': [20.507, 74.007],
+  '423502': [20.49, 73.818],
+  '423601': [19.91, 74.441],
+  '423602': [19.904, 74.37],
+  '423603': [19.914, 74.617],
+  '423604': [19.921, 74.3],
+  '423605': [19.754, 74.382],
+  '423607': [19.963, 74.318],
+  '423701': [19.901, 74.734],
+  '423702': [19.854, 74.991],
+  '423703': [19.985, 74.897],
+  '424001': [20.907, 74.789],
+  '424002': [20.986, 74.663],
+  '424004': [20.89, 74.789],
+  '424005': [20.94, 74.792],
+  '424006': [20.804, 74.71],
+  '424101': [20.415, 75.038],
+  '424102': [20.502, 75.096],
+  '424103': [20.609, 75.131],
+  '424104': [20.521, 75.178],
+  '424105': [20.711, 75.225],
+  '424106': [20.593, 74.944],
+  '424107': [20.694, 75.038],
+  '424108': [20.403, 74.897],
+  '424109': [20.302, 74.804],
+  '424201': [20.626, 75.318],
+  '424202': [20.65, 75.469],
+  '424203': [20.583, 75.493],
+  '424204': [20.637, 75.586],
+  '424205': [20.704, 75.691],
+  '424206': [20.852, 75.784],
+  '424207': [20.665, 75.784],
+  '424208': [20.677, 75.923],
+  '424301': [20.868, 74.897],
+  '424302': [20.876, 74.476],
+  '424303': [20.96, 74.511],
+  '424304': [21.056, 74.171],
+  '424305': [21.145, 74.382],
+  '424306': [20.929, 74.054],
+  '424307': [21.049, 74.722],
+  '424308': [20.724, 74.851],
+  '424309': [21.092, 74.804],
+  '424310': [20.905, 74.288],
+  '424311': [20.813, 74.804],
+  '424318': [20.971, 74.886],
+  '425001': [21.012, 75.545],
+  '425002': [21.065, 75.551],
+  '425003': [20.789, 75.598],
+  '425101': [21.04, 75.603],
+  '425102': [21.086, 75.656],
+  '425103': [21.01, 75.458],
+  '425104': [21.059, 75.353],
+  '425105': [21.04, 75.271],
+  '425107': [21.218, 75.178],
+  '425108': [21.32, 75.271],
+  '425109': [20.905, 75.318],
+  '425110': [20.799, 75.306],
+  '425111': [20.842, 75.131],
+  '425112': [21.302, 75.598],
+  '425113': [20.88, 75.038],
+  '425114': [20.837, 75.673],
+  '425115': [20.777, 75.458],
+  '425116': [20.875, 75.504],
+  '425201': [21.047, 75.749],
+  '425203': [21.055, 75.804],
+  '425301': [21.136, 75.702],
+  '425302': [21.162, 75.598],
+  '425303': [21.29, 75.458],
+  '425304': [21.233, 75.749],
+  '425305': [21.037, 75.911],
+  '425306': [21.112, 76.109],
+  '425307': [20.953, 75.877],
+  '425308': [21.024, 76.028],
+  '425309': [20.988, 75.737],
+  '425310': [20.914, 75.97],
+  '425311': [20.977, 76.306],
+  '425327': [21.038, 76.341],
+  '425401': [21.062, 74.991],
+  '425402': [21.17, 75.026],
+  '425403': [21.191, 74.938],
+  '425404': [21.235, 74.851],
+  '425405': [21.413, 75.014],
+  '425406': [21.273, 74.757],
+  '425407': [21.172, 74.663],
+  '425408': [21.302, 74.57],
+  '425409': [21.572, 74.476],
+  '425410': [21.45, 74.535],
+  '425411': [21.331, 74.382],
+  '425412': [21.364, 74.241],
+  '425413': [21.638, 74.194],
+  '425414': [21.798, 74.171],
+  '425415': [21.619, 74.007],
+  '425416': [21.3, 74.054],
+  '425417': [21.24, 73.912],
+  '425418': [21.138, 73.818],
+  '425419': [21.559, 73.865],
+  '425420': [21.121, 75.131],
+  '425421': [21.252, 75.038],
+  '425422': [21.527, 74.37],
+  '425423': [21.497, 74.663],
+  '425424': [21.591, 74.558],
+  '425426': [21.166, 73.995],
+  '425427': [21.413, 74.757],
+  '425428': [21.565, 74.897],
+  '425432': [21.825, 74.453],
+  '425442': [21.693, 74.288],
+  '425444': [21.59, 74.663],
+  '425452': [21.754, 73.959],
+  '425501': [21.093, 75.877],
+  '425502': [21.133, 75.935],
+  '425503': [21.146, 75.819],
+  '425504': [21.222, 75.888],
+  '425505': [21.33, 75.923],
+  '425506': [21.177, 75.975],
+  '425507': [21.189, 76.051],
+  '425508': [21.295, 76.062],
+  '425524': [21.239, 75.819],
+  '431001': [19.876, 75.339],
+  '431002': [19.921, 75.177],
+  '431003': [19.903, 75.353],
+  '431004': [19.9, 75.324],
+  '431005': [19.854, 75.335],
+  '431006': [19.893, 75.382],
+  '431007': [19.872, 75.481],
+  '431008': [19.979, 75.365],
+  '431009': [19.864, 75.356],
+  '431010': [19.849, 75.309],
+  '431101': [20.013, 75.225],
+  '431102': [20.098, 75.131],
+  '431103': [20.212, 75.108],
+  '431104': [20.313, 75.33],
+  '431105': [19.671, 75.295],
+  '431106': [19.503, 76.56],
+  '431107': [19.521, 75.458],
+  '431109': [19.707, 74.897],
+  '431110': [19.672, 75.038],
+  '431111': [20.058, 75.481],
+  '431112': [20.425, 75.691],
+  '431113': [20.409, 75.504],
+  '431114': [20.267, 75.76],
+  '431115': [20.044, 75.038],
+  '431116': [20.095, 74.827],
+  '431117': [20.518, 75.691],
+  '431118': [20.56, 75.772],
+  '431120': [20.557, 75.598],
+  '431121': [19.694, 75.574],
+  '431122': [18.972, 75.853],
+  '431123': [18.707, 76.039],
+  '431124': [18.875, 76.109],
+  '431125': [18.85, 75.784],
+  '431126': [18.708, 75.737],
+  '431127': [19.315, 75.784],
+  '431128': [19.007, 76.317],
+  '431129': [19.194, 76.016],
+  '431130': [19.25, 75.551],
+  '431131': [19.165, 76.248],
+  '431132': [20.487, 75.877],
+  '431133': [19.73, 75.178],
+  '431134': [20.091, 75.598],
+  '431135': [20.231, 75.598],
+  '431136': [19.821, 75.283],
+  '431137': [19.436, 75.551],
+  '431142': [19.217, 76.167],
+  '431143': [19.168, 75.691],
+  '431144': [18.965, 76.062],
+  '431147': [20.393, 75.318],
+  '431148': [19.551, 75.4],
+  '431150': [20.486, 75.318],
+  '431151': [20.219, 75.458],
+  '431202': [19.916, 75.737],
+  '431203': [19.89, 75.842],
+  '431204': [19.623, 75.853],
+  '431205': [19.501, 75.784],
+  '431206': [20.211, 75.923],
+  '431207': [19.638, 76.039],
+  '431208': [20.096, 75.946],
+  '431209': [19.473, 76.016],
+  '431211': [19.38, 76.016],
+  '431212': [19.416, 75.877],
+  '431213': [19.824, 76.039],
+  '431401': [19.279, 76.763],
+  '431402': [19.141, 76.872],
+  '431501': [19.534, 76.202],
+  '431502': [19.498, 76.341],
+  '431503': [19.462, 76.479],
+  '431504': [19.76, 76.41],
+  '431505': [19.322, 76.479],
+  '431506': [19.312, 76.341],
+  '431507': [19.348, 76.202],
+  '431508': [19.479, 76.711],
+  '431509': [19.594, 76.687],
+  '431510': [19.752, 76.618],
+  '431511': [19.223, 77.033],
+  '431512': [19.323, 77.126],
+  '431513': [19.722, 77.149],
+  '431514': [18.942, 76.687],
+  '431515': [18.817, 76.572],
+  '431516': [19.046, 76.526],
+  '431517': [18.735, 76.41],
+  '431518': [18.65, 76.202],
+  '431519': [18.677, 76.572],
+  '431520': [18.844, 76.468],
+  '431521': [19.106, 76.711],
+  '431522': [18.591, 76.664],
+  '431523': [18.628, 76.375],
+  '431530': [18.9, 76.433],
+  '431536': [18.883, 76.849],
+  '431537': [19.333, 76.618],
+  '431540': [19.393, 76.803],
+  '431541': [19.139, 76.526],
+  '431542': [19.788, 76.78],
+  '431601': [19.168, 77.327],
+  '431602': [19.186, 77.172],
+  '431603': [19.106, 77.355],
+  '431604': [19.147, 77.324],
+  '431605': [19.207, 77.298],
+  '431606': [19.087, 77.252],
+  '431701': [19.454, 77.332],
+  '431702': [19.663, 77.309],
+  '431703': [19.877, 77.033],
+  '431704': [19.342, 77.401],
+  '431705': [19.528, 77.056],
+  '431707': [18.962, 77.309],
+  '431708': [18.974, 77.149],
+  '431709': [18.885, 77.539],
+  '431710': [18.801, 77.677],
+  '431711': [18.807, 77.768],
+  '431712': [19.495, 77.585],
+  '431713': [19.358, 77.631],
+  '431714': [18.819, 77.264],
+  '431715': [18.614, 77.332],
+  '431716': [18.665, 77.229],
+  '431717': [18.558, 77.539],
+  '431718': [18.462, 77.493],
+  '431719': [18.463, 77.344],
+  '431720': [19.033, 76.987],
+  '431721': [19.805, 77.997],
+  '431722': [18.788, 77.493],
+  '431723': [18.614, 77.677],
+  '431731': [18.71, 77.722],
+  '431736': [18.701, 77.585],
+  '431741': [18.365, 77.447],
+  '431742': [18.766, 77.172],
+  '431743': [19.586, 77.539],
+  '431745': [19.202, 77.401],
+  '431746': [18.872, 77.355],
+  '431750': [19.297, 77.252],
+  '431801': [19.199, 77.699],
+  '431802': [19.399, 77.882],
+  '431803': [19.339, 78.042],
+  '431804': [19.679, 78.225],
+  '431805': [19.82, 78.225],
+  '431806': [19.165, 77.539],
+  '431807': [19.006, 77.608],
+  '431808': [18.933, 77.734],
+  '431809': [18.903, 77.814],
+  '431810': [19.489, 78.179],
+  '431811': [19.551, 78.236],
+  '440001': [21.158, 79.067],
+  '440002': [21.164, 79.115],
+  '440003': [21.13, 79.09],
+  '440005': [21.081, 79.056],
+  '440006': [21.163, 79.05],
+  '440007': [21.162, 79.028],
+  '440008': [21.151, 79.129],
+  '440010': [21.137, 79.059],
+  '440012': [21.142, 79.084],
+  '440013': [21.181, 79.014],
+  '440014': [21.178, 79.09],
+  '440015': [21.112, 79.073],
+  '440016': [21.109, 78.991],
+  '440017': [21.171, 79.113],
+  '440018': [21.148, 79.096],
+  '440019': [21.087, 79.014],
+  '440020': [21.123, 79.067],
+  '440021': [21.155, 79.038],
+  '440022': [21.116, 79.045],
+  '440023': [21.133, 78.906],
+  '440024': [21.129, 79.115],
+  '440025': [21.1, 79.067],
+  '440026': [21.211, 79.104],
+  '440027': [21.104, 79.093],
+  '440030': [21.182, 79.073],
+  '440032': [21.142, 79.111],
+  '440033': [21.139, 79.039],
+  '440034': [21.098, 79.129],
+  '440035': [21.145, 79.172],
+  '440036': [21.103, 79.028],
+  '440037': [21.088, 79.082],
+  '441001': [21.231, 79.144],
+  '441101': [21.434, 79.008],
+  '441102': [21.265, 79.493],
+  '441103': [21.118, 78.68],
+  '441104': [21.115, 79.358],
+  '441105': [21.339, 79.177],
+  '441106': [21.373, 79.335],
+  '441107': [21.368, 78.906],
+  '441108': [20.885, 79.065],
+  '441109': [21.294, 79.115],
+  '441110': [21.074, 78.895],
+  '441111': [21.256, 79.081],
+  '441112': [21.459, 78.861],
+  '441113': [21.33, 79.042],
+  '441122': [20.942, 78.861],
+  '441123': [21.216, 79.065],
+  '441201': [20.791, 79.448],
+  '441202': [21.063, 79.459],
+  '441203': [20.83, 79.313],
+  '441204': [20.99, 79.245],
+  '441205': [20.614, 79.628],
+  '441206': [20.558, 79.874],
+  '441207': [20.591, 80.031],
+  '441208': [20.447, 79.986],
+  '441209': [20.588, 80.41],
+  '441210': [20.938, 79.538],
+  '441212': [20.193, 79.673],
+  '441214': [20.636, 79.223],
+  '441215': [20.27, 79.785],
+  '441217': [20.457, 80.165],
+  '441221': [20.453, 79.695],
+  '441222': [20.16, 79.515],
+  '441223': [20.279, 79.538],
+  '441224': [19.999, 79.583],
+  '441225': [20.062, 79.852],
+  '441226': [19.913, 79.718],
+  '441301': [21.331, 78.361],
+  '441302': [21.256, 78.634],
+  '441303': [21.444, 78.464],
+  '441304': [21.438, 78.543],
+  '441305': [21.294, 78.498],
+  '441306': [21.403, 78.725],
+  '441401': [21.555, 79.245],
+  '441404': [21.26, 79.234],
+  '441501': [21.23, 78.951],
+  '441502': [21.315, 78.816],
+  '441601': [21.5, 80.254],
+  '441614': [21.517, 80.143],
+  '441701': [20.779, 80.031],
+  '441702': [20.861, 80.232],
+  '441801': [21.301, 80.076],
+  '441802': [21.154, 79.986],
+  '441803': [20.721, 79.852],
+  '441804': [21.099, 79.852],
+  '441805': [20.868, 79.942],
+  '441806': [21.02, 80.121],
+  '441807': [21.15, 80.321],
+  '441809': [21.007, 79.897],
+  '441901': [20.872, 80.41],
+  '441902': [21.316, 80.344],
+  '441903': [20.949, 79.718],
+  '441904': [21.169, 79.661],
+  '441905': [21.212, 79.785],
+  '441906': [21.129, 79.583],
+  '441907': [21.515, 79.718],
+  '441908': [20.81, 79.762],
+  '441909': [21.273, 79.628],
+  '441910': [20.755, 79.628],
+  '441911': [21.337, 79.897],
+  '441912': [21.42, 79.718],
+  '441913': [21.337, 79.706],
+  '441914': [21.409, 79.538],
+  '441915': [21.476, 79.852],
+  '441916': [21.279, 80.522],
+  '441924': [21.088, 79.673],
+  '442001': [20.733, 78.543],
+  '442003': [20.722, 78.64],
+  '442101': [20.589, 78.498],
+  '442102': [20.679, 78.793],
+  '442104': [20.861, 78.702],
+  '442105': [20.768, 78.895],
+  '442106': [20.968, 78.543],
+  '442111': [20.82, 78.623],
+  '442201': [21.018, 78.248],
+  '442202': [21.271, 78.179],
+  '442203': [21.125, 78.43],
+  '442301': [20.497, 78.884],
+  '442302': [20.768, 78.361],
+  '442303': [20.714, 78.344],
+  '442304': [20.507, 78.68],
+  '442305': [20.625, 79.042],
+  '442306': [20.624, 78.316],
+  '442307': [20.372, 78.77],
+  '442401': [19.973, 79.299],
+  '442402': [19.993, 79.279],
+  '442403': [19.904, 79.369],
+  '442404': [20.08, 79.358],
+  '442406': [19.977, 79.223],
+  '442501': [20.163, 79.177],
+  '442502': [19.97, 79.306],
+  '442503': [20.142, 79.031],
+  '442504': [18.878, 80.143],
+  '442505': [19.939, 79.166],
+  '442507': [19.894, 79.296],
+  '442603': [19.829, 79.897],
+  '442604': [19.918, 80.232],
+  '442605': [20.191, 80.053],
+  '442606': [20.305, 80.41],
+  '442701': [19.853, 79.493],
+  '442702': [19.695, 79.605],
+  '442703': [19.626, 80.053],
+  '442704': [19.605, 80.544],
+  '442705': [19.547, 79.897],
+  '442707': [19.777, 79.807],
+  '442709': [19.21, 80.188],
+  '442710': [19.363, 80.41],
+  '442901': [19.864, 79.344],
+  '442902': [20.056, 79.166],
+  '442903': [20.525, 79.335],
+  '442904': [20.417, 79.493],
+  '442905': [19.679, 79.335],
+  '442906': [20.309, 79.268],
+  '442907': [20.309, 78.884],
+  '442908': [19.668, 79.155],
+  '442914': [20.345, 79.087],
+  '442916': [19.729, 78.997],
+  '442917': [19.846, 79.189],
+  '443001': [20.484, 76.132],
+  '443101': [20.832, 76.109],
+  '443102': [20.739, 76.109],
+  '443103': [20.678, 76.225],
+  '443104': [20.642, 76.062],
+  '443106': [20.358, 76.016],
+  '443112': [20.937, 76.248],
+  '443201': [20.312, 76.317],
+  '443202': [20.108, 76.387],
+  '443203': [19.953, 76.202],
+  '443204': [19.989, 76.062],
+  '443206': [20.09, 76.155],
+  '443301': [20.147, 76.595],
+  '443302': [19.979, 76.526],
+  '443303': [20.277, 76.757],
+  '443304': [20.41, 76.664],
+  '443308': [20.054, 76.294],
+  '443401': [20.912, 76.375],
+  '443402': [21.284, 76.78],
+  '443403': [20.999, 76.433],
+  '443404': [20.859, 76.433],
+  '444001': [20.7, 77.016],
+  '444002': [20.709, 76.982],
+  '444003': [20.819, 77.126],
+  '444004': [20.674, 77.019],
+  '444005': [20.725, 77.039],
+  '444006': [20.809, 76.987],
+  '444101': [21.118, 77.056],
+  '444102': [20.686, 77.218],
+  '444103': [21.125, 76.849],
+  '444104': [20.675, 77.079],
+  '444105': [20.497, 77.516],
+  '444106': [20.753, 77.493],
+  '444107': [20.696, 77.355],
+  '444108': [20.942, 76.895],
+  '444109': [20.751, 76.849],
+  '444110': [20.612, 77.493],
+  '444111': [20.897, 77.068],
+  '444117': [21.03, 76.976],
+  '444126': [21.122, 76.953],
+  '444201': [20.974, 76.711],
+  '444202': [21.03, 76.676],
+  '444203': [20.787, 76.711],
+  '444204': [21.114, 76.711],
+  '444301': [20.395, 76.479],
+  '444302': [20.661, 76.895],
+  '444303': [20.614, 76.595],
+  '444304': [20.87, 76.572],
+  '444306': [20.718, 76.433],
+  '444311': [20.841, 76.803],
+  '444312': [20.783, 76.514],
+  '444401': [20.535, 77.079],
+  '444402': [20.361, 77.264],
+  '444403': [20.303, 77.424],
+  '444404': [20.151, 77.585],
+  '444405': [20.498, 77.218],
+  '444407': [20.561, 77.275],
+  '444409': [20.143, 77.321],
+  '444501': [20.517, 76.849],
+  '444502': [20.598, 76.838],
+  '444503': [20.294, 76.987],
+  '444504': [20.143, 76.849],
+  '444505': [20.189, 77.149],
+  '444506': [19.996, 76.757],
+  '444507': [20.034, 77.264],
+  '444510': [20.06, 76.987],
+  '444511': [20.377, 76.849],
+  '444601': [20.942, 77.751],
+  '444602': [20.904, 77.631],
+  '444603': [20.947, 77.782],
+  '444604': [20.957, 77.765],
+  '444605': [20.91, 77.765],
+  '444606': [20.928, 77.765],
+  '444607': [20.876, 77.734],
+  '444701': [20.791, 77.699],
+  '444702': [21.604, 76.987],
+  '444704': [21.192, 77.722],
+  '444705': [21.071, 77.355],
+  '444706': [20.967, 77.218],
+  '444707': [21.197, 77.962],
+  '444708': [20.639, 77.86],
+  '444709': [20.824, 78.156],
+  '444710': [20.702, 78.088],
+  '444711': [20.796, 78.259],
+  '444717': [21.312, 77.149],
+  '444719': [21.453, 76.849],
+  '444720': [21.348, 77.78],
+  '444723': [21.266, 77.619],
+  '444801': [21.044, 77.631],
+  '444802': [20.929, 77.505],
+  '444803': [20.991, 77.39],
+  '444804': [21.097, 77.55],
+  '444805': [21.306, 77.528],
+  '444806': [21.175, 77.493],
+  '444807': [21.438, 77.264],
+  '444808': [21.261, 77.401],
+  '444809': [21.356, 77.573],
+  '444810': [21.318, 77.688],
+  '444813': [21.6, 77.241],
+  '444901': [21.061, 77.86],
+  '444902': [20.999, 77.974],
+  '444903': [21.121, 78.042],
+  '444904': [20.836, 77.997],
+  '444905': [21.302, 77.951],
+  '444906': [21.422, 78.316],
+  '444907': [21.55, 78.305],
+  '444908': [21.409, 78.134],
+  '445001': [20.467, 78.088],
+  '445002': [20.333, 78.179],
+  '445101': [20.564, 78.134],
+  '445102': [20.505, 77.951],
+  '445103': [20.039, 77.997],
+  '445105': [20.179, 77.997],
+  '445106': [19.954, 78.134],
+  '445109': [20.189, 78.134],
+  '445110': [20.264, 77.86],
+  '445201': [20.404, 77.86],
+  '445202': [20.345, 77.677],
+  '445203': [20.142, 77.791],
+  '445204': [19.963, 77.585],
+  '445205': [19.789, 77.768],
+  '445206': [19.598, 77.722],
+  '445207': [19.592, 77.974],
+  '445209': [19.77, 77.493],
+  '445210': [20.499, 77.711],
+  '445211': [19.692, 77.55],
+  '445215': [19.86, 77.447],
+  '445216': [19.907, 77.576],
+  '445230': [19.702, 77.86],
+  '445301': [20.104, 78.27],
+  '445302': [19.998, 78.43],
+  '445303': [20.109, 78.702],
+  '445304': [20.033, 78.974],
+  '445305': [19.927, 78.793],
+  '445306': [19.964, 78.27],
+  '445307': [19.872, 79.042],
+  '445308': [20.225, 78.68],
+  '445323': [20.21, 78.452],
+  '445401': [20.461, 78.339],
+  '445402': [20.379, 78.521],
+  '450001': [21.836, 76.387],
+  '450051': [21.83, 76.595],
+  '450110': [21.591, 76.676],
+  '450112': [22.11, 76.595],
+  '450114': [22.311, 76.479],
+  '450116': [22.125, 76.78],
+  '450117': [21.809, 76.918],
+  '450119': [22.183, 76.491],
+  '450221': [21.516, 76.479],
+  '450331': [21.425, 76.225],
+  '450332': [21.442, 76.711],
+  '450337': [21.652, 76.283],
+  '450445': [21.153, 76.317],
+  '450551': [22.104, 76.248],
+  '450554': [22.228, 76.126],
+  '450661': [21.676, 76.155],
+  '450771': [21.82, 76.202],
+  '450881': [21.635, 76.503],
+  '450991': [21.984, 76.479],
+  '451001': [21.929, 75.574],
+  '451111': [22.135, 76.062],
+  '451113': [22.055, 75.946],
+  '451115': [22.343, 76.039],
+  '451220': [22.348, 75.83],
+  '451221': [22.242, 75.691],
+  '451224': [22.281, 75.598],
+  '451225': [22.208, 75.83],
+  '451228': [22.094, 75.598],
+  '451331': [21.876, 76.039],
+  '451332': [21.664, 76.016],
+  '451335': [21.967, 75.737],
+  '451440': [21.802, 75.458],
+  '451441': [21.53, 75.807],
+  '451442': [21.789, 75.318],
+  '451447': [21.853, 74.991],
+  '451449': [21.828, 75.225],
+  '451551': [21.954, 74.827],
+  '451556': [22.047, 75.084],
+  '451660': [22.073, 75.365],
+  '451666': [21.531, 75.295],
+  '451770': [21.691, 74.757],
+  '451881': [21.75, 74.64],
+  '452001': [22.708, 75.882],
+  '452002': [22.713, 75.839],
+  '452003': [22.763, 75.848],
+  '452005': [22.749, 75.813],
+  '452006': [22.711, 75.816],
+  '452007': [22.715, 75.862],
+  '452009': [22.69, 75.845],
+  '452010': [22.757, 75.906],
+  '452011': [22.746, 75.885],
+  '452012': [22.657, 75.836],
+  '452013': [22.683, 75.795],
+  '452014': [22.692, 75.862],
+  '452015': [22.743, 75.85],
+  '452016': [22.738, 76.016],
+  '452018': [22.723, 75.898],
+  '452020': [22.598, 76.016],
+  '453001': [22.7, 75.598],
+  '453111': [22.857, 75.784],
+  '453112': [22.749, 75.749],
+  '453115': [22.835, 75.551],
+  '453220': [22.975, 75.551],
+  '453331': [22.607, 75.789],
+  '453332': [22.655, 75.749],
+  '453441': [22.484, 75.784],
+  '453446': [22.594, 75.842],
+  '453551': [22.946, 75.737],
+  '453555': [22.806, 75.865],
+  '453556': [22.626, 75.791],
+  '453661': [22.467, 75.598],
+  '453771': [22.916, 75.923],
+  '454001': [22.649, 75.295],
+  '454010': [22.408, 75.458],
+  '454111': [22.694, 75.038],
+  '454116': [22.63, 74.851],
+  '454221': [22.418, 74.827],
+  '454331': [22.224, 74.734],
+  '454335': [22.119, 74.851],
+  '454441': [22.538, 75.108],
+  '454446': [22.25, 75.014],
+  '454449': [22.268, 75.201],
+  '454552': [22.221, 75.458],
+  '454660': [23.012, 75.201],
+  '454665': [22.851, 75.225],
+  '454773': [22.653, 75.469],
+  '454774': [22.602, 75.551],
+  '454775': [22.62, 75.685],
+  '455001': [23.089, 76.039],
+  '455111': [22.882, 76.062],
+  '455115': [22.987, 76.202],
+  '455116': [23.135, 76.294],
+  '455118': [23.004, 76.387],
+  '455221': [22.75, 76.155],
+  '455223': [22.834, 76.317],
+  '455227': [22.546, 76.225],
+  '455332': [22.679, 76.687],
+  '455336': [22.601, 76.872],
+  '455339': [22.544, 77.033],
+  '455440': [22.57, 76.503],
+  '455459': [22.492, 76.687],
+  '456001': [23.179, 75.769],
+  '456003': [23.28, 75.702],
+  '456006': [23.132, 75.737],
+  '456010': [23.167, 75.801],
+  '456221': [23.394, 75.551],
+  '456222': [23.115, 75.551],
+  '456224': [23.486, 75.295],
+  '456313': [23.326, 75.318],
+  '456331': [23.417, 75.423],
+  '456335': [23.47, 75.493],
+  '456337': [23.254, 75.551],
+  '456440': [23.534, 75.551],
+  '456441': [23.615, 75.667],
+  '456443': [23.454, 75.691],
+  '456550': [23.424, 75.877],
+  '456661': [23.196, 75.923],
+  '456664': [23.056, 75.923],
+  '456665': [23.348, 76.062],
+  '456668': [23.488, 76.062],
+  '456770': [23.348, 76.19],
+  '456771': [22.937, 75.388],
+  '456776': [23.186, 75.318],
+  '457001': [23.264, 74.921],
+  '457114': [23.766, 75.551],
+  '457118': [23.749, 75.365],
+  '457119': [23.618, 75.458],
+  '457222': [23.489, 75.084],
+  '457226': [23.591, 75.178],
+  '457331': [23.573, 74.991],
+  '457333': [23.712, 74.991],
+  '457336': [23.782, 75.225],
+  '457339': [23.783, 75.12],
+  '457340': [23.721, 75.084],
+  '457441': [23.23, 75.166],
+  '457550': [23.466, 74.851],
+  '457555': [23.355, 74.663],
+  '457661': [22.7, 74.617],
+  '457770': [23.099, 74.897],
+  '457772': [23.163, 74.722],
+  '457773': [22.992, 74.757],
+  '457775': [22.913, 74.897],
+  '457777': [23.062, 74.523],
+  '457779': [22.874, 74.734],
+  '457882': [22.579, 74.335],
+  '457885': [22.504, 74.159],
+  '457887': [22.271, 74.265],
+  '457888': [22.085, 74.265],
+  '457990': [22.391, 74.546],
+  '457993': [22.577, 74.546],
+  '458001': [24.078, 75.049],
+  '458002': [24.084, 74.991],
+  '458110': [24.592, 75.201],
+  '458113': [24.385, 75.225],
+  '458116': [24.487, 75.318],
+  '458118': [24.527, 75.481],
+  '458220': [24.589, 74.944],
+  '458226': [24.768, 75.108],
+  '458228': [24.942, 75.225],
+  '458330': [24.659, 74.839],
+  '458336': [24.268, 74.862],
+  '458339': [24.311, 74.944],
+  '458389': [23.884, 75.318],
+  '458441': [24.471, 74.921],
+  '458468': [24.559, 74.769],
+  '458470': [24.593, 74.81],
+  '458553': [24.314, 75.096],
+  '458556': [24.246, 75.225],
+  '458558': [24.162, 75.318],
+  '458664': [24.223, 74.991],
+  '458667': [23.898, 74.991],
+  '458669': [23.87, 75.178],
+  '458771': [24.671, 75.656],
+  '458775': [24.545, 75.667],
+  '458778': [24.48, 75.842],
+  '458880': [24.359, 75.667],
+  '458883': [24.248, 75.481],
+  '458888': [24.054, 75.644],
+  '458895': [24.056, 75.178],
+  '458990': [24.027, 75.365],
+  '460001': [21.924, 77.791],
+  '460004': [21.822, 77.997],
+  '460110': [21.555, 77.882],
+  '460220': [21.629, 77.608],
+  '460225': [21.758, 77.768],
+  '460330': [22.097, 77.608],
+  '460440': [22.219, 77.974],
+  '460443': [22.009, 77.997],
+  '460447': [22.07, 78.179],
+  '460449': [22.157, 78.088],
+  '460551': [21.962, 78.145],
+  '460553': [21.919, 78.042],
+  '460554': [21.986, 78.316],
+  '460557': [21.731, 78.042],
+  '460661': [21.863, 78.248],
+  '460663': [21.854, 78.452],
+  '460665': [21.644, 78.305],
+  '460666': [21.694, 78.179],
+  '460668': [21.568, 78.065],
+  '461001': [22.746, 77.814],
+  '461005': [22.725, 77.688],
+  '461110': [22.662, 77.78],
+  '461111': [22.418, 77.814],
+  '461114': [22.599, 77.771],
+  '461115': [22.562, 77.711],
+  '461116': [22.638, 77.631],
+  '461122': [22.61, 77.754],
+  '461221': [22.559, 77.516],
+  '461223': [22.364, 77.424],
+  '461228': [22.026, 77.286],
+  '461331': [22.335, 77.056],
+  '461441': [22.115, 76.941],
+  '461446': [22.621, 77.767],
+  '461551': [22.566, 77.905],
+  '461661': [22.71, 77.951],
+  '461668': [22.673, 78.088],
+  '461771': [22.73, 78.225],
+  '461775': [22.744, 78.407],
+  '461881': [22.528, 78.339],
+  '461990': [22.823, 78.521],
+  '462001': [23.27, 77.396],
+  '462002': [23.233, 77.373],
+  '462003': [23.22, 77.393],
+  '462004': [23.235, 77.423],
+  '462007': [23.176, 77.396],
+  '462008': [23.251, 77.416],
+  '462010': [23.33, 77.493],
+  '462011': [23.239, 77.41],
+  '462013': [23.235, 77.383],
+  '462016': [23.214, 77.43],
+  '462020': [23.207, 77.46],
+  '462021': [23.258, 77.465],
+  '462022': [23.24, 77.539],
+  '462023': [23.25, 77.442],
+  '462024': [23.218, 77.45],
+  '462026': [23.204, 77.453],
+  '462027': [23.239, 77.429],
+  '462030': [23.362, 77.309],
+  '462031': [23.289, 77.312],
+  '462033': [23.311, 77.364],
+  '462036': [23.304, 77.347],
+  '462037': [23.303, 77.426],
+  '462038': [23.384, 77.436],
+  '462039': [23.194, 77.439],
+  '462041': [23.273, 77.473],
+  '462042': [23.125, 77.413],
+  '462043': [23.191, 77.479],
+  '462044': [23.175, 77.309],
+  '462045': [23.138, 77.548],
+  '462046': [23.087, 77.528],
+  '462047': [23.16, 77.487],
+  '462066': [23.288, 77.279],
+  '462101': [23.51, 77.401],
+  '462120': [23.779, 77.264],
+  '463106': [23.697, 77.401],
+  '463111': [23.708, 77.539],
+  '464001': [23.532, 77.974],
+  '464111': [23.806, 77.585],
+  '464113': [23.673, 77.677],
+  '464114': [24.05, 77.424],
+  '464220': [23.72, 77.974],
+  '464221': [23.9, 77.882],
+  '464224': [24.123, 78.042],
+  '464226': [23.579, 77.677],
+  '464228': [24.115, 77.654],
+  '464240': [23.986, 78.088],
+  '464258': [23.774, 77.768],
+  '464331': [23.712, 78.179],
+  '464337': [23.95, 78.225],
+  '464551': [23.237, 77.791],
+  '464651': [23.435, 77.631],
+  '464661': [23.489, 77.722],
+  '464665': [22.955, 78.088],
+  '464668': [22.99, 78.248],
+  '464671': [23.055, 78.327],
+  '464672': [23.163, 78.361],
+  '464770': [23.029, 78.452],
+  '464774': [23.212, 78.702],
+  '464776': [23.086, 78.589],
+  '464881': [23.48, 78.521],
+  '464884': [23.46, 78.248],
+  '464886': [23.286, 78.43],
+  '464986': [23.164, 78.065],
+  '464990': [22.948, 77.699],
+  '464993': [23.002, 77.493],
+  '465001': [23.394, 76.317],
+  '465106': [23.255, 76.19],
+  '465110': [23.275, 76.294],
+  '465113': [23.254, 76.445],
+  '465116': [23.24, 76.56],
+  '465118': [23.174, 76.607],
+  '465220': [23.381, 76.433],
+  '465223': [23.347, 76.572],
+  '465226': [23.606, 76.341],
+  '465227': [23.491, 76.618],
+  '465230': [23.683, 76.155],
+  '465333': [23.409, 76.757],
+  '465335': [23.282, 76.768],
+  '465337': [23.324, 76.849],
+  '465339': [23.425, 76.941],
+  '465441': [23.64, 75.946],
+  '465445': [23.827, 76.202],
+  '465447': [23.937, 76.132],
+  '465449': [24.149, 76.155],
+  '465550': [23.818, 75.853],
+  '465661': [24.016, 76.757],
+  '465667': [23.552, 77.056],
+  '465669': [23.738, 77.056],
+  '465674': [23.918, 76.964],
+  '465677': [24.044, 77.079],
+  '465679': [24.072, 76.595],
+  '465680': [23.553, 76.803],
+  '465683': [23.736, 76.757],
+  '465685': [23.701, 76.895],
+  '465687': [23.792, 76.595],
+  '465689': [23.848, 76.433],
+  '465691': [23.983, 76.387],
+  '465693': [24.14, 76.317],
+  '465697': [23.623, 76.526],
+  '466001': [23.177, 77.056],
+  '466111': [23.034, 77.309],
+  '466113': [23.13, 76.907],
+  '466114': [23.086, 76.803],
+  '466115': [22.99, 77.056],
+  '466116': [22.967, 76.78],
+  '466118': [22.973, 76.572],
+  '466120': [22.837, 76.618],
+  '466125': [23.121, 76.664],
+  '466221': [23.05, 76.514],
+  '466331': [22.818, 77.241],
+  '466445': [22.775, 77.585],
+  '466446': [22.739, 77.424],
+  '466448': [22.865, 77.985],
+  '466554': [22.833, 77.722],
+  '466651': [23.39, 77.079],
+  '466661': [23.444, 77.172],
+  '466665': [23.542, 77.218],
+  '470001': [23.753, 78.725],
+  '470002': [23.842, 78.731],
+  '470003': [23.834, 78.787],
+  '470004': [23.845, 78.85],
+  '470021': [23.864, 78.951],
+  '470051': [23.609, 78.68],
+  '470113': [24.275, 78.179],
+  '470115': [23.931, 78.589],
+  '470117': [24.029, 78.339],
+  '470118': [24.238, 78.316],
+  '470119': [23.773, 78.361],
+  '470120': [23.799, 78.555],
+  '470124': [24.229, 78.117],
+  '470125': [23.693, 78.543],
+  '470221': [23.666, 78.816],
+  '470223': [23.528, 78.861],
+  '470226': [23.331, 79.065],
+  '470227': [23.62, 79.155],
+  '470228': [23.723, 78.951],
+  '470229': [23.742, 79.223],
+  '470232': [23.827, 79.087],
+  '470235': [23.381, 78.77],
+  '470335': [24.07, 78.884],
+  '470337': [23.942, 78.895],
+  '470339': [24.264, 78.974],
+  '470441': [24.231, 78.521],
+  '470442': [24.151, 78.702],
+  '470661': [23.852, 79.448],
+  '470663': [23.676, 79.628],
+  '470664': [23.851, 79.785],
+  '470666': [23.93, 79.223],
+  '470669': [23.928, 79.031],
+  '470672': [23.752, 79.358],
+  '470673': [24.077, 79.313],
+  '470675': [23.979, 79.414],
+  '470771': [23.905, 79.538],
+  '470772': [23.961, 79.673],
+  '470775': [24.265, 79.65],
+  '470880': [23.501, 79.47],
+  '470881': [23.594, 79.807],
+  '471001': [24.948, 79.673],
+  '471101': [24.728, 79.897],
+  '471105': [24.826, 79.774],
+  '471111': [25.16, 79.358],
+  '471201': [25.029, 79.493],
+  '471301': [24.788, 79.403],
+  '471311': [24.478, 79.335],
+  '471313': [24.459, 79.065],
+  '471315': [24.882, 79.403],
+  '471318': [24.284, 79.245],
+  '471405': [24.497, 79.605],
+  '471408': [24.76, 79.673],
+  '471411': [25.092, 79.718],
+  '471501': [25.007, 79.852],
+  '471510': [25.254, 80.031],
+  '471515': [25.091, 80.053],
+  '471516': [25.268, 80.196],
+  '471525': [25.197, 80.232],
+  '471606': [24.822, 79.897],
+  '471625': [24.966, 79.942],
+  '472001': [24.752, 78.906],
+  '472005': [24.651, 78.816],
+  '472010': [24.571, 78.997],
+  '472101': [24.994, 78.702],
+  '472111': [24.718, 79.087],
+  '472115': [24.847, 79.245],
+  '472118': [25.09, 79.042],
+  '472221': [25.028, 79.155],
+  '472246': [25.339, 78.634],
+  '472331': [25.08, 78.906],
+  '472336': [25.188, 78.793],
+  '472337': [25.199, 78.634],
+  '472339': [24.889, 78.861],
+  '472442': [25.388, 78.804],
+  '472445': [25.418, 78.895],
+  '472446': [25.512, 78.895],
+  '472447': [25.278, 78.895],
+  '473001': [24.675, 77.355],
+  '473101': [24.359, 77.493],
+  '473105': [24.816, 77.102],
+  '473110': [24.523, 77.218],
+  '473111': [24.511, 77.079],
+  '473112': [24.488, 77.154],
+  '473113': [24.797, 77.424],
+  '473115': [24.184, 77.079],
+  '473118': [24.176, 76.987],
+  '473222': [24.384, 76.964],
+  '473226': [24.415, 77.183],
+  '473249': [24.535, 77.355],
+  '473287': [24.221, 77.241],
+  '473330': [24.601, 77.585],
+  '473331': [24.447, 77.699],
+  '473332': [24.813, 77.608],
+  '473335': [24.835, 77.882],
+  '473440': [24.537, 77.951],
+  '473443': [24.375, 77.974],
+  '473444': [24.548, 78.088],
+  '473446': [24.757, 78.065],
+  '473551': [25.567, 77.699],
+  '473585': [24.984, 78.27],
+  '473638': [24.915, 77.573],
+  '473660': [25.486, 78.134],
+  '473662': [25.58, 78.134],
+  '473665': [25.451, 78.27],
+  '473670': [25.317, 78.065],
+  '473770': [25.029, 77.677],
+  '473774': [25.272, 77.516],
+  '473775': [25.543, 77.424],
+  '473781': [25.108, 77.791],
+  '473793': [25.737, 77.516],
+  '473865': [25.666, 78.042],
+  '473880': [25.565, 77.951],
+  '473885': [25.009, 77.447],
+  '473990': [25.037, 78.065],
+  '473995': [25.163, 78.179],
+  '474001': [26.175, 78.145],
+  '474002': [26.21, 78.182],
+  '474003': [26.235, 78.184],
+  '474004': [26.241, 78.205],
+  '474005': [26.293, 78.168],
+  '474006': [26.201, 78.316],
+  '474007': [26.208, 78.172],
+  '474008': [26.228, 78.151],
+  '474009': [26.197, 78.165],
+  '474010': [26.275, 78.088],
+  '474011': [26.221, 78.208],
+  '474012': [26.267, 78.208],
+  '474015': [26.248, 78.172],
+  '474020': [26.303, 78.282],
+  '475001': [26.071, 78.156],
+  '475002': [26.165, 78.452],
+  '475005': [26.023, 78.282],
+  '475110': [25.917, 78.27],
+  '475115': [26, 78.43],
+  '475220': [25.784, 78.065],
+  '475330': [26.048, 77.882],
+  '475335': [25.767, 78.725],
+  '475336': [25.896, 78.736],
+  '475661': [25.702, 78.498],
+  '475671': [25.62, 78.634],
+  '475673': [25.997, 78.68],
+  '475675': [25.893, 78.543],
+  '475682': [26.144, 78.77],
+  '475685': [25.792, 78.452],
+  '475686': [25.688, 78.316],
+  '476001': [26.546, 77.997],
+  '476111': [26.73, 78.248],
+  '476115': [26.72, 78.407],
+  '476134': [26.647, 78.088],
+  '476219': [26.484, 77.814],
+  '476221': [26.319, 77.791],
+  '476224': [26.371, 77.585],
+  '476228': [26.147, 77.677],
+  '476229': [26.287, 77.424],
+  '476332': [25.907, 77.332],
+  '476335': [25.976, 77.056],
+  '476337': [25.765, 76.78],
+  '476339': [25.477, 76.687],
+  '476355': [25.511, 77.056],
+  '476444': [26.372, 78.134],
+  '476554': [26.578, 78.236],
+  '477001': [26.517, 78.77],
+  '477105': [26.617, 78.714],
+  '477111': [26.692, 78.634],
+  '477116': [26.398, 78.452],
+  '477117': [26.444, 78.305],
+  '477222': [26.273, 78.634],
+  '477227': [26.33, 78.77],
+  '477331': [26.522, 78.985],
+  '477332': [26.524, 78.861],
+  '477333': [26.445, 79.042],
+  '477335': [26.388, 78.906],
+  '477441': [26.305, 79.042],
+  '477445': [26.201, 78.906],
+  '477446': [26.117, 78.872],
+  '477447': [25.964, 78.861],
+  '477449': [26.02, 78.827],
+  '477555': [26.66, 78.816],
+  '477557': [26.481, 78.612],
+  '477566': [26.637, 78.963],
+  '477660': [26.592, 78.543],
+  '480001': [22.03, 78.951],
+  '480105': [21.646, 78.668],
+  '480106': [21.714, 78.793],
+  '480107': [21.883, 78.861],
+  '480108': [21.651, 78.906],
+  '480109': [21.599, 78.668],
+  '480110': [21.901, 79.132],
+  '480111': [21.732, 79.065],
+  '480115': [22.12, 79.245],
+  '480221': [22.331, 79.223],
+  '480223': [22.18, 79.087],
+  '480224': [22.585, 79.155],
+  '480331': [21.964, 78.68],
+  '480334': [21.673, 78.543],
+  '480337': [21.544, 78.725],
+  '480338': [21.619, 78.452],
+  '480441': [22.262, 78.906],
+  '480447': [22.055, 78.634],
+  '480449': [22.199, 78.68],
+  '480551': [22.093, 78.498],
+  '480553': [21.998, 79.347],
+  '480555': [22.252, 78.43],
+  '480557': [22.3, 78.77],
+  '480559': [22.51, 78.748],
+  '480661': [22.044, 79.515],
+  '480667': [22.061, 79.785],
+  '480771': [21.926, 79.706],
+  '480880': [21.767, 79.605],
+  '480881': [21.75, 79.335],
+  '480882': [22.232, 79.515],
+  '480884': [22.404, 79.628],
+  '480886': [22.521, 79.605],
+  '480887': [22.509, 79.425],
+  '480888': [22.809, 79.695],
+  '480990': [22.219, 79.673],
+  '480991': [22.324, 79.852],
+  '480994': [22.449, 79.964],
+  '480996': [22.239, 79.986],
+  '480997': [22.732, 79.964],
+  '480999': [22.607, 79.852],
+  '481001': [21.927, 80.299],
+  '481051': [21.931, 80.766],
+  '481102': [21.841, 80.243],
+  '481105': [22.01, 80.499],
+  '481111': [22.199, 80.499],
+  '481115': [21.632, 80.499],
+  '481116': [22.097, 80.788],
+  '481117': [22.219, 80.854],
+  '481222': [21.473, 80.61],
+  '481224': [21.429, 80.466],
+  '481226': [21.711, 80.232],
+  '481331': [21.772, 80.076],
+  '481332': [21.858, 79.942],
+  '481335': [21.675, 80.031],
+  '481337': [21.573, 79.897],
+  '481441': [22.005, 80.031],
+  '481445': [21.756, 79.807],
+  '481449': [21.656, 79.718],
+  '481551': [22.177, 80.143],
+  '481556': [22.21, 80.299],
+  '481661': [22.665, 80.41],
+  '481662': [22.838, 80.143],
+  '481663': [22.84, 80.566],
+  '481664': [22.681, 80.677],
+  '481665': [22.632, 80.254],
+  '481666': [23.015, 80.154],
+  '481668': [22.527, 80.076],
+  '481672': [22.964, 80.677],
+  '481768': [22.399, 80.299],
+  '481771': [22.496, 80.344],
+  '481776': [22.438, 80.165],
+  '481778': [22.612, 81.12],
+  '481879': [23.079, 81.031],
+  '481880': [22.866, 81.009],
+  '481882': [22.786, 81.274],
+  '481884': [22.631, 81.472],
+  '481885': [23.043, 80.41],
+  '481990': [23.223, 80.655],
+  '481995': [22.597, 80.854],
+  '481996': [22.433, 80.877],
+  '481998': [22.465, 80.61],
+  '482001': [23.162, 79.958],
+  '482002': [23.21, 79.886],
+  '482003': [23.11, 79.796],
+  '482004': [23.215, 79.953],
+  '482005': [23.173, 80.042],
+  '482008': [23.124, 79.914],
+  '482009': [23.211, 79.981],
+  '482010': [23.234, 79.981],
+  '482011': [23.213, 80.014],
+  '482020': [23.122, 79.975],
+  '482021': [23.165, 79.549],
+  '482051': [23.004, 79.785],
+  '482056': [22.94, 79.897],
+  '483001': [23.09, 80.031],
+  '483053': [23.159, 79.818],
+  '483105': [23.405, 79.807],
+  '483110': [23.232, 80.41],
+  '483113': [23.305, 79.718],
+  '483119': [23.161, 79.673],
+  '483220': [23.279, 80.031],
+  '483222': [23.373, 80.031],
+  '483225': [23.52, 80.121],
+  '483330': [23.655, 80.031],
+  '483331': [23.741, 79.897],
+  '483332': [23.442, 80.388],
+  '483334': [23.409, 80.232],
+  '483336': [23.461, 79.942],
+  '483440': [23.623, 80.254],
+  '483442': [23.587, 80.433],
+  '483501': [23.892, 80.41],
+  '483504': [23.813, 80.383],
+  '483770': [23.819, 80.766],
+  '483773': [23.692, 80.61],
+  '483775': [23.93, 80.655],
+  '483880': [24.024, 80.655],
+  '483990': [23.869, 80.053],
+  '484001': [23.283, 81.296],
+  '484110': [23.273, 81.538],
+  '484113': [22.996, 81.899],
+  '484114': [23.234, 81.483],
+  '484116': [23.244, 81.658],
+  '484117': [23.29, 81.636],
+  '484120': [23.272, 81.411],
+  '484220': [23.172, 81.636],
+  '484224': [23.118, 81.735],
+  '484330': [23.003, 81.801],
+  '484334': [23.316, 81.91],
+  '484336': [23.143, 81.986],
+  '484440': [23.303, 82.106],
+  '484444': [23.15, 81.888],
+  '484446': [23.161, 82.106],
+  '484551': [23.467, 81.208],
+  '484552': [23.296, 81.098],
+  '484555': [23.383, 80.965],
+  '484660': [23.603, 80.699],
+  '484661': [23.541, 80.854],
+  '484664': [23.65, 80.993],
+  '484665': [23.84, 81.12],
+  '484669': [23.471, 81.713],
+  '484770': [23.572, 81.384],
+  '484771': [23.765, 81.472],
+  '484774': [24.039, 81.296],
+  '484776': [24.21, 81.406],
+  '484881': [23.005, 81.384],
+  '484886': [22.818, 81.658],
+  '485001': [24.506, 80.832],
+  '485005': [24.598, 80.882],
+  '485111': [24.616, 81.098],
+  '485112': [24.667, 80.954],
+  '485113': [24.512, 80.921],
+  '485114': [24.192, 80.793],
+  '485115': [24.475, 81.098],
+  '485221': [24.744, 80.877],
+  '485226': [24.847, 81.009],
+  '485331': [24.944, 80.677],
+  '485334': [25.071, 80.832],
+  '485441': [24.642, 80.744],
+  '485446': [24.562, 80.588],
+  '485447': [24.75, 80.588],
+  '485551': [24.44, 80.522],
+  '485661': [24.404, 80.699],
+  '485666': [24.736, 80.744],
+  '485771': [24.263, 80.699],
+  '485772': [24.082, 80.832],
+  '485773': [24.169, 80.699],
+  '485774': [24.273, 80.877],
+  '485775': [24.395, 80.943],
+  '485778': [24.336, 81.142],
+  '485881': [24.222, 81.208],
+  '486001': [24.524, 81.329],
+  '486002': [24.556, 81.321],
+  '486003': [24.572, 81.351],
+  '486005': [24.503, 81.373],
+  '486006': [24.495, 81.241],
+  '486111': [24.689, 81.538],
+  '486114': [24.59, 81.45],
+  '486115': [24.791, 81.669],
+  '486117': [24.88, 81.582],
+  '486123': [24.6, 81.625],
+  '486220': [25.068, 81.582],
+  '486223': [24.969, 81.494],
+  '486226': [24.942, 81.844],
+  '486331': [24.733, 81.91],
+  '486333': [24.609, 81.801],
+  '486335': [24.72, 82.106],
+  '486338': [24.683, 81.636],
+  '486340': [24.89, 81.757],
+  '486341': [24.712, 81.746],
+  '486440': [24.632, 81.362],
+  '486441': [24.731, 81.45],
+  '486445': [24.86, 81.23],
+  '486446': [24.671, 81.23],
+  '486447': [24.964, 81.406],
+  '486448': [24.823, 81.406],
+  '486450': [24.527, 81.186],
+  '486451': [24.86, 81.334],
+  '486550': [24.394, 81.318],
+  '486553': [24.498, 81.494],
+  '486556': [25.053, 81.318],
+  '486661': [24.36, 81.997],
+  '486666': [24.058, 81.647],
+  '486669': [24.077, 81.997],
+  '486670': [24.583, 82.193],
+  '486675': [24.423, 82.177],
+  '486771': [24.342, 81.647],
+  '486775': [24.312, 81.538],
+  '486776': [24.304, 81.406],
+  '486881': [24.284, 82.345],
+  '486882': [24.576, 82.519],
+  '486884': [24.18, 81.943],
+  '486885': [24.055, 82.746],
+  '486886': [24.005, 82.432],
+  '486887': [24.119, 82.594],
+  '486888': [24.113, 82.646],
+  '486889': [24.182, 82.67],
+  '486890': [24.119, 82.662],
+  '486892': [24.301, 82.692],
+  '487001': [22.786, 79.335],
+  '487110': [22.905, 79.189],
+  '487114': [23.043, 79.313],
+  '487118': [22.986, 79.515],
+  '487221': [22.93, 79.042],
+  '487225': [22.839, 79.087],
+  '487330': [23.156, 79.245],
+  '487334': [23.159, 78.951],
+  '487337': [23.153, 78.861],
+  '487441': [22.827, 78.906],
+  '487551': [22.898, 78.759],
+  '487555': [23.008, 78.816],
+  '487661': [22.995, 78.634],
+  '487770': [22.82, 78.816],
+  '487881': [22.767, 78.725],
+  '488001': [24.833, 80.41],
+  '488050': [24.42, 80.21],
+  '488051': [24.544, 80.132],
+  '488059': [24.46, 80.288],
+  '488220': [24.915, 80.232],
+  '488222': [24.952, 80.433],
+  '488333': [24.268, 80.41],
+  '488441': [24.433, 80.053],
+  '488442': [24.145, 79.964],
+  '488443': [24.704, 79.97],
+  '488446': [24.257, 80.232],
+  '488448': [24.069, 80.232],
+  '490001': [21.201, 81.363],
+  '490006': [21.175, 81.334],
+  '490009': [21.189, 81.321],
+  '490011': [21.214, 81.389],
+  '490020': [21.21, 81.312],
+  '490021': [21.169, 81.444],
+  '490022': [21.221, 81.37],
+  '490023': [21.223, 81.345],
+  '490024': [21.279, 81.406],
+  '490025': [21.223, 81.461],
+  '490026': [21.247, 81.345],
+  '490036': [21.379, 81.494],
+  '490042': [21.273, 81.505],
+  '491001': [21.273, 81.274],
+  '491107': [21.126, 81.417],
+  '491111': [21.097, 81.538],
+  '491221': [21.038, 81.318],
+  '491222': [20.852, 81.362],
+  '491223': [20.948, 81.406],
+  '491225': [20.915, 81.208],
+  '491226': [20.726, 81.208],
+  '491227': [20.712, 81.406],
+  '491228': [20.532, 81.12],
+  '491229': [20.32, 80.677],
+  '491331': [21.487, 81.296],
+  '491332': [21.496, 81.472],
+  '491335': [21.689, 81.56],
+  '491336': [21.89, 81.318],
+  '491337': [21.951, 81.582],
+  '491338': [21.786, 81.373],
+  '491340': [21.818, 81.757],
+  '491441': [21.094, 81.031],
+  '491444': [21.306, 81.009],
+  '491445': [21.269, 80.766],
+  '491557': [21.08, 80.766],
+  '491558': [20.976, 80.588],
+  '491559': [22.288, 81.252],
+  '491661': [20.921, 80.877],
+  '491665': [20.702, 80.766],
+  '491666': [20.59, 80.877],
+  '491668': [20.862, 80.655],
+  '491771': [20.811, 81.031],
+  '491881': [21.463, 80.854],
+  '491885': [21.497, 81.053],
+  '491888': [21.657, 80.943],
+  '491993': [21.676, 81.296],
+  '491995': [21.9, 81.075],
+  '492001': [21.233, 81.658],
+  '492002': [21.245, 81.638],
+  '492003': [21.302, 81.614],
+  '492004': [21.259, 81.65],
+  '492005': [21.298, 81.727],
+  '492008': [21.281, 81.638],
+  '492009': [21.263, 81.617],
+  '492010': [21.247, 81.576],
+  '492012': [21.235, 81.702],
+  '492013': [21.213, 81.609],
+  '492014': [21.286, 81.653],
+  '492015': [21.188, 81.702],
+  '492099': [21.3, 81.571],
+  '492101': [21.204, 81.801],
+  '492112': [21.454, 82.636],
+  '493101': [21.723, 81.757],
+  '493111': [21.342, 81.713],
+  '493113': [21.682, 81.888],
+  '493114': [21.571, 81.79],
+  '493116': [21.489, 81.801],
+  '493118': [21.783, 82.019],
+  '493195': [21.59, 81.932],
+  '493196': [21.546, 82.019],
+  '493221': [21.435, 81.669],
+  '493222': [21.58, 82.756],
+  '493225': [21.423, 81.91],
+  '493228': [21.555, 82.193],
+  '493229': [21.349, 82.345],
+  '493331': [21.691, 82.063],
+  '493332': [21.697, 82.193],
+  '493335': [21.546, 82.519],
+  '493338': [21.671, 82.67],
+  '493344': [21.663, 82.497],
+  '493441': [21.213, 81.975],
+  '493445': [21.151, 82.171],
+  '493448': [20.973, 82.432],
+  '493449': [20.973, 82.432],
+  '493526': [21.658, 82.367],
+  '493551': [21.188, 82.454],
+  '493554': [21.204, 82.843],
+  '493555': [21.396, 82.886],
+  '493558': [21.287, 83.122],
+  '493559': [21.635, 82.929],
+  '493661': [21.058, 81.713],
+  '493662': [20.665, 81.91],
+  '493663': [20.916, 81.713],
+  '493770': [20.862, 81.582],
+  '493773': [20.653, 81.647],
+  '493776': [20.635, 81.527],
+  '493778': [20.241, 81.953],
+  '493881': [21.004, 81.812],
+  '493885': [20.925, 81.888],
+  '493887': [20.844, 81.943],
+  '493888': [20.257, 82.302],
+  '493889': [20.492, 82.258],
+  '493890': [19.939, 82.605],
+  '493891': [19.999, 82.502],
+  '493992': [21.026, 82.019],
+  '493996': [20.772, 82.171],
+  '494001': [18.967, 81.997],
+  '494010': [19.28, 81.604],
+  '494111': [18.481, 81.647],
+  '494114': [17.99, 81.208],
+  '494115': [18.677, 81.822],
+  '494122': [18.322, 81.252],
+  '494221': [19.135, 82.063],
+  '494222': [19.279, 82.106],
+  '494223': [19.224, 81.932],
+  '494224': [19.436, 81.91],
+  '494226': [19.719, 81.91],
+  '494228': [19.824, 81.625],
+  '494229': [19.605, 81.472],
+  '494230': [19.982, 81.472],
+  '494331': [20.104, 81.538],
+  '494333': [20.439, 81.625],
+  '494334': [20.266, 81.472],
+  '494335': [20.274, 81.647],
+  '494336': [20.43, 81.45],
+  '494337': [20.471, 81.318],
+  '494347': [20.067, 81.757],
+  '494441': [19.124, 81.296],
+  '494442': [18.956, 81.735],
+  '494444': [19.049, 80.721],
+  '494446': [18.986, 80.41],
+  '494447': [18.538, 80.854],
+  '494448': [18.807, 80.588],
+  '494449': [18.872, 81.45],
+  '494450': [18.923, 81.031],
+  '494551': [18.819, 81.318],
+  '494552': [18.731, 81.45],
+  '494553': [18.71, 81.263],
+  '494556': [18.563, 81.384],
+  '494635': [20.334, 80.943],
+  '494661': [19.444, 81.075],
+  '494665': [19.97, 81.208],
+  '494669': [20.145, 80.943],
+  '494670': [20.282, 81.318],
+  '494771': [20.136, 80.766],
+  '494776': [20.01, 80.61],
+  '494777': [19.866, 80.566],
+  '495001': [22.081, 82.052],
+  '495003': [22.129, 82.073],
+  '495004': [22.028, 82.193],
+  '495006': [22.08, 82.28],
+  '495009': [22.193, 82.171],
+  '495112': [22.212, 82.063],
+  '495113': [22.302, 81.975],
+  '495115': [22.266, 81.735],
+  '495116': [22.46, 81.822],
+  '495117': [22.721, 81.844],
+  '495118': [22.86, 82.258],
+  '495119': [22.848, 81.997],
+  '495220': [22.01, 82.052],
+  '495222': [21.983, 81.986],
+  '495223': [22.043, 82.122],
+  '495224': [21.93, 82.106],
+  '495330': [22.18, 81.91],
+  '495334': [22.073, 81.647],
+  '495335': [21.966, 81.888],
+  '495442': [22.356, 82.106],
+  '495445': [22.589, 82.519],
+  '495446': [22.28, 82.497],
+  '495447': [22.409, 82.6],
+  '495449': [22.391, 82.345],
+  '495450': [22.43, 82.67],
+  '495452': [22.367, 82.594],
+  '495454': [22.286, 82.627],
+  '495455': [22.376, 82.654],
+  '495550': [22.02, 82.269],
+  '495551': [21.818, 82.258],
+  '495552': [22.037, 82.367],
+  '495553': [21.957, 82.443],
+  '495554': [21.849, 82.41],
+  '495555': [22.135, 82.318],
+  '495556': [21.806, 82.497],
+  '495557': [21.766, 82.67],
+  '495559': [22.139, 82.54],
+  '495660': [22.181, 82.41],
+  '495661': [21.77, 82.756],
+  '495663': [21.93, 82.356],
+  '495668': [21.952, 82.583],
+  '495671': [22.003, 82.67],
+  '495674': [22.225, 82.864],
+  '495677': [22.348, 82.702],
+  '495682': [22.332, 82.729],
+  '495683': [22.422, 83.036],
+  '495684': [22.39, 82.719],
+  '495686': [21.912, 82.756],
+  '495687': [22.011, 82.843],
+  '495688': [21.83, 83.058],
+  '495689': [22.062, 82.929],
+  '495690': [21.846, 82.864],
+  '495691': [21.827, 82.972],
+  '495692': [21.788, 83.186],
+  '495695': [21.935, 83.004],
+  '496001': [21.89, 83.358],
+  '496005': [21.971, 83.304],
+  '496100': [21.735, 83.347],
+  '496107': [21.99, 83.486],
+  '496109': [22.063, 83.384],
+  '496111': [22.152, 83.379],
+  '496113': [22.349, 83.55],
+  '496115': [22.415, 83.443],
+  '496116': [22.524, 83.208],
+  '496118': [22.56, 83.486],
+  '496220': [22.521, 83.699],
+  '496223': [22.735, 83.72],
+  '496224': [23.016, 83.635],
+  '496225': [22.837, 83.89],
+  '496227': [22.53, 83.953],
+  '496242': [22.527, 83.869],
+  '496245': [22.398, 83.9],
+  '496330': [23.03, 83.974],
+  '496331': [22.869, 84.122],
+  '496334': [22.727, 84.122],
+  '496336': [23.118, 83.805],
+  '496338': [22.921, 84.249],
+  '496440': [21.751, 83.443],
+  '496445': [21.454, 83.143],
+  '496450': [21.642, 83.101],
+  '496551': [21.554, 83.272],
+  '496554': [21.651, 83.315],
+  '496661': [22.022, 83.101],
+  '496665': [22.166, 83.143],
+  '497001': [23.185, 83.122],
+  '497101': [23.101, 83.379],
+  '497111': [22.839, 83.358],
+  '497114': [22.753, 83.571],
+  '497116': [22.896, 83.036],
+  '497117': [23.301, 83.635],
+  '497118': [23.301, 83.635],
+  '497119': [23.585, 83.635],
+  '497220': [23.768, 83.464],
+  '497223': [23.526, 83.336],
+  '497224': [23.311, 83.89],
+  '497225': [23.852, 83.208],
+  '497226': [23.249, 82.972],
+  '497229': [23.243, 82.843],
+  '497231': [23.639, 82.692],
+  '497235': [23.511, 82.993],
+  '497331': [23.33, 82.67],
+  '497333': [22.934, 82.821],
+  '497335': [23.231, 82.583],
+  '497339': [23.532, 82.432],
+  '497442': [23.309, 82.237],
+  '497446': [23.185, 82.231],
+  '497447': [23.104, 82.16],
+  '497448': [23.108, 82.247],
+  '497449': [23.058, 82.432],
+  '497451': [23.255, 82.334],
+  '497553': [23.161, 82.356],
+  '497555': [23.229, 82.177],
+  '497557': [23.735, 82.237],
+  '497559': [23.183, 82.313],
+  '497773': [23.363, 82.367],
+  '497778': [23.649, 81.953],
+  '500001': [17.387, 78.472],
+  '500002': [17.361, 78.48],
+  '500003': [17.437, 78.489],
+  '500004': [17.407, 78.461],
+  '500005': [17.277, 78.487],
+  '500006': [17.371, 78.449],
+  '500007': [17.418, 78.543],
+  '500008': [17.392, 78.412],
+  '500009': [17.461, 78.495],
+  '500010': [17.517, 78.515],
+  '500011': [17.466, 78.476],
+  '500012': [17.376, 78.475],
+  '500013': [17.392, 78.518],
+  '500014': [17.552, 78.515],
+  '500015': [17.478, 78.511],
+  '500016': [17.445, 78.463],
+  '500017': [17.434, 78.535],
+  '500018': [17.455, 78.406],
+  '500019': [17.48, 78.32],
+  '500020': [17.41, 78.5],
+  '500022': [17.41, 78.472],
+  '500023': [17.361, 78.492],
+  '500024': [17.374, 78.49],
+  '500025': [17.428, 78.505],
+  '500026': [17.45, 78.506],
+  '500027': [17.389, 78.497],
+  '500028': [17.394, 78.442],
+  '500029': [17.401, 78.488],
+  '500030': [17.32, 78.402],
+  '500031': [17.376, 78.393],
+  '500032': [17.436, 78.347],
+  '500033': [17.432, 78.407],
+  '500034': [17.415, 78.438],
+  '500035': [17.355, 78.538],
+  '500036': [17.37, 78.515],
+  '500037': [17.49, 78.435],
+  '500038': [17.444, 78.44],
+  '500039': [17.401, 78.567],
+  '500040': [17.459, 78.563],
+  '500041': [17.417, 78.462],
+  '500042': [17.464, 78.454],
+  '500043': [17.633, 78.407],
+  '500044': [17.408, 78.512],
+  '500045': [17.44, 78.428],
+  '500046': [17.458, 78.329],
+  '500047': [17.451, 78.535],
+  '500048': [17.368, 78.43],
+  '500049': [17.505, 78.358],
+  '500050': [17.498, 78.332],
+  '500051': [17.453, 78.617],
+  '500052': [17.322, 78.432],
+  '500053': [17.336, 78.468],
+  '500054': [17.504, 78.444],
+  '500055': [17.525, 78.45],
+  '500056': [17.48, 78.529],
+  '500057': [17.396, 78.454],
+  '500058': [17.308, 78.526],
+  '500059': [17.352, 78.507],
+  '500060': [17.368, 78.531],
+  '500061': [17.425, 78.516],
+  '500062': [17.474, 78.572],
+  '500063': [17.405, 78.474],
+  '500064': [17.356, 78.454],
+  '500065': [17.351, 78.473],
+  '500066': [17.368, 78.469],
+  '500067': [17.505, 78.477],
+  '500068': [17.37, 78.575],
+  '500069': [17.31, 78.513],
+  '500070': [17.329, 78.575],
+  '500072': [17.48, 78.417],
+  '500073': [17.433, 78.443],
+  '500074': [17.347, 78.551],
+  '500075': [17.386, 78.351],
+  '500076': [17.444, 78.567],
+  '500077': [17.298, 78.441],
+  '500078': [17.611, 78.623],
+  '500079': [17.337, 78.532],
+  '500080': [17.419, 78.491],
+  '500081': [17.443, 78.382],
+  '500082': [17.427, 78.452],
+  '500083': [17.51, 78.594],
+  '500084': [17.471, 78.359],
+  '500085': [17.488, 78.382],
+  '500086': [17.356, 78.374],
+  '500087': [17.504, 78.535],
+  '500088': [17.431, 78.64],
+  '500089': [17.403, 78.377],
+  '500090': [17.532, 78.379],
+  '500091': [17.361, 78.4],
+  '500092': [17.413, 78.58],
+  '500093': [17.357, 78.398],
+  '500094': [17.508, 78.56],
+  '500095': [17.385, 78.487],
+  '500096': [17.415, 78.417],
+  '500097': [17.326, 78.535],
+  '500098': [17.425, 78.606],
+  '500100': [17.54, 78.491],
+  '500101': [17.604, 78.547],
+  '501101': [17.326, 77.951],
+  '501102': [17.37, 77.905],
+  '501106': [17.408, 77.768],
+  '501111': [17.433, 77.985],
+  '501121': [17.269, 77.768],
+  '501141': [17.304, 77.585],
+  '501142': [17.364, 77.619],
+  '501143': [17.202, 77.447],
+  '501144': [17.201, 77.619],
+  '501158': [17.309, 77.482],
+  '501202': [17.551, 77.814],
+  '501203': [17.418, 78.122],
+  '501218': [17.248, 78.396],
+  '501301': [17.497, 78.668],
+  '501359': [17.126, 78.498],
+  '501401': [17.638, 78.498],
+  '501501': [17.187, 77.951],
+  '501502': [17.086, 77.814],
+  '501503': [17.325, 78.122],
+  '501504': [17.296, 78.225],
+  '501505': [17.357, 78.668],
+  '501506': [17.134, 78.634],
+  '501508': [17.139, 78.725],
+  '501509': [16.997, 78.68],
+  '501510': [17.224, 78.589],
+  '501511': [17.286, 78.646],
+  '501512': [17.295, 78.708],
+  '502001': [17.617, 78.085],
+  '502032': [17.509, 78.3],
+  '502101': [18.091, 78.464],
+  '502102': [18.108, 78.543],
+  '502103': [18.109, 78.855],
+  '502107': [18.204, 78.782],
+  '502108': [18.163, 78.68],
+  '502109': [17.861, 78.316],
+  '502110': [18.05, 78.265],
+  '502113': [18.124, 78.236],
+  '502114': [18.109, 78.759],
+  '502115': [18.131, 78.35],
+  '502117': [18.001, 78.316],
+  '502125': [18.05, 78.168],
+  '502130': [18.082, 78.208],
+  '502205': [17.495, 78.139],
+  '502210': [17.578, 77.688],
+  '502220': [17.583, 77.585],
+  '502221': [17.67, 77.493],
+  '502228': [17.716, 77.579],
+  '502246': [17.764, 77.688],
+  '502247': [17.968, 78.543],
+  '502248': [18.053, 78.407],
+  '502249': [17.78, 77.573],
+  '502251': [17.852, 77.619],
+  '502255': [17.949, 78.418],
+  '502256': [17.88, 77.688],
+  '502257': [17.827, 77.768],
+  '502267': [18.168, 78.963],
+  '502269': [17.882, 77.905],
+  '502270': [17.844, 78.042],
+  '502271': [18.034, 77.917],
+  '502273': [17.741, 78.077],
+  '502276': [18.173, 78.861],
+  '502277': [18.023, 78.895],
+  '502278': [17.882, 78.68],
+  '502279': [17.74, 78.634],
+  '502280': [18.056, 79.053],
+  '502281': [17.738, 78.804],
+  '502285': [17.556, 78.099],
+  '502286': [18.054, 77.677],
+  '502287': [18.15, 77.722],
+  '502290': [17.935, 77.825],
+  '502291': [17.652, 77.951],
+  '502293': [17.736, 77.985],
+  '502294': [17.642, 78.071],
+  '502295': [17.529, 78.031],
+  '502296': [17.666, 78.179],
+  '502300': [17.497, 78.22],
+  '502301': [17.934, 78.77],
+  '502302': [17.984, 78.042],
+  '502303': [18.066, 78.054],
+  '502305': [17.485, 78.162],
+  '502306': [17.574, 78.008],
+  '502307': [17.547, 78.213],
+  '502310': [18.235, 78.918],
+  '502311': [17.827, 78.736],
+  '502312': [17.831, 78.804],
+  '502313': [17.721, 78.316],
+  '502314': [17.85, 78.134],
+  '502316': [17.868, 78.236],
+  '502318': [17.696, 77.636],
+  '502319': [17.601, 78.303],
+  '502321': [17.684, 77.722],
+  '502324': [17.522, 78.256],
+  '502325': [17.551, 78.351],
+  '502329': [17.536, 78.145],
+  '502331': [18.002, 78.145],
+  '502334': [17.836, 78.487],
+  '502335': [17.881, 78.464],
+  '502336': [17.778, 78.498],
+  '502345': [17.74, 77.86],
+  '502371': [18.112, 77.86],
+  '502372': [18.016, 78.759],
+  '502375': [18.085, 78.951],
+  '502381': [17.932, 78.145],
+  '503001': [18.669, 78.082],
+  '503002': [18.694, 78.105],
+  '503003': [18.704, 78.168],
+  '503101': [18.184, 78.441],
+  '503102': [18.249, 78.373],
+  '503108': [18.13, 78.134],
+  '503110': [18.231, 78.27],
+  '503111': [18.322, 78.418],
+  '503114': [18.407, 78.088],
+  '503120': [18.322, 78.225],
+  '503122': [18.217, 78.042],
+  '503123': [18.256, 78.487],
+  '503124': [18.223, 78.134],
+  '503125': [18.212, 78.532],
+  '503144': [18.427, 78.407],
+  '503145': [18.418, 78.27],
+  '503164': [18.559, 78.27],
+  '503165': [18.57, 78.452],
+  '503174': [18.606, 78.209],
+  '503175': [18.516, 78.145],
+  '503180': [18.66, 77.934],
+  '503185': [18.672, 77.86],
+  '503186': [18.695, 78.031],
+  '503187': [18.349, 77.905],
+  '503188': [18.568, 77.871],
+  '503201': [18.501, 77.917],
+  '503202': [18.669, 77.985],
+  '503206': [18.574, 77.962],
+  '503207': [18.587, 77.802],
+  '503212': [18.927, 78.179],
+  '503213': [18.796, 78.145],
+  '503217': [18.889, 78.316],
+  '503218': [18.906, 78.396],
+  '503219': [18.976, 78.396],
+  '503224': [18.792, 78.27],
+  '503225': [18.816, 78.464],
+  '503230': [18.594, 78.088],
+  '503235': [18.769, 77.905],
+  '503245': [18.786, 77.985],
+  '503246': [18.859, 78.031],
+  '503301': [18.428, 77.871],
+  '503302': [18.22, 77.894],
+  '503305': [18.342, 77.619],
+  '503306': [18.396, 77.734],
+  '503307': [18.691, 78.521],
+  '503308': [18.913, 78.509],
+  '503309': [18.471, 77.631],
+  '503310': [18.293, 77.768],
+  '503311': [18.789, 78.396],
+  '503321': [18.47, 77.802],
+  '503322': [18.611, 78.216],
+  '504001': [19.653, 78.543],
+  '504101': [18.965, 78.042],
+  '504102': [19.003, 77.905],
+  '504103': [19.193, 77.951],
+  '504104': [19.018, 78.134],
+  '504105': [19.021, 78.373],
+  '504106': [19.064, 78.305],
+  '504107': [18.869, 77.922],
+  '504109': [19.155, 78.088],
+  '504110': [19.208, 78.179],
+  '504201': [18.784, 79.718],
+  '504202': [19.107, 78.816],
+  '504203': [19.259, 78.612],
+  '504204': [18.912, 79.684],
+  '504205': [19.162, 78.951],
+  '504206': [19.033, 79.132],
+  '504207': [18.994, 79.268],
+  '504208': [18.874, 79.437],
+  '504209': [18.869, 79.347],
+  '504214': [18.958, 79.874],
+  '504215': [18.908, 79.211],
+  '504216': [18.871, 79.583],
+  '504218': [19.058, 79.369],
+  '504219': [19.113, 79.718],
+  '504220': [19.14, 79.358],
+  '504231': [18.993, 79.459],
+  '504251': [19.056, 79.538],
+  '504272': [19.182, 79.482],
+  '504273': [19.224, 79.605],
+  '504292': [19.281, 79.358],
+  '504293': [19.411, 79.177],
+  '504294': [19.198, 79.155],
+  '504295': [19.491, 79.335],
+  '504296': [19.335, 79.493],
+  '504297': [19.191, 79.234],
+  '504299': [19.423, 79.785],
+  '504301': [18.923, 79.459],
+  '504302': [18.853, 79.482],
+  '504303': [18.864, 79.513],
+  '504304': [19.401, 78.27],
+  '504306': [19.117, 78.225],
+  '504307': [19.413, 78.452],
+  '504308': [19.553, 78.452],
+  '504309': [19.709, 78.68],
+  '504310': [19.088, 78.498],
+  '504311': [19.364, 78.793],
+  '504312': [19.738, 78.407],
+  '504313': [19.375, 78.974],
+  '504323': [19.263, 78.316],
+  '504346': [19.527, 78.77],
+  '505001': [18.436, 79.144],
+  '505101': [18.15, 79.482],
+  '505102': [18.167, 79.583],
+  '505122': [18.256, 79.493],
+  '505129': [18.327, 79.397],
+  '505152': [18.43, 79.459],
+  '505153': [18.457, 79.527],
+  '505162': [18.521, 79.414],
+  '505172': [18.661, 79.392],
+  '505174': [18.582, 79.448],
+  '505184': [18.594, 79.673],
+  '505185': [18.527, 79.313],
+  '505186': [18.488, 79.234],
+  '505187': [18.753, 79.369],
+  '505188': [18.668, 79.527],
+  '505208': [18.782, 79.459],
+  '505209': [18.741, 79.572],
+  '505210': [18.71, 79.437],
+  '505211': [18.746, 79.507],
+  '505212': [18.578, 79.594],
+  '505214': [18.71, 79.532],
+  '505215': [18.448, 79.101],
+  '505301': [18.458, 78.736],
+  '505302': [18.501, 78.861],
+  '505303': [18.362, 78.691],
+  '505304': [18.298, 78.589],
+  '505305': [18.485, 78.589],
+  '505306': [18.669, 78.736],
+  '505307': [18.575, 78.736],
+  '505325': [18.812, 78.589],
+  '505326': [18.832, 78.714],
+  '505327': [18.803, 78.923],
+  '505330': [18.862, 78.731],
+  '505331': [18.961, 78.725],
+  '505401': [18.403, 78.985],
+  '505402': [18.399, 78.918],
+  '505403': [18.531, 78.782],
+  '505404': [18.259, 78.725],
+  '505405': [18.311, 78.816],
+  '505415': [18.554, 79.166],
+  '505416': [18.71, 79.223],
+  '505425': [18.925, 79.098],
+  '505445': [18.592, 79.008],
+  '505450': [18.953, 78.589],
+  '505451': [18.512, 79.042],
+  '505452': [18.694, 78.951],
+  '505453': [18.79, 78.804],
+  '505454': [18.931, 78.997],
+  '505455': [18.771, 78.872],
+  '505460': [18.969, 78.861],
+  '505462': [18.724, 78.68],
+  '505466': [18.04, 79.189],
+  '505467': [18.142, 79.132],
+  '505468': [18.215, 79.392],
+  '505469': [18.37, 79.234],
+  '505470': [18.283, 79.347],
+  '505471': [18.046, 79.301],
+  '505472': [18.197, 79.268],
+  '505473': [18.172, 79.031],
+  '505474': [18.303, 79.279],
+  '505475': [18.352, 79.538],
+  '505476': [18.1, 79.414],
+  '505480': [18.166, 79.347],
+  '505481': [18.273, 79.166],
+  '505490': [18.252, 79.307],
+  '505497': [18.095, 79.324],
+  '505498': [18.17, 79.414],
+  '505501': [18.608, 78.895],
+  '505502': [18.379, 79.392],
+  '505503': [18.582, 79.874],
+  '505504': [18.661, 80.031],
+  '505505': [18.433, 79.313],
+  '505514': [18.826, 79.414],
+  '505524': [18.517, 78.94],
+  '505525': [18.606, 79.256],
+  '505526': [18.801, 79.177],
+  '505527': [18.39, 79.166],
+  '505528': [18.264, 79.008],
+  '505529': [18.823, 78.963],
+  '505530': [18.327, 79.087],
+  '505531': [18.608, 79.087],
+  '505532': [18.795, 79.087],
+  '506001': [17.997, 79.551],
+  '506002': [17.975, 79.6],
+  '506003': [17.942, 79.527],
+  '506004': [17.98, 79.529],
+  '506005': [17.876, 79.617],
+  '506006': [18.029, 79.628],
+  '506007': [18.001, 79.586],
+  '506009': [18.031, 79.555],
+  '506011': [18.012, 79.574],
+  '506013': [17.977, 79.633],
+  '506015': [18.067, 79.566],
+  '506101': [17.624, 79.942],
+  '506104': [17.529, 79.897],
+  '506105': [17.535, 80.031],
+  '506112': [17.679, 79.863],
+  '506122': [17.795, 79.841],
+  '506132': [17.952, 79.942],
+  '506134': [17.769, 80.031],
+  '506135': [17.939, 80.143],
+  '506142': [18.003, 79.369],
+  '506143': [17.83, 79.403],
+  '506144': [17.886, 79.369],
+  '506145': [17.918, 79.313],
+  '506151': [17.936, 79.414],
+  '506163': [17.574, 79.639],
+  '506164': [18.222, 79.718],
+  '506165': [18.511, 80.321],
+  '506166': [17.916, 79.588],
+  '506167': [17.817, 79.177],
+  '506168': [18.357, 79.841],
+  '506169': [18.429, 79.863],
+  '506170': [18.383, 79.832],
+  '506172': [18.169, 80.522],
+  '506201': [17.677, 79.177],
+  '506221': [17.81, 79.042],
+  '506222': [17.564, 79.459],
+  '506223': [17.945, 78.951],
+  '506224': [17.899, 79.166],
+  '506244': [17.776, 79.268],
+  '506252': [17.736, 79.403],
+  '506301': [17.835, 79.279],
+  '506302': [17.64, 79.358],
+  '506303': [17.635, 79.268],
+  '506310': [17.85, 79.667],
+  '506313': [17.779, 79.549],
+  '506314': [17.704, 79.673],
+  '506315': [17.386, 79.852],
+  '506316': [17.776, 79.482],
+  '506317': [17.648, 79.493],
+  '506318': [17.545, 79.549],
+  '506319': [18.117, 79.729],
+  '506324': [17.522, 79.762],
+  '506330': [17.906, 79.729],
+  '506331': [17.996, 79.81],
+  '506332': [17.845, 79.908],
+  '506342': [18.046, 79.729],
+  '506343': [18.152, 79.953],
+  '506344': [18.23, 80.321],
+  '506345': [18.423, 79.986],
+  '506347': [18.127, 80.143],
+  '506348': [18.307, 79.774],
+  '506349': [18.078, 79.873],
+  '506352': [18.133, 80.042],
+  '506355': [17.905, 78.872],
+  '506356': [18.407, 79.673],
+  '506365': [17.798, 79.673],
+  '506366': [18.321, 79.617],
+  '506367': [17.953, 79.087],
+  '506368': [17.615, 79.762],
+  '506369': [17.744, 79.774],
+  '506370': [18.01, 79.482],
+  '506371': [18.081, 79.504],
+  '506381': [17.397, 80.076],
+  '506391': [18.159, 79.639],
+  '507001': [17.231, 80.137],
+  '507002': [17.297, 80.176],
+  '507003': [17.318, 80.132],
+  '507101': [17.769, 80.499],
+  '507103': [17.474, 80.699],
+  '507111': [17.719, 80.921],
+  '507113': [17.747, 81.538],
+  '507114': [17.539, 81.098],
+  '507115': [17.509, 80.943],
+  '507116': [17.843, 80.821],
+  '507117': [17.961, 80.588],
+  '507118': [17.512, 80.638],
+  '507119': [17.489, 80.649],
+  '507120': [17.468, 80.566],
+  '507121': [17.6, 81.406],
+  '507122': [17.502, 80.299],
+  '507123': [17.691, 80.344],
+  '507124': [17.783, 80.299],
+  '507125': [17.526, 80.613],
+  '507128': [17.76, 80.788],
+  '507129': [17.731, 81.186],
+  '507130': [17.902, 81.888],
+  '507133': [18.247, 80.677],
+  '507134': [17.606, 81.136],
+  '507135': [17.431, 81.296],
+  '507136': [18.52, 80.499],
+  '507137': [17.884, 80.943],
+  '507138': [17.677, 80.777],
+  '507140': [18.046, 80.877],
+  '507154': [17.709, 80.699],
+  '507157': [17.191, 79.93],
+  '507158': [17.131, 80.132],
+  '507159': [17.17, 79.975],
+  '507160': [17.103, 80.042],
+  '507161': [17.295, 79.897],
+  '507163': [17.29, 80.042],
+  '507164': [17.104, 80.788],
+  '507165': [17.143, 80.377],
+  '507166': [17.417, 80.477],
+  '507167': [17.23, 80.477],
+  '507168': [17.321, 80.433],
+  '507169': [17.023, 80.076],
+  '507170': [17.22, 80.042],
+  '507182': [17.359, 80.254],
+  '507183': [17.335, 79.998],
+  '507201': [16.811, 80.522],
+  '507202': [16.904, 80.522],
+  '507203': [16.898, 80.388],
+  '507204': [17.022, 80.288],
+  '507208': [17.123, 80.21],
+  '507209': [17.236, 80.61],
+  '507210': [17.495, 80.165],
+  '507211': [17.636, 80.165],
+  '507301': [17.329, 81.12],
+  '507302': [17.193, 80.699],
+  '507303': [17.246, 80.832],
+  '507304': [17.048, 80.355],
+  '507305': [17.219, 80.254],
+  '507306': [17.299, 80.965],
+  '507316': [17.383, 80.744],
+  '507318': [17.258, 80.215],
+  '508001': [17.084, 79.211],
+  '508004': [17.016, 79.256],
+  '508101': [17.66, 79.076],
+  '508105': [17.711, 78.951],
+  '508111': [17.488, 79.132],
+  '508112': [17.39, 79.042],
+  '508113': [17.314, 79.144],
+  '508114': [17.206, 79.087],
+  '508115': [17.615, 78.906],
+  '508116': [17.61, 78.816],
+  '508126': [17.514, 78.77],
+  '508201': [16.914, 79.762],
+  '508202': [16.683, 79.335],
+  '508204': [16.828, 79.897],
+  '508205': [17.171, 79.313],
+  '508206': [17.007, 79.975],
+  '508207': [16.692, 79.515],
+  '508208': [16.672, 79.46],
+  '508210': [17.316, 79.403],
+  '508211': [17.178, 79.448],
+  '508212': [17.197, 79.807],
+  '508213': [17.074, 79.695],
+  '508217': [16.95, 79.538],
+  '508218': [16.91, 79.673],
+  '508221': [17.332, 79.718],
+  '508223': [17.469, 79.437],
+  '508224': [17.29, 79.572],
+  '508233': [17.057, 79.807],
+  '508234': [17.119, 79.886],
+  '508238': [16.923, 79.942],
+  '508243': [16.679, 79.031],
+  '508244': [17.112, 79.087],
+  '508245': [16.96, 78.861],
+  '508246': [16.739, 79.986],
+  '508247': [17.036, 79.403],
+  '508248': [16.571, 78.974],
+  '508250': [16.852, 78.804],
+  '508252': [17.289, 78.906],
+  '508253': [17.149, 78.906],
+  '508254': [17.213, 79.223],
+  '508255': [16.972, 79.087],
+  '508256': [16.835, 79.132],
+  '508257': [16.75, 79.053],
+  '508258': [16.583, 78.77],
+  '508266': [16.654, 79.223],
+  '508277': [17.495, 79.268],
+  '508278': [16.847, 79.358],
+  '508279': [17.414, 79.493],
+  '508280': [17.421, 79.628],
+  '508284': [17.341, 78.804],
+  '508285': [17.42, 78.963],
+  '508286': [17.576, 79.042],
+  '508355': [16.768, 79.628],
+  '508373': [16.872, 78.951],
+  '508374': [17.043, 79.538],
+  '508376': [17.185, 79.583],
+  '508377': [16.785, 79.317],
+  '509001': [16.761, 78.008],
+  '509102': [16.165, 78.339],
+  '509103': [16.357, 78.042],
+  '509104': [16.123, 77.997],
+  '509105': [16.09, 78.225],
+  '509110': [16.439, 77.86],
+  '509120': [16.223, 78.134],
+  '509125': [16.246, 77.722],
+  '509126': [15.974, 77.814],
+  '509127': [16.01, 77.631],
+  '509128': [16.072, 77.905],
+  '509129': [16.143, 77.539],
+  '509130': [16.477, 77.722],
+  '509131': [16.344, 77.814],
+  '509132': [16.151, 77.677],
+  '509135': [15.923, 77.722],
+  '509152': [15.9, 78.134],
+  '509153': [15.987, 78.042],
+  '509201': [16.385, 78.974],
+  '509202': [16.919, 78.134],
+  '509203': [16.55, 78.179],
+  '509204': [16.671, 77.86],
+  '509205': [16.657, 77.631],
+  '509206': [16.319, 78.179],
+  '509207': [17.099, 78.042],
+  '509208': [16.464, 77.493],
+  '509209': [16.561, 78.361],
+  '509210': [16.744, 77.539],
+  '509215': [16.545, 78.282],
+  '509216': [17.029, 78.236],
+  '509217': [17.201, 78.179],
+  '509219': [16.444, 77.951],
+  '509228': [17.102, 78.282],
+  '509235': [16.419, 78.316],
+  '509301': [16.782, 78.179],
+  '509311': [16.603, 77.493],
+  '509320': [16.656, 78.407],
+  '509321': [16.852, 78.589],
+  '509324': [16.715, 78.634],
+  '509325': [17.151, 78.327],
+  '509326': [16.185, 78.702],
+  '509327': [16.904, 78.68],
+  '509334': [16.824, 77.894],
+  '509335': [16.955, 77.951],
+  '509336': [16.976, 77.539],
+  '509337': [16.903, 77.86],
+  '509338': [17.124, 77.677],
+  '509339': [16.941, 77.722],
+  '509340': [16.867, 78.042],
+  '509349': [16.571, 78.543],
+  '509350': [17.042, 77.665],
+  '509351': [16.605, 77.734],
+  '509352': [16.412, 77.401],
+  '509353': [16.529, 77.619],
+  '509357': [16.79, 78.316],
+  '509358': [16.952, 78.509],
+  '509360': [16.793, 78.577],
+  '509371': [16.804, 77.768],
+  '509375': [16.441, 78.725],
+  '509376': [16.483, 78.634],
+  '509380': [16.545, 78.088],
+  '509381': [16.352, 77.951],
+  '509382': [16.635, 78.042],
+  '509385': [16.427, 78.452],
+  '509401': [16.292, 78.543],
+  '509406': [16.635, 78.236],
+  '509407': [16.837, 77.539],
+  '509408': [16.979, 78.361],
+  '509409': [16.539, 77.78],
+  '509410': [17.058, 78.134],
+  '509411': [16.9, 77.619],
+  '509412': [16.282, 78.361],
+  '515001': [14.694, 77.599],
+  '515002': [14.625, 77.539],
+  '515003': [14.625, 77.648],
+  '515004': [14.73, 77.573],
+  '515005': [14.681, 77.614],
+  '515101': [14.286, 77.608],
+  '515110': [14.082, 77.631],
+  '515122': [13.976, 77.573],
+  '515123': [14.118, 77.447],
+  '515124': [14.029, 77.493],
+  '515133': [14.178, 77.722],
+  '515134': [14.102, 77.802],
+  '515144': [14.228, 77.814],
+  '515154': [14.281, 77.951],
+  '515159': [14.369, 77.926],
+  '515164': [14.182, 77.596],
+  '515201': [13.836, 77.505],
+  '515202': [13.836, 77.505],
+  '515211': [13.756, 77.493],
+  '515212': [13.881, 77.505],
+  '515231': [14, 77.814],
+  '515241': [13.947, 77.677],
+  '515261': [13.902, 77.459],
+  '515271': [13.928, 77.091],
+  '515281': [14.138, 76.987],
+  '515286': [14.014, 76.999],
+  '515291': [13.932, 77.16],
+  '515301': [13.926, 77.264],
+  '515303': [13.874, 77.367],
+  '515305': [14.02, 77.114],
+  '515311': [13.823, 77.033],
+  '515321': [13.782, 77.126],
+  '515331': [13.851, 77.585],
+  '515341': [13.845, 77.688],
+  '515401': [15.132, 77.585],
+  '515402': [15.193, 77.642],
+  '515405': [15.011, 77.688],
+  '515408': [15.058, 77.905],
+  '515411': [14.869, 78.031],
+  '515413': [15.033, 77.991],
+  '515414': [14.785, 77.951],
+  '515415': [14.961, 78.031],
+  '515425': [14.686, 77.814],
+  '515435': [14.821, 77.768],
+  '515445': [14.871, 77.86],
+  '515455': [14.958, 77.768],
+  '515465': [14.652, 78.042],
+  '515501': [14.192, 77.997],
+  '515511': [14.377, 78.042],
+  '515521': [14.025, 78.316],
+  '515531': [14.087, 77.962],
+  '515541': [14.201, 78.179],
+  '515551': [13.972, 78.179],
+  '515556': [13.908, 78.031],
+  '515561': [14.007, 77.951],
+  '515571': [13.883, 78.225],
+  '515581': [14.232, 78.339],
+  '515591': [14.072, 78.122],
+  '515601': [13.873, 77.78],
+  '515611': [14.898, 77.711],
+  '515621': [14.341, 77.355],
+  '515631': [14.575, 77.882],
+  '515641': [14.44, 77.493],
+  '515651': [14.315, 77.722],
+  '515661': [14.546, 77.768],
+  '515671': [14.4, 77.717],
+  '515672': [14.441, 77.873],
+  '515701': [14.724, 77.677],
+  '515711': [14.755, 77.401],
+  '515721': [14.599, 77.688],
+  '515722': [14.534, 77.539],
+  '515731': [14.808, 77.539],
+  '515741': [14.742, 77.172],
+  '515751': [14.615, 77.355],
+  '515761': [14.557, 77.126],
+  '515763': [14.597, 77.033],
+  '515765': [14.379, 77.218],
+  '515766': [14.323, 77.033],
+  '515767': [14.47, 76.999],
+  '515774': [14.888, 77.528],
+  '515775': [14.946, 77.539],
+  '515787': [14.519, 77.264],
+  '515801': [15.154, 77.367],
+  '515803': [15.158, 77.436],
+  '515812': [14.928, 77.218],
+  '515822': [14.836, 77.218],
+  '515832': [14.981, 77.355],
+  '515842': [15.106, 77.321],
+  '515863': [14.553, 76.861],
+  '515865': [14.818, 76.895],
+  '515867': [14.673, 76.953],
+  '515870': [15.026, 77.137],
+  '515871': [14.872, 77.033],
+  '515872': [14.985, 76.814],
+  '516001': [14.478, 78.821],
+  '516002': [14.481, 78.867],
+  '516003': [14.448, 78.782],
+  '516004': [14.383, 78.872],
+  '516101': [13.82, 79.335],
+  '516104': [14.211, 79.358],
+  '516105': [13.93, 79.223],
+  '516107': [14.113, 79.223],
+  '516108': [14.061, 79.087],
+  '516110': [14.083, 79.324],
+  '516115': [14.196, 79.149],
+  '516126': [14.153, 79.087],
+  '516127': [14.39, 79.268],
+  '516128': [14.218, 79.256],
+  '516129': [13.924, 79.087],
+  '516130': [14.055, 78.951],
+  '516150': [14.244, 79.087],
+  '516151': [14.34, 79.177],
+  '516152': [14.321, 79.008],
+  '516162': [14.54, 78.782],
+  '516163': [14.633, 78.804],
+  '516172': [14.744, 78.736],
+  '516173': [14.792, 78.782],
+  '516175': [15.013, 78.816],
+  '516193': [14.978, 79.042],
+  '516203': [14.64, 78.725],
+  '516213': [14.39, 79.008],
+  '516214': [13.951, 78.68],
+  '516215': [13.957, 78.816],
+  '516216': [14.408, 78.68],
+  '516217': [15.123, 78.963],
+  '516218': [14.461, 78.577],
+  '516227': [14.67, 79.098],
+  '516228': [14.793, 79.042],
+  '516233': [14.695, 79.144],
+  '516237': [14.502, 78.963],
+  '516247': [14.44, 79.098],
+  '516257': [14.179, 78.68],
+  '516259': [14.216, 78.498],
+  '516267': [14.079, 78.498],
+  '516268': [14.234, 78.861],
+  '516269': [14.04, 78.634],
+  '516270': [14.09, 78.725],
+  '516289': [14.59, 78.634],
+  '516293': [14.536, 78.714],
+  '516309': [14.592, 78.441],
+  '516310': [14.663, 78.487],
+  '516311': [14.657, 78.457],
+  '516312': [14.737, 78.481],
+  '516321': [14.455, 78.464],
+  '516329': [14.364, 78.464],
+  '516330': [14.055, 78.951],
+  '516339': [14.539, 78.543],
+  '516349': [14.345, 78.316],
+  '516350': [14.498, 78.396],
+  '516355': [14.671, 78.646],
+  '516356': [14.746, 78.663],
+  '516359': [14.861, 78.543],
+  '516360': [14.734, 78.532],
+  '516362': [14.737, 78.6],
+  '516380': [14.668, 78.361],
+  '516390': [14.442, 78.191],
+  '516396': [14.505, 78.077],
+  '516401': [14.584, 78.282],
+  '516411': [14.937, 78.464],
+  '516421': [14.492, 78.282],
+  '516431': [14.91, 78.373],
+  '516432': [14.973, 78.259],
+  '516433': [14.929, 78.305],
+  '516434': [14.808, 78.407],
+  '516439': [14.843, 78.299],
+  '516444': [14.755, 78.27],
+  '516454': [14.623, 78.145],
+  '516464': [14.705, 78.179],
+  '516474': [14.886, 78.134],
+  '516484': [14.533, 78.191],
+  '516501': [14.566, 79.087],
+  '516502': [14.743, 78.951],
+  '516503': [14.877, 78.861],
+  '516504': [14.271, 78.68],
+  '516505': [14.603, 78.906],
+  '517001': [13.224, 79.127],
+  '517002': [13.177, 79.104],
+  '517004': [13.226, 79.053],
+  '517101': [13.579, 79.301],
+  '517102': [13.553, 79.234],
+  '517112': [13.481, 79.144],
+  '517113': [13.543, 79.008],
+  '517123': [13.55, 78.906],
+  '517124': [13.364, 79.076],
+  '517125': [13.232, 79.189],
+  '517126': [13.37, 79.211],
+  '517127': [13.275, 79.121],
+  '517128': [13.181, 79.053],
+  '517129': [13.334, 78.918],
+  '517130': [13.415, 78.951],
+  '517131': [13.271, 79.031],
+  '517132': [13.07, 79.121],
+  '517152': [13.5, 79.053],
+  '517167': [13.293, 79.268],
+  '517172': [13.56, 79.132],
+  '517192': [13.705, 79.053],
+  '517193': [13.656, 79.104],
+  '517194': [13.745, 79.177],
+  '517213': [13.778, 78.906],
+  '517214': [13.737, 78.997],
+  '517234': [13.592, 78.816],
+  '517235': [13.76, 78.759],
+  '517236': [13.82, 78.816],
+  '517237': [13.693, 78.782],
+  '517247': [13.354, 78.589],
+  '517257': [13.453, 78.77],
+  '517277': [13.644, 78.714],
+  '517280': [13.538, 78.634],
+  '517291': [13.72, 78.634],
+  '517297': [13.819, 78.555],
+  '517299': [13.663, 78.623],
+  '517305': [13.868, 78.623],
+  '517319': [13.636, 78.532],
+  '517325': [13.484, 78.452],
+  '517350': [13.703, 78.509],
+  '517351': [13.741, 78.35],
+  '517352': [13.616, 78.361],
+  '517370': [13.655, 78.225],
+  '517390': [13.83, 78.305],
+  '517391': [13.71, 78.168],
+  '517401': [12.852, 78.543],
+  '517403': [13.109, 79.223],
+  '517408': [13.18, 78.77],
+  '517414': [13.35, 78.759],
+  '517415': [13.081, 78.589],
+  '517416': [13.275, 78.861],
+  '517417': [13.391, 78.407],
+  '517418': [13.87, 78.43],
+  '517419': [13.163, 79.166],
+  '517421': [13.203, 79.313],
+  '517422': [13.134, 79.008],
+  '517423': [12.879, 78.373],
+  '517424': [12.988, 78.543],
+  '517425': [12.78, 78.43],
+  '517426': [12.807, 78.282],
+  '517429': [13.141, 78.906],
+  '517432': [13.219, 78.634],
+  '517501': [13.624, 79.431],
+  '517502': [13.623, 79.386],
+  '517503': [13.586, 79.459],
+  '517504': [13.707, 79.358],
+  '517505': [13.599, 79.363],
+  '517506': [13.133, 78.606],
+  '517507': [13.676, 79.437],
+  '517520': [13.651, 79.521],
+  '517526': [13.59, 79.572],
+  '517536': [13.847, 79.684],
+  '517541': [13.592, 79.897],
+  '517551': [13.57, 79.499],
+  '517561': [13.526, 79.403],
+  '517569': [13.431, 79.313],
+  '517571': [13.497, 79.527],
+  '517581': [13.431, 79.7],
+  '517582': [13.378, 79.414],
+  '517583': [13.441, 79.538],
+  '517584': [13.39, 79.555],
+  '517586': [13.3, 79.729],
+  '517587': [13.392, 79.729],
+  '517588': [13.457, 79.942],
+  '517589': [13.36, 79.807],
+  '517590': [13.318, 79.594],
+  '517591': [13.355, 79.673],
+  '517592': [13.354, 79.51],
+  '517599': [13.253, 79.403],
+  '517619': [13.76, 79.538],
+  '517620': [13.865, 79.572],
+  '517640': [13.761, 79.689],
+  '517641': [13.709, 79.661],
+  '517642': [13.804, 79.751],
+  '517643': [13.561, 79.695],
+  '517644': [13.739, 79.712],
+  '517645': [13.715, 79.818],
+  '518001': [15.829, 78.051],
+  '518002': [15.666, 78.088],
+  '518003': [15.817, 77.991],
+  '518004': [15.857, 77.985],
+  '518005': [15.832, 78.027],
+  '518006': [15.838, 78.011],
+  '518007': [15.761, 78.061],
+  '518010': [15.63, 78.27],
+  '518101': [15.978, 78.725],
+  '518102': [16.135, 78.85],
+  '518112': [15.494, 78.316],
+  '518122': [15.227, 78.065],
+  '518123': [15.067, 78.088],
+  '518124': [15.307, 78.27],
+  '518134': [15.266, 78.361],
+  '518135': [15.224, 78.452],
+  '518145': [15.003, 78.396],
+  '518155': [15.095, 78.396],
+  '518165': [15.135, 78.282],
+  '518166': [15.029, 78.225],
+  '518176': [15.433, 78.259],
+  '518186': [15.233, 78.276],
+  '518196': [15.153, 78.191],
+  '518206': [15.481, 78.174],
+  '518216': [15.531, 77.94],
+  '518217': [15.559, 78.031],
+  '518218': [15.672, 77.985],
+  '518220': [15.242, 77.905],
+  '518221': [15.234, 77.768],
+  '518222': [15.38, 77.905],
+  '518225': [15.51, 77.768],
+  '518301': [15.656, 77.298],
+  '518302': [15.629, 77.229],
+  '518308': [15.565, 77.126],
+  '518313': [15.847, 77.218],
+  '518323': [15.739, 77.332],
+  '518333': [15.841, 77.126],
+  '518343': [15.863, 77.493],
+  '518344': [15.749, 77.126],
+  '518345': [15.904, 77.401],
+  '518346': [15.471, 77.079],
+  '518347': [15.489, 77.401],
+  '518348': [15.379, 77.079],
+  '518349': [15.932, 77.298],
+  '518350': [15.63, 77.447],
+  '518360': [15.771, 77.493],
+  '518380': [15.403, 77.493],
+  '518385': [15.262, 77.447],
+  '518390': [15.279, 77.55],
+  '518395': [15.433, 77.218],
+  '518396': [15.254, 77.309],
+  '518401': [15.861, 78.27],
+  '518405': [15.771, 78.316],
+  '518411': [15.967, 78.305],
+  '518412': [15.947, 78.373],
+  '518422': [15.924, 78.589],
+  '518432': [15.821, 78.168],
+  '518442': [15.814, 78.464],
+  '518452': [15.763, 78.179],
+  '518462': [15.83, 77.722],
+  '518463': [15.687, 77.631],
+  '518464': [15.705, 77.757],
+  '518465': [15.589, 77.539],
+  '518466': [15.826, 77.848],
+  '518467': [15.702, 77.905],
+  '518468': [15.413, 77.677],
+  '518501': [15.485, 78.481],
+  '518502': [15.537, 78.702],
+  '518508': [15.696, 78.418],
+  '518510': [15.292, 78.526],
+  '518511': [15.536, 78.464],
+  '518512': [15.496, 78.577],
+  '518513': [15.608, 78.509],
+  '518523': [15.562, 78.509],
+  '518533': [15.722, 78.702],
+  '518543': [15.137, 78.543],
+  '518553': [15.004, 78.634],
+  '518563': [15.338, 78.526],
+  '518573': [15.306, 78.464],
+  '518583': [15.375, 78.68],
+  '518593': [15.375, 78.464],
+  '518594': [15.234, 78.634],
+  '518598': [15.4, 78.077],
+  '518599': [15.471, 78.099],
+  '518674': [15.367, 78.424],
+  '520001': [16.538, 80.613],
+  '520002': [16.51, 80.635],
+  '520003': [16.526, 80.629],
+  '520004': [16.523, 80.658],
+  '520007': [16.485, 80.672],
+  '520008': [16.513, 80.665],
+  '520010': [16.499, 80.652],
+  '520011': [16.523, 80.637],
+  '520012': [16.531, 80.597],
+  '520013': [16.498, 80.63],
+  '520015': [16.542, 80.638],
+  '521001': [16.125, 81.109],
+  '521002': [16.246, 81.219],
+  '521101': [16.509, 80.821],
+  '521102': [16.536, 80.771],
+  '521104': [16.501, 80.76],
+  '521105': [16.68, 80.976],
+  '521106': [16.563, 80.976],
+  '521107': [16.551, 80.71],
+  '521108': [16.518, 80.696],
+  '521109': [16.628, 80.865],
+  '521110': [16.631, 80.932],
+  '521111': [16.699, 80.888],
+  '521120': [15.852, 80.965],
+  '521121': [16.026, 80.954],
+  '521125': [16.088, 80.915],
+  '521126': [16.14, 80.91],
+  '521130': [16.096, 80.976],
+  '521131': [16.122, 81.02],
+  '521132': [16.179, 80.871],
+  '521133': [16.171, 80.948],
+  '521134': [16.474, 80.698],
+  '521135': [16.21, 80.91],
+  '521136': [16.263, 80.926],
+  '521137': [16.475, 80.705],
+  '521138': [16.286, 80.915],
+  '521139': [16.452, 80.716],
+  '521148': [16.404, 80.937],
+  '521149': [16.218, 81.087],
+  '521150': [16.214, 80.998],
+  '521151': [16.436, 80.755],
+  '521153': [16.433, 80.805],
+  '521156': [16.268, 81.037],
+  '521157': [16.305, 80.954],
+  '521158': [16.308, 81.02],
+  '521162': [16.192, 81.042],
+  '521163': [16.344, 80.777],
+  '521164': [16.424, 80.86],
+  '521165': [16.347, 80.843],
+  '521170': [16.818, 80.422],
+  '521175': [16.918, 80.065],
+  '521178': [16.921, 80.132],
+  '521180': [16.699, 80.377],
+  '521181': [16.716, 80.477],
+  '521182': [16.703, 80.21],
+  '521183': [16.695, 80.288],
+  '521185': [16.801, 80.299],
+  '521190': [16.855, 80.221],
+  '521201': [16.78, 80.877],
+  '521202': [16.787, 80.818],
+  '521207': [16.831, 80.965],
+  '521211': [16.683, 80.788],
+  '521212': [16.621, 80.71],
+  '521213': [16.921, 80.877],
+  '521214': [17.014, 80.877],
+  '521215': [16.866, 80.699],
+  '521225': [16.539, 80.572],
+  '521226': [16.946, 80.666],
+  '521227': [17.006, 80.699],
+  '521228': [16.616, 80.599],
+  '521229': [16.72, 80.566],
+  '521230': [16.726, 80.699],
+  '521235': [17.107, 80.599],
+  '521241': [16.591, 80.555],
+  '521245': [16.387, 80.816],
+  '521246': [16.308, 80.882],
+  '521247': [16.248, 80.835],
+  '521250': [16.261, 80.871],
+  '521256': [16.355, 80.882],
+  '521260': [16.463, 80.821],
+  '521261': [16.402, 80.904],
+  '521263': [16.45, 80.937],
+  '521286': [16.602, 80.799],
+  '521301': [16.401, 81.02],
+  '521311': [16.49, 80.91],
+  '521312': [16.506, 80.882],
+  '521321': [16.541, 81.02],
+  '521322': [16.382, 80.971],
+  '521323': [16.443, 81.048],
+  '521324': [16.381, 81.362],
+  '521325': [16.428, 81.087],
+  '521326': [16.523, 81.107],
+  '521327': [16.514, 81.059],
+  '521328': [15.948, 81.053],
+  '521329': [16.386, 81.197],
+  '521330': [16.38, 81.064],
+  '521331': [16.316, 81.081],
+  '521332': [16.292, 81.048],
+  '521333': [16.552, 81.263],
+  '521340': [16.6, 81.307],
+  '521343': [16.469, 81.23],
+  '521344': [16.484, 81.329],
+  '521345': [16.547, 81.153],
+  '521356': [16.352, 81.092],
+  '521366': [16.29, 81.153],
+  '521369': [16.316, 81.197],
+  '521390': [16.368, 80.984],
+  '521401': [17.005, 80.422],
+  '521402': [16.973, 80.243],
+  '521403': [16.998, 80.522],
+  '521456': [16.606, 80.377],
+  '521457': [16.849, 80.087],
+  '522001': [16.289, 80.46],
+  '522002': [16.315, 80.441],
+  '522003': [16.285, 80.43],
+  '522004': [16.307, 80.396],
+  '522005': [16.302, 80.355],
+  '522006': [16.32, 80.41],
+  '522007': [16.319, 80.43],
+  '522009': [16.316, 80.33],
+  '522015': [16.115, 80.332],
+  '522016': [16.478, 80.388],
+  '522017': [16.234, 80.399],
+  '522018': [16.397, 80.399],
+  '522019': [16.185, 80.332],
+  '522020': [16.558, 80.355],
+  '522034': [16.377, 80.466],
+  '522101': [15.877, 80.477],
+  '522102': [15.884, 80.441],
+  '522111': [15.939, 80.555],
+  '522112': [16.049, 80.422],
+  '522113': [15.985, 80.427],
+  '522124': [16.093, 80.494],
+  '522201': [16.251, 80.649],
+  '522202': [16.229, 80.672],
+  '522211': [16.202, 80.583],
+  '522212': [16.158, 80.522],
+  '522213': [16.241, 80.555],
+  '522233': [16.157, 80.243],
+  '522234': [16.202, 80.199],
+  '522235': [16.057, 80.344],
+  '522236': [16.447, 80.466],
+  '522237': [16.54, 80.466],
+  '522256': [16.094, 80.782],
+  '522257': [16.118, 80.793],
+  '522258': [16.024, 80.771],
+  '522259': [16.063, 80.733],
+  '522261': [16.178, 80.71],
+  '522262': [15.937, 80.788],
+  '522264': [15.882, 80.865],
+  '522265': [16.044, 80.843],
+  '522268': [15.998, 80.727],
+  '522301': [16.241, 80.742],
+  '522302': [16.406, 80.599],
+  '522303': [16.433, 80.666],
+  '522304': [16.296, 80.733],
+  '522305': [16.363, 80.666],
+  '522306': [16.287, 80.672],
+  '522307': [16.307, 80.605],
+  '522308': [16.334, 80.683],
+  '522309': [16.037, 80.666],
+  '522310': [15.959, 80.488],
+  '522311': [16.01, 80.599],
+  '522312': [16.122, 80.627],
+  '522313': [16.175, 80.644],
+  '522314': [15.92, 80.666],
+  '522315': [16.03, 80.511],
+  '522316': [16.1, 80.533],
+  '522317': [15.909, 80.422],
+  '522318': [16.156, 80.594],
+  '522324': [16.16, 80.821],
+  '522325': [16.107, 80.688],
+  '522329': [15.966, 80.644],
+  '522330': [16.36, 80.599],
+  '522341': [16.08, 80.599],
+  '522401': [16.416, 80.31],
+  '522402': [16.505, 80.221],
+  '522403': [16.421, 80.165],
+  '522408': [16.313, 80.087],
+  '522409': [16.603, 80.076],
+  '522410': [16.547, 80.109],
+  '522411': [16.587, 79.975],
+  '522412': [16.427, 80.042],
+  '522413': [16.502, 79.897],
+  '522414': [16.635, 79.762],
+  '522415': [16.581, 79.628],
+  '522421': [16.575, 79.493],
+  '522426': [16.475, 79.358],
+  '522435': [16.595, 79.897],
+  '522436': [16.532, 80.288],
+  '522437': [16.485, 79.796],
+  '522438': [16.332, 80.254],
+  '522439': [16.553, 79.301],
+  '522501': [16.476, 80.599],
+  '522502': [16.447, 80.605],
+  '522503': [16.45, 80.533],
+  '522508': [16.385, 80.516],
+  '522509': [16.309, 80.511],
+  '522510': [16.377, 80.53],
+  '522529': [16.275, 80.266],
+  '522549': [16.27, 80.176],
+  '522601': [16.193, 80.02],
+  '522603': [16.285, 79.998],
+  '522611': [16.174, 80.109],
+  '522612': [16.389, 79.493],
+  '522613': [16.311, 79.335],
+  '522614': [16.402, 79.762],
+  '522615': [16.364, 79.942],
+  '522616': [16.083, 80.154],
+  '522617': [16.188, 79.908],
+  '522619': [16.132, 80.199],
+  '522626': [16.035, 80.109],
+  '522646': [16.115, 79.841],
+  '522647': [16.038, 79.684],
+  '522649': [16.022, 79.841],
+  '522657': [16.119, 79.673],
+  '522658': [16.216, 79.762],
+  '522659': [15.977, 79.628],
+  '522660': [15.935, 79.718],
+  '522661': [16.255, 79.841],
+  '522663': [16.256, 79.628],
+  '523001': [15.481, 80.059],
+  '523002': [15.502, 80.003],
+  '523101': [15.265, 80.02],
+  '523104': [15.221, 80.065],
+  '523105': [15.204, 79.942],
+  '523108': [15.133, 79.403],
+  '523109': [15.291, 79.807],
+  '523110': [15.093, 79.538],
+  '523111': [15.329, 79.628],
+  '523112': [15.171, 79.223],
+  '523113': [15.152, 79.807],
+  '523114': [15.064, 79.661],
+  '523115': [15.015, 79.852],
+  '523116': [15.148, 79.718],
+  '523117': [15.186, 79.538],
+  '523135': [15.693, 80.243],
+  '523155': [15.842, 80.349],
+  '523156': [15.827, 80.354],
+  '523157': [15.809, 80.383],
+  '523165': [15.796, 80.349],
+  '523166': [15.84, 80.422],
+  '523167': [15.817, 80.165],
+  '523168': [15.906, 80.332],
+  '523169': [15.973, 80.288],
+  '523170': [15.867, 80.254],
+  '523171': [16.017, 80.221],
+  '523180': [15.597, 80.176],
+  '523181': [15.762, 80.243],
+  '523182': [15.525, 80.132],
+  '523183': [15.663, 80.109],
+  '523184': [15.764, 80.288],
+  '523185': [15.758, 80.154],
+  '523186': [15.666, 80.176],
+  '523187': [15.772, 80.327],
+  '523190': [15.898, 80.176],
+  '523201': [15.853, 79.942],
+  '523211': [15.613, 80.02],
+  '523212': [15.729, 80.02],
+  '523213': [15.755, 80.087],
+  '523214': [15.819, 80.093],
+  '523223': [15.318, 79.403],
+  '523224': [15.311, 79.268],
+  '523225': [15.528, 79.942],
+  '523226': [15.558, 79.841],
+  '523227': [15.42, 79.369],
+  '523228': [15.496, 79.268],
+  '523230': [15.309, 79.459],
+  '523240': [15.56, 79.628],
+  '523241': [15.646, 79.493],
+  '523245': [15.461, 79.493],
+  '523246': [15.549, 79.403],
+  '523247': [15.794, 79.673],
+  '523252': [15.739, 79.751],
+  '523253': [15.613, 79.762],
+  '523254': [15.371, 79.538],
+  '523260': [15.916, 80.042],
+  '523261': [15.859, 80.076],
+  '523262': [15.57, 80.087],
+  '523263': [15.678, 79.93],
+  '523264': [15.709, 79.852],
+  '523265': [15.8, 79.807],
+  '523270': [15.427, 79.762],
+  '523271': [15.35, 79.841],
+  '523272': [15.438, 79.986],
+  '523273': [15.416, 79.902],
+  '523274': [15.335, 80.02],
+  '523279': [15.354, 79.93],
+  '523280': [15.38, 80.115],
+  '523281': [15.052, 79.908],
+  '523286': [15.48, 80.154],
+  '523291': [15.034, 80.02],
+  '523292': [15.162, 80.031],
+  '523301': [15.987, 80.087],
+  '523302': [16.098, 79.975],
+  '523303': [15.992, 79.942],
+  '523304': [15.836, 79.583],
+  '523305': [15.829, 79.448],
+  '523315': [15.732, 79.358],
+  '523316': [15.722, 79.273],
+  '523320': [15.82, 79.268],
+  '523326': [15.971, 79.493],
+  '523327': [16.099, 79.268],
+  '523328': [16.2, 79.448],
+  '523329': [15.767, 79.132],
+  '523330': [15.918, 79.358],
+  '523331': [16.014, 78.974],
+  '523332': [15.679, 79.223],
+  '523333': [15.716, 79.042],
+  '523334': [15.5, 79.098],
+  '523335': [15.663, 78.906],
+  '523336': [15.612, 79.031],
+  '523346': [15.397, 79.132],
+  '523356': [15.38, 79.008],
+  '523357': [15.476, 78.861],
+  '523367': [15.265, 78.793],
+  '523368': [15.473, 79.031],
+  '523369': [15.29, 78.946],
+  '523370': [15.572, 79.166],
+  '523371': [15.647, 79.279],
+  '523372': [15.659, 78.816],
+  '523373': [15.254, 79.042],
+  '524001': [14.453, 79.984],
+  '524002': [14.439, 80.109],
+  '524003': [14.411, 79.998],
+  '524004': [14.452, 79.886],
+  '524005': [14.472, 79.988],
+  '524101': [14.128, 79.841],
+  '524121': [13.688, 79.986],
+  '524123': [13.783, 80.076],
+  '524124': [13.697, 80.21],
+  '524126': [13.869, 79.942],
+  '524127': [13.918, 80.031],
+  '524129': [13.829, 79.818],
+  '524131': [14.043, 79.718],
+  '524132': [13.902, 79.628],
+  '524134': [14.079, 79.493],
+  '524137': [14.512, 80.015],
+  '524142': [14.79, 79.986],
+  '524152': [14.735, 80.042],
+  '524201': [14.958, 79.863],
+  '524203': [14.943, 80.042],
+  '524221': [14.953, 79.493],
+  '524222': [14.856, 79.403],
+  '524223': [14.879, 79.897],
+  '524224': [14.869, 79.673],
+  '524225': [14.783, 79.807],
+  '524226': [14.894, 79.223],
+  '524227': [14.995, 79.403],
+  '524228': [14.817, 79.538],
+  '524230': [14.806, 79.313],
+  '524234': [14.732, 79.718],
+  '524236': [15.037, 79.313],
+  '524239': [15.007, 79.673],
+  '524240': [14.692, 79.852],
+  '524301': [14.543, 79.347],
+  '524302': [14.62, 79.268],
+  '524303': [14.596, 79.504],
+  '524304': [14.717, 79.639],
+  '524305': [14.522, 79.908],
+  '524306': [14.564, 79.818],
+  '524307': [14.676, 79.493],
+  '524308': [14.642, 79.762],
+  '524309': [14.502, 79.718],
+  '524310': [15.028, 79.132],
+  '524311': [14.393, 80.109],
+  '524312': [14.714, 79.313],
+  '524313': [14.532, 80.132],
+  '524314': [14.484, 80.087],
+  '524315': [14.69, 80.065],
+  '524316': [14.516, 80.027],
+  '524317': [14.614, 79.908],
+  '524318': [14.601, 80.132],
+  '524320': [14.36, 79.886],
+  '524321': [14.272, 79.975],
+  '524322': [14.6, 79.594],
+  '524323': [14.24, 80.031],
+  '524341': [14.496, 79.583],
+  '524342': [14.416, 79.594],
+  '524343': [14.49, 79.448],
+  '524344': [14.278, 80.109],
+  '524345': [14.412, 79.762],
+  '524346': [14.366, 80.02],
+  '524366': [14.542, 79.97],
+  '524401': [13.556, 80.121],
+  '524402': [14.003, 79.852],
+  '524403': [13.878, 80.165],
+  '524404': [13.993, 79.628],
+  '524405': [14.278, 79.852],
+  '524406': [14.149, 79.774],
+  '524407': [14.224, 79.715],
+  '524408': [14.203, 79.535],
+  '524409': [14.318, 79.718],
+  '524410': [14.063, 79.93],
+  '524411': [14.071, 80.109],
+  '524412': [14.148, 80.031],
+  '524413': [14.02, 79.998],
+  '524414': [14.306, 79.448],
+  '524415': [13.978, 80.087],
+  '524421': [13.92, 79.796],
+  '530001': [17.7, 83.296],
+  '530002': [17.712, 83.312],
+  '530003': [17.724, 83.323],
+  '530004': [17.723, 83.285],
+  '530005': [17.666, 83.245],
+  '530007': [17.749, 83.267],
+  '530008': [17.734, 83.275],
+  '530009': [17.724, 83.235],
+  '530011': [17.692, 83.243],
+  '530012': [17.699, 83.192],
+  '530013': [17.742, 83.312],
+  '530014': [17.679, 83.277],
+  '530015': [17.697, 83.221],
+  '530016': [17.729, 83.301],
+  '530017': [17.737, 83.339],
+  '530018': [17.744, 83.252],
+  '530020': [17.716, 83.3],
+  '530022': [17.748, 83.323],
+  '530024': [17.747, 83.296],
+  '530026': [17.685, 83.21],
+  '530027': [17.747, 83.202],
+  '530028': [17.772, 83.245],
+  '530029': [17.762, 83.216],
+  '530031': [17.61, 83.176],
+  '530032': [17.657, 83.154],
+  '530035': [17.707, 83.279],
+  '530040': [17.761, 83.288],
+  '530041': [17.808, 83.355],
+  '530043': [17.754, 83.344],
+  '530044': [17.658, 83.197],
+  '530045': [17.788, 83.374],
+  '530046': [17.69, 83.165],
+  '530047': [17.781, 83.181],
+  '530048': [17.83, 83.39],
+  '530049': [17.72, 83.173],
+  '530051': [17.791, 83.21],
+  '530052': [17.899, 83.347],
+  '531001': [17.675, 83.004],
+  '531002': [17.553, 83.052],
+  '531011': [17.557, 83.004],
+  '531019': [17.695, 83.084],
+  '531020': [17.561, 83.111],
+  '531021': [17.63, 83.068],
+  '531022': [17.935, 83.025],
+  '531023': [17.786, 82.977],
+  '531024': [18.073, 82.627],
+  '531025': [17.841, 82.713],
+  '531026': [17.74, 82.853],
+  '531027': [17.934, 82.67],
+  '531028': [17.942, 82.886],
+  '531029': [18.046, 82.519],
+  '531030': [18.033, 82.799],
+  '531031': [17.659, 82.886],
+  '531032': [17.746, 83.004],
+  '531033': [17.604, 82.982],
+  '531034': [17.853, 83.058],
+  '531035': [17.772, 83.09],
+  '531036': [17.814, 82.939],
+  '531040': [18.328, 82.519],
+  '531055': [17.576, 82.875],
+  '531060': [17.456, 82.81],
+  '531061': [17.484, 82.918],
+  '531075': [17.885, 82.939],
+  '531077': [18.137, 82.746],
+  '531081': [17.382, 82.702],
+  '531082': [17.483, 82.74],
+  '531083': [17.476, 82.702],
+  '531084': [17.666, 82.432],
+  '531085': [17.508, 82.627],
+  '531087': [17.746, 82.084],
+  '531105': [17.959, 82.106],
+  '531111': [17.969, 82.367],
+  '531113': [17.618, 82.724],
+  '531114': [17.735, 82.702],
+  '531115': [17.547, 82.41],
+  '531116': [17.787, 82.54],
+  '531117': [17.591, 82.638],
+  '531126': [17.402, 82.616],
+  '531127': [17.307, 82.594],
+  '531133': [17.87, 82.237],
+  '531149': [18.278, 83.058],
+  '531151': [18.267, 82.756],
+  '531162': [17.973, 83.432],
+  '531163': [17.901, 83.411],
+  '531173': [17.861, 83.272],
+  '531219': [17.993, 83.325],
+  '532001': [18.289, 83.906],
+  '532005': [18.276, 83.874],
+  '532122': [18.569, 83.624],
+  '532123': [18.455, 83.752],
+  '532127': [18.476, 83.645],
+  '532148': [18.393, 83.656],
+  '532168': [18.397, 83.784],
+  '532185': [18.412, 83.879],
+  '532190': [18.508, 83.921],
+  '532195': [18.516, 84.154],
+  '532201': [18.634, 84.154],
+  '532203': [18.6, 84.224],
+  '532211': [18.542, 84.259],
+  '532212': [18.609, 84.296],
+  '532213': [18.749, 84.07],
+  '532214': [18.701, 84.027],
+  '532215': [18.682, 84.196],
+  '532216': [18.755, 84.238],
+  '532218': [18.687, 84.344],
+  '532219': [18.756, 84.486],
+  '532220': [18.736, 84.386],
+  '532221': [18.807, 84.407],
+  '532222': [18.714, 84.449],
+  '532242': [18.928, 84.491],
+  '532243': [18.834, 84.512],
+  '532263': [18.901, 84.59],
+  '532264': [18.906, 84.533],
+  '532284': [18.936, 84.569],
+  '532290': [18.997, 84.622],
+  '532291': [19.001, 84.554],
+  '532292': [18.956, 84.637],
+  '532312': [19.1, 84.7],
+  '532322': [19.029, 84.7],
+  '532401': [18.273, 83.943],
+  '532402': [18.339, 83.815],
+  '532403': [18.22, 83.773],
+  '532404': [18.275, 84.006],
+  '532405': [18.322, 84.027],
+  '532406': [18.325, 84.112],
+  '532407': [18.16, 83.741],
+  '532408': [18.223, 83.879],
+  '532409': [18.157, 83.656],
+  '532410': [18.268, 83.815],
+  '532421': [18.406, 84.038],
+  '532425': [18.439, 83.964],
+  '532426': [18.601, 84.043],
+  '532427': [18.511, 84.006],
+  '532428': [18.641, 83.996],
+  '532429': [18.372, 84.091],
+  '532430': [18.445, 84.154],
+  '532432': [18.513, 84.07],
+  '532440': [18.538, 83.741],
+  '532443': [18.681, 83.784],
+  '532445': [18.529, 83.837],
+  '532455': [18.824, 83.826],
+  '532456': [18.954, 83.794],
+  '532457': [18.77, 83.964],
+  '532458': [18.603, 83.943],
+  '532459': [18.685, 83.911],
+  '532460': [18.724, 83.656],
+  '532461': [18.639, 83.582],
+  '532462': [18.6, 83.661],
+  '532474': [18.472, 84.075],
+  '532484': [18.366, 83.9],
+  '533001': [16.948, 82.253],
+  '533002': [16.938, 82.223],
+  '533003': [16.972, 82.253],
+  '533004': [16.966, 82.227],
+  '533005': [17.037, 82.269],
+  '533006': [16.944, 82.155],
+  '533016': [16.894, 82.204],
+  '533101': [16.994, 81.768],
+  '533102': [17.066, 81.812],
+  '533103': [17.005, 81.791],
+  '533104': [17.034, 81.74],
+  '533105': [17.024, 81.784],
+  '533106': [17.013, 81.817],
+  '533107': [16.973, 81.833],
+  '533124': [16.944, 81.839],
+  '533125': [16.924, 81.79],
+  '533126': [16.903, 81.855],
+  '533201': [16.576, 82.024],
+  '533210': [16.441, 81.986],
+  '533211': [16.659, 82.046],
+  '533212': [16.565, 82.182],
+  '533213': [16.514, 82.073],
+  '533214': [16.596, 81.926],
+  '533215': [16.528, 81.981],
+  '533216': [16.656, 82.117],
+  '533217': [16.483, 82.024],
+  '533218': [16.538, 82.011],
+  '533220': [16.649, 82.237],
+  '533221': [16.586, 81.981],
+  '533222': [16.567, 82.09],
+  '533223': [16.712, 81.904],
+  '533228': [16.698, 81.986],
+  '533229': [16.694, 81.877],
+  '533232': [16.812, 81.921],
+  '533233': [16.804, 81.861],
+  '533234': [16.857, 81.855],
+  '533235': [16.853, 81.768],
+  '533236': [16.784, 81.79],
+  '533237': [16.791, 81.828],
+  '533238': [16.739, 81.833],
+  '533239': [16.632, 81.937],
+  '533240': [16.577, 81.877],
+  '533241': [16.645, 81.992],
+  '533242': [16.476, 81.85],
+  '533244': [16.413, 81.877],
+  '533247': [16.497, 81.932],
+  '533248': [16.444, 81.926],
+  '533249': [16.506, 81.877],
+  '533250': [16.387, 81.812],
+  '533251': [16.413, 81.729],
+  '533252': [16.362, 81.768],
+  '533253': [16.439, 81.806],
+  '533254': [16.406, 81.839],
+  '533255': [16.84, 82.03],
+  '533260': [16.872, 82.101],
+  '533261': [16.856, 81.992],
+  '533262': [16.796, 82.095],
+  '533263': [16.725, 82.095],
+  '533264': [16.879, 81.97],
+  '533274': [16.692, 81.833],
+  '533284': [17.387, 81.932],
+  '533285': [17.303, 81.877],
+  '533286': [17.252, 81.79],
+  '533287': [17.179, 81.702],
+  '533288': [17.478, 81.844],
+  '533289': [17.16, 81.833],
+  '533290': [17.199, 81.773],
+  '533291': [17.074, 82.008],
+  '533292': [17.114, 81.855],
+  '533293': [17.087, 81.768],
+  '533294': [17.07, 81.921],
+  '533295': [17.634, 81.647],
+  '533296': [16.998, 81.877],
+  '533297': [17.143, 81.986],
+  '533305': [16.746, 82.008],
+  '533306': [16.718, 82.046],
+  '533307': [16.791, 81.964],
+  '533308': [16.859, 81.921],
+  '533309': [16.737, 81.937],
+  '533339': [17.342, 81.68],
+  '533340': [16.901, 81.937],
+  '533341': [16.954, 81.943],
+  '533342': [16.938, 81.992],
+  '533343': [17.004, 82.03],
+  '533344': [16.935, 82.073],
+  '533345': [16.934, 82.03],
+  '533346': [16.892, 82.003],
+  '533401': [17.315, 82.497],
+  '533406': [17.31, 82.367],
+  '533407': [17.443, 82.464],
+  '533408': [17.231, 82.443],
+  '533428': [17.44, 82.063],
+  '533429': [17.266, 82.117],
+  '533430': [17.258, 82.237],
+  '533431': [17.198, 82.182],
+  '533432': [17.245, 82.182],
+  '533433': [17.12, 82.155],
+  '533434': [17.008, 82.117],
+  '533435': [17.248, 81.975],
+  '533436': [17.471, 82.258],
+  '533437': [17.066, 82.106],
+  '533440': [17.057, 82.182],
+  '533444': [17.233, 82.329],
+  '533445': [17.178, 82.269],
+  '533446': [17.344, 82.313],
+  '533447': [17.158, 82.378],
+  '533448': [17.104, 82.351],
+  '533449': [17.203, 82.313],
+  '533450': [17.106, 82.247],
+  '533461': [16.836, 82.237],
+  '533462': [16.898, 82.155],
+  '533463': [16.755, 82.247],
+  '533464': [16.741, 82.193],
+  '533468': [16.844, 82.139],
+  '533483': [17.624, 81.975],
+  '533577': [16.633, 82.043],
+  '534001': [16.694, 81.111],
+  '534002': [16.661, 81.087],
+  '534003': [16.735, 81.048],
+  '534004': [16.641, 81.175],
+  '534005': [16.727, 81.125],
+  '534006': [16.713, 81.07],
+  '534007': [16.687, 81.015],
+  '534101': [16.848, 81.51],
+  '534102': [16.807, 81.562],
+  '534111': [16.981, 81.461],
+  '534112': [16.897, 81.406],
+  '534122': [16.618, 81.746],
+  '534123': [16.621, 81.812],
+  '534124': [16.668, 81.664],
+  '534126': [16.639, 81.68],
+  '534134': [16.677, 81.598],
+  '534145': [16.892, 81.571],
+  '534146': [16.823, 81.593],
+  '534156': [16.778, 81.636],
+  '534165': [16.766, 81.488],
+  '534166': [16.78, 81.543],
+  '534176': [17.021, 81.433],
+  '534186': [16.656, 81.527],
+  '534195': [16.744, 81.395],
+  '534196': [16.744, 81.521],
+  '534197': [16.705, 81.571],
+  '534198': [16.7, 81.461],
+  '534199': [16.607, 81.461],
+  '534201': [16.52, 81.488],
+  '534202': [16.566, 81.535],
+  '534204': [16.541, 81.502],
+  '534206': [16.561, 81.483],
+  '534207': [16.477, 81.587],
+  '534208': [16.492, 81.505],
+  '534209': [16.605, 81.565],
+  '534210': [16.581, 81.554],
+  '534211': [16.751, 81.708],
+  '534215': [16.663, 81.776],
+  '534216': [16.826, 81.68],
+  '534217': [16.681, 81.708],
+  '534218': [16.761, 81.664],
+  '534222': [16.715, 81.675],
+  '534225': [16.702, 81.642],
+  '534227': [16.81, 81.708],
+  '534230': [16.618, 81.598],
+  '534235': [16.661, 81.362],
+  '534236': [16.504, 81.378],
+  '534237': [16.535, 81.417],
+  '534238': [16.62, 81.642],
+  '534239': [16.444, 81.483],
+  '534240': [16.597, 81.642],
+  '534243': [16.524, 81.587],
+  '534244': [16.547, 81.565],
+  '534245': [16.52, 81.636],
+  '534247': [16.561, 81.642],
+  '534250': [16.528, 81.686],
+  '534260': [16.507, 81.74],
+  '534265': [16.553, 81.719],
+  '534266': [16.528, 81.833],
+  '534267': [16.543, 81.762],
+  '534268': [16.497, 81.795],
+  '534269': [16.581, 81.839],
+  '534275': [16.452, 81.68],
+  '534280': [16.358, 81.658],
+  '534281': [16.401, 81.571],
+  '534301': [16.919, 81.658],
+  '534302': [16.897, 81.702],
+  '534305': [16.939, 81.571],
+  '534311': [17.196, 81.411],
+  '534312': [17.131, 81.406],
+  '534313': [17.009, 81.571],
+  '534315': [17.345, 81.472],
+  '534316': [17.137, 81.538],
+  '534318': [17.195, 81.527],
+  '534320': [16.665, 81.746],
+  '534324': [16.649, 81.795],
+  '534326': [16.685, 81.795],
+  '534327': [16.578, 81.751],
+  '534328': [16.729, 81.729],
+  '534329': [16.851, 81.724],
+  '534330': [16.713, 81.768],
+  '534331': [16.776, 81.729],
+  '534338': [16.587, 81.697],
+  '534340': [17.089, 81.664],
+  '534341': [17.128, 81.614],
+  '534342': [16.988, 81.636],
+  '534350': [16.992, 81.724],
+  '534401': [16.788, 81.329],
+  '534406': [16.792, 81.417],
+  '534411': [16.84, 81.439],
+  '534416': [16.819, 81.356],
+  '534425': [16.856, 81.263],
+  '534426': [16.949, 81.263],
+  '534427': [16.715, 81.263],
+  '534432': [16.789, 81.202],
+  '534437': [16.601, 81.053],
+  '534442': [16.736, 81.197],
+  '534447': [17.125, 81.274],
+  '534448': [17.268, 81.318],
+  '534449': [16.993, 81.197],
+  '534450': [16.78, 81.131],
+  '534451': [17.044, 81.285],
+  '534452': [16.92, 81.131],
+  '534456': [17.168, 81.186],
+  '534460': [17.112, 80.965],
+  '534461': [16.985, 81.02],
+  '534462': [16.927, 81.009],
+  '534467': [17.073, 81.142],
+  '534475': [16.825, 81.087],
+  '535001': [18.116, 83.403],
+  '535002': [18.12, 83.438],
+  '535003': [18.159, 83.368],
+  '535004': [18.082, 83.363],
+  '535005': [18.066, 83.411],
+  '535006': [18.068, 83.475],
+  '535101': [18.305, 83.496],
+  '535102': [18.399, 83.475],
+  '535124': [18.493, 83.454],
+  '535125': [18.262, 83.624],
+  '535126': [18.496, 83.539],
+  '535128': [18.307, 83.56],
+  '535145': [18.135, 83.015],
+  '535148': [18.106, 83.197],
+  '535160': [18.17, 83.181],
+  '535161': [17.998, 83.143],
+  '535183': [17.917, 83.176],
+  '535204': [18.096, 83.582],
+  '535213': [18.048, 83.582],
+  '535214': [18.057, 83.32],
+  '535215': [18.133, 83.304],
+  '535216': [18, 83.539],
+  '535217': [18.199, 83.486],
+  '535218': [18.166, 83.56],
+  '535220': [18.257, 83.475],
+  '535221': [18.179, 83.261],
+  '535240': [17.989, 83.218],
+  '535250': [18.037, 83.261],
+  '535260': [18.228, 83.325],
+  '535270': [18.3, 83.347],
+  '535273': [18.297, 83.261],
+  '535280': [18.209, 83.432],
+  '535281': [17.995, 83.058],
+  '535463': [18.718, 83.486],
+  '535501': [18.776, 83.454],
+  '535521': [18.906, 83.443],
+  '535522': [18.798, 83.39],
+  '535523': [19.008, 83.656],
+  '535524': [19.005, 83.571],
+  '535525': [18.779, 83.539],
+  '535526': [18.804, 83.582],
+  '535527': [18.747, 83.304],
+  '535534': [18.88, 83.709],
+  '535546': [18.679, 83.39],
+  '535547': [18.663, 83.272],
+  '535557': [18.578, 83.528],
+  '535558': [18.631, 83.347],
+  '535568': [18.564, 83.454],
+  '535573': [18.561, 83.39],
+  '535578': [18.49, 83.368],
+  '535579': [18.474, 83.272],
+  '535580': [18.37, 83.325],
+  '535581': [18.391, 83.24],
+  '535591': [18.566, 83.186],
+  '535592': [18.468, 83.101],
+  '535593': [18.657, 83.101],
+  '535594': [18.807, 83.645],
+  '560001': [12.977, 77.599],
+  '560002': [12.964, 77.582],
+  '560003': [13.002, 77.571],
+  '560004': [12.944, 77.574],
+  '560005': [12.998, 77.623],
+  '560006': [13.014, 77.588],
+  '560007': [12.958, 77.631],
+  '560008': [12.982, 77.626],
+  '560009': [12.977, 77.577],
+  '560010': [12.985, 77.553],
+  '560011': [12.934, 77.59],
+  '560012': [13.014, 77.566],
+  '560013': [13.05, 77.553],
+  '560014': [13.073, 77.546],
+  '560015': [13.063, 77.528],
+  '560016': [13.017, 77.68],
+  '560017': [12.955, 77.659],
+  '560018': [12.957, 77.564],
+  '560019': [12.947, 77.562],
+  '560020': [12.989, 77.574],
+  '560021': [12.993, 77.563],
+  '560022': [13.029, 77.54],
+  '560023': [12.976, 77.559],
+  '560024': [13.049, 77.592],
+  '560025': [12.966, 77.607],
+  '560026': [12.957, 77.548],
+  '560027': [12.956, 77.592],
+  '560029': [12.934, 77.604],
+  '560030': [12.944, 77.608],
+  '560032': [13.03, 77.605],
+  '560033': [12.998, 77.641],
+  '560034': [12.926, 77.622],
+  '560035': [12.905, 77.682],
+  '560036': [13.008, 77.696],
+  '560037': [12.957, 77.705],
+  '560038': [12.978, 77.641],
+  '560039': [12.945, 77.525],
+  '560040': [12.968, 77.53],
+  '560041': [12.922, 77.594],
+  '560042': [12.983, 77.613],
+  '560043': [13.021, 77.648],
+  '560045': [13.026, 77.62],
+  '560046': [13.001, 77.6],
+  '560047': [12.954, 77.618],
+  '560048': [12.985, 77.708],
+  '560049': [13.022, 77.713],
+  '560050': [12.935, 77.559],
+  '560051': [12.988, 77.599],
+  '560053': [12.969, 77.573],
+  '560054': [13.035, 77.557],
+  '560055': [13.008, 77.558],
+  '560056': [12.951, 77.492],
+  '560057': [13.043, 77.513],
+  '560058': [13.028, 77.512],
+  '560059': [12.925, 77.499],
+  '560060': [12.91, 77.484],
+  '560061': [12.904, 77.538],
+  '560062': [12.883, 77.549],
+  '560063': [13.129, 77.614],
+  '560064': [13.102, 77.586],
+  '560065': [13.094, 77.578],
+  '560066': [12.97, 77.75],
+  '560067': [12.997, 77.758],
+  '560068': [12.889, 77.64],
+  '560070': [12.915, 77.563],
+  '560071': [12.953, 77.641],
+  '560072': [12.972, 77.513],
+  '560073': [13.05, 77.494],
+  '560074': [12.882, 77.442],
+  '560075': [12.971, 77.653],
+  '560076': [12.885, 77.604],
+  '560077': [13.064, 77.65],
+  '560078': [12.899, 77.576],
+  '560079': [12.989, 77.533],
+  '560080': [13.01, 77.58],
+  '560081': [12.923, 77.61],
+  '560082': [12.793, 77.505],
+  '560083': [12.827, 77.555],
+  '560084': [13.015, 77.627],
+  '560085': [12.931, 77.543],
+  '560086': [13.007, 77.545],
+  '560087': [12.921, 77.734],
+  '560088': [13.139, 77.479],
+  '560089': [13.164, 77.447],
+  '560090': [13.08, 77.497],
+  '560091': [12.987, 77.49],
+  '560092': [13.064, 77.593],
+  '560093': [12.986, 77.671],
+  '560094': [13.039, 77.574],
+  '560095': [12.937, 77.641],
+  '560096': [13.016, 77.539],
+  '560097': [13.081, 77.556],
+  '560098': [12.916, 77.513],
+  '560099': [12.812, 77.694],
+  '560100': [12.85, 77.654],
+  '560102': [12.912, 77.645],
+  '560103': [12.93, 77.685],
+  '560104': [12.962, 77.538],
+  '560105': [12.777, 77.642],
+  '560107': [13.09, 77.486],
+  '560108': [12.857, 77.556],
+  '560109': [12.865, 77.524],
+  '560110': [12.95, 77.48],
+  '560300': [13.204, 77.694],
+  '561101': [13.137, 77.137],
+  '561201': [12.86, 77.264],
+  '561202': [14.103, 77.287],
+  '561203': [13.302, 77.493],
+  '561204': [13.342, 77.401],
+  '561205': [13.318, 77.596],
+  '561206': [13.612, 77.573],
+  '561207': [13.844, 77.882],
+  '561208': [13.615, 77.401],
+  '561209': [13.676, 77.722],
+  '561210': [13.537, 77.436],
+  '561211': [13.535, 77.631],
+  '561212': [13.72, 77.917],
+  '561213': [13.518, 77.505],
+  '561228': [13.705, 77.619],
+  '562101': [13.451, 77.768],
+  '562102': [13.32, 77.86],
+  '562103': [13.391, 77.688],
+  '562104': [13.588, 77.768],
+  '562105': [13.413, 77.905],
+  '562106': [12.723, 77.677],
+  '562107': [12.759, 77.734],
+  '562108': [12.741, 77.126],
+  '562109': [12.755, 77.401],
+  '562110': [13.289, 77.699],
+  '562111': [13.256, 77.252],
+  '562112': [12.686, 77.526],
+  '562114': [13.048, 77.86],
+  '562117': [12.532, 77.447],
+  '562119': [12.377, 77.516],
+  '562120': [12.879, 77.172],
+  '562121': [12.626, 77.539],
+  '562122': [13.198, 77.917],
+  '562123': [13.114, 77.355],
+  '562125': [12.861, 77.787],
+  '562126': [12.392, 77.355],
+  '562127': [13.085, 77.241],
+  '562128': [12.785, 77.321],
+  '562129': [13.179, 77.768],
+  '562130': [12.946, 77.39],
+  '562131': [13.057, 77.126],
+  '562132': [13.204, 77.355],
+  '562135': [13.194, 77.848],
+  '562138': [12.568, 77.264],
+  '562149': [13.12, 77.679],
+  '562157': [13.173, 77.631],
+  '562159': [12.791, 77.218],
+  '562160': [12.653, 77.172],
+  '562161': [12.717, 77.212],
+  '562162': [13.031, 77.407],
+  '562163': [13.23, 77.549],
+  '563101': [13.116, 78.099],
+  '563102': [13.183, 78.077],
+  '563103': [13.11, 78.225],
+  '563113': [12.898, 78.305],
+  '563114': [12.97, 78.134],
+  '563115': [12.992, 78.242],
+  '563116': [13.015, 78.373],
+  '563117': [13.049, 78.122],
+  '563118': [12.984, 78.262],
+  '563119': [12.902, 78.253],
+  '563120': [12.941, 78.236],
+  '563121': [12.968, 78.35],
+  '563122': [12.951, 78.279],
+  '563123': [13.605, 78.134],
+  '563124': [13.738, 78.042],
+  '563125': [13.465, 78.042],
+  '563126': [13.242, 78.134],
+  '563127': [13.147, 78.282],
+  '563128': [13.281, 77.997],
+  '563129': [12.836, 78.179],
+  '563130': [13.018, 77.94],
+  '563131': [13.207, 78.361],
+  '563132': [13.213, 78.498],
+  '563133': [13.111, 78.008],
+  '563134': [13.523, 78.316],
+  '563135': [13.337, 78.225],
+  '563136': [13.063, 78.441],
+  '563137': [12.966, 78.042],
+  '563138': [13.341, 78.316],
+  '563139': [12.873, 77.997],
+  '563146': [13.481, 78.145],
+  '563159': [13.553, 77.997],
+  '563160': [12.959, 77.905],
+  '563161': [13.53, 78.213],
+  '563162': [13.03, 78.213],
+  '570001': [12.322, 76.65],
+  '570002': [12.332, 76.627],
+  '570003': [12.37, 76.653],
+  '570004': [12.299, 76.65],
+  '570005': [12.304, 76.638],
+  '570006': [12.315, 76.621],
+  '570007': [12.334, 76.667],
+  '570008': [12.22, 76.572],
+  '570009': [12.303, 76.615],
+  '570010': [12.231, 76.803],
+  '570011': [12.306, 76.679],
+  '570012': [12.324, 76.617],
+  '570014': [12.294, 76.634],
+  '570015': [12.339, 76.65],
+  '570016': [12.351, 76.612],
+  '570017': [12.331, 76.604],
+  '570018': [12.341, 76.575],
+  '570019': [12.333, 76.705],
+  '570020': [12.338, 76.638],
+  '570022': [12.292, 76.615],
+  '570023': [12.272, 76.612],
+  '570025': [12.282, 76.66],
+  '570026': [12.275, 76.56],
+  '570027': [12.358, 76.598],
+  '570028': [12.303, 76.774],
+  '570029': [12.313, 76.696],
+  '570030': [12.314, 76.607],
+  '570031': [12.262, 76.637],
+  '571101': [12.37, 76.895],
+  '571102': [12.463, 76.062],
+  '571103': [12.305, 76.479],
+  '571104': [12.425, 75.981],
+  '571105': [12.246, 76.202],
+  '571107': [12.373, 76.062],
+  '571108': [12.38, 76.202],
+  '571109': [11.958, 76.711],
+  '571110': [12.245, 76.861],
+  '571111': [11.822, 76.664],
+  '571114': [12.025, 76.248],
+  '571115': [12.027, 76.976],
+  '571116': [11.928, 76.306],
+  '571117': [11.978, 77.126],
+  '571118': [12.057, 76.676],
+  '571119': [12.097, 76.803],
+  '571120': [12.283, 76.941],
+  '571121': [11.877, 76.41],
+  '571122': [12.187, 77.045],
+  '571123': [11.784, 76.803],
+  '571124': [12.181, 76.93],
+  '571125': [12.124, 76.433],
+  '571126': [11.684, 76.572],
+  '571127': [11.842, 77.079],
+  '571128': [11.918, 76.803],
+  '571129': [12.152, 76.791],
+  '571130': [12.397, 76.526],
+  '571134': [12.373, 76.283],
+  '571187': [12.539, 76.028],
+  '571189': [12.209, 76.341],
+  '571201': [12.443, 75.691],
+  '571211': [12.239, 75.842],
+  '571212': [12.175, 75.691],
+  '571213': [12.187, 75.923],
+  '571214': [12.307, 75.644],
+  '571215': [12.279, 75.97],
+  '571216': [12.103, 76.016],
+  '571217': [12.022, 75.958],
+  '571218': [12.135, 75.784],
+  '571219': [12.152, 76.109],
+  '571231': [12.802, 75.911],
+  '571232': [12.545, 75.923],
+  '571234': [12.42, 75.888],
+  '571235': [12.679, 75.923],
+  '571236': [12.63, 75.83],
+  '571237': [12.451, 75.83],
+  '571247': [12.365, 75.481],
+  '571248': [12.372, 75.819],
+  '571249': [12.051, 75.877],
+  '571250': [11.969, 76.016],
+  '571251': [12.538, 75.784],
+  '571252': [12.311, 75.737],
+  '571253': [12.332, 75.911],
+  '571254': [12.204, 76.028],
+  '571301': [12.116, 76.679],
+  '571302': [12.148, 76.699],
+  '571311': [12.215, 76.699],
+  '571312': [12.041, 76.791],
+  '571313': [11.934, 76.907],
+  '571314': [12.073, 76.537],
+  '571315': [11.95, 76.526],
+  '571316': [12.046, 76.907],
+  '571342': [11.917, 77.022],
+  '571401': [12.522, 76.901],
+  '571402': [12.559, 76.861],
+  '571403': [12.501, 76.924],
+  '571404': [12.543, 76.976],
+  '571405': [12.601, 76.791],
+  '571415': [12.4, 76.814],
+  '571416': [12.68, 76.803],
+  '571417': [12.257, 77.114],
+  '571418': [12.98, 76.722],
+  '571419': [12.656, 76.999],
+  '571421': [12.431, 77.218],
+  '571422': [12.469, 77.079],
+  '571423': [12.751, 76.433],
+  '571424': [12.385, 76.976],
+  '571425': [12.732, 76.941],
+  '571426': [12.666, 76.526],
+  '571427': [12.436, 76.63],
+  '571428': [12.567, 77.022],
+  '571429': [12.654, 77.062],
+  '571430': [12.337, 77.126],
+  '571431': [12.673, 76.664],
+  '571432': [12.858, 76.757],
+  '571433': [12.593, 77.091],
+  '571434': [12.541, 76.711],
+  '571435': [12.466, 76.67],
+  '571436': [12.758, 76.572],
+  '571438': [12.422, 76.682],
+  '571439': [12.078, 77.355],
+  '571440': [12.07, 77.172],
+  '571441': [12.053, 77.045],
+  '571442': [12.141, 77.022],
+  '571443': [12.164, 77.264],
+  '571444': [12.108, 77.516],
+  '571445': [12.818, 76.849],
+  '571446': [12.629, 76.907],
+  '571448': [12.949, 76.67],
+  '571450': [12.609, 76.953],
+  '571455': [12.489, 76.572],
+  '571457': [11.85, 77.264],
+  '571463': [12.287, 77.033],
+  '571475': [12.416, 77.137],
+  '571476': [12.726, 77.045],
+  '571477': [12.373, 76.722],
+  '571478': [12.454, 76.889],
+  '571490': [11.986, 77.55],
+  '571601': [12.579, 76.352],
+  '571602': [12.445, 76.375],
+  '571603': [12.528, 76.346],
+  '571604': [12.562, 76.248],
+  '571605': [12.604, 76.398],
+  '571606': [12.384, 76.601],
+  '571607': [12.416, 76.578],
+  '571610': [12.377, 76.352],
+  '571617': [12.472, 76.248],
+  '571802': [12.885, 76.63],
+  '571807': [12.441, 76.745],
+  '571811': [13.031, 76.728],
+  '571812': [12.542, 76.514],
+  '572101': [13.347, 77.094],
+  '572102': [13.325, 77.111],
+  '572103': [13.331, 77.128],
+  '572104': [13.297, 77.183],
+  '572105': [13.324, 77.088],
+  '572106': [13.431, 77.137],
+  '572107': [13.369, 77.033],
+  '572111': [12.867, 76.941],
+  '572112': [13.689, 77.079],
+  '572113': [13.911, 76.987],
+  '572114': [13.302, 76.618],
+  '572115': [13.672, 76.757],
+  '572116': [14.098, 77.079],
+  '572117': [13.519, 76.872],
+  '572118': [13.245, 77.045],
+  '572119': [13.475, 76.479],
+  '572120': [13.098, 77.033],
+  '572121': [13.565, 77.309],
+  '572122': [13.238, 77.126],
+  '572123': [12.829, 77.079],
+  '572124': [13.792, 77.309],
+  '572125': [13.625, 76.953],
+  '572126': [12.919, 77.079],
+  '572127': [13.751, 77.401],
+  '572128': [13.596, 77.033],
+  '572129': [13.471, 77.264],
+  '572130': [13.007, 77.033],
+  '572132': [13.694, 77.172],
+  '572133': [13.832, 77.218],
+  '572134': [13.056, 76.884],
+  '572135': [13.906, 76.895],
+  '572136': [14.202, 77.309],
+  '572137': [13.724, 76.895],
+  '572138': [13.507, 77.079],
+  '572139': [13.81, 76.803],
+  '572140': [13.335, 77.264],
+  '572141': [14.24, 77.172],
+  '572142': [12.967, 76.907],
+  '572175': [13.655, 77.309],
+  '572201': [13.252, 76.526],
+  '572211': [13.297, 76.745],
+  '572212': [13.212, 76.618],
+  '572213': [13.125, 76.907],
+  '572214': [13.397, 76.711],
+  '572215': [13.205, 76.699],
+  '572216': [13.331, 76.953],
+  '572217': [13.335, 76.387],
+  '572218': [13.566, 76.479],
+  '572219': [13.226, 76.895],
+  '572220': [13.143, 76.814],
+  '572221': [13.083, 76.757],
+  '572222': [13.49, 76.757],
+  '572223': [13.326, 76.861],
+  '572224': [13.119, 76.572],
+  '572225': [13.255, 76.791],
+  '572226': [13.342, 76.526],
+  '572227': [13.124, 76.664],
+  '572228': [13.528, 76.618],
+  '573101': [13.076, 75.784],
+  '573102': [12.741, 76.028],
+  '573103': [13.327, 76.248],
+  '573111': [13.061, 76.341],
+  '573112': [13.402, 76.167],
+  '573113': [12.613, 76.144],
+  '573115': [13.169, 75.83],
+  '573116': [12.931, 76.433],
+  '573117': [13.481, 76.375],
+  '573118': [13.088, 76.213],
+  '573119': [13.197, 76.341],
+  '573120': [12.835, 76.097],
+  '573121': [13.233, 75.981],
+  '573122': [13.234, 76.202],
+  '573123': [12.759, 75.737],
+  '573124': [12.95, 76.583],
+  '573125': [13.284, 76.074],
+  '573126': [13.422, 76.341],
+  '573127': [12.954, 75.819],
+  '573128': [12.9, 76.051],
+  '573129': [12.848, 75.935],
+  '573130': [12.64, 76.016],
+  '573131': [13.024, 76.479],
+  '573133': [12.633, 76.097],
+  '573134': [12.894, 75.737],
+  '573135': [12.833, 76.491],
+  '573136': [12.615, 76.19],
+  '573137': [12.764, 75.83],
+  '573141': [13.039, 76.56],
+  '573142': [12.699, 76.074],
+  '573144': [13.476, 76.283],
+  '573150': [12.565, 76.097],
+  '573162': [13.135, 76.236],
+  '573164': [13.117, 76.329],
+  '573165': [12.933, 75.644],
+  '573201': [13.019, 76.095],
+  '573202': [13.019, 76.123],
+  '573210': [12.665, 76.283],
+  '573211': [12.787, 76.248],
+  '573212': [12.962, 76.123],
+  '573213': [13.007, 75.958],
+  '573214': [12.937, 75.911],
+  '573215': [13.081, 75.877],
+  '573216': [13.131, 75.97],
+  '573217': [13.033, 76.028],
+  '573218': [12.941, 75.981],
+  '573219': [13.139, 76.109],
+  '573220': [13.009, 76.202],
+  '573225': [12.924, 76.294],
+  '574101': [13.303, 75.038],
+  '574102': [13.284, 74.909],
+  '574103': [13.116, 74.783],
+  '574104': [13.216, 74.997],
+  '574105': [13.268, 74.74],
+  '574106': [13.224, 74.763],
+  '574107': [13.173, 75.131],
+  '574108': [13.378, 74.979],
+  '574109': [13.121, 75.19],
+  '574110': [13.197, 74.956],
+  '574111': [13.143, 74.816],
+  '574112': [13.123, 74.801],
+  '574113': [13.184, 74.845],
+  '574114': [13.172, 75.009],
+  '574115': [13.26, 74.798],
+  '574116': [13.212, 74.839],
+  '574117': [13.191, 74.775],
+  '574118': [13.303, 74.763],
+  '574119': [13.169, 74.775],
+  '574122': [13.25, 75.096],
+  '574129': [13.152, 74.956],
+  '574141': [13.085, 74.868],
+  '574142': [12.968, 74.886],
+  '574143': [12.878, 74.973],
+  '574144': [12.994, 74.933],
+  '574145': [12.932, 74.938],
+  '574146': [13.048, 74.81],
+  '574148': [13.043, 74.877],
+  '574150': [13.061, 74.845],
+  '574151': [12.965, 74.927],
+  '574153': [12.811, 74.973],
+  '574154': [13.099, 74.816],
+  '574197': [13.044, 75.026],
+  '574198': [12.923, 75.458],
+  '574199': [12.837, 74.933],
+  '574201': [12.746, 75.195],
+  '574202': [12.745, 75.283],
+  '574203': [12.78, 75.207],
+  '574210': [12.699, 75.26],
+  '574211': [12.933, 75.049],
+  '574212': [12.661, 75.376],
+  '574213': [13.134, 75.026],
+  '574214': [13.095, 75.318],
+  '574216': [12.953, 75.4],
+  '574217': [13.01, 75.213],
+  '574218': [12.57, 75.551],
+  '574219': [12.929, 74.979],
+  '574220': [12.783, 75.166],
+  '574221': [12.791, 75.504],
+  '574222': [12.823, 75.073],
+  '574223': [12.655, 75.283],
+  '574224': [12.948, 75.207],
+  '574225': [13.021, 74.976],
+  '574226': [13.107, 74.956],
+  '574227': [13.061, 74.933],
+  '574228': [13.058, 75.458],
+  '574229': [12.821, 75.446],
+  '574230': [12.796, 75.598],
+  '574231': [12.859, 75.02],
+  '574232': [12.657, 75.504],
+  '574233': [12.919, 75.19],
+  '574234': [12.438, 75.598],
+  '574235': [12.727, 75.067],
+  '574236': [13.076, 75.102],
+  '574237': [13.002, 75.073],
+  '574238': [12.707, 75.598],
+  '574239': [12.548, 75.353],
+  '574240': [12.927, 75.33],
+  '574241': [12.825, 75.318],
+  '574242': [13.027, 75.12],
+  '574243': [12.758, 75.12],
+  '574244': [13.243, 74.88],
+  '574248': [12.596, 75.423],
+  '574253': [12.83, 75.114],
+  '574259': [12.65, 75.19],
+  '574260': [12.692, 75.143],
+  '574265': [12.916, 75.143],
+  '574267': [13.003, 74.997],
+  '574279': [12.736, 75.032],
+  '574285': [12.771, 75.353],
+  '574313': [12.608, 75.236],
+  '574314': [12.508, 75.446],
+  '574323': [12.797, 75.026],
+  '574324': [12.965, 75.114],
+  '574325': [12.829, 75.19],
+  '574326': [12.877, 75.236],
+  '574327': [12.551, 75.383],
+  '574328': [12.729, 75.4],
+  '574509': [13.019, 74.892],
+  '575001': [12.856, 74.836],
+  '575002': [12.85, 74.868],
+  '575003': [12.884, 74.836],
+  '575004': [12.885, 74.854],
+  '575005': [12.882, 74.87],
+  '575006': [12.901, 74.836],
+  '575007': [12.862, 74.892],
+  '575008': [12.902, 74.854],
+  '575010': [12.928, 74.824],
+  '575011': [12.959, 74.821],
+  '575013': [12.915, 74.833],
+  '575014': [12.992, 74.81],
+  '575015': [12.927, 74.857],
+  '575016': [12.892, 74.865],
+  '575017': [12.828, 74.88],
+  '575018': [12.789, 74.935],
+  '575019': [12.972, 74.801],
+  '575020': [12.818, 74.848],
+  '575022': [12.795, 74.88],
+  '575023': [12.761, 74.88],
+  '575025': [13.027, 74.789],
+  '575028': [12.919, 74.903],
+  '575029': [12.887, 74.927],
+  '575030': [13.005, 74.845],
+  '576101': [13.324, 74.74],
+  '576102': [13.364, 74.745],
+  '576103': [13.342, 74.719],
+  '576104': [13.349, 74.786],
+  '576105': [13.393, 74.775],
+  '576106': [13.378, 74.704],
+  '576107': [13.347, 74.839],
+  '576108': [13.353, 74.707],
+  '576111': [13.175, 74.88],
+  '576112': [13.438, 75.038],
+  '576113': [13.321, 74.868],
+  '576114': [13.384, 74.732],
+  '576115': [13.401, 74.716],
+  '576117': [13.265, 74.979],
+  '576120': [13.279, 74.839],
+  '576122': [13.28, 74.763],
+  '576124': [13.374, 74.909],
+  '576201': [13.624, 74.693],
+  '576210': [13.522, 74.769],
+  '576211': [13.612, 74.769],
+  '576212': [13.558, 74.979],
+  '576213': [13.432, 74.769],
+  '576214': [13.868, 74.71],
+  '576215': [13.419, 74.909],
+  '576216': [13.659, 74.666],
+  '576217': [13.605, 74.69],
+  '576218': [13.448, 74.707],
+  '576219': [13.809, 74.675],
+  '576220': [13.821, 74.862],
+  '576221': [13.523, 74.693],
+  '576222': [13.574, 74.786],
+  '576223': [13.504, 74.839],
+  '576224': [13.742, 74.675],
+  '576225': [13.503, 74.728],
+  '576226': [13.479, 74.704],
+  '576227': [13.6, 74.933],
+  '576228': [13.958, 74.71],
+  '576229': [13.666, 74.909],
+  '576230': [13.672, 74.728],
+  '576231': [13.542, 74.722],
+  '576232': [13.835, 74.634],
+  '576233': [13.738, 74.804],
+  '576234': [13.485, 74.886],
+  '576235': [13.703, 74.693],
+  '576247': [13.691, 74.669],
+  '576257': [13.557, 74.693],
+  '576282': [13.737, 74.956],
+  '576283': [13.677, 74.81],
+  '577001': [14.471, 75.941],
+  '577002': [14.456, 75.932],
+  '577003': [14.433, 75.981],
+  '577004': [14.449, 75.865],
+  '577005': [14.438, 75.92],
+  '577006': [13.964, 75.813],
+  '577101': [13.357, 75.772],
+  '577102': [13.293, 75.842],
+  '577111': [13.206, 75.691],
+  '577112': [13.338, 75.446],
+  '577113': [13.063, 75.551],
+  '577114': [13.31, 75.353],
+  '577115': [13.742, 75.598],
+  '577116': [13.641, 76.004],
+  '577117': [13.299, 75.792],
+  '577118': [13.51, 75.504],
+  '577120': [13.506, 75.236],
+  '577121': [13.226, 75.446],
+  '577122': [13.161, 75.493],
+  '577123': [13.415, 75.411],
+  '577124': [13.184, 75.318],
+  '577125': [13.617, 75.213],
+  '577126': [13.502, 75.365],
+  '577127': [13.562, 75.423],
+  '577128': [13.695, 75.662],
+  '577129': [13.575, 75.83],
+  '577130': [13.374, 75.679],
+  '577131': [13.564, 75.644],
+  '577132': [13.113, 75.644],
+  '577133': [13.243, 75.749],
+  '577134': [13.646, 75.504],
+  '577135': [13.455, 75.911],
+  '577136': [13.378, 75.551],
+  '577137': [13.439, 75.83],
+  '577138': [13.505, 76.202],
+  '577139': [13.359, 75.225],
+  '577140': [13.63, 76.213],
+  '577142': [13.257, 75.213],
+  '577144': [13.715, 75.726],
+  '577145': [13.793, 75.987],
+  '577146': [13.301, 75.981],
+  '577160': [13.253, 75.539],
+  '577168': [13.354, 75.923],
+  '577175': [13.395, 76.051],
+  '577179': [13.268, 75.4],
+  '577180': [13.673, 76.167],
+  '577181': [13.262, 75.306],
+  '577182': [13.566, 76.283],
+  '577201': [13.938, 75.58],
+  '577202': [13.863, 75.539],
+  '577203': [13.871, 75.58],
+  '577204': [13.976, 75.539],
+  '577205': [13.946, 75.51],
+  '577211': [13.957, 75.411],
+  '577213': [13.939, 75.877],
+  '577214': [14.177, 75.318],
+  '577215': [13.993, 76.016],
+  '577216': [14.027, 75.632],
+  '577217': [14.239, 75.643],
+  '577218': [14.152, 75.9],
+  '577219': [14.286, 75.795],
+  '577220': [13.768, 75.469],
+  '577221': [14.086, 75.865],
+  '577222': [13.895, 75.615],
+  '577223': [14.158, 75.563],
+  '577224': [14.168, 75.726],
+  '577225': [14.14, 75.458],
+  '577226': [13.821, 75.411],
+  '577227': [13.973, 75.691],
+  '577228': [13.713, 75.877],
+  '577229': [13.898, 75.662],
+  '577230': [14.192, 75.632],
+  '577231': [14.174, 75.819],
+  '577232': [13.716, 75.353],
+  '577233': [13.943, 75.749],
+  '577243': [14.102, 75.749],
+  '577245': [13.807, 75.749],
+  '577301': [13.874, 75.726],
+  '577302': [13.823, 75.632],
+  '577401': [14.111, 74.991],
+  '577411': [13.5, 75.143],
+  '577412': [14.084, 75.271],
+  '577413': [14.543, 75.19],
+  '577414': [13.764, 75.225],
+  '577415': [13.637, 75.365],
+  '577416': [14.042, 75.516],
+  '577417': [14.075, 75.131],
+  '577418': [13.936, 75.084],
+  '577419': [14.525, 75.084],
+  '577421': [14.124, 74.827],
+  '577422': [13.803, 75.306],
+  '577423': [14.089, 75.365],
+  '577424': [13.575, 75.084],
+  '577425': [13.789, 75.073],
+  '577426': [13.993, 75.271],
+  '577427': [14.274, 75.411],
+  '577428': [14.404, 75.318],
+  '577429': [14.407, 75.014],
+  '577430': [14.205, 75.038],
+  '577431': [14.217, 75.225],
+  '577432': [13.642, 75.26],
+  '577433': [14.452, 75.19],
+  '577434': [14.256, 75.131],
+  '577435': [14.206, 74.786],
+  '577436': [13.86, 75.318],
+  '577448': [13.666, 75.084],
+  '577451': [13.842, 75.673],
+  '577452': [13.883, 74.944],
+  '577453': [14.015, 74.897],
+  '577501': [14.214, 76.404],
+  '577502': [14.287, 76.387],
+  '577511': [13.884, 76.699],
+  '577512': [14.495, 76.062],
+  '577513': [14.595, 76.202],
+  '577514': [14.274, 75.981],
+  '577515': [13.777, 76.202],
+  '577516': [14.439, 75.702],
+  '577517': [14.38, 76.433],
+  '577518': [14.192, 76.12],
+  '577519': [14.38, 76.236],
+  '577520': [14.2, 76.259],
+  '577521': [14.384, 76.306],
+  '577522': [14.214, 76.711],
+  '577523': [14.101, 76.12],
+  '577524': [14.201, 76.479],
+  '577525': [14.314, 75.888],
+  '577526': [14.003, 76.202],
+  '577527': [13.851, 76.317],
+  '577528': [14.579, 76.317],
+  '577529': [14.576, 76.664],
+  '577530': [14.339, 75.737],
+  '577531': [14.03, 76.074],
+  '577532': [14.161, 76.572],
+  '577533': [13.747, 76.479],
+  '577534': [14.303, 76.074],
+  '577535': [14.716, 76.711],
+  '577536': [14.388, 76.572],
+  '577537': [14.404, 76.849],
+  '577538': [14.246, 76.872],
+  '577539': [13.953, 76.109],
+  '577540': [14.88, 76.78],
+  '577541': [14.279, 76.248],
+  '577542': [13.618, 76.398],
+  '577543': [14.442, 76.711],
+  '577544': [14.247, 75.911],
+  '577545': [14.04, 76.653],
+  '577546': [14.037, 76.803],
+  '577547': [13.708, 75.981],
+  '577548': [13.495, 76.016],
+  '577549': [13.847, 76.051],
+  '577550': [13.769, 76.062],
+  '577551': [14.218, 75.795],
+  '577552': [14.174, 76.016],
+  '577553': [14.503, 76.202],
+  '577554': [13.865, 76.155],
+  '577555': [14.105, 76.387],
+  '577556': [14.361, 76.109],
+  '577557': [14.014, 76.387],
+  '577558': [14.067, 76.526],
+  '577566': [14.476, 75.836],
+  '577589': [14.541, 75.888],
+  '577597': [13.658, 76.306],
+  '577598': [13.845, 76.618],
+  '577599': [13.979, 76.572],
+  '577601': [14.49, 75.795],
+  '580001': [15.459, 75.02],
+  '580002': [15.427, 75.011],
+  '580003': [15.431, 74.976],
+  '580004': [15.445, 75.017],
+  '580005': [15.491, 74.985],
+  '580006': [15.434, 75.023],
+  '580007': [15.422, 74.897],
+  '580008': [15.469, 74.997],
+  '580009': [15.399, 75.049],
+  '580011': [15.514, 74.897],
+  '580020': [15.339, 75.14],
+  '580021': [15.355, 75.117],
+  '580023': [15.399, 75.225],
+  '580024': [15.289, 75.12],
+  '580025': [15.396, 75.09],
+  '580026': [15.351, 75.026],
+  '580028': [15.287, 75.172],
+  '580029': [15.352, 75.133],
+  '580030': [15.35, 75.09],
+  '580031': [15.384, 75.122],
+  '580032': [15.405, 75.143],
+  '580112': [15.533, 75.178],
+  '580114': [15.304, 75.003],
+  '580118': [15.343, 74.909],
+  '581101': [14.796, 75.236],
+  '581102': [14.713, 75.178],
+  '581103': [15.442, 74.763],
+  '581104': [14.707, 75.084],
+  '581105': [15.135, 75.365],
+  '581106': [14.64, 75.458],
+  '581107': [15.135, 75.365],
+  '581108': [14.844, 75.632],
+  '581109': [14.543, 75.365],
+  '581110': [14.773, 75.411],
+  '581111': [14.444, 75.423],
+  '581112': [14.876, 75.423],
+  '581113': [15.265, 75.271],
+  '581115': [14.649, 75.598],
+  '581116': [14.418, 75.551],
+  '581117': [15.238, 75.376],
+  '581118': [14.955, 75.411],
+  '581119': [14.433, 75.609],
+  '581120': [14.628, 75.271],
+  '581121': [15.414, 74.3],
+  '581123': [14.509, 75.726],
+  '581126': [15.04, 75.318],
+  '581128': [14.835, 75.493],
+  '581129': [15.351, 74.523],
+  '581145': [14.576, 75.702],
+  '581148': [14.731, 75.283],
+  '581186': [15.186, 74.453],
+  '581187': [15.005, 74.453],
+  '581193': [15.028, 75.131],
+  '581195': [15.331, 75.4],
+  '581196': [15.193, 75.049],
+  '581197': [14.761, 75.049],
+  '581198': [14.955, 75.411],
+  '581202': [14.889, 75.26],
+  '581203': [14.879, 75.12],
+  '581204': [15.152, 74.944],
+  '581205': [14.989, 75.225],
+  '581207': [15.213, 75.178],
+  '581208': [14.555, 75.551],
+  '581209': [15.44, 75.33],
+  '581210': [14.359, 75.516],
+  '581211': [14.689, 75.702],
+  '581212': [15.134, 75.19],
+  '581213': [14.922, 75.598],
+  '581301': [14.818, 74.142],
+  '581302': [14.8, 74.102],
+  '581303': [14.833, 74.131],
+  '581304': [14.831, 74.143],
+  '581305': [14.828, 74.156],
+  '581306': [14.797, 74.153],
+  '581307': [14.787, 74.139],
+  '581308': [14.777, 74.15],
+  '581314': [14.718, 74.57],
+  '581315': [14.494, 74.617],
+  '581316': [14.756, 74.3],
+  '581317': [14.932, 74.23],
+  '581318': [14.561, 74.944],
+  '581319': [14.57, 74.318],
+  '581320': [13.965, 74.564],
+  '581321': [14.714, 74.347],
+  '581322': [14.322, 74.757],
+  '581323': [14.401, 74.57],
+  '581324': [14.774, 74.23],
+  '581325': [15.257, 74.652],
+  '581326': [14.537, 74.329],
+  '581327': [14.336, 74.441],
+  '581328': [14.882, 74.236],
+  '581329': [15.279, 74.804],
+  '581330': [14.464, 74.412],
+  '581331': [14.455, 74.71],
+  '581332': [14.386, 74.435],
+  '581333': [14.497, 74.412],
+  '581334': [14.323, 74.505],
+  '581335': [14.245, 74.529],
+  '581336': [14.73, 74.757],
+  '581337': [14.854, 74.57],
+  '581338': [14.356, 74.494],
+  '581339': [14.824, 74.3],
+  '581340': [14.51, 74.851],
+  '581341': [14.308, 74.458],
+  '581342': [14.218, 74.458],
+  '581343': [14.427, 74.414],
+  '581344': [14.621, 74.476],
+  '581345': [14.901, 74.112],
+  '581346': [14.746, 74.991],
+  '581347': [14.824, 74.804],
+  '581348': [14.182, 74.511],
+  '581349': [14.928, 74.991],
+  '581350': [14.13, 74.494],
+  '581351': [14.451, 74.388],
+  '581352': [14.863, 74.13],
+  '581353': [14.62, 74.3],
+  '581354': [13.987, 74.628],
+  '581355': [14.332, 74.897],
+  '581356': [15.378, 74.745],
+  '581357': [14.626, 74.394],
+  '581358': [14.666, 74.979],
+  '581359': [14.996, 74.663],
+  '581360': [14.89, 74.15],
+  '581361': [14.274, 74.535],
+  '581362': [14.429, 74.488],
+  '581363': [15.178, 74.663],
+  '581365': [15.296, 74.558],
+  '581384': [14.226, 74.663],
+  '581396': [14.892, 74.388],
+  '581400': [14.841, 74.382],
+  '581401': [14.628, 74.833],
+  '581402': [14.74, 74.897],
+  '581403': [14.644, 74.652],
+  '581411': [15.028, 74.956],
+  '581412': [15.03, 74.827],
+  '581421': [14.042, 74.617],
+  '581423': [14.187, 74.581],
+  '581440': [14.53, 74.476],
+  '581450': [14.538, 74.769],
+  '581453': [15.432, 74.382],
+  '582101': [15.429, 75.635],
+  '582102': [15.519, 75.644],
+  '582103': [15.336, 75.644],
+  '582111': [15.583, 75.749],
+  '582112': [15.016, 75.644],
+  '582113': [15.256, 75.83],
+  '582114': [15.723, 75.97],
+  '582115': [15.436, 75.784],
+  '582116': [15.144, 75.504],
+  '582117': [15.281, 75.504],
+  '582118': [15.119, 75.83],
+  '582119': [15.576, 75.83],
+  '582120': [15.196, 75.598],
+  '582201': [15.457, 75.411],
+  '582202': [15.695, 75.551],
+  '582203': [15.779, 75.609],
+  '582204': [15.512, 75.551],
+  '582205': [15.407, 75.516],
+  '582206': [15.84, 75.493],
+  '582207': [15.732, 75.411],
+  '582208': [15.591, 75.365],
+  '582209': [15.708, 75.737],
+  '582210': [15.062, 75.469],
+  '582211': [15.806, 75.83],
+  '583101': [15.124, 76.947],
+  '583102': [15.093, 76.895],
+  '583103': [15.199, 76.953],
+  '583104': [15.148, 76.91],
+  '583105': [15.156, 76.876],
+  '583111': [15.103, 77.079],
+  '583112': [14.985, 76.618],
+  '583113': [15.403, 76.711],
+  '583114': [15.698, 77.033],
+  '583115': [15.13, 76.757],
+  '583116': [15.319, 76.849],
+  '583117': [15.263, 77.056],
+  '583118': [15.037, 76.635],
+  '583119': [15.116, 76.526],
+  '583120': [15.414, 76.895],
+  '583121': [15.646, 76.941],
+  '583122': [15.552, 76.895],
+  '583123': [15.171, 76.664],
+  '583124': [15.022, 76.479],
+  '583125': [14.653, 76.039],
+  '583126': [14.705, 76.526],
+  '583127': [14.771, 76.109],
+  '583128': [14.888, 76.526],
+  '583129': [15.319, 76.653],
+  '583130': [14.802, 76.618],
+  '583131': [14.808, 75.97],
+  '583132': [15.361, 76.583],
+  '583134': [14.823, 76.202],
+  '583135': [14.858, 76.41],
+  '583136': [14.737, 76.294],
+  '583137': [14.666, 75.877],
+  '583152': [15.2, 76.719],
+  '583201': [15.235, 76.398],
+  '583203': [15.265, 76.427],
+  '583211': [15.302, 76.375],
+  '583212': [15.03, 76.225],
+  '583213': [14.754, 75.83],
+  '583214': [15.085, 76.016],
+  '583215': [15.288, 76.514],
+  '583216': [14.891, 75.83],
+  '583217': [14.84, 75.737],
+  '583218': [14.654, 76.433],
+  '583219': [14.988, 75.923],
+  '583220': [14.954, 76.109],
+  '583221': [15.285, 76.468],
+  '583222': [15.105, 76.341],
+  '583223': [15.208, 76.526],
+  '583224': [15.137, 76.109],
+  '583225': [15.248, 76.335],
+  '583226': [15.265, 75.97],
+  '583227': [15.426, 76.537],
+  '583228': [15.38, 76.341],
+  '583229': [15.627, 76.618],
+  '583230': [15.506, 76.155],
+  '583231': [15.352, 76.161],
+  '583232': [15.494, 75.97],
+  '583233': [15.279, 76.32],
+  '583234': [15.342, 76.381],
+  '583235': [15.444, 76.445],
+  '583236': [15.631, 75.97],
+  '583237': [15.558, 76.248],
+  '583238': [15.317, 76.062],
+  '583239': [15.312, 76.439],
+  '583268': [15.475, 76.583],
+  '583275': [15.218, 76.884],
+  '583276': [15.155, 76.902],
+  '583277': [15.778, 76.109],
+  '583278': [15.833, 76.248],
+  '583279': [15.774, 76.41],
+  '583280': [15.867, 75.888],
+  '583281': [15.91, 76.016],
+  '583282': [15.501, 76.63],
+  '583283': [15.566, 76.387],
+  '584101': [16.235, 77.344],
+  '584102': [16.184, 77.447],
+  '584103': [16.16, 77.35],
+  '584104': [16.126, 77.264],
+  '584111': [16.43, 76.941],
+  '584113': [16.395, 77.126],
+  '584115': [16.179, 76.618],
+  '584116': [16.329, 76.803],
+  '584118': [16.121, 77.172],
+  '584120': [16.074, 76.78],
+  '584122': [16.081, 76.526],
+  '584123': [15.974, 77.033],
+  '584124': [15.945, 76.572],
+  '584125': [15.958, 76.41],
+  '584126': [16.389, 77.033],
+  '584127': [16.161, 76.341],
+  '584128': [15.77, 76.711],
+  '584129': [16.153, 76.941],
+  '584132': [15.762, 76.572],
+  '584133': [16.088, 77.401],
+  '584134': [16.311, 77.264],
+  '584135': [16.322, 77.447],
+  '584136': [16.213, 77.172],
+  '584138': [15.948, 76.791],
+  '584139': [16.32, 76.664],
+  '584140': [15.999, 77.447],
+  '584143': [15.873, 76.895],
+  '584167': [15.699, 76.861],
+  '584170': [16.372, 77.321],
+  '584202': [16.037, 77.309],
+  '584203': [16.031, 77.218],
+  '585101': [17.33, 76.863],
+  '585102': [17.309, 76.941],
+  '585103': [17.343, 76.757],
+  '585104': [17.439, 76.803],
+  '585105': [17.327, 76.839],
+  '585106': [17.299, 76.878],
+  '585201': [16.772, 77.143],
+  '585202': [16.719, 77.126],
+  '585210': [17.209, 77.367],
+  '585211': [17.043, 77.126],
+  '585212': [17.139, 76.479],
+  '585213': [17.334, 76.618],
+  '585214': [16.872, 77.355],
+  '585215': [16.495, 76.526],
+  '585216': [16.634, 76.526],
+  '585217': [17.305, 76.202],
+  '585218': [16.895, 76.987],
+  '585219': [16.244, 76.375],
+  '585220': [16.564, 76.699],
+  '585221': [16.588, 77.264],
+  '585222': [17.098, 77.264],
+  '585223': [16.753, 76.941],
+  '585224': [16.467, 76.803],
+  '585225': [17.034, 76.987],
+  '585226': [17.85, 77.401],
+  '585227': [17.661, 77.355],
+  '585228': [17.074, 76.895],
+  '585229': [17.164, 76.935],
+  '585236': [17.414, 76.433],
+  '585237': [16.348, 76.387],
+  '585265': [17.195, 76.618],
+  '585287': [16.78, 76.814],
+  '585290': [16.504, 76.664],
+  '585291': [16.354, 76.479],
+  '585292': [17.175, 77.206],
+  '585301': [17.25, 76.41],
+  '585302': [17.534, 76.503],
+  '585303': [16.979, 76.849],
+  '585304': [16.519, 76.895],
+  '585305': [17.49, 77.585],
+  '585306': [17.519, 77.309],
+  '585307': [17.527, 77.447],
+  '585308': [17.161, 76.803],
+  '585309': [16.689, 76.664],
+  '585310': [16.979, 76.503],
+  '585311': [17.473, 76.618],
+  '585312': [17.321, 77.126],
+  '585313': [17.572, 77.056],
+  '585314': [17.692, 76.607],
+  '585315': [16.631, 77.39],
+  '585316': [17.559, 76.872],
+  '585317': [17.228, 77.126],
+  '585318': [17.014, 77.401],
+  '585319': [16.713, 77.033],
+  '585320': [17.289, 77.355],
+  '585321': [16.73, 77.309],
+  '585322': [17.457, 77.079],
+  '585323': [16.618, 76.814],
+  '585324': [17.376, 77.264],
+  '585325': [16.868, 76.572],
+  '585326': [18.269, 77.401],
+  '585327': [17.915, 76.987],
+  '585328': [18.071, 77.218],
+  '585329': [17.781, 77.229],
+  '585330': [17.705, 77.137],
+  '585331': [17.779, 77.033],
+  '585353': [17.819, 77.114],
+  '585355': [16.534, 77.126],
+  '585367': [17.432, 76.674],
+  '585401': [17.922, 77.522],
+  '585402': [17.993, 77.447],
+  '585403': [17.859, 77.539],
+  '585411': [18.064, 77.126],
+  '585412': [17.688, 77.229],
+  '585413': [17.984, 77.309],
+  '585414': [17.829, 77.252],
+  '585415': [17.856, 77.321],
+  '585416': [18.055, 76.987],
+  '585417': [18.21, 77.218],
+  '585418': [17.891, 77.137],
+  '585419': [17.764, 76.803],
+  '585421': [18.135, 77.493],
+  '585436': [18.137, 77.344],
+  '585437': [17.723, 76.895],
+  '585443': [18.25, 77.298],
+  '585444': [18.046, 77.367],
+  '586101': [16.863, 75.743],
+  '586102': [16.725, 75.83],
+  '586103': [16.866, 75.702],
+  '586104': [16.912, 75.702],
+  '586108': [16.682, 75.702],
+  '586109': [16.814, 75.718],
+  '586111': [17.246, 76.016],
+  '586112': [16.962, 75.923],
+  '586113': [16.656, 75.504],
+  '586114': [16.929, 75.458],
+  '586115': [16.787, 76.062],
+  '586116': [16.422, 76.109],
+  '586117': [17.137, 75.784],
+  '586118': [16.622, 76.341],
+  '586119': [16.952, 75.784],
+  '586120': [16.751, 76.202],
+  '586121': [16.538, 75.784],
+  '586122': [16.633, 75.83],
+  '586123': [16.959, 76.375],
+  '586124': [16.259, 76.259],
+  '586125': [16.571, 75.598],
+  '586127': [16.824, 75.923],
+  '586128': [16.892, 76.248],
+  '586129': [16.241, 76.155],
+  '586130': [16.798, 75.551],
+  '586201': [16.406, 75.877],
+  '586202': [17.065, 76.236],
+  '586203': [16.67, 76.039],
+  '586204': [17.272, 75.737],
+  '586205': [17.361, 75.691],
+  '586206': [17.083, 76.341],
+  '586207': [17.339, 75.865],
+  '586208': [16.563, 76.155],
+  '586209': [17.184, 75.958],
+  '586210': [16.485, 75.691],
+  '586211': [17.227, 75.911],
+  '586212': [16.385, 76.248],
+  '586213': [16.412, 75.97],
+  '586214': [16.505, 76.317],
+  '586215': [17.015, 76.016],
+  '586216': [16.486, 75.865],
+  '586217': [17.16, 76.109],
+  '587101': [16.177, 75.726],
+  '587102': [16.218, 75.656],
+  '587103': [16.15, 75.656],
+  '587111': [16.098, 75.911],
+  '587112': [16.08, 75.981],
+  '587113': [16.371, 75.213],
+  '587114': [15.859, 75.772],
+  '587115': [16.176, 75.877],
+  '587116': [16.341, 75.598],
+  '587117': [16.426, 75.504],
+  '587118': [16.146, 76.109],
+  '587119': [16.557, 75.236],
+  '587120': [16.124, 75.784],
+  '587121': [16.361, 75.4],
+  '587122': [16.187, 75.365],
+  '587124': [15.995, 75.923],
+  '587125': [16.011, 76.155],
+  '587154': [15.96, 76.259],
+  '587155': [15.888, 75.516],
+  '587201': [15.909, 75.667],
+  '587202': [15.937, 75.911],
+  '587203': [16.046, 75.819],
+  '587204': [16.193, 75.458],
+  '587205': [16.081, 75.656],
+  '587206': [16.08, 75.481],
+  '587207': [16.311, 75.83],
+  '587301': [16.533, 75.388],
+  '587311': [16.449, 75.178],
+  '587312': [16.387, 75.12],
+  '587313': [16.272, 75.271],
+  '587314': [16.478, 75.096],
+  '587315': [16.485, 75.038],
+  '587316': [16.353, 75.044],
+  '587330': [16.646, 75.365],
+  '590001': [15.86, 74.508],
+  '590003': [15.844, 74.532],
+  '590005': [15.79, 74.529],
+  '590006': [15.833, 74.494],
+  '590008': [15.819, 74.458],
+  '590009': [15.852, 74.498],
+  '590010': [15.902, 74.505],
+  '590011': [15.836, 74.513],
+  '590014': [15.751, 74.382],
+  '590015': [15.894, 74.552],
+  '590016': [15.938, 74.605],
+  '590017': [15.884, 74.532],
+  '590018': [15.782, 74.467],
+  '590019': [15.876, 74.502],
+  '590020': [15.82, 74.558],
+  '591101': [16.015, 74.722],
+  '591102': [15.784, 74.851],
+  '591103': [15.873, 74.652],
+  '591104': [15.696, 74.897],
+  '591106': [15.546, 74.71],
+  '591107': [16.149, 74.675],
+  '591108': [15.833, 74.417],
+  '591109': [15.771, 74.663],
+  '591110': [15.719, 75.225],
+  '591111': [15.829, 75.003],
+  '591112': [15.634, 74.663],
+  '591113': [15.926, 74.517],
+  '591114': [16.036, 75.178],
+  '591115': [15.598, 74.804],
+  '591116': [15.816, 75.143],
+  '591117': [15.892, 75.084],
+  '591118': [15.723, 74.716],
+  '591119': [15.928, 74.944],
+  '591120': [15.582, 74.57],
+  '591121': [15.918, 74.804],
+  '591122': [16.094, 74.71],
+  '591123': [16.003, 75.365],
+  '591124': [15.847, 74.605],
+  '591125': [15.788, 74.745],
+  '591126': [15.755, 75.084],
+  '591127': [15.869, 75.411],
+  '591128': [15.901, 74.417],
+  '591129': [16.048, 75.014],
+  '591130': [16.089, 75.271],
+  '591131': [15.713, 74.652],
+  '591136': [16.23, 75.166],
+  '591143': [15.951, 74.464],
+  '591147': [15.924, 74.722],
+  '591153': [15.699, 74.769],
+  '591156': [15.977, 74.511],
+  '591173': [16.701, 75.254],
+  '591201': [16.417, 74.581],
+  '591211': [16.45, 74.417],
+  '591212': [16.856, 75.084],
+  '591213': [16.515, 74.675],
+  '591214': [16.524, 74.488],
+  '591215': [16.517, 74.394],
+  '591216': [16.593, 74.488],
+  '591217': [16.563, 74.851],
+  '591218': [16.208, 74.862],
+  '591219': [16.505, 74.458],
+  '591220': [16.524, 74.944],
+  '591221': [16.163, 74.558],
+  '591222': [16.362, 74.769],
+  '591223': [16.679, 74.722],
+  '591224': [16.291, 74.897],
+  '591225': [16.316, 74.464],
+  '591226': [16.371, 74.581],
+  '591227': [16.199, 75.049],
+  '591228': [16.454, 74.464],
+  '591229': [16.515, 74.294],
+  '591230': [16.714, 75.19],
+  '591231': [16.198, 74.722],
+  '591232': [16.803, 74.991],
+  '591233': [16.146, 74.956],
+  '591234': [16.734, 74.839],
+  '591235': [16.421, 74.956],
+  '591236': [16.299, 74.535],
+  '591237': [16.378, 74.37],
+  '591238': [16.385, 74.464],
+  '591239': [16.505, 74.535],
+  '591240': [16.583, 75.131],
+  '591241': [16.473, 74.341],
+  '591242': [16.611, 74.722],
+  '591243': [16.038, 74.57],
+  '591244': [16.533, 74.605],
+  '591246': [16.096, 74.581],
+  '591247': [16.487, 74.605],
+  '591248': [16.774, 75.225],
+  '591254': [16.086, 74.441],
+  '591263': [16.537, 74.435],
+  '591265': [16.827, 75.318],
+  '591287': [16.406, 74.517],
+  '591301': [15.445, 74.57],
+  '591302': [15.617, 74.429],
+  '591303': [16.672, 74.933],
+  '591304': [16.718, 75.084],
+  '591305': [16.288, 74.699],
+  '591306': [16.247, 74.769],
+  '591307': [16.161, 74.839],
+  '591308': [16.156, 74.769],
+  '591309': [16.235, 74.605],
+  '591310': [16.291, 75.049],
+  '591311': [16.623, 74.886],
+  '591312': [16.344, 74.991],
+  '591313': [16.271, 74.464],
+  '591314': [16.257, 74.505],
+  '591315': [16.706, 74.769],
+  '591316': [16.664, 74.816],
+  '591317': [16.468, 74.804],
+  '591340': [16.248, 74.54],
+  '591344': [16.059, 74.851],
+  '591345': [15.653, 74.288],
+  '600001': [13.096, 80.287],
+  '600002': [13.069, 80.267],
+  '600003': [13.082, 80.275],
+  '600004': [13.037, 80.268],
+  '600005': [13.064, 80.281],
+  '600006': [13.05, 80.249],
+  '600007': [13.083, 80.261],
+  '600008': [13.074, 80.257],
+  '600009': [13.081, 80.284],
+  '600010': [13.086, 80.245],
+  '600011': [13.112, 80.238],
+  '600012': [13.099, 80.26],
+  '600013': [13.114, 80.294],
+  '600014': [13.053, 80.269],
+  '600015': [13.021, 80.223],
+  '600016': [13.002, 80.2],
+  '600017': [13.041, 80.234],
+  '600018': [13.037, 80.252],
+  '600019': [13.164, 80.298],
+  '600020': [13.004, 80.257],
+  '600021': [13.115, 80.283],
+  '600022': [13.002, 80.228],
+  '600023': [13.099, 80.234],
+  '600024': [13.053, 80.223],
+  '600025': [13.013, 80.233],
+  '600026': [13.051, 80.212],
+  '600028': [13.022, 80.259],
+  '600030': [13.079, 80.225],
+  '600031': [13.073, 80.241],
+  '600032': [13.018, 80.206],
+  '600033': [13.035, 80.222],
+  '600034': [13.059, 80.24],
+  '600035': [13.031, 80.24],
+  '600036': [12.991, 80.236],
+  '600037': [13.084, 80.173],
+  '600038': [13.099, 80.214],
+  '600039': [13.118, 80.259],
+  '600040': [13.085, 80.21],
+  '600041': [12.961, 80.259],
+  '600042': [12.976, 80.221],
+  '600043': [12.963, 80.166],
+  '600044': [12.961, 80.137],
+  '600045': [12.931, 80.112],
+  '600046': [12.907, 80.121],
+  '600047': [12.945, 80.123],
+  '600048': [12.86, 80.147],
+  '600049': [13.105, 80.205],
+  '600050': [13.091, 80.183],
+  '600051': [13.164, 80.255],
+  '600052': [13.203, 80.154],
+  '600053': [13.114, 80.154],
+  '600054': [13.126, 80.081],
+  '600055': [13.16, 80.07],
+  '600056': [13.045, 80.116],
+  '600057': [13.203, 80.316],
+  '600058': [13.093, 80.161],
+  '600059': [12.923, 80.127],
+  '600060': [13.156, 80.225],
+  '600061': [12.978, 80.187],
+  '600062': [13.139, 80.135],
+  '600063': [12.908, 80.095],
+  '600064': [12.936, 80.152],
+  '600065': [13.164, 80.09],
+  '600066': [13.162, 80.2],
+  '600067': [13.239, 80.21],
+  '600068': [13.166, 80.271],
+  '600069': [13.001, 80.093],
+  '600070': [12.982, 80.123],
+  '600071': [13.104, 80.104],
+  '600072': [13.092, 80.07],
+  '600073': [12.916, 80.152],
+  '600074': [12.983, 80.14],
+  '600075': [12.975, 80.127],
+  '600076': [13.113, 80.19],
+  '600077': [13.073, 80.123],
+  '600078': [13.041, 80.2],
+  '600081': [13.135, 80.293],
+  '600082': [13.118, 80.22],
+  '600083': [13.036, 80.204],
+  '600084': [13.084, 80.255],
+  '600085': [13.018, 80.245],
+  '600086': [13.049, 80.256],
+  '600087': [13.037, 80.178],
+  '600088': [12.988, 80.204],
+  '600089': [13.018, 80.187],
+  '600090': [12.996, 80.268],
+  '600091': [12.962, 80.199],
+  '600092': [13.062, 80.192],
+  '600093': [13.053, 80.198],
+  '600094': [13.064, 80.223],
+  '600095': [13.056, 80.18],
+  '600096': [12.96, 80.24],
+  '600097': [12.938, 80.24],
+  '600098': [13.105, 80.172],
+  '600099': [13.134, 80.206],
+  '600100': [12.917, 80.194],
+  '600101': [13.092, 80.194],
+  '600102': [13.085, 80.225],
+  '600103': [13.212, 80.272],
+  '600104': [13.086, 80.287],
+  '600106': [13.072, 80.212],
+  '600107': [13.074, 80.191],
+  '600110': [13.129, 80.232],
+  '600113': [12.986, 80.246],
+  '600115': [12.917, 80.251],
+  '600116': [13.019, 80.15],
+  '600117': [12.937, 80.174],
+  '600118': [13.136, 80.259],
+  '600119': [12.877, 80.227],
+  '600120': [13.278, 80.31],
+  '600122': [13.021, 80.127],
+  '600123': [13.055, 80.084],
+  '600124': [13.061, 80.02],
+  '600125': [13.013, 80.174],
+  '600126': [12.904, 80.146],
+  '600127': [12.81, 80.141],
+  '600128': [13.01, 80.119],
+  '600129': [12.945, 80.194],
+  '600130': [12.863, 80.192],
+  '601101': [13.315, 80.109],
+  '601102': [13.336, 80.042],
+  '601103': [13.265, 79.998],
+  '601201': [13.464, 80.121],
+  '601202': [13.425, 79.998],
+  '601203': [13.345, 80.288],
+  '601204': [13.343, 80.221],
+  '601205': [13.468, 80.21],
+  '601206': [13.346, 80.16],
+  '601301': [12.861, 80.077],
+  '602001': [13.169, 79.863],
+  '602002': [13.08, 79.908],
+  '602003': [13.131, 79.925],
+  '602021': [13.195, 79.953],
+  '602023': [13.259, 79.841],
+  '602024': [13.175, 80.02],
+  '602025': [13.081, 79.953],
+  '602026': [13.308, 79.93],
+  '602105': [12.968, 79.953],
+  '602106': [12.919, 79.886],
+  '602108': [12.94, 79.818],
+  '602117': [13.011, 80.037],
+  '603001': [12.678, 79.97],
+  '603002': [12.719, 79.998],
+  '603003': [12.675, 80.02],
+  '603101': [12.762, 79.93],
+  '603102': [12.52, 80.132],
+  '603103': [12.795, 80.199],
+  '603104': [12.681, 80.199],
+  '603105': [12.714, 80.189],
+  '603106': [12.738, 79.886],
+  '603107': [12.646, 79.863],
+  '603108': [12.723, 80.109],
+  '603109': [12.597, 80.076],
+  '603110': [12.704, 80.145],
+  '603111': [12.649, 79.953],
+  '603112': [12.768, 80.238],
+  '603127': [12.571, 80.126],
+  '603201': [12.415, 79.751],
+  '603202': [12.836, 80.087],
+  '603203': [12.825, 80.027],
+  '603204': [12.787, 79.975],
+  '603209': [12.773, 80.062],
+  '603210': [12.864, 80.081],
+  '603211': [12.865, 80.066],
+  '603301': [12.396, 79.841],
+  '603302': [12.357, 79.998],
+  '603303': [12.535, 79.93],
+  '603304': [12.31, 79.953],
+  '603305': [12.416, 80.076],
+  '603306': [12.489, 79.908],
+  '603307': [12.367, 79.684],
+  '603308': [12.602, 79.908],
+  '603309': [12.426, 79.88],
+  '603310': [12.328, 79.841],
+  '603311': [12.429, 79.958],
+  '603312': [12.471, 80.02],
+  '603313': [12.377, 79.93],
+  '603314': [12.555, 79.863],
+  '603319': [12.463, 79.818],
+  '603401': [12.263, 79.908],
+  '603402': [12.64, 79.706],
+  '603403': [12.638, 79.661],
+  '603405': [12.594, 79.986],
+  '603406': [12.552, 79.774],
+  '604001': [12.231, 79.661],
+  '604101': [12.258, 79.774],
+  '604102': [12.142, 79.706],
+  '604151': [12.219, 79.347],
+  '604152': [12.215, 79.256],
+  '604153': [12.171, 79.279],
+  '604154': [12.135, 79.807],
+  '604201': [12.374, 79.279],
+  '604202': [12.255, 79.403],
+  '604203': [12.315, 79.504],
+  '604204': [12.376, 79.324],
+  '604205': [12.2, 79.437],
+  '604206': [12.249, 79.549],
+  '604207': [12.307, 79.583],
+  '604208': [12.401, 79.392],
+  '604210': [12.335, 79.437],
+  '604301': [12.192, 79.841],
+  '604302': [12.153, 79.607],
+  '604303': [12.173, 79.93],
+  '604304': [12.122, 79.652],
+  '604305': [12.318, 79.723],
+  '604306': [12.205, 79.572],
+  '604307': [12.278, 79.706],
+  '604401': [12.612, 79.572],
+  '604402': [12.758, 79.538],
+  '604403': [12.481, 79.706],
+  '604404': [12.566, 79.549],
+  '604405': [12.48, 79.661],
+  '604406': [12.397, 79.583],
+  '604407': [12.701, 79.527],
+  '604408': [12.535, 79.628],
+  '604409': [12.608, 79.459],
+  '604410': [12.773, 79.617],
+  '604501': [12.405, 79.482],
+  '604502': [12.472, 79.459],
+  '604503': [12.561, 79.437],
+  '604504': [12.61, 79.363],
+  '604505': [12.564, 79.504],
+  '604601': [12.281, 79.211],
+  '605001': [11.93, 79.827],
+  '605002': [11.938, 79.835],
+  '605003': [11.952, 79.832],
+  '605004': [11.912, 79.816],
+  '605005': [11.929, 79.816],
+  '605006': [11.95, 79.797],
+  '605007': [11.869, 79.79],
+  '605008': [11.96, 79.813],
+  '605009': [11.937, 79.79],
+  '605010': [11.923, 79.793],
+  '605011': [11.942, 79.825],
+  '605013': [11.946, 79.816],
+  '605014': [12.062, 79.824],
+  '605101': [12.011, 79.818],
+  '605102': [11.911, 79.689],
+  '605103': [11.91, 79.527],
+  '605104': [11.964, 79.832],
+  '605105': [11.867, 79.572],
+  '605106': [11.848, 79.661],
+  '605107': [11.959, 79.617],
+  '605108': [11.913, 79.594],
+  '605109': [12.031, 79.751],
+  '605110': [11.89, 79.746],
+  '605111': [11.987, 79.774],
+  '605201': [12.118, 79.358],
+  '605202': [12.064, 79.414],
+  '605203': [12.089, 79.482],
+  '605301': [11.935, 79.431],
+  '605302': [11.95, 79.392],
+  '605401': [11.885, 79.459],
+  '605402': [11.996, 79.414],
+  '605501': [12.027, 79.639],
+  '605502': [11.962, 79.706],
+  '605601': [12, 79.527],
+  '605602': [11.949, 79.499],
+  '605651': [12.157, 79.504],
+  '605652': [12.07, 79.572],
+  '605701': [12.037, 79.301],
+  '605702': [12.024, 78.985],
+  '605751': [11.884, 79.132],
+  '605752': [11.989, 79.234],
+  '605754': [12.023, 79.081],
+  '605755': [11.97, 79.324],
+  '605756': [12.008, 79.144],
+  '605757': [11.96, 79.206],
+  '605758': [12.051, 79.228],
+  '605759': [11.985, 79.203],
+  '605766': [11.942, 79.166],
+  '605801': [11.934, 78.985],
+  '605802': [11.982, 79.053],
+  '605803': [11.9, 79.256],
+  '606001': [11.538, 79.33],
+  '606003': [11.542, 79.301],
+  '606102': [11.789, 79.301],
+  '606103': [11.479, 79.414],
+  '606104': [11.608, 79.256],
+  '606105': [11.407, 79.279],
+  '606106': [11.423, 79.098],
+  '606107': [11.709, 79.268],
+  '606108': [11.518, 78.951],
+  '606110': [11.474, 79.279],
+  '606111': [11.426, 79.189],
+  '606115': [11.702, 79.369],
+  '606201': [11.694, 78.861],
+  '606202': [11.73, 78.918],
+  '606203': [11.668, 79.053],
+  '606204': [11.62, 78.985],
+  '606205': [11.848, 79.076],
+  '606206': [11.78, 79.053],
+  '606207': [11.733, 78.725],
+  '606208': [11.819, 78.918],
+  '606209': [11.825, 78.74],
+  '606213': [11.732, 78.985],
+  '606301': [11.572, 78.895],
+  '606302': [11.517, 79.211],
+  '606303': [11.43, 78.997],
+  '606304': [11.523, 79.087],
+  '606305': [11.659, 79.132],
+  '606401': [11.916, 78.816],
+  '606402': [11.953, 78.895],
+  '606601': [12.231, 79.076],
+  '606603': [12.206, 79.008],
+  '606604': [12.275, 79.053],
+  '606611': [12.233, 79.144],
+  '606701': [12.325, 78.753],
+  '606702': [12.34, 78.985],
+  '606703': [12.221, 78.739],
+  '606704': [12.282, 78.951],
+  '606705': [12.335, 78.872],
+  '606706': [12.188, 78.861],
+  '606707': [12.159, 78.963],
+  '606708': [12.053, 78.861],
+  '606709': [12.274, 78.79],
+  '606710': [12.445, 78.804],
+  '606751': [12.436, 79.121],
+  '606752': [12.325, 79.166],
+  '606753': [12.116, 79.031],
+  '606754': [12.102, 79.234],
+  '606755': [12.145, 79.189],
+  '606801': [12.467, 79.347],
+  '606802': [12.378, 79.087],
+  '606803': [12.515, 79.132],
+  '606804': [12.099, 79.166],
+  '606805': [12.317, 79.104],
+  '606806': [12.075, 79.121],
+  '606807': [12.475, 79.397],
+  '606808': [12.165, 79.121],
+  '606811': [12.093, 79.084],
+  '606901': [12.512, 79.042],
+  '606902': [12.476, 79.268],
+  '606903': [12.62, 79.211],
+  '606904': [12.461, 79.189],
+  '606905': [12.658, 79.16],
+  '606906': [12.456, 79.053],
+  '606907': [12.574, 79.189],
+  '606908': [12.424, 78.98],
+  '607001': [11.756, 79.768],
+  '607002': [11.744, 79.746],
+  '607003': [11.681, 79.718],
+  '607004': [11.73, 79.76],
+  '607005': [11.663, 79.748],
+  '607006': [11.769, 79.737],
+  '607101': [11.795, 79.459],
+  '607102': [11.689, 79.617],
+  '607103': [11.715, 79.527],
+  '607104': [11.773, 79.622],
+  '607105': [11.759, 79.684],
+  '607106': [11.77, 79.532],
+  '607107': [11.816, 79.414],
+  '607108': [11.825, 79.499],
+  '607109': [11.787, 79.701],
+  '607112': [11.8, 79.594],
+  '607201': [11.786, 79.211],
+  '607202': [11.739, 79.166],
+  '607203': [11.882, 79.369],
+  '607204': [11.748, 79.392],
+  '607205': [11.826, 79.543],
+  '607209': [11.858, 79.324],
+  '607301': [11.623, 79.661],
+  '607302': [11.576, 79.617],
+  '607303': [11.551, 79.549],
+  '607308': [11.625, 79.566],
+  '607401': [11.743, 79.723],
+  '607402': [11.807, 79.774],
+  '607801': [11.618, 79.527],
+  '607802': [11.527, 79.482],
+  '607803': [11.619, 79.484],
+  '607804': [11.591, 79.392],
+  '607805': [11.661, 79.482],
+  '607807': [11.593, 79.459],
+  '608001': [11.383, 79.701],
+  '608002': [11.406, 79.712],
+  '608102': [11.425, 79.774],
+  '608201': [11.396, 79.594],
+  '608301': [11.277, 79.543],
+  '608302': [11.331, 79.639],
+  '608303': [11.307, 79.594],
+  '608304': [11.232, 79.532],
+  '608305': [11.356, 79.577],
+  '608306': [11.222, 79.577],
+  '608401': [11.355, 79.684],
+  '608501': [11.512, 79.706],
+  '608502': [11.508, 79.746],
+  '608601': [11.465, 79.639],
+  '608602': [11.421, 79.661],
+  '608701': [11.348, 79.504],
+  '608702': [11.438, 79.504],
+  '608703': [11.412, 79.414],
+  '608704': [11.485, 79.572],
+  '608801': [11.58, 79.706],
+  '608901': [11.365, 79.347],
+  '609001': [11.085, 79.661],
+  '609003': [11.1, 79.611],
+  '609101': [11.336, 79.796],
+  '609102': [11.316, 79.712],
+  '609103': [11.147, 79.667],
+  '609104': [11.252, 79.779],
+  '609105': [11.131, 79.846],
+  '609106': [11.203, 79.818],
+  '609107': [11.135, 79.818],
+  '609108': [11.289, 79.729],
+  '609109': [11.184, 79.768],
+  '609110': [11.241, 79.726],
+  '609111': [11.24, 79.757],
+  '609112': [11.181, 79.678],
+  '609113': [11.242, 79.835],
+  '609114': [11.164, 79.824],
+  '609115': [11.27, 79.818],
+  '609116': [11.238, 79.701],
+  '609117': [11.183, 79.723],
+  '609118': [11.125, 79.689],
+  '609201': [11.225, 79.656],
+  '609202': [11.189, 79.6],
+  '609203': [11.151, 79.617],
+  '609204': [11.171, 79.549],
+  '609205': [11.224, 79.622],
+  '609301': [11.096, 79.802],
+  '609302': [11.06, 79.723],
+  '609303': [11.004, 79.81],
+  '609304': [11.139, 79.746],
+  '609305': [11.095, 79.687],
+  '609306': [11.015, 79.723],
+  '609307': [11.019, 79.835],
+  '609308': [11.016, 79.768],
+  '609309': [11.088, 79.751],
+  '609310': [11.04, 79.802],
+  '609311': [11.074, 79.824],
+  '609312': [11.018, 79.802],
+  '609313': [11.041, 79.846],
+  '609314': [11.07, 79.689],
+  '609401': [11.046, 79.645],
+  '609402': [11.044, 79.687],
+  '609403': [10.997, 79.684],
+  '609404': [11.023, 79.645],
+  '609405': [10.957, 79.656],
+  '609501': [10.954, 79.566],
+  '609502': [10.9, 79.633],
+  '609503': [10.923, 79.645],
+  '609504': [10.856, 79.633],
+  '609601': [10.932, 79.751],
+  '609602': [10.908, 79.846],
+  '609603': [10.977, 79.751],
+  '609604': [10.895, 79.813],
+  '609605': [10.941, 79.835],
+  '609606': [10.868, 79.841],
+  '609607': [10.917, 79.79],
+  '609608': [10.953, 79.706],
+  '609609': [10.974, 79.824],
+  '609701': [10.88, 79.678],
+  '609702': [10.865, 79.751],
+  '609703': [10.861, 79.79],
+  '609704': [10.87, 79.712],
+  '609801': [11.077, 79.566],
+  '609802': [11.06, 79.484],
+  '609803': [11.039, 79.529],
+  '609804': [11.063, 79.499],
+  '609805': [11.011, 79.611],
+  '609806': [11.078, 79.611],
+  '609807': [11.147, 79.504],
+  '609808': [11.038, 79.594],
+  '609810': [11.054, 79.534],
+  '609811': [11.133, 79.577],
+  '610001': [10.778, 79.645],
+  '610003': [10.759, 79.653],
+  '610004': [10.777, 79.6],
+  '610101': [10.819, 79.706],
+  '610102': [10.731, 79.577],
+  '610103': [10.711, 79.622],
+  '610104': [10.816, 79.594],
+  '610105': [10.905, 79.594],
+  '610106': [10.708, 79.706],
+  '610107': [10.875, 79.555],
+  '610109': [10.745, 79.645],
+  '610201': [10.623, 79.656],
+  '610202': [10.667, 79.656],
+  '610203': [10.595, 79.639],
+  '610204': [10.62, 79.729],
+  '610205': [10.658, 79.614],
+  '610206': [10.681, 79.572],
+  '610207': [10.641, 79.684],
+  '611001': [10.785, 79.835],
+  '611002': [10.828, 79.802],
+  '611003': [10.76, 79.844],
+  '611101': [10.76, 79.687],
+  '611102': [10.689, 79.818],
+  '611103': [10.621, 79.774],
+  '611104': [10.755, 79.774],
+  '611105': [10.758, 79.712],
+  '611106': [10.74, 79.835],
+  '611108': [10.761, 79.802],
+  '611109': [10.687, 79.751],
+  '611110': [10.623, 79.818],
+  '611111': [10.674, 79.846],
+  '611112': [10.535, 79.841],
+  '612001': [10.959, 79.386],
+  '612002': [10.978, 79.383],
+  '612101': [10.996, 79.499],
+  '612102': [11.028, 79.465],
+  '612103': [10.982, 79.42],
+  '612104': [10.983, 79.454],
+  '612105': [11.016, 79.431],
+  '612106': [11.087, 79.532],
+  '612201': [10.975, 79.543],
+  '612202': [10.945, 79.482],
+  '612203': [10.999, 79.577],
+  '612204': [10.96, 79.431],
+  '612301': [10.978, 79.307],
+  '612302': [10.957, 79.341],
+  '612303': [10.991, 79.341],
+  '612401': [10.937, 79.397],
+  '612402': [10.904, 79.408],
+  '612501': [11.008, 79.369],
+  '612502': [11.102, 79.504],
+  '612503': [11.054, 79.414],
+  '612504': [11.084, 79.454],
+  '612601': [10.85, 79.454],
+  '612602': [10.917, 79.465],
+  '612603': [10.836, 79.549],
+  '612604': [10.879, 79.504],
+  '612605': [10.883, 79.465],
+  '612610': [10.829, 79.51],
+  '612701': [10.89, 79.33],
+  '612702': [10.949, 79.355],
+  '612703': [10.924, 79.352],
+  '612801': [10.837, 79.42],
+  '612802': [10.852, 79.347],
+  '612804': [10.875, 79.392],
+  '612901': [11.19, 79.459],
+  '612902': [11.144, 79.414],
+  '612903': [11.258, 79.482],
+  '612904': [11.098, 79.369],
+  '613001': [10.783, 79.149],
+  '613002': [10.804, 79.093],
+  '613003': [10.824, 79.189],
+  '613004': [10.762, 79.101],
+  '613005': [10.727, 79.115],
+  '613006': [10.689, 79.144],
+  '613007': [10.76, 79.127],
+  '613008': [10.796, 79.118],
+  '613009': [10.785, 79.118],
+  '613010': [10.745, 79.096],
+  '613101': [10.84, 79.031],
+  '613102': [10.796, 78.889],
+  '613103': [10.867, 79.084],
+  '613104': [10.838, 78.963],
+  '613105': [10.852, 78.901],
+  '613201': [10.871, 79.115],
+  '613202': [10.861, 79.138],
+  '613203': [10.879, 79.025],
+  '613204': [10.91, 79.121],
+  '613205': [10.848, 79.093],
+  '613301': [10.628, 78.997],
+  '613303': [10.659, 79.081],
+  '613401': [10.735, 79.025],
+  '613402': [10.715, 78.951],
+  '613403': [10.725, 79.07],
+  '613501': [10.78, 79.211],
+  '613502': [10.798, 79.239],
+  '613503': [10.765, 79.262],
+  '613504': [10.805, 79.279],
+  '613601': [10.775, 79.053],
+  '613602': [10.794, 78.963],
+  '613701': [10.786, 79.555],
+  '613702': [10.752, 79.521],
+  '613703': [10.762, 79.487],
+  '613704': [10.749, 79.617],
+  '613705': [10.812, 79.482],
+  '614001': [10.661, 79.454],
+  '614013': [10.675, 79.392],
+  '614014': [10.671, 79.42],
+  '614015': [10.571, 79.431],
+  '614016': [10.634, 79.482],
+  '614017': [10.528, 79.476],
+  '614018': [10.608, 79.369],
+  '614019': [10.717, 79.301],
+  '614020': [10.583, 79.465],
+  '614101': [10.68, 79.527],
+  '614102': [10.718, 79.51],
+  '614103': [10.73, 79.532],
+  '614201': [10.893, 79.192],
+  '614202': [10.919, 79.194],
+  '614203': [10.937, 79.234],
+  '614204': [10.898, 79.251],
+  '614205': [10.932, 79.273],
+  '614206': [10.873, 79.172],
+  '614207': [10.917, 79.301],
+  '614208': [10.937, 79.316],
+  '614210': [10.911, 79.22],
+  '614211': [10.894, 79.214],
+  '614301': [10.848, 79.256],
+  '614302': [10.866, 79.285],
+  '614303': [10.875, 79.217],
+  '614401': [10.806, 79.324],
+  '614402': [10.61, 79.273],
+  '614403': [10.78, 79.363],
+  '614404': [10.788, 79.437],
+  '614601': [10.433, 79.296],
+  '614602': [10.405, 79.279],
+  '614612': [10.204, 79.211],
+  '614613': [10.41, 79.414],
+  '614614': [10.501, 79.177],
+  '614615': [10.472, 79.279],
+  '614616': [10.143, 79.042],
+  '614617': [10.011, 79.217],
+  '614618': [10.044, 79.053],
+  '614619': [9.987, 79.172],
+  '614620': [10.048, 79.166],
+  '614621': [9.958, 79.121],
+  '614622': [10.285, 78.985],
+  '614623': [10.312, 79.144],
+  '614624': [10.277, 79.087],
+  '614625': [10.628, 79.324],
+  '614626': [10.538, 79.279],
+  '614628': [10.413, 79.177],
+  '614629': [9.88, 79.087],
+  '614630': [10.103, 79.177],
+  '614701': [10.342, 79.369],
+  '614702': [10.503, 79.549],
+  '614703': [10.461, 79.617],
+  '614704': [10.368, 79.482],
+  '614705': [10.479, 79.504],
+  '614706': [10.431, 79.566],
+  '614707': [10.377, 79.774],
+  '614708': [10.62, 79.577],
+  '614710': [10.543, 79.577],
+  '614711': [10.519, 79.718],
+  '614712': [10.549, 79.768],
+  '614713': [10.534, 79.656],
+  '614714': [10.385, 79.673],
+  '614715': [10.593, 79.594],
+  '614716': [10.463, 79.684],
+  '614717': [10.613, 79.527],
+  '614723': [10.318, 79.324],
+  '614738': [10.397, 79.521],
+  '614801': [10.223, 79.121],
+  '614802': [10.272, 79.256],
+  '614803': [10.339, 79.279],
+  '614804': [10.269, 79.189],
+  '614805': [10.179, 79.144],
+  '614806': [10.465, 79.751],
+  '614807': [10.333, 79.796],
+  '614808': [10.423, 79.818],
+  '614809': [10.468, 79.841],
+  '614810': [10.374, 79.858],
+  '614901': [10.496, 79.347],
+  '614902': [10.59, 79.177],
+  '614903': [10.476, 79.414],
+  '614904': [10.69, 79.189],
+  '614905': [10.563, 79.369],
+  '614906': [10.446, 79.352],
+  '620001': [10.797, 78.682],
+  '620002': [10.826, 78.699],
+  '620003': [10.836, 78.677],
+  '620004': [10.79, 78.719],
+  '620005': [10.847, 78.742],
+  '620006': [10.867, 78.685],
+  '620007': [10.735, 78.731],
+  '620008': [10.816, 78.695],
+  '620009': [10.735, 78.577],
+  '620010': [10.824, 78.731],
+  '620011': [10.769, 78.753],
+  '620012': [10.716, 78.668],
+  '620013': [10.81, 78.804],
+  '620014': [10.749, 78.799],
+  '620015': [10.745, 78.85],
+  '620016': [10.726, 78.776],
+  '620017': [10.813, 78.671],
+  '620018': [10.824, 78.681],
+  '620019': [10.803, 78.753],
+  '620020': [10.781, 78.705],
+  '620021': [10.759, 78.688],
+  '620022': [10.768, 78.801],
+  '620023': [10.771, 78.695],
+  '620024': [10.666, 78.745],
+  '620025': [10.699, 78.804],
+  '620026': [10.816, 78.69],
+  '620101': [10.854, 78.651],
+  '620102': [10.803, 78.623],
+  '621001': [11.177, 78.509],
+  '621002': [11.205, 78.646],
+  '621003': [11.242, 78.464],
+  '621004': [11.116, 78.646],
+  '621005': [10.962, 78.714],
+  '621006': [11.026, 78.623],
+  '621007': [11.029, 78.714],
+  '621008': [11.202, 78.577],
+  '621009': [10.96, 78.646],
+  '621010': [11.141, 78.594],
+  '621011': [11.282, 78.634],
+  '621012': [11.322, 78.498],
+  '621014': [11.068, 78.577],
+  '621101': [11.23, 78.736],
+  '621102': [11.321, 78.759],
+  '621103': [11.369, 78.708],
+  '621104': [11.098, 78.782],
+  '621105': [11.01, 78.804],
+  '621106': [11.127, 78.94],
+  '621107': [11.233, 78.804],
+  '621108': [11.376, 79.053],
+  '621109': [11.123, 78.85],
+  '621110': [11.408, 78.714],
+  '621111': [10.926, 78.776],
+  '621112': [10.919, 78.736],
+  '621113': [11.192, 78.895],
+  '621114': [11.096, 78.714],
+  '621115': [11.305, 78.94],
+  '621116': [11.368, 78.827],
+  '621117': [11.425, 78.861],
+  '621118': [11.163, 78.714],
+  '621133': [11.335, 78.991],
+  '621202': [10.932, 78.509],
+  '621203': [10.974, 78.287],
+  '621204': [10.935, 78.577],
+  '621205': [11.065, 78.487],
+  '621206': [11.089, 78.532],
+  '621207': [11.01, 78.213],
+  '621208': [11.061, 78.396],
+  '621209': [10.978, 78.39],
+  '621210': [11.175, 78.441],
+  '621211': [11.008, 78.452],
+  '621212': [11.212, 78.85],
+  '621213': [10.909, 78.617],
+  '621214': [11.129, 78.418],
+  '621215': [11.036, 78.305],
+  '621216': [10.894, 78.668],
+  '621217': [10.983, 78.538],
+  '621218': [10.875, 78.759],
+  '621219': [11.279, 78.827],
+  '621220': [11.255, 78.934],
+  '621301': [10.777, 78.225],
+  '621302': [10.603, 78.316],
+  '621305': [10.486, 78.441],
+  '621306': [10.575, 78.441],
+  '621307': [10.64, 78.396],
+  '621308': [10.433, 78.498],
+  '621310': [10.461, 78.35],
+  '621311': [10.644, 78.225],
+  '621312': [10.615, 78.47],
+  '621313': [10.729, 78.418],
+  '621314': [10.384, 78.361],
+  '621315': [10.512, 78.225],
+  '621316': [10.566, 78.498],
+  '621601': [10.872, 78.821],
+  '621651': [11.014, 78.895],
+  '621652': [11.038, 78.963],
+  '621653': [10.996, 79.031],
+  '621701': [11.038, 79.268],
+  '621702': [10.875, 78.923],
+  '621703': [10.871, 78.799],
+  '621704': [11.113, 79.166],
+  '621705': [11.157, 79.166],
+  '621706': [10.901, 78.872],
+  '621707': [11.043, 79.098],
+  '621708': [11.207, 78.997],
+  '621709': [11.314, 79.189],
+  '621710': [11.266, 79.251],
+  '621711': [10.948, 78.918],
+  '621712': [10.943, 78.804],
+  '621713': [11.13, 79.031],
+  '621714': [11.247, 79.189],
+  '621715': [10.956, 79.144],
+  '621716': [11.244, 79.098],
+  '621717': [11.298, 79.042],
+  '621718': [11.223, 79.144],
+  '621719': [11.318, 79.279],
+  '621722': [10.9, 78.991],
+  '621729': [11.138, 79.104],
+  '621730': [11.359, 79.189],
+  '621801': [11.327, 79.375],
+  '621802': [11.209, 79.369],
+  '621803': [11.266, 79.403],
+  '621804': [11.129, 79.313],
+  '621805': [11.329, 79.431],
+  '621806': [11.229, 79.301],
+  '621851': [10.929, 79.031],
+  '622001': [10.384, 78.833],
+  '622002': [10.36, 78.6],
+  '622003': [10.361, 78.799],
+  '622004': [10.413, 78.872],
+  '622005': [10.41, 78.782],
+  '622101': [10.486, 78.725],
+  '622102': [10.527, 78.634],
+  '622103': [10.456, 78.674],
+  '622104': [10.386, 78.714],
+  '622201': [10.271, 78.906],
+  '622202': [10.172, 78.918],
+  '622203': [10.494, 78.951],
+  '622204': [10.019, 78.963],
+  '622209': [10.17, 78.85],
+  '622301': [10.407, 78.997],
+  '622302': [10.511, 79.121],
+  '622303': [10.359, 78.906],
+  '622304': [10.377, 79.098],
+  '622401': [10.314, 78.555],
+  '622402': [10.339, 78.646],
+  '622403': [10.24, 78.492],
+  '622404': [10.336, 78.708],
+  '622407': [10.275, 78.549],
+  '622409': [10.274, 78.668],
+  '622411': [10.318, 78.821],
+  '622412': [10.292, 78.719],
+  '622422': [10.343, 78.759],
+  '622501': [10.477, 78.804],
+  '622502': [10.579, 78.861],
+  '622503': [10.182, 78.719],
+  '622504': [10.609, 78.782],
+  '622505': [10.235, 78.827],
+  '622506': [10.278, 78.804],
+  '622507': [10.231, 78.714],
+  '622515': [10.617, 78.68],
+  '623115': [9.242, 78.316],
+  '623120': [9.191, 78.418],
+  '623135': [9.156, 78.361],
+  '623308': [9.886, 78.94],
+  '623315': [9.845, 79.031],
+  '623401': [9.749, 78.782],
+  '623402': [9.774, 78.872],
+  '623403': [9.706, 78.98],
+  '623404': [9.8, 78.985],
+  '623406': [9.841, 79.07],
+  '623407': [9.776, 78.94],
+  '623409': [9.779, 79.031],
+  '623501': [9.373, 78.821],
+  '623502': [9.398, 78.759],
+  '623503': [9.363, 78.867],
+  '623504': [9.335, 78.827],
+  '623512': [9.345, 78.98],
+  '623513': [9.424, 78.895],
+  '623514': [9.473, 78.889],
+  '623515': [9.229, 78.753],
+  '623516': [9.293, 79.059],
+  '623517': [9.252, 78.787],
+  '623518': [9.272, 79.104],
+  '623519': [9.282, 79.152],
+  '623520': [9.394, 78.799],
+  '623521': [9.278, 79.214],
+  '623522': [9.381, 78.918],
+  '623523': [9.266, 78.889],
+  '623524': [9.296, 78.985],
+  '623525': [9.621, 78.872],
+  '623526': [9.262, 79.301],
+  '623527': [9.44, 78.691],
+  '623528': [9.197, 78.623],
+  '623529': [9.276, 79.239],
+  '623530': [9.464, 78.782],
+  '623531': [9.561, 78.889],
+  '623532': [9.292, 78.85],
+  '623533': [9.297, 78.68],
+  '623534': [9.321, 79.005],
+  '623536': [9.316, 78.918],
+  '623537': [9.51, 78.85],
+  '623538': [9.698, 78.906],
+  '623566': [9.238, 78.708],
+  '623601': [9.463, 78.407],
+  '623603': [9.416, 78.316],
+  '623604': [9.364, 78.373],
+  '623605': [9.488, 78.344],
+  '623608': [9.563, 78.464],
+  '623701': [9.568, 78.6],
+  '623703': [9.248, 78.498],
+  '623704': [9.379, 78.498],
+  '623705': [9.517, 78.725],
+  '623706': [9.478, 78.532],
+  '623707': [9.544, 78.555],
+  '623708': [9.328, 78.447],
+  '623711': [9.349, 78.6],
+  '623712': [9.425, 78.589],
+  '623806': [9.299, 79.035],
+  '624001': [10.364, 77.968],
+  '624002': [10.352, 77.945],
+  '624003': [10.316, 78.008],
+  '624004': [10.397, 77.968],
+  '624005': [10.405, 78.031],
+  '624101': [10.173, 77.447],
+  '624103': [10.214, 77.355],
+  '624201': [10.159, 77.94],
+  '624202': [10.174, 77.757],
+  '624204': [10.239, 77.734],
+  '624206': [10.218, 77.9],
+  '624208': [10.172, 77.842],
+  '624210': [10.278, 77.596],
+  '624211': [10.213, 77.774],
+  '624212': [10.358, 77.677],
+  '624215': [10.201, 77.871],
+  '624216': [10.297, 77.648],
+  '624219': [10.112, 77.848],
+  '624220': [10.086, 77.757],
+  '624301': [10.285, 77.911],
+  '624302': [10.274, 77.934],
+  '624303': [10.318, 77.911],
+  '624304': [10.238, 77.997],
+  '624306': [10.364, 78.122],
+  '624307': [10.309, 77.968],
+  '624308': [10.231, 78.099],
+  '624401': [10.201, 78.179],
+  '624402': [10.283, 78.305],
+  '624403': [10.413, 78.259],
+  '624601': [10.431, 77.55],
+  '624610': [10.385, 77.505],
+  '624612': [10.548, 77.734],
+  '624613': [10.52, 77.573],
+  '624614': [10.478, 77.642],
+  '624615': [10.393, 77.447],
+  '624616': [10.623, 77.677],
+  '624617': [10.583, 77.505],
+  '624618': [10.537, 77.459],
+  '624619': [10.483, 77.757],
+  '624620': [10.738, 78.077],
+  '624621': [10.39, 77.355],
+  '624622': [10.442, 77.848],
+  '624701': [10.28, 77.851],
+  '624702': [10.515, 78.031],
+  '624703': [10.672, 78.077],
+  '624704': [10.574, 77.825],
+  '624705': [10.355, 77.871],
+  '624706': [10.595, 78.088],
+  '624707': [10.283, 77.865],
+  '624708': [10.238, 77.831],
+  '624709': [10.446, 77.962],
+  '624710': [10.534, 77.94],
+  '624711': [10.599, 77.917],
+  '624712': [10.638, 77.78],
+  '624801': [10.476, 78.168],
+  '624802': [10.462, 78.088],
+  '625001': [9.916, 78.119],
+  '625002': [9.938, 78.131],
+  '625003': [9.898, 78.097],
+  '625004': [9.908, 78.068],
+  '625005': [9.862, 78.071],
+  '625006': [9.883, 78.037],
+  '625007': [9.967, 78.159],
+  '625008': [9.86, 78.025],
+  '625009': [9.887, 78.151],
+  '625011': [9.904, 78.108],
+  '625012': [9.874, 78.117],
+  '625014': [9.996, 78.139],
+  '625015': [9.882, 78.091],
+  '625016': [9.929, 78.094],
+  '625017': [9.973, 78.117],
+  '625018': [9.961, 78.082],
+  '625019': [9.944, 78.054],
+  '625020': [9.927, 78.213],
+  '625021': [9.915, 78.014],
+  '625022': [9.792, 78.122],
+  '625023': [9.953, 78.189],
+  '625101': [10.152, 78.35],
+  '625102': [10.073, 78.435],
+  '625103': [10.252, 78.361],
+  '625104': [10.016, 78.236],
+  '625105': [10.085, 78.327],
+  '625106': [9.998, 78.35],
+  '625107': [9.964, 78.174],
+  '625108': [10.088, 78.396],
+  '625109': [10, 78.418],
+  '625110': [9.931, 78.305],
+  '625122': [9.974, 78.282],
+  '625201': [9.884, 78.236],
+  '625203': [10.167, 77.705],
+  '625205': [10.066, 77.945],
+  '625207': [10.026, 77.917],
+  '625214': [10.034, 77.968],
+  '625218': [10.095, 77.985],
+  '625221': [10.053, 78.031],
+  '625234': [9.985, 77.985],
+  '625301': [10.036, 78.191],
+  '625402': [10.009, 78.054],
+  '625501': [10.098, 78.077],
+  '625503': [10.111, 78.134],
+  '625512': [9.949, 77.596],
+  '625513': [10.008, 77.347],
+  '625514': [9.917, 77.94],
+  '625515': [9.81, 77.39],
+  '625516': [9.696, 77.275],
+  '625517': [9.914, 77.539],
+  '625518': [9.694, 77.229],
+  '625519': [9.602, 77.401],
+  '625520': [9.878, 77.459],
+  '625521': [9.654, 77.321],
+  '625522': [9.832, 77.269],
+  '625523': [10.061, 77.533],
+  '625524': [9.866, 77.292],
+  '625525': [9.602, 77.235],
+  '625526': [9.764, 77.344],
+  '625527': [9.847, 77.802],
+  '625528': [9.949, 77.309],
+  '625529': [9.926, 77.86],
+  '625530': [9.893, 77.275],
+  '625531': [10.032, 77.482],
+  '625532': [9.966, 77.768],
+  '625533': [9.807, 77.321],
+  '625534': [9.944, 77.459],
+  '625535': [9.875, 77.677],
+  '625536': [10.017, 77.665],
+  '625537': [10.024, 77.848],
+  '625540': [9.833, 77.436],
+  '625556': [9.783, 77.275],
+  '625562': [10.053, 77.602],
+  '625579': [9.737, 77.493],
+  '625582': [10.082, 77.355],
+  '625601': [10.127, 77.533],
+  '625602': [10.148, 77.642],
+  '625603': [10.086, 77.591],
+  '625604': [10.124, 77.596],
+  '625605': [10.086, 77.447],
+  '625701': [9.668, 77.997],
+  '625702': [9.695, 77.848],
+  '625703': [9.715, 77.78],
+  '625704': [9.8, 77.877],
+  '625705': [9.744, 77.677],
+  '625706': [9.799, 77.997],
+  '625707': [9.664, 77.905],
+  '625708': [9.762, 77.894],
+  '626001': [9.59, 77.962],
+  '626002': [9.585, 77.991],
+  '626003': [9.54, 77.945],
+  '626004': [9.493, 77.997],
+  '626005': [9.575, 77.86],
+  '626101': [9.513, 78.105],
+  '626102': [9.408, 77.614],
+  '626103': [9.606, 77.802],
+  '626104': [9.638, 78.077],
+  '626105': [9.487, 78.145],
+  '626106': [9.718, 78.179],
+  '626107': [9.552, 78.145],
+  '626108': [9.429, 77.9],
+  '626109': [9.609, 78.048],
+  '626110': [9.473, 77.591],
+  '626111': [9.361, 77.499],
+  '626112': [9.484, 78.054],
+  '626113': [9.399, 78.122],
+  '626114': [9.338, 78.259],
+  '626115': [9.727, 78.122],
+  '626116': [9.606, 77.636],
+  '626117': [9.444, 77.55],
+  '626118': [9.423, 78.191],
+  '626119': [9.5, 77.894],
+  '626121': [9.398, 77.459],
+  '626122': [9.4, 77.492],
+  '626123': [9.452, 77.799],
+  '626124': [9.442, 77.738],
+  '626125': [9.519, 77.493],
+  '626126': [9.596, 77.682],
+  '626127': [9.34, 77.665],
+  '626128': [9.367, 77.825],
+  '626129': [9.502, 78.27],
+  '626130': [9.519, 77.802],
+  '626131': [9.364, 77.734],
+  '626132': [9.631, 77.651],
+  '626133': [9.665, 77.619],
+  '626134': [9.403, 78.071],
+  '626135': [9.486, 77.648],
+  '626136': [9.338, 77.619],
+  '626137': [9.421, 77.659],
+  '626138': [9.559, 77.711],
+  '626139': [9.373, 77.563],
+  '626140': [9.298, 77.734],
+  '626141': [9.487, 77.682],
+  '626142': [9.421, 77.505],
+  '626149': [9.658, 77.722],
+  '626188': [9.391, 77.502],
+  '626189': [9.432, 77.825],
+  '626201': [9.28, 77.825],
+  '626202': [9.33, 78.031],
+  '626203': [9.359, 77.905],
+  '626204': [9.416, 77.985],
+  '626205': [9.273, 77.951],
+  '626607': [9.633, 78.27],
+  '626612': [9.604, 78.373],
+  '627001': [8.731, 77.702],
+  '627002': [8.727, 77.748],
+  '627003': [8.737, 77.731],
+  '627004': [8.735, 77.651],
+  '627005': [8.696, 77.717],
+  '627006': [8.717, 77.682],
+  '627007': [8.671, 77.757],
+  '627008': [8.746, 77.674],
+  '627009': [8.718, 77.717],
+  '627010': [8.73, 77.596],
+  '627011': [8.709, 77.774],
+  '627012': [8.785, 77.631],
+  '627101': [8.436, 77.671],
+  '627102': [8.469, 77.588],
+  '627103': [8.456, 77.602],
+  '627104': [8.203, 77.751],
+  '627105': [8.276, 77.528],
+  '627106': [8.173, 77.665],
+  '627107': [8.476, 77.556],
+  '627108': [8.474, 77.665],
+  '627109': [8.31, 77.585],
+  '627110': [8.455, 77.757],
+  '627111': [8.239, 77.711],
+  '627112': [8.316, 77.768],
+  '627113': [8.323, 77.665],
+  '627114': [8.192, 77.573],
+  '627115': [8.433, 77.568],
+  '627116': [8.236, 77.619],
+  '627117': [8.386, 77.619],
+  '627118': [8.391, 77.757],
+  '627119': [8.398, 77.808],
+  '627120': [8.159, 77.639],
+  '627127': [8.153, 77.605],
+  '627131': [8.295, 77.625],
+  '627133': [8.392, 77.447],
+  '627151': [8.605, 77.711],
+  '627152': [8.56, 77.665],
+  '627201': [8.883, 77.642],
+  '627202': [8.912, 77.605],
+  '627351': [8.759, 77.802],
+  '627352': [8.866, 77.78],
+  '627353': [8.752, 77.762],
+  '627354': [8.563, 77.757],
+  '627355': [8.5, 77.802],
+  '627356': [8.647, 77.688],
+  '627357': [8.832, 77.722],
+  '627358': [8.75, 77.694],
+  '627359': [8.801, 77.78],
+  '627401': [8.698, 77.442],
+  '627412': [8.782, 77.361],
+  '627413': [8.747, 77.459],
+  '627414': [8.622, 77.573],
+  '627415': [8.852, 77.367],
+  '627416': [8.667, 77.464],
+  '627417': [8.688, 77.548],
+  '627418': [8.751, 77.419],
+  '627420': [8.521, 77.447],
+  '627421': [8.659, 77.413],
+  '627422': [8.727, 77.338],
+  '627423': [8.79, 77.436],
+  '627424': [8.803, 77.361],
+  '627425': [8.687, 77.264],
+  '627426': [8.684, 77.505],
+  '627427': [8.638, 77.496],
+  '627428': [8.722, 77.421],
+  '627451': [8.673, 77.659],
+  '627452': [8.661, 77.614],
+  '627453': [8.682, 77.591],
+  '627501': [8.535, 77.55],
+  '627502': [8.579, 77.596],
+  '627601': [8.741, 77.525],
+  '627602': [8.782, 77.539],
+  '627603': [8.721, 77.548],
+  '627604': [8.694, 77.636],
+  '627651': [8.304, 77.9],
+  '627652': [8.399, 77.842],
+  '627654': [8.291, 77.82],
+  '627657': [8.35, 77.825],
+  '627659': [8.286, 77.848],
+  '627713': [9.212, 77.775],
+  '627719': [9.231, 77.665],
+  '627751': [9.079, 77.355],
+  '627753': [9.293, 77.573],
+  '627754': [9.186, 77.619],
+  '627755': [9.202, 77.459],
+  '627756': [9.204, 77.528],
+  '627757': [9.341, 77.401],
+  '627758': [9.265, 77.39],
+  '627759': [8.699, 77.808],
+  '627760': [9.266, 77.436],
+  '627761': [9.269, 77.505],
+  '627764': [9.304, 77.449],
+  '627802': [8.903, 77.264],
+  '627803': [9, 77.275],
+  '627804': [9.029, 77.327],
+  '627805': [8.96, 77.278],
+  '627806': [8.945, 77.384],
+  '627807': [9.026, 77.246],
+  '627808': [8.901, 77.384],
+  '627809': [8.983, 77.246],
+  '627811': [8.966, 77.307],
+  '627812': [9.164, 77.309],
+  '627813': [8.998, 77.206],
+  '627814': [8.915, 77.321],
+  '627818': [8.955, 77.295],
+  '627851': [8.835, 77.505],
+  '627852': [9.003, 77.344],
+  '627853': [8.879, 77.528],
+  '627854': [8.929, 77.556],
+  '627855': [9.178, 77.39],
+  '627856': [9.026, 77.39],
+  '627857': [9.052, 77.505],
+  '627858': [8.959, 77.404],
+  '627859': [9.007, 77.459],
+  '627860': [8.999, 77.539],
+  '627861': [8.92, 77.459],
+  '627862': [9.127, 77.493],
+  '627951': [8.97, 77.665],
+  '627953': [9.088, 77.631],
+  '628001': [8.811, 78.159],
+  '628002': [8.833, 78.099],
+  '628003': [8.79, 78.146],
+  '628004': [8.754, 78.174],
+  '628005': [8.704, 78.122],
+  '628006': [8.783, 78.154],
+  '628007': [8.786, 78.062],
+  '628008': [8.785, 78.117],
+  '628101': [8.767, 78.077],
+  '628102': [8.744, 78.008],
+  '628103': [8.718, 78.059],
+  '628104': [8.785, 77.962],
+  '628105': [8.9, 78.145],
+  '628151': [8.632, 78.082],
+  '628152': [8.665, 78.082],
+  '628201': [8.557, 78.071],
+  '628202': [8.568, 78.094],
+  '628203': [8.421, 78.031],
+  '628204': [8.58, 78.128],
+  '628205': [8.528, 78.031],
+  '628206': [8.38, 78.034],
+  '628207': [8.594, 78.054],
+  '628208': [8.448, 78.037],
+  '628209': [8.37, 78.045],
+  '628210': [8.468, 77.991],
+  '628211': [8.578, 78.027],
+  '628212': [8.621, 77.982],
+  '628213': [8.48, 78.025],
+  '628215': [8.493, 78.117],
+  '628216': [8.517, 78.108],
+  '628217': [8.547, 78.105],
+  '628218': [8.524, 78.071],
+  '628219': [8.46, 78.082],
+  '628229': [8.595, 78.092],
+  '628251': [8.695, 78.002],
+  '628252': [8.722, 77.842],
+  '628301': [8.85, 77.962],
+  '628302': [8.891, 77.894],
+  '628303': [8.847, 77.871],
+  '628304': [8.809, 78.031],
+  '628401': [8.927, 77.997],
+  '628402': [8.876, 78.077],
+  '628501': [9.175, 77.857],
+  '628502': [9.194, 77.871],
+  '628503': [9.155, 77.82],
+  '628552': [9.102, 77.711],
+  '628601': [8.635, 77.914],
+  '628612': [8.59, 77.94],
+  '628613': [8.502, 77.871],
+  '628614': [8.594, 77.982],
+  '628615': [8.647, 77.842],
+  '628616': [8.565, 77.98],
+  '628617': [8.547, 77.94],
+  '628618': [8.574, 78.017],
+  '628619': [8.654, 77.894],
+  '628620': [8.661, 77.957],
+  '628621': [8.616, 77.9],
+  '628622': [8.587, 77.848],
+  '628623': [8.598, 78.002],
+  '628653': [8.369, 77.922],
+  '628656': [8.337, 77.934],
+  '628701': [8.477, 77.945],
+  '628702': [8.395, 77.894],
+  '628703': [8.371, 77.991],
+  '628704': [8.449, 77.905],
+  '628712': [9.018, 78.134],
+  '628714': [8.965, 77.814],
+  '628716': [9.084, 77.825],
+  '628718': [9.012, 77.951],
+  '628720': [9.098, 77.905],
+  '628721': [9.191, 77.777],
+  '628722': [8.937, 78.117],
+  '628751': [8.662, 78.002],
+  '628752': [8.64, 77.991],
+  '628753': [8.629, 77.957],
+  '628801': [8.629, 78.045],
+  '628802': [8.653, 78.037],
+  '628809': [8.668, 77.831],
+  '628851': [8.74, 77.894],
+  '628901': [9.077, 78.259],
+  '628902': [9.147, 78.088],
+  '628903': [8.988, 78.213],
+  '628904': [9.246, 78.099],
+  '628905': [9.281, 78.179],
+  '628906': [9.034, 78.282],
+  '628907': [9.195, 78.225],
+  '628908': [9.09, 78.008],
+  '628952': [8.973, 77.757],
+  '629001': [8.193, 77.43],
+  '629002': [8.161, 77.43],
+  '629003': [8.189, 77.398],
+  '629004': [8.167, 77.409],
+  '629101': [8.483, 77.298],
+  '629102': [8.188, 77.353],
+  '629151': [8.369, 77.235],
+  '629152': [8.417, 77.229],
+  '629153': [8.337, 77.18],
+  '629154': [8.272, 77.151],
+  '629155': [8.297, 77.243],
+  '629156': [8.249, 77.272],
+  '629157': [8.25, 77.223],
+  '629158': [8.281, 77.261],
+  '629159': [8.208, 77.246],
+  '629160': [8.279, 77.131],
+  '629161': [8.377, 77.321],
+  '629162': [8.292, 77.2],
+  '629163': [8.324, 77.189],
+  '629164': [8.307, 77.315],
+  '629165': [8.304, 77.223],
+  '629166': [8.274, 77.304],
+  '629167': [8.26, 77.289],
+  '629168': [8.336, 77.223],
+  '629169': [8.262, 77.258],
+  '629170': [8.378, 77.2],
+  '629171': [8.27, 77.177],
+  '629172': [8.302, 77.166],
+  '629173': [8.249, 77.177],
+  '629174': [8.242, 77.292],
+  '629175': [8.243, 77.327],
+  '629176': [8.261, 77.146],
+  '629177': [8.327, 77.269],
+  '629178': [8.218, 77.212],
+  '629179': [8.303, 77.266],
+  '629180': [8.225, 77.353],
+  '629193': [8.228, 77.189],
+  '629201': [8.158, 77.361],
+  '629202': [8.136, 77.338],
+  '629203': [8.102, 77.525],
+  '629204': [8.155, 77.324],
+  '629251': [8.184, 77.243],
+  '629252': [8.157, 77.304],
+  '629301': [8.272, 77.39],
+  '629302': [8.211, 77.505],
+  '629401': [8.132, 77.556],
+  '629402': [8.174, 77.522],
+  '629403': [8.154, 77.49],
+  '629501': [8.122, 77.39],
+  '629502': [8.213, 77.396],
+  '629601': [8.129, 77.442],
+  '629602': [8.097, 77.464],
+  '629701': [8.098, 77.499],
+  '629702': [8.089, 77.545],
+  '629703': [8.131, 77.51],
+  '629704': [8.162, 77.464],
+  '629801': [8.201, 77.361],
+  '629802': [8.21, 77.304],
+  '629803': [8.19, 77.272],
+  '629804': [8.22, 77.269],
+  '629809': [8.168, 77.338],
+  '629810': [8.208, 77.33],
+  '629851': [8.315, 77.39],
+  '629852': [8.246, 77.43],
+  '629901': [8.231, 77.459],
+  '630001': [10.062, 78.753],
+  '630002': [10.087, 78.784],
+  '630003': [10.075, 78.783],
+  '630005': [9.974, 78.776],
+  '630101': [10.15, 78.753],
+  '630102': [10.159, 78.784],
+  '630103': [10.184, 78.787],
+  '630104': [10.108, 78.821],
+  '630105': [10.196, 78.81],
+  '630106': [10.122, 78.759],
+  '630107': [10.141, 78.81],
+  '630108': [10.062, 78.918],
+  '630201': [10.197, 78.526],
+  '630202': [10.047, 78.816],
+  '630203': [10.182, 78.577],
+  '630204': [10.057, 78.629],
+  '630205': [10.212, 78.629],
+  '630206': [10.093, 78.697],
+  '630207': [10.096, 78.646],
+  '630208': [10.138, 78.719],
+  '630210': [10.05, 78.577],
+  '630211': [10.126, 78.543],
+  '630212': [10.146, 78.651],
+  '630301': [10.029, 78.765],
+  '630302': [9.926, 78.827],
+  '630303': [9.95, 78.872],
+  '630305': [9.966, 78.691],
+  '630306': [9.993, 78.762],
+  '630307': [10.033, 78.714],
+  '630309': [10.331, 78.418],
+  '630311': [9.924, 78.759],
+  '630312': [9.861, 78.85],
+  '630313': [9.991, 78.629],
+  '630314': [9.993, 78.85],
+  '630321': [9.905, 78.674],
+  '630405': [10.25, 78.623],
+  '630408': [9.815, 78.782],
+  '630410': [10.311, 78.487],
+  '630411': [9.857, 78.714],
+  '630501': [10.156, 78.464],
+  '630502': [10.221, 78.441],
+  '630551': [9.821, 78.634],
+  '630552': [9.975, 78.481],
+  '630553': [10.004, 78.532],
+  '630554': [9.768, 78.691],
+  '630555': [9.925, 78.629],
+  '630556': [9.874, 78.577],
+  '630557': [9.938, 78.509],
+  '630558': [9.939, 78.555],
+  '630559': [9.801, 78.373],
+  '630561': [9.816, 78.498],
+  '630562': [9.901, 78.407],
+  '630566': [10.048, 78.509],
+  '630602': [9.753, 78.401],
+  '630606': [9.685, 78.498],
+  '630609': [9.67, 78.396],
+  '630610': [9.755, 78.305],
+  '630611': [9.807, 78.225],
+  '630702': [9.613, 78.646],
+  '630709': [9.678, 78.623],
+  '630710': [9.616, 78.736],
+  '630713': [9.682, 78.736],
+  '631001': [13.087, 79.667],
+  '631002': [13.022, 79.617],
+  '631003': [13.138, 79.661],
+  '631004': [13.088, 79.689],
+  '631005': [12.976, 79.594],
+  '631006': [13.065, 79.689],
+  '631051': [12.978, 79.639],
+  '631052': [12.952, 79.549],
+  '631101': [13.106, 79.577],
+  '631102': [13.089, 79.431],
+  '631151': [13.026, 79.706],
+  '631152': [12.999, 79.734],
+  '631201': [13.207, 79.684],
+  '631202': [13.261, 79.465],
+  '631203': [13.1, 79.841],
+  '631204': [13.21, 79.751],
+  '631205': [13.178, 79.527],
+  '631206': [13.229, 79.51],
+  '631207': [13.312, 79.459],
+  '631208': [13.269, 79.527],
+  '631209': [13.181, 79.594],
+  '631210': [13.131, 79.762],
+  '631211': [13.156, 79.614],
+  '631212': [13.251, 79.639],
+  '631213': [13.226, 79.594],
+  '631301': [13.173, 79.392],
+  '631302': [13.103, 79.369],
+  '631303': [13.153, 79.459],
+  '631304': [13.178, 79.451],
+  '631402': [13.009, 79.841],
+  '631501': [12.828, 79.723],
+  '631502': [12.9, 79.673],
+  '631551': [12.863, 79.594],
+  '631552': [12.891, 79.729],
+  '631553': [12.983, 79.774],
+  '631561': [12.87, 79.796],
+  '631601': [12.801, 79.774],
+  '631603': [12.711, 79.774],
+  '631604': [12.875, 79.908],
+  '631605': [12.805, 79.863],
+  '631606': [12.777, 79.88],
+  '631701': [12.706, 79.661],
+  '631702': [12.759, 79.701],
+  '632001': [12.895, 79.149],
+  '632002': [12.883, 79.127],
+  '632004': [12.926, 79.129],
+  '632006': [12.957, 79.121],
+  '632007': [12.989, 79.141],
+  '632008': [12.931, 79.113],
+  '632009': [12.937, 79.189],
+  '632010': [12.915, 79.081],
+  '632011': [12.823, 79.189],
+  '632012': [12.932, 79.141],
+  '632013': [12.919, 79.107],
+  '632014': [12.964, 79.16],
+  '632055': [12.87, 79.093],
+  '632057': [12.847, 79.141],
+  '632058': [12.842, 79.098],
+  '632059': [13.024, 79.098],
+  '632101': [12.838, 78.985],
+  '632102': [12.751, 79.076],
+  '632103': [12.734, 78.951],
+  '632104': [12.907, 79.008],
+  '632105': [12.863, 79.053],
+  '632106': [12.982, 79.189],
+  '632107': [12.764, 78.85],
+  '632113': [12.796, 79.076],
+  '632114': [12.914, 79.059],
+  '632115': [13.033, 79.216],
+  '632201': [12.957, 78.991],
+  '632202': [12.977, 79.053],
+  '632203': [12.996, 78.985],
+  '632204': [12.97, 79.025],
+  '632209': [12.994, 78.94],
+  '632301': [12.672, 79.287],
+  '632311': [12.748, 79.149],
+  '632312': [12.724, 79.104],
+  '632313': [12.535, 79.347],
+  '632314': [12.735, 79.234],
+  '632315': [12.686, 79.166],
+  '632316': [12.652, 79.285],
+  '632317': [12.693, 79.324],
+  '632318': [12.674, 79.414],
+  '632319': [12.773, 79.194],
+  '632326': [12.601, 79.301],
+  '632401': [12.962, 79.307],
+  '632403': [12.985, 79.288],
+  '632404': [12.941, 79.306],
+  '632405': [12.992, 79.326],
+  '632406': [12.966, 79.282],
+  '632501': [13.013, 79.392],
+  '632502': [13.021, 79.572],
+  '632503': [12.853, 79.369],
+  '632504': [12.766, 79.307],
+  '632505': [13.017, 79.482],
+  '632506': [12.798, 79.403],
+  '632507': [12.843, 79.262],
+  '632508': [12.902, 79.459],
+  '632509': [12.871, 79.234],
+  '632510': [13.087, 79.527],
+  '632511': [12.835, 79.482],
+  '632512': [12.804, 79.279],
+  '632513': [12.922, 79.392],
+  '632514': [13.128, 79.285],
+  '632515': [12.991, 79.262],
+  '632516': [13.033, 79.172],
+  '632517': [12.916, 79.234],
+  '632518': [12.72, 79.437],
+  '632519': [12.984, 79.234],
+  '632520': [13.05, 79.307],
+  '632521': [12.868, 79.318],
+  '632531': [12.883, 79.527],
+  '632601': [13.046, 78.816],
+  '632602': [12.948, 78.858],
+  '632603': [13.062, 78.94],
+  '635001': [12.526, 78.196],
+  '635002': [12.551, 78.231],
+  '635101': [12.487, 78.191],
+  '635102': [12.296, 77.699],
+  '635103': [12.81, 77.848],
+  '635104': [12.573, 78.361],
+  '635105': [12.781, 77.951],
+  '635106': [12.423, 78.151],
+  '635107': [12.456, 77.768],
+  '635108': [12.514, 78.305],
+  '635109': [12.719, 77.848],
+  '635110': [12.671, 77.78],
+  '635111': [12.297, 78.225],
+  '635112': [12.398, 78.213],
+  '635113': [12.418, 77.905],
+  '635114': [12.635, 77.722],
+  '635115': [12.6, 78.191],
+  '635116': [12.523, 77.985],
+  '635117': [12.647, 77.997],
+  '635118': [12.585, 77.631],
+  '635119': [12.643, 77.905],
+  '635120': [12.614, 78.27],
+  '635121': [12.699, 78.134],
+  '635122': [12.516, 78.088],
+  '635123': [12.318, 78.333],
+  '635124': [12.857, 77.894],
+  '635126': [12.734, 77.797],
+  '635201': [12.273, 78.322],
+  '635202': [12.198, 78.282],
+  '635203': [12.438, 78.361],
+  '635204': [12.392, 78.289],
+  '635205': [12.239, 78.191],
+  '635206': [12.337, 78.373],
+  '635207': [12.218, 78.498],
+  '635301': [11.993, 78.213],
+  '635302': [12.044, 78.373],
+  '635303': [12.086, 78.305],
+  '635304': [12.26, 78.407],
+  '635305': [12.125, 78.407],
+  '635306': [12.353, 78.498],
+  '635307': [12.222, 78.589],
+  '635601': [12.504, 78.577],
+  '635602': [12.457, 78.555],
+  '635651': [12.522, 78.487],
+  '635652': [12.392, 78.6],
+  '635653': [12.483, 78.623],
+  '635654': [12.432, 78.487],
+  '635655': [12.361, 78.68],
+  '635701': [12.625, 78.782],
+  '635702': [12.509, 78.714],
+  '635703': [12.528, 78.884],
+  '635710': [12.556, 78.759],
+  '635751': [12.657, 78.594],
+  '635752': [12.642, 78.646],
+  '635754': [12.73, 78.6],
+  '635801': [12.661, 78.555],
+  '635802': [12.782, 78.736],
+  '635803': [12.947, 78.895],
+  '635804': [12.833, 78.872],
+  '635805': [12.873, 78.759],
+  '635806': [12.918, 78.878],
+  '635807': [12.689, 78.691],
+  '635808': [12.821, 78.719],
+  '635809': [12.88, 78.918],
+  '635810': [12.951, 78.725],
+  '635811': [12.811, 78.634],
+  '635812': [12.823, 78.787],
+  '635813': [12.899, 78.827],
+  '635814': [12.715, 78.759],
+  '635815': [12.615, 78.555],
+  '635851': [12.617, 78.6],
+  '635852': [12.614, 78.509],
+  '635853': [12.574, 78.646],
+  '635854': [12.577, 78.452],
+  '635901': [12.498, 78.441],
+  '636001': [11.656, 78.166],
+  '636002': [11.645, 78.136],
+  '636003': [11.658, 78.182],
+  '636004': [11.69, 78.136],
+  '636005': [11.672, 78.119],
+  '636006': [11.635, 78.154],
+  '636007': [11.671, 78.162],
+  '636008': [11.7, 78.191],
+  '636009': [11.662, 78.142],
+  '636010': [11.624, 78.105],
+  '636011': [11.712, 78.071],
+  '636012': [11.754, 78.134],
+  '636013': [11.676, 78.014],
+  '636014': [11.673, 78.196],
+  '636015': [11.639, 78.185],
+  '636016': [11.675, 78.141],
+  '636030': [11.667, 78.059],
+  '636101': [11.546, 78.804],
+  '636102': [11.582, 78.577],
+  '636103': [11.663, 78.231],
+  '636104': [11.704, 78.424],
+  '636105': [11.495, 78.646],
+  '636106': [11.682, 78.282],
+  '636107': [11.545, 78.498],
+  '636108': [11.638, 78.589],
+  '636109': [11.63, 78.515],
+  '636110': [11.37, 78.589],
+  '636111': [11.623, 78.356],
+  '636112': [11.644, 78.725],
+  '636113': [11.42, 78.441],
+  '636114': [11.769, 78.498],
+  '636115': [11.62, 78.418],
+  '636116': [11.477, 78.759],
+  '636117': [11.691, 78.509],
+  '636118': [11.492, 78.424],
+  '636119': [11.628, 78.481],
+  '636121': [11.586, 78.691],
+  '636122': [11.731, 78.265],
+  '636138': [11.819, 78.634],
+  '636139': [11.763, 78.361],
+  '636140': [11.659, 78.211],
+  '636141': [11.515, 78.577],
+  '636142': [11.445, 78.367],
+  '636201': [11.604, 78.151],
+  '636202': [11.541, 78.407],
+  '636203': [11.563, 78.122],
+  '636204': [11.579, 78.225],
+  '636301': [11.515, 78.162],
+  '636302': [11.677, 78.097],
+  '636303': [11.871, 77.722],
+  '636304': [11.7, 78.037],
+  '636305': [11.874, 78.054],
+  '636306': [11.651, 77.945],
+  '636307': [11.628, 78.054],
+  '636308': [11.584, 78.077],
+  '636309': [11.808, 78.077],
+  '636351': [11.898, 78.099],
+  '636352': [11.964, 78.077],
+  '636354': [11.924, 78.168],
+  '636401': [11.858, 77.82],
+  '636402': [11.805, 77.828],
+  '636403': [11.815, 77.854],
+  '636404': [11.843, 77.848],
+  '636406': [11.757, 77.82],
+  '636451': [11.848, 77.985],
+  '636452': [11.771, 77.757],
+  '636453': [11.823, 77.917],
+  '636454': [11.777, 77.894],
+  '636455': [11.777, 78.014],
+  '636456': [11.644, 78.322],
+  '636457': [11.759, 77.854],
+  '636458': [11.889, 77.894],
+  '636501': [11.698, 77.86],
+  '636502': [11.692, 77.985],
+  '636503': [11.758, 77.962],
+  '636601': [11.758, 78.225],
+  '636602': [11.892, 78.225],
+  '636701': [12.142, 78.162],
+  '636704': [12.117, 78.225],
+  '636705': [12.141, 78.139],
+  '636803': [12.121, 78.054],
+  '636804': [12.052, 78.151],
+  '636805': [12.381, 78.088],
+  '636806': [12.387, 77.985],
+  '636807': [12.032, 78.077],
+  '636808': [12.285, 77.951],
+  '636809': [12.21, 78.031],
+  '636810': [12.054, 77.814],
+  '636811': [11.972, 77.997],
+  '636812': [12.478, 77.985],
+  '636813': [12.117, 77.962],
+  '636902': [12.118, 78.509],
+  '636903': [11.904, 78.498],
+  '636904': [11.988, 78.361],
+  '636905': [11.91, 78.373],
+  '636906': [11.976, 78.612],
+  '637001': [11.225, 78.162],
+  '637002': [11.187, 78.191],
+  '637003': [11.251, 78.122],
+  '637013': [11.125, 78.305],
+  '637014': [11.365, 78.191],
+  '637015': [11.057, 78.151],
+  '637017': [11.117, 78.099],
+  '637018': [11.362, 78.122],
+  '637019': [11.297, 78.168],
+  '637020': [11.121, 78.213],
+  '637021': [11.171, 78.35],
+  '637101': [11.606, 77.814],
+  '637102': [11.554, 77.894],
+  '637103': [11.523, 77.951],
+  '637104': [11.548, 77.757],
+  '637105': [11.637, 77.888],
+  '637107': [11.621, 77.762],
+  '637201': [11.289, 77.962],
+  '637202': [11.346, 77.997],
+  '637203': [11.243, 77.917],
+  '637204': [11.155, 77.94],
+  '637205': [11.377, 77.94],
+  '637206': [11.201, 77.985],
+  '637207': [11.181, 78.054],
+  '637208': [11.088, 77.94],
+  '637209': [11.397, 77.871],
+  '637210': [11.289, 77.82],
+  '637211': [11.381, 77.9],
+  '637212': [11.271, 78.054],
+  '637213': [11.197, 77.894],
+  '637214': [11.308, 77.871],
+  '637215': [11.373, 77.825],
+  '637301': [11.47, 77.9],
+  '637302': [11.442, 77.894],
+  '637303': [11.517, 77.814],
+  '637304': [11.417, 77.825],
+  '637401': [11.453, 78.145],
+  '637402': [11.39, 78.259],
+  '637403': [11.435, 78.117],
+  '637404': [11.302, 78.282],
+  '637405': [11.238, 78.208],
+  '637406': [11.458, 78.282],
+  '637407': [11.524, 78.259],
+  '637408': [11.455, 78.191],
+  '637409': [11.278, 78.236],
+  '637410': [11.405, 78.077],
+  '637411': [11.318, 78.407],
+  '637412': [11.411, 78.213],
+  '637501': [11.538, 78.054],
+  '637502': [11.624, 77.962],
+  '637503': [11.469, 78.008],
+  '637504': [11.554, 78.025],
+  '637505': [11.495, 78.099],
+  '638001': [11.358, 77.714],
+  '638002': [11.308, 77.739],
+  '638003': [11.35, 77.742],
+  '638004': [11.361, 77.682],
+  '638005': [11.37, 77.702],
+  '638006': [11.388, 77.797],
+  '638007': [11.331, 77.774],
+  '638008': [11.414, 77.757],
+  '638009': [11.347, 77.693],
+  '638010': [11.367, 77.79],
+  '638011': [11.328, 77.694],
+  '638012': [11.319, 77.679],
+  '638051': [11.163, 77.596],
+  '638052': [11.274, 77.596],
+  '638053': [11.281, 77.565],
+  '638054': [11.379, 77.459],
+  '638055': [11.311, 77.413],
+  '638056': [11.226, 77.528],
+  '638057': [11.315, 77.528],
+  '638101': [11.145, 77.711],
+  '638102': [11.388, 77.665],
+  '638103': [11.265, 77.39],
+  '638104': [11.193, 77.802],
+  '638105': [11.035, 77.734],
+  '638106': [10.812, 77.711],
+  '638107': [11.343, 77.642],
+  '638108': [11.066, 77.677],
+  '638109': [11.127, 77.802],
+  '638110': [11.336, 77.482],
+  '638111': [10.922, 77.688],
+  '638112': [11.244, 77.677],
+  '638115': [11.235, 77.734],
+  '638116': [11.369, 77.602],
+  '638151': [11.074, 77.86],
+  '638152': [11.146, 77.877],
+  '638153': [11.239, 77.825],
+  '638154': [11.19, 77.854],
+  '638181': [11.12, 77.982],
+  '638182': [11.113, 78.008],
+  '638183': [11.435, 77.711],
+  '638301': [11.484, 77.682],
+  '638311': [11.636, 77.734],
+  '638312': [11.521, 77.642],
+  '638313': [11.493, 77.505],
+  '638314': [11.589, 77.665],
+  '638315': [11.497, 77.596],
+  '638316': [11.438, 77.659],
+  '638401': [11.524, 77.206],
+  '638402': [11.457, 77.206],
+  '638451': [11.441, 77.079],
+  '638452': [11.467, 77.436],
+  '638453': [11.426, 77.384],
+  '638454': [11.404, 77.264],
+  '638455': [11.406, 77.573],
+  '638456': [11.383, 77.419],
+  '638457': [11.435, 77.338],
+  '638458': [11.374, 77.344],
+  '638459': [11.389, 77.16],
+  '638460': [11.306, 77.298],
+  '638461': [11.636, 76.964],
+  '638462': [11.347, 77.229],
+  '638476': [11.425, 77.482],
+  '638501': [11.607, 77.573],
+  '638502': [11.538, 77.528],
+  '638503': [11.648, 77.241],
+  '638504': [11.75, 77.516],
+  '638505': [11.529, 77.453],
+  '638506': [11.509, 77.367],
+  '638656': [10.755, 77.522],
+  '638657': [10.745, 77.401],
+  '638660': [10.935, 77.459],
+  '638661': [10.754, 77.631],
+  '638672': [10.671, 77.482],
+  '638673': [10.696, 77.573],
+  '638701': [11.018, 77.585],
+  '638702': [10.843, 77.367],
+  '638703': [10.894, 77.528],
+  '638706': [10.829, 77.573],
+  '638751': [11.137, 77.505],
+  '638752': [11.15, 77.419],
+  '638812': [11.206, 77.43],
+  '639001': [10.954, 78.059],
+  '639002': [10.934, 77.985],
+  '639003': [10.892, 78.031],
+  '639004': [10.978, 78.117],
+  '639005': [10.893, 78.077],
+  '639006': [10.998, 78.059],
+  '639007': [10.933, 78.094],
+  '639008': [10.975, 78.025],
+  '639101': [10.864, 78.617],
+  '639102': [10.912, 78.27],
+  '639103': [10.824, 78.577],
+  '639104': [10.929, 78.418],
+  '639105': [10.926, 78.35],
+  '639107': [10.902, 78.447],
+  '639108': [10.92, 78.191],
+  '639109': [10.824, 78.008],
+  '639110': [10.832, 78.498],
+  '639111': [10.911, 77.909],
+  '639112': [10.904, 78.492],
+  '639113': [11.065, 78.059],
+  '639114': [10.963, 78.145],
+  '639115': [10.884, 78.56],
+  '639116': [11.028, 78.099],
+  '639117': [11.043, 77.94],
+  '639118': [10.851, 78.122],
+  '639119': [10.837, 78.327],
+  '639120': [10.829, 78.407],
+  '639136': [11.024, 78.008],
+  '639201': [10.798, 77.894],
+  '639202': [10.759, 77.768],
+  '639203': [10.713, 77.985],
+  '639205': [10.707, 77.848],
+  '639206': [10.931, 77.788],
+  '639207': [10.688, 77.917],
+  '641001': [10.999, 76.944],
+  '641002': [11.01, 76.95],
+  '641003': [11.01, 76.938],
+  '641004': [11.036, 77.014],
+  '641005': [10.997, 77.025],
+  '641006': [11.042, 76.976],
+  '641007': [11.001, 76.894],
+  '641008': [10.963, 76.947],
+  '641009': [11.012, 76.963],
+  '641010': [10.955, 76.884],
+  '641011': [11.023, 76.946],
+  '641012': [11.021, 76.963],
+  '641013': [11.022, 76.928],
+  '641014': [11.034, 77.039],
+  '641015': [11.008, 77.013],
+  '641016': [10.985, 77.068],
+  '641017': [11.098, 76.921],
+  '641018': [11, 76.973],
+  '641019': [11.181, 76.976],
+  '641020': [11.15, 76.924],
+  '641021': [10.921, 77.005],
+  '641022': [11.108, 76.959],
+  '641023': [10.955, 77.016],
+  '641024': [10.964, 76.97],
+  '641025': [11.04, 76.924],
+  '641026': [11.181, 77.108],
+  '641027': [11.029, 76.96],
+  '641028': [11.013, 77.002],
+  '641029': [11.074, 76.959],
+  '641030': [11.048, 76.946],
+  '641031': [11.118, 76.935],
+  '641032': [10.848, 76.976],
+  '641033': [11.013, 77.032],
+  '641034': [11.082, 76.933],
+  '641035': [11.068, 77.006],
+  '641036': [11.09, 76.881],
+  '641037': [11.014, 76.979],
+  '641038': [11.031, 76.94],
+  '641039': [11.182, 77.082],
+  '641041': [11.061, 76.901],
+  '641042': [10.941, 76.935],
+  '641043': [11.029, 76.952],
+  '641044': [11.017, 76.984],
+  '641045': [10.998, 76.993],
+  '641046': [11.041, 76.838],
+  '641047': [11.16, 76.956],
+  '641048': [11.095, 77.045],
+  '641049': [11.056, 76.984],
+  '641050': [10.899, 76.993],
+  '641062': [11.053, 77.091],
+  '641101': [10.929, 76.791],
+  '641103': [11.024, 77.074],
+  '641104': [11.246, 76.953],
+  '641105': [10.913, 76.93],
+  '641107': [11.161, 77.045],
+  '641108': [11.085, 76.814],
+  '641109': [10.995, 76.791],
+  '641110': [11.154, 77.005],
+  '641111': [11.16, 76.757],
+  '641112': [10.889, 76.884],
+  '641113': [11.22, 76.861],
+  '641114': [10.936, 76.711],
+  '641201': [10.897, 77.068],
+  '641202': [10.837, 77.108],
+  '641301': [11.335, 76.953],
+  '641302': [11.352, 77.079],
+  '641305': [11.299, 76.895],
+  '641401': [11.028, 77.166],
+  '641402': [11.009, 77.114],
+  '641407': [10.764, 77.2],
+  '641601': [11.105, 77.34],
+  '641602': [11.105, 77.353],
+  '641603': [11.146, 77.338],
+  '641604': [11.104, 77.369],
+  '641605': [11.02, 77.367],
+  '641606': [11.101, 77.39],
+  '641607': [11.125, 77.361],
+  '641652': [11.167, 77.315],
+  '641653': [11.252, 77.091],
+  '641654': [11.228, 77.309],
+  '641655': [11.278, 77.183],
+  '641658': [10.923, 77.16],
+  '641659': [11.166, 77.16],
+  '641662': [11.015, 77.252],
+  '641663': [11.127, 77.275],
+  '641664': [10.962, 77.309],
+  '641665': [11.012, 77.447],
+  '641666': [11.176, 77.39],
+  '641667': [10.886, 77.344],
+  '641668': [11.057, 77.206],
+  '641669': [10.88, 77.206],
+  '641670': [11.213, 77.206],
+  '641671': [10.827, 77.264],
+  '641687': [11.084, 77.298],
+  '641697': [11.228, 77.045],
+  '642001': [10.667, 76.993],
+  '642002': [10.69, 77.016],
+  '642003': [10.625, 77.051],
+  '642004': [10.648, 76.98],
+  '642005': [10.692, 76.93],
+  '642006': [10.635, 77.028],
+  '642007': [10.541, 77.022],
+  '642101': [10.403, 77.149],
+  '642102': [10.342, 77.264],
+  '642103': [10.624, 76.884],
+  '642104': [10.577, 76.947],
+  '642105': [10.415, 76.895],
+  '642106': [10.622, 76.97],
+  '642107': [10.601, 77.126],
+  '642108': [10.356, 76.984],
+  '642109': [10.782, 76.976],
+  '642110': [10.738, 76.976],
+  '642111': [10.632, 77.223],
+  '642112': [10.484, 77.229],
+  '642113': [10.561, 77.361],
+  '642114': [10.621, 77.008],
+  '642117': [10.274, 76.93],
+  '642120': [10.731, 77.079],
+  '642122': [10.571, 77.206],
+  '642123': [10.585, 77.022],
+  '642125': [10.315, 76.861],
+  '642126': [10.618, 77.275],
+  '642127': [10.298, 76.999],
+  '642128': [10.577, 77.278],
+  '642129': [10.547, 76.895],
+  '642130': [10.666, 77.031],
+  '642132': [10.525, 77.16],
+  '642133': [10.491, 76.861],
+  '642134': [10.578, 76.97],
+  '642154': [10.509, 77.298],
+  '642201': [10.728, 77.275],
+  '642202': [10.789, 77.137],
+  '642203': [10.621, 77.344],
+  '642204': [10.51, 77.344],
+  '642205': [10.658, 77.183],
+  '642206': [10.713, 77.304],
+  '642207': [10.522, 77.091],
+  '643001': [11.404, 76.702],
+  '643002': [11.414, 76.745],
+  '643003': [11.339, 76.682],
+  '643004': [11.387, 76.63],
+  '643005': [11.455, 76.653],
+  '643006': [11.417, 76.682],
+  '643007': [11.474, 76.705],
+  '643101': [11.349, 76.796],
+  '643102': [11.351, 76.787],
+  '643103': [11.357, 76.832],
+  '643105': [11.321, 76.774],
+  '643201': [11.393, 76.878],
+  '643202': [11.354, 76.763],
+  '643203': [11.321, 76.696],
+  '643204': [11.286, 76.673],
+  '643205': [11.497, 76.265],
+  '643206': [11.538, 76.78],
+  '643207': [11.6, 76.445],
+  '643209': [11.284, 76.572],
+  '643211': [11.536, 76.491],
+  '643212': [11.516, 76.537],
+  '643213': [11.319, 76.728],
+  '643214': [11.418, 76.814],
+  '643215': [11.364, 76.728],
+  '643216': [11.441, 76.959],
+  '643217': [11.523, 76.941],
+  '643218': [11.276, 76.751],
+  '643219': [11.261, 76.659],
+  '643220': [11.521, 76.288],
+  '643221': [11.285, 76.705],
+  '643223': [11.553, 76.618],
+  '643224': [11.496, 76.583],
+  '643225': [11.532, 76.398],
+  '643226': [11.413, 76.601],
+  '643228': [11.383, 76.537],
+  '643231': [11.388, 76.786],
+  '643233': [11.484, 76.329],
+  '643236': [11.4, 76.93],
+  '643237': [11.447, 76.491],
+  '643238': [11.312, 76.82],
+  '643239': [11.57, 76.283],
+  '643240': [11.575, 76.375],
+  '643241': [11.502, 76.37],
+  '643242': [11.315, 76.635],
+  '643243': [11.366, 76.758],
+  '643253': [11.528, 76.329],
+  '670001': [11.87, 75.369],
+  '670002': [11.883, 75.367],
+  '670003': [11.864, 75.36],
+  '670004': [11.894, 75.367],
+  '670005': [11.895, 75.385],
+  '670006': [11.869, 75.42],
+  '670007': [11.844, 75.417],
+  '670008': [11.893, 75.344],
+  '670009': [11.928, 75.324],
+  '670010': [11.925, 75.349],
+  '670011': [11.919, 75.37],
+  '670012': [11.871, 75.381],
+  '670013': [11.859, 75.369],
+  '670014': [11.882, 75.356],
+  '670017': [11.878, 75.365],
+  '670018': [11.888, 75.417],
+  '670101': [11.771, 75.51],
+  '670102': [11.738, 75.522],
+  '670103': [11.75, 75.506],
+  '670104': [11.8, 75.49],
+  '670105': [11.811, 75.465],
+  '670106': [11.777, 75.467],
+  '670107': [11.792, 75.512],
+  '670141': [12.035, 75.353],
+  '670142': [12.061, 75.423],
+  '670143': [12.028, 75.324],
+  '670301': [11.994, 75.312],
+  '670302': [11.958, 75.293],
+  '670303': [12.027, 75.257],
+  '670304': [12.031, 75.233],
+  '670305': [12.043, 75.245],
+  '670306': [12.168, 75.353],
+  '670307': [12.14, 75.236],
+  '670308': [12.044, 75.207],
+  '670309': [12.079, 75.242],
+  '670310': [12.034, 75.192],
+  '670325': [11.983, 75.274],
+  '670327': [12.103, 75.233],
+  '670331': [11.884, 75.402],
+  '670334': [12.037, 75.289],
+  '670353': [12.209, 75.283],
+  '670358': [12.013, 75.254],
+  '670501': [12.08, 75.265],
+  '670502': [12.083, 75.324],
+  '670503': [12.062, 75.286],
+  '670504': [12.066, 75.282],
+  '670511': [12.289, 75.318],
+  '670521': [12.189, 75.219],
+  '670561': [11.962, 75.347],
+  '670562': [11.963, 75.37],
+  '670563': [11.998, 75.394],
+  '670567': [11.99, 75.353],
+  '670571': [12.207, 75.458],
+  '670581': [12.126, 75.4],
+  '670582': [12.131, 75.493],
+  '670591': [11.904, 75.449],
+  '670592': [11.935, 75.464],
+  '670593': [12.004, 75.609],
+  '670594': [11.91, 75.417],
+  '670595': [11.926, 75.51],
+  '670601': [11.972, 75.423],
+  '670602': [11.975, 75.493],
+  '670604': [11.932, 75.405],
+  '670611': [11.906, 75.496],
+  '670612': [11.888, 75.516],
+  '670613': [11.89, 75.464],
+  '670621': [11.84, 75.446],
+  '670622': [11.836, 75.487],
+  '670631': [12.032, 75.504],
+  '670632': [12.09, 75.563],
+  '670633': [12.094, 75.632],
+  '670641': [11.772, 75.533],
+  '670642': [11.791, 75.531],
+  '670643': [11.844, 75.539],
+  '670644': [11.782, 75.83],
+  '670645': [11.791, 76.016],
+  '670646': [11.882, 76.062],
+  '670649': [11.815, 75.499],
+  '670650': [11.831, 75.702],
+  '670651': [11.885, 75.888],
+  '670661': [11.799, 75.472],
+  '670662': [11.793, 75.455],
+  '670663': [11.809, 75.443],
+  '670671': [11.802, 75.586],
+  '670672': [11.729, 75.557],
+  '670673': [11.898, 75.726],
+  '670674': [11.915, 75.83],
+  '670675': [11.711, 75.583],
+  '670676': [11.731, 75.603],
+  '670691': [11.795, 75.557],
+  '670692': [11.764, 75.592],
+  '670693': [11.784, 75.656],
+  '670694': [11.754, 75.56],
+  '670701': [11.869, 75.586],
+  '670702': [11.947, 75.598],
+  '670703': [11.963, 75.679],
+  '670704': [11.989, 75.749],
+  '670705': [12.057, 75.673],
+  '670706': [12.056, 75.749],
+  '670721': [11.761, 76.097],
+  '670731': [11.73, 75.911],
+  '670741': [11.811, 75.478],
+  '671121': [12.513, 75.032],
+  '671122': [12.482, 74.995],
+  '671123': [12.51, 74.985],
+  '671124': [12.55, 75.003],
+  '671310': [12.158, 75.166],
+  '671311': [12.108, 75.172],
+  '671312': [12.184, 75.137],
+  '671313': [12.232, 75.195],
+  '671314': [12.284, 75.225],
+  '671315': [12.272, 75.102],
+  '671316': [12.398, 75.073],
+  '671317': [12.467, 75.009],
+  '671318': [12.447, 75.055],
+  '671319': [12.434, 75.02],
+  '671321': [12.616, 74.979],
+  '671322': [12.683, 74.979],
+  '671323': [12.747, 74.933],
+  '671324': [12.655, 74.935],
+  '671326': [12.347, 75.353],
+  '671348': [12.703, 75.032],
+  '671351': [12.226, 75.134],
+  '671531': [12.368, 75.131],
+  '671532': [12.433, 75.306],
+  '671533': [12.366, 75.306],
+  '671541': [12.46, 75.178],
+  '671542': [12.512, 75.12],
+  '671543': [12.561, 75.19],
+  '671551': [12.578, 75.096],
+  '671552': [12.645, 75.096],
+  '673001': [11.244, 75.781],
+  '673002': [11.246, 75.791],
+  '673003': [11.222, 75.787],
+  '673004': [11.261, 75.787],
+  '673005': [11.296, 75.766],
+  '673006': [11.277, 75.781],
+  '673007': [11.24, 75.81],
+  '673008': [11.262, 75.865],
+  '673009': [11.298, 75.801],
+  '673010': [11.3, 75.787],
+  '673011': [11.271, 75.769],
+  '673012': [11.296, 75.821],
+  '673014': [11.233, 75.824],
+  '673015': [11.185, 75.81],
+  '673016': [11.256, 75.804],
+  '673017': [11.276, 75.801],
+  '673018': [11.211, 75.805],
+  '673019': [11.223, 75.859],
+  '673020': [11.285, 75.788],
+  '673021': [11.315, 75.757],
+  '673027': [11.199, 75.824],
+  '673028': [11.201, 75.798],
+  '673029': [11.225, 75.805],
+  '673032': [11.256, 75.773],
+  '673101': [11.589, 75.589],
+  '673102': [11.643, 75.566],
+  '673103': [11.627, 75.571],
+  '673104': [11.609, 75.603],
+  '673105': [11.578, 75.6],
+  '673106': [11.642, 75.603],
+  '673121': [11.609, 76.057],
+  '673122': [11.66, 76.062],
+  '673123': [11.587, 76.045],
+  '673301': [11.152, 75.821],
+  '673302': [11.135, 75.826],
+  '673303': [11.34, 75.755],
+  '673304': [11.41, 75.726],
+  '673305': [11.448, 75.696],
+  '673306': [11.44, 75.717],
+  '673307': [11.497, 75.679],
+  '673308': [11.663, 75.568],
+  '673309': [11.687, 75.554],
+  '673310': [11.697, 75.542],
+  '673312': [11.709, 75.548],
+  '673313': [11.699, 75.566],
+  '673314': [11.123, 75.848],
+  '673315': [11.407, 75.766],
+  '673316': [11.688, 75.577],
+  '673317': [11.341, 75.789],
+  '673328': [11.148, 75.839],
+  '673501': [11.665, 75.603],
+  '673502': [11.666, 75.627],
+  '673503': [11.68, 75.635],
+  '673504': [11.692, 75.647],
+  '673505': [11.712, 75.612],
+  '673506': [11.703, 75.696],
+  '673507': [11.653, 75.702],
+  '673508': [11.65, 75.755],
+  '673509': [11.733, 75.65],
+  '673513': [11.723, 75.772],
+  '673517': [11.724, 75.673],
+  '673521': [11.577, 75.627],
+  '673522': [11.532, 75.615],
+  '673523': [11.534, 75.662],
+  '673524': [11.56, 75.72],
+  '673525': [11.568, 75.772],
+  '673526': [11.586, 75.801],
+  '673527': [11.533, 75.848],
+  '673528': [11.617, 75.865],
+  '673529': [11.494, 75.632],
+  '673541': [11.584, 75.656],
+  '673542': [11.634, 75.65],
+  '673570': [11.299, 75.874],
+  '673571': [11.312, 75.871],
+  '673572': [11.359, 75.929],
+  '673573': [11.405, 75.964],
+  '673574': [11.44, 75.888],
+  '673575': [11.621, 75.958],
+  '673576': [11.536, 76.028],
+  '673577': [11.531, 76.155],
+  '673579': [11.809, 76.167],
+  '673580': [11.424, 76.004],
+  '673581': [11.545, 76.213],
+  '673582': [11.362, 75.975],
+  '673585': [11.373, 75.865],
+  '673586': [11.492, 76.028],
+  '673591': [11.676, 76.167],
+  '673592': [11.716, 76.294],
+  '673593': [11.61, 76.19],
+  '673595': [11.615, 76.283],
+  '673596': [11.743, 76.167],
+  '673601': [11.31, 75.935],
+  '673602': [11.296, 75.999],
+  '673603': [11.393, 76.062],
+  '673604': [11.315, 76.051],
+  '673611': [11.321, 75.824],
+  '673612': [11.46, 75.842],
+  '673613': [11.415, 75.819],
+  '673614': [11.502, 75.795],
+  '673615': [11.53, 75.911],
+  '673616': [11.365, 75.813],
+  '673620': [11.456, 75.749],
+  '673631': [11.168, 75.859],
+  '673632': [11.198, 75.85],
+  '673633': [11.215, 75.917],
+  '673634': [11.16, 75.917],
+  '673635': [11.109, 75.888],
+  '673636': [11.142, 75.897],
+  '673637': [11.182, 75.917],
+  '673638': [11.113, 75.981],
+  '673639': [11.249, 76.051],
+  '673640': [11.239, 75.964],
+  '673641': [11.183, 76.051],
+  '673642': [11.144, 76.045],
+  '673645': [11.219, 75.999],
+  '673647': [11.128, 75.941],
+  '673655': [11.547, 75.696],
+  '673661': [11.272, 75.952],
+  '676101': [10.917, 75.929],
+  '676102': [10.824, 75.935],
+  '676103': [10.919, 75.952],
+  '676104': [10.904, 75.926],
+  '676105': [10.883, 75.906],
+  '676106': [10.951, 75.941],
+  '676107': [10.939, 75.917],
+  '676108': [10.856, 75.961],
+  '676109': [10.93, 75.903],
+  '676121': [11.163, 76.097],
+  '676122': [11.122, 76.167],
+  '676123': [11.188, 76.167],
+  '676301': [10.899, 75.999],
+  '676302': [10.976, 75.888],
+  '676303': [11.036, 75.871],
+  '676304': [11.047, 75.981],
+  '676305': [11.073, 75.952],
+  '676306': [11.038, 75.917],
+  '676307': [10.956, 75.903],
+  '676309': [11.019, 75.92],
+  '676311': [11.06, 75.917],
+  '676312': [11.082, 75.85],
+  '676317': [11.105, 75.926],
+  '676319': [11.072, 75.868],
+  '676320': [10.981, 75.925],
+  '676501': [10.985, 75.964],
+  '676502': [10.907, 75.891],
+  '676503': [11.006, 76.051],
+  '676504': [11.013, 76.091],
+  '676505': [11.056, 76.068],
+  '676506': [11.056, 76.112],
+  '676507': [11.037, 76.126],
+  '676508': [11.007, 75.952],
+  '676509': [11.081, 76.115],
+  '676510': [10.954, 76.01],
+  '676517': [11.117, 76.074],
+  '676519': [11.078, 76.057],
+  '676521': [11.125, 76.236],
+  '676522': [11.096, 76.262],
+  '676523': [11.131, 76.375],
+  '676525': [11.185, 76.341],
+  '676528': [11.033, 76.033],
+  '676541': [11.23, 76.12],
+  '676542': [11.25, 76.184],
+  '676551': [10.936, 75.981],
+  '676552': [10.898, 76.097],
+  '676553': [10.94, 76.051],
+  '676561': [10.848, 75.92],
+  '676562': [10.847, 75.903],
+  '678001': [10.76, 76.656],
+  '678002': [10.798, 76.644],
+  '678003': [10.794, 76.651],
+  '678004': [10.762, 76.635],
+  '678005': [10.797, 76.682],
+  '678006': [10.775, 76.609],
+  '678007': [10.775, 76.682],
+  '678008': [10.88, 76.676],
+  '678009': [10.806, 76.624],
+  '678010': [10.789, 76.654],
+  '678011': [10.804, 76.656],
+  '678012': [10.781, 76.633],
+  '678013': [10.766, 76.667],
+  '678014': [10.782, 76.661],
+  '678101': [10.701, 76.751],
+  '678102': [10.677, 76.705],
+  '678103': [10.678, 76.739],
+  '678104': [10.697, 76.725],
+  '678501': [10.697, 76.659],
+  '678502': [10.671, 76.638],
+  '678503': [10.665, 76.682],
+  '678504': [10.655, 76.705],
+  '678505': [10.642, 76.67],
+  '678506': [10.594, 76.699],
+  '678507': [10.576, 76.791],
+  '678508': [10.472, 76.687],
+  '678510': [10.561, 76.566],
+  '678512': [10.651, 76.612],
+  '678531': [10.709, 76.693],
+  '678532': [10.634, 76.728],
+  '678533': [10.743, 76.716],
+  '678534': [10.664, 76.791],
+  '678541': [10.645, 76.54],
+  '678542': [10.638, 76.566],
+  '678543': [10.656, 76.474],
+  '678544': [10.678, 76.485],
+  '678545': [10.638, 76.505],
+  '678546': [10.66, 76.566],
+  '678551': [10.742, 76.693],
+  '678552': [10.722, 76.728],
+  '678553': [10.713, 76.786],
+  '678554': [10.97, 76.346],
+  '678555': [10.722, 76.849],
+  '678556': [10.777, 76.861],
+  '678557': [10.815, 76.832],
+  '678571': [10.748, 76.578],
+  '678572': [10.761, 76.552],
+  '678573': [10.768, 76.52],
+  '678574': [10.722, 76.485],
+  '678581': [11.156, 76.664],
+  '678582': [11.103, 76.479],
+  '678583': [10.955, 76.375],
+  '678591': [10.932, 76.618],
+  '678592': [10.836, 76.566],
+  '678593': [10.965, 76.485],
+  '678594': [10.816, 76.601],
+  '678595': [10.931, 76.474],
+  '678596': [10.879, 76.543],
+  '678597': [10.913, 76.555],
+  '678598': [10.988, 76.497],
+  '678601': [11.065, 76.375],
+  '678611': [10.792, 76.578],
+  '678612': [10.791, 76.555],
+  '678613': [10.806, 76.514],
+  '678621': [10.818, 76.791],
+  '678622': [10.751, 76.768],
+  '678623': [10.81, 76.716],
+  '678624': [10.845, 76.84],
+  '678631': [10.856, 76.508],
+  '678632': [10.893, 76.491],
+  '678633': [10.869, 76.445],
+  '678641': [10.833, 76.485],
+  '678642': [10.798, 76.462],
+  '678651': [10.861, 76.745],
+  '678661': [10.422, 76.791],
+  '678671': [10.693, 76.633],
+  '678681': [10.636, 76.592],
+  '678682': [10.613, 76.497],
+  '678683': [10.59, 76.485],
+  '678684': [10.562, 76.468],
+  '678685': [10.62, 76.477],
+  '678686': [10.599, 76.439],
+  '678687': [10.627, 76.445],
+  '678688': [10.629, 76.624],
+  '678701': [10.729, 76.647],
+  '678702': [10.722, 76.607],
+  '678703': [10.617, 76.589],
+  '678704': [10.604, 76.543],
+  '678705': [10.589, 76.517],
+  '678706': [10.52, 76.514],
+  '678721': [10.697, 76.537],
+  '678722': [10.735, 76.52],
+  '678731': [10.68, 76.598],
+  '678732': [10.817, 76.696],
+  '678762': [10.974, 76.451],
+  '679101': [10.77, 76.378],
+  '679102': [10.794, 76.37],
+  '679103': [10.76, 76.407],
+  '679104': [10.785, 76.355],
+  '679105': [10.751, 76.381],
+  '679106': [10.729, 76.393],
+  '679121': [10.77, 76.262],
+  '679122': [10.801, 76.277],
+  '679123': [10.753, 76.257],
+  '679301': [10.775, 76.427],
+  '679302': [10.766, 76.474],
+  '679303': [10.813, 76.167],
+  '679304': [10.863, 76.123],
+  '679305': [10.827, 76.115],
+  '679306': [10.798, 76.262],
+  '679307': [10.863, 76.184],
+  '679308': [10.873, 76.149],
+  '679309': [10.896, 76.173],
+  '679313': [10.788, 76.231],
+  '679321': [10.989, 76.167],
+  '679322': [10.971, 76.259],
+  '679323': [10.924, 76.19],
+  '679324': [11.033, 76.167],
+  '679325': [11.038, 76.259],
+  '679326': [11.062, 76.306],
+  '679327': [11.149, 76.283],
+  '679328': [11.191, 76.236],
+  '679329': [11.301, 76.213],
+  '679330': [11.281, 76.259],
+  '679331': [11.367, 76.433],
+  '679332': [11.278, 76.433],
+  '679333': [11.417, 76.329],
+  '679334': [11.356, 76.202],
+  '679335': [10.862, 76.283],
+  '679336': [10.833, 76.242],
+  '679337': [10.865, 76.219],
+  '679338': [10.944, 76.144],
+  '679339': [11.22, 76.265],
+  '679340': [10.92, 76.231],
+  '679357': [10.928, 76.283],
+  '679501': [10.821, 76.352],
+  '679502': [10.859, 76.346],
+  '679503': [10.881, 76.335],
+  '679504': [10.904, 76.346],
+  '679505': [10.824, 76.3],
+  '679506': [10.901, 76.3],
+  '679511': [10.796, 76.404],
+  '679512': [10.827, 76.413],
+  '679513': [10.918, 76.416],
+  '679514': [10.889, 76.398],
+  '679515': [10.843, 76.407],
+  '679516': [10.819, 76.439],
+  '679521': [10.76, 76.346],
+  '679522': [10.792, 76.323],
+  '679523': [10.769, 76.3],
+  '679531': [10.732, 76.329],
+  '679532': [10.749, 76.213],
+  '679533': [10.762, 76.138],
+  '679534': [10.789, 76.12],
+  '679535': [10.74, 76.149],
+  '679536': [10.759, 76.08],
+  '679551': [10.813, 76.045],
+  '679552': [10.769, 76.057],
+  '679553': [10.838, 76.048],
+  '679554': [10.814, 76.068],
+  '679561': [10.679, 75.999],
+  '679562': [10.657, 76.01],
+  '679563': [10.638, 76.019],
+  '679564': [10.674, 75.967],
+  '679571': [10.872, 76.028],
+  '679572': [10.858, 76.08],
+  '679573': [10.843, 75.987],
+  '679574': [10.731, 76.013],
+  '679575': [10.713, 76.033],
+  '679576': [10.778, 75.999],
+  '679577': [10.775, 75.922],
+  '679578': [10.79, 76.033],
+  '679579': [10.742, 75.952],
+  '679580': [10.699, 75.964],
+  '679581': [10.743, 75.975],
+  '679582': [10.819, 75.996],
+  '679583': [10.773, 75.961],
+  '679584': [10.755, 75.932],
+  '679585': [10.762, 76.028],
+  '679586': [10.775, 75.941],
+  '679587': [10.712, 75.999],
+  '679591': [10.725, 76.057],
+  '680001': [10.519, 76.215],
+  '680002': [10.542, 76.193],
+  '680003': [10.53, 76.187],
+  '680004': [10.516, 76.2],
+  '680005': [10.527, 76.233],
+  '680006': [10.503, 76.242],
+  '680007': [10.492, 76.199],
+  '680008': [10.543, 76.216],
+  '680009': [10.55, 76.22],
+  '680010': [10.559, 76.216],
+  '680011': [10.525, 76.199],
+  '680012': [10.499, 76.161],
+  '680013': [10.564, 76.193],
+  '680014': [10.491, 76.352],
+  '680020': [10.526, 76.216],
+  '680021': [10.514, 76.212],
+  '680022': [10.542, 76.212],
+  '680026': [10.484, 76.226],
+  '680027': [10.488, 76.216],
+  '680028': [10.581, 76.277],
+  '680101': [10.601, 76.042],
+  '680102': [10.597, 76.077],
+  '680103': [10.703, 75.984],
+  '680104': [10.591, 76.059],
+  '680121': [10.337, 76.207],
+  '680122': [10.335, 76.173],
+  '680123': [10.27, 76.196],
+  '680125': [10.369, 76.196],
+  '680301': [10.437, 76.254],
+  '680302': [10.445, 76.306],
+  '680303': [10.441, 76.346],
+  '680304': [10.483, 76.433],
+  '680305': [10.383, 76.265],
+  '680306': [10.459, 76.242],
+  '680307': [10.307, 76.338],
+  '680308': [10.25, 76.352],
+  '680309': [10.276, 76.323],
+  '680310': [10.404, 76.242],
+  '680311': [10.289, 76.37],
+  '680312': [10.408, 76.346],
+  '680317': [10.472, 76.228],
+  '680501': [10.635, 76.12],
+  '680502': [10.631, 76.094],
+  '680503': [10.657, 76.065],
+  '680504': [10.614, 76.094],
+  '680505': [10.614, 76.033],
+  '680506': [10.591, 76.01],
+  '680507': [10.56, 76.057],
+  '680508': [10.56, 76.106],
+  '680509': [10.537, 76.094],
+  '680510': [10.519, 76.126],
+  '680511': [10.561, 76.08],
+  '680512': [10.562, 76.036],
+  '680513': [10.515, 76.077],
+  '680514': [10.54, 76.03],
+  '680515': [10.593, 76.123],
+  '680516': [10.613, 75.999],
+  '680517': [10.638, 76.08],
+  '680518': [10.647, 75.978],
+  '680519': [10.693, 76.08],
+  '680520': [10.627, 76.007],
+  '680521': [10.629, 76.059],
+  '680522': [10.556, 76.046],
+  '680523': [10.648, 76.045],
+  '680524': [10.531, 76.071],
+  '680541': [10.59, 76.17],
+  '680542': [10.681, 76.057],
+  '680543': [10.716, 76.103],
+  '680544': [10.691, 76.033],
+  '680545': [10.576, 76.173],
+  '680546': [10.609, 76.136],
+  '680551': [10.542, 76.138],
+  '680552': [10.574, 76.126],
+  '680553': [10.551, 76.164],
+  '680555': [10.561, 76.174],
+  '680561': [10.435, 76.196],
+  '680562': [10.425, 76.219],
+  '680563': [10.467, 76.184],
+  '680564': [10.411, 76.149],
+  '680565': [10.429, 76.123],
+  '680566': [10.422, 76.094],
+  '680567': [10.398, 76.103],
+  '680568': [10.365, 76.115],
+  '680569': [10.452, 76.08],
+  '680570': [10.439, 76.112],
+  '680571': [10.433, 76.149],
+  '680581': [10.611, 76.219],
+  '680582': [10.654, 76.251],
+  '680583': [10.702, 76.277],
+  '680584': [10.681, 76.167],
+  '680585': [10.71, 76.207],
+  '680586': [10.624, 76.375],
+  '680587': [10.669, 76.398],
+  '680588': [10.715, 76.445],
+  '680589': [10.642, 76.283],
+  '680590': [10.69, 76.242],
+  '680591': [10.704, 76.312],
+  '680594': [10.733, 76.413],
+  '680596': [10.619, 76.199],
+  '680601': [10.637, 76.167],
+  '680602': [10.595, 76.103],
+  '680604': [10.684, 76.115],
+  '680611': [10.501, 76.183],
+  '680612': [10.478, 76.117],
+  '680613': [10.472, 76.1],
+  '680614': [10.465, 76.071],
+  '680615': [10.503, 76.059],
+  '680616': [10.519, 76.054],
+  '680617': [10.496, 76.103],
+  '680618': [10.514, 76.193],
+  '680619': [10.484, 76.068],
+  '680620': [10.487, 76.138],
+  '680623': [10.644, 76.219],
+  '680631': [10.558, 76.242],
+  '680641': [10.454, 76.126],
+  '680642': [10.444, 76.128],
+  '680651': [10.55, 76.262],
+  '680652': [10.6, 76.329],
+  '680653': [10.519, 76.37],
+  '680654': [10.546, 76.291],
+  '680655': [10.522, 76.251],
+  '680656': [10.551, 76.274],
+  '680661': [10.318, 76.222],
+  '680662': [10.305, 76.242],
+  '680663': [10.246, 76.21],
+  '680664': [10.219, 76.21],
+  '680665': [10.277, 76.164],
+  '680666': [10.215, 76.173],
+  '680667': [10.524, 76.206],
+  '680668': [10.248, 76.184],
+  '680669': [10.213, 76.199],
+  '680670': [10.258, 76.222],
+  '680671': [10.257, 76.149],
+  '680681': [10.334, 76.138],
+  '680682': [10.272, 76.242],
+  '680683': [10.35, 76.265],
+  '680684': [10.396, 76.433],
+  '680685': [10.299, 76.158],
+  '680686': [10.309, 76.141],
+  '680687': [10.366, 76.138],
+  '680688': [10.303, 76.184],
+  '680689': [10.353, 76.323],
+  '680691': [10.29, 76.138],
+  '680697': [10.307, 76.277],
+  '680699': [10.382, 76.297],
+  '680701': [10.382, 76.187],
+  '680702': [10.378, 76.161],
+  '680703': [10.38, 76.129],
+  '680711': [10.402, 76.196],
+  '680712': [10.381, 76.219],
+  '680721': [10.338, 76.375],
+  '680722': [10.309, 76.323],
+  '680724': [10.316, 76.618],
+  '680731': [10.283, 76.297],
+  '680732': [10.247, 76.283],
+  '680733': [10.207, 76.242],
+  '680734': [10.198, 76.3],
+  '680741': [10.231, 76.312],
+  '680751': [10.517, 76.312],
+  '682001': [9.953, 76.245],
+  '682002': [9.953, 76.257],
+  '682003': [9.933, 76.286],
+  '682004': [9.944, 76.273],
+  '682005': [9.93, 76.264],
+  '682006': [9.913, 76.277],
+  '682007': [9.88, 76.277],
+  '682008': [9.837, 76.277],
+  '682009': [9.965, 76.266],
+  '682010': [9.906, 76.297],
+  '682011': [9.972, 76.284],
+  '682012': [10.009, 76.28],
+  '682013': [9.94, 76.299],
+  '682015': [9.953, 76.293],
+  '682016': [9.967, 76.287],
+  '682017': [9.993, 76.297],
+  '682018': [9.992, 76.28],
+  '682019': [9.966, 76.315],
+  '682020': [9.966, 76.303],
+  '682021': [10.048, 76.37],
+  '682022': [10.049, 76.326],
+  '682023': [10.019, 76.274],
+  '682024': [10.032, 76.309],
+  '682025': [10, 76.31],
+  '682026': [10.015, 76.291],
+  '682027': [10.054, 76.254],
+  '682028': [9.994, 76.32],
+  '682029': [9.938, 76.27],
+  '682030': [10.004, 76.358],
+  '682031': [9.981, 76.276],
+  '682032': [9.984, 76.313],
+  '682033': [10.041, 76.322],
+  '682034': [10.058, 76.286],
+  '682035': [9.983, 76.284],
+  '682036': [9.961, 76.293],
+  '682037': [10, 76.338],
+  '682038': [9.944, 76.336],
+  '682039': [10.05, 76.316],
+  '682040': [9.928, 76.315],
+  '682041': [10.035, 76.293],
+  '682301': [9.938, 76.346],
+  '682302': [9.982, 76.37],
+  '682303': [10.014, 76.392],
+  '682304': [9.94, 76.326],
+  '682305': [9.939, 76.37],
+  '682306': [9.97, 76.335],
+  '682307': [9.873, 76.37],
+  '682308': [9.951, 76.429],
+  '682309': [9.963, 76.355],
+  '682310': [9.999, 76.432],
+  '682311': [9.976, 76.485],
+  '682312': [9.929, 76.393],
+  '682313': [9.855, 76.451],
+  '682314': [9.897, 76.416],
+  '682315': [9.853, 76.416],
+  '682316': [9.978, 76.531],
+  '682501': [10.118, 76.207],
+  '682502': [10.096, 76.207],
+  '682503': [10.031, 76.219],
+  '682504': [9.997, 76.251],
+  '682505': [10.044, 76.222],
+  '682506': [9.899, 76.329],
+  '682507': [9.92, 76.257],
+  '682508': [9.988, 76.231],
+  '682509': [10.074, 76.219],
+  '682511': [10.017, 76.222],
+  '682551': [10.813, 73.68],
+  '682552': [11.124, 72.724],
+  '682553': [10.874, 72.202],
+  '682554': [11.691, 72.711],
+  '682555': [11.54, 72.153],
+  '682556': [11.23, 72.779],
+  '682557': [10.072, 73.645],
+  '682558': [11.484, 73.007],
+  '682559': [8.27, 73.043],
+  '683101': [10.102, 76.358],
+  '683102': [10.134, 76.346],
+  '683104': [10.06, 76.326],
+  '683105': [10.105, 76.416],
+  '683106': [10.083, 76.349],
+  '683108': [10.11, 76.343],
+  '683110': [10.101, 76.323],
+  '683111': [10.158, 76.393],
+  '683112': [10.093, 76.393],
+  '683501': [10.07, 76.315],
+  '683502': [10.092, 76.303],
+  '683503': [10.055, 76.343],
+  '683511': [10.122, 76.312],
+  '683512': [10.16, 76.228],
+  '683513': [10.13, 76.231],
+  '683514': [10.136, 76.199],
+  '683515': [10.163, 76.181],
+  '683516': [10.18, 76.193],
+  '683517': [10.087, 76.265],
+  '683518': [10.109, 76.265],
+  '683519': [10.108, 76.242],
+  '683520': [10.142, 76.265],
+  '683521': [10.176, 76.228],
+  '683522': [10.161, 76.207],
+  '683541': [10.06, 76.537],
+  '683542': [10.107, 76.474],
+  '683543': [10.129, 76.485],
+  '683544': [10.169, 76.514],
+  '683545': [10.12, 76.52],
+  '683546': [10.184, 76.413],
+  '683547': [10.095, 76.439],
+  '683549': [10.099, 76.555],
+  '683550': [10.147, 76.453],
+  '683556': [10.064, 76.485],
+  '683561': [10.071, 76.393],
+  '683562': [10.035, 76.445],
+  '683563': [10.07, 76.37],
+  '683565': [9.998, 76.398],
+  '683571': [10.128, 76.378],
+  '683572': [10.202, 76.381],
+  '683573': [10.182, 76.367],
+  '683574': [10.183, 76.451],
+  '683575': [10.138, 76.439],
+  '683576': [10.246, 76.393],
+  '683577': [10.225, 76.416],
+  '683578': [10.154, 76.3],
+  '683579': [10.189, 76.335],
+  '683580': [10.137, 76.404],
+  '683581': [10.226, 76.572],
+  '683585': [10.153, 76.359],
+  '683587': [10.195, 76.497],
+  '683589': [10.171, 76.361],
+  '683594': [10.185, 76.254],
+  '685501': [9.62, 76.999],
+  '685503': [9.705, 76.93],
+  '685505': [9.707, 76.999],
+  '685507': [9.666, 77.068],
+  '685508': [9.761, 77.12],
+  '685509': [9.444, 77.241],
+  '685511': [9.753, 77.045],
+  '685512': [9.665, 77.166],
+  '685514': [9.798, 77.091],
+  '685515': [9.751, 77.143],
+  '685531': [9.576, 76.976],
+  '685532': [9.502, 77.033],
+  '685533': [9.581, 77.114],
+  '685535': [9.652, 77.12],
+  '685551': [9.714, 77.183],
+  '685552': [9.803, 77.206],
+  '685553': [9.866, 77.137],
+  '685554': [9.91, 77.16],
+  '685561': [10.129, 76.872],
+  '685562': [9.969, 76.976],
+  '685563': [9.971, 77.045],
+  '685565': [10.017, 77.091],
+  '685566': [9.952, 77.114],
+  '685571': [9.873, 77.177],
+  '685581': [9.918, 76.791],
+  '685582': [9.96, 76.768],
+  '685583': [9.868, 76.653],
+  '685584': [9.896, 76.725],
+  '685585': [9.867, 76.751],
+  '685586': [9.854, 76.705],
+  '685587': [9.828, 76.745],
+  '685588': [9.852, 76.791],
+  '685589': [9.751, 76.866],
+  '685590': [9.804, 76.809],
+  '685591': [9.811, 76.861],
+  '685595': [9.855, 76.861],
+  '685601': [9.769, 76.907],
+  '685602': [9.805, 76.987],
+  '685603': [9.836, 76.93],
+  '685604': [9.894, 77.033],
+  '685605': [9.912, 76.731],
+  '685606': [9.951, 76.947],
+  '685607': [9.984, 76.814],
+  '685608': [9.92, 76.705],
+  '685609': [9.841, 77.068],
+  '685612': [10.115, 77.079],
+  '685613': [10.021, 77.206],
+  '685614': [9.695, 77.108],
+  '685615': [10.176, 77.229],
+  '685616': [10.085, 77.16],
+  '685618': [10.049, 77.2],
+  '685619': [9.956, 77.206],
+  '685620': [10.25, 77.172],
+  '686001': [9.593, 76.517],
+  '686002': [9.578, 76.546],
+  '686003': [9.551, 76.485],
+  '686004': [9.564, 76.531],
+  '686005': [9.598, 76.5],
+  '686006': [9.609, 76.544],
+  '686007': [9.519, 76.497],
+  '686008': [9.639, 76.508],
+  '686009': [9.593, 76.539],
+  '686010': [9.595, 76.563],
+  '686011': [9.544, 76.566],
+  '686012': [9.545, 76.523],
+  '686013': [9.555, 76.511],
+  '686014': [9.606, 76.485],
+  '686015': [9.614, 76.5],
+  '686016': [9.621, 76.54],
+  '686017': [9.619, 76.513],
+  '686018': [9.584, 76.557],
+  '686019': [9.609, 76.578],
+  '686020': [9.573, 76.474],
+  '686021': [9.547, 76.586],
+  '686022': [9.591, 76.471],
+  '686041': [9.608, 76.518],
+  '686101': [9.444, 76.52],
+  '686102': [9.421, 76.497],
+  '686103': [9.463, 76.517],
+  '686104': [9.464, 76.557],
+  '686105': [9.446, 76.578],
+  '686106': [9.478, 76.555],
+  '686121': [9.694, 76.786],
+  '686122': [9.682, 76.763],
+  '686123': [9.661, 76.774],
+  '686141': [9.746, 76.396],
+  '686143': [9.776, 76.393],
+  '686144': [9.664, 76.445],
+  '686146': [9.764, 76.424],
+  '686501': [9.611, 76.612],
+  '686502': [9.579, 76.647],
+  '686503': [9.608, 76.676],
+  '686504': [9.563, 76.713],
+  '686505': [9.556, 76.721],
+  '686506': [9.568, 76.768],
+  '686507': [9.566, 76.794],
+  '686508': [9.612, 76.791],
+  '686509': [9.478, 76.832],
+  '686510': [9.437, 76.912],
+  '686511': [9.425, 76.866],
+  '686512': [9.593, 76.861],
+  '686513': [9.486, 76.907],
+  '686514': [9.595, 76.907],
+  '686515': [9.549, 76.693],
+  '686516': [9.578, 76.612],
+  '686517': [9.528, 76.716],
+  '686518': [9.526, 76.814],
+  '686519': [9.54, 76.751],
+  '686520': [9.522, 76.783],
+  '686521': [9.559, 76.67],
+  '686522': [9.594, 76.739],
+  '686531': [9.534, 76.529],
+  '686532': [9.499, 76.531],
+  '686533': [9.529, 76.54],
+  '686534': [9.486, 76.485],
+  '686535': [9.485, 76.523],
+  '686536': [9.491, 76.601],
+  '686537': [9.524, 76.552],
+  '686538': [9.501, 76.578],
+  '686539': [9.524, 76.612],
+  '686540': [9.497, 76.63],
+  '686541': [9.484, 76.705],
+  '686542': [9.504, 76.659],
+  '686543': [9.51, 76.754],
+  '686544': [9.481, 76.768],
+  '686545': [9.472, 76.621],
+  '686546': [9.468, 76.589],
+  '686547': [9.452, 76.728],
+  '686548': [9.424, 76.566],
+  '686555': [9.555, 76.794],
+  '686560': [9.654, 76.54],
+  '686561': [9.648, 76.523],
+  '686562': [9.684, 76.531],
+  '686563': [9.609, 76.433],
+  '686564': [9.644, 76.635],
+  '686571': [9.72, 76.612],
+  '686572': [9.698, 76.612],
+  '686573': [9.667, 76.659],
+  '686574': [9.76, 76.676],
+  '686575': [9.69, 76.693],
+  '686576': [9.825, 76.653],
+  '686577': [9.632, 76.745],
+  '686578': [9.702, 76.728],
+  '686579': [9.72, 76.768],
+  '686580': [9.701, 76.838],
+  '686581': [9.661, 76.797],
+  '686582': [9.658, 76.838],
+  '686583': [9.665, 76.612],
+  '686584': [9.677, 76.635],
+  '686585': [9.636, 76.705],
+  '686586': [9.748, 76.774],
+  '686587': [9.708, 76.589],
+  '686601': [9.696, 76.505],
+  '686602': [9.672, 76.508],
+  '686603': [9.726, 76.508],
+  '686604': [9.78, 76.497],
+  '686605': [9.795, 76.445],
+  '686606': [9.722, 76.393],
+  '686607': [9.712, 76.427],
+  '686608': [9.809, 76.393],
+  '686609': [9.83, 76.453],
+  '686610': [9.84, 76.491],
+  '686611': [9.703, 76.462],
+  '686612': [9.792, 76.52],
+  '686613': [9.746, 76.462],
+  '686616': [9.82, 76.471],
+  '686630': [9.644, 76.552],
+  '686631': [9.674, 76.566],
+  '686632': [9.714, 76.534],
+  '686633': [9.75, 76.566],
+  '686634': [9.785, 76.624],
+  '686635': [9.753, 76.624],
+  '686636': [9.8, 76.583],
+  '686637': [9.642, 76.578],
+  '686651': [9.784, 76.722],
+  '686652': [9.786, 76.768],
+  '686653': [9.775, 76.696],
+  '686661': [9.969, 76.566],
+  '686662': [9.876, 76.572],
+  '686663': [9.933, 76.497],
+  '686664': [9.878, 76.485],
+  '686665': [9.837, 76.543],
+  '686666': [10.067, 76.621],
+  '686667': [9.906, 76.514],
+  '686668': [9.973, 76.67],
+  '686669': [10.01, 76.52],
+  '686670': [9.94, 76.659],
+  '686671': [10.002, 76.722],
+  '686672': [9.932, 76.607],
+  '686673': [10.019, 76.583],
+  '686681': [10.144, 76.711],
+  '686691': [10.047, 76.612],
+  '686692': [10.101, 76.601],
+  '686693': [10.046, 76.722],
+  '688001': [9.495, 76.33],
+  '688002': [9.479, 76.339],
+  '688003': [9.458, 76.335],
+  '688004': [9.435, 76.355],
+  '688005': [9.405, 76.358],
+  '688006': [9.516, 76.355],
+  '688007': [9.509, 76.32],
+  '688008': [9.534, 76.323],
+  '688009': [9.478, 76.355],
+  '688011': [9.494, 76.349],
+  '688012': [9.488, 76.326],
+  '688013': [9.505, 76.343],
+  '688014': [9.45, 76.354],
+  '688501': [9.493, 76.393],
+  '688502': [9.451, 76.416],
+  '688503': [9.419, 76.427],
+  '688504': [9.473, 76.427],
+  '688505': [9.428, 76.393],
+  '688506': [9.512, 76.445],
+  '688521': [9.546, 76.358],
+  '688522': [9.572, 76.329],
+  '688523': [9.599, 76.323],
+  '688524': [9.698, 76.346],
+  '688525': [9.622, 76.346],
+  '688526': [9.813, 76.352],
+  '688527': [9.661, 76.375],
+  '688528': [9.785, 76.346],
+  '688529': [9.718, 76.3],
+  '688530': [9.637, 76.306],
+  '688531': [9.741, 76.323],
+  '688532': [9.762, 76.323],
+  '688533': [9.792, 76.32],
+  '688534': [9.871, 76.312],
+  '688535': [9.849, 76.312],
+  '688536': [9.717, 76.338],
+  '688537': [9.816, 76.312],
+  '688538': [9.574, 76.375],
+  '688539': [9.686, 76.312],
+  '688540': [9.772, 76.3],
+  '688541': [9.742, 76.358],
+  '688555': [9.623, 76.381],
+  '688561': [9.362, 76.37],
+  '688562': [9.358, 76.398],
+  '688570': [9.851, 76.358],
+  '688582': [9.642, 76.313],
+  '689101': [9.384, 76.569],
+  '689102': [9.367, 76.569],
+  '689103': [9.406, 76.581],
+  '689104': [9.355, 76.54],
+  '689105': [9.385, 76.598],
+  '689106': [9.349, 76.589],
+  '689107': [9.405, 76.552],
+  '689108': [9.377, 76.54],
+  '689109': [9.346, 76.569],
+  '689110': [9.366, 76.546],
+  '689111': [9.39, 76.578],
+  '689112': [9.387, 76.517],
+  '689113': [9.392, 76.553],
+  '689115': [9.368, 76.586],
+  '689121': [9.32, 76.609],
+  '689122': [9.307, 76.624],
+  '689123': [9.321, 76.638],
+  '689124': [9.331, 76.604],
+  '689126': [9.298, 76.604],
+  '689501': [9.212, 76.682],
+  '689502': [9.216, 76.719],
+  '689503': [9.252, 76.673],
+  '689504': [9.289, 76.65],
+  '689505': [9.282, 76.631],
+  '689506': [9.326, 76.566],
+  '689507': [9.28, 76.696],
+  '689508': [9.266, 76.621],
+  '689509': [9.252, 76.612],
+  '689510': [9.317, 76.589],
+  '689511': [9.275, 76.569],
+  '689512': [9.181, 76.667],
+  '689513': [9.227, 76.737],
+  '689514': [9.304, 76.676],
+  '689520': [9.284, 76.601],
+  '689521': [9.254, 76.647],
+  '689531': [9.341, 76.659],
+  '689532': [9.328, 76.667],
+  '689533': [9.323, 76.69],
+  '689541': [9.383, 76.635],
+  '689542': [9.369, 76.621],
+  '689543': [9.387, 76.661],
+  '689544': [9.406, 76.67],
+  '689545': [9.386, 76.705],
+  '689546': [9.351, 76.635],
+  '689547': [9.376, 76.667],
+  '689548': [9.35, 76.679],
+  '689549': [9.35, 76.696],
+  '689550': [9.363, 76.712],
+  '689551': [9.353, 76.609],
+  '689571': [9.369, 76.518],
+  '689572': [9.367, 76.497],
+  '689573': [9.382, 76.468],
+  '689574': [9.397, 76.494],
+  '689581': [9.436, 76.601],
+  '689582': [9.409, 76.607],
+  '689583': [9.408, 76.638],
+  '689584': [9.435, 76.66],
+  '689585': [9.441, 76.65],
+  '689586': [9.419, 76.705],
+  '689587': [9.442, 76.673],
+  '689588': [9.443, 76.696],
+  '689589': [9.46, 76.659],
+  '689590': [9.453, 76.474],
+  '689591': [9.398, 76.534],
+  '689592': [9.423, 76.742],
+  '689594': [9.438, 76.635],
+  '689595': [9.428, 76.459],
+  '689597': [9.419, 76.656],
+  '689602': [9.424, 76.638],
+  '689611': [9.362, 76.725],
+  '689612': [9.376, 76.739],
+  '689613': [9.395, 76.731],
+  '689614': [9.355, 76.751],
+  '689615': [9.412, 76.754],
+  '689621': [9.349, 76.529],
+  '689622': [9.303, 76.52],
+  '689623': [9.293, 76.543],
+  '689624': [9.297, 76.563],
+  '689625': [9.255, 76.693],
+  '689626': [9.336, 76.52],
+  '689627': [9.321, 76.482],
+  '689641': [9.343, 76.716],
+  '689642': [9.323, 76.751],
+  '689643': [9.3, 76.716],
+  '689644': [9.286, 76.713],
+  '689645': [9.262, 76.788],
+  '689646': [9.238, 76.797],
+  '689647': [9.246, 76.739],
+  '689648': [9.215, 76.774],
+  '689649': [9.313, 76.774],
+  '689650': [9.337, 76.765],
+  '689652': [9.271, 76.748],
+  '689653': [9.271, 76.82],
+  '689654': [9.329, 76.702],
+  '689656': [9.219, 76.806],
+  '689661': [9.322, 76.812],
+  '689662': [9.368, 76.941],
+  '689663': [9.313, 76.93],
+  '689664': [9.294, 76.843],
+  '689666': [9.29, 76.823],
+  '689667': [9.339, 77.045],
+  '689668': [9.291, 76.763],
+  '689671': [9.295, 76.806],
+  '689672': [9.346, 76.797],
+  '689673': [9.379, 76.809],
+  '689674': [9.386, 76.771],
+  '689675': [9.432, 76.774],
+  '689676': [9.422, 76.797],
+  '689677': [9.431, 76.812],
+  '689678': [9.306, 76.8],
+  '689691': [9.218, 76.855],
+  '689692': [9.251, 76.855],
+  '689693': [9.16, 76.884],
+  '689694': [9.12, 76.843],
+  '689695': [9.094, 76.861],
+  '689696': [9.109, 76.987],
+  '689698': [9.196, 76.843],
+  '689699': [9.18, 77.149],
+  '689711': [9.376, 76.861],
+  '690101': [9.238, 76.531],
+  '690102': [9.259, 76.563],
+  '690103': [9.257, 76.511],
+  '690104': [9.268, 76.534],
+  '690105': [9.281, 76.52],
+  '690106': [9.216, 76.508],
+  '690107': [9.208, 76.578],
+  '690108': [9.248, 76.575],
+  '690110': [9.237, 76.563],
+  '690501': [9.126, 76.56],
+  '690502': [9.161, 76.497],
+  '690503': [9.174, 76.555],
+  '690504': [9.156, 76.647],
+  '690505': [9.176, 76.601],
+  '690506': [9.225, 76.451],
+  '690507': [9.233, 76.471],
+  '690508': [9.217, 76.471],
+  '690509': [9.262, 76.589],
+  '690510': [9.206, 76.543],
+  '690511': [9.248, 76.485],
+  '690512': [9.28, 76.485],
+  '690513': [9.259, 76.466],
+  '690514': [9.29, 76.451],
+  '690515': [9.253, 76.419],
+  '690516': [9.259, 76.442],
+  '690517': [9.321, 76.427],
+  '690518': [9.044, 76.531],
+  '690519': [9.046, 76.578],
+  '690520': [9.081, 76.647],
+  '690521': [9.042, 76.63],
+  '690522': [9.09, 76.624],
+  '690523': [9.083, 76.56],
+  '690524': [9.002, 76.566],
+  '690525': [9.115, 76.491],
+  '690526': [9.119, 76.531],
+  '690527': [9.168, 76.465],
+  '690528': [9.088, 76.524],
+  '690529': [9.199, 76.635],
+  '690530': [9.145, 76.624],
+  '690531': [9.19, 76.459],
+  '690532': [9.243, 76.448],
+  '690533': [9.151, 76.52],
+  '690534': [9.209, 76.601],
+  '690535': [9.203, 76.451],
+  '690536': [9.031, 76.552],
+  '690537': [9.16, 76.534],
+  '690538': [9.024, 76.589],
+  '690539': [9.09, 76.534],
+  '690540': [9.071, 76.693],
+  '690542': [9.078, 76.505],
+  '690544': [9.068, 76.523],
+  '690547': [9.14, 76.497],
+  '690548': [9.296, 76.413],
+  '690558': [9.23, 76.589],
+  '690559': [9.18, 76.477],
+  '690561': [9.135, 76.647],
+  '690571': [9.175, 76.644],
+  '690572': [9.193, 76.485],
+  '690573': [9.057, 76.511],
+  '690574': [9.114, 76.592],
+  '691001': [8.887, 76.592],
+  '691002': [8.902, 76.591],
+  '691003': [8.923, 76.557],
+  '691004': [8.921, 76.638],
+  '691005': [8.91, 76.633],
+  '691006': [8.875, 76.59],
+  '691007': [8.891, 76.563],
+  '691008': [8.893, 76.604],
+  '691009': [8.899, 76.579],
+  '691010': [8.878, 76.608],
+  '691011': [8.856, 76.621],
+  '691012': [8.902, 76.563],
+  '691013': [8.886, 76.575],
+  '691014': [8.94, 76.647],
+  '691015': [8.92, 76.621],
+  '691016': [8.866, 76.615],
+  '691019': [8.904, 76.609],
+  '691020': [8.875, 76.647],
+  '691021': [8.885, 76.624],
+  '691301': [8.822, 76.67],
+  '691302': [8.802, 76.693],
+  '691303': [8.832, 76.647],
+  '691304': [8.851, 76.656],
+  '691305': [9.026, 76.935],
+  '691306': [8.923, 76.907],
+  '691307': [9.056, 77.022],
+  '691308': [9.028, 77.126],
+  '691309': [8.931, 77.16],
+  '691310': [8.855, 77.126],
+  '691311': [8.887, 76.959],
+  '691312': [8.925, 76.976],
+  '691319': [8.967, 76.563],
+  '691322': [9.014, 76.889],
+  '691331': [9.005, 76.947],
+  '691332': [9.038, 76.898],
+  '691333': [8.983, 76.924],
+  '691334': [8.837, 76.696],
+  '691500': [9.012, 76.615],
+  '691501': [8.963, 76.682],
+  '691502': [9.005, 76.659],
+  '691503': [8.984, 76.67],
+  '691504': [8.933, 76.679],
+  '691505': [8.981, 76.722],
+  '691506': [8.988, 76.763],
+  '691507': [9.045, 76.722],
+  '691508': [9.034, 76.855],
+  '691509': [8.943, 76.728],
+  '691510': [8.869, 76.763],
+  '691511': [8.955, 76.643],
+  '691512': [8.945, 76.774],
+  '691515': [8.921, 76.716],
+  '691516': [8.876, 76.814],
+  '691520': [8.935, 76.809],
+  '691521': [9.071, 76.742],
+  '691522': [9.065, 76.809],
+  '691523': [9.159, 76.728],
+  '691524': [9.119, 76.82],
+  '691525': [9.19, 76.748],
+  '691526': [9.096, 76.774],
+  '691530': [9.087, 76.737],
+  '691531': [8.989, 76.809],
+  '691532': [8.942, 76.861],
+  '691533': [8.899, 76.861],
+  '691534': [8.856, 76.861],
+  '691535': [8.832, 76.869],
+  '691536': [8.837, 76.93],
+  '691537': [8.902, 76.774],
+  '691538': [9.002, 76.855],
+  '691540': [8.922, 76.751],
+  '691541': [8.813, 77.016],
+  '691543': [9.017, 76.682],
+  '691551': [9.131, 76.699],
+  '691552': [9.093, 76.705],
+  '691553': [9.106, 76.679],
+  '691554': [9.161, 76.763],
+  '691555': [9.184, 76.809],
+  '691556': [9.151, 76.797],
+  '691557': [9.025, 76.823],
+  '691559': [8.817, 76.976],
+  '691560': [9.043, 76.797],
+  '691566': [9.02, 76.751],
+  '691571': [8.866, 76.682],
+  '691572': [8.867, 76.716],
+  '691573': [8.889, 76.728],
+  '691574': [8.826, 76.774],
+  '691576': [8.909, 76.682],
+  '691577': [8.897, 76.647],
+  '691578': [8.824, 76.728],
+  '691579': [8.846, 76.739],
+  '691581': [8.928, 76.546],
+  '691582': [8.95, 76.54],
+  '691583': [9.001, 76.543],
+  '691584': [8.982, 76.534],
+  '691585': [9.011, 76.586],
+  '691589': [8.862, 76.65],
+  '691590': [8.989, 76.575],
+  '691601': [8.939, 76.612],
+  '691602': [8.939, 76.585],
+  '695001': [8.497, 76.948],
+  '695002': [8.459, 76.967],
+  '695003': [8.518, 76.956],
+  '695004': [8.528, 76.938],
+  '695005': [8.534, 76.961],
+  '695006': [8.503, 76.99],
+  '695007': [8.454, 76.94],
+  '695008': [8.479, 76.921],
+  '695009': [8.466, 76.947],
+  '695010': [8.507, 76.967],
+  '695011': [8.529, 76.901],
+  '695012': [8.486, 76.979],
+  '695013': [8.532, 76.993],
+  '695014': [8.496, 76.961],
+  '695015': [8.555, 76.938],
+  '695016': [8.544, 76.905],
+  '695017': [8.549, 76.921],
+  '695018': [8.471, 76.977],
+  '695019': [8.471, 76.996],
+  '695020': [8.452, 76.999],
+  '695021': [8.51, 76.892],
+  '695022': [8.536, 76.869],
+  '695023': [8.48, 76.944],
+  '695024': [8.49, 76.933],
+  '695025': [8.532, 76.948],
+  '695026': [8.442, 76.95],
+  '695027': [8.435, 76.97],
+  '695028': [8.596, 76.959],
+  '695029': [8.506, 76.915],
+  '695030': [8.523, 76.98],
+  '695032': [8.482, 77.002],
+  '695033': [8.512, 76.933],
+  '695034': [8.503, 76.954],
+  '695035': [8.501, 76.938],
+  '695036': [8.481, 76.954],
+  '695038': [8.513, 76.99],
+  '695040': [8.477, 76.971],
+  '695042': [8.423, 77.019],
+  '695043': [8.553, 76.982],
+  '695099': [8.516, 76.963],
+  '695101': [8.687, 76.809],
+  '695102': [8.725, 76.814],
+  '695103': [8.7, 76.855],
+  '695104': [8.667, 76.832],
+  '695121': [8.393, 77.088],
+  '695122': [8.355, 77.131],
+  '695123': [8.396, 77.074],
+  '695124': [8.436, 77.16],
+  '695125': [8.479, 77.16],
+  '695126': [8.428, 77.085],
+  '695132': [8.362, 77.105],
+  '695133': [8.356, 77.082],
+  '695134': [8.361, 77.094],
+  '695141': [8.728, 76.728],
+  '695142': [8.726, 76.754],
+  '695143': [8.75, 76.763],
+  '695144': [8.719, 76.786],
+  '695145': [8.76, 76.739],
+  '695146': [8.79, 76.754],
+  '695301': [8.581, 76.855],
+  '695302': [8.613, 76.843],
+  '695303': [8.609, 76.812],
+  '695304': [8.665, 76.797],
+  '695305': [8.644, 76.809],
+  '695306': [8.686, 76.774],
+  '695307': [8.695, 76.794],
+  '695308': [8.693, 76.754],
+  '695309': [8.667, 76.765],
+  '695310': [8.792, 76.728],
+  '695311': [8.769, 76.693],
+  '695312': [8.706, 76.739],
+  '695313': [8.774, 76.832],
+  '695316': [8.6, 76.852],
+  '695317': [8.635, 76.843],
+  '695318': [8.71, 76.76],
+  '695501': [8.416, 77.039],
+  '695502': [8.345, 77.166],
+  '695503': [8.397, 77.131],
+  '695504': [8.388, 77.177],
+  '695505': [8.464, 77.189],
+  '695506': [8.319, 77.105],
+  '695507': [8.459, 77.051],
+  '695508': [8.374, 77.146],
+  '695512': [8.45, 77.085],
+  '695513': [8.3, 77.108],
+  '695521': [8.369, 77.008],
+  '695522': [8.422, 76.979],
+  '695523': [8.393, 77.005],
+  '695524': [8.368, 77.045],
+  '695525': [8.334, 77.071],
+  '695526': [8.344, 77.048],
+  '695527': [8.403, 76.982],
+  '695528': [8.452, 77.035],
+  '695541': [8.619, 77.005],
+  '695542': [8.606, 77.091],
+  '695543': [8.561, 77.045],
+  '695547': [8.62, 77.039],
+  '695551': [8.641, 77.172],
+  '695561': [8.618, 76.982],
+  '695562': [8.695, 77.028],
+  '695563': [8.767, 77.079],
+  '695564': [8.575, 76.993],
+  '695568': [8.683, 76.982],
+  '695571': [8.48, 77.039],
+  '695572': [8.52, 77.114],
+  '695573': [8.512, 77.016],
+  '695574': [8.563, 77.114],
+  '695575': [8.546, 77.085],
+  '695581': [8.561, 76.889],
+  '695582': [8.558, 76.869],
+  '695583': [8.332, 77.108],
+  '695584': [8.615, 76.889],
+  '695585': [8.579, 76.875],
+  '695586': [8.584, 76.84],
+  '695587': [8.573, 76.912],
+  '695588': [8.576, 76.933],
+  '695589': [8.663, 76.884],
+  '695601': [8.736, 76.874],
+  '695602': [8.817, 76.809],
+  '695603': [8.794, 76.786],
+  '695604': [8.839, 76.82],
+  '695605': [8.773, 76.797],
+  '695606': [8.712, 76.901],
+  '695607': [8.681, 76.947],
+  '695608': [8.745, 76.924],
+  '695609': [8.753, 76.999],
+  '695610': [8.725, 76.959],
+  '695611': [8.743, 76.794],
+  '695612': [8.729, 76.868],
+  '695614': [8.797, 76.866],
+  '695615': [8.644, 76.953],
+  '700001': [22.574, 88.348],
+  '700002': [22.619, 88.373],
+  '700003': [22.604, 88.368],
+  '700004': [22.598, 88.375],
+  '700005': [22.598, 88.358],
+  '700006': [22.589, 88.369],
+  '700007': [22.583, 88.362],
+  '700008': [22.481, 88.313],
+  '700009': [22.577, 88.374],
+  '700010': [22.563, 88.396],
+  '700011': [22.577, 88.381],
+  '700012': [22.568, 88.362],
+  '700013': [22.565, 88.354],
+  '700014': [22.56, 88.371],
+  '700015': [22.555, 88.381],
+  '700016': [22.554, 88.357],
+  '700017': [22.541, 88.368],
+  '700018': [22.536, 88.264],
+  '700019': [22.528, 88.366],
+  '700020': [22.538, 88.351],
+  '700021': [22.564, 88.339],
+  '700022': [22.548, 88.33],
+  '700023': [22.532, 88.32],
+  '700024': [22.548, 88.288],
+  '700025': [22.53, 88.346],
+  '700026': [22.519, 88.343],
+  '700027': [22.526, 88.334],
+  '700028': [22.632, 88.417],
+  '700029': [22.518, 88.349],
+  '700030': [22.62, 88.394],
+  '700031': [22.507, 88.373],
+  '700032': [22.494, 88.369],
+  '700033': [22.502, 88.349],
+  '700034': [22.498, 88.319],
+  '700035': [22.647, 88.367],
+  '700036': [22.637, 88.371],
+  '700037': [22.607, 88.389],
+  '700038': [22.508, 88.33],
+  '700039': [22.528, 88.386],
+  '700040': [22.487, 88.351],
+  '700041': [22.464, 88.334],
+  '700042': [22.519, 88.38],
+  '700043': [22.538, 88.307],
+  '700044': [22.55, 88.252],
+  '700045': [22.506, 88.357],
+  '700046': [22.546, 88.386],
+  '700047': [22.475, 88.376],
+  '700048': [22.602, 88.4],
+  '700049': [22.666, 88.411],
+  '700050': [22.625, 88.387],
+  '700051': [22.664, 88.424],
+  '700052': [22.654, 88.455],
+  '700053': [22.511, 88.333],
+  '700054': [22.58, 88.39],
+  '700055': [22.611, 88.409],
+  '700056': [22.674, 88.387],
+  '700057': [22.666, 88.365],
+  '700058': [22.661, 88.397],
+  '700059': [22.614, 88.434],
+  '700060': [22.506, 88.302],
+  '700061': [22.486, 88.284],
+  '700062': [22.566, 88.346],
+  '700063': [22.47, 88.301],
+  '700064': [22.592, 88.413],
+  '700065': [22.645, 88.408],
+  '700066': [22.53, 88.27],
+  '700067': [22.594, 88.385],
+  '700068': [22.506, 88.364],
+  '700069': [22.562, 88.349],
+  '700070': [22.466, 88.352],
+  '700071': [22.546, 88.348],
+  '700072': [22.565, 88.354],
+  '700073': [22.574, 88.362],
+  '700074': [22.622, 88.406],
+  '700075': [22.492, 88.386],
+  '700076': [22.658, 88.36],
+  '700077': [22.631, 88.398],
+  '700078': [22.507, 88.387],
+  '700079': [22.649, 88.427],
+  '700080': [22.626, 88.424],
+  '700081': [22.646, 88.42],
+  '700082': [22.535, 88.28],
+  '700083': [22.672, 88.397],
+  '700084': [22.46, 88.382],
+  '700085': [22.569, 88.383],
+  '700086': [22.483, 88.379],
+  '700087': [22.56, 88.353],
+  '700088': [22.517, 88.301],
+  '700089': [22.605, 88.403],
+  '700090': [22.641, 88.39],
+  '700091': [22.582, 88.43],
+  '700092': [22.485, 88.371],
+  '700093': [22.473, 88.347],
+  '700094': [22.474, 88.401],
+  '700095': [22.494, 88.359],
+  '700096': [22.454, 88.365],
+  '700097': [22.574, 88.408],
+  '700098': [22.557, 88.443],
+  '700099': [22.498, 88.41],
+  '700100': [22.525, 88.413],
+  '700101': [22.604, 88.425],
+  '700102': [22.595, 88.437],
+  '700103': [22.445, 88.406],
+  '700104': [22.429, 88.288],
+  '700105': [22.536, 88.402],
+  '700106': [22.58, 88.414],
+  '700107': [22.513, 88.402],
+  '700108': [22.645, 88.381],
+  '700109': [22.681, 88.376],
+  '700110': [22.693, 88.379],
+  '700111': [22.69, 88.407],
+  '700112': [22.717, 88.397],
+  '700113': [22.7, 88.403],
+  '700114': [22.703, 88.388],
+  '700115': [22.706, 88.372],
+  '700116': [22.72, 88.368],
+  '700117': [22.718, 88.383],
+  '700118': [22.734, 88.404],
+  '700119': [22.738, 88.373],
+  '700120': [22.752, 88.379],
+  '700121': [22.762, 88.429],
+  '700122': [22.773, 88.39],
+  '700123': [22.784, 88.378],
+  '700124': [22.719, 88.504],
+  '700125': [22.691, 88.552],
+  '700126': [22.725, 88.466],
+  '700127': [22.709, 88.475],
+  '700128': [22.649, 88.547],
+  '700129': [22.692, 88.465],
+  '700130': [22.703, 88.449],
+  '700131': [22.666, 88.484],
+  '700132': [22.677, 88.462],
+  '700133': [22.683, 88.446],
+  '700134': [22.668, 88.437],
+  '700135': [22.599, 88.529],
+  '700136': [22.622, 88.436],
+  '700137': [22.455, 88.197],
+  '700138': [22.46, 88.134],
+  '700139': [22.438, 88.319],
+  '700140': [22.514, 88.248],
+  '700141': [22.473, 88.251],
+  '700142': [22.5, 88.249],
+  '700143': [22.514, 88.287],
+  '700144': [22.365, 88.431],
+  '700145': [22.38, 88.397],
+  '700146': [22.404, 88.42],
+  '700147': [22.406, 88.443],
+  '700148': [22.419, 88.415],
+  '700149': [22.407, 88.402],
+  '700150': [22.481, 88.45],
+  '700151': [22.4, 88.385],
+  '700152': [22.463, 88.417],
+  '700153': [22.444, 88.386],
+  '700154': [22.427, 88.358],
+  '700155': [22.691, 88.477],
+  '700156': [22.584, 88.47],
+  '700157': [22.614, 88.453],
+  '700158': [22.691, 88.439],
+  '700159': [22.608, 88.432],
+  '700160': [22.579, 88.481],
+  '711101': [22.593, 88.337],
+  '711102': [22.566, 88.322],
+  '711103': [22.557, 88.309],
+  '711104': [22.589, 88.306],
+  '711105': [22.601, 88.314],
+  '711106': [22.601, 88.347],
+  '711107': [22.614, 88.351],
+  '711108': [22.61, 88.32],
+  '711109': [22.569, 88.27],
+  '711110': [22.578, 88.287],
+  '711111': [22.585, 88.284],
+  '711112': [22.591, 88.286],
+  '711113': [22.605, 88.3],
+  '711114': [22.625, 88.293],
+  '711201': [22.648, 88.341],
+  '711202': [22.632, 88.351],
+  '711203': [22.626, 88.322],
+  '711204': [22.62, 88.336],
+  '711205': [22.655, 88.337],
+  '711225': [22.701, 87.942],
+  '711226': [22.714, 87.963],
+  '711227': [22.641, 88.319],
+  '711301': [22.285, 87.963],
+  '711302': [22.574, 88.178],
+  '711303': [22.488, 87.953],
+  '711304': [22.401, 87.951],
+  '711305': [22.499, 88.175],
+  '711306': [22.483, 88.027],
+  '711307': [22.508, 88.134],
+  '711308': [22.484, 88.144],
+  '711309': [22.533, 88.232],
+  '711310': [22.52, 88.163],
+  '711312': [22.393, 87.992],
+  '711313': [22.556, 88.212],
+  '711314': [22.298, 88.031],
+  '711315': [22.442, 88.071],
+  '711316': [22.501, 88.08],
+  '711317': [22.493, 88.107],
+  '711322': [22.549, 88.119],
+  '711401': [22.572, 88.002],
+  '711403': [22.602, 88.278],
+  '711404': [22.651, 88.154],
+  '711405': [22.646, 88.217],
+  '711408': [22.715, 88.022],
+  '711409': [22.628, 88.261],
+  '711410': [22.644, 88.061],
+  '711411': [22.616, 88.183],
+  '711412': [22.667, 87.963],
+  '711413': [22.547, 87.963],
+  '711414': [22.597, 88.08],
+  '712101': [22.904, 88.397],
+  '712102': [22.88, 88.358],
+  '712103': [22.903, 88.368],
+  '712104': [22.925, 88.389],
+  '712105': [22.877, 88.389],
+  '712121': [23.081, 88.222],
+  '712122': [22.875, 87.549],
+  '712123': [22.927, 88.358],
+  '712124': [22.832, 88.329],
+  '712125': [22.835, 88.365],
+  '712134': [23.122, 88.197],
+  '712135': [23.117, 88.214],
+  '712136': [22.856, 88.358],
+  '712137': [22.84, 88.371],
+  '712138': [22.867, 88.329],
+  '712139': [22.842, 88.345],
+  '712146': [23.123, 88.334],
+  '712147': [23.052, 88.372],
+  '712148': [23.004, 88.314],
+  '712149': [23.099, 88.256],
+  '712152': [23.041, 88.185],
+  '712201': [22.748, 88.348],
+  '712202': [22.735, 88.354],
+  '712203': [22.745, 88.331],
+  '712204': [22.763, 88.331],
+  '712221': [22.89, 87.577],
+  '712222': [22.796, 88.319],
+  '712223': [22.789, 88.275],
+  '712232': [22.674, 88.351],
+  '712233': [22.686, 88.346],
+  '712234': [22.698, 88.322],
+  '712235': [22.701, 88.348],
+  '712245': [22.672, 88.33],
+  '712246': [22.698, 88.336],
+  '712247': [22.658, 88.345],
+  '712248': [22.723, 88.348],
+  '712249': [22.733, 88.317],
+  '712250': [22.722, 88.334],
+  '712258': [22.667, 88.347],
+  '712301': [22.906, 88.1],
+  '712302': [22.954, 88.1],
+  '712303': [23.026, 88.119],
+  '712304': [22.718, 88.256],
+  '712305': [22.92, 88.266],
+  '712306': [22.748, 88.261],
+  '712308': [23.025, 88.061],
+  '712310': [22.712, 88.3],
+  '712311': [22.676, 88.29],
+  '712401': [22.834, 87.982],
+  '712402': [22.953, 88.041],
+  '712403': [22.834, 88.041],
+  '712404': [22.739, 88.08],
+  '712405': [22.859, 88.119],
+  '712406': [22.712, 87.826],
+  '712407': [22.86, 88.178],
+  '712408': [22.786, 88.002],
+  '712409': [22.813, 88.236],
+  '712410': [22.929, 88.002],
+  '712411': [22.774, 88.244],
+  '712412': [22.773, 87.914],
+  '712413': [22.856, 87.865],
+  '712414': [22.905, 87.943],
+  '712415': [22.833, 87.904],
+  '712416': [22.642, 87.904],
+  '712417': [22.641, 87.845],
+  '712418': [22.731, 87.87],
+  '712419': [22.854, 87.951],
+  '712424': [22.781, 88.046],
+  '712426': [23.036, 88.205],
+  '712501': [23.101, 88.431],
+  '712502': [22.957, 88.392],
+  '712503': [22.996, 88.399],
+  '712504': [23.051, 88.275],
+  '712512': [23.172, 88.411],
+  '712513': [23.002, 88.158],
+  '712514': [23.155, 88.18],
+  '712515': [23.074, 88.448],
+  '712601': [22.897, 87.791],
+  '712602': [22.926, 87.747],
+  '712611': [22.973, 87.688],
+  '712612': [22.877, 87.648],
+  '712613': [22.784, 87.826],
+  '712614': [22.829, 87.668],
+  '712615': [22.909, 87.85],
+  '712616': [22.83, 87.747],
+  '712617': [22.759, 87.766],
+  '712701': [22.723, 88.183],
+  '712702': [22.697, 88.253],
+  '712704': [22.693, 88.197],
+  '712705': [22.72, 88.214],
+  '712706': [22.74, 88.139],
+  '712707': [22.788, 88.178],
+  '712708': [22.676, 88.241],
+  '713101': [23.243, 87.87],
+  '713102': [23.259, 87.727],
+  '713103': [23.189, 87.826],
+  '713104': [23.297, 87.914],
+  '713121': [23.475, 87.845],
+  '713122': [23.188, 88.261],
+  '713123': [23.548, 87.963],
+  '713124': [23.185, 87.958],
+  '713125': [23.392, 87.914],
+  '713126': [23.568, 87.688],
+  '713127': [23.403, 87.806],
+  '713128': [23.485, 87.717],
+  '713129': [23.714, 87.982],
+  '713130': [23.692, 88.119],
+  '713131': [23.433, 87.87],
+  '713140': [23.715, 88.041],
+  '713141': [23.331, 87.766],
+  '713142': [23.187, 87.688],
+  '713143': [23.537, 88.031],
+  '713144': [23.471, 87.589],
+  '713145': [23.443, 88.149],
+  '713146': [23.205, 88.149],
+  '713147': [23.523, 87.904],
+  '713148': [23.469, 87.45],
+  '713149': [23.251, 87.992],
+  '713150': [23.597, 88.08],
+  '713151': [23.173, 88.017],
+  '713152': [23.566, 87.569],
+  '713153': [23.512, 87.574],
+  '713154': [23.21, 88.066],
+  '713155': [23.417, 87.574],
+  '713156': [23.496, 87.648],
+  '713157': [23.212, 88.27],
+  '713158': [23.375, 87.978],
+  '713160': [23.697, 87.207],
+  '713162': [23.396, 87.752],
+  '713165': [23.415, 88.024],
+  '713166': [23.097, 88.061],
+  '713167': [23.45, 87.766],
+  '713168': [23.234, 88.095],
+  '713169': [23.415, 87.465],
+  '713170': [23.155, 88.263],
+  '713171': [23.418, 87.604],
+  '713172': [23.516, 87.45],
+  '713173': [23.569, 87.747],
+  '713201': [23.508, 87.326],
+  '713202': [23.492, 87.297],
+  '713203': [23.555, 87.247],
+  '713204': [23.582, 87.279],
+  '713205': [23.579, 87.307],
+  '713206': [23.562, 87.351],
+  '713207': [23.581, 87.205],
+  '713208': [23.522, 87.279],
+  '713209': [23.554, 87.293],
+  '713210': [23.52, 87.307],
+  '713211': [23.485, 87.356],
+  '713212': [23.563, 87.411],
+  '713213': [23.543, 87.277],
+  '713214': [23.551, 87.318],
+  '713215': [23.507, 87.277],
+  '713216': [23.544, 87.307],
+  '713217': [23.569, 87.225],
+  '713218': [23.467, 87.331],
+  '713219': [23.106, 87.833],
+  '713301': [23.683, 86.965],
+  '713302': [23.701, 86.975],
+  '713303': [23.672, 86.985],
+  '713304': [23.706, 86.91],
+  '713305': [23.715, 86.937],
+  '713315': [23.841, 86.992],
+  '713321': [23.583, 87.172],
+  '713322': [23.661, 87.197],
+  '713323': [23.576, 87.137],
+  '713324': [23.665, 86.797],
+  '713325': [23.65, 86.932],
+  '713326': [22.96, 87.862],
+  '713330': [23.497, 88.173],
+  '713331': [23.816, 86.932],
+  '713332': [23.67, 87.067],
+  '713333': [23.69, 86.847],
+  '713334': [23.758, 87.002],
+  '713335': [23.798, 86.897],
+  '713336': [23.712, 87.082],
+  '713337': [23.749, 86.857],
+  '713338': [23.625, 87.207],
+  '713339': [23.652, 87.032],
+  '713340': [23.693, 87.017],
+  '713341': [23.7, 86.951],
+  '713342': [23.66, 87.157],
+  '713343': [23.725, 86.817],
+  '713344': [23.32, 88.3],
+  '713346': [23.694, 87.254],
+  '713347': [23.606, 87.132],
+  '713357': [23.762, 86.897],
+  '713358': [23.635, 87.117],
+  '713359': [23.738, 86.897],
+  '713360': [23.699, 86.875],
+  '713361': [23.115, 88.105],
+  '713362': [23.683, 87.127],
+  '713363': [23.621, 87.282],
+  '713365': [23.866, 86.9],
+  '713368': [23.795, 87.052],
+  '713369': [23.791, 86.852],
+  '713370': [23.364, 88.302],
+  '713371': [23.667, 86.897],
+  '713372': [23.224, 88.29],
+  '713373': [23.756, 87.968],
+  '713375': [23.843, 86.94],
+  '713376': [23.624, 87.167],
+  '713377': [23.754, 87.117],
+  '713378': [23.727, 87.252],
+  '713380': [23.732, 87.958],
+  '713381': [23.682, 87.371],
+  '713383': [23.614, 87.105],
+  '713384': [23.637, 87.187],
+  '713385': [23.657, 87.331],
+  '713386': [23.814, 86.886],
+  '713401': [23.144, 88.022],
+  '713402': [23.404, 87.505],
+  '713403': [23.34, 87.559],
+  '713404': [23.001, 88.002],
+  '713405': [23.337, 88.256],
+  '713406': [23.353, 87.688],
+  '713407': [23.148, 87.899],
+  '713408': [23.107, 87.953],
+  '713409': [23.219, 88.334],
+  '713419': [23.388, 88.046],
+  '713420': [23.448, 87.468],
+  '713421': [23.023, 87.904],
+  '713422': [23.348, 88.149],
+  '713423': [23.123, 87.787],
+  '713424': [23.094, 87.865],
+  '713425': [23.271, 88.241],
+  '713426': [23.334, 88.022],
+  '713427': [22.974, 87.786],
+  '713428': [23.305, 87.629],
+  '713429': [23.317, 88.095],
+  '713430': [23.271, 88.202],
+  '713432': [23.726, 87.172],
+  '713433': [23.312, 87.722],
+  '713434': [23.26, 88.339],
+  '713501': [23.257, 88.317],
+  '713502': [23.586, 88.188],
+  '713512': [23.557, 88.261],
+  '713513': [23.444, 88.266],
+  '713514': [23.527, 88.197],
+  '713515': [23.528, 88.314],
+  '713516': [23.573, 88.119],
+  '713517': [23.603, 88.114],
+  '713519': [23.344, 88.309],
+  '713520': [23.597, 87.653],
+  '721101': [22.419, 87.351],
+  '721102': [22.476, 87.162],
+  '721121': [22.859, 87.282],
+  '721122': [22.54, 87.411],
+  '721124': [22.351, 87.549],
+  '721125': [22.534, 87.112],
+  '721126': [22.422, 87.53],
+  '721127': [22.861, 87.401],
+  '721128': [22.714, 87.162],
+  '721129': [22.573, 87.282],
+  '721130': [22.475, 87.865],
+  '721131': [22.329, 87.668],
+  '721132': [22.627, 87.317],
+  '721133': [22.096, 87.242],
+  '721134': [22.427, 87.865],
+  '721135': [22.191, 87.202],
+  '721136': [22.448, 87.629],
+  '721137': [22.38, 87.924],
+  '721139': [22.425, 87.688],
+  '721140': [22.256, 87.589],
+  '721143': [22.236, 87.082],
+  '721144': [22.149, 87.599],
+  '721145': [22.252, 87.312],
+  '721146': [22.52, 87.707],
+  '721147': [22.658, 87.351],
+  '721148': [22.552, 87.821],
+  '721149': [22.326, 87.47],
+  '721150': [22.529, 87.52],
+  '721151': [22.409, 87.821],
+  '721152': [22.353, 87.707],
+  '721153': [22.528, 87.85],
+  '721154': [22.444, 87.83],
+  '721155': [22.234, 87.688],
+  '721156': [22.495, 87.589],
+  '721157': [22.822, 87.212],
+  '721158': [22.492, 87.83],
+  '721159': [21.998, 87.082],
+  '721160': [22.376, 87.629],
+  '721161': [22.181, 87.712],
+  '721166': [22.208, 87.549],
+  '721167': [22.455, 87.722],
+  '721171': [22.408, 87.752],
+  '721172': [22.213, 87.81],
+  '721201': [22.767, 87.48],
+  '721211': [22.58, 87.717],
+  '721212': [22.64, 87.747],
+  '721222': [22.734, 87.688],
+  '721232': [22.626, 87.638],
+  '721242': [22.816, 87.599],
+  '721253': [22.764, 87.321],
+  '721260': [22.672, 87.48],
+  '721301': [22.337, 87.401],
+  '721302': [22.315, 87.309],
+  '721303': [22.34, 87.227],
+  '721304': [22.287, 87.242],
+  '721305': [22.39, 87.356],
+  '721306': [22.294, 87.307],
+  '721401': [21.758, 87.747],
+  '721420': [21.844, 87.475],
+  '721422': [21.876, 87.629],
+  '721423': [21.709, 87.609],
+  '721424': [22.098, 87.361],
+  '721425': [21.996, 87.688],
+  '721426': [21.906, 87.282],
+  '721427': [21.866, 87.376],
+  '721428': [21.629, 87.495],
+  '721429': [21.898, 87.53],
+  '721430': [21.962, 87.835],
+  '721431': [21.856, 87.924],
+  '721432': [21.927, 87.904],
+  '721433': [21.763, 87.673],
+  '721434': [22.084, 87.633],
+  '721435': [21.943, 87.371],
+  '721436': [21.849, 87.411],
+  '721437': [22.194, 87.401],
+  '721438': [21.964, 87.564],
+  '721439': [22.053, 87.52],
+  '721440': [21.976, 87.594],
+  '721441': [21.66, 87.549],
+  '721442': [21.819, 87.835],
+  '721443': [21.921, 87.45],
+  '721444': [21.901, 87.727],
+  '721445': [22.004, 87.441],
+  '721446': [21.707, 87.49],
+  '721447': [21.802, 87.47],
+  '721448': [21.767, 87.559],
+  '721449': [21.829, 87.727],
+  '721450': [21.753, 87.83],
+  '721451': [22.014, 87.312],
+  '721452': [21.804, 87.609],
+  '721453': [21.714, 87.564],
+  '721454': [22.066, 87.589],
+  '721455': [21.686, 87.688],
+  '721456': [21.971, 87.648],
+  '721457': [21.824, 87.351],
+  '721458': [22.067, 87.707],
+  '721463': [21.633, 87.527],
+  '721467': [22.113, 87.53],
+  '721501': [22.705, 86.681],
+  '721503': [22.375, 86.882],
+  '721504': [22.567, 86.962],
+  '721505': [22.518, 86.882],
+  '721506': [22.138, 86.922],
+  '721507': [22.378, 87.002],
+  '721513': [22.38, 87.122],
+  '721514': [22.461, 87.012],
+  '721515': [22.613, 86.842],
+  '721516': [22.619, 87.162],
+  '721517': [22.281, 86.922],
+  '721601': [22.139, 87.727],
+  '721602': [22.085, 88.069],
+  '721603': [22.191, 88.041],
+  '721604': [22.067, 88.114],
+  '721606': [21.977, 88.1],
+  '721607': [22.033, 88.078],
+  '721625': [22.07, 87.904],
+  '721626': [22.044, 87.766],
+  '721627': [22.332, 87.884],
+  '721628': [22.143, 87.982],
+  '721629': [22.282, 87.727],
+  '721631': [22, 88.002],
+  '721632': [22.166, 87.924],
+  '721633': [22.141, 87.826],
+  '721634': [22.354, 87.766],
+  '721635': [22.121, 88.139],
+  '721636': [22.315, 87.929],
+  '721641': [22.473, 87.766],
+  '721642': [22.188, 87.786],
+  '721643': [22.204, 87.902],
+  '721644': [22.235, 87.727],
+  '721645': [22.117, 88.08],
+  '721646': [21.928, 87.982],
+  '721647': [22.301, 87.762],
+  '721648': [22.237, 87.924],
+  '721649': [22.278, 87.87],
+  '721650': [22.011, 87.914],
+  '721651': [22.283, 87.806],
+  '721652': [22.213, 87.865],
+  '721653': [22.313, 87.821],
+  '721654': [22.143, 88.041],
+  '721655': [22.022, 87.845],
+  '721656': [22.071, 87.963],
+  '721657': [22.225, 87.495],
+  '721658': [22.127, 88.183],
+  '721659': [22.069, 87.826],
+  '722101': [23.2, 87.072],
+  '722102': [23.277, 87.047],
+  '722121': [23.091, 86.962],
+  '722122': [23.05, 87.321],
+  '722132': [23.318, 86.992],
+  '722133': [23.427, 87.082],
+  '722134': [22.757, 86.922],
+  '722135': [22.944, 86.762],
+  '722136': [23.185, 86.882],
+  '722137': [23.375, 86.882],
+  '722138': [23.004, 87.441],
+  '722139': [23.269, 86.932],
+  '722140': [22.947, 86.882],
+  '722141': [23.019, 87.609],
+  '722142': [23.512, 87.212],
+  '722143': [23.557, 87.072],
+  '722144': [23.096, 87.202],
+  '722146': [23.217, 86.987],
+  '722147': [23.109, 87.272],
+  '722148': [22.802, 86.762],
+  '722149': [22.954, 87.242],
+  '722150': [22.759, 87.042],
+  '722151': [22.951, 87.082],
+  '722152': [23.047, 87.122],
+  '722153': [23.578, 86.932],
+  '722154': [23.018, 87.53],
+  '722155': [23.255, 87.107],
+  '722156': [22.964, 87.172],
+  '722157': [23.193, 87.321],
+  '722158': [23.52, 86.962],
+  '722160': [22.855, 87.042],
+  '722161': [22.959, 87.559],
+  '722162': [22.697, 86.912],
+  '722164': [23.422, 87.167],
+  '722173': [23.136, 86.802],
+  '722183': [23.553, 87.147],
+  '722201': [23.056, 87.717],
+  '722202': [23.382, 87.242],
+  '722203': [23.286, 87.202],
+  '722204': [23.401, 87.317],
+  '722205': [23.139, 87.668],
+  '722206': [23.197, 87.559],
+  '722207': [23.289, 87.401],
+  '722208': [23.396, 87.351],
+  '723101': [23.329, 86.368],
+  '723102': [23.281, 86.388],
+  '723103': [23.322, 86.601],
+  '723104': [23.356, 86.341],
+  '723121': [23.467, 86.722],
+  '723126': [23.464, 86.56],
+  '723127': [23.103, 86.378],
+  '723128': [23.177, 86.52],
+  '723129': [22.821, 86.54],
+  '723130': [23.277, 86.722],
+  '723131': [23.013, 86.621],
+  '723132': [23.383, 86.671],
+  '723133': [23.56, 86.601],
+  '723142': [23.61, 86.722],
+  '723143': [23.099, 86.216],
+  '723145': [23.592, 86.469],
+  '723146': [23.519, 86.388],
+  '723147': [23.424, 86.388],
+  '723148': [23.367, 86.479],
+  '723149': [23.375, 86.307],
+  '723151': [23.18, 86.641],
+  '723152': [23.213, 86.033],
+  '723153': [23.232, 86.328],
+  '723154': [23.278, 86.226],
+  '723155': [23.509, 86.479],
+  '723156': [23.517, 86.842],
+  '723161': [23.624, 86.852],
+  '723168': [23.41, 86.832],
+  '723201': [23.407, 86.155],
+  '723202': [23.355, 85.992],
+  '723212': [23.258, 85.91],
+  '723213': [23.451, 86.033],
+  '723215': [23.535, 86.063],
+  '731101': [23.899, 87.549],
+  '731102': [23.851, 87.549],
+  '731103': [23.941, 87.574],
+  '731104': [23.826, 87.45],
+  '731121': [23.78, 87.569],
+  '731123': [23.812, 87.361],
+  '731124': [23.718, 87.441],
+  '731125': [23.809, 87.202],
+  '731126': [23.956, 87.401],
+  '731127': [24.005, 87.52],
+  '731129': [23.852, 87.609],
+  '731130': [23.99, 87.312],
+  '731132': [23.995, 87.609],
+  '731133': [23.752, 87.312],
+  '731201': [23.818, 87.717],
+  '731202': [24.188, 87.845],
+  '731204': [23.675, 87.717],
+  '731213': [23.95, 87.806],
+  '731214': [23.672, 87.52],
+  '731215': [23.594, 87.884],
+  '731216': [24.079, 87.658],
+  '731219': [24.449, 87.826],
+  '731220': [24.307, 87.865],
+  '731221': [24.486, 87.914],
+  '731222': [24.545, 87.884],
+  '731223': [24.234, 87.707],
+  '731224': [24.193, 87.781],
+  '731233': [24.14, 87.766],
+  '731234': [23.96, 87.678],
+  '731235': [23.716, 87.653],
+  '731236': [23.673, 87.599],
+  '731237': [24.261, 87.982],
+  '731238': [24.342, 87.796],
+  '731240': [23.629, 87.796],
+  '731241': [24.171, 87.889],
+  '731242': [24.237, 87.904],
+  '731243': [24.258, 87.766],
+  '731244': [24.094, 87.884],
+  '731245': [24.046, 87.845],
+  '731301': [23.677, 87.875],
+  '731302': [23.785, 87.884],
+  '731303': [23.82, 87.835],
+  '732101': [24.976, 88.158],
+  '732102': [25.2, 88.071],
+  '732103': [24.887, 88.134],
+  '732121': [24.93, 88.275],
+  '732122': [25.013, 88.304],
+  '732123': [25.401, 88.002],
+  '732124': [25.249, 88.227],
+  '732125': [25.386, 87.835],
+  '732126': [25.331, 88.08],
+  '732127': [24.855, 87.943],
+  '732128': [25.106, 88.149],
+  '732138': [25.109, 88.343],
+  '732139': [25.294, 87.992],
+  '732140': [25.483, 87.953],
+  '732141': [25.095, 88.217],
+  '732142': [25.145, 88.411],
+  '732143': [25.038, 88.117],
+  '732144': [25.275, 87.899],
+  '732147': [25.251, 88.382],
+  '732150': [25.449, 88.041],
+  '732201': [24.833, 88.08],
+  '732202': [25.103, 87.914],
+  '732203': [25.149, 87.835],
+  '732204': [25.163, 87.982],
+  '732205': [25.233, 87.884],
+  '732206': [24.928, 88.119],
+  '732207': [24.914, 87.953],
+  '732208': [25.057, 88.031],
+  '732209': [25.008, 87.914],
+  '732210': [24.725, 87.992],
+  '732211': [25.019, 88.009],
+  '732212': [24.898, 88.056],
+  '732213': [25.137, 88.039],
+  '732214': [25.119, 87.99],
+  '732215': [24.813, 87.938],
+  '732216': [24.857, 88.119],
+  '733101': [25.237, 88.783],
+  '733102': [25.255, 88.73],
+  '733103': [25.243, 88.817],
+  '733121': [25.393, 88.382],
+  '733123': [25.292, 88.913],
+  '733124': [25.442, 88.498],
+  '733125': [25.392, 88.266],
+  '733126': [25.286, 88.975],
+  '733127': [25.253, 88.576],
+  '733128': [25.426, 88.139],
+  '733129': [25.63, 88.343],
+  '733130': [25.664, 88.197],
+  '733132': [25.536, 88.421],
+  '733133': [25.35, 88.807],
+  '733134': [25.627, 88.11],
+  '733140': [25.396, 88.653],
+  '733141': [25.445, 88.769],
+  '733142': [25.335, 88.489],
+  '733143': [25.533, 88.188],
+  '733145': [25.268, 88.874],
+  '733156': [25.722, 88.149],
+  '733158': [25.337, 88.701],
+  '733201': [25.909, 87.992],
+  '733202': [26.243, 88.188],
+  '733207': [26.386, 88.343],
+  '733208': [26.099, 88.031],
+  '733209': [26.002, 87.875],
+  '733210': [26.053, 88.11],
+  '733215': [25.777, 87.984],
+  '734001': [26.723, 88.426],
+  '734003': [26.776, 88.411],
+  '734004': [26.718, 88.498],
+  '734005': [26.907, 88.498],
+  '734006': [26.87, 88.411],
+  '734007': [26.823, 88.411],
+  '734008': [26.917, 88.392],
+  '734009': [26.775, 88.334],
+  '734010': [26.735, 88.377],
+  '734011': [26.681, 88.372],
+  '734012': [26.663, 88.348],
+  '734013': [26.728, 88.314],
+  '734014': [26.622, 88.304],
+  '734015': [26.644, 88.423],
+  '734101': [27.04, 88.28],
+  '734102': [27.009, 88.217],
+  '734103': [27.08, 88.236],
+  '734104': [27.08, 88.236],
+  '734105': [27.081, 88.295],
+  '734121': [26.968, 88.222],
+  '734122': [27.089, 88.21],
+  '734123': [27.011, 88.314],
+  '734124': [27.112, 88.277],
+  '734201': [27.09, 88.11],
+  '734203': [26.892, 88.256],
+  '734204': [26.913, 88.312],
+  '734213': [27.082, 88.353],
+  '734214': [26.909, 88.173],
+  '734215': [26.921, 88.202],
+  '734216': [26.961, 88.139],
+  '734217': [26.822, 88.275],
+  '734218': [26.868, 88.217],
+  '734220': [26.899, 88.309],
+  '734221': [27.008, 88.139],
+  '734222': [27.052, 88.368],
+  '734223': [26.846, 88.334],
+  '734224': [26.934, 88.29],
+  '734226': [27.017, 88.387],
+  '734227': [26.847, 88.19],
+  '734301': [27.001, 88.498],
+  '734311': [27.155, 88.624],
+  '734312': [27.076, 88.416],
+  '734313': [26.964, 88.353],
+  '734314': [27.002, 88.576],
+  '734315': [27.154, 88.566],
+  '734316': [27.095, 88.537],
+  '734317': [27.068, 88.433],
+  '734319': [27.051, 88.769],
+  '734320': [26.959, 88.426],
+  '734321': [27.038, 88.419],
+  '734421': [26.682, 88.335],
+  '734423': [26.797, 88.217],
+  '734424': [26.633, 88.256],
+  '734426': [26.562, 88.236],
+  '734427': [26.561, 88.178],
+  '734429': [26.703, 88.217],
+  '734431': [26.751, 88.275],
+  '734434': [26.587, 88.353],
+  '734436': [26.527, 88.304],
+  '734501': [26.812, 88.498],
+  '734503': [27.006, 88.436],
+  '735101': [26.52, 88.74],
+  '735102': [26.525, 88.687],
+  '735121': [26.626, 88.692],
+  '735122': [26.344, 88.807],
+  '735132': [26.437, 88.692],
+  '735133': [26.542, 88.605],
+  '735134': [26.542, 88.528],
+  '735135': [26.636, 88.528],
+  '735202': [26.77, 88.999],
+  '735203': [26.576, 88.46],
+  '735204': [26.724, 89.152],
+  '735205': [26.899, 88.989],
+  '735206': [26.851, 88.817],
+  '735207': [26.876, 89.066],
+  '735208': [26.784, 89.408],
+  '735209': [26.826, 88.682],
+  '735210': [26.581, 88.999],
+  '735211': [26.535, 89.228],
+  '735212': [26.675, 88.999],
+  '735213': [26.642, 89.256],
+  '735214': [26.63, 89.38],
+  '735215': [26.742, 89.375],
+  '735216': [26.617, 89.161],
+  '735217': [26.631, 89.493],
+  '735218': [26.743, 88.672],
+  '735219': [26.686, 88.797],
+  '735220': [26.772, 89.304],
+  '735221': [26.85, 88.721],
+  '735222': [26.873, 88.624],
+  '735223': [26.91, 88.807],
+  '735224': [26.533, 88.922],
+  '735225': [26.875, 88.913],
+  '735226': [26.631, 89.606],
+  '735227': [26.725, 89.569],
+  '735228': [26.771, 89.228],
+  '735229': [26.897, 88.701],
+  '735230': [26.756, 88.797],
+  '735231': [26.956, 88.73],
+  '735232': [26.738, 89.03],
+  '735233': [26.687, 88.913],
+  '735234': [26.778, 88.605],
+  '735301': [26.451, 88.932],
+  '735302': [26.615, 88.778],
+  '735303': [26.487, 89.075],
+  '735304': [26.298, 88.961],
+  '735305': [26.485, 88.807],
+  '736101': [26.33, 89.451],
+  '736121': [26.454, 89.559],
+  '736122': [26.519, 89.507],
+  '736123': [26.548, 89.54],
+  '736131': [26.396, 89.794],
+  '736133': [26.43, 89.503],
+  '736134': [26.253, 89.493],
+  '736135': [26.111, 89.455],
+  '736145': [26.146, 89.37],
+  '736146': [26.346, 89.152],
+  '736156': [26.336, 89.559],
+  '736157': [26.3, 89.304],
+  '736158': [26.157, 89.19],
+  '736159': [26.301, 89.682],
+  '736160': [26.384, 89.635],
+  '736165': [26.442, 89.38],
+  '736167': [26.064, 89.342],
+  '736168': [26.064, 89.569],
+  '736169': [26.123, 89.54],
+  '736170': [26.288, 89.427],
+  '736171': [26.177, 89.564],
+  '736172': [26.205, 89.266],
+  '736176': [26.118, 89.592],
+  '736179': [26.359, 89.446],
+  '736201': [26.632, 89.757],
+  '736202': [26.502, 89.747],
+  '736203': [26.596, 89.841],
+  '736204': [26.536, 89.342],
+  '736205': [26.667, 89.841],
+  '736206': [26.537, 89.682],
+  '736207': [26.49, 89.832],
+  '736208': [26.525, 89.616],
+  '737102': [27.302, 88.61],
+  '737103': [27.379, 88.73],
+  '737106': [27.226, 88.624],
+  '737107': [27.366, 88.547],
+  '737111': [27.316, 88.275],
+  '737113': [27.396, 88.129],
+  '737116': [27.634, 88.402],
+  '737117': [27.438, 88.701],
+  '737118': [27.443, 88.59],
+  '737119': [27.413, 88.566],
+  '737120': [27.825, 88.711],
+  '737121': [27.185, 88.188],
+  '737126': [27.188, 88.421],
+  '737128': [27.129, 88.411],
+  '737131': [27.286, 88.769],
+  '737132': [27.195, 88.542],
+  '737133': [27.179, 88.721],
+  '737134': [27.248, 88.508],
+  '737135': [27.273, 88.643],
+  '737136': [27.186, 88.506],
+  '737138': [27.295, 88.469],
+  '737139': [27.376, 88.382],
+  '741101': [23.387, 88.489],
+  '741102': [23.364, 88.528],
+  '741103': [23.435, 88.547],
+  '741121': [23.316, 88.528],
+  '741122': [24.019, 88.692],
+  '741123': [23.543, 88.576],
+  '741124': [23.625, 88.508],
+  '741125': [23.434, 88.469],
+  '741126': [23.624, 88.392],
+  '741127': [23.245, 88.566],
+  '741137': [23.671, 88.314],
+  '741138': [23.594, 88.397],
+  '741139': [23.491, 88.453],
+  '741140': [23.5, 88.484],
+  '741150': [23.73, 88.266],
+  '741151': [23.382, 88.581],
+  '741152': [23.971, 88.576],
+  '741153': [23.646, 88.178],
+  '741154': [23.553, 88.45],
+  '741155': [23.812, 88.472],
+  '741156': [23.779, 88.382],
+  '741157': [23.789, 88.256],
+  '741158': [23.808, 88.348],
+  '741159': [23.268, 88.528],
+  '741160': [23.732, 88.498],
+  '741161': [23.436, 88.605],
+  '741162': [23.558, 88.319],
+  '741163': [23.779, 88.548],
+  '741164': [23.483, 88.528],
+  '741165': [23.875, 88.537],
+  '741166': [23.504, 88.573],
+  '741167': [23.42, 88.636],
+  '741181': [23.742, 88.314],
+  '741201': [23.191, 88.561],
+  '741202': [23.174, 88.605],
+  '741221': [22.941, 88.542],
+  '741222': [23.066, 88.576],
+  '741223': [23.079, 88.643],
+  '741232': [23.158, 88.559],
+  '741234': [22.976, 88.494],
+  '741235': [22.967, 88.437],
+  '741238': [23.127, 88.663],
+  '741245': [23.006, 88.469],
+  '741246': [23.661, 88.234],
+  '741247': [23.132, 88.552],
+  '741248': [23.054, 88.489],
+  '741249': [22.935, 88.586],
+  '741250': [22.943, 88.486],
+  '741251': [22.992, 88.425],
+  '741252': [22.953, 88.523],
+  '741253': [23.175, 88.701],
+  '741254': [23.218, 88.559],
+  '741255': [23.143, 88.523],
+  '741256': [23.151, 88.565],
+  '741257': [22.936, 88.624],
+  '741301': [23.38, 88.377],
+  '741302': [23.427, 88.368],
+  '741313': [23.463, 88.377],
+  '741315': [23.41, 88.431],
+  '741316': [23.415, 88.339],
+  '741317': [23.338, 88.392],
+  '741319': [23.403, 88.309],
+  '741401': [23.315, 88.45],
+  '741402': [23.208, 88.498],
+  '741404': [23.255, 88.421],
+  '741501': [23.222, 88.643],
+  '741502': [23.317, 88.663],
+  '741503': [23.467, 88.773],
+  '741504': [23.246, 88.682],
+  '741505': [23.358, 88.59],
+  '741506': [23.472, 88.665],
+  '741507': [23.389, 88.721],
+  '741508': [23.484, 88.701],
+  '741509': [23.395, 88.687],
+  '742101': [24.087, 88.251],
+  '742102': [24.123, 88.314],
+  '742103': [24.116, 88.261],
+  '742104': [24.217, 88.197],
+  '742113': [24.204, 88.677],
+  '742121': [23.91, 88.45],
+  '742122': [24.264, 88.217],
+  '742123': [24.242, 88.314],
+  '742132': [23.916, 87.914],
+  '742133': [23.92, 88.266],
+  '742134': [24.003, 88.236],
+  '742135': [24.302, 88.382],
+  '742136': [24.061, 88.11],
+  '742137': [23.954, 88.1],
+  '742138': [23.906, 88.041],
+  '742140': [24.267, 88.45],
+  '742147': [24.012, 87.992],
+  '742148': [24.431, 88.217],
+  '742149': [24.194, 88.295],
+  '742151': [24.359, 88.217],
+  '742159': [24.107, 87.953],
+  '742160': [24.187, 88.241],
+  '742161': [23.869, 87.992],
+  '742163': [23.837, 88.236],
+  '742164': [24.384, 88.295],
+  '742165': [24.064, 88.343],
+  '742166': [24.017, 88.421],
+  '742168': [23.999, 87.904],
+  '742174': [23.873, 88.343],
+  '742175': [24.165, 88.329],
+  '742184': [24.156, 88.071],
+  '742187': [24.109, 88.188],
+  '742189': [23.938, 88.232],
+  '742201': [24.594, 88.022],
+  '742202': [24.676, 87.914],
+  '742212': [24.807, 87.904],
+  '742213': [24.477, 88.119],
+  '742223': [24.524, 88.061],
+  '742224': [24.618, 87.982],
+  '742225': [24.428, 88.022],
+  '742226': [24.31, 88.061],
+  '742227': [24.405, 88.08],
+  '742235': [24.263, 88.139],
+  '742236': [24.759, 87.884],
+  '742237': [24.358, 88.139],
+  '742238': [24.174, 88.154],
+  '742301': [23.882, 88.1],
+  '742302': [24.159, 88.382],
+  '742303': [24.125, 88.547],
+  '742304': [24.16, 88.498],
+  '742305': [24.114, 88.653],
+  '742306': [24.245, 88.701],
+  '742308': [24.257, 88.614],
+  '742401': [23.787, 88.08],
+  '742402': [23.77, 88.154],
+  '742404': [23.812, 88.139],
+  '742405': [23.979, 88.178],
+  '742406': [24.054, 88.566],
+  '743122': [22.777, 88.35],
+  '743123': [22.845, 88.455],
+  '743124': [23.074, 88.793],
+  '743125': [22.846, 88.405],
+  '743126': [22.876, 88.439],
+  '743127': [22.826, 88.406],
+  '743128': [22.845, 88.381],
+  '743129': [22.863, 88.403],
+  '743130': [23.014, 88.793],
+  '743133': [22.819, 88.367],
+  '743134': [22.944, 88.419],
+  '743135': [22.912, 88.411],
+  '743136': [22.925, 88.418],
+  '743144': [22.796, 88.373],
+  '743145': [22.938, 88.435],
+  '743165': [22.895, 88.419],
+  '743166': [22.894, 88.436],
+  '743193': [22.948, 88.451],
+  '743194': [22.851, 88.381],
+  '743221': [22.815, 88.489],
+  '743222': [22.834, 88.6],
+  '743223': [22.849, 88.641],
+  '743232': [23.176, 88.913],
+  '743233': [22.823, 88.648],
+  '743234': [22.792, 88.566],
+  '743235': [23.08, 88.836],
+  '743245': [22.973, 88.807],
+  '743247': [22.842, 88.797],
+  '743248': [22.768, 88.508],
+  '743249': [22.936, 88.721],
+  '743251': [23.164, 88.846],
+  '743252': [22.874, 88.752],
+  '743262': [23.08, 88.759],
+  '743263': [22.865, 88.682],
+  '743268': [22.85, 88.655],
+  '743270': [23.157, 88.745],
+  '743271': [22.793, 88.682],
+  '743272': [22.882, 88.6],
+  '743273': [22.89, 88.874],
+  '743286': [22.83, 88.884],
+  '743287': [22.913, 88.759],
+  '743289': [22.841, 88.74],
+  '743290': [22.96, 88.682],
+  '743291': [22.627, 88.817],
+  '743292': [22.7, 88.913],
+  '743293': [22.746, 88.74],
+  '743294': [22.745, 88.586],
+  '743297': [23.205, 88.764],
+  '743312': [22.162, 88.692],
+  '743318': [22.383, 88.139],
+  '743329': [22.257, 88.692],
+  '743330': [22.411, 88.566],
+  '743331': [22.187, 88.193],
+  '743332': [22.158, 88.266],
+  '743336': [22.099, 88.334],
+  '743337': [22.208, 88.537],
+  '743338': [22.113, 88.576],
+  '743345': [22.129, 88.358],
+  '743347': [21.824, 88.266],
+  '743348': [22.014, 88.227],
+  '743349': [21.968, 88.382],
+  '743351': [22.074, 88.256],
+  '743354': [22.076, 88.469],
+  '743355': [22.218, 88.372],
+  '743356': [21.909, 88.127],
+  '743357': [21.681, 88.266],
+  '743363': [22.363, 88.547],
+  '743368': [22.24, 88.158],
+  '743370': [21.948, 88.865],
+  '743371': [21.671, 88.45],
+  '743372': [22.243, 88.469],
+  '743373': [21.727, 88.11],
+  '743374': [21.955, 88.217],
+  '743375': [22.241, 88.275],
+  '743376': [22.34, 88.624],
+  '743377': [22.36, 88.217],
+  '743378': [22.223, 88.893],
+  '743383': [21.873, 88.421],
+  '743387': [22.339, 88.508],
+  '743395': [22.171, 88.392],
+  '743399': [21.967, 88.304],
+  '743401': [22.717, 88.783],
+  '743405': [23.024, 88.867],
+  '743411': [22.661, 88.867],
+  '743412': [22.658, 88.889],
+  '743422': [22.61, 88.869],
+  '743423': [22.685, 88.614],
+  '743424': [22.734, 88.673],
+  '743425': [22.543, 88.692],
+  '743426': [22.533, 88.913],
+  '743427': [22.735, 88.846],
+  '743428': [22.675, 88.817],
+  '743429': [22.604, 88.913],
+  '743435': [22.45, 88.961],
+  '743437': [22.693, 88.764],
+  '743438': [22.794, 88.759],
+  '743439': [22.247, 88.989],
+  '743442': [22.449, 88.807],
+  '743445': [22.627, 88.759],
+  '743446': [22.306, 88.884],
+  '743456': [22.544, 88.807],
+  '743502': [22.494, 88.576],
+  '743503': [22.361, 88.314],
+  '743504': [22.299, 88.149],
+  '743513': [22.313, 88.275],
+  '743609': [22.29, 88.353],
+  '743610': [22.314, 88.411],
+  '743611': [22.246, 88.797],
+  '743613': [22.401, 88.477],
+  '743701': [23.032, 88.74],
+  '743702': [22.462, 88.617],
+  '743704': [22.805, 88.629],
+  '743710': [23.079, 88.721],
+  '743711': [22.864, 88.547],
+  '744101': [11.646, 92.736],
+  '744102': [11.674, 92.726],
+  '744103': [11.763, 92.599],
+  '744104': [11.822, 93.053],
+  '744105': [11.456, 92.649],
+  '744106': [11.661, 92.749],
+  '744107': [11.819, 92.748],
+  '744112': [11.651, 92.751],
+  '744201': [12.721, 92.918],
+  '744202': [13.296, 92.898],
+  '744203': [12.394, 92.933],
+  '744204': [12.859, 92.838],
+  '744205': [12.561, 92.818],
+  '744206': [11.7, 92.674],
+  '744207': [10.745, 92.5],
+  '744209': [12.355, 92.798],
+  '744210': [12.036, 92.679],
+  '744211': [12.09, 92.988],
+  '744301': [9.157, 92.758],
+  '744302': [7.035, 93.784],
+  '744303': [8.174, 93.49],
+  '744304': [7.967, 93.399],
+  '751001': [20.273, 85.836],
+  '751002': [20.198, 85.818],
+  '751003': [20.292, 85.756],
+  '751004': [20.304, 85.84],
+  '751005': [20.313, 85.84],
+  '751006': [20.264, 85.854],
+  '751007': [20.312, 85.854],
+  '751008': [20.277, 85.812],
+  '751009': [20.261, 85.831],
+  '751010': [20.291, 85.872],
+  '751011': [20.288, 85.801],
+  '751012': [20.284, 85.82],
+  '751013': [20.308, 85.826],
+  '751014': [20.249, 85.841],
+  '751015': [20.298, 85.792],
+  '751016': [20.33, 85.819],
+  '751017': [20.335, 85.833],
+  '751018': [20.249, 85.851],
+  '751019': [20.239, 85.782],
+  '751020': [20.251, 85.813],
+  '751021': [20.322, 85.792],
+  '751022': [20.287, 85.833],
+  '751023': [20.315, 85.814],
+  '751024': [20.364, 85.797],
+  '751025': [20.265, 85.822],
+  '751030': [20.262, 85.782],
+  '752001': [19.799, 85.803],
+  '752002': [19.841, 85.818],
+  '752003': [19.815, 85.856],
+  '752011': [19.75, 85.479],
+  '752012': [19.912, 85.797],
+  '752013': [19.864, 85.756],
+  '752014': [19.959, 85.777],
+  '752015': [20.077, 85.715],
+  '752016': [20.006, 85.756],
+  '752017': [19.967, 85.623],
+  '752018': [20.05, 85.592],
+  '752019': [19.977, 85.53],
+  '752020': [20.048, 85.53],
+  '752021': [19.917, 85.499],
+  '752022': [19.885, 85.422],
+  '752023': [19.92, 85.391],
+  '752024': [19.956, 85.422],
+  '752025': [19.96, 85.334],
+  '752026': [20.091, 85.345],
+  '752027': [19.877, 85.345],
+  '752030': [19.649, 85.231],
+  '752031': [19.812, 85.127],
+  '752034': [19.828, 85.283],
+  '752035': [19.857, 85.044],
+  '752037': [20.037, 85.456],
+  '752038': [20.093, 85.427],
+  '752045': [19.938, 85.9],
+  '752046': [20.008, 85.818],
+  '752050': [20.16, 85.705],
+  '752054': [20.255, 85.705],
+  '752055': [20.151, 85.618],
+  '752056': [20.144, 85.551],
+  '752057': [20.252, 85.582],
+  '752060': [20.098, 85.633],
+  '752061': [20.237, 85.489],
+  '752062': [20.165, 85.448],
+  '752063': [20.292, 85.293],
+  '752064': [20.246, 85.376],
+  '752065': [20.137, 85.303],
+  '752066': [20.184, 85.262],
+  '752068': [20.157, 85.158],
+  '752069': [20.114, 85.101],
+  '752070': [20.095, 85.044],
+  '752077': [20.289, 85.21],
+  '752078': [20.347, 85.158],
+  '752079': [20.087, 85.2],
+  '752080': [20.001, 85.086],
+  '752081': [19.999, 85.003],
+  '752082': [20.102, 84.888],
+  '752083': [20.236, 85.003],
+  '752084': [20.397, 84.815],
+  '752085': [20.425, 84.961],
+  '752089': [20.319, 84.585],
+  '752090': [20.044, 84.919],
+  '752091': [20.279, 84.836],
+  '752092': [20.004, 85.21],
+  '752093': [20.366, 84.971],
+  '752094': [20.178, 85.034],
+  '752100': [20.224, 85.9],
+  '752101': [20.281, 85.88],
+  '752102': [20.165, 85.951],
+  '752103': [20.131, 86.022],
+  '752104': [20.127, 85.838],
+  '752105': [20.033, 85.9],
+  '752106': [20.036, 86.002],
+  '752107': [20.009, 86.129],
+  '752108': [19.992, 86.185],
+  '752109': [19.97, 86.267],
+  '752110': [19.941, 86.022],
+  '752111': [19.896, 86.124],
+  '752113': [20.085, 86.063],
+  '752114': [20.082, 85.961],
+  '752115': [20.03, 85.494],
+  '752116': [19.99, 86.063],
+  '752118': [19.951, 86.19],
+  '752119': [20.018, 86.267],
+  '752120': [20.056, 86.109],
+  '752121': [19.981, 85.956],
+  '753001': [20.482, 85.887],
+  '753002': [20.464, 85.861],
+  '753003': [20.47, 85.902],
+  '753004': [20.465, 85.913],
+  '753006': [20.459, 85.933],
+  '753007': [20.472, 85.891],
+  '753008': [20.481, 85.861],
+  '753009': [20.458, 85.872],
+  '753010': [20.444, 85.915],
+  '753011': [20.344, 85.982],
+  '753012': [20.446, 85.892],
+  '753013': [20.451, 85.901],
+  '753014': [20.483, 85.818],
+  '753015': [20.468, 85.847],
+  '754001': [20.349, 85.936],
+  '754002': [20.291, 85.966],
+  '754003': [20.599, 86.066],
+  '754004': [20.121, 86.114],
+  '754005': [20.436, 85.838],
+  '754006': [20.434, 85.756],
+  '754007': [20.348, 85.623],
+  '754008': [20.345, 85.499],
+  '754009': [20.33, 85.407],
+  '754010': [20.244, 85.997],
+  '754011': [20.22, 86.017],
+  '754012': [20.362, 85.736],
+  '754018': [20.274, 86.022],
+  '754021': [20.492, 85.915],
+  '754022': [20.606, 85.982],
+  '754023': [20.609, 86.104],
+  '754024': [20.657, 86.145],
+  '754025': [20.534, 85.941],
+  '754026': [20.408, 86.305],
+  '754027': [20.506, 85.756],
+  '754028': [20.593, 85.91],
+  '754029': [20.491, 85.664],
+  '754030': [20.476, 85.51],
+  '754031': [20.434, 85.293],
+  '754032': [20.499, 85.065],
+  '754035': [20.474, 85.427],
+  '754037': [20.431, 85.169],
+  '754082': [20.69, 85.992],
+  '754100': [20.416, 86.002],
+  '754102': [20.323, 86.084],
+  '754103': [20.254, 86.185],
+  '754104': [20.308, 86.231],
+  '754105': [20.227, 86.063],
+  '754106': [20.232, 86.267],
+  '754107': [20.153, 86.211],
+  '754108': [20.161, 86.287],
+  '754109': [20.176, 86.17],
+  '754110': [20.115, 86.388],
+  '754111': [20.37, 86.043],
+  '754112': [20.415, 85.941],
+  '754113': [20.088, 86.206],
+  '754114': [20.282, 86.109],
+  '754119': [20.078, 86.317],
+  '754120': [20.282, 86.686],
+  '754130': [20.395, 86.104],
+  '754131': [20.442, 86.104],
+  '754132': [20.349, 86.185],
+  '754133': [20.333, 86.251],
+  '754134': [20.374, 86.226],
+  '754135': [20.345, 86.272],
+  '754136': [20.28, 86.307],
+  '754137': [20.281, 86.368],
+  '754138': [20.233, 86.348],
+  '754139': [20.188, 86.469],
+  '754140': [20.307, 86.429],
+  '754141': [20.32, 86.52],
+  '754142': [20.311, 86.631],
+  '754143': [20.305, 86.656],
+  '754145': [20.263, 86.631],
+  '754153': [20.387, 86.37],
+  '754160': [20.314, 86.366],
+  '754162': [20.36, 86.404],
+  '754200': [20.5, 86.033],
+  '754201': [20.579, 86.078],
+  '754202': [20.49, 86.104],
+  '754203': [20.461, 86.14],
+  '754204': [20.61, 86.165],
+  '754205': [20.613, 86.287],
+  '754206': [20.563, 86.185],
+  '754207': [20.492, 86.206],
+  '754208': [20.512, 86.282],
+  '754209': [20.445, 86.246],
+  '754210': [20.447, 86.307],
+  '754211': [20.557, 86.439],
+  '754212': [20.475, 86.51],
+  '754213': [20.403, 86.49],
+  '754214': [20.585, 86.363],
+  '754215': [20.595, 86.57],
+  '754216': [20.494, 86.565],
+  '754217': [20.526, 86.671],
+  '754218': [20.624, 86.535],
+  '754219': [20.668, 86.631],
+  '754220': [20.717, 86.732],
+  '754221': [20.538, 86.145],
+  '754222': [20.478, 86.363],
+  '754223': [20.448, 86.368],
+  '754224': [20.371, 86.681],
+  '754225': [20.611, 86.802],
+  '754227': [20.763, 86.631],
+  '754228': [20.39, 86.406],
+  '754231': [20.669, 86.691],
+  '754239': [20.673, 86.596],
+  '754240': [20.64, 86.449],
+  '754244': [20.425, 86.409],
+  '754245': [20.495, 86.626],
+  '754246': [20.597, 86.691],
+  '754248': [20.707, 86.842],
+  '754250': [20.543, 86.368],
+  '754253': [20.384, 86.424],
+  '754289': [20.548, 86.312],
+  '754290': [20.556, 86.109],
+  '754292': [20.635, 86.226],
+  '754293': [20.427, 86.201],
+  '754294': [20.189, 86.35],
+  '754296': [20.686, 86.109],
+  '755001': [20.849, 86.33],
+  '755003': [20.65, 86.358],
+  '755004': [20.711, 86.409],
+  '755005': [20.732, 86.267],
+  '755006': [20.831, 86.469],
+  '755007': [20.828, 86.328],
+  '755008': [20.835, 86.133],
+  '755009': [20.823, 86.196],
+  '755010': [20.645, 86.414],
+  '755011': [20.785, 86.57],
+  '755012': [20.706, 86.464],
+  '755013': [20.76, 86.51],
+  '755014': [20.836, 86.414],
+  '755015': [20.896, 86.185],
+  '755016': [20.713, 86.53],
+  '755017': [20.786, 86.312],
+  '755018': [20.972, 85.869],
+  '755019': [20.978, 86.114],
+  '755020': [20.939, 86.086],
+  '755022': [20.968, 86.185],
+  '755023': [20.822, 86.043],
+  '755024': [20.758, 86.109],
+  '755025': [20.993, 86.246],
+  '755026': [20.975, 85.992],
+  '755027': [20.782, 86.409],
+  '755028': [21.066, 85.787],
+  '755036': [20.833, 86.57],
+  '755043': [20.898, 86.246],
+  '755044': [20.704, 86.084],
+  '755049': [20.682, 86.185],
+  '755050': [20.758, 86.14],
+  '755061': [20.666, 86.53],
+  '755062': [20.811, 86.373],
+  '756001': [21.489, 86.917],
+  '756002': [21.459, 86.932],
+  '756003': [21.555, 86.932],
+  '756019': [21.566, 86.882],
+  '756020': [21.564, 86.802],
+  '756021': [21.388, 86.932],
+  '756022': [21.683, 87.127],
+  '756023': [21.702, 87.212],
+  '756024': [21.57, 87.162],
+  '756025': [21.46, 86.992],
+  '756026': [21.656, 87.292],
+  '756027': [21.557, 87.052],
+  '756028': [21.628, 87.032],
+  '756029': [21.676, 87.072],
+  '756030': [21.749, 87.132],
+  '756032': [21.828, 87.247],
+  '756033': [21.904, 87.162],
+  '756034': [21.751, 87.292],
+  '756035': [21.753, 87.391],
+  '756036': [21.658, 87.411],
+  '756037': [21.61, 87.411],
+  '756038': [21.61, 87.371],
+  '756039': [21.69, 87.354],
+  '756040': [21.48, 86.772],
+  '756041': [21.526, 86.691],
+  '756042': [21.325, 86.762],
+  '756043': [21.386, 86.812],
+  '756044': [21.314, 86.832],
+  '756045': [21.323, 86.681],
+  '756046': [21.241, 86.752],
+  '756047': [21.273, 86.56],
+  '756048': [21.307, 86.469],
+  '756049': [21.356, 86.53],
+  '756051': [21.243, 86.812],
+  '756055': [21.222, 86.686],
+  '756056': [21.435, 86.892],
+  '756058': [21.465, 86.601],
+  '756059': [21.282, 86.409],
+  '756060': [21.457, 86.832],
+  '756079': [21.686, 87.326],
+  '756080': [21.63, 87.132],
+  '756081': [21.654, 87.172],
+  '756083': [21.584, 87.272],
+  '756084': [21.799, 87.292],
+  '756085': [21.629, 87.455],
+  '756086': [21.762, 87.242],
+  '756100': [21.052, 86.515],
+  '756101': [21.094, 86.53],
+  '756111': [21.142, 86.55],
+  '756112': [20.996, 86.409],
+  '756113': [21.068, 86.409],
+  '756114': [21.079, 86.358],
+  '756115': [21.21, 86.388],
+  '756116': [20.999, 86.51],
+  '756117': [20.89, 86.439],
+  '756118': [20.933, 86.505],
+  '756119': [20.881, 86.57],
+  '756120': [20.936, 86.358],
+  '756121': [21.018, 86.307],
+  '756122': [20.923, 86.307],
+  '756123': [21.072, 86.611],
+  '756124': [21.074, 86.691],
+  '756125': [21.087, 86.762],
+  '756126': [21.18, 86.641],
+  '756127': [21.03, 86.585],
+  '756128': [21.017, 86.555],
+  '756129': [20.933, 86.812],
+  '756130': [20.978, 86.671],
+  '756131': [20.955, 86.732],
+  '756132': [20.861, 86.772],
+  '756133': [20.801, 86.762],
+  '756134': [21.189, 86.51],
+  '756135': [21.139, 86.409],
+  '756137': [20.946, 86.545],
+  '756138': [20.835, 86.651],
+  '756139': [20.994, 86.606],
+  '756144': [21.155, 86.292],
+  '756162': [21.171, 86.792],
+  '756163': [20.976, 86.57],
+  '756164': [20.993, 86.842],
+  '756165': [21.115, 86.686],
+  '756166': [21.12, 86.631],
+  '756167': [21.031, 86.636],
+  '756168': [21.151, 86.706],
+  '756171': [20.852, 86.922],
+  '756181': [21.045, 86.469],
+  '756182': [21.236, 86.49],
+  '757001': [21.938, 86.747],
+  '757002': [21.959, 86.734],
+  '757003': [21.609, 86.977],
+  '757014': [22.076, 86.772],
+  '757016': [21.795, 87.052],
+  '757017': [21.671, 86.792],
+  '757018': [21.852, 86.922],
+  '757019': [21.692, 86.631],
+  '757020': [21.841, 86.992],
+  '757021': [22.053, 86.832],
+  '757022': [22.055, 86.932],
+  '757023': [21.935, 86.872],
+  '757024': [21.893, 86.56],
+  '757025': [21.743, 86.812],
+  '757026': [21.717, 86.732],
+  '757027': [21.64, 86.727],
+  '757028': [21.65, 86.932],
+  '757029': [21.85, 86.802],
+  '757030': [22.037, 86.641],
+  '757031': [22.222, 86.656],
+  '757032': [22.143, 86.57],
+  '757033': [22.126, 86.317],
+  '757034': [21.958, 86.297],
+  '757035': [22.028, 85.736],
+  '757036': [21.721, 86.338],
+  '757037': [21.831, 85.951],
+  '757038': [21.503, 86.155],
+  '757039': [21.937, 85.9],
+  '757040': [21.511, 86.52],
+  '757041': [21.595, 86.55],
+  '757042': [22.315, 86.277],
+  '757043': [22.278, 86.206],
+  '757045': [22.31, 86.073],
+  '757046': [22.406, 86.114],
+  '757047': [22.119, 86.033],
+  '757048': [22.221, 86.317],
+  '757049': [21.93, 86.651],
+  '757050': [22.169, 86.155],
+  '757051': [22.239, 86.591],
+  '757052': [21.71, 86.962],
+  '757053': [22.5, 86.033],
+  '757054': [22.421, 86.206],
+  '757055': [21.82, 87.132],
+  '757073': [21.843, 87.072],
+  '757074': [21.797, 86.52],
+  '757075': [21.799, 86.641],
+  '757077': [21.569, 86.469],
+  '757079': [21.412, 86.358],
+  '757081': [22.122, 86.691],
+  '757082': [21.608, 86.917],
+  '757083': [21.641, 86.767],
+  '757084': [21.96, 86.932],
+  '757085': [21.644, 86.651],
+  '757086': [22.18, 86.641],
+  '757087': [21.666, 86.55],
+  '757091': [21.987, 86.002],
+  '757092': [21.962, 86.459],
+  '757093': [22.224, 86.479],
+  '757100': [21.75, 86.877],
+  '757101': [21.573, 86.631],
+  '757102': [21.651, 86.696],
+  '757103': [21.806, 86.696],
+  '757104': [21.732, 86.555],
+  '757105': [22.002, 86.691],
+  '757106': [21.415, 86.479],
+  '757107': [21.957, 86.812],
+  '758001': [21.584, 85.582],
+  '758002': [21.668, 85.633],
+  '758013': [21.771, 85.458],
+  '758014': [21.587, 85.705],
+  '758015': [21.309, 86.033],
+  '758016': [21.687, 85.91],
+  '758017': [21.732, 85.787],
+  '758018': [21.557, 85.479],
+  '758019': [21.341, 85.417],
+  '758020': [21.158, 86.165],
+  '758021': [21.406, 86.073],
+  '758022': [21.135, 86.206],
+  '758023': [21.267, 86.277],
+  '758025': [21.167, 86.033],
+  '758026': [21.345, 85.541],
+  '758027': [21.402, 85.91],
+  '758028': [21.349, 85.705],
+  '758029': [21.566, 85.808],
+  '758030': [21.604, 85.9],
+  '758031': [21.868, 85.541],
+  '758032': [21.825, 85.705],
+  '758034': [21.912, 85.417],
+  '758035': [22.054, 85.376],
+  '758036': [21.46, 86.109],
+  '758037': [22.118, 85.339],
+  '758038': [22.07, 85.51],
+  '758040': [22.04, 85.283],
+  '758041': [22.048, 85.592],
+  '758043': [21.121, 86.114],
+  '758044': [21.956, 85.715],
+  '758045': [21.746, 85.859],
+  '758046': [21.815, 85.777],
+  '758047': [21.965, 85.582],
+  '758076': [21.201, 85.499],
+  '758078': [21.257, 86.348],
+  '758079': [21.442, 85.623],
+  '758080': [21.306, 85.869],
+  '758081': [21.642, 85.992],
+  '758082': [21.162, 85.828],
+  '758083': [21.16, 86.246],
+  '758084': [21.447, 85.345],
+  '759001': [20.65, 85.597],
+  '759013': [20.692, 85.613],
+  '759014': [20.79, 85.695],
+  '759015': [20.581, 85.458],
+  '759016': [20.782, 85.869],
+  '759017': [20.912, 85.818],
+  '759018': [20.964, 85.541],
+  '759019': [20.782, 85.407],
+  '759020': [20.721, 85.334],
+  '759021': [20.578, 85.334],
+  '759022': [20.622, 85.21],
+  '759023': [20.86, 85.654],
+  '759024': [20.934, 85.756],
+  '759025': [20.676, 85.458],
+  '759026': [20.82, 85.499],
+  '759027': [20.634, 85.664],
+  '759028': [21.108, 85.582],
+  '759037': [21.117, 85.156],
+  '759039': [21.003, 85.674],
+  '759040': [20.72, 85.192],
+  '759100': [21.192, 85.169],
+  '759101': [20.895, 85.2],
+  '759102': [20.819, 84.454],
+  '759103': [20.964, 85.096],
+  '759104': [20.902, 85.236],
+  '759105': [21.235, 85.003],
+  '759106': [20.824, 85.099],
+  '759107': [20.953, 85.233],
+  '759111': [20.943, 85.008],
+  '759116': [20.924, 85.163],
+  '759117': [21.093, 85.044],
+  '759118': [21.242, 85.252],
+  '759119': [21.431, 85.21],
+  '759120': [21.079, 85.396],
+  '759121': [20.766, 85.252],
+  '759122': [20.836, 85.109],
+  '759123': [20.869, 85.117],
+  '759124': [21.052, 84.867],
+  '759125': [20.772, 84.648],
+  '759126': [20.931, 84.417],
+  '759127': [20.942, 84.752],
+  '759128': [20.824, 85.2],
+  '759129': [20.666, 85.086],
+  '759130': [20.996, 84.961],
+  '759132': [20.709, 84.919],
+  '759141': [21.086, 84.794],
+  '759143': [20.862, 85.06],
+  '759145': [20.823, 85.158],
+  '759146': [21.016, 85.262],
+  '759147': [21.09, 85.153],
+  '759148': [20.841, 85.073],
+  '760001': [19.313, 84.792],
+  '760002': [19.326, 84.711],
+  '760003': [19.245, 84.805],
+  '760004': [19.314, 84.812],
+  '760005': [19.295, 84.797],
+  '760006': [19.522, 84.533],
+  '760007': [19.313, 84.883],
+  '760008': [19.302, 84.823],
+  '760009': [19.331, 84.792],
+  '760010': [19.312, 84.841],
+  '761001': [19.365, 84.826],
+  '761002': [19.27, 84.846],
+  '761003': [19.425, 84.878],
+  '761004': [19.144, 84.575],
+  '761005': [19.081, 84.459],
+  '761006': [19.074, 84.617],
+  '761007': [19.357, 84.554],
+  '761008': [19.186, 84.794],
+  '761009': [19.149, 84.742],
+  '761010': [19.193, 84.637],
+  '761011': [19.23, 84.475],
+  '761012': [19.405, 84.575],
+  '761013': [19.452, 84.575],
+  '761014': [19.426, 84.512],
+  '761015': [19.432, 84.312],
+  '761016': [19.145, 84.228],
+  '761017': [19.358, 84.207],
+  '761018': [19.532, 84.888],
+  '761019': [19.524, 85.003],
+  '761020': [19.363, 84.987],
+  '761025': [19.841, 84.501],
+  '761026': [19.417, 85.013],
+  '761027': [19.466, 85.055],
+  '761028': [19.514, 85.075],
+  '761029': [19.622, 85.127],
+  '761030': [19.584, 85.034],
+  '761031': [19.672, 85.004],
+  '761032': [19.647, 84.958],
+  '761035': [19.715, 85.044],
+  '761037': [19.19, 84.533],
+  '761041': [19.579, 84.846],
+  '761042': [19.273, 84.543],
+  '761043': [19.53, 84.805],
+  '761045': [19.344, 84.951],
+  '761052': [19.861, 84.763],
+  '761054': [19.383, 84.658],
+  '761055': [19.401, 84.449],
+  '761100': [19.409, 84.721],
+  '761101': [19.434, 84.763],
+  '761102': [19.481, 84.763],
+  '761103': [19.527, 84.7],
+  '761104': [19.612, 84.752],
+  '761105': [19.734, 84.898],
+  '761106': [19.559, 84.585],
+  '761107': [19.652, 84.501],
+  '761108': [19.743, 84.375],
+  '761109': [19.625, 84.396],
+  '761110': [19.626, 84.653],
+  '761111': [19.622, 84.7],
+  '761114': [19.69, 84.596],
+  '761115': [19.667, 84.637],
+  '761116': [19.687, 84.685],
+  '761117': [19.753, 84.711],
+  '761118': [19.813, 84.742],
+  '761119': [19.953, 84.658],
+  '761120': [19.907, 84.7],
+  '761121': [19.993, 84.794],
+  '761122': [19.739, 84.637],
+  '761123': [19.785, 84.596],
+  '761124': [19.856, 84.596],
+  '761125': [19.925, 84.533],
+  '761126': [19.956, 84.58],
+  '761131': [20.133, 84.711],
+  '761132': [20.031, 84.501],
+  '761133': [19.912, 84.582],
+  '761140': [19.91, 84.611],
+  '761141': [20.11, 84.559],
+  '761143': [19.9, 84.878],
+  '761144': [19.461, 84.664],
+  '761146': [19.485, 84.695],
+  '761151': [19.786, 84.249],
+  '761200': [18.768, 84.096],
+  '761201': [18.821, 84.091],
+  '761206': [18.932, 83.858],
+  '761207': [18.975, 84.08],
+  '761208': [18.876, 83.953],
+  '761209': [19.176, 84.459],
+  '761210': [18.801, 84.217],
+  '761211': [18.847, 84.154],
+  '761212': [18.934, 84.291],
+  '761213': [18.942, 84.154],
+  '761214': [19.117, 84.08],
+  '761215': [18.839, 84.291],
+  '761217': [19.519, 84.059],
+  '762001': [20.487, 84.259],
+  '762002': [20.492, 84.08],
+  '762010': [20.311, 84.333],
+  '762011': [20.37, 83.974],
+  '762012': [20.457, 84.459],
+  '762013': [20.66, 84.47],
+  '762014': [20.829, 84.207],
+  '762015': [20.777, 84.08],
+  '762016': [20.679, 83.996],
+  '762017': [20.577, 83.784],
+  '762018': [20.479, 83.699],
+  '762019': [20.32, 84.238],
+  '762020': [20.56, 84.711],
+  '762021': [19.686, 84.08],
+  '762022': [20.183, 84.428],
+  '762023': [20.552, 84.459],
+  '762024': [20.738, 84.333],
+  '762026': [20.641, 84.249],
+  '762027': [20.349, 84.407],
+  '762028': [20.221, 84.501],
+  '762029': [20.404, 84.291],
+  '762030': [20.721, 83.826],
+  '762100': [20.075, 84.375],
+  '762101': [19.977, 84.291],
+  '762102': [20.065, 84.08],
+  '762103': [19.988, 83.89],
+  '762104': [19.898, 84.059],
+  '762105': [19.795, 83.805],
+  '762106': [20.186, 84.144],
+  '762107': [19.884, 83.635],
+  '762109': [20.102, 83.784],
+  '762110': [20.269, 83.805],
+  '762112': [20.215, 84.291],
+  '763001': [18.746, 82.794],
+  '763002': [18.693, 82.799],
+  '763003': [18.739, 82.845],
+  '763004': [18.727, 82.829],
+  '763008': [18.758, 82.939],
+  '764001': [18.863, 82.569],
+  '764002': [18.961, 82.41],
+  '764003': [18.743, 82.551],
+  '764004': [18.872, 82.569],
+  '764005': [18.834, 82.486],
+  '764006': [18.875, 82.627],
+  '764011': [18.81, 82.611],
+  '764014': [18.918, 83.122],
+  '764020': [18.836, 82.686],
+  '764021': [18.81, 82.778],
+  '764027': [18.994, 83.272],
+  '764028': [19.003, 82.864],
+  '764036': [18.6, 82.843],
+  '764037': [18.618, 82.692],
+  '764038': [18.359, 82.713],
+  '764039': [18.439, 82.95],
+  '764040': [18.575, 82.486],
+  '764041': [18.496, 82.583],
+  '764042': [18.486, 82.323],
+  '764043': [18.793, 82.345],
+  '764044': [18.499, 82.084],
+  '764045': [18.468, 81.888],
+  '764046': [18.487, 82.22],
+  '764047': [18.108, 81.735],
+  '764048': [18.322, 81.801],
+  '764049': [19.361, 82.659],
+  '764051': [18.236, 81.975],
+  '764052': [18.122, 82.084],
+  '764055': [19.012, 82.497],
+  '764056': [19.063, 82.583],
+  '764057': [19.115, 82.713],
+  '764058': [19.098, 82.28],
+  '764059': [19.252, 82.583],
+  '764061': [19.285, 82.237],
+  '764063': [19.211, 82.464],
+  '764070': [19.304, 82.713],
+  '764071': [19.392, 82.54],
+  '764072': [19.525, 82.323],
+  '764073': [19.636, 82.171],
+  '764074': [19.916, 82.084],
+  '764075': [19.337, 82.367],
+  '764076': [19.648, 82.432],
+  '764077': [19.863, 82.497],
+  '764078': [19.198, 82.724],
+  '764081': [18.632, 82.454],
+  '764085': [19.295, 82.789],
+  '764086': [18.23, 81.844],
+  '764087': [17.912, 81.56],
+  '764088': [20.036, 81.981],
+  '765001': [19.144, 83.486],
+  '765002': [19.14, 83.358],
+  '765013': [18.938, 83.015],
+  '765015': [19.296, 83.122],
+  '765016': [19.517, 83.315],
+  '765017': [19.329, 83.358],
+  '765018': [19.345, 83.475],
+  '765019': [19.502, 83.55],
+  '765020': [19.602, 83.72],
+  '765021': [19.902, 83.486],
+  '765022': [19.064, 83.911],
+  '765023': [19.104, 83.699],
+  '765024': [19.248, 83.741],
+  '765025': [19.301, 83.911],
+  '765026': [19.416, 83.805],
+  '765029': [19.243, 83.614],
+  '765033': [19.17, 83.9],
+  '765034': [19.005, 83.746],
+  '766001': [19.857, 83.218],
+  '766002': [19.888, 83.101],
+  '766011': [20.058, 83.208],
+  '766012': [20.228, 83.315],
+  '766013': [19.606, 82.875],
+  '766014': [19.835, 82.972],
+  '766015': [19.828, 82.799],
+  '766016': [20.005, 82.767],
+  '766017': [19.693, 82.972],
+  '766018': [19.497, 82.799],
+  '766019': [19.59, 82.756],
+  '766020': [19.801, 83.315],
+  '766023': [19.771, 82.853],
+  '766026': [19.358, 82.886],
+  '766027': [19.703, 83.229],
+  '766028': [19.63, 82.583],
+  '766029': [19.974, 82.886],
+  '766031': [20.375, 83.443],
+  '766036': [20.119, 82.972],
+  '766037': [19.551, 82.972],
+  '766100': [20.067, 83.464],
+  '766101': [20.17, 83.368],
+  '766102': [20.263, 83.635],
+  '766103': [19.776, 82.67],
+  '766104': [20.911, 82.627],
+  '766105': [20.693, 82.519],
+  '766106': [20.503, 82.519],
+  '766107': [20.336, 82.767],
+  '766108': [20.056, 82.583],
+  '766110': [19.992, 83.358],
+  '766111': [20.314, 82.519],
+  '766118': [20.23, 82.778],
+  '767001': [20.715, 83.491],
+  '767002': [20.712, 83.571],
+  '767016': [20.716, 83.699],
+  '767017': [20.863, 83.826],
+  '767018': [20.943, 84.059],
+  '767019': [21.003, 83.741],
+  '767020': [20.865, 83.539],
+  '767021': [20.96, 83.539],
+  '767022': [21.024, 83.368],
+  '767023': [21.044, 83.571],
+  '767024': [20.739, 83.292],
+  '767025': [20.741, 83.101],
+  '767026': [20.593, 82.972],
+  '767027': [20.736, 82.972],
+  '767028': [20.827, 82.886],
+  '767029': [20.561, 83.358],
+  '767030': [20.458, 83.454],
+  '767032': [20.465, 83.315],
+  '767033': [20.27, 83.186],
+  '767035': [20.214, 82.972],
+  '767037': [20.409, 83.101],
+  '767038': [20.634, 82.799],
+  '767039': [20.449, 82.929],
+  '767040': [20.305, 82.886],
+  '767041': [20.756, 83.176],
+  '767042': [20.274, 83.127],
+  '767045': [21.109, 83.731],
+  '767046': [20.427, 83.571],
+  '767048': [20.704, 83.262],
+  '767060': [20.504, 82.81],
+  '767061': [20.944, 83.443],
+  '767062': [21.032, 83.89],
+  '767065': [20.802, 83.443],
+  '767066': [20.232, 83.111],
+  '767067': [20.568, 83.528],
+  '767068': [20.918, 83.709],
+  '767070': [20.356, 83.261],
+  '768001': [21.469, 83.99],
+  '768002': [21.473, 83.97],
+  '768003': [21.48, 83.959],
+  '768004': [21.489, 83.982],
+  '768005': [21.393, 84.038],
+  '768006': [21.449, 83.921],
+  '768016': [21.542, 83.879],
+  '768017': [21.498, 83.887],
+  '768018': [21.504, 83.903],
+  '768019': [21.477, 83.895],
+  '768020': [21.509, 83.876],
+  '768025': [21.4, 83.9],
+  '768026': [21.305, 83.9],
+  '768027': [21.432, 83.784],
+  '768028': [21.33, 83.614],
+  '768029': [21.188, 83.614],
+  '768030': [21.497, 83.635],
+  '768031': [21.575, 83.496],
+  '768032': [21.181, 83.443],
+  '768033': [21.275, 83.4],
+  '768034': [21.222, 83.272],
+  '768035': [21.08, 83.272],
+  '768036': [20.908, 83.122],
+  '768037': [20.939, 83.315],
+  '768038': [21.388, 83.582],
+  '768039': [20.969, 82.886],
+  '768040': [21.274, 83.688],
+  '768042': [21.083, 82.778],
+  '768045': [21.559, 83.4],
+  '768048': [21.095, 83.368],
+  '768049': [21.029, 83.186],
+  '768050': [20.867, 82.713],
+  '768052': [21.663, 83.614],
+  '768102': [21.304, 83.858],
+  '768103': [21.289, 83.784],
+  '768104': [21.182, 83.773],
+  '768105': [21.206, 84.122],
+  '768106': [21.166, 84.426],
+  '768107': [21.527, 84.368],
+  '768108': [21.538, 84.815],
+  '768109': [21.253, 84.815],
+  '768110': [21.546, 85.065],
+  '768111': [21.446, 83.858],
+  '768112': [21.447, 84.207],
+  '768113': [21.202, 83.996],
+  '768115': [21.161, 83.858],
+  '768118': [21.28, 84.554],
+  '768119': [21.508, 84.627],
+  '768121': [21.457, 84.501],
+  '768200': [21.537, 84.08],
+  '768201': [21.856, 84.027],
+  '768202': [21.807, 83.985],
+  '768203': [21.822, 84.08],
+  '768204': [21.904, 84.048],
+  '768211': [21.733, 83.9],
+  '768212': [21.703, 84.059],
+  '768213': [21.827, 84.207],
+  '768214': [21.684, 84.207],
+  '768215': [21.925, 84.291],
+  '768216': [21.864, 83.911],
+  '768217': [21.813, 83.826],
+  '768218': [21.797, 83.874],
+  '768219': [21.715, 83.741],
+  '768220': [21.967, 84.122],
+  '768221': [22.069, 84.333],
+  '768222': [21.736, 84.333],
+  '768224': [22.073, 84.459],
+  '768225': [21.805, 83.921],
+  '768226': [21.767, 83.539],
+  '768227': [21.742, 84.501],
+  '768228': [21.929, 84.417],
+  '768233': [21.826, 83.94],
+  '768234': [21.625, 83.869],
+  '769001': [22.226, 84.865],
+  '769002': [22.244, 84.859],
+  '769003': [22.255, 84.849],
+  '769004': [22.221, 84.81],
+  '769005': [22.262, 84.875],
+  '769006': [22.245, 84.885],
+  '769007': [22.19, 84.859],
+  '769008': [22.251, 84.911],
+  '769009': [22.258, 84.831],
+  '769010': [22.233, 84.885],
+  '769011': [22.194, 84.888],
+  '769012': [22.231, 84.839],
+  '769013': [22.233, 84.853],
+  '769014': [22.255, 84.895],
+  '769015': [22.254, 84.802],
+  '769016': [22.197, 84.845],
+  '769042': [22.261, 84.925],
+  '769043': [22.163, 84.852],
+  '770001': [22.112, 84.033],
+  '770002': [22.115, 83.964],
+  '770011': [22.09, 83.921],
+  '770012': [22.165, 83.72],
+  '770013': [21.997, 83.656],
+  '770014': [22.301, 84.165],
+  '770015': [22.293, 83.953],
+  '770016': [22.184, 84.228],
+  '770017': [22.101, 84.564],
+  '770018': [22.262, 84.417],
+  '770019': [21.976, 84.048],
+  '770020': [22.189, 84.027],
+  '770021': [22.005, 83.869],
+  '770022': [22.017, 84.207],
+  '770023': [22.278, 84.554],
+  '770024': [22.055, 83.624],
+  '770031': [22.178, 84.752],
+  '770032': [22.036, 85.158],
+  '770033': [22.364, 84.627],
+  '770034': [22.259, 84.679],
+  '770035': [22.424, 85.003],
+  '770036': [22.281, 85.003],
+  '770037': [22.014, 84.815],
+  '770038': [21.792, 84.951],
+  '770039': [22.323, 84.836],
+  '770040': [21.924, 84.982],
+  '770041': [21.809, 85.127],
+  '770042': [21.905, 85.169],
+  '770043': [21.821, 84.732],
+  '770044': [21.713, 85.086],
+  '770046': [22.401, 84.852],
+  '770048': [21.86, 85.252],
+  '770051': [21.705, 84.836],
+  '770052': [21.966, 85.2],
+  '770070': [22.212, 84.506],
+  '770072': [21.971, 83.921],
+  '770073': [22.06, 84.08],
+  '770074': [22.394, 84.122],
+  '770075': [21.856, 83.699],
+  '770076': [22.013, 83.773],
+  '781001': [26.176, 91.742],
+  '781003': [26.181, 91.776],
+  '781004': [26.213, 91.817],
+  '781005': [26.157, 91.795],
+  '781006': [26.159, 91.779],
+  '781007': [26.164, 91.761],
+  '781008': [26.171, 91.75],
+  '781009': [26.143, 91.72],
+  '781010': [26.164, 91.703],
+  '781011': [26.144, 91.691],
+  '781012': [26.121, 91.661],
+  '781013': [26.141, 91.654],
+  '781014': [26.153, 91.644],
+  '781015': [26.045, 91.55],
+  '781016': [26.16, 91.749],
+  '781017': [26.121, 91.613],
+  '781018': [26.091, 91.666],
+  '781019': [26.14, 91.771],
+  '781020': [26.189, 91.827],
+  '781021': [26.185, 91.794],
+  '781022': [26.107, 91.827],
+  '781023': [26.142, 91.827],
+  '781024': [26.176, 91.775],
+  '781025': [26.118, 91.876],
+  '781026': [26.159, 91.861],
+  '781027': [26.141, 91.915],
+  '781028': [26.122, 91.8],
+  '781029': [26.09, 91.764],
+  '781030': [26.244, 91.734],
+  '781031': [26.179, 91.681],
+  '781032': [26.152, 91.747],
+  '781034': [26.131, 91.749],
+  '781035': [26.043, 91.705],
+  '781036': [26.139, 91.805],
+  '781037': [26.127, 91.839],
+  '781038': [26.128, 91.781],
+  '781039': [26.162, 91.608],
+  '781040': [26.119, 91.768],
+  '781101': [26.28, 91.686],
+  '781102': [26.294, 91.502],
+  '781103': [26.187, 91.531],
+  '781104': [26.245, 91.618],
+  '781120': [25.904, 91.453],
+  '781121': [26.338, 91.773],
+  '781122': [26.116, 91.511],
+  '781123': [25.966, 91.193],
+  '781124': [25.964, 91.347],
+  '781125': [26.01, 91.463],
+  '781126': [26.247, 91.386],
+  '781127': [26.073, 91.049],
+  '781128': [26.122, 91.564],
+  '781129': [25.823, 91.231],
+  '781131': [25.858, 91.337],
+  '781132': [26.14, 91.453],
+  '781134': [26.118, 91.376],
+  '781135': [25.919, 91.078],
+  '781136': [26.108, 91.116],
+  '781137': [26.107, 91.27],
+  '781138': [26.283, 91.318],
+  '781141': [26.047, 91.318],
+  '781150': [26.288, 91.969],
+  '781171': [26.166, 91.817],
+  '781301': [26.31, 90.992],
+  '781302': [26.203, 91.078],
+  '781303': [26.395, 91.39],
+  '781304': [26.36, 91.332],
+  '781305': [26.261, 91.203],
+  '781306': [26.396, 91.294],
+  '781307': [26.343, 91.231],
+  '781308': [26.181, 90.868],
+  '781309': [26.262, 91.049],
+  '781310': [26.33, 91.414],
+  '781311': [26.332, 91.126],
+  '781312': [26.237, 91.26],
+  '781313': [26.451, 90.992],
+  '781314': [26.334, 90.953],
+  '781315': [26.629, 90.963],
+  '781316': [26.404, 90.973],
+  '781317': [26.535, 90.887],
+  '781318': [26.608, 91.094],
+  '781319': [26.393, 90.887],
+  '781321': [26.24, 90.744],
+  '781325': [26.545, 91.154],
+  '781326': [26.497, 91.241],
+  '781327': [26.686, 91.203],
+  '781328': [26.639, 91.183],
+  '781329': [26.589, 91.189],
+  '781330': [26.768, 91.193],
+  '781333': [26.566, 91.414],
+  '781334': [26.4, 91.453],
+  '781335': [26.445, 91.422],
+  '781337': [26.465, 91.477],
+  '781338': [26.349, 91.284],
+  '781339': [26.335, 91.458],
+  '781340': [26.489, 91.381],
+  '781341': [26.471, 91.414],
+  '781343': [26.637, 91.395],
+  '781344': [26.671, 91.463],
+  '781346': [26.519, 91.337],
+  '781347': [26.359, 91.487],
+  '781348': [26.359, 91.439],
+  '781349': [26.542, 91.472],
+  '781350': [26.376, 91.531],
+  '781351': [26.394, 91.487],
+  '781352': [26.439, 91.078],
+  '781353': [26.43, 91.41],
+  '781354': [26.469, 91.647],
+  '781355': [26.549, 91.304],
+  '781360': [26.765, 91.54],
+  '781364': [26.575, 91.696],
+  '781365': [26.446, 91.569],
+  '781366': [26.492, 91.725],
+  '781367': [26.623, 91.54],
+  '781368': [26.716, 91.657],
+  '781369': [26.47, 91.511],
+  '781370': [26.454, 91.342],
+  '781371': [26.496, 91.299],
+  '781372': [26.719, 91.386],
+  '781373': [26.691, 91.313],
+  '781374': [26.42, 91.255],
+  '781375': [26.419, 91.371],
+  '781376': [26.385, 91.509],
+  '781377': [26.626, 91.308],
+  '781378': [26.455, 91.284],
+  '781380': [26.351, 91.666],
+  '781381': [26.433, 91.734],
+  '781382': [26.304, 91.608],
+  '782001': [26.341, 92.703],
+  '782002': [26.36, 92.629],
+  '782003': [26.288, 92.708],
+  '782101': [26.448, 92.968],
+  '782102': [26.274, 92.798],
+  '782103': [26.231, 92.559],
+  '782104': [26.294, 92.352],
+  '782105': [26.237, 92.243],
+  '782106': [26.324, 92.337],
+  '782120': [26.52, 92.888],
+  '782121': [26.379, 92.204],
+  '782122': [26.42, 92.559],
+  '782123': [26.433, 92.49],
+  '782124': [26.465, 92.679],
+  '782125': [26.429, 92.748],
+  '782126': [26.422, 92.441],
+  '782127': [26.389, 92.332],
+  '782135': [26.308, 92.888],
+  '782136': [26.55, 93.158],
+  '782137': [26.542, 92.948],
+  '782138': [26.473, 92.908],
+  '782139': [26.411, 93.038],
+  '782140': [26.462, 92.838],
+  '782141': [26.357, 92.788],
+  '782142': [26.313, 92.609],
+  '782143': [26.602, 92.918],
+  '782144': [26.235, 92.693],
+  '782401': [26.157, 92.018],
+  '782402': [26.052, 91.929],
+  '782403': [26.109, 92.116],
+  '782410': [25.953, 92.243],
+  '782411': [26.239, 92.086],
+  '782412': [26.14, 92.362],
+  '782413': [26.315, 92.49],
+  '782425': [26.137, 92.559],
+  '782426': [26.04, 92.679],
+  '782427': [26.193, 92.748],
+  '782428': [26.098, 92.728],
+  '782429': [26.074, 92.768],
+  '782435': [26.002, 92.828],
+  '782439': [26.069, 93.008],
+  '782440': [26.132, 92.838],
+  '782441': [26.431, 93.218],
+  '782442': [25.977, 92.908],
+  '782445': [25.939, 93.038],
+  '782446': [25.846, 92.958],
+  '782447': [25.794, 93.198],
+  '782448': [25.779, 92.738],
+  '782450': [25.997, 92.48],
+  '782460': [25.883, 93.399],
+  '782461': [25.933, 93.319],
+  '782462': [25.671, 93.379],
+  '782470': [26.325, 93.703],
+  '782480': [25.949, 93.622],
+  '782481': [26.244, 93.138],
+  '782482': [26.144, 93.379],
+  '782485': [25.945, 92.718],
+  '782486': [25.879, 92.421],
+  '782490': [26.115, 93.602],
+  '783101': [26.159, 90.545],
+  '783120': [26.064, 90.469],
+  '783121': [26.123, 90.611],
+  '783122': [25.951, 90.787],
+  '783123': [25.92, 91.001],
+  '783124': [26.004, 90.782],
+  '783125': [26.075, 90.801],
+  '783126': [26.016, 90.658],
+  '783127': [25.876, 89.981],
+  '783128': [25.828, 89.869],
+  '783129': [26.017, 90.281],
+  '783130': [26.015, 90.963],
+  '783131': [25.592, 89.944],
+  '783132': [26.112, 90.243],
+  '783133': [26.023, 90.512],
+  '783134': [25.92, 90.887],
+  '783135': [25.675, 89.897],
+  '783301': [26.015, 89.984],
+  '783323': [25.959, 89.935],
+  '783324': [26.018, 89.869],
+  '783325': [26.301, 90.356],
+  '783330': [26.018, 90.093],
+  '783331': [26.112, 89.944],
+  '783332': [26.337, 89.841],
+  '783333': [26.396, 89.907],
+  '783334': [26.278, 89.963],
+  '783335': [26.254, 89.794],
+  '783336': [26.478, 90.084],
+  '783337': [26.36, 90.103],
+  '783339': [26.124, 90.028],
+  '783345': [26.301, 90.206],
+  '783346': [26.537, 90.131],
+  '783347': [26.478, 90.178],
+  '783348': [26.207, 90.243],
+  '783349': [26.207, 90.093],
+  '783350': [26.585, 90.056],
+  '783354': [26.425, 90.164],
+  '783360': [26.431, 89.991],
+  '783361': [26.585, 89.981],
+  '783369': [26.502, 90.365],
+  '783370': [26.655, 90.262],
+  '783371': [26.265, 90.422],
+  '783372': [26.407, 90.403],
+  '783373': [26.549, 90.403],
+  '783375': [26.725, 90.431],
+  '783376': [26.407, 90.347],
+  '783380': [26.477, 90.573],
+  '783381': [26.483, 90.493],
+  '783382': [26.241, 90.63],
+  '783383': [26.394, 90.658],
+  '783384': [26.395, 90.507],
+  '783385': [26.525, 90.516],
+  '783388': [26.206, 90.469],
+  '783389': [26.265, 90.554],
+  '783390': [26.653, 90.791],
+  '783391': [26.523, 90.82],
+  '783392': [26.453, 90.801],
+  '783393': [26.678, 90.583],
+  '783394': [26.584, 90.545],
+  '784001': [26.616, 92.808],
+  '784010': [26.616, 92.808],
+  '784025': [26.668, 92.853],
+  '784026': [26.733, 92.848],
+  '784027': [26.639, 92.848],
+  '784028': [26.692, 92.823],
+  '784101': [26.829, 92.748],
+  '784102': [26.935, 92.758],
+  '784103': [26.854, 92.669],
+  '784104': [26.926, 92.609],
+  '784105': [26.746, 92.798],
+  '784110': [26.658, 92.441],
+  '784111': [26.823, 92.421],
+  '784112': [26.707, 92.362],
+  '784113': [26.519, 92.322],
+  '784114': [26.661, 92.283],
+  '784115': [26.473, 92.204],
+  '784116': [26.58, 92.194],
+  '784117': [26.738, 92.569],
+  '784125': [26.381, 92.086],
+  '784144': [26.466, 91.881],
+  '784145': [26.337, 91.851],
+  '784146': [26.487, 92.057],
+  '784147': [26.513, 91.92],
+  '784148': [26.443, 91.803],
+  '784149': [26.668, 92.569],
+  '784150': [26.641, 92.728],
+  '784153': [26.689, 92.688],
+  '784154': [26.642, 92.669],
+  '784160': [27.143, 93.886],
+  '784161': [27.037, 93.896],
+  '784163': [27.068, 93.85],
+  '784164': [26.943, 93.896],
+  '784165': [26.911, 93.804],
+  '784166': [26.767, 93.43],
+  '784167': [26.735, 93.319],
+  '784168': [26.821, 93.642],
+  '784169': [26.83, 93.754],
+  '784170': [26.814, 93.45],
+  '784171': [26.914, 93.455],
+  '784172': [26.777, 93.521],
+  '784173': [26.562, 92.559],
+  '784174': [26.833, 93.118],
+  '784175': [26.693, 93.078],
+  '784176': [26.737, 93.198],
+  '784177': [26.643, 93.198],
+  '784178': [26.902, 93.693],
+  '784179': [26.909, 93.389],
+  '784180': [26.708, 92.908],
+  '784182': [26.884, 92.958],
+  '784184': [26.878, 93.238],
+  '784189': [26.731, 92.968],
+  '784190': [26.534, 92.096],
+  '784501': [26.669, 92.783],
+  '784502': [26.713, 92.649],
+  '784504': [26.784, 92.629],
+  '784505': [26.783, 92.688],
+  '784506': [26.844, 92.559],
+  '784507': [26.849, 92.283],
+  '784508': [26.709, 92.204],
+  '784509': [26.758, 92.086],
+  '784510': [26.724, 91.978],
+  '784513': [26.821, 92.179],
+  '784514': [26.617, 92.086],
+  '784521': [26.696, 91.905],
+  '784522': [26.621, 91.773],
+  '784523': [26.761, 91.89],
+  '784524': [26.819, 91.939],
+  '784525': [26.606, 91.978],
+  '784526': [26.762, 91.812],
+  '784527': [26.751, 91.764],
+  '784528': [26.631, 91.861],
+  '784529': [26.465, 91.978],
+  '785001': [26.765, 94.167],
+  '785004': [26.699, 94.203],
+  '785006': [26.724, 94.162],
+  '785007': [26.721, 94.285],
+  '785008': [26.716, 94.238],
+  '785009': [26.681, 94.128],
+  '785010': [26.769, 94.244],
+  '785013': [26.725, 94.194],
+  '785014': [26.488, 94.182],
+  '785015': [26.756, 94.085],
+  '785101': [26.816, 94.223],
+  '785102': [26.886, 94.244],
+  '785104': [26.993, 94.213],
+  '785105': [27.048, 94.326],
+  '785106': [26.9, 94.172],
+  '785107': [26.787, 94.408],
+  '785108': [26.812, 93.967],
+  '785110': [27.034, 94.418],
+  '785111': [26.838, 94.285],
+  '785112': [26.858, 94.408],
+  '785601': [26.037, 93.866],
+  '785602': [26.295, 93.927],
+  '785603': [26.34, 94.008],
+  '785609': [26.591, 93.399],
+  '785610': [26.446, 94.018],
+  '785611': [26.663, 93.835],
+  '785612': [26.635, 93.561],
+  '785613': [26.523, 93.794],
+  '785614': [26.72, 93.886],
+  '785615': [26.62, 93.672],
+  '785616': [26.673, 94.105],
+  '785618': [26.658, 94.018],
+  '785619': [26.723, 93.764],
+  '785621': [26.541, 93.978],
+  '785622': [26.612, 93.957],
+  '785625': [26.527, 94.049],
+  '785626': [26.609, 94.059],
+  '785630': [26.617, 94.213],
+  '785631': [26.443, 94.1],
+  '785632': [26.56, 94.141],
+  '785633': [26.555, 94.326],
+  '785634': [26.6, 94.387],
+  '785635': [26.705, 94.418],
+  '785636': [26.737, 94.511],
+  '785640': [26.986, 94.64],
+  '785661': [26.9, 94.552],
+  '785662': [27.082, 94.738],
+  '785663': [27.039, 94.614],
+  '785664': [26.949, 94.511],
+  '785665': [26.94, 94.599],
+  '785666': [26.902, 94.615],
+  '785667': [26.995, 94.532],
+  '785669': [27.283, 94.878],
+  '785670': [27.121, 94.987],
+  '785671': [27.212, 94.707],
+  '785672': [27.12, 94.666],
+  '785673': [27.076, 94.925],
+  '785674': [27.033, 94.8],
+  '785675': [27.208, 94.831],
+  '785676': [27.296, 94.997],
+  '785680': [26.804, 94.614],
+  '785681': [26.765, 94.557],
+  '785682': [26.904, 94.449],
+  '785683': [26.855, 94.511],
+  '785684': [26.87, 94.612],
+  '785685': [26.942, 94.717],
+  '785686': [26.939, 94.8],
+  '785687': [26.891, 94.821],
+  '785688': [27.007, 94.883],
+  '785689': [26.968, 94.997],
+  '785690': [27, 95.07],
+  '785691': [27.059, 95.081],
+  '785692': [27.066, 95.195],
+  '785693': [27.145, 95.289],
+  '785696': [26.79, 94.707],
+  '785697': [26.944, 94.655],
+  '785698': [26.98, 94.795],
+  '785699': [26.601, 93.738],
+  '785700': [26.813, 94.326],
+  '785701': [27.007, 94.712],
+  '785702': [26.485, 93.886],
+  '785703': [26.752, 94.018],
+  '785704': [26.651, 94.264],
+  '785705': [27.136, 95.216],
+  '786001': [27.487, 94.914],
+  '786002': [27.479, 94.961],
+  '786003': [27.462, 94.911],
+  '786004': [27.428, 94.904],
+  '786005': [27.5, 94.948],
+  '786006': [27.382, 94.883],
+  '786007': [27.305, 94.748],
+  '786008': [27.432, 94.8],
+  '786010': [27.437, 94.997],
+  '786012': [27.53, 94.997],
+  '786101': [27.574, 95.081],
+  '786102': [27.461, 95.128],
+  '786103': [27.387, 95.081],
+  '786125': [27.499, 95.368],
+  '786126': [27.512, 95.347],
+  '786145': [27.468, 95.334],
+  '786146': [27.463, 95.389],
+  '786147': [27.551, 95.383],
+  '786150': [27.7, 95.457],
+  '786151': [27.662, 95.53],
+  '786152': [27.631, 95.719],
+  '786153': [27.597, 95.567],
+  '786154': [27.739, 95.667],
+  '786155': [27.858, 95.604],
+  '786156': [27.612, 95.614],
+  '786157': [27.874, 95.793],
+  '786158': [27.554, 95.321],
+  '786159': [27.543, 95.593],
+  '786160': [27.548, 95.751],
+  '786170': [27.56, 95.457],
+  '786171': [27.394, 95.52],
+  '786173': [27.328, 95.698],
+  '786174': [27.408, 95.751],
+  '786179': [27.299, 95.825],
+  '786181': [27.261, 95.614],
+  '786182': [27.303, 95.741],
+  '786183': [27.473, 95.289],
+  '786184': [27.571, 95.164],
+  '786187': [27.303, 95.598],
+  '786188': [27.354, 95.92],
+  '786189': [27.55, 95.253],
+  '786190': [27.522, 95.53],
+  '786191': [27.327, 95.415],
+  '786192': [27.501, 95.326],
+  '786601': [27.623, 95.342],
+  '786602': [27.344, 95.279],
+  '786610': [27.272, 95.342],
+  '786611': [27.163, 95.112],
+  '786612': [27.243, 95.164],
+  '786613': [27.202, 94.997],
+  '786614': [27.222, 95.425],
+  '786621': [27.226, 95.3],
+  '786622': [27.471, 94.938],
+  '786623': [27.14, 95.415],
+  '786692': [27.372, 95.315],
+  '787001': [27.237, 94.116],
+  '787023': [27.106, 93.957],
+  '787026': [27.456, 94.418],
+  '787031': [27.234, 94.008],
+  '787032': [27.37, 94.172],
+  '787034': [27.472, 94.305],
+  '787035': [27.553, 94.336],
+  '787051': [27.279, 94.09],
+  '787052': [27.137, 94.131],
+  '787053': [27.272, 94.295],
+  '787054': [27.045, 94.049],
+  '787055': [27.22, 94.459],
+  '787056': [27.427, 94.223],
+  '787057': [27.523, 94.521],
+  '787058': [27.36, 94.501],
+  '787059': [27.609, 94.769],
+  '787060': [27.778, 95.268],
+  '787061': [27.697, 94.935],
+  '787110': [27.495, 94.666],
+  '788001': [24.823, 92.802],
+  '788002': [24.889, 92.828],
+  '788003': [24.861, 92.783],
+  '788004': [24.814, 92.799],
+  '788005': [24.809, 92.794],
+  '788006': [24.812, 92.823],
+  '788007': [24.824, 92.784],
+  '788009': [24.835, 92.873],
+  '788010': [24.796, 92.728],
+  '788011': [24.701, 92.748],
+  '788013': [24.753, 92.833],
+  '788014': [24.768, 92.805],
+  '788015': [24.786, 92.8],
+  '788025': [24.892, 92.669],
+  '788026': [24.844, 92.708],
+  '788030': [24.936, 92.868],
+  '788031': [24.888, 92.928],
+  '788098': [24.839, 92.988],
+  '788099': [24.613, 92.998],
+  '788101': [24.793, 92.928],
+  '788102': [24.886, 93.028],
+  '788103': [24.797, 92.983],
+  '788104': [24.836, 93.148],
+  '788106': [24.766, 93.068],
+  '788107': [24.919, 93.138],
+  '788108': [24.957, 93.028],
+  '788109': [24.916, 92.983],
+  '788110': [24.962, 92.728],
+  '788111': [24.938, 92.788],
+  '788112': [24.637, 92.693],
+  '788113': [24.618, 92.758],
+  '788114': [24.581, 92.808],
+  '788115': [24.652, 92.848],
+  '788116': [24.603, 92.908],
+  '788117': [24.702, 92.708],
+  '788118': [24.754, 92.783],
+  '788119': [24.722, 92.908],
+  '788120': [24.449, 92.898],
+  '788121': [24.693, 92.863],
+  '788123': [24.677, 92.788],
+  '788126': [24.708, 92.998],
+  '788127': [24.918, 92.716],
+  '788150': [24.775, 92.569],
+  '788151': [24.678, 92.552],
+  '788152': [24.728, 92.55],
+  '788155': [24.68, 92.609],
+  '788156': [24.706, 92.47],
+  '788160': [24.614, 92.634],
+  '788161': [24.48, 92.52],
+  '788162': [24.242, 92.52],
+  '788163': [24.478, 92.639],
+  '788164': [24.67, 92.52],
+  '788165': [24.383, 92.599],
+  '788166': [24.611, 92.47],
+  '788168': [24.609, 92.569],
+  '788701': [24.813, 92.48],
+  '788709': [24.88, 92.317],
+  '788710': [24.868, 92.357],
+  '788711': [24.844, 92.347],
+  '788712': [24.875, 92.293],
+  '788713': [24.826, 92.391],
+  '788719': [24.708, 92.312],
+  '788720': [24.754, 92.411],
+  '788722': [24.779, 92.332],
+  '788723': [24.683, 92.391],
+  '788724': [24.637, 92.332],
+  '788725': [24.543, 92.273],
+  '788726': [24.471, 92.312],
+  '788727': [24.4, 92.312],
+  '788728': [24.293, 92.283],
+  '788733': [24.636, 92.411],
+  '788734': [24.516, 92.47],
+  '788735': [24.577, 92.362],
+  '788736': [24.433, 92.441],
+  '788737': [24.339, 92.401],
+  '788781': [24.834, 92.278],
+  '788801': [24.798, 92.629],
+  '788802': [24.864, 92.594],
+  '788803': [24.867, 92.577],
+  '788804': [25.061, 92.51],
+  '788805': [24.894, 92.55],
+  '788806': [24.853, 92.525],
+  '788815': [25.001, 92.559],
+  '788816': [24.991, 92.47],
+  '788817': [25.046, 92.679],
+  '788818': [25.186, 92.838],
+  '788819': [25.229, 93.038],
+  '788820': [24.994, 92.958],
+  '788830': [25.107, 93.218],
+  '788831': [25.389, 93.299],
+  '788832': [25.584, 93.058],
+  '788931': [25.494, 92.818],
+  '791102': [28.116, 94.977],
+  '791104': [28.145, 95.436],
+  '791123': [26.962, 93.642],
+  '792001': [28.02, 96.195],
+  '792055': [27.236, 96.964],
+  '792056': [27.494, 95.92],
+  '792102': [27.825, 96.365],
+  '792103': [27.65, 96.11],
+  '792104': [28.036, 96.835],
+  '792105': [27.603, 95.846],
+  '792110': [28.269, 95.814],
+  '792111': [27.867, 95.962],
+  '792120': [27.102, 95.772],
+  '792121': [27.293, 95.973],
+  '792122': [27.492, 96.493],
+  '792123': [27.255, 96.047],
+  '792129': [27.18, 95.583],
+  '792130': [27.022, 95.436],
+  '792131': [26.837, 95.352],
+  '793001': [25.577, 91.888],
+  '793002': [25.583, 91.859],
+  '793003': [25.571, 91.898],
+  '793004': [25.55, 91.866],
+  '793005': [25.539, 91.837],
+  '793006': [25.576, 91.922],
+  '793007': [25.573, 91.944],
+  '793008': [25.6, 91.893],
+  '793009': [25.592, 91.822],
+  '793010': [25.515, 91.876],
+  '793011': [25.578, 91.899],
+  '793012': [25.625, 92.047],
+  '793014': [25.559, 91.903],
+  '793015': [25.412, 92.027],
+  '793016': [25.584, 92.013],
+  '793017': [25.598, 91.866],
+  '793018': [25.588, 91.942],
+  '793019': [25.594, 91.912],
+  '793021': [25.548, 92.013],
+  '793022': [25.638, 91.92],
+  '793101': [26.049, 92.165],
+  '793102': [25.887, 91.871],
+  '793103': [25.719, 92.086],
+  '793104': [25.71, 91.861],
+  '793105': [25.884, 92.106],
+  '793106': [25.207, 91.347],
+  '793107': [25.161, 91.73],
+  '793108': [25.25, 91.734],
+  '793109': [25.246, 92.047],
+  '793110': [25.296, 91.851],
+  '793111': [25.345, 91.734],
+  '793112': [25.191, 91.686],
+  '793113': [25.228, 91.56],
+  '793114': [25.348, 91.386],
+  '793115': [25.522, 91.744],
+  '793119': [25.564, 91.135],
+  '793120': [25.701, 91.637],
+  '793121': [25.417, 91.637],
+  '793122': [25.663, 91.881],
+  '793123': [25.915, 91.579],
+  '793150': [25.219, 92.263],
+  '793151': [25.621, 92.283],
+  '793160': [25.384, 92.322],
+  '793200': [25.309, 92.579],
+  '793210': [25.194, 92.362],
+  '794001': [25.497, 90.281],
+  '794002': [25.922, 90.469],
+  '794005': [25.426, 90.112],
+  '794101': [25.509, 90.178],
+  '794102': [25.235, 90.564],
+  '794103': [25.26, 90.243],
+  '794104': [25.829, 90.056],
+  '794105': [25.615, 90.112],
+  '794106': [25.355, 89.869],
+  '794107': [25.779, 90.887],
+  '794108': [25.828, 90.545],
+  '794109': [25.804, 90.337],
+  '794110': [25.803, 90.715],
+  '794111': [25.614, 90.639],
+  '794112': [25.544, 90.507],
+  '794114': [25.329, 90.715],
+  '794115': [25.426, 89.963],
+  '795001': [24.814, 93.939],
+  '795002': [24.864, 93.937],
+  '795003': [24.752, 93.932],
+  '795004': [24.812, 93.911],
+  '795005': [24.839, 94.018],
+  '795006': [24.338, 93.682],
+  '795007': [25.342, 94.213],
+  '795008': [24.745, 93.978],
+  '795009': [24.7, 93.896],
+  '795010': [24.885, 94.039],
+  '795015': [25.428, 94.121],
+  '795101': [24.321, 93.876],
+  '795102': [24.046, 93.947],
+  '795103': [24.497, 93.927],
+  '795104': [25.479, 94.377],
+  '795106': [25.337, 93.978],
+  '795107': [25.019, 93.927],
+  '795112': [25.21, 93.845],
+  '795113': [24.784, 93.845],
+  '795114': [24.933, 94.018],
+  '795115': [24.889, 93.896],
+  '795116': [24.717, 93.128],
+  '795117': [24.311, 93.764],
+  '795118': [25.014, 94.09],
+  '795122': [25.102, 93.896],
+  '795124': [24.586, 93.713],
+  '795125': [25.097, 93.622],
+  '795126': [24.584, 93.774],
+  '795127': [24.303, 94.09],
+  '795128': [24.439, 93.379],
+  '795129': [25.179, 94.11],
+  '795130': [24.697, 93.978],
+  '795131': [24.393, 94.254],
+  '795132': [24.593, 93.886],
+  '795133': [24.453, 93.804],
+  '795134': [24.702, 93.815],
+  '795135': [24.445, 94.09],
+  '795136': [24.943, 93.881],
+  '795138': [24.626, 93.998],
+  '795139': [24.149, 93.622],
+  '795140': [24.776, 93.901],
+  '795141': [25.008, 93.379],
+  '795142': [25.311, 94.48],
+  '795143': [24.158, 93.218],
+  '795144': [25.21, 94.285],
+  '795145': [24.747, 94.315],
+  '795146': [24.904, 93.784],
+  '795147': [24.631, 93.299],
+  '795148': [24.577, 94.039],
+  '795149': [24.73, 94.09],
+  '795150': [25.491, 93.967],
+  '795159': [24.718, 93.622],
+  '796001': [23.725, 92.716],
+  '796004': [23.737, 92.666],
+  '796005': [23.668, 92.718],
+  '796007': [23.742, 92.736],
+  '796008': [23.735, 92.734],
+  '796009': [23.776, 92.669],
+  '796012': [23.748, 92.726],
+  '796014': [23.858, 92.758],
+  '796017': [23.903, 92.878],
+  '796070': [24.097, 92.639],
+  '796081': [24.285, 92.758],
+  '796082': [24.204, 92.688],
+  '796091': [24.322, 92.688],
+  '796101': [24.38, 92.758],
+  '796111': [24.187, 92.958],
+  '796161': [23.498, 92.898],
+  '796181': [23.308, 92.898],
+  '796184': [23.13, 93.057],
+  '796186': [23.287, 92.718],
+  '796190': [23.478, 92.718],
+  '796261': [23.876, 93.058],
+  '796290': [23.871, 93.299],
+  '796310': [23.494, 93.138],
+  '796320': [23.205, 93.299],
+  '796321': [23.681, 93.299],
+  '796370': [23.185, 93.118],
+  '796410': [23.908, 92.599],
+  '796421': [23.842, 92.614],
+  '796431': [23.602, 92.421],
+  '796441': [23.887, 92.421],
+  '796471': [24.15, 92.362],
+  '796501': [23.599, 92.579],
+  '796571': [22.926, 92.978],
+  '796581': [22.888, 93.088],
+  '796691': [23.024, 92.818],
+  '796701': [22.738, 92.818],
+  '796710': [23.22, 92.5],
+  '796730': [22.836, 92.659],
+  '796751': [22.959, 92.441],
+  '796770': [22.623, 92.599],
+  '796891': [22.311, 92.698],
+  '796901': [22.543, 93.058],
+  '797001': [25.673, 94.108],
+  '797002': [25.68, 93.967],
+  '797003': [25.71, 94.162],
+  '797004': [25.712, 94.08],
+  '797005': [25.582, 94.09],
+  '797100': [26.309, 94.274],
+  '797101': [25.382, 93.622],
+  '797102': [25.656, 94.387],
+  '797103': [25.791, 93.794],
+  '797104': [25.81, 94.377],
+  '797105': [25.769, 94.172],
+  '797106': [25.731, 93.845],
+  '797107': [25.648, 94.274],
+  '797108': [25.711, 94.542],
+  '797109': [25.931, 94.274],
+  '797110': [25.573, 93.541],
+  '797111': [26.125, 94.11],
+  '797112': [25.736, 93.642],
+  '797113': [25.905, 93.708],
+  '797114': [25.635, 94.686],
+  '797115': [25.839, 93.754],
+  '797116': [25.933, 93.774],
+  '797117': [25.925, 93.741],
+  '797121': [25.679, 94.098],
+  '798601': [26.234, 94.418],
+  '798602': [26.916, 95.122],
+  '798603': [26.379, 95.018],
+  '798604': [26.515, 94.459],
+  '798611': [25.819, 94.852],
+  '798612': [26.102, 94.852],
+  '798613': [26.647, 94.748],
+  '798614': [26.414, 94.666],
+  '798615': [26.43, 94.552],
+  '798616': [26.27, 94.748],
+  '798617': [26.361, 94.49],
+  '798618': [26.652, 94.583],
+  '798619': [26.137, 94.501],
+  '798620': [26.018, 94.521],
+  '798621': [26.752, 95.102],
+  '798622': [26.784, 94.873],
+  '798623': [26.708, 94.697],
+  '798625': [26.456, 94.831],
+  '798626': [26.096, 95.018],
+  '798627': [26.226, 94.485],
+  '799001': [23.826, 91.282],
+  '799002': [23.85, 91.272],
+  '799003': [23.8, 91.246],
+  '799004': [23.793, 91.337],
+  '799005': [23.846, 91.288],
+  '799006': [23.871, 91.313],
+  '799007': [23.838, 91.296],
+  '799008': [23.858, 91.381],
+  '799009': [23.883, 91.255],
+  '799010': [23.856, 91.282],
+  '799012': [23.907, 91.284],
+  '799013': [23.494, 91.502],
+  '799014': [23.785, 91.263],
+  '799015': [23.097, 91.361],
+  '799022': [23.761, 91.258],
+  '799035': [23.793, 91.414],
+  '799045': [23.779, 91.54],
+  '799046': [23.849, 91.427],
+  '799101': [23.611, 91.715],
+  '799102': [23.639, 91.27],
+  '799103': [23.638, 91.386],
+  '799104': [23.396, 91.773],
+  '799105': [23.447, 91.424],
+  '799114': [23.637, 91.54],
+  '799115': [23.496, 91.347],
+  '799120': [23.577, 91.511],
+  '799125': [23.399, 91.54],
+  '799130': [23.746, 91.299],
+  '799131': [23.353, 91.347],
+  '799141': [23.207, 91.657],
+  '799142': [23.243, 91.589],
+  '799143': [23.052, 91.628],
+  '799144': [23.35, 91.657],
+  '799145': [23.051, 91.725],
+  '799150': [23.269, 91.376],
+  '799153': [23.246, 91.337],
+  '799155': [23.256, 91.502],
+  '799156': [23.077, 91.569],
+  '799157': [23.15, 91.357],
+  '799201': [24.064, 91.657],
+  '799202': [24.07, 91.613],
+  '799203': [23.874, 91.618],
+  '799204': [23.925, 91.807],
+  '799205': [23.825, 91.696],
+  '799207': [24.004, 91.666],
+  '799210': [23.912, 91.376],
+  '799211': [23.971, 91.463],
+  '799212': [24.066, 91.424],
+  '799250': [24.384, 92.189],
+  '799251': [24.425, 92.194],
+  '799253': [24.348, 92.209],
+  '799254': [24.344, 92.086],
+  '799256': [24.151, 92.283],
+  '799260': [24.248, 92.165],
+  '799261': [24.473, 92.194],
+  '799262': [24.395, 92.238],
+  '799263': [24.152, 92.165],
+  '799264': [24.058, 92.125],
+  '799266': [24.059, 92.047],
+  '799269': [24.008, 92.283],
+  '799270': [24.069, 92.214],
+  '799271': [23.867, 92.204],
+  '799273': [23.798, 92.027],
+  '799275': [24.012, 91.969],
+  '799277': [24.309, 91.978],
+  '799278': [24.013, 91.89],
+  '799279': [24.309, 92.018],
+  '799280': [24.249, 92.047],
+  '799281': [24.362, 92.013],
+  '799284': [23.633, 91.851],
+  '799285': [24.193, 91.822],
+  '799286': [24.062, 91.812],
+  '799287': [24.145, 91.803],
+  '799288': [24.12, 91.959],
+  '799289': [23.8, 91.871],
+  '799290': [24.167, 91.978],
+  '800001': [25.623, 85.132],
+  '800002': [25.575, 85.101],
+  '800003': [25.608, 85.152],
+  '800004': [25.616, 85.161],
+  '800005': [25.621, 85.165],
+  '800006': [25.616, 85.182],
+  '800007': [25.503, 85.175],
+  '800008': [25.591, 85.236],
+  '800009': [25.557, 85.257],
+  '800010': [25.646, 85.112],
+  '800011': [25.699, 85.086],
+  '800012': [25.642, 85.062],
+  '800013': [25.627, 85.11],
+  '800014': [25.595, 85.083],
+  '800015': [25.601, 85.118],
+  '800016': [25.605, 85.167],
+  '800017': [25.613, 85.137],
+  '800018': [25.648, 85.073],
+  '800019': [25.607, 85.144],
+  '800020': [25.577, 85.143],
+  '800021': [25.61, 85.128],
+  '800022': [25.6, 85.1],
+  '800023': [25.606, 85.103],
+  '800024': [25.631, 85.093],
+  '800025': [25.619, 85.073],
+  '800026': [25.592, 85.171],
+  '800027': [25.58, 85.166],
+  '800028': [25.608, 85.123],
+  '800029': [25.614, 85.104],
+  '801102': [25.407, 84.836],
+  '801103': [25.584, 84.846],
+  '801104': [25.444, 84.888],
+  '801105': [25.543, 85.013],
+  '801108': [25.633, 84.888],
+  '801109': [25.494, 84.971],
+  '801110': [25.309, 84.752],
+  '801111': [25.611, 84.93],
+  '801112': [25.5, 84.794],
+  '801113': [25.589, 84.992],
+  '801301': [25.184, 85.252],
+  '801302': [25.314, 85.241],
+  '801303': [25.089, 85.252],
+  '801304': [25.385, 85.241],
+  '801305': [25.39, 85.407],
+  '801306': [25.247, 85.195],
+  '801307': [25.301, 85.381],
+  '801501': [25.466, 84.938],
+  '801503': [25.637, 85.013],
+  '801505': [25.545, 85.075],
+  '801506': [25.595, 85.062],
+  '801507': [25.552, 85.042],
+  '802101': [25.557, 83.969],
+  '802102': [25.526, 83.943],
+  '802103': [25.529, 84.006],
+  '802111': [25.584, 84.217],
+  '802112': [25.619, 84.338],
+  '802113': [25.535, 84.317],
+  '802114': [25.428, 83.858],
+  '802115': [25.481, 84.291],
+  '802116': [25.577, 84.027],
+  '802117': [25.328, 83.996],
+  '802118': [25.621, 84.107],
+  '802119': [25.535, 84.175],
+  '802120': [25.612, 84.159],
+  '802122': [25.384, 83.921],
+  '802123': [25.469, 83.996],
+  '802125': [25.397, 84.259],
+  '802126': [25.487, 84.133],
+  '802127': [25.489, 84.196],
+  '802128': [25.358, 83.879],
+  '802129': [25.393, 84.154],
+  '802130': [25.668, 84.249],
+  '802131': [25.699, 84.133],
+  '802132': [25.319, 83.784],
+  '802133': [25.579, 84.091],
+  '802134': [25.564, 84.302],
+  '802135': [25.656, 84.096],
+  '802136': [25.525, 84.136],
+  '802152': [25.541, 84.475],
+  '802154': [25.589, 84.496],
+  '802155': [25.4, 84.344],
+  '802156': [25.645, 84.575],
+  '802157': [25.567, 84.538],
+  '802158': [25.486, 84.417],
+  '802159': [25.379, 84.407],
+  '802160': [25.588, 84.779],
+  '802161': [25.532, 84.721],
+  '802162': [25.502, 84.533],
+  '802163': [25.635, 84.779],
+  '802164': [25.402, 84.711],
+  '802165': [25.614, 84.386],
+  '802166': [25.686, 84.407],
+  '802183': [25.545, 84.428],
+  '802201': [25.364, 84.637],
+  '802202': [25.32, 84.331],
+  '802203': [25.385, 84.554],
+  '802204': [25.277, 84.359],
+  '802205': [25.212, 84.365],
+  '802206': [25.435, 84.637],
+  '802207': [25.331, 84.386],
+  '802208': [25.291, 84.575],
+  '802209': [25.191, 84.451],
+  '802210': [25.48, 84.575],
+  '802211': [25.334, 84.165],
+  '802212': [25.196, 84.249],
+  '802213': [25.186, 83.996],
+  '802214': [25.14, 84.323],
+  '802215': [25.093, 84.038],
+  '802216': [25.326, 84.259],
+  '802217': [25.32, 84.091],
+  '802218': [25.191, 84.122],
+  '802219': [25.701, 84.805],
+  '802220': [25.11, 84.175],
+  '802221': [25.277, 84.196],
+  '802222': [25.25, 84.412],
+  '802223': [25.358, 84.47],
+  '802226': [25.261, 84.254],
+  '802301': [25.577, 84.658],
+  '802302': [25.539, 84.651],
+  '802311': [25.651, 84.742],
+  '802312': [25.552, 84.596],
+  '802313': [25.625, 84.658],
+  '802314': [25.604, 84.742],
+  '802316': [25.695, 84.658],
+  '802351': [25.618, 84.491],
+  '802352': [25.485, 84.721],
+  '803101': [25.184, 85.633],
+  '803107': [25.28, 85.674],
+  '803108': [25.32, 85.427],
+  '803109': [25.021, 85.525],
+  '803110': [25.382, 85.541],
+  '803111': [25.132, 85.468],
+  '803113': [25.273, 85.448],
+  '803114': [25.281, 85.334],
+  '803115': [25.087, 85.551],
+  '803116': [25.035, 85.407],
+  '803117': [25.058, 85.365],
+  '803118': [25.227, 85.489],
+  '803119': [25.289, 85.582],
+  '803120': [25.248, 85.407],
+  '803121': [25.013, 85.468],
+  '803201': [25.468, 85.252],
+  '803202': [25.472, 85.376],
+  '803211': [25.444, 85.613],
+  '803212': [25.441, 85.53],
+  '803213': [25.422, 85.674],
+  '803214': [25.447, 85.736],
+  '803215': [25.495, 85.756],
+  '803216': [25.157, 85.51],
+  '803221': [25.425, 85.797],
+  '803301': [25.347, 85.951],
+  '803302': [25.405, 85.9],
+  '803303': [25.375, 85.905],
+  '803306': [25.349, 85.833],
+  '803307': [25.336, 85.782],
+  '804401': [25.265, 84.685],
+  '804402': [25.21, 84.627],
+  '804403': [24.938, 84.961],
+  '804404': [24.943, 85.127],
+  '804405': [25.063, 85.039],
+  '804406': [25.145, 85.138],
+  '804407': [25.074, 85.138],
+  '804408': [25.21, 84.951],
+  '804417': [25.258, 84.971],
+  '804418': [25.262, 85.096],
+  '804419': [25.154, 84.721],
+  '804420': [25.19, 85.075],
+  '804421': [25.086, 84.805],
+  '804422': [25.068, 84.971],
+  '804423': [25.212, 84.852],
+  '804424': [25.02, 84.951],
+  '804425': [25.159, 84.867],
+  '804426': [25.227, 84.763],
+  '804427': [25.127, 84.961],
+  '804428': [25.126, 84.596],
+  '804429': [25.19, 84.548],
+  '804430': [25.165, 84.527],
+  '804432': [25.198, 85.132],
+  '804434': [25.105, 85.038],
+  '804435': [25.017, 84.846],
+  '804451': [25.418, 85.169],
+  '804452': [25.356, 85.075],
+  '804453': [25.452, 85.053],
+  '804454': [25.315, 84.919],
+  '805101': [24.952, 85.797],
+  '805102': [24.777, 85.679],
+  '805103': [24.846, 85.407],
+  '805104': [24.917, 85.597],
+  '805105': [24.871, 85.448],
+  '805106': [24.825, 85.91],
+  '805107': [24.832, 85.736],
+  '805108': [25.091, 85.674],
+  '805109': [24.947, 85.422],
+  '805110': [24.921, 85.551],
+  '805111': [24.86, 85.499],
+  '805112': [24.801, 85.489],
+  '805121': [24.815, 85.582],
+  '805122': [24.752, 85.427],
+  '805123': [24.969, 85.551],
+  '805124': [25.021, 85.715],
+  '805125': [24.599, 85.479],
+  '805126': [24.705, 85.468],
+  '805127': [24.608, 85.365],
+  '805128': [24.748, 85.324],
+  '805129': [24.82, 85.345],
+  '805130': [25.006, 85.623],
+  '805131': [24.681, 85.065],
+  '805132': [24.925, 85.674],
+  '805133': [24.917, 85.427],
+  '805141': [24.853, 85.633],
+  '805236': [24.803, 85.651],
+  '811101': [25.235, 85.756],
+  '811102': [25.191, 85.879],
+  '811103': [25.152, 85.746],
+  '811104': [25.261, 85.838],
+  '811105': [25.119, 85.838],
+  '811106': [25.249, 86.267],
+  '811107': [25.064, 85.992],
+  '811112': [25.25, 86.328],
+  '811201': [25.361, 86.52],
+  '811202': [25.124, 86.479],
+  '811211': [25.303, 86.55],
+  '811212': [25.276, 86.429],
+  '811213': [25.22, 86.56],
+  '811214': [25.319, 86.474],
+  '811301': [24.978, 85.9],
+  '811302': [25.253, 85.992],
+  '811303': [24.528, 86.378],
+  '811304': [25.025, 85.859],
+  '811305': [24.885, 86.398],
+  '811307': [24.916, 86.226],
+  '811308': [24.742, 86.398],
+  '811309': [25.167, 86.317],
+  '811310': [25.117, 86.196],
+  '811311': [25.209, 86.114],
+  '811312': [24.992, 86.409],
+  '811313': [25.001, 86.297],
+  '811314': [24.714, 86.216],
+  '811315': [24.922, 85.992],
+  '811316': [24.698, 86.52],
+  '811317': [24.878, 86.114],
+  '812001': [25.256, 86.985],
+  '812002': [25.218, 86.992],
+  '812003': [25.29, 87.032],
+  '812004': [25.276, 86.922],
+  '812005': [25.165, 86.974],
+  '812006': [25.18, 86.882],
+  '812007': [25.248, 86.969],
+  '813101': [25.038, 86.882],
+  '813102': [24.824, 86.862],
+  '813103': [24.851, 87.002],
+  '813104': [24.708, 87.002],
+  '813105': [25.121, 86.974],
+  '813106': [24.748, 86.641],
+  '813107': [25.028, 86.992],
+  '813108': [25.142, 86.792],
+  '813109': [24.945, 87.002],
+  '813110': [24.889, 87.132],
+  '813113': [24.995, 87.122],
+  '813201': [25.175, 86.641],
+  '813202': [24.888, 86.56],
+  '813203': [25.378, 87.321],
+  '813204': [25.187, 87.242],
+  '813205': [25.15, 87.172],
+  '813206': [25.23, 87.336],
+  '813207': [24.939, 86.681],
+  '813208': [25.179, 87.47],
+  '813209': [25.333, 87.441],
+  '813210': [25.231, 87.082],
+  '813211': [25.036, 86.802],
+  '813212': [24.984, 86.601],
+  '813213': [25.224, 86.722],
+  '813214': [25.131, 87.097],
+  '813221': [25.079, 86.601],
+  '813222': [25.296, 87.351],
+  '814101': [24.244, 87.237],
+  '814102': [24.523, 87.242],
+  '814103': [24.36, 87.421],
+  '814110': [24.284, 87.162],
+  '814111': [24.481, 87.559],
+  '814112': [24.491, 86.689],
+  '814113': [24.573, 86.752],
+  '814114': [24.32, 86.601],
+  '814115': [24.478, 86.792],
+  '814116': [24.485, 86.674],
+  '814118': [24.376, 87.002],
+  '814119': [24.239, 87.321],
+  '814120': [24.433, 86.872],
+  '814122': [24.492, 86.709],
+  '814131': [24.656, 86.762],
+  '814133': [24.832, 87.262],
+  '814141': [24.425, 87.082],
+  '814142': [24.546, 86.611],
+  '814143': [24.43, 86.732],
+  '814144': [24.095, 87.242],
+  '814145': [24.474, 87.162],
+  '814146': [24.279, 86.922],
+  '814147': [24.952, 87.361],
+  '814148': [24.051, 87.401],
+  '814149': [24.171, 86.872],
+  '814150': [24.324, 86.762],
+  '814151': [24.566, 87.002],
+  '814152': [24.437, 86.54],
+  '814153': [24.642, 87.262],
+  '814154': [25.046, 87.282],
+  '814155': [25.009, 87.212],
+  '814156': [24.763, 87.401],
+  '814157': [24.515, 86.842],
+  '814158': [24.429, 87.321],
+  '814160': [25.189, 87.361],
+  '814165': [25.059, 87.391],
+  '814166': [24.092, 87.042],
+  '814167': [24.178, 87.212],
+  '815301': [24.136, 86.328],
+  '815302': [24.208, 85.91],
+  '815311': [24.118, 86.114],
+  '815312': [24.244, 86.378],
+  '815313': [24.685, 85.992],
+  '815314': [24.525, 86.216],
+  '815315': [24.358, 86.196],
+  '815316': [24.262, 86.155],
+  '815317': [24.544, 86.033],
+  '815318': [24.367, 86.084],
+  '815351': [23.993, 86.882],
+  '815352': [24.057, 86.54],
+  '815353': [24.226, 86.641],
+  '815354': [23.862, 86.852],
+  '815355': [23.902, 87.042],
+  '815357': [24.088, 86.842],
+  '815359': [23.952, 87.202],
+  '816101': [24.865, 87.835],
+  '816102': [24.933, 87.658],
+  '816103': [24.196, 87.599],
+  '816104': [24.718, 87.559],
+  '816105': [24.78, 87.688],
+  '816106': [24.436, 87.757],
+  '816107': [24.554, 87.658],
+  '816108': [25.007, 87.796],
+  '816109': [25.241, 87.599],
+  '816110': [24.805, 87.786],
+  '816115': [25.195, 87.717],
+  '816116': [25.04, 87.668],
+  '816117': [24.293, 87.678],
+  '816118': [24.195, 87.48],
+  '816120': [25.05, 87.559],
+  '816129': [25.112, 87.707],
+  '821101': [25.009, 83.72],
+  '821102': [24.816, 83.635],
+  '821103': [24.972, 83.4],
+  '821104': [24.801, 83.826],
+  '821105': [25.212, 83.486],
+  '821106': [25.066, 83.4],
+  '821107': [25.181, 83.869],
+  '821108': [25.177, 83.784],
+  '821109': [25.17, 83.614],
+  '821110': [25.266, 83.656],
+  '821111': [24.946, 83.911],
+  '821112': [25.242, 83.921],
+  '821113': [25.086, 83.869],
+  '821115': [24.951, 84.038],
+  '821301': [25.004, 84.165],
+  '821302': [24.717, 84.014],
+  '821303': [24.676, 83.964],
+  '821304': [24.564, 83.826],
+  '821305': [24.92, 84.133],
+  '821306': [25.042, 84.238],
+  '821307': [24.929, 84.212],
+  '821308': [24.833, 84.12],
+  '821309': [25.167, 84.407],
+  '821310': [25.07, 84.344],
+  '821311': [24.615, 83.911],
+  '821312': [24.846, 84.07],
+  '822101': [24.042, 84.091],
+  '822102': [23.973, 84.154],
+  '822110': [24.004, 84.038],
+  '822111': [23.818, 84.122],
+  '822112': [24.459, 83.571],
+  '822113': [24.276, 84.312],
+  '822114': [24.184, 83.784],
+  '822115': [24.473, 83.911],
+  '822116': [24.525, 84.038],
+  '822117': [24.534, 83.943],
+  '822118': [24.013, 84.249],
+  '822119': [23.416, 84.144],
+  '822120': [24.378, 83.911],
+  '822121': [24.205, 83.432],
+  '822122': [23.997, 84.48],
+  '822123': [24.152, 84.165],
+  '822124': [24.263, 83.974],
+  '822125': [23.736, 83.847],
+  '822126': [23.875, 84.375],
+  '822128': [24.222, 83.571],
+  '822129': [24.319, 83.614],
+  '822131': [24.523, 84.281],
+  '822132': [23.941, 83.943],
+  '822133': [24.193, 83.709],
+  '823001': [24.791, 84.997],
+  '823002': [24.835, 85.055],
+  '823003': [24.787, 85.055],
+  '823004': [24.736, 84.93],
+  '823005': [24.757, 84.958],
+  '823311': [24.899, 85.21],
+  '824101': [24.77, 84.249],
+  '824102': [24.715, 84.344],
+  '824103': [24.78, 84.501],
+  '824111': [24.594, 84.281],
+  '824112': [24.865, 84.249],
+  '824113': [24.967, 84.459],
+  '824114': [25.032, 84.596],
+  '824115': [24.958, 84.533],
+  '824116': [24.882, 84.711],
+  '824118': [24.741, 84.752],
+  '824120': [25.065, 84.543],
+  '824121': [24.834, 84.365],
+  '824122': [24.783, 84.585],
+  '824123': [24.627, 84.207],
+  '824124': [24.915, 84.333],
+  '824125': [24.865, 84.575],
+  '824127': [25.14, 84.486],
+  '824129': [24.92, 84.622],
+  '824143': [25.062, 84.459],
+  '824201': [24.467, 85.044],
+  '824202': [24.633, 84.375],
+  '824203': [24.975, 84.669],
+  '824205': [24.66, 84.805],
+  '824206': [24.448, 84.501],
+  '824207': [24.92, 84.784],
+  '824208': [24.69, 84.627],
+  '824209': [24.793, 84.878],
+  '824210': [24.649, 84.491],
+  '824211': [24.542, 84.805],
+  '824216': [24.595, 84.475],
+  '824217': [24.593, 84.585],
+  '824219': [24.598, 84.711],
+  '824220': [24.51, 84.919],
+  '824231': [24.642, 84.951],
+  '824232': [24.652, 85.283],
+  '824233': [24.52, 85.21],
+  '824234': [24.695, 84.956],
+  '824235': [25.015, 84.784],
+  '824236': [24.922, 84.846],
+  '824237': [24.591, 84.867],
+  '824301': [24.611, 84.112],
+  '824302': [24.541, 84.133],
+  '824303': [24.669, 84.08],
+  '825101': [23.57, 85.592],
+  '825103': [24.039, 85.003],
+  '825106': [23.972, 85.951],
+  '825108': [24.026, 86.196],
+  '825109': [24.25, 85.705],
+  '825132': [24.633, 85.828],
+  '825167': [23.975, 86.073],
+  '825301': [24.008, 85.35],
+  '825302': [23.907, 85.334],
+  '825303': [23.971, 85.489],
+  '825311': [23.808, 85.21],
+  '825312': [24.014, 85.746],
+  '825313': [24.032, 85.561],
+  '825314': [23.789, 85.556],
+  '825315': [23.908, 85.797],
+  '825316': [23.758, 85.51],
+  '825317': [24.041, 85.448],
+  '825318': [24.347, 85.787],
+  '825319': [24.095, 85.293],
+  '825320': [24.156, 85.746],
+  '825321': [23.849, 85.003],
+  '825322': [24.066, 85.91],
+  '825323': [24.153, 85.623],
+  '825324': [24.211, 86.033],
+  '825325': [23.869, 85.664],
+  '825326': [23.829, 85.51],
+  '825329': [23.98, 86.277],
+  '825330': [23.778, 85.386],
+  '825336': [23.852, 85.468],
+  '825401': [24.201, 84.898],
+  '825402': [24.099, 85.417],
+  '825403': [24.388, 84.815],
+  '825404': [24.285, 84.564],
+  '825405': [24.279, 85.468],
+  '825406': [24.402, 85.231],
+  '825407': [24.629, 85.705],
+  '825408': [24.28, 85.127],
+  '825409': [24.48, 85.458],
+  '825410': [24.472, 85.592],
+  '825411': [24.193, 85.376],
+  '825412': [24.449, 86.033],
+  '825413': [24.294, 85.582],
+  '825418': [24.454, 85.797],
+  '825421': [24.371, 85.566],
+  '826001': [23.8, 86.434],
+  '826003': [23.797, 86.462],
+  '826004': [23.853, 86.429],
+  '826005': [23.789, 86.495],
+  '827001': [23.673, 86.129],
+  '827003': [23.659, 86.152],
+  '827004': [23.674, 86.15],
+  '827006': [23.666, 86.168],
+  '827009': [23.704, 86.165],
+  '827010': [23.631, 86.084],
+  '827011': [23.676, 86.096],
+  '827012': [23.652, 86.112],
+  '827013': [23.599, 86.236],
+  '827014': [23.702, 86.084],
+  '827302': [23.544, 85.951],
+  '828101': [23.789, 86.371],
+  '828103': [23.756, 86.328],
+  '828104': [23.828, 86.368],
+  '828105': [23.983, 86.398],
+  '828106': [23.761, 86.431],
+  '828107': [23.647, 86.505],
+  '828108': [23.717, 86.474],
+  '828109': [23.869, 86.621],
+  '828110': [23.707, 86.421],
+  '828111': [23.743, 86.447],
+  '828112': [23.718, 86.417],
+  '828113': [23.85, 86.287],
+  '828114': [23.824, 86.226],
+  '828115': [23.702, 86.447],
+  '828116': [23.774, 86.373],
+  '828117': [23.751, 86.383],
+  '828119': [23.683, 86.421],
+  '828120': [23.658, 86.464],
+  '828121': [23.797, 86.343],
+  '828122': [23.67, 86.495],
+  '828123': [23.681, 86.464],
+  '828124': [23.759, 86.49],
+  '828125': [23.807, 86.262],
+  '828126': [23.669, 86.424],
+  '828127': [23.83, 86.469],
+  '828128': [23.772, 86.262],
+  '828129': [23.708, 86.328],
+  '828130': [23.691, 86.492],
+  '828131': [23.731, 86.426],
+  '828132': [23.69, 86.431],
+  '828133': [23.72, 86.442],
+  '828134': [23.505, 86.277],
+  '828135': [23.66, 86.452],
+  '828201': [23.701, 86.56],
+  '828202': [23.724, 86.777],
+  '828203': [23.76, 86.787],
+  '828204': [23.74, 86.711],
+  '828205': [23.835, 86.711],
+  '828206': [23.7, 86.767],
+  '828207': [23.813, 86.792],
+  '828301': [23.715, 86.393],
+  '828302': [23.692, 86.393],
+  '828303': [23.638, 86.388],
+  '828304': [23.773, 86.292],
+  '828305': [23.747, 86.231],
+  '828306': [23.829, 86.17],
+  '828307': [23.77, 86.19],
+  '828308': [23.736, 86.251],
+  '828309': [23.737, 86.406],
+  '828401': [23.894, 86.165],
+  '828402': [23.884, 86.236],
+  '828403': [23.785, 86.073],
+  '828404': [23.752, 86.165],
+  '829101': [23.613, 85.427],
+  '829102': [23.574, 85.505],
+  '829103': [23.645, 85.515],
+  '829104': [23.817, 85.941],
+  '829105': [23.63, 85.391],
+  '829106': [23.587, 85.345],
+  '829107': [23.839, 85.879],
+  '829108': [23.706, 85.365],
+  '829109': [23.708, 85.427],
+  '829110': [23.562, 85.726],
+  '829111': [23.766, 85.797],
+  '829112': [23.922, 85.869],
+  '829113': [23.745, 85.9],
+  '829114': [23.752, 85.946],
+  '829116': [23.761, 85.854],
+  '829117': [23.687, 85.51],
+  '829118': [23.679, 85.262],
+  '829119': [23.608, 85.262],
+  '829121': [23.59, 85.869],
+  '829122': [23.61, 85.525],
+  '829123': [23.701, 85.823],
+  '829125': [23.679, 85.335],
+  '829126': [23.666, 85.327],
+  '829127': [23.727, 85.664],
+  '829128': [23.671, 85.818],
+  '829129': [23.677, 85.401],
+  '829130': [23.788, 85.615],
+  '829131': [23.718, 85.566],
+  '829132': [23.731, 86.038],
+  '829133': [23.665, 85.37],
+  '829134': [23.742, 85.587],
+  '829135': [23.649, 85.358],
+  '829143': [23.627, 85.319],
+  '829144': [23.843, 86.022],
+  '829149': [23.736, 85.782],
+  '829150': [23.665, 85.592],
+  '829202': [23.911, 84.732],
+  '829203': [23.696, 84.669],
+  '829204': [23.681, 84.249],
+  '829205': [23.566, 85.044],
+  '829206': [23.786, 84.543],
+  '829207': [23.734, 84.417],
+  '829208': [23.669, 84.951],
+  '829209': [23.64, 85.148],
+  '829210': [23.654, 84.836],
+  '829301': [23.687, 85.951],
+  '831001': [22.823, 86.215],
+  '831002': [22.619, 86.053],
+  '831003': [22.787, 86.229],
+  '831004': [22.779, 86.287],
+  '831005': [22.809, 86.162],
+  '831006': [22.774, 86.183],
+  '831007': [22.772, 86.211],
+  '831009': [22.808, 86.231],
+  '831010': [22.764, 86.244],
+  '831011': [22.821, 86.173],
+  '831012': [22.829, 86.258],
+  '831013': [22.782, 86.16],
+  '831014': [22.775, 86.104],
+  '831015': [22.75, 86.282],
+  '831016': [22.725, 86.262],
+  '831017': [22.796, 86.251],
+  '831018': [22.855, 86.221],
+  '831019': [22.788, 86.264],
+  '831020': [22.9, 86.109],
+  '832101': [22.278, 86.762],
+  '832102': [22.649, 86.317],
+  '832103': [22.569, 86.449],
+  '832104': [22.436, 86.378],
+  '832105': [22.912, 86.378],
+  '832106': [22.633, 86.393],
+  '832107': [22.694, 86.196],
+  '832108': [22.846, 86.104],
+  '832109': [22.791, 86.142],
+  '832110': [22.843, 86.19],
+  '832111': [22.693, 86.259],
+  '832301': [22.468, 86.722],
+  '832302': [22.442, 86.621],
+  '832303': [22.655, 86.56],
+  '832304': [22.7, 86.439],
+  '832401': [22.978, 86.114],
+  '832402': [22.843, 85.982],
+  '832403': [23.115, 85.91],
+  '832404': [22.974, 85.951],
+  '833101': [22.684, 85.787],
+  '833102': [22.799, 85.643],
+  '833103': [22.695, 85.314],
+  '833104': [22.404, 85.148],
+  '833105': [22.534, 85.541],
+  '833106': [22.409, 85.314],
+  '833201': [22.548, 85.813],
+  '833202': [22.488, 85.823],
+  '833203': [22.157, 85.664],
+  '833204': [22.33, 85.89],
+  '833212': [22.221, 85.587],
+  '833213': [22.244, 85.376],
+  '833214': [22.139, 85.89],
+  '833215': [22.445, 85.746],
+  '833216': [22.873, 85.746],
+  '833217': [22.165, 85.51],
+  '833218': [22.321, 85.561],
+  '833219': [22.687, 85.91],
+  '833220': [22.783, 85.951],
+  '833221': [22.16, 85.345],
+  '833222': [22.191, 85.169],
+  '833223': [22.097, 85.21],
+  '834001': [23.378, 85.319],
+  '834002': [23.348, 85.303],
+  '834003': [23.295, 85.329],
+  '834004': [23.251, 85.241],
+  '834005': [23.369, 85.22],
+  '834006': [23.491, 85.324],
+  '834008': [23.402, 85.329],
+  '834009': [23.392, 85.381],
+  '834010': [23.243, 85.376],
+  '834011': [23.243, 85.376],
+  '835101': [23.394, 85.664],
+  '835102': [23.302, 85.787],
+  '835103': [23.39, 85.541],
+  '835201': [22.587, 84.898],
+  '835202': [23.255, 84.982],
+  '835203': [23.228, 84.878],
+  '835204': [23.179, 85.643],
+  '835205': [23.522, 85.169],
+  '835206': [23.042, 84.312],
+  '835207': [23.015, 84.554],
+  '835208': [23.218, 84.585],
+  '835209': [23.187, 85.086],
+  '835210': [23.077, 85.396],
+  '835211': [22.772, 84.732],
+  '835212': [22.561, 84.144],
+  '835213': [23.544, 84.763],
+  '835214': [23.481, 84.992],
+  '835215': [23.405, 85.422],
+  '835216': [22.885, 85.314],
+  '835217': [23.464, 85.401],
+  '835218': [23.327, 84.312],
+  '835219': [23.531, 85.458],
+  '835220': [22.861, 84.564],
+  '835221': [23.146, 85.293],
+  '835222': [23.441, 85.241],
+  '835223': [22.662, 84.312],
+  '835225': [22.991, 85.726],
+  '835226': [22.456, 84.543],
+  '835227': [22.947, 85.003],
+  '835228': [22.694, 84.543],
+  '835229': [22.939, 84.752],
+  '835230': [23.201, 84.122],
+  '835231': [23.428, 84.48],
+  '835232': [22.927, 84.417],
+  '835233': [23.12, 84.501],
+  '835234': [23.065, 84.982],
+  '835235': [22.546, 84.375],
+  '835301': [23.376, 85.044],
+  '835302': [23.434, 84.648],
+  '835303': [23.272, 85.158],
+  '835324': [23.152, 84.732],
+  '835325': [23.416, 84.836],
+  '841101': [25.689, 85.158],
+  '841201': [25.904, 84.554],
+  '841202': [25.823, 84.93],
+  '841203': [25.993, 84.407],
+  '841204': [26.014, 84.506],
+  '841205': [25.929, 84.596],
+  '841206': [26.001, 84.617],
+  '841207': [25.706, 84.951],
+  '841208': [25.956, 84.527],
+  '841209': [25.884, 84.506],
+  '841210': [25.967, 84.365],
+  '841211': [25.75, 84.867],
+  '841212': [25.991, 84.506],
+  '841213': [25.861, 84.679],
+  '841214': [25.842, 84.643],
+  '841215': [25.945, 85.055],
+  '841216': [25.765, 85.132],
+  '841217': [25.807, 85.138],
+  '841218': [25.917, 84.909],
+  '841219': [25.875, 85.075],
+  '841220': [25.805, 85.075],
+  '841221': [25.797, 85.029],
+  '841222': [25.849, 84.992],
+  '841223': [25.966, 84.475],
+  '841224': [26.045, 84.554],
+  '841225': [25.801, 84.971],
+  '841226': [26.202, 84.344],
+  '841227': [26.272, 84.323],
+  '841231': [26.111, 84.265],
+  '841232': [26.289, 84.459],
+  '841233': [26.107, 84.465],
+  '841234': [26.031, 84.196],
+  '841235': [26.148, 84.154],
+  '841236': [26.104, 84.38],
+  '841237': [26.172, 84.317],
+  '841238': [26.114, 84.512],
+  '841239': [26.217, 84.133],
+  '841240': [26.069, 84.412],
+  '841241': [26.158, 84.428],
+  '841242': [26.123, 84.569],
+  '841243': [26.315, 84.217],
+  '841244': [26.087, 84.559],
+  '841245': [26.187, 84.249],
+  '841286': [26.132, 84.365],
+  '841287': [26.079, 84.217],
+  '841301': [25.787, 84.737],
+  '841302': [25.794, 84.784],
+  '841305': [25.79, 84.658],
+  '841311': [25.845, 84.888],
+  '841312': [25.746, 84.742],
+  '841313': [25.858, 84.575],
+  '841316': [25.84, 84.742],
+  '841401': [25.989, 84.951],
+  '841402': [25.901, 84.966],
+  '841403': [25.98, 84.7],
+  '841404': [26.041, 84.449],
+  '841405': [26.399, 84.575],
+  '841406': [26.169, 84.7],
+  '841407': [26.353, 84.596],
+  '841408': [26.098, 84.7],
+  '841409': [26.297, 84.669],
+  '841410': [26.175, 84.867],
+  '841411': [26.009, 84.846],
+  '841412': [25.914, 84.674],
+  '841413': [26.254, 84.794],
+  '841414': [25.865, 84.784],
+  '841415': [25.849, 84.82],
+  '841416': [26.209, 84.674],
+  '841417': [26.113, 84.794],
+  '841418': [25.957, 84.883],
+  '841419': [25.913, 84.805],
+  '841420': [26.373, 84.491],
+  '841421': [26.047, 84.768],
+  '841422': [26.05, 84.679],
+  '841423': [26.408, 84.653],
+  '841424': [26.07, 84.919],
+  '841425': [26.459, 84.281],
+  '841426': [26.417, 84.122],
+  '841427': [26.444, 84.512],
+  '841428': [26.513, 84.47],
+  '841434': [26.282, 84.575],
+  '841435': [26.168, 84.07],
+  '841436': [26.343, 84.344],
+  '841437': [26.38, 84.679],
+  '841438': [26.387, 84.259],
+  '841439': [26.211, 84.575],
+  '841440': [26.427, 84.375],
+  '841441': [26.56, 84.165],
+  '841442': [25.894, 84.758],
+  '841443': [25.96, 84.805],
+  '841446': [26.146, 84.265],
+  '841460': [25.92, 84.992],
+  '841501': [26.579, 84.365],
+  '841502': [26.529, 84.281],
+  '841503': [26.578, 84.323],
+  '841504': [26, 84.291],
+  '841505': [26.534, 84.407],
+  '841506': [26.184, 84.47],
+  '841507': [26.107, 84.627],
+  '841508': [26.494, 84.006],
+  '841509': [25.995, 84.328],
+  '842001': [26.152, 85.412],
+  '842002': [26.092, 85.391],
+  '842003': [26.139, 85.37],
+  '842004': [26.18, 85.397],
+  '842005': [26.098, 85.4],
+  '843101': [26.04, 85.075],
+  '843102': [26.218, 85.267],
+  '843103': [26.22, 85.53],
+  '843104': [25.939, 85.592],
+  '843105': [25.986, 85.572],
+  '843106': [26.269, 85.039],
+  '843107': [26.085, 84.992],
+  '843108': [26.16, 85.345],
+  '843109': [26.208, 85.319],
+  '843110': [25.809, 85.582],
+  '843111': [26.3, 85.096],
+  '843112': [26.057, 85.029],
+  '843113': [26.095, 85.303],
+  '843114': [25.897, 85.577],
+  '843115': [26.058, 85.613],
+  '843117': [26.313, 85.489],
+  '843118': [26.141, 85.623],
+  '843119': [26.031, 85.51],
+  '843120': [26.178, 84.971],
+  '843121': [25.988, 85.633],
+  '843122': [26.158, 85.075],
+  '843123': [26.126, 85.169],
+  '843124': [26.205, 85.075],
+  '843125': [26.26, 84.961],
+  '843126': [26.005, 85.448],
+  '843127': [26.292, 85.381],
+  '843128': [26.262, 85.345],
+  '843129': [26.282, 85.262],
+  '843130': [26.24, 85.236],
+  '843143': [26.019, 85.138],
+  '843146': [26.077, 85.468],
+  '843301': [26.593, 85.497],
+  '843302': [26.57, 85.427],
+  '843311': [26.431, 85.489],
+  '843312': [26.316, 85.592],
+  '843313': [26.708, 85.303],
+  '843314': [26.515, 85.541],
+  '843315': [26.508, 85.494],
+  '843316': [26.429, 85.427],
+  '843317': [26.762, 85.53],
+  '843318': [26.342, 85.654],
+  '843319': [26.558, 85.777],
+  '843320': [26.52, 85.705],
+  '843321': [26.283, 85.664],
+  '843322': [26.623, 85.592],
+  '843323': [26.462, 85.535],
+  '843324': [26.707, 85.664],
+  '843325': [26.498, 85.386],
+  '843326': [26.41, 85.572],
+  '843327': [26.701, 85.458],
+  '843328': [26.37, 85.417],
+  '843329': [26.46, 85.293],
+  '843330': [26.8, 85.623],
+  '843331': [26.626, 85.695],
+  '843332': [26.765, 85.443],
+  '843333': [26.471, 85.623],
+  '843334': [26.591, 85.324],
+  '843351': [26.667, 85.329],
+  '843360': [26.308, 85.324],
+  '844101': [25.644, 85.22],
+  '844102': [25.693, 85.262],
+  '844103': [25.737, 85.37],
+  '844111': [25.975, 85.241],
+  '844112': [25.933, 85.407],
+  '844113': [25.813, 85.324],
+  '844114': [25.859, 85.303],
+  '844115': [25.672, 85.365],
+  '844116': [25.882, 85.453],
+  '844117': [25.839, 85.226],
+  '844118': [25.931, 85.324],
+  '844119': [25.809, 85.2],
+  '844120': [25.991, 85.376],
+  '844121': [25.855, 85.179],
+  '844122': [25.839, 85.407],
+  '844123': [25.904, 85.241],
+  '844124': [25.713, 85.339],
+  '844125': [25.763, 85.262],
+  '844126': [25.77, 85.468],
+  '844127': [26.036, 85.408],
+  '844128': [25.936, 85.127],
+  '844501': [25.678, 85.551],
+  '844502': [25.709, 85.291],
+  '844503': [25.642, 85.339],
+  '844504': [25.626, 85.386],
+  '844505': [25.724, 85.51],
+  '844506': [25.616, 85.458],
+  '844507': [25.653, 85.51],
+  '844508': [25.522, 85.458],
+  '844509': [25.68, 85.432],
+  '845101': [27.17, 84.165],
+  '845102': [27.279, 84.543],
+  '845103': [27.13, 84.333],
+  '845104': [26.981, 84.122],
+  '845105': [27.376, 84.059],
+  '845106': [27.269, 84.291],
+  '845107': [27.405, 83.9],
+  '845301': [26.883, 84.93],
+  '845302': [26.827, 85.003],
+  '845303': [26.82, 85.138],
+  '845304': [26.749, 85.138],
+  '845305': [26.955, 84.669],
+  '845306': [27.142, 84.627],
+  '845307': [27.043, 84.501],
+  '845315': [26.734, 85.044],
+  '845401': [26.67, 84.909],
+  '845406': [26.322, 85.215],
+  '845411': [26.546, 84.721],
+  '845412': [26.405, 85.044],
+  '845413': [26.459, 84.909],
+  '845414': [26.513, 85.117],
+  '845415': [26.574, 84.846],
+  '845416': [26.579, 84.992],
+  '845417': [26.857, 84.867],
+  '845418': [26.691, 85.169],
+  '845419': [26.495, 84.617],
+  '845420': [26.455, 85.127],
+  '845422': [26.639, 84.7],
+  '845423': [26.383, 84.763],
+  '845424': [26.305, 84.878],
+  '845425': [26.54, 84.554],
+  '845426': [26.348, 85.096],
+  '845427': [26.587, 85.22],
+  '845428': [26.582, 85.075],
+  '845429': [26.526, 84.826],
+  '845430': [26.514, 85.158],
+  '845431': [26.777, 84.919],
+  '845432': [26.388, 84.909],
+  '845433': [26.854, 84.784],
+  '845434': [26.453, 84.742],
+  '845435': [26.714, 84.826],
+  '845436': [26.4, 85.241],
+  '845437': [26.631, 84.794],
+  '845438': [26.759, 84.459],
+  '845440': [26.898, 84.7],
+  '845449': [26.951, 84.543],
+  '845450': [26.867, 84.512],
+  '845451': [26.946, 84.417],
+  '845452': [26.848, 84.333],
+  '845453': [26.989, 84.333],
+  '845454': [26.814, 84.669],
+  '845455': [27.227, 84.417],
+  '845456': [26.759, 84.763],
+  '845457': [26.585, 85.158],
+  '845458': [26.623, 84.585],
+  '845459': [26.709, 84.375],
+  '846001': [26.108, 85.905],
+  '846002': [26.064, 85.818],
+  '846003': [26.131, 85.895],
+  '846004': [26.152, 85.897],
+  '846005': [26.189, 85.864],
+  '846006': [26.154, 85.864],
+  '846007': [26.179, 85.915],
+  '846008': [26.163, 85.897],
+  '846009': [26.156, 85.946],
+  '847101': [26.021, 85.982],
+  '847102': [26.394, 85.818],
+  '847103': [26.026, 86.145],
+  '847104': [26.227, 85.756],
+  '847105': [25.952, 86.043],
+  '847106': [26.139, 85.772],
+  '847107': [26.131, 85.695],
+  '847108': [26.403, 86.601],
+  '847109': [26.361, 86.099],
+  '847115': [26.21, 85.982],
+  '847121': [26.255, 85.92],
+  '847122': [26.338, 85.91],
+  '847123': [26.186, 85.751],
+  '847201': [26.109, 86.155],
+  '847203': [25.923, 86.277],
+  '847204': [26.167, 86.259],
+  '847211': [26.345, 86.086],
+  '847212': [26.312, 86.048],
+  '847213': [26.424, 86.043],
+  '847214': [26.333, 86.05],
+  '847215': [26.395, 86.068],
+  '847222': [26.422, 85.982],
+  '847223': [26.432, 85.91],
+  '847224': [26.453, 86.267],
+  '847225': [26.635, 86.022],
+  '847226': [26.532, 86.114],
+  '847227': [26.491, 86.358],
+  '847228': [26.499, 86.206],
+  '847229': [26.518, 86.043],
+  '847230': [26.527, 85.951],
+  '847231': [26.287, 86.206],
+  '847232': [26.572, 86.307],
+  '847233': [26.118, 86.084],
+  '847234': [26.301, 86.089],
+  '847235': [26.382, 86.226],
+  '847236': [26.403, 86.145],
+  '847238': [26.358, 86.007],
+  '847239': [26.237, 86.104],
+  '847240': [26.617, 85.987],
+  '847301': [26.025, 85.915],
+  '847302': [26.38, 85.746],
+  '847303': [26.071, 86.063],
+  '847304': [26.323, 85.818],
+  '847305': [26.489, 85.838],
+  '847306': [26.254, 85.859],
+  '847307': [26.28, 85.741],
+  '847308': [26.536, 85.838],
+  '847337': [26.258, 86.022],
+  '847401': [26.383, 86.287],
+  '847402': [26.269, 86.449],
+  '847403': [26.351, 86.398],
+  '847404': [26.236, 86.282],
+  '847405': [26.124, 86.287],
+  '847407': [26.202, 86.224],
+  '847408': [26.161, 86.358],
+  '847409': [26.388, 86.469],
+  '847410': [26.219, 86.328],
+  '847411': [26.314, 86.328],
+  '847421': [26.495, 86.52],
+  '847422': [26.167, 86.145],
+  '847423': [26.141, 86.251],
+  '847424': [26.256, 86.16],
+  '847427': [26.018, 86.317],
+  '847428': [26.164, 85.813],
+  '847429': [26.116, 86.002],
+  '847451': [26.436, 86.767],
+  '847452': [26.32, 86.57],
+  '848101': [25.85, 85.777],
+  '848102': [25.88, 85.792],
+  '848113': [25.919, 85.715],
+  '848114': [25.676, 85.869],
+  '848115': [25.959, 85.659],
+  '848117': [25.82, 85.951],
+  '848121': [25.806, 85.69],
+  '848122': [25.822, 85.633],
+  '848125': [26.001, 85.705],
+  '848127': [25.683, 85.715],
+  '848129': [25.879, 85.741],
+  '848130': [25.842, 85.69],
+  '848131': [25.894, 85.654],
+  '848132': [25.78, 85.818],
+  '848133': [25.925, 85.92],
+  '848134': [25.852, 85.838],
+  '848160': [25.95, 85.961],
+  '848201': [25.591, 86.236],
+  '848202': [25.634, 86.073],
+  '848203': [25.641, 86.358],
+  '848204': [25.683, 86.155],
+  '848205': [25.815, 86.226],
+  '848206': [25.743, 86.185],
+  '848207': [25.675, 86.287],
+  '848208': [25.812, 86.104],
+  '848209': [25.871, 86.114],
+  '848210': [25.769, 86.027],
+  '848211': [25.714, 85.982],
+  '848213': [25.782, 86.317],
+  '848216': [25.811, 86.063],
+  '848236': [25.76, 85.941],
+  '848301': [25.97, 85.838],
+  '848302': [25.992, 85.777],
+  '848501': [25.564, 85.674],
+  '848502': [25.606, 85.721],
+  '848503': [25.616, 85.838],
+  '848504': [25.632, 85.592],
+  '848505': [25.729, 85.674],
+  '848506': [25.516, 85.654],
+  '851101': [25.411, 86.145],
+  '851111': [25.534, 85.869],
+  '851112': [25.531, 85.997],
+  '851113': [25.495, 85.966],
+  '851114': [25.506, 85.946],
+  '851115': [25.516, 85.974],
+  '851116': [25.473, 86.007],
+  '851117': [25.413, 86.112],
+  '851118': [25.425, 85.997],
+  '851120': [25.547, 86.01],
+  '851126': [25.389, 86.206],
+  '851127': [25.528, 86.104],
+  '851128': [25.627, 85.923],
+  '851129': [25.307, 86.236],
+  '851130': [25.537, 86.19],
+  '851131': [25.482, 86.124],
+  '851132': [25.55, 86.043],
+  '851133': [25.548, 85.961],
+  '851134': [25.416, 86.089],
+  '851135': [25.46, 86.185],
+  '851201': [25.553, 86.641],
+  '851202': [25.449, 86.711],
+  '851203': [25.317, 86.641],
+  '851204': [25.512, 86.409],
+  '851205': [25.551, 86.52],
+  '851210': [25.432, 86.043],
+  '851211': [25.45, 86.277],
+  '851212': [25.378, 86.752],
+  '851213': [25.488, 86.626],
+  '851214': [25.492, 86.55],
+  '851215': [25.56, 86.429],
+  '851216': [25.307, 86.752],
+  '851217': [25.441, 86.388],
+  '851218': [25.388, 86.414],
+  '852101': [25.75, 87.002],
+  '852105': [26.311, 86.722],
+  '852106': [25.786, 86.479],
+  '852107': [25.829, 86.812],
+  '852108': [26.253, 86.772],
+  '852109': [26.231, 86.812],
+  '852110': [26.014, 86.611],
+  '852111': [26.285, 86.867],
+  '852112': [26.034, 87.002],
+  '852113': [25.877, 86.852],
+  '852114': [25.937, 86.882],
+  '852115': [25.702, 86.922],
+  '852116': [25.609, 87.002],
+  '852121': [25.922, 86.752],
+  '852122': [25.892, 87.002],
+  '852123': [25.974, 86.439],
+  '852124': [25.942, 86.591],
+  '852125': [26.245, 86.942],
+  '852126': [25.693, 86.52],
+  '852127': [25.706, 86.591],
+  '852128': [26.053, 86.782],
+  '852129': [25.686, 86.752],
+  '852130': [26.072, 86.56],
+  '852131': [26.154, 86.55],
+  '852137': [25.98, 86.681],
+  '852138': [26.214, 86.601],
+  '852139': [26.162, 86.892],
+  '852161': [25.556, 86.762],
+  '852201': [25.89, 86.616],
+  '852202': [25.824, 86.57],
+  '852212': [25.846, 86.53],
+  '852213': [25.511, 86.882],
+  '852214': [26.117, 87.012],
+  '852215': [26.408, 86.842],
+  '852216': [25.868, 86.429],
+  '852217': [25.758, 86.812],
+  '852218': [26.159, 86.792],
+  '852219': [25.874, 86.691],
+  '852220': [25.606, 86.882],
+  '852221': [25.802, 86.671],
+  '853201': [25.418, 86.922],
+  '853202': [25.36, 86.992],
+  '853203': [25.381, 86.872],
+  '853204': [25.469, 87.122],
+  '853205': [25.328, 87.162],
+  '854101': [25.418, 87.609],
+  '854102': [25.895, 87.122],
+  '854103': [25.489, 87.569],
+  '854104': [25.52, 87.321],
+  '854105': [25.512, 87.53],
+  '854106': [25.535, 87.49],
+  '854107': [25.516, 87.626],
+  '854108': [25.663, 87.401],
+  '854109': [25.577, 87.554],
+  '854112': [25.302, 87.766],
+  '854113': [25.324, 87.648],
+  '854114': [25.626, 87.292],
+  '854115': [25.558, 87.45],
+  '854116': [25.492, 87.766],
+  '854117': [25.432, 87.717],
+  '854201': [25.958, 87.331],
+  '854202': [25.896, 87.202],
+  '854203': [25.764, 87.092],
+  '854204': [25.658, 87.122],
+  '854205': [25.707, 87.202],
+  '854301': [25.777, 87.465],
+  '854302': [25.777, 87.495],
+  '854303': [25.747, 87.431],
+  '854304': [25.853, 87.441],
+  '854305': [25.781, 87.512],
+  '854306': [25.816, 87.312],
+  '854311': [26.186, 87.559],
+  '854312': [26.042, 87.401],
+  '854315': [25.976, 87.737],
+  '854316': [26.334, 87.232],
+  '854317': [25.719, 87.914],
+  '854318': [26.275, 87.242],
+  '854325': [26.057, 87.589],
+  '854326': [25.809, 87.599],
+  '854327': [25.961, 87.51],
+  '854328': [26.364, 87.277],
+  '854329': [26.152, 87.648],
+  '854330': [25.89, 87.51],
+  '854331': [26.326, 87.441],
+  '854332': [26.386, 87.49],
+  '854333': [26.281, 87.559],
+  '854334': [26.061, 87.182],
+  '854335': [26.272, 87.082],
+  '854336': [26.379, 87.132],
+  '854337': [25.666, 87.559],
+  '854338': [26.332, 87.152],
+  '854339': [26.425, 87.052],
+  '854340': [26.458, 86.962],
+  '855101': [26.354, 87.737],
+  '855102': [25.542, 87.982],
+  '855105': [25.717, 87.757],
+  '855106': [26.537, 88.139],
+  '855107': [26.191, 87.875],
+  '855108': [26.138, 87.84],
+  '855113': [25.576, 87.835],
+  '855114': [25.573, 87.678],
+  '855115': [26.334, 87.953],
+  '855116': [26.467, 88.178],
+  '855117': [26.384, 88.188],
+};
@@ -0,0 +1,83 @@
+import { format } from 'date-fns';
+import type { EligibilityProfile } from './donorEligibility';
+import type { PreDonationQuestionnaireData } from './validation';
+
+export const LAST_MEAL_TIMES = ['within_4_hours', '4_to_8_hours', 'over_8_hours'] as const;
+
+export type LastMealTime = (typeof LAST_MEAL_TIMES)[number];
+
+export const LAST_MEAL_LABELS: Record<LastMealTime, string> = {
+  within_4_hours: 'Within the last 4 hours',
+  '4_to_8_hours': '4 to 8 hours ago',
+  over_8_hours: 'More than 8 hours ago',
+};
+
+/**
+ * The yes/no questions, each with the field for details when answered yes
+ * and the eligibility condition a yes adds
+ */
+export const SCREENING_QUESTIONS = [
+  {
+    field: 'recent_illness',
+    detailsField: 'illness_details',
+    label: 'Have you had a cold, flu, fever or other illness in the last 2 weeks?',
+    condition: 'recent_illness',
+  },
+  {
+    field: 'taking_medication',
+    detailsField: 'medication_details',
+    label: 'Are you taking antibiotics or any other medication?',
+    condition: 'medication',
+  },
+  {
+    field: 'recent_travel',
+    detailsField: 'travel_details',
+    label: 'Have you travelled to a malaria area in the last 3 months?',
+    condition: 'recent_travel',
+  },
+] as const;
+
+/** What is stored with the booking */
+export type StoredPreDonationQuestionnaire = PreDonationQuestionnaireData & {
+  answered_at: string;
+};
+
+export const toStoredQuestionnaire = (
+  answers: PreDonationQuestionnaireData,
+  answeredAt: Date = new Date()
+): StoredPreDonationQuestionnaire => ({ ...answers, answered_at: answeredAt.toISOString() });
+
+/**
+ * The donor profile as of the questionnaire: the reported weight replaces the
+ * stored one, and each yes adds its condition dated the day it was answered,
+ * since the exact date is not asked
+ */
+export function applyQuestionnaire<T extends EligibilityProfile>(
+  profile: T,
+  answers: PreDonationQuestionnaireData,
+  answeredAt: Date = new Date()
+): T & {
+  weight_kg: number;
+  medical_conditions: string[];
+  medical_condition_dates: Record<string, unknown>;
+} {
+  const conditions = new Set(profile.medical_conditions ?? []);
+  const dates: Record<string, unknown> =
+    profile.medical_condition_dates && typeof profile.medical_condition_dates === 'object'
+      ? { ...(profile.medical_condition_dates as Record<string, unknown>) }
+      : {};
+
+  for (const question of SCREENING_QUESTIONS) {
+    if (answers[question.field] === 'yes') {
+      conditions.add(question.condition);
+      dates[question.condition] = format(answeredAt, 'yyyy-MM-dd');
+    }
+  }
+
+  return {
+    ...profile,
+    weight_kg: answers.weight_kg,
+    medical_conditions: [...conditions],
+    medical_condition_dates: dates,
+  };
+}
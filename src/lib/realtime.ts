@@ -0,0 +1,135 @@
+import type { RealtimeChannel, SupabaseClient } from '@supabase/supabase-js';
+
+type ChannelClient = Pick<SupabaseClient, 'channel' | 'removeChannel'>;
+
+export interface ResilientChannelOptions {
+  /**
+   * Called once the channel is live again after it dropped or the tab was in
+   * the background, with the time changes may have started to be missed.
+   * Use it to backfill with a normal query.
+   */
+  onResync?: (since: Date) => void;
+  onStatusChange?: (connected: boolean) => void;
+  maxRetryDelayMs?: number;
+}
+
+const INITIAL_RETRY_DELAY_MS = 1000;
+
+/**
+ * Subscribes to a Realtime channel and keeps it subscribed: failed or closed
+ * channels are recreated with exponential backoff, and `onResync` fires
+ * whenever events may have been missed. Returns the unsubscribe function.
+ *
+ * Each subscription joins its own topic (`name` plus a random suffix):
+ * Realtime closes the earlier of two joins to the same topic on a socket,
+ * so two components watching the same rows would keep knocking each other
+ * off and resyncing.
+ */
+export function subscribeResilient(
+  client: ChannelClient,
+  name: string,
+  configure: (channel: RealtimeChannel) => RealtimeChannel,
+  { onResync, onStatusChange, maxRetryDelayMs = 30000 }: ResilientChannelOptions = {}
+) {
+  const topic = `${name}:${Math.random().toString(36).slice(2, 10)}`;
+  let channel: RealtimeChannel | null = null;
+  let retryTimer: ReturnType<typeof setTimeout> | null = null;
+  let attempts = 0;
+  let connected = false;
+  let staleSince: Date | null = null;
+  let closed = false;
+
+  const markStale = () => {
+    if (!staleSince) staleSince = new Date();
+  };
+
+  const resync = () => {
+    if (staleSince && connected) {
+      const since = staleSince;
+      staleSince = null;
+      onResync?.(since);
+    }
+  };
+
+  const scheduleReconnect = () => {
+    if (closed || retryTimer) return;
+
+    const delay = Math.min(INITIAL_RETRY_DELAY_MS * 2 ** attempts, maxRetryDelayMs);
+    attempts += 1;
+    retryTimer = setTimeout(() => {
+      retryTimer = null;
+      connect();
+    }, delay);
+  };
+
+  const connect = () => {
+    if (channel) {
+      // Drop the reference first so the old channel's CLOSED status is ignored
+      const previous = channel;
+      channel = null;
+      client.removeChannel(previous);
+    }
+
+    const current = configure(client.channel(topic));
+    channel = current;
+
+    current.subscribe((status) => {
+      if (closed || channel !== current) return;
+
+      if (status === 'SUBSCRIBED') {
+        attempts = 0;
+        connected = true;
+        onStatusChange?.(true);
+        resync();
+      } else {
+        if (connected) onStatusChange?.(false);
+        connected = false;
+        markStale();
+        scheduleReconnect();
+      }
+    });
+  };
+
+  // Background tabs get throttled and may miss events without the channel
+  // reporting an error, so treat every return to the tab as a resync point
+  const handleVisibilityChange = () => {
+    if (document.visibilityState === 'hidden') {
+      markStale();
+    } else {
+      resync();
+    }
+  };
+
+  const handleOnline = () => {
+    if (!connected && retryTimer) {
+      clearTimeout(retryTimer);
+      retryTimer = null;
+      connect();
+    }
+  };
+
+  if (typeof document !== 'undefined') {
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+  }
+  if (typeof window !== 'undefined') {
+    window.addEventListener('online', handleOnline);
+  }
+
+  connect();
+
+  return () => {
+    closed = true;
+    if (retryTimer) clearTimeout(retryTimer);
+    if (typeof document !== 'undefined') {
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    }
+    if (typeof window !== 'undefined') {
+      window.removeEventListener('online', handleOnline);
+    }
+    if (channel) {
+      const previous = channel;
+      channel = null;
+      client.removeChannel(previous);
+    }
+  };
+}
@@ -0,0 +1,66 @@
+/**
+ * Data access for request notifications delivered to blood banks
+ */
+import { supabase } from '../supabase';
+import type { TablesInsert, TablesUpdate } from '../database.types';
+
+export type PendingBloodBankNotification = Awaited<
+  ReturnType<typeof listPendingNotifications>
+>[number];
+
+export async function listPendingNotifications(bloodBankId: string) {
+  const { data, error } = await supabase
+    .from('blood_bank_notifications')
+    .select(`
+      id,
+      status,
+      created_at,
+      request:blood_bank_requests (
+        patient_name,
+        blood_type,
+        units_required
+      )
+    `)
+    .eq('blood_bank_id', bloodBankId)
+    .eq('type', 'request')
+    .eq('status', 'pending')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function listPendingExpiryAlerts(bloodBankId: string) {
+  const { data, error } = await supabase
+    .from('blood_bank_notifications')
+    .select('id, message, unit_id, created_at')
+    .eq('blood_bank_id', bloodBankId)
+    .eq('type', 'expiry_alert')
+    .eq('status', 'pending')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createBloodBankNotification(
+  notification: TablesInsert<'blood_bank_notifications'>
+) {
+  const { error } = await supabase
+    .from('blood_bank_notifications')
+    .insert(notification);
+
+  if (error) throw error;
+}
+
+export async function updateBloodBankNotification(
+  id: string,
+  changes: TablesUpdate<'blood_bank_notifications'>
+) {
+  const { error } = await supabase
+    .from('blood_bank_notifications')
+    .update(changes)
+    .eq('id', id);
+
+  if (error) throw error;
+}
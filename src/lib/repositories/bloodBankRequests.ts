@@ -0,0 +1,98 @@
+/**
+ * Data access for requests sent by recipients to blood banks
+ */
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert, TablesUpdate } from '../database.types';
+
+export type BloodBankRequestRow = Tables<'blood_bank_requests'>;
+
+export type UserBloodBankRequest = Awaited<ReturnType<typeof listRequestsForUser>>[number];
+
+export async function listRequestsForUser(userId: string) {
+  const { data, error } = await supabase
+    .from('blood_bank_requests')
+    .select(`
+      *,
+      blood_bank:blood_banks (
+        name,
+        address,
+        contact_number
+      ),
+      blood_bank_notifications (
+        id,
+        status,
+        blood_bank_confirmed,
+        units_provided,
+        blood_bank_notes
+      )
+    `)
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function listRequestsForBloodBank(bloodBankId: string) {
+  const { data, error } = await supabase
+    .from('blood_bank_requests')
+    .select(`
+      id,
+      patient_name,
+      blood_type,
+      component_type,
+      units_required,
+      hospital_name,
+      hospital_address,
+      contact_person,
+      contact_number,
+      urgency_level,
+      status,
+      created_at,
+      notes,
+      blood_bank_notifications!blood_bank_notifications_request_id_fkey (
+        id,
+        status,
+        blood_bank_confirmed
+      )
+    `)
+    .eq('blood_bank_id', bloodBankId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getBloodBankRequest(id: string) {
+  const { data, error } = await supabase
+    .from('blood_bank_requests')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function createBloodBankRequest(request: TablesInsert<'blood_bank_requests'>) {
+  const { data, error } = await supabase
+    .from('blood_bank_requests')
+    .insert(request)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateBloodBankRequest(
+  id: string,
+  changes: TablesUpdate<'blood_bank_requests'>
+) {
+  const { error } = await supabase
+    .from('blood_bank_requests')
+    .update(changes)
+    .eq('id', id);
+
+  if (error) throw error;
+}
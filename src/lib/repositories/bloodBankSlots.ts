@@ -0,0 +1,68 @@
+/**
+ * Data access for the weekly donation slots blood banks open for booking
+ */
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert } from '../database.types';
+
+export type BloodBankSlotRow = Tables<'blood_bank_slots'>;
+
+/** Slots added one by one; those generated from templates are left out */
+export async function listSlotsForBloodBank(bloodBankId: string) {
+  const { data, error } = await supabase
+    .from('blood_bank_slots')
+    .select('*')
+    .eq('blood_bank_id', bloodBankId)
+    .is('template_id', null)
+    .order('day_of_week_text', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/** Open slots on a weekday, with the blood bank offering each one */
+export async function listOpenBloodBankSlotsOnDay(dayOfWeek: string) {
+  const { data, error } = await supabase
+    .from('blood_bank_slots')
+    .select(`
+      id,
+      blood_bank_id,
+      day_of_week,
+      start_time,
+      end_time,
+      capacity,
+      blood_bank:blood_banks(
+        id,
+        name,
+        address,
+        city,
+        state,
+        phone,
+        operating_hours,
+        latitude,
+        longitude,
+        is_verified
+      )
+    `)
+    .eq('day_of_week_text', dayOfWeek)
+    .gt('capacity', 0);
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createBloodBankSlot(slot: TablesInsert<'blood_bank_slots'>) {
+  const { data, error } = await supabase
+    .from('blood_bank_slots')
+    .insert(slot)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteBloodBankSlot(id: string) {
+  const { error } = await supabase.from('blood_bank_slots').delete().eq('id', id);
+
+  if (error) throw error;
+}
@@ -0,0 +1,136 @@
+/**
+ * Data access for the blood_banks table
+ */
+import { supabase } from '../supabase';
+import type { Functions, Tables, TablesInsert } from '../database.types';
+
+export type BloodBankRow = Tables<'blood_banks'>;
+export type BloodBankSummary = Awaited<ReturnType<typeof listBloodBanks>>[number];
+export type BloodBankWithSlots = Functions<'find_blood_banks_with_slots'>['Returns'][number];
+
+export async function getBloodBank(id: string) {
+  const { data, error } = await supabase
+    .from('blood_banks')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function getBloodBankByUserId(userId: string) {
+  const { data, error } = await supabase
+    .from('blood_banks')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function listBloodBanks() {
+  const { data, error } = await supabase
+    .from('blood_banks')
+    .select('id, name, address, city, state')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function listActiveBloodBanks() {
+  const { data, error } = await supabase
+    .from('blood_banks')
+    .select('id, name')
+    .eq('status', 'active')
+    .order('name');
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Active blood banks with a known location, for alerting those nearby
+ */
+export async function listBloodBanksWithLocation() {
+  const { data, error } = await supabase
+    .from('blood_banks')
+    .select('id, user_id, name, latitude, longitude')
+    .eq('status', 'active')
+    .not('latitude', 'is', null)
+    .not('longitude', 'is', null);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Active blood banks with a known location and how to reach them, for maps
+ */
+export async function listBloodBankContactsWithLocation() {
+  const { data, error } = await supabase
+    .from('blood_banks')
+    .select('id, name, address, contact_number, latitude, longitude')
+    .eq('status', 'active')
+    .not('latitude', 'is', null)
+    .not('longitude', 'is', null);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Active blood banks holding at least `units` units of the given blood type
+ * and component
+ */
+export async function listBloodBanksWithStock(
+  bloodType: string,
+  units: number,
+  componentType = 'whole_blood'
+) {
+  const { data, error } = await supabase
+    .from('blood_banks')
+    .select(`
+      *,
+      blood_inventory!inner (
+        units_available
+      )
+    `)
+    .eq('status', 'active')
+    .eq('blood_inventory.blood_type', bloodType)
+    .eq('blood_inventory.component_type', componentType)
+    .gte('blood_inventory.units_available', units);
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createBloodBank(bloodBank: TablesInsert<'blood_banks'>) {
+  const { data, error } = await supabase
+    .from('blood_banks')
+    .insert(bloodBank)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function findBloodBanksWithSlots(
+  date: string,
+  latitude: number,
+  longitude: number,
+  radiusKm: number
+) {
+  const { data, error } = await supabase.rpc('find_blood_banks_with_slots', {
+    p_date: date,
+    p_donor_latitude: latitude,
+    p_donor_longitude: longitude,
+    p_radius_km: radiusKm,
+  });
+
+  if (error) throw error;
+  return data || [];
+}
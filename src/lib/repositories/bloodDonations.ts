@@ -0,0 +1,78 @@
+/**
+ * Data access for completed donations against emergency requests
+ */
+import { supabase } from '../supabase';
+import type { TablesInsert, TablesUpdate } from '../database.types';
+
+export type DonationWithCertificates = Awaited<
+  ReturnType<typeof listDonationsWithCertificates>
+>[number];
+
+export async function listDonationsWithCertificates(donorId: string) {
+  const { data, error } = await supabase
+    .from('blood_donations')
+    .select(`
+      id,
+      donation_date,
+      units_donated,
+      hospital_name,
+      hospital_address,
+      blood_type,
+      verification_status,
+      donor_confirmed,
+      recipient_confirmed,
+      patient_name,
+      points_earned,
+      donation_certificates (
+        certificate_number,
+        certificate_url,
+        issued_at
+      )
+    `)
+    .eq('donor_id', donorId)
+    .order('donation_date', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createBloodDonation(donation: TablesInsert<'blood_donations'>) {
+  const { data, error } = await supabase
+    .from('blood_donations')
+    .insert(donation)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateBloodDonation(
+  id: string,
+  changes: TablesUpdate<'blood_donations'>
+) {
+  const { error } = await supabase
+    .from('blood_donations')
+    .update(changes)
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function handleDonationConfirmation(
+  requestId: string,
+  donorId: string,
+  unitsDonated: number,
+  hospitalName: string,
+  hospitalAddress: string
+) {
+  const { error } = await supabase.rpc('handle_donation_confirmation', {
+    p_request_id: requestId,
+    p_donor_id: donorId,
+    p_units_donated: unitsDonated,
+    p_hospital_name: hospitalName,
+    p_hospital_address: hospitalAddress,
+  });
+
+  if (error) throw error;
+}
@@ -0,0 +1,83 @@
+/**
+ * Data access for per-blood-type stock levels held by blood banks. Levels are
+ * derived from the `blood_units` ledger by trigger; change stock through
+ * ./bloodUnits instead of writing here.
+ */
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert } from '../database.types';
+
+export type BloodInventoryRow = Tables<'blood_inventory'>;
+
+export async function listInventory(bloodBankId: string) {
+  const { data, error } = await supabase
+    .from('blood_inventory')
+    .select('*')
+    .eq('blood_bank_id', bloodBankId)
+    .order('blood_type')
+    .order('component_type');
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Unit counts per blood type and component, optionally limited to a single
+ * blood bank
+ */
+export async function listInventoryLevels(bloodBankId?: string) {
+  let query = supabase
+    .from('blood_inventory')
+    .select('blood_type, component_type, units_available');
+
+  if (bloodBankId) {
+    query = query.eq('blood_bank_id', bloodBankId);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getUnitsAvailable(
+  bloodBankId: string,
+  bloodType: string,
+  componentType = 'whole_blood'
+) {
+  const { data, error } = await supabase
+    .from('blood_inventory')
+    .select('units_available')
+    .eq('blood_bank_id', bloodBankId)
+    .eq('blood_type', bloodType)
+    .eq('component_type', componentType)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.units_available ?? 0;
+}
+
+/**
+ * Total usable units across several donor blood types for one component
+ */
+export async function countCompatibleUnits(
+  bloodBankId: string,
+  bloodTypes: string[],
+  componentType = 'whole_blood'
+) {
+  const { data, error } = await supabase
+    .from('blood_inventory')
+    .select('units_available')
+    .eq('blood_bank_id', bloodBankId)
+    .in('blood_type', bloodTypes)
+    .eq('component_type', componentType);
+
+  if (error) throw error;
+  return (data || []).reduce((sum, row) => sum + row.units_available, 0);
+}
+
+/** Empty stock rows for a newly registered blood bank, before any units are logged */
+export async function createInventoryLevels(levels: TablesInsert<'blood_inventory'>[]) {
+  const { error } = await supabase.from('blood_inventory').insert(levels);
+
+  if (error) throw error;
+}
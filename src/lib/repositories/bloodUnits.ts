@@ -0,0 +1,148 @@
+/**
+ * Data access for the per-unit blood ledger and its audit trail
+ */
+import { addDays, format } from 'date-fns';
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert } from '../database.types';
+
+export type BloodUnitRow = Tables<'blood_units'>;
+export type BloodUnitEventRow = Tables<'blood_unit_events'>;
+export type BloodUnitStatus = 'available' | 'reserved' | 'issued' | 'discarded';
+
+export async function listBloodUnits(bloodBankId: string, status?: BloodUnitStatus) {
+  let query = supabase
+    .from('blood_units')
+    .select('*')
+    .eq('blood_bank_id', bloodBankId);
+
+  if (status) {
+    query = query.eq('status', status);
+  }
+
+  const { data, error } = await query.order('expiry_date');
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Available units that expire within `days` days, including ones already
+ * past expiry that have not been discarded yet
+ */
+export async function listExpiringUnits(bloodBankId: string, days: number) {
+  const { data, error } = await supabase
+    .from('blood_units')
+    .select('*')
+    .eq('blood_bank_id', bloodBankId)
+    .eq('status', 'available')
+    .lte('expiry_date', format(addDays(new Date(), days), 'yyyy-MM-dd'))
+    .order('expiry_date');
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Usable units `issue_blood_units` could pick for a request; the bags it
+ * would issue are chosen from these by `pickUnitsToIssue`
+ */
+export async function listAllocatableUnits(
+  bloodBankId: string,
+  bloodTypes: string[],
+  componentType: string
+) {
+  const { data, error } = await supabase
+    .from('blood_units')
+    .select('*')
+    .eq('blood_bank_id', bloodBankId)
+    .in('blood_type', bloodTypes)
+    .eq('component_type', componentType)
+    .eq('status', 'available')
+    .gte('expiry_date', format(new Date(), 'yyyy-MM-dd'));
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function countDiscardedUnits(bloodBankId: string, since: Date) {
+  const { count, error } = await supabase
+    .from('blood_unit_events')
+    .select('id', { count: 'exact', head: true })
+    .eq('blood_bank_id', bloodBankId)
+    .eq('event_type', 'discarded')
+    .gte('created_at', since.toISOString());
+
+  if (error) throw error;
+  return count || 0;
+}
+
+export async function receiveBloodUnit(unit: TablesInsert<'blood_units'>) {
+  const { data, error } = await supabase
+    .from('blood_units')
+    .insert(unit)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function discardBloodUnit(id: string, reason: string) {
+  const { error } = await supabase
+    .from('blood_units')
+    .update({
+      status: 'discarded',
+      notes: reason,
+      updated_at: new Date().toISOString(),
+    })
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+/**
+ * Accepts a blood bank request notification: issues specific bags, oldest
+ * compatible units first, records them on the notification and moves the
+ * request to accepted, all in one transaction. Fails without touching stock
+ * when there are not enough units.
+ */
+export async function confirmBloodBankProvision(
+  notificationId: string,
+  units: number,
+  notes?: string
+) {
+  const { data, error } = await supabase.rpc('confirm_blood_bank_provision', {
+    p_notification_id: notificationId,
+    p_units: units,
+    p_notes: notes,
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Raises expiry alerts in blood_bank_notifications for units within `days`
+ * days of expiry; returns how many new alerts were created
+ */
+export async function notifyExpiringUnits(bloodBankId: string, days: number) {
+  const { data, error } = await supabase.rpc('notify_expiring_blood_units', {
+    p_days: days,
+    p_blood_bank_id: bloodBankId,
+  });
+
+  if (error) throw error;
+  return data ?? 0;
+}
+
+export async function listBloodUnitEvents(bloodBankId: string, limit = 20) {
+  const { data, error } = await supabase
+    .from('blood_unit_events')
+    .select('*, unit:blood_units (bag_id, blood_type)')
+    .eq('blood_bank_id', bloodBankId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+}
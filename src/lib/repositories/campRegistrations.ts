@@ -0,0 +1,11 @@
+/**
+ * Data access for participant sign-ups to donation camps
+ */
+import { supabase } from '../supabase';
+import type { TablesInsert } from '../database.types';
+
+export async function createCampRegistration(registration: TablesInsert<'camp_registrations'>) {
+  const { error } = await supabase.from('camp_registrations').insert(registration);
+
+  if (error) throw error;
+}
@@ -0,0 +1,51 @@
+/**
+ * Data access for messages inside a chat room
+ */
+import { supabase } from '../supabase';
+import type { Tables } from '../database.types';
+
+export type ChatMessageRow = Tables<'chat_messages'>;
+
+export async function listRoomMessages(roomId: string) {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select('*')
+    .eq('room_id', roomId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function sendRoomMessage(roomId: string, senderId: string, message: string) {
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .insert({
+      room_id: roomId,
+      sender_id: senderId,
+      message,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function markMessageRead(id: string) {
+  const { error } = await supabase
+    .from('chat_messages')
+    .update({ read_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function markRoomMessagesAsRead(roomId: string, userId: string) {
+  const { error } = await supabase.rpc('mark_room_messages_as_read', {
+    p_room_id: roomId,
+    p_user_id: userId,
+  });
+
+  if (error) throw error;
+}
@@ -0,0 +1,34 @@
+/**
+ * Data access for one-to-one chat rooms between donors and requesters
+ */
+import { supabase } from '../supabase';
+import type { TablesInsert } from '../database.types';
+
+/**
+ * Finds the room shared by two users regardless of which one is the donor
+ */
+export async function findChatRoomBetween(userId: string, otherUserId: string) {
+  const { data, error } = await supabase
+    .from('chat_rooms')
+    .select('id')
+    .or(
+      `and(donor_id.eq.${otherUserId},requester_id.eq.${userId}),` +
+        `and(donor_id.eq.${userId},requester_id.eq.${otherUserId})`
+    )
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.id ?? null;
+}
+
+export async function createChatRoom(room: TablesInsert<'chat_rooms'>) {
+  const { data, error } = await supabase
+    .from('chat_rooms')
+    .insert(room)
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data.id;
+}
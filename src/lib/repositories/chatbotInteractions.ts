@@ -0,0 +1,11 @@
+/**
+ * Data access for the assistant chatbot transcript log
+ */
+import { supabase } from '../supabase';
+import type { TablesInsert } from '../database.types';
+
+export async function logChatbotInteraction(interaction: TablesInsert<'chatbot_interactions'>) {
+  const { error } = await supabase.from('chatbot_interactions').insert(interaction);
+
+  if (error) throw error;
+}
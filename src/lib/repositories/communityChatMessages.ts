@@ -0,0 +1,39 @@
+/**
+ * Data access for the community-wide chat
+ */
+import { supabase } from '../supabase';
+import type { Tables } from '../database.types';
+
+export type CommunityChatMessageRow = Tables<'community_chat_messages'>;
+
+export async function listCommunityMessages() {
+  const { data, error } = await supabase
+    .from('community_chat_messages')
+    .select('*')
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function sendCommunityMessage(userId: string, message: string) {
+  const { data, error } = await supabase
+    .from('community_chat_messages')
+    .insert({
+      user_id: userId,
+      message,
+    })
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function markCommunityMessagesAsRead(userId: string) {
+  const { error } = await supabase.rpc('mark_community_messages_as_read', {
+    p_user_id: userId,
+  });
+
+  if (error) throw error;
+}
@@ -0,0 +1,11 @@
+/**
+ * Data access for direct contact requests sent to a donor
+ */
+import { supabase } from '../supabase';
+import type { TablesInsert } from '../database.types';
+
+export async function createContactRequest(request: TablesInsert<'contact_requests'>) {
+  const { error } = await supabase.from('contact_requests').insert(request);
+
+  if (error) throw error;
+}
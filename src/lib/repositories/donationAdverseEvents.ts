@@ -0,0 +1,27 @@
+/**
+ * Data access for adverse reactions recorded at hospital donations
+ */
+import { supabase } from '../supabase';
+
+export async function listAdverseEventsForHospital(hospitalId: string, since: Date) {
+  const { data, error } = await supabase
+    .from('donation_adverse_events')
+    .select(`
+      id,
+      reaction,
+      severity,
+      notes,
+      deferral_condition,
+      occurred_at,
+      donors (
+        first_name,
+        last_name
+      )
+    `)
+    .eq('hospital_id', hospitalId)
+    .gte('occurred_at', since.toISOString())
+    .order('occurred_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
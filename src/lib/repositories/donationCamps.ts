@@ -0,0 +1,24 @@
+/**
+ * Data access for community-organised donation camps
+ */
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert } from '../database.types';
+
+export type DonationCampRow = Tables<'donation_camps'>;
+
+export async function listUpcomingCamps(fromDate: string) {
+  const { data, error } = await supabase
+    .from('donation_camps')
+    .select('*')
+    .gte('camp_date', fromDate)
+    .order('camp_date', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createDonationCamp(camp: TablesInsert<'donation_camps'>) {
+  const { error } = await supabase.from('donation_camps').insert(camp);
+
+  if (error) throw error;
+}
@@ -0,0 +1,30 @@
+/**
+ * Data access for certificates issued against confirmed donations
+ */
+import { supabase } from '../supabase';
+import type { TablesInsert } from '../database.types';
+
+export type VerifiedCertificate = NonNullable<
+  Awaited<ReturnType<typeof verifyDonationCertificate>>
+>;
+
+export async function createDonationCertificate(
+  certificate: TablesInsert<'donation_certificates'>
+) {
+  const { error } = await supabase.from('donation_certificates').insert(certificate);
+
+  if (error) throw error;
+}
+
+/**
+ * Public lookup by certificate number; resolves to null when no certificate
+ * with that number exists
+ */
+export async function verifyDonationCertificate(certificateNumber: string) {
+  const { data, error } = await supabase.rpc('verify_donation_certificate', {
+    p_certificate_number: certificateNumber,
+  });
+
+  if (error) throw error;
+  return data?.[0] ?? null;
+}
@@ -0,0 +1,52 @@
+/**
+ * Data access for donor appointments arranged against emergency requests
+ */
+import { supabase } from '../supabase';
+import type { TablesInsert, TablesUpdate } from '../database.types';
+
+export type DonationScheduleWithDonor = Awaited<
+  ReturnType<typeof listSchedulesForRequest>
+>[number];
+
+export async function listSchedulesForRequest(requestId: string, requesterId: string) {
+  const { data, error } = await supabase
+    .from('donation_schedules')
+    .select(`
+      *,
+      donor:donors (
+        first_name,
+        last_name,
+        blood_type,
+        phone
+      )
+    `)
+    .eq('emergency_request_id', requestId)
+    .eq('requester_id', requesterId)
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createDonationSchedule(schedule: TablesInsert<'donation_schedules'>) {
+  const { data, error } = await supabase
+    .from('donation_schedules')
+    .insert(schedule)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateDonationSchedule(
+  id: string,
+  changes: TablesUpdate<'donation_schedules'>
+) {
+  const { error } = await supabase
+    .from('donation_schedules')
+    .update(changes)
+    .eq('id', id);
+
+  if (error) throw error;
+}
@@ -0,0 +1,72 @@
+/**
+ * Data access for donors' weekly availability windows and snoozes
+ */
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert } from '../database.types';
+
+export type AvailabilityWindowRow = Tables<'donor_availability_windows'>;
+export type DonorSnoozeRow = Tables<'donor_snoozes'>;
+
+export async function listAvailabilityWindows(donorId: string) {
+  const { data, error } = await supabase
+    .from('donor_availability_windows')
+    .select('*')
+    .eq('donor_id', donorId)
+    .order('weekday', { ascending: true })
+    .order('start_time', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Replaces all of a donor's windows with `windows`
+ */
+export async function saveAvailabilityWindows(
+  donorId: string,
+  windows: Omit<TablesInsert<'donor_availability_windows'>, 'donor_id'>[]
+) {
+  const { error: deleteError } = await supabase
+    .from('donor_availability_windows')
+    .delete()
+    .eq('donor_id', donorId);
+
+  if (deleteError) throw deleteError;
+  if (windows.length === 0) return;
+
+  const { error } = await supabase
+    .from('donor_availability_windows')
+    .insert(windows.map((window) => ({ ...window, donor_id: donorId })));
+
+  if (error) throw error;
+}
+
+/** Snoozes that have not ended yet, soonest first */
+export async function listUpcomingSnoozes(donorId: string) {
+  const { data, error } = await supabase
+    .from('donor_snoozes')
+    .select('*')
+    .eq('donor_id', donorId)
+    .gt('ends_at', new Date().toISOString())
+    .order('starts_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createSnooze(snooze: TablesInsert<'donor_snoozes'>) {
+  const { data, error } = await supabase
+    .from('donor_snoozes')
+    .insert(snooze)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function deleteSnooze(id: string) {
+  const { error } = await supabase.from('donor_snoozes').delete().eq('id', id);
+
+  if (error) throw error;
+}
@@ -0,0 +1,79 @@
+/**
+ * Data access for the donor_responses table (donation offers on emergency requests)
+ */
+import { supabase } from '../supabase';
+import type { TablesInsert, TablesUpdate } from '../database.types';
+
+const OFFER_WITH_DONOR = `
+  id,
+  request_id,
+  donor_id,
+  status,
+  donor:donors (
+    id,
+    first_name,
+    last_name,
+    blood_type,
+    phone
+  )
+`;
+
+export type DonationOfferWithDonor = Awaited<ReturnType<typeof listOffersForRequest>>[number];
+
+export async function listOffersForRequest(requestId: string) {
+  const { data, error } = await supabase
+    .from('donor_responses')
+    .select(OFFER_WITH_DONOR)
+    .eq('request_id', requestId);
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function findDonorResponse(requestId: string, donorId: string) {
+  const { data, error } = await supabase
+    .from('donor_responses')
+    .select('*')
+    .eq('request_id', requestId)
+    .eq('donor_id', donorId)
+    .limit(1)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function createDonorResponse(response: TablesInsert<'donor_responses'>) {
+  const { data, error } = await supabase
+    .from('donor_responses')
+    .insert(response)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateDonorResponse(id: string, changes: TablesUpdate<'donor_responses'>) {
+  const { error } = await supabase
+    .from('donor_responses')
+    .update(changes)
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+/** Rejects the offers on a request still waiting for an answer, except `keepResponseId` */
+export async function rejectPendingOffers(requestId: string, keepResponseId: string) {
+  const { error } = await supabase
+    .from('donor_responses')
+    .update({
+      status: 'rejected',
+      rejected_at: new Date().toISOString(),
+    })
+    .eq('request_id', requestId)
+    .eq('status', 'pending')
+    .neq('id', keepResponseId);
+
+  if (error) throw error;
+}
@@ -0,0 +1,43 @@
+/**
+ * Data access for donor reward points, tiers and achievements
+ */
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert } from '../database.types';
+
+export type Achievement = {
+  id: string;
+  title: string;
+  description: string;
+  date_earned: string;
+  icon?: string;
+};
+
+export type DonorRewardsRow = Omit<Tables<'donor_rewards'>, 'achievements'> & {
+  achievements: Achievement[];
+};
+
+export async function getDonorRewards(donorId: string): Promise<DonorRewardsRow | null> {
+  const { data, error } = await supabase
+    .from('donor_rewards')
+    .select('*')
+    .eq('donor_id', donorId)
+    .maybeSingle();
+
+  if (error) throw error;
+  if (!data) return null;
+
+  return {
+    ...data,
+    achievements: (data.achievements ?? []) as unknown as Achievement[],
+  };
+}
+
+export async function upsertDonorRewards(
+  rewards: Omit<TablesInsert<'donor_rewards'>, 'achievements'> & { achievements?: Achievement[] }
+) {
+  const { error } = await supabase
+    .from('donor_rewards')
+    .upsert(rewards, { onConflict: 'donor_id' });
+
+  if (error) throw error;
+}
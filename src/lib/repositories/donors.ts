@@ -0,0 +1,265 @@
+/**
+ * Data access for the donors table and the donor-related RPCs
+ */
+import { supabase } from '../supabase';
+import type { Functions, Tables, TablesInsert, TablesUpdate } from '../database.types';
+
+export type Donor = Tables<'donors'>;
+export type DonorProfileData = Functions<'get_donor_profile_data'>['Returns'][number];
+
+export interface DonorSearchOptions {
+  excludeDonorId?: string;
+  bloodType?: string;
+  /** Only donors of these blood types, e.g. from `getCompatibleBloodTypes` */
+  bloodTypes?: string[];
+  /** Only donors who can be asked right now, checked by `search_donors` */
+  availableOnly?: boolean;
+  eligibleSince?: Date;
+  page?: number;
+  pageSize?: number;
+}
+
+export async function getDonorById(id: string) {
+  const { data, error } = await supabase
+    .from('donors')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function getDonorByUserId(userId: string) {
+  const { data, error } = await supabase
+    .from('donors')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function getDonorIdByUserId(userId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('donors')
+    .select('id')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.id ?? null;
+}
+
+export async function getDonorUserId(donorId: string): Promise<string | null> {
+  const { data, error } = await supabase
+    .from('donors')
+    .select('user_id')
+    .eq('id', donorId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data?.user_id ?? null;
+}
+
+/**
+ * Paginated search over active donors, returning the page and the total count
+ */
+export async function searchDonors(options: DonorSearchOptions = {}) {
+  const { page = 1, pageSize = 10 } = options;
+
+  let query = supabase.rpc(
+    'search_donors',
+    { p_available_only: options.availableOnly ?? false },
+    { count: 'exact' }
+  );
+
+  if (options.excludeDonorId) {
+    query = query.neq('id', options.excludeDonorId);
+  }
+
+  if (options.bloodType) {
+    query = query.eq('blood_type', options.bloodType);
+  }
+
+  if (options.bloodTypes) {
+    query = query.in('blood_type', options.bloodTypes);
+  }
+
+  if (options.eligibleSince) {
+    query = query.or(
+      `last_donation_date.lt.${options.eligibleSince.toISOString()},last_donation_date.is.null`
+    );
+  }
+
+  const from = (page - 1) * pageSize;
+  const { data, error, count } = await query.range(from, from + pageSize - 1);
+
+  if (error) throw error;
+  return { donors: data || [], count: count || 0 };
+}
+
+export async function listAvailableDonorsWithLocation() {
+  const { data, error } = await supabase
+    .from('donors')
+    .select('*')
+    .eq('is_available', true)
+    .not('latitude', 'is', null)
+    .not('longitude', 'is', null);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Active donors with a known location, optionally only those whose blood
+ * type is one of `bloodTypes`
+ */
+export async function listActiveDonorsWithLocation(bloodTypes?: string[]) {
+  let query = supabase
+    .from('donors')
+    .select('*')
+    .eq('status', 'active')
+    .not('latitude', 'is', null)
+    .not('longitude', 'is', null);
+
+  if (bloodTypes) {
+    query = query.in('blood_type', bloodTypes);
+  }
+
+  const { data, error } = await query;
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function listDonorsByIds(ids: string[]) {
+  if (ids.length === 0) return [];
+
+  const { data, error } = await supabase.from('donors').select('*').in('id', ids);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Active donors whose blood type is one of `bloodTypes`, for client-side ranking
+ */
+export async function listMatchCandidates(bloodTypes: string[]) {
+  const { data, error } = await supabase
+    .from('donors')
+    .select('*')
+    .eq('status', 'active')
+    .in('blood_type', bloodTypes);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Ids of donors who can be asked right now, honouring their availability
+ * windows and snoozes. For emergencies, donors on call are included
+ * outside their windows. Pass `donorIds` to check only those donors.
+ */
+export async function listAvailableDonorIds(emergency = false, donorIds?: string[]) {
+  if (donorIds?.length === 0) return [];
+
+  const { data, error } = await supabase.rpc('list_available_donor_ids', {
+    p_emergency: emergency,
+    p_donor_ids: donorIds,
+  });
+
+  if (error) throw error;
+  return (data || []).map((row) => row.donor_id);
+}
+
+export interface NearbyDonorSearch {
+  latitude: number;
+  longitude: number;
+  radiusKm: number;
+  /** Only these blood types, e.g. from `getCompatibleBloodTypes` */
+  bloodTypes?: string[];
+  /** Only donors who can be asked right now, see `listAvailableDonorIds` */
+  availableOnly?: boolean;
+  emergency?: boolean;
+  limit?: number;
+}
+
+/**
+ * Ids and distances of active donors within `radiusKm`, nearest first,
+ * searched with PostGIS where the database has it
+ */
+export async function findNearbyDonors(search: NearbyDonorSearch) {
+  const { data, error } = await supabase.rpc('find_nearby_donors', {
+    p_latitude: search.latitude,
+    p_longitude: search.longitude,
+    p_radius_km: search.radiusKm,
+    p_blood_types: search.bloodTypes,
+    p_available_only: search.availableOnly,
+    p_emergency: search.emergency,
+    p_limit: search.limit,
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createDonor(donor: TablesInsert<'donors'>) {
+  const { data, error } = await supabase
+    .from('donors')
+    .insert(donor)
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateDonor(id: string, changes: TablesUpdate<'donors'>) {
+  const { error } = await supabase.from('donors').update(changes).eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function getDonorProfileData(userId: string) {
+  const { data, error } = await supabase.rpc('get_donor_profile_data', {
+    p_user_id: userId,
+  });
+
+  if (error) throw error;
+  return data?.[0] ?? null;
+}
+
+export async function updateDonorLocation(
+  donorId: string,
+  latitude: number,
+  longitude: number,
+  accuracy: number | null = null
+) {
+  const { error } = await supabase.rpc('update_donor_location', {
+    p_donor_id: donorId,
+    p_latitude: latitude,
+    p_longitude: longitude,
+    p_accuracy: accuracy,
+  });
+
+  if (error) throw error;
+}
+
+export async function findMatchingDonors(
+  bloodType: string,
+  latitude: number,
+  longitude: number,
+  radiusKm: number
+) {
+  const { data, error } = await supabase.rpc('find_matching_donors', {
+    p_blood_type: bloodType,
+    lat: latitude,
+    lng: longitude,
+    radius_km: radiusKm,
+  });
+
+  if (error) throw error;
+  return data;
+}
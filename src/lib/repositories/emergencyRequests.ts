@@ -0,0 +1,51 @@
+/**
+ * Data access for the emergency_requests table
+ */
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert, TablesUpdate } from '../database.types';
+
+export type EmergencyRequestRow = Tables<'emergency_requests'>;
+
+export async function listEmergencyRequests() {
+  const { data, error } = await supabase
+    .from('emergency_requests')
+    .select('*')
+    .order('created_at', { ascending: false });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getEmergencyRequest(id: string) {
+  const { data, error } = await supabase
+    .from('emergency_requests')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function createEmergencyRequest(request: TablesInsert<'emergency_requests'>) {
+  const { data, error } = await supabase
+    .from('emergency_requests')
+    .insert(request)
+    .select('id')
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateEmergencyRequest(
+  id: string,
+  changes: TablesUpdate<'emergency_requests'>
+) {
+  const { error } = await supabase
+    .from('emergency_requests')
+    .update(changes)
+    .eq('id', id);
+
+  if (error) throw error;
+}
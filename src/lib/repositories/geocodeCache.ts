@@ -0,0 +1,17 @@
+/**
+ * Data access for the geocode cache shared by all users. Rows are written by
+ * the ola-maps-proxy Edge Function only, and read one address at a time.
+ */
+import { supabase } from '../supabase';
+import type { Tables } from '../database.types';
+
+export type GeocodeCacheRow = Tables<'geocode_cache'>;
+
+export async function getGeocodeCacheEntry(addressKey: string) {
+  const { data, error } = await supabase
+    .rpc('get_cached_geocode', { p_address_key: addressKey })
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
@@ -0,0 +1,23 @@
+/**
+ * Data access for the secret tokens behind hospital calendar feeds
+ */
+import { supabase } from '../supabase';
+
+/**
+ * The hospital's feed token, created on first use. `reset` replaces it,
+ * so calendars subscribed to the old URL stop updating.
+ */
+export async function getHospitalCalendarFeedToken(hospitalId: string, reset = false) {
+  const { data, error } = await supabase.rpc('get_hospital_calendar_feed_token', {
+    p_hospital_id: hospitalId,
+    p_reset: reset,
+  });
+
+  if (error) throw error;
+  return data;
+}
+
+/** Subscription URL served by the hospital-calendar-feed Edge Function */
+export function getHospitalCalendarFeedUrl(token: string) {
+  return `${import.meta.env.VITE_SUPABASE_URL}/functions/v1/hospital-calendar-feed?token=${token}`;
+}
@@ -0,0 +1,76 @@
+/**
+ * Data access for the recurring donation slots hospitals open for booking
+ */
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert } from '../database.types';
+
+export type HospitalDonationSlotRow = Tables<'hospital_donation_slots'>;
+
+/** Slots added one by one; those generated from templates are left out */
+export async function listSlotsForHospital(hospitalId: string) {
+  const { data, error } = await supabase
+    .from('hospital_donation_slots')
+    .select('*')
+    .eq('hospital_id', hospitalId)
+    .is('template_id', null)
+    .order('day_of_week');
+
+  if (error) throw error;
+  return data || [];
+}
+
+/** Open slots on a weekday, with the hospital offering each one */
+export async function listOpenHospitalSlotsOnDay(dayOfWeek: string) {
+  const { data, error } = await supabase
+    .from('hospital_donation_slots')
+    .select(`
+      id,
+      hospital_id,
+      day_of_week,
+      start_time,
+      end_time,
+      capacity,
+      hospital:hospitals(
+        id,
+        name,
+        address,
+        phone,
+        email,
+        operating_hours,
+        latitude,
+        longitude,
+        is_license_verified
+      )
+    `)
+    .eq('day_of_week', dayOfWeek)
+    .gt('capacity', 0);
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createHospitalDonationSlot(slot: TablesInsert<'hospital_donation_slots'>) {
+  const { data, error } = await supabase
+    .from('hospital_donation_slots')
+    .insert(slot)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Deletes a slot unless donations reference it. Returns false when the slot is
+ * in use and `handleExisting` was not set; with `handleExisting` pending
+ * donations are cancelled and completed ones detached before deleting.
+ */
+export async function safeDeleteDonationSlot(slotId: string, handleExisting = false) {
+  const { data, error } = await supabase.rpc('safe_delete_donation_slot', {
+    p_slot_id: slotId,
+    p_handle_existing: handleExisting,
+  });
+
+  if (error) throw error;
+  return data;
+}
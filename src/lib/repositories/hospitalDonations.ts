@@ -0,0 +1,160 @@
+/**
+ * Data access for donations booked at hospitals and the hospital verification RPCs
+ */
+import { supabase } from '../supabase';
+import type { Functions, TablesUpdate } from '../database.types';
+
+export type HospitalScheduledDonation =
+  Functions<'get_hospital_scheduled_donations'>['Returns'][number];
+
+export async function listHospitalDonationsForDonor(donorId: string) {
+  const { data, error } = await supabase
+    .from('hospital_donations')
+    .select(`
+      id,
+      slot_id,
+      donation_date,
+      scheduled_time,
+      scheduled_at,
+      status,
+      notes,
+      hospitals:hospital_id (
+        id,
+        name,
+        address,
+        latitude,
+        longitude,
+        timezone
+      )
+    `)
+    .eq('donor_id', donorId)
+    .order('donation_date', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function listDonationsNeedingBloodTest(hospitalId: string) {
+  const { data, error } = await supabase
+    .from('hospital_donations')
+    .select(`
+      id,
+      donor_id,
+      donation_date,
+      status,
+      blood_group_before_test,
+      blood_group_after_test,
+      verified_at,
+      verified_by,
+      needs_blood_test,
+      pre_donation_questionnaire,
+      donors (
+        id,
+        first_name,
+        last_name,
+        blood_type,
+        needs_blood_test
+      )
+    `)
+    .eq('hospital_id', hospitalId)
+    .eq('status', 'completed')
+    .or('needs_blood_test.eq.true,blood_group_after_test.is.null');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function listBloodTestFlags(ids: string[]) {
+  const { data, error } = await supabase
+    .from('hospital_donations')
+    .select('id, needs_blood_test')
+    .in('id', ids);
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function listPreDonationQuestionnaires(ids: string[]) {
+  const { data, error } = await supabase
+    .from('hospital_donations')
+    .select('id, pre_donation_questionnaire')
+    .in('id', ids);
+
+  if (error) throw error;
+  return data || [];
+}
+
+/** The instant each booking starts, for calendar files written in UTC */
+export async function listHospitalDonationStartTimes(ids: string[]) {
+  const { data, error } = await supabase
+    .from('hospital_donations')
+    .select('id, scheduled_at')
+    .in('id', ids);
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function updateHospitalDonation(
+  id: string,
+  changes: TablesUpdate<'hospital_donations'>
+) {
+  const { error } = await supabase
+    .from('hospital_donations')
+    .update(changes)
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function getHospitalScheduledDonations(hospitalId: string) {
+  const { data, error } = await supabase.rpc('get_hospital_scheduled_donations', {
+    p_hospital_id: hospitalId,
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function verifyHospitalDonation(
+  args: Functions<'verify_hospital_donation'>['Args']
+) {
+  const { data, error } = await supabase.rpc('verify_hospital_donation', args);
+
+  if (error) throw error;
+  return data;
+}
+
+export async function recordDonationVitals(
+  args: Functions<'record_donation_vitals'>['Args']
+) {
+  const { error } = await supabase.rpc('record_donation_vitals', args);
+
+  if (error) throw error;
+}
+
+export async function countCompletedHospitalDonations(hospitalId: string, since: Date) {
+  const { count, error } = await supabase
+    .from('hospital_donations')
+    .select('id', { count: 'exact', head: true })
+    .eq('hospital_id', hospitalId)
+    .eq('status', 'completed')
+    .gte('donation_date', since.toISOString().split('T')[0]);
+
+  if (error) throw error;
+  return count || 0;
+}
+
+/**
+ * No-shows per donor who has booked at the hospital since `since`, overall
+ * and at this hospital
+ */
+export async function getNoShowStats(hospitalId: string, since: Date) {
+  const { data, error } = await supabase.rpc('get_no_show_stats', {
+    p_hospital_id: hospitalId,
+    p_since: since.toISOString().split('T')[0],
+  });
+
+  if (error) throw error;
+  return data || [];
+}
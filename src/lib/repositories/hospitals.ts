@@ -0,0 +1,58 @@
+/**
+ * Data access for the hospitals table
+ */
+import { supabase } from '../supabase';
+import type { Functions, Tables, TablesInsert } from '../database.types';
+
+export type HospitalRow = Tables<'hospitals'>;
+export type HospitalWithSlots = Functions<'find_hospitals_with_slots'>['Returns'][number];
+
+export async function getHospital(id: string) {
+  const { data, error } = await supabase
+    .from('hospitals')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function getHospitalByUserId(userId: string) {
+  const { data, error } = await supabase
+    .from('hospitals')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function createHospital(hospital: TablesInsert<'hospitals'>) {
+  const { data, error } = await supabase
+    .from('hospitals')
+    .insert(hospital)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function findHospitalsWithSlots(
+  date: string,
+  latitude: number,
+  longitude: number,
+  radiusKm: number
+) {
+  const { data, error } = await supabase.rpc('find_hospitals_with_slots', {
+    p_date: date,
+    p_donor_latitude: latitude,
+    p_donor_longitude: longitude,
+    p_radius_km: radiusKm,
+  });
+
+  if (error) throw error;
+  return data || [];
+}
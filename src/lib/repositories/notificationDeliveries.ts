@@ -0,0 +1,27 @@
+/**
+ * Data access for the per-channel notification delivery log
+ */
+import { supabase } from '../supabase';
+import type { TablesInsert } from '../database.types';
+
+export async function createNotificationDeliveries(
+  deliveries: TablesInsert<'notification_deliveries'>[]
+) {
+  if (deliveries.length === 0) return;
+
+  const { error } = await supabase.from('notification_deliveries').insert(deliveries);
+
+  if (error) throw error;
+}
+
+export async function listNotificationDeliveries(userId: string, limit = 20) {
+  const { data, error } = await supabase
+    .from('notification_deliveries')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+}
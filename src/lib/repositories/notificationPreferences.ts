@@ -0,0 +1,41 @@
+/**
+ * Data access for per-user notification channel settings
+ */
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert } from '../database.types';
+
+export type NotificationPreferencesRow = Tables<'notification_preferences'>;
+
+export async function getNotificationPreferences(userId: string) {
+  const { data, error } = await supabase
+    .from('notification_preferences')
+    .select('*')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function saveNotificationPreferences(
+  preferences: TablesInsert<'notification_preferences'>
+) {
+  const { error } = await supabase
+    .from('notification_preferences')
+    .upsert({ ...preferences, updated_at: new Date().toISOString() });
+
+  if (error) throw error;
+}
+
+/**
+ * Routing settings for any user, without their contact details; resolves to
+ * null when the user never saved preferences
+ */
+export async function getNotificationChannels(userId: string) {
+  const { data, error } = await supabase.rpc('get_notification_channels', {
+    p_user_id: userId,
+  });
+
+  if (error) throw error;
+  return data?.[0] ?? null;
+}
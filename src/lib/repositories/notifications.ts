@@ -0,0 +1,81 @@
+/**
+ * Data access for the in-app notifications table, and the relay for SMS and
+ * email notifications sent from the app
+ */
+import { supabase } from '../supabase';
+import type { Json, Tables, TablesInsert } from '../database.types';
+
+export type NotificationRow = Tables<'notifications'>;
+
+export async function listNotifications(userId: string, limit = 10) {
+  const { data, error } = await supabase
+    .from('notifications')
+    .select('*')
+    .eq('user_id', userId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createNotification(
+  notification: TablesInsert<'notifications'> | TablesInsert<'notifications'>[]
+) {
+  const rows = Array.isArray(notification) ? notification : [notification];
+  const { data, error } = await supabase.from('notifications').insert(rows).select('id');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function markNotificationRead(id: string) {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read: true })
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function markAllNotificationsRead(userId: string) {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ read: true })
+    .eq('user_id', userId)
+    .eq('read', false);
+
+  if (error) throw error;
+}
+
+export async function markNotificationHandled(id: string) {
+  const { error } = await supabase
+    .from('notifications')
+    .update({ handled: true, read: true })
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+/**
+ * Has the database pass one SMS or email notification to the
+ * send-notification function, which words it from the event's template.
+ * Refused unless the signed-in user has reason to notify the recipient.
+ */
+export async function relayUserNotification(
+  userId: string,
+  event: string,
+  channel: string,
+  data: Json,
+  notificationId: string | null
+) {
+  const { error } = await supabase.rpc('relay_user_notification', {
+    p_user_id: userId,
+    p_event: event,
+    p_channel: channel,
+    p_data: data,
+    p_notification_id: notificationId ?? undefined,
+  });
+
+  if (error) throw error;
+}
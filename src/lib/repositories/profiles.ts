@@ -0,0 +1,28 @@
+/**
+ * Data access for the public profiles table (display names and avatars)
+ */
+import { supabase } from '../supabase';
+import type { Tables } from '../database.types';
+
+export type ProfileRow = Tables<'profiles'>;
+
+export async function getProfile(id: string) {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('*')
+    .eq('id', id)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function listProfilesByIds(ids: string[]) {
+  const { data, error } = await supabase
+    .from('profiles')
+    .select('id, full_name, avatar_url')
+    .in('id', ids);
+
+  if (error) throw error;
+  return data || [];
+}
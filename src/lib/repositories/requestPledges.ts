@@ -0,0 +1,61 @@
+/**
+ * Data access for units pledged to emergency requests by donors and blood banks
+ */
+import { supabase } from '../supabase';
+import type { Tables, TablesInsert, TablesUpdate } from '../database.types';
+
+export type RequestPledgeRow = Tables<'request_pledges'>;
+
+export type RequestPledgeWithSource = Awaited<ReturnType<typeof listPledgesForRequest>>[number];
+
+export async function listPledgesForRequest(requestId: string) {
+  const { data, error } = await supabase
+    .from('request_pledges')
+    .select(`
+      *,
+      donor:donors (
+        first_name,
+        last_name
+      ),
+      blood_bank:blood_banks (
+        name
+      )
+    `)
+    .eq('request_id', requestId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function getDonorPledge(requestId: string, donorId: string) {
+  const { data, error } = await supabase
+    .from('request_pledges')
+    .select('*')
+    .eq('request_id', requestId)
+    .eq('donor_id', donorId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function createRequestPledge(pledge: TablesInsert<'request_pledges'>) {
+  const { data, error } = await supabase
+    .from('request_pledges')
+    .insert(pledge)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function updateRequestPledge(id: string, changes: TablesUpdate<'request_pledges'>) {
+  const { error } = await supabase
+    .from('request_pledges')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('id', id);
+
+  if (error) throw error;
+}
@@ -0,0 +1,58 @@
+/**
+ * Data access for request status changes and their history
+ */
+import { supabase } from '../supabase';
+import type { Tables } from '../database.types';
+import {
+  assertTransition,
+  type RequestActor,
+  type RequestKind,
+  type RequestStatus,
+} from '../requestLifecycle';
+
+export type RequestStatusEventRow = Tables<'request_status_events'>;
+
+export async function listRequestStatusEvents(kind: RequestKind, requestId: string) {
+  const { data, error } = await supabase
+    .from('request_status_events')
+    .select('*')
+    .eq('request_kind', kind)
+    .eq('request_id', requestId)
+    .order('created_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Moves a request to `to` on behalf of `actor`. The transition is checked
+ * here first for a readable error, and again by the database, which also
+ * records it in the request's history.
+ */
+export async function transitionRequestStatus<K extends RequestKind>({
+  kind,
+  requestId,
+  from,
+  to,
+  actor,
+  note,
+}: {
+  kind: K;
+  requestId: string;
+  from: string;
+  to: RequestStatus<K>;
+  actor: RequestActor;
+  note?: string;
+}) {
+  assertTransition(kind, from, to, actor);
+
+  const { error } = await supabase.rpc('transition_request_status', {
+    p_request_kind: kind,
+    p_request_id: requestId,
+    p_to_status: to,
+    p_actor: actor,
+    p_note: note,
+  });
+
+  if (error) throw error;
+}
@@ -0,0 +1,124 @@
+/**
+ * Data access for blood bank appointments and the shared slot booking RPCs
+ */
+import { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '../supabase';
+import type { Functions, TablesInsert, TablesUpdate } from '../database.types';
+
+export type FacilityType = 'blood_bank' | 'hospital';
+export type AvailableSlot = Functions<'get_available_slots'>['Returns'][number];
+
+export async function listScheduledDonationsForDonor(donorId: string) {
+  const { data, error } = await supabase
+    .from('scheduled_donations')
+    .select(`
+      id,
+      blood_bank_id,
+      scheduled_date,
+      scheduled_time,
+      scheduled_at,
+      status,
+      notes,
+      blood_banks:blood_bank_id (
+        id,
+        name,
+        address,
+        latitude,
+        longitude,
+        timezone
+      )
+    `)
+    .eq('donor_id', donorId)
+    .order('scheduled_date', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function createScheduledDonation(donation: TablesInsert<'scheduled_donations'>) {
+  const { error } = await supabase.from('scheduled_donations').insert(donation);
+
+  if (error) throw error;
+}
+
+export async function updateScheduledDonation(
+  id: string,
+  changes: TablesUpdate<'scheduled_donations'>
+) {
+  const { error } = await supabase
+    .from('scheduled_donations')
+    .update(changes)
+    .eq('id', id);
+
+  if (error) throw error;
+}
+
+export async function getAvailableSlots(
+  date: string,
+  facilityId: string,
+  facilityType: FacilityType
+) {
+  const { data, error } = await supabase.rpc('get_available_slots', {
+    p_date: date,
+    p_facility_id: facilityId,
+    p_facility_type: facilityType,
+  });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/** Books a slot; refusals reject with a `PostgrestError` carrying the reason */
+export async function scheduleDonation(args: Functions<'schedule_donation'>['Args']) {
+  const { data, error } = await supabase.rpc('schedule_donation', args);
+
+  if (error) throw new PostgrestError(error);
+  return data;
+}
+
+/**
+ * Cancels a blood bank or hospital booking. When it frees a place the first
+ * donor on the slot's waitlist is booked in, notified by the database and
+ * returned.
+ */
+export async function cancelDonationBooking(
+  facilityType: FacilityType,
+  donationId: string,
+  notes?: string
+) {
+  const { data, error } = await supabase.rpc('cancel_donation_booking', {
+    p_facility_type: facilityType,
+    p_donation_id: donationId,
+    p_notes: notes,
+  });
+
+  if (error) throw error;
+  return data?.[0] ?? null;
+}
+
+export type AppointmentResponse = 'confirm' | 'cancel';
+
+/**
+ * Public lookup of the booking behind a reminder's confirm/cancel link;
+ * resolves to null when the token matches no booking
+ */
+export async function getAppointmentByToken(token: string) {
+  const { data, error } = await supabase.rpc('get_appointment_by_token', { p_token: token });
+
+  if (error) throw error;
+  return data?.[0] ?? null;
+}
+
+/**
+ * Confirms or cancels the booking behind a reminder link. A cancellation
+ * resolves to the waitlisted donor given the place, like `cancelDonationBooking`.
+ */
+export async function respondToAppointment(token: string, response: AppointmentResponse) {
+  const { data, error } = await supabase.rpc('respond_to_appointment', {
+    p_token: token,
+    p_response: response,
+  });
+
+  if (error) throw error;
+  return data?.[0] ?? null;
+}
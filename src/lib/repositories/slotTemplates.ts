@@ -0,0 +1,67 @@
+/**
+ * Data access for recurring slot templates and the days a facility is closed
+ */
+import { PostgrestError } from '@supabase/supabase-js';
+import { supabase } from '../supabase';
+import type { Functions, Tables } from '../database.types';
+import type { FacilityType } from './scheduledDonations';
+
+export type SlotTemplateRow = Tables<'slot_templates'>;
+export type SlotClosureRow = Tables<'slot_closures'>;
+
+export async function listSlotTemplates(facilityType: FacilityType, facilityId: string) {
+  const { data, error } = await supabase
+    .from('slot_templates')
+    .select('*')
+    .eq('facility_type', facilityType)
+    .eq('facility_id', facilityId)
+    .order('created_at');
+
+  if (error) throw error;
+  return data || [];
+}
+
+export async function listUpcomingSlotClosures(
+  facilityType: FacilityType,
+  facilityId: string,
+  fromDate: string
+) {
+  const { data, error } = await supabase
+    .from('slot_closures')
+    .select('*')
+    .eq('facility_type', facilityType)
+    .eq('facility_id', facilityId)
+    .gte('closure_date', fromDate)
+    .order('closure_date');
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Creates or changes a template and generates its slots up to
+ * `p_generate_until`. With `p_dry_run` nothing changes and the bookings the
+ * change would cancel are returned; otherwise those bookings are cancelled
+ * and returned, which is refused unless `p_cancel_conflicts` is set; the
+ * refusal rejects with a `PostgrestError` carrying the reason.
+ */
+export async function saveSlotTemplate(args: Functions<'save_slot_template'>['Args']) {
+  const { data, error } = await supabase.rpc('save_slot_template', args);
+
+  if (error) throw new PostgrestError(error);
+  return data || [];
+}
+
+/** Closes a day; dry runs and conflicts work as in `saveSlotTemplate` */
+export async function addSlotClosure(args: Functions<'add_slot_closure'>['Args']) {
+  const { data, error } = await supabase.rpc('add_slot_closure', args);
+
+  if (error) throw new PostgrestError(error);
+  return data || [];
+}
+
+export async function removeSlotClosure(closureId: string) {
+  const { error } = await supabase.rpc('remove_slot_closure', { p_closure_id: closureId });
+
+  if (error) throw error;
+}
@@ -0,0 +1,36 @@
+/**
+ * Data access for donors waiting on full donation slots
+ */
+import { supabase } from '../supabase';
+import type { Functions, Tables } from '../database.types';
+
+export type SlotWaitlistEntryRow = Tables<'slot_waitlist_entries'>;
+
+export async function listWaitingEntriesForDonor(donorId: string) {
+  const { data, error } = await supabase
+    .from('slot_waitlist_entries')
+    .select('*')
+    .eq('donor_id', donorId)
+    .eq('status', 'waiting')
+    .order('slot_date', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
+
+/**
+ * Adds the signed-in donor to a full slot's waitlist and returns their
+ * position. Joining again keeps the original place.
+ */
+export async function joinSlotWaitlist(args: Functions<'join_slot_waitlist'>['Args']) {
+  const { data, error } = await supabase.rpc('join_slot_waitlist', args);
+
+  if (error) throw error;
+  return data;
+}
+
+export async function leaveSlotWaitlist(entryId: string) {
+  const { error } = await supabase.rpc('leave_slot_waitlist', { p_entry_id: entryId });
+
+  if (error) throw error;
+}
@@ -0,0 +1,87 @@
+/**
+ * Data access for escalating SOS broadcasts and the donors and blood banks
+ * they alerted
+ */
+import { supabase } from '../supabase';
+import type { Tables, TablesUpdate } from '../database.types';
+
+export type SosBroadcastRow = Tables<'sos_broadcasts'>;
+export type SosRecipientRow = Tables<'sos_recipients'>;
+
+export async function getSosBroadcast(requestId: string) {
+  const { data, error } = await supabase
+    .from('sos_broadcasts')
+    .select('*')
+    .eq('request_id', requestId)
+    .maybeSingle();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Starts the broadcast for a panic request and alerts the first radius.
+ * The database widens it from then on; resolves to how many were alerted.
+ */
+export async function createSosBroadcast({
+  requestId,
+  latitude,
+  longitude,
+  targetAcceptances,
+  stageWaitMinutes,
+}: {
+  requestId: string;
+  latitude: number;
+  longitude: number;
+  targetAcceptances: number;
+  stageWaitMinutes: number[];
+}) {
+  const { data, error } = await supabase.rpc('start_sos_broadcast', {
+    p_request_id: requestId,
+    p_latitude: latitude,
+    p_longitude: longitude,
+    p_target_acceptances: targetAcceptances,
+    p_stage_wait_minutes: stageWaitMinutes,
+  });
+
+  if (error) throw error;
+  return data ?? 0;
+}
+
+/**
+ * Asks the database to close or widen the broadcast now if it is due,
+ * rather than at the next scheduled run
+ */
+export async function escalateSosBroadcast(requestId: string) {
+  const { error } = await supabase.rpc('escalate_sos_broadcasts', {
+    p_request_id: requestId,
+  });
+
+  if (error) throw error;
+}
+
+export async function updateSosBroadcast(
+  requestId: string,
+  changes: TablesUpdate<'sos_broadcasts'>
+) {
+  const { data, error } = await supabase
+    .from('sos_broadcasts')
+    .update({ ...changes, updated_at: new Date().toISOString() })
+    .eq('request_id', requestId)
+    .select()
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+export async function listSosRecipients(requestId: string) {
+  const { data, error } = await supabase
+    .from('sos_recipients')
+    .select('*')
+    .eq('request_id', requestId)
+    .order('notified_at', { ascending: true });
+
+  if (error) throw error;
+  return data || [];
+}
@@ -0,0 +1,16 @@
+/**
+ * Data access for the last known location of signed-in users
+ */
+import { supabase } from '../supabase';
+import type { TablesInsert } from '../database.types';
+
+export async function upsertUserLocation(location: TablesInsert<'user_locations'>) {
+  const { error } = await supabase
+    .from('user_locations')
+    .upsert(
+      { ...location, last_updated: location.last_updated ?? new Date().toISOString() },
+      { onConflict: 'user_id' }
+    );
+
+  if (error) throw error;
+}
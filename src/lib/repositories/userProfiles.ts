@@ -0,0 +1,35 @@
+/**
+ * Data access for the user_profiles table filled in at registration
+ */
+import { supabase } from '../supabase';
+import type { Functions, Tables, TablesInsert } from '../database.types';
+
+export type UserProfileRow = Tables<'user_profiles'>;
+
+export async function getUserProfile(userId: string) {
+  const { data, error } = await supabase
+    .from('user_profiles')
+    .select('*')
+    .eq('user_id', userId)
+    .single();
+
+  if (error) throw error;
+  return data;
+}
+
+/**
+ * Creates the profile through the security-definer function, which works
+ * before the new user's session is confirmed
+ */
+export async function createUserProfile(args: Functions<'create_user_profile'>['Args']) {
+  const { data, error } = await supabase.rpc('create_user_profile', args);
+
+  if (error) throw error;
+  return data;
+}
+
+export async function insertUserProfile(profile: TablesInsert<'user_profiles'>) {
+  const { error } = await supabase.from('user_profiles').insert(profile);
+
+  if (error) throw error;
+}
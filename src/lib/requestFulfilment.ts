@@ -0,0 +1,49 @@
+export interface FulfilmentTotals {
+  units_required: number;
+  /** Units committed by donors and blood banks, including those collected */
+  units_pledged: number;
+  units_collected: number;
+}
+
+export interface FulfilmentProgress {
+  required: number;
+  pledged: number;
+  collected: number;
+  /** Units nobody has committed to yet; recruiting stops at zero */
+  stillNeeded: number;
+  collectedPercent: number;
+  pledgedPercent: number;
+  isFullyPledged: boolean;
+  isFullyCollected: boolean;
+}
+
+const percentOf = (units: number, required: number) =>
+  required > 0 ? Math.min(100, Math.round((units / required) * 100)) : 100;
+
+export function getFulfilmentProgress({
+  units_required,
+  units_pledged,
+  units_collected,
+}: FulfilmentTotals): FulfilmentProgress {
+  const pledged = Math.max(units_pledged, units_collected);
+  const stillNeeded = Math.max(0, units_required - pledged);
+
+  return {
+    required: units_required,
+    pledged,
+    collected: units_collected,
+    stillNeeded,
+    collectedPercent: percentOf(units_collected, units_required),
+    pledgedPercent: percentOf(pledged, units_required),
+    isFullyPledged: stillNeeded === 0,
+    isFullyCollected: units_collected >= units_required,
+  };
+}
+
+/**
+ * Units to accept from a new pledge: what was offered, capped at what the
+ * request still needs so it is not over-recruited
+ */
+export function getAcceptableUnits(totals: FulfilmentTotals, offeredUnits: number) {
+  return Math.max(0, Math.min(offeredUnits, getFulfilmentProgress(totals).stillNeeded));
+}
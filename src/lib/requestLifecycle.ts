@@ -0,0 +1,136 @@
+export const EMERGENCY_REQUEST_STATUSES = [
+  'pending',
+  'in_progress',
+  'fulfilled',
+  'cancelled',
+  'expired',
+] as const;
+
+export const BLOOD_BANK_REQUEST_STATUSES = [
+  'pending',
+  'accepted',
+  'rejected',
+  'completed',
+  'cancelled',
+] as const;
+
+export type EmergencyRequestStatus = (typeof EMERGENCY_REQUEST_STATUSES)[number];
+export type BloodBankRequestStatus = (typeof BLOOD_BANK_REQUEST_STATUSES)[number];
+
+export type RequestKind = 'emergency' | 'blood_bank';
+
+export type RequestStatus<K extends RequestKind = RequestKind> = K extends 'emergency'
+  ? EmergencyRequestStatus
+  : BloodBankRequestStatus;
+
+/**
+ * Who performs a transition: the person who raised the request, a donor who
+ * offered for it, the blood bank it was sent to, or a scheduled job
+ */
+export type RequestActor = 'requester' | 'donor' | 'blood_bank' | 'system';
+
+export interface RequestTransition<K extends RequestKind = RequestKind> {
+  from: RequestStatus<K>[];
+  to: RequestStatus<K>;
+  actors: RequestActor[];
+}
+
+/**
+ * Allowed transitions per request kind. Keep in sync with
+ * `request_status_transitions` in the request lifecycle migration.
+ */
+export const REQUEST_TRANSITIONS: { [K in RequestKind]: RequestTransition<K>[] } = {
+  emergency: [
+    // The requester accepts an offer, the donor confirms their donation, or
+    // units are pledged
+    { from: ['pending'], to: 'in_progress', actors: ['requester', 'donor', 'system'] },
+    // The accepted donors fell through, so the request is open again
+    { from: ['in_progress'], to: 'pending', actors: ['requester', 'system'] },
+    // Closed automatically once the units collected cover the request
+    { from: ['pending', 'in_progress'], to: 'fulfilled', actors: ['system'] },
+    { from: ['in_progress'], to: 'fulfilled', actors: ['requester'] },
+    { from: ['pending', 'in_progress'], to: 'cancelled', actors: ['requester'] },
+    { from: ['pending'], to: 'expired', actors: ['system'] },
+  ],
+  blood_bank: [
+    { from: ['pending'], to: 'accepted', actors: ['blood_bank'] },
+    { from: ['pending'], to: 'rejected', actors: ['blood_bank'] },
+    // The requester sends a rejected request on to another blood bank
+    { from: ['rejected'], to: 'pending', actors: ['requester'] },
+    { from: ['accepted'], to: 'completed', actors: ['requester', 'blood_bank'] },
+    { from: ['pending', 'accepted'], to: 'cancelled', actors: ['requester'] },
+  ],
+};
+
+export const REQUEST_STATUS_LABELS: Record<EmergencyRequestStatus | BloodBankRequestStatus, string> = {
+  pending: 'Pending',
+  in_progress: 'In Progress',
+  fulfilled: 'Fulfilled',
+  cancelled: 'Cancelled',
+  expired: 'Expired',
+  accepted: 'Accepted',
+  rejected: 'Rejected',
+  completed: 'Completed',
+};
+
+const TERMINAL_STATUSES: string[] = ['fulfilled', 'cancelled', 'expired', 'completed'];
+
+export const getRequestStatusLabel = (status: string) =>
+  REQUEST_STATUS_LABELS[status as keyof typeof REQUEST_STATUS_LABELS] ?? status;
+
+/** Whether no further transitions are possible from `status` */
+export const isTerminalStatus = (status: string) => TERMINAL_STATUSES.includes(status);
+
+export function isRequestStatus<K extends RequestKind>(
+  kind: K,
+  status: string
+): status is RequestStatus<K> {
+  const statuses: readonly string[] =
+    kind === 'emergency' ? EMERGENCY_REQUEST_STATUSES : BLOOD_BANK_REQUEST_STATUSES;
+  return statuses.includes(status);
+}
+
+/** Everyone who may move a request of this kind from `from` to `to` */
+const getTransitionActors = (kind: RequestKind, from: string, to: string) =>
+  (REQUEST_TRANSITIONS[kind] as RequestTransition[])
+    .filter((transition) => transition.to === to && (transition.from as string[]).includes(from))
+    .flatMap((transition) => transition.actors);
+
+/** Whether `actor` may move a request of this kind from `from` to `to` */
+export function canTransition(kind: RequestKind, from: string, to: string, actor: RequestActor) {
+  return getTransitionActors(kind, from, to).includes(actor);
+}
+
+/** Statuses `actor` may move a request to from its current status */
+export function getAvailableTransitions<K extends RequestKind>(
+  kind: K,
+  from: string,
+  actor: RequestActor
+): RequestStatus<K>[] {
+  return (REQUEST_TRANSITIONS[kind] as RequestTransition<K>[])
+    .filter(
+      (transition) =>
+        (transition.from as string[]).includes(from) && transition.actors.includes(actor)
+    )
+    .map((transition) => transition.to);
+}
+
+/**
+ * Throws with a message fit for a toast when the transition is not allowed,
+ * so callers can reject it before it reaches the database
+ */
+export function assertTransition(kind: RequestKind, from: string, to: string, actor: RequestActor) {
+  if (from === to) {
+    throw new Error(`Request is already ${getRequestStatusLabel(to).toLowerCase()}`);
+  }
+
+  const actors = getTransitionActors(kind, from, to);
+  if (actors.length === 0) {
+    throw new Error(
+      `A ${getRequestStatusLabel(from).toLowerCase()} request cannot be marked ${getRequestStatusLabel(to).toLowerCase()}`
+    );
+  }
+  if (!actors.includes(actor)) {
+    throw new Error(`Only the ${actors.join(' or ').replace(/_/g, ' ')} can do this`);
+  }
+}
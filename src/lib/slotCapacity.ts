@@ -0,0 +1,28 @@
+/** Bookings are counted per slot and date, see `get_available_slots` */
+export interface SlotOccupancy {
+  capacity: number;
+  booked_count: number;
+  waitlist_count?: number | null;
+}
+
+export function remainingPlaces(slot: SlotOccupancy) {
+  return Math.max(slot.capacity - slot.booked_count, 0);
+}
+
+export function describeSlotAvailability(slot: SlotOccupancy) {
+  const remaining = remainingPlaces(slot);
+  if (remaining > 0) {
+    return remaining === 1 ? '1 place left' : `${remaining} of ${slot.capacity} places left`;
+  }
+
+  const waiting = slot.waitlist_count ?? 0;
+  return waiting > 0 ? `Full · ${waiting} waiting` : 'Full';
+}
+
+const ORDINALS = ['first', 'second', 'third'];
+
+export function describeWaitlistPosition(position: number) {
+  return position <= ORDINALS.length
+    ? `You're ${ORDINALS[position - 1]} on the waitlist`
+    : `You're number ${position} on the waitlist`;
+}
@@ -0,0 +1,36 @@
+import { dispatchNotification } from './notifications';
+import {
+  conflictCancellationNotification,
+  type SlotTemplateConflict,
+} from './slotTemplates';
+import { addSlotClosure, saveSlotTemplate } from './repositories/slotTemplates';
+import type { Functions } from './database.types';
+
+async function notifyCancelledDonors(conflicts: SlotTemplateConflict[]) {
+  await Promise.all(
+    conflicts.map((conflict) =>
+      dispatchNotification(
+        'donation_cancelled',
+        conflict.user_id,
+        conflictCancellationNotification(conflict)
+      ).catch((error) => console.error('Error notifying cancelled donor:', error))
+    )
+  );
+}
+
+/**
+ * Saves a template and lets every donor whose booking the change cancelled
+ * know. Resolves to those bookings; dry runs only return them.
+ */
+export async function applySlotTemplate(args: Functions<'save_slot_template'>['Args']) {
+  const conflicts = await saveSlotTemplate(args);
+  if (!args.p_dry_run) await notifyCancelledDonors(conflicts);
+  return conflicts;
+}
+
+/** `applySlotTemplate` for closing a day */
+export async function closeFacilityDay(args: Functions<'add_slot_closure'>['Args']) {
+  const conflicts = await addSlotClosure(args);
+  if (!args.p_dry_run) await notifyCancelledDonors(conflicts);
+  return conflicts;
+}
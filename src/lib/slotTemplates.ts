@@ -0,0 +1,176 @@
+/**
+ * Recurring slot templates: the weekly opening pattern a hospital or blood
+ * bank generates its bookable slots from, see `save_slot_template`
+ */
+import { format, parseISO } from 'date-fns';
+
+/** Weekdays are ISO numbers, 1 = Monday ... 7 = Sunday */
+export const WEEKDAYS = [
+  { value: 1, short: 'Mon', label: 'Monday' },
+  { value: 2, short: 'Tue', label: 'Tuesday' },
+  { value: 3, short: 'Wed', label: 'Wednesday' },
+  { value: 4, short: 'Thu', label: 'Thursday' },
+  { value: 5, short: 'Fri', label: 'Friday' },
+  { value: 6, short: 'Sat', label: 'Saturday' },
+  { value: 7, short: 'Sun', label: 'Sunday' },
+] as const;
+
+/** How far ahead slots are generated unless staff pick a date */
+export const DEFAULT_GENERATE_WEEKS = 8;
+
+export interface SlotTemplatePattern {
+  weekdays: number[];
+  /** HH:MM or HH:MM:SS */
+  start_time: string;
+  end_time: string;
+  slot_minutes: number;
+  capacity: number;
+  /** YYYY-MM-DD */
+  valid_from?: string | null;
+  valid_until?: string | null;
+}
+
+/** A booking `save_slot_template` or `add_slot_closure` cancels or would cancel */
+export interface SlotTemplateConflict {
+  donation_id: string;
+  user_id: string;
+  donor_name: string;
+  scheduled_date: string;
+  scheduled_time: string;
+  reason: string;
+}
+
+const CONFLICT_REASONS: Record<string, string> = {
+  slot_removed: 'Slot no longer offered',
+  over_capacity: 'Over the new capacity',
+  closed: 'Facility closed',
+};
+
+export function describeConflictReason(reason: string) {
+  return CONFLICT_REASONS[reason] ?? reason;
+}
+
+/** Payload for the `donation_cancelled` notification sent to a cancelled donor */
+export function conflictCancellationNotification(conflict: SlotTemplateConflict) {
+  const [hours, minutes] = conflict.scheduled_time.split(':').map(Number);
+  const time = new Date(2000, 0, 1, hours, minutes);
+
+  return {
+    scheduled_date: format(parseISO(conflict.scheduled_date), 'EEEE, MMMM d'),
+    scheduled_time: format(time, 'h:mm a'),
+    reason:
+      conflict.reason === 'closed'
+        ? 'The facility is closed that day. Please book another slot.'
+        : 'The facility changed its donation hours. Please book another slot.',
+  };
+}
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+const toTime = (minutes: number) => `${pad(Math.floor(minutes / 60))}:${pad(minutes % 60)}`;
+
+/** 09:00:00 -> 9:00 */
+export function formatClock(time: string) {
+  const minutes = toMinutes(time);
+  return `${Math.floor(minutes / 60)}:${pad(minutes % 60)}`;
+}
+
+/**
+ * Collapses weekdays into runs, e.g. [1, 2, 3, 4, 5] -> "Mon–Fri" and
+ * [1, 3, 6, 7] -> "Mon, Wed, Sat, Sun"
+ */
+export function describeWeekdays(weekdays: number[]) {
+  const days = [...new Set(weekdays)].filter((day) => day >= 1 && day <= 7).sort((a, b) => a - b);
+  if (days.length === 7) return 'Every day';
+
+  const runs: number[][] = [];
+  for (const day of days) {
+    const run = runs[runs.length - 1];
+    if (run && run[run.length - 1] === day - 1) {
+      run.push(day);
+    } else {
+      runs.push([day]);
+    }
+  }
+
+  const short = (day: number) => WEEKDAYS[day - 1].short;
+  return runs
+    .map((run) =>
+      run.length > 2 ? `${short(run[0])}–${short(run[run.length - 1])}` : run.map(short).join(', ')
+    )
+    .join(', ');
+}
+
+/** e.g. "Mon–Fri 9:00–13:00, 20-minute slots, 3 beds" */
+export function describeTemplate(template: SlotTemplatePattern) {
+  const beds = template.capacity === 1 ? '1 bed' : `${template.capacity} beds`;
+  return (
+    `${describeWeekdays(template.weekdays)} ` +
+    `${formatClock(template.start_time)}–${formatClock(template.end_time)}, ` +
+    `${template.slot_minutes}-minute slots, ${beds}`
+  );
+}
+
+/**
+ * The slots a template opens on each of its days. A last session that would
+ * run past the end time is left out, as in `plan_template_slots`.
+ */
+export function templateSessions(template: SlotTemplatePattern) {
+  const sessions: { start_time: string; end_time: string }[] = [];
+  const end = toMinutes(template.end_time);
+  if (template.slot_minutes <= 0) return sessions;
+
+  for (
+    let start = toMinutes(template.start_time);
+    start + template.slot_minutes <= end;
+    start += template.slot_minutes
+  ) {
+    sessions.push({ start_time: toTime(start), end_time: toTime(start + template.slot_minutes) });
+  }
+  return sessions;
+}
+
+const isoWeekday = (date: string) => {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay() || 7;
+};
+
+const addDays = (date: string, days: number) => {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+};
+
+/** Dates from `from` to `to` the template opens on, skipping closed days */
+export function templateDates(
+  template: SlotTemplatePattern,
+  from: string,
+  to: string,
+  closures: string[] = []
+) {
+  const closed = new Set(closures.map((date) => date.slice(0, 10)));
+  const start = template.valid_from && template.valid_from > from ? template.valid_from : from;
+  const end = template.valid_until && template.valid_until < to ? template.valid_until : to;
+  const dates: string[] = [];
+
+  for (let date = start; date <= end; date = addDays(date, 1)) {
+    if (template.weekdays.includes(isoWeekday(date)) && !closed.has(date)) {
+      dates.push(date);
+    }
+  }
+  return dates;
+}
+
+/** How many slots generating from `from` to `to` produces, for the preview */
+export function countPlannedSlots(
+  template: SlotTemplatePattern,
+  from: string,
+  to: string,
+  closures: string[] = []
+) {
+  return templateDates(template, from, to, closures).length * templateSessions(template).length;
+}
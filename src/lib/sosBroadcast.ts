@@ -0,0 +1,52 @@
+import { getSosStages } from './sosEscalation';
+import { listOffersForRequest } from './repositories/donorResponses';
+import { listPledgesForRequest } from './repositories/requestPledges';
+import { createEmergencyRequest } from './repositories/emergencyRequests';
+import { createSosBroadcast } from './repositories/sosBroadcasts';
+import type { TablesInsert } from './database.types';
+
+export const SOS_STAGES = getSosStages(import.meta.env.VITE_SOS_ESCALATION_MINUTES);
+
+/**
+ * Raises a panic request at the requester's location and alerts everyone
+ * within the first radius. The database widens the radius on schedule
+ * until enough people accept. Resolves to the new request's id.
+ */
+export async function startSosBroadcast(
+  request: TablesInsert<'emergency_requests'> & { user_id: string },
+  location: { latitude: number; longitude: number }
+) {
+  const { id } = await createEmergencyRequest({
+    ...request,
+    latitude: location.latitude,
+    longitude: location.longitude,
+    is_panic: true,
+  });
+
+  await createSosBroadcast({
+    requestId: id,
+    latitude: location.latitude,
+    longitude: location.longitude,
+    targetAcceptances: request.units_required,
+    stageWaitMinutes: SOS_STAGES.map((stage) => stage.waitMinutes),
+  });
+
+  return id;
+}
+
+/** Donors who offered to donate plus blood banks that pledged units */
+export async function countSosAcceptances(requestId: string) {
+  const [offers, pledges] = await Promise.all([
+    listOffersForRequest(requestId),
+    listPledgesForRequest(requestId),
+  ]);
+
+  const activeOffers = offers.filter(
+    (offer) => offer.status !== 'rejected' && offer.status !== 'declined'
+  );
+  const bloodBankPledges = pledges.filter(
+    (pledge) => pledge.blood_bank_id && pledge.status !== 'withdrawn'
+  );
+
+  return activeOffers.length + bloodBankPledges.length;
+}
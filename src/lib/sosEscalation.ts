@@ -0,0 +1,83 @@
+export interface SosStage {
+  radiusKm: number;
+  /** How long to wait for acceptances before widening to the next stage */
+  waitMinutes: number;
+}
+
+/** Radii widen 5 → 10 → 25 → 50 km; the last stage waits until cancelled */
+export const DEFAULT_SOS_STAGES: SosStage[] = [
+  { radiusKm: 5, waitMinutes: 2 },
+  { radiusKm: 10, waitMinutes: 3 },
+  { radiusKm: 25, waitMinutes: 5 },
+  { radiusKm: 50, waitMinutes: 10 },
+];
+
+/**
+ * Escalation stages with the waits overridden by a comma separated list of
+ * minutes, e.g. `VITE_SOS_ESCALATION_MINUTES=1,2,4,8`. Missing or invalid
+ * entries, including anything but a whole number of at least one minute
+ * (which `start_sos_broadcast` refuses), keep their default.
+ */
+export function getSosStages(waitMinutes?: string): SosStage[] {
+  const overrides = (waitMinutes ?? '').split(',').map((value) => Number(value.trim()));
+
+  return DEFAULT_SOS_STAGES.map((stage, index) => {
+    const override = overrides[index];
+    return Number.isInteger(override) && override >= 1
+      ? { ...stage, waitMinutes: override }
+      : stage;
+  });
+}
+
+/** The stages a broadcast was started with, as stored on `sos_broadcasts` */
+export function getBroadcastStages({
+  stage_radii_km,
+  stage_wait_minutes,
+}: {
+  stage_radii_km: number[];
+  stage_wait_minutes: number[];
+}): SosStage[] {
+  return stage_radii_km.map((radiusKm, index) => ({
+    radiusKm,
+    waitMinutes: stage_wait_minutes[index] ?? 0,
+  }));
+}
+
+export type SosEscalationDecision =
+  | { action: 'satisfied' }
+  | { action: 'escalate'; stage: number }
+  | { action: 'wait'; msUntilEscalation: number | null };
+
+export interface SosProgress {
+  /** Index into the stages of the radius alerted so far */
+  stage: number;
+  stageStartedAt: Date;
+  acceptances: number;
+  targetAcceptances: number;
+}
+
+/**
+ * What the broadcast should do next: stop once enough people accepted,
+ * widen the radius once the current stage's wait is over, or keep waiting.
+ * The last stage keeps waiting with no further escalation.
+ */
+export function getSosEscalationDecision(
+  { stage, stageStartedAt, acceptances, targetAcceptances }: SosProgress,
+  stages: SosStage[],
+  now: Date
+): SosEscalationDecision {
+  if (acceptances >= targetAcceptances) {
+    return { action: 'satisfied' };
+  }
+
+  if (stage >= stages.length - 1) {
+    return { action: 'wait', msUntilEscalation: null };
+  }
+
+  const escalateAt = stageStartedAt.getTime() + stages[stage].waitMinutes * 60 * 1000;
+  const remaining = escalateAt - now.getTime();
+
+  return remaining <= 0
+    ? { action: 'escalate', stage: stage + 1 }
+    : { action: 'wait', msUntilEscalation: remaining };
+}
@@ -8,4 +8,7 @@ if (!supabaseUrl || !supabaseAnonKey) {
   throw new Error('Missing Supabase environment variables');
 }
 
-export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey);
\ No newline at end of file
+export const supabase = createClient<Database>(supabaseUrl, supabaseAnonKey);
+/** Whether a failed write was refused for duplicating a unique key */
+export const isUniqueViolation = (error: unknown) =>
+  (error as { code?: string } | null)?.code === '23505';
@@ -0,0 +1,226 @@
+/**
+ * Travel times by road. Ola Maps distance matrix answers are batched and
+ * cached by origin and destination rounded to about 100 m; when the API is
+ * unavailable, times come from the straight-line distance, a road detour
+ * factor and the usual traffic at that time of day, with a lower
+ * confidence.
+ */
+import { distanceKm, type LatLng } from './geo';
+
+export type TravelTimeSource = 'road_network' | 'traffic_model';
+
+export interface TravelEstimate {
+  distanceKm: number;
+  durationMinutes: number;
+  /** 0 to 1, how far the duration can be relied on */
+  confidence: number;
+  source: TravelTimeSource;
+}
+
+/** One element of a distance matrix, null when there is no route */
+export interface MatrixElement {
+  distanceMeters: number;
+  durationSeconds: number;
+}
+
+/** Rows are origins and columns destinations, like the Ola Maps response */
+export type DistanceMatrixFetcher = (
+  origins: LatLng[],
+  destinations: LatLng[]
+) => Promise<Array<Array<MatrixElement | null>>>;
+
+export interface TravelTimeCacheEntry {
+  estimate: TravelEstimate;
+  cachedAt: number;
+}
+
+export interface TravelTimeOptions {
+  fetchMatrix: DistanceMatrixFetcher;
+  /** Most elements (origins x destinations) in one matrix request */
+  maxElements?: number;
+  /** How long road network times are reused */
+  cacheTtlMs?: number;
+  /** How long to stop asking the API after a failure */
+  retryAfterMs?: number;
+  /** Whether the browser is online right now */
+  isOnline?: () => boolean;
+  now?: () => Date;
+}
+
+export const ROAD_NETWORK_CONFIDENCE = 0.9;
+
+/** Below this a travel time is shown as an estimate */
+export const MIN_TRAVEL_TIME_CONFIDENCE = 0.6;
+
+/** Roads in Indian cities are about this much longer than the straight line */
+export const ROAD_DETOUR_FACTOR = 1.35;
+
+/** Average city speed with no traffic */
+export const FREE_FLOW_SPEED_KPH = 32;
+
+/**
+ * How much longer a trip takes than with no traffic, by hour of the day,
+ * with morning and evening rush hours on working days
+ */
+const WEEKDAY_TRAFFIC = [
+  0.9, 0.85, 0.85, 0.85, 0.9, 1.0, 1.1, 1.3, 1.6, 1.8, 1.7, 1.4,
+  1.3, 1.3, 1.35, 1.4, 1.5, 1.75, 1.9, 1.8, 1.5, 1.25, 1.1, 1.0,
+];
+const WEEKEND_TRAFFIC = [
+  0.9, 0.85, 0.85, 0.85, 0.85, 0.9, 0.95, 1.0, 1.1, 1.2, 1.3, 1.35,
+  1.35, 1.3, 1.3, 1.3, 1.35, 1.45, 1.55, 1.5, 1.35, 1.2, 1.05, 1.0,
+];
+
+const DEFAULT_MAX_ELEMENTS = 25;
+const DEFAULT_CACHE_TTL_MS = 15 * 60 * 1000;
+const DEFAULT_RETRY_AFTER_MS = 60 * 1000;
+
+/** Traffic multiplier for the local time of day; Sunday traffic is lighter */
+export function trafficMultiplier(at: Date) {
+  const hours = at.getDay() === 0 ? WEEKEND_TRAFFIC : WEEKDAY_TRAFFIC;
+  return hours[at.getHours()];
+}
+
+/**
+ * Travel time from the straight-line distance alone, less certain the
+ * longer the trip and the heavier the traffic
+ */
+export function estimateTravelTime(
+  origin: LatLng,
+  destination: LatLng,
+  at = new Date()
+): TravelEstimate {
+  const straightKm = distanceKm(origin, destination);
+  const roadKm = straightKm * ROAD_DETOUR_FACTOR;
+  const multiplier = trafficMultiplier(at);
+  const minutes = (roadKm / FREE_FLOW_SPEED_KPH) * 60 * multiplier;
+
+  const byDistance = straightKm <= 10 ? 0.5 : straightKm <= 30 ? 0.4 : 0.3;
+  const confidence = byDistance - (multiplier >= 1.5 ? 0.1 : 0);
+  return {
+    distanceKm: roadKm,
+    durationMinutes: Math.max(1, Math.round(minutes)),
+    confidence: Math.round(confidence * 100) / 100,
+    source: 'traffic_model',
+  };
+}
+
+const pointKey = (point: LatLng) => `${point.lat.toFixed(3)},${point.lng.toFixed(3)}`;
+
+/** Cache key of an origin and destination, rounded to 3 decimals (about 100 m) */
+export function travelTimeKey(origin: LatLng, destination: LatLng) {
+  return `${pointKey(origin)}|${pointKey(destination)}`;
+}
+
+/** Splits items into runs of at most `size` */
+export function chunk<T>(items: T[], size: number): T[][] {
+  const chunks: T[][] = [];
+  for (let i = 0; i < items.length; i += Math.max(1, size)) {
+    chunks.push(items.slice(i, i + Math.max(1, size)));
+  }
+  return chunks;
+}
+
+export interface TravelTimeService {
+  /** Travel times from one place to each of the others, in order */
+  from(origin: LatLng, destinations: LatLng[]): Promise<TravelEstimate[]>;
+  /** Travel times from each place to one destination, in order */
+  to(origins: LatLng[], destination: LatLng): Promise<TravelEstimate[]>;
+}
+
+/**
+ * Travel times that ask the distance matrix only for pairs not in the
+ * cache, in as few requests as the element limit allows. A pair the API
+ * cannot answer, and every pair while offline or after a failed request,
+ * falls back to `estimateTravelTime`.
+ */
+export function createTravelTimeService({
+  fetchMatrix,
+  maxElements = DEFAULT_MAX_ELEMENTS,
+  cacheTtlMs = DEFAULT_CACHE_TTL_MS,
+  retryAfterMs = DEFAULT_RETRY_AFTER_MS,
+  isOnline = () => true,
+  now = () => new Date(),
+}: TravelTimeOptions): TravelTimeService {
+  const cache = new Map<string, TravelTimeCacheEntry>();
+  let unavailableUntil = 0;
+
+  const cached = (origin: LatLng, destination: LatLng) => {
+    const entry = cache.get(travelTimeKey(origin, destination));
+    return entry && now().getTime() - entry.cachedAt < cacheTtlMs ? entry.estimate : null;
+  };
+
+  /**
+   * `fixed` is the one point shared by every pair and `others` the rest;
+   * `fixedIsOrigin` says which end of the trips it is
+   */
+  const estimate = async (fixed: LatLng, others: LatLng[], fixedIsOrigin: boolean) => {
+    const pair = (other: LatLng): [LatLng, LatLng] =>
+      fixedIsOrigin ? [fixed, other] : [other, fixed];
+
+    // Each distinct rounded point is asked about once
+    const missing = new Map<string, LatLng>();
+    for (const other of others) {
+      if (!cached(...pair(other))) missing.set(pointKey(other), other);
+    }
+
+    const time = now().getTime();
+    if (missing.size > 0 && isOnline() && time >= unavailableUntil) {
+      for (const batch of chunk([...missing.values()], maxElements)) {
+        try {
+          const matrix = fixedIsOrigin
+            ? await fetchMatrix([fixed], batch)
+            : await fetchMatrix(batch, [fixed]);
+
+          batch.forEach((other, i) => {
+            const element = fixedIsOrigin ? matrix[0]?.[i] : matrix[i]?.[0];
+            if (!element) return;
+            cache.set(travelTimeKey(...pair(other)), {
+              estimate: {
+                distanceKm: element.distanceMeters / 1000,
+                durationMinutes: Math.max(1, Math.round(element.durationSeconds / 60)),
+                confidence: ROAD_NETWORK_CONFIDENCE,
+                source: 'road_network',
+              },
+              cachedAt: time,
+            });
+          });
+        } catch (error) {
+          console.warn('Distance matrix request failed, estimating travel times:', error);
+          unavailableUntil = time + retryAfterMs;
+          break;
+        }
+      }
+    }
+
+    const at = now();
+    return others.map((other) => cached(...pair(other)) ?? estimateTravelTime(...pair(other), at));
+  };
+
+  return {
+    from: (origin, destinations) => estimate(origin, destinations, true),
+    to: (origins, destination) => estimate(destination, origins, false),
+  };
+}
+
+/**
+ * Reads an Ola Maps distance matrix element, given either as plain numbers
+ * or as `{ value }` objects; null unless its status is OK
+ */
+export function readMatrixElement(element: unknown): MatrixElement | null {
+  if (!element || typeof element !== 'object') return null;
+  const { status, distance, duration } = element as Record<string, unknown>;
+  if (typeof status === 'string' && status.toUpperCase() !== 'OK') return null;
+
+  const value = (field: unknown) =>
+    typeof field === 'number'
+      ? field
+      : field && typeof field === 'object' && typeof (field as { value?: unknown }).value === 'number'
+        ? (field as { value: number }).value
+        : NaN;
+
+  const distanceMeters = value(distance);
+  const durationSeconds = value(duration);
+  if (!Number.isFinite(distanceMeters) || !Number.isFinite(durationSeconds)) return null;
+  return { distanceMeters, durationSeconds };
+}
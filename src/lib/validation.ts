@@ -1,11 +1,23 @@
 import { z } from 'zod';
-import { isValid, parse, differenceInDays } from 'date-fns';
+import { isValid, parse } from 'date-fns';
+import { COMPONENT_TYPES } from './bloodComponents';
+import { EMERGENCY_REQUEST_STATUSES } from './requestLifecycle';
+import { checkEligibility } from './donorEligibility';
+import { LAST_MEAL_TIMES } from './preDonationQuestionnaire';
+import { ADVERSE_REACTION_TYPES, REACTION_SEVERITIES } from './donationVitals';
+import { isValidTimeZone } from './dateUtils';
 
 const BLOOD_TYPES = ['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'] as const;
 const GENDERS = ['male', 'female', 'other'] as const;
-const REQUEST_STATUS = ['pending', 'in_progress', 'completed', 'cancelled'] as const;
 const URGENCY_LEVELS = ['normal', 'urgent', 'critical'] as const;
 const DONOR_STATUS = ['active', 'inactive', 'blocked'] as const;
+const YES_NO = ['yes', 'no'] as const;
+
+/** Number inputs left empty come through as '' or NaN */
+const optionalNumber = z.preprocess(
+  (value) => (value === '' || value === null || Number.isNaN(value) ? undefined : Number(value)),
+  z.number().optional()
+);
 
 export const donorSchema = z.object({
   first_name: z.string().min(2, 'First name must be at least 2 characters'),
@@ -26,7 +38,12 @@ export const donorSchema = z.object({
   phone: z.string().regex(/^\+?[\d\s-]{10,}$/, 'Please enter a valid phone number'),
   address: z.string().min(5, 'Please enter a valid address'),
   medical_conditions: z.array(z.string()).optional(),
+  medical_condition_dates: z.record(z.string()).optional(),
   last_donation_date: z.string().nullable().optional(),
+  weight_kg: optionalNumber.pipe(z.number().min(30, 'Please enter your weight in kg').optional()),
+  hemoglobin_g_dl: optionalNumber.pipe(
+    z.number().min(5, 'Please enter hemoglobin in g/dL').max(25).optional()
+  ),
   is_available: z.boolean().default(true),
   status: z.enum(DONOR_STATUS).default('active'),
   latitude: z.number().optional(),
@@ -44,6 +61,7 @@ export const emergencyRequestSchema = z.object({
   blood_type: z.enum(BLOOD_TYPES, {
     errorMap: () => ({ message: 'Please select a valid blood type' }),
   }),
+  component_type: z.enum(COMPONENT_TYPES).default('whole_blood'),
   units_required: z.coerce.number().min(1, 'Must request at least 1 unit'),
   hospital_name: z.string().min(2, 'Hospital name must be at least 2 characters'),
   hospital_address: z.string().min(5, 'Please enter a valid hospital address'),
@@ -51,7 +69,7 @@ export const emergencyRequestSchema = z.object({
   contact_number: z.string().regex(/^\+?[\d\s-]{10,}$/, 'Please enter a valid phone number'),
   notes: z.string().optional(),
   urgency_level: z.enum(URGENCY_LEVELS).default('normal'),
-  status: z.enum(REQUEST_STATUS).default('pending'),
+  status: z.enum(EMERGENCY_REQUEST_STATUSES).default('pending'),
 });
 
 export const contactDonorSchema = z.object({
@@ -74,20 +92,26 @@ export const bloodBankSchema = z.object({
   phone: z.string().regex(/^\+?[\d\s-]{10,}$/, 'Please enter a valid phone number').optional(),
   website: z.string().url('Please enter a valid website URL').optional().or(z.literal('')),
   operating_hours: z.string().min(1, 'Please enter operating hours').optional(),
+  timezone: z.string().refine(isValidTimeZone, 'Please choose a valid time zone'),
   latitude: z.number().optional(),
   longitude: z.number().optional(),
 });
 
-export const inventoryUpdateSchema = z.object({
-  'A+': z.coerce.number().min(0, 'Units cannot be negative'),
-  'A-': z.coerce.number().min(0, 'Units cannot be negative'),
-  'B+': z.coerce.number().min(0, 'Units cannot be negative'),
-  'B-': z.coerce.number().min(0, 'Units cannot be negative'),
-  'AB+': z.coerce.number().min(0, 'Units cannot be negative'),
-  'AB-': z.coerce.number().min(0, 'Units cannot be negative'),
-  'O+': z.coerce.number().min(0, 'Units cannot be negative'),
-  'O-': z.coerce.number().min(0, 'Units cannot be negative'),
-});
+export const bloodUnitSchema = z
+  .object({
+    bag_id: z.string().trim().min(1, 'Bag ID is required'),
+    blood_type: z.enum(BLOOD_TYPES, {
+      errorMap: () => ({ message: 'Please select a valid blood type' }),
+    }),
+    component_type: z.enum(COMPONENT_TYPES).default('whole_blood'),
+    collection_date: z.string().min(1, 'Collection date is required'),
+    expiry_date: z.string().min(1, 'Expiry date is required'),
+    source_donation_id: z.string().uuid('Please enter a valid donation ID').optional().or(z.literal('')),
+  })
+  .refine((unit) => unit.expiry_date > unit.collection_date, {
+    message: 'Expiry date must be after the collection date',
+    path: ['expiry_date'],
+  });
 
 export const hospitalSchema = z.object({
   name: z.string().min(2, 'Hospital name must be at least 2 characters'),
@@ -99,31 +123,177 @@ export const hospitalSchema = z.object({
   license_document_path: z.string().optional(),
   website: z.string().url('Please enter a valid website URL').optional().or(z.literal('')),
   operating_hours: z.string().min(1, 'Please enter operating hours').optional(),
+  timezone: z.string().refine(isValidTimeZone, 'Please choose a valid time zone'),
   latitude: z.number().optional(),
   longitude: z.number().optional(),
 });
 
+export const notificationPreferencesSchema = z
+  .object({
+    in_app_enabled: z.boolean(),
+    sms_enabled: z.boolean(),
+    email_enabled: z.boolean(),
+    phone: z.string().regex(/^\+?[\d\s-]{10,}$/, 'Please enter a valid phone number').optional().or(z.literal('')),
+    email: z.string().email('Please enter a valid email address').optional().or(z.literal('')),
+    muted_events: z.array(z.string()),
+    quiet_hours_start: z.string().optional(),
+    quiet_hours_end: z.string().optional(),
+  })
+  .refine((prefs) => !prefs.sms_enabled || !!prefs.phone, {
+    message: 'Add a phone number to receive SMS',
+    path: ['phone'],
+  })
+  .refine((prefs) => !prefs.email_enabled || !!prefs.email, {
+    message: 'Add an email address to receive email',
+    path: ['email'],
+  })
+  .refine((prefs) => !prefs.quiet_hours_start === !prefs.quiet_hours_end, {
+    message: 'Set both a start and an end time',
+    path: ['quiet_hours_end'],
+  });
+
+const yesNo = z.enum(YES_NO, {
+  errorMap: () => ({ message: 'Please answer this question' }),
+});
+
+const answeredWithDetails = (answer: string, details?: string) =>
+  answer === 'no' || !!details?.trim();
+
+export const preDonationQuestionnaireSchema = z
+  .object({
+    recent_illness: yesNo,
+    illness_details: z.string().optional(),
+    taking_medication: yesNo,
+    medication_details: z.string().optional(),
+    recent_travel: yesNo,
+    travel_details: z.string().optional(),
+    weight_kg: z.coerce
+      .number()
+      .min(30, 'Please enter your weight in kg')
+      .max(250, 'Please enter your weight in kg'),
+    last_meal: z.enum(LAST_MEAL_TIMES, {
+      errorMap: () => ({ message: 'Please tell us when you last ate' }),
+    }),
+  })
+  .refine((answers) => answeredWithDetails(answers.recent_illness, answers.illness_details), {
+    message: 'Please describe the illness',
+    path: ['illness_details'],
+  })
+  .refine(
+    (answers) => answeredWithDetails(answers.taking_medication, answers.medication_details),
+    {
+      message: 'Please list the medication',
+      path: ['medication_details'],
+    }
+  )
+  .refine((answers) => answeredWithDetails(answers.recent_travel, answers.travel_details), {
+    message: 'Please say where you travelled',
+    path: ['travel_details'],
+  });
+
+const vitalInRange = (min: number, max: number, message: string) =>
+  optionalNumber.pipe(z.number().min(min, message).max(max, message).optional());
+
+export const donationVitalsSchema = z
+  .object({
+    hemoglobin_g_dl: vitalInRange(5, 25, 'Enter hemoglobin between 5 and 25 g/dL'),
+    systolic_bp: vitalInRange(60, 250, 'Enter systolic pressure between 60 and 250 mmHg'),
+    diastolic_bp: vitalInRange(30, 150, 'Enter diastolic pressure between 30 and 150 mmHg'),
+    pulse_bpm: vitalInRange(30, 220, 'Enter a pulse between 30 and 220 bpm'),
+    volume_collected_ml: vitalInRange(50, 600, 'Enter a volume between 50 and 600 ml'),
+    bag_number: z.string().trim().optional(),
+    reaction: z.enum(ADVERSE_REACTION_TYPES).optional().or(z.literal('')),
+    severity: z.enum(REACTION_SEVERITIES).optional().or(z.literal('')),
+    reaction_notes: z.string().optional(),
+  })
+  .refine((vitals) => (vitals.systolic_bp === undefined) === (vitals.diastolic_bp === undefined), {
+    message: 'Enter both systolic and diastolic pressure',
+    path: ['diastolic_bp'],
+  })
+  .refine(
+    (vitals) =>
+      vitals.systolic_bp === undefined ||
+      vitals.diastolic_bp === undefined ||
+      vitals.diastolic_bp < vitals.systolic_bp,
+    {
+      message: 'Diastolic pressure must be below systolic',
+      path: ['diastolic_bp'],
+    }
+  )
+  .refine((vitals) => !vitals.reaction || !!vitals.severity, {
+    message: 'Select how severe the reaction was',
+    path: ['severity'],
+  });
+
+const minutesOf = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+};
+
+export const slotTemplateSchema = z
+  .object({
+    name: z.string().trim().optional(),
+    weekdays: z.array(z.number().int().min(1).max(7)).min(1, 'Pick at least one day'),
+    start_time: z.string().min(1, 'Enter an opening time'),
+    end_time: z.string().min(1, 'Enter a closing time'),
+    slot_minutes: z.coerce
+      .number()
+      .int()
+      .min(5, 'Slots must be 5 to 480 minutes long')
+      .max(480, 'Slots must be 5 to 480 minutes long'),
+    capacity: z.coerce.number().int().min(1, 'Allow at least one donor per slot'),
+    valid_from: z.string().min(1, 'Pick a start date'),
+    valid_until: z.string().optional(),
+    generate_until: z.string().min(1, 'Pick a date to generate slots until'),
+  })
+  .refine((template) => template.end_time > template.start_time, {
+    message: 'End time must be after start time',
+    path: ['end_time'],
+  })
+  .refine(
+    (template) =>
+      minutesOf(template.end_time) - minutesOf(template.start_time) >= template.slot_minutes,
+    {
+      message: 'Opening hours are shorter than one slot',
+      path: ['slot_minutes'],
+    }
+  )
+  .refine((template) => !template.valid_until || template.valid_until >= template.valid_from, {
+    message: 'The end date must be after the start date',
+    path: ['valid_until'],
+  });
+
 export type DonorFormData = z.infer<typeof donorSchema>;
 export type EmergencyRequestFormData = z.infer<typeof emergencyRequestSchema>;
 export type ContactDonorFormData = z.infer<typeof contactDonorSchema>;
 export type BloodBankFormData = z.infer<typeof bloodBankSchema>;
-export type InventoryUpdateData = z.infer<typeof inventoryUpdateSchema>;
+export type BloodUnitFormData = z.infer<typeof bloodUnitSchema>;
 export type HospitalFormData = z.infer<typeof hospitalSchema>;
+export type NotificationPreferencesFormData = z.infer<typeof notificationPreferencesSchema>;
+export type PreDonationQuestionnaireData = z.infer<typeof preDonationQuestionnaireSchema>;
+export type DonationVitalsFormData = z.infer<typeof donationVitalsSchema>;
+export type SlotTemplateFormData = z.infer<typeof slotTemplateSchema>;
 
-export const isEligibleDonor = (donor: DonorFormData): boolean => {
-  if (!donor.last_donation_date) return true;
-  
-  const lastDonation = new Date(donor.last_donation_date);
-  const daysSinceLastDonation = differenceInDays(new Date(), lastDonation);
-  
-  return (
-    daysSinceLastDonation >= 90 &&
-    donor.status === 'active' &&
-    donor.is_available
-  );
-};
+export const isEligibleDonor = (donor: DonorFormData): boolean =>
+  checkEligibility(donor).eligible && donor.status === 'active' && donor.is_available;
+
+export const getCompatibleBloodTypes = (
+  bloodType: string,
+  componentType?: string | null
+): string[] => {
+  if (componentType === 'plasma') {
+    // Plasma compatibility is reversed and only depends on ABO
+    const abo = bloodType.replace(/[+-]$/, '');
+    const plasmaCompatibility: { [key: string]: string[] } = {
+      O: ['O+', 'O-', 'A+', 'A-', 'B+', 'B-', 'AB+', 'AB-'],
+      A: ['A+', 'A-', 'AB+', 'AB-'],
+      B: ['B+', 'B-', 'AB+', 'AB-'],
+      AB: ['AB+', 'AB-'],
+    };
+
+    return plasmaCompatibility[abo] || [];
+  }
 
-export const getCompatibleBloodTypes = (bloodType: string): string[] => {
   const compatibility: { [key: string]: string[] } = {
     'A+': ['A+', 'A-', 'O+', 'O-'],
     'A-': ['A-', 'O-'],
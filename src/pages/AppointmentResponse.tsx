@@ -0,0 +1,168 @@
+import { useEffect, useState } from 'react';
+import { useParams, useSearchParams } from 'react-router-dom';
+import { Calendar, CheckCircle, Loader2, XCircle } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import toast from 'react-hot-toast';
+import {
+  getAppointmentByToken,
+  respondToAppointment,
+} from '../lib/repositories/scheduledDonations';
+
+type Appointment = NonNullable<Awaited<ReturnType<typeof getAppointmentByToken>>>;
+
+const ACTIVE_STATUSES = ['pending', 'scheduled', 'confirmed', 'rescheduled'];
+
+const formatTime = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return format(new Date(2000, 0, 1, hours, minutes), 'h:mm a');
+};
+
+/**
+ * Landing page for the confirm/cancel links in appointment reminders. Works
+ * without signing in: the token in the link identifies the booking. Confirming
+ * from `?action=confirm` happens on load; cancelling always takes a second tap
+ * so link previews cannot cancel a booking.
+ */
+export function AppointmentResponse() {
+  const { token } = useParams<{ token: string }>();
+  const [searchParams] = useSearchParams();
+  const [appointment, setAppointment] = useState<Appointment | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [responding, setResponding] = useState(false);
+
+  useEffect(() => {
+    if (token) {
+      loadAppointment(token);
+    }
+  }, [token]);
+
+  const loadAppointment = async (appointmentToken: string) => {
+    try {
+      setLoading(true);
+      const found = await getAppointmentByToken(appointmentToken);
+      setAppointment(found);
+
+      if (
+        found &&
+        searchParams.get('action') === 'confirm' &&
+        ACTIVE_STATUSES.includes(found.status) &&
+        found.status !== 'confirmed'
+      ) {
+        await respondToAppointment(appointmentToken, 'confirm');
+        setAppointment({ ...found, status: 'confirmed' });
+        toast.success('Appointment confirmed');
+      }
+    } catch (error) {
+      console.error('Error loading appointment:', error);
+      toast.error('Failed to load appointment');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleConfirm = async () => {
+    if (!token || !appointment) return;
+    try {
+      setResponding(true);
+      await respondToAppointment(token, 'confirm');
+      setAppointment({ ...appointment, status: 'confirmed' });
+      toast.success('Appointment confirmed');
+    } catch (error) {
+      console.error('Error confirming appointment:', error);
+      toast.error('Failed to confirm appointment');
+    } finally {
+      setResponding(false);
+    }
+  };
+
+  const handleCancel = async () => {
+    if (!token || !appointment) return;
+    try {
+      setResponding(true);
+      await respondToAppointment(token, 'cancel');
+      setAppointment({ ...appointment, status: 'cancelled' });
+      toast.success('Appointment cancelled');
+    } catch (error) {
+      console.error('Error cancelling appointment:', error);
+      toast.error('Failed to cancel appointment');
+    } finally {
+      setResponding(false);
+    }
+  };
+
+  const isActive = appointment && ACTIVE_STATUSES.includes(appointment.status);
+
+  return (
+    <div className="min-h-screen pt-24 pb-16">
+      <div className="max-w-lg mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="text-center mb-8">
+          <Calendar className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h1 className="text-3xl font-bold text-gray-900">Your Donation Appointment</h1>
+        </div>
+
+        {loading ? (
+          <div className="flex justify-center">
+            <Loader2 className="h-8 w-8 text-red-500 animate-spin" />
+          </div>
+        ) : !appointment ? (
+          <div className="bg-white rounded-lg shadow-md p-6 text-center">
+            <XCircle className="h-8 w-8 text-red-500 mx-auto mb-2" />
+            <p className="text-gray-700">This appointment link is not valid.</p>
+          </div>
+        ) : (
+          <div className="bg-white rounded-lg shadow-md p-6">
+            <dl className="grid grid-cols-1 gap-3 text-sm mb-6">
+              <div>
+                <dt className="text-gray-500">Where</dt>
+                <dd className="font-medium text-gray-900">
+                  {appointment.facility_name || 'Donation centre'}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">When</dt>
+                <dd className="font-medium text-gray-900">
+                  {format(parseISO(appointment.scheduled_date), 'EEEE, MMMM d, yyyy')} at{' '}
+                  {formatTime(appointment.scheduled_time)}
+                </dd>
+              </div>
+            </dl>
+
+            {appointment.status === 'confirmed' && (
+              <p className="flex items-center text-green-700 mb-4">
+                <CheckCircle className="h-5 w-5 mr-2" />
+                You're confirmed. See you there!
+              </p>
+            )}
+
+            {isActive ? (
+              <div className="flex gap-3">
+                {appointment.status !== 'confirmed' && (
+                  <button
+                    onClick={handleConfirm}
+                    disabled={responding}
+                    className="flex-1 bg-red-500 text-white py-2 px-4 rounded-md hover:bg-red-600 disabled:opacity-50"
+                  >
+                    I'll be there
+                  </button>
+                )}
+                <button
+                  onClick={handleCancel}
+                  disabled={responding}
+                  className="flex-1 border border-gray-300 text-gray-700 py-2 px-4 rounded-md hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Cancel appointment
+                </button>
+              </div>
+            ) : (
+              <p className="text-gray-700">
+                {appointment.status === 'cancelled'
+                  ? 'This appointment has been cancelled. You can book a new one any time.'
+                  : 'This appointment can no longer be changed.'}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -5,18 +5,12 @@ import { DonorForm } from '../components/DonorForm';
 import { supabase } from '../lib/supabase';
 import { Toaster } from 'react-hot-toast';
 import toast from 'react-hot-toast';
-
-interface UserProfile {
-  id: string;
-  full_name: string;
-  blood_group: string;
-  date_of_birth: string;
-  contact_number: string;
-}
+import { getDonorByUserId } from '../lib/repositories/donors';
+import { getUserProfile, type UserProfileRow } from '../lib/repositories/userProfiles';
 
 export function BecomeDonor() {
   const navigate = useNavigate();
-  const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
+  const [userProfile, setUserProfile] = useState<UserProfileRow | null>(null);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -34,15 +28,7 @@ export function BecomeDonor() {
         }
 
         // Check if user is already a donor
-        const { data: donorData, error: donorError } = await supabase
-          .from('donors')
-          .select('*')
-          .eq('user_id', session.user.id)
-          .maybeSingle();
-
-        if (donorError && donorError.code !== 'PGRST116') {
-          throw donorError;
-        }
+        const donorData = await getDonorByUserId(session.user.id);
 
         if (donorData) {
           toast.error('You are already registered as a donor');
@@ -51,15 +37,7 @@ export function BecomeDonor() {
         }
 
         // Fetch user profile
-        const { data: profileData, error: profileError } = await supabase
-          .from('user_profiles')
-          .select('*')
-          .eq('user_id', session.user.id)
-          .single();
-
-        if (profileError) {
-          throw profileError;
-        }
+        const profileData = await getUserProfile(session.user.id);
 
         setUserProfile(profileData);
       } catch (error) {
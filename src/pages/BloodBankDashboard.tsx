@@ -4,34 +4,23 @@ import { Building2, Users, Clock, AlertCircle, Bell, Calendar } from 'lucide-rea
 import { supabase } from '../lib/supabase';
 import { BloodInventoryManager } from '../components/BloodInventoryManager';
 import { BloodBankRequestList } from '../components/BloodBankRequestList';
+import { ExpiringUnitsPanel } from '../components/ExpiringUnitsPanel';
 import BloodBankSlots from '../components/BloodBankSlots';
 import toast from 'react-hot-toast';
-
-interface BloodBank {
-  id: string;
-  name: string;
-  address: string;
-  contact_number: string;
-  email: string;
-  is_verified: boolean;
-  status: string;
-}
-
-interface Notification {
-  id: string;
-  status: string;
-  created_at: string;
-  request: {
-    patient_name: string;
-    blood_type: string;
-    units_required: number;
-  };
-}
+import { getBloodBankByUserId, type BloodBankRow } from '../lib/repositories/bloodBanks';
+import {
+  listPendingExpiryAlerts,
+  listPendingNotifications,
+  type PendingBloodBankNotification,
+} from '../lib/repositories/bloodBankNotifications';
+import { notifyExpiringUnits } from '../lib/repositories/bloodUnits';
+import { EXPIRY_ALERT_DAYS } from '../lib/bloodComponents';
 
 export function BloodBankDashboard() {
   const navigate = useNavigate();
-  const [bloodBank, setBloodBank] = useState<BloodBank | null>(null);
-  const [notifications, setNotifications] = useState<Notification[]>([]);
+  const [bloodBank, setBloodBank] = useState<BloodBankRow | null>(null);
+  const [notifications, setNotifications] = useState<PendingBloodBankNotification[]>([]);
+  const [expiryAlertCount, setExpiryAlertCount] = useState(0);
   const [activeTab, setActiveTab] = useState<'inventory' | 'requests' | 'slots'>('inventory');
   const [loading, setLoading] = useState(true);
 
@@ -62,53 +51,32 @@ export function BloodBankDashboard() {
         }
 
         // Fetch blood bank profile
-        const { data: bloodBankData, error: profileError } = await supabase
-          .from('blood_banks')
-          .select('*')
-          .eq('user_id', session.user.id)
-          .single();
-
-        if (profileError) {
-          console.error('Profile error:', profileError);
-          if (profileError.code === 'PGRST116') {
-            toast.error('Please complete your blood bank registration');
-            navigate('/register');
-          } else {
-            throw profileError;
-          }
+        const bloodBankData = await getBloodBankByUserId(session.user.id);
+
+        if (!bloodBankData) {
+          toast.error('Please complete your blood bank registration');
+          navigate('/register');
           return;
         }
 
         console.log('Blood bank data fetched:', bloodBankData);
 
         // Fetch notifications
-        const { data: notifData, error: notifError } = await supabase
-          .from('blood_bank_notifications')
-          .select(
-            `
-            id,
-            status,
-            created_at,
-            blood_bank_requests (
-              patient_name,
-              blood_type,
-              units_required
-            )
-          `
-          )
-          .eq('blood_bank_id', bloodBankData.id)
-          .eq('status', 'pending')
-          .order('created_at', { ascending: false });
-
-        if (notifError) {
-          console.error('Notification error:', notifError);
-          throw notifError;
-        }
+        const notifData = await listPendingNotifications(bloodBankData.id);
 
         console.log('Notifications fetched:', notifData);
 
+        // Raise alerts for stock close to expiry, then count the open ones
+        try {
+          await notifyExpiringUnits(bloodBankData.id, EXPIRY_ALERT_DAYS);
+          const expiryAlerts = await listPendingExpiryAlerts(bloodBankData.id);
+          setExpiryAlertCount(expiryAlerts.length);
+        } catch (alertError) {
+          console.error('Expiry alert error:', alertError);
+        }
+
         setBloodBank(bloodBankData);
-        setNotifications(notifData || []);
+        setNotifications(notifData);
         setLoading(false);
       } catch (error) {
         console.error('Dashboard error:', error);
@@ -185,8 +153,22 @@ export function BloodBankDashboard() {
               </div>
             </div>
           )}
+
+          {expiryAlertCount > 0 && (
+            <div className="mt-4 bg-orange-50 border border-orange-200 rounded-lg p-4">
+              <div className="flex items-center text-orange-700">
+                <AlertCircle className="h-5 w-5 mr-2" />
+                <span>
+                  {expiryAlertCount} unit{expiryAlertCount !== 1 && 's'} expiring within{' '}
+                  {EXPIRY_ALERT_DAYS} days
+                </span>
+              </div>
+            </div>
+          )}
         </div>
 
+        <ExpiringUnitsPanel bloodBankId={bloodBank.id} />
+
         {/* Tab Navigation */}
         <div className="bg-white rounded-lg shadow-md overflow-hidden mb-8">
           <div className="flex border-b border-gray-200">
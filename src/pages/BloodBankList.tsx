@@ -10,26 +10,29 @@ import {
   AlertCircle,
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import { calculateDistance } from '../lib/geolocation';
+import { calculateDistance } from '../lib/geo';
+import { getComponentLabel, type ComponentType } from '../lib/bloodComponents';
 import toast from 'react-hot-toast';
+import {
+  listBloodBanksWithStock,
+  type BloodBankRow,
+} from '../lib/repositories/bloodBanks';
+import {
+  getBloodBankRequest,
+  updateBloodBankRequest,
+} from '../lib/repositories/bloodBankRequests';
+import { transitionRequestStatus } from '../lib/repositories/requestStatusEvents';
+import { createBloodBankNotification } from '../lib/repositories/bloodBankNotifications';
 
-interface BloodBank {
-  id: string;
-  name: string;
-  address: string;
-  contact_number: string;
-  email: string;
-  latitude: number;
-  longitude: number;
-  is_verified: boolean;
-  status: string;
+type BloodBank = BloodBankRow & {
   distance?: number;
   available_units?: number;
-}
+};
 
 interface LocationState {
   requestId: string;
   bloodType: string;
+  componentType?: ComponentType;
   unitsRequired: number;
   latitude: number;
   longitude: number;
@@ -59,24 +62,14 @@ export function BloodBankList() {
       setLoading(true);
 
       // Get blood banks with available inventory
-      const { data: bloodBankData, error: bloodBankError } = await supabase
-        .from('blood_banks')
-        .select(
-          `
-          *,
-          blood_inventory!inner (
-            units_available
-          )
-        `
-        )
-        .eq('status', 'active')
-        .eq('blood_inventory.blood_type', state.bloodType)
-        .gte('blood_inventory.units_available', state.unitsRequired);
-
-      if (bloodBankError) throw bloodBankError;
+      const bloodBankData = await listBloodBanksWithStock(
+        state.bloodType,
+        state.unitsRequired,
+        state.componentType
+      );
 
       // Calculate distance and sort blood banks
-      const banksWithDistance = (bloodBankData || [])
+      const banksWithDistance = bloodBankData
         .map((bank) => ({
           ...bank,
           distance:
@@ -123,38 +116,34 @@ export function BloodBankList() {
 
       console.log('Request ID:', state.requestId);
 
-      // Update the request with selected blood bank
-      const { error: updateError } = await supabase
-        .from('blood_bank_requests')
-        .update({
-          blood_bank_id: bloodBank.id,
-          status: 'pending',
-        })
-        .eq('id', state.requestId);
-
-      if (updateError) {
-        console.error('Error updating request:', updateError);
-        throw updateError;
+      // A rejected request is reopened when it is sent to another blood bank
+      const request = await getBloodBankRequest(state.requestId);
+      if (request.status === 'rejected') {
+        await transitionRequestStatus({
+          kind: 'blood_bank',
+          requestId: state.requestId,
+          from: request.status,
+          to: 'pending',
+          actor: 'requester',
+          note: `Sent to ${bloodBank.name}`,
+        });
       }
 
+      // Update the request with selected blood bank
+      await updateBloodBankRequest(state.requestId, {
+        blood_bank_id: bloodBank.id,
+      });
+
       console.log('Blood request updated successfully');
 
       // Create notification for blood bank
-      const { data: notifData, error: notificationError } = await supabase
-        .from('blood_bank_notifications')
-        .insert({
-          blood_bank_id: bloodBank.id,
-          request_id: state.requestId,
-          status: 'pending',
-        })
-        .select();
-
-      if (notificationError) {
-        console.error('Error creating notification:', notificationError);
-        throw notificationError;
-      }
+      await createBloodBankNotification({
+        blood_bank_id: bloodBank.id,
+        request_id: state.requestId,
+        status: 'pending',
+      });
 
-      console.log('Notification created successfully:', notifData);
+      console.log('Notification created successfully');
 
       toast.success('Blood request sent to blood bank successfully');
       navigate('/blood-bank-request');
@@ -187,7 +176,8 @@ export function BloodBankList() {
                 Available Blood Banks
               </h1>
               <p className="mt-1 text-gray-600">
-                Blood banks with {state.bloodType} blood type (
+                Blood banks with {state.bloodType}{' '}
+                {getComponentLabel(state.componentType)} (
                 {state.unitsRequired} units needed)
               </p>
             </div>
@@ -10,13 +10,26 @@ import { Toaster } from 'react-hot-toast';
 import { format } from 'date-fns';
 import { FormField } from '../components/FormField';
 import { RecipientBloodConfirmation } from '../components/RecipientBloodConfirmation';
+import { RequestTimeline } from '../components/RequestTimeline';
 import { getCurrentLocation } from '../lib/geolocation';
+import {
+  COMPONENT_OPTIONS,
+  COMPONENT_TYPES,
+  getComponentLabel,
+} from '../lib/bloodComponents';
+import { getRequestStatusLabel } from '../lib/requestLifecycle';
+import {
+  createBloodBankRequest,
+  listRequestsForUser,
+  type UserBloodBankRequest,
+} from '../lib/repositories/bloodBankRequests';
 
 const requestSchema = z.object({
   patient_name: z.string().min(2, 'Patient name must be at least 2 characters'),
   blood_type: z.enum(['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-'], {
     errorMap: () => ({ message: 'Please select a valid blood type' }),
   }),
+  component_type: z.enum(COMPONENT_TYPES).default('whole_blood'),
   units_required: z.coerce.number().min(1, 'Must request at least 1 unit'),
   hospital_name: z.string().min(2, 'Hospital name must be at least 2 characters'),
   hospital_address: z.string().min(5, 'Please enter a valid hospital address'),
@@ -28,33 +41,6 @@ const requestSchema = z.object({
 
 type RequestFormData = z.infer<typeof requestSchema>;
 
-interface BloodBankRequest {
-  id: string;
-  patient_name: string;
-  blood_type: string;
-  units_required: number;
-  hospital_name: string;
-  hospital_address: string;
-  contact_person: string;
-  contact_number: string;
-  notes: string;
-  status: string;
-  urgency_level: string;
-  created_at: string;
-  blood_bank?: {
-    name: string;
-    address: string;
-    contact_number: string;
-  };
-  blood_bank_notifications?: Array<{
-    id: string;
-    status: string;
-    blood_bank_confirmed: boolean;
-    units_provided: number;
-    blood_bank_notes: string;
-  }>;
-}
-
 interface PendingConfirmation {
   requestId: string;
   expectedUnits: number;
@@ -80,7 +66,7 @@ const URGENCY_LEVELS = [
 export function BloodBankRequest() {
   const navigate = useNavigate();
   const [activeTab, setActiveTab] = useState<'request' | 'list'>('request');
-  const [requests, setRequests] = useState<BloodBankRequest[]>([]);
+  const [requests, setRequests] = useState<UserBloodBankRequest[]>([]);
   const [loading, setLoading] = useState(true);
   const [currentUser, setCurrentUser] = useState<any>(null);
   const [pendingConfirmation, setPendingConfirmation] = useState<PendingConfirmation | null>(null);
@@ -94,6 +80,7 @@ export function BloodBankRequest() {
     reset,
   } = useForm<RequestFormData>({
     resolver: zodResolver(requestSchema),
+    defaultValues: { component_type: 'whole_blood' },
   });
 
   useEffect(() => {
@@ -128,30 +115,10 @@ export function BloodBankRequest() {
   const fetchRequests = async (userId: string) => {
     try {
       setLoading(true);
-      const { data, error } = await supabase
-        .from('blood_bank_requests')
-        .select(`
-          *,
-          blood_bank:blood_banks (
-            name,
-            address,
-            contact_number
-          ),
-          blood_bank_notifications (
-            id,
-            status,
-            blood_bank_confirmed,
-            units_provided,
-            blood_bank_notes
-          )
-        `)
-        .eq('user_id', userId)
-        .order('created_at', { ascending: false });
-
-      if (error) throw error;
+      const data = await listRequestsForUser(userId);
 
       // Check for requests needing confirmation
-      const pendingConfirmation = data?.find(request => 
+      const pendingConfirmation = data.find(request => 
         request.blood_bank_notifications?.[0]?.blood_bank_confirmed &&
         !request.recipient_confirmed
       );
@@ -159,12 +126,12 @@ export function BloodBankRequest() {
       if (pendingConfirmation) {
         setPendingConfirmation({
           requestId: pendingConfirmation.id,
-          expectedUnits: pendingConfirmation.blood_bank_notifications[0].units_provided
+          expectedUnits: pendingConfirmation.blood_bank_notifications[0].units_provided ?? 0
         });
         setShowConfirmation(true);
       }
 
-      setRequests(data || []);
+      setRequests(data);
     } catch (error) {
       console.error('Error fetching requests:', error);
       toast.error('Failed to load requests');
@@ -185,25 +152,20 @@ export function BloodBankRequest() {
         return;
       }
 
-      const { data: request, error: requestError } = await supabase
-        .from('blood_bank_requests')
-        .insert({
-          ...data,
-          user_id: currentUser.id,
-          latitude: userLocation.latitude,
-          longitude: userLocation.longitude,
-          status: 'pending'
-        })
-        .select()
-        .single();
-
-      if (requestError) throw requestError;
+      const request = await createBloodBankRequest({
+        ...data,
+        user_id: currentUser.id,
+        latitude: userLocation.latitude,
+        longitude: userLocation.longitude,
+        status: 'pending'
+      });
 
       toast.success('Blood request submitted successfully!');
       navigate('/blood-bank-list', {
         state: {
           requestId: request.id,
           bloodType: data.blood_type,
+          componentType: data.component_type,
           unitsRequired: data.units_required,
           latitude: userLocation.latitude,
           longitude: userLocation.longitude,
@@ -303,6 +265,15 @@ export function BloodBankRequest() {
                       options={BLOOD_TYPES}
                       required
                     />
+                    <FormField
+                      label="Component"
+                      name="component_type"
+                      register={register}
+                      error={errors.component_type}
+                      type="select"
+                      options={COMPONENT_OPTIONS}
+                      required
+                    />
                     <FormField
                       label="Units Required"
                       name="units_required"
@@ -420,7 +391,7 @@ export function BloodBankRequest() {
                               <span className={`px-3 py-1 rounded-full text-sm font-medium ${
                                 getStatusBadgeColor(request.status)
                               }`}>
-                                {request.status.toUpperCase()}
+                                {getRequestStatusLabel(request.status).toUpperCase()}
                               </span>
                             </div>
 
@@ -428,7 +399,8 @@ export function BloodBankRequest() {
                               {request.patient_name}
                             </h3>
                             <p className="text-gray-600">
-                              {request.units_required} units of {request.blood_type} blood
+                              {request.units_required} units of {request.blood_type}{' '}
+                              {getComponentLabel(request.component_type)}
                             </p>
 
                             <div className="mt-4 space-y-2 text-sm text-gray-600">
@@ -456,6 +428,8 @@ export function BloodBankRequest() {
                                 </div>
                               </div>
                             )}
+
+                            <RequestTimeline kind="blood_bank" requestId={request.id} status={request.status} />
                           </div>
 
                           <div className="text-right">
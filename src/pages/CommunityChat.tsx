@@ -4,22 +4,18 @@ import { MessageSquare, Loader2, Send, CheckCircle } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import toast from 'react-hot-toast';
 import { format } from 'date-fns';
+import {
+  listCommunityMessages,
+  markCommunityMessagesAsRead,
+  sendCommunityMessage,
+  type CommunityChatMessageRow,
+} from '../lib/repositories/communityChatMessages';
+import { listProfilesByIds } from '../lib/repositories/profiles';
 
-interface ChatMessage {
-  id: string;
-  user_id: string;
-  message: string;
-  created_at: string;
-  read_at: string | null;
+type ChatMessage = CommunityChatMessageRow & {
   user_name?: string; // This will be added client-side
   user_avatar?: string; // This will be added client-side
-}
-
-interface UserProfile {
-  id: string;
-  full_name: string;
-  avatar_url?: string;
-}
+};
 
 export function CommunityChat() {
   const { user } = useAuth();
@@ -45,11 +41,7 @@ export function CommunityChat() {
       
       try {
         // Use the function to mark all messages as read
-        const { error } = await supabase.rpc('mark_community_messages_as_read', {
-          p_user_id: user.id
-        });
-        
-        if (error) throw error;
+        await markCommunityMessagesAsRead(user.id);
       } catch (error) {
         console.error('Error marking messages as read:', error);
       }
@@ -71,21 +63,16 @@ export function CommunityChat() {
       }
       
       // Fetch all profiles at once
-      const { data, error } = await supabase
-        .from('profiles')
-        .select('id, full_name, avatar_url')
-        .in('id', uniqueUserIds);
-        
-      if (error) throw error;
+      const data = await listProfilesByIds(uniqueUserIds);
       
       // Process the results
-      if (data && data.length > 0) {
+      if (data.length > 0) {
         const newProfiles = { ...userProfiles };
         
-        data.forEach((profile: UserProfile) => {
+        data.forEach((profile) => {
           newProfiles[profile.id] = {
             name: profile.full_name || 'Anonymous User',
-            avatar: profile.avatar_url
+            avatar: profile.avatar_url ?? undefined
           };
         });
         
@@ -125,14 +112,9 @@ export function CommunityChat() {
       try {
         setLoading(true);
         
-        const { data, error } = await supabase
-          .from('community_chat_messages')
-          .select('*')
-          .order('created_at', { ascending: true });
-
-        if (error) throw error;
+        const data = await listCommunityMessages();
 
-        setMessages(data || []);
+        setMessages(data);
         setLoading(false);
         
         // Use setTimeout to ensure the DOM has updated
@@ -207,32 +189,19 @@ export function CommunityChat() {
     setSending(true);
     
     try {
-      const { data, error } = await supabase
-        .from('community_chat_messages')
-        .insert({
-          user_id: user.id,
-          message: messageText
-        })
-        .select();
-
-      if (error) {
-        setNewMessage(messageText); // Restore message on error
-        throw error;
-      }
+      const addedMessage = await sendCommunityMessage(user.id, messageText);
       
       // Add message to the UI immediately for better responsiveness
-      if (data && data.length > 0) {
-        const addedMessage = data[0] as ChatMessage;
-        setMessages(prev => {
-          if (prev.some(msg => msg.id === addedMessage.id)) {
-            return prev;
-          }
-          return [...prev, addedMessage];
-        });
-      }
+      setMessages(prev => {
+        if (prev.some(msg => msg.id === addedMessage.id)) {
+          return prev;
+        }
+        return [...prev, addedMessage];
+      });
       
       scrollToBottom();
     } catch (error) {
+      setNewMessage(messageText); // Restore message on error
       console.error('Error sending message:', error);
       toast.error('Failed to send message');
     } finally {
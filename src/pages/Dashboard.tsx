@@ -28,17 +28,40 @@ import {
   CalendarPlus
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
-import { format, addDays, isPast } from 'date-fns';
+import { format, isPast, parseISO } from 'date-fns';
 import toast from 'react-hot-toast';
+import { subscribeToEmergencyRequests, subscribeToNotifications } from '../lib/notifications';
+import { getRequestStatusLabel } from '../lib/requestLifecycle';
+import { checkEligibility, type EligibilityResult } from '../lib/donorEligibility';
 import { DonationConfirmation } from '../components/DonationConfirmation';
 import { DonationCertificate } from '../components/DonationCertificate';
 import { NotificationBell } from '../components/NotificationBell';
+import { NotificationPreferencesForm } from '../components/NotificationPreferencesForm';
+import { DonorAvailabilitySettings } from '../components/DonorAvailabilitySettings';
 import { DonationConfirmationModal } from '../components/DonationConfirmationModal';
 import { EmergencyRequestConfirmation } from '../components/EmergencyRequestConfirmation';
 import { DonorOfferConfirmation } from '../components/DonorOfferConfirmation';
 import { DonorRequests } from '../components/DonorRequests';
 import EmergencyBanner from '../components/EmergencyBanner';
 import { ActionBanner } from '../components/ActionBanner';
+import { getUserProfile, type UserProfileRow } from '../lib/repositories/userProfiles';
+import {
+  getDonorById,
+  getDonorIdByUserId,
+  getDonorProfileData,
+  type DonorProfileData,
+} from '../lib/repositories/donors';
+import {
+  listDonationsWithCertificates,
+  type DonationWithCertificates,
+} from '../lib/repositories/bloodDonations';
+import {
+  cancelDonationBooking,
+  listScheduledDonationsForDonor,
+} from '../lib/repositories/scheduledDonations';
+import { listHospitalDonationsForDonor } from '../lib/repositories/hospitalDonations';
+import { downloadAppointment } from '../lib/calendarExport';
+import { formatAppointmentTime } from '../lib/dateUtils';
 
 // Define the Notification interface here to match NotificationBell
 interface Notification {
@@ -52,47 +75,9 @@ interface Notification {
   created_at: string;
 }
 
-interface UserProfile {
-  id: string;
-  full_name: string;
-  blood_group: string;
-  date_of_birth: string;
-  contact_number: string;
-}
-
-interface DonorProfile {
-  id: string;
-  first_name: string;
-  last_name: string;
-  blood_type: string;
-  last_donation_date: string | null;
-  next_eligible_date: string | null;
-  is_available: boolean;
-  status: string;
-  points: number;
-  lifetime_donations: number;
-  current_tier: string;
+type DonorProfile = Omit<DonorProfileData, 'achievements'> & {
   achievements: Achievement[];
-  total_donations?: number;
-}
-
-interface BloodDonation {
-  id: string;
-  donation_date: string;
-  units_donated: number;
-  hospital_name: string;
-  hospital_address?: string;
-  blood_type: string;
-  verification_status: string;
-  donor_confirmed: boolean;
-  recipient_confirmed: boolean;
-  patient_name?: string;
-  points_earned: number;
-  donation_certificates?: {
-    certificate_number: string;
-    certificate_url: string;
-  }[];
-}
+};
 
 interface Achievement {
   id: string;
@@ -126,14 +111,20 @@ const REWARD_TIERS: Record<RewardTier, { color: string; min: number }> = {
 
 // Add types for scheduled donations
 interface ScheduledDonation {
-  id: string | number;
+  id: string;
   composite_id: string;
   donation_date: string;
   slot_time: string;
-  notes?: string;
+  /** The appointment instant, see `dateUtils` */
+  scheduled_at: string | null;
+  timezone: string | null;
+  notes: string | null;
   status: string;
-  facility_id: string | number;
+  facility_id: string;
   facility_name: string;
+  facility_address: string | null;
+  latitude: number | null;
+  longitude: number | null;
   facility_type: 'blood_bank' | 'hospital';
 }
 
@@ -190,14 +181,14 @@ function ScheduledDonations({ scheduledDonations, onReschedule, onCancel }: Sche
                   <div className="flex items-center mt-2">
                     <Calendar className="h-4 w-4 text-gray-500 mr-1.5" />
                     <p className="text-sm text-gray-600">
-                      <span className="font-medium">Date:</span> {format(new Date(donation.donation_date), 'EEE, MMM dd, yyyy')}
+                      <span className="font-medium">Date:</span> {format(donationDay(donation), 'EEE, MMM dd, yyyy')}
                     </p>
                   </div>
                   
                   <div className="flex items-center mt-1">
                     <Clock className="h-4 w-4 text-gray-500 mr-1.5" />
                     <p className="text-sm text-gray-600">
-                      <span className="font-medium">Time:</span> {donation.slot_time ? formatTimeDisplay(donation.slot_time) : 'Not specified'}
+                      <span className="font-medium">Time:</span> {donation.slot_time ? donationTime(donation) : 'Not specified'}
                     </p>
                   </div>
                   
@@ -212,6 +203,28 @@ function ScheduledDonations({ scheduledDonations, onReschedule, onCancel }: Sche
                 <div className="flex space-x-2">
                   {donation.status === 'pending' || donation.status === 'confirmed' ? (
                     <>
+                      <button
+                        onClick={() =>
+                          downloadAppointment({
+                            id: donation.id,
+                            facility_type: donation.facility_type,
+                            facility_name: donation.facility_name,
+                            facility_address: donation.facility_address,
+                            latitude: donation.latitude,
+                            longitude: donation.longitude,
+                            scheduled_date: donation.donation_date,
+                            scheduled_time: donation.slot_time,
+                            scheduled_at: donation.scheduled_at,
+                            status: donation.status,
+                            notes: donation.notes,
+                          })
+                        }
+                        className="flex items-center text-gray-700 hover:bg-gray-50 px-2 py-1 rounded text-sm"
+                        title="Add to calendar"
+                      >
+                        <CalendarPlus className="h-4 w-4 mr-1" />
+                        Add to calendar
+                      </button>
                       <button
                         onClick={() => onReschedule(donation)}
                         className="flex items-center text-blue-600 hover:bg-blue-50 px-2 py-1 rounded text-sm"
@@ -268,7 +281,7 @@ function RescheduleModal({ show, donation, onClose, onConfirm }: RescheduleModal
       <div className="bg-white rounded-lg shadow-xl p-6 max-w-md w-full mx-4">
         <h3 className="text-lg font-bold text-gray-900 mb-4">Reschedule Donation</h3>
         <p className="text-gray-600 mb-6">
-          You are about to reschedule your blood donation at {donation.facility_name} on {format(new Date(donation.donation_date), 'EEE, MMM dd, yyyy')} at {format(new Date(donation.donation_date), 'h:mm a')}.
+          You are about to reschedule your blood donation at {donation.facility_name} on {format(donationDay(donation), 'EEE, MMM dd, yyyy')} at {donationTime(donation)}.
         </p>
         <div className="flex justify-end space-x-3">
           <button
@@ -305,7 +318,7 @@ function CancelModal({ show, donation, onClose, onConfirm }: CancelModalProps) {
       <div className="bg-white rounded-lg shadow-xl p-6 max-w-md w-full mx-4">
         <h3 className="text-lg font-bold text-gray-900 mb-4">Cancel Donation</h3>
         <p className="text-gray-600 mb-6">
-          Are you sure you want to cancel your blood donation at {donation.facility_name} on {format(new Date(donation.donation_date), 'EEE, MMM dd, yyyy')} at {format(new Date(donation.donation_date), 'h:mm a')}?
+          Are you sure you want to cancel your blood donation at {donation.facility_name} on {format(donationDay(donation), 'EEE, MMM dd, yyyy')} at {donationTime(donation)}?
         </p>
         <div className="flex justify-end space-x-3">
           <button
@@ -326,30 +339,23 @@ function CancelModal({ show, donation, onClose, onConfirm }: CancelModalProps) {
   );
 }
 
-// Add this helper function above the Dashboard component
-function formatTimeDisplay(timeStr: string): string {
-  // Check if the time is already in 12-hour format
-  if (timeStr.includes('AM') || timeStr.includes('PM')) {
-    return timeStr;
-  }
-  
-  try {
-    // Convert HH:MM format to 12-hour time
-    const [hours, minutes] = timeStr.split(':').map(part => parseInt(part, 10));
-    const ampm = hours >= 12 ? 'PM' : 'AM';
-    const displayHours = hours % 12 || 12; // Convert 0 to 12 for 12 AM
-    return `${displayHours}:${minutes.toString().padStart(2, '0')} ${ampm}`;
-  } catch (e) {
-    // If parsing fails, return the original string
-    return timeStr;
-  }
+// Bookings are shown on the facility's calendar day, at its time with the donor's alongside
+function donationDay(donation: ScheduledDonation) {
+  return parseISO(donation.donation_date.slice(0, 10));
+}
+
+function donationTime(donation: ScheduledDonation) {
+  return formatAppointmentTime(donation.donation_date, donation.slot_time, donation.timezone);
 }
 
 export function Dashboard() {
   const navigate = useNavigate();
-  const [userProfile, setUserProfile] = useState<UserProfile | null>(null);
+  const [userProfile, setUserProfile] = useState<UserProfileRow | null>(null);
   const [donorProfile, setDonorProfile] = useState<DonorProfile | null>(null);
-  const [donations, setDonations] = useState<BloodDonation[]>([]);
+  const [eligibility, setEligibility] = useState<EligibilityResult | null>(null);
+  const [donations, setDonations] = useState<DonationWithCertificates[]>([]);
+  const [selectedCertificate, setSelectedCertificate] =
+    useState<DonationWithCertificates | null>(null);
   const [rewards, setRewards] = useState<DonorRewards | null>(null);
   const [loading, setLoading] = useState(true);
   const [pendingConfirmation, setPendingConfirmation] =
@@ -365,6 +371,8 @@ export function Dashboard() {
   const [showCancelModal, setShowCancelModal] = useState(false);
   const [selectedDonation, setSelectedDonation] = useState<ScheduledDonation | null>(null);
   const [scheduledDonationsLoading, setScheduledDonationsLoading] = useState(true);
+  // Bumped by realtime changes to refetch the dashboard data
+  const [refreshKey, setRefreshKey] = useState(0);
 
   useEffect(() => {
     const fetchDashboardData = async () => {
@@ -391,13 +399,10 @@ export function Dashboard() {
         }
 
         // Fetch user profile
-        const { data: userData, error: userError } = await supabase
-          .from('user_profiles')
-          .select('*')
-          .eq('user_id', session.user.id)
-          .single();
-
-        if (userError) {
+        let userData: UserProfileRow;
+        try {
+          userData = await getUserProfile(session.user.id);
+        } catch (userError) {
           console.error('Error fetching user profile:', userError);
           toast.error('Failed to load user profile');
           return;
@@ -406,59 +411,41 @@ export function Dashboard() {
         setUserProfile(userData);
 
         // Fetch donor profile data
-        const { data: donorData, error: donorError } = await supabase
-          .rpc('get_donor_profile_data', {
-            p_user_id: session.user.id
-          });
-
-        if (donorError) {
-          if (donorError.code !== 'PGRST116') {
-            console.error('Error fetching donor profile:', donorError);
-            toast.error('Failed to load donor profile');
-          } else {
-            console.log('User is not registered as a donor yet');
-          }
+        let donorData: DonorProfileData | null = null;
+        try {
+          donorData = await getDonorProfileData(session.user.id);
+        } catch (donorError) {
+          console.error('Error fetching donor profile:', donorError);
+          toast.error('Failed to load donor profile');
         }
 
-        if (donorData && donorData.length > 0) {
+        if (donorData) {
+          const achievements = (donorData.achievements ?? []) as unknown as Achievement[];
+
           // Set donor profile data
-          setDonorProfile(donorData[0]);
+          setDonorProfile({ ...donorData, achievements });
           setRewards({
-            points: donorData[0].points || 0,
-            lifetime_donations: donorData[0].lifetime_donations || 0,
-            current_tier: donorData[0].current_tier || 'bronze',
-            achievements: donorData[0].achievements || []
+            points: donorData.points || 0,
+            lifetime_donations: donorData.lifetime_donations || 0,
+            current_tier: (donorData.current_tier || 'bronze') as RewardTier,
+            achievements
           });
 
+          try {
+            setEligibility(checkEligibility(await getDonorById(donorData.donor_id)));
+          } catch (eligibilityError) {
+            console.error('Error checking donor eligibility:', eligibilityError);
+          }
+
           // Fetch donations with certificates
-          const { data: donationsData, error: donationsError } = await supabase
-            .from('blood_donations')
-            .select(`
-              id,
-              donation_date,
-              units_donated,
-              hospital_name,
-              hospital_address,
-              blood_type,
-              verification_status,
-              donor_confirmed,
-              recipient_confirmed,
-              patient_name,
-              points_earned,
-              donation_certificates (
-                certificate_number,
-                certificate_url
-              )
-            `)
-            .eq('donor_id', donorData[0].donor_id)
-            .order('donation_date', { ascending: false });
-
-          if (donationsError) {
+          try {
+            setDonations(await listDonationsWithCertificates(donorData.donor_id));
+          } catch (donationsError) {
             console.error('Error fetching donations:', donationsError);
             toast.error('Failed to load donation history');
-          } else {
-            setDonations(donationsData || []);
           }
+        } else {
+          console.log('User is not registered as a donor yet');
         }
       } catch (error) {
         console.error('Error fetching dashboard data:', error);
@@ -469,7 +456,7 @@ export function Dashboard() {
     };
 
     fetchDashboardData();
-  }, [navigate]);
+  }, [navigate, refreshKey]);
 
   // Moving the fetchScheduledDonations useEffect out as a separate top-level hook
   useEffect(() => {
@@ -481,166 +468,65 @@ export function Dashboard() {
         if (!session?.user?.id) return;
         
         // First get the donor_id from the user_id
-        const { data: donorData, error: donorError } = await supabase
-          .from('donors')
-          .select('id')
-          .eq('user_id', session.user.id)
-          .single();
-          
-        if (donorError) {
-          console.error('Error fetching donor ID:', donorError);
-          return;
-        }
+        const donorId = await getDonorIdByUserId(session.user.id);
         
-        if (!donorData?.id) {
+        if (!donorId) {
           console.log('No donor profile found for this user');
           return;
         }
         
-        // Now fetch scheduled donations with the donor_id
-        const { data: scheduledData, error: scheduledError } = await supabase
-          .from('scheduled_donations')
-          .select(`
-            id,
-            blood_bank_id,
-            donor_id,
-            scheduled_date,
-            scheduled_time,
-            status,
-            notes,
-            blood_banks (
-              id,
-              name
-            )
-          `)
-          .eq('donor_id', donorData.id);
-
-        if (scheduledError) {
-          console.error('Error fetching scheduled donations:', scheduledError);
-          return;
-        }
-
-        // Fetch hospital donations with the donor_id - use donation_date instead of scheduled_date
-        // Also check if scheduled_time column exists, and handle fallback
-        try {
-          const { data: hospitalData, error: hospitalError } = await supabase
-            .from('hospital_donations')
-            .select(`
-              id,
-              donation_date,
-              scheduled_time,
-              slot_id,
-              status,
-              notes,
-              hospitals (
-                id,
-                name
-              )
-            `)
-            .eq('donor_id', donorData.id);
-
-          if (hospitalError) {
-            console.error('Error fetching hospital donations:', hospitalError);
-            // If error is about missing columns, try a fallback query
-            if (hospitalError.code === '42703') {
-              console.log('Attempting fallback query for hospital donations without scheduled_time');
-              const { data: fallbackData, error: fallbackError } = await supabase
-                .from('hospital_donations')
-                .select(`
-                  id,
-                  donation_date,
-                  slot_id,
-                  status,
-                  notes,
-                  hospitals (
-                    id,
-                    name
-                  )
-                `)
-                .eq('donor_id', donorData.id);
-              
-              if (fallbackError) {
-                console.error('Error in fallback hospital donations query:', fallbackError);
-                return;
-              }
-              
-              // Transform hospital donations data without scheduled_time
-              const transformedHospital = (fallbackData || []).map(donation => ({
-                id: donation.id,
-                composite_id: `hospital-${donation.id}`,
-                donation_date: donation.donation_date,
-                slot_time: '09:00', // Default time when not available
-                notes: donation.notes,
-                status: donation.status || 'pending',
-                facility_id: donation.hospitals?.id,
-                facility_name: donation.hospitals?.name,
-                facility_type: 'hospital' as const
-              }));
-
-              // Combine with scheduled donations
-              const transformedScheduled = (scheduledData || []).map(donation => ({
-                id: donation.id,
-                composite_id: `blood_bank-${donation.id}`,
-                donation_date: donation.scheduled_date,
-                slot_time: donation.scheduled_time || '09:00',
-                notes: donation.notes,
-                status: donation.status || 'pending',
-                facility_id: donation.blood_bank_id,
-                facility_name: donation.blood_banks?.name,
-                facility_type: 'blood_bank' as const
-              }));
-
-              // Combine both types of donations
-              const combined = [...transformedScheduled, ...transformedHospital];
-              
-              // Sort donations by date (newest first)
-              const sorted = combined.sort((a, b) => 
-                new Date(b.donation_date).getTime() - new Date(a.donation_date).getTime()
-              );
-              
-              setScheduledDonations(sorted);
-              return;
-            }
-          }
-
-          // Transform scheduled donations data - use scheduled_time directly
-          const transformedScheduled = (scheduledData || []).map(donation => ({
-            id: donation.id,
-            composite_id: `blood_bank-${donation.id}`,
-            donation_date: donation.scheduled_date,
-            slot_time: donation.scheduled_time || '09:00',
-            notes: donation.notes,
-            status: donation.status || 'pending',
-            facility_id: donation.blood_bank_id,
-            facility_name: donation.blood_banks?.name,
-            facility_type: 'blood_bank' as const
-          }));
-
-          // Transform hospital donations data
-          const transformedHospital = (hospitalData || []).map(donation => ({
-            id: donation.id,
-            composite_id: `hospital-${donation.id}`,
-            donation_date: donation.donation_date,
-            slot_time: donation.scheduled_time || '09:00',
-            notes: donation.notes,
-            status: donation.status || 'pending',
-            facility_id: donation.hospitals?.id,
-            facility_name: donation.hospitals?.name,
-            facility_type: 'hospital' as const
-          }));
-
-          // Combine both types of donations
-          const combined = [...transformedScheduled, ...transformedHospital];
-          
-          // Sort donations by date (newest first)
-          const sorted = combined.sort((a, b) => 
-            new Date(b.donation_date).getTime() - new Date(a.donation_date).getTime()
-          );
-          
-          setScheduledDonations(sorted);
-        } catch (error) {
-          console.error('Error processing hospital donations:', error);
-        }
+        // Now fetch blood bank and hospital donations with the donor_id
+        const [scheduledData, hospitalData] = await Promise.all([
+          listScheduledDonationsForDonor(donorId),
+          listHospitalDonationsForDonor(donorId),
+        ]);
+
+        // Transform scheduled donations data - use scheduled_time directly
+        const transformedScheduled = scheduledData.map(donation => ({
+          id: donation.id,
+          composite_id: `blood_bank-${donation.id}`,
+          donation_date: donation.scheduled_date,
+          slot_time: donation.scheduled_time || '09:00',
+          scheduled_at: donation.scheduled_at,
+          timezone: donation.blood_banks?.timezone ?? null,
+          notes: donation.notes,
+          status: donation.status || 'pending',
+          facility_id: donation.blood_bank_id,
+          facility_name: donation.blood_banks?.name,
+          facility_address: donation.blood_banks?.address ?? null,
+          latitude: donation.blood_banks?.latitude ?? null,
+          longitude: donation.blood_banks?.longitude ?? null,
+          facility_type: 'blood_bank' as const
+        }));
+
+        // Transform hospital donations data
+        const transformedHospital = hospitalData.map(donation => ({
+          id: donation.id,
+          composite_id: `hospital-${donation.id}`,
+          donation_date: donation.donation_date,
+          slot_time: donation.scheduled_time || '09:00',
+          scheduled_at: donation.scheduled_at,
+          timezone: donation.hospitals?.timezone ?? null,
+          notes: donation.notes,
+          status: donation.status || 'pending',
+          facility_id: donation.hospitals?.id,
+          facility_name: donation.hospitals?.name,
+          facility_address: donation.hospitals?.address ?? null,
+          latitude: donation.hospitals?.latitude ?? null,
+          longitude: donation.hospitals?.longitude ?? null,
+          facility_type: 'hospital' as const
+        }));
+
+        // Combine both types of donations
+        const combined = [...transformedScheduled, ...transformedHospital];
+        
+        // Sort donations by date (newest first)
+        const sorted = combined.sort((a, b) => 
+          new Date(b.scheduled_at ?? b.donation_date).getTime() -
+          new Date(a.scheduled_at ?? a.donation_date).getTime()
+        );
+        
+        setScheduledDonations(sorted);
       } catch (error) {
         console.error('Error in donation fetch:', error);
       } finally {
@@ -649,17 +535,49 @@ export function Dashboard() {
     };
 
     fetchScheduledDonations();
-  }, []);
+  }, [refreshKey]);
 
-  const getNextDonationDate = () => {
-    if (!donorProfile?.next_eligible_date) {
-      if (donorProfile?.last_donation_date) {
-        // Calculate from last donation date if next_eligible_date is not set
-        return addDays(new Date(donorProfile.last_donation_date), 90);
+  // New notifications usually mean a donation or schedule changed elsewhere;
+  // requesters also hear about status changes on their emergency requests
+  useEffect(() => {
+    if (!userProfile) return;
+
+    const refresh = () => setRefreshKey((key) => key + 1);
+
+    const unsubscribeNotifications = subscribeToNotifications(
+      userProfile.user_id,
+      (payload) => {
+        if (payload.eventType === 'INSERT') refresh();
+      },
+      { onResync: refresh }
+    );
+
+    const unsubscribeRequests = subscribeToEmergencyRequests(
+      userProfile.user_id,
+      (payload) => {
+        if (
+          payload.eventType === 'UPDATE' &&
+          payload.old.status &&
+          payload.old.status !== payload.new.status
+        ) {
+          toast(
+            `Your request for ${payload.new.patient_name} is now ${getRequestStatusLabel(payload.new.status).toLowerCase()}`
+          );
+        }
       }
-      return null;
+    );
+
+    return () => {
+      unsubscribeNotifications();
+      unsubscribeRequests();
+    };
+  }, [userProfile?.user_id]);
+
+  const getNextDonationDate = () => {
+    if (eligibility) {
+      return eligibility.eligible ? null : eligibility.nextEligibleDate;
     }
-    return new Date(donorProfile.next_eligible_date);
+    return donorProfile?.next_eligible_date ? new Date(donorProfile.next_eligible_date) : null;
   };
 
   const handleConfirmationComplete = () => {
@@ -671,7 +589,7 @@ export function Dashboard() {
   // Handle donation reschedule
   const handleReschedule = (donation: ScheduledDonation) => {
     // Navigate to schedule page with pre-filled data
-    window.location.href = `/schedule-donation?facilityId=${donation.facility_id}&facilityType=${donation.facility_type}&date=${new Date(donation.donation_date).toISOString().split('T')[0]}&rescheduleId=${donation.id}`;
+    window.location.href = `/schedule-donation?facilityId=${donation.facility_id}&facilityType=${donation.facility_type}&date=${donation.donation_date.slice(0, 10)}&rescheduleId=${donation.id}`;
   };
 
   // Handle donation cancellation
@@ -692,26 +610,8 @@ export function Dashboard() {
     if (!selectedDonation) return;
     
     try {
-      // Update donation status to cancelled
-      let error;
-      
-      if (selectedDonation.facility_type === 'blood_bank') {
-        const { error: updateError } = await supabase
-          .from('scheduled_donations')
-          .update({ status: 'cancelled' })
-          .eq('id', selectedDonation.id);
-        error = updateError;
-      } else {
-        const { error: updateError } = await supabase
-          .from('hospital_donations')
-          .update({ status: 'cancelled' })
-          .eq('id', selectedDonation.id);
-        error = updateError;
-      }
-      
-      if (error) {
-        throw error;
-      }
+      // Frees the place for the next donor on the slot's waitlist
+      await cancelDonationBooking(selectedDonation.facility_type, selectedDonation.id);
       
       // Update local state
       setScheduledDonations(prev => 
@@ -733,7 +633,9 @@ export function Dashboard() {
   };
 
   const nextDonationDate = getNextDonationDate();
-  const canDonate = !nextDonationDate || isPast(nextDonationDate);
+  const canDonate = eligibility
+    ? eligibility.eligible
+    : !nextDonationDate || isPast(nextDonationDate);
 
   const handleNotificationClick = (notification: Notification) => {
     // Only handle blood_offer notifications
@@ -795,21 +697,38 @@ export function Dashboard() {
             </p>
           </div>
 
-          {donorProfile && nextDonationDate && !canDonate && (
+          {donorProfile && !canDonate && (
             <div className="mt-4 bg-red-50 border border-red-200 rounded-lg p-4">
               <div className="flex items-center text-red-700">
                 <Clock className="h-5 w-5 mr-2" />
                 <span>
-                  Next eligible donation date:{' '}
-                  <span className="font-semibold">
-                    {format(nextDonationDate, 'PPP')}
-                  </span>
+                  {nextDonationDate ? (
+                    <>
+                      Next eligible donation date:{' '}
+                      <span className="font-semibold">
+                        {format(nextDonationDate, 'PPP')}
+                      </span>
+                    </>
+                  ) : (
+                    'You cannot donate at the moment'
+                  )}
                 </span>
               </div>
+              {eligibility && (
+                <ul className="mt-2 ml-7 text-sm text-red-600 list-disc list-inside">
+                  {eligibility.reasons.map((reason) => (
+                    <li key={reason.code}>{reason.message}</li>
+                  ))}
+                </ul>
+              )}
             </div>
           )}
         </div>
 
+        {userProfile && <NotificationPreferencesForm userId={userProfile.user_id} />}
+
+        {donorProfile && <DonorAvailabilitySettings donorId={donorProfile.donor_id} />}
+
         {/* Donor Information Section */}
         {donorProfile && (
           <>
@@ -876,15 +795,13 @@ export function Dashboard() {
                         </div>
                         <div className="flex flex-col items-end space-y-2">
                           {donation.donation_certificates && donation.donation_certificates.length > 0 && (
-                            <a
-                              href={donation.donation_certificates[0].certificate_url}
-                              target="_blank"
-                              rel="noopener noreferrer"
+                            <button
+                              onClick={() => setSelectedCertificate(donation)}
                               className="flex items-center text-red-500 hover:text-red-600 bg-red-50 px-3 py-1 rounded-full text-sm"
                             >
                               <Certificate className="h-4 w-4 mr-1" />
                               View Certificate
-                            </a>
+                            </button>
                           )}
                         </div>
                       </div>
@@ -919,9 +836,11 @@ export function Dashboard() {
                   <div>
                     <p className="text-sm text-gray-500">Next Eligible Date</p>
                     <p className="font-medium text-gray-900">
-                      {donorProfile.next_eligible_date 
-                        ? format(new Date(donorProfile.next_eligible_date), 'MMM dd, yyyy')
-                        : 'Available Now'}
+                      {canDonate
+                        ? 'Available Now'
+                        : nextDonationDate
+                          ? format(nextDonationDate, 'MMM dd, yyyy')
+                          : 'Not eligible'}
                     </p>
                   </div>
                 </div>
@@ -1043,6 +962,25 @@ export function Dashboard() {
           </>
         )}
 
+        {selectedCertificate && donorProfile && selectedCertificate.donation_certificates[0] && (
+          <div
+            className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50"
+            onClick={() => setSelectedCertificate(null)}
+          >
+            <div className="max-w-2xl w-full mx-4" onClick={(e) => e.stopPropagation()}>
+              <DonationCertificate
+                certificateNumber={selectedCertificate.donation_certificates[0].certificate_number}
+                donorName={`${donorProfile.first_name} ${donorProfile.last_name}`}
+                bloodType={selectedCertificate.blood_type || donorProfile.blood_type}
+                donationDate={selectedCertificate.donation_date}
+                hospitalName={selectedCertificate.hospital_name || ''}
+                unitsConfirmed={selectedCertificate.units_donated}
+                issuedAt={selectedCertificate.donation_certificates[0].issued_at}
+              />
+            </div>
+          </div>
+        )}
+
         {showConfirmation && pendingConfirmation && (
           <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50">
             <div className="bg-white rounded-lg shadow-xl p-6 max-w-2xl w-full mx-4">
@@ -17,28 +17,14 @@ import toast from 'react-hot-toast';
 import { Toaster } from 'react-hot-toast';
 import { CampRegistrationForm } from '../components/CampRegistrationForm';
 import { OrganizeCampForm } from '../components/OrganizeCampForm';
-
-interface DonationCamp {
-  id: string;
-  name: string;
-  description: string;
-  location: string;
-  camp_date: string;
-  start_time: string;
-  end_time: string;
-  organizer_name: string;
-  organizer_contact: string;
-  max_participants: number;
-  current_participants: number;
-  status: string;
-}
+import { listUpcomingCamps, type DonationCampRow } from '../lib/repositories/donationCamps';
 
 export function DonationCamps() {
   const navigate = useNavigate();
   const [activeTab, setActiveTab] = useState<'participate' | 'organize'>('participate');
-  const [camps, setCamps] = useState<DonationCamp[]>([]);
+  const [camps, setCamps] = useState<DonationCampRow[]>([]);
   const [loading, setLoading] = useState(true);
-  const [selectedCamp, setSelectedCamp] = useState<DonationCamp | null>(null);
+  const [selectedCamp, setSelectedCamp] = useState<DonationCampRow | null>(null);
   const [showRegistrationForm, setShowRegistrationForm] = useState(false);
   const [showOrganizeForm, setShowOrganizeForm] = useState(false);
   const [currentUser, setCurrentUser] = useState<any>(null);
@@ -51,14 +37,8 @@ export function DonationCamps() {
     }
 
     try {
-      const { data, error } = await supabase
-        .from('donation_camps')
-        .select('*')
-        .gte('camp_date', new Date().toISOString().split('T')[0])
-        .order('camp_date', { ascending: true });
-
-      if (error) throw error;
-      setCamps(data || []);
+      const data = await listUpcomingCamps(new Date().toISOString().split('T')[0]);
+      setCamps(data);
     } catch (error) {
       console.error('Error fetching camps:', error);
       toast.error('Failed to load donation camps');
@@ -92,7 +72,7 @@ export function DonationCamps() {
     fetchCamps();
   }, [currentUser]);
 
-  const handleParticipate = (camp: DonationCamp) => {
+  const handleParticipate = (camp: DonationCampRow) => {
     setSelectedCamp(camp);
     setShowRegistrationForm(true);
   };
@@ -8,6 +8,8 @@ import {
   MapPin,
   Calendar,
   Map,
+  Users,
+  XCircle,
 } from 'lucide-react';
 import { supabase } from '../lib/supabase';
 import toast from 'react-hot-toast';
@@ -16,50 +18,56 @@ import { format } from 'date-fns';
 import { DonationOfferModal } from '../components/DonationOfferModal';
 import { ScheduleManager } from '../components/ScheduleManager';
 import { EmergencyMapView } from '../components/EmergencyMapView';
-
-interface EmergencyRequest {
-  id: string;
-  patient_name: string;
-  blood_type: string;
-  units_required: number;
-  hospital_name: string;
-  hospital_address: string;
-  contact_person: string;
-  contact_number: string;
-  notes: string;
-  status: 'pending' | 'in_progress' | 'fulfilled' | 'cancelled';
-  urgency_level: string;
-  created_at: string;
-  user_id: string;
-  fulfilled_by?: string;
-  fulfilled_at?: string;
-}
-
-interface DonationOffer {
-  id: string;
-  request_id: string;
-  donor_id: string;
-  status: 'pending' | 'accepted' | 'rejected';
-  donor: {
-    id: string;
-    first_name: string;
-    last_name: string;
-    blood_type: string;
-    phone: string;
-  };
-}
+import { DonorMatchBreakdown } from '../components/DonorMatchBreakdown';
+import { RequestTimeline } from '../components/RequestTimeline';
+import { FulfilmentProgressBar } from '../components/FulfilmentProgressBar';
+import { RequestPledges } from '../components/RequestPledges';
+import { rankDonors, type DonorMatch } from '../lib/donorMatching';
+import { applyCurrentAvailability } from '../lib/donorAvailability';
+import { getCompatibleBloodTypes } from '../lib/validation';
+import { getComponentLabel } from '../lib/bloodComponents';
+import {
+  getDonorByUserId,
+  listAvailableDonorIds,
+  listMatchCandidates,
+  type Donor,
+} from '../lib/repositories/donors';
+import {
+  getEmergencyRequest,
+  listEmergencyRequests,
+  type EmergencyRequestRow,
+} from '../lib/repositories/emergencyRequests';
+import {
+  createDonorResponse,
+  findDonorResponse,
+  listOffersForRequest,
+  type DonationOfferWithDonor,
+} from '../lib/repositories/donorResponses';
+import { dispatchNotification } from '../lib/notifications';
+import { canTransition, getRequestStatusLabel, isTerminalStatus } from '../lib/requestLifecycle';
+import { getFulfilmentProgress } from '../lib/requestFulfilment';
+import { getBloodBankByUserId, type BloodBankRow } from '../lib/repositories/bloodBanks';
+import { transitionRequestStatus } from '../lib/repositories/requestStatusEvents';
+
+type DonationOffer = DonationOfferWithDonor;
 
 export function EmergencyRequests() {
-  const [requests, setRequests] = useState<EmergencyRequest[]>([]);
+  const [requests, setRequests] = useState<EmergencyRequestRow[]>([]);
   const [loading, setLoading] = useState(true);
   const [currentUser, setCurrentUser] = useState<any>(null);
-  const [userDonor, setUserDonor] = useState<any>(null);
+  const [userDonor, setUserDonor] = useState<Donor | null>(null);
+  const [userBloodBank, setUserBloodBank] = useState<BloodBankRow | null>(null);
   const [selectedRequest, setSelectedRequest] = useState<string | null>(null);
   const [donationOffers, setDonationOffers] = useState<{
     [key: string]: DonationOffer[];
   }>({});
   const [selectedOffer, setSelectedOffer] = useState<DonationOffer | null>(null);
   const [showMap, setShowMap] = useState<string | null>(null);
+  const [showMatches, setShowMatches] = useState<string | null>(null);
+  const [donorMatches, setDonorMatches] = useState<{
+    [key: string]: DonorMatch<Donor>[];
+  }>({});
+  const [loadingMatches, setLoadingMatches] = useState(false);
   const hasShownAuthToast = useRef(false);
 
   // First effect to check authentication
@@ -94,64 +102,30 @@ export function EmergencyRequests() {
 
       try {
         // Get user's donor profile
-        const { data: donorData, error: donorError } = await supabase
-          .from('donors')
-          .select('*')
-          .eq('user_id', currentUser.id)
-          .maybeSingle();
-
-        if (donorError) {
-          console.error('Donor fetch error:', donorError);
-          throw donorError;
-        }
+        const donorData = await getDonorByUserId(currentUser.id);
 
         setUserDonor(donorData);
+        setUserBloodBank(await getBloodBankByUserId(currentUser.id));
 
         // Fetch emergency requests
-        const { data: requestsData, error: requestsError } = await supabase
-          .from('emergency_requests')
-          .select('*')
-          .order('created_at', { ascending: false });
-
-        if (requestsError) {
-          console.error('Requests fetch error:', requestsError);
-          throw requestsError;
-        }
+        const requestsData = await listEmergencyRequests();
 
         // Fetch donation offers for each request
         const offers: { [key: string]: DonationOffer[] } = {};
-        for (const request of requestsData || []) {
-          const { data: offerData, error: offerError } = await supabase
-            .from('donor_responses')
-            .select(
-              `
-              id,
-              request_id,
-              donor_id,
-              status,
-              donor:donors (
-                id,
-                first_name,
-                last_name,
-                blood_type,
-                phone
-              )
-            `
-            )
-            .eq('request_id', request.id);
-
-          if (offerError) {
+        for (const request of requestsData) {
+          try {
+            const offerData = await listOffersForRequest(request.id);
+
+            if (offerData.length > 0) {
+              offers[request.id] = offerData;
+            }
+          } catch (offerError) {
             console.error('Offer fetch error:', offerError);
-            continue;
-          }
-
-          if (offerData && offerData.length > 0) {
-            offers[request.id] = offerData;
           }
         }
 
         setDonationOffers(offers);
-        setRequests(requestsData || []);
+        setRequests(requestsData);
       } catch (error) {
         console.error('Error in fetchData:', error);
         toast.error('Failed to load emergency requests');
@@ -163,6 +137,37 @@ export function EmergencyRequests() {
     fetchData();
   }, [currentUser]);
 
+  const handleToggleMatches = async (request: EmergencyRequestRow) => {
+    if (showMatches === request.id) {
+      setShowMatches(null);
+      return;
+    }
+
+    setShowMatches(request.id);
+    if (donorMatches[request.id]) return;
+
+    try {
+      setLoadingMatches(true);
+      const [candidates, availableDonorIds] = await Promise.all([
+        listMatchCandidates(getCompatibleBloodTypes(request.blood_type, request.component_type)),
+        listAvailableDonorIds(true),
+      ]);
+      const ranked = rankDonors(
+        request,
+        applyCurrentAvailability(
+          candidates.filter((donor) => donor.user_id !== request.user_id),
+          availableDonorIds
+        )
+      );
+      setDonorMatches((prev) => ({ ...prev, [request.id]: ranked.slice(0, 10) }));
+    } catch (error) {
+      console.error('Error matching donors:', error);
+      toast.error('Failed to find matching donors');
+    } finally {
+      setLoadingMatches(false);
+    }
+  };
+
   const handleDonate = async (requestId: string) => {
     try {
       console.log('Starting donation process for request:', requestId);
@@ -176,20 +181,11 @@ export function EmergencyRequests() {
       console.log('Checking existing offers for donor:', userDonor.id);
 
       // Check if already offered to donate
-      const { data: existingOffers, error: checkError } = await supabase
-        .from('donor_responses')
-        .select('*')
-        .eq('request_id', requestId)
-        .eq('donor_id', userDonor.id);
-
-      if (checkError) {
-        console.error('Error checking existing offers:', checkError);
-        throw checkError;
-      }
+      const existingOffer = await findDonorResponse(requestId, userDonor.id);
 
-      console.log('Existing offers:', existingOffers);
+      console.log('Existing offer:', existingOffer);
 
-      if (existingOffers && existingOffers.length > 0) {
+      if (existingOffer) {
         console.log('Found existing offer');
         toast.error('You have already offered to donate for this request');
         return;
@@ -198,99 +194,53 @@ export function EmergencyRequests() {
       console.log('Creating new donation offer');
 
       // Get the request details first
-      const { data: requestData, error: requestError } = await supabase
-        .from('emergency_requests')
-        .select('*')
-        .eq('id', requestId)
-        .single();
-
-      if (requestError) {
-        console.error('Error fetching request:', requestError);
-        throw requestError;
-      }
+      const requestData = await getEmergencyRequest(requestId);
 
       // Create donation offer
-      const { data: insertedOffer, error: offerError } = await supabase
-        .from('donor_responses')
-        .insert({
-          request_id: requestId,
-          donor_id: userDonor.id,
-          status: 'pending',
-          response: 'I would like to donate blood for this request'
-        })
-        .select()
-        .single();
-
-      if (offerError) {
-        console.error('Error creating offer:', offerError);
-        throw offerError;
-      }
+      const insertedOffer = await createDonorResponse({
+        request_id: requestId,
+        donor_id: userDonor.id,
+        status: 'pending',
+        response: 'I would like to donate blood for this request'
+      });
 
       console.log('Successfully created offer:', insertedOffer);
 
       // Create notification for request owner
       const notificationData = {
-        user_id: requestData.user_id,
-        title: 'New Blood Donation Offer',
-        message: `${userDonor.first_name} ${userDonor.last_name} has offered to donate blood for ${requestData.patient_name}`,
-        type: 'blood_offer',
-        read: false,
-        data: {
-          request_id: requestId,
-          donor_id: userDonor.id,
-          name: `${userDonor.first_name} ${userDonor.last_name}`,
-          phone: userDonor.phone,
-          blood_type: userDonor.blood_type,
-          patient_name: requestData.patient_name,
-          hospital_name: requestData.hospital_name,
-          recipient_info: 'requester'
-        },
+        request_id: requestId,
+        donor_id: userDonor.id,
+        name: `${userDonor.first_name} ${userDonor.last_name}`,
+        phone: userDonor.phone,
+        blood_type: userDonor.blood_type,
+        patient_name: requestData.patient_name,
+        hospital_name: requestData.hospital_name,
+        recipient_info: 'requester'
       };
 
-      const { error: notifError } = await supabase
-        .from('notifications')
-        .insert([notificationData]);
-
-      if (notifError) {
+      try {
+        await dispatchNotification('blood_offer', requestData.user_id, notificationData);
+        console.log('Successfully created notification');
+        toast.success('Your donation offer has been sent successfully');
+      } catch (notifError) {
         console.error('Error creating notification:', notifError);
         console.log('Notification data:', notificationData);
         toast.error(
           'Notification creation failed, but your offer was recorded'
         );
-      } else {
-        console.log('Successfully created notification');
-        toast.success('Your donation offer has been sent successfully');
       }
 
       setSelectedRequest(requestId);
 
       // Refresh the offers for this request
-      const { data: newOffers, error: newOffersError } = await supabase
-        .from('donor_responses')
-        .select(
-          `
-          id,
-          request_id,
-          donor_id,
-          status,
-          donor:donors (
-            id,
-            first_name,
-            last_name,
-            blood_type,
-            phone
-          )
-        `
-        )
-        .eq('request_id', requestId);
-
-      if (newOffersError) {
-        console.error('Error fetching new offers:', newOffersError);
-      } else {
+      try {
+        const newOffers = await listOffersForRequest(requestId);
         setDonationOffers((prev) => ({
           ...prev,
-          [requestId]: newOffers || [],
+          [requestId]: newOffers,
         }));
+      } catch (newOffersError) {
+        console.error('Error fetching new offers:', newOffersError);
       }
     } catch (error) {
       console.error('Full error details:', error);
@@ -298,6 +248,39 @@ export function EmergencyRequests() {
     }
   };
 
+  // Pledge totals and status are derived server-side, so reload the request
+  const refreshRequest = async (requestId: string) => {
+    try {
+      const updated = await getEmergencyRequest(requestId);
+      setRequests((prev) => prev.map((r) => (r.id === requestId ? updated : r)));
+    } catch (error) {
+      console.error('Error refreshing request:', error);
+    }
+  };
+
+  const handleCancelRequest = async (request: EmergencyRequestRow) => {
+    if (!window.confirm('Cancel this request? Donors will no longer be able to offer for it.')) {
+      return;
+    }
+
+    try {
+      await transitionRequestStatus({
+        kind: 'emergency',
+        requestId: request.id,
+        from: request.status,
+        to: 'cancelled',
+        actor: 'requester',
+      });
+      setRequests((prev) =>
+        prev.map((r) => (r.id === request.id ? { ...r, status: 'cancelled' } : r))
+      );
+      toast.success('Request cancelled');
+    } catch (error) {
+      console.error('Error cancelling request:', error);
+      toast.error('Failed to cancel request');
+    }
+  };
+
   const getUrgencyColor = (level: string) => {
     switch (level) {
       case 'critical':
@@ -386,7 +369,7 @@ export function EmergencyRequests() {
                       </h3>
                       <p className="text-gray-600">
                         Requires {request.units_required} units of{' '}
-                        {request.blood_type} blood
+                        {request.blood_type} {getComponentLabel(request.component_type)}
                       </p>
                     </div>
 
@@ -397,13 +380,27 @@ export function EmergencyRequests() {
                       </p>
                       <p className="flex items-center">
                         <Clock className="h-4 w-4 mr-2" />
-                        Status: {request.status}
+                        Status: {getRequestStatusLabel(request.status)}
                       </p>
                       {request.notes && (
                         <p className="text-gray-500 mt-2">{request.notes}</p>
                       )}
                     </div>
 
+                    <FulfilmentProgressBar request={request} />
+
+                    {currentUser &&
+                      (request.user_id === currentUser.id || userBloodBank) && (
+                        <RequestPledges
+                          request={request}
+                          canManage={request.user_id === currentUser.id}
+                          bloodBank={userBloodBank}
+                          onChange={() => refreshRequest(request.id)}
+                        />
+                      )}
+
+                    <RequestTimeline kind="emergency" requestId={request.id} status={request.status} />
+
                     {/* Show donation offers if the user owns this request */}
                     {currentUser &&
                       request.user_id === currentUser.id && (
@@ -442,8 +439,8 @@ export function EmergencyRequests() {
                             </div>
                           )}
 
-                          {/* Show map button if the user owns this request */}
-                          <div className="mt-4 flex">
+                          {/* Show map and match buttons if the user owns this request */}
+                          <div className="mt-4 flex flex-wrap gap-2">
                             <button
                               onClick={() => setShowMap(request.id === showMap ? null : request.id)}
                               className="flex items-center bg-emerald-500 text-white px-4 py-2 rounded-lg hover:bg-emerald-600 transition"
@@ -451,8 +448,63 @@ export function EmergencyRequests() {
                               <Map className="h-4 w-4 mr-2" />
                               {request.id === showMap ? 'Hide Map' : 'View Nearby Donors & Blood Banks'}
                             </button>
+                            {canTransition('emergency', request.status, 'cancelled', 'requester') && (
+                              <button
+                                onClick={() => handleCancelRequest(request)}
+                                className="flex items-center bg-gray-500 text-white px-4 py-2 rounded-lg hover:bg-gray-600 transition"
+                              >
+                                <XCircle className="h-4 w-4 mr-2" />
+                                Cancel Request
+                              </button>
+                            )}
+                            {!isTerminalStatus(request.status) &&
+                              !getFulfilmentProgress(request).isFullyPledged && (
+                                <button
+                                  onClick={() => handleToggleMatches(request)}
+                                  className="flex items-center bg-blue-500 text-white px-4 py-2 rounded-lg hover:bg-blue-600 transition"
+                                >
+                                  <Users className="h-4 w-4 mr-2" />
+                                  {request.id === showMatches ? 'Hide Matches' : 'Best Matched Donors'}
+                                </button>
+                              )}
                           </div>
 
+                          {/* Show ranked donors if selected */}
+                          {request.id === showMatches && (
+                            <div className="mt-4">
+                              <h4 className="text-sm font-semibold text-gray-900 mb-2">
+                                Best Matched Donors:
+                              </h4>
+                              {loadingMatches && !donorMatches[request.id] ? (
+                                <p className="text-sm text-gray-500">Finding donors...</p>
+                              ) : !donorMatches[request.id]?.length ? (
+                                <p className="text-sm text-gray-500">
+                                  No eligible donors available right now
+                                </p>
+                              ) : (
+                                <div className="space-y-2">
+                                  {donorMatches[request.id].map((match) => (
+                                    <div
+                                      key={match.donor.id}
+                                      className="flex items-start justify-between bg-gray-50 p-3 rounded-lg"
+                                    >
+                                      <div>
+                                        <p className="font-medium">
+                                          {match.donor.first_name}{' '}
+                                          {match.donor.last_name}
+                                        </p>
+                                        <p className="text-sm text-gray-600">
+                                          Blood Type: {match.donor.blood_type}
+                                        </p>
+                                      </div>
+                                      <DonorMatchBreakdown match={match} />
+                                    </div>
+                                  ))}
+                                </div>
+                              )}
+                            </div>
+                          )}
+
                           {/* Show map view if selected */}
                           {request.id === showMap && (
                             <div className="mt-4">
@@ -477,29 +529,29 @@ export function EmergencyRequests() {
                   </div>
 
                   <div className="text-right">
-                    {request.status === 'pending' ? (
+                    {!isTerminalStatus(request.status) &&
+                    !getFulfilmentProgress(request).isFullyPledged ? (
                       <button
                         onClick={() => handleDonate(request.id)}
-                        disabled={
-                          !userDonor ||
-                          selectedRequest === request.id ||
-                          request.status !== 'pending'
-                        }
+                        disabled={!userDonor || selectedRequest === request.id}
                         className="bg-red-500 text-white px-6 py-2 rounded-lg hover:bg-red-600 transition disabled:opacity-50 disabled:cursor-not-allowed"
                       >
-                        {request.status !== 'pending'
-                          ? 'Request In Progress'
-                          : 'Donate Blood'}
+                        Donate Blood
                       </button>
                     ) : request.status === 'fulfilled' ? (
                       <div className="flex items-center text-green-600">
                         <CheckCircle className="h-5 w-5 mr-2" />
                         Request Fulfilled
                       </div>
+                    ) : isTerminalStatus(request.status) ? (
+                      <div className="flex items-center text-gray-500">
+                        <XCircle className="h-5 w-5 mr-2" />
+                        {getRequestStatusLabel(request.status)}
+                      </div>
                     ) : (
                       <div className="flex items-center text-orange-600">
                         <Clock className="h-5 w-5 mr-2" />
-                        In Progress
+                        Fully Pledged
                       </div>
                     )}
                   </div>
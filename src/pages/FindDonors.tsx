@@ -4,8 +4,18 @@ import { supabase } from '../lib/supabase';
 import toast from 'react-hot-toast';
 import { Toaster } from 'react-hot-toast';
 import { format } from 'date-fns';
-import { calculateDistance } from '../lib/geolocation';
 import { ChatButton } from '../components/ChatButton';
+import { DonorMatchBreakdown } from '../components/DonorMatchBreakdown';
+import { rankDonors, type DonorMatch } from '../lib/donorMatching';
+import { applyCurrentAvailability } from '../lib/donorAvailability';
+import { getCompatibleBloodTypes } from '../lib/validation';
+import { findDonorsNearby } from '../services/nearbyDonorService';
+import {
+  getDonorIdByUserId,
+  listAvailableDonorIds,
+  searchDonors,
+  type Donor,
+} from '../lib/repositories/donors';
 
 interface DonorSearchFilters {
   bloodType?: string;
@@ -15,20 +25,6 @@ interface DonorSearchFilters {
   lastDonation?: string;
 }
 
-interface Donor {
-  id: string;
-  first_name: string;
-  last_name: string;
-  blood_type: string;
-  phone: string;
-  address: string;
-  last_donation_date: string | null;
-  is_available: boolean;
-  latitude: number | null;
-  longitude: number | null;
-  response_rate: number;
-}
-
 const BLOOD_TYPES = [
   { value: 'A+', label: 'A+' },
   { value: 'A-', label: 'A-' },
@@ -40,6 +36,9 @@ const BLOOD_TYPES = [
   { value: 'O-', label: 'O-' },
 ];
 
+/** Most donors loaded for a distance-filtered search */
+const MAX_NEARBY_DONORS = 1000;
+
 const DISTANCE_OPTIONS = [
   { value: 5, label: 'Within 5 km' },
   { value: 10, label: 'Within 10 km' },
@@ -50,6 +49,7 @@ const DISTANCE_OPTIONS = [
 export function FindDonors() {
   const [filters, setFilters] = useState<DonorSearchFilters>({});
   const [donors, setDonors] = useState<Donor[]>([]);
+  const [matches, setMatches] = useState<Record<string, DonorMatch<Donor>>>({});
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [userLocation, setUserLocation] = useState<{ lat: number; lng: number } | null>(null);
@@ -111,61 +111,90 @@ export function FindDonors() {
         setError(null);
 
         // First, get the current user's donor ID if they are a donor
-        const { data: currentDonorData } = await supabase
-          .from('donors')
-          .select('id')
-          .eq('user_id', currentUser.id)
-          .single();
-
-        const currentDonorId = currentDonorData?.id;
-
-        let query = supabase
-          .from('donors')
-          .select('*', { count: 'exact' })
-          .eq('status', 'active');
-
-        // Exclude current user from results if they're a donor
-        if (currentDonorId) {
-          query = query.neq('id', currentDonorId);
-        }
+        const currentDonorId = await getDonorIdByUserId(currentUser.id);
+
+        // Availability windows and snoozes are checked in the database, and
+        // only for the donors loaded
+        const withCurrentAvailability = async (list: Donor[]) =>
+          applyCurrentAvailability(
+            list,
+            await listAvailableDonorIds(false, list.map((donor) => donor.id))
+          );
 
-        // Apply filters
-        if (filters.bloodType) {
-          query = query.eq('blood_type', filters.bloodType);
-        }
-
-        if (filters.availability) {
-          query = query.eq('is_available', true);
-        }
+        let filteredDonors: Donor[];
+        let count = 0;
+        let ranked: DonorMatch<Donor>[] = [];
 
+        let eligibleSince: Date | undefined;
         if (filters.lastDonation === 'available') {
-          const threeMonthsAgo = new Date();
-          threeMonthsAgo.setMonth(threeMonthsAgo.getMonth() - 3);
-          query = query.or(`last_donation_date.lt.${threeMonthsAgo.toISOString()},last_donation_date.is.null`);
+          eligibleSince = new Date();
+          eligibleSince.setMonth(eligibleSince.getMonth() - 3);
         }
 
-        // Add pagination
-        const from = (currentPage - 1) * itemsPerPage;
-        query = query.range(from, from + itemsPerPage - 1);
-
-        const { data, error: fetchError, count } = await query;
-
-        if (fetchError) throw fetchError;
-
-        let filteredDonors = data || [];
+        // With a distance filter only donors in range are loaded, nearest
+        // first, and they are paginated after filtering
+        const radiusKm = userLocation && filters.distance ? filters.distance : null;
+        const findInRange = async (bloodTypes?: string[]) => {
+          const nearby = await findDonorsNearby(userLocation!, radiusKm!, {
+            bloodTypes,
+            availableOnly: filters.availability,
+            limit: MAX_NEARBY_DONORS,
+          });
+          return nearby.map((result) => result.item);
+        };
 
-        // Apply distance filtering if location is available and distance filter is set
-        if (userLocation && typeof filters.distance === 'number' && filteredDonors.length > 0) {
-          filteredDonors = filteredDonors.filter((donor) => {
-            if (!donor.latitude || !donor.longitude) return false;
-            const distance = calculateDistance(
-              userLocation.lat,
-              userLocation.lng,
-              donor.latitude,
-              donor.longitude
-            );
-            return distance <= filters.distance!;
+        if (filters.bloodType) {
+          // Compatible donors in range are ranked together, best match first;
+          // without a distance filter each page is loaded and ranked on its own
+          const bloodTypes = getCompatibleBloodTypes(filters.bloodType);
+          let candidates: Donor[];
+          if (radiusKm) {
+            candidates = await findInRange(bloodTypes);
+          } else {
+            const result = await searchDonors({
+              excludeDonorId: currentDonorId ?? undefined,
+              bloodTypes,
+              availableOnly: filters.availability,
+              eligibleSince,
+              page: currentPage,
+              pageSize: itemsPerPage,
+            });
+            candidates = result.donors;
+            count = result.count;
+          }
+          ranked = rankDonors(
+            {
+              blood_type: filters.bloodType,
+              latitude: userLocation?.lat,
+              longitude: userLocation?.lng,
+            },
+            await withCurrentAvailability(
+              candidates.filter((donor) => donor.id !== currentDonorId)
+            ),
+            {
+              includeIneligible: filters.lastDonation !== 'available',
+              includeUnavailable: !filters.availability,
+            }
+          );
+          filteredDonors = ranked.map((match) => match.donor);
+        } else if (radiusKm) {
+          filteredDonors = (await withCurrentAvailability(await findInRange())).filter(
+            (donor) =>
+              !eligibleSince ||
+              !donor.last_donation_date ||
+              new Date(donor.last_donation_date) < eligibleSince
+          );
+        } else {
+          // Exclude current user from results if they're a donor
+          const result = await searchDonors({
+            excludeDonorId: currentDonorId ?? undefined,
+            availableOnly: filters.availability,
+            eligibleSince,
+            page: currentPage,
+            pageSize: itemsPerPage,
           });
+          filteredDonors = await withCurrentAvailability(result.donors);
+          count = result.count;
         }
 
         // Apply location text search
@@ -181,8 +210,16 @@ export function FindDonors() {
           filteredDonors = filteredDonors.filter(donor => donor.id !== currentDonorId);
         }
 
+        if (radiusKm) {
+          // Nearby results are paginated after filtering
+          count = filteredDonors.length;
+          const from = (currentPage - 1) * itemsPerPage;
+          filteredDonors = filteredDonors.slice(from, from + itemsPerPage);
+        }
+
+        setMatches(Object.fromEntries(ranked.map((match) => [match.donor.id, match])));
         setDonors(filteredDonors);
-        setTotalPages(Math.ceil((count || 0) / itemsPerPage));
+        setTotalPages(Math.ceil(count / itemsPerPage));
       } catch (err) {
         console.error('Error fetching donors:', err);
         setError('Failed to fetch donors. Please try again.');
@@ -269,6 +306,11 @@ export function FindDonors() {
             </div>
             <span className="text-gray-500">{donors.length} results found</span>
           </div>
+          {filters.bloodType && (
+            <p className="text-sm text-gray-500 -mt-4 mb-6">
+              Showing donors who can give to {filters.bloodType}, best match first
+            </p>
+          )}
 
           {loading ? (
             <div className="text-center py-12">
@@ -338,6 +380,11 @@ export function FindDonors() {
                       >
                         {donor.is_available ? 'Available' : 'Unavailable'}
                       </span>
+                      {matches[donor.id] && (
+                        <div className="ml-3">
+                          <DonorMatchBreakdown match={matches[donor.id]} />
+                        </div>
+                      )}
                     </div>
                     <ChatButton
                       donorId={donor.id}
@@ -1,31 +1,46 @@
 import React, { useState, useEffect } from 'react';
 import { Navigate } from 'react-router-dom';
 import { useAuth } from '../contexts/AuthContext';
-import { supabase } from '../lib/supabase';
-import { Loader2, Calendar, Droplet, ClipboardCheck, RefreshCw, Plus, Trash2, AlertCircle, CheckCircle, XCircle, Clock, Calendar as CalendarIcon, User, FileText } from 'lucide-react';
+import { Loader2, Calendar, Droplet, ClipboardCheck, RefreshCw, Plus, Trash2, AlertCircle, CheckCircle, XCircle, Clock, Calendar as CalendarIcon, User, FileText, Activity, UserX } from 'lucide-react';
 import { toast } from 'react-hot-toast';
 import { format } from 'date-fns';
+import { getHospitalByUserId, type HospitalRow } from '../lib/repositories/hospitals';
+import {
+  createHospitalDonationSlot,
+  listSlotsForHospital,
+  safeDeleteDonationSlot,
+  type HospitalDonationSlotRow,
+} from '../lib/repositories/hospitalDonationSlots';
+import {
+  getHospitalScheduledDonations,
+  listBloodTestFlags,
+  listDonationsNeedingBloodTest,
+  listHospitalDonationStartTimes,
+  listPreDonationQuestionnaires,
+  recordDonationVitals,
+  updateHospitalDonation,
+  verifyHospitalDonation,
+} from '../lib/repositories/hospitalDonations';
+import { getDonorUserId, updateDonor } from '../lib/repositories/donors';
+import { dispatchNotification } from '../lib/notifications';
+import type { Json } from '../lib/database.types';
+import { PreDonationQuestionnaireSummary } from '../components/PreDonationQuestionnaire';
+import {
+  DonationVitalsFields,
+  EMPTY_DONATION_VITALS,
+  type DonationVitalsValues,
+} from '../components/DonationVitalsFields';
+import { AdverseEventReport } from '../components/AdverseEventReport';
+import { NoShowReport } from '../components/NoShowReport';
+import { HospitalCalendarFeed } from '../components/HospitalCalendarFeed';
+import { SlotTemplateManager } from '../components/SlotTemplateManager';
+import { donationVitalsSchema, type DonationVitalsFormData } from '../lib/validation';
+import { toRecordVitalsArgs } from '../lib/donationVitals';
 
 // Define interfaces for type safety
-interface DonationSlot {
-  id: string;
-  hospital_id: string;
-  date: string | null;
-  day_of_week: string | null;
-  start_time: string;
-  end_time: string;
-  capacity: number;
-  booked_count: number;
-  is_recurring: boolean;
-  created_at: string;
-}
+type DonationSlot = HospitalDonationSlotRow;
 
-interface Hospital {
-  id: string;
-  name: string;
-  address: string;
-  // Add other hospital fields as needed
-}
+type Hospital = HospitalRow;
 
 // Define interface for scheduled donations
 interface ScheduledDonation {
@@ -44,6 +59,8 @@ interface ScheduledDonation {
   blood_group_after_test: string | null;
   units_donated: number | null;
   needs_blood_test: boolean | null;
+  pre_donation_questionnaire?: Json | null;
+  scheduled_at?: string | null;
 }
 
 export function HospitalDashboard() {
@@ -72,6 +89,7 @@ export function HospitalDashboard() {
   const [verificationNotes, setVerificationNotes] = useState<string>('');
   const [unitsdonated, setUnitsdonated] = useState<number>(1);
   const [confirmingVerification, setConfirmingVerification] = useState(false);
+  const [vitals, setVitals] = useState<DonationVitalsValues>(EMPTY_DONATION_VITALS);
 
   // Blood group verification state
   const [pendingBloodTests, setPendingBloodTests] = useState<ScheduledDonation[]>([]);
@@ -91,13 +109,7 @@ export function HospitalDashboard() {
       if (!user) return;
       
       try {
-        const { data, error } = await supabase
-          .from('hospitals')
-          .select('*')
-          .eq('user_id', user.id)
-          .single();
-          
-        if (error) throw error;
+        const data = await getHospitalByUserId(user.id);
         setHospital(data);
       } catch (error) {
         console.error('Error fetching hospital data:', error);
@@ -126,14 +138,8 @@ export function HospitalDashboard() {
     
     setSlotsLoading(true);
     try {
-      const { data, error } = await supabase
-        .from('hospital_donation_slots')
-        .select('*')
-        .eq('hospital_id', hospital.id)
-        .order('day_of_week');
-        
-      if (error) throw error;
-      setDonationSlots(data || []);
+      const data = await listSlotsForHospital(hospital.id);
+      setDonationSlots(data);
     } catch (error) {
       console.error('Error fetching donation slots:', error);
       toast.error('Failed to load donation slots');
@@ -149,40 +155,55 @@ export function HospitalDashboard() {
     setDonationsLoading(true);
     try {
       // Use the new RPC function to get scheduled donations
-      const { data, error } = await supabase
-        .rpc('get_hospital_scheduled_donations', {
-          p_hospital_id: hospital.id
-        });
-        
-      if (error) throw error;
+      const data: ScheduledDonation[] = await getHospitalScheduledDonations(hospital.id);
       
       // Ensure the needs_blood_test field is properly set for all donations
-      if (data && data.length > 0) {
+      if (data.length > 0) {
         // Get additional data for needs_blood_test status
-        const ids = data.map((d: ScheduledDonation) => d.id);
-        const { data: donationData, error: donationError } = await supabase
-          .from('hospital_donations')
-          .select('id, needs_blood_test')
-          .in('id', ids);
-          
-        if (!donationError && donationData) {
+        try {
+          const donationData = await listBloodTestFlags(data.map(d => d.id));
+
           // Create a lookup map
-          const needsTestMap: Record<string, boolean> = {};
-          donationData.forEach((d: { id: string; needs_blood_test: boolean }) => {
+          const needsTestMap: Record<string, boolean | null> = {};
+          donationData.forEach((d) => {
             needsTestMap[d.id] = d.needs_blood_test;
           });
           
           // Update the data with needs_blood_test values
-          data.forEach((donation: ScheduledDonation) => {
+          data.forEach((donation) => {
             donation.needs_blood_test = needsTestMap[donation.id] || 
               (donation.status === 'completed' && 
                !donation.blood_group_after_test && 
                (donation.blood_type === 'Unknown' || donation.blood_type === null));
           });
+        } catch (donationError) {
+          console.error('Error fetching blood test flags:', donationError);
+        }
+
+        try {
+          const questionnaires = await listPreDonationQuestionnaires(data.map(d => d.id));
+          const questionnaireMap = new Map(
+            questionnaires.map((q) => [q.id, q.pre_donation_questionnaire])
+          );
+          data.forEach((donation) => {
+            donation.pre_donation_questionnaire = questionnaireMap.get(donation.id) ?? null;
+          });
+        } catch (questionnaireError) {
+          console.error('Error fetching health questionnaires:', questionnaireError);
+        }
+
+        try {
+          const startTimes = await listHospitalDonationStartTimes(data.map(d => d.id));
+          const startTimeMap = new Map(startTimes.map((s) => [s.id, s.scheduled_at]));
+          data.forEach((donation) => {
+            donation.scheduled_at = startTimeMap.get(donation.id) ?? null;
+          });
+        } catch (startTimeError) {
+          console.error('Error fetching booking start times:', startTimeError);
         }
       }
       
-      setScheduledDonations(data || []);
+      setScheduledDonations(data);
     } catch (error) {
       console.error('Error fetching scheduled donations:', error);
       toast.error('Failed to load scheduled donations');
@@ -198,31 +219,7 @@ export function HospitalDashboard() {
     setBloodTestsLoading(true);
     try {
       // Fetch donations that are completed but need blood group verification
-      const { data, error } = await supabase
-        .from('hospital_donations')
-        .select(`
-          id,
-          donor_id,
-          donation_date,
-          status,
-          blood_group_before_test,
-          blood_group_after_test,
-          verified_at,
-          verified_by,
-          needs_blood_test,
-          donors (
-            id,
-            first_name,
-            last_name,
-            blood_type,
-            needs_blood_test
-          )
-        `)
-        .eq('hospital_id', hospital.id)
-        .eq('status', 'completed')
-        .or('needs_blood_test.eq.true,blood_group_after_test.is.null');
-        
-      if (error) throw error;
+      const data = await listDonationsNeedingBloodTest(hospital.id);
       
       // Format the data for the component
       const formattedData = data.map(item => ({
@@ -240,10 +237,11 @@ export function HospitalDashboard() {
         blood_group_before_test: item.blood_group_before_test || item.donors.blood_type,
         blood_group_after_test: item.blood_group_after_test,
         units_donated: null,
-        needs_blood_test: item.needs_blood_test || item.donors.needs_blood_test
+        needs_blood_test: item.needs_blood_test || item.donors.needs_blood_test,
+        pre_donation_questionnaire: item.pre_donation_questionnaire
       }));
       
-      setPendingBloodTests(formattedData || []);
+      setPendingBloodTests(formattedData);
     } catch (error) {
       console.error('Error fetching pending blood tests:', error);
       toast.error('Failed to load pending blood tests');
@@ -278,12 +276,7 @@ export function HospitalDashboard() {
         is_recurring: true
       };
       
-      const { data, error } = await supabase
-        .from('hospital_donation_slots')
-        .insert(newSlot)
-        .select();
-        
-      if (error) throw error;
+      await createHospitalDonationSlot(newSlot);
       
       toast.success('Donation slot created successfully');
       
@@ -306,29 +299,17 @@ export function HospitalDashboard() {
   const deleteSlot = async (slotId: string) => {
     try {
       // First, try the safe delete function
-      const { data, error } = await supabase
-        .rpc('safe_delete_donation_slot', {
-          p_slot_id: slotId,
-          p_handle_existing: false
-        });
-        
-      if (error) throw error;
+      const deleted = await safeDeleteDonationSlot(slotId);
       
       // If the function returns false, it means there are existing donations
-      if (data === false) {
+      if (deleted === false) {
         const confirmForceDelete = window.confirm(
           'This slot has existing donations scheduled. Deleting it will cancel pending donations and remove the slot reference from completed donations. Do you want to proceed?'
         );
         
         if (confirmForceDelete) {
           // Call again with handle_existing=true
-          const { error: forceError } = await supabase
-            .rpc('safe_delete_donation_slot', {
-              p_slot_id: slotId,
-              p_handle_existing: true
-            });
-            
-          if (forceError) throw forceError;
+          await safeDeleteDonationSlot(slotId, true);
           
           toast.success('Donation slot and associated donations have been updated');
         } else {
@@ -353,15 +334,36 @@ export function HospitalDashboard() {
     }
   };
 
+  // Validate the vitals entered in a modal; null when they are invalid
+  const parseVitals = () => {
+    const parsed = donationVitalsSchema.safeParse(vitals);
+    if (!parsed.success) {
+      toast.error(parsed.error.issues[0].message);
+      return null;
+    }
+    return parsed.data;
+  };
+
+  // Save vitals and any adverse reaction; the RPC defers the donor if needed
+  const saveVitals = async (donationId: string, data: DonationVitalsFormData) => {
+    const args = toRecordVitalsArgs(donationId, data);
+    if (args) {
+      await recordDonationVitals(args);
+    }
+  };
+
   // Function to verify a donation - using the RPC function
   const verifyDonation = async () => {
     if (!selectedDonation || !user) return;
+
+    const vitalsData = verificationStatus === 'completed' ? parseVitals() : null;
+    if (verificationStatus === 'completed' && !vitalsData) return;
     
     setConfirmingVerification(true);
     
     try {
       // Call the verify_hospital_donation RPC function
-      const { data, error } = await supabase.rpc('verify_hospital_donation', {
+      await verifyHospitalDonation({
         p_donation_id: selectedDonation.id,
         p_status: verificationStatus,
         p_verified_by: user.id,
@@ -370,23 +372,22 @@ export function HospitalDashboard() {
         p_units_donated: unitsdonated
       });
       
-      if (error) throw error;
-      
       // If verification was successful, we need to update the needs_blood_test field
       // This will prevent the "Add Blood Test" button from appearing after verification
       if (verificationStatus === 'completed') {
-        const { error: updateError } = await supabase
-          .from('hospital_donations')
-          .update({
+        try {
+          await updateHospitalDonation(selectedDonation.id, {
             needs_blood_test: selectedDonation.blood_type === 'Unknown' || selectedDonation.blood_type === null
-          })
-          .eq('id', selectedDonation.id);
-        
-        if (updateError) {
+          });
+        } catch (updateError) {
           console.error('Error updating needs_blood_test field:', updateError);
           // Don't fail if this update fails
         }
       }
+
+      if (vitalsData) {
+        await saveVitals(selectedDonation.id, vitalsData);
+      }
       
       toast.success(`Donation ${verificationStatus === 'completed' ? 'verified' : 'updated'} successfully`);
       
@@ -409,6 +410,7 @@ export function HospitalDashboard() {
     setUnitsdonated(donation.units_donated || 1);
     setVerificationStatus('completed');
     setVerificationNotes('');
+    setVitals(EMPTY_DONATION_VITALS);
     setShowVerificationModal(true);
   };
 
@@ -417,63 +419,47 @@ export function HospitalDashboard() {
     setSelectedBloodTest(donation);
     setBloodGroupResult(donation.blood_group_before_test || '');
     setVerificationNotes('');
+    setVitals(EMPTY_DONATION_VITALS);
     setShowBloodTestModal(true);
   };
 
   // Function to save blood test results
   const saveBloodTestResult = async () => {
     if (!selectedBloodTest || !user || !bloodGroupResult) return;
+
+    const vitalsData = parseVitals();
+    if (!vitalsData) return;
     
     setConfirmingVerification(true);
     
     try {
       // Update the hospital_donations table with blood group test results
-      const { error } = await supabase
-        .from('hospital_donations')
-        .update({
-          blood_group_after_test: bloodGroupResult,
-          notes: verificationNotes ? (selectedBloodTest.notes ? `${selectedBloodTest.notes}\n${verificationNotes}` : verificationNotes) : selectedBloodTest.notes,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', selectedBloodTest.id);
-      
-      if (error) throw error;
+      await updateHospitalDonation(selectedBloodTest.id, {
+        blood_group_after_test: bloodGroupResult,
+        notes: verificationNotes ? (selectedBloodTest.notes ? `${selectedBloodTest.notes}\n${verificationNotes}` : verificationNotes) : selectedBloodTest.notes,
+        updated_at: new Date().toISOString()
+      });
+
+      await saveVitals(selectedBloodTest.id, vitalsData);
       
       // Also update the donor's blood type if it was unknown or needs verification
       if (selectedBloodTest.blood_type === 'Unknown' || selectedBloodTest.needs_blood_test) {
-        const { error: donorError } = await supabase
-          .from('donors')
-          .update({
-            blood_type: bloodGroupResult,
-            needs_blood_test: false,
-            updated_at: new Date().toISOString()
-          })
-          .eq('id', selectedBloodTest.donor_id);
-        
-        if (donorError) throw donorError;
+        await updateDonor(selectedBloodTest.donor_id, {
+          blood_type: bloodGroupResult,
+          needs_blood_test: false,
+          updated_at: new Date().toISOString()
+        });
 
         // Create notification for donor
         try {
           // Get donor user ID
-          const { data: donorData, error: donorIdError } = await supabase
-            .from('donors')
-            .select('user_id')
-            .eq('id', selectedBloodTest.donor_id)
-            .single();
+          const donorUserId = await getDonorUserId(selectedBloodTest.donor_id);
 
-          if (!donorIdError && donorData && donorData.user_id) {
-            await supabase
-              .from('notifications')
-              .insert({
-                user_id: donorData.user_id,
-                title: 'Blood Group Verified',
-                message: `Your blood group has been verified as ${bloodGroupResult}`,
-                type: 'blood_group_verified',
-                data: {
-                  donation_id: selectedBloodTest.id,
-                  blood_group: bloodGroupResult
-                }
-              });
+          if (donorUserId) {
+            await dispatchNotification('blood_group_verified', donorUserId, {
+              donation_id: selectedBloodTest.id,
+              blood_group: bloodGroupResult
+            });
           }
         } catch (notifError) {
           console.error('Error creating notification:', notifError);
@@ -561,6 +547,28 @@ export function HospitalDashboard() {
             <Calendar className="h-5 w-5 mr-2" />
             Donation Slots
           </button>
+          <button
+            onClick={() => setActiveTab('adverse_events')}
+            className={`flex items-center justify-center flex-1 py-2 rounded-md ${
+              activeTab === 'adverse_events'
+                ? 'bg-red-500 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            <Activity className="h-5 w-5 mr-2" />
+            Adverse Events
+          </button>
+          <button
+            onClick={() => setActiveTab('no_shows')}
+            className={`flex items-center justify-center flex-1 py-2 rounded-md ${
+              activeTab === 'no_shows'
+                ? 'bg-red-500 text-white'
+                : 'bg-gray-100 text-gray-700 hover:bg-gray-200'
+            }`}
+          >
+            <UserX className="h-5 w-5 mr-2" />
+            No-Shows
+          </button>
         </div>
 
         {/* Tab Content */}
@@ -577,6 +585,8 @@ export function HospitalDashboard() {
                   View and manage blood donations scheduled at your hospital. Confirm donations when completed.
                 </p>
               </div>
+
+              <HospitalCalendarFeed hospital={hospital} bookings={scheduledDonations} />
               
               <div className="flex justify-end mb-4">
                 <button 
@@ -668,6 +678,14 @@ export function HospitalDashboard() {
                               <p><strong>Notes:</strong> {donation.notes}</p>
                             </div>
                           )}
+
+                          {(donation.status === 'scheduled' || donation.status === 'confirmed') && (
+                            <div className="mt-2">
+                              <PreDonationQuestionnaireSummary
+                                questionnaire={donation.pre_donation_questionnaire}
+                              />
+                            </div>
+                          )}
                           
                           {donation.verified_at && (
                             <div className="mt-2 text-xs text-gray-500">
@@ -797,6 +815,12 @@ export function HospitalDashboard() {
                             </div>
                           )}
 
+                          <div className="mt-2">
+                            <PreDonationQuestionnaireSummary
+                              questionnaire={donation.pre_donation_questionnaire}
+                            />
+                          </div>
+
                           {donation.notes && (
                             <div className="mt-2 text-sm text-gray-600">
                               <p><strong>Notes:</strong> {donation.notes}</p>
@@ -836,10 +860,12 @@ export function HospitalDashboard() {
                   These slots will be visible to donors looking to make voluntary donations.
                 </p>
               </div>
+
+              <SlotTemplateManager facilityType="hospital" facilityId={hospital.id} />
               
               {/* Create new donation slot form */}
               <form onSubmit={createDonationSlot} className="border border-gray-200 rounded-lg p-6 mb-6">
-                <h3 className="font-medium text-gray-900 mb-4">Add New Donation Slot</h3>
+                <h3 className="font-medium text-gray-900 mb-4">Add a Single Weekly Slot</h3>
                 <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
                   <div>
                     <label htmlFor="dayOfWeek" className="block text-sm font-medium text-gray-700 mb-1">
@@ -925,7 +951,7 @@ export function HospitalDashboard() {
               {/* Display existing donation slots */}
               <div className="border border-gray-200 rounded-lg p-6">
                 <div className="flex justify-between items-center mb-4">
-                  <h3 className="font-medium text-gray-900">Your Donation Slots</h3>
+                  <h3 className="font-medium text-gray-900">Your Weekly Slots</h3>
                   <button 
                     onClick={fetchDonationSlots}
                     disabled={slotsLoading}
@@ -1017,13 +1043,19 @@ export function HospitalDashboard() {
               </div>
             </>
           )}
+
+          {/* Adverse Events Tab */}
+          {activeTab === 'adverse_events' && <AdverseEventReport hospitalId={hospital.id} />}
+
+          {/* No-Shows Tab */}
+          {activeTab === 'no_shows' && <NoShowReport hospitalId={hospital.id} />}
         </div>
       </div>
 
       {/* Verification Modal */}
       {showVerificationModal && selectedDonation && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-          <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-md">
+          <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
             <h3 className="text-xl font-semibold text-gray-900 mb-4">
               {verificationStatus === 'completed' ? 'Verify Donation' : verificationStatus === 'no_show' ? 'Record No-Show' : 'Update Donation'}
             </h3>
@@ -1040,6 +1072,12 @@ export function HospitalDashboard() {
                 {selectedDonation.slot_time && format(new Date(`2000-01-01T${selectedDonation.slot_time}`), 'h:mm a')}
               </p>
             </div>
+
+            <div className="mb-4 bg-gray-50 rounded-md p-3">
+              <PreDonationQuestionnaireSummary
+                questionnaire={selectedDonation.pre_donation_questionnaire}
+              />
+            </div>
             
             <div className="mb-4">
               <label className="block text-sm font-medium text-gray-700 mb-1">
@@ -1074,6 +1112,8 @@ export function HospitalDashboard() {
                     Enter the number of units (blood bags) donated
                   </p>
                 </div>
+
+                <DonationVitalsFields values={vitals} onChange={setVitals} />
               </>
             )}
             
@@ -1119,7 +1159,7 @@ export function HospitalDashboard() {
       {/* Blood Group Test Modal */}
       {showBloodTestModal && selectedBloodTest && (
         <div className="fixed inset-0 bg-black bg-opacity-50 flex items-center justify-center z-50 p-4">
-          <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-md">
+          <div className="bg-white rounded-lg shadow-xl p-6 w-full max-w-md max-h-[90vh] overflow-y-auto">
             <h3 className="text-xl font-semibold text-gray-900 mb-4">
               Verify Blood Group
             </h3>
@@ -1155,6 +1195,8 @@ export function HospitalDashboard() {
                 <option value="O-">O-</option>
               </select>
             </div>
+
+            <DonationVitalsFields values={vitals} onChange={setVitals} />
             
             <div className="mb-6">
               <label className="block text-sm font-medium text-gray-700 mb-1">
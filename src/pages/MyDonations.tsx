@@ -1,8 +1,8 @@
 import React, { useState, useEffect } from 'react';
-import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { useNavigate } from 'react-router-dom';
 import { toast } from 'react-hot-toast';
+import { parseISO } from 'date-fns';
 import { 
   Loader2, 
   Calendar, 
@@ -12,26 +12,67 @@ import {
   CheckCircle, 
   XCircle, 
   AlertCircle,
-  RotateCcw
+  RotateCcw,
+  CalendarPlus
 } from 'lucide-react';
 import { DatePicker } from '../components/DatePicker';
+import { getDonorIdByUserId } from '../lib/repositories/donors';
+import {
+  cancelDonationBooking,
+  listScheduledDonationsForDonor,
+  updateScheduledDonation,
+} from '../lib/repositories/scheduledDonations';
+import {
+  listHospitalDonationsForDonor,
+  updateHospitalDonation,
+} from '../lib/repositories/hospitalDonations';
+import {
+  leaveSlotWaitlist,
+  listWaitingEntriesForDonor,
+} from '../lib/repositories/slotWaitlistEntries';
+import { getHospital } from '../lib/repositories/hospitals';
+import { getBloodBank } from '../lib/repositories/bloodBanks';
+import { downloadAppointment } from '../lib/calendarExport';
+import {
+  formatAppointmentTime,
+  formatDateForDB,
+  formatTimeInZone,
+  toZonedParts,
+  DEFAULT_TIMEZONE,
+} from '../lib/dateUtils';
 
 interface Donation {
   id: string;
   scheduled_date: string;
+  scheduled_time: string | null;
+  /** The appointment instant, see `dateUtils` */
+  scheduled_at: string | null;
+  timezone: string | null;
   status: string;
   notes: string | null;
   facility_name: string;
   facility_address: string;
+  latitude: number | null;
+  longitude: number | null;
   facility_type: 'blood_bank' | 'hospital';
   facility_id: string;
 }
 
+// Bookings made before `scheduled_at` was recorded fall back to the stored date
+const startOf = (donation: Donation) => new Date(donation.scheduled_at ?? donation.scheduled_date);
+
+interface WaitlistEntry {
+  id: string;
+  slot_date: string;
+  facility_name: string;
+}
+
 export default function MyDonations() {
   const { user } = useAuth();
   const navigate = useNavigate();
   const [loading, setLoading] = useState(true);
   const [donations, setDonations] = useState<Donation[]>([]);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
   const [rescheduleId, setRescheduleId] = useState<string | null>(null);
   const [newDate, setNewDate] = useState<Date | null>(null);
   const [cancelId, setCancelId] = useState<string | null>(null);
@@ -47,83 +88,71 @@ export default function MyDonations() {
   }, [user, navigate]);
 
   const fetchDonations = async () => {
+    if (!user) return;
+
     setLoading(true);
     try {
       // Get donor ID first
-      const { data: donorData, error: donorError } = await supabase
-        .from('donors')
-        .select('id')
-        .eq('user_id', user?.id)
-        .single();
-        
-      if (donorError) throw donorError;
+      const donorId = await getDonorIdByUserId(user.id);
+      if (!donorId) throw new Error('Donor profile not found');
       
-      // Fetch blood bank donations
-      const { data: bloodBankDonations, error: bbError } = await supabase
-        .from('scheduled_donations')
-        .select(`
-          id,
-          scheduled_date,
-          status,
-          notes,
-          blood_banks:blood_bank_id (
-            id,
-            name,
-            address
-          )
-        `)
-        .eq('donor_id', donorData.id)
-        .order('scheduled_date', { ascending: true });
-        
-      if (bbError) throw bbError;
-      
-      // Fetch hospital donations
-      const { data: hospitalDonations, error: hError } = await supabase
-        .from('hospital_donations')
-        .select(`
-          id,
-          donation_date,
-          status,
-          notes,
-          hospitals:hospital_id (
-            id,
-            name,
-            address
-          )
-        `)
-        .eq('donor_id', donorData.id)
-        .order('donation_date', { ascending: true });
-        
-      if (hError) throw hError;
+      // Fetch blood bank and hospital donations
+      const [bloodBankDonations, hospitalDonations, waitingEntries] = await Promise.all([
+        listScheduledDonationsForDonor(donorId),
+        listHospitalDonationsForDonor(donorId),
+        listWaitingEntriesForDonor(donorId),
+      ]);
       
       // Transform data to a unified format
-      const bbFormattedDonations = (bloodBankDonations || []).map(donation => ({
+      const bbFormattedDonations = bloodBankDonations.map(donation => ({
         id: donation.id,
         scheduled_date: donation.scheduled_date,
+        scheduled_time: donation.scheduled_time,
+        scheduled_at: donation.scheduled_at,
+        timezone: donation.blood_banks.timezone,
         status: donation.status,
         notes: donation.notes,
         facility_name: donation.blood_banks.name,
         facility_address: donation.blood_banks.address,
+        latitude: donation.blood_banks.latitude,
+        longitude: donation.blood_banks.longitude,
         facility_type: 'blood_bank' as const,
         facility_id: donation.blood_banks.id
       }));
       
-      const hFormattedDonations = (hospitalDonations || []).map(donation => ({
+      const hFormattedDonations = hospitalDonations.map(donation => ({
         id: donation.id,
         scheduled_date: donation.donation_date,
+        scheduled_time: donation.scheduled_time,
+        scheduled_at: donation.scheduled_at,
+        timezone: donation.hospitals.timezone,
         status: donation.status,
         notes: donation.notes,
         facility_name: donation.hospitals.name,
         facility_address: donation.hospitals.address,
+        latitude: donation.hospitals.latitude,
+        longitude: donation.hospitals.longitude,
         facility_type: 'hospital' as const,
         facility_id: donation.hospitals.id
       }));
       
       // Combine and sort by date
       const allDonations = [...bbFormattedDonations, ...hFormattedDonations]
-        .sort((a, b) => new Date(a.scheduled_date).getTime() - new Date(b.scheduled_date).getTime());
+        .sort((a, b) => startOf(a).getTime() - startOf(b).getTime());
       
       setDonations(allDonations);
+
+      setWaitlist(
+        await Promise.all(
+          waitingEntries.map(async (entry) => {
+            const facility =
+              entry.facility_type === 'hospital'
+                ? await getHospital(entry.facility_id)
+                : await getBloodBank(entry.facility_id);
+            return { id: entry.id, slot_date: entry.slot_date, facility_name: facility.name };
+          })
+        )
+      );
     } catch (error) {
       console.error('Error fetching donations:', error);
       toast.error('Failed to load donation history');
@@ -161,25 +190,15 @@ export default function MyDonations() {
       
       // Update the database based on facility type
       if (donation.facility_type === 'blood_bank') {
-        const { error } = await supabase
-          .from('scheduled_donations')
-          .update({ 
-            scheduled_date: newDate.toISOString(),
-            status: 'rescheduled'
-          })
-          .eq('id', rescheduleId);
-          
-        if (error) throw error;
+        await updateScheduledDonation(rescheduleId, {
+          scheduled_date: formatDateForDB(newDate),
+          status: 'rescheduled'
+        });
       } else {
-        const { error } = await supabase
-          .from('hospital_donations')
-          .update({ 
-            donation_date: newDate.toISOString(),
-            status: 'rescheduled'
-          })
-          .eq('id', rescheduleId);
-          
-        if (error) throw error;
+        await updateHospitalDonation(rescheduleId, {
+          donation_date: formatDateForDB(newDate),
+          status: 'rescheduled'
+        });
       }
       
       toast.success('Donation rescheduled successfully');
@@ -203,28 +222,12 @@ export default function MyDonations() {
       const donation = donations.find(d => d.id === cancelId);
       if (!donation) throw new Error('Donation not found');
       
-      // Update the database based on facility type
-      if (donation.facility_type === 'blood_bank') {
-        const { error } = await supabase
-          .from('scheduled_donations')
-          .update({ 
-            status: 'cancelled', 
-            notes: cancelReason ? `Cancelled: ${cancelReason}` : 'Cancelled by donor'
-          })
-          .eq('id', cancelId);
-          
-        if (error) throw error;
-      } else {
-        const { error } = await supabase
-          .from('hospital_donations')
-          .update({ 
-            status: 'cancelled',
-            notes: cancelReason ? `Cancelled: ${cancelReason}` : 'Cancelled by donor'
-          })
-          .eq('id', cancelId);
-          
-        if (error) throw error;
-      }
+      // Frees the place for the next donor on the slot's waitlist
+      await cancelDonationBooking(
+        donation.facility_type,
+        cancelId,
+        cancelReason ? `Cancelled: ${cancelReason}` : 'Cancelled by donor'
+      );
       
       toast.success('Donation cancelled');
       setCancelId(null);
@@ -238,19 +241,38 @@ export default function MyDonations() {
     }
   };
 
-  // Format date and time for display
-  const formatDateTime = (dateTimeStr: string) => {
-    const date = new Date(dateTimeStr);
+  const leaveWaitlist = async (entryId: string) => {
+    setProcessing(true);
+
+    try {
+      await leaveSlotWaitlist(entryId);
+      setWaitlist((prev) => prev.filter((entry) => entry.id !== entryId));
+      toast.success('You have left the waitlist');
+    } catch (error) {
+      console.error('Error leaving waitlist:', error);
+      toast.error('Failed to leave the waitlist');
+    } finally {
+      setProcessing(false);
+    }
+  };
+
+  // Format date and time for display, as the facility's calendar shows them
+  const formatDateTime = (donation: Donation) => {
+    const zone = donation.timezone || DEFAULT_TIMEZONE;
+    const day = donation.scheduled_at
+      ? toZonedParts(donation.scheduled_at, zone).date
+      : donation.scheduled_date.slice(0, 10);
     return {
-      date: date.toLocaleDateString('en-US', { 
+      date: parseISO(day).toLocaleDateString('en-US', {
         weekday: 'short', 
         month: 'short', 
         day: 'numeric' 
       }),
-      time: date.toLocaleTimeString('en-US', { 
-        hour: '2-digit', 
-        minute: '2-digit' 
-      })
+      time: donation.scheduled_time
+        ? formatAppointmentTime(day, donation.scheduled_time, zone)
+        : donation.scheduled_at
+          ? formatTimeInZone(donation.scheduled_at, zone)
+          : '',
     };
   };
 
@@ -265,6 +287,7 @@ export default function MyDonations() {
       case 'completed':
         return 'bg-green-100 text-green-800';
       case 'cancelled':
+      case 'no_show':
         return 'bg-red-100 text-red-800';
       case 'rescheduled':
         return 'bg-yellow-100 text-yellow-800';
@@ -283,6 +306,24 @@ export default function MyDonations() {
     );
   };
 
+  const handleAddToCalendar = (donation: Donation) => {
+    downloadAppointment({
+      id: donation.id,
+      facility_type: donation.facility_type,
+      facility_name: donation.facility_name,
+      facility_address: donation.facility_address,
+      latitude: donation.latitude,
+      longitude: donation.longitude,
+      scheduled_date: donation.scheduled_date,
+      scheduled_time:
+        donation.scheduled_time ||
+        toZonedParts(startOf(donation), donation.timezone || DEFAULT_TIMEZONE).time,
+      scheduled_at: donation.scheduled_at,
+      status: donation.status,
+      notes: donation.notes,
+    });
+  };
+
   // Tomorrow for minimum date
   const tomorrow = new Date();
   tomorrow.setDate(tomorrow.getDate() + 1);
@@ -406,8 +447,8 @@ export default function MyDonations() {
               <div className="overflow-hidden rounded-lg border border-gray-200">
                 <ul className="divide-y divide-gray-200">
                   {donations.map((donation) => {
-                    const { date, time } = formatDateTime(donation.scheduled_date);
-                    const isPast = new Date(donation.scheduled_date) < new Date();
+                    const { date, time } = formatDateTime(donation);
+                    const isPast = startOf(donation) < new Date();
                     
                     return (
                       <li key={donation.id} className="p-4 hover:bg-gray-50">
@@ -431,7 +472,9 @@ export default function MyDonations() {
                                     {donation.facility_name}
                                   </span>
                                   <span className={`px-2 py-1 text-xs font-medium rounded-full ${getStatusColor(donation.status)}`}>
-                                    {donation.status.charAt(0).toUpperCase() + donation.status.slice(1)}
+                                    {donation.status === 'no_show'
+                                      ? 'Missed'
+                                      : donation.status.charAt(0).toUpperCase() + donation.status.slice(1)}
                                   </span>
                                 </div>
                                 
@@ -454,8 +497,20 @@ export default function MyDonations() {
                             </div>
                           </div>
                           
-                          {canModify(donation) && !isPast && (
+                          {(canModify(donation) || donation.status === 'confirmed') && !isPast && (
                             <div className="mt-4 md:mt-0 flex space-x-2 md:justify-end">
+                              <button
+                                onClick={() => handleAddToCalendar(donation)}
+                                className="flex items-center text-sm text-gray-700 border border-gray-300 rounded-md px-3 py-1 hover:bg-gray-50"
+                              >
+                                <CalendarPlus className="h-4 w-4 mr-1" />
+                                Add to calendar
+                              </button>
+                            </div>
+                          )}
+
+                          {canModify(donation) && !isPast && (
+                            <div className="mt-4 md:mt-0 md:ml-2 flex space-x-2 md:justify-end">
                               <button
                                 onClick={() => handleRescheduleClick(donation.id)}
                                 className="flex items-center text-sm text-blue-600 border border-blue-300 rounded-md px-3 py-1 hover:bg-blue-50"
@@ -507,6 +562,40 @@ export default function MyDonations() {
               </div>
             </div>
           )}
+
+          {!loading && waitlist.length > 0 && (
+            <div className="mt-6">
+              <h2 className="text-lg font-medium text-gray-900 mb-2">Waitlists</h2>
+              <p className="text-sm text-gray-600 mb-3">
+                You'll be booked in automatically if a place opens up.
+              </p>
+              <ul className="divide-y divide-gray-200 rounded-lg border border-gray-200">
+                {waitlist.map((entry) => (
+                  <li key={entry.id} className="p-4 flex items-center justify-between">
+                    <div>
+                      <div className="font-medium text-gray-900">{entry.facility_name}</div>
+                      <div className="flex items-center text-gray-600 text-sm mt-1">
+                        <Calendar className="h-4 w-4 mr-1" />
+                        {new Date(`${entry.slot_date}T00:00:00`).toLocaleDateString('en-US', {
+                          weekday: 'short',
+                          month: 'short',
+                          day: 'numeric',
+                        })}
+                      </div>
+                    </div>
+                    <button
+                      onClick={() => leaveWaitlist(entry.id)}
+                      disabled={processing}
+                      className="flex items-center text-sm text-red-600 border border-red-300 rounded-md px-3 py-1 hover:bg-red-50 disabled:opacity-50"
+                    >
+                      <XCircle className="h-4 w-4 mr-1" />
+                      Leave Waitlist
+                    </button>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
         </div>
       </div>
     </div>
@@ -9,6 +9,7 @@ import toast from 'react-hot-toast';
 import { Toaster } from 'react-hot-toast';
 import { BloodBankForm } from '../components/BloodBankForm';
 import { HospitalForm } from '../components/HospitalForm';
+import { createUserProfile, insertUserProfile } from '../lib/repositories/userProfiles';
 
 const BLOOD_GROUPS = [
   { value: 'A+', label: 'A+' },
@@ -482,39 +483,27 @@ export function Register() {
 
         try {
           // First try using the secure function
-          const { data: profileData, error: fnError } = await supabase.rpc(
-            'create_user_profile',
-            {
+          try {
+            await createUserProfile({
               p_user_id: authData.user.id,
               p_full_name: userData.full_name,
               p_blood_group: userData.blood_group,
               p_date_of_birth: userData.date_of_birth,
               p_contact_number: userData.contact_number
-            }
-          );
-
-          if (fnError) {
+            });
+          } catch (fnError) {
             console.error('Profile creation function error:', fnError);
             
             // Fall back to direct insert if the function fails
-            const { error: profileError } = await supabase
-              .from('user_profiles')
-              .insert({
-                user_id: authData.user.id,
-                full_name: userData.full_name,
-                blood_group: userData.blood_group,
-                date_of_birth: userData.date_of_birth,
-                contact_number: userData.contact_number,
-                created_at: new Date().toISOString(),
-                updated_at: new Date().toISOString(),
-              });
-
-            if (profileError) {
-              console.error('Profile creation error:', profileError);
-              // If profile creation fails, we should clean up the auth user
-              await supabase.auth.signOut();
-              throw profileError;
-            }
+            await insertUserProfile({
+              user_id: authData.user.id,
+              full_name: userData.full_name,
+              blood_group: userData.blood_group,
+              date_of_birth: userData.date_of_birth,
+              contact_number: userData.contact_number,
+              created_at: new Date().toISOString(),
+              updated_at: new Date().toISOString(),
+            });
           }
         } catch (profileError) {
           console.error('Profile creation error:', profileError);
@@ -0,0 +1,277 @@
+import { useEffect, useRef, useState } from 'react';
+import { Link, useParams } from 'react-router-dom';
+import { AlertTriangle, CheckCircle, Radio, Users } from 'lucide-react';
+import toast from 'react-hot-toast';
+import { useAuth } from '../contexts/AuthContext';
+import { getEmergencyRequest, type EmergencyRequestRow } from '../lib/repositories/emergencyRequests';
+import {
+  escalateSosBroadcast,
+  getSosBroadcast,
+  listSosRecipients,
+  updateSosBroadcast,
+  type SosBroadcastRow,
+  type SosRecipientRow,
+} from '../lib/repositories/sosBroadcasts';
+import {
+  subscribeToDonorResponses,
+  subscribeToEmergencyRequests,
+  subscribeToSosBroadcast,
+  subscribeToSosRecipients,
+} from '../lib/notifications';
+import { countSosAcceptances } from '../lib/sosBroadcast';
+import { getBroadcastStages, getSosEscalationDecision } from '../lib/sosEscalation';
+import { getRequestStatusLabel, isTerminalStatus } from '../lib/requestLifecycle';
+import { FulfilmentProgressBar } from '../components/FulfilmentProgressBar';
+
+const formatCountdown = (ms: number) => {
+  const seconds = Math.ceil(ms / 1000);
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+export function SOSStatus() {
+  const { requestId } = useParams<{ requestId: string }>();
+  const { user } = useAuth();
+  const [request, setRequest] = useState<EmergencyRequestRow | null>(null);
+  const [broadcast, setBroadcast] = useState<SosBroadcastRow | null>(null);
+  const [recipients, setRecipients] = useState<SosRecipientRow[]>([]);
+  const [acceptances, setAcceptances] = useState(0);
+  const [loading, setLoading] = useState(true);
+  const [now, setNow] = useState(() => new Date());
+  const escalating = useRef(false);
+
+  useEffect(() => {
+    if (requestId) {
+      fetchStatus(requestId);
+    }
+  }, [requestId]);
+
+  useEffect(() => {
+    const timer = window.setInterval(() => setNow(new Date()), 1000);
+    return () => window.clearInterval(timer);
+  }, []);
+
+  useEffect(() => {
+    if (!requestId || !user) return;
+
+    const refreshAcceptances = () =>
+      countSosAcceptances(requestId)
+        .then(setAcceptances)
+        .catch((error) => console.error('Error counting SOS acceptances:', error));
+
+    const responses = subscribeToDonorResponses(requestId, refreshAcceptances, {
+      onResync: refreshAcceptances,
+    });
+    // Blood bank pledges and status changes land on the request itself
+    const requests = subscribeToEmergencyRequests(
+      user.id,
+      ({ new: row }) => {
+        if ('id' in row && row.id === requestId) {
+          setRequest(row);
+          refreshAcceptances();
+        }
+      },
+      { onResync: () => fetchStatus(requestId) }
+    );
+
+    // The database widens the radius on schedule; follow it here
+    const broadcasts = subscribeToSosBroadcast(
+      requestId,
+      ({ new: row }) => {
+        if (!('request_id' in row)) return;
+        setBroadcast((previous) => {
+          if (previous && row.stage > previous.stage) {
+            toast(`Search widened to ${row.radius_km} km`);
+          }
+          if (previous?.status === 'active' && row.status === 'satisfied') {
+            toast.success('Enough donors have responded to your SOS');
+          }
+          return row;
+        });
+      },
+      { onResync: () => fetchStatus(requestId) }
+    );
+    const alerted = subscribeToSosRecipients(requestId, () =>
+      listSosRecipients(requestId)
+        .then(setRecipients)
+        .catch((error) => console.error('Error loading SOS recipients:', error))
+    );
+
+    return () => {
+      responses();
+      requests();
+      broadcasts();
+      alerted();
+    };
+  }, [requestId, user?.id]);
+
+  const stages = broadcast ? getBroadcastStages(broadcast) : [];
+
+  const isActive =
+    broadcast?.status === 'active' && !!request && !isTerminalStatus(request.status);
+  const decision =
+    broadcast &&
+    getSosEscalationDecision(
+      {
+        stage: broadcast.stage,
+        stageStartedAt: new Date(broadcast.stage_started_at),
+        acceptances,
+        targetAcceptances: broadcast.target_acceptances,
+      },
+      stages,
+      now
+    );
+
+  // The scheduled job acts within a minute; ask for it now once it is due
+  useEffect(() => {
+    if (!isActive || !request || !decision || decision.action === 'wait') return;
+    if (escalating.current) return;
+
+    escalating.current = true;
+    escalateSosBroadcast(request.id)
+      .catch((error) => console.error('Error escalating SOS broadcast:', error))
+      .finally(() => {
+        escalating.current = false;
+      });
+  }, [isActive, decision?.action]);
+
+  const fetchStatus = async (id: string) => {
+    try {
+      const [requestData, broadcastData, recipientData, acceptanceCount] = await Promise.all([
+        getEmergencyRequest(id),
+        getSosBroadcast(id),
+        listSosRecipients(id),
+        countSosAcceptances(id),
+      ]);
+      setRequest(requestData);
+      setBroadcast(broadcastData);
+      setRecipients(recipientData);
+      setAcceptances(acceptanceCount);
+    } catch (error) {
+      console.error('Error fetching SOS status:', error);
+      toast.error('Failed to load SOS status');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleStop = async () => {
+    if (!broadcast) return;
+    if (!window.confirm('Stop alerting more donors and blood banks?')) return;
+
+    try {
+      setBroadcast(await updateSosBroadcast(broadcast.request_id, { status: 'cancelled' }));
+      toast.success('SOS alerts stopped');
+    } catch (error) {
+      console.error('Error stopping SOS broadcast:', error);
+      toast.error('Failed to stop SOS alerts');
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-red-500"></div>
+      </div>
+    );
+  }
+
+  if (!request || !broadcast) {
+    return (
+      <div className="min-h-screen pt-24 pb-16">
+        <div className="max-w-2xl mx-auto px-4 text-center">
+          <h1 className="text-2xl font-bold text-gray-900">SOS alert not found</h1>
+          <p className="text-gray-600 mt-2">Only the person who raised an SOS can follow it here.</p>
+        </div>
+      </div>
+    );
+  }
+
+  const donorsAlerted = recipients.filter((recipient) => recipient.donor_id).length;
+  const bloodBanksAlerted = recipients.length - donorsAlerted;
+
+  return (
+    <div className="min-h-screen pt-24 pb-16">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="text-center mb-8">
+          {isActive ? (
+            <Radio className="h-12 w-12 text-red-500 mx-auto mb-4 animate-pulse" />
+          ) : (
+            <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
+          )}
+          <h1 className="text-3xl font-bold text-gray-900">
+            {isActive
+              ? 'Alerting nearby donors'
+              : broadcast.status === 'cancelled'
+                ? 'SOS alerts stopped'
+                : 'Help is on the way'}
+          </h1>
+          <p className="text-gray-600 mt-2">
+            Request status: {getRequestStatusLabel(request.status)}
+          </p>
+        </div>
+
+        <div className="bg-white rounded-lg shadow-md p-6 space-y-6">
+          <div>
+            <h2 className="text-sm font-semibold text-gray-900 mb-2">Search radius</h2>
+            <div className="flex gap-2">
+              {stages.map((stage, index) => (
+                <span
+                  key={stage.radiusKm}
+                  className={`flex-1 text-center px-3 py-2 rounded-lg text-sm font-medium ${
+                    index === broadcast.stage
+                      ? 'bg-red-500 text-white'
+                      : index < broadcast.stage
+                        ? 'bg-red-100 text-red-800'
+                        : 'bg-gray-100 text-gray-500'
+                  }`}
+                >
+                  {stage.radiusKm} km
+                </span>
+              ))}
+            </div>
+            {isActive && decision?.action === 'wait' && (
+              <p className="text-sm text-gray-600 mt-2">
+                {decision.msUntilEscalation === null
+                  ? 'Widest radius reached. Waiting for responses.'
+                  : `Widening the search in ${formatCountdown(decision.msUntilEscalation)}`}
+              </p>
+            )}
+          </div>
+
+          <div className="grid grid-cols-2 gap-4 text-sm">
+            <div className="flex items-center">
+              <AlertTriangle className="h-5 w-5 text-red-500 mr-2" />
+              <span>
+                <span className="font-medium">{donorsAlerted}</span> donors and{' '}
+                <span className="font-medium">{bloodBanksAlerted}</span> blood banks alerted
+              </span>
+            </div>
+            <div className="flex items-center">
+              <Users className="h-5 w-5 text-green-500 mr-2" />
+              <span>
+                <span className="font-medium">{acceptances}</span> of{' '}
+                {broadcast.target_acceptances} responses needed
+              </span>
+            </div>
+          </div>
+
+          <FulfilmentProgressBar request={request} />
+
+          <div className="flex justify-between items-center">
+            <Link to="/emergency-requests" className="text-red-600 hover:text-red-800 text-sm">
+              View offers and pledges
+            </Link>
+            {isActive && (
+              <button
+                onClick={handleStop}
+                className="bg-gray-100 text-gray-700 px-4 py-2 rounded-lg hover:bg-gray-200 transition"
+              >
+                Stop Alerts
+              </button>
+            )}
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,6 @@
 import React, { useState, useEffect } from 'react';
 import { useNavigate } from 'react-router-dom';
 import { Calendar, Clock, MapPin, Building2, AlertCircle } from 'lucide-react';
-import { supabase } from '../lib/supabase';
 import { useAuth } from '../contexts/AuthContext';
 import { DatePicker } from '../components/DatePicker';
 import { toast } from 'react-hot-toast';
@@ -9,19 +8,16 @@ import { DonationDateSelector } from '../components/DonationDateSelector';
 import { DonationFacilityList } from '../components/DonationFacilityList';
 import { DonationSlotSelector } from '../components/DonationSlotSelector';
 import { SchedulerConfirmation } from '../components/SchedulerConfirmation';
-
-interface BloodBank {
-  id: string;
-  name: string;
-  address: string;
-  city: string;
-  state: string;
-}
-
-interface AvailableSlot {
-  slot_time: string;
-  available: boolean;
-}
+import { getDonorByUserId, getDonorIdByUserId, type Donor } from '../lib/repositories/donors';
+import { checkEligibility, explainEligibility, type EligibilityResult } from '../lib/donorEligibility';
+import { listBloodBanks, type BloodBankSummary } from '../lib/repositories/bloodBanks';
+import {
+  createScheduledDonation,
+  getAvailableSlots,
+  type AvailableSlot,
+} from '../lib/repositories/scheduledDonations';
+import type { DonationAppointment } from '../lib/calendarExport';
+import { formatDateForDB } from '../lib/dateUtils';
 
 // Enum for workflow steps
 enum Step {
@@ -38,11 +34,14 @@ export default function ScheduleDonation() {
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [selectedFacilityId, setSelectedFacilityId] = useState<string>('');
   const [selectedFacilityType, setSelectedFacilityType] = useState<'blood_bank' | 'hospital'>('blood_bank');
-  const [bloodBanks, setBloodBanks] = useState<BloodBank[]>([]);
+  const [bloodBanks, setBloodBanks] = useState<BloodBankSummary[]>([]);
   const [availableSlots, setAvailableSlots] = useState<AvailableSlot[]>([]);
   const [selectedSlot, setSelectedSlot] = useState<string>('');
   const [notes, setNotes] = useState<string>('');
   const [loading, setLoading] = useState(false);
+  const [donor, setDonor] = useState<Donor | null>(null);
+  const [eligibility, setEligibility] = useState<EligibilityResult | null>(null);
+  const [bookedAppointment, setBookedAppointment] = useState<DonationAppointment | null>(null);
 
   useEffect(() => {
     if (!user) {
@@ -61,17 +60,19 @@ export default function ScheduleDonation() {
   }, [selectedFacilityId, selectedDate]);
 
   const checkDonorProfile = async () => {
+    if (!user) return;
+
     try {
-      const { data, error } = await supabase
-        .from('donors')
-        .select('id')
-        .eq('user_id', user?.id)
-        .single();
+      const donorData = await getDonorByUserId(user.id);
         
-      if (error || !data) {
+      if (!donorData) {
         toast.error('Please complete your donor profile before scheduling a donation');
         navigate('/complete-profile');
+        return;
       }
+
+      setDonor(donorData);
+      setEligibility(checkEligibility(donorData));
     } catch (error) {
       console.error('Error checking donor profile:', error);
       toast.error('Please sign in as a donor to schedule donations');
@@ -81,13 +82,8 @@ export default function ScheduleDonation() {
 
   const fetchBloodBanks = async () => {
     try {
-      const { data, error } = await supabase
-        .from('blood_banks')
-        .select('id, name, address, city, state')
-        .order('name');
-
-      if (error) throw error;
-      setBloodBanks(data || []);
+      const data = await listBloodBanks();
+      setBloodBanks(data);
     } catch (error) {
       console.error('Error fetching blood banks:', error);
       toast.error('Failed to load blood banks');
@@ -98,15 +94,12 @@ export default function ScheduleDonation() {
     if (!selectedFacilityId || !selectedDate) return;
 
     try {
-      const { data, error } = await supabase
-        .rpc('get_available_slots', {
-          p_date: selectedDate.toISOString().split('T')[0],
-          p_facility_id: selectedFacilityId,
-          p_facility_type: selectedFacilityType
-        });
-
-      if (error) throw error;
-      setAvailableSlots(data || []);
+      const data = await getAvailableSlots(
+        formatDateForDB(selectedDate),
+        selectedFacilityId,
+        selectedFacilityType
+      );
+      setAvailableSlots(data);
     } catch (error) {
       console.error('Error fetching available slots:', error);
       toast.error('Failed to load available slots');
@@ -114,6 +107,14 @@ export default function ScheduleDonation() {
   };
 
   const handleDateSelection = (date: Date) => {
+    if (donor) {
+      const result = checkEligibility(donor, { at: date });
+      if (!result.eligible) {
+        toast.error(explainEligibility(result));
+        return;
+      }
+    }
+
     setSelectedDate(date);
     setCurrentStep(Step.FACILITY_SELECTION);
   };
@@ -138,7 +139,8 @@ export default function ScheduleDonation() {
     }
   };
 
-  const handleComplete = () => {
+  const handleComplete = (appointment: DonationAppointment) => {
+    setBookedAppointment(appointment);
     setCurrentStep(Step.CONFIRMATION);
   };
 
@@ -146,6 +148,7 @@ export default function ScheduleDonation() {
     // Reset state
     setSelectedDate(null);
     setSelectedFacilityId('');
+    setBookedAppointment(null);
     setCurrentStep(Step.DATE_SELECTION);
   };
 
@@ -156,22 +159,23 @@ export default function ScheduleDonation() {
       return;
     }
 
+    if (!user) return;
+
     setLoading(true);
     try {
       const scheduledDate = new Date(selectedDate);
       const [hours, minutes] = selectedSlot.split(':');
       scheduledDate.setHours(parseInt(hours), parseInt(minutes));
 
-      const { error } = await supabase
-        .from('scheduled_donations')
-        .insert({
-          donor_id: user?.id,
-          blood_bank_id: selectedFacilityId,
-          scheduled_date: scheduledDate.toISOString(),
-          notes
-        });
+      const donorId = await getDonorIdByUserId(user.id);
+      if (!donorId) throw new Error('Donor profile not found');
 
-      if (error) throw error;
+      await createScheduledDonation({
+        donor_id: donorId,
+        blood_bank_id: selectedFacilityId,
+        scheduled_date: scheduledDate.toISOString(),
+        notes
+      });
 
       toast.success('Donation scheduled successfully!');
       navigate('/dashboard');
@@ -187,7 +191,14 @@ export default function ScheduleDonation() {
     <div className="min-h-screen bg-gray-50 py-12">
       <div className="max-w-3xl mx-auto px-4 sm:px-6 lg:px-8">
         {currentStep === Step.DATE_SELECTION && (
-          <DonationDateSelector onSelectDate={handleDateSelection} />
+          <DonationDateSelector
+            onSelectDate={handleDateSelection}
+            earliestDate={eligibility?.eligible ? undefined : eligibility?.nextEligibleDate ?? undefined}
+            eligibilityNotice={
+              eligibility && !eligibility.eligible ? explainEligibility(eligibility) : undefined
+            }
+            disabled={!!eligibility && !eligibility.eligible && !eligibility.nextEligibleDate}
+          />
         )}
         
         {currentStep === Step.FACILITY_SELECTION && selectedDate && (
@@ -209,7 +220,10 @@ export default function ScheduleDonation() {
         )}
         
         {currentStep === Step.CONFIRMATION && (
-          <SchedulerConfirmation onScheduleAnother={handleScheduleAnother} />
+          <SchedulerConfirmation
+            appointment={bookedAppointment}
+            onScheduleAnother={handleScheduleAnother}
+          />
         )}
 
         {/* Important Information */}
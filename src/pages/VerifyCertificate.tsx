@@ -0,0 +1,139 @@
+import { useEffect, useState, type FormEvent } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { Award, CheckCircle, Search, XCircle } from 'lucide-react';
+import { format, parseISO } from 'date-fns';
+import toast from 'react-hot-toast';
+import {
+  verifyDonationCertificate,
+  type VerifiedCertificate,
+} from '../lib/repositories/donationCertificates';
+
+export function VerifyCertificate() {
+  const { number } = useParams<{ number: string }>();
+  const navigate = useNavigate();
+  const [certificate, setCertificate] = useState<VerifiedCertificate | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [lookupFailed, setLookupFailed] = useState(false);
+  const [searchValue, setSearchValue] = useState(number || '');
+
+  useEffect(() => {
+    setSearchValue(number || '');
+    setCertificate(null);
+    setLookupFailed(false);
+    if (number) {
+      fetchCertificate(number);
+    }
+  }, [number]);
+
+  const fetchCertificate = async (certificateNumber: string) => {
+    try {
+      setLoading(true);
+      setCertificate(await verifyDonationCertificate(certificateNumber));
+    } catch (error) {
+      console.error('Error verifying certificate:', error);
+      setLookupFailed(true);
+      toast.error('Failed to verify certificate');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = (e: FormEvent) => {
+    e.preventDefault();
+    const value = searchValue.trim();
+    if (value) {
+      navigate(`/verify-certificate/${encodeURIComponent(value)}`);
+    }
+  };
+
+  return (
+    <div className="min-h-screen pt-24 pb-16">
+      <div className="max-w-2xl mx-auto px-4 sm:px-6 lg:px-8">
+        <div className="text-center mb-8">
+          <Award className="h-12 w-12 text-red-500 mx-auto mb-4" />
+          <h1 className="text-3xl font-bold text-gray-900">Verify a Donation Certificate</h1>
+          <p className="text-gray-600 mt-2">
+            Enter the certificate number printed on a LifeLink donation certificate, or scan
+            its QR code.
+          </p>
+        </div>
+
+        <form onSubmit={handleSubmit} className="flex gap-2 mb-8">
+          <input
+            type="text"
+            value={searchValue}
+            onChange={(e) => setSearchValue(e.target.value)}
+            placeholder="e.g. DON-1718000000000-1a2b3c4d"
+            className="flex-1 rounded-md border border-gray-300 px-3 py-2 focus:border-red-500 focus:outline-none focus:ring-1 focus:ring-red-500"
+          />
+          <button
+            type="submit"
+            className="flex items-center bg-red-500 text-white px-4 py-2 rounded-md hover:bg-red-600"
+          >
+            <Search className="h-4 w-4 mr-1" />
+            Verify
+          </button>
+        </form>
+
+        {loading ? (
+          <p className="text-center text-gray-600">Checking certificate...</p>
+        ) : number && certificate ? (
+          <div className="bg-white rounded-lg shadow-md p-6 border-2 border-green-200">
+            <div className="flex items-center mb-4">
+              <CheckCircle className="h-6 w-6 text-green-500 mr-2" />
+              <h2 className="text-xl font-semibold text-gray-900">Valid certificate</h2>
+            </div>
+            <dl className="grid grid-cols-1 sm:grid-cols-2 gap-4 text-sm">
+              <div>
+                <dt className="text-gray-500">Certificate No</dt>
+                <dd className="font-medium text-gray-900 break-all">
+                  {certificate.certificate_number}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Donor</dt>
+                <dd className="font-medium text-gray-900">{certificate.donor_name}</dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Donation date</dt>
+                <dd className="font-medium text-gray-900">
+                  {format(parseISO(certificate.donation_date), 'PPP')}
+                </dd>
+              </div>
+              <div>
+                <dt className="text-gray-500">Units donated</dt>
+                <dd className="font-medium text-gray-900">
+                  {certificate.units_donated}
+                  {certificate.blood_type && ` (${certificate.blood_type})`}
+                </dd>
+              </div>
+              {certificate.hospital_name && (
+                <div>
+                  <dt className="text-gray-500">Donated at</dt>
+                  <dd className="font-medium text-gray-900">{certificate.hospital_name}</dd>
+                </div>
+              )}
+              <div>
+                <dt className="text-gray-500">Issued on</dt>
+                <dd className="font-medium text-gray-900">
+                  {format(parseISO(certificate.issued_at), 'PPP')}
+                </dd>
+              </div>
+            </dl>
+          </div>
+        ) : number && !lookupFailed ? (
+          <div className="bg-white rounded-lg shadow-md p-6 border-2 border-red-200">
+            <div className="flex items-center">
+              <XCircle className="h-6 w-6 text-red-500 mr-2" />
+              <h2 className="text-xl font-semibold text-gray-900">Certificate not found</h2>
+            </div>
+            <p className="text-gray-600 mt-2">
+              No LifeLink certificate has the number <span className="font-medium">{number}</span>.
+              Check the number and try again.
+            </p>
+          </div>
+        ) : null}
+      </div>
+    </div>
+  );
+}
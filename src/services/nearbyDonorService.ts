@@ -0,0 +1,92 @@
+import {
+  createSpatialIndex,
+  recordLocation,
+  type LatLng,
+  type NearbyResult,
+  type SpatialIndex,
+} from '../lib/geo';
+import {
+  findNearbyDonors,
+  listActiveDonorsWithLocation,
+  listAvailableDonorIds,
+  listDonorsByIds,
+  type Donor,
+} from '../lib/repositories/donors';
+
+export interface NearbyDonorOptions {
+  /** Only donors of these blood types, e.g. from `getCompatibleBloodTypes` */
+  bloodTypes?: string[];
+  /** Only donors who can be asked right now */
+  availableOnly?: boolean;
+  /** Include donors on call outside their availability windows */
+  emergency?: boolean;
+  limit?: number;
+}
+
+const DEFAULT_LIMIT = 200;
+
+/** How long loaded donors are searched before loading them again */
+const INDEX_TTL_MS = 60 * 1000;
+
+const indexes = new Map<string, { index: SpatialIndex<Donor>; loadedAt: number }>();
+
+/**
+ * Grid index over the active donors of the given blood types, reused for a
+ * minute so repeated searches (a moving map, changing filters) skip the load
+ */
+const loadDonorIndex = async (bloodTypes?: string[]) => {
+  const key = bloodTypes ? [...bloodTypes].sort().join(',') : '*';
+  const cached = indexes.get(key);
+  if (cached && Date.now() - cached.loadedAt < INDEX_TTL_MS) return cached.index;
+
+  const index = createSpatialIndex(await listActiveDonorsWithLocation(bloodTypes), recordLocation);
+  indexes.set(key, { index, loadedAt: Date.now() });
+  return index;
+};
+
+/** How PostgREST and Postgres answer a call to a function the database does not have */
+const isMissingFunction = (error: unknown) =>
+  ['PGRST202', '42883'].includes((error as { code?: string } | null)?.code ?? '');
+
+/**
+ * Active donors within `radiusKm` of a point, nearest first. The database
+ * answers with `find_nearby_donors`; only where it has no such function yet
+ * are the donors loaded and searched in the browser.
+ */
+export async function findDonorsNearby(
+  center: LatLng,
+  radiusKm: number,
+  { bloodTypes, availableOnly = false, emergency = false, limit = DEFAULT_LIMIT }: NearbyDonorOptions = {}
+): Promise<NearbyResult<Donor>[]> {
+  try {
+    const rows = await findNearbyDonors({
+      latitude: center.lat,
+      longitude: center.lng,
+      radiusKm,
+      bloodTypes,
+      availableOnly,
+      emergency,
+      limit,
+    });
+    const donors = await listDonorsByIds(rows.map((row) => row.donor_id));
+    const byId = new Map(donors.map((donor) => [donor.id, donor]));
+
+    return rows.flatMap((row) => {
+      const donor = byId.get(row.donor_id);
+      return donor ? [{ item: donor, distanceKm: row.distance_km }] : [];
+    });
+  } catch (error) {
+    if (!isMissingFunction(error)) throw error;
+    console.warn('find_nearby_donors is not available, searching in the browser');
+  }
+
+  const index = await loadDonorIndex(bloodTypes);
+  if (!availableOnly) return index.within(center, radiusKm, limit);
+
+  // Availability is only checked for the donors in range
+  const inRange = index.within(center, radiusKm);
+  const available = new Set(
+    await listAvailableDonorIds(emergency, inRange.map((result) => result.item.id))
+  );
+  return inRange.filter((result) => available.has(result.item.id)).slice(0, limit);
+}
@@ -1,18 +1,17 @@
-import axios from 'axios';
-
-const OLA_MAPS_AUTH_URL = 'https://account.olamaps.io/realms/olamaps/protocol/openid-connect/token';
-const OLA_MAPS_API_URL = 'https://api.olamaps.io';
-
-interface OlaMapsAuthResponse {
-  access_token: string;
-  token_type: string;
-  expires_in: number;
-}
+import type { LatLng } from '../lib/geo';
+import { supabase } from '../lib/supabase';
+import {
+  formatMapPoints,
+  type MapProxyParams,
+  type MapProxyService,
+} from '../lib/mapProxy';
 
+/**
+ * Ola Maps REST APIs through the `ola-maps-proxy` Edge Function, which
+ * holds the API key, limits requests per user and caches answers
+ */
 class OlaMapsService {
   private static instance: OlaMapsService;
-  private accessToken: string | null = null;
-  private tokenExpiry: number | null = null;
 
   private constructor() {}
 
@@ -23,56 +22,44 @@ class OlaMapsService {
     return OlaMapsService.instance;
   }
 
-  async getAccessToken(): Promise<string> {
-    // Check if we have a valid token
-    if (this.accessToken && this.tokenExpiry && Date.now() < this.tokenExpiry) {
-      return this.accessToken;
-    }
+  private async request(service: MapProxyService, params: MapProxyParams): Promise<any> {
+    const { data, error } = await supabase.functions.invoke('ola-maps-proxy', {
+      body: { service, params },
+    });
 
-    // Get new token
-    try {
-      const response = await axios.post<OlaMapsAuthResponse>(
-        OLA_MAPS_AUTH_URL,
-        new URLSearchParams({
-          grant_type: 'client_credentials',
-          scope: 'openid',
-          client_id: import.meta.env.VITE_OLA_MAPS_CLIENT_ID || '',
-          client_secret: import.meta.env.VITE_OLA_MAPS_CLIENT_SECRET || '',
-        })
-      );
-
-      this.accessToken = response.data.access_token;
-      this.tokenExpiry = Date.now() + (response.data.expires_in * 1000);
+    if (error) throw error;
+    return data;
+  }
 
-      return this.accessToken;
-    } catch (error) {
-      console.error('Error getting Ola Maps access token:', error);
-      throw error;
-    }
+  async geocode(address: string): Promise<any> {
+    return this.request('geocode', { address });
   }
 
-  async searchPlaces(searchText: string): Promise<any> {
+  async searchPlaces(searchText: string, near?: LatLng): Promise<any> {
     try {
-      const accessToken = await this.getAccessToken();
-      const response = await axios.get(
-        `${OLA_MAPS_API_URL}/places/v1/autocomplete`,
-        {
-          params: {
-            input: searchText,
-          },
-          headers: {
-            Authorization: `Bearer ${accessToken}`,
-          },
-        }
-      );
-      return response.data;
+      return await this.request('autocomplete', {
+        input: searchText,
+        ...(near ? { location: formatMapPoints([near]) } : {}),
+      });
     } catch (error) {
       console.error('Error searching places:', error);
       throw error;
     }
   }
 
-  // Add more API methods as needed
+  async getDirections(origin: LatLng, destination: LatLng): Promise<any> {
+    return this.request('directions', {
+      origin: formatMapPoints([origin]),
+      destination: formatMapPoints([destination]),
+    });
+  }
+
+  async getDistanceMatrix(origins: LatLng[], destinations: LatLng[]): Promise<any> {
+    return this.request('distance_matrix', {
+      origins: formatMapPoints(origins),
+      destinations: formatMapPoints(destinations),
+    });
+  }
 }
 
-export const olaMapsService = OlaMapsService.getInstance(); 
\ No newline at end of file
+export const olaMapsService = OlaMapsService.getInstance();
@@ -0,0 +1,268 @@
+/**
+ * iCalendar (RFC 5545) export of donation appointments, used by the
+ * hospital-calendar-feed Edge Function and, through src/lib/calendarExport.ts,
+ * by the app. Has no imports, so it runs unchanged in Deno and in the browser.
+ *
+ * Appointments whose instant is known (`scheduled_at`) are written in UTC, so
+ * calendars show them in their own zone. Otherwise times are floating: the
+ * wall-clock time at the facility, shown as booked.
+ */
+
+export interface CalendarEvent {
+  uid: string;
+  /** YYYY-MM-DD */
+  date: string;
+  /** HH:MM or HH:MM:SS */
+  startTime: string;
+  /** Defaults to `DEFAULT_APPOINTMENT_MINUTES` after the start */
+  endTime?: string | null;
+  /** The start as an instant; when set, times are written in UTC */
+  startsAt?: string | null;
+  summary: string;
+  description?: string | null;
+  location?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  status?: 'TENTATIVE' | 'CONFIRMED' | 'CANCELLED';
+}
+
+/** Appointment as the donor pages already hold it */
+export interface DonationAppointment {
+  id: string;
+  facility_type: 'blood_bank' | 'hospital';
+  facility_name: string;
+  facility_address?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+  scheduled_date: string;
+  scheduled_time: string;
+  end_time?: string | null;
+  /** The slot's start instant, see `scheduled_at` */
+  scheduled_at?: string | null;
+  status?: string | null;
+  notes?: string | null;
+}
+
+/** Booking as returned by `get_hospital_scheduled_donations` */
+export interface HospitalBooking {
+  id: string;
+  donor_name: string;
+  blood_type: string;
+  donation_date: string;
+  slot_time: string;
+  status: string;
+  notes: string | null;
+  /** The slot's start instant, see `scheduled_at` */
+  scheduled_at?: string | null;
+}
+
+export interface CalendarFacility {
+  name: string;
+  address?: string | null;
+  latitude?: number | null;
+  longitude?: number | null;
+}
+
+export const DEFAULT_APPOINTMENT_MINUTES = 60;
+
+const PRODID = '-//LifeLink//Donation Appointments//EN';
+const MAX_LINE_OCTETS = 75;
+
+/** Escapes TEXT values: backslashes, separators and line breaks */
+export function escapeText(value: string) {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n');
+}
+
+/**
+ * Splits a content line into 75-octet pieces joined by CRLF and a space,
+ * without breaking a multi-byte character
+ */
+export function foldLine(line: string) {
+  const encoder = new TextEncoder();
+  const pieces: string[] = [];
+  let current = '';
+  let octets = 0;
+
+  for (const char of line) {
+    const size = encoder.encode(char).length;
+    // Continuation lines start with a space, which counts towards their length
+    const limit = pieces.length === 0 ? MAX_LINE_OCTETS : MAX_LINE_OCTETS - 1;
+    if (octets + size > limit) {
+      pieces.push(current);
+      current = '';
+      octets = 0;
+    }
+    current += char;
+    octets += size;
+  }
+  pieces.push(current);
+
+  return pieces.join('\r\n ');
+}
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+function toParts(date: string, time: string) {
+  const [year, month, day] = date.slice(0, 10).split('-').map(Number);
+  const [hours, minutes, seconds = 0] = time.split(':').map(Number);
+  return new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds));
+}
+
+/** Floating DATE-TIME, e.g. 20261023T143000; the Date is read in UTC */
+function formatFloating(value: Date) {
+  return (
+    `${value.getUTCFullYear()}${pad(value.getUTCMonth() + 1)}${pad(value.getUTCDate())}` +
+    `T${pad(value.getUTCHours())}${pad(value.getUTCMinutes())}${pad(value.getUTCSeconds())}`
+  );
+}
+
+export function formatIcsDateTime(date: string, time: string) {
+  return formatFloating(toParts(date, time));
+}
+
+function durationMs(event: CalendarEvent) {
+  const start = toParts(event.date, event.startTime);
+  if (!event.endTime) return DEFAULT_APPOINTMENT_MINUTES * 60_000;
+
+  const end = toParts(event.date, event.endTime);
+  // A slot ending at or after midnight finishes the next day
+  if (end <= start) end.setUTCDate(end.getUTCDate() + 1);
+  return end.getTime() - start.getTime();
+}
+
+function formatTimes(event: CalendarEvent) {
+  if (event.startsAt) {
+    const start = new Date(event.startsAt);
+    return {
+      start: `${formatFloating(start)}Z`,
+      end: `${formatFloating(new Date(start.getTime() + durationMs(event)))}Z`,
+    };
+  }
+
+  const start = toParts(event.date, event.startTime);
+  return {
+    start: formatFloating(start),
+    end: formatFloating(new Date(start.getTime() + durationMs(event))),
+  };
+}
+
+const formatGeo = (value: number) => String(Math.round(value * 1e6) / 1e6);
+
+function eventLines(event: CalendarEvent, stamp: string) {
+  const { start, end } = formatTimes(event);
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${event.uid}`,
+    `DTSTAMP:${stamp}`,
+    `DTSTART:${start}`,
+    `DTEND:${end}`,
+    `SUMMARY:${escapeText(event.summary)}`,
+  ];
+
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`);
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`);
+  if (event.latitude != null && event.longitude != null) {
+    lines.push(`GEO:${formatGeo(event.latitude)};${formatGeo(event.longitude)}`);
+  }
+  if (event.status) lines.push(`STATUS:${event.status}`);
+  lines.push('END:VEVENT');
+
+  return lines;
+}
+
+/** A complete VCALENDAR with CRLF line endings */
+export function buildCalendar(
+  events: CalendarEvent[],
+  { name, now = new Date() }: { name?: string; now?: Date } = {}
+) {
+  const stamp = `${formatFloating(now)}Z`;
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    ...(name ? [`X-WR-CALNAME:${escapeText(name)}`] : []),
+    ...events.flatMap((event) => eventLines(event, stamp)),
+    'END:VCALENDAR',
+  ];
+
+  return lines.map(foldLine).join('\r\n') + '\r\n';
+}
+
+function toEventStatus(status?: string | null): CalendarEvent['status'] {
+  switch (status) {
+    case 'pending':
+      return 'TENTATIVE';
+    case 'cancelled':
+    case 'no_show':
+      return 'CANCELLED';
+    default:
+      return 'CONFIRMED';
+  }
+}
+
+/** The donor's own appointment, as added from "Add to calendar" */
+export function donationAppointmentEvent(appointment: DonationAppointment): CalendarEvent {
+  const description = [
+    'Please arrive 15 minutes early and bring a valid ID.',
+    appointment.notes ? `Notes: ${appointment.notes}` : null,
+  ]
+    .filter(Boolean)
+    .join('\n');
+
+  return {
+    uid: `${appointment.facility_type}-${appointment.id}@lifelink`,
+    date: appointment.scheduled_date,
+    startTime: appointment.scheduled_time,
+    endTime: appointment.end_time,
+    startsAt: appointment.scheduled_at,
+    summary: `Blood donation at ${appointment.facility_name}`,
+    description,
+    location: [appointment.facility_name, appointment.facility_address]
+      .filter(Boolean)
+      .join(', '),
+    latitude: appointment.latitude,
+    longitude: appointment.longitude,
+    status: toEventStatus(appointment.status),
+  };
+}
+
+/**
+ * A booking in the hospital's staff calendar. Cancelled bookings are left
+ * out of the feed, which makes subscribed calendars drop them.
+ */
+export function hospitalBookingEvent(
+  booking: HospitalBooking,
+  facility: CalendarFacility
+): CalendarEvent {
+  return {
+    uid: `hospital-${booking.id}@lifelink`,
+    date: booking.donation_date,
+    startTime: booking.slot_time,
+    startsAt: booking.scheduled_at,
+    summary: `Donation: ${booking.donor_name} (${booking.blood_type})`,
+    description: booking.notes,
+    location: [facility.name, facility.address].filter(Boolean).join(', '),
+    latitude: facility.latitude,
+    longitude: facility.longitude,
+    status: toEventStatus(booking.status),
+  };
+}
+
+export function buildHospitalCalendar(
+  bookings: HospitalBooking[],
+  facility: CalendarFacility,
+  now?: Date
+) {
+  return buildCalendar(
+    bookings
+      .filter((booking) => booking.status !== 'cancelled')
+      .map((booking) => hospitalBookingEvent(booking, facility)),
+    { name: `${facility.name} donations`, now }
+  );
+}
@@ -0,0 +1,59 @@
+/**
+ * What the `ola-maps-proxy` Edge Function writes to `geocode_cache` after
+ * Ola Maps answers a geocode request. Shared with the browser through
+ * src/lib/geocoding.ts, so both key and score addresses the same way. Has
+ * no imports, so it runs unchanged in Deno and in the app.
+ */
+
+/** Cache key: lower case, single spaces, no trailing punctuation */
+export function normalizeAddress(address: string) {
+  return address
+    .toLowerCase()
+    .replace(/[\s,]+/g, ' ')
+    .replace(/[.\s]+$/, '')
+    .trim();
+}
+
+/** Confidence of an Ola Maps geocode result from its `location_type` */
+export function olaMapsConfidence(locationType: string | null | undefined) {
+  switch ((locationType ?? '').toUpperCase()) {
+    case 'ROOFTOP':
+      return 0.95;
+    case 'RANGE_INTERPOLATED':
+      return 0.85;
+    case 'GEOMETRIC_CENTER':
+      return 0.7;
+    case 'APPROXIMATE':
+      return 0.5;
+    default:
+      return 0.7;
+  }
+}
+
+interface OlaMapsGeocodeAnswer {
+  geocodingResults?: Array<{
+    formatted_address?: string;
+    geometry?: { location?: { lat: number; lng: number }; location_type?: string };
+  }>;
+}
+
+/** The `cache_geocode` arguments for the first result of an Ola Maps geocode answer */
+export function olaMapsGeocodeCacheEntry(address: string, body: unknown) {
+  const result = (body as OlaMapsGeocodeAnswer | null)?.geocodingResults?.[0];
+  const location = result?.geometry?.location;
+  const key = normalizeAddress(address);
+
+  if (!key || !location || !Number.isFinite(location.lat) || !Number.isFinite(location.lng)) {
+    return null;
+  }
+  if (Math.abs(location.lat) > 90 || Math.abs(location.lng) > 180) return null;
+
+  return {
+    p_address_key: key,
+    p_latitude: location.lat,
+    p_longitude: location.lng,
+    p_formatted_address: result?.formatted_address || address,
+    p_provider: 'ola_maps',
+    p_confidence: olaMapsConfidence(result?.geometry?.location_type),
+  };
+}
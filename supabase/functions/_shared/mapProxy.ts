@@ -0,0 +1,127 @@
+/**
+ * Ola Maps requests the `ola-maps-proxy` Edge Function forwards with the
+ * API key it holds. Shared with the browser through src/lib/mapProxy.ts, so
+ * both use the same list: only these services and parameters are
+ * forwarded, so the proxy cannot be used to reach anything else with our
+ * key. Has no imports, so it runs unchanged in Deno and in the app.
+ */
+
+export type MapProxyService = 'geocode' | 'autocomplete' | 'directions' | 'distance_matrix';
+
+export type MapProxyParams = Record<string, string>;
+
+export interface MapProxyRequest {
+  service: MapProxyService;
+  params: MapProxyParams;
+}
+
+interface MapProxyServiceConfig {
+  method: 'GET' | 'POST';
+  path: string;
+  required: string[];
+  optional: string[];
+  /** How long answers are reused; road times change with the traffic */
+  cacheSeconds: number;
+}
+
+const DAY_SECONDS = 24 * 60 * 60;
+
+export const MAP_PROXY_SERVICES: Record<MapProxyService, MapProxyServiceConfig> = {
+  geocode: {
+    method: 'GET',
+    path: '/places/v1/geocode',
+    required: ['address'],
+    optional: ['language'],
+    cacheSeconds: 30 * DAY_SECONDS,
+  },
+  autocomplete: {
+    method: 'GET',
+    path: '/places/v1/autocomplete',
+    required: ['input'],
+    optional: ['location', 'radius', 'language'],
+    cacheSeconds: DAY_SECONDS,
+  },
+  directions: {
+    method: 'POST',
+    path: '/routing/v1/directions',
+    required: ['origin', 'destination'],
+    optional: ['waypoints', 'mode', 'alternatives'],
+    cacheSeconds: 10 * 60,
+  },
+  distance_matrix: {
+    method: 'GET',
+    path: '/routing/v1/distanceMatrix',
+    required: ['origins', 'destinations'],
+    optional: ['mode'],
+    cacheSeconds: 10 * 60,
+  },
+};
+
+/** Requests allowed per window, per signed-in user or per IP address otherwise */
+export const MAP_PROXY_RATE_LIMIT = {
+  signedIn: 120,
+  anonymous: 30,
+  windowSeconds: 60,
+};
+
+const MAX_PARAM_LENGTH = 2000;
+
+const isService = (value: unknown): value is MapProxyService =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(MAP_PROXY_SERVICES, value);
+
+/** Trimmed, with runs of spaces collapsed, so equal requests share a cache entry */
+const normalizeParam = (value: string) => value.trim().replace(/\s+/g, ' ');
+
+/**
+ * Checks a request body against the allowed services and parameters,
+ * returning the request with its parameters normalised or why it is refused
+ */
+export function parseMapProxyRequest(
+  body: unknown
+): { request: MapProxyRequest } | { error: string } {
+  if (!body || typeof body !== 'object') return { error: 'Expected a JSON body' };
+
+  const { service, params } = body as { service?: unknown; params?: unknown };
+  if (!isService(service)) return { error: 'Unknown map service' };
+  if (!params || typeof params !== 'object') return { error: 'Expected params' };
+
+  const config = MAP_PROXY_SERVICES[service];
+  const allowed = [...config.required, ...config.optional];
+  const normalized: MapProxyParams = {};
+
+  for (const [name, value] of Object.entries(params)) {
+    if (!allowed.includes(name)) return { error: `Unsupported parameter: ${name}` };
+    if (typeof value !== 'string' && typeof value !== 'number') {
+      return { error: `Invalid parameter: ${name}` };
+    }
+    const text = normalizeParam(String(value));
+    if (text.length > MAX_PARAM_LENGTH) return { error: `Parameter too long: ${name}` };
+    if (text) normalized[name] = text;
+  }
+
+  const missing = config.required.find((name) => !normalized[name]);
+  if (missing) return { error: `Missing parameter: ${missing}` };
+
+  return { request: { service, params: normalized } };
+}
+
+const sortedQuery = (params: MapProxyParams) =>
+  Object.keys(params)
+    .sort()
+    .map((name) => `${encodeURIComponent(name)}=${encodeURIComponent(params[name])}`)
+    .join('&');
+
+/** Ola Maps path and query for a request, without the API key */
+export function olaMapsRequestPath(request: MapProxyRequest) {
+  const { method, path } = MAP_PROXY_SERVICES[request.service];
+  return { method, url: `${path}?${sortedQuery(request.params)}` };
+}
+
+/** Same for requests that differ only in parameter order or spacing */
+export function mapProxyCacheKey(request: MapProxyRequest) {
+  return `${request.service}:${sortedQuery(request.params)}`;
+}
+
+/** Points as Ola Maps takes them: "lat,lng" separated by "|" */
+export const formatMapPoints = (points: Array<{ lat: number; lng: number }>) =>
+  points.map((point) => `${point.lat},${point.lng}`).join('|');
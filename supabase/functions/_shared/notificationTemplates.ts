@@ -0,0 +1,234 @@
+/**
+ * Wording and channels of every notification event. The send-notification
+ * Edge Function words SMS and email from these templates and the event data
+ * alone, and the app shows the same wording through
+ * src/lib/notificationTemplates.ts. Has no imports, so it runs unchanged in
+ * Deno and in the browser.
+ */
+export const NOTIFICATION_CHANNELS = ['in_app', 'sms', 'email', 'push'] as const;
+
+export type NotificationChannel = (typeof NOTIFICATION_CHANNELS)[number];
+
+/**
+ * Payload stored in `notifications.data` for each event type. Keys stay in
+ * snake_case because the dashboard and notification bell read them back.
+ */
+export type NotificationEventData = {
+  blood_offer: {
+    request_id: string;
+    donor_id: string;
+    name: string;
+    phone?: string | null;
+    blood_type?: string | null;
+    patient_name: string;
+    hospital_name?: string | null;
+    recipient_info?: string;
+  };
+  donation_accepted: {
+    request_id: string;
+    response_id?: string;
+    donor_id?: string;
+  };
+  donation_declined: {
+    request_id?: string;
+  };
+  donation_scheduled: {
+    scheduled_date: string;
+    scheduled_time: string;
+    hospital_name?: string | null;
+    hospital_address?: string | null;
+    request_id?: string | null;
+    schedule_id?: string;
+    donation_id?: string;
+    donor_id?: string;
+    facility_id?: string;
+    facility_type?: string;
+    patient_name?: string | null;
+    patient_blood_group?: string | null;
+    blood_type?: string | null;
+    recipient_info?: string;
+  };
+  donation_rescheduled: {
+    scheduled_date: string;
+    scheduled_time: string;
+    old_schedule_id?: string;
+    new_schedule_id?: string;
+    emergency_request_id?: string | null;
+    hospital_name?: string | null;
+    hospital_address?: string | null;
+    recipient_info?: string;
+  };
+  donation_cancelled: {
+    scheduled_date: string;
+    scheduled_time: string;
+    schedule_id?: string;
+    emergency_request_id?: string | null;
+    reason?: string;
+  };
+  donation_confirmed: {
+    request_id: string;
+    patient_name?: string | null;
+    units_donated?: number;
+  };
+  blood_group_verified: {
+    donation_id: string;
+    blood_group: string;
+  };
+  emergency_nearby: {
+    request_id: string;
+    blood_type: string;
+    hospital_name?: string | null;
+    distance_km?: number;
+    urgency_level?: string;
+  };
+  slot_reminder: {
+    scheduled_date: string;
+    scheduled_time: string;
+    facility_name: string;
+    schedule_id?: string;
+    /** Lets the donor confirm or cancel from `/appointment/:token` */
+    response_token?: string;
+    /** Link to `/appointment/:token`, when the database knows the site URL */
+    appointment_url?: string | null;
+    /** Start in the donor's own timezone, when it differs from the facility's */
+    local_time?: string | null;
+  };
+  waitlist_promoted: {
+    scheduled_date: string;
+    scheduled_time: string;
+    facility_name?: string | null;
+    donation_id: string;
+  };
+  waitlist_closed: {
+    scheduled_date: string;
+    scheduled_time?: string | null;
+    facility_name?: string | null;
+    reason: string;
+  };
+};
+
+export type NotificationEvent = keyof NotificationEventData;
+
+interface NotificationTemplate<E extends NotificationEvent> {
+  title: string;
+  message: (data: NotificationEventData[E]) => string;
+  /** Channels the event goes out on when the user has them enabled */
+  channels: NotificationChannel[];
+  /** Urgent events are delivered during quiet hours */
+  urgent?: boolean;
+}
+
+const at = (place?: string | null) => (place ? ` at ${place}` : '');
+
+export const NOTIFICATION_TEMPLATES: {
+  [E in NotificationEvent]: NotificationTemplate<E>;
+} = {
+  blood_offer: {
+    title: 'New Blood Donation Offer',
+    message: (data) => `${data.name} has offered to donate blood for ${data.patient_name}`,
+    channels: ['in_app', 'sms', 'push'],
+  },
+  donation_accepted: {
+    title: 'Donation Offer Accepted',
+    message: () => 'Your donation offer has been accepted. Please check your dashboard for details.',
+    channels: ['in_app', 'sms', 'email', 'push'],
+  },
+  donation_declined: {
+    title: 'Donation Offer Response',
+    message: () => 'Your donation offer was declined by the requester',
+    channels: ['in_app'],
+  },
+  donation_scheduled: {
+    title: 'Blood Donation Scheduled',
+    message: (data) =>
+      `Your blood donation has been scheduled for ${data.scheduled_date} at ${data.scheduled_time}${
+        data.hospital_name ? `, ${data.hospital_name}` : ''
+      }`,
+    channels: ['in_app', 'email', 'push'],
+  },
+  donation_rescheduled: {
+    title: 'Blood Donation Rescheduled',
+    message: (data) =>
+      `Your blood donation has been rescheduled to ${data.scheduled_date} at ${data.scheduled_time}`,
+    channels: ['in_app', 'sms', 'email', 'push'],
+  },
+  donation_cancelled: {
+    title: 'Blood Donation Cancelled',
+    message: (data) =>
+      `Your scheduled blood donation on ${data.scheduled_date} at ${data.scheduled_time} has been cancelled.${data.reason ? ` ${data.reason}` : ''}`,
+    channels: ['in_app', 'sms', 'email', 'push'],
+  },
+  donation_confirmed: {
+    title: 'Donation Confirmed',
+    message: (data) =>
+      `Your donation${data.patient_name ? ` for ${data.patient_name}` : ''} has been confirmed. Thank you for saving a life!`,
+    channels: ['in_app', 'email', 'push'],
+  },
+  blood_group_verified: {
+    title: 'Blood Group Verified',
+    message: (data) => `Your blood group has been verified as ${data.blood_group}`,
+    channels: ['in_app', 'email'],
+  },
+  emergency_nearby: {
+    title: 'Urgent: Blood Needed Nearby',
+    message: (data) =>
+      `${data.blood_type} blood is urgently needed${at(data.hospital_name)}${
+        data.distance_km !== undefined ? ` (${data.distance_km.toFixed(1)} km away)` : ''
+      }`,
+    channels: ['in_app', 'sms', 'push'],
+    urgent: true,
+  },
+  // Sent by `send_appointment_reminders` in the database, with the same channels
+  slot_reminder: {
+    title: 'Donation Reminder',
+    message: (data) =>
+      `Reminder: your blood donation${at(data.facility_name)} is on ${data.scheduled_date} at ${data.scheduled_time}${
+        data.local_time ? ` (${data.local_time} your time)` : ''
+      }${data.appointment_url ? `. Confirm or cancel: ${data.appointment_url}` : ''}`,
+    channels: ['in_app', 'sms', 'email', 'push'],
+  },
+  // Sent by `release_donation_booking` in the database, with the same channels
+  waitlist_promoted: {
+    title: 'A Donation Slot Opened Up',
+    message: (data) =>
+      `A place opened up${at(data.facility_name)} and your donation is now booked for ${data.scheduled_date} at ${data.scheduled_time}`,
+    channels: ['in_app', 'sms', 'email', 'push'],
+  },
+  // Sent by `notify_waitlist_closed` in the database, with the same channels
+  waitlist_closed: {
+    title: 'Waitlist Closed',
+    message: (data) =>
+      `The slot you were waiting for${at(data.facility_name)} on ${data.scheduled_date}${at(data.scheduled_time)} is no longer available. ${data.reason} Please book another slot.`,
+    channels: ['in_app', 'email', 'push'],
+  },
+};
+
+/** Whether a name sent from outside the app is one of the events above */
+export const isNotificationEvent = (event: unknown): event is NotificationEvent =>
+  typeof event === 'string' && Object.prototype.hasOwnProperty.call(NOTIFICATION_TEMPLATES, event);
+
+export interface RenderedNotification {
+  title: string;
+  message: string;
+  /** Single SMS segment, prefixed with the app name */
+  sms: string;
+  emailSubject: string;
+}
+
+const SMS_LIMIT = 160;
+
+export function renderNotification<E extends NotificationEvent>(
+  event: E,
+  data: NotificationEventData[E]
+): RenderedNotification {
+  const template = NOTIFICATION_TEMPLATES[event];
+  const message = template.message(data);
+  const sms = `LifeLink: ${message}`;
+
+  return {
+    title: template.title,
+    message,
+    sms: sms.length > SMS_LIMIT ? `${sms.slice(0, SMS_LIMIT - 3)}...` : sms,
+    emailSubject: `LifeLink - ${template.title}`,
+  };
+}
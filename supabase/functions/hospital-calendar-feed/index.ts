@@ -0,0 +1,81 @@
+/**
+ * iCalendar feed of a hospital's booked donation slots, for staff calendars.
+ *
+ * GET /functions/v1/hospital-calendar-feed?token=<hospital_calendar_feeds.token>
+ *
+ * Calendar apps cannot send a Supabase key, so the token is the only
+ * credential: deploy with `supabase functions deploy hospital-calendar-feed
+ * --no-verify-jwt`.
+ */
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { buildHospitalCalendar } from '../_shared/calendarExport.ts';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+Deno.serve(async (req) => {
+  if (req.method !== 'GET' && req.method !== 'HEAD') {
+    return new Response('Method not allowed', { status: 405, headers: { Allow: 'GET, HEAD' } });
+  }
+
+  const token = new URL(req.url).searchParams.get('token') ?? '';
+  if (!UUID_PATTERN.test(token)) {
+    return new Response('Calendar feed not found', { status: 404 });
+  }
+
+  try {
+    const { data: feed, error: feedError } = await supabase
+      .from('hospital_calendar_feeds')
+      .select('hospital_id, hospitals (name, address, latitude, longitude)')
+      .eq('token', token)
+      .maybeSingle();
+
+    if (feedError) throw feedError;
+    if (!feed?.hospitals) {
+      return new Response('Calendar feed not found', { status: 404 });
+    }
+
+    // Times are written in UTC from each booking's `scheduled_at`, so staff
+    // calendars in any zone show the slot when it happens at the hospital
+    const { data: bookings, error: bookingsError } = await supabase
+      .from('hospital_donations')
+      .select(
+        'id, donation_date, scheduled_time, scheduled_at, status, notes, donors (first_name, last_name, blood_type)'
+      )
+      .eq('hospital_id', feed.hospital_id)
+      .neq('status', 'cancelled');
+
+    if (bookingsError) throw bookingsError;
+
+    const ics = buildHospitalCalendar(
+      (bookings || []).map((booking) => ({
+        id: booking.id,
+        donor_name: booking.donors
+          ? `${booking.donors.first_name} ${booking.donors.last_name}`
+          : 'Donor',
+        blood_type: booking.donors?.blood_type ?? 'Unknown',
+        donation_date: booking.donation_date,
+        slot_time: booking.scheduled_time ?? booking.donation_date.slice(11, 19),
+        scheduled_at: booking.scheduled_at,
+        status: booking.status,
+        notes: booking.notes,
+      })),
+      feed.hospitals
+    );
+
+    return new Response(req.method === 'HEAD' ? null : ics, {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': 'inline; filename="donations.ics"',
+        'Cache-Control': 'private, max-age=300',
+      },
+    });
+  } catch (error) {
+    console.error('Error building hospital calendar feed:', error);
+    return new Response('Calendar feed unavailable', { status: 500 });
+  }
+});
@@ -0,0 +1,136 @@
+/**
+ * Proxy for Ola Maps geocode, autocomplete, directions and distance matrix
+ * requests, so the API key stays on the server and addresses go to Ola
+ * Maps only.
+ *
+ * POST /functions/v1/ola-maps-proxy
+ *   { "service": "geocode", "params": { "address": "Park Street, Kolkata" } }
+ *
+ * Set the key with `supabase secrets set OLA_MAPS_API_KEY=...`. Requests are
+ * limited per signed-in user, or per IP address with the anon key, and
+ * answers are kept in `map_proxy_cache` for as long as the service allows.
+ * Geocodes are also written to `geocode_cache`, which browsers only read.
+ */
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import { olaMapsGeocodeCacheEntry } from '../_shared/geocodeCache.ts';
+import {
+  MAP_PROXY_RATE_LIMIT,
+  MAP_PROXY_SERVICES,
+  mapProxyCacheKey,
+  olaMapsRequestPath,
+  parseMapProxyRequest,
+} from '../_shared/mapProxy.ts';
+
+const OLA_MAPS_API_URL = 'https://api.olamaps.io';
+
+const supabase = createClient(
+  Deno.env.get('SUPABASE_URL')!,
+  Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!
+);
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const json = (body: unknown, status = 200, headers: Record<string, string> = {}) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json', ...headers },
+  });
+
+/** The signed-in user, or the caller's IP address for the anon key */
+async function rateLimitSubject(req: Request) {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+  const { data } = await supabase.auth.getUser(token);
+  if (data.user) return { subject: `user:${data.user.id}`, limit: MAP_PROXY_RATE_LIMIT.signedIn };
+
+  const ip = req.headers.get('x-forwarded-for')?.split(',')[0].trim() || 'unknown';
+  return { subject: `ip:${ip}`, limit: MAP_PROXY_RATE_LIMIT.anonymous };
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: CORS_HEADERS });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405, { Allow: 'POST, OPTIONS' });
+  }
+
+  const apiKey = Deno.env.get('OLA_MAPS_API_KEY');
+  if (!apiKey) {
+    console.error('OLA_MAPS_API_KEY is not set');
+    return json({ error: 'Maps are unavailable' }, 503);
+  }
+
+  const parsed = parseMapProxyRequest(await req.json().catch(() => null));
+  if ('error' in parsed) {
+    return json({ error: parsed.error }, 400);
+  }
+  const { request } = parsed;
+
+  try {
+    const { subject, limit } = await rateLimitSubject(req);
+    const { data: allowed, error: limitError } = await supabase.rpc('hit_map_proxy_rate_limit', {
+      p_subject: subject,
+      p_limit: limit,
+      p_window_seconds: MAP_PROXY_RATE_LIMIT.windowSeconds,
+    });
+
+    if (limitError) throw limitError;
+    if (!allowed) {
+      return json({ error: 'Too many map requests, please try again in a minute' }, 429, {
+        'Retry-After': String(MAP_PROXY_RATE_LIMIT.windowSeconds),
+      });
+    }
+
+    const cacheKey = mapProxyCacheKey(request);
+    const { data: cached, error: cacheError } = await supabase
+      .from('map_proxy_cache')
+      .select('response')
+      .eq('cache_key', cacheKey)
+      .gt('expires_at', new Date().toISOString())
+      .maybeSingle();
+
+    if (cacheError) console.warn('Map proxy cache lookup failed:', cacheError);
+    if (cached) {
+      return json(cached.response, 200, { 'X-Cache': 'HIT' });
+    }
+
+    const { method, url } = olaMapsRequestPath(request);
+    const upstream = await fetch(`${OLA_MAPS_API_URL}${url}&api_key=${encodeURIComponent(apiKey)}`, {
+      method,
+      headers: { 'X-Request-Id': crypto.randomUUID() },
+    });
+    const body = await upstream.json().catch(() => null);
+
+    if (!upstream.ok || body === null) {
+      console.error(`Ola Maps ${request.service} request failed with status ${upstream.status}`);
+      return json({ error: 'Map service request failed' }, 502);
+    }
+
+    const { cacheSeconds } = MAP_PROXY_SERVICES[request.service];
+    const { error: storeError } = await supabase.from('map_proxy_cache').upsert({
+      cache_key: cacheKey,
+      service: request.service,
+      response: body,
+      cached_at: new Date().toISOString(),
+      expires_at: new Date(Date.now() + cacheSeconds * 1000).toISOString(),
+    });
+
+    if (storeError) console.warn('Map proxy cache write failed:', storeError);
+
+    const geocode =
+      request.service === 'geocode' ? olaMapsGeocodeCacheEntry(request.params.address, body) : null;
+    if (geocode) {
+      const { error: geocodeError } = await supabase.rpc('cache_geocode', geocode);
+      if (geocodeError) console.warn('Geocode cache write failed:', geocodeError);
+    }
+
+    return json(body, 200, { 'X-Cache': 'MISS' });
+  } catch (error) {
+    console.error('Error proxying map request:', error);
+    return json({ error: 'Map service unavailable' }, 500);
+  }
+});
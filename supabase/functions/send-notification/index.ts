@@ -0,0 +1,161 @@
+/**
+ * Delivers one notification to a user over SMS or email, looking up their
+ * phone number or email address server-side so contact details never reach
+ * the sender's browser.
+ *
+ * POST /functions/v1/send-notification
+ *   { "userId": "...", "channel": "sms", "event": "slot_reminder",
+ *     "data": { "scheduled_date": "...", ... } }
+ *
+ * Only the service role may call it: `send_user_notification` and
+ * `relay_user_notification` post here through pg_net, the latter once it has
+ * checked the signed-in sender may notify the recipient. The text is worded
+ * here from the event's template and data, never taken from the caller. The
+ * recipient's preferences are checked again: a channel they have turned off,
+ * or an event they muted, is refused.
+ *
+ * SMS goes through Twilio (`TWILIO_ACCOUNT_SID`, `TWILIO_AUTH_TOKEN`,
+ * `TWILIO_FROM_NUMBER`) and email through Resend (`RESEND_API_KEY`,
+ * `NOTIFICATION_EMAIL_FROM`). Push has no provider yet and is refused.
+ */
+import { createClient } from 'npm:@supabase/supabase-js@2';
+import {
+  isNotificationEvent,
+  renderNotification,
+  type NotificationEvent,
+  type RenderedNotification,
+} from '../_shared/notificationTemplates.ts';
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+const serviceRoleKey = Deno.env.get('SUPABASE_SERVICE_ROLE_KEY')!;
+const supabase = createClient(Deno.env.get('SUPABASE_URL')!, serviceRoleKey);
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'authorization, x-client-info, apikey, content-type',
+  'Access-Control-Allow-Methods': 'POST, OPTIONS',
+};
+
+const json = (body: unknown, status = 200) =>
+  new Response(JSON.stringify(body), {
+    status,
+    headers: { ...CORS_HEADERS, 'Content-Type': 'application/json' },
+  });
+
+interface NotificationRequest {
+  userId: string;
+  channel: 'sms' | 'email';
+  event: NotificationEvent;
+  content: RenderedNotification;
+}
+
+function parseRequest(body: unknown): NotificationRequest | string {
+  if (!body || typeof body !== 'object') return 'Expected a JSON body';
+  const { userId, channel, event, data } = body as Record<string, unknown>;
+
+  if (typeof userId !== 'string' || !UUID_PATTERN.test(userId)) return 'Invalid userId';
+  if (channel === 'push') return 'Push notifications are not available yet';
+  if (channel !== 'sms' && channel !== 'email') return 'Unsupported channel';
+  if (!isNotificationEvent(event)) return 'Unknown event';
+  if (!data || typeof data !== 'object' || Array.isArray(data)) return 'Missing event data';
+
+  try {
+    // The data only fills in blanks in the event's fixed wording
+    const content = renderNotification(event, data as never);
+    return { userId, channel, event, content };
+  } catch {
+    return 'Event data does not fit the template';
+  }
+}
+
+/** Only the database, through pg_net with the service role key, may send */
+function isServiceRole(req: Request) {
+  const token = req.headers.get('Authorization')?.replace(/^Bearer\s+/i, '') ?? '';
+  return token === serviceRoleKey;
+}
+
+async function sendSms(to: string, body: string) {
+  const accountSid = Deno.env.get('TWILIO_ACCOUNT_SID');
+  const authToken = Deno.env.get('TWILIO_AUTH_TOKEN');
+  const from = Deno.env.get('TWILIO_FROM_NUMBER');
+  if (!accountSid || !authToken || !from) throw new Error('SMS is not configured');
+
+  const response = await fetch(
+    `https://api.twilio.com/2010-04-01/Accounts/${accountSid}/Messages.json`,
+    {
+      method: 'POST',
+      headers: {
+        Authorization: `Basic ${btoa(`${accountSid}:${authToken}`)}`,
+        'Content-Type': 'application/x-www-form-urlencoded',
+      },
+      body: new URLSearchParams({ To: to, From: from, Body: body }),
+    }
+  );
+
+  if (!response.ok) throw new Error(`Twilio answered ${response.status}`);
+}
+
+async function sendEmail(to: string, subject: string, text: string) {
+  const apiKey = Deno.env.get('RESEND_API_KEY');
+  const from = Deno.env.get('NOTIFICATION_EMAIL_FROM');
+  if (!apiKey || !from) throw new Error('Email is not configured');
+
+  const response = await fetch('https://api.resend.com/emails', {
+    method: 'POST',
+    headers: {
+      Authorization: `Bearer ${apiKey}`,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify({ from, to, subject, text }),
+  });
+
+  if (!response.ok) throw new Error(`Resend answered ${response.status}`);
+}
+
+Deno.serve(async (req) => {
+  if (req.method === 'OPTIONS') {
+    return new Response(null, { headers: CORS_HEADERS });
+  }
+  if (req.method !== 'POST') {
+    return json({ error: 'Method not allowed' }, 405);
+  }
+
+  if (!isServiceRole(req)) {
+    return json({ error: 'Only the service role may send notifications' }, 403);
+  }
+
+  const request = parseRequest(await req.json().catch(() => null));
+  if (typeof request === 'string') {
+    return json({ error: request }, 400);
+  }
+
+  try {
+    const { data: preferences, error } = await supabase
+      .from('notification_preferences')
+      .select('sms_enabled, email_enabled, phone, email, muted_events')
+      .eq('user_id', request.userId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const to = request.channel === 'sms' ? preferences?.phone : preferences?.email;
+    const enabled =
+      request.channel === 'sms' ? preferences?.sms_enabled : preferences?.email_enabled;
+
+    if (!to || !enabled || preferences?.muted_events?.includes(request.event)) {
+      return json({ error: `The recipient does not accept ${request.channel} for this event` }, 409);
+    }
+
+    if (request.channel === 'sms') {
+      await sendSms(to, request.content.sms);
+    } else {
+      await sendEmail(to, request.content.emailSubject, request.content.message);
+    }
+
+    return json({ sent: true });
+  } catch (error) {
+    console.error(`Error sending ${request.channel} notification:`, error);
+    return json({ error: 'Notification could not be sent' }, 502);
+  }
+});
@@ -0,0 +1,210 @@
+/*
+  # Per-unit blood inventory ledger
+
+  1. New Tables
+    - `blood_units`: one row per physical bag held by a blood bank
+    - `blood_unit_events`: append-only audit trail of every unit change
+
+  2. Changes
+    - `blood_inventory.units_available` is now derived from `blood_units`
+      by trigger and should no longer be written directly
+    - `issue_blood_units` picks and issues specific bags for a request
+
+  3. Security
+    - Blood banks manage their own units and can read their own events
+*/
+
+CREATE TABLE IF NOT EXISTS blood_units (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  blood_bank_id uuid NOT NULL REFERENCES blood_banks(id) ON DELETE CASCADE,
+  bag_id text NOT NULL,
+  blood_type text NOT NULL CHECK (blood_type IN ('A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-')),
+  component_type text NOT NULL DEFAULT 'whole_blood',
+  collection_date date NOT NULL,
+  expiry_date date NOT NULL,
+  status text NOT NULL DEFAULT 'available'
+    CHECK (status IN ('available', 'reserved', 'issued', 'discarded')),
+  source_donation_id uuid REFERENCES blood_donations(id) ON DELETE SET NULL,
+  request_id uuid REFERENCES blood_bank_requests(id) ON DELETE SET NULL,
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (blood_bank_id, bag_id),
+  CHECK (expiry_date > collection_date)
+);
+
+CREATE INDEX IF NOT EXISTS blood_units_stock_idx
+  ON blood_units (blood_bank_id, blood_type, status, expiry_date);
+
+CREATE TABLE IF NOT EXISTS blood_unit_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  unit_id uuid NOT NULL REFERENCES blood_units(id) ON DELETE CASCADE,
+  blood_bank_id uuid NOT NULL REFERENCES blood_banks(id) ON DELETE CASCADE,
+  event_type text NOT NULL,
+  from_status text,
+  to_status text NOT NULL,
+  request_id uuid,
+  notes text,
+  performed_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS blood_unit_events_bank_idx
+  ON blood_unit_events (blood_bank_id, created_at DESC);
+
+ALTER TABLE blood_units ENABLE ROW LEVEL SECURITY;
+ALTER TABLE blood_unit_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Blood banks manage their units"
+  ON blood_units FOR ALL TO authenticated
+  USING (blood_bank_id IN (SELECT id FROM blood_banks WHERE user_id = auth.uid()))
+  WITH CHECK (blood_bank_id IN (SELECT id FROM blood_banks WHERE user_id = auth.uid()));
+
+CREATE POLICY "Blood banks read their unit events"
+  ON blood_unit_events FOR SELECT TO authenticated
+  USING (blood_bank_id IN (SELECT id FROM blood_banks WHERE user_id = auth.uid()));
+
+-- Record every insert and status change in the audit trail
+CREATE OR REPLACE FUNCTION log_blood_unit_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO blood_unit_events (unit_id, blood_bank_id, event_type, to_status, request_id, notes)
+    VALUES (NEW.id, NEW.blood_bank_id, 'received', NEW.status, NEW.request_id, NEW.notes);
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    INSERT INTO blood_unit_events (unit_id, blood_bank_id, event_type, from_status, to_status, request_id, notes)
+    VALUES (
+      NEW.id, NEW.blood_bank_id, NEW.status, OLD.status, NEW.status, NEW.request_id,
+      CASE WHEN NEW.notes IS DISTINCT FROM OLD.notes THEN NEW.notes END
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER blood_units_audit
+  AFTER INSERT OR UPDATE ON blood_units
+  FOR EACH ROW EXECUTE FUNCTION log_blood_unit_event();
+
+-- Keep blood_inventory.units_available equal to the count of usable bags
+CREATE OR REPLACE FUNCTION refresh_blood_inventory(p_blood_bank_id uuid, p_blood_type text)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_units integer;
+BEGIN
+  SELECT count(*) INTO v_units
+  FROM blood_units
+  WHERE blood_bank_id = p_blood_bank_id
+    AND blood_type = p_blood_type
+    AND status = 'available'
+    AND expiry_date >= current_date;
+
+  INSERT INTO blood_inventory (blood_bank_id, blood_type, units_available, last_updated)
+  VALUES (p_blood_bank_id, p_blood_type, v_units, now())
+  ON CONFLICT (blood_bank_id, blood_type)
+  DO UPDATE SET units_available = EXCLUDED.units_available, last_updated = now();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_blood_inventory()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM refresh_blood_inventory(OLD.blood_bank_id, OLD.blood_type);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM refresh_blood_inventory(NEW.blood_bank_id, NEW.blood_type);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER blood_units_sync_inventory
+  AFTER INSERT OR UPDATE OR DELETE ON blood_units
+  FOR EACH ROW EXECUTE FUNCTION sync_blood_inventory();
+
+-- Issue specific bags to a blood bank request, soonest expiry first
+CREATE OR REPLACE FUNCTION issue_blood_units(
+  p_request_id uuid,
+  p_blood_bank_id uuid,
+  p_units integer
+)
+RETURNS TABLE (
+  id uuid,
+  bag_id text,
+  blood_type text,
+  component_type text,
+  collection_date date,
+  expiry_date date
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_blood_type text;
+  v_unit_ids uuid[];
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM blood_banks b
+    WHERE b.id = p_blood_bank_id AND b.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to issue units for this blood bank';
+  END IF;
+
+  SELECT r.blood_type INTO v_blood_type
+  FROM blood_bank_requests r
+  WHERE r.id = p_request_id
+    AND (
+      r.blood_bank_id = p_blood_bank_id
+      OR EXISTS (
+        SELECT 1 FROM blood_bank_notifications n
+        WHERE n.request_id = r.id AND n.blood_bank_id = p_blood_bank_id
+      )
+    );
+
+  -- Only a blood bank the request was sent to may issue units for it
+  IF v_blood_type IS NULL THEN
+    RAISE EXCEPTION 'Blood bank request % not found for this blood bank', p_request_id;
+  END IF;
+
+  SELECT array_agg(u.id) INTO v_unit_ids
+  FROM (
+    SELECT bu.id
+    FROM blood_units bu
+    WHERE bu.blood_bank_id = p_blood_bank_id
+      AND bu.blood_type = v_blood_type
+      AND bu.status = 'available'
+      AND bu.expiry_date >= current_date
+    ORDER BY bu.expiry_date, bu.collection_date
+    LIMIT p_units
+    FOR UPDATE SKIP LOCKED
+  ) u;
+
+  IF coalesce(array_length(v_unit_ids, 1), 0) < p_units THEN
+    RAISE EXCEPTION 'Insufficient blood units available';
+  END IF;
+
+  RETURN QUERY
+  UPDATE blood_units bu
+  SET status = 'issued',
+      request_id = p_request_id,
+      updated_at = now()
+  WHERE bu.id = ANY (v_unit_ids)
+  RETURNING bu.id, bu.bag_id, bu.blood_type, bu.component_type, bu.collection_date, bu.expiry_date;
+END;
+$$;
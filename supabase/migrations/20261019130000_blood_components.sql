@@ -0,0 +1,157 @@
+/*
+  # Blood component support
+
+  1. Changes
+    - `component_type` on `emergency_requests` and `blood_bank_requests`
+      (whole_blood, packed_red_cells, platelets, plasma)
+    - `blood_inventory` levels are kept per blood type and component
+    - `issue_blood_units` only issues bags of the requested component
+*/
+
+ALTER TABLE emergency_requests
+  ADD COLUMN IF NOT EXISTS component_type text NOT NULL DEFAULT 'whole_blood'
+  CHECK (component_type IN ('whole_blood', 'packed_red_cells', 'platelets', 'plasma'));
+
+ALTER TABLE blood_bank_requests
+  ADD COLUMN IF NOT EXISTS component_type text NOT NULL DEFAULT 'whole_blood'
+  CHECK (component_type IN ('whole_blood', 'packed_red_cells', 'platelets', 'plasma'));
+
+ALTER TABLE blood_units
+  ADD CONSTRAINT blood_units_component_type_check
+  CHECK (component_type IN ('whole_blood', 'packed_red_cells', 'platelets', 'plasma'));
+
+ALTER TABLE blood_inventory
+  ADD COLUMN IF NOT EXISTS component_type text NOT NULL DEFAULT 'whole_blood'
+  CHECK (component_type IN ('whole_blood', 'packed_red_cells', 'platelets', 'plasma'));
+
+ALTER TABLE blood_inventory
+  DROP CONSTRAINT IF EXISTS blood_inventory_blood_bank_id_blood_type_key;
+
+ALTER TABLE blood_inventory
+  ADD CONSTRAINT blood_inventory_bank_type_component_key
+  UNIQUE (blood_bank_id, blood_type, component_type);
+
+DROP FUNCTION IF EXISTS refresh_blood_inventory(uuid, text);
+
+CREATE OR REPLACE FUNCTION refresh_blood_inventory(
+  p_blood_bank_id uuid,
+  p_blood_type text,
+  p_component_type text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_units integer;
+BEGIN
+  SELECT count(*) INTO v_units
+  FROM blood_units
+  WHERE blood_bank_id = p_blood_bank_id
+    AND blood_type = p_blood_type
+    AND component_type = p_component_type
+    AND status = 'available'
+    AND expiry_date >= current_date;
+
+  INSERT INTO blood_inventory (blood_bank_id, blood_type, component_type, units_available, last_updated)
+  VALUES (p_blood_bank_id, p_blood_type, p_component_type, v_units, now())
+  ON CONFLICT (blood_bank_id, blood_type, component_type)
+  DO UPDATE SET units_available = EXCLUDED.units_available, last_updated = now();
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_blood_inventory()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM refresh_blood_inventory(OLD.blood_bank_id, OLD.blood_type, OLD.component_type);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM refresh_blood_inventory(NEW.blood_bank_id, NEW.blood_type, NEW.component_type);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Rebuild levels for component stock already in the ledger
+SELECT refresh_blood_inventory(blood_bank_id, blood_type, component_type)
+FROM (SELECT DISTINCT blood_bank_id, blood_type, component_type FROM blood_units) units;
+
+CREATE OR REPLACE FUNCTION issue_blood_units(
+  p_request_id uuid,
+  p_blood_bank_id uuid,
+  p_units integer
+)
+RETURNS TABLE (
+  id uuid,
+  bag_id text,
+  blood_type text,
+  component_type text,
+  collection_date date,
+  expiry_date date
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_blood_type text;
+  v_component_type text;
+  v_unit_ids uuid[];
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM blood_banks b
+    WHERE b.id = p_blood_bank_id AND b.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to issue units for this blood bank';
+  END IF;
+
+  SELECT r.blood_type, r.component_type INTO v_blood_type, v_component_type
+  FROM blood_bank_requests r
+  WHERE r.id = p_request_id
+    AND (
+      r.blood_bank_id = p_blood_bank_id
+      OR EXISTS (
+        SELECT 1 FROM blood_bank_notifications n
+        WHERE n.request_id = r.id AND n.blood_bank_id = p_blood_bank_id
+      )
+    );
+
+  -- Only a blood bank the request was sent to may issue units for it
+  IF v_blood_type IS NULL THEN
+    RAISE EXCEPTION 'Blood bank request % not found for this blood bank', p_request_id;
+  END IF;
+
+  SELECT array_agg(u.id) INTO v_unit_ids
+  FROM (
+    SELECT bu.id
+    FROM blood_units bu
+    WHERE bu.blood_bank_id = p_blood_bank_id
+      AND bu.blood_type = v_blood_type
+      AND bu.component_type = v_component_type
+      AND bu.status = 'available'
+      AND bu.expiry_date >= current_date
+    ORDER BY bu.expiry_date, bu.collection_date
+    LIMIT p_units
+    FOR UPDATE SKIP LOCKED
+  ) u;
+
+  IF coalesce(array_length(v_unit_ids, 1), 0) < p_units THEN
+    RAISE EXCEPTION 'Insufficient blood units available';
+  END IF;
+
+  RETURN QUERY
+  UPDATE blood_units bu
+  SET status = 'issued',
+      request_id = p_request_id,
+      updated_at = now()
+  WHERE bu.id = ANY (v_unit_ids)
+  RETURNING bu.id, bu.bag_id, bu.blood_type, bu.component_type, bu.collection_date, bu.expiry_date;
+END;
+$$;
@@ -0,0 +1,230 @@
+/*
+  # Expiry alerts and oldest-first allocation
+
+  1. Changes
+    - `blood_bank_notifications` can now carry expiry alerts for a single
+      unit (`type = 'expiry_alert'`, `unit_id`, `message`) besides request
+      notifications
+    - `notify_expiring_blood_units` raises one alert per unit that is within
+      N days of expiry; it runs daily when pg_cron is available and the
+      dashboard calls it for its own blood bank on load; anonymous callers
+      may not run it
+    - Alerts resolve themselves once the unit leaves available stock
+    - `issue_blood_units` now issues the oldest compatible units first,
+      using units of the requested blood type before other compatible types
+*/
+
+ALTER TABLE blood_bank_notifications
+  ADD COLUMN IF NOT EXISTS type text NOT NULL DEFAULT 'request'
+  CHECK (type IN ('request', 'expiry_alert'));
+
+ALTER TABLE blood_bank_notifications
+  ADD COLUMN IF NOT EXISTS unit_id uuid REFERENCES blood_units(id) ON DELETE CASCADE;
+
+ALTER TABLE blood_bank_notifications
+  ADD COLUMN IF NOT EXISTS message text;
+
+ALTER TABLE blood_bank_notifications
+  ALTER COLUMN request_id DROP NOT NULL;
+
+ALTER TABLE blood_bank_notifications
+  ADD CONSTRAINT blood_bank_notifications_subject_check
+  CHECK (
+    (type = 'request' AND request_id IS NOT NULL)
+    OR (type = 'expiry_alert' AND unit_id IS NOT NULL)
+  );
+
+CREATE UNIQUE INDEX IF NOT EXISTS blood_bank_notifications_expiry_unit_idx
+  ON blood_bank_notifications (unit_id)
+  WHERE type = 'expiry_alert';
+
+-- Donor blood types a recipient can receive for a component (mirrors
+-- getCompatibleBloodTypes in src/lib/validation.ts)
+CREATE OR REPLACE FUNCTION compatible_donor_blood_types(
+  p_recipient_type text,
+  p_component_type text
+)
+RETURNS text[]
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN p_component_type = 'plasma' THEN
+      CASE regexp_replace(p_recipient_type, '[+-]$', '')
+        WHEN 'O' THEN ARRAY['O+', 'O-', 'A+', 'A-', 'B+', 'B-', 'AB+', 'AB-']
+        WHEN 'A' THEN ARRAY['A+', 'A-', 'AB+', 'AB-']
+        WHEN 'B' THEN ARRAY['B+', 'B-', 'AB+', 'AB-']
+        WHEN 'AB' THEN ARRAY['AB+', 'AB-']
+        ELSE ARRAY[]::text[]
+      END
+    ELSE
+      CASE p_recipient_type
+        WHEN 'A+' THEN ARRAY['A+', 'A-', 'O+', 'O-']
+        WHEN 'A-' THEN ARRAY['A-', 'O-']
+        WHEN 'B+' THEN ARRAY['B+', 'B-', 'O+', 'O-']
+        WHEN 'B-' THEN ARRAY['B-', 'O-']
+        WHEN 'AB+' THEN ARRAY['A+', 'A-', 'B+', 'B-', 'AB+', 'AB-', 'O+', 'O-']
+        WHEN 'AB-' THEN ARRAY['A-', 'B-', 'AB-', 'O-']
+        WHEN 'O+' THEN ARRAY['O+', 'O-']
+        WHEN 'O-' THEN ARRAY['O-']
+        ELSE ARRAY[]::text[]
+      END
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION notify_expiring_blood_units(
+  p_days integer DEFAULT 3,
+  p_blood_bank_id uuid DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_created integer;
+BEGIN
+  -- Signed-in users may only raise alerts for their own blood bank; the
+  -- scheduled job and the service role run without a user and cover every
+  -- bank. Anonymous callers cannot execute this function at all.
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM blood_banks b
+    WHERE b.id = p_blood_bank_id AND b.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to check expiry for this blood bank';
+  END IF;
+
+  INSERT INTO blood_bank_notifications (blood_bank_id, type, unit_id, message, status)
+  SELECT
+    bu.blood_bank_id,
+    'expiry_alert',
+    bu.id,
+    format(
+      'Bag %s (%s %s) expires on %s',
+      bu.bag_id, bu.blood_type, replace(bu.component_type, '_', ' '), bu.expiry_date
+    ),
+    'pending'
+  FROM blood_units bu
+  WHERE bu.status = 'available'
+    AND bu.expiry_date <= current_date + p_days
+    AND (p_blood_bank_id IS NULL OR bu.blood_bank_id = p_blood_bank_id)
+  ON CONFLICT (unit_id) WHERE type = 'expiry_alert' DO NOTHING;
+
+  GET DIAGNOSTICS v_created = ROW_COUNT;
+  RETURN v_created;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION notify_expiring_blood_units(integer, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION notify_expiring_blood_units(integer, uuid) TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION resolve_blood_unit_expiry_alert()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NEW.status <> 'available' AND OLD.status = 'available' THEN
+    UPDATE blood_bank_notifications
+    SET status = 'resolved', updated_at = now()
+    WHERE unit_id = NEW.id
+      AND type = 'expiry_alert'
+      AND status = 'pending';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER blood_units_resolve_expiry_alert
+  AFTER UPDATE OF status ON blood_units
+  FOR EACH ROW EXECUTE FUNCTION resolve_blood_unit_expiry_alert();
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'notify-expiring-blood-units',
+      '0 6 * * *',
+      'SELECT notify_expiring_blood_units()'
+    );
+  END IF;
+END;
+$$;
+
+-- Issue the oldest compatible bags first so stock is used before it expires,
+-- taking bags of the requested type before other compatible types so
+-- universal donor stock (O- red cells, AB plasma) is kept for those who need it
+CREATE OR REPLACE FUNCTION issue_blood_units(
+  p_request_id uuid,
+  p_blood_bank_id uuid,
+  p_units integer
+)
+RETURNS TABLE (
+  id uuid,
+  bag_id text,
+  blood_type text,
+  component_type text,
+  collection_date date,
+  expiry_date date
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_blood_type text;
+  v_component_type text;
+  v_unit_ids uuid[];
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM blood_banks b
+    WHERE b.id = p_blood_bank_id AND b.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to issue units for this blood bank';
+  END IF;
+
+  SELECT r.blood_type, r.component_type INTO v_blood_type, v_component_type
+  FROM blood_bank_requests r
+  WHERE r.id = p_request_id
+    AND (
+      r.blood_bank_id = p_blood_bank_id
+      OR EXISTS (
+        SELECT 1 FROM blood_bank_notifications n
+        WHERE n.request_id = r.id AND n.blood_bank_id = p_blood_bank_id
+      )
+    );
+
+  -- Only a blood bank the request was sent to may issue units for it
+  IF v_blood_type IS NULL THEN
+    RAISE EXCEPTION 'Blood bank request % not found for this blood bank', p_request_id;
+  END IF;
+
+  SELECT array_agg(u.id) INTO v_unit_ids
+  FROM (
+    SELECT bu.id
+    FROM blood_units bu
+    WHERE bu.blood_bank_id = p_blood_bank_id
+      AND bu.blood_type = ANY (compatible_donor_blood_types(v_blood_type, v_component_type))
+      AND bu.component_type = v_component_type
+      AND bu.status = 'available'
+      AND bu.expiry_date >= current_date
+    ORDER BY (bu.blood_type = v_blood_type) DESC, bu.collection_date, bu.expiry_date, bu.bag_id
+    LIMIT p_units
+    FOR UPDATE SKIP LOCKED
+  ) u;
+
+  IF coalesce(array_length(v_unit_ids, 1), 0) < p_units THEN
+    RAISE EXCEPTION 'Insufficient blood units available';
+  END IF;
+
+  RETURN QUERY
+  UPDATE blood_units bu
+  SET status = 'issued',
+      request_id = p_request_id,
+      updated_at = now()
+  WHERE bu.id = ANY (v_unit_ids)
+  RETURNING bu.id, bu.bag_id, bu.blood_type, bu.component_type, bu.collection_date, bu.expiry_date;
+END;
+$$;
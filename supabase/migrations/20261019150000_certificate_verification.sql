@@ -0,0 +1,46 @@
+/*
+  # Public certificate verification
+
+  1. Changes
+    - `verify_donation_certificate` looks a certificate up by its number and
+      returns what is printed on it, so anyone holding the certificate (an
+      employer, a college) can check it without signing in
+    - Only the donor's first name and last initial are returned
+    - Certificate numbers are unique
+*/
+
+CREATE UNIQUE INDEX IF NOT EXISTS donation_certificates_certificate_number_idx
+  ON donation_certificates (certificate_number);
+
+CREATE OR REPLACE FUNCTION verify_donation_certificate(p_certificate_number text)
+RETURNS TABLE (
+  certificate_number text,
+  issued_at timestamptz,
+  donor_name text,
+  blood_type text,
+  units_donated integer,
+  donation_date timestamptz,
+  hospital_name text,
+  verification_status text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    dc.certificate_number,
+    dc.issued_at,
+    trim(d.first_name || ' ' || coalesce(upper(left(nullif(trim(d.last_name), ''), 1)) || '.', '')),
+    coalesce(bd.blood_type, d.blood_type),
+    bd.units_donated,
+    bd.donation_date,
+    bd.hospital_name,
+    bd.verification_status
+  FROM donation_certificates dc
+  JOIN blood_donations bd ON bd.id = dc.donation_id
+  JOIN donors d ON d.id = bd.donor_id
+  WHERE dc.certificate_number = p_certificate_number;
+$$;
+
+GRANT EXECUTE ON FUNCTION verify_donation_certificate(text) TO anon, authenticated;
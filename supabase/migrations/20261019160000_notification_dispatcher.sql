@@ -0,0 +1,102 @@
+/*
+  # Notification preferences and delivery log
+
+  1. New Tables
+    - `notification_preferences`: one row per user with the channels they
+      accept (in-app, SMS, email, push), muted event types, quiet hours and
+      the contact details external channels are sent to
+    - `notification_deliveries`: one row per channel a notification event
+      was routed to, with its status (`sent`, `failed`, `skipped`) and why
+
+  2. Functions
+    - `get_notification_channels` lets the sender of a notification read the
+      recipient's routing settings without exposing their contact details
+
+  3. Security
+    - Users manage their own preferences and can read their own deliveries
+*/
+
+CREATE TABLE IF NOT EXISTS notification_preferences (
+  user_id uuid PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  in_app_enabled boolean NOT NULL DEFAULT true,
+  sms_enabled boolean NOT NULL DEFAULT false,
+  email_enabled boolean NOT NULL DEFAULT false,
+  push_enabled boolean NOT NULL DEFAULT false,
+  phone text,
+  email text,
+  push_token text,
+  muted_events text[] NOT NULL DEFAULT '{}',
+  quiet_hours_start time,
+  quiet_hours_end time,
+  timezone text NOT NULL DEFAULT 'Asia/Kolkata',
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE notification_preferences ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can manage their notification preferences"
+  ON notification_preferences FOR ALL
+  TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_id uuid REFERENCES notifications(id) ON DELETE SET NULL,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  event_type text NOT NULL,
+  channel text NOT NULL CHECK (channel IN ('in_app', 'sms', 'email', 'push')),
+  status text NOT NULL CHECK (status IN ('sent', 'failed', 'skipped')),
+  reason text,
+  created_by uuid REFERENCES auth.users(id) DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS notification_deliveries_user_idx
+  ON notification_deliveries (user_id, created_at DESC);
+
+ALTER TABLE notification_deliveries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can read their notification deliveries"
+  ON notification_deliveries FOR SELECT
+  TO authenticated
+  USING (user_id = auth.uid() OR created_by = auth.uid());
+
+CREATE POLICY "Senders can record notification deliveries"
+  ON notification_deliveries FOR INSERT
+  TO authenticated
+  WITH CHECK (created_by = auth.uid());
+
+-- Routing settings only; phone, email and push token stay server-side and
+-- are resolved by the send-notification function
+CREATE OR REPLACE FUNCTION get_notification_channels(p_user_id uuid)
+RETURNS TABLE (
+  in_app_enabled boolean,
+  sms_enabled boolean,
+  email_enabled boolean,
+  push_enabled boolean,
+  muted_events text[],
+  quiet_hours_start time,
+  quiet_hours_end time,
+  timezone text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT
+    np.in_app_enabled,
+    np.sms_enabled AND np.phone IS NOT NULL,
+    np.email_enabled AND np.email IS NOT NULL,
+    np.push_enabled AND np.push_token IS NOT NULL,
+    np.muted_events,
+    np.quiet_hours_start,
+    np.quiet_hours_end,
+    np.timezone
+  FROM notification_preferences np
+  WHERE np.user_id = p_user_id;
+$$;
+
+GRANT EXECUTE ON FUNCTION get_notification_channels(uuid) TO authenticated;
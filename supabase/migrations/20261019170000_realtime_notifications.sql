@@ -0,0 +1,34 @@
+/*
+  # Realtime publication for notifications
+
+  1. Changes
+    - Publish `notifications`, `emergency_requests` and
+      `blood_bank_notifications` over Supabase Realtime so the notification
+      bell and dashboards receive changes as they happen
+    - `emergency_requests` uses full replica identity so updates carry the
+      previous status, which the dashboard uses to announce status changes
+
+  2. Security
+    - Realtime applies the existing row level security policies, so users
+      only receive changes to rows they can already select
+*/
+
+DO $$
+DECLARE
+  table_name text;
+BEGIN
+  FOREACH table_name IN ARRAY ARRAY['notifications', 'emergency_requests', 'blood_bank_notifications']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1
+      FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = table_name
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', table_name);
+    END IF;
+  END LOOP;
+END $$;
+
+ALTER TABLE emergency_requests REPLICA IDENTITY FULL;
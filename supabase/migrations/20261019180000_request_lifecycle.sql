@@ -0,0 +1,253 @@
+/*
+  # Request lifecycle
+
+  1. New Tables
+    - `request_status_transitions`: the allowed status changes for emergency
+      and blood bank requests and who may perform each of them
+    - `request_status_events`: status history of every request, used for
+      the timeline on request cards
+
+  2. Changes
+    - Legacy emergency statuses are normalised (`urgent` is `pending`,
+      `completed` is `fulfilled`) and both request tables only accept the
+      statuses of their lifecycle
+    - Status changes outside the allowed transitions are rejected, and every
+      change is written to `request_status_events`
+    - `transition_request_status` checks the caller may act as the given
+      actor before changing the status
+
+  3. Security
+    - Status history is readable by anyone who can read the request
+*/
+
+CREATE TABLE IF NOT EXISTS request_status_transitions (
+  request_kind text NOT NULL CHECK (request_kind IN ('emergency', 'blood_bank')),
+  from_status text NOT NULL,
+  to_status text NOT NULL,
+  actor text NOT NULL CHECK (actor IN ('requester', 'donor', 'blood_bank', 'system')),
+  PRIMARY KEY (request_kind, from_status, to_status, actor)
+);
+
+-- Mirrors REQUEST_TRANSITIONS in src/lib/requestLifecycle.ts
+INSERT INTO request_status_transitions (request_kind, from_status, to_status, actor) VALUES
+  ('emergency', 'pending', 'in_progress', 'requester'),
+  ('emergency', 'pending', 'in_progress', 'donor'),
+  ('emergency', 'in_progress', 'pending', 'requester'),
+  ('emergency', 'in_progress', 'fulfilled', 'requester'),
+  ('emergency', 'pending', 'cancelled', 'requester'),
+  ('emergency', 'in_progress', 'cancelled', 'requester'),
+  ('emergency', 'pending', 'expired', 'system'),
+  ('blood_bank', 'pending', 'accepted', 'blood_bank'),
+  ('blood_bank', 'pending', 'rejected', 'blood_bank'),
+  ('blood_bank', 'rejected', 'pending', 'requester'),
+  ('blood_bank', 'accepted', 'completed', 'requester'),
+  ('blood_bank', 'accepted', 'completed', 'blood_bank'),
+  ('blood_bank', 'pending', 'cancelled', 'requester'),
+  ('blood_bank', 'accepted', 'cancelled', 'requester')
+ON CONFLICT DO NOTHING;
+
+CREATE TABLE IF NOT EXISTS request_status_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_kind text NOT NULL CHECK (request_kind IN ('emergency', 'blood_bank')),
+  request_id uuid NOT NULL,
+  from_status text,
+  to_status text NOT NULL,
+  actor text NOT NULL,
+  note text,
+  changed_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS request_status_events_request_idx
+  ON request_status_events (request_kind, request_id, created_at);
+
+ALTER TABLE request_status_transitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE request_status_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can read request transitions"
+  ON request_status_transitions FOR SELECT TO authenticated
+  USING (true);
+
+CREATE POLICY "Users read the history of requests they can see"
+  ON request_status_events FOR SELECT TO authenticated
+  USING (
+    (request_kind = 'emergency'
+      AND EXISTS (SELECT 1 FROM emergency_requests r WHERE r.id = request_id))
+    OR (request_kind = 'blood_bank'
+      AND EXISTS (SELECT 1 FROM blood_bank_requests r WHERE r.id = request_id))
+  );
+
+-- Normalise legacy statuses before constraining them
+UPDATE emergency_requests SET status = 'pending' WHERE status = 'urgent';
+UPDATE emergency_requests SET status = 'fulfilled' WHERE status = 'completed';
+
+ALTER TABLE emergency_requests
+  ADD CONSTRAINT emergency_requests_status_check
+  CHECK (status IN ('pending', 'in_progress', 'fulfilled', 'cancelled', 'expired'));
+
+ALTER TABLE blood_bank_requests
+  ADD CONSTRAINT blood_bank_requests_status_check
+  CHECK (status IN ('pending', 'accepted', 'rejected', 'completed', 'cancelled'));
+
+-- Seed the history of existing requests from what is known about them
+INSERT INTO request_status_events (request_kind, request_id, to_status, actor, changed_by, created_at)
+SELECT 'emergency', r.id, 'pending', 'requester', r.user_id, r.created_at
+FROM emergency_requests r;
+
+INSERT INTO request_status_events (request_kind, request_id, from_status, to_status, actor, changed_by, created_at)
+SELECT 'emergency', r.id, 'pending', r.status, 'unknown', NULL,
+  coalesce(r.fulfilled_at, r.updated_at, r.created_at)
+FROM emergency_requests r
+WHERE r.status <> 'pending';
+
+INSERT INTO request_status_events (request_kind, request_id, to_status, actor, changed_by, created_at)
+SELECT 'blood_bank', r.id, 'pending', 'requester', r.user_id, r.created_at
+FROM blood_bank_requests r;
+
+INSERT INTO request_status_events (request_kind, request_id, from_status, to_status, actor, changed_by, created_at)
+SELECT 'blood_bank', r.id, 'pending', r.status, 'unknown', NULL, coalesce(r.updated_at, r.created_at)
+FROM blood_bank_requests r
+WHERE r.status <> 'pending';
+
+-- Reject status changes outside the lifecycle and record the ones allowed.
+-- The actor and note are set by transition_request_status; other updates
+-- are recorded with an unknown actor.
+CREATE OR REPLACE FUNCTION log_request_status_event()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_kind text := CASE TG_TABLE_NAME WHEN 'emergency_requests' THEN 'emergency' ELSE 'blood_bank' END;
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    INSERT INTO request_status_events (request_kind, request_id, to_status, actor)
+    VALUES (v_kind, NEW.id, NEW.status, 'requester');
+  ELSIF NEW.status IS DISTINCT FROM OLD.status THEN
+    IF NOT EXISTS (
+      SELECT 1 FROM request_status_transitions t
+      WHERE t.request_kind = v_kind
+        AND t.from_status = OLD.status
+        AND t.to_status = NEW.status
+    ) THEN
+      RAISE EXCEPTION 'Request cannot move from % to %', OLD.status, NEW.status;
+    END IF;
+
+    INSERT INTO request_status_events (request_kind, request_id, from_status, to_status, actor, note)
+    VALUES (
+      v_kind, NEW.id, OLD.status, NEW.status,
+      coalesce(nullif(current_setting('app.request_actor', true), ''), 'unknown'),
+      nullif(current_setting('app.request_note', true), '')
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER emergency_requests_status_history
+  AFTER INSERT OR UPDATE OF status ON emergency_requests
+  FOR EACH ROW EXECUTE FUNCTION log_request_status_event();
+
+CREATE TRIGGER blood_bank_requests_status_history
+  AFTER INSERT OR UPDATE OF status ON blood_bank_requests
+  FOR EACH ROW EXECUTE FUNCTION log_request_status_event();
+
+-- Move a request to a new status on behalf of an actor the caller can act as
+CREATE OR REPLACE FUNCTION transition_request_status(
+  p_request_kind text,
+  p_request_id uuid,
+  p_to_status text,
+  p_actor text,
+  p_note text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_status text;
+  v_blood_bank_id uuid;
+  v_allowed boolean;
+BEGIN
+  IF p_request_kind = 'emergency' THEN
+    SELECT r.user_id, r.status INTO v_user_id, v_status
+    FROM emergency_requests r
+    WHERE r.id = p_request_id
+    FOR UPDATE;
+  ELSIF p_request_kind = 'blood_bank' THEN
+    SELECT r.user_id, r.status, r.blood_bank_id INTO v_user_id, v_status, v_blood_bank_id
+    FROM blood_bank_requests r
+    WHERE r.id = p_request_id
+    FOR UPDATE;
+  ELSE
+    RAISE EXCEPTION 'Unknown request kind %', p_request_kind;
+  END IF;
+
+  IF v_status IS NULL THEN
+    RAISE EXCEPTION 'Request % not found', p_request_id;
+  END IF;
+
+  v_allowed := CASE p_actor
+    WHEN 'requester' THEN v_user_id = auth.uid()
+    WHEN 'donor' THEN EXISTS (
+      SELECT 1
+      FROM donor_responses dr
+      JOIN donors d ON d.id = dr.donor_id
+      WHERE dr.request_id = p_request_id AND d.user_id = auth.uid()
+    )
+    WHEN 'blood_bank' THEN EXISTS (
+      SELECT 1 FROM blood_banks b
+      WHERE b.user_id = auth.uid()
+        AND (
+          b.id = v_blood_bank_id
+          OR b.id IN (
+            SELECT n.blood_bank_id FROM blood_bank_notifications n
+            WHERE n.request_id = p_request_id
+          )
+        )
+    )
+    WHEN 'system' THEN auth.uid() IS NULL
+    ELSE false
+  END;
+
+  IF NOT coalesce(v_allowed, false) THEN
+    RAISE EXCEPTION 'Not allowed to act as % on this request', p_actor;
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM request_status_transitions t
+    WHERE t.request_kind = p_request_kind
+      AND t.from_status = v_status
+      AND t.to_status = p_to_status
+      AND t.actor = p_actor
+  ) THEN
+    RAISE EXCEPTION 'The % cannot move this request from % to %', p_actor, v_status, p_to_status;
+  END IF;
+
+  PERFORM set_config('app.request_actor', p_actor, true);
+  PERFORM set_config('app.request_note', coalesce(p_note, ''), true);
+
+  IF p_request_kind = 'emergency' THEN
+    UPDATE emergency_requests
+    SET status = p_to_status,
+        fulfilled_at = CASE WHEN p_to_status = 'fulfilled' THEN now() ELSE fulfilled_at END,
+        fulfilled_by = CASE WHEN p_to_status = 'fulfilled' THEN auth.uid() ELSE fulfilled_by END,
+        updated_at = now()
+    WHERE id = p_request_id;
+  ELSE
+    UPDATE blood_bank_requests
+    SET status = p_to_status,
+        updated_at = now()
+    WHERE id = p_request_id;
+  END IF;
+
+  PERFORM set_config('app.request_actor', '', true);
+  PERFORM set_config('app.request_note', '', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION transition_request_status(text, uuid, text, text, text) TO authenticated;
@@ -0,0 +1,215 @@
+/*
+  # Partial fulfilment of emergency requests
+
+  1. New Tables
+    - `request_pledges`: units a donor or blood bank has committed to an
+      emergency request, and how many of them have been collected
+
+  2. Changes
+    - `emergency_requests.units_pledged` and `units_collected` are derived
+      from the request's pledges by trigger and should not be written directly
+    - Blood donations recorded against a request mark the donor's pledge as
+      collected, creating the pledge if the donor had none
+    - The request moves to `in_progress` once anything is pledged, back to
+      `pending` if every pledge is withdrawn, and to `fulfilled` once the
+      units collected cover the units required
+
+  3. Security
+    - Requesters manage the pledges on their requests, blood banks manage
+      their own pledges, and anyone who can read a request can read its pledges
+*/
+
+ALTER TABLE emergency_requests
+  ADD COLUMN IF NOT EXISTS units_pledged integer NOT NULL DEFAULT 0,
+  ADD COLUMN IF NOT EXISTS units_collected integer NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS request_pledges (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid NOT NULL REFERENCES emergency_requests(id) ON DELETE CASCADE,
+  donor_id uuid REFERENCES donors(id) ON DELETE CASCADE,
+  blood_bank_id uuid REFERENCES blood_banks(id) ON DELETE CASCADE,
+  donor_response_id uuid UNIQUE REFERENCES donor_responses(id) ON DELETE SET NULL,
+  units_pledged integer NOT NULL CHECK (units_pledged > 0),
+  units_collected integer NOT NULL DEFAULT 0 CHECK (units_collected >= 0),
+  status text NOT NULL DEFAULT 'pledged'
+    CHECK (status IN ('pledged', 'collected', 'withdrawn')),
+  notes text,
+  created_by uuid DEFAULT auth.uid(),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (num_nonnulls(donor_id, blood_bank_id) = 1)
+);
+
+CREATE INDEX IF NOT EXISTS request_pledges_request_idx ON request_pledges (request_id);
+CREATE UNIQUE INDEX IF NOT EXISTS request_pledges_donor_idx
+  ON request_pledges (request_id, donor_id)
+  WHERE donor_id IS NOT NULL;
+
+ALTER TABLE request_pledges ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users read pledges on requests they can see"
+  ON request_pledges FOR SELECT TO authenticated
+  USING (EXISTS (SELECT 1 FROM emergency_requests r WHERE r.id = request_id));
+
+CREATE POLICY "Requesters manage pledges on their requests"
+  ON request_pledges FOR ALL TO authenticated
+  USING (request_id IN (SELECT id FROM emergency_requests WHERE user_id = auth.uid()))
+  WITH CHECK (request_id IN (SELECT id FROM emergency_requests WHERE user_id = auth.uid()));
+
+CREATE POLICY "Blood banks manage their pledges"
+  ON request_pledges FOR ALL TO authenticated
+  USING (blood_bank_id IN (SELECT id FROM blood_banks WHERE user_id = auth.uid()))
+  WITH CHECK (blood_bank_id IN (SELECT id FROM blood_banks WHERE user_id = auth.uid()));
+
+-- Existing accepted offers count as one unit each, and existing donations
+-- as collected against them
+INSERT INTO request_pledges (request_id, donor_id, donor_response_id, units_pledged, created_by, created_at)
+SELECT dr.request_id, dr.donor_id, dr.id, 1, NULL, coalesce(dr.accepted_at, dr.created_at)
+FROM donor_responses dr
+WHERE dr.status = 'accepted'
+ON CONFLICT DO NOTHING;
+
+INSERT INTO request_pledges (request_id, donor_id, units_pledged, units_collected, status, created_by)
+SELECT d.request_id, d.donor_id, sum(d.units_donated), sum(d.units_donated), 'collected', NULL
+FROM blood_donations d
+WHERE d.request_id IS NOT NULL
+GROUP BY d.request_id, d.donor_id
+ON CONFLICT (request_id, donor_id) WHERE donor_id IS NOT NULL
+DO UPDATE SET units_collected = EXCLUDED.units_collected, status = 'collected';
+
+UPDATE emergency_requests r
+SET units_pledged = totals.pledged,
+    units_collected = totals.collected
+FROM (
+  SELECT p.request_id,
+    sum(greatest(p.units_pledged, p.units_collected)) AS pledged,
+    sum(p.units_collected) AS collected
+  FROM request_pledges p
+  WHERE p.status <> 'withdrawn'
+  GROUP BY p.request_id
+) totals
+WHERE totals.request_id = r.id;
+
+-- Transitions the fulfilment trigger makes on the request's behalf
+INSERT INTO request_status_transitions (request_kind, from_status, to_status, actor) VALUES
+  ('emergency', 'pending', 'in_progress', 'system'),
+  ('emergency', 'in_progress', 'pending', 'system'),
+  ('emergency', 'pending', 'fulfilled', 'system'),
+  ('emergency', 'in_progress', 'fulfilled', 'system')
+ON CONFLICT DO NOTHING;
+
+-- Keep the request's totals and status in line with its pledges
+CREATE OR REPLACE FUNCTION refresh_request_fulfilment(p_request_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_pledged integer;
+  v_collected integer;
+  v_required integer;
+  v_status text;
+  v_next_status text;
+BEGIN
+  SELECT
+    coalesce(sum(greatest(p.units_pledged, p.units_collected)), 0),
+    coalesce(sum(p.units_collected), 0)
+  INTO v_pledged, v_collected
+  FROM request_pledges p
+  WHERE p.request_id = p_request_id
+    AND p.status <> 'withdrawn';
+
+  SELECT r.units_required, r.status INTO v_required, v_status
+  FROM emergency_requests r
+  WHERE r.id = p_request_id
+  FOR UPDATE;
+
+  IF v_status IS NULL THEN
+    RETURN;
+  END IF;
+
+  v_next_status := CASE
+    WHEN v_status IN ('pending', 'in_progress') AND v_collected >= v_required THEN 'fulfilled'
+    WHEN v_status = 'pending' AND v_pledged > 0 THEN 'in_progress'
+    WHEN v_status = 'in_progress' AND v_pledged = 0 THEN 'pending'
+    ELSE v_status
+  END;
+
+  IF v_next_status <> v_status THEN
+    PERFORM set_config('app.request_actor', 'system', true);
+    PERFORM set_config(
+      'app.request_note',
+      format('%s of %s units collected, %s pledged', v_collected, v_required, v_pledged),
+      true
+    );
+  END IF;
+
+  UPDATE emergency_requests
+  SET units_pledged = v_pledged,
+      units_collected = v_collected,
+      status = v_next_status,
+      fulfilled_at = CASE WHEN v_next_status = 'fulfilled' AND v_status <> 'fulfilled' THEN now() ELSE fulfilled_at END,
+      updated_at = now()
+  WHERE id = p_request_id;
+
+  PERFORM set_config('app.request_actor', '', true);
+  PERFORM set_config('app.request_note', '', true);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION sync_request_fulfilment()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM refresh_request_fulfilment(OLD.request_id);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') AND (TG_OP = 'INSERT' OR NEW.request_id <> OLD.request_id) THEN
+    PERFORM refresh_request_fulfilment(NEW.request_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER request_pledges_sync_fulfilment
+  AFTER INSERT OR UPDATE OR DELETE ON request_pledges
+  FOR EACH ROW EXECUTE FUNCTION sync_request_fulfilment();
+
+-- A donation recorded against a request is what was collected from that donor
+CREATE OR REPLACE FUNCTION collect_request_pledge()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_collected integer;
+BEGIN
+  IF NEW.request_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT coalesce(sum(d.units_donated), 0) INTO v_collected
+  FROM blood_donations d
+  WHERE d.request_id = NEW.request_id
+    AND d.donor_id = NEW.donor_id;
+
+  INSERT INTO request_pledges (request_id, donor_id, units_pledged, units_collected, status)
+  VALUES (NEW.request_id, NEW.donor_id, greatest(v_collected, 1), v_collected, 'collected')
+  ON CONFLICT (request_id, donor_id) WHERE donor_id IS NOT NULL
+  DO UPDATE SET units_collected = EXCLUDED.units_collected,
+                status = 'collected',
+                updated_at = now();
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER blood_donations_collect_pledge
+  AFTER INSERT OR UPDATE OF units_donated, request_id ON blood_donations
+  FOR EACH ROW EXECUTE FUNCTION collect_request_pledge();
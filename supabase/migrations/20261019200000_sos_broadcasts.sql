@@ -0,0 +1,82 @@
+/*
+  # Escalating SOS broadcasts
+
+  1. New Tables
+    - `sos_broadcasts`: one row per panic request with where it was raised,
+      the radius alerted so far and how many acceptances it is waiting for
+    - `sos_recipients`: every donor and blood bank alerted for a broadcast,
+      with the stage and distance they were alerted at, so nobody is
+      alerted twice as the radius widens
+
+  2. Changes
+    - Publish `donor_responses` over Supabase Realtime so the requester's
+      SOS status page sees offers as they arrive
+
+  3. Security
+    - Requesters manage the broadcasts for their own requests and their
+      recipients
+*/
+
+CREATE TABLE IF NOT EXISTS sos_broadcasts (
+  request_id uuid PRIMARY KEY REFERENCES emergency_requests(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL DEFAULT auth.uid() REFERENCES auth.users(id) ON DELETE CASCADE,
+  latitude double precision NOT NULL,
+  longitude double precision NOT NULL,
+  stage integer NOT NULL DEFAULT 0 CHECK (stage >= 0),
+  radius_km numeric NOT NULL CHECK (radius_km > 0),
+  stage_started_at timestamptz NOT NULL DEFAULT now(),
+  target_acceptances integer NOT NULL DEFAULT 1 CHECK (target_acceptances > 0),
+  status text NOT NULL DEFAULT 'active'
+    CHECK (status IN ('active', 'satisfied', 'cancelled')),
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS sos_recipients (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  request_id uuid NOT NULL REFERENCES sos_broadcasts(request_id) ON DELETE CASCADE,
+  donor_id uuid REFERENCES donors(id) ON DELETE CASCADE,
+  blood_bank_id uuid REFERENCES blood_banks(id) ON DELETE CASCADE,
+  stage integer NOT NULL,
+  radius_km numeric NOT NULL,
+  distance_km numeric NOT NULL,
+  notified_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (num_nonnulls(donor_id, blood_bank_id) = 1)
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS sos_recipients_donor_idx
+  ON sos_recipients (request_id, donor_id)
+  WHERE donor_id IS NOT NULL;
+
+CREATE UNIQUE INDEX IF NOT EXISTS sos_recipients_blood_bank_idx
+  ON sos_recipients (request_id, blood_bank_id)
+  WHERE blood_bank_id IS NOT NULL;
+
+ALTER TABLE sos_broadcasts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE sos_recipients ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Requesters manage their SOS broadcasts"
+  ON sos_broadcasts FOR ALL TO authenticated
+  USING (user_id = auth.uid())
+  WITH CHECK (
+    user_id = auth.uid()
+    AND request_id IN (SELECT id FROM emergency_requests WHERE user_id = auth.uid())
+  );
+
+CREATE POLICY "Requesters manage their SOS recipients"
+  ON sos_recipients FOR ALL TO authenticated
+  USING (request_id IN (SELECT request_id FROM sos_broadcasts WHERE user_id = auth.uid()))
+  WITH CHECK (request_id IN (SELECT request_id FROM sos_broadcasts WHERE user_id = auth.uid()));
+
+DO $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1
+    FROM pg_publication_tables
+    WHERE pubname = 'supabase_realtime'
+      AND schemaname = 'public'
+      AND tablename = 'donor_responses'
+  ) THEN
+    ALTER PUBLICATION supabase_realtime ADD TABLE public.donor_responses;
+  END IF;
+END $$;
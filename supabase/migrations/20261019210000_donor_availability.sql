@@ -0,0 +1,183 @@
+/*
+  # Donor availability windows and snoozes
+
+  1. New Tables
+    - `donor_availability_windows`: weekly windows in which a donor can be
+      asked to donate, e.g. weekday evenings or weekends. A window ending
+      before it starts runs past midnight
+    - `donor_snoozes`: temporary breaks (travel, illness, a recent tattoo)
+      during which the donor is not asked at all
+
+  2. Changes
+    - `donors.on_call_for_emergencies`: reachable for emergencies outside
+      their windows, though never while snoozed
+    - `donors.availability_timezone`: the zone the windows are read in
+    - `donor_is_available` answers whether a donor can be asked right now
+      and backs `list_available_donor_ids` and `find_matching_donors`
+
+  3. Security
+    - Donors manage their own windows and snoozes; snooze reasons stay
+      private and other users only see the resulting availability
+*/
+
+ALTER TABLE donors
+  ADD COLUMN IF NOT EXISTS on_call_for_emergencies boolean NOT NULL DEFAULT false,
+  ADD COLUMN IF NOT EXISTS availability_timezone text NOT NULL DEFAULT 'Asia/Kolkata';
+
+CREATE TABLE IF NOT EXISTS donor_availability_windows (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  donor_id uuid NOT NULL REFERENCES donors(id) ON DELETE CASCADE,
+  weekday smallint NOT NULL CHECK (weekday BETWEEN 0 AND 6),
+  start_time time NOT NULL,
+  end_time time NOT NULL CHECK (end_time <> start_time),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS donor_availability_windows_donor_idx
+  ON donor_availability_windows (donor_id);
+
+CREATE TABLE IF NOT EXISTS donor_snoozes (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  donor_id uuid NOT NULL REFERENCES donors(id) ON DELETE CASCADE,
+  starts_at timestamptz NOT NULL DEFAULT now(),
+  ends_at timestamptz NOT NULL,
+  reason text NOT NULL CHECK (reason IN ('travel', 'illness', 'tattoo', 'other')),
+  notes text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  CHECK (ends_at > starts_at)
+);
+
+CREATE INDEX IF NOT EXISTS donor_snoozes_donor_idx
+  ON donor_snoozes (donor_id, ends_at);
+
+ALTER TABLE donor_availability_windows ENABLE ROW LEVEL SECURITY;
+ALTER TABLE donor_snoozes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Donors manage their availability windows"
+  ON donor_availability_windows FOR ALL TO authenticated
+  USING (donor_id IN (SELECT id FROM donors WHERE user_id = auth.uid()))
+  WITH CHECK (donor_id IN (SELECT id FROM donors WHERE user_id = auth.uid()));
+
+CREATE POLICY "Donors manage their snoozes"
+  ON donor_snoozes FOR ALL TO authenticated
+  USING (donor_id IN (SELECT id FROM donors WHERE user_id = auth.uid()))
+  WITH CHECK (donor_id IN (SELECT id FROM donors WHERE user_id = auth.uid()));
+
+-- Mirrors getDonorAvailability in src/lib/donorAvailability.ts
+CREATE OR REPLACE FUNCTION donor_is_available(
+  p_donor_id uuid,
+  p_at timestamptz DEFAULT now(),
+  p_emergency boolean DEFAULT false
+)
+RETURNS boolean
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_donor donors%ROWTYPE;
+  v_local timestamp;
+  v_weekday integer;
+  v_time time;
+BEGIN
+  SELECT * INTO v_donor FROM donors WHERE id = p_donor_id;
+
+  IF NOT FOUND OR NOT v_donor.is_available THEN
+    RETURN false;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM donor_snoozes
+    WHERE donor_id = p_donor_id AND starts_at <= p_at AND ends_at > p_at
+  ) THEN
+    RETURN false;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM donor_availability_windows WHERE donor_id = p_donor_id) THEN
+    RETURN true;
+  END IF;
+
+  v_local := p_at AT TIME ZONE v_donor.availability_timezone;
+  v_weekday := EXTRACT(DOW FROM v_local);
+  v_time := v_local::time;
+
+  IF EXISTS (
+    SELECT 1 FROM donor_availability_windows w
+    WHERE w.donor_id = p_donor_id
+      AND (
+        (w.start_time < w.end_time
+          AND w.weekday = v_weekday AND v_time >= w.start_time AND v_time < w.end_time)
+        OR (w.start_time > w.end_time
+          AND ((w.weekday = v_weekday AND v_time >= w.start_time)
+            OR (w.weekday = (v_weekday + 6) % 7 AND v_time < w.end_time)))
+      )
+  ) THEN
+    RETURN true;
+  END IF;
+
+  RETURN p_emergency AND v_donor.on_call_for_emergencies;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION list_available_donor_ids(p_emergency boolean DEFAULT false)
+RETURNS TABLE (donor_id uuid)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.id
+  FROM donors d
+  WHERE d.status = 'active'
+    AND d.is_available
+    AND donor_is_available(d.id, now(), p_emergency);
+$$;
+
+GRANT EXECUTE ON FUNCTION donor_is_available(uuid, timestamptz, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION list_available_donor_ids(boolean) TO authenticated;
+
+-- Emergency matching reaches on-call donors outside their windows
+DROP FUNCTION IF EXISTS find_matching_donors(text, double precision, double precision, double precision);
+DROP FUNCTION IF EXISTS find_matching_donors(text, numeric, numeric, numeric);
+
+CREATE OR REPLACE FUNCTION find_matching_donors(
+  p_blood_type text,
+  lat double precision,
+  lng double precision,
+  radius_km double precision
+)
+RETURNS json
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(json_agg(m ORDER BY m.distance_km), '[]'::json)
+  FROM (
+    SELECT
+      d.id,
+      d.user_id,
+      d.first_name,
+      d.last_name,
+      d.blood_type,
+      d.latitude,
+      d.longitude,
+      d.on_call_for_emergencies,
+      6371 * 2 * asin(sqrt(
+        power(sin(radians(d.latitude - lat) / 2), 2) +
+        cos(radians(lat)) * cos(radians(d.latitude)) *
+        power(sin(radians(d.longitude - lng) / 2), 2)
+      )) AS distance_km
+    FROM donors d
+    WHERE d.status = 'active'
+      AND d.blood_type = p_blood_type
+      AND d.latitude IS NOT NULL
+      AND d.longitude IS NOT NULL
+      AND donor_is_available(d.id, now(), true)
+  ) m
+  WHERE m.distance_km <= radius_km;
+$$;
+
+GRANT EXECUTE ON FUNCTION find_matching_donors(text, double precision, double precision, double precision)
+  TO authenticated;
@@ -0,0 +1,22 @@
+/*
+  # Donor eligibility rules
+
+  1. Changes
+    - `donors.weight_kg` and `donors.hemoglobin_g_dl`: self-reported or last
+      measured values, checked against the minimums for donating
+    - `donors.last_donation_component`: what was donated last, since
+      platelets and plasma allow a shorter wait than whole blood
+    - `donors.medical_condition_dates`: when each temporary condition in
+      `medical_conditions` last applied (tattoo, travel, medication,
+      pregnancy), so the deferral can end on its own
+
+  2. Notes
+    - The rules themselves live in src/lib/donorEligibility.ts
+*/
+
+ALTER TABLE donors
+  ADD COLUMN IF NOT EXISTS weight_kg numeric CHECK (weight_kg > 0),
+  ADD COLUMN IF NOT EXISTS hemoglobin_g_dl numeric CHECK (hemoglobin_g_dl > 0),
+  ADD COLUMN IF NOT EXISTS last_donation_component text NOT NULL DEFAULT 'whole_blood'
+    CHECK (last_donation_component IN ('whole_blood', 'packed_red_cells', 'platelets', 'plasma')),
+  ADD COLUMN IF NOT EXISTS medical_condition_dates jsonb NOT NULL DEFAULT '{}'::jsonb;
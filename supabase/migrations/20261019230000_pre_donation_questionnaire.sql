@@ -0,0 +1,24 @@
+/*
+  # Pre-donation health questionnaire
+
+  1. Changes
+    - `pre_donation_questionnaire` on `scheduled_donations`,
+      `hospital_donations` and `donation_schedules`: the donor's answers
+      about recent illness, medication, travel, weight and their last meal,
+      with the time they were given
+    - Donors answer when booking; the answers are checked against the
+      eligibility rules before the slot is confirmed
+
+  2. Security
+    - Covered by the existing policies on each table, so hospital staff see
+      the answers for donations booked with them
+*/
+
+ALTER TABLE scheduled_donations
+  ADD COLUMN IF NOT EXISTS pre_donation_questionnaire jsonb;
+
+ALTER TABLE hospital_donations
+  ADD COLUMN IF NOT EXISTS pre_donation_questionnaire jsonb;
+
+ALTER TABLE donation_schedules
+  ADD COLUMN IF NOT EXISTS pre_donation_questionnaire jsonb;
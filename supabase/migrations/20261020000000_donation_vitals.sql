@@ -0,0 +1,131 @@
+/*
+  # Post-donation vitals and adverse events
+
+  1. New Tables
+    - `donation_adverse_events`: reactions during or after a hospital
+      donation (fainting, hematoma, ...) with their severity, for the
+      per-hospital adverse event report
+
+  2. Changes
+    - `hospital_donations` records hemoglobin, blood pressure, pulse, the
+      volume collected and the bag number
+    - `record_donation_vitals` saves the vitals, updates the donor's
+      hemoglobin and, for a moderate or severe reaction, adds the deferral
+      condition the eligibility rules in src/lib/donorEligibility.ts know
+      (`adverse_reaction` or `severe_adverse_reaction`). The condition is
+      derived here from the severity, never taken from the caller.
+
+  3. Security
+    - Hospitals record and read events for their own donations; donors can
+      read their own events
+*/
+
+ALTER TABLE hospital_donations
+  ADD COLUMN IF NOT EXISTS hemoglobin_g_dl numeric CHECK (hemoglobin_g_dl > 0),
+  ADD COLUMN IF NOT EXISTS systolic_bp integer CHECK (systolic_bp > 0),
+  ADD COLUMN IF NOT EXISTS diastolic_bp integer CHECK (diastolic_bp > 0),
+  ADD COLUMN IF NOT EXISTS pulse_bpm integer CHECK (pulse_bpm > 0),
+  ADD COLUMN IF NOT EXISTS volume_collected_ml integer CHECK (volume_collected_ml > 0),
+  ADD COLUMN IF NOT EXISTS bag_number text;
+
+CREATE TABLE IF NOT EXISTS donation_adverse_events (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  hospital_donation_id uuid NOT NULL REFERENCES hospital_donations(id) ON DELETE CASCADE,
+  hospital_id uuid NOT NULL REFERENCES hospitals(id) ON DELETE CASCADE,
+  donor_id uuid NOT NULL REFERENCES donors(id) ON DELETE CASCADE,
+  reaction text NOT NULL
+    CHECK (reaction IN ('fainting', 'hematoma', 'nausea', 'dizziness', 'other')),
+  severity text NOT NULL CHECK (severity IN ('mild', 'moderate', 'severe')),
+  notes text,
+  deferral_condition text,
+  recorded_by uuid DEFAULT auth.uid(),
+  occurred_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS donation_adverse_events_hospital_idx
+  ON donation_adverse_events (hospital_id, occurred_at DESC);
+
+ALTER TABLE donation_adverse_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Hospitals read adverse events for their donations"
+  ON donation_adverse_events FOR SELECT TO authenticated
+  USING (hospital_id IN (SELECT id FROM hospitals WHERE user_id = auth.uid()));
+
+CREATE POLICY "Donors read their adverse events"
+  ON donation_adverse_events FOR SELECT TO authenticated
+  USING (donor_id IN (SELECT id FROM donors WHERE user_id = auth.uid()));
+
+CREATE OR REPLACE FUNCTION record_donation_vitals(
+  p_donation_id uuid,
+  p_hemoglobin_g_dl numeric DEFAULT NULL,
+  p_systolic_bp integer DEFAULT NULL,
+  p_diastolic_bp integer DEFAULT NULL,
+  p_pulse_bpm integer DEFAULT NULL,
+  p_volume_collected_ml integer DEFAULT NULL,
+  p_bag_number text DEFAULT NULL,
+  p_reaction text DEFAULT NULL,
+  p_severity text DEFAULT NULL,
+  p_reaction_notes text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_donation hospital_donations%ROWTYPE;
+  v_deferral_condition text;
+BEGIN
+  SELECT * INTO v_donation FROM hospital_donations WHERE id = p_donation_id;
+
+  IF NOT FOUND OR NOT EXISTS (
+    SELECT 1 FROM hospitals h
+    WHERE h.id = v_donation.hospital_id AND h.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to record vitals for this donation';
+  END IF;
+
+  UPDATE hospital_donations
+  SET hemoglobin_g_dl = COALESCE(p_hemoglobin_g_dl, hemoglobin_g_dl),
+      systolic_bp = COALESCE(p_systolic_bp, systolic_bp),
+      diastolic_bp = COALESCE(p_diastolic_bp, diastolic_bp),
+      pulse_bpm = COALESCE(p_pulse_bpm, pulse_bpm),
+      volume_collected_ml = COALESCE(p_volume_collected_ml, volume_collected_ml),
+      bag_number = COALESCE(p_bag_number, bag_number),
+      updated_at = now()
+  WHERE id = p_donation_id;
+
+  IF p_hemoglobin_g_dl IS NOT NULL THEN
+    UPDATE donors SET hemoglobin_g_dl = p_hemoglobin_g_dl WHERE id = v_donation.donor_id;
+  END IF;
+
+  IF p_reaction IS NOT NULL THEN
+    v_deferral_condition := CASE COALESCE(p_severity, 'mild')
+      WHEN 'moderate' THEN 'adverse_reaction'
+      WHEN 'severe' THEN 'severe_adverse_reaction'
+    END;
+
+    INSERT INTO donation_adverse_events
+      (hospital_donation_id, hospital_id, donor_id, reaction, severity, notes, deferral_condition)
+    VALUES
+      (p_donation_id, v_donation.hospital_id, v_donation.donor_id, p_reaction,
+       COALESCE(p_severity, 'mild'), p_reaction_notes, v_deferral_condition);
+  END IF;
+
+  IF v_deferral_condition IS NOT NULL THEN
+    UPDATE donors
+    SET medical_conditions = CASE
+          WHEN v_deferral_condition = ANY(COALESCE(medical_conditions, '{}'))
+            THEN medical_conditions
+          ELSE array_append(COALESCE(medical_conditions, '{}'), v_deferral_condition)
+        END,
+        medical_condition_dates =
+          medical_condition_dates || jsonb_build_object(v_deferral_condition, current_date::text)
+    WHERE id = v_donation.donor_id;
+  END IF;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION record_donation_vitals(
+  uuid, numeric, integer, integer, integer, integer, text, text, text, text
+) TO authenticated;
@@ -0,0 +1,559 @@
+/*
+  # Slot capacity and waitlists
+
+  1. New Tables
+    - `slot_waitlist_entries`: donors waiting for a place in a full hospital
+      or blood bank slot on a given date, in the order they joined, with the
+      notes and health questionnaire they would have booked with
+
+  2. Changes
+    - A slot's capacity applies to each date it runs on; bookings are counted
+      per slot and date by `slot_booking_count`
+    - `get_available_slots` returns the bookings and waitlist for the chosen
+      date, so `available` reflects the remaining places
+    - `schedule_donation` locks the slot, refuses to book beyond capacity
+      and stores the health questionnaire with the booking
+    - `cancel_donation_booking` cancels a booking and gives the freed place
+      to the first donor on the waitlist who has no other booking at that
+      time, returning them so the app can let them know
+    - `booked_count` keeps counting a slot's upcoming bookings across dates
+      for the facility dashboards, and slot tables are published over
+      Realtime so booking screens see places being taken
+
+  3. Security
+    - Donors join and leave waitlists only through the functions and read
+      their own entries; facilities read the waitlists for their slots
+    - Bookings can be cancelled by the donor or by the facility
+    - Slot locking, booked counts, waitlist promotion and the double booking
+      check are internal helpers no client role may call
+*/
+
+ALTER TABLE hospital_donation_slots
+  ADD CONSTRAINT hospital_donation_slots_capacity_check CHECK (capacity > 0) NOT VALID;
+
+CREATE TABLE IF NOT EXISTS slot_waitlist_entries (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  facility_type text NOT NULL CHECK (facility_type IN ('hospital', 'blood_bank')),
+  facility_id uuid NOT NULL,
+  slot_id uuid NOT NULL,
+  slot_date date NOT NULL,
+  donor_id uuid NOT NULL REFERENCES donors(id) ON DELETE CASCADE,
+  notes text,
+  pre_donation_questionnaire jsonb,
+  status text NOT NULL DEFAULT 'waiting' CHECK (status IN ('waiting', 'promoted', 'left')),
+  promoted_donation_id uuid,
+  promoted_at timestamptz,
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS slot_waitlist_entries_donor_idx
+  ON slot_waitlist_entries (slot_id, slot_date, donor_id)
+  WHERE status = 'waiting';
+
+CREATE INDEX IF NOT EXISTS slot_waitlist_entries_queue_idx
+  ON slot_waitlist_entries (slot_id, slot_date, created_at)
+  WHERE status = 'waiting';
+
+ALTER TABLE slot_waitlist_entries ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Donors read their waitlist entries"
+  ON slot_waitlist_entries FOR SELECT TO authenticated
+  USING (donor_id IN (SELECT id FROM donors WHERE user_id = auth.uid()));
+
+CREATE POLICY "Facilities read waitlists for their slots"
+  ON slot_waitlist_entries FOR SELECT TO authenticated
+  USING (
+    facility_id IN (SELECT id FROM hospitals WHERE user_id = auth.uid())
+    OR facility_id IN (SELECT id FROM blood_banks WHERE user_id = auth.uid())
+  );
+
+-- Bookings that still hold a place in their slot
+CREATE OR REPLACE FUNCTION slot_booking_count(
+  p_facility_type text,
+  p_slot_id uuid,
+  p_date date
+)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN p_facility_type = 'hospital' THEN (
+      SELECT count(*)::integer FROM hospital_donations
+      WHERE slot_id = p_slot_id
+        AND donation_date::date = p_date
+        AND status IN ('pending', 'scheduled', 'confirmed', 'rescheduled')
+    )
+    ELSE (
+      SELECT count(*)::integer FROM scheduled_donations
+      WHERE slot_id = p_slot_id
+        AND scheduled_date::date = p_date
+        AND status IN ('pending', 'scheduled', 'confirmed', 'rescheduled')
+    )
+  END;
+$$;
+
+-- Locks the slot row so bookings for it are counted one at a time, and
+-- returns its capacity and start time
+CREATE OR REPLACE FUNCTION lock_donation_slot(
+  p_facility_type text,
+  p_slot_id uuid,
+  OUT facility_id uuid,
+  OUT capacity integer,
+  OUT start_time time
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_facility_type = 'hospital' THEN
+    SELECT s.hospital_id, s.capacity, s.start_time::time
+    INTO facility_id, capacity, start_time
+    FROM hospital_donation_slots s
+    WHERE s.id = p_slot_id
+    FOR UPDATE;
+  ELSE
+    SELECT s.blood_bank_id, COALESCE(NULLIF(s.capacity, 0), s.max_donors_per_slot, 0), s.start_time::time
+    INTO facility_id, capacity, start_time
+    FROM blood_bank_slots s
+    WHERE s.id = p_slot_id
+    FOR UPDATE;
+  END IF;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Donation slot not found';
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION adjust_slot_booked_count(
+  p_facility_type text,
+  p_slot_id uuid,
+  p_change integer
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF p_facility_type = 'hospital' THEN
+    UPDATE hospital_donation_slots
+    SET booked_count = GREATEST(COALESCE(booked_count, 0) + p_change, 0), updated_at = now()
+    WHERE id = p_slot_id;
+  ELSE
+    UPDATE blood_bank_slots
+    SET booked_count = GREATEST(COALESCE(booked_count, 0) + p_change, 0), updated_at = now()
+    WHERE id = p_slot_id;
+  END IF;
+END;
+$$;
+
+DROP FUNCTION IF EXISTS get_available_slots(date, uuid, text);
+
+CREATE OR REPLACE FUNCTION get_available_slots(
+  p_date date,
+  p_facility_id uuid,
+  p_facility_type text
+)
+RETURNS TABLE (
+  id uuid,
+  day text,
+  start_time text,
+  end_time text,
+  capacity integer,
+  booked_count integer,
+  waitlist_count integer,
+  available boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH slots AS (
+    SELECT s.id, s.day_of_week AS day, s.start_time::time AS start_time,
+           s.end_time::time AS end_time, s.capacity
+    FROM hospital_donation_slots s
+    WHERE p_facility_type = 'hospital'
+      AND s.hospital_id = p_facility_id
+      AND (
+        s.date::date = p_date
+        OR lower(trim(s.day_of_week)) = lower(trim(to_char(p_date, 'FMDay')))
+      )
+    UNION ALL
+    SELECT s.id, s.day_of_week_text, s.start_time::time, s.end_time::time,
+           COALESCE(NULLIF(s.capacity, 0), s.max_donors_per_slot, 0)
+    FROM blood_bank_slots s
+    WHERE p_facility_type = 'blood_bank'
+      AND s.blood_bank_id = p_facility_id
+      AND lower(trim(s.day_of_week_text)) = lower(trim(to_char(p_date, 'FMDay')))
+  )
+  SELECT
+    slots.id,
+    COALESCE(slots.day, ''),
+    to_char(slots.start_time, 'HH24:MI'),
+    to_char(slots.end_time, 'HH24:MI'),
+    slots.capacity,
+    booked.count,
+    (
+      SELECT count(*)::integer FROM slot_waitlist_entries w
+      WHERE w.slot_id = slots.id AND w.slot_date = p_date AND w.status = 'waiting'
+    ),
+    booked.count < slots.capacity
+  FROM slots
+  CROSS JOIN LATERAL (
+    SELECT slot_booking_count(p_facility_type, slots.id, p_date) AS count
+  ) booked
+  ORDER BY slots.start_time;
+$$;
+
+-- Whether the donor already has an upcoming booking at this date and time
+CREATE OR REPLACE FUNCTION donor_has_booking_at(
+  p_donor_id uuid,
+  p_date date,
+  p_time time
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM hospital_donations
+    WHERE donor_id = p_donor_id
+      AND donation_date::date = p_date
+      AND scheduled_time::time = p_time
+      AND status IN ('pending', 'scheduled', 'confirmed', 'rescheduled')
+    UNION ALL
+    SELECT 1 FROM scheduled_donations
+    WHERE donor_id = p_donor_id
+      AND scheduled_date::date = p_date
+      AND scheduled_time::time = p_time
+      AND status IN ('pending', 'scheduled', 'confirmed', 'rescheduled')
+  );
+$$;
+
+DROP FUNCTION IF EXISTS schedule_donation(uuid, uuid, text, uuid, date, time, text);
+
+CREATE OR REPLACE FUNCTION schedule_donation(
+  p_donor_id uuid,
+  p_facility_id uuid,
+  p_facility_type text,
+  p_slot_id uuid,
+  p_scheduled_date date,
+  p_scheduled_time time,
+  p_notes text DEFAULT NULL,
+  p_questionnaire jsonb DEFAULT NULL
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slot record;
+  v_donation_id uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM donors WHERE id = p_donor_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to book donations for this donor';
+  END IF;
+
+  SELECT * INTO v_slot FROM lock_donation_slot(p_facility_type, p_slot_id);
+
+  IF v_slot.facility_id <> p_facility_id THEN
+    RAISE EXCEPTION 'Donation slot not found';
+  END IF;
+
+  IF donor_has_booking_at(p_donor_id, p_scheduled_date, p_scheduled_time) THEN
+    RAISE EXCEPTION 'Donor already has an active donation scheduled at this time';
+  END IF;
+
+  IF slot_booking_count(p_facility_type, p_slot_id, p_scheduled_date) >= v_slot.capacity THEN
+    RAISE EXCEPTION 'No available slots left at this time';
+  END IF;
+
+  IF p_facility_type = 'hospital' THEN
+    INSERT INTO hospital_donations
+      (donor_id, hospital_id, slot_id, donation_date, scheduled_time, status, notes,
+       pre_donation_questionnaire)
+    VALUES
+      (p_donor_id, p_facility_id, p_slot_id, p_scheduled_date + p_scheduled_time,
+       to_char(p_scheduled_time, 'HH24:MI'), 'scheduled', p_notes, p_questionnaire)
+    RETURNING id INTO v_donation_id;
+  ELSE
+    INSERT INTO scheduled_donations
+      (donor_id, blood_bank_id, slot_id, scheduled_date, scheduled_time, status, notes,
+       pre_donation_questionnaire)
+    VALUES
+      (p_donor_id, p_facility_id, p_slot_id, p_scheduled_date,
+       to_char(p_scheduled_time, 'HH24:MI'), 'scheduled', p_notes, p_questionnaire)
+    RETURNING id INTO v_donation_id;
+  END IF;
+
+  PERFORM adjust_slot_booked_count(p_facility_type, p_slot_id, 1);
+
+  RETURN v_donation_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION join_slot_waitlist(
+  p_facility_type text,
+  p_slot_id uuid,
+  p_slot_date date,
+  p_notes text DEFAULT NULL,
+  p_questionnaire jsonb DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_donor_id uuid;
+  v_slot record;
+  v_entry slot_waitlist_entries%ROWTYPE;
+BEGIN
+  SELECT id INTO v_donor_id FROM donors WHERE user_id = auth.uid();
+  IF v_donor_id IS NULL THEN
+    RAISE EXCEPTION 'Only donors can join a waitlist';
+  END IF;
+
+  IF p_slot_date < current_date THEN
+    RAISE EXCEPTION 'This slot has already taken place';
+  END IF;
+
+  SELECT * INTO v_slot FROM lock_donation_slot(p_facility_type, p_slot_id);
+
+  IF slot_booking_count(p_facility_type, p_slot_id, p_slot_date) < v_slot.capacity THEN
+    RAISE EXCEPTION 'This slot still has places available';
+  END IF;
+
+  INSERT INTO slot_waitlist_entries
+    (facility_type, facility_id, slot_id, slot_date, donor_id, notes, pre_donation_questionnaire)
+  VALUES
+    (p_facility_type, v_slot.facility_id, p_slot_id, p_slot_date, v_donor_id, p_notes, p_questionnaire)
+  ON CONFLICT (slot_id, slot_date, donor_id) WHERE status = 'waiting' DO NOTHING;
+
+  SELECT * INTO v_entry
+  FROM slot_waitlist_entries
+  WHERE slot_id = p_slot_id AND slot_date = p_slot_date
+    AND donor_id = v_donor_id AND status = 'waiting';
+
+  RETURN (
+    SELECT count(*)::integer FROM slot_waitlist_entries
+    WHERE slot_id = p_slot_id AND slot_date = p_slot_date
+      AND status = 'waiting' AND created_at <= v_entry.created_at
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION leave_slot_waitlist(p_entry_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE slot_waitlist_entries
+  SET status = 'left'
+  WHERE id = p_entry_id
+    AND status = 'waiting'
+    AND donor_id IN (SELECT id FROM donors WHERE user_id = auth.uid());
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Not allowed to leave this waitlist';
+  END IF;
+END;
+$$;
+
+-- Books the first waiting donor into a place that has just been freed,
+-- passing over donors who have since booked something else at that time
+CREATE OR REPLACE FUNCTION promote_slot_waitlist(
+  p_facility_type text,
+  p_slot_id uuid,
+  p_slot_date date
+)
+RETURNS TABLE (
+  promoted_user_id uuid,
+  promoted_donation_id uuid,
+  scheduled_date date,
+  scheduled_time text,
+  facility_name text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slot record;
+  v_entry slot_waitlist_entries%ROWTYPE;
+  v_donation_id uuid;
+  v_time text;
+BEGIN
+  IF p_slot_date < current_date THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_slot FROM lock_donation_slot(p_facility_type, p_slot_id);
+
+  IF slot_booking_count(p_facility_type, p_slot_id, p_slot_date) >= v_slot.capacity THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_entry
+  FROM slot_waitlist_entries w
+  WHERE w.slot_id = p_slot_id AND w.slot_date = p_slot_date AND w.status = 'waiting'
+    AND NOT donor_has_booking_at(w.donor_id, p_slot_date, v_slot.start_time)
+  ORDER BY w.created_at
+  LIMIT 1
+  FOR UPDATE SKIP LOCKED;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  v_time := to_char(v_slot.start_time, 'HH24:MI');
+
+  IF p_facility_type = 'hospital' THEN
+    INSERT INTO hospital_donations
+      (donor_id, hospital_id, slot_id, donation_date, scheduled_time, status, notes,
+       pre_donation_questionnaire)
+    VALUES
+      (v_entry.donor_id, v_slot.facility_id, p_slot_id, p_slot_date + v_slot.start_time,
+       v_time, 'scheduled', v_entry.notes, v_entry.pre_donation_questionnaire)
+    RETURNING id INTO v_donation_id;
+  ELSE
+    INSERT INTO scheduled_donations
+      (donor_id, blood_bank_id, slot_id, scheduled_date, scheduled_time, status, notes,
+       pre_donation_questionnaire)
+    VALUES
+      (v_entry.donor_id, v_slot.facility_id, p_slot_id, p_slot_date,
+       v_time, 'scheduled', v_entry.notes, v_entry.pre_donation_questionnaire)
+    RETURNING id INTO v_donation_id;
+  END IF;
+
+  PERFORM adjust_slot_booked_count(p_facility_type, p_slot_id, 1);
+
+  UPDATE slot_waitlist_entries
+  SET status = 'promoted', promoted_donation_id = v_donation_id, promoted_at = now()
+  WHERE id = v_entry.id;
+
+  RETURN QUERY
+  SELECT
+    d.user_id,
+    v_donation_id,
+    p_slot_date,
+    v_time,
+    CASE
+      WHEN p_facility_type = 'hospital'
+        THEN (SELECT h.name FROM hospitals h WHERE h.id = v_slot.facility_id)
+      ELSE (SELECT b.name FROM blood_banks b WHERE b.id = v_slot.facility_id)
+    END
+  FROM donors d
+  WHERE d.id = v_entry.donor_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_donation_booking(
+  p_facility_type text,
+  p_donation_id uuid,
+  p_notes text DEFAULT NULL
+)
+RETURNS TABLE (
+  promoted_user_id uuid,
+  promoted_donation_id uuid,
+  scheduled_date date,
+  scheduled_time text,
+  facility_name text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_donor_id uuid;
+  v_facility_id uuid;
+  v_slot_id uuid;
+  v_date date;
+  v_status text;
+BEGIN
+  IF p_facility_type = 'hospital' THEN
+    SELECT hd.donor_id, hd.hospital_id, hd.slot_id, hd.donation_date::date, hd.status
+    INTO v_donor_id, v_facility_id, v_slot_id, v_date, v_status
+    FROM hospital_donations hd
+    WHERE hd.id = p_donation_id
+    FOR UPDATE;
+  ELSE
+    SELECT sd.donor_id, sd.blood_bank_id, sd.slot_id, sd.scheduled_date::date, sd.status
+    INTO v_donor_id, v_facility_id, v_slot_id, v_date, v_status
+    FROM scheduled_donations sd
+    WHERE sd.id = p_donation_id
+    FOR UPDATE;
+  END IF;
+
+  IF NOT FOUND OR NOT (
+    EXISTS (SELECT 1 FROM donors WHERE id = v_donor_id AND user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM hospitals WHERE id = v_facility_id AND user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM blood_banks WHERE id = v_facility_id AND user_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to cancel this donation';
+  END IF;
+
+  IF v_status NOT IN ('pending', 'scheduled', 'confirmed', 'rescheduled') THEN
+    RAISE EXCEPTION 'Only upcoming donations can be cancelled';
+  END IF;
+
+  IF p_facility_type = 'hospital' THEN
+    UPDATE hospital_donations
+    SET status = 'cancelled', notes = COALESCE(p_notes, notes), updated_at = now()
+    WHERE id = p_donation_id;
+  ELSE
+    UPDATE scheduled_donations
+    SET status = 'cancelled', notes = COALESCE(p_notes, notes), updated_at = now()
+    WHERE id = p_donation_id;
+  END IF;
+
+  IF v_slot_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM adjust_slot_booked_count(p_facility_type, v_slot_id, -1);
+
+  RETURN QUERY SELECT * FROM promote_slot_waitlist(p_facility_type, v_slot_id, v_date);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION lock_donation_slot(text, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION adjust_slot_booked_count(text, uuid, integer) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION promote_slot_waitlist(text, uuid, date) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION donor_has_booking_at(uuid, date, time) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION slot_booking_count(text, uuid, date) TO authenticated;
+GRANT EXECUTE ON FUNCTION get_available_slots(date, uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION schedule_donation(uuid, uuid, text, uuid, date, time, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION join_slot_waitlist(text, uuid, date, text, jsonb) TO authenticated;
+GRANT EXECUTE ON FUNCTION leave_slot_waitlist(uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION cancel_donation_booking(text, uuid, text) TO authenticated;
+
+DO $$
+DECLARE
+  table_name text;
+BEGIN
+  FOREACH table_name IN ARRAY ARRAY['hospital_donation_slots', 'blood_bank_slots']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1
+      FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = table_name
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', table_name);
+    END IF;
+  END LOOP;
+END $$;
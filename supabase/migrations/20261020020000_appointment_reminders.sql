@@ -0,0 +1,594 @@
+/*
+  # Appointment reminders and no-shows
+
+  1. New Tables
+    - `appointment_reminders`: the 24 hour and 2 hour reminders sent for each
+      blood bank and hospital booking, so none is sent twice
+
+  2. Changes
+    - Bookings get a `response_token` used by the confirm and cancel links
+      in reminders; `get_appointment_by_token` and `respond_to_appointment`
+      work without signing in
+    - `send_user_notification` notifies a user the way
+      src/lib/notificationDispatcher.ts does: the event's channels the user
+      enabled, unless the event is muted, with SMS, email and push held back
+      during quiet hours unless the event is urgent. In-app notifications
+      are written directly; the other channels go through the
+      send-notification function, which words them from the event's
+      template and `p_data`, when pg_net and
+      `app.settings.supabase_url` / `app.settings.service_role_key` are
+      configured.
+    - `send_appointment_reminders` sends due reminders on the `slot_reminder`
+      channels through it. It runs every 15 minutes when pg_cron is
+      available.
+    - `mark_no_show_donations` marks bookings that were never verified as
+      `no_show` once their day has passed; it runs hourly with pg_cron
+    - `get_no_show_stats` returns no-shows per donor for a hospital's
+      donors, with the hospital's own share, for its dashboard
+    - `cancel_donation_booking` now shares its cancellation and waitlist
+      promotion with `respond_to_appointment`. The donor given the freed
+      place is sent `waitlist_promoted` from the database, since a booking
+      cancelled from a reminder link has no signed-in user to send it.
+
+  3. Security
+    - Reminder sends are only readable by the donor they were sent to
+    - Anyone holding a booking's token can confirm or cancel that booking
+    - No-show stats are limited to the hospital's own dashboard
+    - Sending reminders, marking no-shows and releasing a booking are for
+      the scheduled jobs and the functions above only; clients cancel
+      through `cancel_donation_booking`, which checks the caller
+*/
+
+ALTER TABLE hospital_donations
+  ADD COLUMN IF NOT EXISTS response_token uuid NOT NULL DEFAULT gen_random_uuid();
+
+ALTER TABLE scheduled_donations
+  ADD COLUMN IF NOT EXISTS response_token uuid NOT NULL DEFAULT gen_random_uuid();
+
+CREATE UNIQUE INDEX IF NOT EXISTS hospital_donations_response_token_idx
+  ON hospital_donations (response_token);
+
+CREATE UNIQUE INDEX IF NOT EXISTS scheduled_donations_response_token_idx
+  ON scheduled_donations (response_token);
+
+CREATE TABLE IF NOT EXISTS appointment_reminders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  facility_type text NOT NULL CHECK (facility_type IN ('hospital', 'blood_bank')),
+  donation_id uuid NOT NULL,
+  user_id uuid NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  kind text NOT NULL CHECK (kind IN ('24h', '2h')),
+  notification_id uuid REFERENCES notifications(id) ON DELETE SET NULL,
+  sent_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (facility_type, donation_id, kind)
+);
+
+ALTER TABLE appointment_reminders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Donors read their appointment reminders"
+  ON appointment_reminders FOR SELECT TO authenticated
+  USING (user_id = auth.uid());
+
+-- Both kinds of booking in one shape. Slot times are local to the donor,
+-- read in the time zone from their notification preferences.
+CREATE OR REPLACE VIEW booked_appointments AS
+  SELECT
+    'hospital'::text AS facility_type,
+    hd.id AS donation_id,
+    hd.donor_id,
+    hd.hospital_id AS facility_id,
+    h.name AS facility_name,
+    hd.donation_date::date AS scheduled_date,
+    COALESCE(hd.scheduled_time::time, hd.donation_date::time) AS scheduled_time,
+    hd.status,
+    hd.response_token,
+    d.user_id,
+    COALESCE(np.timezone, 'Asia/Kolkata') AS timezone
+  FROM hospital_donations hd
+  JOIN hospitals h ON h.id = hd.hospital_id
+  JOIN donors d ON d.id = hd.donor_id
+  LEFT JOIN notification_preferences np ON np.user_id = d.user_id
+  UNION ALL
+  SELECT
+    'blood_bank',
+    sd.id,
+    sd.donor_id,
+    sd.blood_bank_id,
+    b.name,
+    sd.scheduled_date::date,
+    COALESCE(sd.scheduled_time::time, time '09:00'),
+    sd.status,
+    sd.response_token,
+    d.user_id,
+    COALESCE(np.timezone, 'Asia/Kolkata')
+  FROM scheduled_donations sd
+  JOIN blood_banks b ON b.id = sd.blood_bank_id
+  JOIN donors d ON d.id = sd.donor_id
+  LEFT JOIN notification_preferences np ON np.user_id = d.user_id;
+
+REVOKE ALL ON booked_appointments FROM anon, authenticated;
+
+-- Mirrors isWithinQuietHours: windows may wrap past midnight
+CREATE OR REPLACE FUNCTION is_within_quiet_hours(
+  p_start time,
+  p_end time,
+  p_timezone text,
+  p_at timestamptz
+)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT CASE
+    WHEN p_start IS NULL OR p_end IS NULL OR p_start = p_end THEN false
+    WHEN p_start < p_end THEN
+      (p_at AT TIME ZONE p_timezone)::time >= p_start
+      AND (p_at AT TIME ZONE p_timezone)::time < p_end
+    ELSE
+      (p_at AT TIME ZONE p_timezone)::time >= p_start
+      OR (p_at AT TIME ZONE p_timezone)::time < p_end
+  END;
+$$;
+
+CREATE OR REPLACE FUNCTION send_user_notification(
+  p_user_id uuid,
+  p_event text,
+  p_channels text[],
+  p_title text,
+  p_message text,
+  p_data jsonb DEFAULT '{}',
+  p_urgent boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_prefs record;
+  v_channel text;
+  v_enabled boolean;
+  v_reason text;
+  v_notification_id uuid;
+  v_functions_url text := current_setting('app.settings.supabase_url', true);
+  v_service_key text := current_setting('app.settings.service_role_key', true);
+  v_can_send boolean;
+BEGIN
+  v_can_send := EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net')
+    AND v_functions_url IS NOT NULL AND v_service_key IS NOT NULL;
+
+  SELECT
+    COALESCE(np.in_app_enabled, true) AS in_app_enabled,
+    COALESCE(np.sms_enabled AND np.phone IS NOT NULL, false) AS sms_enabled,
+    COALESCE(np.email_enabled AND np.email IS NOT NULL, false) AS email_enabled,
+    COALESCE(np.push_enabled AND np.push_token IS NOT NULL, false) AS push_enabled,
+    COALESCE(np.muted_events, '{}') AS muted_events,
+    np.quiet_hours_start,
+    np.quiet_hours_end,
+    COALESCE(np.timezone, 'Asia/Kolkata') AS timezone
+  INTO v_prefs
+  FROM (SELECT 1) one
+  LEFT JOIN notification_preferences np ON np.user_id = p_user_id;
+
+  -- In-app first so the other channels can refer to its id
+  FOREACH v_channel IN ARRAY ARRAY['in_app', 'sms', 'email', 'push']
+  LOOP
+    CONTINUE WHEN NOT v_channel = ANY (p_channels);
+
+    v_enabled := CASE v_channel
+      WHEN 'in_app' THEN v_prefs.in_app_enabled
+      WHEN 'sms' THEN v_prefs.sms_enabled
+      WHEN 'email' THEN v_prefs.email_enabled
+      ELSE v_prefs.push_enabled
+    END;
+
+    v_reason := CASE
+      WHEN NOT v_enabled THEN 'channel_disabled'
+      WHEN p_event = ANY (v_prefs.muted_events) THEN 'event_muted'
+      WHEN v_channel <> 'in_app' AND NOT p_urgent AND is_within_quiet_hours(
+        v_prefs.quiet_hours_start, v_prefs.quiet_hours_end, v_prefs.timezone, now()
+      ) THEN 'quiet_hours'
+      WHEN v_channel <> 'in_app' AND NOT v_can_send THEN 'not_configured'
+    END;
+
+    IF v_reason IS NULL AND v_channel = 'in_app' THEN
+      INSERT INTO notifications (user_id, title, message, type, data)
+      VALUES (p_user_id, p_title, p_message, p_event, p_data)
+      RETURNING id INTO v_notification_id;
+    ELSIF v_reason IS NULL THEN
+      PERFORM net.http_post(
+        url := v_functions_url || '/functions/v1/send-notification',
+        headers := jsonb_build_object(
+          'Authorization', 'Bearer ' || v_service_key,
+          'Content-Type', 'application/json'
+        ),
+        body := jsonb_build_object(
+          'userId', p_user_id,
+          'channel', v_channel,
+          'event', p_event,
+          'notificationId', v_notification_id,
+          'data', p_data
+        )
+      );
+    END IF;
+
+    INSERT INTO notification_deliveries
+      (notification_id, user_id, event_type, channel, status, reason)
+    VALUES
+      (v_notification_id, p_user_id, p_event, v_channel,
+       CASE WHEN v_reason IS NULL THEN 'sent' ELSE 'skipped' END, v_reason);
+  END LOOP;
+
+  RETURN v_notification_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION send_user_notification(uuid, text, text[], text, text, jsonb, boolean)
+  FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION send_appointment_reminders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_appointment record;
+  v_notification_id uuid;
+  v_message text;
+  v_site_url text := current_setting('app.settings.site_url', true);
+  v_sent integer := 0;
+BEGIN
+  FOR v_appointment IN
+    SELECT a.*, k.kind
+    FROM booked_appointments a
+    CROSS JOIN LATERAL (
+      SELECT (a.scheduled_date + a.scheduled_time) AT TIME ZONE a.timezone AS starts_at
+    ) s
+    CROSS JOIN (VALUES ('24h', interval '24 hours'), ('2h', interval '2 hours')) AS k(kind, lead)
+    WHERE a.status IN ('pending', 'scheduled', 'confirmed', 'rescheduled')
+      AND s.starts_at > now()
+      AND s.starts_at - k.lead <= now()
+      -- Bookings made at short notice only get the reminder that is still ahead
+      AND NOT (k.kind = '24h' AND s.starts_at - interval '2 hours' <= now())
+      AND NOT EXISTS (
+        SELECT 1 FROM appointment_reminders ar
+        WHERE ar.facility_type = a.facility_type
+          AND ar.donation_id = a.donation_id
+          AND ar.kind = k.kind
+      )
+  LOOP
+    v_message := format(
+      'Reminder: your blood donation at %s is on %s at %s',
+      v_appointment.facility_name,
+      to_char(v_appointment.scheduled_date, 'FMDay, FMMonth FMDD'),
+      to_char(v_appointment.scheduled_time, 'FMHH12:MI AM')
+    );
+    IF v_site_url IS NOT NULL THEN
+      v_message := v_message || format(
+        '. Confirm or cancel: %s/appointment/%s', v_site_url, v_appointment.response_token
+      );
+    END IF;
+
+    -- Channels of the slot_reminder template, see src/lib/notificationTemplates.ts
+    v_notification_id := send_user_notification(
+      v_appointment.user_id,
+      'slot_reminder',
+      ARRAY['in_app', 'sms', 'email', 'push'],
+      'Donation Reminder',
+      v_message,
+      jsonb_build_object(
+        'scheduled_date', v_appointment.scheduled_date,
+        'scheduled_time', to_char(v_appointment.scheduled_time, 'HH24:MI'),
+        'facility_name', v_appointment.facility_name,
+        'schedule_id', v_appointment.donation_id,
+        'response_token', v_appointment.response_token,
+        'appointment_url', v_site_url || '/appointment/' || v_appointment.response_token
+      )
+    );
+
+    INSERT INTO appointment_reminders (facility_type, donation_id, user_id, kind, notification_id)
+    VALUES (
+      v_appointment.facility_type, v_appointment.donation_id, v_appointment.user_id,
+      v_appointment.kind, v_notification_id
+    );
+
+    v_sent := v_sent + 1;
+  END LOOP;
+
+  RETURN v_sent;
+END;
+$$;
+
+-- Bookings still open the day after their slot were never verified by the
+-- facility, so the donor did not turn up
+CREATE OR REPLACE FUNCTION mark_no_show_donations()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_appointment record;
+  v_marked integer := 0;
+BEGIN
+  FOR v_appointment IN
+    SELECT a.facility_type, a.donation_id
+    FROM booked_appointments a
+    WHERE a.status IN ('pending', 'scheduled', 'confirmed', 'rescheduled')
+      AND a.scheduled_date < (now() AT TIME ZONE a.timezone)::date
+  LOOP
+    IF v_appointment.facility_type = 'hospital' THEN
+      UPDATE hospital_donations
+      SET status = 'no_show', updated_at = now()
+      WHERE id = v_appointment.donation_id;
+
+      PERFORM adjust_slot_booked_count('hospital', slot_id, -1)
+      FROM hospital_donations
+      WHERE id = v_appointment.donation_id AND slot_id IS NOT NULL;
+    ELSE
+      UPDATE scheduled_donations
+      SET status = 'no_show', updated_at = now()
+      WHERE id = v_appointment.donation_id;
+
+      PERFORM adjust_slot_booked_count('blood_bank', slot_id, -1)
+      FROM scheduled_donations
+      WHERE id = v_appointment.donation_id AND slot_id IS NOT NULL;
+    END IF;
+
+    v_marked := v_marked + 1;
+  END LOOP;
+
+  RETURN v_marked;
+END;
+$$;
+
+-- Cancellation and waitlist promotion without the caller check, shared by
+-- the signed-in and the reminder link paths. The promoted donor is told
+-- here, as the reminder link path has nobody signed in to send it.
+CREATE OR REPLACE FUNCTION release_donation_booking(
+  p_facility_type text,
+  p_donation_id uuid,
+  p_notes text
+)
+RETURNS TABLE (
+  promoted_user_id uuid,
+  promoted_donation_id uuid,
+  scheduled_date date,
+  scheduled_time text,
+  facility_name text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_slot_id uuid;
+  v_date date;
+  v_promotion record;
+BEGIN
+  IF p_facility_type = 'hospital' THEN
+    UPDATE hospital_donations hd
+    SET status = 'cancelled', notes = COALESCE(p_notes, hd.notes), updated_at = now()
+    WHERE hd.id = p_donation_id
+    RETURNING hd.slot_id, hd.donation_date::date INTO v_slot_id, v_date;
+  ELSE
+    UPDATE scheduled_donations sd
+    SET status = 'cancelled', notes = COALESCE(p_notes, sd.notes), updated_at = now()
+    WHERE sd.id = p_donation_id
+    RETURNING sd.slot_id, sd.scheduled_date::date INTO v_slot_id, v_date;
+  END IF;
+
+  IF v_slot_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  PERFORM adjust_slot_booked_count(p_facility_type, v_slot_id, -1);
+
+  SELECT * INTO v_promotion FROM promote_slot_waitlist(p_facility_type, v_slot_id, v_date);
+
+  IF v_promotion.promoted_user_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  -- Channels and wording of the waitlist_promoted template
+  PERFORM send_user_notification(
+    v_promotion.promoted_user_id,
+    'waitlist_promoted',
+    ARRAY['in_app', 'sms', 'email', 'push'],
+    'A Donation Slot Opened Up',
+    format(
+      'A place opened up%s and your donation is now booked for %s at %s',
+      COALESCE(' at ' || v_promotion.facility_name, ''),
+      to_char(v_promotion.scheduled_date, 'FMDay, FMMonth FMDD'),
+      to_char(v_promotion.scheduled_time::time, 'FMHH12:MI AM')
+    ),
+    jsonb_build_object(
+      'scheduled_date', v_promotion.scheduled_date,
+      'scheduled_time', v_promotion.scheduled_time,
+      'facility_name', v_promotion.facility_name,
+      'donation_id', v_promotion.promoted_donation_id
+    )
+  );
+
+  RETURN QUERY SELECT
+    v_promotion.promoted_user_id,
+    v_promotion.promoted_donation_id,
+    v_promotion.scheduled_date,
+    v_promotion.scheduled_time,
+    v_promotion.facility_name;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION cancel_donation_booking(
+  p_facility_type text,
+  p_donation_id uuid,
+  p_notes text DEFAULT NULL
+)
+RETURNS TABLE (
+  promoted_user_id uuid,
+  promoted_donation_id uuid,
+  scheduled_date date,
+  scheduled_time text,
+  facility_name text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_appointment booked_appointments%ROWTYPE;
+BEGIN
+  SELECT * INTO v_appointment
+  FROM booked_appointments a
+  WHERE a.facility_type = p_facility_type AND a.donation_id = p_donation_id;
+
+  IF NOT FOUND OR NOT (
+    v_appointment.user_id = auth.uid()
+    OR EXISTS (SELECT 1 FROM hospitals WHERE id = v_appointment.facility_id AND user_id = auth.uid())
+    OR EXISTS (SELECT 1 FROM blood_banks WHERE id = v_appointment.facility_id AND user_id = auth.uid())
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to cancel this donation';
+  END IF;
+
+  IF v_appointment.status NOT IN ('pending', 'scheduled', 'confirmed', 'rescheduled') THEN
+    RAISE EXCEPTION 'Only upcoming donations can be cancelled';
+  END IF;
+
+  RETURN QUERY SELECT * FROM release_donation_booking(p_facility_type, p_donation_id, p_notes);
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION get_appointment_by_token(p_token uuid)
+RETURNS TABLE (
+  facility_type text,
+  facility_name text,
+  scheduled_date date,
+  scheduled_time text,
+  status text
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT a.facility_type, a.facility_name, a.scheduled_date,
+         to_char(a.scheduled_time, 'HH24:MI'), a.status
+  FROM booked_appointments a
+  WHERE a.response_token = p_token;
+$$;
+
+CREATE OR REPLACE FUNCTION respond_to_appointment(p_token uuid, p_response text)
+RETURNS TABLE (
+  promoted_user_id uuid,
+  promoted_donation_id uuid,
+  scheduled_date date,
+  scheduled_time text,
+  facility_name text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_appointment booked_appointments%ROWTYPE;
+BEGIN
+  SELECT * INTO v_appointment
+  FROM booked_appointments a
+  WHERE a.response_token = p_token;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Appointment not found';
+  END IF;
+
+  IF v_appointment.status NOT IN ('pending', 'scheduled', 'confirmed', 'rescheduled') THEN
+    RAISE EXCEPTION 'This appointment can no longer be changed';
+  END IF;
+
+  IF p_response = 'confirm' THEN
+    IF v_appointment.facility_type = 'hospital' THEN
+      UPDATE hospital_donations SET status = 'confirmed', updated_at = now()
+      WHERE id = v_appointment.donation_id;
+    ELSE
+      UPDATE scheduled_donations SET status = 'confirmed', updated_at = now()
+      WHERE id = v_appointment.donation_id;
+    END IF;
+  ELSIF p_response = 'cancel' THEN
+    RETURN QUERY SELECT * FROM release_donation_booking(
+      v_appointment.facility_type, v_appointment.donation_id, 'Cancelled from reminder'
+    );
+  ELSE
+    RAISE EXCEPTION 'Unknown response %', p_response;
+  END IF;
+END;
+$$;
+
+-- Per donor: bookings that have happened (neither cancelled nor upcoming)
+-- and how many were missed, overall and at this hospital
+CREATE OR REPLACE FUNCTION get_no_show_stats(p_hospital_id uuid, p_since date)
+RETURNS TABLE (
+  donor_id uuid,
+  donor_name text,
+  blood_type text,
+  bookings integer,
+  no_shows integer,
+  hospital_bookings integer,
+  hospital_no_shows integer
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM hospitals WHERE id = p_hospital_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to view no-shows for this hospital';
+  END IF;
+
+  RETURN QUERY
+  WITH past AS (
+    SELECT a.*
+    FROM booked_appointments a
+    WHERE a.scheduled_date >= p_since
+      AND a.status NOT IN ('cancelled', 'pending', 'scheduled', 'confirmed', 'rescheduled')
+  )
+  SELECT
+    d.id,
+    d.first_name || ' ' || d.last_name,
+    d.blood_type,
+    count(*)::integer,
+    count(*) FILTER (WHERE past.status = 'no_show')::integer,
+    count(*) FILTER (WHERE past.facility_id = p_hospital_id)::integer,
+    count(*) FILTER (WHERE past.facility_id = p_hospital_id AND past.status = 'no_show')::integer
+  FROM past
+  JOIN donors d ON d.id = past.donor_id
+  WHERE past.donor_id IN (
+    SELECT hd.donor_id FROM hospital_donations hd WHERE hd.hospital_id = p_hospital_id
+  )
+  GROUP BY d.id, d.first_name, d.last_name, d.blood_type;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION send_appointment_reminders() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION mark_no_show_donations() FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION release_donation_booking(text, uuid, text) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION get_appointment_by_token(uuid) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION respond_to_appointment(uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_no_show_stats(uuid, date) TO authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'send-appointment-reminders',
+      '*/15 * * * *',
+      'SELECT send_appointment_reminders()'
+    );
+    PERFORM cron.schedule(
+      'mark-no-show-donations',
+      '15 * * * *',
+      'SELECT mark_no_show_donations()'
+    );
+  END IF;
+END;
+$$;
@@ -0,0 +1,66 @@
+/*
+  # Hospital calendar feeds
+
+  1. New Tables
+    - `hospital_calendar_feeds`: the secret token in each hospital's calendar
+      feed URL
+
+  2. Changes
+    - `get_hospital_calendar_feed_token` returns the hospital's token,
+      creating it on first use; passing `p_reset` replaces it so the old URL
+      stops working
+    - The feed itself is served by the hospital-calendar-feed Edge Function,
+      which looks the token up and lists the hospital's bookings with their
+      `scheduled_at`, in UTC
+
+  3. Security
+    - Tokens are only readable by the hospital's own account; calendar apps
+      fetch the feed with the token alone, so it is never shown publicly
+*/
+
+CREATE TABLE IF NOT EXISTS hospital_calendar_feeds (
+  hospital_id uuid PRIMARY KEY REFERENCES hospitals(id) ON DELETE CASCADE,
+  token uuid NOT NULL UNIQUE DEFAULT gen_random_uuid(),
+  created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE hospital_calendar_feeds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Hospitals read their calendar feed"
+  ON hospital_calendar_feeds FOR SELECT TO authenticated
+  USING (
+    EXISTS (
+      SELECT 1 FROM hospitals h
+      WHERE h.id = hospital_calendar_feeds.hospital_id AND h.user_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION get_hospital_calendar_feed_token(
+  p_hospital_id uuid,
+  p_reset boolean DEFAULT false
+)
+RETURNS uuid
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_token uuid;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM hospitals WHERE id = p_hospital_id AND user_id = auth.uid()) THEN
+    RAISE EXCEPTION 'Not allowed to manage the calendar feed for this hospital';
+  END IF;
+
+  INSERT INTO hospital_calendar_feeds (hospital_id)
+  VALUES (p_hospital_id)
+  ON CONFLICT (hospital_id) DO UPDATE
+    SET token = CASE WHEN p_reset THEN gen_random_uuid() ELSE hospital_calendar_feeds.token END,
+        created_at = CASE WHEN p_reset THEN now() ELSE hospital_calendar_feeds.created_at END
+  RETURNING token INTO v_token;
+
+  RETURN v_token;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION get_hospital_calendar_feed_token(uuid, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION get_hospital_calendar_feed_token(uuid, boolean) TO authenticated;
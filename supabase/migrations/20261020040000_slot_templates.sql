@@ -0,0 +1,830 @@
+/*
+  # Recurring slot templates and closures
+
+  1. New Tables
+    - `slot_templates`: a facility's recurring opening pattern, e.g. Mon-Fri
+      9:00-13:00 in 20-minute slots with 3 beds. Weekdays are ISO numbers
+      (1 = Monday ... 7 = Sunday) rather than day names.
+    - `slot_closures`: days a facility is closed (holidays, staff training),
+      on which no slots are offered
+
+  2. Changes
+    - Hospital and blood bank slots can now be dated: `template_id` links
+      the slots generated from a template and blood bank slots get a
+      `slot_date`. Dated slots are offered on their date only; weekly slots
+      without a date keep matching by day name. Generated slots keep their
+      day name so the facility search still finds them.
+    - `get_available_slots` leaves out closed days
+    - `save_slot_template` creates or changes a template and generates its
+      slots up to a chosen date, adding new slots, resizing kept ones and
+      removing the ones the template no longer produces. With `p_dry_run`
+      it only returns the bookings the change would cancel; otherwise it
+      refuses to cancel bookings unless `p_cancel_conflicts` is set.
+    - `add_slot_closure` closes a day the same way, and `remove_slot_closure`
+      reopens it and regenerates the templates' slots for that day
+    - Donors waiting for a slot that is removed or closed leave its waitlist
+      and are sent `waitlist_closed`
+    - Bookings and waitlist entries are checked against the slot's date and
+      closures when they are made
+
+  3. Security
+    - Templates and closures are managed by the facility's own account
+    - The slot generation and conflict helpers are internal and cannot be
+      called by anon or authenticated users
+*/
+
+CREATE TABLE IF NOT EXISTS slot_templates (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  facility_type text NOT NULL CHECK (facility_type IN ('hospital', 'blood_bank')),
+  facility_id uuid NOT NULL,
+  name text,
+  weekdays smallint[] NOT NULL
+    CHECK (cardinality(weekdays) > 0 AND weekdays <@ ARRAY[1, 2, 3, 4, 5, 6, 7]::smallint[]),
+  start_time time NOT NULL,
+  end_time time NOT NULL,
+  slot_minutes integer NOT NULL CHECK (slot_minutes BETWEEN 5 AND 480),
+  capacity integer NOT NULL CHECK (capacity > 0),
+  valid_from date NOT NULL DEFAULT current_date,
+  valid_until date,
+  is_active boolean NOT NULL DEFAULT true,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  updated_at timestamptz,
+  CHECK (end_time > start_time),
+  CHECK (valid_until IS NULL OR valid_until >= valid_from)
+);
+
+CREATE INDEX IF NOT EXISTS slot_templates_facility_idx
+  ON slot_templates (facility_type, facility_id);
+
+CREATE TABLE IF NOT EXISTS slot_closures (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  facility_type text NOT NULL CHECK (facility_type IN ('hospital', 'blood_bank')),
+  facility_id uuid NOT NULL,
+  closure_date date NOT NULL,
+  reason text,
+  created_at timestamptz NOT NULL DEFAULT now(),
+  UNIQUE (facility_type, facility_id, closure_date)
+);
+
+ALTER TABLE hospital_donation_slots
+  ADD COLUMN IF NOT EXISTS template_id uuid REFERENCES slot_templates(id) ON DELETE SET NULL;
+
+ALTER TABLE blood_bank_slots
+  ADD COLUMN IF NOT EXISTS template_id uuid REFERENCES slot_templates(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS slot_date date;
+
+CREATE INDEX IF NOT EXISTS hospital_donation_slots_template_idx
+  ON hospital_donation_slots (template_id, date);
+
+CREATE INDEX IF NOT EXISTS blood_bank_slots_template_idx
+  ON blood_bank_slots (template_id, slot_date);
+
+-- Whether the signed-in user runs this hospital or blood bank
+CREATE OR REPLACE FUNCTION owns_facility(p_facility_type text, p_facility_id uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT CASE p_facility_type
+    WHEN 'hospital' THEN EXISTS (
+      SELECT 1 FROM hospitals WHERE id = p_facility_id AND user_id = auth.uid()
+    )
+    WHEN 'blood_bank' THEN EXISTS (
+      SELECT 1 FROM blood_banks WHERE id = p_facility_id AND user_id = auth.uid()
+    )
+    ELSE false
+  END;
+$$;
+
+ALTER TABLE slot_templates ENABLE ROW LEVEL SECURITY;
+ALTER TABLE slot_closures ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Facilities read their slot templates"
+  ON slot_templates FOR SELECT TO authenticated
+  USING (owns_facility(facility_type, facility_id));
+
+CREATE POLICY "Facilities read their closures"
+  ON slot_closures FOR SELECT TO authenticated
+  USING (owns_facility(facility_type, facility_id));
+
+-- Both views below pick up the slot and donor, appended so existing
+-- %ROWTYPE variables keep their column order
+CREATE OR REPLACE VIEW booked_appointments AS
+  SELECT
+    'hospital'::text AS facility_type,
+    hd.id AS donation_id,
+    hd.donor_id,
+    hd.hospital_id AS facility_id,
+    h.name AS facility_name,
+    hd.donation_date::date AS scheduled_date,
+    COALESCE(hd.scheduled_time::time, hd.donation_date::time) AS scheduled_time,
+    hd.status,
+    hd.response_token,
+    d.user_id,
+    COALESCE(np.timezone, 'Asia/Kolkata') AS timezone,
+    hd.slot_id,
+    hd.created_at AS booked_at,
+    trim(d.first_name || ' ' || COALESCE(d.last_name, '')) AS donor_name
+  FROM hospital_donations hd
+  JOIN hospitals h ON h.id = hd.hospital_id
+  JOIN donors d ON d.id = hd.donor_id
+  LEFT JOIN notification_preferences np ON np.user_id = d.user_id
+  UNION ALL
+  SELECT
+    'blood_bank',
+    sd.id,
+    sd.donor_id,
+    sd.blood_bank_id,
+    b.name,
+    sd.scheduled_date::date,
+    COALESCE(sd.scheduled_time::time, time '09:00'),
+    sd.status,
+    sd.response_token,
+    d.user_id,
+    COALESCE(np.timezone, 'Asia/Kolkata'),
+    sd.slot_id,
+    sd.created_at,
+    trim(d.first_name || ' ' || COALESCE(d.last_name, ''))
+  FROM scheduled_donations sd
+  JOIN blood_banks b ON b.id = sd.blood_bank_id
+  JOIN donors d ON d.id = sd.donor_id
+  LEFT JOIN notification_preferences np ON np.user_id = d.user_id;
+
+REVOKE ALL ON booked_appointments FROM anon, authenticated;
+
+-- Whether a slot runs on a date: dated slots on their date, weekly slots on
+-- their day, and neither on a closed day
+CREATE OR REPLACE FUNCTION slot_runs_on(p_facility_type text, p_slot_id uuid, p_date date)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM hospital_donation_slots s
+    WHERE p_facility_type = 'hospital'
+      AND s.id = p_slot_id
+      AND (
+        s.date::date = p_date
+        OR (s.date IS NULL AND lower(trim(s.day_of_week)) = lower(to_char(p_date, 'FMDay')))
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM slot_closures c
+        WHERE c.facility_type = 'hospital' AND c.facility_id = s.hospital_id
+          AND c.closure_date = p_date
+      )
+    UNION ALL
+    SELECT 1
+    FROM blood_bank_slots s
+    WHERE p_facility_type = 'blood_bank'
+      AND s.id = p_slot_id
+      AND (
+        s.slot_date = p_date
+        OR (s.slot_date IS NULL AND lower(trim(s.day_of_week_text)) = lower(to_char(p_date, 'FMDay')))
+      )
+      AND NOT EXISTS (
+        SELECT 1 FROM slot_closures c
+        WHERE c.facility_type = 'blood_bank' AND c.facility_id = s.blood_bank_id
+          AND c.closure_date = p_date
+      )
+  );
+$$;
+
+CREATE OR REPLACE FUNCTION get_available_slots(
+  p_date date,
+  p_facility_id uuid,
+  p_facility_type text
+)
+RETURNS TABLE (
+  id uuid,
+  day text,
+  start_time text,
+  end_time text,
+  capacity integer,
+  booked_count integer,
+  waitlist_count integer,
+  available boolean
+)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  WITH slots AS (
+    SELECT s.id, s.day_of_week AS day, s.start_time::time AS start_time,
+           s.end_time::time AS end_time, s.capacity
+    FROM hospital_donation_slots s
+    WHERE p_facility_type = 'hospital'
+      AND s.hospital_id = p_facility_id
+    UNION ALL
+    SELECT s.id, s.day_of_week_text, s.start_time::time, s.end_time::time,
+           COALESCE(NULLIF(s.capacity, 0), s.max_donors_per_slot, 0)
+    FROM blood_bank_slots s
+    WHERE p_facility_type = 'blood_bank'
+      AND s.blood_bank_id = p_facility_id
+  )
+  SELECT
+    slots.id,
+    COALESCE(slots.day, ''),
+    to_char(slots.start_time, 'HH24:MI'),
+    to_char(slots.end_time, 'HH24:MI'),
+    slots.capacity,
+    booked.count,
+    (
+      SELECT count(*)::integer FROM slot_waitlist_entries w
+      WHERE w.slot_id = slots.id AND w.slot_date = p_date AND w.status = 'waiting'
+    ),
+    booked.count < slots.capacity
+  FROM slots
+  CROSS JOIN LATERAL (
+    SELECT slot_booking_count(p_facility_type, slots.id, p_date) AS count
+  ) booked
+  WHERE slot_runs_on(p_facility_type, slots.id, p_date)
+  ORDER BY slots.start_time;
+$$;
+
+-- Refuse bookings and waitlist entries for a date their slot does not run on
+CREATE OR REPLACE FUNCTION check_slot_date()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_facility_type text;
+  v_date date;
+  v_old_date date;
+BEGIN
+  IF NEW.slot_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Each branch only reads the date column of its own table
+  IF TG_TABLE_NAME = 'hospital_donations' THEN
+    v_facility_type := 'hospital';
+    v_date := NEW.donation_date::date;
+    IF TG_OP = 'UPDATE' THEN
+      v_old_date := OLD.donation_date::date;
+    END IF;
+  ELSIF TG_TABLE_NAME = 'scheduled_donations' THEN
+    v_facility_type := 'blood_bank';
+    v_date := NEW.scheduled_date::date;
+    IF TG_OP = 'UPDATE' THEN
+      v_old_date := OLD.scheduled_date::date;
+    END IF;
+  ELSE
+    v_facility_type := NEW.facility_type;
+    v_date := NEW.slot_date;
+  END IF;
+
+  IF TG_OP = 'UPDATE' AND NEW.slot_id IS NOT DISTINCT FROM OLD.slot_id AND v_old_date = v_date THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT slot_runs_on(v_facility_type, NEW.slot_id, v_date) THEN
+    RAISE EXCEPTION 'This slot is not open on %', v_date;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER hospital_donations_check_slot_date
+  BEFORE INSERT OR UPDATE ON hospital_donations
+  FOR EACH ROW EXECUTE FUNCTION check_slot_date();
+
+CREATE TRIGGER scheduled_donations_check_slot_date
+  BEFORE INSERT OR UPDATE ON scheduled_donations
+  FOR EACH ROW EXECUTE FUNCTION check_slot_date();
+
+CREATE TRIGGER slot_waitlist_entries_check_slot_date
+  BEFORE INSERT ON slot_waitlist_entries
+  FOR EACH ROW EXECUTE FUNCTION check_slot_date();
+
+-- Slot times a template produces from p_from to p_to, skipping closed days.
+-- Sessions that would run past the template's end time are left out.
+CREATE OR REPLACE FUNCTION plan_template_slots(p_template slot_templates, p_from date, p_to date)
+RETURNS TABLE (slot_date date, start_time time, end_time time)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT d.day::date, s.start_at::time, (s.start_at + make_interval(mins => p_template.slot_minutes))::time
+  FROM generate_series(
+    GREATEST(p_from, p_template.valid_from)::timestamp,
+    LEAST(p_to, COALESCE(p_template.valid_until, p_to))::timestamp,
+    interval '1 day'
+  ) AS d(day)
+  CROSS JOIN LATERAL generate_series(
+    d.day::date + p_template.start_time,
+    d.day::date + p_template.end_time - make_interval(mins => p_template.slot_minutes),
+    make_interval(mins => p_template.slot_minutes)
+  ) AS s(start_at)
+  WHERE p_template.is_active
+    AND extract(isodow FROM d.day)::smallint = ANY (p_template.weekdays)
+    AND NOT EXISTS (
+      SELECT 1 FROM slot_closures c
+      WHERE c.facility_type = p_template.facility_type
+        AND c.facility_id = p_template.facility_id
+        AND c.closure_date = d.day::date
+    );
+$$;
+
+-- Slots already generated from a template, in either slot table
+CREATE OR REPLACE FUNCTION template_generated_slots(p_template_id uuid)
+RETURNS TABLE (slot_id uuid, slot_date date, start_time time, end_time time)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT s.id, s.date::date, s.start_time::time, s.end_time::time
+  FROM hospital_donation_slots s
+  WHERE s.template_id = p_template_id
+  UNION ALL
+  SELECT s.id, s.slot_date, s.start_time::time, s.end_time::time
+  FROM blood_bank_slots s
+  WHERE s.template_id = p_template_id;
+$$;
+
+-- Upcoming bookings a template change would cancel: every booking in a slot
+-- the template no longer produces, and the latest bookings beyond a reduced
+-- capacity
+CREATE OR REPLACE FUNCTION slot_template_conflicts(
+  p_template slot_templates,
+  p_from date,
+  p_until date
+)
+RETURNS TABLE (
+  donation_id uuid,
+  user_id uuid,
+  donor_name text,
+  scheduled_date date,
+  scheduled_time text,
+  reason text
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  WITH planned AS (
+    SELECT * FROM plan_template_slots(p_template, p_from, p_until)
+  ),
+  bookings AS (
+    SELECT
+      a.*,
+      -- Slots after p_until are left as they are, only resized
+      g.slot_date <= p_until AND NOT EXISTS (
+        SELECT 1 FROM planned p
+        WHERE p.slot_date = g.slot_date AND p.start_time = g.start_time AND p.end_time = g.end_time
+      ) AS removed,
+      row_number() OVER (PARTITION BY g.slot_id ORDER BY a.booked_at, a.donation_id) AS place
+    FROM template_generated_slots(p_template.id) g
+    JOIN booked_appointments a
+      ON a.facility_type = p_template.facility_type
+     AND a.slot_id = g.slot_id
+     AND a.scheduled_date = g.slot_date
+    WHERE g.slot_date >= p_from
+      AND a.status IN ('pending', 'scheduled', 'confirmed', 'rescheduled')
+  )
+  SELECT b.donation_id, b.user_id, b.donor_name, b.scheduled_date,
+         to_char(b.scheduled_time, 'HH24:MI'),
+         CASE WHEN b.removed THEN 'slot_removed' ELSE 'over_capacity' END
+  FROM bookings b
+  WHERE b.removed OR b.place > p_template.capacity
+  ORDER BY b.scheduled_date, b.scheduled_time;
+$$;
+
+-- Adds the template's planned slots that do not exist yet
+CREATE OR REPLACE FUNCTION insert_template_slots(p_template slot_templates, p_from date, p_to date)
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  IF p_template.facility_type = 'hospital' THEN
+    INSERT INTO hospital_donation_slots (
+      hospital_id, date, day_of_week, start_time, end_time, capacity, booked_count,
+      is_recurring, template_id
+    )
+    SELECT p_template.facility_id, p.slot_date, to_char(p.slot_date, 'FMDay'),
+           p.start_time, p.end_time, p_template.capacity, 0, false, p_template.id
+    FROM plan_template_slots(p_template, p_from, p_to) p
+    WHERE NOT EXISTS (
+      SELECT 1 FROM template_generated_slots(p_template.id) g
+      WHERE g.slot_date = p.slot_date AND g.start_time = p.start_time AND g.end_time = p.end_time
+    );
+  ELSE
+    INSERT INTO blood_bank_slots (
+      blood_bank_id, slot_date, day_of_week, day_of_week_text, start_time, end_time,
+      capacity, max_donors_per_slot, template_id
+    )
+    SELECT p_template.facility_id, p.slot_date, extract(isodow FROM p.slot_date)::integer - 1,
+           to_char(p.slot_date, 'FMDay'), p.start_time, p.end_time,
+           p_template.capacity, p_template.capacity, p_template.id
+    FROM plan_template_slots(p_template, p_from, p_to) p
+    WHERE NOT EXISTS (
+      SELECT 1 FROM template_generated_slots(p_template.id) g
+      WHERE g.slot_date = p.slot_date AND g.start_time = p.start_time AND g.end_time = p.end_time
+    );
+  END IF;
+END;
+$$;
+
+-- Deletes generated slots after moving their waitlists out and detaching
+-- the (by now cancelled or past) bookings that point at them
+CREATE OR REPLACE FUNCTION delete_generated_slots(p_facility_type text, p_slot_ids uuid[])
+RETURNS void
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+  UPDATE slot_waitlist_entries
+  SET status = 'left'
+  WHERE slot_id = ANY (p_slot_ids) AND status = 'waiting';
+
+  IF p_facility_type = 'hospital' THEN
+    UPDATE hospital_donations SET slot_id = NULL WHERE slot_id = ANY (p_slot_ids);
+    DELETE FROM hospital_donation_slots WHERE id = ANY (p_slot_ids);
+  ELSE
+    UPDATE scheduled_donations SET slot_id = NULL WHERE slot_id = ANY (p_slot_ids);
+    DELETE FROM blood_bank_slots WHERE id = ANY (p_slot_ids);
+  END IF;
+END;
+$$;
+
+-- Tells a donor whose waitlist entry was dropped, while the slot still exists
+CREATE OR REPLACE FUNCTION notify_waitlist_closed(
+  p_entry slot_waitlist_entries,
+  p_reason text
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_user_id uuid;
+  v_facility_name text;
+  v_start_time time;
+BEGIN
+  SELECT d.user_id INTO v_user_id FROM donors d WHERE d.id = p_entry.donor_id;
+
+  IF p_entry.facility_type = 'hospital' THEN
+    SELECT h.name, s.start_time::time INTO v_facility_name, v_start_time
+    FROM hospital_donation_slots s
+    JOIN hospitals h ON h.id = s.hospital_id
+    WHERE s.id = p_entry.slot_id;
+  ELSE
+    SELECT b.name, s.start_time::time INTO v_facility_name, v_start_time
+    FROM blood_bank_slots s
+    JOIN blood_banks b ON b.id = s.blood_bank_id
+    WHERE s.id = p_entry.slot_id;
+  END IF;
+
+  -- Channels and wording of the waitlist_closed template
+  PERFORM send_user_notification(
+    v_user_id,
+    'waitlist_closed',
+    ARRAY['in_app', 'email', 'push'],
+    'Waitlist Closed',
+    format(
+      'The slot you were waiting for%s on %s%s is no longer available. %s Please book another slot.',
+      COALESCE(' at ' || v_facility_name, ''),
+      to_char(p_entry.slot_date, 'FMDay, FMMonth FMDD'),
+      COALESCE(' at ' || to_char(v_start_time, 'FMHH12:MI AM'), ''),
+      p_reason
+    ),
+    jsonb_build_object(
+      'scheduled_date', p_entry.slot_date,
+      'scheduled_time', to_char(v_start_time, 'HH24:MI'),
+      'facility_name', v_facility_name,
+      'reason', p_reason
+    )
+  );
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION save_slot_template(
+  p_template_id uuid,
+  p_facility_type text,
+  p_facility_id uuid,
+  p_name text,
+  p_weekdays smallint[],
+  p_start_time time,
+  p_end_time time,
+  p_slot_minutes integer,
+  p_capacity integer,
+  p_valid_from date,
+  p_valid_until date,
+  p_is_active boolean,
+  p_generate_until date,
+  p_dry_run boolean DEFAULT false,
+  p_cancel_conflicts boolean DEFAULT false
+)
+RETURNS TABLE (
+  donation_id uuid,
+  user_id uuid,
+  donor_name text,
+  scheduled_date date,
+  scheduled_time text,
+  reason text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_template slot_templates%ROWTYPE;
+  v_from date := current_date;
+  v_conflict record;
+  v_entry slot_waitlist_entries%ROWTYPE;
+  v_removed uuid[];
+BEGIN
+  IF NOT owns_facility(p_facility_type, p_facility_id) THEN
+    RAISE EXCEPTION 'Not allowed to manage slots for this facility';
+  END IF;
+
+  IF p_template_id IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM slot_templates t
+    WHERE t.id = p_template_id
+      AND t.facility_type = p_facility_type
+      AND t.facility_id = p_facility_id
+  ) THEN
+    RAISE EXCEPTION 'Slot template not found';
+  END IF;
+
+  IF p_generate_until < v_from OR p_generate_until > v_from + 366 THEN
+    RAISE EXCEPTION 'Slots can be generated up to a year ahead';
+  END IF;
+
+  v_template.id := COALESCE(p_template_id, gen_random_uuid());
+  v_template.facility_type := p_facility_type;
+  v_template.facility_id := p_facility_id;
+  v_template.name := p_name;
+  v_template.weekdays := p_weekdays;
+  v_template.start_time := p_start_time;
+  v_template.end_time := p_end_time;
+  v_template.slot_minutes := p_slot_minutes;
+  v_template.capacity := p_capacity;
+  v_template.valid_from := COALESCE(p_valid_from, v_from);
+  v_template.valid_until := p_valid_until;
+  v_template.is_active := p_is_active;
+
+  IF p_dry_run THEN
+    RETURN QUERY SELECT * FROM slot_template_conflicts(v_template, v_from, p_generate_until);
+    RETURN;
+  END IF;
+
+  IF NOT p_cancel_conflicts AND EXISTS (
+    SELECT 1 FROM slot_template_conflicts(v_template, v_from, p_generate_until)
+  ) THEN
+    RAISE EXCEPTION 'This change would cancel booked donations';
+  END IF;
+
+  -- The table's checks validate the template before any slot changes
+  INSERT INTO slot_templates (
+    id, facility_type, facility_id, name, weekdays, start_time, end_time,
+    slot_minutes, capacity, valid_from, valid_until, is_active
+  )
+  VALUES (
+    v_template.id, p_facility_type, p_facility_id, p_name, p_weekdays, p_start_time,
+    p_end_time, p_slot_minutes, p_capacity, v_template.valid_from, p_valid_until, p_is_active
+  )
+  ON CONFLICT (id) DO UPDATE
+    SET name = EXCLUDED.name,
+        weekdays = EXCLUDED.weekdays,
+        start_time = EXCLUDED.start_time,
+        end_time = EXCLUDED.end_time,
+        slot_minutes = EXCLUDED.slot_minutes,
+        capacity = EXCLUDED.capacity,
+        valid_from = EXCLUDED.valid_from,
+        valid_until = EXCLUDED.valid_until,
+        is_active = EXCLUDED.is_active,
+        updated_at = now();
+
+  SELECT array_agg(g.slot_id) INTO v_removed
+  FROM template_generated_slots(v_template.id) g
+  WHERE g.slot_date >= v_from
+    AND g.slot_date <= p_generate_until
+    AND NOT EXISTS (
+      SELECT 1 FROM plan_template_slots(v_template, v_from, p_generate_until) p
+      WHERE p.slot_date = g.slot_date AND p.start_time = g.start_time AND p.end_time = g.end_time
+    );
+
+  -- Capacities shrink and waitlists of removed slots are dropped before any
+  -- booking is cancelled, so no one is promoted into a place that is going
+  FOR v_entry IN
+    UPDATE slot_waitlist_entries w
+    SET status = 'left'
+    WHERE w.slot_id = ANY (COALESCE(v_removed, '{}')) AND w.status = 'waiting'
+    RETURNING w.*
+  LOOP
+    PERFORM notify_waitlist_closed(v_entry, 'The facility changed its donation hours.');
+  END LOOP;
+
+  IF p_facility_type = 'hospital' THEN
+    UPDATE hospital_donation_slots s
+    SET capacity = p_capacity, updated_at = now()
+    WHERE s.template_id = v_template.id AND s.date::date >= v_from AND s.capacity <> p_capacity;
+  ELSE
+    UPDATE blood_bank_slots s
+    SET capacity = p_capacity, max_donors_per_slot = p_capacity, updated_at = now()
+    WHERE s.template_id = v_template.id AND s.slot_date >= v_from AND s.capacity <> p_capacity;
+  END IF;
+
+  FOR v_conflict IN
+    SELECT * FROM slot_template_conflicts(v_template, v_from, p_generate_until)
+  LOOP
+    PERFORM release_donation_booking(
+      p_facility_type, v_conflict.donation_id, 'Cancelled: the donation hours changed'
+    );
+    donation_id := v_conflict.donation_id;
+    user_id := v_conflict.user_id;
+    donor_name := v_conflict.donor_name;
+    scheduled_date := v_conflict.scheduled_date;
+    scheduled_time := v_conflict.scheduled_time;
+    reason := v_conflict.reason;
+    RETURN NEXT;
+  END LOOP;
+
+  IF v_removed IS NOT NULL THEN
+    PERFORM delete_generated_slots(p_facility_type, v_removed);
+  END IF;
+
+  PERFORM insert_template_slots(v_template, v_from, p_generate_until);
+END;
+$$;
+
+-- Upcoming bookings at a facility on a day it is about to close
+CREATE OR REPLACE FUNCTION slot_closure_conflicts(
+  p_facility_type text,
+  p_facility_id uuid,
+  p_date date
+)
+RETURNS TABLE (
+  donation_id uuid,
+  user_id uuid,
+  donor_name text,
+  scheduled_date date,
+  scheduled_time text,
+  reason text
+)
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT a.donation_id, a.user_id, a.donor_name, a.scheduled_date,
+         to_char(a.scheduled_time, 'HH24:MI'), 'closed'
+  FROM booked_appointments a
+  WHERE a.facility_type = p_facility_type
+    AND a.facility_id = p_facility_id
+    AND a.scheduled_date = p_date
+    AND a.status IN ('pending', 'scheduled', 'confirmed', 'rescheduled')
+  ORDER BY a.scheduled_time;
+$$;
+
+CREATE OR REPLACE FUNCTION add_slot_closure(
+  p_facility_type text,
+  p_facility_id uuid,
+  p_date date,
+  p_reason text DEFAULT NULL,
+  p_dry_run boolean DEFAULT false,
+  p_cancel_conflicts boolean DEFAULT false
+)
+RETURNS TABLE (
+  donation_id uuid,
+  user_id uuid,
+  donor_name text,
+  scheduled_date date,
+  scheduled_time text,
+  reason text
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_conflict record;
+  v_entry slot_waitlist_entries%ROWTYPE;
+  v_removed uuid[];
+BEGIN
+  IF NOT owns_facility(p_facility_type, p_facility_id) THEN
+    RAISE EXCEPTION 'Not allowed to manage slots for this facility';
+  END IF;
+
+  IF p_date < current_date THEN
+    RAISE EXCEPTION 'Only today or later can be closed';
+  END IF;
+
+  IF p_dry_run THEN
+    RETURN QUERY SELECT * FROM slot_closure_conflicts(p_facility_type, p_facility_id, p_date);
+    RETURN;
+  END IF;
+
+  IF NOT p_cancel_conflicts AND EXISTS (
+    SELECT 1 FROM slot_closure_conflicts(p_facility_type, p_facility_id, p_date)
+  ) THEN
+    RAISE EXCEPTION 'Closing this day would cancel booked donations';
+  END IF;
+
+  FOR v_entry IN
+    UPDATE slot_waitlist_entries w
+    SET status = 'left'
+    WHERE w.facility_type = p_facility_type
+      AND w.facility_id = p_facility_id
+      AND w.slot_date = p_date
+      AND w.status = 'waiting'
+    RETURNING w.*
+  LOOP
+    PERFORM notify_waitlist_closed(v_entry, 'The facility is closed that day.');
+  END LOOP;
+
+  FOR v_conflict IN
+    SELECT * FROM slot_closure_conflicts(p_facility_type, p_facility_id, p_date)
+  LOOP
+    PERFORM release_donation_booking(
+      p_facility_type, v_conflict.donation_id, 'Cancelled: the facility is closed that day'
+    );
+    donation_id := v_conflict.donation_id;
+    user_id := v_conflict.user_id;
+    donor_name := v_conflict.donor_name;
+    scheduled_date := v_conflict.scheduled_date;
+    scheduled_time := v_conflict.scheduled_time;
+    reason := v_conflict.reason;
+    RETURN NEXT;
+  END LOOP;
+
+  INSERT INTO slot_closures (facility_type, facility_id, closure_date, reason)
+  VALUES (p_facility_type, p_facility_id, p_date, p_reason)
+  ON CONFLICT (facility_type, facility_id, closure_date)
+    DO UPDATE SET reason = EXCLUDED.reason;
+
+  SELECT array_agg(g.slot_id) INTO v_removed
+  FROM slot_templates t
+  CROSS JOIN LATERAL template_generated_slots(t.id) g
+  WHERE t.facility_type = p_facility_type
+    AND t.facility_id = p_facility_id
+    AND g.slot_date = p_date;
+
+  IF v_removed IS NOT NULL THEN
+    PERFORM delete_generated_slots(p_facility_type, v_removed);
+  END IF;
+END;
+$$;
+
+-- Reopens a day, regenerating slots for templates that already reach it
+CREATE OR REPLACE FUNCTION remove_slot_closure(p_closure_id uuid)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_closure slot_closures%ROWTYPE;
+  v_template slot_templates%ROWTYPE;
+BEGIN
+  SELECT * INTO v_closure FROM slot_closures WHERE id = p_closure_id;
+
+  IF NOT FOUND OR NOT owns_facility(v_closure.facility_type, v_closure.facility_id) THEN
+    RAISE EXCEPTION 'Closure not found';
+  END IF;
+
+  DELETE FROM slot_closures WHERE id = p_closure_id;
+
+  FOR v_template IN
+    SELECT t.*
+    FROM slot_templates t
+    WHERE t.facility_type = v_closure.facility_type
+      AND t.facility_id = v_closure.facility_id
+      AND t.is_active
+      AND EXISTS (
+        SELECT 1 FROM template_generated_slots(t.id) g
+        WHERE g.slot_date >= v_closure.closure_date
+      )
+  LOOP
+    PERFORM insert_template_slots(v_template, v_closure.closure_date, v_closure.closure_date);
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION plan_template_slots(slot_templates, date, date) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION template_generated_slots(uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION slot_template_conflicts(slot_templates, date, date) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION insert_template_slots(slot_templates, date, date) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION delete_generated_slots(text, uuid[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION slot_closure_conflicts(text, uuid, date) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION notify_waitlist_closed(slot_waitlist_entries, text) FROM PUBLIC, anon, authenticated;
+
+GRANT EXECUTE ON FUNCTION owns_facility(text, uuid) TO authenticated;
+GRANT EXECUTE ON FUNCTION slot_runs_on(text, uuid, date) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION get_available_slots(date, uuid, text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION save_slot_template(
+  uuid, text, uuid, text, smallint[], time, time, integer, integer, date, date, boolean, date,
+  boolean, boolean
+) TO authenticated;
+GRANT EXECUTE ON FUNCTION add_slot_closure(text, uuid, date, text, boolean, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION remove_slot_closure(uuid) TO authenticated;
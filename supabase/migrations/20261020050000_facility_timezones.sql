@@ -0,0 +1,377 @@
+/*
+  # Facility time zones
+
+  1. Changes
+    - Hospitals and blood banks get an IANA `timezone`, Asia/Kolkata for
+      existing ones. Slot dates and times stay wall-clock times at the
+      facility, read in its zone.
+    - Bookings get `scheduled_at`, the instant their slot starts, and dated
+      slots get `starts_at` / `ends_at`. Triggers keep them in step with the
+      date, time and facility; existing rows are filled in.
+    - `booked_appointments` adds the facility's zone and `scheduled_at`.
+      Reminders were timed by reading the slot in the donor's zone, which
+      was wrong for donors elsewhere: they are now timed from
+      `scheduled_at`, and mention the donor's own time when it differs.
+      No-shows wait until the slot's day has ended at the facility.
+    - Skipped and repeated times around daylight saving changes follow
+      Postgres: a skipped time moves forward, a repeated time is the later
+      one. src/lib/dateUtils.ts converts the same way.
+
+  2. Security
+    - No new policies: the zone is part of each facility's own row, and the
+      trigger functions are not callable directly
+*/
+
+CREATE OR REPLACE FUNCTION is_valid_timezone(p_timezone text)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT EXISTS (SELECT 1 FROM pg_timezone_names WHERE name = p_timezone);
+$$;
+
+ALTER TABLE hospitals
+  ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'Asia/Kolkata';
+
+ALTER TABLE blood_banks
+  ADD COLUMN IF NOT EXISTS timezone text NOT NULL DEFAULT 'Asia/Kolkata';
+
+-- pg_timezone_names cannot back a CHECK constraint, so a trigger validates
+CREATE OR REPLACE FUNCTION check_facility_timezone()
+RETURNS trigger
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NOT is_valid_timezone(NEW.timezone) THEN
+    RAISE EXCEPTION 'Unknown time zone %', NEW.timezone;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER hospitals_check_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON hospitals
+  FOR EACH ROW EXECUTE FUNCTION check_facility_timezone();
+
+CREATE TRIGGER blood_banks_check_timezone
+  BEFORE INSERT OR UPDATE OF timezone ON blood_banks
+  FOR EACH ROW EXECUTE FUNCTION check_facility_timezone();
+
+CREATE OR REPLACE FUNCTION facility_timezone(p_facility_type text, p_facility_id uuid)
+RETURNS text
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT COALESCE(
+    CASE p_facility_type
+      WHEN 'hospital' THEN (SELECT timezone FROM hospitals WHERE id = p_facility_id)
+      WHEN 'blood_bank' THEN (SELECT timezone FROM blood_banks WHERE id = p_facility_id)
+    END,
+    'Asia/Kolkata'
+  );
+$$;
+
+ALTER TABLE hospital_donations ADD COLUMN IF NOT EXISTS scheduled_at timestamptz;
+ALTER TABLE scheduled_donations ADD COLUMN IF NOT EXISTS scheduled_at timestamptz;
+
+ALTER TABLE hospital_donation_slots
+  ADD COLUMN IF NOT EXISTS starts_at timestamptz,
+  ADD COLUMN IF NOT EXISTS ends_at timestamptz;
+
+ALTER TABLE blood_bank_slots
+  ADD COLUMN IF NOT EXISTS starts_at timestamptz,
+  ADD COLUMN IF NOT EXISTS ends_at timestamptz;
+
+-- The booking's wall-clock time read in its facility's zone. Blood bank
+-- bookings without a time are taken as 09:00, as in booked_appointments.
+CREATE OR REPLACE FUNCTION set_booking_instant()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'hospital_donations' THEN
+    NEW.scheduled_at := (
+      NEW.donation_date::date + COALESCE(NEW.scheduled_time::time, NEW.donation_date::time)
+    ) AT TIME ZONE facility_timezone('hospital', NEW.hospital_id);
+  ELSE
+    NEW.scheduled_at := (
+      NEW.scheduled_date::date + COALESCE(NEW.scheduled_time::time, time '09:00')
+    ) AT TIME ZONE facility_timezone('blood_bank', NEW.blood_bank_id);
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER hospital_donations_set_instant
+  BEFORE INSERT OR UPDATE OF donation_date, scheduled_time, hospital_id ON hospital_donations
+  FOR EACH ROW EXECUTE FUNCTION set_booking_instant();
+
+CREATE TRIGGER scheduled_donations_set_instant
+  BEFORE INSERT OR UPDATE OF scheduled_date, scheduled_time, blood_bank_id ON scheduled_donations
+  FOR EACH ROW EXECUTE FUNCTION set_booking_instant();
+
+-- Dated slots only; a slot ending at or before its start runs past midnight
+CREATE OR REPLACE FUNCTION set_slot_instants()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_date date;
+  v_timezone text;
+BEGIN
+  IF TG_TABLE_NAME = 'hospital_donation_slots' THEN
+    v_date := NEW.date::date;
+    v_timezone := facility_timezone('hospital', NEW.hospital_id);
+  ELSE
+    v_date := NEW.slot_date;
+    v_timezone := facility_timezone('blood_bank', NEW.blood_bank_id);
+  END IF;
+
+  IF v_date IS NULL THEN
+    NEW.starts_at := NULL;
+    NEW.ends_at := NULL;
+  ELSE
+    NEW.starts_at := (v_date + NEW.start_time::time) AT TIME ZONE v_timezone;
+    NEW.ends_at := (
+      v_date
+      + CASE WHEN NEW.end_time::time <= NEW.start_time::time THEN 1 ELSE 0 END
+      + NEW.end_time::time
+    ) AT TIME ZONE v_timezone;
+  END IF;
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER hospital_donation_slots_set_instants
+  BEFORE INSERT OR UPDATE OF date, start_time, end_time, hospital_id ON hospital_donation_slots
+  FOR EACH ROW EXECUTE FUNCTION set_slot_instants();
+
+CREATE TRIGGER blood_bank_slots_set_instants
+  BEFORE INSERT OR UPDATE OF slot_date, start_time, end_time, blood_bank_id ON blood_bank_slots
+  FOR EACH ROW EXECUTE FUNCTION set_slot_instants();
+
+-- A facility moving zone keeps its wall-clock times, so the instants move
+CREATE OR REPLACE FUNCTION refresh_facility_instants()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF TG_TABLE_NAME = 'hospitals' THEN
+    UPDATE hospital_donations SET hospital_id = hospital_id WHERE hospital_id = NEW.id;
+    UPDATE hospital_donation_slots SET hospital_id = hospital_id WHERE hospital_id = NEW.id;
+  ELSE
+    UPDATE scheduled_donations SET blood_bank_id = blood_bank_id WHERE blood_bank_id = NEW.id;
+    UPDATE blood_bank_slots SET blood_bank_id = blood_bank_id WHERE blood_bank_id = NEW.id;
+  END IF;
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER hospitals_refresh_instants
+  AFTER UPDATE OF timezone ON hospitals
+  FOR EACH ROW WHEN (OLD.timezone IS DISTINCT FROM NEW.timezone)
+  EXECUTE FUNCTION refresh_facility_instants();
+
+CREATE TRIGGER blood_banks_refresh_instants
+  AFTER UPDATE OF timezone ON blood_banks
+  FOR EACH ROW WHEN (OLD.timezone IS DISTINCT FROM NEW.timezone)
+  EXECUTE FUNCTION refresh_facility_instants();
+
+-- Fill in existing rows through the triggers above
+UPDATE hospital_donations SET hospital_id = hospital_id;
+UPDATE scheduled_donations SET blood_bank_id = blood_bank_id;
+UPDATE hospital_donation_slots SET hospital_id = hospital_id WHERE date IS NOT NULL;
+UPDATE blood_bank_slots SET blood_bank_id = blood_bank_id WHERE slot_date IS NOT NULL;
+
+CREATE INDEX IF NOT EXISTS hospital_donations_scheduled_at_idx
+  ON hospital_donations (scheduled_at);
+
+CREATE INDEX IF NOT EXISTS scheduled_donations_scheduled_at_idx
+  ON scheduled_donations (scheduled_at);
+
+-- `timezone` stays the donor's, for quiet hours; the facility's zone and
+-- the slot's instant are appended
+CREATE OR REPLACE VIEW booked_appointments AS
+  SELECT
+    'hospital'::text AS facility_type,
+    hd.id AS donation_id,
+    hd.donor_id,
+    hd.hospital_id AS facility_id,
+    h.name AS facility_name,
+    hd.donation_date::date AS scheduled_date,
+    COALESCE(hd.scheduled_time::time, hd.donation_date::time) AS scheduled_time,
+    hd.status,
+    hd.response_token,
+    d.user_id,
+    COALESCE(np.timezone, 'Asia/Kolkata') AS timezone,
+    hd.slot_id,
+    hd.created_at AS booked_at,
+    trim(d.first_name || ' ' || COALESCE(d.last_name, '')) AS donor_name,
+    h.timezone AS facility_timezone,
+    hd.scheduled_at
+  FROM hospital_donations hd
+  JOIN hospitals h ON h.id = hd.hospital_id
+  JOIN donors d ON d.id = hd.donor_id
+  LEFT JOIN notification_preferences np ON np.user_id = d.user_id
+  UNION ALL
+  SELECT
+    'blood_bank',
+    sd.id,
+    sd.donor_id,
+    sd.blood_bank_id,
+    b.name,
+    sd.scheduled_date::date,
+    COALESCE(sd.scheduled_time::time, time '09:00'),
+    sd.status,
+    sd.response_token,
+    d.user_id,
+    COALESCE(np.timezone, 'Asia/Kolkata'),
+    sd.slot_id,
+    sd.created_at,
+    trim(d.first_name || ' ' || COALESCE(d.last_name, '')),
+    b.timezone,
+    sd.scheduled_at
+  FROM scheduled_donations sd
+  JOIN blood_banks b ON b.id = sd.blood_bank_id
+  JOIN donors d ON d.id = sd.donor_id
+  LEFT JOIN notification_preferences np ON np.user_id = d.user_id;
+
+REVOKE ALL ON booked_appointments FROM anon, authenticated;
+
+CREATE OR REPLACE FUNCTION send_appointment_reminders()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_appointment record;
+  v_notification_id uuid;
+  v_message text;
+  v_local_time text;
+  v_site_url text := current_setting('app.settings.site_url', true);
+  v_sent integer := 0;
+BEGIN
+  FOR v_appointment IN
+    SELECT a.*, k.kind
+    FROM booked_appointments a
+    CROSS JOIN (VALUES ('24h', interval '24 hours'), ('2h', interval '2 hours')) AS k(kind, lead)
+    WHERE a.status IN ('pending', 'scheduled', 'confirmed', 'rescheduled')
+      AND a.scheduled_at > now()
+      AND a.scheduled_at - k.lead <= now()
+      -- Bookings made at short notice only get the reminder that is still ahead
+      AND NOT (k.kind = '24h' AND a.scheduled_at - interval '2 hours' <= now())
+      AND NOT EXISTS (
+        SELECT 1 FROM appointment_reminders ar
+        WHERE ar.facility_type = a.facility_type
+          AND ar.donation_id = a.donation_id
+          AND ar.kind = k.kind
+      )
+  LOOP
+    v_message := format(
+      'Reminder: your blood donation at %s is on %s at %s',
+      v_appointment.facility_name,
+      to_char(v_appointment.scheduled_date, 'FMDay, FMMonth FMDD'),
+      to_char(v_appointment.scheduled_time, 'FMHH12:MI AM')
+    );
+    -- Donors away from the facility also get the time where they are
+    v_local_time := NULL;
+    IF (v_appointment.scheduled_at AT TIME ZONE v_appointment.timezone)
+       <> (v_appointment.scheduled_at AT TIME ZONE v_appointment.facility_timezone) THEN
+      v_local_time := to_char(
+        v_appointment.scheduled_at AT TIME ZONE v_appointment.timezone, 'FMHH12:MI AM Dy'
+      );
+      v_message := v_message || format(' (%s your time)', v_local_time);
+    END IF;
+    IF v_site_url IS NOT NULL THEN
+      v_message := v_message || format(
+        '. Confirm or cancel: %s/appointment/%s', v_site_url, v_appointment.response_token
+      );
+    END IF;
+
+    -- Channels of the slot_reminder template, see src/lib/notificationTemplates.ts
+    v_notification_id := send_user_notification(
+      v_appointment.user_id,
+      'slot_reminder',
+      ARRAY['in_app', 'sms', 'email', 'push'],
+      'Donation Reminder',
+      v_message,
+      jsonb_build_object(
+        'scheduled_date', v_appointment.scheduled_date,
+        'scheduled_time', to_char(v_appointment.scheduled_time, 'HH24:MI'),
+        'facility_name', v_appointment.facility_name,
+        'schedule_id', v_appointment.donation_id,
+        'response_token', v_appointment.response_token,
+        'appointment_url', v_site_url || '/appointment/' || v_appointment.response_token,
+        'local_time', v_local_time
+      )
+    );
+
+    INSERT INTO appointment_reminders (facility_type, donation_id, user_id, kind, notification_id)
+    VALUES (
+      v_appointment.facility_type, v_appointment.donation_id, v_appointment.user_id,
+      v_appointment.kind, v_notification_id
+    );
+
+    v_sent := v_sent + 1;
+  END LOOP;
+
+  RETURN v_sent;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION mark_no_show_donations()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_appointment record;
+  v_marked integer := 0;
+BEGIN
+  FOR v_appointment IN
+    SELECT a.facility_type, a.donation_id
+    FROM booked_appointments a
+    WHERE a.status IN ('pending', 'scheduled', 'confirmed', 'rescheduled')
+      AND a.scheduled_date < (now() AT TIME ZONE a.facility_timezone)::date
+  LOOP
+    IF v_appointment.facility_type = 'hospital' THEN
+      UPDATE hospital_donations
+      SET status = 'no_show', updated_at = now()
+      WHERE id = v_appointment.donation_id;
+
+      PERFORM adjust_slot_booked_count('hospital', slot_id, -1)
+      FROM hospital_donations
+      WHERE id = v_appointment.donation_id AND slot_id IS NOT NULL;
+    ELSE
+      UPDATE scheduled_donations
+      SET status = 'no_show', updated_at = now()
+      WHERE id = v_appointment.donation_id;
+
+      PERFORM adjust_slot_booked_count('blood_bank', slot_id, -1)
+      FROM scheduled_donations
+      WHERE id = v_appointment.donation_id AND slot_id IS NOT NULL;
+    END IF;
+
+    v_marked := v_marked + 1;
+  END LOOP;
+
+  RETURN v_marked;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION set_booking_instant() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION set_slot_instants() FROM PUBLIC;
+REVOKE EXECUTE ON FUNCTION refresh_facility_instants() FROM PUBLIC;
+
+GRANT EXECUTE ON FUNCTION is_valid_timezone(text) TO anon, authenticated;
+GRANT EXECUTE ON FUNCTION facility_timezone(text, uuid) TO anon, authenticated;
@@ -0,0 +1,88 @@
+/*
+  # Shared geocode cache
+
+  1. New Tables
+    - `geocode_cache`: where an address is, keyed by the normalised address
+      text, with the provider that found it and how confident it was
+
+  2. Changes
+    - `cache_geocode` stores a result, replacing a cached one only when the
+      new result is at least as confident
+    - `get_cached_geocode` returns the cached result for one address key
+    - The `ola-maps-proxy` Edge Function stores each Ola Maps geocode here,
+      so an address is looked up once for everyone; browsers keep their own
+      copy in IndexedDB and fall back to `get_cached_geocode`
+
+  3. Security
+    - The table has no read policy: it also holds donor home addresses, so
+      it cannot be listed; `get_cached_geocode` only answers for an address
+      the caller already knows
+    - Only the service role can write, through `cache_geocode`, so every
+      shared row is a provider's answer; low-confidence results are ignored
+*/
+
+CREATE TABLE IF NOT EXISTS geocode_cache (
+  address_key text PRIMARY KEY CHECK (length(address_key) BETWEEN 1 AND 500),
+  latitude double precision NOT NULL CHECK (latitude BETWEEN -90 AND 90),
+  longitude double precision NOT NULL CHECK (longitude BETWEEN -180 AND 180),
+  formatted_address text NOT NULL,
+  provider text NOT NULL CHECK (provider IN ('coordinates', 'ola_maps', 'nominatim', 'gazetteer')),
+  confidence numeric(3, 2) NOT NULL CHECK (confidence BETWEEN 0 AND 1),
+  cached_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE geocode_cache ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION get_cached_geocode(p_address_key text)
+RETURNS SETOF geocode_cache
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT * FROM geocode_cache WHERE address_key = p_address_key;
+$$;
+
+CREATE OR REPLACE FUNCTION cache_geocode(
+  p_address_key text,
+  p_latitude double precision,
+  p_longitude double precision,
+  p_formatted_address text,
+  p_provider text,
+  p_confidence numeric
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  -- Guesses are not shared
+  IF p_confidence < 0.6 THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO geocode_cache (
+    address_key, latitude, longitude, formatted_address, provider, confidence
+  )
+  VALUES (
+    p_address_key, p_latitude, p_longitude, p_formatted_address, p_provider, p_confidence
+  )
+  ON CONFLICT (address_key) DO UPDATE
+    SET latitude = EXCLUDED.latitude,
+        longitude = EXCLUDED.longitude,
+        formatted_address = EXCLUDED.formatted_address,
+        provider = EXCLUDED.provider,
+        confidence = EXCLUDED.confidence,
+        cached_at = now()
+    WHERE EXCLUDED.confidence >= geocode_cache.confidence;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION cache_geocode(text, double precision, double precision, text, text, numeric)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION cache_geocode(text, double precision, double precision, text, text, numeric)
+  TO service_role;
+
+REVOKE EXECUTE ON FUNCTION get_cached_geocode(text) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION get_cached_geocode(text) TO anon, authenticated;
@@ -0,0 +1,119 @@
+/*
+  # Nearby donor search
+
+  1. Changes
+    - `find_nearby_donors` returns the ids of active donors within a radius,
+      nearest first, optionally only those of the given blood types and
+      those who can be asked right now
+    - Where the database offers PostGIS, it is enabled and `donors.location`
+      is kept as a geography point with a GiST index, and the search uses it
+    - Otherwise the search narrows to a latitude/longitude box on a btree
+      index before measuring the haversine distance
+
+  2. Security
+    - Only ids and distances are returned; donor details are still read
+      through the donors table and its policies
+    - Signed-in users only, and at most 1000 donors within 500 km per call
+*/
+
+CREATE INDEX IF NOT EXISTS donors_latitude_longitude_idx
+  ON donors (latitude, longitude)
+  WHERE status = 'active';
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_available_extensions WHERE name = 'postgis') THEN
+    CREATE EXTENSION IF NOT EXISTS postgis WITH SCHEMA extensions;
+    PERFORM set_config('search_path', 'public, extensions', true);
+
+    ALTER TABLE donors
+      ADD COLUMN IF NOT EXISTS location geography(Point, 4326)
+      GENERATED ALWAYS AS (
+        ST_SetSRID(ST_MakePoint(longitude, latitude), 4326)::geography
+      ) STORED;
+
+    CREATE INDEX IF NOT EXISTS donors_location_idx ON donors USING gist (location);
+  END IF;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION find_nearby_donors(
+  p_latitude double precision,
+  p_longitude double precision,
+  p_radius_km double precision,
+  p_blood_types text[] DEFAULT NULL,
+  p_available_only boolean DEFAULT false,
+  p_emergency boolean DEFAULT false,
+  p_limit integer DEFAULT 200
+)
+RETURNS TABLE (donor_id uuid, distance_km double precision)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_radius_km double precision := LEAST(GREATEST(p_radius_km, 0), 500);
+  v_limit integer := LEAST(GREATEST(p_limit, 1), 1000);
+  v_dlat double precision;
+  v_dlng double precision;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Not allowed to search donors';
+  END IF;
+
+  IF p_latitude NOT BETWEEN -90 AND 90 OR p_longitude NOT BETWEEN -180 AND 180 THEN
+    RAISE EXCEPTION 'Invalid search location';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM pg_attribute
+    WHERE attrelid = 'public.donors'::regclass AND attname = 'location' AND NOT attisdropped
+  ) THEN
+    RETURN QUERY
+    SELECT d.id, ST_Distance(d.location, c.point) / 1000
+    FROM donors d,
+      (SELECT ST_SetSRID(ST_MakePoint(p_longitude, p_latitude), 4326)::geography AS point) c
+    WHERE d.status = 'active'
+      AND ST_DWithin(d.location, c.point, v_radius_km * 1000)
+      AND (p_blood_types IS NULL OR d.blood_type = ANY (p_blood_types))
+      AND (NOT p_available_only OR donor_is_available(d.id, now(), p_emergency))
+    ORDER BY d.location <-> c.point
+    LIMIT v_limit;
+    RETURN;
+  END IF;
+
+  -- Mirrors boundingBox in src/lib/geo.ts; donors are all far from the poles
+  -- and the 180th meridian
+  v_dlat := v_radius_km / 111.195;
+  v_dlng := v_radius_km / (111.195 * GREATEST(cos(radians(abs(p_latitude) + v_dlat)), 0.01));
+
+  RETURN QUERY
+  SELECT m.id, m.distance
+  FROM (
+    SELECT
+      d.id,
+      6371 * 2 * asin(sqrt(
+        power(sin(radians(d.latitude - p_latitude) / 2), 2) +
+        cos(radians(p_latitude)) * cos(radians(d.latitude)) *
+        power(sin(radians(d.longitude - p_longitude) / 2), 2)
+      )) AS distance
+    FROM donors d
+    WHERE d.status = 'active'
+      AND d.latitude BETWEEN p_latitude - v_dlat AND p_latitude + v_dlat
+      AND d.longitude BETWEEN p_longitude - v_dlng AND p_longitude + v_dlng
+      AND (p_blood_types IS NULL OR d.blood_type = ANY (p_blood_types))
+      AND (NOT p_available_only OR donor_is_available(d.id, now(), p_emergency))
+  ) m
+  WHERE m.distance <= v_radius_km
+  ORDER BY m.distance
+  LIMIT v_limit;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION find_nearby_donors(
+  double precision, double precision, double precision, text[], boolean, boolean, integer
+) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION find_nearby_donors(
+  double precision, double precision, double precision, text[], boolean, boolean, integer
+) TO authenticated;
@@ -0,0 +1,73 @@
+/*
+  # Map API proxy
+
+  1. New Tables
+    - `map_proxy_cache`: Ola Maps answers kept by the `ola-maps-proxy` Edge
+      Function, keyed by service and normalised parameters, until they
+      expire (a month for geocodes, minutes for road times)
+    - `map_proxy_usage`: requests per user or IP address in the current
+      rate limit window
+
+  2. Changes
+    - `hit_map_proxy_rate_limit` counts a request and answers whether it is
+      within the limit, dropping the subject's earlier windows
+
+  3. Security
+    - RLS on both tables with no policies: only the Edge Function, using the
+      service role, reads and writes them
+    - The rate limit function is for the service role only
+*/
+
+CREATE TABLE IF NOT EXISTS map_proxy_cache (
+  cache_key text PRIMARY KEY CHECK (length(cache_key) <= 5000),
+  service text NOT NULL CHECK (service IN ('geocode', 'autocomplete', 'directions', 'distance_matrix')),
+  response jsonb NOT NULL,
+  cached_at timestamptz NOT NULL DEFAULT now(),
+  expires_at timestamptz NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS map_proxy_cache_expires_at_idx ON map_proxy_cache (expires_at);
+
+CREATE TABLE IF NOT EXISTS map_proxy_usage (
+  subject text NOT NULL,
+  window_start timestamptz NOT NULL,
+  request_count integer NOT NULL DEFAULT 0,
+  PRIMARY KEY (subject, window_start)
+);
+
+ALTER TABLE map_proxy_cache ENABLE ROW LEVEL SECURITY;
+ALTER TABLE map_proxy_usage ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION hit_map_proxy_rate_limit(
+  p_subject text,
+  p_limit integer,
+  p_window_seconds integer
+)
+RETURNS boolean
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_window timestamptz := to_timestamp(
+    floor(extract(epoch FROM now()) / p_window_seconds) * p_window_seconds
+  );
+  v_count integer;
+BEGIN
+  INSERT INTO map_proxy_usage (subject, window_start, request_count)
+  VALUES (p_subject, v_window, 1)
+  ON CONFLICT (subject, window_start) DO UPDATE
+    SET request_count = map_proxy_usage.request_count + 1
+  RETURNING request_count INTO v_count;
+
+  DELETE FROM map_proxy_usage
+  WHERE subject = p_subject AND window_start < v_window;
+
+  RETURN v_count <= p_limit;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION hit_map_proxy_rate_limit(text, integer, integer)
+  FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION hit_map_proxy_rate_limit(text, integer, integer)
+  TO service_role;
@@ -0,0 +1,136 @@
+/*
+  # Atomic blood bank provision and expired stock
+
+  1. Changes
+    - `confirm_blood_bank_provision` issues the bags for a request
+      notification, records them on the notification and moves the request
+      to accepted in one transaction, so bags are never left issued against
+      a request that was not accepted; it refuses more units than the
+      request still needs after other blood banks' confirmations
+    - `refresh_expired_blood_inventory` recounts stock that holds bags past
+      their expiry date; it runs just after midnight when pg_cron is
+      available, since no unit changes when a bag expires
+*/
+
+CREATE OR REPLACE FUNCTION confirm_blood_bank_provision(
+  p_notification_id uuid,
+  p_units integer,
+  p_notes text DEFAULT NULL
+)
+RETURNS TABLE (
+  id uuid,
+  bag_id text,
+  blood_type text,
+  component_type text,
+  collection_date date,
+  expiry_date date
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_blood_bank_id uuid;
+  v_request_id uuid;
+  v_unit_ids uuid[];
+  v_bag_ids text;
+  v_remaining integer;
+BEGIN
+  IF p_units IS NULL OR p_units < 1 THEN
+    RAISE EXCEPTION 'At least one unit must be provided';
+  END IF;
+
+  SELECT n.blood_bank_id, n.request_id INTO v_blood_bank_id, v_request_id
+  FROM blood_bank_notifications n
+  WHERE n.id = p_notification_id
+    AND n.type = 'request'
+  FOR UPDATE;
+
+  IF v_request_id IS NULL THEN
+    RAISE EXCEPTION 'Blood bank notification % not found', p_notification_id;
+  END IF;
+
+  -- Lock the request so two blood banks confirming at once cannot both fill it
+  SELECT r.units_required - coalesce((
+    SELECT sum(n.units_provided)
+    FROM blood_bank_notifications n
+    WHERE n.request_id = r.id
+      AND n.blood_bank_confirmed
+      AND n.id <> p_notification_id
+  ), 0)::integer
+  INTO v_remaining
+  FROM blood_bank_requests r
+  WHERE r.id = v_request_id
+  FOR UPDATE OF r;
+
+  IF p_units > v_remaining THEN
+    RAISE EXCEPTION 'Only % unit(s) are still required for this request', greatest(v_remaining, 0);
+  END IF;
+
+  -- Checks the caller runs this blood bank and the request was sent to it
+  SELECT array_agg(i.id), string_agg(i.bag_id, ', ' ORDER BY i.collection_date, i.bag_id)
+  INTO v_unit_ids, v_bag_ids
+  FROM issue_blood_units(v_request_id, v_blood_bank_id, p_units) i;
+
+  UPDATE blood_bank_notifications
+  SET blood_bank_confirmed = true,
+      blood_bank_confirmation_date = now(),
+      blood_bank_notes = concat_ws(E'\n', nullif(p_notes, ''), 'Issued bags: ' || v_bag_ids),
+      units_provided = p_units,
+      status = 'accepted',
+      updated_at = now()
+  WHERE blood_bank_notifications.id = p_notification_id;
+
+  PERFORM transition_request_status(
+    'blood_bank',
+    v_request_id,
+    'accepted',
+    'blood_bank',
+    format('Issued %s unit(s)', p_units)
+  );
+
+  RETURN QUERY
+  SELECT bu.id, bu.bag_id, bu.blood_type, bu.component_type, bu.collection_date, bu.expiry_date
+  FROM blood_units bu
+  WHERE bu.id = ANY (v_unit_ids)
+  ORDER BY bu.collection_date, bu.bag_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION refresh_expired_blood_inventory()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_stock record;
+  v_refreshed integer := 0;
+BEGIN
+  FOR v_stock IN
+    SELECT DISTINCT bu.blood_bank_id, bu.blood_type, bu.component_type
+    FROM blood_units bu
+    WHERE bu.status = 'available'
+      AND bu.expiry_date < current_date
+  LOOP
+    PERFORM refresh_blood_inventory(v_stock.blood_bank_id, v_stock.blood_type, v_stock.component_type);
+    v_refreshed := v_refreshed + 1;
+  END LOOP;
+
+  RETURN v_refreshed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION refresh_expired_blood_inventory() FROM PUBLIC, anon, authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'refresh-expired-blood-inventory',
+      '5 0 * * *',
+      'SELECT refresh_expired_blood_inventory()'
+    );
+  END IF;
+END;
+$$;
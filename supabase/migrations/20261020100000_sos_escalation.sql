@@ -0,0 +1,359 @@
+/*
+  # Server-side SOS escalation
+
+  1. Changes
+    - `sos_broadcasts` keeps the radius and wait of each stage, so the
+      escalation interval stays configurable per broadcast
+    - `start_sos_broadcast` raises a broadcast for the caller's panic
+      request and alerts the first radius straight away; every stage waits
+      at least a minute
+    - `escalate_sos_broadcasts` closes broadcasts that have enough
+      acceptances and widens the others once their stage's wait is over,
+      alerting compatible available donors from `find_nearby_donors` and
+      blood banks in the new radius through `send_user_notification`. It runs every minute when pg_cron is
+      available, so escalation no longer depends on the requester keeping
+      the status page open
+    - `find_nearby_donors` no longer needs a signed-in user, so the
+      scheduled job can call it; only signed-in users may execute it
+    - Publish `sos_broadcasts` and `sos_recipients` over Supabase Realtime
+      for the status page
+
+  2. Security
+    - Recipients are only written by the escalation functions; requesters
+      can read theirs
+    - Escalation is for signed-in requesters and the scheduled job, not
+      anonymous callers
+*/
+
+ALTER TABLE sos_broadcasts
+  ADD COLUMN IF NOT EXISTS stage_radii_km numeric[] NOT NULL DEFAULT ARRAY[5, 10, 25, 50];
+
+ALTER TABLE sos_broadcasts
+  ADD COLUMN IF NOT EXISTS stage_wait_minutes integer[] NOT NULL DEFAULT ARRAY[2, 3, 5, 10];
+
+ALTER TABLE sos_broadcasts
+  ADD CONSTRAINT sos_broadcasts_stages_check
+  CHECK (
+    cardinality(stage_radii_km) > 0
+    AND cardinality(stage_radii_km) = cardinality(stage_wait_minutes)
+  );
+
+DROP POLICY IF EXISTS "Requesters manage their SOS recipients" ON sos_recipients;
+
+CREATE POLICY "Requesters read their SOS recipients"
+  ON sos_recipients FOR SELECT TO authenticated
+  USING (request_id IN (SELECT request_id FROM sos_broadcasts WHERE user_id = auth.uid()));
+
+CREATE OR REPLACE FUNCTION find_nearby_donors(
+  p_latitude double precision,
+  p_longitude double precision,
+  p_radius_km double precision,
+  p_blood_types text[] DEFAULT NULL,
+  p_available_only boolean DEFAULT false,
+  p_emergency boolean DEFAULT false,
+  p_limit integer DEFAULT 200
+)
+RETURNS TABLE (donor_id uuid, distance_km double precision)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+DECLARE
+  v_radius_km double precision := LEAST(GREATEST(p_radius_km, 0), 500);
+  v_limit integer := LEAST(GREATEST(p_limit, 1), 1000);
+  v_dlat double precision;
+  v_dlng double precision;
+BEGIN
+  IF p_latitude NOT BETWEEN -90 AND 90 OR p_longitude NOT BETWEEN -180 AND 180 THEN
+    RAISE EXCEPTION 'Invalid search location';
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM pg_attribute
+    WHERE attrelid = 'public.donors'::regclass AND attname = 'location' AND NOT attisdropped
+  ) THEN
+    RETURN QUERY
+    SELECT d.id, ST_Distance(d.location, c.point) / 1000
+    FROM donors d,
+      (SELECT ST_SetSRID(ST_MakePoint(p_longitude, p_latitude), 4326)::geography AS point) c
+    WHERE d.status = 'active'
+      AND ST_DWithin(d.location, c.point, v_radius_km * 1000)
+      AND (p_blood_types IS NULL OR d.blood_type = ANY (p_blood_types))
+      AND (NOT p_available_only OR donor_is_available(d.id, now(), p_emergency))
+    ORDER BY d.location <-> c.point
+    LIMIT v_limit;
+    RETURN;
+  END IF;
+
+  -- Mirrors boundingBox in src/lib/geo.ts; donors are all far from the poles
+  -- and the 180th meridian
+  v_dlat := v_radius_km / 111.195;
+  v_dlng := v_radius_km / (111.195 * GREATEST(cos(radians(abs(p_latitude) + v_dlat)), 0.01));
+
+  RETURN QUERY
+  SELECT m.id, m.distance
+  FROM (
+    SELECT
+      d.id,
+      6371 * 2 * asin(sqrt(
+        power(sin(radians(d.latitude - p_latitude) / 2), 2) +
+        cos(radians(p_latitude)) * cos(radians(d.latitude)) *
+        power(sin(radians(d.longitude - p_longitude) / 2), 2)
+      )) AS distance
+    FROM donors d
+    WHERE d.status = 'active'
+      AND d.latitude BETWEEN p_latitude - v_dlat AND p_latitude + v_dlat
+      AND d.longitude BETWEEN p_longitude - v_dlng AND p_longitude + v_dlng
+      AND (p_blood_types IS NULL OR d.blood_type = ANY (p_blood_types))
+      AND (NOT p_available_only OR donor_is_available(d.id, now(), p_emergency))
+  ) m
+  WHERE m.distance <= v_radius_km
+  ORDER BY m.distance
+  LIMIT v_limit;
+END;
+$$;
+
+-- Mirrors countSosAcceptances in src/lib/sosBroadcast.ts
+CREATE OR REPLACE FUNCTION count_sos_acceptances(p_request_id uuid)
+RETURNS integer
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT (
+    SELECT count(*) FROM donor_responses dr
+    WHERE dr.request_id = p_request_id
+      AND dr.status NOT IN ('rejected', 'declined')
+  )::integer + (
+    SELECT count(*) FROM request_pledges rp
+    WHERE rp.request_id = p_request_id
+      AND rp.blood_bank_id IS NOT NULL
+      AND rp.status <> 'withdrawn'
+  )::integer;
+$$;
+
+REVOKE EXECUTE ON FUNCTION count_sos_acceptances(uuid) FROM PUBLIC, anon, authenticated;
+
+-- Alerts compatible available donors and blood banks within the radius of
+-- `p_stage` who were not alerted before, and moves the broadcast to it
+CREATE OR REPLACE FUNCTION alert_sos_stage(p_request_id uuid, p_stage integer)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_broadcast sos_broadcasts%ROWTYPE;
+  v_request emergency_requests%ROWTYPE;
+  v_radius_km numeric;
+  v_blood_types text[];
+  v_recipient record;
+  v_alerted integer := 0;
+BEGIN
+  SELECT * INTO v_broadcast FROM sos_broadcasts WHERE request_id = p_request_id FOR UPDATE;
+  SELECT * INTO v_request FROM emergency_requests WHERE id = p_request_id;
+  v_radius_km := v_broadcast.stage_radii_km[p_stage + 1];
+
+  -- Without a known blood type, donors of every type are alerted
+  v_blood_types := compatible_donor_blood_types(v_request.blood_type, v_request.component_type);
+  IF cardinality(v_blood_types) = 0 THEN
+    v_blood_types := NULL;
+  END IF;
+
+  FOR v_recipient IN
+    SELECT d.id AS donor_id, NULL::uuid AS blood_bank_id, d.user_id, n.distance_km
+    FROM find_nearby_donors(
+      v_broadcast.latitude, v_broadcast.longitude, v_radius_km,
+      v_blood_types, true, true, 1000
+    ) n
+    JOIN donors d ON d.id = n.donor_id
+    WHERE d.user_id <> v_broadcast.user_id
+      AND NOT EXISTS (
+        SELECT 1 FROM sos_recipients r
+        WHERE r.request_id = p_request_id AND r.donor_id = d.id
+      )
+    UNION ALL
+    SELECT NULL, b.id, b.user_id, b.distance_km
+    FROM (
+      SELECT
+        bb.id,
+        bb.user_id,
+        6371 * 2 * asin(sqrt(
+          power(sin(radians(bb.latitude - v_broadcast.latitude) / 2), 2) +
+          cos(radians(v_broadcast.latitude)) * cos(radians(bb.latitude)) *
+          power(sin(radians(bb.longitude - v_broadcast.longitude) / 2), 2)
+        )) AS distance_km
+      FROM blood_banks bb
+      WHERE bb.latitude IS NOT NULL AND bb.longitude IS NOT NULL
+    ) b
+    WHERE b.distance_km <= v_radius_km
+      AND NOT EXISTS (
+        SELECT 1 FROM sos_recipients r
+        WHERE r.request_id = p_request_id AND r.blood_bank_id = b.id
+      )
+  LOOP
+    INSERT INTO sos_recipients (request_id, donor_id, blood_bank_id, stage, radius_km, distance_km)
+    VALUES (
+      p_request_id, v_recipient.donor_id, v_recipient.blood_bank_id,
+      p_stage, v_radius_km, v_recipient.distance_km
+    );
+
+    -- Same wording as the emergency_nearby template
+    PERFORM send_user_notification(
+      v_recipient.user_id,
+      'emergency_nearby',
+      ARRAY['in_app', 'sms', 'push'],
+      'Urgent: Blood Needed Nearby',
+      format(
+        '%s blood is urgently needed (%s km away)',
+        v_request.blood_type, round(v_recipient.distance_km::numeric, 1)
+      ),
+      jsonb_build_object(
+        'request_id', p_request_id,
+        'blood_type', v_request.blood_type,
+        'distance_km', round(v_recipient.distance_km::numeric, 1),
+        'urgency_level', v_request.urgency_level
+      ),
+      true
+    );
+
+    v_alerted := v_alerted + 1;
+  END LOOP;
+
+  UPDATE sos_broadcasts
+  SET stage = p_stage,
+      radius_km = v_radius_km,
+      stage_started_at = now(),
+      updated_at = now()
+  WHERE request_id = p_request_id;
+
+  RETURN v_alerted;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION alert_sos_stage(uuid, integer) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION start_sos_broadcast(
+  p_request_id uuid,
+  p_latitude double precision,
+  p_longitude double precision,
+  p_target_acceptances integer DEFAULT 1,
+  p_stage_wait_minutes integer[] DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (
+    SELECT 1 FROM emergency_requests r
+    WHERE r.id = p_request_id AND r.user_id = auth.uid() AND r.is_panic
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to start an SOS broadcast for this request';
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM unnest(p_stage_wait_minutes) w WHERE w IS NULL OR w < 1) THEN
+    RAISE EXCEPTION 'Each SOS stage must wait at least one minute';
+  END IF;
+
+  INSERT INTO sos_broadcasts (
+    request_id, user_id, latitude, longitude, stage, radius_km, target_acceptances,
+    stage_wait_minutes
+  )
+  VALUES (
+    p_request_id, auth.uid(), p_latitude, p_longitude, 0, 5, GREATEST(p_target_acceptances, 1),
+    COALESCE(p_stage_wait_minutes, ARRAY[2, 3, 5, 10])
+  );
+
+  RETURN alert_sos_stage(p_request_id, 0);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION start_sos_broadcast(uuid, double precision, double precision, integer, integer[])
+  TO authenticated;
+
+-- Signed-in users may only move their own broadcast along; the scheduled
+-- job runs without a user and covers every active broadcast. Anonymous
+-- callers cannot execute it, so a missing user always means the job.
+CREATE OR REPLACE FUNCTION escalate_sos_broadcasts(p_request_id uuid DEFAULT NULL)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_broadcast record;
+  v_escalated integer := 0;
+BEGIN
+  IF auth.uid() IS NOT NULL AND NOT EXISTS (
+    SELECT 1 FROM sos_broadcasts b
+    WHERE b.request_id = p_request_id AND b.user_id = auth.uid()
+  ) THEN
+    RAISE EXCEPTION 'Not allowed to escalate this SOS broadcast';
+  END IF;
+
+  FOR v_broadcast IN
+    SELECT b.*, r.status AS request_status
+    FROM sos_broadcasts b
+    JOIN emergency_requests r ON r.id = b.request_id
+    WHERE b.status = 'active'
+      AND (p_request_id IS NULL OR b.request_id = p_request_id)
+    FOR UPDATE OF b SKIP LOCKED
+  LOOP
+    IF v_broadcast.request_status IN ('fulfilled', 'cancelled', 'expired', 'completed') THEN
+      UPDATE sos_broadcasts
+      SET status = CASE WHEN v_broadcast.request_status = 'fulfilled' THEN 'satisfied' ELSE 'cancelled' END,
+          updated_at = now()
+      WHERE request_id = v_broadcast.request_id;
+    ELSIF count_sos_acceptances(v_broadcast.request_id) >= v_broadcast.target_acceptances THEN
+      UPDATE sos_broadcasts
+      SET status = 'satisfied', updated_at = now()
+      WHERE request_id = v_broadcast.request_id;
+    ELSIF v_broadcast.stage + 1 < cardinality(v_broadcast.stage_radii_km)
+      AND v_broadcast.stage_started_at
+        + make_interval(mins => v_broadcast.stage_wait_minutes[v_broadcast.stage + 1]) <= now()
+    THEN
+      PERFORM alert_sos_stage(v_broadcast.request_id, v_broadcast.stage + 1);
+      v_escalated := v_escalated + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_escalated;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION escalate_sos_broadcasts(uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION escalate_sos_broadcasts(uuid) TO authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.schedule(
+      'escalate-sos-broadcasts',
+      '* * * * *',
+      'SELECT escalate_sos_broadcasts()'
+    );
+  END IF;
+END;
+$$;
+
+DO $$
+DECLARE
+  v_table text;
+BEGIN
+  FOREACH v_table IN ARRAY ARRAY['sos_broadcasts', 'sos_recipients']
+  LOOP
+    IF NOT EXISTS (
+      SELECT 1
+      FROM pg_publication_tables
+      WHERE pubname = 'supabase_realtime'
+        AND schemaname = 'public'
+        AND tablename = v_table
+    ) THEN
+      EXECUTE format('ALTER PUBLICATION supabase_realtime ADD TABLE public.%I', v_table);
+    END IF;
+  END LOOP;
+END $$;
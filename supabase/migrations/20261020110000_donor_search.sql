@@ -0,0 +1,55 @@
+/*
+  # Donor search with availability filtered in the database
+
+  1. Changes
+    - `search_donors` returns active donors, optionally only those who can
+      be asked right now, so Find Donors can filter, count and paginate
+      with PostgREST without first loading every available donor id
+    - `list_available_donor_ids` takes an optional `p_donor_ids`, so a page
+      of results can be checked without listing every available donor
+
+  2. Security
+    - `search_donors` runs as the caller, so the donors policies still apply
+*/
+
+CREATE OR REPLACE FUNCTION search_donors(
+  p_available_only boolean DEFAULT false,
+  p_emergency boolean DEFAULT false
+)
+RETURNS SETOF donors
+LANGUAGE sql
+STABLE
+SET search_path = public
+AS $$
+  SELECT d.*
+  FROM donors d
+  WHERE d.status = 'active'
+    AND (
+      NOT p_available_only
+      OR (d.is_available AND donor_is_available(d.id, now(), p_emergency))
+    );
+$$;
+
+DROP FUNCTION IF EXISTS list_available_donor_ids(boolean);
+
+CREATE OR REPLACE FUNCTION list_available_donor_ids(
+  p_emergency boolean DEFAULT false,
+  p_donor_ids uuid[] DEFAULT NULL
+)
+RETURNS TABLE (donor_id uuid)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT d.id
+  FROM donors d
+  WHERE d.status = 'active'
+    AND d.is_available
+    AND (p_donor_ids IS NULL OR d.id = ANY (p_donor_ids))
+    AND donor_is_available(d.id, now(), p_emergency);
+$$;
+
+REVOKE EXECUTE ON FUNCTION search_donors(boolean, boolean) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION search_donors(boolean, boolean) TO authenticated;
+GRANT EXECUTE ON FUNCTION list_available_donor_ids(boolean, uuid[]) TO authenticated;
@@ -0,0 +1,118 @@
+/*
+  # Notification relay
+
+  1. Changes
+    - `can_notify_user` answers whether one user has reason to notify
+      another: the requester and a donor who offered, was scheduled or
+      donated for the same emergency request, or a hospital or blood bank
+      and a donor booked with it
+    - `relay_user_notification` hands one SMS or email notification sent
+      from the app to the send-notification function through pg_net, with
+      the event and its data only; the function words the message from the
+      event's template
+
+  2. Security
+    - The send-notification function now accepts only the service role, so
+      signed-in users reach it through `relay_user_notification`, which
+      refuses recipients the sender has no link to and events the database
+      sends itself
+*/
+
+CREATE OR REPLACE FUNCTION can_notify_user(p_sender uuid, p_recipient uuid)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+  SELECT p_sender = p_recipient
+    -- The requester and a donor of the same emergency request, either way
+    OR EXISTS (
+      SELECT 1
+      FROM emergency_requests er
+      JOIN donors d ON d.user_id IN (p_sender, p_recipient) AND d.user_id <> er.user_id
+      WHERE er.user_id IN (p_sender, p_recipient)
+        AND (
+          EXISTS (SELECT 1 FROM donor_responses dr WHERE dr.request_id = er.id AND dr.donor_id = d.id)
+          OR EXISTS (
+            SELECT 1 FROM donation_schedules ds
+            WHERE ds.emergency_request_id = er.id AND ds.donor_id = d.id
+          )
+          OR EXISTS (SELECT 1 FROM blood_donations bd WHERE bd.request_id = er.id AND bd.donor_id = d.id)
+        )
+    )
+    -- A facility and a donor who booked with it
+    OR EXISTS (
+      SELECT 1
+      FROM hospitals h
+      JOIN hospital_donations hd ON hd.hospital_id = h.id
+      JOIN donors d ON d.id = hd.donor_id
+      WHERE h.user_id = p_sender AND d.user_id = p_recipient
+    )
+    OR EXISTS (
+      SELECT 1
+      FROM blood_banks b
+      JOIN scheduled_donations sd ON sd.blood_bank_id = b.id
+      JOIN donors d ON d.id = sd.donor_id
+      WHERE b.user_id = p_sender AND d.user_id = p_recipient
+    );
+$$;
+
+CREATE OR REPLACE FUNCTION relay_user_notification(
+  p_user_id uuid,
+  p_event text,
+  p_channel text,
+  p_data jsonb,
+  p_notification_id uuid DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+  v_functions_url text := current_setting('app.settings.supabase_url', true);
+  v_service_key text := current_setting('app.settings.service_role_key', true);
+BEGIN
+  IF auth.uid() IS NULL OR NOT can_notify_user(auth.uid(), p_user_id) THEN
+    RAISE EXCEPTION 'Not allowed to notify this user';
+  END IF;
+
+  -- Reminders, waitlist changes and SOS alerts are only sent by the database
+  IF p_event NOT IN (
+    'blood_offer', 'donation_accepted', 'donation_declined', 'donation_scheduled',
+    'donation_rescheduled', 'donation_cancelled', 'donation_confirmed', 'blood_group_verified'
+  ) THEN
+    RAISE EXCEPTION 'Event % cannot be sent from the app', p_event;
+  END IF;
+
+  IF p_channel NOT IN ('sms', 'email') THEN
+    RAISE EXCEPTION 'Unsupported channel %', p_channel;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_net')
+     OR v_functions_url IS NULL OR v_service_key IS NULL THEN
+    RAISE EXCEPTION 'Notifications are not configured';
+  END IF;
+
+  PERFORM net.http_post(
+    url := v_functions_url || '/functions/v1/send-notification',
+    headers := jsonb_build_object(
+      'Authorization', 'Bearer ' || v_service_key,
+      'Content-Type', 'application/json'
+    ),
+    body := jsonb_build_object(
+      'userId', p_user_id,
+      'channel', p_channel,
+      'event', p_event,
+      'notificationId', p_notification_id,
+      'data', COALESCE(p_data, '{}')
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION can_notify_user(uuid, uuid) FROM PUBLIC, anon, authenticated;
+
+REVOKE EXECUTE ON FUNCTION relay_user_notification(uuid, text, text, jsonb, uuid) FROM PUBLIC, anon;
+GRANT EXECUTE ON FUNCTION relay_user_notification(uuid, text, text, jsonb, uuid) TO authenticated;